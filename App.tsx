@@ -36,6 +36,10 @@ import { CertificationsAdmin } from './components/ControlPlane/CertificationsAdm
 import { TraceabilityPanel } from './components/Tenant/TraceabilityPanel';
 // TECS-FBW-016: tenant audit log read-only panel (EXPERIENCE-only surface)
 import { SupplierInquiryInbox, TenantAuditLogs } from './components/Tenant/TenantAuditLogs';
+// TENANT-WEBHOOKS-001: outbound webhook subscriptions and delivery log (EXPERIENCE-only surface)
+import { WebhooksPanel } from './components/Tenant/WebhooksPanel';
+// ANALYTICS-PROJECTIONS-001: supplier performance and buyer spend dashboard (EXPERIENCE-only surface)
+import { AnalyticsDashboard } from './components/Tenant/AnalyticsDashboard';
 // TECS-FBW-002-B: G-017 tenant trade read-only panel
 import { TradesPanel } from './components/Tenant/TradesPanel';
 import { TraceabilityAdmin } from './components/ControlPlane/TraceabilityAdmin';
@@ -56,11 +60,12 @@ import { EscrowAdminPanel } from './components/ControlPlane/EscrowAdminPanel';
 // PW5-W3-FE: Settlement admin read panel (backend route: 14aea49)
 import { SettlementAdminPanel } from './components/ControlPlane/SettlementAdminPanel';
 import { ZohoBooksOps } from './components/ControlPlane/ZohoBooksOps';
+import { ApiDocs } from './components/ControlPlane/ApiDocs';
 // PW5-W4: G-021 maker-checker approval queue console (read-only)
 import { MakerCheckerConsole } from './components/ControlPlane/MakerCheckerConsole';
 // PW5-WL1-WIRE: white-label storefront product grid
 import { WLStorefront } from './components/WL/WLStorefront';
-import { TenantRegistry } from './components/ControlPlane/TenantRegistry';
+import { TenantRegistry, mapRegistryTenantToConfig } from './components/ControlPlane/TenantRegistry';
 import { TenantDetails } from './components/ControlPlane/TenantDetails';
 import { AuditLogs } from './components/ControlPlane/AuditLogs';
 import { FinanceOps, type FinanceEscrowBridgeTarget } from './components/ControlPlane/FinanceOps';
@@ -118,6 +123,7 @@ import {
   type AggregatorDiscoveryEntry,
 } from './services/aggregatorDiscoveryService';
 import {
+  createTradeFromRfq,
   type CreateTradeFromRfqInput,
   type CreateTradeFromRfqResponse,
 } from './services/tradeService';
@@ -138,6 +144,11 @@ import {
   getSupplierRfqInbox,
   getSupplierRfqDetail,
   submitSupplierRfqResponse,
+  submitSupplierRfqQuoteRevision,
+  submitBuyerRfqCounterOffer,
+  acceptBuyerRfqQuote,
+  type RfqQuoteMutationResult,
+  type RfqQuoteTermsRequest,
   BuyerRfqDetail,
   BuyerRfqListItem,
   SupplierRfqDetail,
@@ -192,6 +203,14 @@ import {
   type RuntimeAppState,
   type RuntimeLocalRouteKey,
 } from './runtime/sessionRuntimeDescriptor';
+import {
+  buildRuntimeUrlPath,
+  isRuntimeAppPath,
+  parseRuntimeUrlPath,
+  resolveRuntimeDirectNavigationRouteKey,
+  resolveRuntimeUrlSurfaceFromPath,
+  type RuntimeUrlLocation,
+} from './runtime/runtimeUrlRoutes';
 
 const CONTROL_PLANE_IDENTITY_KEY = 'texqtic_control_plane_identity';
 const IMPERSONATION_SESSION_KEY = 'texqtic_impersonation_session';
@@ -205,9 +224,18 @@ const EMPTY_IMPERSONATION_STATE: ImpersonationState = {
   expiresAt: null,
 };
 
+/** CATALOG-VARIANTS-001: variant chosen on the product page before opening the RFQ dialog. */
+type BuyerRfqDialogVariant = {
+  id: string;
+  label: string;
+  sku: string | null;
+  moq: number | null;
+};
+
 type BuyerRfqDialogState = {
   open: boolean;
   product: CatalogItem | null;
+  variant: BuyerRfqDialogVariant | null;
   quantity: string;
   buyerMessage: string;
   loading: boolean;
@@ -279,6 +307,7 @@ type BuyerRfqTradeBridgeState = {
 const createInitialBuyerRfqDialogState = (): BuyerRfqDialogState => ({
   open: false,
   product: null,
+  variant: null,
   quantity: '1',
   buyerMessage: '',
   loading: false,
@@ -347,10 +376,12 @@ const createInitialBuyerRfqTradeBridgeState = (): BuyerRfqTradeBridgeState => ({
 
 const resolveBuyerRfqOpenAction = ({
   product,
+  variant = null,
   isVerificationBlockedTenantWorkspace,
   verificationBlockedActionMessage,
 }: {
   product: CatalogItem;
+  variant?: BuyerRfqDialogVariant | null;
   isVerificationBlockedTenantWorkspace: boolean;
   verificationBlockedActionMessage: string;
 }) => {
@@ -369,7 +400,8 @@ const resolveBuyerRfqOpenAction = ({
       ...createInitialBuyerRfqDialogState(),
       open: true,
       product,
-      quantity: product.moq ? String(product.moq) : '1',
+      variant,
+      quantity: (variant?.moq ?? product.moq) ? String(variant?.moq ?? product.moq) : '1',
     },
   };
 };
@@ -420,6 +452,7 @@ const resolveBuyerRfqSubmitPayload = (dialog: BuyerRfqDialogState) => {
     payload: {
       catalogItemId: dialog.product.id,
       quantity,
+      ...(dialog.variant ? { variantId: dialog.variant.id } : {}),
       ...(buyerMessage ? { buyerMessage } : {}),
       ...(requirementTitle ? { requirementTitle } : {}),
       ...(quantityUnit ? { quantityUnit } : {}),
@@ -560,6 +593,13 @@ export const resolveRfqConfirmationSummary = (
 ): Array<{ label: string; value: string }> => {
   const lines: Array<{ label: string; value: string }> = [];
 
+  if (dialog.variant) {
+    lines.push({
+      label: 'Variant',
+      value: dialog.variant.sku ? `${dialog.variant.label} (${dialog.variant.sku})` : dialog.variant.label,
+    });
+  }
+
   const q = Number(dialog.quantity);
   const qDisplay = `${Number.isNaN(q) ? dialog.quantity : q}${dialog.quantityUnit.trim() ? ` ${dialog.quantityUnit.trim()}` : ''}`;
   lines.push({ label: 'Quantity', value: qDisplay });
@@ -1117,16 +1157,65 @@ const resolveBuyerRfqTradeFromRfqCreateAction = (rfq: BuyerRfqDetail | null) =>
     };
   }
 
-  // Supplier-quoted commercial amount is not available on the buyer RFQ detail surface.
-  // Trade creation from RFQ requires a supplier quote pricing workflow (not yet supported).
+  // Trade terms come only from an accepted supplier quote revision (TECS-RFQ-QUOTE-001).
   // Do not use catalog item price or any buyer-facing price field.
+  const acceptedQuote = rfq.accepted_quote_id
+    ? rfq.quote_thread?.find(quote => quote.id === rfq.accepted_quote_id) ?? null
+    : null;
+
+  if (!acceptedQuote) {
+    return {
+      kind: 'noop' as const,
+      tradeBridge: null,
+      payload: null,
+    };
+  }
+
   return {
-    kind: 'noop' as const,
-    tradeBridge: null,
-    payload: null,
+    kind: 'create' as const,
+    tradeBridge: {
+      ...createInitialBuyerRfqTradeBridgeState(),
+      loading: true,
+    } satisfies BuyerRfqTradeBridgeState,
+    payload: {
+      rfqId: rfq.id,
+      tradeReference: `RFQ-${rfq.id.slice(0, 8).toUpperCase()}-Q${acceptedQuote.revision}`,
+      currency: acceptedQuote.currency,
+      grossAmount: acceptedQuote.total_amount,
+      reason: `Trade created from accepted RFQ quote revision ${acceptedQuote.revision}`,
+    } satisfies CreateTradeFromRfqInput,
   };
 };
 
+type RfqQuoteActionState = {
+  loading: boolean;
+  error: string | null;
+};
+
+const createInitialRfqQuoteActionState = (): RfqQuoteActionState => ({
+  loading: false,
+  error: null,
+});
+
+// TECS-RFQ-QUOTE-001: quote mutations return the refreshed negotiation; merge it into
+// whichever RFQ detail (buyer or supplier) is on screen without refetching the RFQ.
+const applyRfqQuoteMutationResult = <T extends BuyerRfqDetail | SupplierRfqDetail>(
+  rfq: T | null,
+  result: RfqQuoteMutationResult,
+): T | null => (rfq
+  ? {
+      ...rfq,
+      quote_thread: result.quote_thread,
+      best_terms: result.best_terms,
+      accepted_quote_id: result.accepted_quote_id,
+    }
+  : rfq);
+
+const resolveRfqQuoteActionError = (error: unknown) => ({
+  loading: false,
+  error: error instanceof APIError ? error.message : 'Unable to update the RFQ quote right now.',
+}) satisfies RfqQuoteActionState;
+
 const resolveBuyerRfqTradeFromRfqSuccess = ({
   currentDetailView,
   result,
@@ -1198,6 +1287,8 @@ const EXPERIENCE_VIEWS = [
   'CERTIFICATIONS',
   'TRACEABILITY',
   'AUDIT_LOGS',
+  'WEBHOOKS',
+  'ANALYTICS',
   'TRADES',
   'RFQS',
   'SUPPLIER_RFQ_INBOX',
@@ -1875,6 +1966,8 @@ export const __B2B_TRADE_FROM_RFQ_TESTING__ = {
   resolveBuyerRfqTradeFromRfqCreateAction,
   continueBuyerRfqTradeFromRfqCreatePath,
   resolveBuyerRfqTradeFromRfqError,
+  applyRfqQuoteMutationResult,
+  resolveRfqQuoteActionError,
 };
 
 // TECS-B2B-BUYER-SUPPLIER-SELECTION-UX-REFINE-001: Pure helper — resolves display name from
@@ -2205,6 +2298,12 @@ const resolveInitialAppState = (): AppState => {
       return 'TOKEN_HANDLER';
     }
 
+    // ROUTING-URL-001: Shell routes (/w, /wl-admin, /cp) are authenticated surfaces. Signed-out
+    // visitors land on sign-in; the requested route is restored once the session is established.
+    if (isRuntimeAppPath(globalThis.window.location.pathname)) {
+      return 'AUTH';
+    }
+
     // C-FG-016: Any unrecognized path (not root) → explicit not-found surface with noindex
     const unknownPathname = globalThis.window.location.pathname;
     if (unknownPathname !== '/' && unknownPathname !== '') {
@@ -2216,8 +2315,14 @@ const resolveInitialAppState = (): AppState => {
 };
 
 const resolveInitialAuthRealm = (): 'TENANT' | 'CONTROL_PLANE' => {
-  return hasStoredAuthenticatedSession()
-    ? getCurrentAuthRealm('TENANT') ?? 'TENANT'
+  if (hasStoredAuthenticatedSession()) {
+    return getCurrentAuthRealm('TENANT') ?? 'TENANT';
+  }
+
+  // ROUTING-URL-001: a signed-out control-plane deep link opens the control-plane sign-in.
+  return globalThis.window !== undefined
+    && resolveRuntimeUrlSurfaceFromPath(globalThis.window.location.pathname) === 'control_plane'
+    ? 'CONTROL_PLANE'
     : 'TENANT';
 };
 
@@ -2415,6 +2520,8 @@ const App: React.FC = () => {
   // TECS-FBW-005: 'CERTIFICATIONS' added for G-019 tenant certification lifecycle panel
   // TECS-FBW-015: 'TRACEABILITY' added for G-016 traceability CRUD panel
   // TECS-FBW-016: 'AUDIT_LOGS' added for tenant audit log read-only panel
+  // TENANT-WEBHOOKS-001: 'WEBHOOKS' added for tenant outbound webhook subscriptions
+  // ANALYTICS-PROJECTIONS-001: 'ANALYTICS' added for the tenant analytics dashboard
   // TECS-FBW-002-B: 'TRADES' added for G-017 tenant trade read-only panel
   const [expView, setExpView] = useState<ExperienceView>('HOME');
 
@@ -2465,8 +2572,20 @@ const App: React.FC = () => {
   const [supplierRfqListView, setSupplierRfqListView] = useState<SupplierRfqListViewState>(createInitialSupplierRfqListViewState);
   const [supplierRfqDetailView, setSupplierRfqDetailView] = useState<SupplierRfqDetailViewState>(createInitialSupplierRfqDetailViewState);
   const [buyerRfqTradeBridge, setBuyerRfqTradeBridge] = useState<BuyerRfqTradeBridgeState>(createInitialBuyerRfqTradeBridgeState);
+  const [rfqQuoteAction, setRfqQuoteAction] = useState<RfqQuoteActionState>(createInitialRfqQuoteActionState);
   const lastTenantViewScopeKeyRef = useRef<string | null>(null);
   const [selectedPoolId, setSelectedPoolId] = useState<string | null>(null);
+  const [tenantTradeRouteId, setTenantTradeRouteId] = useState<string | null>(null);
+  const [tradesPanelKey, setTradesPanelKey] = useState(0);
+  // ROUTING-URL-001: route requested by the URL at load, applied once a shell session is ready.
+  const pendingRuntimeUrlRef = useRef<RuntimeUrlLocation | null | undefined>(undefined);
+  if (pendingRuntimeUrlRef.current === undefined) {
+    pendingRuntimeUrlRef.current = globalThis.window === undefined
+      ? null
+      : parseRuntimeUrlPath(globalThis.window.location.pathname);
+  }
+  const lastRuntimeUrlRouteScopeRef = useRef<string | null>(null);
+  const runtimeUrlSyncHeldRef = useRef(false);
 
   const resetTenantScopedRouteState = () => {
     setExpView('HOME');
@@ -3980,7 +4099,12 @@ const App: React.FC = () => {
     const fetchInsight = async () => {
       setAiInsight('Thinking...');
       const insight = await getPlatformInsights(
-        `Provide a brief market trend analysis for a ${currentTenant.type} platform named ${currentTenant.name}.`
+        `Provide a brief market trend analysis for a ${currentTenant.type} platform named ${currentTenant.name}.`,
+        textSoFar => {
+          if (!cancelled) {
+            setAiInsight(textSoFar);
+          }
+        }
       );
 
       if (!cancelled) {
@@ -5157,9 +5281,14 @@ const App: React.FC = () => {
     );
   };
 
-  const handleOpenRfqDialog = (product: CatalogItem, catalogStage?: string | null) => {
+  const handleOpenRfqDialog = (
+    product: CatalogItem,
+    catalogStage?: string | null,
+    variant?: BuyerRfqDialogVariant | null,
+  ) => {
     const openOutcome = resolveBuyerRfqOpenAction({
       product,
+      variant,
       isVerificationBlockedTenantWorkspace,
       verificationBlockedActionMessage,
     });
@@ -5271,6 +5400,7 @@ const App: React.FC = () => {
   };
 
   const handleOpenRfqDetail = async (rfqId?: string, source: 'dialog' | 'list' = 'dialog') => {
+    setRfqQuoteAction(createInitialRfqQuoteActionState());
     const openAction = resolveBuyerRfqDetailOpenAction({
       rfqId,
       fallbackRfqId: rfqDialog.success?.rfqId,
@@ -5342,10 +5472,26 @@ const App: React.FC = () => {
     }
 
     const createAction = resolveBuyerRfqTradeFromRfqCreateAction(rfq);
-    // Trade creation from responded RFQ is not available — supplier-quoted pricing workflow required.
-    if (createAction.tradeBridge) {
-      setBuyerRfqTradeBridge(createAction.tradeBridge);
+    // Without an accepted supplier quote there are no trade terms to carry forward.
+    if (createAction.kind === 'noop') {
+      return;
     }
+
+    setBuyerRfqTradeBridge(createAction.tradeBridge);
+    const outcome = await continueBuyerRfqTradeFromRfqCreatePath({
+      payload: createAction.payload,
+      currentDetailView: rfqDetailView,
+      createTrade: createTradeFromRfq,
+    });
+
+    if (outcome.kind === 'error') {
+      setBuyerRfqTradeBridge(resolveBuyerRfqTradeFromRfqError(outcome.error));
+      return;
+    }
+
+    setBuyerRfqTradeBridge(outcome.tradeBridge);
+    setRfqDetailView(outcome.detailView);
+    navigateTenantManifestRoute('trades');
   };
 
   const handleOpenSupplierRfqInbox = async () => {
@@ -5361,6 +5507,7 @@ const App: React.FC = () => {
   };
 
   const handleOpenSupplierRfqDetail = async (rfqId: string) => {
+    setRfqQuoteAction(createInitialRfqQuoteActionState());
     const openAction = resolveSupplierRfqDetailOpenAction({
       rfqId,
       currentDetailView: supplierRfqDetailView,
@@ -5425,6 +5572,307 @@ const App: React.FC = () => {
     setSupplierRfqListView(result.listView);
   };
 
+  const runRfqQuoteAction = async (mutate: () => Promise<RfqQuoteMutationResult>) => {
+    setRfqQuoteAction({ loading: true, error: null });
+    try {
+      const result = await mutate();
+      setRfqQuoteAction(createInitialRfqQuoteActionState());
+      return result;
+    } catch (error) {
+      setRfqQuoteAction(resolveRfqQuoteActionError(error));
+      return null;
+    }
+  };
+
+  const handleAcceptBuyerRfqQuote = async (quoteId: string) => {
+    const rfqId = rfqDetailView.data?.id;
+    if (!rfqId) {
+      return;
+    }
+
+    const result = await runRfqQuoteAction(() => acceptBuyerRfqQuote(rfqId, quoteId));
+    if (result) {
+      setRfqDetailView(view => ({ ...view, data: applyRfqQuoteMutationResult(view.data, result) }));
+    }
+  };
+
+  const handleSubmitBuyerRfqCounterOffer = async (terms: RfqQuoteTermsRequest) => {
+    const rfqId = rfqDetailView.data?.id;
+    if (!rfqId) {
+      return;
+    }
+
+    const result = await runRfqQuoteAction(() => submitBuyerRfqCounterOffer(rfqId, terms));
+    if (result) {
+      setRfqDetailView(view => ({ ...view, data: applyRfqQuoteMutationResult(view.data, result) }));
+    }
+  };
+
+  const handleSubmitSupplierRfqQuoteRevision = async (terms: RfqQuoteTermsRequest) => {
+    const rfqId = supplierRfqDetailView.rfqId;
+    if (!rfqId) {
+      return;
+    }
+
+    const result = await runRfqQuoteAction(() => submitSupplierRfqQuoteRevision(rfqId, terms));
+    if (result) {
+      setSupplierRfqDetailView(view => ({ ...view, data: applyRfqQuoteMutationResult(view.data, result) }));
+    }
+  };
+
+  // ROUTING-URL-001: URL-addressable shell routes. The active runtime route and its record id are
+  // mirrored into the address bar; deep links, reloads and back/forward are replayed through the
+  // manifest navigators after the same manifest and capability gates as in-app navigation.
+  const runtimeUrlLocation = useMemo((): RuntimeUrlLocation | null => {
+    switch (appState) {
+      case 'EXPERIENCE': {
+        const routeKey = tenantLocalRouteSelection?.routeKey;
+
+        if (!routeKey) {
+          return null;
+        }
+
+        let id: string | null = null;
+
+        if (routeKey === 'buyer_rfqs' && rfqDetailView.open && rfqDetailView.source === 'list') {
+          id = rfqDetailView.rfqId;
+        } else if (routeKey === 'supplier_rfq_inbox' && supplierRfqDetailView.open) {
+          id = supplierRfqDetailView.rfqId;
+        } else if (routeKey === 'trades') {
+          id = tenantTradeRouteId;
+        } else if (
+          routeKey === 'nc_pool_detail'
+          || routeKey === 'nc_pool_demand_lines'
+          || routeKey === 'nc_pool_rfq'
+        ) {
+          id = selectedPoolId;
+        }
+
+        return { surface: 'workspace', routeKey, id };
+      }
+      case 'WL_ADMIN':
+        return wlAdminLocalRouteSelection
+          ? { surface: 'wl_admin', routeKey: wlAdminLocalRouteSelection.routeKey, id: null }
+          : null;
+      case 'CONTROL_PLANE':
+        return controlPlaneLocalRouteSelection
+          ? { surface: 'control_plane', routeKey: controlPlaneLocalRouteSelection.routeKey, id: selectedTenant?.id ?? null }
+          : null;
+      default:
+        return null;
+    }
+  }, [
+    appState,
+    tenantLocalRouteSelection,
+    wlAdminLocalRouteSelection,
+    controlPlaneLocalRouteSelection,
+    rfqDetailView.open,
+    rfqDetailView.source,
+    rfqDetailView.rfqId,
+    supplierRfqDetailView.open,
+    supplierRfqDetailView.rfqId,
+    tenantTradeRouteId,
+    selectedPoolId,
+    selectedTenant?.id,
+  ]);
+  const runtimeUrlPath = runtimeUrlLocation
+    ? buildRuntimeUrlPath(runtimeUrlLocation.surface, runtimeUrlLocation.routeKey, runtimeUrlLocation.id)
+    : null;
+  const runtimeUrlRouteScope = runtimeUrlLocation
+    ? `${runtimeUrlLocation.surface}:${runtimeUrlLocation.routeKey}`
+    : null;
+
+  const replaceRuntimeUrlOnFallback = (location: RuntimeUrlLocation, routeKey: RuntimeLocalRouteKey) => {
+    if (routeKey === location.routeKey) {
+      return;
+    }
+
+    const fallbackPath = buildRuntimeUrlPath(location.surface, routeKey);
+
+    if (fallbackPath) {
+      globalThis.window.history.replaceState(null, '', fallbackPath);
+    }
+  };
+
+  const applyRuntimeUrlLocation = (location: RuntimeUrlLocation): boolean => {
+    if (location.surface === 'control_plane') {
+      const manifestEntry = controlPlaneRuntimeHandoff?.manifestEntry ?? null;
+      const routeKey = appState === 'CONTROL_PLANE'
+        ? resolveRuntimeDirectNavigationRouteKey(controlPlaneRuntimeDescriptor, manifestEntry, location.routeKey)
+        : null;
+
+      if (!routeKey) {
+        return false;
+      }
+
+      replaceRuntimeUrlOnFallback(location, routeKey);
+      const registration = getRuntimeLocalRouteRegistration(manifestEntry, routeKey);
+      const tenantId = routeKey === location.routeKey ? location.id : null;
+
+      if (!registration?.route.stateBinding.requiresSelectedTenant || !tenantId) {
+        navigateControlPlaneManifestRoute(routeKey);
+        return true;
+      }
+
+      const detailAdminView = registration.route.stateBinding.adminView as AdminView;
+      runtimeUrlSyncHeldRef.current = true;
+      setAdminView(detailAdminView);
+      void getTenantById(tenantId)
+        .then(detail => {
+          setSelectedTenant(mapRegistryTenantToConfig(detail.tenant));
+        })
+        .catch(() => {
+          setSelectedTenant(null);
+          const registryRouteKey = resolveRuntimeLocalRouteSelection(manifestEntry, {
+            adminView: detailAdminView,
+            selectedTenantId: null,
+          })?.routeKey;
+          const registryPath = registryRouteKey
+            ? buildRuntimeUrlPath('control_plane', registryRouteKey)
+            : null;
+
+          if (registryPath) {
+            globalThis.window.history.replaceState(null, '', registryPath);
+          }
+        })
+        .finally(() => {
+          runtimeUrlSyncHeldRef.current = false;
+        });
+      return true;
+    }
+
+    if (appState !== 'EXPERIENCE' && appState !== 'WL_ADMIN') {
+      return false;
+    }
+
+    if (location.surface === 'wl_admin') {
+      const routeKey = resolveRuntimeDirectNavigationRouteKey(
+        tenantRuntimeDescriptor,
+        tenantWlAdminRuntimeHandoff?.manifestEntry ?? null,
+        location.routeKey,
+      );
+
+      if (!routeKey) {
+        return false;
+      }
+
+      replaceRuntimeUrlOnFallback(location, routeKey);
+      navigateWlAdminManifestRoute(routeKey);
+      return true;
+    }
+
+    const routeKey = resolveRuntimeDirectNavigationRouteKey(
+      tenantRuntimeDescriptor,
+      tenantWorkspaceRuntimeHandoff?.manifestEntry ?? null,
+      location.routeKey,
+      { verificationBlocked: isVerificationBlockedTenantWorkspace },
+    );
+
+    if (!routeKey) {
+      return false;
+    }
+
+    replaceRuntimeUrlOnFallback(location, routeKey);
+    const id = routeKey === location.routeKey ? location.id : null;
+
+    switch (routeKey) {
+      case 'buyer_rfqs':
+        void handleOpenBuyerRfqs();
+        if (id) {
+          void handleOpenRfqDetail(id, 'list');
+        }
+        break;
+      case 'supplier_rfq_inbox':
+        void handleOpenSupplierRfqInbox();
+        if (id) {
+          void handleOpenSupplierRfqDetail(id);
+        }
+        break;
+      case 'trades':
+        // Remount the panel so back/forward between a trade and the list is honoured.
+        setBuyerRfqTradeBridge(view => ({ ...view, initialTradeId: id }));
+        setTenantTradeRouteId(id);
+        setTradesPanelKey(key => key + 1);
+        navigateTenantManifestRoute(routeKey);
+        break;
+      case 'nc_pool_detail':
+      case 'nc_pool_demand_lines':
+      case 'nc_pool_rfq':
+        setSelectedPoolId(id);
+        navigateTenantManifestRoute(routeKey);
+        break;
+      default:
+        navigateTenantManifestRoute(routeKey);
+    }
+
+    return true;
+  };
+  const applyRuntimeUrlLocationRef = useRef(applyRuntimeUrlLocation);
+  applyRuntimeUrlLocationRef.current = applyRuntimeUrlLocation;
+  const runtimeUrlPathRef = useRef(runtimeUrlPath);
+  runtimeUrlPathRef.current = runtimeUrlPath;
+
+  // Mirror state → URL. Route changes push a history entry; record-id changes within a route and
+  // the first landing in a shell replace it.
+  useEffect(() => {
+    if (!runtimeUrlPath || !runtimeUrlRouteScope) {
+      lastRuntimeUrlRouteScopeRef.current = null;
+      return;
+    }
+
+    if (pendingRuntimeUrlRef.current || runtimeUrlSyncHeldRef.current) {
+      return;
+    }
+
+    const previousRouteScope = lastRuntimeUrlRouteScopeRef.current;
+    lastRuntimeUrlRouteScopeRef.current = runtimeUrlRouteScope;
+
+    if (globalThis.window.location.pathname === runtimeUrlPath) {
+      return;
+    }
+
+    if (previousRouteScope === null || previousRouteScope === runtimeUrlRouteScope) {
+      globalThis.window.history.replaceState(null, '', runtimeUrlPath);
+    } else {
+      globalThis.window.history.pushState(null, '', runtimeUrlPath);
+    }
+  }, [runtimeUrlPath, runtimeUrlRouteScope]);
+
+  // Deep link restore: apply the route requested at load once the shell session is ready.
+  // Declared after the mirror effect so the landing render does not overwrite the requested URL.
+  useEffect(() => {
+    const pending = pendingRuntimeUrlRef.current;
+
+    if (!pending || !runtimeUrlRouteScope) {
+      return;
+    }
+
+    pendingRuntimeUrlRef.current = null;
+
+    // A link into another shell (e.g. /cp/* in a tenant session) is not applicable: show the
+    // current route's URL instead.
+    if (!applyRuntimeUrlLocationRef.current(pending) && runtimeUrlPath) {
+      lastRuntimeUrlRouteScopeRef.current = runtimeUrlRouteScope;
+      globalThis.window.history.replaceState(null, '', runtimeUrlPath);
+    }
+  }, [runtimeUrlRouteScope, runtimeUrlPath]);
+
+  // Back/forward: replay the popped URL through the same gates.
+  useEffect(() => {
+    const handlePopState = () => {
+      const location = parseRuntimeUrlPath(globalThis.window.location.pathname);
+
+      if (location && !applyRuntimeUrlLocationRef.current(location) && runtimeUrlPathRef.current) {
+        globalThis.window.history.replaceState(null, '', runtimeUrlPathRef.current);
+      }
+    };
+
+    globalThis.window.addEventListener('popstate', handlePopState);
+    return () => {
+      globalThis.window.removeEventListener('popstate', handlePopState);
+    };
+  }, []);
+
   /** Wave 4 P1: WL Store Admin — content renderer for back-office panels. */
   const renderWLAdminContent = () => {
     if (!currentTenant || !wlAdminLocalRouteSelection) return null;
@@ -6079,7 +6527,15 @@ const App: React.FC = () => {
       case 'wl_storefront':
         return (
           <WLStorefront
-            onRequestQuote={handleOpenRfqDialog}
+            onRequestQuote={(item, variant) =>
+              handleOpenRfqDialog(
+                item,
+                null,
+                variant
+                  ? { id: variant.id, label: variant.label, sku: variant.sku, moq: variant.moq ?? item.moq ?? null }
+                  : null,
+              )
+            }
             onViewBuyerRfqs={handleOpenBuyerRfqs}
           />
         );
@@ -6302,6 +6758,14 @@ const App: React.FC = () => {
               }}
               tradeContinuityLoading={buyerRfqTradeBridge.loading}
               tradeContinuityError={buyerRfqTradeBridge.error}
+              quoteActionLoading={rfqQuoteAction.loading}
+              quoteActionError={rfqQuoteAction.error}
+              onAcceptQuote={quoteId => {
+                void handleAcceptBuyerRfqQuote(quoteId);
+              }}
+              onSubmitCounterOffer={terms => {
+                void handleSubmitBuyerRfqCounterOffer(terms);
+              }}
             />
           );
         }
@@ -6332,6 +6796,11 @@ const App: React.FC = () => {
               onSubmitResponse={message => {
                 void handleSubmitSupplierRfqResponse(message);
               }}
+              quoteActionLoading={rfqQuoteAction.loading}
+              quoteActionError={rfqQuoteAction.error}
+              onSubmitQuoteRevision={terms => {
+                void handleSubmitSupplierRfqQuoteRevision(terms);
+              }}
             />
           );
         }
@@ -6387,9 +6856,15 @@ const App: React.FC = () => {
         return <TraceabilityPanel onBack={() => navigateTenantDefaultManifestRoute()} />;
       case 'audit_logs':
         return <TenantAuditLogs onBack={() => navigateTenantDefaultManifestRoute()} />;
+      case 'webhooks':
+        return <WebhooksPanel onBack={() => navigateTenantDefaultManifestRoute()} />;
+      case 'analytics':
+        return <AnalyticsDashboard onBack={() => navigateTenantDefaultManifestRoute()} />;
       case 'trades':
         return (
           <TradesPanel
+            key={tradesPanelKey}
+            onSelectedTradeChange={setTenantTradeRouteId}
             onBack={() => {
               navigateTenantDefaultManifestRoute({ resetTradeBridge: true });
             }}
@@ -6492,7 +6967,13 @@ const App: React.FC = () => {
                   updatedAt: '',
                   moq: buyerCatalogPdpItem?.availabilitySummary.moqValue ?? undefined,
                 };
-                handleOpenRfqDialog(asProduct, payload.stage ?? undefined);
+                handleOpenRfqDialog(
+                  asProduct,
+                  payload.stage ?? undefined,
+                  payload.variantId && payload.variantLabel
+                    ? { id: payload.variantId, label: payload.variantLabel, sku: null, moq: payload.variantMoq ?? null }
+                    : null,
+                );
               }}
             />
           );
@@ -7131,6 +7612,9 @@ const App: React.FC = () => {
       // IMPL-SUPERADMIN-ZOHO-BOOKS-CONTACT-SYNC-MONITORING-READONLY-01: Phase 1 read-only
       case 'zoho_books_ops':
         return <ZohoBooksOps />;
+      // API-DOCS-OPENAPI-001: generated OpenAPI reference
+      case 'api_docs':
+        return <ApiDocs />;
       default:
         return null;
     }
@@ -8545,6 +9029,14 @@ const App: React.FC = () => {
       }}
       tradeContinuityLoading={buyerRfqTradeBridge.loading}
       tradeContinuityError={buyerRfqTradeBridge.error}
+      quoteActionLoading={rfqQuoteAction.loading}
+      quoteActionError={rfqQuoteAction.error}
+      onAcceptQuote={quoteId => {
+        void handleAcceptBuyerRfqQuote(quoteId);
+      }}
+      onSubmitCounterOffer={terms => {
+        void handleSubmitBuyerRfqCounterOffer(terms);
+      }}
     />
   ) : (
     <div className="space-y-4">
@@ -8953,7 +9445,8 @@ const App: React.FC = () => {
             <div className="p-8 pb-4 flex-shrink-0">
               <h2 className="text-xl font-bold text-slate-900">Request Quote</h2>
               <p className="text-sm text-slate-500 mt-2">
-                Submit a non-binding request for quote for <strong>{rfqDialog.product.name}</strong>.
+                Submit a non-binding request for quote for <strong>{rfqDialog.product.name}</strong>
+                {rfqDialog.variant && <> (<span data-testid="buyer-rfq-dialog-variant">{rfqDialog.variant.label}</span>)</>}.
                 This starts an RFQ only and does not create an order or checkout commitment.
               </p>
             </div>
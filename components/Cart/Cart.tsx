@@ -9,7 +9,7 @@ import React, { useState } from 'react';
 import { useCart } from '../../contexts/CartContext';
 import { EmptyState, ErrorState, CartItemSkeleton } from '../shared';
 import { APIError, type ApiError } from '../../services/apiClient';
-import { checkout, type CheckoutResult } from '../../services/cartService';
+import { checkout, getCartLineUnitPrice, type CheckoutResult } from '../../services/cartService';
 
 export const Cart: React.FC<{
   /** TECS-FBW-014: optional callback for App-level ORDER_CONFIRMED transition.
@@ -180,6 +180,7 @@ export const Cart: React.FC<{
       <div className="space-y-4">
         {cart.items.map(item => {
           const isUpdating = updatingItems.has(item.id);
+          const unitPrice = getCartLineUnitPrice(item);
 
           return (
             <div
@@ -190,9 +191,12 @@ export const Cart: React.FC<{
             >
               <div className="flex-1">
                 <h3 className="font-bold text-slate-900">{item.catalogItem.name}</h3>
-                <p className="text-xs text-slate-500">SKU: {item.catalogItem.sku}</p>
+                {item.variant && (
+                  <p className="text-xs font-medium text-slate-600">{item.variant.label}</p>
+                )}
+                <p className="text-xs text-slate-500">SKU: {item.variant?.sku ?? item.catalogItem.sku}</p>
                 <p className="text-sm font-bold text-slate-700 mt-1">
-                  ${item.catalogItem.price.toFixed(2)} each
+                  ${unitPrice.toFixed(2)} each
                 </p>
               </div>
 
@@ -216,7 +220,7 @@ export const Cart: React.FC<{
 
               <div className="text-right w-24">
                 <div className="font-bold text-slate-900">
-                  ${(item.catalogItem.price * item.quantity).toFixed(2)}
+                  ${(unitPrice * item.quantity).toFixed(2)}
                 </div>
               </div>
 
@@ -1,99 +1,323 @@
-import React from 'react';
+/**
+ * ApiDocs — SuperAdmin API Reference (API-DOCS-OPENAPI-001)
+ *
+ * Renders the OpenAPI 3.1 documents the server generates from its route zod
+ * schemas (GET /api/control/openapi/:realm). Replaces the hardcoded
+ * placeholder: every entry here is a registered route — the server contract
+ * test fails when a route is missing from the documents.
+ *
+ * Surface:
+ *   - Realm tabs (public / tenant / control / internal) with operation counts
+ *   - Search across method, path, summary, tag and operationId
+ *   - Operations grouped by tag; expanding one shows auth, parameters,
+ *     request example and success response example
+ *
+ * Read-only: the reference never issues the documented requests.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  getApiDocsDocument,
+  listApiDocsRealms,
+  type ApiDocsRealm,
+  type ApiDocsRealmSummary,
+  type OpenApiDocument,
+  type OpenApiOperation,
+  type OpenApiSchema,
+} from '../../services/controlPlaneService';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+interface ApiDocsEntry {
+  method: string;
+  path: string;
+  operation: OpenApiOperation;
+}
+
+const API_DOCS_REALMS: ApiDocsRealm[] = ['public', 'tenant', 'control', 'internal'];
+
+const METHOD_STYLE: Record<string, string> = {
+  GET: 'bg-blue-500/10 text-blue-400 border-blue-400/20',
+  POST: 'bg-emerald-500/10 text-emerald-400 border-emerald-400/20',
+  PUT: 'bg-violet-500/10 text-violet-400 border-violet-400/20',
+  PATCH: 'bg-amber-500/10 text-amber-400 border-amber-400/20',
+  DELETE: 'bg-rose-500/10 text-rose-400 border-rose-400/20',
+};
+
+const SECURITY_LABEL: Record<string, string> = {
+  tenantBearer: 'Tenant JWT',
+  adminBearer: 'Admin JWT',
+  internalHeader: 'X-Texqtic-Internal',
+  resolverHmac: 'Resolver HMAC',
+  provisioningHmac: 'Provisioning HMAC',
+};
+
+function entriesOf(document: OpenApiDocument): ApiDocsEntry[] {
+  return Object.entries(document.paths).flatMap(([path, item]) =>
+    Object.entries(item).map(([method, operation]) => ({
+      method: method.toUpperCase(),
+      path,
+      operation,
+    })),
+  );
+}
+
+function matchesSearch(entry: ApiDocsEntry, needle: string): boolean {
+  if (!needle) return true;
+  return [
+    entry.method,
+    entry.path,
+    entry.operation.summary,
+    entry.operation.description ?? '',
+    entry.operation.operationId,
+    ...entry.operation.tags,
+  ].some(value => value.toLowerCase().includes(needle));
+}
+
+function schemaLabel(schema: OpenApiSchema | undefined): string {
+  if (!schema) return 'string';
+  if (Array.isArray(schema.enum)) return schema.enum.map(String).join(' | ');
+  const type = typeof schema.type === 'string' ? schema.type : 'any';
+  return typeof schema.format === 'string' ? `${type} (${schema.format})` : type;
+}
+
+function successResponse(operation: OpenApiOperation) {
+  const status = Object.keys(operation.responses).find(code => code.startsWith('2') || code.startsWith('3'));
+  return status ? { status, response: operation.responses[status] } : null;
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+const MethodBadge: React.FC<{ method: string }> = ({ method }) => (
+  <span
+    className={`w-16 shrink-0 text-[10px] font-black text-center py-1 rounded border ${
+      METHOD_STYLE[method] ?? 'bg-slate-800 text-slate-300 border-slate-700'
+    }`}
+  >
+    {method}
+  </span>
+);
+
+const JsonExample: React.FC<{ label: string; contentType: string; value: unknown }> = ({
+  label,
+  contentType,
+  value,
+}) => (
+  <div>
+    <div className="flex items-center justify-between mb-1">
+      <span className="text-xs font-semibold text-slate-400 uppercase tracking-widest">{label}</span>
+      <span className="text-[10px] font-mono text-slate-500">{contentType}</span>
+    </div>
+    <pre className="bg-slate-950 border border-slate-800 rounded p-3 text-xs font-mono text-slate-300 overflow-x-auto max-h-80">
+      {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
+    </pre>
+  </div>
+);
+
+const OperationDetail: React.FC<{ operation: OpenApiOperation }> = ({ operation }) => {
+  const requestContent = operation.requestBody
+    ? Object.entries(operation.requestBody.content)[0]
+    : undefined;
+  const success = successResponse(operation);
+  const responseContent = success?.response.content
+    ? Object.entries(success.response.content)[0]
+    : undefined;
+  const schemes = (operation.security ?? []).flatMap(requirement => Object.keys(requirement));
+
+  return (
+    <div className="px-4 pb-4 pt-1 space-y-4 bg-slate-900/60">
+      {operation.description && <p className="text-sm text-slate-400">{operation.description}</p>}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-slate-500">Auth:</span>
+        {schemes.length === 0 ? (
+          <span className="px-2 py-0.5 rounded bg-slate-800 text-slate-400 border border-slate-700">None</span>
+        ) : (
+          schemes.map(scheme => (
+            <span key={scheme} className="px-2 py-0.5 rounded bg-sky-900/40 text-sky-300 border border-sky-700">
+              {SECURITY_LABEL[scheme] ?? scheme}
+            </span>
+          ))
+        )}
+        <span className="ml-auto font-mono text-slate-600">{operation.operationId}</span>
+      </div>
+
+      {operation.parameters && operation.parameters.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-800">
+              <th className="py-1 pr-4 font-medium">Parameter</th>
+              <th className="py-1 pr-4 font-medium">In</th>
+              <th className="py-1 pr-4 font-medium">Type</th>
+              <th className="py-1 font-medium">Required</th>
+            </tr>
+          </thead>
+          <tbody>
+            {operation.parameters.map(parameter => (
+              <tr key={`${parameter.in}:${parameter.name}`} className="border-b border-slate-800/60">
+                <td className="py-1 pr-4 font-mono text-slate-200">{parameter.name}</td>
+                <td className="py-1 pr-4 text-slate-400">{parameter.in}</td>
+                <td className="py-1 pr-4 font-mono text-slate-400">{schemaLabel(parameter.schema)}</td>
+                <td className="py-1 text-slate-400">{parameter.required ? 'yes' : 'no'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {requestContent && requestContent[1].example !== undefined && (
+        <JsonExample label="Request example" contentType={requestContent[0]} value={requestContent[1].example} />
+      )}
+
+      {success && (
+        responseContent && responseContent[1].example !== undefined ? (
+          <JsonExample
+            label={`Response ${success.status}`}
+            contentType={responseContent[0]}
+            value={responseContent[1].example}
+          />
+        ) : (
+          <div className="text-xs text-slate-500">
+            Response {success.status}: {success.response.description}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+// ─── Main component ───────────────────────────────────────────────────────────
 
 export const ApiDocs: React.FC = () => {
-  const archivedExamples = [
-    {
-      name: 'Identity & Org (IAM)',
-      endpoints: [
-        { method: 'GET', path: '/tenants', desc: 'List all platform tenants' },
-        { method: 'POST', path: '/tenants', desc: 'Provision a new multi-tenant environment' },
-        {
-          method: 'PATCH',
-          path: '/tenants/:id/status',
-          desc: 'Modify lifecycle status (active, suspend)',
-        },
-      ],
-    },
-    {
-      name: 'Commerce Engine',
-      endpoints: [
-        { method: 'POST', path: '/commerce/rfq', desc: 'Initiate a Request for Quote' },
-        {
-          method: 'GET',
-          path: '/commerce/negotiations/:id',
-          desc: 'Fetch real-time negotiation state',
-        },
-        {
-          method: 'POST',
-          path: '/commerce/payouts',
-          desc: 'Trigger financial settlement workflow',
-        },
-      ],
-    },
-    {
-      name: 'Governance & AI',
-      endpoints: [
-        { method: 'GET', path: '/ai/budgets', desc: 'Fetch token consumption metrics' },
-        {
-          method: 'POST',
-          path: '/ai/kill-switch',
-          desc: 'Instant emergency disable of AI features',
-        },
-      ],
-    },
-  ];
+  const [realms, setRealms] = useState<ApiDocsRealmSummary[]>([]);
+  const [realm, setRealm] = useState<ApiDocsRealm>('tenant');
+  const [apiDocument, setApiDocument] = useState<OpenApiDocument | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    listApiDocsRealms()
+      .then(result => setRealms(result.realms))
+      .catch(() => setRealms([]));
+  }, []);
+
+  const loadDocument = useCallback(async (target: ApiDocsRealm) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setApiDocument(await getApiDocsDocument(target));
+    } catch (err) {
+      setApiDocument(null);
+      setError(err instanceof Error ? err.message : 'Failed to load the API reference');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setExpanded(null);
+    void loadDocument(realm);
+  }, [realm, loadDocument]);
+
+  const groups = useMemo(() => {
+    if (!apiDocument) return [];
+    const needle = search.trim().toLowerCase();
+    const byTag = new Map<string, ApiDocsEntry[]>();
+    for (const entry of entriesOf(apiDocument)) {
+      if (!matchesSearch(entry, needle)) continue;
+      const tag = entry.operation.tags[0] ?? 'Other';
+      byTag.set(tag, [...(byTag.get(tag) ?? []), entry]);
+    }
+    return [...byTag.entries()];
+  }, [apiDocument, search]);
+
+  const matchCount = groups.reduce((total, [, entries]) => total + entries.length, 0);
 
   return (
-    <div className="space-y-8 max-w-4xl">
+    <div className="space-y-6 max-w-5xl">
       <div>
-        <h1 className="text-2xl font-bold text-white">Preserved API Placeholder</h1>
+        <h1 className="text-2xl font-bold text-white">API Reference</h1>
         <p className="text-slate-400 text-sm">
-          Retained historical shell only. This panel is not live API or contract authority.
+          {apiDocument
+            ? `${apiDocument.info.title} · OpenAPI ${apiDocument.openapi} · v${apiDocument.info.version}`
+            : 'Generated from the route validation schemas.'}
         </p>
+        {apiDocument?.info.description && (
+          <p className="text-slate-500 text-xs mt-1">{apiDocument.info.description}</p>
+        )}
       </div>
 
-      <div className="rounded-xl border border-amber-500/20 bg-amber-500/10 p-4 text-sm text-amber-100">
-        <p className="font-semibold uppercase tracking-widest text-[11px] text-amber-300">
-          Non-Authoritative Surface
-        </p>
-        <p className="mt-2 text-amber-50/90">
-          The entries below are preserved placeholder examples kept for traceability only. They are
-          hardcoded, not runtime-backed, and should not be treated as current platform API truth.
-        </p>
+      <div className="flex flex-wrap gap-2">
+        {API_DOCS_REALMS.map(value => {
+          const summary = realms.find(entry => entry.realm === value);
+          return (
+            <button
+              key={value}
+              onClick={() => setRealm(value)}
+              title={summary?.description}
+              className={`px-3 py-1.5 rounded text-xs font-semibold uppercase tracking-widest border transition-colors ${
+                realm === value
+                  ? 'bg-rose-500/10 text-rose-400 border-rose-500/40'
+                  : 'bg-slate-900 text-slate-400 border-slate-800 hover:text-slate-200'
+              }`}
+            >
+              {value}
+              {summary && <span className="ml-2 text-slate-500">{summary.operations}</span>}
+            </button>
+          );
+        })}
       </div>
 
-      {archivedExamples.map((domain, idx) => (
-        <div key={idx} className="space-y-4">
-          <h2 className="text-sm font-bold text-rose-500 uppercase tracking-widest flex items-center gap-2">
-            <span className="w-1.5 h-1.5 rounded-full bg-rose-500"></span>
-            Archived Placeholder: {domain.name}
-          </h2>
-          <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden divide-y divide-slate-800">
-            {domain.endpoints.map((ep, i) => {
-              const METHOD_STYLE: Record<string, string> = {
-                GET: 'bg-blue-500/10 text-blue-400 border-blue-400/20',
-                POST: 'bg-emerald-500/10 text-emerald-400 border-emerald-400/20',
-              };
-              const DEFAULT_METHOD_STYLE = 'bg-amber-500/10 text-amber-400 border-amber-400/20';
-              const methodStyle = METHOD_STYLE[ep.method] ?? DEFAULT_METHOD_STYLE;
-
-              return (
-                <div key={i} className="p-4 flex items-center gap-6">
-                  <div
-                    className={`w-16 text-[10px] font-black text-center py-1 rounded border ${methodStyle}`}
-                  >
-                    {ep.method}
-                  </div>
-                  <div className="font-mono text-sm text-slate-300">{ep.path}</div>
-                  <div className="text-xs text-slate-500 ml-auto">
-                    Placeholder example: {ep.desc}
+      <div className="flex items-center gap-3">
+        <input
+          type="search"
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          placeholder="Search method, path, summary or tag…"
+          className="flex-1 bg-slate-900 border border-slate-800 rounded px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-slate-600"
+        />
+        <span className="text-xs text-slate-500">{matchCount} operations</span>
+      </div>
+
+      {error && (
+        <div className="rounded bg-red-900/30 border border-red-800 px-3 py-2 text-xs text-red-300">{error}</div>
+      )}
+      {loading && <div className="text-sm text-slate-500">Loading…</div>}
+
+      {!loading && apiDocument && groups.length === 0 && (
+        <div className="text-sm text-slate-500">No operations match “{search}”.</div>
+      )}
+
+      {!loading &&
+        groups.map(([tag, entries]) => (
+          <section key={tag} className="space-y-2">
+            <h2 className="text-sm font-bold text-rose-500 uppercase tracking-widest flex items-center gap-2">
+              <span className="w-1.5 h-1.5 rounded-full bg-rose-500"></span>
+              {tag}
+            </h2>
+            <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden divide-y divide-slate-800">
+              {entries.map(entry => {
+                const key = `${entry.method} ${entry.path}`;
+                const isOpen = expanded === key;
+                return (
+                  <div key={key}>
+                    <button
+                      onClick={() => setExpanded(isOpen ? null : key)}
+                      className="w-full p-4 flex items-center gap-6 text-left hover:bg-slate-800/40 transition-colors"
+                    >
+                      <MethodBadge method={entry.method} />
+                      <span className="font-mono text-sm text-slate-300 break-all">{entry.path}</span>
+                      <span className="text-xs text-slate-500 ml-auto text-right">{entry.operation.summary}</span>
+                    </button>
+                    {isOpen && <OperationDetail operation={entry.operation} />}
                   </div>
-                </div>
-              );
-            })}
-          </div>
-        </div>
-      ))}
+                );
+              })}
+            </div>
+          </section>
+        ))}
     </div>
   );
 };
@@ -1,5 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { getAuditLogs, AuditLog, AuditLogsQueryParams } from '../../services/controlPlaneService';
+import {
+  getAuditLogs,
+  verifyAuditChain,
+  downloadAuditExport,
+  AuditLog,
+  AuditLogsQueryParams,
+  AuditChainParams,
+} from '../../services/controlPlaneService';
+import { auditExportRangeFromDays, AuditChainVerification } from '../../services/auditLogService';
 import { EmptyState, ErrorState, AuditLogSkeleton } from '../shared';
 import { APIError } from '../../services/apiClient';
 
@@ -63,6 +71,178 @@ function getAuditCreatedAtLabel(createdAt: AuditLog['createdAt']): string {
   return Number.isNaN(parsed.getTime()) ? createdAt : parsed.toLocaleString();
 }
 
+const CHAIN_STATUS_CLASSES: Record<AuditChainVerification['status'], string> = {
+  INTACT: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  BROKEN: 'bg-rose-500/10 text-rose-400 border-rose-500/30',
+  EMPTY: 'bg-slate-800 text-slate-400 border-slate-700',
+};
+
+function todayIsoDate(): string {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString().slice(0, 10);
+}
+
+/**
+ * Chain verification and signed export (AUDIT-CHAIN-001). One chain at a time:
+ * the platform chain, or a tenant's chain by tenant ID.
+ */
+const AuditChainIntegrity: React.FC = () => {
+  const [chainTenantId, setChainTenantId] = useState('');
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [exportFrom, setExportFrom] = useState(() => todayIsoDate().slice(0, 8) + '01');
+  const [exportTo, setExportTo] = useState(todayIsoDate);
+  const [exporting, setExporting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const chain = (): AuditChainParams => {
+    const tenantId = chainTenantId.trim();
+    return tenantId ? { realm: 'TENANT', tenantId } : { realm: 'ADMIN' };
+  };
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    setActionError(null);
+    try {
+      setVerification(await verifyAuditChain(chain()));
+    } catch (err) {
+      setVerification(null);
+      setActionError(err instanceof APIError ? err.message : 'Audit chain verification failed.');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setActionError(null);
+    try {
+      const selected = chain();
+      const blob = await downloadAuditExport(selected, auditExportRangeFromDays(exportFrom, exportTo));
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-log-${selected.tenantId ?? 'platform'}-${exportFrom}_${exportTo}.zip`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      setActionError(err instanceof APIError ? err.message : 'Audit log export failed.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const busy = verifying || exporting;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-4">
+      <div className="flex flex-wrap gap-3 items-end">
+        <div className="flex-1 min-w-[260px]">
+          <label
+            htmlFor="audit-chain-tenant"
+            className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1"
+          >
+            Hash Chain
+            {' '}
+            <span className="ml-1 text-slate-600 normal-case font-normal">(tenant ID, or empty for the platform chain)</span>
+          </label>
+          <input
+            id="audit-chain-tenant"
+            type="text"
+            value={chainTenantId}
+            onChange={e => setChainTenantId(e.target.value)}
+            placeholder="Platform (admin actions)"
+            disabled={busy}
+            className="w-full bg-slate-950 border border-slate-800 rounded px-4 py-2 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-rose-600 placeholder:text-slate-600"
+          />
+        </div>
+        <button
+          onClick={() => void handleVerify()}
+          disabled={busy}
+          className="px-4 py-2 bg-slate-800 rounded text-xs font-bold text-slate-200 hover:bg-slate-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {verifying ? 'Verifying…' : 'Verify Chain'}
+        </button>
+        <div>
+          <label htmlFor="audit-export-from" className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">
+            From
+          </label>
+          <input
+            id="audit-export-from"
+            type="date"
+            value={exportFrom}
+            max={exportTo}
+            onChange={e => setExportFrom(e.target.value)}
+            disabled={busy}
+            className="bg-slate-950 border border-slate-800 rounded px-3 py-2 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-rose-600"
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-export-to" className="block text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">
+            To
+          </label>
+          <input
+            id="audit-export-to"
+            type="date"
+            value={exportTo}
+            min={exportFrom}
+            onChange={e => setExportTo(e.target.value)}
+            disabled={busy}
+            className="bg-slate-950 border border-slate-800 rounded px-3 py-2 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-rose-600"
+          />
+        </div>
+        <button
+          onClick={() => void handleExport()}
+          disabled={busy || !exportFrom || !exportTo || exportTo < exportFrom}
+          className="px-4 py-2 bg-rose-600 rounded text-xs font-bold text-white hover:bg-rose-500 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {exporting ? 'Exporting…' : 'Export Signed Bundle'}
+        </button>
+      </div>
+
+      {actionError && <p className="text-xs text-rose-400">{actionError}</p>}
+
+      {verification && (
+        <div className="space-y-2 font-mono text-[11px]">
+          <div className="flex flex-wrap items-center gap-4">
+            <span className={`px-2 py-0.5 rounded border font-bold uppercase tracking-widest ${CHAIN_STATUS_CLASSES[verification.status]}`}>
+              {verification.status}
+            </span>
+            <span className="text-slate-400">{verification.chainKey}</span>
+            <span className="text-slate-500">{verification.entriesChecked} entries checked</span>
+            {verification.head && (
+              <span className="text-slate-500">head #{verification.head.seq} {verification.head.entryHash.slice(0, 12)}…</span>
+            )}
+            <span className="text-slate-500">
+              {verification.lastCheckpoint
+                ? `last signed checkpoint #${verification.lastCheckpoint.seq} · ${getAuditCreatedAtLabel(verification.lastCheckpoint.createdAt)}`
+                : 'no signed checkpoint yet'}
+            </span>
+          </div>
+          {verification.issues.length > 0 && (
+            <ul className="divide-y divide-slate-800 border border-slate-800 rounded">
+              {verification.issues.map((issue, index) => (
+                <li key={`${issue.code}-${issue.seq ?? 'none'}-${index}`} className="px-3 py-2 flex gap-4">
+                  <span className={issue.severity === 'error' ? 'text-rose-400 font-bold' : 'text-amber-400 font-bold'}>
+                    {issue.code}
+                  </span>
+                  <span className="text-slate-500">{issue.seq === null ? '—' : `#${issue.seq}`}</span>
+                  <span className="text-slate-300 flex-1">{issue.detail}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {verification.issueCount > verification.issues.length && (
+            <p className="text-slate-500">
+              Showing {verification.issues.length} of {verification.issueCount} issues.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const AuditLogs: React.FC = () => {
   const [logs, setLogs] = useState<AuditLog[]>([]);
   const [loading, setLoading] = useState(true);
@@ -150,6 +330,8 @@ export const AuditLogs: React.FC = () => {
         </p>
       </div>
 
+      <AuditChainIntegrity />
+
       <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
         <div className="p-4 border-b border-slate-800 space-y-3">
           <div className="flex flex-wrap gap-3 items-end">
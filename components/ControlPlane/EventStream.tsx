@@ -1,96 +1,130 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { getEvents, EventLog } from '../../services/controlPlaneService';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  getEvents,
+  subscribeToEvents,
+  EventLog,
+  LiveEventFilters,
+} from '../../services/controlPlaneService';
 import { LoadingState, ErrorState } from '../shared';
-import { APIError } from '../../services/apiClient';
+import { APIError, SubscriptionStatus } from '../../services/apiClient';
 
+const INITIAL_EVENTS = 30;
+const MAX_EVENTS = 200;
+
+const matchesFilters = (ev: EventLog, filters: LiveEventFilters) =>
+  (!filters.namePrefix || ev.name.startsWith(filters.namePrefix)) &&
+  (!filters.tenantId || ev.tenantId === filters.tenantId) &&
+  (!filters.realm || ev.realm === filters.realm);
+
+/**
+ * EVENT-STREAM-001: the newest events are loaded once from GET /api/control/events,
+ * then new ones are pushed over GET /api/control/events/stream (SSE). The stream
+ * continues from the newest id shown, also after a reconnect or a pause.
+ */
 export const EventStream: React.FC = () => {
   const [events, setEvents] = useState<EventLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<APIError | null>(null);
-  const [isPolling, setIsPolling] = useState(true);
-  const [lastFetchTime, setLastFetchTime] = useState<Date | null>(null);
-  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [filters, setFilters] = useState<LiveEventFilters>({});
+  const [draft, setDraft] = useState<LiveEventFilters>({});
+  const [loadedFilters, setLoadedFilters] = useState<LiveEventFilters | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [status, setStatus] = useState<SubscriptionStatus>('connecting');
+  const [missedEvents, setMissedEvents] = useState(false);
+  const [lastEventTime, setLastEventTime] = useState<Date | null>(null);
+  const newestIdRef = useRef<string | null>(null);
 
-  const fetchEvents = useCallback(async () => {
-    // Don't fetch if document is hidden (tab inactive) - save resources
-    if (document.hidden) {
-      return;
-    }
-
-    try {
-      const response = await getEvents({ limit: 30 });
-      setEvents(response.events);
-      setLoading(false);
+  // Initial page for the current filters. GET /events filters by tenant only, so
+  // name prefix and realm are applied to that page here.
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
       setError(null);
-      setFailedAttempts(0);
-      setLastFetchTime(new Date());
-    } catch (err) {
-      console.error('Failed to load events:', err);
-
-      const failureCount = failedAttempts + 1;
-      setFailedAttempts(failureCount);
-
-      if (loading) {
-        // First load failed - show error state
-        if (err instanceof APIError) {
-          setError(err);
-        } else {
-          setError({
-            status: 0,
-            message: 'Failed to load events. Please try again.',
-            code: 'UNKNOWN_ERROR',
-          } as APIError);
-        }
-        setLoading(false);
-      } else {
-        // Polling failed - show disconnected indicator but keep existing data
-        setError({
-          status: 0,
-          message: 'Disconnected. Retrying...',
-          code: 'POLLING_FAILED',
-        } as APIError);
+      setMissedEvents(false);
+      try {
+        const response = await getEvents({ limit: INITIAL_EVENTS, tenant_id: filters.tenantId });
+        if (cancelled) return;
+        const initial = response.events.filter(ev => matchesFilters(ev, filters));
+        newestIdRef.current = response.events[0]?.id ?? null;
+        setEvents(initial);
+        setLoadedFilters(filters);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Failed to load events:', err);
+        setError(
+          err instanceof APIError
+            ? err
+            : ({
+                status: 0,
+                message: 'Failed to load events. Please try again.',
+                code: 'UNKNOWN_ERROR',
+              } as APIError)
+        );
+      } finally {
+        if (!cancelled) setLoading(false);
       }
-    }
-  }, [loading, failedAttempts]);
+    };
+    // Deferred so setState runs in a callback (react-hooks/set-state-in-effect)
+    const initialLoad = setTimeout(load, 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(initialLoad);
+    };
+  }, [filters, reloadToken]);
 
+  // Live subscription once the initial page is shown.
   useEffect(() => {
-    // Initial fetch — deferred via setTimeout so setState runs in a callback,
-    // not synchronously in the effect body (satisfies react-hooks/set-state-in-effect)
-    const initialFetch = setTimeout(fetchEvents, 0);
+    if (!loadedFilters || paused) return;
+    let connectedOnce = false;
 
-    // Poll for new events every 5 seconds
-    const interval = setInterval(fetchEvents, 5000);
+    const unsubscribe = subscribeToEvents(
+      loadedFilters,
+      {
+        onEvent: ev => {
+          newestIdRef.current = ev.id;
+          setLastEventTime(new Date());
+          setEvents(prev => [ev, ...prev.filter(p => p.id !== ev.id)].slice(0, MAX_EVENTS));
+        },
+        onReady: ready => {
+          // After a reconnect the server could not continue from the last event.
+          if (connectedOnce && !ready.resumed) setMissedEvents(true);
+          connectedOnce = true;
+        },
+        onStatus: setStatus,
+        onError: setError,
+      },
+      newestIdRef.current
+    );
+    return unsubscribe;
+  }, [loadedFilters, paused]);
 
-    // Pause polling when tab becomes hidden
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-        setIsPolling(false);
-      } else {
-        setIsPolling(true);
-        // Fetch immediately when tab becomes visible again
-        fetchEvents();
-      }
-    };
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({
+      namePrefix: draft.namePrefix?.trim() || undefined,
+      tenantId: draft.tenantId?.trim() || undefined,
+      realm: draft.realm || undefined,
+    });
+  };
 
-    document.addEventListener('visibilitychange', handleVisibilityChange);
+  const reload = () => setReloadToken(token => token + 1);
 
-    return () => {
-      clearTimeout(initialFetch);
-      clearInterval(interval);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [fetchEvents]);
+  const header = (
+    <div>
+      <h1 className="text-2xl font-bold text-white">Live Event Stream</h1>
+      <p className="text-slate-400 text-sm">
+        Real-time trace of the platform's event-driven backbone.
+      </p>
+    </div>
+  );
 
   // Initial loading state
-  if (loading) {
+  if (loading && events.length === 0) {
     return (
       <div className="space-y-6">
-        <div>
-          <h1 className="text-2xl font-bold text-white">Live Event Stream</h1>
-          <p className="text-slate-400 text-sm">
-            Real-time trace of the platform's event-driven backbone.
-          </p>
-        </div>
+        {header}
         <div className="bg-slate-900 border border-slate-800 rounded-xl">
           <LoadingState message="Connecting to event stream..." />
         </div>
@@ -98,17 +132,12 @@ export const EventStream: React.FC = () => {
     );
   }
 
-  // Error state (first load)
+  // Error state (first load or rejected stream)
   if (error && events.length === 0) {
     return (
       <div className="space-y-6">
-        <div>
-          <h1 className="text-2xl font-bold text-white">Live Event Stream</h1>
-          <p className="text-slate-400 text-sm">
-            Real-time trace of the platform's event-driven backbone.
-          </p>
-        </div>
-        <ErrorState error={error} onRetry={fetchEvents} />
+        {header}
+        <ErrorState error={error} onRetry={reload} />
       </div>
     );
   }
@@ -116,39 +145,103 @@ export const EventStream: React.FC = () => {
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <div>
-          <h1 className="text-2xl font-bold text-white">Live Event Stream</h1>
-          <p className="text-slate-400 text-sm">
-            Real-time trace of the platform's event-driven backbone.
-          </p>
-        </div>
+        {header}
         <div className="flex items-center gap-3">
-          {lastFetchTime && (
+          {lastEventTime && (
             <span className="text-slate-500 text-xs">
-              Last update: {lastFetchTime.toLocaleTimeString()}
+              Last event: {lastEventTime.toLocaleTimeString()}
             </span>
           )}
-          {!document.hidden && isPolling && !error && (
+          {!paused && status === 'open' && (
             <div className="px-3 py-1 bg-emerald-500/10 border border-emerald-500/20 text-emerald-500 text-[10px] font-bold rounded-full animate-pulse uppercase">
-              Live Monitoring
+              Live
             </div>
           )}
-          {!isPolling && (
-            <div className="px-3 py-1 bg-amber-500/10 border border-amber-500/20 text-amber-500 text-[10px] font-bold rounded-full uppercase">
-              Paused (Tab Inactive)
+          {!paused && (status === 'connecting' || status === 'reconnecting') && (
+            <div className="px-3 py-1 bg-rose-500/10 border border-rose-500/20 text-rose-500 text-[10px] font-bold rounded-full uppercase">
+              {status === 'connecting' ? 'Connecting...' : 'Disconnected • Reconnecting...'}
             </div>
           )}
-          {error && error.code === 'POLLING_FAILED' && (
-            <div className="px-3 py-1 bg-rose-500/10 border border-rose-500/20 text-rose-500 text-[10px] font-bold rounded-full uppercase">
-              Disconnected • Retrying...
+          {!paused && status === 'closed' && error && (
+            <div
+              className="px-3 py-1 bg-rose-500/10 border border-rose-500/20 text-rose-500 text-[10px] font-bold rounded-full uppercase"
+              title={error.message}
+            >
+              Stream stopped
             </div>
           )}
+          {paused && (
+            <div className="px-3 py-1 bg-amber-500/10 border border-amber-500/20 text-amber-500 text-[10px] font-bold rounded-full uppercase">
+              Paused
+            </div>
+          )}
+          <button
+            onClick={() => setPaused(p => !p)}
+            className="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded"
+          >
+            {paused ? 'Resume' : 'Pause'}
+          </button>
         </div>
       </div>
+
+      <form
+        onSubmit={applyFilters}
+        className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-wrap items-end gap-3 text-xs"
+      >
+        <label className="flex flex-col gap-1 text-slate-400">
+          Event name prefix
+          <input
+            value={draft.namePrefix ?? ''}
+            onChange={e => setDraft(d => ({ ...d, namePrefix: e.target.value }))}
+            placeholder="e.g. trade."
+            maxLength={100}
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-slate-400">
+          Tenant ID
+          <input
+            value={draft.tenantId ?? ''}
+            onChange={e => setDraft(d => ({ ...d, tenantId: e.target.value }))}
+            placeholder="All tenants"
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono w-80"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-slate-400">
+          Realm
+          <select
+            value={draft.realm ?? ''}
+            onChange={e =>
+              setDraft(d => ({ ...d, realm: (e.target.value || undefined) as LiveEventFilters['realm'] }))
+            }
+            className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200"
+          >
+            <option value="">All</option>
+            <option value="TENANT">TENANT</option>
+            <option value="ADMIN">ADMIN</option>
+          </select>
+        </label>
+        <button
+          type="submit"
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white font-bold rounded"
+        >
+          Apply
+        </button>
+      </form>
+
+      {missedEvents && (
+        <div className="bg-amber-500/10 border border-amber-500/20 text-amber-500 text-xs rounded-xl p-3 flex justify-between items-center">
+          <span>The stream was interrupted for too long — some events may be missing.</span>
+          <button onClick={reload} className="font-bold underline">
+            Reload
+          </button>
+        </div>
+      )}
+
       <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden font-mono text-[11px]">
         <div className="bg-slate-800/50 p-3 border-b border-slate-800 flex justify-between text-slate-500">
           <span className="w-32">EVENT_ID</span>
-          <span className="w-32">AGGREGATE</span>
+          <span className="w-32">ENTITY</span>
           <span className="w-48">NAME</span>
           <span className="flex-1 px-4">PAYLOAD</span>
           <span className="w-40">OCCURRED_AT</span>
@@ -162,10 +255,12 @@ export const EventStream: React.FC = () => {
               <span className="text-slate-500 w-32 truncate" title={ev.id}>
                 {ev.id.substring(0, 12)}...
               </span>
-              <span className="text-blue-400 w-32 truncate">[{ev.aggregateType}]</span>
+              <span className="text-blue-400 w-32 truncate" title={ev.tenantId ?? 'platform'}>
+                [{ev.entityType}]
+              </span>
               <span className="text-rose-400 w-48 font-bold truncate">{ev.name}</span>
               <span className="text-slate-300 flex-1 truncate px-4">
-                {JSON.stringify(ev.payload).substring(0, 80)}...
+                {JSON.stringify(ev.payloadJson ?? {}).substring(0, 80)}...
               </span>
               <span className="text-slate-500 w-40 text-right">
                 {new Date(ev.occurredAt).toLocaleTimeString()}
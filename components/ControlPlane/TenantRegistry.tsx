@@ -246,6 +246,41 @@ const VISIBILITY_BADGE_UI: Record<
   },
 };
 
+type TenantSelectionConfig = TenantConfig & {
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+const resolveRegistryTenantIdentity = (tenant: Tenant) => tenant.tenant_category ?? tenant.type;
+
+export const mapRegistryTenantToConfig = (tenant: Tenant): TenantSelectionConfig => {
+  const resolvedTenantIdentity = resolveRegistryTenantIdentity(tenant);
+
+  return {
+    id: tenant.id,
+    name: tenant.name,
+    slug: tenant.slug,
+    type: resolvedTenantIdentity as TenantConfig['type'],
+    status: (tenant.status?.toUpperCase() || 'ACTIVE') as TenantStatus,
+    onboarding_status: tenant.onboarding_status ?? null,
+    plan: normalizeCommercialPlan(tenant.plan),
+    theme: {
+      primaryColor: tenant.branding?.primaryColor || '#4F46E5',
+      secondaryColor: '#10B981',
+      logo: '🏢',
+    },
+    features: [],
+    aiUsage: tenant.aiBudget?.currentUsage || 0,
+    aiBudget: tenant.aiBudget?.monthlyLimit || 1000,
+    billingStatus: 'CURRENT',
+    riskScore: 0,
+    tenant_category: resolvedTenantIdentity,
+    is_white_label: tenant.is_white_label ?? tenant.isWhiteLabel ?? false,
+    createdAt: tenant.createdAt,
+    updatedAt: tenant.updatedAt,
+  };
+};
+
 export const TenantRegistry: React.FC<TenantRegistryProps> = ({
   lifecycleView,
   onSelectTenant,
@@ -293,11 +328,6 @@ export const TenantRegistry: React.FC<TenantRegistryProps> = ({
     provisionForm.tenant_category,
   );
 
-  type TenantSelectionConfig = TenantConfig & {
-    createdAt?: string;
-    updatedAt?: string;
-  };
-
   // RU-002: Handle provision form submission
   const handleProvision = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -369,43 +399,13 @@ export const TenantRegistry: React.FC<TenantRegistryProps> = ({
     }
   };
 
-  const resolveRegistryTenantIdentity = (tenant: Tenant) => tenant.tenant_category ?? tenant.type;
-
-  const mapToTenantConfig = (tenant: Tenant): TenantSelectionConfig => {
-    const resolvedTenantIdentity = resolveRegistryTenantIdentity(tenant);
-
-    return {
-      id: tenant.id,
-      name: tenant.name,
-      slug: tenant.slug,
-      type: resolvedTenantIdentity as TenantConfig['type'],
-      status: (tenant.status?.toUpperCase() || 'ACTIVE') as TenantStatus,
-      onboarding_status: tenant.onboarding_status ?? null,
-      plan: normalizeCommercialPlan(tenant.plan),
-      theme: {
-        primaryColor: tenant.branding?.primaryColor || '#4F46E5',
-        secondaryColor: '#10B981',
-        logo: '🏢',
-      },
-      features: [],
-      aiUsage: tenant.aiBudget?.currentUsage || 0,
-      aiBudget: tenant.aiBudget?.monthlyLimit || 1000,
-      billingStatus: 'CURRENT',
-      riskScore: 0,
-      tenant_category: resolvedTenantIdentity,
-      is_white_label: tenant.is_white_label ?? tenant.isWhiteLabel ?? false,
-      createdAt: tenant.createdAt,
-      updatedAt: tenant.updatedAt,
-    };
-  };
-
   const handleSelectTenant = async (tenant: Tenant) => {
     setDetailLoadingTenantId(tenant.id);
     setDetailError(null);
 
     try {
       const response = await getTenantById(tenant.id);
-      onSelectTenant(mapToTenantConfig(response.tenant));
+      onSelectTenant(mapRegistryTenantToConfig(response.tenant));
     } catch (err: any) {
       console.error('Failed to load tenant detail:', err);
       setDetailError(err?.message || 'Failed to open tenant details. Please try again.');
@@ -608,7 +608,7 @@ export const TenantRegistry: React.FC<TenantRegistryProps> = ({
         </thead>
         <tbody className="divide-y divide-slate-800">
           {tenantList.map(tenant => {
-            const mappedTenant = mapToTenantConfig(tenant);
+            const mappedTenant = mapRegistryTenantToConfig(tenant);
             const identityPresentation = buildControlPlaneIdentityPresentation({
               tenantCategory: tenant.tenant_category,
               fallbackType: tenant.type,
@@ -41,6 +41,11 @@ type ScrollTarget = {
 
 type DisplaySupplier = PublicB2BSupplierEntry | PublicReferenceB2BSupplier;
 
+// Catalog search runs server-side (ranked full-text over public items); the
+// debounce keeps typing from issuing one request per keystroke.
+const CATALOG_SEARCH_DEBOUNCE_MS = 250;
+const CATALOG_SEARCH_SUPPLIER_LIMIT = 100;
+
 const CATEGORY_ALIASES: Record<string, string[]> = {
   'fabric-manufacturers': [
     'fabric',
@@ -113,6 +118,10 @@ export function B2BDiscoveryPage({ onBack: _onBack, onSignIn, onListBusiness, on
   const [capabilityFilter, setCapabilityFilter] = useState('all');
   const [certificationFilter, setCertificationFilter] = useState('all');
   const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const [catalogSearch, setCatalogSearch] = useState<{
+    query: string;
+    matches: Map<string, PublicB2BSupplierEntry>;
+  } | null>(null);
   const [resultsSection, setResultsSection] = useState<ScrollTarget | null>(null);
   const [offeringsDrawerSupplier, setOfferingsDrawerSupplier] = useState<DisplaySupplier | null>(null);
   const offeringsDrawerCloseButtonRef = useRef<React.ElementRef<'button'> | null>(null);
@@ -165,6 +174,44 @@ export function B2BDiscoveryPage({ onBack: _onBack, onSignIn, onListBusiness, on
     };
   }, []);
 
+  // Suppliers whose public catalog items match the query. The server response
+  // orders each supplier's offering preview with matching items first.
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length === 0 || items.length === 0) {
+      return undefined;
+    }
+
+    let cancelled = false;
+    const handle = setTimeout(() => {
+      getPublicB2BSuppliers({ q: query, limit: CATALOG_SEARCH_SUPPLIER_LIMIT })
+        .then((data) => {
+          if (!cancelled) {
+            setCatalogSearch({
+              query,
+              matches: new Map(data.items.map((supplier) => [supplier.slug, supplier])),
+            });
+          }
+        })
+        .catch(() => {
+          // Profile-text matching below still applies when catalog search is unavailable.
+          if (!cancelled) {
+            setCatalogSearch(null);
+          }
+        });
+    }, CATALOG_SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(handle);
+    };
+  }, [searchQuery, items.length]);
+
+  // Matches only apply to the query they were fetched for.
+  const catalogMatches = catalogSearch && catalogSearch.query === searchQuery.trim()
+    ? catalogSearch.matches
+    : null;
+
   const regionOptions = useMemo(() => {
     return Array.from(new Set(items.map((supplier) => supplier.jurisdiction).filter(Boolean))).sort((left, right) => left.localeCompare(right));
   }, [items]);
@@ -224,7 +271,9 @@ export function B2BDiscoveryPage({ onBack: _onBack, onSignIn, onListBusiness, on
   const filteredItems = useMemo(() => {
     const query = searchQuery.trim().toLowerCase();
 
-    return displayItems.filter((supplier) => {
+    const candidates: DisplaySupplier[] = displayItems.map((supplier) => catalogMatches?.get(supplier.slug) ?? supplier);
+
+    return candidates.filter((supplier) => {
       const categoryAliases = categoryFilter === 'all'
         ? []
         : CATEGORY_ALIASES[categoryFilter] ?? DISCOVERY_CATEGORIES.find((category) => category.value === categoryFilter)?.keywords ?? [];
@@ -244,7 +293,10 @@ export function B2BDiscoveryPage({ onBack: _onBack, onSignIn, onListBusiness, on
         .join(' ')
         .toLowerCase();
 
-      const matchesQuery = query.length === 0 || searchBlob.includes(query);
+      const matchesQuery =
+        query.length === 0
+        || searchBlob.includes(query)
+        || (catalogMatches?.has(supplier.slug) ?? false);
 
       const matchesCategory =
         categoryFilter === 'all'
@@ -272,7 +324,7 @@ export function B2BDiscoveryPage({ onBack: _onBack, onSignIn, onListBusiness, on
 
       return matchesQuery && matchesCategory && matchesRegion && matchesCapability && matchesCertification && matchesVerifiedOnly;
     });
-  }, [displayItems, searchQuery, categoryFilter, regionFilter, capabilityFilter, certificationFilter, verifiedOnly]);
+  }, [displayItems, catalogMatches, searchQuery, categoryFilter, regionFilter, capabilityFilter, certificationFilter, verifiedOnly]);
 
   const scrollToResults = () => {
     resultsSection?.scrollIntoView({ behavior: 'smooth', block: 'start' });
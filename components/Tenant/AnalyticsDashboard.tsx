@@ -0,0 +1,289 @@
+/**
+ * AnalyticsDashboard — Tenant Plane (ANALYTICS-PROJECTIONS-001)
+ *
+ * Read-only dashboard over the analytics projections:
+ *   - supplier performance: RFQ responsiveness, pool quote win rate, on-time fulfilment
+ *   - buyer spend: per month, supplier, category and currency, with per-currency totals
+ *
+ * Constitutional compliance:
+ *   D-017-A  No orgId / tenantId sent by client — tenant routes derive org scope from JWT.
+ *   Figures come from projections, so they can trail the source records by a few seconds.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { APIError } from '../../services/apiClient';
+import {
+  getBuyerSpend,
+  getSupplierPerformance,
+  type BuyerSpendResponse,
+  type SupplierPerformanceSummary,
+} from '../../services/analyticsService';
+import { LoadingState } from '../shared/LoadingState';
+import { ErrorState } from '../shared/ErrorState';
+import { EmptyState } from '../shared/EmptyState';
+
+interface Props {
+  onBack: () => void;
+}
+
+const SPEND_RANGES: Array<{ months: number; label: string }> = [
+  { months: 3, label: 'Last 3 months' },
+  { months: 12, label: 'Last 12 months' },
+  { months: 36, label: 'Last 36 months' },
+];
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function monthsBack(months: number): { from: string; to: string } {
+  const now = new Date();
+  const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+  return { from: from.toISOString().slice(0, 7), to: to.toISOString().slice(0, 7) };
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatMinutes(minutes: number | null): string {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${minutes} min`;
+  const hours = minutes / 60;
+  return hours < 48 ? `${hours.toFixed(1)} h` : `${(hours / 24).toFixed(1)} days`;
+}
+
+function formatAmount(amount: string, currency: string): string {
+  const value = Number(amount);
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 2 }).format(value);
+  } catch {
+    // Non-ISO currency codes
+    return `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${currency}`;
+  }
+}
+
+function formatMonthLabel(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, {
+    year: 'numeric', month: 'short', timeZone: 'UTC',
+  });
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+function friendlyAnalyticsError(err: unknown, fallback: string): string {
+  if (err instanceof APIError) {
+    return err.message || fallback;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
+function MetricCard({ label, value, detail }: Readonly<{ label: string; value: string; detail: string }>) {
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5">
+      <p className="text-xs font-bold uppercase tracking-widest text-slate-500">{label}</p>
+      <p className="text-2xl font-bold text-slate-900 mt-2">{value}</p>
+      <p className="text-xs text-slate-500 mt-1">{detail}</p>
+    </div>
+  );
+}
+
+function SupplierPerformanceCards({ summary }: Readonly<{ summary: SupplierPerformanceSummary }>) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      <MetricCard
+        label="RFQ response rate"
+        value={formatPercent(summary.rates.responseRate)}
+        detail={`${summary.rfqRespondedCount} of ${summary.rfqReceivedCount} RFQs answered`}
+      />
+      <MetricCard
+        label="Median response time"
+        value={formatMinutes(summary.responseMinutesMedian)}
+        detail={`${formatPercent(summary.rates.respondedWithin24hRate)} answered within 24 hours`}
+      />
+      <MetricCard
+        label="Pool quote win rate"
+        value={formatPercent(summary.rates.poolQuoteWinRate)}
+        detail={`${summary.poolQuoteWonCount} of ${summary.poolQuoteDecidedCount} decided quotes won`}
+      />
+      <MetricCard
+        label="On-time fulfilment"
+        value={formatPercent(summary.rates.onTimeFulfilmentRate)}
+        detail={`${summary.fulfilmentOnTimeCount} of ${summary.fulfilmentDueCount} due trades shipped on time`}
+      />
+    </div>
+  );
+}
+
+// ─── AnalyticsDashboard ──────────────────────────────────────────────────────
+
+export function AnalyticsDashboard({ onBack }: Readonly<Props>) {
+  const [performance, setPerformance]               = useState<SupplierPerformanceSummary | null>(null);
+  const [performanceLoading, setPerformanceLoading] = useState(true);
+  const [performanceError, setPerformanceError]     = useState<string | null>(null);
+
+  const [spend, setSpend]               = useState<BuyerSpendResponse | null>(null);
+  const [spendLoading, setSpendLoading] = useState(true);
+  const [spendError, setSpendError]     = useState<string | null>(null);
+  const [rangeMonths, setRangeMonths]   = useState(12);
+
+  const loadPerformance = useCallback(async () => {
+    setPerformanceLoading(true);
+    setPerformanceError(null);
+    try {
+      const res = await getSupplierPerformance();
+      setPerformance(res.summary);
+    } catch (err) {
+      setPerformanceError(friendlyAnalyticsError(err, 'Failed to load supplier performance.'));
+    } finally {
+      setPerformanceLoading(false);
+    }
+  }, []);
+
+  const loadSpend = useCallback(async () => {
+    setSpendLoading(true);
+    setSpendError(null);
+    try {
+      setSpend(await getBuyerSpend(monthsBack(rangeMonths)));
+    } catch (err) {
+      setSpendError(friendlyAnalyticsError(err, 'Failed to load buyer spend.'));
+    } finally {
+      setSpendLoading(false);
+    }
+  }, [rangeMonths]);
+
+  useEffect(() => {
+    loadPerformance();
+  }, [loadPerformance]);
+
+  useEffect(() => {
+    loadSpend();
+  }, [loadSpend]);
+
+  return (
+    <div className="max-w-6xl mx-auto p-8 space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={onBack}
+          className="text-sm text-slate-500 hover:text-slate-700 transition flex items-center gap-1"
+          type="button"
+        >
+          ← Back
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Analytics</h1>
+          <p className="text-sm text-slate-500 mt-0.5">Supplier performance and buyer spend of your organisation.</p>
+        </div>
+      </div>
+
+      {/* Supplier performance */}
+      <section className="space-y-4">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Supplier Performance</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              {performance
+                ? `Last ${performance.windowDays} days · updated ${formatDateTime(performance.lastUpdatedAt)}`
+                : 'How buyers experience your organisation as a supplier.'}
+            </p>
+          </div>
+        </div>
+
+        {performanceLoading && <LoadingState />}
+        {performanceError && !performanceLoading && (
+          <ErrorState error={{ message: performanceError }} onRetry={loadPerformance} />
+        )}
+        {!performanceLoading && !performanceError && !performance && (
+          <EmptyState
+            title="No supplier activity yet"
+            message="Figures appear once your organisation receives RFQs, pool quotes or trades as a supplier."
+          />
+        )}
+        {!performanceLoading && !performanceError && performance && (
+          <SupplierPerformanceCards summary={performance} />
+        )}
+      </section>
+
+      {/* Buyer spend */}
+      <section className="space-y-4">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Buyer Spend</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              Trade value by month of trade creation, supplier and category.
+            </p>
+          </div>
+          <select
+            value={rangeMonths}
+            onChange={event => setRangeMonths(Number(event.target.value))}
+            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-200"
+          >
+            {SPEND_RANGES.map(range => (
+              <option key={range.months} value={range.months}>{range.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {spendLoading && <LoadingState />}
+        {spendError && !spendLoading && (
+          <ErrorState error={{ message: spendError }} onRetry={loadSpend} />
+        )}
+        {!spendLoading && !spendError && spend && spend.rows.length === 0 && (
+          <EmptyState title="No spend in this period" message="Trades you place as a buyer appear here." />
+        )}
+
+        {!spendLoading && !spendError && spend && spend.rows.length > 0 && (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {spend.totals.map(total => (
+                <MetricCard
+                  key={total.currency}
+                  label={`Total spend (${total.currency})`}
+                  value={formatAmount(total.totalAmount, total.currency)}
+                  detail={`${total.tradeCount} trade${total.tradeCount === 1 ? '' : 's'}`}
+                />
+              ))}
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-xs font-bold uppercase tracking-widest text-slate-500">
+                  <tr>
+                    <th className="px-4 py-3 text-left">Month</th>
+                    <th className="px-4 py-3 text-left">Supplier</th>
+                    <th className="px-4 py-3 text-left">Category</th>
+                    <th className="px-4 py-3 text-right">Trades</th>
+                    <th className="px-4 py-3 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {spend.rows.map(row => (
+                    <tr key={`${row.month}:${row.supplierOrgId}:${row.category}:${row.currency}`}>
+                      <td className="px-4 py-3 text-slate-700">{formatMonthLabel(row.month)}</td>
+                      <td className="px-4 py-3 text-slate-900">
+                        {row.supplierName ?? <span className="font-mono text-xs text-slate-500">{row.supplierOrgId.slice(0, 8)}…</span>}
+                      </td>
+                      <td className="px-4 py-3 text-slate-600">{row.category.replaceAll('_', ' ')}</td>
+                      <td className="px-4 py-3 text-right text-slate-700">{row.tradeCount}</td>
+                      <td className="px-4 py-3 text-right font-semibold text-slate-900">
+                        {formatAmount(row.totalAmount, row.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {spend.lastUpdatedAt && (
+              <p className="text-xs text-slate-400">Updated {formatDateTime(spend.lastUpdatedAt)}</p>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,5 +1,11 @@
 import React from 'react';
-import { BuyerRfqDetail, SupplierRfqDetail, SupplierRfqResponse } from '../../services/catalogService';
+import {
+  BuyerRfqDetail,
+  RfqQuoteTermsRequest,
+  SupplierRfqDetail,
+  SupplierRfqResponse,
+} from '../../services/catalogService';
+import { RfqQuoteNegotiationSection } from './RfqQuoteNegotiationSection';
 
 type BuyerRfqDetailSurfaceProps = Readonly<{
   rfq: BuyerRfqDetail | null;
@@ -10,6 +16,10 @@ type BuyerRfqDetailSurfaceProps = Readonly<{
   onOpenTradeContinuity: () => void;
   tradeContinuityLoading: boolean;
   tradeContinuityError: string | null;
+  quoteActionLoading?: boolean;
+  quoteActionError?: string | null;
+  onAcceptQuote?: (quoteId: string) => void;
+  onSubmitCounterOffer?: (terms: RfqQuoteTermsRequest) => void;
 }>;
 
 type RfqStatusTone = {
@@ -72,6 +82,10 @@ export function BuyerRfqDetailSurface({
   onOpenTradeContinuity,
   tradeContinuityLoading,
   tradeContinuityError,
+  quoteActionLoading = false,
+  quoteActionError = null,
+  onAcceptQuote,
+  onSubmitCounterOffer,
 }: BuyerRfqDetailSurfaceProps) {
   if (loading) {
     return (
@@ -172,6 +186,8 @@ export function BuyerRfqDetailSurface({
   const statusTone = getStatusTone(rfq.status);
   const canContinueToTrade = rfq.status === 'RESPONDED';
   const linkedTrade = rfq.trade_continuity;
+  const quoteThread = rfq.quote_thread ?? [];
+  const hasAcceptedQuote = Boolean(rfq.accepted_quote_id);
   let tradeContinuityButtonLabel = 'Continue to Trade';
   if (linkedTrade) {
     tradeContinuityButtonLabel = 'Open Existing Trade';
@@ -246,6 +262,19 @@ export function BuyerRfqDetailSurface({
         )}
       </section>
 
+      {quoteThread.length > 0 && (
+        <RfqQuoteNegotiationSection
+          viewerSide="BUYER"
+          quoteThread={quoteThread}
+          bestTerms={rfq.best_terms ?? null}
+          acceptedQuoteId={rfq.accepted_quote_id ?? null}
+          actionLoading={quoteActionLoading}
+          actionError={quoteActionError}
+          onAccept={onAcceptQuote}
+          onSubmitRevision={canContinueToTrade ? onSubmitCounterOffer : undefined}
+        />
+      )}
+
       {canContinueToTrade && (
         <section className="rounded-2xl border border-indigo-200 bg-indigo-50 px-5 py-5 space-y-4 shadow-sm">
           <div>
@@ -261,7 +290,9 @@ export function BuyerRfqDetailSurface({
             </div>
           ) : (
             <div className="rounded-xl border border-indigo-200 bg-white px-4 py-4 text-sm text-slate-700">
-              Continue this responded RFQ into the existing trade continuity path using the current enterprise trade flow and the RFQ-derived trade route.
+              {hasAcceptedQuote
+                ? 'Continue this RFQ into the existing trade continuity path. The trade amount and currency come from the accepted supplier quote.'
+                : 'Accept a supplier quote revision to continue this RFQ into the existing trade continuity path.'}
             </div>
           )}
 
@@ -275,7 +306,7 @@ export function BuyerRfqDetailSurface({
             <button
               type="button"
               onClick={onOpenTradeContinuity}
-              disabled={tradeContinuityLoading}
+              disabled={tradeContinuityLoading || (!linkedTrade && !hasAcceptedQuote)}
               className="rounded-xl bg-slate-900 px-5 py-3 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:bg-slate-300"
             >
               {tradeContinuityButtonLabel}
@@ -314,6 +345,9 @@ type SupplierRfqDetailSurfaceProps = Readonly<{
   onBack: () => void;
   onClose: () => void;
   onSubmitResponse: (message: string) => void;
+  quoteActionLoading?: boolean;
+  quoteActionError?: string | null;
+  onSubmitQuoteRevision?: (terms: RfqQuoteTermsRequest) => void;
 }>;
 
 type SupplierRfqResponseSectionProps = Readonly<{
@@ -390,7 +424,7 @@ function SupplierRfqResponseSection({
           placeholder="Confirm availability, timing, or next-step context for this buyer RFQ."
         />
         <p className="text-xs text-slate-500">
-          This message records a first response only. It does not create a quote, price, or negotiation thread.
+          This message records a first response only. Priced quote revisions are sent from the quote negotiation section once the RFQ is responded.
         </p>
       </div>
 
@@ -423,6 +457,9 @@ export function SupplierRfqDetailSurface({
   onBack,
   onClose,
   onSubmitResponse,
+  quoteActionLoading = false,
+  quoteActionError = null,
+  onSubmitQuoteRevision,
 }: SupplierRfqDetailSurfaceProps) {
   const [message, setMessage] = React.useState('');
 
@@ -535,7 +572,7 @@ export function SupplierRfqDetailSurface({
           <div>
             <h3 className="text-lg font-bold text-slate-900">Supplier RFQ Detail</h3>
             <p className="mt-2 text-sm text-slate-500">
-              Review the buyer submission and send one first response using the existing supplier route. This surface does not add negotiation semantics.
+              Review the buyer submission, send one first response, then share priced quote revisions once the RFQ is responded.
             </p>
           </div>
           <div className={`inline-flex items-center rounded-full border px-3 py-1 text-xs font-semibold ${statusTone.badge} ${statusTone.text}`}>
@@ -584,6 +621,18 @@ export function SupplierRfqDetailSurface({
         />
       </section>
 
+      {rfq.status === 'RESPONDED' && (
+        <RfqQuoteNegotiationSection
+          viewerSide="SUPPLIER"
+          quoteThread={rfq.quote_thread ?? []}
+          bestTerms={rfq.best_terms ?? null}
+          acceptedQuoteId={rfq.accepted_quote_id ?? null}
+          actionLoading={quoteActionLoading}
+          actionError={quoteActionError}
+          onSubmitRevision={onSubmitQuoteRevision}
+        />
+      )}
+
       <div className="flex justify-end gap-3">
         <button
           type="button"
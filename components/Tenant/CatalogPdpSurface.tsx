@@ -23,11 +23,12 @@
  *   buyer-catalog-pdp-compliance-notice
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import type {
   BuyerAvailabilitySummary,
   BuyerCatalogMedia,
   BuyerCatalogPdpView,
+  BuyerCatalogVariantSummary,
   BuyerCertificateSummaryItem,
   BuyerPriceDisclosure,
   RecommendedSuppliersResponse,
@@ -241,6 +242,11 @@ export type RfqTriggerPayload = {
   readonly itemTitle: string;
   readonly category: string | null;
   readonly stage: string | null;
+  /** CATALOG-VARIANTS-001: selected variant, when the item offers variants. */
+  readonly variantId?: string;
+  readonly variantLabel?: string;
+  /** Effective MOQ of the selected variant (variant override or the parent's). */
+  readonly variantMoq?: number;
 };
 
 export function validateRfqTriggerPayload(
@@ -602,6 +608,53 @@ function PdpPriceDisclosurePanel({
   );
 }
 
+function describeVariantOption(variant: BuyerCatalogVariantSummary): string {
+  const details = [
+    variant.color,
+    variant.widthCm != null ? `${variant.widthCm} cm` : null,
+    variant.finish,
+  ].filter((value): value is string => value != null && value.length > 0);
+  return details.join(' \u00B7 ');
+}
+
+function PdpVariantSelector({
+  variants,
+  selectedId,
+  onSelect,
+}: Readonly<{
+  variants: readonly BuyerCatalogVariantSummary[];
+  selectedId: string | null;
+  onSelect: (variantId: string) => void;
+}>) {
+  return (
+    <fieldset data-testid="buyer-catalog-pdp-variant-selector" className="space-y-2">
+      <legend className="text-[11px] font-bold uppercase tracking-widest text-slate-500">Variant</legend>
+      <div className="flex flex-wrap gap-2">
+        {variants.map(variant => {
+          const selected = variant.id === selectedId;
+          const details = describeVariantOption(variant);
+          return (
+            <button
+              key={variant.id}
+              type="button"
+              aria-pressed={selected}
+              title={details.length > 0 ? details : undefined}
+              onClick={() => onSelect(variant.id)}
+              className={`rounded-lg border px-3 py-1.5 text-xs font-semibold transition ${
+                selected
+                  ? 'border-indigo-600 bg-indigo-600 text-white'
+                  : 'border-slate-200 bg-white text-slate-700 hover:border-indigo-300'
+              }`}
+            >
+              {variant.label}
+            </button>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+}
+
 function PdpRfqEntry({
   item,
   onRequestQuote,
@@ -609,6 +662,10 @@ function PdpRfqEntry({
   item: BuyerCatalogPdpView;
   onRequestQuote: (payload: RfqTriggerPayload) => void;
 }>) {
+  const variants = item.variants ?? [];
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(variants[0]?.id ?? null);
+  const selectedVariant = variants.find(variant => variant.id === selectedVariantId) ?? null;
+
   return (
     <section
       data-testid="buyer-catalog-pdp-rfq-entry"
@@ -620,6 +677,18 @@ function PdpRfqEntry({
           Submit a request for quote and the supplier will respond with pricing and availability.
         </p>
       </div>
+      {variants.length > 0 && (
+        <PdpVariantSelector
+          variants={variants}
+          selectedId={selectedVariantId}
+          onSelect={setSelectedVariantId}
+        />
+      )}
+      {selectedVariant != null && (
+        <p data-testid="buyer-catalog-pdp-variant-summary" className="text-xs text-slate-600">
+          SKU {selectedVariant.sku} &middot; Min. order {selectedVariant.moq}
+        </p>
+      )}
       <button
         type="button"
         onClick={() =>
@@ -629,6 +698,9 @@ function PdpRfqEntry({
             itemTitle: item.rfqEntry.itemTitle,
             category: item.rfqEntry.category,
             stage: item.rfqEntry.stage,
+            ...(selectedVariant != null
+              ? { variantId: selectedVariant.id, variantLabel: selectedVariant.label, variantMoq: selectedVariant.moq }
+              : {}),
           })
         }
         className="inline-flex items-center justify-center rounded-xl bg-indigo-600 px-6 py-2.5 text-sm font-semibold text-white hover:bg-indigo-700 transition"
@@ -841,7 +913,7 @@ export function CatalogPdpSurface({
         </div>
         <div className="space-y-4">
           <PdpPriceDisclosurePanel item={item} />
-          <PdpRfqEntry item={item} onRequestQuote={onRequestQuote} />
+          <PdpRfqEntry key={item.itemId} item={item} onRequestQuote={onRequestQuote} />
           <PdpSupplierSummary item={item} />
         </div>
       </div>
@@ -19,6 +19,7 @@ import { useState, useCallback, useEffect } from 'react';
 import QRCode from 'react-qr-code';
 import { tenantGet, tenantPost } from '../../services/tenantApiClient';
 import { APIError } from '../../services/apiClient';
+import { DppPassportFormatsPanel } from './DppPassportFormatsPanel';
 
 // ─── Response types (mirrors server/src/routes/tenant.ts DPP route) ────────────
 
@@ -92,6 +93,7 @@ interface DppProductDetailsDto {
   dyeFinishCategory: string | null;
   restrictedSubstancesDeclared: boolean | null;
   productPhotoEvidenceItemId: string | null;
+  gtin: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -1417,6 +1419,14 @@ export function DPPPassport({ onBack, title, subtitle, onNavigateToTraceability
               </section>
             );
           })()}
+
+          {/* ── DPP-PASSPORT-FORMATS-001: JSON-LD, GS1 Digital Link, QR label, ESPR readiness ── */}
+          {passportData && (
+            <DppPassportFormatsPanel
+              nodeId={passportData.nodeId}
+              isPublished={passportData.passportStatus === 'PUBLISHED' && !!passportData.publicPassportId}
+            />
+          )}
         </>
       )}
     </div>
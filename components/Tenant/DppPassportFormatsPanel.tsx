@@ -0,0 +1,242 @@
+/**
+ * DppPassportFormatsPanel — machine-readable passport formats (DPP-PASSPORT-FORMATS-001)
+ *
+ * Consumes:
+ *   GET /api/tenant/dpp/:nodeId/passport/espr-report   — ESPR textile readiness
+ *   GET /api/tenant/dpp/:nodeId/passport/digital-link  — GS1 Digital Link status
+ *   GET /api/tenant/dpp/:nodeId/passport/label         — QR label descriptor (PUBLISHED only)
+ *   GET /api/tenant/dpp/:nodeId/passport/jsonld        — schema.org JSON-LD download
+ *
+ * The QR label is rendered client-side with react-qr-code and printed from a
+ * standalone window so only the label reaches the printer.
+ */
+
+import { useEffect, useRef, useState, type ElementRef } from 'react';
+import QRCode from 'react-qr-code';
+import { tenantGet } from '../../services/tenantApiClient';
+import { APIError } from '../../services/apiClient';
+
+// ─── Types (mirror server/src/services/dppPassportFormats.ts) ────────────────
+
+interface EsprFieldCheck {
+  key: string;
+  label: string;
+  level: 'REQUIRED' | 'RECOMMENDED';
+  satisfied: boolean;
+  detail: string | null;
+}
+
+interface EsprTextileReport {
+  framework: 'ESPR_TEXTILES_DRAFT';
+  frameworkNote: string;
+  evaluatedAt: string;
+  ready: boolean;
+  requiredMissing: string[];
+  recommendedMissing: string[];
+  checks: EsprFieldCheck[];
+}
+
+type DppDigitalLink =
+  | { available: true; digitalLinkUri: string; passportUrl: string; gtin: string; publicPassportId: string }
+  | { available: false; reason: 'NOT_PUBLISHED' | 'GTIN_MISSING'; passportUrl: string | null };
+
+interface DppPassportQrLabel {
+  payloadUrl: string;
+  digitalLinkUri: string | null;
+  passportUrl: string;
+  title: string;
+  buyerFacingLabel: string;
+  subtitle: string | null;
+  showTexqticBrand: boolean;
+  productName: string | null;
+  batchId: string | null;
+  gtin: string | null;
+}
+
+const DIGITAL_LINK_UNAVAILABLE: Record<'NOT_PUBLISHED' | 'GTIN_MISSING', string> = {
+  NOT_PUBLISHED: 'Available once the passport is published.',
+  GTIN_MISSING: 'Add a GTIN to the product details to issue a GS1 Digital Link.',
+};
+
+interface Props {
+  nodeId: string;
+  isPublished: boolean;
+}
+
+export function DppPassportFormatsPanel({ nodeId, isPublished }: Readonly<Props>) {
+  const [report, setReport] = useState<EsprTextileReport | null>(null);
+  const [digitalLink, setDigitalLink] = useState<DppDigitalLink | null>(null);
+  const [label, setLabel] = useState<DppPassportQrLabel | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [printError, setPrintError] = useState<string | null>(null);
+  const labelRef = useRef<ElementRef<'div'>>(null);
+
+  useEffect(() => {
+    const base = `/api/tenant/dpp/${encodeURIComponent(nodeId)}/passport`;
+    setReport(null);
+    setDigitalLink(null);
+    setLabel(null);
+    setError(null);
+    setPrintError(null);
+
+    tenantGet<{ report: EsprTextileReport }>(`${base}/espr-report`)
+      .then(data => setReport(data.report))
+      .catch(() => setError('Could not load the ESPR readiness report.'));
+    tenantGet<{ digitalLink: DppDigitalLink }>(`${base}/digital-link`)
+      .then(data => setDigitalLink(data.digitalLink))
+      .catch(() => setDigitalLink(null));
+    if (isPublished) {
+      tenantGet<{ label: DppPassportQrLabel }>(`${base}/label`)
+        .then(data => setLabel(data.label))
+        .catch(() => setLabel(null));
+    }
+  }, [nodeId, isPublished]);
+
+  const handleDownloadJsonLd = async () => {
+    setDownloading(true);
+    try {
+      const doc = await tenantGet<Record<string, unknown>>(
+        `/api/tenant/dpp/${encodeURIComponent(nodeId)}/passport/jsonld`,
+      );
+      const blob = new globalThis.Blob([JSON.stringify(doc, null, 2)], { type: 'application/ld+json' });
+      const url = globalThis.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `dpp-passport-${nodeId}.jsonld`;
+      a.click();
+      globalThis.URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof APIError ? err.message : 'JSON-LD download failed.');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handlePrintLabel = () => {
+    if (!labelRef.current) return;
+    const win = window.open('', '_blank', 'width=480,height=640');
+    if (!win) {
+      setPrintError('Pop-up blocked — allow pop-ups to print the label.');
+      return;
+    }
+    setPrintError(null);
+    win.document.title = label?.title ?? 'Passport label';
+    win.document.body.style.fontFamily = 'system-ui, sans-serif';
+    win.document.body.innerHTML = labelRef.current.outerHTML;
+    win.focus();
+    win.print();
+    win.close();
+  };
+
+  return (
+    <section
+      data-testid="dpp-passport-formats-panel"
+      className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-[10px] font-bold uppercase text-slate-500 tracking-widest">
+          Machine-Readable Passport
+        </h2>
+        <button
+          data-testid="dpp-jsonld-download"
+          type="button"
+          disabled={downloading}
+          onClick={handleDownloadJsonLd}
+          className="text-xs font-medium text-slate-600 hover:text-slate-900 px-3 py-1.5 border border-slate-200 rounded bg-white disabled:opacity-50"
+        >
+          {downloading ? 'Preparing…' : 'Download JSON-LD'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-xs px-3 py-2 rounded">{error}</div>
+      )}
+
+      {/* ── GS1 Digital Link ── */}
+      <div data-testid="dpp-digital-link">
+        <p className="text-xs font-semibold text-slate-600 mb-1">GS1 Digital Link</p>
+        {digitalLink?.available ? (
+          <span className="block truncate text-xs text-slate-700 bg-slate-50 border border-slate-200 rounded px-3 py-2 font-mono">
+            {digitalLink.digitalLinkUri}
+          </span>
+        ) : (
+          <p className="text-xs text-slate-500">
+            {digitalLink ? DIGITAL_LINK_UNAVAILABLE[digitalLink.reason] : '—'}
+          </p>
+        )}
+      </div>
+
+      {/* ── Printable QR label ── */}
+      {label && (
+        <div className="space-y-2">
+          <div
+            ref={labelRef}
+            data-testid="dpp-passport-label"
+            style={{ width: 240, padding: 12, border: '1px solid #cbd5e1', borderRadius: 8, textAlign: 'center' }}
+          >
+            <div style={{ fontSize: 13, fontWeight: 700 }}>{label.title}</div>
+            {label.subtitle && <div style={{ fontSize: 11, color: '#475569' }}>{label.subtitle}</div>}
+            <div style={{ margin: '8px auto', width: 160 }}>
+              <QRCode value={label.payloadUrl} size={160} aria-label={`QR code for ${label.payloadUrl}`} />
+            </div>
+            <div style={{ fontSize: 11, fontWeight: 600 }}>{label.buyerFacingLabel}</div>
+            {label.gtin && <div style={{ fontSize: 10, fontFamily: 'monospace' }}>(01) {label.gtin}</div>}
+            {label.batchId && <div style={{ fontSize: 10, color: '#475569' }}>Batch {label.batchId}</div>}
+            {label.showTexqticBrand && (
+              <div style={{ fontSize: 9, color: '#94a3b8', marginTop: 4 }}>Powered by TexQtic</div>
+            )}
+          </div>
+          <button
+            data-testid="dpp-passport-label-print"
+            type="button"
+            onClick={handlePrintLabel}
+            className="text-xs font-medium text-emerald-700 hover:underline px-3 py-1.5 border border-emerald-200 rounded bg-emerald-50"
+          >
+            Print label
+          </button>
+          {printError && (
+            <div
+              data-testid="dpp-passport-label-print-error"
+              className="bg-amber-50 border border-amber-200 text-amber-700 text-xs px-3 py-2 rounded"
+            >
+              {printError}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* ── ESPR textile readiness ── */}
+      {report && (
+        <div data-testid="dpp-espr-report" className="space-y-2">
+          <div className="flex items-center gap-2">
+            <p className="text-xs font-semibold text-slate-600">ESPR textile readiness</p>
+            <span
+              className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded border ${
+                report.ready
+                  ? 'bg-emerald-50 text-emerald-700 border-emerald-200'
+                  : 'bg-amber-50 text-amber-700 border-amber-200'
+              }`}
+            >
+              {report.ready ? 'Required fields complete' : `${report.requiredMissing.length} required missing`}
+            </span>
+          </div>
+          <ul className="text-xs divide-y divide-slate-100 border border-slate-100 rounded">
+            {report.checks.map(check => (
+              <li key={check.key} className="flex items-center justify-between px-3 py-1.5">
+                <span className={check.satisfied ? 'text-slate-600' : 'text-slate-900 font-medium'}>
+                  {check.satisfied ? '✓' : '✗'} {check.label}
+                  {check.level === 'RECOMMENDED' && <span className="text-slate-400"> (recommended)</span>}
+                </span>
+                {check.detail && <span className="text-slate-500">{check.detail}</span>}
+              </li>
+            ))}
+          </ul>
+          <p className="text-[11px] text-slate-400">{report.frameworkNote}</p>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default DppPassportFormatsPanel;
@@ -0,0 +1,408 @@
+/**
+ * QuoteComparisonMatrix.tsx — line-level quote comparison and split award surface
+ *
+ * Rendered by QuoteReviewPanel when at least one quote carries priced lines.
+ *
+ * - Rows are RFQ lines; columns are SUBMITTED / ACCEPTED line-level quotes.
+ * - Each cell shows unit price × quoted qty, the line amount and lead time.
+ * - The lowest unit price per row (among SUBMITTED quotes) is highlighted.
+ * - Before any award exists, the owner enters per-cell allocation quantities and
+ *   either awards directly ("Award Lines") or requests maker-checker approval.
+ * - Recorded line awards and pending split award approvals are listed below.
+ *
+ * Security:
+ * - Never renders member demand breakdown (RFQ lines carry aggregate qty only).
+ * - Allocation limits are enforced by the backend (INVALID_SPLIT_AWARD); the totals
+ *   shown here are advisory.
+ */
+import React, { useCallback, useMemo, useState, type ReactElement } from 'react';
+import { APIError } from '../../../services/apiClient';
+import {
+  awardRfqLines,
+  requestSplitAwardApproval,
+  type AwardApprovalRequest,
+  type LineAward,
+  type OwnerQuote,
+  type PoolRfqLine,
+  type QuoteLine,
+  type SplitAwardAllocationInput,
+} from '../../../services/networkCommerceService';
+
+export type QuoteComparisonMatrixProps = Readonly<{
+  poolId: string;
+  rfqId: string;
+  rfqLines: PoolRfqLine[];
+  quotes: OwnerQuote[];
+  lineAwards: LineAward[];
+  splitApprovals: AwardApprovalRequest[];
+  currentUserId: string | null;
+  approvingApprovalId: string | null;
+  onApproveSplitAward: (approvalId: string) => void;
+  onRejectSplitAward: (approvalId: string) => void;
+  onChanged: () => Promise<void>;
+}>;
+
+type SubmitMode = 'award' | 'request';
+
+function cellKey(rfqLineId: string, quoteId: string): string {
+  return `${rfqLineId}|${quoteId}`;
+}
+
+function formatNumber(value: string | number): string {
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  if (Number.isNaN(parsed)) return String(value);
+  return new Intl.NumberFormat(undefined, { maximumFractionDigits: 6 }).format(parsed);
+}
+
+function classifySplitError(error: unknown): string {
+  if (error instanceof APIError) {
+    if (error.code === 'INVALID_SPLIT_AWARD') return error.message || 'The allocation is not valid.';
+    if (error.code === 'AWARD_REQUEST_ALREADY_PENDING') return 'An award approval is already pending for this RFQ.';
+    if (error.code === 'INVALID_TRANSITION') return error.message || 'A quote is no longer open for award.';
+    return error.message || 'Action failed.';
+  }
+  if (error instanceof Error) return error.message;
+  return 'Action failed.';
+}
+
+export function QuoteComparisonMatrix({
+  poolId,
+  rfqId,
+  rfqLines,
+  quotes,
+  lineAwards,
+  splitApprovals,
+  currentUserId,
+  approvingApprovalId,
+  onApproveSplitAward,
+  onRejectSplitAward,
+  onChanged,
+}: QuoteComparisonMatrixProps): ReactElement {
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+  const [requestReason, setRequestReason] = useState('');
+  const [submitting, setSubmitting] = useState<SubmitMode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const columns = useMemo(
+    () =>
+      quotes.filter((q) => {
+        const status = q.status.toUpperCase();
+        return (status === 'SUBMITTED' || status === 'ACCEPTED') && (q.lines ?? []).length > 0;
+      }),
+    [quotes],
+  );
+
+  const quoteLineIndex = useMemo(() => {
+    const index = new Map<string, QuoteLine>();
+    for (const quote of columns) {
+      for (const line of quote.lines ?? []) {
+        index.set(cellKey(line.rfq_line_id, quote.id), line);
+      }
+    }
+    return index;
+  }, [columns]);
+
+  const lowestPriceByLine = useMemo(() => {
+    const lowest = new Map<string, number>();
+    for (const quote of columns) {
+      if (quote.status.toUpperCase() !== 'SUBMITTED') continue;
+      for (const line of quote.lines ?? []) {
+        const price = parseFloat(line.unit_price);
+        const current = lowest.get(line.rfq_line_id);
+        if (!Number.isNaN(price) && (current === undefined || price < current)) {
+          lowest.set(line.rfq_line_id, price);
+        }
+      }
+    }
+    return lowest;
+  }, [columns]);
+
+  const awardedByCell = useMemo(() => {
+    const awarded = new Map<string, LineAward>();
+    for (const award of lineAwards) {
+      awarded.set(cellKey(award.rfq_line_id, award.quote_id), award);
+    }
+    return awarded;
+  }, [lineAwards]);
+
+  const quoteRefById = useMemo(
+    () => new Map(quotes.map((q) => [q.id, q.quote_ref])),
+    [quotes],
+  );
+  const lineRefById = useMemo(
+    () => new Map(rfqLines.map((l) => [l.id, l.source_line_ref])),
+    [rfqLines],
+  );
+
+  const awardingOpen = lineAwards.length === 0 && splitApprovals.length === 0;
+
+  const allocationList = useMemo((): SplitAwardAllocationInput[] => {
+    const list: SplitAwardAllocationInput[] = [];
+    for (const [key, raw] of Object.entries(allocations)) {
+      const qty = raw.trim();
+      if (qty === '' || !(parseFloat(qty) > 0)) continue;
+      const [rfqLineId, quoteId] = key.split('|');
+      list.push({ rfq_line_id: rfqLineId, quote_id: quoteId, awarded_qty: qty });
+    }
+    return list;
+  }, [allocations]);
+
+  const allocatedForLine = useCallback(
+    (rfqLineId: string): number =>
+      allocationList
+        .filter((a) => a.rfq_line_id === rfqLineId)
+        .reduce((sum, a) => sum + parseFloat(String(a.awarded_qty)), 0),
+    [allocationList],
+  );
+
+  const handleSubmit = useCallback(
+    async (mode: SubmitMode) => {
+      if (allocationList.length === 0) {
+        setError('Enter at least one allocation quantity.');
+        return;
+      }
+      setSubmitting(mode);
+      setError(null);
+      try {
+        if (mode === 'award') {
+          await awardRfqLines(poolId, rfqId, allocationList);
+        } else {
+          await requestSplitAwardApproval(poolId, rfqId, allocationList, {
+            request_reason: requestReason.trim(),
+            request_id: null,
+          });
+        }
+        setAllocations({});
+        setRequestReason('');
+        await onChanged();
+      } catch (err) {
+        setError(classifySplitError(err));
+      } finally {
+        setSubmitting(null);
+      }
+    },
+    [allocationList, poolId, rfqId, requestReason, onChanged],
+  );
+
+  return (
+    <section
+      aria-label="Line-level quote comparison"
+      className="rounded-3xl border border-slate-200 bg-white px-6 py-6 shadow-sm"
+    >
+      <h2 className="text-base font-bold text-slate-900">Line Comparison</h2>
+      <p className="mt-1 text-sm text-slate-600">
+        Compare per-line prices across suppliers. A line may be split between several quotes.
+      </p>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="min-w-full border-separate border-spacing-0 text-sm">
+          <thead>
+            <tr>
+              <th className="border-b border-slate-200 px-3 py-2 text-left text-[11px] font-bold uppercase tracking-widest text-slate-400">
+                RFQ Line
+              </th>
+              {columns.map((quote) => (
+                <th
+                  key={quote.id}
+                  className="border-b border-slate-200 px-3 py-2 text-left text-[11px] font-bold uppercase tracking-widest text-slate-400"
+                >
+                  {quote.quote_ref}
+                  <span className="ml-1 font-semibold normal-case tracking-normal text-slate-500">
+                    ({quote.currency})
+                  </span>
+                </th>
+              ))}
+              {awardingOpen && (
+                <th className="border-b border-slate-200 px-3 py-2 text-left text-[11px] font-bold uppercase tracking-widest text-slate-400">
+                  Allocated
+                </th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {rfqLines.map((line) => {
+              const allocated = allocatedForLine(line.id);
+              const lineQty = parseFloat(line.qty);
+              const overAllocated = !Number.isNaN(lineQty) && allocated > lineQty;
+              return (
+                <tr key={line.id}>
+                  <td className="border-b border-slate-100 px-3 py-3 align-top">
+                    <p className="font-semibold text-slate-900">{line.source_line_ref}</p>
+                    <p className="text-xs text-slate-500">
+                      {line.product_spec_summary || line.commodity_category}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-600">
+                      {formatNumber(line.qty)} {line.qty_unit}
+                    </p>
+                  </td>
+                  {columns.map((quote) => {
+                    const key = cellKey(line.id, quote.id);
+                    const quoteLine = quoteLineIndex.get(key);
+                    if (!quoteLine) {
+                      return (
+                        <td key={quote.id} className="border-b border-slate-100 px-3 py-3 align-top text-xs text-slate-400">
+                          Not quoted
+                        </td>
+                      );
+                    }
+                    const isLowest =
+                      quote.status.toUpperCase() === 'SUBMITTED' &&
+                      lowestPriceByLine.get(line.id) === parseFloat(quoteLine.unit_price);
+                    const award = awardedByCell.get(key);
+                    const canAllocate = awardingOpen && quote.status.toUpperCase() === 'SUBMITTED';
+                    let cellTone = '';
+                    if (award) cellTone = 'bg-emerald-50';
+                    else if (isLowest) cellTone = 'bg-sky-50';
+                    return (
+                      <td
+                        key={quote.id}
+                        className={`border-b border-slate-100 px-3 py-3 align-top ${cellTone}`}
+                      >
+                        <p className="font-semibold text-slate-900">
+                          {formatNumber(quoteLine.unit_price)} × {formatNumber(quoteLine.quoted_qty)}
+                          {isLowest && (
+                            <span className="ml-2 rounded-full border border-sky-200 bg-white px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-widest text-sky-700">
+                              Lowest
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-slate-600">= {formatNumber(quoteLine.line_amount)}</p>
+                        {quoteLine.lead_time_days !== null && (
+                          <p className="text-xs text-slate-500">{quoteLine.lead_time_days} days lead time</p>
+                        )}
+                        {award && (
+                          <p className="mt-1 text-xs font-semibold text-emerald-800">
+                            Awarded {formatNumber(award.awarded_qty)}
+                          </p>
+                        )}
+                        {canAllocate && (
+                          <input
+                            type="text"
+                            inputMode="decimal"
+                            aria-label={`Allocate ${line.source_line_ref} to ${quote.quote_ref}`}
+                            value={allocations[key] ?? ''}
+                            onChange={(e) =>
+                              setAllocations((prev) => ({ ...prev, [key]: e.target.value }))
+                            }
+                            disabled={submitting !== null}
+                            placeholder="Qty"
+                            className="mt-2 w-24 rounded-xl border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 outline-none transition focus:border-emerald-400"
+                          />
+                        )}
+                      </td>
+                    );
+                  })}
+                  {awardingOpen && (
+                    <td
+                      className={`border-b border-slate-100 px-3 py-3 align-top text-xs font-semibold ${
+                        overAllocated ? 'text-rose-700' : 'text-slate-600'
+                      }`}
+                    >
+                      {formatNumber(allocated)} / {formatNumber(line.qty)}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Allocation controls */}
+      {awardingOpen && (
+        <div className="mt-5 flex flex-col gap-3">
+          <label className="block space-y-2 text-sm font-medium text-slate-700">
+            <span>Request Reason (for approval requests)</span>
+            <textarea
+              value={requestReason}
+              onChange={(e) => setRequestReason(e.target.value)}
+              rows={2}
+              maxLength={1000}
+              disabled={submitting !== null}
+              className="w-full rounded-2xl border border-slate-300 bg-white px-4 py-3 text-sm text-slate-900 outline-none transition focus:border-emerald-400"
+              placeholder="Optional reason for the split award request"
+            />
+          </label>
+          {error && <p className="text-sm text-rose-700">{error}</p>}
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              disabled={submitting !== null}
+              onClick={() => { void handleSubmit('request'); }}
+              className="inline-flex items-center justify-center rounded-xl bg-emerald-700 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald-800 disabled:cursor-not-allowed disabled:opacity-50 transition"
+            >
+              {submitting === 'request' ? 'Requesting…' : 'Request Split Award Approval'}
+            </button>
+            <button
+              type="button"
+              disabled={submitting !== null}
+              onClick={() => { void handleSubmit('award'); }}
+              className="inline-flex items-center justify-center rounded-xl border border-emerald-300 bg-white px-4 py-2 text-sm font-semibold text-emerald-800 hover:bg-emerald-50 disabled:cursor-not-allowed disabled:opacity-50 transition"
+            >
+              {submitting === 'award' ? 'Awarding…' : 'Award Lines'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Pending split award approvals */}
+      {splitApprovals.map((approval) => {
+        const isCheckerEligible =
+          currentUserId !== null && currentUserId !== approval.requested_by_user_id;
+        const isApproving = approvingApprovalId === approval.id;
+        return (
+          <div key={approval.id} className="mt-5 rounded-2xl border border-sky-200 bg-sky-50 px-4 py-4">
+            <p className="text-[11px] font-bold uppercase tracking-widest text-sky-600">Split Award Approval Pending</p>
+            <ul className="mt-2 space-y-1 text-sm text-sky-800">
+              {(approval.split_allocations ?? []).map((a) => (
+                <li key={cellKey(a.rfq_line_id, a.quote_id)}>
+                  {lineRefById.get(a.rfq_line_id) ?? a.rfq_line_id} → {quoteRefById.get(a.quote_id) ?? a.quote_id}:{' '}
+                  {formatNumber(a.awarded_qty)}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-2 text-sm text-sky-800">
+              <span className="font-semibold">Reason:</span> {approval.request_reason || '—'}
+            </p>
+            {isCheckerEligible && (
+              <div className="mt-4 flex flex-wrap gap-3">
+                <button
+                  type="button"
+                  disabled={isApproving}
+                  onClick={() => onApproveSplitAward(approval.id)}
+                  className="inline-flex items-center justify-center rounded-xl bg-emerald-700 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald-800 disabled:cursor-not-allowed disabled:opacity-50 transition"
+                >
+                  {isApproving ? 'Approving…' : 'Approve Split Award'}
+                </button>
+                <button
+                  type="button"
+                  disabled={isApproving}
+                  onClick={() => onRejectSplitAward(approval.id)}
+                  className="inline-flex items-center justify-center rounded-xl border border-amber-300 bg-white px-4 py-2 text-sm font-semibold text-amber-700 hover:bg-amber-50 disabled:cursor-not-allowed disabled:opacity-50 transition"
+                >
+                  Reject Approval
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {/* Recorded line awards */}
+      {lineAwards.length > 0 && (
+        <div className="mt-5 rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-4">
+          <p className="text-[11px] font-bold uppercase tracking-widest text-emerald-700">Line Awards</p>
+          <ul className="mt-2 space-y-1 text-sm text-emerald-900">
+            {lineAwards.map((award) => (
+              <li key={award.id}>
+                {lineRefById.get(award.rfq_line_id) ?? award.rfq_line_id} →{' '}
+                {quoteRefById.get(award.quote_id) ?? award.quote_id}: {formatNumber(award.awarded_qty)} @{' '}
+                {formatNumber(award.unit_price)} = {formatNumber(award.award_amount)} {award.currency}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
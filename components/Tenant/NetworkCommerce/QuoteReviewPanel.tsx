@@ -8,6 +8,9 @@
  * - ready state (list of quotes with accept/reject controls for SUBMITTED quotes)
  * - error state (generic)
  *
+ * When quotes carry priced lines, a QuoteComparisonMatrix is rendered above the quote
+ * list for line-by-line comparison and split awards across suppliers.
+ *
  * Security:
  * - Never renders metadataInternalJson (QD-5/ops-only).
  * - Never renders withdrawReason (supplier-internal).
@@ -20,15 +23,20 @@ import { APIError } from '../../../services/apiClient';
 import { getCurrentUser } from '../../../services/authService';
 import {
   approveAwardApproval,
+  getLineAwardsForRfq,
   getOwnerQuotesForRfq,
   getPendingAwardApprovalsForRfq,
+  getRfqLinesForOwner,
   rejectAwardApproval,
   rejectQuoteForRfq,
   requestAwardApprovalForQuote,
   type AwardApprovalRequest,
+  type LineAward,
   type OwnerQuote,
+  type PoolRfqLine,
 } from '../../../services/networkCommerceService';
 import { LoadingState } from '../../shared/LoadingState';
+import { QuoteComparisonMatrix } from './QuoteComparisonMatrix';
 
 export type QuoteReviewPanelProps = Readonly<{
   poolId: string;
@@ -132,6 +140,7 @@ function classifyMcError(error: unknown): string {
     if (code === 'APPROVAL_EXPIRED') return 'This approval request has expired.';
     if (code === 'MAKER_CHECKER_SAME_ACTOR') return 'The same person cannot both request and approve an award.';
     if (code === 'QUOTE_NO_LONGER_SUBMITTED') return 'This quote is no longer in a submitted state.';
+    if (code === 'INVALID_SPLIT_AWARD') return error.message || 'The split award allocation is no longer valid.';
     return error.message || 'Action failed.';
   }
   if (error instanceof Error) return error.message;
@@ -150,6 +159,8 @@ export function QuoteReviewPanel({ poolId, rfqId, onBack }: QuoteReviewPanelProp
   const [approvingApprovalId, setApprovingApprovalId] = useState<string | null>(null);
   const [rejectApprovalDialog, setRejectApprovalDialog] = useState<RejectApprovalDialogState | null>(null);
   const [rejectDialog, setRejectDialog] = useState<RejectDialogState | null>(null);
+  const [rfqLines, setRfqLines] = useState<PoolRfqLine[]>([]);
+  const [lineAwards, setLineAwards] = useState<LineAward[]>([]);
 
   const loadData = useCallback(async () => {
     setUiState('loading');
@@ -163,14 +174,26 @@ export function QuoteReviewPanel({ poolId, rfqId, onBack }: QuoteReviewPanelProp
         getPendingAwardApprovalsForRfq(poolId, rfqId),
         getCurrentUser({ retry: false, dedupe: true }),
       ]);
+      // Line comparison data is only needed when at least one quote is priced per line.
+      const hasLineQuotes = data.some((q) => (q.lines ?? []).length > 0);
+      const [linesResult, awardsResult] = hasLineQuotes
+        ? await Promise.allSettled([
+            getRfqLinesForOwner(poolId, rfqId),
+            getLineAwardsForRfq(poolId, rfqId),
+          ])
+        : [null, null];
       setQuotes(data);
       setPendingApprovals(approvalsResult.status === 'fulfilled' ? approvalsResult.value : []);
       setCurrentUserId(userResult.status === 'fulfilled' ? userResult.value.user.id : null);
+      setRfqLines(linesResult?.status === 'fulfilled' ? linesResult.value : []);
+      setLineAwards(awardsResult?.status === 'fulfilled' ? awardsResult.value : []);
       setUiState(data.length === 0 ? 'empty' : 'ready');
     } catch (error) {
       const resolution = classifyLoadError(error);
       setQuotes([]);
       setPendingApprovals([]);
+      setRfqLines([]);
+      setLineAwards([]);
       setUiState(resolution.state);
       setErrorMessage(resolution.message || null);
     }
@@ -418,6 +441,23 @@ export function QuoteReviewPanel({ poolId, rfqId, onBack }: QuoteReviewPanelProp
           </div>
         )}
 
+        {/* Line-level comparison / split award */}
+        {uiState === 'ready' && rfqLines.length > 0 && (
+          <QuoteComparisonMatrix
+            poolId={poolId}
+            rfqId={rfqId}
+            rfqLines={rfqLines}
+            quotes={quotes}
+            lineAwards={lineAwards}
+            splitApprovals={pendingApprovals.filter((a) => a.split_allocations !== undefined)}
+            currentUserId={currentUserId}
+            approvingApprovalId={approvingApprovalId}
+            onApproveSplitAward={(approvalId) => { void handleApproveAward(approvalId); }}
+            onRejectSplitAward={handleOpenRejectApprovalDialog}
+            onChanged={loadData}
+          />
+        )}
+
         {/* Quote list */}
         {uiState === 'ready' && quotes.map((quote) => {
           const isSubmitted = quote.status.toUpperCase() === 'SUBMITTED';
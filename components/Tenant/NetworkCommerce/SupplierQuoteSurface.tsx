@@ -4,7 +4,8 @@
  * Renders one of:
  * - loading state (fetching existing quote)
  * - feature-disabled state (503 FEATURE_DISABLED from quote gate)
- * - submit form (invite ACCEPTED, no quote yet — 404 SUPPLIER_QUOTE_NOT_FOUND)
+ * - submit form (invite ACCEPTED, no quote yet — 404 SUPPLIER_QUOTE_NOT_FOUND),
+ *   with optional per-line pricing against the RFQ lines
  * - submitted quote read-only view (existing quote)
  * - error states (409 QUOTE_ALREADY_SUBMITTED, 422 INVITE_NOT_ACCEPTED, generic)
  *
@@ -14,8 +15,11 @@
 import React, { useCallback, useEffect, useState, type ReactElement } from 'react';
 import { APIError } from '../../../services/apiClient';
 import {
+  getSupplierInviteRfqLines,
   getSupplierQuoteForInvite,
   submitSupplierQuoteForInvite,
+  type PoolRfqLine,
+  type SubmitQuoteLineInput,
   type SupplierQuote,
 } from '../../../services/networkCommerceService';
 import { LoadingState } from '../../shared/LoadingState';
@@ -75,14 +79,51 @@ function classifySubmitError(error: unknown): { state: QuoteUiState; message: st
   return { state: 'error', message: 'Failed to submit quote.' };
 }
 
+type LinePriceDraft = { unit_price: string; quoted_qty: string };
+
+const POSITIVE_DECIMAL = /^\d+(\.\d+)?$/;
+
+function isPositiveDecimal(value: string): boolean {
+  return POSITIVE_DECIMAL.test(value) && parseFloat(value) > 0;
+}
+
+/**
+ * Collects the priced lines from the form. A line is priced when either field is
+ * filled in; half-filled or non-positive lines produce a validation error.
+ */
+function collectQuoteLines(
+  rfqLines: PoolRfqLine[],
+  drafts: Record<string, LinePriceDraft>,
+): { lines: SubmitQuoteLineInput[]; error: string | null } {
+  const lines: SubmitQuoteLineInput[] = [];
+  for (const rfqLine of rfqLines) {
+    const draft = drafts[rfqLine.id];
+    const unitPrice = draft?.unit_price.trim() ?? '';
+    const quotedQty = draft?.quoted_qty.trim() ?? '';
+    if (!unitPrice && !quotedQty) continue;
+    if (!isPositiveDecimal(unitPrice) || !isPositiveDecimal(quotedQty)) {
+      return { lines: [], error: `Line ${rfqLine.source_line_ref}: unit price and quantity must both be positive numbers.` };
+    }
+    if (parseFloat(quotedQty) > parseFloat(rfqLine.qty)) {
+      return { lines: [], error: `Line ${rfqLine.source_line_ref}: quantity cannot exceed ${rfqLine.qty} ${rfqLine.qty_unit}.` };
+    }
+    lines.push({ rfq_line_id: rfqLine.id, unit_price: unitPrice, quoted_qty: quotedQty });
+  }
+  return { lines, error: null };
+}
+
 function validateForm(
   quoteAmount: string,
   currency: string,
+  hasPricedLines: boolean,
 ): string | null {
   const trimmedAmount = quoteAmount.trim();
-  if (!trimmedAmount) return 'Quote amount is required.';
-  if (!/^\d+(\.\d+)?$/.test(trimmedAmount)) return 'Quote amount must be a positive number (e.g. 1250.50).';
-  if (parseFloat(trimmedAmount) <= 0) return 'Quote amount must be greater than zero.';
+  // With priced lines the total is derived by the backend; an explicit amount is optional.
+  if (!trimmedAmount && !hasPricedLines) return 'Quote amount is required.';
+  if (trimmedAmount) {
+    if (!POSITIVE_DECIMAL.test(trimmedAmount)) return 'Quote amount must be a positive number (e.g. 1250.50).';
+    if (parseFloat(trimmedAmount) <= 0) return 'Quote amount must be greater than zero.';
+  }
 
   const trimmedCurrency = currency.trim();
   if (!trimmedCurrency) return 'Currency is required.';
@@ -104,6 +145,8 @@ export function SupplierQuoteSurface({ inviteId, onBack }: SupplierQuoteSurfaceP
   const [supplierNote, setSupplierNote] = useState('');
   const [formError, setFormError] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [rfqLines, setRfqLines] = useState<PoolRfqLine[]>([]);
+  const [linePrices, setLinePrices] = useState<Record<string, LinePriceDraft>>({});
 
   const loadQuote = useCallback(async () => {
     setUiState('loading');
@@ -115,6 +158,15 @@ export function SupplierQuoteSurface({ inviteId, onBack }: SupplierQuoteSurfaceP
     } catch (error) {
       const resolution = classifyGetError(error);
       setQuote(null);
+      if (resolution.state === 'no-quote') {
+        // Line pricing is optional — fall back to a whole-RFQ amount if lines are unavailable.
+        try {
+          const lines = await getSupplierInviteRfqLines(inviteId);
+          setRfqLines(Array.isArray(lines) ? lines : []);
+        } catch {
+          setRfqLines([]);
+        }
+      }
       setUiState(resolution.state);
       setErrorMessage(resolution.message || null);
     }
@@ -128,7 +180,13 @@ export function SupplierQuoteSurface({ inviteId, onBack }: SupplierQuoteSurfaceP
     event.preventDefault();
     setFormError(null);
 
-    const validationError = validateForm(quoteAmount, currency);
+    const { lines, error: lineError } = collectQuoteLines(rfqLines, linePrices);
+    if (lineError) {
+      setFormError(lineError);
+      return;
+    }
+
+    const validationError = validateForm(quoteAmount, currency, lines.length > 0);
     if (validationError) {
       setFormError(validationError);
       return;
@@ -137,7 +195,8 @@ export function SupplierQuoteSurface({ inviteId, onBack }: SupplierQuoteSurfaceP
     setSubmitting(true);
     try {
       const data = await submitSupplierQuoteForInvite(inviteId, {
-        quote_amount: quoteAmount.trim(),
+        quote_amount: quoteAmount.trim() ? quoteAmount.trim() : null,
+        lines,
         currency: currency.trim().toUpperCase(),
         validity_until: validityUntil.trim() ? new Date(validityUntil.trim()).toISOString() : null,
         supplier_note: supplierNote.trim() ? supplierNote.trim() : null,
@@ -151,7 +210,15 @@ export function SupplierQuoteSurface({ inviteId, onBack }: SupplierQuoteSurfaceP
     } finally {
       setSubmitting(false);
     }
-  }, [inviteId, quoteAmount, currency, validityUntil, supplierNote]);
+  }, [inviteId, quoteAmount, currency, validityUntil, supplierNote, rfqLines, linePrices]);
+
+  const updateLinePrice = useCallback((rfqLineId: string, field: keyof LinePriceDraft, value: string) => {
+    setLinePrices((prev) => ({
+      ...prev,
+      [rfqLineId]: { ...(prev[rfqLineId] ?? { unit_price: '', quoted_qty: '' }), [field]: value },
+    }));
+    setFormError(null);
+  }, []);
 
   if (uiState === 'loading') {
     return (
@@ -251,13 +318,53 @@ export function SupplierQuoteSurface({ inviteId, onBack }: SupplierQuoteSurfaceP
                 </div>
               )}
 
+              {/* Per-line pricing (optional) */}
+              {rfqLines.length > 0 && (
+                <fieldset className="flex flex-col gap-3 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-4">
+                  <legend className="px-1 text-sm font-medium text-slate-700">
+                    Line Pricing <span className="text-slate-400 font-normal">(optional — leave blank for lines you do not quote)</span>
+                  </legend>
+                  {rfqLines.map((line) => (
+                    <div key={line.id} className="flex flex-col gap-2 sm:flex-row sm:items-end">
+                      <div className="flex-1 text-sm">
+                        <p className="font-semibold text-slate-900">{line.source_line_ref}</p>
+                        <p className="text-xs text-slate-500">
+                          {line.product_spec_summary || line.commodity_category} · {line.qty} {line.qty_unit}
+                        </p>
+                      </div>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        aria-label={`Unit price for ${line.source_line_ref}`}
+                        value={linePrices[line.id]?.unit_price ?? ''}
+                        onChange={(e) => updateLinePrice(line.id, 'unit_price', e.target.value)}
+                        placeholder="Unit price"
+                        className="w-32 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-sky-400"
+                      />
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        aria-label={`Quantity for ${line.source_line_ref}`}
+                        value={linePrices[line.id]?.quoted_qty ?? ''}
+                        onChange={(e) => updateLinePrice(line.id, 'quoted_qty', e.target.value)}
+                        placeholder="Qty"
+                        className="w-28 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 outline-none transition focus:border-sky-400"
+                      />
+                    </div>
+                  ))}
+                </fieldset>
+              )}
+
               {/* Quote Amount */}
               <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-700">
-                Quote Amount <span className="text-rose-500">*</span>
+                Quote Amount{' '}
+                {rfqLines.length > 0
+                  ? <span className="text-slate-400 font-normal">(optional when lines are priced)</span>
+                  : <span className="text-rose-500">*</span>}
                 <input
                   type="text"
                   inputMode="decimal"
-                  required
+                  required={rfqLines.length === 0}
                   value={quoteAmount}
                   onChange={(e) => { setQuoteAmount(e.target.value); setFormError(null); }}
                   placeholder="e.g. 12500.00"
@@ -374,6 +481,17 @@ export function SupplierQuoteSurface({ inviteId, onBack }: SupplierQuoteSurfaceP
                   <dd className="mt-1 text-sm text-slate-700 italic">&ldquo;{quote.supplier_note}&rdquo;</dd>
                 </div>
               )}
+              {(quote.lines ?? []).length > 0 && (
+                <div className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 sm:col-span-2">
+                  <dt className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Line Pricing</dt>
+                  {quote.lines.map((line) => (
+                    <dd key={line.id} className="mt-1 text-sm text-slate-700">
+                      {rfqLines.find((l) => l.id === line.rfq_line_id)?.source_line_ref ?? 'Line'}:{' '}
+                      {line.quoted_qty} × {line.unit_price} = {line.line_amount} {quote.currency}
+                    </dd>
+                  ))}
+                </div>
+              )}
               {quote.withdrawn_at && (
                 <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 sm:col-span-2">
                   <dt className="text-[11px] font-bold uppercase tracking-widest text-rose-600">Withdrawn At</dt>
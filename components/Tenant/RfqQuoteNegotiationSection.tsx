@@ -0,0 +1,380 @@
+import React from 'react';
+import type {
+  RfqQuote,
+  RfqQuoteAuthorSide,
+  RfqQuoteQuantityBreak,
+  RfqQuoteTermsRequest,
+} from '../../services/catalogService';
+
+// TECS-RFQ-QUOTE-001 — structured quote negotiation shared by buyer and supplier RFQ detail.
+
+export const RFQ_QUOTE_INCOTERM_OPTIONS = [
+  'EXW', 'FCA', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP', 'FAS', 'FOB', 'CFR', 'CIF',
+] as const;
+
+export type RfqQuoteTermsDraft = {
+  unitPrice: string;
+  currency: string;
+  quantityBreaks: string;
+  leadTimeDays: string;
+  incoterm: string;
+  validUntil: string;
+  paymentTerms: string;
+  note: string;
+};
+
+export const createEmptyRfqQuoteTermsDraft = (currency = 'USD'): RfqQuoteTermsDraft => ({
+  unitPrice: '',
+  currency,
+  quantityBreaks: '',
+  leadTimeDays: '',
+  incoterm: '',
+  validUntil: '',
+  paymentTerms: '',
+  note: '',
+});
+
+type RfqQuoteTermsDraftResult =
+  | { ok: true; terms: RfqQuoteTermsRequest }
+  | { ok: false; error: string };
+
+function parseQuantityBreaks(value: string): RfqQuoteQuantityBreak[] | null {
+  const lines = value.split('\n').map(line => line.trim()).filter(Boolean);
+  const breaks: RfqQuoteQuantityBreak[] = [];
+
+  for (const line of lines) {
+    const match = /^(\d+)\s*[@:=]\s*(\d+(?:\.\d+)?)$/.exec(line);
+    if (!match) {
+      return null;
+    }
+    breaks.push({ min_quantity: Number(match[1]), unit_price: Number(match[2]) });
+  }
+
+  return breaks;
+}
+
+/**
+ * Converts the quote form draft into the server terms contract. Quantity breaks are
+ * entered one per line as `<min quantity> @ <unit price>`.
+ */
+export function buildRfqQuoteTermsRequest(draft: RfqQuoteTermsDraft): RfqQuoteTermsDraftResult {
+  const unitPrice = Number(draft.unitPrice);
+  if (!draft.unitPrice.trim() || !Number.isFinite(unitPrice) || unitPrice <= 0) {
+    return { ok: false, error: 'Enter a unit price greater than zero.' };
+  }
+
+  const currency = draft.currency.trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    return { ok: false, error: 'Currency must be a 3-letter ISO code.' };
+  }
+
+  const quantityBreaks = parseQuantityBreaks(draft.quantityBreaks);
+  if (!quantityBreaks) {
+    return { ok: false, error: 'Quantity breaks must be one per line, e.g. "500 @ 4.25".' };
+  }
+  for (let i = 1; i < quantityBreaks.length; i += 1) {
+    if (quantityBreaks[i].min_quantity <= quantityBreaks[i - 1].min_quantity) {
+      return { ok: false, error: 'Quantity breaks must be listed in ascending quantity order.' };
+    }
+  }
+
+  let leadTimeDays: number | null = null;
+  if (draft.leadTimeDays.trim()) {
+    leadTimeDays = Number(draft.leadTimeDays);
+    if (!Number.isInteger(leadTimeDays) || leadTimeDays < 0) {
+      return { ok: false, error: 'Lead time must be a whole number of days.' };
+    }
+  }
+
+  return {
+    ok: true,
+    terms: {
+      unit_price: unitPrice,
+      currency,
+      quantity_breaks: quantityBreaks,
+      lead_time_days: leadTimeDays,
+      incoterm: draft.incoterm || null,
+      valid_until: draft.validUntil || null,
+      payment_terms: draft.paymentTerms.trim() || null,
+      note: draft.note.trim() || null,
+    },
+  };
+}
+
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+function describeQuoteStatus(quote: RfqQuote): string {
+  if (quote.status === 'ACCEPTED') {
+    return 'Accepted';
+  }
+  if (quote.status === 'SUPERSEDED') {
+    return 'Superseded';
+  }
+  return quote.expired ? 'Expired' : 'Current';
+}
+
+function QuoteTermsSummary({ quote }: Readonly<{ quote: RfqQuote }>) {
+  return (
+    <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm sm:grid-cols-3">
+      <div>
+        <dt className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Unit Price</dt>
+        <dd className="text-slate-900">{formatMoney(quote.effective_unit_price, quote.currency)}</dd>
+      </div>
+      <div>
+        <dt className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Quote Total</dt>
+        <dd className="font-semibold text-slate-900">{formatMoney(quote.total_amount, quote.currency)}</dd>
+      </div>
+      <div>
+        <dt className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Quantity</dt>
+        <dd className="text-slate-900">{quote.quantity}</dd>
+      </div>
+      <div>
+        <dt className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Lead Time</dt>
+        <dd className="text-slate-900">{quote.lead_time_days === null ? '—' : `${quote.lead_time_days} days`}</dd>
+      </div>
+      <div>
+        <dt className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Incoterm</dt>
+        <dd className="text-slate-900">{quote.incoterm ?? '—'}</dd>
+      </div>
+      <div>
+        <dt className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Valid Until</dt>
+        <dd className="text-slate-900">{quote.valid_until ?? '—'}</dd>
+      </div>
+      <div className="col-span-2 sm:col-span-3">
+        <dt className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Payment Terms</dt>
+        <dd className="text-slate-900">{quote.payment_terms ?? '—'}</dd>
+      </div>
+      {quote.quantity_breaks.length > 0 && (
+        <div className="col-span-2 sm:col-span-3">
+          <dt className="text-[11px] font-bold uppercase tracking-widest text-slate-400">Quantity Breaks</dt>
+          <dd className="text-slate-900">
+            {quote.quantity_breaks
+              .map(tier => `${tier.min_quantity}+ @ ${formatMoney(tier.unit_price, quote.currency)}`)
+              .join(' · ')}
+          </dd>
+        </div>
+      )}
+    </dl>
+  );
+}
+
+type RfqQuoteTermsFormProps = Readonly<{
+  idPrefix: string;
+  submitLabel: string;
+  defaultCurrency: string;
+  loading: boolean;
+  onSubmit: (terms: RfqQuoteTermsRequest) => void;
+}>;
+
+export function RfqQuoteTermsForm({
+  idPrefix,
+  submitLabel,
+  defaultCurrency,
+  loading,
+  onSubmit,
+}: RfqQuoteTermsFormProps) {
+  const [draft, setDraft] = React.useState(() => createEmptyRfqQuoteTermsDraft(defaultCurrency));
+  const [validationError, setValidationError] = React.useState<string | null>(null);
+
+  const update = (field: keyof RfqQuoteTermsDraft) =>
+    (event: { target: { value: string } }) => {
+      const { value } = event.target;
+      setDraft(current => ({ ...current, [field]: value }));
+    };
+
+  const inputClass =
+    'w-full rounded-xl border border-slate-300 px-3 py-2 text-sm text-slate-900 outline-none focus:border-slate-500 focus:ring-2 focus:ring-slate-200';
+  const labelClass = 'text-[11px] font-bold uppercase tracking-widest text-slate-400';
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={event => {
+        event.preventDefault();
+        const result = buildRfqQuoteTermsRequest(draft);
+        if (!result.ok) {
+          setValidationError(result.error);
+          return;
+        }
+        setValidationError(null);
+        onSubmit(result.terms);
+      }}
+    >
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <label htmlFor={`${idPrefix}-unit-price`} className={labelClass}>Unit Price</label>
+          <input id={`${idPrefix}-unit-price`} type="number" min="0" step="0.0001" value={draft.unitPrice} onChange={update('unitPrice')} className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={`${idPrefix}-currency`} className={labelClass}>Currency</label>
+          <input id={`${idPrefix}-currency`} maxLength={3} value={draft.currency} onChange={update('currency')} className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={`${idPrefix}-lead-time`} className={labelClass}>Lead Time (days)</label>
+          <input id={`${idPrefix}-lead-time`} type="number" min="0" step="1" value={draft.leadTimeDays} onChange={update('leadTimeDays')} className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={`${idPrefix}-incoterm`} className={labelClass}>Incoterm</label>
+          <select id={`${idPrefix}-incoterm`} value={draft.incoterm} onChange={update('incoterm')} className={inputClass}>
+            <option value="">Not specified</option>
+            {RFQ_QUOTE_INCOTERM_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={`${idPrefix}-valid-until`} className={labelClass}>Valid Until</label>
+          <input id={`${idPrefix}-valid-until`} type="date" value={draft.validUntil} onChange={update('validUntil')} className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={`${idPrefix}-payment-terms`} className={labelClass}>Payment Terms</label>
+          <input id={`${idPrefix}-payment-terms`} maxLength={200} value={draft.paymentTerms} onChange={update('paymentTerms')} className={inputClass} />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <label htmlFor={`${idPrefix}-breaks`} className={labelClass}>Quantity Breaks</label>
+        <textarea
+          id={`${idPrefix}-breaks`}
+          rows={2}
+          value={draft.quantityBreaks}
+          onChange={update('quantityBreaks')}
+          className={inputClass}
+          placeholder={'500 @ 4.25\n1000 @ 3.90'}
+        />
+      </div>
+      <div className="space-y-1">
+        <label htmlFor={`${idPrefix}-note`} className={labelClass}>Note</label>
+        <textarea id={`${idPrefix}-note`} rows={2} maxLength={1000} value={draft.note} onChange={update('note')} className={inputClass} />
+      </div>
+
+      {validationError && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+          {validationError}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={loading}
+          className="rounded-xl bg-slate-900 px-5 py-3 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:bg-slate-300"
+        >
+          {loading ? 'Submitting...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+type RfqQuoteNegotiationSectionProps = Readonly<{
+  viewerSide: RfqQuoteAuthorSide;
+  quoteThread: RfqQuote[];
+  bestTerms: RfqQuote | null;
+  acceptedQuoteId: string | null;
+  actionLoading: boolean;
+  actionError: string | null;
+  onAccept?: (quoteId: string) => void;
+  onSubmitRevision?: (terms: RfqQuoteTermsRequest) => void;
+}>;
+
+export function RfqQuoteNegotiationSection({
+  viewerSide,
+  quoteThread,
+  bestTerms,
+  acceptedQuoteId,
+  actionLoading,
+  actionError,
+  onAccept,
+  onSubmitRevision,
+}: RfqQuoteNegotiationSectionProps) {
+  const activeQuote = quoteThread.find(quote => quote.status === 'ACTIVE') ?? null;
+  const canAccept =
+    viewerSide === 'BUYER' &&
+    !acceptedQuoteId &&
+    activeQuote?.author_side === 'SUPPLIER' &&
+    !activeQuote.expired &&
+    Boolean(onAccept);
+  const canRevise = !acceptedQuoteId && Boolean(onSubmitRevision);
+  const latestCurrency = quoteThread.at(-1)?.currency ?? 'USD';
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white px-5 py-5 space-y-4 shadow-sm">
+      <div>
+        <h4 className="text-sm font-bold text-slate-900">Quote Negotiation</h4>
+        <p className="mt-1 text-xs text-slate-500">
+          Each revision supersedes the previous one. Only the buyer can accept, and only the current supplier revision.
+        </p>
+      </div>
+
+      {bestTerms ? (
+        <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-4 space-y-3">
+          <p className="text-[11px] font-bold uppercase tracking-widest text-emerald-700">
+            {bestTerms.status === 'ACCEPTED' ? 'Accepted Terms' : 'Current Best Terms'} · Revision {bestTerms.revision}
+          </p>
+          <QuoteTermsSummary quote={bestTerms} />
+        </div>
+      ) : (
+        <div className="rounded-xl border border-slate-200 bg-slate-50 px-4 py-4 text-sm text-slate-600">
+          {quoteThread.length === 0
+            ? 'No priced quote has been shared for this RFQ yet.'
+            : 'No open supplier terms right now. A pending counter-offer or an expired quote is awaiting a supplier revision.'}
+        </div>
+      )}
+
+      <ol className="space-y-3">
+        {[...quoteThread].reverse().map(quote => (
+          <li key={quote.id} className="rounded-xl border border-slate-200 px-4 py-3 space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="font-semibold text-slate-700">
+                Revision {quote.revision} · {quote.author_side === 'SUPPLIER' ? 'Supplier quote' : 'Buyer counter-offer'}
+              </span>
+              <span className="text-slate-500">{describeQuoteStatus(quote)}</span>
+            </div>
+            <QuoteTermsSummary quote={quote} />
+            {quote.note && <p className="text-sm text-slate-600 whitespace-pre-wrap">{quote.note}</p>}
+          </li>
+        ))}
+      </ol>
+
+      {actionError && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+          {actionError}
+        </div>
+      )}
+
+      {canAccept && activeQuote && onAccept && (
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={() => onAccept(activeQuote.id)}
+            disabled={actionLoading}
+            className="rounded-xl bg-emerald-600 px-5 py-3 text-sm font-semibold text-white transition hover:bg-emerald-700 disabled:cursor-not-allowed disabled:bg-slate-300"
+          >
+            Accept Revision {activeQuote.revision}
+          </button>
+        </div>
+      )}
+
+      {canRevise && onSubmitRevision && (
+        <div className="border-t border-slate-200 pt-4 space-y-2">
+          <p className="text-xs font-semibold text-slate-700">
+            {viewerSide === 'BUYER' ? 'Counter-offer' : 'Revise Quote'}
+          </p>
+          <RfqQuoteTermsForm
+            idPrefix={`rfq-quote-${viewerSide.toLowerCase()}`}
+            submitLabel={viewerSide === 'BUYER' ? 'Send Counter-offer' : 'Send Revised Quote'}
+            defaultCurrency={latestCurrency}
+            loading={actionLoading}
+            onSubmit={onSubmitRevision}
+          />
+        </div>
+      )}
+    </section>
+  );
+}
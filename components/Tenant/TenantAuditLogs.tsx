@@ -22,10 +22,22 @@
  *   ❌ Raw beforeJson / afterJson / metadataJson inline dump — omitted for safety
  *   ❌ Control-plane audit log access — separate future unit
  *   ❌ Audit log detail drill-down — out of scope for this unit
+ *
+ * Integrity (AUDIT-CHAIN-001):
+ *   ✅ GET /api/tenant/audit-logs/verify — hash-chain status of this tenant's log (any member)
+ *   ✅ GET /api/tenant/audit-logs/export — signed ZIP bundle for a date range (OWNER / ADMIN;
+ *      other roles get the server's 403 message)
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { tenantGet } from '../../services/tenantApiClient';
+import { APIError } from '../../services/apiClient';
+import {
+  auditExportRangeFromDays,
+  downloadTenantAuditExport,
+  verifyTenantAuditChain,
+  type AuditChainVerification,
+} from '../../services/auditLogService';
 import { LoadingState } from '../shared/LoadingState';
 import { ErrorState } from '../shared/ErrorState';
 import { EmptyState } from '../shared/EmptyState';
@@ -135,6 +147,150 @@ function ActorTypeBadge({ actorType }: { actorType: string }) {
   );
 }
 
+// ─── Audit Chain Integrity ───────────────────────────────────────────────────
+
+const CHAIN_STATUS_CLASSES: Record<AuditChainVerification['status'], string> = {
+  INTACT: 'bg-emerald-100 text-emerald-700',
+  BROKEN: 'bg-rose-100 text-rose-700',
+  EMPTY:  'bg-slate-100 text-slate-600',
+};
+
+const CHAIN_STATUS_LABELS: Record<AuditChainVerification['status'], string> = {
+  INTACT: 'Chain intact',
+  BROKEN: 'Tampering detected',
+  EMPTY:  'Nothing sealed yet',
+};
+
+function todayIsoDate(): string {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString().slice(0, 10);
+}
+
+function AuditChainIntegrityPanel() {
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [exportFrom, setExportFrom] = useState(() => todayIsoDate().slice(0, 8) + '01');
+  const [exportTo, setExportTo] = useState(todayIsoDate);
+  const [exporting, setExporting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    setActionError(null);
+    try {
+      setVerification(await verifyTenantAuditChain());
+    } catch (err) {
+      setVerification(null);
+      setActionError(err instanceof APIError ? err.message : 'Audit chain verification failed.');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setActionError(null);
+    try {
+      const blob = await downloadTenantAuditExport(auditExportRangeFromDays(exportFrom, exportTo));
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-log-${exportFrom}_${exportTo}.zip`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      setActionError(err instanceof APIError ? err.message : 'Audit log export failed.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const busy = verifying || exporting;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-3">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => void handleVerify()}
+            disabled={busy}
+            className="text-xs font-bold uppercase tracking-widest text-slate-600 hover:text-slate-900 transition disabled:opacity-40 border border-slate-200 px-3 py-1.5 rounded-lg"
+          >
+            {verifying ? 'Verifying…' : 'Verify Integrity'}
+          </button>
+          {verification && (
+            <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold uppercase tracking-wide ${CHAIN_STATUS_CLASSES[verification.status]}`}>
+              {CHAIN_STATUS_LABELS[verification.status]}
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+            From
+            <input
+              type="date"
+              value={exportFrom}
+              max={exportTo}
+              onChange={e => setExportFrom(e.target.value)}
+              disabled={busy}
+              className="block mt-1 border border-slate-200 rounded-lg px-2 py-1 text-sm text-slate-700 normal-case tracking-normal font-normal"
+            />
+          </label>
+          <label className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+            To
+            <input
+              type="date"
+              value={exportTo}
+              min={exportFrom}
+              onChange={e => setExportTo(e.target.value)}
+              disabled={busy}
+              className="block mt-1 border border-slate-200 rounded-lg px-2 py-1 text-sm text-slate-700 normal-case tracking-normal font-normal"
+            />
+          </label>
+          <button
+            onClick={() => void handleExport()}
+            disabled={busy || !exportFrom || !exportTo || exportTo < exportFrom}
+            className="text-xs font-bold uppercase tracking-widest text-white bg-slate-900 hover:bg-slate-700 transition disabled:opacity-40 px-3 py-2 rounded-lg"
+          >
+            {exporting ? 'Exporting…' : 'Download Signed Export'}
+          </button>
+        </div>
+      </div>
+
+      {actionError && <p className="text-sm text-rose-600">{actionError}</p>}
+
+      {verification && (
+        <div className="space-y-2 text-sm">
+          <p className="text-slate-500">
+            {verification.entriesChecked} sealed entries checked
+            {verification.lastCheckpoint
+              ? ` · last signed checkpoint ${formatDate(verification.lastCheckpoint.createdAt)}`
+              : ' · no signed checkpoint yet'}
+            {verification.unsealedRows > 0 && ` · ${verification.unsealedRows} entries awaiting sealing`}
+          </p>
+          {verification.issues.length > 0 && (
+            <ul className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+              {verification.issues.map((issue, index) => (
+                <li key={`${issue.code}-${issue.seq ?? 'none'}-${index}`} className="px-3 py-2 flex gap-3">
+                  <span className={`font-mono text-xs font-semibold ${issue.severity === 'error' ? 'text-rose-600' : 'text-amber-600'}`}>
+                    {issue.code}
+                  </span>
+                  <span className="text-slate-600">{issue.detail}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {verification.issueCount > verification.issues.length && (
+            <p className="text-xs text-slate-400">
+              Showing {verification.issues.length} of {verification.issueCount} issues.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── TenantAuditLogs ─────────────────────────────────────────────────────────
 
 export function TenantAuditLogs({ onBack }: Props) {
@@ -187,6 +343,8 @@ export function TenantAuditLogs({ onBack }: Props) {
         </button>
       </div>
 
+      <AuditChainIntegrityPanel />
+
       {/* States */}
       {loading && <LoadingState message="Loading audit log entries…" />}
 
@@ -5,6 +5,8 @@
  *   - Nodes list   : GET  /api/tenant/traceability/nodes
  *   - Create node  : POST /api/tenant/traceability/nodes
  *   - Node detail  : GET  /api/tenant/traceability/nodes/:id/neighbors (1-hop graph)
+ *   - Lineage graph: GET  /api/tenant/traceability/nodes/:id/lineage (multi-hop, SVG)
+ *   - Mass balance : GET  /api/tenant/traceability/nodes/:id/mass-balance
  *   - Edges list   : GET  /api/tenant/traceability/edges
  *   - Create edge  : POST /api/tenant/traceability/edges
  *
@@ -17,6 +19,8 @@
  *   ✅ Create node (SUBMITTED → nodeId)
  *   ✅ Create edge (fromNode → toNode link)
  *   ✅ 1-hop neighbor view (read-only graph context)
+ *   ✅ Lineage graph — upstream/downstream, depth + edge-type filters,
+ *      click a node to re-root, mass-balance status on transformation nodes
  *   ❌ UPDATE / DELETE — not exposed on any plane in Phase A
  */
 
@@ -25,11 +29,19 @@ import {
   createNode,
   listNodes,
   getNodeNeighbors,
+  getLineage,
+  getMassBalance,
   createEdge,
   listEdges,
+  LINEAGE_MAX_DEPTH,
   type TraceabilityNodeRow,
   type TraceabilityEdgeRow,
   type NodeNeighborsResponse,
+  type LineageDirection,
+  type LineageNode,
+  type LineageResponse,
+  type MassBalanceEntry,
+  type MassBalanceStatus,
 } from '../../services/traceabilityService';
 import { APIError } from '../../services/apiClient';
 import { LoadingState } from '../shared/LoadingState';
@@ -126,12 +138,274 @@ const EdgeRowItem: React.FC<{ edge: TraceabilityEdgeRow }> = ({ edge }) => (
         {edge.transformationId && (
           <p className="text-[10px] text-slate-400">Transform: {edge.transformationId}</p>
         )}
+        {edge.quantity && (
+          <p className="text-[10px] text-slate-400">Quantity: {Number(edge.quantity)} {edge.quantityUnit}</p>
+        )}
         <p className="text-[10px] text-slate-400">{fmtDate(edge.createdAt)}</p>
       </div>
     </div>
   </div>
 );
 
+// ─── LineageGraphView ─────────────────────────────────────────────────────────
+
+const GRAPH_COL_WIDTH = 200;
+const GRAPH_ROW_HEIGHT = 64;
+const GRAPH_NODE_WIDTH = 160;
+const GRAPH_NODE_HEIGHT = 44;
+
+const MASS_BALANCE_STYLE: Record<MassBalanceStatus, { stroke: string; label: string; badge: string }> = {
+  BALANCED:      { stroke: '#10b981', label: 'Balanced',      badge: 'bg-emerald-100 text-emerald-700' },
+  EXCESS_OUTPUT: { stroke: '#e11d48', label: 'Excess output', badge: 'bg-rose-100 text-rose-700' },
+  UNIT_MISMATCH: { stroke: '#d97706', label: 'Unit mismatch', badge: 'bg-amber-100 text-amber-700' },
+  INCOMPLETE:    { stroke: '#94a3b8', label: 'Incomplete',    badge: 'bg-slate-100 text-slate-600' },
+};
+
+type PositionedNode = LineageNode & { x: number; y: number };
+
+/**
+ * Column per signed hop distance (upstream left of the root, downstream right),
+ * nodes stacked within a column in batchId order. Good enough for the shallow,
+ * mostly tree-shaped graphs traceability produces; no layout library needed.
+ */
+function layoutLineage(nodes: LineageNode[]): { positioned: PositionedNode[]; width: number; height: number } {
+  const signed = (n: LineageNode) => (n.direction === 'UPSTREAM' ? -n.depth : n.depth);
+  const minCol = Math.min(0, ...nodes.map(signed));
+  const maxCol = Math.max(0, ...nodes.map(signed));
+  const rowsPerCol = new Map<number, number>();
+
+  const positioned = [...nodes]
+    .sort((a, b) => a.batchId.localeCompare(b.batchId))
+    .map((n) => {
+      const col = signed(n);
+      const row = rowsPerCol.get(col) ?? 0;
+      rowsPerCol.set(col, row + 1);
+      return { ...n, x: (col - minCol) * GRAPH_COL_WIDTH + 20, y: row * GRAPH_ROW_HEIGHT + 20 };
+    });
+
+  const maxRows = Math.max(1, ...rowsPerCol.values());
+  return {
+    positioned,
+    width: (maxCol - minCol) * GRAPH_COL_WIDTH + GRAPH_NODE_WIDTH + 40,
+    height: maxRows * GRAPH_ROW_HEIGHT + 20,
+  };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+const LineageGraphView: React.FC<{ node: TraceabilityNodeRow }> = ({ node }) => {
+  const [rootId, setRootId] = useState(node.id);
+  const [direction, setDirection] = useState<LineageDirection>('BOTH');
+  const [depth, setDepth] = useState(5);
+  const [edgeTypesRaw, setEdgeTypesRaw] = useState('');
+  const [edgeTypes, setEdgeTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lineage, setLineage] = useState<LineageResponse | null>(null);
+  const [balance, setBalance] = useState<MassBalanceEntry[]>([]);
+
+  useEffect(() => { setRootId(node.id); }, [node.id]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = { direction, depth, edgeTypes };
+      const [graph, mass] = await Promise.all([getLineage(rootId, params), getMassBalance(rootId, params)]);
+      setLineage(graph);
+      setBalance(mass.entries);
+    } catch (err: unknown) {
+      setError(friendlyError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [rootId, direction, depth, edgeTypes]);
+
+  useEffect(() => { load(); }, [load]);
+
+  function applyEdgeTypes(e: React.FormEvent) {
+    e.preventDefault();
+    setEdgeTypes(edgeTypesRaw.split(',').map((t) => t.trim().toUpperCase()).filter((t) => t.length > 0));
+  }
+
+  const layout = lineage ? layoutLineage(lineage.nodes) : null;
+  const byId = new Map((layout?.positioned ?? []).map((n) => [n.id, n]));
+  const balanceById = new Map(balance.map((b) => [b.nodeId, b]));
+  const root = byId.get(rootId);
+  const flagged = balance.filter((b) => b.status === 'EXCESS_OUTPUT' || b.status === 'UNIT_MISMATCH');
+
+  return (
+    <div data-testid="traceability-lineage-graph">
+      <h3 className="text-sm font-bold text-slate-700 mb-3">Lineage</h3>
+
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <div>
+          <label htmlFor="lineage-direction" className="block text-[10px] font-semibold text-slate-500 mb-1">Direction</label>
+          <select
+            id="lineage-direction"
+            value={direction}
+            onChange={(e) => setDirection(e.target.value as LineageDirection)}
+            className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm"
+          >
+            <option value="BOTH">Upstream + downstream</option>
+            <option value="UPSTREAM">Upstream (inputs)</option>
+            <option value="DOWNSTREAM">Downstream (outputs)</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="lineage-depth" className="block text-[10px] font-semibold text-slate-500 mb-1">Depth</label>
+          <input
+            id="lineage-depth"
+            type="number"
+            min={1}
+            max={LINEAGE_MAX_DEPTH}
+            value={depth}
+            onChange={(e) => setDepth(Math.min(LINEAGE_MAX_DEPTH, Math.max(1, Number(e.target.value) || 1)))}
+            className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm w-20"
+          />
+        </div>
+        <form onSubmit={applyEdgeTypes} className="flex items-end gap-2">
+          <div>
+            <label htmlFor="lineage-edgeTypes" className="block text-[10px] font-semibold text-slate-500 mb-1">Edge types</label>
+            <input
+              id="lineage-edgeTypes"
+              type="text"
+              value={edgeTypesRaw}
+              onChange={(e) => setEdgeTypesRaw(e.target.value)}
+              placeholder="All — or e.g. TRANSFORMS,CONTAINS"
+              className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm w-64"
+            />
+          </div>
+          <button
+            type="submit"
+            className="border border-slate-300 text-slate-600 px-3 py-1.5 rounded-lg text-sm hover:bg-slate-50 transition-colors"
+          >
+            Apply
+          </button>
+        </form>
+        {rootId !== node.id && (
+          <button
+            onClick={() => setRootId(node.id)}
+            className="text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+          >
+            ↺ Back to {truncate(node.batchId, 20)}
+          </button>
+        )}
+      </div>
+
+      {loading && <LoadingState message="Loading lineage…" />}
+      {error && <ErrorState error={{ message: error }} />}
+      {!loading && !error && lineage && layout && (
+        <>
+          {lineage.truncated && (
+            <p className="text-[10px] text-amber-700 mb-2">
+              Result truncated — reduce the depth or filter by edge type to see the full lineage.
+            </p>
+          )}
+          {lineage.nodes.length <= 1 ? (
+            <p className="text-sm text-slate-400 italic">No connected nodes within {depth} hop(s).</p>
+          ) : (
+            <div className="overflow-auto border border-slate-200 rounded-lg bg-slate-50">
+              <svg width={layout.width} height={layout.height} role="img" aria-label="Lineage graph">
+                <defs>
+                  <marker id="lineage-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M0,0 L10,5 L0,10 z" fill="#94a3b8" />
+                  </marker>
+                </defs>
+                {lineage.edges.map((edge) => {
+                  const from = byId.get(edge.fromNodeId);
+                  const to = byId.get(edge.toNodeId);
+                  if (!from || !to) return null;
+                  const x1 = from.x + GRAPH_NODE_WIDTH;
+                  const y1 = from.y + GRAPH_NODE_HEIGHT / 2;
+                  const x2 = to.x;
+                  const y2 = to.y + GRAPH_NODE_HEIGHT / 2;
+                  const mid = (x1 + x2) / 2;
+                  return (
+                    <g key={edge.id}>
+                      <path
+                        d={`M${x1},${y1} C${mid},${y1} ${mid},${y2} ${x2},${y2}`}
+                        fill="none"
+                        stroke="#94a3b8"
+                        strokeWidth={1.5}
+                        markerEnd="url(#lineage-arrow)"
+                      />
+                      <text x={mid} y={(y1 + y2) / 2 - 4} textAnchor="middle" fontSize={9} fill="#64748b">
+                        {edge.edgeType}
+                        {edge.quantity ? ` · ${Number(edge.quantity)} ${edge.quantityUnit ?? ''}` : ''}
+                      </text>
+                    </g>
+                  );
+                })}
+                {layout.positioned.map((n) => {
+                  const mass = balanceById.get(n.id);
+                  const isRoot = n.id === rootId;
+                  const plainStroke = isRoot ? '#6366f1' : '#cbd5e1';
+                  return (
+                    <g
+                      key={n.id}
+                      transform={`translate(${n.x},${n.y})`}
+                      onClick={() => setRootId(n.id)}
+                      style={{ cursor: isRoot ? 'default' : 'pointer' }}
+                    >
+                      <title>
+                        {`${n.batchId} (${n.nodeType})${mass ? ` — ${MASS_BALANCE_STYLE[mass.status].label}` : ''}`}
+                      </title>
+                      <rect
+                        width={GRAPH_NODE_WIDTH}
+                        height={GRAPH_NODE_HEIGHT}
+                        rx={8}
+                        fill={isRoot ? '#eef2ff' : '#ffffff'}
+                        stroke={mass ? MASS_BALANCE_STYLE[mass.status].stroke : plainStroke}
+                        strokeWidth={isRoot || mass ? 2 : 1}
+                        strokeDasharray={mass?.status === 'INCOMPLETE' ? '4 3' : undefined}
+                      />
+                      <text x={10} y={18} fontSize={11} fontWeight={600} fill="#0f172a">
+                        {truncate(n.batchId, 22)}
+                      </text>
+                      <text x={10} y={33} fontSize={9} fill="#64748b">
+                        {n.nodeType}
+                        {mass ? ` · ${MASS_BALANCE_STYLE[mass.status].label}` : ''}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+          )}
+          <p className="text-[10px] text-slate-400 mt-2">
+            Root: {root ? root.batchId : rootId} · {lineage.nodes.length} node(s), {lineage.edges.length} edge(s).
+            Click a node to trace from it.
+          </p>
+
+          {balance.length > 0 && (
+            <div className="mt-4">
+              <h4 className="text-xs font-bold text-slate-600 mb-2">
+                Mass balance ({flagged.length} issue{flagged.length === 1 ? '' : 's'})
+              </h4>
+              <div className="space-y-1">
+                {balance.map((b) => (
+                  <div key={b.nodeId} className="flex items-center gap-2 text-xs text-slate-600">
+                    <Badge label={MASS_BALANCE_STYLE[b.status].label} className={MASS_BALANCE_STYLE[b.status].badge} />
+                    <span className="font-mono">{b.batchId}</span>
+                    <span className="text-slate-400">
+                      in {b.inputQuantity} / out {b.outputQuantity} {b.unit ?? ''}
+                      {b.variancePercent !== null ? ` (${b.variancePercent > 0 ? '+' : ''}${b.variancePercent}%)` : ''}
+                      {b.unquantifiedEdges > 0 ? ` · ${b.unquantifiedEdges} edge(s) without quantity` : ''}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
 // ─── NodeDetailView ───────────────────────────────────────────────────────────
 
 const NodeDetailView: React.FC<{
@@ -211,6 +485,7 @@ const NodeDetailView: React.FC<{
               </div>
             )}
           </div>
+          <LineageGraphView node={node} />
         </div>
       )}
     </div>
@@ -395,6 +670,8 @@ const CreateEdgeForm: React.FC<{
   const [toNodeId, setToNodeId] = useState('');
   const [edgeType, setEdgeType] = useState('');
   const [transformationId, setTransformationId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [quantityUnit, setQuantityUnit] = useState('');
   const [metaRaw, setMetaRaw] = useState('{}');
   const [metaError, setMetaError] = useState<string | null>(null);
   const [phase, setPhase] = useState<SubmitPhase>('IDLE');
@@ -420,6 +697,12 @@ const CreateEdgeForm: React.FC<{
     if (!fromNodeId.trim() || !toNodeId.trim() || !edgeType.trim()) return;
     const meta = validateMeta();
     if (meta === null) return;
+    const qty = quantity.trim() ? Number(quantity) : null;
+    if ((qty === null) !== !quantityUnit.trim() || (qty !== null && !(qty > 0))) {
+      setPhase('ERROR');
+      setSubmitError('Quantity must be a positive number and needs a unit (and vice versa).');
+      return;
+    }
 
     setPhase('SUBMITTING');
     setSubmitError(null);
@@ -429,6 +712,8 @@ const CreateEdgeForm: React.FC<{
       toNodeId: toNodeId.trim(),
       edgeType: edgeType.trim(),
       transformationId: transformationId.trim() || null,
+      quantity: qty,
+      quantityUnit: quantityUnit.trim() || null,
       meta,
     })
       .then((res) => {
@@ -511,6 +796,39 @@ const CreateEdgeForm: React.FC<{
           />
         </div>
 
+        <div className="flex gap-3">
+          <div className="flex-1">
+            <label htmlFor="edge-quantity" className="block text-sm font-semibold text-slate-700 mb-1">
+              Quantity <span className="text-slate-400 font-normal">(optional)</span>
+            </label>
+            <input
+              id="edge-quantity"
+              type="number"
+              min="0"
+              step="any"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder="e.g. 1200"
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="w-32">
+            <label htmlFor="edge-quantityUnit" className="block text-sm font-semibold text-slate-700 mb-1">Unit</label>
+            <input
+              id="edge-quantityUnit"
+              type="text"
+              value={quantityUnit}
+              onChange={(e) => setQuantityUnit(e.target.value)}
+              placeholder="kg"
+              maxLength={20}
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+        </div>
+        <p className="text-[10px] text-slate-400 -mt-2">
+          Material moved along the edge — used for mass-balance checks. Edges that would form a cycle are rejected.
+        </p>
+
         <div>
           <label htmlFor="edge-meta" className="block text-sm font-semibold text-slate-700 mb-1">
             Meta <span className="text-slate-400 font-normal">(JSON object)</span>
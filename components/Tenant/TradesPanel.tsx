@@ -37,6 +37,8 @@ interface Props {
   onBack: () => void;
   initialTradeId?: string | null;
   onInitialTradeHandled?: () => void;
+  /** Reports the trade whose detail is open (null on the list) so the shell can address it by URL. */
+  onSelectedTradeChange?: (tradeId: string | null) => void;
 }
 
 // ─── Lifecycle State → Badge color map ───────────────────────────────────────
@@ -162,7 +164,12 @@ function DetailRow({ label, value }: Readonly<{ label: string; value: React.Reac
 
 // ─── TradesPanel ─────────────────────────────────────────────────────────────
 
-export function TradesPanel({ onBack, initialTradeId = null, onInitialTradeHandled }: Readonly<Props>) {
+export function TradesPanel({
+  onBack,
+  initialTradeId = null,
+  onInitialTradeHandled,
+  onSelectedTradeChange,
+}: Readonly<Props>) {
   const [panelView, setPanelView] = useState<PanelView>('LIST');
   const [trades, setTrades] = useState<TenantTrade[]>([]);
   const [count, setCount] = useState(0);
@@ -235,6 +242,10 @@ export function TradesPanel({ onBack, initialTradeId = null, onInitialTradeHandl
     onInitialTradeHandled?.();
   }, [initialTradeId, loadTradeDetail, onInitialTradeHandled]);
 
+  useEffect(() => {
+    onSelectedTradeChange?.(selectedTradeId);
+  }, [selectedTradeId, onSelectedTradeChange]);
+
   const openTradeDetail = async (tradeId: string) => {
     setPanelView('DETAIL');
     setSelectedTradeId(tradeId);
@@ -0,0 +1,547 @@
+/**
+ * WebhooksPanel — Tenant Plane (TENANT-WEBHOOKS-001)
+ *
+ * Outbound webhook management for OWNER / ADMIN:
+ *   - subscriptions: create, enable / disable, delete, rotate signing secret, send test event
+ *   - delivery log: status, attempts, last HTTP status and error, redeliver
+ *
+ * Constitutional compliance:
+ *   D-017-A  No orgId / tenantId sent by client — tenant routes derive org scope from JWT.
+ *   Signing secrets are shown exactly once (after create / rotate) and never stored client-side.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { APIError } from '../../services/apiClient';
+import {
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  listWebhookDeliveries,
+  listWebhookEventTypes,
+  listWebhookSubscriptions,
+  redeliverWebhookDelivery,
+  rotateWebhookSecret,
+  sendWebhookTestEvent,
+  updateWebhookSubscription,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookSubscription,
+} from '../../services/webhookService';
+import { LoadingState } from '../shared/LoadingState';
+import { ErrorState } from '../shared/ErrorState';
+import { EmptyState } from '../shared/EmptyState';
+
+interface Props {
+  onBack: () => void;
+}
+
+type BannerTone = 'SUCCESS' | 'ERROR';
+
+interface BannerState {
+  tone: BannerTone;
+  message: string;
+}
+
+interface CreateDraft {
+  url: string;
+  description: string;
+  eventTypes: string[];
+}
+
+interface RevealedSecret {
+  url: string;
+  secret: string;
+}
+
+const EMPTY_DRAFT: CreateDraft = { url: '', description: '', eventTypes: [] };
+
+const DELIVERY_PAGE_SIZE = 25;
+
+const DELIVERY_STATUS_FILTERS: Array<{ value: WebhookDeliveryStatus | ''; label: string }> = [
+  { value: '', label: 'All statuses' },
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'DELIVERED', label: 'Delivered' },
+  { value: 'DEAD_LETTER', label: 'Dead letter' },
+];
+
+// ─── Status → Badge color map ─────────────────────────────────────────────────
+
+const STATUS_COLORS: Record<string, string> = {
+  PENDING:     'bg-amber-100 text-amber-700',
+  DELIVERED:   'bg-emerald-100 text-emerald-700',
+  DEAD_LETTER: 'bg-rose-100 text-rose-700',
+};
+
+function StatusBadge({ status }: Readonly<{ status: string }>) {
+  const classes = STATUS_COLORS[status] ?? 'bg-slate-100 text-slate-600';
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold uppercase tracking-wide ${classes}`}>
+      {status.replace('_', ' ')}
+    </span>
+  );
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function truncateId(id: string): string {
+  return id.slice(0, 8) + '…';
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+function friendlyWebhookError(err: unknown, fallback: string): string {
+  if (err instanceof APIError) {
+    if (err.status === 403) {
+      return 'Only OWNER or ADMIN can manage webhooks.';
+    }
+    if (err.code === 'WEBHOOK_SUBSCRIPTION_DISABLED') {
+      return 'Enable the subscription before sending a test event.';
+    }
+    if (err.code === 'WEBHOOK_DELIVERY_PENDING') {
+      return 'This delivery is still pending — it will be retried automatically.';
+    }
+    return err.message || fallback;
+  }
+
+  return err instanceof Error ? err.message : fallback;
+}
+
+function Banner({ tone, message }: Readonly<BannerState>) {
+  const classes =
+    tone === 'SUCCESS'
+      ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+      : 'border-rose-200 bg-rose-50 text-rose-700';
+
+  return <div className={`rounded-xl border px-4 py-3 text-sm ${classes}`}>{message}</div>;
+}
+
+function SecretReveal({ revealed, onDismiss }: Readonly<{ revealed: RevealedSecret; onDismiss: () => void }>) {
+  return (
+    <div className="rounded-xl border border-amber-300 bg-amber-50 px-4 py-3 space-y-2">
+      <p className="text-sm font-semibold text-amber-800">
+        Signing secret for {revealed.url}
+      </p>
+      <p className="text-xs text-amber-700">
+        Copy it now — it will not be shown again. Verify the x-texqtic-webhook-signature header with it.
+      </p>
+      <code className="block break-all rounded-lg bg-white px-3 py-2 font-mono text-xs text-slate-800 border border-amber-200">
+        {revealed.secret}
+      </code>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="text-xs font-semibold text-amber-800 hover:underline"
+      >
+        I have stored the secret
+      </button>
+    </div>
+  );
+}
+
+// ─── WebhooksPanel ───────────────────────────────────────────────────────────
+
+export function WebhooksPanel({ onBack }: Readonly<Props>) {
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [eventTypes, setEventTypes]       = useState<string[]>([]);
+  const [loading, setLoading]             = useState(true);
+  const [error, setError]                 = useState<string | null>(null);
+  const [banner, setBanner]               = useState<BannerState | null>(null);
+  const [revealed, setRevealed]           = useState<RevealedSecret | null>(null);
+  const [draft, setDraft]                 = useState<CreateDraft>(EMPTY_DRAFT);
+  const [createError, setCreateError]     = useState<string | null>(null);
+  const [creating, setCreating]           = useState(false);
+  const [busyId, setBusyId]               = useState<string | null>(null);
+
+  const [deliveries, setDeliveries]           = useState<WebhookDelivery[]>([]);
+  const [nextCursor, setNextCursor]           = useState<string | null>(null);
+  const [deliveriesLoading, setDeliveriesLoading] = useState(true);
+  const [deliveriesError, setDeliveriesError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter]       = useState<WebhookDeliveryStatus | ''>('');
+
+  const loadSubscriptions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [subsRes, typesRes] = await Promise.all([
+        listWebhookSubscriptions(),
+        listWebhookEventTypes(),
+      ]);
+      setSubscriptions(subsRes.subscriptions);
+      setEventTypes(typesRes.eventTypes);
+    } catch (err) {
+      setError(friendlyWebhookError(err, 'Failed to load webhooks.'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadDeliveries = useCallback(async (cursor?: string) => {
+    setDeliveriesLoading(true);
+    setDeliveriesError(null);
+    try {
+      const res = await listWebhookDeliveries({
+        limit: DELIVERY_PAGE_SIZE,
+        status: statusFilter || undefined,
+        cursor,
+      });
+      setDeliveries(prev => (cursor ? [...prev, ...res.deliveries] : res.deliveries));
+      setNextCursor(res.nextCursor);
+    } catch (err) {
+      setDeliveriesError(friendlyWebhookError(err, 'Failed to load deliveries.'));
+    } finally {
+      setDeliveriesLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const urlFor = (subscriptionId: string) =>
+    subscriptions.find(sub => sub.id === subscriptionId)?.url ?? truncateId(subscriptionId);
+
+  const toggleDraftEventType = (eventType: string) => {
+    setCreateError(null);
+    setDraft(prev => ({
+      ...prev,
+      eventTypes: prev.eventTypes.includes(eventType)
+        ? prev.eventTypes.filter(type => type !== eventType)
+        : [...prev.eventTypes, eventType],
+    }));
+  };
+
+  const handleCreate = async () => {
+    if (!draft.url.trim().startsWith('https://')) {
+      setCreateError('Endpoint URL must start with https://.');
+      return;
+    }
+
+    setCreating(true);
+    setCreateError(null);
+    try {
+      const res = await createWebhookSubscription({
+        url: draft.url.trim(),
+        description: draft.description.trim() || null,
+        eventTypes: draft.eventTypes,
+      });
+      setRevealed({ url: res.subscription.url, secret: res.secret });
+      setDraft(EMPTY_DRAFT);
+      setBanner({ tone: 'SUCCESS', message: 'Webhook subscription created.' });
+      await loadSubscriptions();
+    } catch (err) {
+      setCreateError(friendlyWebhookError(err, 'Failed to create webhook subscription.'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const runSubscriptionAction = async (
+    subscriptionId: string,
+    action: () => Promise<void>,
+    successMessage: string,
+    fallback: string,
+  ) => {
+    setBusyId(subscriptionId);
+    try {
+      await action();
+      setBanner({ tone: 'SUCCESS', message: successMessage });
+      await Promise.all([loadSubscriptions(), loadDeliveries()]);
+    } catch (err) {
+      setBanner({ tone: 'ERROR', message: friendlyWebhookError(err, fallback) });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggle = (sub: WebhookSubscription) =>
+    runSubscriptionAction(
+      sub.id,
+      async () => { await updateWebhookSubscription(sub.id, { enabled: !sub.enabled }); },
+      sub.enabled ? 'Subscription disabled.' : 'Subscription enabled.',
+      'Failed to update subscription.',
+    );
+
+  const handleRotate = (sub: WebhookSubscription) =>
+    runSubscriptionAction(
+      sub.id,
+      async () => {
+        const res = await rotateWebhookSecret(sub.id);
+        setRevealed({ url: res.subscription.url, secret: res.secret });
+      },
+      'Signing secret rotated. The previous secret keeps signing for 24 hours.',
+      'Failed to rotate signing secret.',
+    );
+
+  const handleTest = (sub: WebhookSubscription) =>
+    runSubscriptionAction(
+      sub.id,
+      async () => { await sendWebhookTestEvent(sub.id); },
+      'Test event queued.',
+      'Failed to send test event.',
+    );
+
+  const handleDelete = (sub: WebhookSubscription) => {
+    if (!globalThis.confirm(`Delete the webhook for ${sub.url}? Its delivery log is deleted too.`)) return;
+    return runSubscriptionAction(
+      sub.id,
+      async () => { await deleteWebhookSubscription(sub.id); },
+      'Webhook subscription deleted.',
+      'Failed to delete subscription.',
+    );
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setBusyId(delivery.id);
+    try {
+      await redeliverWebhookDelivery(delivery.id);
+      setBanner({ tone: 'SUCCESS', message: 'Delivery re-queued.' });
+      await loadDeliveries();
+    } catch (err) {
+      setBanner({ tone: 'ERROR', message: friendlyWebhookError(err, 'Failed to redeliver.') });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-8 space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <button
+          onClick={onBack}
+          className="text-sm text-slate-500 hover:text-slate-700 transition flex items-center gap-1"
+          type="button"
+        >
+          ← Back
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Webhooks</h1>
+          <p className="text-sm text-slate-500 mt-0.5">Signed HTTPS callbacks for RFQ, trade, order and pool events of your organisation.</p>
+        </div>
+      </div>
+
+      {banner && <Banner tone={banner.tone} message={banner.message} />}
+      {revealed && <SecretReveal revealed={revealed} onDismiss={() => setRevealed(null)} />}
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1.2fr)_minmax(0,1.8fr)]">
+        <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Add Endpoint</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              Leave every event type unchecked to receive all events.
+            </p>
+          </div>
+
+          {createError && <Banner tone="ERROR" message={createError} />}
+
+          <div>
+            <label className="block text-xs font-bold uppercase tracking-widest text-slate-500 mb-1.5" htmlFor="tenant-webhook-url">
+              Endpoint URL
+            </label>
+            <input
+              id="tenant-webhook-url"
+              type="url"
+              value={draft.url}
+              onChange={event => {
+                setCreateError(null);
+                setDraft(prev => ({ ...prev, url: event.target.value }));
+              }}
+              placeholder="https://example.com/webhooks/texqtic"
+              className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2.5 text-sm font-mono text-slate-700 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-200"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold uppercase tracking-widest text-slate-500 mb-1.5" htmlFor="tenant-webhook-description">
+              Description
+            </label>
+            <input
+              id="tenant-webhook-description"
+              type="text"
+              value={draft.description}
+              maxLength={200}
+              onChange={event => setDraft(prev => ({ ...prev, description: event.target.value }))}
+              placeholder="ERP order sync"
+              className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2.5 text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-slate-200"
+            />
+          </div>
+
+          <fieldset>
+            <legend className="block text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Event Types</legend>
+            <div className="space-y-1.5">
+              {eventTypes.map(eventType => (
+                <label key={eventType} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.eventTypes.includes(eventType)}
+                    onChange={() => toggleDraftEventType(eventType)}
+                    className="rounded border-slate-300"
+                  />
+                  <span className="font-mono text-xs">{eventType}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={creating || !draft.url.trim()}
+            className="w-full rounded-xl bg-slate-900 px-4 py-3 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {creating ? 'Creating…' : 'Add Endpoint'}
+          </button>
+        </section>
+
+        <section className="space-y-4">
+          {loading && <LoadingState />}
+          {error && !loading && (
+            <ErrorState error={{ message: error }} onRetry={loadSubscriptions} />
+          )}
+          {!loading && !error && subscriptions.length === 0 && (
+            <EmptyState title="No webhooks yet" message="Add an HTTPS endpoint to start receiving events." />
+          )}
+
+          {!loading && !error && subscriptions.map(sub => (
+            <div key={sub.id} className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-mono text-sm text-slate-900 break-all">{sub.url}</p>
+                  {sub.description && <p className="text-xs text-slate-500 mt-0.5">{sub.description}</p>}
+                </div>
+                <span className={`shrink-0 inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold uppercase tracking-wide ${sub.enabled ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-600'}`}>
+                  {sub.enabled ? 'Enabled' : 'Disabled'}
+                </span>
+              </div>
+              <p className="text-xs text-slate-500">
+                Events: {sub.eventTypes.length === 0 ? 'all' : sub.eventTypes.join(', ')}
+              </p>
+              <p className="text-xs text-slate-500">
+                Secret <span className="font-mono">{sub.secretHint}</span>
+                {sub.previousSecretExpiresAt && ` · previous secret valid until ${formatDateTime(sub.previousSecretExpiresAt)}`}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <button type="button" disabled={busyId === sub.id} onClick={() => handleTest(sub)} className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50">
+                  Send Test Event
+                </button>
+                <button type="button" disabled={busyId === sub.id} onClick={() => handleToggle(sub)} className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50">
+                  {sub.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <button type="button" disabled={busyId === sub.id} onClick={() => handleRotate(sub)} className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-1.5 text-xs font-semibold text-amber-700 transition hover:bg-amber-100 disabled:opacity-50">
+                  Rotate Secret
+                </button>
+                <button type="button" disabled={busyId === sub.id} onClick={() => handleDelete(sub)} className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-1.5 text-xs font-semibold text-rose-700 transition hover:bg-rose-100 disabled:opacity-50">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </section>
+      </div>
+
+      {/* Delivery log */}
+      <section className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold text-slate-900">Delivery Log</h2>
+          <select
+            aria-label="Filter deliveries by status"
+            value={statusFilter}
+            onChange={event => setStatusFilter(event.target.value as WebhookDeliveryStatus | '')}
+            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-slate-200"
+          >
+            {DELIVERY_STATUS_FILTERS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {deliveriesError && (
+          <div className="p-6">
+            <ErrorState error={{ message: deliveriesError }} onRetry={() => loadDeliveries()} />
+          </div>
+        )}
+        {!deliveriesError && !deliveriesLoading && deliveries.length === 0 && (
+          <div className="p-6">
+            <EmptyState title="No deliveries" message="Deliveries appear here once an event matches one of your endpoints." />
+          </div>
+        )}
+
+        {!deliveriesError && deliveries.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                <tr>
+                  <th className="px-6 py-3 text-left">Event</th>
+                  <th className="px-6 py-3 text-left">Endpoint</th>
+                  <th className="px-6 py-3 text-left">Status</th>
+                  <th className="px-6 py-3 text-left">Attempts</th>
+                  <th className="px-6 py-3 text-left">Last Response</th>
+                  <th className="px-6 py-3 text-left">Created</th>
+                  <th className="px-6 py-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {deliveries.map(delivery => (
+                  <tr key={delivery.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <div className="font-mono text-xs text-slate-700">{delivery.eventType}</div>
+                      <div className="font-mono text-xs text-slate-400" title={delivery.eventId}>{truncateId(delivery.eventId)}</div>
+                    </td>
+                    <td className="px-6 py-4 font-mono text-xs text-slate-600 break-all">
+                      {urlFor(delivery.subscriptionId)}
+                    </td>
+                    <td className="px-6 py-4">
+                      <StatusBadge status={delivery.status} />
+                    </td>
+                    <td className="px-6 py-4 text-slate-700">{delivery.attempts}</td>
+                    <td className="px-6 py-4 text-xs text-slate-600">
+                      {delivery.lastHttpStatus !== null && <div>HTTP {delivery.lastHttpStatus}</div>}
+                      {delivery.lastError && <div className="text-rose-600">{delivery.lastError}</div>}
+                      {delivery.lastHttpStatus === null && !delivery.lastError && <span className="text-slate-300">—</span>}
+                    </td>
+                    <td className="px-6 py-4 text-slate-500">{formatDateTime(delivery.createdAt)}</td>
+                    <td className="px-6 py-4 text-right">
+                      {delivery.status === 'PENDING' ? (
+                        <span className="text-xs text-slate-300">—</span>
+                      ) : (
+                        <button
+                          type="button"
+                          disabled={busyId === delivery.id}
+                          onClick={() => handleRedeliver(delivery)}
+                          className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          Redeliver
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {deliveriesLoading && <LoadingState />}
+
+        {!deliveriesLoading && nextCursor && (
+          <div className="px-6 py-4 border-t border-slate-100">
+            <button
+              type="button"
+              onClick={() => loadDeliveries(nextCursor)}
+              className="text-sm font-semibold text-slate-700 hover:underline"
+            >
+              Load more
+            </button>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
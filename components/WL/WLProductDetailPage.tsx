@@ -21,12 +21,15 @@
  *   ✅ imageUrl rendering — primary image from existing CatalogItem field (PW5-WL6)
  *              Graceful placeholder shown when field absent or image fails to load.
  *              No additional fetch; travels via item prop from WLStorefront state.
+ *   ✅ Variant selector (CATALOG-VARIANTS-001) — active variants from item.variants drive
+ *              the shown SKU, price, MOQ and image; null variant price / MOQ fall back to
+ *              the parent item. The selected variant travels with add-to-cart and RFQ.
  *   ❌ Checkout — delegated to existing Cart drawer (CartProvider/EXPERIENCE)
  *   ❌ Full gallery — out of scope; single primary image only
  */
 
 import React, { useState, useCallback } from 'react';
-import { CatalogItem } from '../../services/catalogService';
+import { CatalogItem, CatalogItemVariant } from '../../services/catalogService';
 
 const UNCATEGORISED = 'Uncategorised';
 
@@ -34,6 +37,19 @@ function resolveCategory(item: CatalogItem): string {
   return (item.category ?? '').trim() || UNCATEGORISED;
 }
 
+function resolveMinQty(moq: number | null | undefined): number {
+  return moq != null && moq > 1 ? moq : 1;
+}
+
+function describeVariant(variant: CatalogItemVariant): string | null {
+  const parts = [
+    variant.color,
+    variant.widthCm != null ? `${variant.widthCm} cm` : null,
+    variant.finish,
+  ].filter((part): part is string => Boolean(part));
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
 function formatPrice(price: number): string {
   return new Intl.NumberFormat(undefined, {
     minimumFractionDigits: 2,
@@ -46,22 +62,31 @@ interface WLProductDetailPageProps {
   item: CatalogItem;
   /** Returns the shopper to the storefront grid/category context. */
   onBack: () => void;
-  /** Opens the existing App-level RFQ orchestration for this product. */
-  onRequestQuote?: () => void;
+  /** Opens the existing App-level RFQ orchestration for this product (and selected variant). */
+  onRequestQuote?: (variant?: CatalogItemVariant) => void;
   /**
    * PW5-WL5: Live add-to-cart handler provided by WLStorefront via CartContext.
    * When absent the button is suppressed (backwards-compatible).
    * tenantId is NEVER a parameter — backend derives scope from JWT.
    */
-  onAddToCart?: (catalogItemId: string, quantity: number) => Promise<void>;
+  onAddToCart?: (catalogItemId: string, quantity: number, variantId?: string) => Promise<void>;
 }
 
 export function WLProductDetailPage({ item, onBack, onRequestQuote, onAddToCart }: Readonly<WLProductDetailPageProps>) {
   const category = resolveCategory(item);
   const inactiveItemTitle = item.active ? undefined : 'This product is not currently available';
 
+  // CATALOG-VARIANTS-001: the first active variant is preselected when the item has any.
+  const variants = (item.variants ?? []).filter(variant => variant.active);
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(variants[0]?.id ?? null);
+  const selectedVariant = variants.find(variant => variant.id === selectedVariantId);
+  const effectivePrice = selectedVariant?.price ?? item.price;
+  const effectiveMoq = selectedVariant?.moq ?? item.moq;
+  const effectiveSku = selectedVariant?.sku ?? item.sku;
+  const effectiveImageUrl = selectedVariant?.imageUrl ?? item.imageUrl;
+
   // PW5-WL5: quantity state. Defaults to MOQ (min order qty) if present, else 1.
-  const minQty = item.moq != null && item.moq > 1 ? item.moq : 1;
+  const minQty = resolveMinQty(effectiveMoq);
   const [quantity, setQuantity] = useState(minQty);
   const [adding, setAdding] = useState(false);
   // PW5-WL6: track broken image without additional fetching.
@@ -76,7 +101,7 @@ export function WLProductDetailPage({ item, onBack, onRequestQuote, onAddToCart
     setAddError(null);
     setAddSuccess(false);
     try {
-      await onAddToCart(item.id, quantity);
+      await onAddToCart(item.id, quantity, selectedVariant?.id);
       setAddSuccess(true);
       setTimeout(() => setAddSuccess(false), 2000);
     } catch (err: unknown) {
@@ -85,7 +110,14 @@ export function WLProductDetailPage({ item, onBack, onRequestQuote, onAddToCart
     } finally {
       setAdding(false);
     }
-  }, [onAddToCart, adding, item.id, quantity]);
+  }, [onAddToCart, adding, item.id, quantity, selectedVariant?.id]);
+
+  const handleSelectVariant = (variant: CatalogItemVariant) => {
+    setSelectedVariantId(variant.id);
+    setQuantity(resolveMinQty(variant.moq ?? item.moq));
+    setImgError(false);
+    setAddError(null);
+  };
 
   // PW5-WL5: Derive button label without nested ternary (satisfies no-nested-ternary rule)
   let addButtonLabel = 'Add to Cart';
@@ -110,10 +142,10 @@ export function WLProductDetailPage({ item, onBack, onRequestQuote, onAddToCart
              No additional fetch. Item prop is derived from WLStorefront's catalog state.
              Placeholder shown when imageUrl is absent or the image fails to load. */}
         <div className="w-full h-64 rounded-lg overflow-hidden bg-slate-100 flex items-center justify-center text-slate-300">
-          {item.imageUrl && !imgError ? (
+          {effectiveImageUrl && !imgError ? (
             <img
-              src={item.imageUrl}
-              alt={item.name}
+              src={effectiveImageUrl}
+              alt={selectedVariant ? `${item.name} — ${selectedVariant.label}` : item.name}
               className="w-full h-full object-cover"
               onError={() => setImgError(true)}
               loading="eager"
@@ -153,6 +185,40 @@ export function WLProductDetailPage({ item, onBack, onRequestQuote, onAddToCart
           </span>
         </div>
 
+        {/* CATALOG-VARIANTS-001: variant selector */}
+        {variants.length > 0 && (
+          <fieldset>
+            <legend className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-2">
+              Variant
+            </legend>
+            <div className="flex flex-wrap gap-2">
+              {variants.map(variant => {
+                const selected = variant.id === selectedVariant?.id;
+                return (
+                  <button
+                    key={variant.id}
+                    type="button"
+                    onClick={() => handleSelectVariant(variant)}
+                    aria-pressed={selected}
+                    title={describeVariant(variant) ?? undefined}
+                    disabled={adding}
+                    className={`rounded-lg border px-3 py-1.5 text-xs font-semibold transition-colors ${
+                      selected
+                        ? 'border-slate-900 bg-slate-900 text-white'
+                        : 'border-slate-200 bg-white text-slate-700 hover:border-slate-400'
+                    }`}
+                  >
+                    {variant.label}
+                  </button>
+                );
+              })}
+            </div>
+            {selectedVariant && describeVariant(selectedVariant) && (
+              <p className="mt-2 text-xs text-slate-500">{describeVariant(selectedVariant)}</p>
+            )}
+          </fieldset>
+        )}
+
         {/* Meta row */}
         <div className="flex flex-wrap gap-6 text-xs text-slate-500">
           {/* SKU */}
@@ -160,7 +226,7 @@ export function WLProductDetailPage({ item, onBack, onRequestQuote, onAddToCart
             <span className="uppercase tracking-widest text-[9px] font-bold text-slate-400">
               SKU
             </span>
-            <span className="font-mono text-slate-700">{item.sku}</span>
+            <span className="font-mono text-slate-700">{effectiveSku}</span>
           </div>
 
           {/* Category */}
@@ -172,12 +238,12 @@ export function WLProductDetailPage({ item, onBack, onRequestQuote, onAddToCart
           </div>
 
           {/* MOQ */}
-          {item.moq != null && (
+          {effectiveMoq != null && (
             <div className="flex flex-col gap-0.5">
               <span className="uppercase tracking-widest text-[9px] font-bold text-slate-400">
                 Min. Order
               </span>
-              <span className="text-slate-700">{item.moq} units</span>
+              <span className="text-slate-700">{effectiveMoq} units</span>
             </div>
           )}
         </div>
@@ -205,7 +271,7 @@ export function WLProductDetailPage({ item, onBack, onRequestQuote, onAddToCart
               Price
             </span>
             <span className="text-2xl font-bold text-slate-900 tabular-nums">
-              {formatPrice(item.price)}
+              {formatPrice(effectivePrice)}
             </span>
           </div>
 
@@ -241,7 +307,7 @@ export function WLProductDetailPage({ item, onBack, onRequestQuote, onAddToCart
                 {onRequestQuote && (
                   <button
                     type="button"
-                    onClick={onRequestQuote}
+                    onClick={() => onRequestQuote(selectedVariant)}
                     disabled={!item.active || adding}
                     title={inactiveItemTitle}
                     className="inline-flex items-center gap-2 rounded-lg border border-slate-300 bg-white px-5 py-2.5 text-sm font-semibold text-slate-900 transition hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed"
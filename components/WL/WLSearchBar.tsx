@@ -5,16 +5,15 @@
  *
  * Constitutional compliance:
  *   NO data fetching in this component.
- *   Search runs against the already-fetched catalog state owned by WLStorefront.
- *   No API call is initiated here — neither on keystroke, submit, nor mount.
+ *   WLStorefront owns the query and runs the debounced catalog search
+ *   (CATALOG-SEARCH-001); no API call is initiated here.
  *   tenantId is NEVER passed from the client.
  *
  * Scope (PW5-WL4):
  *   ✅ Controlled search input bound to WLStorefront state
  *   ✅ Clear affordance when query is non-empty
  *   ✅ Accessible label (sr-only) and placeholder text
- *   ❌ Autocomplete / remote search — architectural guardrail; not implemented
- *   ❌ Debounced network fetch — architectural guardrail; not implemented
+ *   ❌ Autocomplete suggestions — not implemented
  *   ❌ Search analytics — out of scope for PW5-WL4
  */
 
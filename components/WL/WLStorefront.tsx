@@ -18,12 +18,13 @@
  *    ├ manages activeCategory state
  *    ├ manages selectedItemId state (PW5-WL3)
  *    ├ manages searchQuery state (PW5-WL4)
+ *    ├ runs a debounced catalog search for non-empty queries (CATALOG-SEARCH-001)
  *    ├ derives selectedItem from items (PW5-WL3 — no secondary fetch)
  *    ├ derives categoryFilteredItems from items + activeCategory
- *    ├ derives searchFilteredItems from categoryFilteredItems + searchQuery (PW5-WL4)
+ *    ├ derives searchFilteredItems from ranked search results + activeCategory
  *    ├ passes categories + activeCategory + onSelectCategory to WLCollectionsPanel
  *    ├ passes searchFilteredItems + onSelectItem to ProductGrid
- *    ├ renders WLSearchBar (PW5-WL4 — client-side only; no fetch on keystroke)
+ *    ├ renders WLSearchBar (presentational; WLStorefront owns the search request)
  *    └ renders WLProductDetailPage when selectedItemId is set (PW5-WL3)
  *
  * Category fallback:
@@ -39,17 +40,18 @@
  *   ✅ Loading / empty / error states owned here (unchanged)
  *   ✅ Product detail view via selectedItemId state (PW5-WL3)
  *   ✅ Selected item derived from existing items state — no new fetch
- *   ✅ Product search via searchQuery state — client-side derived (PW5-WL4)
+ *   ✅ Product search via searchQuery state (PW5-WL4)
  *   ✅ Search composes with category filtering via chained useMemo (PW5-WL4)
  *    ✅ Add to Cart wired via CartContext.addToCart — no catalog re-fetch (PW5-WL5)
- *   ❌ Remote / debounced search — architectural guardrail; not implemented
+ *   ✅ Debounced server search — the shared catalog search engine ranks matches
+ *      (full-text + trigram over name, SKU, textile attributes, description) (CATALOG-SEARCH-001)
  *
  * WLStorefront remains the only owner of catalog fetching.
  * No child component may independently fetch catalog data.
  */
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { getCatalogItems, CatalogItem } from '../../services/catalogService';
+import { getCatalogItems, CatalogItem, CatalogItemVariant } from '../../services/catalogService';
 import { useCart } from '../../contexts/CartContext';
 import { WLCollectionsPanel, CategoryCount } from './WLCollectionsPanel';
 import { ProductGrid } from './ProductGrid';
@@ -57,7 +59,7 @@ import { WLProductDetailPage } from './WLProductDetailPage';
 import { WLSearchBar } from './WLSearchBar';
 
 type WLStorefrontProps = Readonly<{
-  onRequestQuote?: (item: CatalogItem) => void;
+  onRequestQuote?: (item: CatalogItem, variant?: CatalogItemVariant) => void;
   onViewBuyerRfqs?: () => void | Promise<void>;
 }>;
 
@@ -65,6 +67,10 @@ type WLStorefrontProps = Readonly<{
 
 const UNCATEGORISED = 'Uncategorised';
 
+// CATALOG-SEARCH-001: keystrokes settle for this long before a search request.
+const SEARCH_DEBOUNCE_MS = 250;
+const SEARCH_RESULT_LIMIT = 100;
+
 function resolveCategory(item: CatalogItem): string {
   return (item.category ?? '').trim() || UNCATEGORISED;
 }
@@ -95,9 +101,11 @@ export function WLStorefront({ onRequestQuote, onViewBuyerRfqs }: WLStorefrontPr
   // PW5-WL3: selected product for detail view.
   // Derived item comes from already-fetched `items` — no secondary fetch occurs.
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
-  // PW5-WL4: search query — drives client-side derived filtering only.
-  // No API call is triggered by changes to this value.
+  // PW5-WL4: search query. CATALOG-SEARCH-001: a non-empty query runs a debounced
+  // server search; results replace the grid until the query is cleared.
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<CatalogItem[] | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
 
   // PW5-WL5: pull addToCart from CartContext (already provided by CartProvider in App EXPERIENCE case).
   // tenantId is NEVER passed — backend derives scope from JWT.
@@ -124,6 +132,38 @@ export function WLStorefront({ onRequestQuote, onViewBuyerRfqs }: WLStorefrontPr
     void loadItems();
   }, [loadItems]);
 
+  // ── Catalog search (CATALOG-SEARCH-001) ──────────────────────────────────
+  // Ranked server search; stale responses are dropped when the query changes.
+  useEffect(() => {
+    const q = searchQuery.trim();
+    if (!q) {
+      setSearchResults(null);
+      setSearchError(null);
+      return undefined;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      getCatalogItems({ q, limit: SEARCH_RESULT_LIMIT })
+        .then(res => {
+          if (!cancelled) {
+            setSearchResults(res.items);
+            setSearchError(null);
+          }
+        })
+        .catch(err => {
+          if (!cancelled) {
+            setSearchError(err instanceof Error ? err.message : 'Search failed.');
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery]);
+
   // ── Derived state (client-side only — no API calls) ──────────────────────
   const categories = useMemo(() => deriveCategories(items), [items]);
 
@@ -132,12 +172,17 @@ export function WLStorefront({ onRequestQuote, onViewBuyerRfqs }: WLStorefrontPr
     return items.filter((i) => resolveCategory(i) === activeCategory);
   }, [items, activeCategory]);
 
-  // PW5-WL4: search filtering — derived from category-filtered items.
-  // Client-side only. Never mutates `items` or `filteredItems`.
-  // Empty query short-circuits to return filteredItems unchanged.
+  // PW5-WL4: search filtering. Ranked server results (relevance order) narrowed by the
+  // active category; until the first response arrives, a substring match on the loaded
+  // items keeps the grid responsive. Empty query returns filteredItems unchanged.
   const searchFilteredItems = useMemo(() => {
     const q = searchQuery.trim().toLowerCase();
     if (!q) return filteredItems;
+    if (searchResults !== null) {
+      return activeCategory === null
+        ? searchResults
+        : searchResults.filter((i) => resolveCategory(i) === activeCategory);
+    }
     return filteredItems.filter((item) => {
       const fields = [
         item.name,
@@ -147,7 +192,7 @@ export function WLStorefront({ onRequestQuote, onViewBuyerRfqs }: WLStorefrontPr
       ];
       return fields.some((f) => f.toLowerCase().includes(q));
     });
-  }, [filteredItems, searchQuery]);
+  }, [filteredItems, searchQuery, searchResults, activeCategory]);
 
   // PW5-WL3: derive selected product from already-fetched items — no new fetch.
   // WLStorefront remains the exclusive owner of catalog data.
@@ -156,8 +201,10 @@ export function WLStorefront({ onRequestQuote, onViewBuyerRfqs }: WLStorefrontPr
       return null;
     }
 
-    return items.find(i => i.id === selectedItemId) ?? null;
-  }, [items, selectedItemId]);
+    return items.find(i => i.id === selectedItemId)
+      ?? searchResults?.find(i => i.id === selectedItemId)
+      ?? null;
+  }, [items, searchResults, selectedItemId]);
 
   const handleSelectItem = useCallback((id: string) => {
     setSelectedItemId(id);
@@ -226,10 +273,11 @@ export function WLStorefront({ onRequestQuote, onViewBuyerRfqs }: WLStorefrontPr
     }
     return (
       <WLProductDetailPage
+        key={selectedItem.id}
         item={selectedItem}
         onBack={handleBackFromDetail}
         onAddToCart={addToCart}
-        onRequestQuote={onRequestQuote ? () => onRequestQuote(selectedItem) : undefined}
+        onRequestQuote={onRequestQuote ? variant => onRequestQuote(selectedItem, variant) : undefined}
       />
     );
   }
@@ -260,8 +308,13 @@ export function WLStorefront({ onRequestQuote, onViewBuyerRfqs }: WLStorefrontPr
         )}
       </div>
 
-      {/* Search input — PW5-WL4. Client-side only; no fetch on keystroke. */}
+      {/* Search input — PW5-WL4. Debounced server search owned by WLStorefront. */}
       <WLSearchBar value={searchQuery} onChange={setSearchQuery} />
+      {searchError && (
+        <p className="-mt-3 mb-4 text-xs text-rose-600" role="status">
+          {searchError}
+        </p>
+      )}
 
       {/* Category navigation — no API calls; selection filters filteredItems client-side */}
       <WLCollectionsPanel
@@ -21,7 +21,7 @@ interface CartContextValue {
   error: string | null;
   itemCount: number;
   subtotal: number;
-  addToCart: (catalogItemId: string, quantity: number) => Promise<void>;
+  addToCart: (catalogItemId: string, quantity: number, variantId?: string) => Promise<void>;
   updateQuantity: (itemId: string, quantity: number) => Promise<void>;
   removeItem: (itemId: string) => Promise<void>;
   refreshCart: () => Promise<void>;
@@ -93,13 +93,13 @@ export function CartProvider({
   }, [deferInitialRefresh, refreshCart]);
 
   const addToCart = useCallback(
-    async (catalogItemId: string, quantity: number) => {
+    async (catalogItemId: string, quantity: number, variantId?: string) => {
       setLoading(true);
       setError(null);
 
       try {
-        // Add to cart via API
-        await addToCartService({ catalogItemId, quantity });
+        // Add to cart via API (one line per item + variant)
+        await addToCartService(variantId ? { catalogItemId, quantity, variantId } : { catalogItemId, quantity });
 
         // Refresh cart to get updated state
         await refreshCart();
@@ -26,6 +26,8 @@ export default [
         fetch: 'readonly',
         URLSearchParams: 'readonly',
         RequestInit: 'readonly',
+        Response: 'readonly',
+        TextDecoder: 'readonly',
         localStorage: 'readonly',
         // Timer functions
         setTimeout: 'readonly',
@@ -69,6 +69,8 @@ const AGGREGATOR_ROUTE_LABELS: Partial<Record<RuntimeLocalRouteKey, string>> = {
   certifications: 'Certifications',
   traceability: 'Traceability',
   audit_logs: 'Audit Log',
+  webhooks: 'Webhooks',
+  analytics: 'Analytics',
   trades: 'Trades',
 };
 
@@ -342,6 +344,8 @@ export const B2BShell: React.FC<B2BShellProps> = ({
         ...(hasShellRoute(navigation.surface, 'certifications') ? [{ key: 'certifications', label: 'Certifications', active: activeRouteKey === 'certifications', onSelect: () => navigation.onNavigateRoute('certifications') }] : []),
         ...(hasShellRoute(navigation.surface, 'traceability') ? [{ key: 'traceability', label: 'Traceability', active: activeRouteKey === 'traceability', onSelect: () => navigation.onNavigateRoute('traceability') }] : []),
         ...(hasShellRoute(navigation.surface, 'audit_logs') ? [{ key: 'audit_logs', label: 'Audit Log', active: activeRouteKey === 'audit_logs', onSelect: () => navigation.onNavigateRoute('audit_logs') }] : []),
+        ...(hasShellRoute(navigation.surface, 'webhooks') ? [{ key: 'webhooks', label: 'Webhooks', active: activeRouteKey === 'webhooks', onSelect: () => navigation.onNavigateRoute('webhooks') }] : []),
+        ...(hasShellRoute(navigation.surface, 'analytics') ? [{ key: 'analytics', label: 'Analytics', active: activeRouteKey === 'analytics', onSelect: () => navigation.onNavigateRoute('analytics') }] : []),
         ...(hasShellRoute(navigation.surface, 'trades') ? [{ key: 'trades', label: 'Trades', active: activeRouteKey === 'trades', onSelect: () => navigation.onNavigateRoute('trades') }] : []),
         ...(hasShellRoute(navigation.surface, 'nc_pools') ? [{ key: 'nc_pools', label: 'NC Pools', active: activeRouteKey === 'nc_pools', onSelect: () => navigation.onNavigateRoute('nc_pools') }] : []),
         ...(hasShellRoute(navigation.surface, 'nc_pool_detail') ? [{ key: 'nc_pool_detail', label: 'Pool Detail', active: activeRouteKey === 'nc_pool_detail', onSelect: () => navigation.onNavigateRoute('nc_pool_detail') }] : []),
@@ -390,6 +394,8 @@ export const B2BShell: React.FC<B2BShellProps> = ({
             {hasShellRoute(navigation.surface, 'certifications') && <button onClick={() => navigation.onNavigateRoute('certifications')} className={`w-full flex items-center gap-3 p-2 rounded text-left transition ${activeRouteKey === 'certifications' ? 'text-blue-300 bg-slate-700/60 font-medium' : 'text-slate-300 hover:text-white hover:bg-slate-700/50'}`}>📋 Certifications</button>}
             {hasShellRoute(navigation.surface, 'traceability') && <button onClick={() => navigation.onNavigateRoute('traceability')} className={`w-full flex items-center gap-3 p-2 rounded text-left transition ${activeRouteKey === 'traceability' ? 'text-blue-300 bg-slate-700/60 font-medium' : 'text-slate-300 hover:text-white hover:bg-slate-700/50'}`}>🔗 Traceability</button>}
             {hasShellRoute(navigation.surface, 'audit_logs') && <button onClick={() => navigation.onNavigateRoute('audit_logs')} className={`w-full flex items-center gap-3 p-2 rounded text-left transition ${activeRouteKey === 'audit_logs' ? 'text-blue-300 bg-slate-700/60 font-medium' : 'text-slate-300 hover:text-white hover:bg-slate-700/50'}`}>📋 Audit Log</button>}
+            {hasShellRoute(navigation.surface, 'webhooks') && <button onClick={() => navigation.onNavigateRoute('webhooks')} className={`w-full flex items-center gap-3 p-2 rounded text-left transition ${activeRouteKey === 'webhooks' ? 'text-blue-300 bg-slate-700/60 font-medium' : 'text-slate-300 hover:text-white hover:bg-slate-700/50'}`}>🔗 Webhooks</button>}
+            {hasShellRoute(navigation.surface, 'analytics') && <button onClick={() => navigation.onNavigateRoute('analytics')} className={`w-full flex items-center gap-3 p-2 rounded text-left transition ${activeRouteKey === 'analytics' ? 'text-blue-300 bg-slate-700/60 font-medium' : 'text-slate-300 hover:text-white hover:bg-slate-700/50'}`}>📊 Analytics</button>}
             {hasShellRoute(navigation.surface, 'trades') && <button onClick={() => navigation.onNavigateRoute('trades')} className={`w-full flex items-center gap-3 p-2 rounded text-left transition ${activeRouteKey === 'trades' ? 'text-blue-300 bg-slate-700/60 font-medium' : 'text-slate-300 hover:text-white hover:bg-slate-700/50'}`}>🤝 Trades</button>}
             
             <div className="text-xs font-bold text-slate-500 uppercase tracking-widest mt-4 pt-4 border-t border-slate-700">Network Commerce</div>
@@ -450,6 +456,8 @@ export const B2CShell: React.FC<ShellProps> = ({ tenant, children, navigation })
     ...(showAuthenticatedAffordances && hasShellRoute(navigation.surface, 'certifications') ? [{ key: 'certifications', label: 'Certifications', onSelect: () => navigation.onNavigateRoute('certifications') }] : []),
     ...(showAuthenticatedAffordances && hasShellRoute(navigation.surface, 'traceability') ? [{ key: 'traceability', label: 'Traceability', onSelect: () => navigation.onNavigateRoute('traceability') }] : []),
     ...(showAuthenticatedAffordances && hasShellRoute(navigation.surface, 'audit_logs') ? [{ key: 'audit_logs', label: 'Audit Log', onSelect: () => navigation.onNavigateRoute('audit_logs') }] : []),
+    ...(showAuthenticatedAffordances && hasShellRoute(navigation.surface, 'webhooks') ? [{ key: 'webhooks', label: 'Webhooks', onSelect: () => navigation.onNavigateRoute('webhooks') }] : []),
+    ...(showAuthenticatedAffordances && hasShellRoute(navigation.surface, 'analytics') ? [{ key: 'analytics', label: 'Analytics', onSelect: () => navigation.onNavigateRoute('analytics') }] : []),
     ...(showAuthenticatedAffordances && hasShellRoute(navigation.surface, 'trades') ? [{ key: 'trades', label: 'Trades', onSelect: () => navigation.onNavigateRoute('trades') }] : []),
     ...(showAuthenticatedAffordances ? [{ key: 'team', label: 'Team Access', onSelect: navigation.onNavigateTeam }] : []),
     ...(showAuthenticatedAffordances && hasShellRoute(navigation.surface, 'cart') ? [{ key: 'cart', label: 'Shopping Cart', onSelect: () => navigation.onNavigateRoute('cart') }] : []),
@@ -514,6 +522,8 @@ export const B2CShell: React.FC<ShellProps> = ({ tenant, children, navigation })
             {hasShellRoute(navigation.surface, 'certifications') && <button onClick={() => navigation.onNavigateRoute('certifications')} className="text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition">Certifications</button>}
             {hasShellRoute(navigation.surface, 'traceability') && <button onClick={() => navigation.onNavigateRoute('traceability')} className="text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition">Traceability</button>}
             {hasShellRoute(navigation.surface, 'audit_logs') && <button onClick={() => navigation.onNavigateRoute('audit_logs')} className="text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition">Audit Log</button>}
+            {hasShellRoute(navigation.surface, 'webhooks') && <button onClick={() => navigation.onNavigateRoute('webhooks')} className="text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition">Webhooks</button>}
+            {hasShellRoute(navigation.surface, 'analytics') && <button onClick={() => navigation.onNavigateRoute('analytics')} className="text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition">Analytics</button>}
             {hasShellRoute(navigation.surface, 'trades') && <button onClick={() => navigation.onNavigateRoute('trades')} className="text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition">Trades</button>}
             <button onClick={navigation.onNavigateTeam} className="text-xs font-bold uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition">Team Access</button>
             <button onClick={() => navigation.onNavigateRoute('cart')} className="relative cursor-pointer" title="Shopping Cart">
@@ -547,6 +557,8 @@ export const WhiteLabelShell: React.FC<ShellProps> = ({ tenant, children, naviga
     ...(hasShellRoute(navigation.surface, 'certifications') ? [{ key: 'certifications', label: 'Certifications', onSelect: () => navigation.onNavigateRoute('certifications') }] : []),
     ...(hasShellRoute(navigation.surface, 'traceability') ? [{ key: 'traceability', label: 'Traceability', onSelect: () => navigation.onNavigateRoute('traceability') }] : []),
     ...(hasShellRoute(navigation.surface, 'audit_logs') ? [{ key: 'audit_logs', label: 'Audit Log', onSelect: () => navigation.onNavigateRoute('audit_logs') }] : []),
+    ...(hasShellRoute(navigation.surface, 'webhooks') ? [{ key: 'webhooks', label: 'Webhooks', onSelect: () => navigation.onNavigateRoute('webhooks') }] : []),
+    ...(hasShellRoute(navigation.surface, 'analytics') ? [{ key: 'analytics', label: 'Analytics', onSelect: () => navigation.onNavigateRoute('analytics') }] : []),
     ...(hasShellRoute(navigation.surface, 'trades') ? [{ key: 'trades', label: 'Trades', onSelect: () => navigation.onNavigateRoute('trades') }] : []),
   ];
 
@@ -581,6 +593,8 @@ export const WhiteLabelShell: React.FC<ShellProps> = ({ tenant, children, naviga
             {hasShellRoute(navigation.surface, 'certifications') && <button onClick={() => navigation.onNavigateRoute('certifications')} className="hover:opacity-40 transition-opacity">Certifications</button>}
             {hasShellRoute(navigation.surface, 'traceability') && <button onClick={() => navigation.onNavigateRoute('traceability')} className="hover:opacity-40 transition-opacity">Traceability</button>}
             {hasShellRoute(navigation.surface, 'audit_logs') && <button onClick={() => navigation.onNavigateRoute('audit_logs')} className="hover:opacity-40 transition-opacity">Audit Log</button>}
+            {hasShellRoute(navigation.surface, 'webhooks') && <button onClick={() => navigation.onNavigateRoute('webhooks')} className="hover:opacity-40 transition-opacity">Webhooks</button>}
+            {hasShellRoute(navigation.surface, 'analytics') && <button onClick={() => navigation.onNavigateRoute('analytics')} className="hover:opacity-40 transition-opacity">Analytics</button>}
             {hasShellRoute(navigation.surface, 'trades') && <button onClick={() => navigation.onNavigateRoute('trades')} className="hover:opacity-40 transition-opacity">Trades</button>}
           </div>
        </nav>
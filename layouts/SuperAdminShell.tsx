@@ -60,7 +60,9 @@ export type AdminView =
   | 'EVENTS'
   | 'NC_POOL_OVERSIGHT'
   /** IMPL-SUPERADMIN-ZOHO-BOOKS-CONTACT-SYNC-MONITORING-READONLY-01: Phase 1 read-only monitoring */
-  | 'ZOHO_BOOKS_OPS';
+  | 'ZOHO_BOOKS_OPS'
+  /** API-DOCS-OPENAPI-001: generated OpenAPI reference */
+  | 'API_DOCS';
 
 interface SuperAdminShellProps {
   children: React.ReactNode;
@@ -107,6 +109,7 @@ const CONTROL_PLANE_NAV = [
   { routeKey: 'health', icon: '❤️', label: 'Health Status' },
   { routeKey: 'nc_pool_oversight', icon: '💼', label: 'NC Pool Oversight' },
   { routeKey: 'zoho_books_ops', icon: '🔗', label: 'Zoho Books Ops' },
+  { routeKey: 'api_docs', icon: '📚', label: 'API Reference' },
 ] as const;
 
 export const SuperAdminShell: React.FC<SuperAdminShellProps> = ({
@@ -0,0 +1,269 @@
+import {
+  getRuntimeLocalRouteRegistration,
+  type RouteGroupKey,
+  type RuntimeLocalRouteKey,
+  type RuntimeManifestEntry,
+  type SessionCapabilities,
+  type SessionRuntimeDescriptor,
+} from './sessionRuntimeDescriptor';
+
+// URL addressing for runtime local routes. Every RuntimeLocalRouteKey reachable in a shell has a
+// path under its surface prefix; a path may carry one record id (`:id`, or `:id?` when optional).
+// URLs never grant access on their own — a parsed route is re-checked against the session's
+// manifest and capabilities (resolveRuntimeDirectNavigationRouteKey) before it is applied.
+
+export type RuntimeUrlSurface = 'workspace' | 'wl_admin' | 'control_plane';
+
+export interface RuntimeUrlRouteDefinition {
+  routeKey: RuntimeLocalRouteKey;
+  path: string;
+}
+
+export interface RuntimeUrlLocation {
+  surface: RuntimeUrlSurface;
+  routeKey: RuntimeLocalRouteKey;
+  id: string | null;
+}
+
+export interface RuntimeDirectNavigationOptions {
+  // Verification-blocked workspaces expose only the manifest default route.
+  verificationBlocked?: boolean;
+}
+
+const defineRuntimeUrlRoute = (
+  routeKey: RuntimeLocalRouteKey,
+  path: string,
+): RuntimeUrlRouteDefinition => ({ routeKey, path });
+
+const RUNTIME_URL_SURFACE_PREFIXES: Record<RuntimeUrlSurface, string> = {
+  workspace: '/w',
+  wl_admin: '/wl-admin',
+  control_plane: '/cp',
+};
+
+const RUNTIME_URL_ROUTES: Record<RuntimeUrlSurface, RuntimeUrlRouteDefinition[]> = {
+  workspace: [
+    defineRuntimeUrlRoute('home', '/w'),
+    defineRuntimeUrlRoute('catalog', '/w/catalog'),
+    defineRuntimeUrlRoute('buyer_catalog', '/w/suppliers'),
+    defineRuntimeUrlRoute('cart', '/w/cart'),
+    defineRuntimeUrlRoute('orders', '/w/orders'),
+    defineRuntimeUrlRoute('buyer_rfqs', '/w/rfqs/:id?'),
+    defineRuntimeUrlRoute('supplier_rfq_inbox', '/w/rfq-inbox/:id?'),
+    defineRuntimeUrlRoute('supplier_inquiry_inbox', '/w/inquiries'),
+    defineRuntimeUrlRoute('dpp', '/w/dpp'),
+    defineRuntimeUrlRoute('escrow', '/w/escrow'),
+    defineRuntimeUrlRoute('gst_verification', '/w/gst-verification'),
+    defineRuntimeUrlRoute('invoices', '/w/invoices'),
+    defineRuntimeUrlRoute('invoice_approval', '/w/invoice-approval'),
+    defineRuntimeUrlRoute('escalations', '/w/escalations'),
+    defineRuntimeUrlRoute('settlement', '/w/settlement'),
+    defineRuntimeUrlRoute('certifications', '/w/certifications'),
+    defineRuntimeUrlRoute('traceability', '/w/traceability'),
+    defineRuntimeUrlRoute('audit_logs', '/w/audit-logs'),
+    defineRuntimeUrlRoute('webhooks', '/w/webhooks'),
+    defineRuntimeUrlRoute('analytics', '/w/analytics'),
+    defineRuntimeUrlRoute('trades', '/w/trades/:id?'),
+    defineRuntimeUrlRoute('nc_pools', '/w/nc-pools'),
+    defineRuntimeUrlRoute('nc_pool_invite_inbox', '/w/nc-pools/invites'),
+    defineRuntimeUrlRoute('nc_pool_detail', '/w/nc-pools/:id'),
+    defineRuntimeUrlRoute('nc_pool_demand_lines', '/w/nc-pools/:id/demand-lines'),
+    defineRuntimeUrlRoute('nc_pool_rfq', '/w/nc-pools/:id/rfq'),
+  ],
+  wl_admin: [
+    defineRuntimeUrlRoute('branding', '/wl-admin'),
+    defineRuntimeUrlRoute('staff', '/wl-admin/staff'),
+    defineRuntimeUrlRoute('staff_invite', '/wl-admin/staff/invite'),
+    defineRuntimeUrlRoute('products', '/wl-admin/products'),
+    defineRuntimeUrlRoute('collections', '/wl-admin/collections'),
+    defineRuntimeUrlRoute('orders', '/wl-admin/orders'),
+    defineRuntimeUrlRoute('domains', '/wl-admin/domains'),
+    defineRuntimeUrlRoute('dpp_label', '/wl-admin/dpp-label'),
+  ],
+  control_plane: [
+    defineRuntimeUrlRoute('tenant_registry', '/cp/tenants'),
+    defineRuntimeUrlRoute('tenant_registry_pending', '/cp/tenants/pending'),
+    defineRuntimeUrlRoute('tenant_registry_invited', '/cp/tenants/invited'),
+    defineRuntimeUrlRoute('tenant_registry_closed', '/cp/tenants/closed'),
+    defineRuntimeUrlRoute('tenant_detail_pending', '/cp/tenants/pending/:id'),
+    defineRuntimeUrlRoute('tenant_detail_invited', '/cp/tenants/invited/:id'),
+    defineRuntimeUrlRoute('tenant_detail_closed', '/cp/tenants/closed/:id'),
+    defineRuntimeUrlRoute('tenant_detail', '/cp/tenants/:id'),
+    defineRuntimeUrlRoute('flags', '/cp/flags'),
+    defineRuntimeUrlRoute('finance', '/cp/finance'),
+    defineRuntimeUrlRoute('trades', '/cp/trades'),
+    defineRuntimeUrlRoute('cart_summaries', '/cp/cart-summaries'),
+    defineRuntimeUrlRoute('escrow_admin', '/cp/escrow'),
+    defineRuntimeUrlRoute('settlement_admin', '/cp/settlement'),
+    defineRuntimeUrlRoute('compliance', '/cp/compliance'),
+    defineRuntimeUrlRoute('cases', '/cp/cases'),
+    defineRuntimeUrlRoute('escalations', '/cp/escalations'),
+    defineRuntimeUrlRoute('certifications', '/cp/certifications'),
+    defineRuntimeUrlRoute('traceability', '/cp/traceability'),
+    defineRuntimeUrlRoute('maker_checker', '/cp/maker-checker'),
+    defineRuntimeUrlRoute('ai', '/cp/ai'),
+    defineRuntimeUrlRoute('events', '/cp/events'),
+    defineRuntimeUrlRoute('gst_verification_queue', '/cp/gst-verification'),
+    defineRuntimeUrlRoute('ttp_eligibility', '/cp/ttp-eligibility'),
+    defineRuntimeUrlRoute('invoice_oversight', '/cp/invoices'),
+    defineRuntimeUrlRoute('vpc_console', '/cp/vpc'),
+    defineRuntimeUrlRoute('ttp_enrollment_admin', '/cp/ttp-enrollment'),
+    defineRuntimeUrlRoute('nc_pool_oversight', '/cp/nc-pools'),
+    defineRuntimeUrlRoute('zoho_books_ops', '/cp/zoho-books'),
+    defineRuntimeUrlRoute('api_docs', '/cp/api-docs'),
+    defineRuntimeUrlRoute('logs', '/cp/audit-logs'),
+    defineRuntimeUrlRoute('rbac', '/cp/rbac'),
+    defineRuntimeUrlRoute('health', '/cp/health'),
+  ],
+};
+
+// Route groups whose routes additionally require a session capability on direct navigation.
+const ROUTE_GROUP_CAPABILITY_GATES: Partial<Record<RouteGroupKey, (capabilities: SessionCapabilities) => boolean>> = {
+  cart_commerce: capabilities => capabilities.feature.cart,
+  rfq_sourcing: capabilities => capabilities.feature.rfq,
+  admin_branding_domains: capabilities => capabilities.surface.wlAdmin,
+};
+
+const normalizeRuntimePathname = (pathname: string) => {
+  const trimmed = pathname.replace(/\/+$/, '');
+  return trimmed === '' ? '/' : trimmed;
+};
+
+const matchRuntimeUrlRoute = (definition: RuntimeUrlRouteDefinition, pathname: string): string | null | undefined => {
+  const patternSegments = definition.path.split('/');
+  const pathSegments = pathname.split('/');
+  const optionalTail = patternSegments[patternSegments.length - 1] === ':id?';
+
+  if (
+    pathSegments.length !== patternSegments.length
+    && !(optionalTail && pathSegments.length === patternSegments.length - 1)
+  ) {
+    return undefined;
+  }
+
+  let id: string | null = null;
+
+  for (let index = 0; index < patternSegments.length; index += 1) {
+    const patternSegment = patternSegments[index];
+    const pathSegment = pathSegments[index];
+
+    if (patternSegment === ':id' || patternSegment === ':id?') {
+      if (pathSegment === undefined) {
+        continue;
+      }
+
+      if (pathSegment === '') {
+        return undefined;
+      }
+
+      id = decodeURIComponent(pathSegment);
+      continue;
+    }
+
+    if (patternSegment !== pathSegment) {
+      return undefined;
+    }
+  }
+
+  return id;
+};
+
+const hasRuntimeUrlParam = (definition: RuntimeUrlRouteDefinition) => definition.path.includes('/:id');
+
+export const getRuntimeUrlRouteDefinitions = (surface: RuntimeUrlSurface): RuntimeUrlRouteDefinition[] => {
+  return RUNTIME_URL_ROUTES[surface];
+};
+
+export const isRuntimeAppPath = (pathname: string): boolean => {
+  const normalized = normalizeRuntimePathname(pathname);
+
+  return Object.values(RUNTIME_URL_SURFACE_PREFIXES).some(prefix => {
+    return normalized === prefix || normalized.startsWith(`${prefix}/`);
+  });
+};
+
+export const resolveRuntimeUrlSurfaceFromPath = (pathname: string): RuntimeUrlSurface | null => {
+  const normalized = normalizeRuntimePathname(pathname);
+  const surfaces = Object.keys(RUNTIME_URL_SURFACE_PREFIXES) as RuntimeUrlSurface[];
+
+  return surfaces.find(surface => {
+    const prefix = RUNTIME_URL_SURFACE_PREFIXES[surface];
+    return normalized === prefix || normalized.startsWith(`${prefix}/`);
+  }) ?? null;
+};
+
+export const parseRuntimeUrlPath = (pathname: string): RuntimeUrlLocation | null => {
+  const surface = resolveRuntimeUrlSurfaceFromPath(pathname);
+
+  if (!surface) {
+    return null;
+  }
+
+  const normalized = normalizeRuntimePathname(pathname);
+  const definitions = RUNTIME_URL_ROUTES[surface];
+  // Literal paths win over parameterised ones (`/cp/tenants/pending` is not a tenant id).
+  const orderedDefinitions = [
+    ...definitions.filter(definition => !hasRuntimeUrlParam(definition)),
+    ...definitions.filter(hasRuntimeUrlParam),
+  ];
+
+  for (const definition of orderedDefinitions) {
+    const id = matchRuntimeUrlRoute(definition, normalized);
+
+    if (id !== undefined) {
+      return { surface, routeKey: definition.routeKey, id };
+    }
+  }
+
+  return null;
+};
+
+export const buildRuntimeUrlPath = (
+  surface: RuntimeUrlSurface,
+  routeKey: RuntimeLocalRouteKey,
+  id: string | null = null,
+): string | null => {
+  const definition = RUNTIME_URL_ROUTES[surface].find(candidate => candidate.routeKey === routeKey);
+
+  if (!definition) {
+    return null;
+  }
+
+  if (definition.path.endsWith('/:id?')) {
+    const base = definition.path.slice(0, -'/:id?'.length);
+    return id ? `${base}/${encodeURIComponent(id)}` : base;
+  }
+
+  if (definition.path.includes('/:id')) {
+    return id ? definition.path.replace(':id', encodeURIComponent(id)) : null;
+  }
+
+  return definition.path;
+};
+
+// The route a direct navigation (deep link, reload, back/forward) may open: the requested route when
+// the session's manifest registers it and its route group's capability gate passes, otherwise the
+// manifest default. Null when the session has no manifest for the surface.
+export const resolveRuntimeDirectNavigationRouteKey = (
+  descriptor: SessionRuntimeDescriptor | null,
+  manifestEntry: RuntimeManifestEntry | null,
+  routeKey: RuntimeLocalRouteKey,
+  options: RuntimeDirectNavigationOptions = {},
+): RuntimeLocalRouteKey | null => {
+  if (!descriptor || !manifestEntry) {
+    return null;
+  }
+
+  const registration = getRuntimeLocalRouteRegistration(manifestEntry, routeKey);
+  const capabilityGate = registration ? ROUTE_GROUP_CAPABILITY_GATES[registration.routeGroupKey] : undefined;
+
+  if (
+    !registration
+    || (capabilityGate && !capabilityGate(descriptor.capabilities))
+    || (options.verificationBlocked && routeKey !== manifestEntry.defaultLocalRouteKey)
+  ) {
+    return manifestEntry.defaultLocalRouteKey;
+  }
+
+  return routeKey;
+};
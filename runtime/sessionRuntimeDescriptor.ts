@@ -125,6 +125,8 @@ export type RuntimeLocalRouteKey =
   | 'certifications'
   | 'traceability'
   | 'audit_logs'
+  | 'webhooks'
+  | 'analytics'
   | 'trades'
   | 'branding'
   | 'staff'
@@ -169,7 +171,8 @@ export type RuntimeLocalRouteKey =
   | 'nc_pool_rfq'
   | 'nc_pool_invite_inbox'
   | 'nc_pool_oversight'
-  | 'zoho_books_ops';
+  | 'zoho_books_ops'
+  | 'api_docs';
 
 export interface RuntimeLocalRouteStateBinding {
   expView?: string;
@@ -368,6 +371,7 @@ const CONTROL_PLANE_ROUTE_GROUP = defineRuntimeRouteGroup('control_plane_operati
   defineRuntimeRoute('health', 'Health Status', 'HEALTH', { adminView: 'HEALTH' }),
   defineRuntimeRoute('nc_pool_oversight', 'NC Pool Oversight', 'NC_POOL_OVERSIGHT', { adminView: 'NC_POOL_OVERSIGHT' }),
   defineRuntimeRoute('zoho_books_ops', 'Zoho Books Ops', 'ZOHO_BOOKS_OPS', { adminView: 'ZOHO_BOOKS_OPS' }),
+  defineRuntimeRoute('api_docs', 'API Reference', 'API_DOCS', { adminView: 'API_DOCS' }),
 ]);
 
 const WORKSPACE_ORDERS_ROUTE_GROUP = defineRuntimeRouteGroup('orders_operations', [
@@ -391,6 +395,8 @@ const OPERATIONAL_WORKSPACE_ROUTE_GROUP = defineRuntimeRouteGroup('operational_w
   defineRuntimeRoute('certifications', 'Certifications', 'CERTIFICATIONS', { expView: 'CERTIFICATIONS' }),
   defineRuntimeRoute('traceability', 'Traceability', 'TRACEABILITY', { expView: 'TRACEABILITY' }),
   defineRuntimeRoute('audit_logs', 'Audit Logs', 'AUDIT_LOGS', { expView: 'AUDIT_LOGS' }),
+  defineRuntimeRoute('webhooks', 'Webhooks', 'WEBHOOKS', { expView: 'WEBHOOKS' }),
+  defineRuntimeRoute('analytics', 'Analytics', 'ANALYTICS', { expView: 'ANALYTICS' }),
   defineRuntimeRoute('trades', 'Trades', 'TRADES', { expView: 'TRADES' }),
 ]);
 
@@ -436,6 +442,8 @@ const AGGREGATOR_SHELL_ROUTE_KEYS: RuntimeLocalRouteKey[] = [
   'certifications',
   'traceability',
   'audit_logs',
+  'webhooks',
+  'analytics',
   'trades',
   'gst_verification',
   'invoices',
@@ -453,6 +461,8 @@ const B2B_SHELL_ROUTE_KEYS: RuntimeLocalRouteKey[] = [
   'certifications',
   'traceability',
   'audit_logs',
+  'webhooks',
+  'analytics',
   'trades',
   'gst_verification',
   'invoices',
@@ -474,6 +484,8 @@ const B2C_SHELL_ROUTE_KEYS: RuntimeLocalRouteKey[] = [
   'certifications',
   'traceability',
   'audit_logs',
+  'webhooks',
+  'analytics',
   'trades',
   'cart',
   'gst_verification',
@@ -491,6 +503,8 @@ const WL_STOREFRONT_SHELL_ROUTE_KEYS: RuntimeLocalRouteKey[] = [
   'certifications',
   'traceability',
   'audit_logs',
+  'webhooks',
+  'analytics',
   'trades',
   'gst_verification',
   'invoices',
@@ -533,6 +547,7 @@ const CONTROL_PLANE_SHELL_ROUTE_KEYS: RuntimeLocalRouteKey[] = [
   'ttp_enrollment_admin',
   'nc_pool_oversight',
   'zoho_books_ops',
+  'api_docs',
   'logs',
   'rbac',
   'health',
@@ -30,6 +30,9 @@
  *   - Forbidden paths: /product/, /supplier/, /passport/, /join/,
  *     /trust, /industries, /aggregator, /.
  *   - Run this script and commit the result when the config registries change.
+ *   - Production crawlers get the server-generated sitemaps
+ *     (PUBLIC-SEO-SITEMAP-SERVER-001, server/src/routes/publicSeo.ts); this static
+ *     file is the local-dev fallback.
  *
  * SAFETY:
  *   - This script only writes to public/sitemap.xml.
@@ -0,0 +1,156 @@
+BEGIN;
+-- Domain owner: tenant
+-- Plane: tenant-plane
+-- Lifecycle: create (structured quote revisions + counter-offers for direct RFQs)
+-- Reason: query-critical / constraints / joins
+-- Indexes: uq (rfq_id, revision), partial uq (rfq_id) WHERE status = 'ACCEPTED', idx buyer_org_id, idx supplier_org_id
+-- RLS: yes - both RFQ parties (buyer_org_id OR supplier_org_id) may read, insert and update status
+
+DO $$
+BEGIN
+  CREATE TYPE public.rfq_quote_author_side AS ENUM ('SUPPLIER', 'BUYER');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END
+$$;
+
+DO $$
+BEGIN
+  CREATE TYPE public.rfq_quote_status AS ENUM ('ACTIVE', 'SUPERSEDED', 'ACCEPTED');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS public.rfq_quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rfq_id UUID NOT NULL REFERENCES public.rfqs(id) ON DELETE CASCADE,
+  buyer_org_id UUID NOT NULL,
+  supplier_org_id UUID NOT NULL,
+  revision INTEGER NOT NULL,
+  author_side public.rfq_quote_author_side NOT NULL,
+  status public.rfq_quote_status NOT NULL DEFAULT 'ACTIVE',
+  currency VARCHAR(3) NOT NULL,
+  unit_price NUMERIC(18, 6) NOT NULL,
+  quantity INTEGER NOT NULL,
+  quantity_breaks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  lead_time_days INTEGER,
+  incoterm VARCHAR(3),
+  valid_until DATE,
+  payment_terms VARCHAR(200),
+  note TEXT,
+  created_by_user_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  accepted_at TIMESTAMPTZ,
+  accepted_by_user_id UUID,
+  CONSTRAINT rfq_quotes_rfq_revision_unique UNIQUE (rfq_id, revision),
+  CONSTRAINT rfq_quotes_revision_min CHECK (revision >= 1),
+  CONSTRAINT rfq_quotes_unit_price_positive CHECK (unit_price > 0),
+  CONSTRAINT rfq_quotes_quantity_min CHECK (quantity >= 1),
+  CONSTRAINT rfq_quotes_lead_time_non_negative CHECK (lead_time_days IS NULL OR lead_time_days >= 0),
+  CONSTRAINT rfq_quotes_currency_format CHECK (currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT rfq_quotes_quantity_breaks_array CHECK (jsonb_typeof(quantity_breaks) = 'array'),
+  CONSTRAINT rfq_quotes_accepted_supplier_only CHECK (status <> 'ACCEPTED' OR author_side = 'SUPPLIER'),
+  CONSTRAINT rfq_quotes_accepted_fields CHECK (
+    (status = 'ACCEPTED' AND accepted_at IS NOT NULL AND accepted_by_user_id IS NOT NULL)
+    OR (status <> 'ACCEPTED' AND accepted_at IS NULL AND accepted_by_user_id IS NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS rfq_quotes_one_accepted_per_rfq ON public.rfq_quotes(rfq_id) WHERE status = 'ACCEPTED';
+CREATE INDEX IF NOT EXISTS rfq_quotes_buyer_org_id_idx ON public.rfq_quotes(buyer_org_id);
+CREATE INDEX IF NOT EXISTS rfq_quotes_supplier_org_id_idx ON public.rfq_quotes(supplier_org_id);
+
+ALTER TABLE public.rfq_quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rfq_quotes FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS rfq_quotes_guard ON public.rfq_quotes;
+CREATE POLICY rfq_quotes_guard ON public.rfq_quotes AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS rfq_quotes_select_unified ON public.rfq_quotes;
+CREATE POLICY rfq_quotes_select_unified ON public.rfq_quotes AS PERMISSIVE FOR SELECT TO texqtic_app USING (
+  (
+    app.require_org_context()
+    AND (
+      buyer_org_id = app.current_org_id()
+      OR supplier_org_id = app.current_org_id()
+    )
+  )
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS rfq_quotes_insert_unified ON public.rfq_quotes;
+CREATE POLICY rfq_quotes_insert_unified ON public.rfq_quotes AS PERMISSIVE FOR INSERT TO texqtic_app WITH CHECK (
+  (
+    app.require_org_context()
+    AND (
+      (author_side = 'SUPPLIER' AND supplier_org_id = app.current_org_id())
+      OR (author_side = 'BUYER' AND buyer_org_id = app.current_org_id())
+    )
+  )
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS rfq_quotes_update_unified ON public.rfq_quotes;
+CREATE POLICY rfq_quotes_update_unified ON public.rfq_quotes AS PERMISSIVE FOR UPDATE TO texqtic_app USING (
+  (
+    app.require_org_context()
+    AND (
+      buyer_org_id = app.current_org_id()
+      OR supplier_org_id = app.current_org_id()
+    )
+  )
+  OR app.bypass_enabled()
+) WITH CHECK (
+  (
+    app.require_org_context()
+    AND (
+      buyer_org_id = app.current_org_id()
+      OR supplier_org_id = app.current_org_id()
+    )
+  )
+  OR app.bypass_enabled()
+);
+
+-- Commercial terms of a revision are immutable once written; only the status
+-- lifecycle (ACTIVE -> SUPERSEDED | ACCEPTED) may change after insert.
+CREATE OR REPLACE FUNCTION public.rfq_quotes_terms_immutable() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.rfq_id IS DISTINCT FROM OLD.rfq_id
+    OR NEW.buyer_org_id IS DISTINCT FROM OLD.buyer_org_id
+    OR NEW.supplier_org_id IS DISTINCT FROM OLD.supplier_org_id
+    OR NEW.revision IS DISTINCT FROM OLD.revision
+    OR NEW.author_side IS DISTINCT FROM OLD.author_side
+    OR NEW.currency IS DISTINCT FROM OLD.currency
+    OR NEW.unit_price IS DISTINCT FROM OLD.unit_price
+    OR NEW.quantity IS DISTINCT FROM OLD.quantity
+    OR NEW.quantity_breaks IS DISTINCT FROM OLD.quantity_breaks
+    OR NEW.lead_time_days IS DISTINCT FROM OLD.lead_time_days
+    OR NEW.incoterm IS DISTINCT FROM OLD.incoterm
+    OR NEW.valid_until IS DISTINCT FROM OLD.valid_until
+    OR NEW.payment_terms IS DISTINCT FROM OLD.payment_terms
+    OR NEW.note IS DISTINCT FROM OLD.note
+    OR NEW.created_by_user_id IS DISTINCT FROM OLD.created_by_user_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'rfq_quotes terms are immutable; post a new revision instead'
+      USING ERRCODE = 'P0001';
+  END IF;
+  IF OLD.status <> 'ACTIVE' THEN
+    RAISE EXCEPTION 'rfq_quotes status % is terminal', OLD.status
+      USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_rfq_quotes_terms_immutable ON public.rfq_quotes;
+CREATE TRIGGER trg_rfq_quotes_terms_immutable BEFORE UPDATE ON public.rfq_quotes
+FOR EACH ROW EXECUTE FUNCTION public.rfq_quotes_terms_immutable();
+
+GRANT SELECT, INSERT, UPDATE ON public.rfq_quotes TO texqtic_app;
+GRANT SELECT ON public.rfq_quotes TO texqtic_service;
+
+COMMIT;
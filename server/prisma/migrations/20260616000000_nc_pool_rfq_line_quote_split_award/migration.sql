@@ -0,0 +1,203 @@
+-- =============================================================================
+-- TEXQTIC-NC-PHASE1-POOL-RFQ-LINE-QUOTE-SPLIT-AWARD-001
+-- Migration: nc_pool_rfq_line_quote_split_award
+-- Date:      2026-06-16
+-- Summary:   Line-level supplier quoting and split awards for pool RFQs.
+--            1. network_pool_rfq_supplier_quote_lines — per-RFQ-line unit price and
+--               quantity under a supplier quote. Immutable. Dual RLS anchor
+--               (owner_org_id / supplier_org_id), mirroring the parent quote.
+--            2. network_pool_rfq_line_awards — append-only award allocations. A single
+--               RFQ line may be split across suppliers by partial quantity.
+--               approval_id is set when the award was applied by a G-021 checker.
+--            3. Supplier read policy on network_pool_rfq_lines — a supplier holding an
+--               ACCEPTED invite for the RFQ may read its lines in order to quote them.
+--            Safety invariants:
+--              - No existing rows are mutated.
+--              - network_pool_rfq_supplier_quotes.quote_amount semantics unchanged: for
+--                line-level quotes the service stores SUM(line_amount).
+--              - Whole-quote award paths (accept / single-quote approval) unchanged.
+-- =============================================================================
+-- §1  Pre-flight guard
+-- §2  CREATE TABLE network_pool_rfq_supplier_quote_lines
+-- §3  CREATE TABLE network_pool_rfq_line_awards
+-- §4  Indexes
+-- §5  RLS — network_pool_rfq_supplier_quote_lines
+-- §6  RLS — network_pool_rfq_line_awards
+-- §7  RLS — network_pool_rfq_lines supplier read
+-- §8  Grants
+-- =============================================================================
+-- §1 Pre-flight guard ---------------------------------------------------------
+DO $$ BEGIN IF NOT EXISTS (
+  SELECT 1
+  FROM information_schema.tables
+  WHERE table_schema = 'public'
+    AND table_name = 'network_pool_rfq_supplier_quotes'
+) THEN RAISE EXCEPTION 'PREFLIGHT_ABORT: public.network_pool_rfq_supplier_quotes does not exist. Apply 20260531000000_nc_pool_supplier_quote_schema first.';
+END IF;
+IF EXISTS (
+  SELECT 1
+  FROM information_schema.tables
+  WHERE table_schema = 'public'
+    AND table_name IN ('network_pool_rfq_supplier_quote_lines', 'network_pool_rfq_line_awards')
+) THEN RAISE EXCEPTION 'PREFLIGHT_ABORT: line quote / line award tables already exist — migration may have been applied already. Halting.';
+END IF;
+END $$;
+-- §2 CREATE TABLE network_pool_rfq_supplier_quote_lines ------------------------
+CREATE TABLE public.network_pool_rfq_supplier_quote_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL,
+  -- FK → network_pool_rfq_supplier_quotes(id) ON DELETE CASCADE
+  rfq_line_id UUID NOT NULL,
+  -- FK → network_pool_rfq_lines(id); service asserts same RFQ as the quote
+  -- ── RLS anchors (denormalized from quote) ──────────────────────────────────
+  owner_org_id UUID NOT NULL,
+  supplier_org_id UUID NOT NULL,
+  rfq_id UUID NOT NULL,
+  pool_id UUID NOT NULL,
+  -- ── Line values ────────────────────────────────────────────────────────────
+  unit_price DECIMAL(18, 6) NOT NULL,
+  quoted_qty DECIMAL(18, 6) NOT NULL,
+  -- in the RFQ line qty_unit; service enforces quoted_qty <= rfq line qty
+  line_amount DECIMAL(18, 2) NOT NULL,
+  -- unit_price × quoted_qty rounded half-up; service-computed
+  lead_time_days INTEGER,
+  line_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT nc_pool_rfq_supplier_quote_lines_pkey PRIMARY KEY (id),
+  CONSTRAINT nc_pool_rfq_supplier_quote_lines_quote_id_fk FOREIGN KEY (quote_id) REFERENCES public.network_pool_rfq_supplier_quotes(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT nc_pool_rfq_supplier_quote_lines_rfq_line_id_fk FOREIGN KEY (rfq_line_id) REFERENCES public.network_pool_rfq_lines(id) ON DELETE RESTRICT ON UPDATE NO ACTION,
+  CONSTRAINT nc_pool_rfq_supplier_quote_lines_rfq_id_fk FOREIGN KEY (rfq_id) REFERENCES public.network_pool_rfqs(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT nc_pool_rfq_supplier_quote_lines_owner_org_id_fk FOREIGN KEY (owner_org_id) REFERENCES public.organizations(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT nc_pool_rfq_supplier_quote_lines_supplier_org_id_fk FOREIGN KEY (supplier_org_id) REFERENCES public.organizations(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT nc_pool_rfq_supplier_quote_lines_quote_line_unique UNIQUE (quote_id, rfq_line_id),
+  CONSTRAINT nc_pool_rfq_supplier_quote_lines_unit_price_positive_check CHECK (unit_price > 0),
+  CONSTRAINT nc_pool_rfq_supplier_quote_lines_quoted_qty_positive_check CHECK (quoted_qty > 0),
+  CONSTRAINT nc_pool_rfq_supplier_quote_lines_line_amount_positive_check CHECK (line_amount > 0),
+  CONSTRAINT nc_pool_rfq_supplier_quote_lines_lead_time_check CHECK (
+    lead_time_days IS NULL
+    OR lead_time_days >= 0
+  )
+);
+-- §3 CREATE TABLE network_pool_rfq_line_awards ---------------------------------
+CREATE TABLE public.network_pool_rfq_line_awards (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  -- ── RLS anchors ────────────────────────────────────────────────────────────
+  owner_org_id UUID NOT NULL,
+  supplier_org_id UUID NOT NULL,
+  -- ── Context FKs ────────────────────────────────────────────────────────────
+  rfq_id UUID NOT NULL,
+  pool_id UUID NOT NULL,
+  rfq_line_id UUID NOT NULL,
+  quote_id UUID NOT NULL,
+  quote_line_id UUID NOT NULL,
+  -- ── Allocation ─────────────────────────────────────────────────────────────
+  awarded_qty DECIMAL(18, 6) NOT NULL,
+  -- service enforces awarded_qty <= quoted_qty and SUM per rfq line <= rfq line qty
+  unit_price DECIMAL(18, 6) NOT NULL,
+  award_amount DECIMAL(18, 2) NOT NULL,
+  currency VARCHAR(10) NOT NULL,
+  -- ── Provenance ─────────────────────────────────────────────────────────────
+  approval_id UUID,
+  -- G-021 pending_approvals.id; NULL for direct awards; no FK
+  awarded_by_user_id UUID,
+  -- no FK; validated at service layer only
+  awarded_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT nc_pool_rfq_line_awards_pkey PRIMARY KEY (id),
+  CONSTRAINT nc_pool_rfq_line_awards_rfq_id_fk FOREIGN KEY (rfq_id) REFERENCES public.network_pool_rfqs(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT nc_pool_rfq_line_awards_rfq_line_id_fk FOREIGN KEY (rfq_line_id) REFERENCES public.network_pool_rfq_lines(id) ON DELETE RESTRICT ON UPDATE NO ACTION,
+  CONSTRAINT nc_pool_rfq_line_awards_quote_id_fk FOREIGN KEY (quote_id) REFERENCES public.network_pool_rfq_supplier_quotes(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT nc_pool_rfq_line_awards_quote_line_id_fk FOREIGN KEY (quote_line_id) REFERENCES public.network_pool_rfq_supplier_quote_lines(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT nc_pool_rfq_line_awards_owner_org_id_fk FOREIGN KEY (owner_org_id) REFERENCES public.organizations(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT nc_pool_rfq_line_awards_supplier_org_id_fk FOREIGN KEY (supplier_org_id) REFERENCES public.organizations(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT nc_pool_rfq_line_awards_quote_line_unique UNIQUE (quote_line_id),
+  CONSTRAINT nc_pool_rfq_line_awards_awarded_qty_positive_check CHECK (awarded_qty > 0),
+  CONSTRAINT nc_pool_rfq_line_awards_unit_price_positive_check CHECK (unit_price > 0),
+  CONSTRAINT nc_pool_rfq_line_awards_currency_nonempty_check CHECK (length(trim(currency)) > 0)
+);
+-- §4 Indexes ------------------------------------------------------------------
+CREATE INDEX idx_nc_pool_rfq_supplier_quote_lines_rfq_id ON public.network_pool_rfq_supplier_quote_lines (rfq_id);
+CREATE INDEX idx_nc_pool_rfq_supplier_quote_lines_rfq_line_id ON public.network_pool_rfq_supplier_quote_lines (rfq_line_id);
+CREATE INDEX idx_nc_pool_rfq_supplier_quote_lines_owner_org_id ON public.network_pool_rfq_supplier_quote_lines (owner_org_id);
+CREATE INDEX idx_nc_pool_rfq_supplier_quote_lines_supplier_org_id ON public.network_pool_rfq_supplier_quote_lines (supplier_org_id);
+CREATE INDEX idx_nc_pool_rfq_line_awards_rfq_id ON public.network_pool_rfq_line_awards (rfq_id);
+CREATE INDEX idx_nc_pool_rfq_line_awards_rfq_line_id ON public.network_pool_rfq_line_awards (rfq_line_id);
+CREATE INDEX idx_nc_pool_rfq_line_awards_quote_id ON public.network_pool_rfq_line_awards (quote_id);
+CREATE INDEX idx_nc_pool_rfq_line_awards_owner_org_id ON public.network_pool_rfq_line_awards (owner_org_id, created_at DESC);
+CREATE INDEX idx_nc_pool_rfq_line_awards_supplier_org_id ON public.network_pool_rfq_line_awards (supplier_org_id, created_at DESC);
+-- §5 RLS — network_pool_rfq_supplier_quote_lines ------------------------------
+ALTER TABLE public.network_pool_rfq_supplier_quote_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.network_pool_rfq_supplier_quote_lines FORCE ROW LEVEL SECURITY;
+-- Supplier: read own quote lines
+CREATE POLICY nc_pool_rfq_supplier_quote_lines_supplier_select ON public.network_pool_rfq_supplier_quote_lines FOR
+SELECT TO texqtic_app USING (
+    NULLIF(current_setting('app.org_id', true), '') IS NOT NULL
+    AND supplier_org_id::text = current_setting('app.org_id', true)
+  );
+-- Owner: read quote lines for own RFQs
+CREATE POLICY nc_pool_rfq_supplier_quote_lines_owner_select ON public.network_pool_rfq_supplier_quote_lines FOR
+SELECT TO texqtic_app USING (
+    NULLIF(current_setting('app.org_id', true), '') IS NOT NULL
+    AND owner_org_id::text = current_setting('app.org_id', true)
+  );
+-- Supplier: insert own quote lines (with the parent quote, same transaction)
+CREATE POLICY nc_pool_rfq_supplier_quote_lines_supplier_insert ON public.network_pool_rfq_supplier_quote_lines FOR
+INSERT TO texqtic_app WITH CHECK (
+    NULLIF(current_setting('app.org_id', true), '') IS NOT NULL
+    AND supplier_org_id::text = current_setting('app.org_id', true)
+  );
+-- Fully immutable: no UPDATE, no DELETE
+CREATE POLICY nc_pool_rfq_supplier_quote_lines_no_update ON public.network_pool_rfq_supplier_quote_lines FOR
+UPDATE TO texqtic_app USING (false);
+CREATE POLICY nc_pool_rfq_supplier_quote_lines_no_delete ON public.network_pool_rfq_supplier_quote_lines FOR DELETE TO texqtic_app USING (false);
+-- Control-plane read-only
+CREATE POLICY nc_pool_rfq_supplier_quote_lines_admin_select ON public.network_pool_rfq_supplier_quote_lines FOR
+SELECT TO texqtic_admin USING (current_setting('app.is_admin', true) = 'true');
+-- §6 RLS — network_pool_rfq_line_awards ---------------------------------------
+ALTER TABLE public.network_pool_rfq_line_awards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.network_pool_rfq_line_awards FORCE ROW LEVEL SECURITY;
+-- Owner: read and insert awards for own RFQs
+CREATE POLICY nc_pool_rfq_line_awards_owner_select ON public.network_pool_rfq_line_awards FOR
+SELECT TO texqtic_app USING (
+    NULLIF(current_setting('app.org_id', true), '') IS NOT NULL
+    AND owner_org_id::text = current_setting('app.org_id', true)
+  );
+CREATE POLICY nc_pool_rfq_line_awards_owner_insert ON public.network_pool_rfq_line_awards FOR
+INSERT TO texqtic_app WITH CHECK (
+    NULLIF(current_setting('app.org_id', true), '') IS NOT NULL
+    AND owner_org_id::text = current_setting('app.org_id', true)
+  );
+-- Supplier: read awards allocated to own org
+CREATE POLICY nc_pool_rfq_line_awards_supplier_select ON public.network_pool_rfq_line_awards FOR
+SELECT TO texqtic_app USING (
+    NULLIF(current_setting('app.org_id', true), '') IS NOT NULL
+    AND supplier_org_id::text = current_setting('app.org_id', true)
+  );
+-- Append-only: no UPDATE, no DELETE
+CREATE POLICY nc_pool_rfq_line_awards_no_update ON public.network_pool_rfq_line_awards FOR
+UPDATE TO texqtic_app USING (false);
+CREATE POLICY nc_pool_rfq_line_awards_no_delete ON public.network_pool_rfq_line_awards FOR DELETE TO texqtic_app USING (false);
+-- Control-plane read-only
+CREATE POLICY nc_pool_rfq_line_awards_admin_select ON public.network_pool_rfq_line_awards FOR
+SELECT TO texqtic_admin USING (current_setting('app.is_admin', true) = 'true');
+-- §7 RLS — network_pool_rfq_lines supplier read -------------------------------
+-- A supplier may read the lines of an RFQ it holds an ACCEPTED invite for.
+-- The invite subquery is itself filtered by nc_pool_rfq_supplier_invites_supplier_select.
+CREATE POLICY nc_pool_rfq_lines_invited_supplier_select ON public.network_pool_rfq_lines FOR
+SELECT TO texqtic_app USING (
+    NULLIF(current_setting('app.org_id', true), '') IS NOT NULL
+    AND EXISTS (
+      SELECT 1
+      FROM public.network_pool_rfq_supplier_invites i
+      WHERE i.rfq_id = network_pool_rfq_lines.rfq_id
+        AND i.supplier_org_id::text = current_setting('app.org_id', true)
+        AND i.status = 'ACCEPTED'
+    )
+  );
+-- §8 Grants -------------------------------------------------------------------
+GRANT SELECT,
+  INSERT ON public.network_pool_rfq_supplier_quote_lines TO texqtic_app;
+GRANT SELECT ON public.network_pool_rfq_supplier_quote_lines TO texqtic_admin;
+GRANT SELECT,
+  INSERT ON public.network_pool_rfq_line_awards TO texqtic_app;
+GRANT SELECT ON public.network_pool_rfq_line_awards TO texqtic_admin;
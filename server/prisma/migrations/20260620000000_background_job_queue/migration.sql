@@ -0,0 +1,105 @@
+-- =============================================================================
+-- TEXQTIC-OPS-BACKGROUND-JOB-QUEUE-001
+-- Migration: background_job_queue
+-- Date:      2026-06-20
+-- Summary:   Durable, Postgres-backed background job queue replacing the in-process
+--            vector index queue (lost on restart, unsafe across API instances).
+--            1. background_jobs — one row per job. Workers claim rows with
+--               FOR UPDATE SKIP LOCKED and hold a lease (locked_by / locked_until).
+--               Expired leases are reclaimed by any instance.
+--            2. Retries: failed jobs return to PENDING with run_at pushed back
+--               (exponential backoff) until max_attempts, then become DEAD_LETTER.
+--            3. Deduplication: at most one PENDING / RUNNING job per
+--               (job_type, dedupe_key) when dedupe_key is set.
+--            Safety invariants:
+--              - No existing tables are altered.
+--              - Tenant jobs (org_id NOT NULL) execute inside withDbContext(org_id);
+--                the queue row itself never widens tenant data access.
+--              - texqtic_app may INSERT / SELECT rows of its own org only, so jobs
+--                can be enqueued atomically inside tenant transactions.
+-- =============================================================================
+-- §1  Pre-flight guard
+-- §2  CREATE TABLE background_jobs
+-- §3  Indexes
+-- §4  RLS
+-- §5  Grants
+-- =============================================================================
+-- §1 Pre-flight guard ---------------------------------------------------------
+DO $$ BEGIN IF EXISTS (
+  SELECT 1
+  FROM information_schema.tables
+  WHERE table_schema = 'public'
+    AND table_name = 'background_jobs'
+) THEN RAISE EXCEPTION 'PREFLIGHT_ABORT: public.background_jobs already exists — migration may have been applied already. Halting.';
+END IF;
+END $$;
+-- §2 CREATE TABLE background_jobs ----------------------------------------------
+CREATE TABLE public.background_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  job_type VARCHAR(100) NOT NULL,
+  org_id UUID,
+  -- NULL for system jobs (e.g. cross-tenant sweeps)
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- incremented on every claim (including lease reclaim after a crash)
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMPTZ(6) NOT NULL DEFAULT now(),
+  locked_by VARCHAR(200),
+  locked_until TIMESTAMPTZ(6),
+  last_error VARCHAR(2000),
+  dedupe_key VARCHAR(255),
+  completed_at TIMESTAMPTZ(6),
+  dead_lettered_at TIMESTAMPTZ(6),
+  created_at TIMESTAMPTZ(6) NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ(6) NOT NULL DEFAULT now(),
+  CONSTRAINT background_jobs_pkey PRIMARY KEY (id),
+  CONSTRAINT background_jobs_org_id_fk FOREIGN KEY (org_id) REFERENCES public.organizations(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT background_jobs_status_check CHECK (
+    status IN ('PENDING', 'RUNNING', 'SUCCEEDED', 'DEAD_LETTER')
+  ),
+  CONSTRAINT background_jobs_attempts_check CHECK (attempts >= 0),
+  CONSTRAINT background_jobs_max_attempts_check CHECK (max_attempts >= 1),
+  CONSTRAINT background_jobs_running_lease_check CHECK (
+    status <> 'RUNNING'
+    OR (
+      locked_by IS NOT NULL
+      AND locked_until IS NOT NULL
+    )
+  )
+);
+-- §3 Indexes -------------------------------------------------------------------
+CREATE INDEX idx_background_jobs_claim ON public.background_jobs (job_type, status, run_at);
+CREATE INDEX idx_background_jobs_org_type_status ON public.background_jobs (org_id, job_type, status);
+CREATE INDEX idx_background_jobs_dead_letter ON public.background_jobs (status, dead_lettered_at);
+CREATE UNIQUE INDEX background_jobs_active_dedupe_key ON public.background_jobs (job_type, dedupe_key)
+WHERE dedupe_key IS NOT NULL
+  AND status IN ('PENDING', 'RUNNING');
+-- §4 RLS ---------------------------------------------------------------------
+ALTER TABLE public.background_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.background_jobs FORCE ROW LEVEL SECURITY;
+CREATE POLICY background_jobs_tenant_select ON public.background_jobs FOR
+SELECT USING (
+    app.require_org_context()
+    AND org_id = app.current_org_id()
+    AND NOT app.bypass_enabled()
+  );
+CREATE POLICY background_jobs_tenant_insert ON public.background_jobs FOR
+INSERT WITH CHECK (
+    app.require_org_context()
+    AND org_id = app.current_org_id()
+    AND status = 'PENDING'
+    AND NOT app.bypass_enabled()
+  );
+CREATE POLICY background_jobs_bypass_select ON public.background_jobs FOR
+SELECT USING (app.bypass_enabled());
+CREATE POLICY background_jobs_bypass_write ON public.background_jobs FOR ALL WITH CHECK (app.bypass_enabled());
+CREATE POLICY background_jobs_guard_require_context ON public.background_jobs AS RESTRICTIVE FOR ALL USING (
+  app.require_org_context()
+  OR app.bypass_enabled()
+);
+-- §5 Grants ------------------------------------------------------------------
+-- No UPDATE / DELETE for texqtic_app: claim, lease, retry and dead-letter transitions
+-- are performed only by the worker on the service connection.
+GRANT SELECT,
+  INSERT ON TABLE public.background_jobs TO texqtic_app;
@@ -0,0 +1,133 @@
+-- =============================================================================
+-- TEXQTIC-CRM-NOTIFY-OUTBOX-001
+-- Migration: crm_notify_outbox
+-- Date:      2026-06-21
+-- Summary:   Transactional outbox for Main App → CRM notifications, replacing the
+--            FIRE_AND_FORGET_V1 posture of the lifecycle and Tier 0 notify clients.
+--            1. crm_outbox_events — one row per CRM event, inserted in the same
+--               transaction as the triggering state change. payload is the exact
+--               v1 wire body (field contract enforced in the application before insert).
+--            2. crm_outbox_delivery_attempts — append-only record of every HTTP
+--               delivery attempt made by the 'crm.outbox.deliver' background job.
+--            Safety invariants:
+--              - No existing tables are altered.
+--              - texqtic_app may INSERT / SELECT outbox rows of its own org only, so
+--                lifecycle events can be written inside tenant transactions.
+--              - Control-plane admins (app.is_admin) may SELECT for inspection;
+--                delivery, replay and dead-lettering run on the service connection.
+--              - error columns hold safe category strings only — never payload content,
+--                email, GSTIN or secrets.
+-- =============================================================================
+-- §1  Pre-flight guard
+-- §2  CREATE TABLE crm_outbox_events
+-- §3  CREATE TABLE crm_outbox_delivery_attempts
+-- §4  Indexes
+-- §5  RLS
+-- §6  Grants
+-- =============================================================================
+-- §1 Pre-flight guard ---------------------------------------------------------
+DO $$ BEGIN IF EXISTS (
+  SELECT 1
+  FROM information_schema.tables
+  WHERE table_schema = 'public'
+    AND table_name IN ('crm_outbox_events', 'crm_outbox_delivery_attempts')
+) THEN RAISE EXCEPTION 'PREFLIGHT_ABORT: CRM outbox tables already exist — migration may have been applied already. Halting.';
+END IF;
+END $$;
+-- §2 CREATE TABLE crm_outbox_events --------------------------------------------
+CREATE TABLE public.crm_outbox_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  channel VARCHAR(30) NOT NULL,
+  event_type VARCHAR(100) NOT NULL,
+  org_id UUID,
+  -- NULL for pre-account events (Tier 0 captures)
+  idempotency_key VARCHAR(255) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_http_status INTEGER,
+  last_error VARCHAR(500),
+  last_attempt_at TIMESTAMPTZ(6),
+  delivered_at TIMESTAMPTZ(6),
+  dead_lettered_at TIMESTAMPTZ(6),
+  created_at TIMESTAMPTZ(6) NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ(6) NOT NULL DEFAULT now(),
+  CONSTRAINT crm_outbox_events_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_outbox_events_idempotency_key_key UNIQUE (idempotency_key),
+  CONSTRAINT crm_outbox_events_org_id_fk FOREIGN KEY (org_id) REFERENCES public.organizations(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT crm_outbox_events_channel_check CHECK (channel IN ('CRM_LIFECYCLE', 'CRM_TIER0')),
+  CONSTRAINT crm_outbox_events_status_check CHECK (
+    status IN ('PENDING', 'DELIVERED', 'DEAD_LETTER')
+  ),
+  CONSTRAINT crm_outbox_events_attempts_check CHECK (attempts >= 0),
+  CONSTRAINT crm_outbox_events_lifecycle_org_check CHECK (
+    channel <> 'CRM_LIFECYCLE'
+    OR org_id IS NOT NULL
+  )
+);
+-- §3 CREATE TABLE crm_outbox_delivery_attempts ---------------------------------
+CREATE TABLE public.crm_outbox_delivery_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL,
+  attempt_no INTEGER NOT NULL,
+  outcome VARCHAR(30) NOT NULL,
+  http_status INTEGER,
+  error_message VARCHAR(500),
+  duration_ms INTEGER NOT NULL,
+  attempted_at TIMESTAMPTZ(6) NOT NULL DEFAULT now(),
+  CONSTRAINT crm_outbox_delivery_attempts_pkey PRIMARY KEY (id),
+  CONSTRAINT crm_outbox_delivery_attempts_event_id_fk FOREIGN KEY (event_id) REFERENCES public.crm_outbox_events(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT crm_outbox_delivery_attempts_outcome_check CHECK (
+    outcome IN ('DELIVERED', 'RETRYABLE_FAILURE', 'PERMANENT_FAILURE')
+  ),
+  CONSTRAINT crm_outbox_delivery_attempts_attempt_no_check CHECK (attempt_no >= 1),
+  CONSTRAINT crm_outbox_delivery_attempts_duration_check CHECK (duration_ms >= 0)
+);
+-- §4 Indexes -------------------------------------------------------------------
+CREATE INDEX idx_crm_outbox_events_status_created ON public.crm_outbox_events (status, created_at);
+CREATE INDEX idx_crm_outbox_events_org_created ON public.crm_outbox_events (org_id, created_at);
+CREATE INDEX idx_crm_outbox_events_channel_event ON public.crm_outbox_events (channel, event_type);
+CREATE INDEX idx_crm_outbox_delivery_attempts_event ON public.crm_outbox_delivery_attempts (event_id, attempted_at);
+-- §5 RLS ---------------------------------------------------------------------
+ALTER TABLE public.crm_outbox_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.crm_outbox_events FORCE ROW LEVEL SECURITY;
+CREATE POLICY crm_outbox_events_select_unified ON public.crm_outbox_events AS PERMISSIVE FOR
+SELECT TO texqtic_app USING (
+    (
+      app.require_org_context()
+      AND org_id = app.current_org_id()
+    )
+    OR current_setting('app.is_admin'::text, true) = 'true'::text
+    OR app.bypass_enabled()
+  );
+CREATE POLICY crm_outbox_events_tenant_insert ON public.crm_outbox_events AS PERMISSIVE FOR
+INSERT TO texqtic_app WITH CHECK (
+    app.require_org_context()
+    AND org_id = app.current_org_id()
+    AND status = 'PENDING'
+    AND NOT app.bypass_enabled()
+  );
+CREATE POLICY crm_outbox_events_bypass_write ON public.crm_outbox_events FOR ALL TO texqtic_app WITH CHECK (app.bypass_enabled());
+CREATE POLICY crm_outbox_events_guard ON public.crm_outbox_events AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+ALTER TABLE public.crm_outbox_delivery_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.crm_outbox_delivery_attempts FORCE ROW LEVEL SECURITY;
+CREATE POLICY crm_outbox_delivery_attempts_admin_select ON public.crm_outbox_delivery_attempts AS PERMISSIVE FOR
+SELECT TO texqtic_app USING (
+    current_setting('app.is_admin'::text, true) = 'true'::text
+    OR app.bypass_enabled()
+  );
+CREATE POLICY crm_outbox_delivery_attempts_guard ON public.crm_outbox_delivery_attempts AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+-- §6 Grants ------------------------------------------------------------------
+-- No UPDATE / DELETE for texqtic_app: delivery outcomes, replay and dead-lettering
+-- are written only on the service connection. Delivery attempts are never written
+-- by texqtic_app.
+GRANT SELECT,
+  INSERT ON TABLE public.crm_outbox_events TO texqtic_app;
+GRANT SELECT ON TABLE public.crm_outbox_delivery_attempts TO texqtic_app;
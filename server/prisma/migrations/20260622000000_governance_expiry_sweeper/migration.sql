@@ -0,0 +1,292 @@
+-- =============================================================================
+-- TEXQTIC-GOV-EXPIRY-SWEEP-001
+-- Migration: governance_expiry_sweeper
+-- Date:      2026-06-22
+-- Summary:   Append-only outcome records for the scheduled governance sweeper
+--            ('governance.expiry.sweep' background job). Closes the "Expiry
+--            sweeping → G-023 cron job" deferral in MakerCheckerService and
+--            EscalationService.
+--            1. approval_expiry_events — one row per pending_approvals request that
+--               passed expires_at while still REQUESTED / ESCALATED.
+--            2. sanction_decay_events — one row per ACTIVE sanction that passed
+--               decays_at.
+--            3. is_org_sanctioned / is_entity_sanctioned replaced so a sanction with
+--               a decay event is no longer blocking (G-024-B unchanged otherwise).
+--            4. D-021-B active slot made expiry-aware: pending_approvals_active_unique
+--               is replaced by trigger enforce_pending_approval_active_slot, which
+--               ignores requests that have an approval_expiry_events row. A maker can
+--               resubmit an expired request without any UPDATE to the old row.
+--            Safety invariants:
+--              - G-021 / G-022 doctrine: the sweeper never UPDATEs pending_approvals
+--                or sanctions. Expiry and decay are derived from the event rows.
+--              - Both tables are append-only: BEFORE UPDATE OR DELETE trigger raises
+--                P0001 (same as prevent_approval_signature_modification).
+--              - UNIQUE (approval_id) / UNIQUE (sanction_id): a second sweep cannot
+--                record the same outcome twice (idempotent re-runs).
+--              - Events are written only on the service connection (sweeper job);
+--                texqtic_app has SELECT only.
+--              - D-021-B keeps its P2002 surface: the slot trigger raises SQLSTATE
+--                23505 naming pending_approvals_active_unique, and serialises
+--                writers per entity + transition with a transaction advisory lock.
+-- =============================================================================
+-- §1  Pre-flight guard
+-- §2  CREATE TABLE approval_expiry_events
+-- §3  CREATE TABLE sanction_decay_events
+-- §4  Immutability triggers
+-- §5  RLS
+-- §6  Grants
+-- §7  Sanction enforcement functions (decay-aware)
+-- §8  D-021-B active slot (expiry-aware)
+-- §9  Verification block
+-- =============================================================================
+BEGIN;
+-- §1 Pre-flight guard ---------------------------------------------------------
+DO $$ BEGIN IF EXISTS (
+  SELECT 1
+  FROM information_schema.tables
+  WHERE table_schema = 'public'
+    AND table_name IN ('approval_expiry_events', 'sanction_decay_events')
+) THEN RAISE EXCEPTION 'PREFLIGHT_ABORT: governance expiry tables already exist — migration may have been applied already. Halting.';
+END IF;
+IF NOT EXISTS (
+  SELECT 1
+  FROM information_schema.tables
+  WHERE table_schema = 'public'
+    AND table_name = 'sanctions'
+) THEN RAISE EXCEPTION 'PREFLIGHT_ABORT: public.sanctions not found — G-024 must be applied first.';
+END IF;
+END $$;
+-- §2 CREATE TABLE approval_expiry_events ---------------------------------------
+CREATE TABLE public.approval_expiry_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  approval_id UUID NOT NULL,
+  -- Tenant boundary (denormalized from pending_approvals for RLS)
+  org_id UUID NOT NULL,
+  -- pending_approvals.expires_at at the time of the sweep
+  expired_at_due TIMESTAMPTZ(6) NOT NULL,
+  -- Status observed by the sweeper (REQUESTED | ESCALATED)
+  status_at_expiry TEXT NOT NULL,
+  sweep_run_id UUID NOT NULL,
+  created_at TIMESTAMPTZ(6) NOT NULL DEFAULT now(),
+  CONSTRAINT approval_expiry_events_pkey PRIMARY KEY (id),
+  CONSTRAINT approval_expiry_events_approval_id_key UNIQUE (approval_id),
+  CONSTRAINT approval_expiry_events_approval_id_fk FOREIGN KEY (approval_id) REFERENCES public.pending_approvals(id) ON DELETE RESTRICT ON UPDATE NO ACTION,
+  CONSTRAINT approval_expiry_events_org_id_fk FOREIGN KEY (org_id) REFERENCES public.organizations(id) ON DELETE CASCADE ON UPDATE NO ACTION,
+  CONSTRAINT approval_expiry_events_status_check CHECK (status_at_expiry IN ('REQUESTED', 'ESCALATED'))
+);
+CREATE INDEX idx_approval_expiry_events_org_created ON public.approval_expiry_events (org_id, created_at);
+CREATE INDEX idx_approval_expiry_events_sweep_run ON public.approval_expiry_events (sweep_run_id);
+-- §3 CREATE TABLE sanction_decay_events ----------------------------------------
+CREATE TABLE public.sanction_decay_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  sanction_id UUID NOT NULL,
+  org_id UUID NOT NULL,
+  -- sanctions.decays_at at the time of the sweep
+  decays_at TIMESTAMPTZ(6) NOT NULL,
+  sweep_run_id UUID NOT NULL,
+  created_at TIMESTAMPTZ(6) NOT NULL DEFAULT now(),
+  CONSTRAINT sanction_decay_events_pkey PRIMARY KEY (id),
+  CONSTRAINT sanction_decay_events_sanction_id_key UNIQUE (sanction_id),
+  CONSTRAINT sanction_decay_events_sanction_id_fk FOREIGN KEY (sanction_id) REFERENCES public.sanctions(id) ON DELETE RESTRICT ON UPDATE NO ACTION,
+  CONSTRAINT sanction_decay_events_org_id_fk FOREIGN KEY (org_id) REFERENCES public.organizations(id) ON DELETE CASCADE ON UPDATE NO ACTION
+);
+CREATE INDEX idx_sanction_decay_events_org_created ON public.sanction_decay_events (org_id, created_at);
+CREATE INDEX idx_sanction_decay_events_sweep_run ON public.sanction_decay_events (sweep_run_id);
+-- §4 Immutability triggers -----------------------------------------------------
+CREATE OR REPLACE FUNCTION public.prevent_governance_expiry_event_modification() RETURNS TRIGGER LANGUAGE plpgsql AS $$ BEGIN RAISE EXCEPTION 'GOVERNANCE_EXPIRY_EVENT_IMMUTABLE: % rows are append-only. UPDATE and DELETE are unconditionally prohibited.',
+  TG_TABLE_NAME USING ERRCODE = 'P0001';
+END;
+$$;
+CREATE TRIGGER trg_immutable_approval_expiry_event BEFORE
+UPDATE
+  OR DELETE ON public.approval_expiry_events FOR EACH ROW EXECUTE FUNCTION public.prevent_governance_expiry_event_modification();
+CREATE TRIGGER trg_immutable_sanction_decay_event BEFORE
+UPDATE
+  OR DELETE ON public.sanction_decay_events FOR EACH ROW EXECUTE FUNCTION public.prevent_governance_expiry_event_modification();
+-- §5 RLS ---------------------------------------------------------------------
+-- approval_expiry_events: tenants see their own org (getPendingQueue hides expired
+-- requests); admins see all. sanction_decay_events: admin only — tenants have no
+-- SELECT on sanctions either (G-024 design note).
+ALTER TABLE public.approval_expiry_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_expiry_events FORCE ROW LEVEL SECURITY;
+CREATE POLICY approval_expiry_events_select_unified ON public.approval_expiry_events AS PERMISSIVE FOR
+SELECT TO texqtic_app USING (
+    (
+      app.require_org_context()
+      AND org_id = app.current_org_id()
+    )
+    OR current_setting('app.is_admin'::text, true) = 'true'::text
+    OR app.bypass_enabled()
+  );
+CREATE POLICY approval_expiry_events_guard ON public.approval_expiry_events AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+ALTER TABLE public.sanction_decay_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sanction_decay_events FORCE ROW LEVEL SECURITY;
+CREATE POLICY sanction_decay_events_admin_select ON public.sanction_decay_events AS PERMISSIVE FOR
+SELECT TO texqtic_app USING (
+    current_setting('app.is_admin'::text, true) = 'true'::text
+    OR app.bypass_enabled()
+  );
+CREATE POLICY sanction_decay_events_guard ON public.sanction_decay_events AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+-- §6 Grants ------------------------------------------------------------------
+GRANT SELECT ON TABLE public.approval_expiry_events TO texqtic_app;
+GRANT SELECT ON TABLE public.sanction_decay_events TO texqtic_app;
+-- §7 Sanction enforcement functions (decay-aware) ------------------------------
+CREATE OR REPLACE FUNCTION public.is_org_sanctioned(
+    p_org_id UUID,
+    p_min_severity SMALLINT DEFAULT 2
+  ) RETURNS BOOLEAN LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE v_exists BOOLEAN;
+BEGIN
+SELECT EXISTS (
+    SELECT 1
+    FROM public.sanctions s
+    WHERE s.org_id = p_org_id
+      AND s.status = 'ACTIVE'
+      AND s.severity >= p_min_severity
+      AND s.entity_type IS NULL -- org-level sanction only
+      AND s.entity_id IS NULL
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.sanction_decay_events d
+        WHERE d.sanction_id = s.id
+      )
+  ) INTO v_exists;
+RETURN v_exists;
+END;
+$$;
+COMMENT ON FUNCTION public.is_org_sanctioned(UUID, SMALLINT) IS 'G-024 enforcement: returns TRUE if the given org has an ACTIVE, non-decayed sanction at or above the minimum severity (default 2). A sanction_decay_events row (GOV-EXPIRY-SWEEP-001) ends enforcement. SECURITY DEFINER -- bypasses RLS. Used by SanctionsService for all enforcement checks.';
+CREATE OR REPLACE FUNCTION public.is_entity_sanctioned(
+    p_entity_type TEXT,
+    p_entity_id UUID,
+    p_min_severity SMALLINT DEFAULT 2
+  ) RETURNS BOOLEAN LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE v_exists BOOLEAN;
+BEGIN
+SELECT EXISTS (
+    SELECT 1
+    FROM public.sanctions s
+    WHERE s.entity_type = p_entity_type
+      AND s.entity_id = p_entity_id
+      AND s.status = 'ACTIVE'
+      AND s.severity >= p_min_severity
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.sanction_decay_events d
+        WHERE d.sanction_id = s.id
+      )
+  ) INTO v_exists;
+RETURN v_exists;
+END;
+$$;
+COMMENT ON FUNCTION public.is_entity_sanctioned(TEXT, UUID, SMALLINT) IS 'G-024 enforcement: returns TRUE if the given entity (type+id) has an ACTIVE, non-decayed sanction at or above the minimum severity (default 2). A sanction_decay_events row (GOV-EXPIRY-SWEEP-001) ends enforcement. SECURITY DEFINER -- bypasses RLS. Used by SanctionsService for entity-level enforcement checks.';
+-- §8 D-021-B active slot (expiry-aware) ----------------------------------------
+-- A partial index cannot see approval_expiry_events, so the slot moves to a
+-- trigger. SECURITY DEFINER for the same reason as check_maker_checker_separation:
+-- the slot check must see every holder regardless of the caller's RLS context.
+DROP INDEX public.pending_approvals_active_unique;
+CREATE OR REPLACE FUNCTION public.enforce_pending_approval_active_slot() RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE v_holder_id UUID;
+BEGIN IF NEW.status NOT IN ('REQUESTED', 'ESCALATED') THEN RETURN NEW;
+END IF;
+-- Serialise writers for this entity + transition until commit, so two concurrent
+-- requests cannot both see a free slot.
+PERFORM pg_advisory_xact_lock(
+  hashtextextended(
+    concat_ws(
+      '|',
+      'pending_approvals_active_unique',
+      NEW.org_id,
+      NEW.entity_type,
+      NEW.entity_id,
+      NEW.from_state_key,
+      NEW.to_state_key
+    ),
+    0
+  )
+);
+SELECT p.id INTO v_holder_id
+FROM public.pending_approvals p
+WHERE p.org_id = NEW.org_id
+  AND p.entity_type = NEW.entity_type
+  AND p.entity_id = NEW.entity_id
+  AND p.from_state_key = NEW.from_state_key
+  AND p.to_state_key = NEW.to_state_key
+  AND p.status IN ('REQUESTED', 'ESCALATED')
+  AND p.id <> NEW.id
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.approval_expiry_events e
+    WHERE e.approval_id = p.id
+  )
+LIMIT 1;
+IF v_holder_id IS NOT NULL THEN RAISE EXCEPTION 'D-021-B: an active approval request (%) already exists for % % transition % -> %.',
+v_holder_id,
+NEW.entity_type,
+NEW.entity_id,
+NEW.from_state_key,
+NEW.to_state_key USING ERRCODE = '23505',
+CONSTRAINT = 'pending_approvals_active_unique';
+END IF;
+RETURN NEW;
+END;
+$$;
+COMMENT ON FUNCTION public.enforce_pending_approval_active_slot() IS 'G-021 D-021-B (GOV-EXPIRY-SWEEP-001): one active (REQUESTED | ESCALATED) request per org + entity + transition, ignoring requests with an approval_expiry_events row. Replaces the pending_approvals_active_unique partial index; raises SQLSTATE 23505 under that name so callers still see P2002. Advisory lock per slot key serialises concurrent writers.';
+CREATE TRIGGER trg_enforce_pending_approval_active_slot BEFORE
+INSERT
+  OR
+UPDATE OF status,
+  org_id,
+  entity_type,
+  entity_id,
+  from_state_key,
+  to_state_key ON public.pending_approvals FOR EACH ROW EXECUTE FUNCTION public.enforce_pending_approval_active_slot();
+CREATE INDEX idx_pending_approvals_active_slot ON public.pending_approvals (
+  org_id,
+  entity_type,
+  entity_id,
+  from_state_key,
+  to_state_key
+)
+WHERE status IN ('REQUESTED', 'ESCALATED');
+-- §9 Verification block ---------------------------------------------------------
+DO $$
+DECLARE v_trigger_count INT;
+v_force_count INT;
+BEGIN
+SELECT COUNT(*) INTO v_trigger_count
+FROM pg_trigger
+WHERE tgname IN (
+    'trg_immutable_approval_expiry_event',
+    'trg_immutable_sanction_decay_event',
+    'trg_enforce_pending_approval_active_slot'
+  );
+IF v_trigger_count != 3 THEN RAISE EXCEPTION 'GOV-EXPIRY VERIFY FAIL: expected 3 governance expiry triggers, found %',
+v_trigger_count;
+END IF;
+IF EXISTS (
+  SELECT 1
+  FROM pg_indexes
+  WHERE schemaname = 'public'
+    AND indexname = 'pending_approvals_active_unique'
+) THEN RAISE EXCEPTION 'GOV-EXPIRY VERIFY FAIL: pending_approvals_active_unique still present';
+END IF;
+SELECT COUNT(*) INTO v_force_count
+FROM pg_class
+WHERE relname IN ('approval_expiry_events', 'sanction_decay_events')
+  AND relrowsecurity
+  AND relforcerowsecurity;
+IF v_force_count != 2 THEN RAISE EXCEPTION 'GOV-EXPIRY VERIFY FAIL: FORCE RLS missing on governance expiry tables';
+END IF;
+RAISE NOTICE 'GOV-EXPIRY-SWEEP-001 verification passed';
+END $$;
+COMMIT;
@@ -0,0 +1,213 @@
+BEGIN;
+-- Domain owner: tenant
+-- Plane: tenant-plane
+-- Lifecycle: create (catalog inventory: locations, stock lots, checkout reservations)
+-- Reason: query-critical / constraints / joins
+-- Indexes: uq (tenant_id, code) locations, uq (tenant_id, catalog_item_id, location_id, COALESCE(batch_id, '')) lots,
+--          idx lots (tenant_id, catalog_item_id), idx reservations (order_id), idx reservations (stock_lot_id) WHERE ACTIVE
+-- RLS: yes - tenant_id = app.current_org_id(); admin read arm for the public B2B/B2C availability projection
+
+-- §1 catalog_items: opt-in stock tracking ----------------------------------------
+-- inventory_tracked defaults to false so existing items keep unconstrained checkout
+-- until the tenant turns tracking on.
+ALTER TABLE public.catalog_items
+  ADD COLUMN IF NOT EXISTS inventory_tracked BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER;
+
+ALTER TABLE public.catalog_items DROP CONSTRAINT IF EXISTS catalog_items_low_stock_threshold_non_negative;
+ALTER TABLE public.catalog_items ADD CONSTRAINT catalog_items_low_stock_threshold_non_negative
+  CHECK (low_stock_threshold IS NULL OR low_stock_threshold >= 0);
+
+-- §2 inventory_locations ------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.inventory_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  code VARCHAR(50) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT inventory_locations_tenant_code_unique UNIQUE (tenant_id, code)
+);
+
+-- §3 inventory_stock_lots -----------------------------------------------------------
+-- One row per (item, location, batch). batch_id NULL is the un-lotted bucket.
+-- traceability_node_id links the lot to the TraceabilityNode carrying the same
+-- batch_id in the same org (resolved by the service at receive time).
+CREATE TABLE IF NOT EXISTS public.inventory_stock_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  catalog_item_id UUID NOT NULL REFERENCES public.catalog_items(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.inventory_locations(id) ON DELETE RESTRICT,
+  batch_id TEXT,
+  traceability_node_id UUID REFERENCES public.traceability_nodes(id) ON DELETE SET NULL,
+  on_hand_qty INTEGER NOT NULL DEFAULT 0,
+  reserved_qty INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT inventory_stock_lots_on_hand_non_negative CHECK (on_hand_qty >= 0),
+  CONSTRAINT inventory_stock_lots_reserved_non_negative CHECK (reserved_qty >= 0),
+  CONSTRAINT inventory_stock_lots_reserved_within_on_hand CHECK (reserved_qty <= on_hand_qty),
+  CONSTRAINT inventory_stock_lots_batch_id_not_blank CHECK (batch_id IS NULL OR length(btrim(batch_id)) > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS inventory_stock_lots_item_location_batch_unique
+  ON public.inventory_stock_lots(tenant_id, catalog_item_id, location_id, COALESCE(batch_id, ''));
+CREATE INDEX IF NOT EXISTS inventory_stock_lots_tenant_item_idx
+  ON public.inventory_stock_lots(tenant_id, catalog_item_id);
+CREATE INDEX IF NOT EXISTS inventory_stock_lots_traceability_node_idx
+  ON public.inventory_stock_lots(traceability_node_id) WHERE traceability_node_id IS NOT NULL;
+
+-- §4 inventory_reservations ---------------------------------------------------------
+-- Taken at checkout (ACTIVE), released on CANCELLED, consumed on FULFILLED.
+-- RELEASED and CONSUMED are terminal.
+CREATE TABLE IF NOT EXISTS public.inventory_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  catalog_item_id UUID NOT NULL REFERENCES public.catalog_items(id) ON DELETE CASCADE,
+  stock_lot_id UUID NOT NULL REFERENCES public.inventory_stock_lots(id) ON DELETE RESTRICT,
+  quantity INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  released_at TIMESTAMPTZ,
+  consumed_at TIMESTAMPTZ,
+  CONSTRAINT inventory_reservations_quantity_positive CHECK (quantity > 0),
+  CONSTRAINT inventory_reservations_status_check CHECK (status IN ('ACTIVE', 'RELEASED', 'CONSUMED')),
+  CONSTRAINT inventory_reservations_status_timestamps CHECK (
+    (status = 'ACTIVE' AND released_at IS NULL AND consumed_at IS NULL)
+    OR (status = 'RELEASED' AND released_at IS NOT NULL AND consumed_at IS NULL)
+    OR (status = 'CONSUMED' AND consumed_at IS NOT NULL AND released_at IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS inventory_reservations_order_idx ON public.inventory_reservations(order_id);
+CREATE INDEX IF NOT EXISTS inventory_reservations_active_lot_idx
+  ON public.inventory_reservations(stock_lot_id) WHERE status = 'ACTIVE';
+
+CREATE OR REPLACE FUNCTION public.inventory_reservations_terminal_guard() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.order_id IS DISTINCT FROM OLD.order_id
+    OR NEW.order_item_id IS DISTINCT FROM OLD.order_item_id
+    OR NEW.catalog_item_id IS DISTINCT FROM OLD.catalog_item_id
+    OR NEW.stock_lot_id IS DISTINCT FROM OLD.stock_lot_id
+    OR NEW.quantity IS DISTINCT FROM OLD.quantity
+    OR NEW.tenant_id IS DISTINCT FROM OLD.tenant_id THEN
+    RAISE EXCEPTION 'inventory_reservations allocation is immutable'
+      USING ERRCODE = 'P0001';
+  END IF;
+  IF OLD.status <> 'ACTIVE' THEN
+    RAISE EXCEPTION 'inventory_reservations status % is terminal', OLD.status
+      USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_inventory_reservations_terminal_guard ON public.inventory_reservations;
+CREATE TRIGGER trg_inventory_reservations_terminal_guard BEFORE UPDATE ON public.inventory_reservations
+FOR EACH ROW EXECUTE FUNCTION public.inventory_reservations_terminal_guard();
+
+-- §5 RLS ----------------------------------------------------------------------------
+-- Same shape on all three tables: tenant owns its rows; the admin arm is read-only and
+-- serves the public projections (withAdminContext), which only derive an availability
+-- flag and never expose quantities.
+ALTER TABLE public.inventory_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_locations FORCE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_stock_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_stock_lots FORCE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_reservations FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS inventory_locations_guard ON public.inventory_locations;
+CREATE POLICY inventory_locations_guard ON public.inventory_locations AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS inventory_locations_select_unified ON public.inventory_locations;
+CREATE POLICY inventory_locations_select_unified ON public.inventory_locations AS PERMISSIVE FOR SELECT TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS inventory_locations_insert_unified ON public.inventory_locations;
+CREATE POLICY inventory_locations_insert_unified ON public.inventory_locations AS PERMISSIVE FOR INSERT TO texqtic_app WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS inventory_locations_update_unified ON public.inventory_locations;
+CREATE POLICY inventory_locations_update_unified ON public.inventory_locations AS PERMISSIVE FOR UPDATE TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+) WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS inventory_stock_lots_guard ON public.inventory_stock_lots;
+CREATE POLICY inventory_stock_lots_guard ON public.inventory_stock_lots AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS inventory_stock_lots_select_unified ON public.inventory_stock_lots;
+CREATE POLICY inventory_stock_lots_select_unified ON public.inventory_stock_lots AS PERMISSIVE FOR SELECT TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS inventory_stock_lots_insert_unified ON public.inventory_stock_lots;
+CREATE POLICY inventory_stock_lots_insert_unified ON public.inventory_stock_lots AS PERMISSIVE FOR INSERT TO texqtic_app WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS inventory_stock_lots_update_unified ON public.inventory_stock_lots;
+CREATE POLICY inventory_stock_lots_update_unified ON public.inventory_stock_lots AS PERMISSIVE FOR UPDATE TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+) WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS inventory_reservations_guard ON public.inventory_reservations;
+CREATE POLICY inventory_reservations_guard ON public.inventory_reservations AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS inventory_reservations_select_unified ON public.inventory_reservations;
+CREATE POLICY inventory_reservations_select_unified ON public.inventory_reservations AS PERMISSIVE FOR SELECT TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS inventory_reservations_insert_unified ON public.inventory_reservations;
+CREATE POLICY inventory_reservations_insert_unified ON public.inventory_reservations AS PERMISSIVE FOR INSERT TO texqtic_app WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS inventory_reservations_update_unified ON public.inventory_reservations;
+CREATE POLICY inventory_reservations_update_unified ON public.inventory_reservations AS PERMISSIVE FOR UPDATE TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+) WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+-- §6 Grants -------------------------------------------------------------------------
+GRANT SELECT, INSERT, UPDATE ON public.inventory_locations TO texqtic_app;
+GRANT SELECT, INSERT, UPDATE ON public.inventory_stock_lots TO texqtic_app;
+GRANT SELECT, INSERT, UPDATE ON public.inventory_reservations TO texqtic_app;
+
+COMMIT;
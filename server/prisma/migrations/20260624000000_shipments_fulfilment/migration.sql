@@ -0,0 +1,194 @@
+BEGIN;
+-- Domain owner: tenant
+-- Plane: tenant-plane
+-- Lifecycle: create (shipments + packing list lines + shipment documents for orders and trades)
+-- Reason: query-critical / constraints / joins
+-- Indexes: idx shipments (tenant_id, created_at DESC), idx shipments (order_id), idx shipments (trade_id),
+--          idx shipment_lines (shipment_id), idx shipment_lines (order_item_id), idx shipment_documents (shipment_id)
+-- RLS: yes - tenant_id = app.current_org_id(); admin read arm for control-plane ops
+
+-- §1 shipments ----------------------------------------------------------------------
+-- One physical consignment. Several partial shipments may exist per order or trade.
+-- Lifecycle: PENDING -> DISPATCHED -> DELIVERED, PENDING | DISPATCHED -> CANCELLED.
+-- DELIVERED and CANCELLED are terminal (trigger below).
+CREATE TABLE IF NOT EXISTS public.shipments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE,
+  trade_id UUID REFERENCES public.trades(id) ON DELETE CASCADE,
+  carrier VARCHAR(100) NOT NULL,
+  tracking_number VARCHAR(100),
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+  notes TEXT,
+  dispatched_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  created_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT shipments_single_parent CHECK (num_nonnulls(order_id, trade_id) = 1),
+  CONSTRAINT shipments_status_check CHECK (status IN ('PENDING', 'DISPATCHED', 'DELIVERED', 'CANCELLED')),
+  CONSTRAINT shipments_carrier_not_blank CHECK (length(btrim(carrier)) > 0),
+  CONSTRAINT shipments_dispatch_timestamp CHECK (
+    (status IN ('DISPATCHED', 'DELIVERED')) = (dispatched_at IS NOT NULL)
+    OR (status = 'CANCELLED')
+  ),
+  CONSTRAINT shipments_delivery_timestamp CHECK ((status = 'DELIVERED') = (delivered_at IS NOT NULL)),
+  CONSTRAINT shipments_cancel_timestamp CHECK ((status = 'CANCELLED') = (cancelled_at IS NOT NULL)),
+  CONSTRAINT shipments_delivered_after_dispatch CHECK (delivered_at IS NULL OR delivered_at >= dispatched_at)
+);
+
+CREATE INDEX IF NOT EXISTS shipments_tenant_created_idx ON public.shipments(tenant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS shipments_order_idx ON public.shipments(order_id) WHERE order_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS shipments_trade_idx ON public.shipments(trade_id) WHERE trade_id IS NOT NULL;
+
+-- §2 shipment_lines (packing list) --------------------------------------------------
+-- Order shipments reference order_items; trade shipments carry free-form lines.
+-- batch_id / traceability_node_id tie shipped goods to their supply-chain batch.
+CREATE TABLE IF NOT EXISTS public.shipment_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  shipment_id UUID NOT NULL REFERENCES public.shipments(id) ON DELETE CASCADE,
+  order_item_id UUID REFERENCES public.order_items(id) ON DELETE CASCADE,
+  catalog_item_id UUID REFERENCES public.catalog_items(id) ON DELETE SET NULL,
+  description VARCHAR(255) NOT NULL,
+  quantity INTEGER NOT NULL,
+  unit VARCHAR(20),
+  package_ref VARCHAR(100),
+  batch_id TEXT,
+  traceability_node_id UUID REFERENCES public.traceability_nodes(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT shipment_lines_quantity_positive CHECK (quantity > 0),
+  CONSTRAINT shipment_lines_description_not_blank CHECK (length(btrim(description)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS shipment_lines_shipment_idx ON public.shipment_lines(shipment_id);
+CREATE INDEX IF NOT EXISTS shipment_lines_order_item_idx ON public.shipment_lines(order_item_id) WHERE order_item_id IS NOT NULL;
+
+-- §3 shipment_documents -------------------------------------------------------------
+-- Private uploads (dispatch proof: AWB copy / bill of lading; proof of delivery).
+-- storage_path is never exposed; tenants read through short-lived signed URLs.
+CREATE TABLE IF NOT EXISTS public.shipment_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  shipment_id UUID NOT NULL REFERENCES public.shipments(id) ON DELETE CASCADE,
+  kind VARCHAR(30) NOT NULL,
+  storage_path TEXT NOT NULL,
+  original_name VARCHAR(255),
+  mime_type VARCHAR(100) NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  uploaded_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT shipment_documents_kind_check CHECK (kind IN ('DISPATCH_PROOF', 'PROOF_OF_DELIVERY')),
+  CONSTRAINT shipment_documents_size_positive CHECK (size_bytes > 0)
+);
+
+CREATE INDEX IF NOT EXISTS shipment_documents_shipment_idx ON public.shipment_documents(shipment_id);
+
+-- §4 Lifecycle guard ----------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.shipments_lifecycle_guard() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.tenant_id IS DISTINCT FROM OLD.tenant_id
+    OR NEW.order_id IS DISTINCT FROM OLD.order_id
+    OR NEW.trade_id IS DISTINCT FROM OLD.trade_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'shipments parent linkage is immutable'
+      USING ERRCODE = 'P0001';
+  END IF;
+  IF OLD.status IN ('DELIVERED', 'CANCELLED') THEN
+    RAISE EXCEPTION 'shipments status % is terminal', OLD.status
+      USING ERRCODE = 'P0001';
+  END IF;
+  IF OLD.status = 'DISPATCHED' AND NEW.status = 'PENDING' THEN
+    RAISE EXCEPTION 'shipments cannot return from DISPATCHED to PENDING'
+      USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_shipments_lifecycle_guard ON public.shipments;
+CREATE TRIGGER trg_shipments_lifecycle_guard BEFORE UPDATE ON public.shipments
+FOR EACH ROW EXECUTE FUNCTION public.shipments_lifecycle_guard();
+
+-- §5 RLS ----------------------------------------------------------------------------
+ALTER TABLE public.shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipments FORCE ROW LEVEL SECURITY;
+ALTER TABLE public.shipment_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipment_lines FORCE ROW LEVEL SECURITY;
+ALTER TABLE public.shipment_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipment_documents FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS shipments_guard ON public.shipments;
+CREATE POLICY shipments_guard ON public.shipments AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS shipments_select_unified ON public.shipments;
+CREATE POLICY shipments_select_unified ON public.shipments AS PERMISSIVE FOR SELECT TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS shipments_insert_unified ON public.shipments;
+CREATE POLICY shipments_insert_unified ON public.shipments AS PERMISSIVE FOR INSERT TO texqtic_app WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS shipments_update_unified ON public.shipments;
+CREATE POLICY shipments_update_unified ON public.shipments AS PERMISSIVE FOR UPDATE TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+) WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS shipment_lines_guard ON public.shipment_lines;
+CREATE POLICY shipment_lines_guard ON public.shipment_lines AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS shipment_lines_select_unified ON public.shipment_lines;
+CREATE POLICY shipment_lines_select_unified ON public.shipment_lines AS PERMISSIVE FOR SELECT TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS shipment_lines_insert_unified ON public.shipment_lines;
+CREATE POLICY shipment_lines_insert_unified ON public.shipment_lines AS PERMISSIVE FOR INSERT TO texqtic_app WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS shipment_documents_guard ON public.shipment_documents;
+CREATE POLICY shipment_documents_guard ON public.shipment_documents AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS shipment_documents_select_unified ON public.shipment_documents;
+CREATE POLICY shipment_documents_select_unified ON public.shipment_documents AS PERMISSIVE FOR SELECT TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS shipment_documents_insert_unified ON public.shipment_documents;
+CREATE POLICY shipment_documents_insert_unified ON public.shipment_documents AS PERMISSIVE FOR INSERT TO texqtic_app WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+-- §6 Grants -------------------------------------------------------------------------
+-- Packing list lines and documents are append-only: no UPDATE grant.
+GRANT SELECT, INSERT, UPDATE ON public.shipments TO texqtic_app;
+GRANT SELECT, INSERT ON public.shipment_lines TO texqtic_app;
+GRANT SELECT, INSERT ON public.shipment_documents TO texqtic_app;
+
+COMMIT;
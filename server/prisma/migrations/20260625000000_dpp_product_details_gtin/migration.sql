@@ -0,0 +1,25 @@
+BEGIN;
+-- Domain owner: tenant
+-- Plane: tenant-plane
+-- Lifecycle: alter (dpp_product_details gains a GS1 GTIN used as the passport product identifier)
+-- Reason: constraints
+-- Indexes: none
+-- RLS: unchanged - column inherits the existing dpp_product_details policies and grants
+
+-- §1 gtin ---------------------------------------------------------------------------
+-- Stored normalised to GTIN-14 (GTIN-8/12/13 are left-padded with zeros by the
+-- service layer, which also verifies the mod-10 check digit). The GS1 Digital Link
+-- URI for a passport is /01/{gtin}/21/{public_token}; without a GTIN no Digital Link
+-- can be issued and the ESPR readiness report flags the product identifier as missing.
+ALTER TABLE public.dpp_product_details
+  ADD COLUMN IF NOT EXISTS gtin VARCHAR(14);
+
+ALTER TABLE public.dpp_product_details
+  DROP CONSTRAINT IF EXISTS dpp_product_details_gtin_format;
+ALTER TABLE public.dpp_product_details
+  ADD CONSTRAINT dpp_product_details_gtin_format CHECK (
+    gtin IS NULL
+    OR gtin ~ '^[0-9]{14}$'
+  );
+
+COMMIT;
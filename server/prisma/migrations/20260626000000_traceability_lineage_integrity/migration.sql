@@ -0,0 +1,40 @@
+BEGIN;
+-- Domain owner: tenant
+-- Plane: tenant-plane
+-- Lifecycle: alter (traceability_edges gains a transferred quantity for mass-balance checks)
+-- Reason: constraints
+-- Indexes: none (lineage traversal uses traceability_edges_org_from_idx / traceability_edges_org_to_idx)
+-- RLS: unchanged - columns inherit the existing traceability_edges policies and grants
+
+-- §1 quantity -----------------------------------------------------------------------
+-- Quantity of material moved along the edge (from_node -> to_node), in quantity_unit.
+-- Both are optional, but set together. Mass balance compares the sum over a node's
+-- incoming edges with the sum over its outgoing edges; units are not converted.
+ALTER TABLE public.traceability_edges
+  ADD COLUMN IF NOT EXISTS quantity NUMERIC(18, 4),
+  ADD COLUMN IF NOT EXISTS quantity_unit VARCHAR(20);
+
+ALTER TABLE public.traceability_edges
+  DROP CONSTRAINT IF EXISTS traceability_edges_quantity_positive;
+ALTER TABLE public.traceability_edges
+  ADD CONSTRAINT traceability_edges_quantity_positive CHECK (
+    quantity IS NULL
+    OR quantity > 0
+  );
+
+ALTER TABLE public.traceability_edges
+  DROP CONSTRAINT IF EXISTS traceability_edges_quantity_unit_pair;
+ALTER TABLE public.traceability_edges
+  ADD CONSTRAINT traceability_edges_quantity_unit_pair CHECK (
+    (quantity IS NULL) = (quantity_unit IS NULL)
+  );
+
+-- §2 self-loops ---------------------------------------------------------------------
+-- Longer cycles are rejected by the service on edge creation (needs a graph walk);
+-- the trivial one is enforced here. NOT VALID: existing rows are not re-checked.
+ALTER TABLE public.traceability_edges
+  DROP CONSTRAINT IF EXISTS traceability_edges_no_self_loop;
+ALTER TABLE public.traceability_edges
+  ADD CONSTRAINT traceability_edges_no_self_loop CHECK (from_node_id <> to_node_id) NOT VALID;
+
+COMMIT;
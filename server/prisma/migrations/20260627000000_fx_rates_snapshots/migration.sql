@@ -0,0 +1,82 @@
+BEGIN;
+-- Domain owner: platform (fx_rates), tenant (trades / invoices snapshot columns)
+-- Plane: control-plane writes fx_rates; tenant-plane reads them
+-- Lifecycle: create (fx_rates) + alter (trades, invoices)
+-- Reason: multi-currency trades — rate lookup by (pair, effective_date), auditable rate reference
+-- Indexes: uq (base_currency, quote_currency, effective_date) fx_rates,
+--          idx fx_rates (base_currency, quote_currency, effective_date DESC)
+-- RLS: yes - fx_rates is platform reference data: every app session may read;
+--      inserts only under app.is_admin = 'true'; no UPDATE/DELETE policy or grant (insert-only)
+
+-- §1 fx_rates ------------------------------------------------------------------------
+-- One rate per (pair, effective_date): 1 base_currency = rate quote_currency.
+-- A rate applies from effective_date until the next effective_date for the same pair.
+-- Rows are never edited. A correction is a new row on a later effective_date, so every
+-- snapshot that references fx_rates.id keeps pointing at the exact rate it used.
+CREATE TABLE IF NOT EXISTS public.fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  base_currency CHAR(3) NOT NULL,
+  quote_currency CHAR(3) NOT NULL,
+  rate NUMERIC(24, 10) NOT NULL,
+  effective_date DATE NOT NULL,
+  source VARCHAR(20) NOT NULL,
+  source_reference VARCHAR(255),
+  created_by_admin_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT fx_rates_base_currency_iso CHECK (base_currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT fx_rates_quote_currency_iso CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT fx_rates_distinct_pair CHECK (base_currency <> quote_currency),
+  CONSTRAINT fx_rates_rate_positive CHECK (rate > 0),
+  CONSTRAINT fx_rates_source_check CHECK (source IN ('MANUAL', 'FILE_FEED')),
+  CONSTRAINT fx_rates_pair_date_unique UNIQUE (base_currency, quote_currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS fx_rates_pair_effective_idx
+  ON public.fx_rates(base_currency, quote_currency, effective_date DESC);
+
+COMMENT ON TABLE public.fx_rates IS 'Platform FX rates. 1 base_currency = rate quote_currency from effective_date. Insert-only.';
+COMMENT ON COLUMN public.fx_rates.source IS 'MANUAL (control-plane upload) or FILE_FEED (scripts/fx-load-feed.ts).';
+
+-- §2 Rate snapshots on trades and invoices -------------------------------------------
+-- Taken once at creation: the document amount converted into the platform reporting
+-- currency. fx_rate_id is NULL for identity conversions (currency = reporting currency).
+-- fx_rate is the rate actually applied (inverse of the stored row when only the reverse
+-- pair exists), so reporting_amount = gross_amount * fx_rate without another lookup.
+ALTER TABLE public.trades
+  ADD COLUMN IF NOT EXISTS fx_reporting_currency CHAR(3),
+  ADD COLUMN IF NOT EXISTS fx_rate NUMERIC(24, 10),
+  ADD COLUMN IF NOT EXISTS fx_rate_id UUID REFERENCES public.fx_rates(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS fx_rate_effective_date DATE;
+
+ALTER TABLE public.trades DROP CONSTRAINT IF EXISTS trades_fx_snapshot_complete;
+ALTER TABLE public.trades ADD CONSTRAINT trades_fx_snapshot_complete
+  CHECK ((fx_reporting_currency IS NULL) = (fx_rate IS NULL));
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS fx_reporting_currency CHAR(3),
+  ADD COLUMN IF NOT EXISTS fx_rate NUMERIC(24, 10),
+  ADD COLUMN IF NOT EXISTS fx_rate_id UUID REFERENCES public.fx_rates(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS fx_rate_effective_date DATE;
+
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_fx_snapshot_complete;
+ALTER TABLE public.invoices ADD CONSTRAINT invoices_fx_snapshot_complete
+  CHECK ((fx_reporting_currency IS NULL) = (fx_rate IS NULL));
+
+-- §3 RLS -----------------------------------------------------------------------------
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fx_rates FORCE ROW LEVEL SECURITY;
+
+-- All authenticated app sessions may read rates (platform reference data).
+DROP POLICY IF EXISTS fx_rates_app_select ON public.fx_rates;
+CREATE POLICY fx_rates_app_select ON public.fx_rates FOR SELECT TO texqtic_app USING (true);
+
+DROP POLICY IF EXISTS fx_rates_admin_insert ON public.fx_rates;
+CREATE POLICY fx_rates_admin_insert ON public.fx_rates FOR INSERT TO texqtic_app WITH CHECK (
+  current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+-- §4 Grants --------------------------------------------------------------------------
+GRANT SELECT, INSERT ON public.fx_rates TO texqtic_app;
+
+COMMIT;
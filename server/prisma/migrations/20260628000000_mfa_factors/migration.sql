@@ -0,0 +1,94 @@
+BEGIN;
+-- Domain owner: platform auth (mfa_factors, mfa_recovery_codes, mfa_challenges), tenant (mfa_required policy)
+-- Plane: auth routes (pre-auth login challenge) + tenant/control MFA management
+-- Lifecycle: create (mfa_factors, mfa_recovery_codes, mfa_challenges) + alter (tenants)
+-- Reason: second factor (TOTP, WebAuthn) with recovery codes for tenant users and platform admins;
+--         per-tenant "MFA required" enforcement; step-up before sensitive actions
+-- Indexes: idx mfa_factors(user_id), idx mfa_factors(admin_id), uq mfa_factors(webauthn_credential_id),
+--          idx mfa_recovery_codes(user_id), idx mfa_recovery_codes(admin_id), idx mfa_challenges(expires_at)
+-- RLS: no - auth infrastructure, same posture as refresh_tokens: read before a tenant context exists
+--      (login challenge) and keyed by user_id / admin_id, never by tenant
+
+-- §1 mfa_factors ---------------------------------------------------------------------
+-- Exactly one owner: a tenant user (user_id) or a platform admin (admin_id).
+-- PENDING factors are enrollments awaiting their first successful verification;
+-- only ACTIVE factors are offered at login or step-up.
+CREATE TABLE IF NOT EXISTS public.mfa_factors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  admin_id UUID REFERENCES public.admin_users(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+  label VARCHAR(100),
+  totp_secret_encrypted TEXT,
+  totp_last_used_step INTEGER,
+  webauthn_credential_id VARCHAR(1024),
+  webauthn_public_key TEXT,
+  webauthn_algorithm INTEGER,
+  webauthn_sign_count BIGINT NOT NULL DEFAULT 0,
+  webauthn_transports TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  confirmed_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  CONSTRAINT mfa_factors_single_owner CHECK ((user_id IS NULL) <> (admin_id IS NULL)),
+  CONSTRAINT mfa_factors_type_check CHECK (type IN ('TOTP', 'WEBAUTHN')),
+  CONSTRAINT mfa_factors_status_check CHECK (status IN ('PENDING', 'ACTIVE')),
+  CONSTRAINT mfa_factors_totp_secret CHECK (type <> 'TOTP' OR totp_secret_encrypted IS NOT NULL),
+  CONSTRAINT mfa_factors_webauthn_key CHECK (
+    type <> 'WEBAUTHN'
+    OR (webauthn_credential_id IS NOT NULL AND webauthn_public_key IS NOT NULL AND webauthn_algorithm IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS mfa_factors_user_id_idx ON public.mfa_factors(user_id);
+CREATE INDEX IF NOT EXISTS mfa_factors_admin_id_idx ON public.mfa_factors(admin_id);
+CREATE UNIQUE INDEX IF NOT EXISTS mfa_factors_webauthn_credential_id_key
+  ON public.mfa_factors(webauthn_credential_id);
+
+COMMENT ON COLUMN public.mfa_factors.totp_secret_encrypted IS 'AES-256-GCM (v1:iv:tag:ciphertext, base64url). Never returned after enrollment.';
+COMMENT ON COLUMN public.mfa_factors.totp_last_used_step IS 'Last accepted 30s time step; codes at or below it are replays.';
+
+-- §2 mfa_recovery_codes --------------------------------------------------------------
+-- Single-use. Only SHA-256 of the code is stored; a regenerate replaces the whole set.
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  admin_id UUID REFERENCES public.admin_users(id) ON DELETE CASCADE,
+  code_hash CHAR(64) NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT mfa_recovery_codes_single_owner CHECK ((user_id IS NULL) <> (admin_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS mfa_recovery_codes_user_id_idx ON public.mfa_recovery_codes(user_id);
+CREATE INDEX IF NOT EXISTS mfa_recovery_codes_admin_id_idx ON public.mfa_recovery_codes(admin_id);
+
+-- §3 mfa_challenges ------------------------------------------------------------------
+-- WebAuthn challenges issued by the server. consumed_at is set on first use (success or failure).
+CREATE TABLE IF NOT EXISTS public.mfa_challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  admin_id UUID REFERENCES public.admin_users(id) ON DELETE CASCADE,
+  purpose VARCHAR(30) NOT NULL,
+  challenge VARCHAR(128) NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  consumed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT mfa_challenges_single_owner CHECK ((user_id IS NULL) <> (admin_id IS NULL)),
+  CONSTRAINT mfa_challenges_purpose_check CHECK (purpose IN ('WEBAUTHN_REGISTER', 'WEBAUTHN_AUTHENTICATE'))
+);
+
+CREATE INDEX IF NOT EXISTS mfa_challenges_expires_at_idx ON public.mfa_challenges(expires_at);
+
+-- §4 Per-tenant policy ---------------------------------------------------------------
+-- When true, members must complete a second factor at login (enrolling one if they have none)
+-- and sensitive actions require a recent step-up.
+ALTER TABLE public.tenants
+  ADD COLUMN IF NOT EXISTS mfa_required BOOLEAN NOT NULL DEFAULT false;
+
+-- §5 Grants --------------------------------------------------------------------------
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.mfa_factors TO texqtic_app;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.mfa_recovery_codes TO texqtic_app;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.mfa_challenges TO texqtic_app;
+
+COMMIT;
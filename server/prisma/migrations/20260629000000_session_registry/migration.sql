@@ -0,0 +1,65 @@
+BEGIN;
+-- Domain owner: platform auth (auth_sessions, session_revocations)
+-- Plane: auth middleware (every authenticated request) + tenant/control session management
+-- Lifecycle: create (auth_sessions, session_revocations)
+-- Reason: server-side revocation of access tokens. Stopping an impersonation, signing out a
+--         device or force-logging-out a tenant/user takes effect on the next request instead of
+--         at token expiry.
+-- Indexes: idx auth_sessions(user_id), idx auth_sessions(admin_id), idx auth_sessions(tenant_id),
+--          uq auth_sessions(impersonation_id), uq session_revocations(subject_type, subject_id)
+-- RLS: no - auth infrastructure, same posture as refresh_tokens: read by the auth middleware
+--      before a tenant context exists and keyed by user_id / admin_id
+
+-- §1 auth_sessions -------------------------------------------------------------------
+-- LOGIN rows share their id with refresh_tokens.family_id (one row per signed-in device);
+-- IMPERSONATION rows are 1:1 with impersonation_sessions. Access tokens carry the id as `sid`.
+-- Families created before this migration get a row on their next refresh.
+CREATE TABLE IF NOT EXISTS public.auth_sessions (
+  id UUID PRIMARY KEY,
+  kind VARCHAR(20) NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  admin_id UUID REFERENCES public.admin_users(id) ON DELETE CASCADE,
+  tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE,
+  impersonation_id UUID REFERENCES public.impersonation_sessions(id) ON DELETE CASCADE,
+  ip VARCHAR(45),
+  user_agent VARCHAR(500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  revoked_reason VARCHAR(64),
+  revoked_by_admin_id UUID,
+  CONSTRAINT auth_sessions_kind_check CHECK (kind IN ('LOGIN', 'IMPERSONATION')),
+  CONSTRAINT auth_sessions_single_owner CHECK ((user_id IS NULL) <> (admin_id IS NULL)),
+  CONSTRAINT auth_sessions_impersonation_shape CHECK (
+    kind <> 'IMPERSONATION' OR (impersonation_id IS NOT NULL AND user_id IS NOT NULL AND tenant_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS auth_sessions_user_id_idx ON public.auth_sessions(user_id);
+CREATE INDEX IF NOT EXISTS auth_sessions_admin_id_idx ON public.auth_sessions(admin_id);
+CREATE INDEX IF NOT EXISTS auth_sessions_tenant_id_idx ON public.auth_sessions(tenant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS auth_sessions_impersonation_id_key ON public.auth_sessions(impersonation_id);
+
+-- §2 session_revocations --------------------------------------------------------------
+-- Force-logout watermark per subject (USER, TENANT). Any access token for the subject with
+-- iat at or before revoked_before is rejected, including tokens without a `sid`.
+CREATE TABLE IF NOT EXISTS public.session_revocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_type VARCHAR(10) NOT NULL,
+  subject_id UUID NOT NULL,
+  revoked_before TIMESTAMPTZ NOT NULL,
+  reason VARCHAR(500),
+  revoked_by_admin_id UUID,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT session_revocations_subject_type_check CHECK (subject_type IN ('USER', 'TENANT'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS session_revocations_subject_type_subject_id_key
+  ON public.session_revocations(subject_type, subject_id);
+
+-- §3 Grants --------------------------------------------------------------------------
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.auth_sessions TO texqtic_app;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.session_revocations TO texqtic_app;
+
+COMMIT;
@@ -0,0 +1,91 @@
+BEGIN;
+-- Domain owner: platform auth (tenant_sso_connections, sso_identities, sso_login_states)
+-- Plane: public SSO login (/api/auth/sso) + tenant SSO configuration (/api/tenant/sso)
+-- Lifecycle: create (tenant_sso_connections, sso_identities, sso_login_states)
+-- Reason: per-tenant OIDC / SAML single sign-on with IdP group → role mapping and
+--         just-in-time membership provisioning for verified email domains.
+-- Indexes: uq tenant_sso_connections(tenant_id, protocol), uq sso_identities(connection_id, subject),
+--          idx sso_identities(user_id), uq sso_login_states(state_hash),
+--          uq sso_login_states(handoff_code_hash), idx sso_login_states(connection_id)
+-- RLS: no - auth infrastructure, same posture as auth_sessions: read by the unauthenticated
+--      login flow before a tenant context exists; configuration routes key every query by
+--      the caller's tenant_id
+
+-- §1 tenant_sso_connections -----------------------------------------------------------
+-- OIDC client secrets are stored AES-256-GCM encrypted (v1:iv:tag:ciphertext envelope).
+CREATE TABLE IF NOT EXISTS public.tenant_sso_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  protocol VARCHAR(10) NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  display_name VARCHAR(100),
+  oidc_issuer VARCHAR(500),
+  oidc_client_id VARCHAR(255),
+  oidc_client_secret_encrypted TEXT,
+  oidc_scopes VARCHAR(255),
+  saml_idp_entity_id VARCHAR(500),
+  saml_idp_sso_url VARCHAR(1000),
+  saml_idp_certificate TEXT,
+  email_attribute VARCHAR(255) NOT NULL DEFAULT 'email',
+  groups_attribute VARCHAR(255) NOT NULL DEFAULT 'groups',
+  role_mappings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  default_role public.membership_role,
+  jit_provisioning BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT tenant_sso_connections_protocol_check CHECK (protocol IN ('OIDC', 'SAML')),
+  CONSTRAINT tenant_sso_connections_oidc_shape CHECK (
+    protocol <> 'OIDC' OR (oidc_issuer IS NOT NULL AND oidc_client_id IS NOT NULL AND oidc_client_secret_encrypted IS NOT NULL)
+  ),
+  CONSTRAINT tenant_sso_connections_saml_shape CHECK (
+    protocol <> 'SAML' OR (saml_idp_entity_id IS NOT NULL AND saml_idp_sso_url IS NOT NULL AND saml_idp_certificate IS NOT NULL)
+  ),
+  CONSTRAINT tenant_sso_connections_default_role_check CHECK (default_role IS NULL OR default_role <> 'OWNER')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS tenant_sso_connections_tenant_id_protocol_key
+  ON public.tenant_sso_connections(tenant_id, protocol);
+
+-- §2 sso_identities ---------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.sso_identities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id UUID NOT NULL REFERENCES public.tenant_sso_connections(id) ON DELETE CASCADE,
+  subject VARCHAR(255) NOT NULL,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_login_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS sso_identities_connection_id_subject_key
+  ON public.sso_identities(connection_id, subject);
+CREATE INDEX IF NOT EXISTS sso_identities_user_id_idx ON public.sso_identities(user_id);
+
+-- §3 sso_login_states -------------------------------------------------------------------
+-- state / RelayState and the handoff code are stored as SHA-256 hashes only.
+CREATE TABLE IF NOT EXISTS public.sso_login_states (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id UUID NOT NULL REFERENCES public.tenant_sso_connections(id) ON DELETE CASCADE,
+  state_hash VARCHAR(64) NOT NULL,
+  nonce VARCHAR(64),
+  code_verifier VARCHAR(128),
+  saml_request_id VARCHAR(64),
+  return_to VARCHAR(500),
+  user_id UUID,
+  handoff_code_hash VARCHAR(64),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  consumed_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS sso_login_states_state_hash_key ON public.sso_login_states(state_hash);
+CREATE UNIQUE INDEX IF NOT EXISTS sso_login_states_handoff_code_hash_key ON public.sso_login_states(handoff_code_hash);
+CREATE INDEX IF NOT EXISTS sso_login_states_connection_id_idx ON public.sso_login_states(connection_id);
+
+-- §4 Grants -----------------------------------------------------------------------------
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.tenant_sso_connections TO texqtic_app;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.sso_identities TO texqtic_app;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.sso_login_states TO texqtic_app;
+
+COMMIT;
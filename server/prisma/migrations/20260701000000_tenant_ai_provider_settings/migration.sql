@@ -0,0 +1,69 @@
+BEGIN;
+-- Domain owner: platform AI governance (tenant_ai_provider_settings)
+-- Plane: control-plane writes; tenant AI call sites read their own tenant's rows
+-- Lifecycle: create (tenant_ai_provider_settings)
+-- Reason: pluggable AI providers — a tenant can be pinned to a provider for every text
+--         task ('*') or for a single task, overriding the deployment AI_PROVIDER default
+-- Indexes: uq tenant_ai_provider_settings(tenant_id, task)
+-- RLS: yes - tenants SELECT their own rows; writes only under app.is_admin = 'true'
+
+-- §1 tenant_ai_provider_settings -----------------------------------------------------
+-- task '*' applies to every text task without a task-specific row. 'embedding' is not
+-- allowed: all vectors in document_embeddings must come from one deployment-wide model.
+CREATE TABLE IF NOT EXISTS public.tenant_ai_provider_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  task VARCHAR(40) NOT NULL,
+  provider VARCHAR(30) NOT NULL,
+  updated_by_admin_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT tenant_ai_provider_settings_task_check CHECK (task IN (
+    '*', 'insights', 'negotiation-advice', 'rfq-assist', 'supplier-profile-completeness',
+    'passport-assistant', 'document-extraction'
+  )),
+  CONSTRAINT tenant_ai_provider_settings_provider_check CHECK (
+    provider IN ('gemini', 'openai-compatible', 'fixture')
+  ),
+  CONSTRAINT tenant_ai_provider_settings_tenant_task_key UNIQUE (tenant_id, task)
+);
+
+COMMENT ON TABLE public.tenant_ai_provider_settings IS 'Per-tenant AI provider selection. Falls back to AI_PROVIDER_TASK_OVERRIDES / AI_PROVIDER when absent or when the provider is not configured.';
+
+-- §2 RLS -----------------------------------------------------------------------------
+ALTER TABLE public.tenant_ai_provider_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tenant_ai_provider_settings FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_ai_provider_settings_select_unified ON public.tenant_ai_provider_settings;
+CREATE POLICY tenant_ai_provider_settings_select_unified ON public.tenant_ai_provider_settings AS PERMISSIVE FOR
+SELECT TO texqtic_app USING (
+    (
+      app.require_org_context()
+      AND tenant_id = app.current_org_id()
+    )
+    OR current_setting('app.is_admin'::text, true) = 'true'::text
+    OR app.bypass_enabled()
+  );
+
+DROP POLICY IF EXISTS tenant_ai_provider_settings_admin_write ON public.tenant_ai_provider_settings;
+CREATE POLICY tenant_ai_provider_settings_admin_write ON public.tenant_ai_provider_settings AS PERMISSIVE FOR ALL TO texqtic_app
+  USING (
+    current_setting('app.is_admin'::text, true) = 'true'::text
+    OR app.bypass_enabled()
+  )
+  WITH CHECK (
+    current_setting('app.is_admin'::text, true) = 'true'::text
+    OR app.bypass_enabled()
+  );
+
+DROP POLICY IF EXISTS tenant_ai_provider_settings_guard ON public.tenant_ai_provider_settings;
+CREATE POLICY tenant_ai_provider_settings_guard ON public.tenant_ai_provider_settings AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+-- §3 Grants --------------------------------------------------------------------------
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.tenant_ai_provider_settings TO texqtic_app;
+
+COMMIT;
@@ -0,0 +1,72 @@
+BEGIN;
+-- Domain owner: tenant AI inference (ai_response_cache)
+-- Plane: tenant AI call sites read and write their own tenant's rows
+-- Lifecycle: create (ai_response_cache)
+-- Reason: streamed AI responses with idempotency and caching — identical prompts within
+--         AI_RESPONSE_CACHE_TTL_SECONDS are answered without a model call (no tokens
+--         metered), and passport-assistant idempotency keys replay the stored response
+-- Indexes: uq ai_response_cache(tenant_id, task, cache_key); ai_response_cache(expires_at)
+-- RLS: yes - tenant_id = app.current_org_id(); admin read arm for control-plane ops
+
+-- §1 ai_response_cache ---------------------------------------------------------------
+-- cache_key is the SHA-256 of provider, model, system instruction, prompt and context
+-- hash, or 'idem:<Idempotency-Key>' for a replayable passport-assistant response.
+-- provider / model are NULL for idempotency rows (response_text is the serialized result).
+-- Rows are refreshed in place when an expired key is written again.
+CREATE TABLE IF NOT EXISTS public.ai_response_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  task VARCHAR(40) NOT NULL,
+  cache_key VARCHAR(160) NOT NULL,
+  response_text TEXT NOT NULL,
+  provider VARCHAR(30),
+  model VARCHAR(100),
+  tokens_used INTEGER NOT NULL DEFAULT 0,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  CONSTRAINT ai_response_cache_tokens_non_negative CHECK (tokens_used >= 0),
+  CONSTRAINT ai_response_cache_tenant_task_key UNIQUE (tenant_id, task, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS ai_response_cache_expires_idx ON public.ai_response_cache(expires_at);
+
+COMMENT ON TABLE public.ai_response_cache IS 'Per-tenant AI response cache and passport-assistant idempotency store. Hits are served without a model call and add no tokens to ai_usage_meters.';
+
+-- §2 RLS -----------------------------------------------------------------------------
+ALTER TABLE public.ai_response_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_response_cache FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS ai_response_cache_guard ON public.ai_response_cache;
+CREATE POLICY ai_response_cache_guard ON public.ai_response_cache AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS ai_response_cache_select_unified ON public.ai_response_cache;
+CREATE POLICY ai_response_cache_select_unified ON public.ai_response_cache AS PERMISSIVE FOR SELECT TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS ai_response_cache_insert_unified ON public.ai_response_cache;
+CREATE POLICY ai_response_cache_insert_unified ON public.ai_response_cache AS PERMISSIVE FOR INSERT TO texqtic_app WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS ai_response_cache_update_unified ON public.ai_response_cache;
+CREATE POLICY ai_response_cache_update_unified ON public.ai_response_cache AS PERMISSIVE FOR UPDATE TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+) WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+-- §3 Grants --------------------------------------------------------------------------
+GRANT SELECT, INSERT, UPDATE ON public.ai_response_cache TO texqtic_app;
+
+COMMIT;
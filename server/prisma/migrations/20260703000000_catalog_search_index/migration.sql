@@ -0,0 +1,44 @@
+BEGIN;
+-- Domain owner: tenant catalog (catalog_items)
+-- Plane: read-only search index; written by Postgres as a generated column
+-- Lifecycle: alter (catalog_items.search_vector)
+-- Reason: faceted catalog search ranks free text with full-text search and trigram
+--         similarity instead of ILIKE on name / sku
+-- Indexes: catalog_items(search_vector) GIN; catalog_items(name gin_trgm_ops) GIN;
+--          catalog_items(certifications jsonb_path_ops) GIN
+-- RLS: unchanged - existing catalog_items policies apply to every search query
+
+-- §1 pg_trgm -------------------------------------------------------------------------
+-- CREATE EXTENSION IF NOT EXISTS is idempotent.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- §2 search_vector -------------------------------------------------------------------
+-- 'simple' configuration: textile vocabulary (GSM, twill, 2/1, elastane) must not be
+-- stemmed or dropped as stop words. Weights: A name; B sku, fabric type, material;
+-- C composition, color, construction, category; D description.
+ALTER TABLE public.catalog_items
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A')
+    || setweight(to_tsvector('simple',
+         coalesce(sku, '') || ' ' || coalesce(fabric_type, '') || ' ' || coalesce(material, '')), 'B')
+    || setweight(to_tsvector('simple',
+         coalesce(composition, '') || ' ' || coalesce(color, '') || ' '
+         || coalesce(construction, '') || ' ' || coalesce(product_category, '')), 'C')
+    || setweight(to_tsvector('simple', coalesce(description, '')), 'D')
+  ) STORED;
+
+-- §3 Indexes -------------------------------------------------------------------------
+CREATE INDEX IF NOT EXISTS catalog_items_search_vector_idx
+  ON public.catalog_items USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS catalog_items_name_trgm_idx
+  ON public.catalog_items USING GIN (name gin_trgm_ops);
+
+-- Certification facet filter: certifications @> '[{"standard": "GOTS"}]'.
+CREATE INDEX IF NOT EXISTS catalog_items_certifications_idx
+  ON public.catalog_items USING GIN (certifications jsonb_path_ops);
+
+COMMENT ON COLUMN public.catalog_items.search_vector IS 'Generated full-text search document for catalog search (weighted name > attributes > description). Never written by the application.';
+
+COMMIT;
@@ -0,0 +1,90 @@
+BEGIN;
+-- Domain owner: tenant catalog (catalog_imports)
+-- Plane: tenant catalog routes create, remap and queue their own imports; the
+--        'catalog.import.apply' job worker advances them under the tenant's org context
+-- Lifecycle: create (catalog_imports); index catalog_items(tenant_id, sku)
+-- Reason: bulk CSV / XLSX catalog import — a dry-run preview with a per-row validation
+--         report, then an upsert-by-SKU apply job with progress counters
+-- Indexes: catalog_imports(tenant_id, created_at DESC); catalog_items(tenant_id, sku)
+-- RLS: yes - tenant_id = app.current_org_id(); admin read arm for control-plane ops
+
+-- §1 catalog_imports -----------------------------------------------------------------
+-- source_rows holds the uploaded sheet as a grid of strings (header row first) so a
+-- preview can be remapped without re-uploading; it is cleared once the import finishes.
+-- report is the latest dry-run result; apply_errors lists rows that failed while applying.
+CREATE TABLE IF NOT EXISTS public.catalog_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'PREVIEWED',
+  file_name VARCHAR(255),
+  format VARCHAR(10) NOT NULL,
+  source_rows JSONB NOT NULL DEFAULT '[]'::jsonb,
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  report JSONB NOT NULL DEFAULT '{}'::jsonb,
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  valid_rows INTEGER NOT NULL DEFAULT 0,
+  processed_rows INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  apply_errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID,
+  background_job_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  queued_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  CONSTRAINT catalog_imports_status_check CHECK (status IN ('PREVIEWED', 'QUEUED', 'RUNNING', 'COMPLETED', 'FAILED')),
+  CONSTRAINT catalog_imports_format_check CHECK (format IN ('csv', 'xlsx')),
+  CONSTRAINT catalog_imports_counts_non_negative CHECK (
+    total_rows >= 0 AND valid_rows >= 0 AND processed_rows >= 0
+    AND created_count >= 0 AND updated_count >= 0 AND failed_count >= 0
+  )
+);
+
+CREATE INDEX IF NOT EXISTS catalog_imports_tenant_created_idx ON public.catalog_imports(tenant_id, created_at DESC);
+
+COMMENT ON TABLE public.catalog_imports IS 'Bulk catalog imports (CSV / XLSX). Previewed as a dry run, then applied as an upsert-by-SKU background job that records progress here.';
+
+-- §2 catalog_items SKU lookup ------------------------------------------------------------
+-- Upsert-by-SKU resolves existing items per (tenant_id, sku). Not unique: existing
+-- catalogs may already hold duplicate SKUs; the import updates the most recent one.
+CREATE INDEX IF NOT EXISTS catalog_items_tenant_sku_idx ON public.catalog_items(tenant_id, sku) WHERE sku IS NOT NULL;
+
+-- §3 RLS -----------------------------------------------------------------------------
+ALTER TABLE public.catalog_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.catalog_imports FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS catalog_imports_guard ON public.catalog_imports;
+CREATE POLICY catalog_imports_guard ON public.catalog_imports AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS catalog_imports_select_unified ON public.catalog_imports;
+CREATE POLICY catalog_imports_select_unified ON public.catalog_imports AS PERMISSIVE FOR SELECT TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS catalog_imports_insert_unified ON public.catalog_imports;
+CREATE POLICY catalog_imports_insert_unified ON public.catalog_imports AS PERMISSIVE FOR INSERT TO texqtic_app WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS catalog_imports_update_unified ON public.catalog_imports;
+CREATE POLICY catalog_imports_update_unified ON public.catalog_imports AS PERMISSIVE FOR UPDATE TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+) WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+-- §4 Grants --------------------------------------------------------------------------
+GRANT SELECT, INSERT, UPDATE ON public.catalog_imports TO texqtic_app;
+
+COMMIT;
@@ -0,0 +1,109 @@
+BEGIN;
+-- Domain owner: tenant catalog (catalog_item_variants)
+-- Plane: tenant catalog routes manage variants of their own items; buyer PDP / RFQ reads
+--        resolve another tenant's variants through the bounded texqtic_rfq_read role
+-- Lifecycle: create (catalog_item_variants); alter cart_items, order_items, rfqs (+ variant_id)
+-- Reason: colourways, widths and finishes of one fabric live under a single parent item
+--         instead of N unrelated catalog_items rows
+-- Indexes: catalog_item_variants(catalog_item_id, sort_order); UNIQUE (tenant_id, sku);
+--          cart_items line uniqueness now keyed on (cart_id, catalog_item_id, variant_id)
+-- RLS: yes - tenant_id = app.current_org_id(); admin read arm for control-plane ops
+
+-- §1 catalog_item_variants -----------------------------------------------------------
+-- price / moq are nullable: NULL inherits the parent item's value. Visibility and price
+-- disclosure are never stored per variant; they always follow the parent item.
+CREATE TABLE IF NOT EXISTS public.catalog_item_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  catalog_item_id UUID NOT NULL REFERENCES public.catalog_items(id) ON DELETE CASCADE,
+  sku VARCHAR(100) NOT NULL,
+  label VARCHAR(255) NOT NULL,
+  color VARCHAR(100),
+  width_cm NUMERIC(6, 2),
+  finish VARCHAR(100),
+  price NUMERIC(10, 2),
+  moq INTEGER,
+  image_url TEXT,
+  attributes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT catalog_item_variants_tenant_sku_key UNIQUE (tenant_id, sku),
+  CONSTRAINT catalog_item_variants_price_non_negative CHECK (price IS NULL OR price >= 0),
+  CONSTRAINT catalog_item_variants_moq_positive CHECK (moq IS NULL OR moq >= 1),
+  CONSTRAINT catalog_item_variants_width_positive CHECK (width_cm IS NULL OR width_cm > 0)
+);
+
+CREATE INDEX IF NOT EXISTS catalog_item_variants_item_sort_idx
+  ON public.catalog_item_variants(catalog_item_id, sort_order);
+
+COMMENT ON TABLE public.catalog_item_variants IS 'Orderable variants (colourway, width, finish) of a parent catalog item. NULL price / moq inherit from the parent; visibility and price disclosure always follow the parent.';
+
+-- §2 variant references on cart, order and RFQ lines ---------------------------------
+-- Cart lines cascade with the variant (same as with the parent item); order and RFQ
+-- rows keep their snapshot and lose only the link.
+ALTER TABLE public.cart_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.catalog_item_variants(id) ON DELETE CASCADE;
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.catalog_item_variants(id) ON DELETE SET NULL;
+ALTER TABLE public.rfqs
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.catalog_item_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS cart_items_variant_id_idx ON public.cart_items(variant_id) WHERE variant_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_order_items_variant ON public.order_items(variant_id) WHERE variant_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS rfqs_variant_id_idx ON public.rfqs(variant_id) WHERE variant_id IS NOT NULL;
+
+-- One cart line per (item, variant): two variants of one item are separate lines, and
+-- the parent item without a variant remains its own line.
+DROP INDEX IF EXISTS public.cart_items_cart_id_catalog_item_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS cart_items_cart_item_no_variant_key
+  ON public.cart_items(cart_id, catalog_item_id) WHERE variant_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS cart_items_cart_item_variant_key
+  ON public.cart_items(cart_id, catalog_item_id, variant_id) WHERE variant_id IS NOT NULL;
+
+-- §3 RLS -----------------------------------------------------------------------------
+ALTER TABLE public.catalog_item_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.catalog_item_variants FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS catalog_item_variants_guard ON public.catalog_item_variants;
+CREATE POLICY catalog_item_variants_guard ON public.catalog_item_variants AS RESTRICTIVE FOR ALL TO texqtic_app USING (
+  app.require_org_context()
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS catalog_item_variants_select_unified ON public.catalog_item_variants;
+CREATE POLICY catalog_item_variants_select_unified ON public.catalog_item_variants AS PERMISSIVE FOR SELECT TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR current_setting('app.is_admin'::text, true) = 'true'::text
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS catalog_item_variants_insert_unified ON public.catalog_item_variants;
+CREATE POLICY catalog_item_variants_insert_unified ON public.catalog_item_variants AS PERMISSIVE FOR INSERT TO texqtic_app WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS catalog_item_variants_update_unified ON public.catalog_item_variants;
+CREATE POLICY catalog_item_variants_update_unified ON public.catalog_item_variants AS PERMISSIVE FOR UPDATE TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+) WITH CHECK (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+DROP POLICY IF EXISTS catalog_item_variants_delete_unified ON public.catalog_item_variants;
+CREATE POLICY catalog_item_variants_delete_unified ON public.catalog_item_variants AS PERMISSIVE FOR DELETE TO texqtic_app USING (
+  (app.require_org_context() AND tenant_id = app.current_org_id())
+  OR app.bypass_enabled()
+);
+
+-- §4 Grants --------------------------------------------------------------------------
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.catalog_item_variants TO texqtic_app;
+-- Buyer PDP and RFQ helpers read supplier variants alongside supplier catalog_items.
+GRANT SELECT ON public.catalog_item_variants TO texqtic_rfq_read;
+
+COMMIT;
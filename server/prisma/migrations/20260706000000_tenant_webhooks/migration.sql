@@ -0,0 +1,77 @@
+BEGIN;
+-- Domain owner: tenant integrations (tenant_webhook_subscriptions, tenant_webhook_deliveries)
+-- Plane: tenant webhook configuration (/api/tenant/webhooks) + 'webhook.fanout' / 'webhook.deliver' jobs
+-- Lifecycle: create (tenant_webhook_subscriptions, tenant_webhook_deliveries)
+-- Reason: tenant-configurable outbound webhooks for versioned trade, RFQ, order and pool
+--         domain events, with signing secret rotation, retry / backoff and a delivery log.
+-- Indexes: idx tenant_webhook_subscriptions(tenant_id), uq tenant_webhook_deliveries(subscription_id, event_id),
+--          idx tenant_webhook_deliveries(tenant_id, created_at), idx tenant_webhook_deliveries(subscription_id, created_at)
+-- RLS: no - the fan-out job reads the subscriptions of every audience org of an event (buyer and
+--      supplier are different tenants) on the service connection; configuration routes key every
+--      query by the caller's tenant_id, same posture as tenant_sso_connections
+
+-- §1 tenant_webhook_subscriptions -------------------------------------------------------
+-- Signing secrets are stored AES-256-GCM encrypted (v1:iv:tag:ciphertext envelope). After a
+-- rotation the previous secret keeps signing (second v1= signature) until previous_secret_expires_at.
+-- event_types: empty array = every webhook event type.
+CREATE TABLE IF NOT EXISTS public.tenant_webhook_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  url VARCHAR(1000) NOT NULL,
+  description VARCHAR(200),
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  secret_encrypted TEXT NOT NULL,
+  secret_hint VARCHAR(12) NOT NULL,
+  previous_secret_encrypted TEXT,
+  previous_secret_expires_at TIMESTAMPTZ,
+  secret_rotated_at TIMESTAMPTZ,
+  created_by_user_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT tenant_webhook_subscriptions_url_https CHECK (url LIKE 'https://%'),
+  CONSTRAINT tenant_webhook_subscriptions_previous_secret_shape CHECK (
+    (previous_secret_encrypted IS NULL) = (previous_secret_expires_at IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS tenant_webhook_subscriptions_tenant_id_idx
+  ON public.tenant_webhook_subscriptions(tenant_id);
+
+-- §2 tenant_webhook_deliveries ----------------------------------------------------------
+-- One row per (subscription, event). payload is the exact signed wire body; attempts and
+-- last_* columns are the delivery log shown in the tenant workspace.
+CREATE TABLE IF NOT EXISTS public.tenant_webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id UUID NOT NULL REFERENCES public.tenant_webhook_subscriptions(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL,
+  event_type VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL,
+  is_test BOOLEAN NOT NULL DEFAULT false,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_http_status INTEGER,
+  last_error VARCHAR(500),
+  last_duration_ms INTEGER,
+  last_attempt_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  dead_lettered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT tenant_webhook_deliveries_status_check CHECK (status IN ('PENDING', 'DELIVERED', 'DEAD_LETTER')),
+  CONSTRAINT tenant_webhook_deliveries_attempts_check CHECK (attempts >= 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS tenant_webhook_deliveries_subscription_id_event_id_key
+  ON public.tenant_webhook_deliveries(subscription_id, event_id);
+CREATE INDEX IF NOT EXISTS tenant_webhook_deliveries_tenant_id_created_at_idx
+  ON public.tenant_webhook_deliveries(tenant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS tenant_webhook_deliveries_subscription_id_created_at_idx
+  ON public.tenant_webhook_deliveries(subscription_id, created_at DESC);
+
+-- §3 Grants -----------------------------------------------------------------------------
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.tenant_webhook_subscriptions TO texqtic_app;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.tenant_webhook_deliveries TO texqtic_app;
+
+COMMIT;
@@ -0,0 +1,83 @@
+BEGIN;
+-- Domain owner: platform audit (audit_log_chain_entries, audit_log_chain_checkpoints)
+-- Plane: 'audit.chain.seal' job + /api/control/audit-logs/{verify,export} + /api/tenant/audit-logs/{verify,export}
+-- Lifecycle: create (audit_log_chain_entries, audit_log_chain_checkpoints, prevent_audit_chain_modification)
+-- Reason: tamper-evident audit trail. audit_logs rows are append-only for the application role, but a
+--         database superuser can still delete or rewrite history silently. Each audit row is sealed
+--         into a per-(realm, tenant) hash chain and the chain head is checkpointed with an Ed25519
+--         signature, so gaps and edits are detectable by the verifier and by holders of an export.
+-- Indexes: uq audit_log_chain_entries(chain_key, seq), uq audit_log_chain_entries(audit_log_id),
+--          idx audit_log_chain_entries(chain_key, audit_created_at), idx audit_log_chain_entries(audit_created_at),
+--          idx audit_log_chain_checkpoints(chain_key, seq)
+-- RLS: no - the seal job writes every chain under the admin context; tenant routes key every query by
+--      the caller's chain key (TENANT:<orgId>), same posture as tenant_webhook_subscriptions.
+--      Both tables are append-only: texqtic_app gets SELECT, INSERT only and a trigger rejects
+--      UPDATE / DELETE for every role.
+
+-- §1 audit_log_chain_entries -------------------------------------------------------------
+-- One row per sealed audit_logs row. entry_hash = sha256(prev_hash || '\n' || canonical row JSON);
+-- the first entry of a chain links to 64 zeros. audit_log_id deliberately has no foreign key:
+-- a deleted audit row must leave its entry behind so the verifier can report it.
+CREATE TABLE IF NOT EXISTS public.audit_log_chain_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chain_key VARCHAR(60) NOT NULL,
+  realm audit_realm NOT NULL,
+  tenant_id UUID,
+  seq INTEGER NOT NULL,
+  audit_log_id UUID NOT NULL,
+  audit_created_at TIMESTAMPTZ NOT NULL,
+  prev_hash CHAR(64) NOT NULL,
+  entry_hash CHAR(64) NOT NULL,
+  sealed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT audit_log_chain_entries_seq_check CHECK (seq >= 1)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS audit_log_chain_entries_chain_key_seq_key
+  ON public.audit_log_chain_entries(chain_key, seq);
+CREATE UNIQUE INDEX IF NOT EXISTS audit_log_chain_entries_audit_log_id_key
+  ON public.audit_log_chain_entries(audit_log_id);
+CREATE INDEX IF NOT EXISTS audit_log_chain_entries_chain_key_audit_created_at_idx
+  ON public.audit_log_chain_entries(chain_key, audit_created_at);
+CREATE INDEX IF NOT EXISTS audit_log_chain_entries_audit_created_at_idx
+  ON public.audit_log_chain_entries(audit_created_at);
+
+-- §2 audit_log_chain_checkpoints ---------------------------------------------------------
+-- Signed chain heads. signature is base64 Ed25519 over the checkpoint message
+-- (see lib/auditChainSigning.ts); key_id names the signing key.
+CREATE TABLE IF NOT EXISTS public.audit_log_chain_checkpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chain_key VARCHAR(60) NOT NULL,
+  seq INTEGER NOT NULL,
+  head_hash CHAR(64) NOT NULL,
+  key_id VARCHAR(32) NOT NULL,
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT audit_log_chain_checkpoints_seq_check CHECK (seq >= 1)
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_chain_checkpoints_chain_key_seq_idx
+  ON public.audit_log_chain_checkpoints(chain_key, seq);
+
+-- §3 Immutability --------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.prevent_audit_chain_modification() RETURNS TRIGGER LANGUAGE plpgsql AS $$ BEGIN RAISE EXCEPTION 'AUDIT_CHAIN_IMMUTABLE: audit chain rows are append-only. UPDATE and DELETE are unconditionally prohibited on table %.',
+  TG_TABLE_NAME USING ERRCODE = 'P0001';
+END;
+$$;
+
+COMMENT ON FUNCTION public.prevent_audit_chain_modification() IS 'Unconditional immutability backstop for audit_log_chain_entries and audit_log_chain_checkpoints. Fires BEFORE UPDATE OR DELETE regardless of caller role.';
+
+DROP TRIGGER IF EXISTS trg_immutable_audit_log_chain_entry ON public.audit_log_chain_entries;
+CREATE TRIGGER trg_immutable_audit_log_chain_entry BEFORE
+  UPDATE
+  OR DELETE ON public.audit_log_chain_entries FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_chain_modification();
+
+DROP TRIGGER IF EXISTS trg_immutable_audit_log_chain_checkpoint ON public.audit_log_chain_checkpoints;
+CREATE TRIGGER trg_immutable_audit_log_chain_checkpoint BEFORE
+  UPDATE
+  OR DELETE ON public.audit_log_chain_checkpoints FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_chain_modification();
+
+-- §4 Grants ------------------------------------------------------------------------------
+GRANT SELECT, INSERT ON public.audit_log_chain_entries TO texqtic_app;
+GRANT SELECT, INSERT ON public.audit_log_chain_checkpoints TO texqtic_app;
+
+COMMIT;
@@ -0,0 +1,159 @@
+BEGIN;
+-- Domain owner: event projections (supplier_performance_summaries, buyer_spend_monthly)
+-- Plane: analytics projector (events/handlers/analytics.projector.ts) + /api/tenant/analytics/*
+--        + supplier match signals + replay:analytics / projection:health:analytics
+-- Lifecycle: create (supplier_performance_summaries, buyer_spend_monthly)
+-- Reason: supplier responsiveness, pool quote win rate, on-time fulfilment and buyer spend were only
+--         derivable by scanning rfqs, trades and shipments per request. The projector keeps one
+--         recomputed row per supplier and one row per buyer spend bucket, rebuilt from source
+--         tables on each relevant domain event so a replay always converges.
+-- Indexes: uq supplier_performance_summaries(tenant_id), idx supplier_performance_summaries(last_updated_at),
+--          uq buyer_spend_monthly(tenant_id, month, supplier_org_id, category, currency),
+--          idx buyer_spend_monthly(tenant_id, month)
+-- RLS: yes - same posture as marketplace_cart_summaries: tenants read their own rows, the control
+--      plane reads with app.is_admin, only the projector (or the test bypass) writes. Buyer months are
+--      replaced as a whole, so buyer_spend_monthly also gets a projector DELETE policy and grant.
+
+-- §1 supplier_performance_summaries -------------------------------------------------------
+-- tenant_id is the supplier org. Counts cover the trailing window_days; response minutes are
+-- measured from RFQ submission to the supplier response.
+CREATE TABLE IF NOT EXISTS public.supplier_performance_summaries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  window_days INTEGER NOT NULL,
+  rfq_received_count INTEGER NOT NULL DEFAULT 0,
+  rfq_responded_count INTEGER NOT NULL DEFAULT 0,
+  responded_within_24h_count INTEGER NOT NULL DEFAULT 0,
+  response_minutes_median INTEGER,
+  response_minutes_avg INTEGER,
+  pool_quote_decided_count INTEGER NOT NULL DEFAULT 0,
+  pool_quote_won_count INTEGER NOT NULL DEFAULT 0,
+  fulfilment_due_count INTEGER NOT NULL DEFAULT 0,
+  fulfilment_on_time_count INTEGER NOT NULL DEFAULT 0,
+  last_event_id UUID,
+  version INTEGER NOT NULL DEFAULT 1,
+  last_updated_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT supplier_performance_summaries_window_days_check CHECK (window_days > 0),
+  CONSTRAINT supplier_performance_summaries_responded_check
+    CHECK (rfq_responded_count <= rfq_received_count AND responded_within_24h_count <= rfq_responded_count),
+  CONSTRAINT supplier_performance_summaries_pool_check CHECK (pool_quote_won_count <= pool_quote_decided_count),
+  CONSTRAINT supplier_performance_summaries_fulfilment_check CHECK (fulfilment_on_time_count <= fulfilment_due_count)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS supplier_performance_summaries_tenant_id_key
+  ON public.supplier_performance_summaries(tenant_id);
+CREATE INDEX IF NOT EXISTS supplier_performance_summaries_last_updated_at_idx
+  ON public.supplier_performance_summaries(last_updated_at);
+
+-- §2 buyer_spend_monthly -------------------------------------------------------------------
+-- tenant_id is the buyer org; month is the first day of the UTC month of trade creation.
+-- supplier_org_id deliberately has no foreign key: spend history outlives supplier offboarding.
+CREATE TABLE IF NOT EXISTS public.buyer_spend_monthly (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  month DATE NOT NULL,
+  supplier_org_id UUID NOT NULL,
+  category VARCHAR(50) NOT NULL,
+  currency TEXT NOT NULL,
+  trade_count INTEGER NOT NULL,
+  total_amount DECIMAL(18,6) NOT NULL,
+  last_event_id UUID,
+  last_updated_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT buyer_spend_monthly_month_check CHECK (month = date_trunc('month', month)::date),
+  CONSTRAINT buyer_spend_monthly_trade_count_check CHECK (trade_count > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS buyer_spend_monthly_tenant_id_month_supplier_org_id_category_currency_key
+  ON public.buyer_spend_monthly(tenant_id, month, supplier_org_id, category, currency);
+CREATE INDEX IF NOT EXISTS buyer_spend_monthly_tenant_id_month_idx
+  ON public.buyer_spend_monthly(tenant_id, month);
+
+-- §3 RLS: supplier_performance_summaries ---------------------------------------------------
+ALTER TABLE public.supplier_performance_summaries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_performance_summaries FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_select ON public.supplier_performance_summaries
+  FOR SELECT
+  USING (app.require_org_context() AND tenant_id = app.current_org_id());
+CREATE POLICY admin_select ON public.supplier_performance_summaries
+  FOR SELECT
+  USING (current_setting('app.is_admin', true) = 'true');
+CREATE POLICY projector_insert ON public.supplier_performance_summaries
+  FOR INSERT
+  WITH CHECK (app.projector_bypass_enabled());
+CREATE POLICY projector_update ON public.supplier_performance_summaries
+  FOR UPDATE
+  USING (app.projector_bypass_enabled())
+  WITH CHECK (app.projector_bypass_enabled());
+CREATE POLICY bypass_select ON public.supplier_performance_summaries
+  FOR SELECT
+  USING (app.bypass_enabled());
+CREATE POLICY bypass_operations ON public.supplier_performance_summaries
+  FOR ALL
+  WITH CHECK (app.bypass_enabled());
+CREATE POLICY restrictive_guard ON public.supplier_performance_summaries
+  AS RESTRICTIVE
+  FOR ALL
+  USING (
+    app.require_org_context()
+    OR app.projector_bypass_enabled()
+    OR app.bypass_enabled()
+    OR current_setting('app.is_admin', true) = 'true'
+  )
+  WITH CHECK (
+    app.require_org_context()
+    OR app.projector_bypass_enabled()
+    OR app.bypass_enabled()
+    OR current_setting('app.is_admin', true) = 'true'
+  );
+
+-- §4 RLS: buyer_spend_monthly --------------------------------------------------------------
+ALTER TABLE public.buyer_spend_monthly ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.buyer_spend_monthly FORCE ROW LEVEL SECURITY;
+
+CREATE POLICY tenant_select ON public.buyer_spend_monthly
+  FOR SELECT
+  USING (app.require_org_context() AND tenant_id = app.current_org_id());
+CREATE POLICY admin_select ON public.buyer_spend_monthly
+  FOR SELECT
+  USING (current_setting('app.is_admin', true) = 'true');
+CREATE POLICY projector_insert ON public.buyer_spend_monthly
+  FOR INSERT
+  WITH CHECK (app.projector_bypass_enabled());
+CREATE POLICY projector_update ON public.buyer_spend_monthly
+  FOR UPDATE
+  USING (app.projector_bypass_enabled())
+  WITH CHECK (app.projector_bypass_enabled());
+CREATE POLICY projector_delete ON public.buyer_spend_monthly
+  FOR DELETE
+  USING (app.projector_bypass_enabled());
+CREATE POLICY bypass_select ON public.buyer_spend_monthly
+  FOR SELECT
+  USING (app.bypass_enabled());
+CREATE POLICY bypass_operations ON public.buyer_spend_monthly
+  FOR ALL
+  WITH CHECK (app.bypass_enabled());
+CREATE POLICY restrictive_guard ON public.buyer_spend_monthly
+  AS RESTRICTIVE
+  FOR ALL
+  USING (
+    app.require_org_context()
+    OR app.projector_bypass_enabled()
+    OR app.bypass_enabled()
+    OR current_setting('app.is_admin', true) = 'true'
+  )
+  WITH CHECK (
+    app.require_org_context()
+    OR app.projector_bypass_enabled()
+    OR app.bypass_enabled()
+    OR current_setting('app.is_admin', true) = 'true'
+  );
+
+-- §5 Grants ------------------------------------------------------------------------------
+GRANT SELECT, INSERT, UPDATE ON public.supplier_performance_summaries TO texqtic_app;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.buyer_spend_monthly TO texqtic_app;
+
+COMMIT;
@@ -67,11 +67,16 @@ const REQUIRED_ENV_VARS = [
     validation: (val: string) => val.length >= 32,
     hint: 'Must be at least 32 characters long',
   },
-  {
-    name: 'GEMINI_API_KEY',
-    validation: (val: string) => val.length >= 10 && !val.includes('your-'),
-    hint: 'Must be a valid Gemini API key (get from https://aistudio.google.com/apikey)',
-  },
+  // Only needed when Gemini is the default AI provider (AI_PROVIDER unset or 'gemini').
+  ...((process.env.AI_PROVIDER ?? 'gemini') === 'gemini'
+    ? [
+        {
+          name: 'GEMINI_API_KEY',
+          validation: (val: string) => val.length >= 10 && !val.includes('your-'),
+          hint: 'Must be a valid Gemini API key (get from https://aistudio.google.com/apikey), or set AI_PROVIDER=fixture to run offline',
+        },
+      ]
+    : []),
 ];
 
 // Check for .env file existence
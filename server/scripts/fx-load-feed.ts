@@ -0,0 +1,90 @@
+/**
+ * FX Rate Feed Loader (FX-RATES-001)
+ *
+ * Loads a local rate file into fx_rates with source = FILE_FEED.
+ * File format (CSV, header required, any column order):
+ *   base_currency,quote_currency,rate,effective_date
+ *   USD,INR,83.1250,2026-06-27
+ *
+ * - The whole file is validated first; any invalid line aborts the load (exit 1).
+ * - Rows identical to a stored rate are skipped, so re-running the same file is safe.
+ * - A row that contradicts a stored rate (same pair + date, different rate) aborts
+ *   the load: fx_rates is insert-only, corrections go on a later effective date.
+ * - source_reference records the file name and its SHA-256 for the audit trail.
+ *
+ * Usage: pnpm fx:load-feed <path-to-csv> [--dry-run]
+ *    or: FX_FEED_FILE=<path> pnpm fx:load-feed
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { PrismaClient } from '@prisma/client';
+import {
+  FxRateConflictError,
+  FxRateService,
+  parseFxRateCsv,
+} from '../src/services/fx/fxRate.service.js';
+
+const prisma = new PrismaClient();
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const filePath = args.find(arg => !arg.startsWith('--')) ?? process.env.FX_FEED_FILE;
+
+  if (!filePath) {
+    console.error('Usage: pnpm fx:load-feed <path-to-csv> [--dry-run]  (or set FX_FEED_FILE)');
+    return 1;
+  }
+
+  const content = readFileSync(filePath, 'utf8');
+  const digest = createHash('sha256').update(content).digest('hex');
+  const sourceReference = `${basename(filePath)}#sha256:${digest.slice(0, 16)}`;
+
+  const parsed = parseFxRateCsv(content);
+  if (parsed.errors.length > 0) {
+    console.error(`❌ ${filePath}: ${parsed.errors.length} invalid line(s)`);
+    for (const error of parsed.errors) {
+      console.error(`   line ${error.line}: ${error.message}`);
+    }
+    return 1;
+  }
+
+  console.log(`📄 ${filePath}: ${parsed.rows.length} rate(s) — ${sourceReference}`);
+  if (dryRun) {
+    console.log('ℹ️  --dry-run: nothing written');
+    return 0;
+  }
+
+  try {
+    const result = await prisma.$transaction(tx =>
+      new FxRateService(tx as unknown as PrismaClient).recordRates({
+        rows: parsed.rows,
+        source: 'FILE_FEED',
+        sourceReference,
+      }),
+    );
+    console.log(`✅ inserted ${result.inserted.length}, unchanged ${result.unchanged}`);
+    return 0;
+  } catch (error) {
+    if (error instanceof FxRateConflictError) {
+      console.error(`❌ ${error.message}`);
+      for (const conflict of error.conflicts) {
+        console.error(`   ${conflict.baseCurrency}/${conflict.quoteCurrency} ${conflict.effectiveDate}`);
+      }
+      return 1;
+    }
+    throw error;
+  }
+}
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    console.error('❌ FX feed load failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
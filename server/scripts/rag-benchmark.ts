@@ -9,7 +9,8 @@
  *   pnpm exec tsx scripts/rag-benchmark.ts
  *
  * Environment variables required:
- *   GEMINI_API_KEY  — valid Gemini API key for embedding generation
+ *   GEMINI_API_KEY  — valid Gemini API key for embedding generation (unless AI_PROVIDER /
+ *                     AI_PROVIDER_TASK_OVERRIDES select another 'embedding' provider)
  *   DATABASE_URL    — Supabase connection string (read-only benchmark queries)
  *
  * Optional:
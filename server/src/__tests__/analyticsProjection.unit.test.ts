@@ -0,0 +1,429 @@
+/**
+ * Unit tests — Analytics projection (ANALYTICS-PROJECTIONS-001)
+ *
+ * Tests:
+ *   1. medianMinutes / monthStartUtc helpers
+ *   2. classifyFulfilment: on time, late, pending, open shipments; isFullPoolAward
+ *   3. computeSupplierPerformance: response counts, 24h band, split-award wins, fulfilment outcomes
+ *   4. computeBuyerSpendMonth: grouping by supplier, category, currency
+ *   5. projectBuyerSpendMonth: replace-by-month, idempotent skip
+ *   6. projectSupplierPerformance: create, version-locked update, idempotent skip
+ *   7. Handler tenant isolation (RFQ, pool award, trade)
+ *
+ * NOTE: Pure unit tests with an in-memory db mock. RLS of the projection tables is
+ * covered by the migration policies, not here.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+import type { DbClient } from '../events/projections/types.js';
+import type { EventEnvelope } from '../lib/events.js';
+import {
+  ANALYTICS_WINDOW_DAYS,
+  SPEND_CATEGORY_UNCATEGORISED,
+  analyticsProjectionHandler,
+  classifyFulfilment,
+  computeBuyerSpendMonth,
+  computeSupplierPerformance,
+  isFullPoolAward,
+  medianMinutes,
+  monthStartUtc,
+  projectBuyerSpendMonth,
+  projectSupplierPerformance,
+} from '../events/handlers/analytics.projector.js';
+
+const BUYER = '00000000-0000-0000-0000-00000000000b';
+const SUPPLIER = '00000000-0000-0000-0000-00000000000a';
+const OTHER_SUPPLIER = '00000000-0000-0000-0000-0000000000c0';
+const OUTSIDER = '00000000-0000-0000-0000-0000000000ff';
+const AS_OF = new Date('2026-06-15T12:00:00Z');
+
+/** A priced pool quote line with the quantities awarded on it. */
+function quoteLine(quotedQty: string, ...awardedQtys: string[]) {
+  return {
+    quotedQty: new Prisma.Decimal(quotedQty),
+    awards: awardedQtys.map(qty => ({ awardedQty: new Prisma.Decimal(qty) })),
+  };
+}
+
+// Accepted whole (no line awards) vs. split-awarded in full vs. split-awarded in part
+const fullAward = { lines: [quoteLine('100'), quoteLine('50')] };
+const fullSplitAward = { lines: [quoteLine('100', '60', '40'), quoteLine('50', '50')] };
+const partialSplitAward = { lines: [quoteLine('100', '60'), quoteLine('50')] };
+
+// ── db mock factory ───────────────────────────────────────────────────────────
+
+function makeDb(overrides: {
+  rfqs?: unknown[];
+  submittedEvents?: unknown[];
+  decidedQuotes?: number;
+  acceptedQuotes?: unknown[];
+  quotes?: unknown[];
+  sellerTrades?: unknown[];
+  buyerTrades?: unknown[];
+  trade?: unknown;
+  summary?: unknown;
+  spendApplied?: unknown;
+} = {}) {
+  const db = {
+    rfq: { findMany: vi.fn().mockResolvedValue(overrides.rfqs ?? []) },
+    eventLog: { findMany: vi.fn().mockResolvedValue(overrides.submittedEvents ?? []) },
+    networkPoolRfqSupplierQuote: {
+      count: vi.fn().mockResolvedValue(overrides.decidedQuotes ?? 0),
+      findMany: vi.fn().mockImplementation(({ where }: { where: { status?: string } }) =>
+        Promise.resolve(where.status === 'ACCEPTED' ? overrides.acceptedQuotes ?? [] : overrides.quotes ?? [])
+      ),
+    },
+    trade: {
+      findMany: vi.fn().mockImplementation(({ where }: { where: { buyerOrgId?: string } }) =>
+        Promise.resolve(where.buyerOrgId ? overrides.buyerTrades ?? [] : overrides.sellerTrades ?? [])
+      ),
+      findUnique: vi.fn().mockResolvedValue(overrides.trade ?? null),
+    },
+    supplierPerformanceSummary: {
+      findUnique: vi.fn().mockResolvedValue(overrides.summary ?? null),
+      create: vi.fn().mockResolvedValue({}),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    buyerSpendMonthly: {
+      findFirst: vi.fn().mockResolvedValue(overrides.spendApplied ?? null),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+      createMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+  };
+  return { db, client: db as unknown as DbClient };
+}
+
+function makeEvent(name: string, tenantId: string | null, payload: Prisma.JsonValue): EventEnvelope {
+  return {
+    id: '11111111-1111-1111-1111-111111111111',
+    version: 'v1',
+    name,
+    occurredAt: AS_OF.toISOString(),
+    tenantId,
+    realm: 'TENANT',
+    actor: { type: 'USER', id: null },
+    entity: { type: name.split('.')[0], id: '22222222-2222-2222-2222-222222222222' },
+    payload,
+    metadata: {},
+  } as EventEnvelope;
+}
+
+// ── 1. Helpers ────────────────────────────────────────────────────────────────
+
+describe('medianMinutes / monthStartUtc', () => {
+  it('returns null for no samples', () => {
+    expect(medianMinutes([])).toBeNull();
+  });
+
+  it('returns the middle value of an odd sample and the rounded mean of an even one', () => {
+    expect(medianMinutes([30, 10, 20])).toBe(20);
+    expect(medianMinutes([10, 20, 25, 40])).toBe(23);
+  });
+
+  it('truncates to the first day of the UTC month', () => {
+    expect(monthStartUtc(new Date('2026-03-31T23:59:59Z')).toISOString()).toBe('2026-03-01T00:00:00.000Z');
+  });
+});
+
+// ── 2. classifyFulfilment ─────────────────────────────────────────────────────
+
+describe('classifyFulfilment', () => {
+  const due = new Date('2026-06-10T00:00:00Z');
+
+  it('is ON_TIME when the last delivery is on the due date', () => {
+    expect(
+      classifyFulfilment(due, [
+        { status: 'DELIVERED', deliveredAt: new Date('2026-06-08T09:00:00Z') },
+        { status: 'DELIVERED', deliveredAt: new Date('2026-06-10T23:00:00Z') },
+      ], AS_OF)
+    ).toBe('ON_TIME');
+  });
+
+  it('is LATE when the last delivery is after the due date', () => {
+    expect(
+      classifyFulfilment(due, [{ status: 'DELIVERED', deliveredAt: new Date('2026-06-11T00:30:00Z') }], AS_OF)
+    ).toBe('LATE');
+  });
+
+  it('is LATE when still open after the due date and PENDING before it', () => {
+    const shipments = [
+      { status: 'DELIVERED', deliveredAt: new Date('2026-06-01T00:00:00Z') },
+      { status: 'DISPATCHED', deliveredAt: null },
+    ];
+    expect(classifyFulfilment(due, shipments, AS_OF)).toBe('LATE');
+    expect(classifyFulfilment(due, shipments, new Date('2026-06-09T00:00:00Z'))).toBe('PENDING');
+  });
+
+  it('is PENDING without shipments before the due date', () => {
+    expect(classifyFulfilment(due, [], new Date('2026-06-10T12:00:00Z'))).toBe('PENDING');
+  });
+});
+
+describe('isFullPoolAward', () => {
+  it('counts a quote accepted whole, with or without priced lines', () => {
+    expect(isFullPoolAward(fullAward.lines)).toBe(true);
+    expect(isFullPoolAward([])).toBe(true);
+  });
+
+  it('counts a split award only when every quoted line got its full qty', () => {
+    expect(isFullPoolAward(fullSplitAward.lines)).toBe(true);
+    expect(isFullPoolAward(partialSplitAward.lines)).toBe(false);
+    expect(isFullPoolAward([quoteLine('100', '99.5'), quoteLine('50', '50')])).toBe(false);
+  });
+});
+
+// ── 3. computeSupplierPerformance ─────────────────────────────────────────────
+
+describe('computeSupplierPerformance', () => {
+  it('measures responses from the rfq.submitted event, falling back to creation time', async () => {
+    const { db, client } = makeDb({
+      rfqs: [
+        { id: 'r1', createdAt: new Date('2026-06-01T00:00:00Z'), supplierResponse: { submittedAt: new Date('2026-06-02T10:00:00Z') } },
+        { id: 'r2', createdAt: new Date('2026-06-03T00:00:00Z'), supplierResponse: { submittedAt: new Date('2026-06-03T02:00:00Z') } },
+        { id: 'r3', createdAt: new Date('2026-06-04T00:00:00Z'), supplierResponse: null },
+      ],
+      // r1 was submitted 12h after creation, so its response took 22h
+      submittedEvents: [{ entityId: 'r1', occurredAt: new Date('2026-06-01T12:00:00Z') }],
+      decidedQuotes: 4,
+      acceptedQuotes: [fullAward],
+      sellerTrades: [
+        { sourceRfq: { targetDeliveryDate: new Date('2026-06-01T00:00:00Z') }, shipments: [{ status: 'DELIVERED', deliveredAt: new Date('2026-05-30T00:00:00Z') }] },
+        { sourceRfq: { targetDeliveryDate: new Date('2026-06-01T00:00:00Z') }, shipments: [] },
+        { sourceRfq: { targetDeliveryDate: new Date('2026-07-01T00:00:00Z') }, shipments: [] },
+      ],
+    });
+
+    const metrics = await computeSupplierPerformance(client, SUPPLIER, AS_OF);
+
+    expect(metrics).toEqual({
+      windowDays: ANALYTICS_WINDOW_DAYS,
+      rfqReceivedCount: 3,
+      rfqRespondedCount: 2,
+      respondedWithin24hCount: 2,
+      responseMinutesMedian: 720,
+      responseMinutesAvg: 720,
+      poolQuoteDecidedCount: 4,
+      poolQuoteWonCount: 1,
+      fulfilmentDueCount: 2,
+      fulfilmentOnTimeCount: 1,
+    });
+    expect(db.rfq.findMany.mock.calls[0][0].where).toMatchObject({
+      supplierOrgId: SUPPLIER,
+      status: { not: 'INITIATED' },
+    });
+  });
+
+  it('counts split awards as won only when the quote was awarded in full', async () => {
+    const { db, client } = makeDb({
+      decidedQuotes: 5,
+      acceptedQuotes: [fullAward, fullSplitAward, partialSplitAward],
+    });
+
+    const metrics = await computeSupplierPerformance(client, SUPPLIER, AS_OF);
+
+    expect(metrics.poolQuoteDecidedCount).toBe(5);
+    expect(metrics.poolQuoteWonCount).toBe(2);
+    expect(db.networkPoolRfqSupplierQuote.findMany.mock.calls[0][0].where).toMatchObject({
+      supplierOrgId: SUPPLIER,
+      status: 'ACCEPTED',
+    });
+  });
+
+  it('skips the event log lookup and reports null times without RFQs', async () => {
+    const { db, client } = makeDb();
+    const metrics = await computeSupplierPerformance(client, SUPPLIER, AS_OF);
+    expect(db.eventLog.findMany).not.toHaveBeenCalled();
+    expect(metrics.responseMinutesMedian).toBeNull();
+    expect(metrics.responseMinutesAvg).toBeNull();
+  });
+});
+
+// ── 4. computeBuyerSpendMonth ─────────────────────────────────────────────────
+
+describe('computeBuyerSpendMonth', () => {
+  it('groups trades by supplier, category and currency with exact decimal totals', async () => {
+    const fabric = { catalogItem: { productCategory: 'FABRIC' } };
+    const { db, client } = makeDb({
+      buyerTrades: [
+        { sellerOrgId: SUPPLIER, currency: 'USD', grossAmount: new Prisma.Decimal('100.10'), sourceRfq: fabric },
+        { sellerOrgId: SUPPLIER, currency: 'USD', grossAmount: new Prisma.Decimal('0.20'), sourceRfq: fabric },
+        { sellerOrgId: SUPPLIER, currency: 'EUR', grossAmount: new Prisma.Decimal('50'), sourceRfq: fabric },
+        { sellerOrgId: OTHER_SUPPLIER, currency: 'USD', grossAmount: new Prisma.Decimal('7'), sourceRfq: null },
+      ],
+    });
+    const month = new Date('2026-05-01T00:00:00Z');
+
+    const buckets = await computeBuyerSpendMonth(client, BUYER, month);
+
+    expect(buckets.map(b => ({ ...b, totalAmount: b.totalAmount.toString() }))).toEqual([
+      { supplierOrgId: SUPPLIER, category: 'FABRIC', currency: 'EUR', tradeCount: 1, totalAmount: '50' },
+      { supplierOrgId: SUPPLIER, category: 'FABRIC', currency: 'USD', tradeCount: 2, totalAmount: '100.3' },
+      { supplierOrgId: OTHER_SUPPLIER, category: SPEND_CATEGORY_UNCATEGORISED, currency: 'USD', tradeCount: 1, totalAmount: '7' },
+    ]);
+    expect(db.trade.findMany.mock.calls[0][0].where).toEqual({
+      buyerOrgId: BUYER,
+      createdAt: { gte: month, lt: new Date('2026-06-01T00:00:00Z') },
+      lifecycleState: { stateKey: { not: 'CANCELLED' } },
+    });
+  });
+});
+
+// ── 5. projectBuyerSpendMonth ─────────────────────────────────────────────────
+
+describe('projectBuyerSpendMonth', () => {
+  const month = new Date('2026-05-01T00:00:00Z');
+  const event = { id: '11111111-1111-1111-1111-111111111111', occurredAt: AS_OF.toISOString() };
+
+  it('replaces the month with the recomputed buckets', async () => {
+    const { db, client } = makeDb({
+      buyerTrades: [
+        { sellerOrgId: SUPPLIER, currency: 'USD', grossAmount: new Prisma.Decimal('10'), sourceRfq: null },
+      ],
+    });
+
+    await expect(projectBuyerSpendMonth(client, BUYER, month, event)).resolves.toBe('applied');
+
+    expect(db.buyerSpendMonthly.deleteMany).toHaveBeenCalledWith({ where: { tenantId: BUYER, month } });
+    const { data } = db.buyerSpendMonthly.createMany.mock.calls[0][0];
+    expect(data).toHaveLength(1);
+    expect(data[0]).toMatchObject({ tenantId: BUYER, month, supplierOrgId: SUPPLIER, lastEventId: event.id });
+  });
+
+  it('clears the month without inserting when no trades remain', async () => {
+    const { db, client } = makeDb();
+    await projectBuyerSpendMonth(client, BUYER, month, event);
+    expect(db.buyerSpendMonthly.deleteMany).toHaveBeenCalledOnce();
+    expect(db.buyerSpendMonthly.createMany).not.toHaveBeenCalled();
+  });
+
+  it('skips a month the event was already applied to', async () => {
+    const { db, client } = makeDb({ spendApplied: { id: 'row' } });
+    await expect(projectBuyerSpendMonth(client, BUYER, month, event)).resolves.toBe('skipped');
+    expect(db.trade.findMany).not.toHaveBeenCalled();
+    expect(db.buyerSpendMonthly.deleteMany).not.toHaveBeenCalled();
+  });
+});
+
+// ── 6. projectSupplierPerformance ─────────────────────────────────────────────
+
+describe('projectSupplierPerformance', () => {
+  const event = { id: '11111111-1111-1111-1111-111111111111', occurredAt: AS_OF.toISOString() };
+
+  it('creates the summary on first sight', async () => {
+    const { db, client } = makeDb();
+    await expect(projectSupplierPerformance(client, SUPPLIER, event, AS_OF)).resolves.toBe('applied');
+    expect(db.supplierPerformanceSummary.create.mock.calls[0][0].data).toMatchObject({
+      tenantId: SUPPLIER,
+      lastEventId: event.id,
+      version: 1,
+    });
+  });
+
+  it('updates under the version lock', async () => {
+    const { db, client } = makeDb({ summary: { id: 'sum-1', lastEventId: 'older', version: 3 } });
+    await projectSupplierPerformance(client, SUPPLIER, event, AS_OF);
+    const args = db.supplierPerformanceSummary.update.mock.calls[0][0];
+    expect(args.where).toEqual({ id: 'sum-1', version: 3 });
+    expect(args.data).toMatchObject({ lastEventId: event.id, version: 4 });
+  });
+
+  it('skips an event already applied', async () => {
+    const { db, client } = makeDb({ summary: { id: 'sum-1', lastEventId: event.id, version: 3 } });
+    await expect(projectSupplierPerformance(client, SUPPLIER, event, AS_OF)).resolves.toBe('skipped');
+    expect(db.rfq.findMany).not.toHaveBeenCalled();
+    expect(db.supplierPerformanceSummary.update).not.toHaveBeenCalled();
+  });
+});
+
+// ── 7. Handler tenant isolation ───────────────────────────────────────────────
+
+describe('analyticsProjectionHandler', () => {
+  it('rebuilds the supplier summary for an RFQ event from a party', async () => {
+    const { db, client } = makeDb();
+    const result = await analyticsProjectionHandler(
+      client,
+      makeEvent('rfq.responded.v1', SUPPLIER, { buyerOrgId: BUYER, supplierOrgId: SUPPLIER })
+    );
+    expect(result.success).toBe(true);
+    expect(db.supplierPerformanceSummary.create.mock.calls[0][0].data.tenantId).toBe(SUPPLIER);
+  });
+
+  it('rejects an RFQ event emitted by an org that is not a party', async () => {
+    const { db, client } = makeDb();
+    const result = await analyticsProjectionHandler(
+      client,
+      makeEvent('rfq.submitted.v1', OUTSIDER, { buyerOrgId: BUYER, supplierOrgId: SUPPLIER })
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/isolation violation/);
+    expect(db.supplierPerformanceSummary.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('rejects events without tenantId', async () => {
+    const { client } = makeDb();
+    const result = await analyticsProjectionHandler(
+      client,
+      makeEvent('rfq.submitted.v1', null, { buyerOrgId: BUYER, supplierOrgId: SUPPLIER })
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/tenantId/);
+  });
+
+  it('scopes pool award quotes to the emitting pool owner and rebuilds each supplier', async () => {
+    const { db, client } = makeDb({
+      quotes: [{ supplierOrgId: SUPPLIER }, { supplierOrgId: OTHER_SUPPLIER }],
+    });
+    const result = await analyticsProjectionHandler(
+      client,
+      makeEvent('pool.quote.awarded.v1', BUYER, { rfqId: 'pool-rfq-1' })
+    );
+    expect(result.success).toBe(true);
+    expect(db.networkPoolRfqSupplierQuote.findMany.mock.calls[0][0].where).toEqual({
+      rfqId: 'pool-rfq-1',
+      ownerOrgId: BUYER,
+    });
+    expect(db.supplierPerformanceSummary.create.mock.calls.map(call => call[0].data.tenantId)).toEqual([
+      SUPPLIER,
+      OTHER_SUPPLIER,
+    ]);
+  });
+
+  it('rebuilds seller summary and buyer month for a trade transition', async () => {
+    const { db, client } = makeDb({
+      trade: { tenantId: BUYER, buyerOrgId: BUYER, sellerOrgId: SUPPLIER, createdAt: new Date('2026-04-20T08:00:00Z') },
+    });
+    const result = await analyticsProjectionHandler(
+      client,
+      makeEvent('trade.state_changed.v1', SUPPLIER, { entityId: 'trade-1' })
+    );
+    expect(result.success).toBe(true);
+    expect(db.supplierPerformanceSummary.create.mock.calls[0][0].data.tenantId).toBe(SUPPLIER);
+    expect(db.buyerSpendMonthly.deleteMany).toHaveBeenCalledWith({
+      where: { tenantId: BUYER, month: new Date('2026-04-01T00:00:00Z') },
+    });
+  });
+
+  it('rejects a trade transition emitted by an org outside the trade', async () => {
+    const { db, client } = makeDb({
+      trade: { tenantId: BUYER, buyerOrgId: BUYER, sellerOrgId: SUPPLIER, createdAt: AS_OF },
+    });
+    const result = await analyticsProjectionHandler(
+      client,
+      makeEvent('trade.state_changed.v1', OUTSIDER, { entityId: 'trade-1' })
+    );
+    expect(result.success).toBe(false);
+    expect(db.supplierPerformanceSummary.findUnique).not.toHaveBeenCalled();
+    expect(db.buyerSpendMonthly.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('reports an idempotent skip when every row already saw the event', async () => {
+    const { client } = makeDb({
+      summary: { id: 'sum-1', lastEventId: '11111111-1111-1111-1111-111111111111', version: 1 },
+    });
+    const result = await analyticsProjectionHandler(
+      client,
+      makeEvent('rfq.responded.v1', BUYER, { buyerOrgId: BUYER, supplierOrgId: SUPPLIER })
+    );
+    expect(result).toMatchObject({ success: true, skipped: true });
+  });
+});
@@ -0,0 +1,523 @@
+/**
+ * Unit Tests — Audit Log Chain (hashing, signing, seal, verify, export)
+ * AUDIT-CHAIN-001
+ *
+ * Runs against an in-memory stand-in for audit_logs and the two chain tables —
+ * no real database. withAdminContext is mocked to run the callback on that stand-in.
+ *
+ * Test IDs:
+ *   AC-01  canonicalJson / computeAuditChainHash — key order independent, content sensitive
+ *   AC-02  signAuditCheckpoint / verifyAuditCheckpoint — round trip, tamper
+ *   AC-03  sealAuditChains — per-chain seq + links, idempotent, checkpoint interval
+ *   AC-04  verifyAuditChain — INTACT / EMPTY, edited row, deleted row, gap, truncation, bad checkpoint
+ *   AC-05  verifyAuditChain — stale unsealed rows are a warning only
+ *   AC-06  buildAuditExportBundle — JSONL + manifest digests, manifest signature, range limits
+ */
+
+vi.mock('../config/index.js', () => ({
+  config: {
+    JWT_ACCESS_SECRET: 'unit-test-access-secret-at-least-32-chars',
+    AUDIT_CHAIN_SIGNING_KEY: undefined as string | undefined,
+    AUDIT_CHAIN_CHECKPOINT_INTERVAL_MS: 3_600_000,
+  },
+}));
+
+vi.mock('../lib/database-context.js', () => ({
+  withAdminContext: (db: unknown, callback: (tx: unknown) => Promise<unknown>) => callback(db),
+}));
+
+import { createHash } from 'node:crypto';
+import { inflateRawSync } from 'node:zlib';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AuditLog, PrismaClient } from '@prisma/client';
+import {
+  AUDIT_CHAIN_GENESIS_HASH,
+  canonicalJson,
+  computeAuditChainHash,
+  getAuditChainSigningKey,
+  signAuditCheckpoint,
+  verifyAuditCheckpoint,
+  verifyAuditManifest,
+} from '../lib/auditChainSigning.js';
+import {
+  AUDIT_CHAIN_UNSEALED_GRACE_MS,
+  AuditExportRangeError,
+  auditChainKey,
+  buildAuditExportBundle,
+  sealAuditChains,
+  toAuditChainRecord,
+  verifyAuditChain,
+} from '../services/auditChain/auditChain.service.js';
+import type { AuditChainRef } from '../services/auditChain/auditChain.types.js';
+
+// ─── In-memory audit store ────────────────────────────────────────────────────
+
+const TENANT_A = '11111111-1111-4111-8111-111111111111';
+const TENANT_B = '22222222-2222-4222-8222-222222222222';
+const T0 = new Date('2026-03-01T00:00:00.000Z');
+
+interface EntryRow {
+  chainKey: string;
+  realm: string;
+  tenantId: string | null;
+  seq: number;
+  auditLogId: string;
+  auditCreatedAt: Date;
+  prevHash: string;
+  entryHash: string;
+  sealedAt: Date;
+}
+
+interface CheckpointRow {
+  chainKey: string;
+  seq: number;
+  headHash: string;
+  keyId: string;
+  signature: string;
+  createdAt: Date;
+}
+
+interface SeqFilter {
+  gt?: number;
+  gte?: number;
+  lte?: number;
+}
+
+function matchesSeq(seq: number, filter?: SeqFilter): boolean {
+  if (!filter) return true;
+  if (filter.gt !== undefined && !(seq > filter.gt)) return false;
+  if (filter.gte !== undefined && !(seq >= filter.gte)) return false;
+  if (filter.lte !== undefined && !(seq <= filter.lte)) return false;
+  return true;
+}
+
+function bySeq<T extends { seq: number }>(rows: T[], direction: 'asc' | 'desc' = 'asc'): T[] {
+  return [...rows].sort((a, b) => (direction === 'asc' ? a.seq - b.seq : b.seq - a.seq));
+}
+
+function makeStore() {
+  const auditLogs: AuditLog[] = [];
+  const entries: EntryRow[] = [];
+  const checkpoints: CheckpointRow[] = [];
+  const isSealed = (id: string) => entries.some(entry => entry.auditLogId === id);
+
+  const db = {
+    $executeRaw: vi.fn().mockResolvedValue(0),
+    $queryRaw: vi.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const sql = strings.join('?');
+      if (sql.includes('LIMIT')) {
+        const limit = values[values.length - 1] as number;
+        return auditLogs
+          .filter(row => !isSealed(row.id))
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id))
+          .slice(0, limit)
+          .map(row => ({ id: row.id, realm: row.realm, tenantId: row.tenantId }));
+      }
+      const [realm, tenantId, before] = values as [string, string | null, Date];
+      const count = auditLogs.filter(
+        row =>
+          row.realm === realm &&
+          row.tenantId === tenantId &&
+          row.createdAt < before &&
+          !isSealed(row.id),
+      ).length;
+      return [{ count }];
+    }),
+    auditLog: {
+      findMany: vi.fn(async ({ where }: { where: { id: { in: string[] } } }) =>
+        auditLogs.filter(row => where.id.in.includes(row.id)).map(row => ({ ...row })),
+      ),
+    },
+    auditLogChainEntry: {
+      findMany: vi.fn(
+        async ({ where, take }: { where: { chainKey?: string; seq?: SeqFilter; auditLogId?: { in: string[] } }; take?: number }) => {
+          let rows = entries.filter(
+            entry =>
+              (where.chainKey === undefined || entry.chainKey === where.chainKey) &&
+              (where.auditLogId === undefined || where.auditLogId.in.includes(entry.auditLogId)) &&
+              matchesSeq(entry.seq, where.seq),
+          );
+          rows = bySeq(rows);
+          return take === undefined ? rows : rows.slice(0, take);
+        },
+      ),
+      findFirst: vi.fn(async ({ where }: { where: { chainKey: string } }) =>
+        bySeq(entries.filter(entry => entry.chainKey === where.chainKey), 'desc')[0] ?? null,
+      ),
+      createMany: vi.fn(async ({ data }: { data: EntryRow[] }) => {
+        entries.push(...data.map(row => ({ ...row })));
+        return { count: data.length };
+      }),
+      aggregate: vi.fn(async ({ where }: { where: { chainKey: string; auditCreatedAt: { gte: Date; lt: Date } } }) => {
+        const seqs = entries
+          .filter(
+            entry =>
+              entry.chainKey === where.chainKey &&
+              entry.auditCreatedAt >= where.auditCreatedAt.gte &&
+              entry.auditCreatedAt < where.auditCreatedAt.lt,
+          )
+          .map(entry => entry.seq);
+        return {
+          _min: { seq: seqs.length ? Math.min(...seqs) : null },
+          _max: { seq: seqs.length ? Math.max(...seqs) : null },
+        };
+      }),
+    },
+    auditLogChainCheckpoint: {
+      findFirst: vi.fn(async ({ where }: { where: { chainKey: string } }) =>
+        bySeq(checkpoints.filter(checkpoint => checkpoint.chainKey === where.chainKey), 'desc')[0] ?? null,
+      ),
+      findMany: vi.fn(async ({ where }: { where: { chainKey: string; seq?: SeqFilter } }) =>
+        bySeq(checkpoints.filter(checkpoint => checkpoint.chainKey === where.chainKey && matchesSeq(checkpoint.seq, where.seq))),
+      ),
+      create: vi.fn(async ({ data }: { data: CheckpointRow }) => {
+        checkpoints.push({ ...data });
+        return data;
+      }),
+    },
+  };
+
+  let counter = 0;
+  function addAudit(partial: Partial<AuditLog> & { createdAt: Date }): AuditLog {
+    counter += 1;
+    const row: AuditLog = {
+      id: `00000000-0000-4000-8000-${String(counter).padStart(12, '0')}`,
+      realm: 'TENANT',
+      tenantId: TENANT_A,
+      actorId: null,
+      actorType: 'USER',
+      action: `ACTION_${counter}`,
+      entity: 'trade',
+      entityId: null,
+      beforeJson: null,
+      afterJson: null,
+      metadataJson: { n: counter },
+      reasoningLogId: null,
+      ...partial,
+    };
+    auditLogs.push(row);
+    return row;
+  }
+
+  return { db, auditLogs, entries, checkpoints, addAudit, client: db as unknown as PrismaClient };
+}
+
+const minutes = (n: number) => new Date(T0.getTime() + n * 60_000);
+const tenantA: AuditChainRef = { realm: 'TENANT', tenantId: TENANT_A };
+
+// ─── Minimal ZIP reader (central directory, deflated entries) ────────────────
+
+function unzip(archive: Buffer): Map<string, string> {
+  const eocd = archive.length - 22;
+  const count = archive.readUInt16LE(eocd + 10);
+  let offset = archive.readUInt32LE(eocd + 16);
+  const files = new Map<string, string>();
+  for (let n = 0; n < count; n += 1) {
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    files.set(name, inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize)).toString('utf8'));
+    offset += 46 + nameLength + archive.readUInt16LE(offset + 30) + archive.readUInt16LE(offset + 32);
+  }
+  return files;
+}
+
+// ─── AC-01 ────────────────────────────────────────────────────────────────────
+
+describe('AC-01 canonicalJson / computeAuditChainHash', () => {
+  it('sorts keys recursively and drops undefined members', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { z: true, y: null }], c: undefined } })).toBe(
+      '{"a":{"d":[1,{"y":null,"z":true}]},"b":1}',
+    );
+    expect(canonicalJson(new Date('2026-03-01T00:00:00Z'))).toBe('"2026-03-01T00:00:00.000Z"');
+  });
+
+  it('hashes prevHash + newline + canonical JSON independent of key order', () => {
+    const expected = createHash('sha256').update(`${AUDIT_CHAIN_GENESIS_HASH}\n{"a":1,"b":2}`).digest('hex');
+    expect(computeAuditChainHash(AUDIT_CHAIN_GENESIS_HASH, { b: 2, a: 1 })).toBe(expected);
+    expect(computeAuditChainHash(AUDIT_CHAIN_GENESIS_HASH, { a: 1, b: 3 })).not.toBe(expected);
+    expect(computeAuditChainHash('f'.repeat(64), { a: 1, b: 2 })).not.toBe(expected);
+  });
+});
+
+// ─── AC-02 ────────────────────────────────────────────────────────────────────
+
+describe('AC-02 checkpoint signatures', () => {
+  it('verifies its own signature and rejects a changed head', () => {
+    const head = { chainKey: 'TENANT:x', seq: 7, headHash: 'a'.repeat(64) };
+    const { keyId, signature } = signAuditCheckpoint(head);
+
+    expect(keyId).toBe(getAuditChainSigningKey().keyId);
+    expect(keyId).toMatch(/^[0-9a-f]{16}$/);
+    expect(verifyAuditCheckpoint(head, signature)).toBe(true);
+    expect(verifyAuditCheckpoint({ ...head, seq: 6 }, signature)).toBe(false);
+    expect(verifyAuditCheckpoint({ ...head, headHash: 'b'.repeat(64) }, signature)).toBe(false);
+    expect(verifyAuditCheckpoint(head, 'not-a-signature')).toBe(false);
+  });
+});
+
+// ─── AC-03 ────────────────────────────────────────────────────────────────────
+
+describe('AC-03 sealAuditChains', () => {
+  let store: ReturnType<typeof makeStore>;
+
+  beforeEach(() => {
+    store = makeStore();
+  });
+
+  it('appends rows to one chain per (realm, tenant) in created_at order', async () => {
+    const second = store.addAudit({ createdAt: minutes(2) });
+    const first = store.addAudit({ createdAt: minutes(1) });
+    store.addAudit({ createdAt: minutes(1), tenantId: TENANT_B });
+    store.addAudit({ createdAt: minutes(3), realm: 'ADMIN', tenantId: null, actorType: 'ADMIN' });
+
+    const result = await sealAuditChains(store.client, { now: minutes(10) });
+
+    expect(result).toEqual({ chainsAdvanced: 3, entriesSealed: 4, checkpointsWritten: 3, moreRemaining: false });
+
+    const chainA = store.entries.filter(entry => entry.chainKey === auditChainKey(tenantA));
+    expect(chainA.map(entry => [entry.seq, entry.auditLogId])).toEqual([
+      [1, first.id],
+      [2, second.id],
+    ]);
+    expect(chainA[0].prevHash).toBe(AUDIT_CHAIN_GENESIS_HASH);
+    expect(chainA[1].prevHash).toBe(chainA[0].entryHash);
+    expect(chainA[1].entryHash).toBe(computeAuditChainHash(chainA[0].entryHash, toAuditChainRecord(second)));
+
+    expect(store.entries.map(entry => entry.chainKey).sort()).toEqual([
+      'ADMIN:platform',
+      `TENANT:${TENANT_A}`,
+      `TENANT:${TENANT_A}`,
+      `TENANT:${TENANT_B}`,
+    ]);
+    expect(store.db.$executeRaw).toHaveBeenCalledTimes(3);
+  });
+
+  it('is idempotent and only checkpoints again after the interval', async () => {
+    store.addAudit({ createdAt: minutes(1) });
+    await sealAuditChains(store.client, { now: minutes(10) });
+
+    const rerun = await sealAuditChains(store.client, { now: minutes(11) });
+    expect(rerun.entriesSealed).toBe(0);
+
+    store.addAudit({ createdAt: minutes(12) });
+    const withinInterval = await sealAuditChains(store.client, { now: minutes(20) });
+    expect(withinInterval).toMatchObject({ entriesSealed: 1, checkpointsWritten: 0 });
+
+    store.addAudit({ createdAt: minutes(70) });
+    const afterInterval = await sealAuditChains(store.client, { now: minutes(75) });
+    expect(afterInterval).toMatchObject({ entriesSealed: 1, checkpointsWritten: 1 });
+
+    expect(store.entries.map(entry => entry.seq)).toEqual([1, 2, 3]);
+    expect(store.checkpoints.map(checkpoint => checkpoint.seq)).toEqual([1, 3]);
+    expect(store.checkpoints[1].headHash).toBe(store.entries[2].entryHash);
+  });
+
+  it('works through more rows than one batch', async () => {
+    for (let i = 0; i < 5; i += 1) store.addAudit({ createdAt: minutes(i) });
+
+    const result = await sealAuditChains(store.client, { now: minutes(10), batchSize: 2 });
+
+    expect(result.entriesSealed).toBe(5);
+    expect(store.entries.map(entry => entry.seq)).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+// ─── AC-04 / AC-05 ────────────────────────────────────────────────────────────
+
+describe('AC-04 verifyAuditChain', () => {
+  let store: ReturnType<typeof makeStore>;
+
+  beforeEach(async () => {
+    store = makeStore();
+    for (let i = 1; i <= 4; i += 1) store.addAudit({ createdAt: minutes(i) });
+    await sealAuditChains(store.client, { now: minutes(10) });
+  });
+
+  it('reports an untouched chain as INTACT and an unknown chain as EMPTY', async () => {
+    const report = await verifyAuditChain(store.client, tenantA, { now: minutes(11) });
+    expect(report).toMatchObject({
+      status: 'INTACT',
+      entriesChecked: 4,
+      checkpointsChecked: 1,
+      issueCount: 0,
+      head: { seq: 4, entryHash: store.entries[3].entryHash },
+    });
+
+    const empty = await verifyAuditChain(store.client, { realm: 'TENANT', tenantId: TENANT_B }, { now: minutes(11) });
+    expect(empty).toMatchObject({ status: 'EMPTY', entriesChecked: 0, head: null });
+  });
+
+  it('detects an edited audit row', async () => {
+    store.auditLogs[1].metadataJson = { n: 999 };
+
+    const report = await verifyAuditChain(store.client, tenantA, { now: minutes(11) });
+
+    expect(report.status).toBe('BROKEN');
+    expect(report.issues).toEqual([expect.objectContaining({ code: 'ROW_MODIFIED', seq: 2 })]);
+  });
+
+  it('detects a deleted audit row', async () => {
+    const [deleted] = store.auditLogs.splice(2, 1);
+
+    const report = await verifyAuditChain(store.client, tenantA, { now: minutes(11) });
+
+    expect(report.issues).toEqual([expect.objectContaining({ code: 'ROW_MISSING', seq: 3, auditLogId: deleted.id })]);
+  });
+
+  it('detects a removed chain entry as a gap', async () => {
+    store.entries.splice(1, 1);
+
+    const report = await verifyAuditChain(store.client, tenantA, { now: minutes(11) });
+
+    expect(report.status).toBe('BROKEN');
+    expect(report.issues.map(issue => issue.code)).toContain('SEQUENCE_GAP');
+  });
+
+  it('detects a rewritten link', async () => {
+    store.entries[2].prevHash = 'c'.repeat(64);
+
+    const report = await verifyAuditChain(store.client, tenantA, { now: minutes(11) });
+
+    expect(report.issues.map(issue => issue.code)).toEqual(['LINK_MISMATCH', 'ROW_MODIFIED']);
+  });
+
+  it('detects truncation behind a signed checkpoint', async () => {
+    store.entries.splice(2, 2);
+
+    const report = await verifyAuditChain(store.client, tenantA, { now: minutes(11) });
+
+    expect(report.status).toBe('BROKEN');
+    expect(report.issues).toEqual([expect.objectContaining({ code: 'CHECKPOINT_BEYOND_HEAD', seq: 4 })]);
+  });
+
+  it('detects a forged checkpoint and a chain rebuilt under it', async () => {
+    store.checkpoints[0].headHash = 'd'.repeat(64);
+
+    const report = await verifyAuditChain(store.client, tenantA, { now: minutes(11) });
+
+    expect(report.issues.map(issue => issue.code)).toEqual(['CHECKPOINT_SIGNATURE_INVALID', 'CHECKPOINT_MISMATCH']);
+  });
+
+  it('only warns about checkpoints signed by another key', async () => {
+    store.checkpoints[0].keyId = '0123456789abcdef';
+
+    const report = await verifyAuditChain(store.client, tenantA, { now: minutes(11) });
+
+    expect(report.status).toBe('INTACT');
+    expect(report.issues).toEqual([expect.objectContaining({ code: 'CHECKPOINT_KEY_UNKNOWN', severity: 'warning' })]);
+  });
+});
+
+describe('AC-05 unsealed rows', () => {
+  it('warns about unsealed rows past the grace period only', async () => {
+    const store = makeStore();
+    store.addAudit({ createdAt: minutes(1) });
+    await sealAuditChains(store.client, { now: minutes(2) });
+    store.addAudit({ createdAt: minutes(3) });
+
+    const fresh = await verifyAuditChain(store.client, tenantA, { now: minutes(4) });
+    expect(fresh).toMatchObject({ status: 'INTACT', unsealedRows: 0, issueCount: 0 });
+
+    const stale = await verifyAuditChain(store.client, tenantA, {
+      now: new Date(minutes(3).getTime() + AUDIT_CHAIN_UNSEALED_GRACE_MS + 1),
+    });
+    expect(stale).toMatchObject({ status: 'INTACT', unsealedRows: 1 });
+    expect(stale.issues).toEqual([expect.objectContaining({ code: 'UNSEALED_ROWS', severity: 'warning' })]);
+  });
+});
+
+// ─── AC-06 ────────────────────────────────────────────────────────────────────
+
+describe('AC-06 buildAuditExportBundle', () => {
+  let store: ReturnType<typeof makeStore>;
+  const generatedBy = { realm: 'TENANT' as const, actorId: '33333333-3333-4333-8333-333333333333' };
+
+  beforeEach(async () => {
+    store = makeStore();
+    for (let i = 1; i <= 5; i += 1) store.addAudit({ createdAt: minutes(i * 10) });
+    await sealAuditChains(store.client, { now: minutes(60) });
+  });
+
+  it('exports the range as JSONL with a signed manifest', async () => {
+    const bundle = await buildAuditExportBundle(
+      store.client,
+      tenantA,
+      { from: minutes(20), to: minutes(40) },
+      generatedBy,
+      minutes(61),
+    );
+
+    expect(bundle.fileName).toBe(`audit-log-tenant-${TENANT_A}-2026-03-01_2026-03-01.zip`);
+    const files = unzip(bundle.archive);
+    expect([...files.keys()]).toEqual(['manifest.json', 'manifest.sig', 'audit-log.jsonl', 'checkpoints.jsonl']);
+
+    const manifestBytes = files.get('manifest.json') as string;
+    const manifest = JSON.parse(manifestBytes);
+    expect(manifest).toEqual(bundle.manifest);
+    expect(manifest.entries).toEqual({
+      count: 2,
+      firstSeq: 2,
+      lastSeq: 3,
+      firstPrevHash: store.entries[0].entryHash,
+      lastEntryHash: store.entries[2].entryHash,
+    });
+    expect(manifest.verification).toEqual({ status: 'INTACT', issueCount: 0, issues: [] });
+    expect(verifyAuditManifest(manifestBytes, (files.get('manifest.sig') as string).trim(), manifest.signing.publicKey)).toBe(
+      true,
+    );
+    expect(verifyAuditManifest(manifestBytes.replace('"count": 2', '"count": 3'), files.get('manifest.sig') as string, manifest.signing.publicKey)).toBe(
+      false,
+    );
+
+    const log = files.get('audit-log.jsonl') as string;
+    expect(manifest.files[0]).toEqual({
+      name: 'audit-log.jsonl',
+      sha256: createHash('sha256').update(log).digest('hex'),
+      bytes: Buffer.byteLength(log),
+      lines: 2,
+    });
+
+    // An offline verifier can recompute every link from the exported lines alone.
+    let prevHash = manifest.entries.firstPrevHash as string;
+    for (const line of log.trim().split('\n')) {
+      const entry = JSON.parse(line);
+      expect(entry.prevHash).toBe(prevHash);
+      expect(computeAuditChainHash(prevHash, entry.record)).toBe(entry.entryHash);
+      prevHash = entry.entryHash;
+    }
+  });
+
+  it('reports tampering inside the exported range in the manifest', async () => {
+    store.auditLogs[2].action = 'REWRITTEN';
+
+    const bundle = await buildAuditExportBundle(store.client, tenantA, { from: minutes(0), to: minutes(60) }, generatedBy);
+
+    expect(bundle.manifest.verification.status).toBe('BROKEN');
+    expect(bundle.manifest.verification.issues).toEqual([expect.objectContaining({ code: 'ROW_MODIFIED', seq: 3 })]);
+  });
+
+  it('exports an empty range as an empty, still signed bundle', async () => {
+    const bundle = await buildAuditExportBundle(store.client, tenantA, { from: minutes(100), to: minutes(200) }, generatedBy);
+
+    expect(bundle.manifest.entries).toEqual({ count: 0, firstSeq: null, lastSeq: null, firstPrevHash: null, lastEntryHash: null });
+    expect(bundle.manifest.verification.status).toBe('EMPTY');
+    expect(unzip(bundle.archive).get('audit-log.jsonl')).toBe('');
+  });
+
+  it('rejects inverted and over-long ranges', async () => {
+    await expect(
+      buildAuditExportBundle(store.client, tenantA, { from: minutes(10), to: minutes(10) }, generatedBy),
+    ).rejects.toBeInstanceOf(AuditExportRangeError);
+    await expect(
+      buildAuditExportBundle(
+        store.client,
+        tenantA,
+        { from: T0, to: new Date(T0.getTime() + 400 * 24 * 60 * 60_000) },
+        generatedBy,
+      ),
+    ).rejects.toBeInstanceOf(AuditExportRangeError);
+  });
+});
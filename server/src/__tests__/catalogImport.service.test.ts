@@ -0,0 +1,242 @@
+/**
+ * catalogImport.service.test.ts — CATALOG-IMPORT-001 bulk catalog import / export
+ *
+ * Covers:
+ * - CSV and XLSX codecs: round trip, quoting, formula escaping, format detection
+ * - Column mapping: suggestions, explicit overrides, duplicate targets
+ * - Row validation: enum / number coercion, stage attribute columns, certifications,
+ *   required SKU, duplicate SKUs within a file
+ * - applyCatalogImport: upsert by SKU, image re-hosting failures, progress counters
+ *
+ * Run:
+ *   pnpm --dir server exec vitest run src/__tests__/catalogImport.service.test.ts
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/database-context.js', () => ({
+  withDbContext: vi.fn(async (db: { tx: unknown }, _context: unknown, callback: (tx: unknown) => unknown) =>
+    callback(db.tx)),
+}));
+
+vi.mock('../lib/auditLog.js', () => ({
+  writeAuditLog: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../services/vectorIngestion.js', () => ({
+  enqueueSourceIngestion: vi.fn().mockResolvedValue({ accepted: true }),
+}));
+
+import { writeAuditLog } from '../lib/auditLog.js';
+import {
+  CatalogImportError,
+  analyzeCatalogImport,
+  applyCatalogImport,
+  resolveCatalogImportColumns,
+  suggestCatalogImportTarget,
+} from '../services/catalogImport/catalogImport.service.js';
+import {
+  CatalogSpreadsheetError,
+  detectCatalogSpreadsheetFormat,
+  parseCsv,
+  readCatalogSpreadsheet,
+  writeCatalogSpreadsheet,
+} from '../services/catalogImport/catalogSpreadsheet.js';
+
+const HEADER = ['SKU', 'Product Name', 'Unit Price', 'Catalog Stage', 'stageAttributes.ply', 'stageAttributes.yarnType'];
+
+describe('catalog spreadsheet codecs', () => {
+  const grid = [
+    ['sku', 'name', 'description'],
+    ['Y-1', 'Combed "Ring" Yarn', 'line one\nline two, with comma'],
+    ['Y-2', '=HYPERLINK("x")', '-5% off'],
+  ];
+
+  it('round-trips CSV with quoting and formula escaping', () => {
+    const csv = writeCatalogSpreadsheet(grid, 'csv');
+    expect(csv.subarray(0, 3)).toEqual(Buffer.from([0xef, 0xbb, 0xbf]));
+    expect(csv.toString('utf8')).toContain(`"'=HYPERLINK(""x"")",'-5% off`);
+    expect(readCatalogSpreadsheet(csv, 'csv')).toEqual(grid);
+  });
+
+  it('round-trips XLSX and detects the format from content', () => {
+    const xlsx = writeCatalogSpreadsheet(grid, 'xlsx');
+    expect(detectCatalogSpreadsheetFormat(xlsx, 'upload.bin', 'application/octet-stream')).toBe('xlsx');
+    expect(readCatalogSpreadsheet(xlsx, 'xlsx')).toEqual(grid);
+  });
+
+  it('drops blank rows and rejects non-spreadsheet uploads', () => {
+    expect(parseCsv('a,b\r\n\r\n1,2\r\n')).toEqual([['a', 'b'], [''], ['1', '2']]);
+    expect(readCatalogSpreadsheet(Buffer.from('a,b\n,\n1,2\n'), 'csv')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(() => detectCatalogSpreadsheetFormat(Buffer.from('%PDF-1.7'), 'catalog.pdf', 'application/pdf'))
+      .toThrow(CatalogSpreadsheetError);
+  });
+});
+
+describe('column mapping', () => {
+  it('suggests fields from exact names, aliases and stage attribute headers', () => {
+    expect(suggestCatalogImportTarget('SKU')).toBe('sku');
+    expect(suggestCatalogImportTarget('Product Name')).toBe('name');
+    expect(suggestCatalogImportTarget('min order qty')).toBe('moq');
+    expect(suggestCatalogImportTarget('stage: yarnCount')).toBe('stageAttributes.yarnCount');
+    expect(suggestCatalogImportTarget('Warehouse bin')).toBeNull();
+  });
+
+  it('applies explicit mappings and rejects two columns on one field', () => {
+    const columns = resolveCatalogImportColumns(['Code', 'Title', 'Notes'], { Code: 'sku', Notes: null });
+    expect(columns.map(column => column.target)).toEqual(['sku', 'name', null]);
+
+    expect(() => resolveCatalogImportColumns(['SKU', 'Code'], { Code: 'sku' })).toThrow(CatalogImportError);
+    expect(() => resolveCatalogImportColumns(['SKU'], { SKU: 'tenantId' })).toThrow(/not an importable/);
+    expect(() => resolveCatalogImportColumns(['SKU'], { Missing: 'sku' })).toThrow(/not in the file/);
+  });
+});
+
+describe('analyzeCatalogImport', () => {
+  it('coerces stage attribute cells with the stage schema and validates each row', () => {
+    const { rows, missingFields } = analyzeCatalogImport([
+      HEADER,
+      ['Y-1', 'Combed cotton yarn', '1,250.50', 'yarn', '2', 'core-spun'],
+      ['Y-2', 'Bad ply yarn', '10', 'YARN', 'two', ''],
+      ['', 'No SKU', '10', '', '', ''],
+    ]);
+
+    expect(missingFields).toEqual([]);
+    expect(rows[0]).toMatchObject({
+      valid: true,
+      row: {
+        rowNumber: 2,
+        sku: 'Y-1',
+        data: { price: 1250.5, catalogStage: 'YARN' },
+        stageAttributes: { ply: 2, yarnType: 'CORE_SPUN' },
+      },
+    });
+    expect(rows[1]).toMatchObject({ valid: false, rowNumber: 3 });
+    expect(rows[1].valid ? [] : rows[1].errors.map(error => error.field)).toContain('stageAttributes.ply');
+    expect(rows[2].valid ? [] : rows[2].errors).toContainEqual(expect.objectContaining({ field: 'sku' }));
+  });
+
+  it('parses certification cells and flags duplicate SKUs after the first', () => {
+    const { rows, missingFields } = analyzeCatalogImport([
+      ['sku', 'name', 'certifications'],
+      ['F-1', 'Poplin', 'GOTS:GOTS-123; oeko-tex standard 100'],
+      ['F-1', 'Poplin copy', ''],
+    ]);
+
+    expect(missingFields).toEqual(['price']);
+    expect(rows[0]).toMatchObject({ valid: false });
+    expect(rows[1].valid ? [] : rows[1].errors).toContainEqual(
+      { field: 'sku', message: 'Duplicate SKU in file (first used on row 2)' },
+    );
+  });
+
+  it('rejects a sheet without data rows', () => {
+    expect(() => analyzeCatalogImport([HEADER])).toThrow(/at least one data row/);
+  });
+});
+
+describe('applyCatalogImport', () => {
+  beforeEach(() => {
+    vi.mocked(writeAuditLog).mockClear();
+  });
+
+  function fakeImportDb(sourceRows: string[][]) {
+    const state = {
+      id: '11111111-1111-4111-8111-111111111111',
+      tenantId: 'tenant-1',
+      status: 'QUEUED',
+      fileName: 'catalog.csv',
+      format: 'csv',
+      sourceRows: sourceRows as unknown,
+      columnMapping: {},
+      totalRows: sourceRows.length - 1,
+      validRows: sourceRows.length - 1,
+      processedRows: 0,
+      createdCount: 0,
+      updatedCount: 0,
+      failedCount: 0,
+      applyErrors: [] as unknown[],
+      createdBy: 'user-1',
+      createdAt: new Date(),
+      queuedAt: new Date(),
+      completedAt: null as Date | null,
+    };
+
+    const apply = (data: Record<string, unknown>) => {
+      for (const [key, value] of Object.entries(data)) {
+        const increment = (value as { increment?: number } | null)?.increment;
+        (state as Record<string, unknown>)[key] =
+          typeof increment === 'number' ? (state as unknown as Record<string, number>)[key] + increment : value;
+      }
+      return { ...state };
+    };
+
+    const tx = {
+      catalogImport: {
+        findFirst: vi.fn(async () => ({ ...state })),
+        update: vi.fn(async ({ data }: { data: Record<string, unknown> }) => apply(data)),
+      },
+      catalogItem: {
+        findMany: vi.fn().mockResolvedValue([{ id: 'item-existing', sku: 'SKU-OLD' }]),
+        create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: `item-${data.sku}`, ...data })),
+        update: vi.fn(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) =>
+          ({ id: where.id, name: 'Existing', ...data })),
+      },
+    };
+    return { db: { tx }, tx, state };
+  }
+
+  it('upserts by SKU, records failed image rows and completes with counters', async () => {
+    const { db, tx, state } = fakeImportDb([
+      ['sku', 'name', 'price', 'imageUrl', 'color'],
+      ['SKU-OLD', 'Denim', '9', '', 'Indigo'],
+      ['SKU-NEW', 'New twill', '12.5', 'https://cdn.example.com/a.jpg', ''],
+      ['SKU-IMG', 'Broken image', '8', 'https://cdn.example.com/missing.jpg', ''],
+    ]);
+    const rehostImage = vi.fn(async (_orgId: string, url: string) => {
+      if (url.endsWith('missing.jpg')) throw new Error('404');
+      return 'https://storage.example.com/catalog/a.jpg';
+    });
+
+    const view = await applyCatalogImport(db as never, 'tenant-1', state.id, {
+      requestId: 'req-1',
+      fallbackActorId: 'worker',
+      rehostImage,
+    });
+
+    expect(view).toMatchObject({ status: 'COMPLETED', processedRows: 3, createdCount: 1, updatedCount: 1, failedCount: 1 });
+    expect(view.applyErrors).toEqual([
+      { rowNumber: 4, sku: 'SKU-IMG', message: 'imageUrl: Image could not be imported.' },
+    ]);
+    // Blank cells on an update leave the stored values (here imageUrl) untouched.
+    expect(tx.catalogItem.update).toHaveBeenCalledWith({
+      where: { id: 'item-existing' },
+      data: { sku: 'SKU-OLD', name: 'Denim', price: 9, color: 'Indigo' },
+    });
+    expect(tx.catalogItem.create.mock.calls[0][0].data).toMatchObject({
+      tenantId: 'tenant-1',
+      sku: 'SKU-NEW',
+      price: 12.5,
+      imageUrl: 'https://storage.example.com/catalog/a.jpg',
+    });
+    expect(state.sourceRows).toEqual([]);
+    expect(vi.mocked(writeAuditLog).mock.calls.map(call => call[1].action)).toEqual([
+      'catalog.item.updated',
+      'catalog.item.created',
+      'catalog.import.completed',
+    ]);
+  });
+
+  it('does nothing for an import that already completed', async () => {
+    const { db, tx, state } = fakeImportDb([['sku', 'name', 'price'], ['A', 'A', '1']]);
+    state.status = 'COMPLETED';
+
+    const view = await applyCatalogImport(db as never, 'tenant-1', state.id, {
+      requestId: 'req-2',
+      fallbackActorId: 'worker',
+    });
+
+    expect(view.status).toBe('COMPLETED');
+    expect(tx.catalogItem.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * catalogSearch.service.test.ts — CATALOG-SEARCH-001 faceted catalog search engine
+ *
+ * Covers:
+ * - Query schema: repeated / single filters, composition "<fiber>:<minPercent>"
+ * - parseComposition / compositionPercent on common composition formats
+ * - buildCatalogSearchWhere: ranges, JSONB certification containment, composition narrowing
+ * - computeCatalogSearchFacets: value buckets, certification standards, fibers, ranges
+ * - searchCatalogItems: relevance order, composition threshold, visibility before
+ *   facets and pagination, cursor paging
+ *
+ * Run:
+ *   pnpm --dir server exec vitest run src/__tests__/catalogSearch.service.test.ts
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  buildCatalogSearchWhere,
+  catalogSearchFiltersSchema,
+  compositionPercent,
+  computeCatalogSearchFacets,
+  hasCatalogSearchCriteria,
+  paginateCatalogSearchResults,
+  parseComposition,
+  searchCatalogItems,
+  type CatalogSearchFacetFields,
+} from '../services/catalogSearch.service.js';
+
+type Row = CatalogSearchFacetFields & { name: string; visibility: 'PUBLIC' | 'HIDDEN' };
+
+function makeRow(overrides: Partial<Row> & { id: string }): Row {
+  return {
+    name: `Item ${overrides.id}`,
+    visibility: 'PUBLIC',
+    productCategory: 'FABRIC_WOVEN',
+    fabricType: 'Twill',
+    gsm: null,
+    material: 'Cotton',
+    composition: '100% Cotton',
+    color: 'Natural',
+    widthCm: null,
+    construction: '3/1 Twill',
+    certifications: null,
+    catalogStage: 'FABRIC_WOVEN',
+    ...overrides,
+  } as Row;
+}
+
+function fakeDb(rows: Row[], textMatches: Array<{ id: string; rank: number }> = []) {
+  return {
+    $queryRaw: vi.fn().mockResolvedValue(textMatches),
+    catalogItem: { findMany: vi.fn().mockResolvedValue(rows) },
+  };
+}
+
+describe('catalogSearchFiltersSchema', () => {
+  it('normalizes single and repeated filters', () => {
+    const parsed = catalogSearchFiltersSchema.parse({
+      q: 'twill',
+      material: 'Cotton',
+      certification: ['GOTS', 'OEKO-TEX'],
+      composition: 'Cotton:95',
+      gsmMin: '180',
+    });
+    expect(parsed.material).toEqual(['Cotton']);
+    expect(parsed.certification).toEqual(['GOTS', 'OEKO-TEX']);
+    expect(parsed.composition).toEqual([{ fiber: 'cotton', minPercent: 95 }]);
+    expect(parsed.gsmMin).toBe(180);
+    expect(hasCatalogSearchCriteria(parsed)).toBe(true);
+    expect(hasCatalogSearchCriteria(catalogSearchFiltersSchema.parse({}))).toBe(false);
+  });
+
+  it('rejects malformed composition filters', () => {
+    expect(catalogSearchFiltersSchema.safeParse({ composition: 'cotton:150' }).success).toBe(false);
+    expect(catalogSearchFiltersSchema.safeParse({ composition: '95%cotton' }).success).toBe(false);
+  });
+});
+
+describe('parseComposition', () => {
+  it('reads percent-first and fiber-first formats and sums repeated fibers', () => {
+    expect(parseComposition('95% Organic Cotton, 5% Elastane')).toEqual(
+      new Map([['organic cotton', 95], ['elastane', 5]])
+    );
+    expect(parseComposition('Cotton 60% / Polyester 40%')).toEqual(
+      new Map([['cotton', 60], ['polyester', 40]])
+    );
+    expect(parseComposition('50% cotton + 45% cotton & 5% spandex')).toEqual(
+      new Map([['cotton', 95], ['spandex', 5]])
+    );
+    expect(parseComposition('Pure linen')).toEqual(new Map());
+  });
+
+  it('counts qualified fiber names toward the base fiber', () => {
+    const fibers = parseComposition('60% Organic Cotton, 35% Cotton, 5% Elastane');
+    expect(compositionPercent(fibers, 'cotton')).toBe(95);
+    expect(compositionPercent(fibers, 'organic cotton')).toBe(60);
+    expect(compositionPercent(fibers, 'wool')).toBe(0);
+  });
+});
+
+describe('buildCatalogSearchWhere', () => {
+  it('composes ranges, certification containment and composition narrowing', () => {
+    const where = buildCatalogSearchWhere(
+      catalogSearchFiltersSchema.parse({
+        gsmMin: 150,
+        widthMax: 160,
+        certification: ['GOTS', 'GRS'],
+        composition: 'cotton:95',
+      })
+    );
+    expect(where).toEqual([
+      { gsm: { gte: 150 } },
+      { widthCm: { lte: 160 } },
+      { certifications: { array_contains: [{ standard: 'GOTS' }] } },
+      { certifications: { array_contains: [{ standard: 'GRS' }] } },
+      { composition: { contains: 'cotton', mode: 'insensitive' } },
+    ]);
+  });
+});
+
+describe('computeCatalogSearchFacets', () => {
+  it('counts values once per item and tracks numeric ranges', () => {
+    const facets = computeCatalogSearchFacets([
+      makeRow({
+        id: 'a',
+        gsm: 180 as never,
+        widthCm: 150 as never,
+        certifications: [{ standard: 'GOTS' }, { standard: 'GOTS' }, { standard: 'OEKO-TEX' }],
+        composition: '95% Cotton, 5% Elastane',
+      }),
+      makeRow({ id: 'b', gsm: 240 as never, fabricType: 'Denim', certifications: [{ standard: 'GOTS' }] }),
+      makeRow({ id: 'c', fabricType: null, color: null }),
+    ]);
+
+    expect(facets.fabricType).toEqual([
+      { value: 'Denim', count: 1 },
+      { value: 'Twill', count: 1 },
+    ]);
+    expect(facets.certification).toEqual([
+      { value: 'GOTS', count: 2 },
+      { value: 'OEKO-TEX', count: 1 },
+    ]);
+    expect(facets.fiber).toEqual([
+      { value: 'cotton', count: 3 },
+      { value: 'elastane', count: 1 },
+    ]);
+    expect(facets.color).toEqual([{ value: 'Natural', count: 2 }]);
+    expect(facets.gsm).toEqual({ min: 180, max: 240 });
+    expect(facets.widthCm).toEqual({ min: 150, max: 150 });
+  });
+});
+
+describe('paginateCatalogSearchResults', () => {
+  it('pages after the cursor id and stops at the end', () => {
+    const rows = ['a', 'b', 'c'].map(id => ({ id }));
+    expect(paginateCatalogSearchResults(rows, 2)).toEqual({ items: [{ id: 'a' }, { id: 'b' }], nextCursor: 'b' });
+    expect(paginateCatalogSearchResults(rows, 2, 'b')).toEqual({ items: [{ id: 'c' }], nextCursor: null });
+  });
+});
+
+describe('searchCatalogItems', () => {
+  it('orders text matches by relevance and skips the attribute query when nothing matches', async () => {
+    const db = fakeDb(
+      [makeRow({ id: 'low' }), makeRow({ id: 'high' })],
+      [{ id: 'high', rank: 0.9 }, { id: 'low', rank: 0.2 }]
+    );
+    const result = await searchCatalogItems<Row>(db as never, {
+      scope: { tenantIds: ['t1'] },
+      filters: { q: 'twill' },
+      select: { name: true },
+      limit: 10,
+    });
+    expect(result.items.map(row => row.id)).toEqual(['high', 'low']);
+    expect(result.ranks.get('high')).toBe(0.9);
+    expect(db.catalogItem.findMany.mock.calls[0][0].where.AND[0]).toEqual({ id: { in: ['high', 'low'] } });
+
+    const empty = fakeDb([makeRow({ id: 'x' })], []);
+    const none = await searchCatalogItems<Row>(empty as never, {
+      scope: {},
+      filters: { q: 'velvet' },
+      select: {},
+      limit: 10,
+    });
+    expect(none.total).toBe(0);
+    expect(empty.catalogItem.findMany).not.toHaveBeenCalled();
+  });
+
+  it('applies composition thresholds and visibility before facets and pagination', async () => {
+    const db = fakeDb([
+      makeRow({ id: 'pure', composition: '100% Cotton', certifications: [{ standard: 'GOTS' }] }),
+      makeRow({ id: 'blend', composition: '60% Cotton, 40% Polyester' }),
+      makeRow({ id: 'hidden', composition: '98% Cotton, 2% Elastane', visibility: 'HIDDEN', certifications: [{ standard: 'SECRET-STD' }] }),
+      makeRow({ id: 'stretch', composition: '96% Cotton, 4% Elastane' }),
+    ]);
+
+    const result = await searchCatalogItems<Row>(db as never, {
+      scope: { excludedPublicationPostures: ['B2C_PUBLIC'] },
+      filters: catalogSearchFiltersSchema.parse({ composition: 'cotton:95' }),
+      select: { name: true },
+      limit: 1,
+      filterVisible: rows => rows.filter(row => row.visibility === 'PUBLIC'),
+    });
+
+    expect(result.items.map(row => row.id)).toEqual(['pure']);
+    expect(result.total).toBe(2);
+    expect(result.nextCursor).toBe('pure');
+    expect(result.facets.certification).toEqual([{ value: 'GOTS', count: 1 }]);
+    expect(db.$queryRaw).not.toHaveBeenCalled();
+    expect(db.catalogItem.findMany.mock.calls[0][0].where.AND).toEqual(
+      expect.arrayContaining([
+        { active: true },
+        { publicationPosture: { notIn: ['B2C_PUBLIC'] } },
+      ])
+    );
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * catalogVariant.service.test.ts — CATALOG-VARIANTS-001 product variants
+ *
+ * Covers:
+ * - Effective line terms: variant price / MOQ override, inheritance from the parent
+ * - Buyer summaries never carry price; serialization of decimal columns
+ * - Create / update schemas (strict, inherit-by-null)
+ * - CRUD guards: parent ownership, duplicate variant SKU, orderable variant checks
+ * - Grouping variants for a page of catalog items
+ *
+ * Run:
+ *   pnpm --dir server exec vitest run src/__tests__/catalogVariant.service.test.ts
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+  CatalogVariantError,
+  catalogVariantCreateSchema,
+  catalogVariantUpdateSchema,
+  createCatalogItemVariant,
+  loadOrderableVariant,
+  loadVariantsByCatalogItem,
+  resolveEffectiveLineTerms,
+  toBuyerVariantSummary,
+  updateCatalogItemVariant,
+} from '../services/catalogVariant.service.js';
+
+const PARENT = { name: 'Cotton poplin', sku: 'POP-100', price: '12.50', moq: 100, imageUrl: 'https://cdn.example.com/pop.jpg' };
+
+function variantRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'variant-1',
+    catalogItemId: 'item-1',
+    sku: 'POP-100-NVY',
+    label: 'Navy',
+    color: 'Navy',
+    widthCm: '150.00',
+    finish: 'Mercerised',
+    price: null,
+    moq: null,
+    imageUrl: null,
+    attributes: { pantone: '19-4052' },
+    active: true,
+    sortOrder: 0,
+    createdAt: new Date('2026-07-01T00:00:00Z'),
+    updatedAt: new Date('2026-07-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('resolveEffectiveLineTerms', () => {
+  it('returns the parent terms when no variant is selected', () => {
+    expect(resolveEffectiveLineTerms(PARENT, null)).toEqual({
+      name: 'Cotton poplin',
+      sku: 'POP-100',
+      unitPrice: 12.5,
+      moq: 100,
+      imageUrl: 'https://cdn.example.com/pop.jpg',
+    });
+  });
+
+  it('inherits price, MOQ and image from the parent when the variant leaves them null', () => {
+    expect(resolveEffectiveLineTerms(PARENT, { sku: 'POP-100-NVY', label: 'Navy', price: null, moq: null })).toEqual({
+      name: 'Cotton poplin — Navy',
+      sku: 'POP-100-NVY',
+      unitPrice: 12.5,
+      moq: 100,
+      imageUrl: 'https://cdn.example.com/pop.jpg',
+    });
+  });
+
+  it('uses the variant price, MOQ and image when set', () => {
+    const terms = resolveEffectiveLineTerms(PARENT, {
+      sku: 'POP-100-RED', label: 'Red', price: '14.00', moq: 250, imageUrl: 'https://cdn.example.com/red.jpg',
+    });
+    expect(terms).toMatchObject({ unitPrice: 14, moq: 250, imageUrl: 'https://cdn.example.com/red.jpg' });
+  });
+});
+
+describe('toBuyerVariantSummary', () => {
+  it('omits price and resolves the effective MOQ', () => {
+    const summary = toBuyerVariantSummary(variantRow({ price: '99.00' }) as never, 100);
+    expect(summary).toEqual({
+      id: 'variant-1',
+      sku: 'POP-100-NVY',
+      label: 'Navy',
+      color: 'Navy',
+      widthCm: 150,
+      finish: 'Mercerised',
+      moq: 100,
+      imageUrl: null,
+      attributes: { pantone: '19-4052' },
+    });
+    expect(summary).not.toHaveProperty('price');
+  });
+});
+
+describe('variant schemas', () => {
+  it('accepts null price / moq as "inherit" and rejects unknown fields', () => {
+    expect(catalogVariantCreateSchema.safeParse({ sku: 'A-1', label: 'Ecru', price: null, moq: null }).success).toBe(true);
+    expect(catalogVariantCreateSchema.safeParse({ sku: 'A-1', label: 'Ecru', tenantId: 'x' }).success).toBe(false);
+    expect(catalogVariantCreateSchema.safeParse({ sku: 'A-1', label: 'Ecru', moq: 0 }).success).toBe(false);
+  });
+
+  it('requires at least one field on update', () => {
+    expect(catalogVariantUpdateSchema.safeParse({}).success).toBe(false);
+    expect(catalogVariantUpdateSchema.safeParse({ active: false }).success).toBe(true);
+  });
+});
+
+describe('variant writes', () => {
+  function fakeTx(options: { ownsItem?: boolean; skuClash?: boolean; variant?: Record<string, unknown> | null } = {}) {
+    return {
+      catalogItem: {
+        findFirst: vi.fn().mockResolvedValue(options.ownsItem === false ? null : { id: 'item-1' }),
+      },
+      catalogItemVariant: {
+        findFirst: vi.fn(async ({ where }: { where: Record<string, unknown> }) => {
+          if ('sku' in where) return options.skuClash ? { id: 'other' } : null;
+          return options.variant === undefined ? variantRow() : options.variant;
+        }),
+        create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => variantRow({ ...data, id: 'variant-new' })),
+        update: vi.fn(async ({ data }: { data: Record<string, unknown> }) => variantRow(data)),
+      },
+    };
+  }
+
+  it('creates a variant with inherited price and MOQ', async () => {
+    const tx = fakeTx();
+    const view = await createCatalogItemVariant(tx as never, 'tenant-1', 'item-1', { sku: 'POP-100-ECR', label: 'Ecru' });
+
+    expect(tx.catalogItemVariant.create.mock.calls[0][0].data).toMatchObject({
+      tenantId: 'tenant-1', catalogItemId: 'item-1', price: null, moq: null, attributes: {}, active: true,
+    });
+    expect(view).toMatchObject({ id: 'variant-new', sku: 'POP-100-ECR', widthCm: null, price: null });
+  });
+
+  it('rejects a parent item outside the tenant and a duplicate variant SKU', async () => {
+    await expect(createCatalogItemVariant(fakeTx({ ownsItem: false }) as never, 'tenant-1', 'item-1', { sku: 'A', label: 'A' }))
+      .rejects.toMatchObject({ code: 'CATALOG_ITEM_NOT_FOUND', statusCode: 404 });
+    await expect(createCatalogItemVariant(fakeTx({ skuClash: true }) as never, 'tenant-1', 'item-1', { sku: 'A', label: 'A' }))
+      .rejects.toMatchObject({ code: 'DUPLICATE_VARIANT_SKU', statusCode: 409 });
+  });
+
+  it('checks SKU uniqueness only when the SKU changes on update', async () => {
+    const tx = fakeTx({ skuClash: true });
+    const { after } = await updateCatalogItemVariant(tx as never, 'tenant-1', 'item-1', 'variant-1', { sku: 'POP-100-NVY', price: 13 });
+    expect(after.price).toBe(13);
+
+    await expect(updateCatalogItemVariant(tx as never, 'tenant-1', 'item-1', 'variant-1', { sku: 'TAKEN' }))
+      .rejects.toBeInstanceOf(CatalogVariantError);
+  });
+
+  it('only orders active variants of the requested item', async () => {
+    await expect(loadOrderableVariant(fakeTx({ variant: null }) as never, 'item-1', 'variant-1'))
+      .rejects.toMatchObject({ code: 'VARIANT_NOT_FOUND' });
+    await expect(loadOrderableVariant(fakeTx({ variant: variantRow({ active: false }) }) as never, 'item-1', 'variant-1'))
+      .rejects.toMatchObject({ code: 'VARIANT_INACTIVE' });
+  });
+});
+
+describe('loadVariantsByCatalogItem', () => {
+  it('groups variants by parent item and skips the query for an empty page', async () => {
+    const findMany = vi.fn().mockResolvedValue([
+      variantRow({ id: 'v1', catalogItemId: 'item-1' }),
+      variantRow({ id: 'v2', catalogItemId: 'item-2', price: '9.90' }),
+      variantRow({ id: 'v3', catalogItemId: 'item-1' }),
+    ]);
+    const tx = { catalogItemVariant: { findMany } };
+
+    const grouped = await loadVariantsByCatalogItem(tx as never, ['item-1', 'item-2']);
+    expect(grouped.get('item-1')?.map(variant => variant.id)).toEqual(['v1', 'v3']);
+    expect(grouped.get('item-2')?.[0].price).toBe(9.9);
+
+    expect((await loadVariantsByCatalogItem(tx as never, [])).size).toBe(0);
+    expect(findMany).toHaveBeenCalledTimes(1);
+  });
+});
@@ -79,6 +79,10 @@ vi.mock('../middleware/auth.js', () => ({
   ),
 }));
 
+vi.mock('../middleware/mfaStepUp.js', () => ({
+  requireMfaStepUp: vi.fn((_request: unknown, _reply: unknown, done: () => void) => done()),
+}));
+
 vi.mock('../services/impersonation.service.js', () => ({
   startImpersonation: vi.fn(),
   stopImpersonation: vi.fn(),
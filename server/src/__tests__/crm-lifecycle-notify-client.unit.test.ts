@@ -1,14 +1,16 @@
 /**
  * Unit tests — crmLifecycleNotifyClient
  *
- * Tests noop mode, configured mode, failure handling, and payload redaction.
- * No DB access, no real CRM endpoint.
+ * Tests noop mode, outbox enqueue (configured mode), the signed sender used by
+ * the outbox dispatcher, failure handling, and payload redaction.
+ * No DB access (outbox client is mocked), no real CRM endpoint.
  *
  * Run: pnpm exec vitest run src/__tests__/crm-lifecycle-notify-client.unit.test.ts
  *       (from server/ directory)
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
 import {
   notifyRegistrationSubmitted,
   notifyGstSubmitted,
@@ -17,7 +19,10 @@ import {
   notifyAdminReviewedApproved,
   notifyAdminReviewedRejected,
   notifyAdminReviewedNeedsMoreInfo,
+  sendCrmLifecycleEvent,
 } from '../services/crmLifecycleNotifyClient.js';
+import { CRM_HMAC_HEADER, CRM_TS_HEADER, signCrmNotifyBody } from '../lib/crmOutboxHmac.js';
+import { CRM_OUTBOX_MAX_ATTEMPTS } from '../services/crmOutbox/crmOutbox.service.js';
 
 const BASE_URL = 'https://crm.texqtic.test';
 const SECRET = 'test-lifecycle-secret-32-chars-long-pad';
@@ -77,6 +82,32 @@ function makeMockFetch(statusCode = 200) {
   return vi.fn(async (_url: string, _init: MockInit) => ({ status: statusCode }));
 }
 
+/** Outbox tables only — records the persisted event row and its delivery job. */
+function makeMockDb() {
+  const db = {
+    crmOutboxEvent: {
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({
+        id: 'evt-0001',
+        status: 'PENDING',
+        attempts: 0,
+        ...data,
+      })),
+    },
+    backgroundJob: {
+      findFirst: vi.fn(async () => null),
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'job-0001', ...data })),
+    },
+  };
+  return db;
+}
+
+type MockDb = ReturnType<typeof makeMockDb>;
+
+/** Persisted outbox payload of the first enqueued event. */
+function persistedPayload(db: MockDb): Record<string, any> {
+  return db.crmOutboxEvent.create.mock.calls[0][0].data.payload as Record<string, any>;
+}
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 function setCrmEnv() {
@@ -92,9 +123,14 @@ function clearCrmEnv() {
 // ─── Suite ────────────────────────────────────────────────────────────────────
 
 describe('crmLifecycleNotifyClient', () => {
+  let db: MockDb;
+  let client: PrismaClient;
+
   beforeEach(() => {
     clearCrmEnv();
     vi.unstubAllGlobals();
+    db = makeMockDb();
+    client = db as unknown as PrismaClient;
   });
 
   afterEach(() => {
@@ -106,44 +142,44 @@ describe('crmLifecycleNotifyClient', () => {
 
   describe('noop mode — CRM_LIFECYCLE_BASE_URL absent', () => {
     it('notifyRegistrationSubmitted returns NOOP_SKIPPED', async () => {
-      const result = await notifyRegistrationSubmitted(makeRegistrationParams());
+      const result = await notifyRegistrationSubmitted(makeRegistrationParams(), client);
       expect(result.dispatch_status).toBe('NOOP_SKIPPED');
     });
 
     it('notifyGstSubmitted returns NOOP_SKIPPED', async () => {
-      const result = await notifyGstSubmitted(makeGstParams());
+      const result = await notifyGstSubmitted(makeGstParams(), client);
       expect(result.dispatch_status).toBe('NOOP_SKIPPED');
     });
 
     it('notifyGstResubmitted returns NOOP_SKIPPED', async () => {
-      const result = await notifyGstResubmitted(makeGstParams());
+      const result = await notifyGstResubmitted(makeGstParams(), client);
       expect(result.dispatch_status).toBe('NOOP_SKIPPED');
     });
 
     it('notifyProviderCheckCompleted returns NOOP_SKIPPED', async () => {
-      const result = await notifyProviderCheckCompleted(makeProviderCheckParams());
+      const result = await notifyProviderCheckCompleted(makeProviderCheckParams(), client);
       expect(result.dispatch_status).toBe('NOOP_SKIPPED');
     });
 
     it('notifyAdminReviewedApproved returns NOOP_SKIPPED', async () => {
-      const result = await notifyAdminReviewedApproved({ orgId: ORG_ID, tenantId: TENANT_ID });
+      const result = await notifyAdminReviewedApproved({ orgId: ORG_ID, tenantId: TENANT_ID }, client);
       expect(result.dispatch_status).toBe('NOOP_SKIPPED');
     });
 
     it('notifyAdminReviewedRejected returns NOOP_SKIPPED', async () => {
-      const result = await notifyAdminReviewedRejected({ orgId: ORG_ID, tenantId: TENANT_ID });
+      const result = await notifyAdminReviewedRejected({ orgId: ORG_ID, tenantId: TENANT_ID }, client);
       expect(result.dispatch_status).toBe('NOOP_SKIPPED');
     });
 
     it('notifyAdminReviewedNeedsMoreInfo returns NOOP_SKIPPED', async () => {
-      const result = await notifyAdminReviewedNeedsMoreInfo({ orgId: ORG_ID, tenantId: TENANT_ID });
+      const result = await notifyAdminReviewedNeedsMoreInfo({ orgId: ORG_ID, tenantId: TENANT_ID }, client);
       expect(result.dispatch_status).toBe('NOOP_SKIPPED');
     });
 
     it('makes no fetch call in noop mode', async () => {
       const fetchSpy = makeMockFetch();
       vi.stubGlobal('fetch', fetchSpy);
-      await notifyRegistrationSubmitted(makeRegistrationParams());
+      await notifyRegistrationSubmitted(makeRegistrationParams(), client);
       expect(fetchSpy).not.toHaveBeenCalled();
     });
   });
@@ -153,7 +189,7 @@ describe('crmLifecycleNotifyClient', () => {
       process.env.CRM_LIFECYCLE_BASE_URL = BASE_URL;
       delete process.env.CRM_LIFECYCLE_INGESTION_SECRET;
 
-      const result = await notifyRegistrationSubmitted(makeRegistrationParams());
+      const result = await notifyRegistrationSubmitted(makeRegistrationParams(), client);
       expect(result.dispatch_status).toBe('NOOP_SKIPPED');
     });
 
@@ -163,39 +199,63 @@ describe('crmLifecycleNotifyClient', () => {
 
       const fetchSpy = makeMockFetch();
       vi.stubGlobal('fetch', fetchSpy);
-      await notifyRegistrationSubmitted(makeRegistrationParams());
+      await notifyRegistrationSubmitted(makeRegistrationParams(), client);
       expect(fetchSpy).not.toHaveBeenCalled();
     });
   });
 
   // ─── Configured mode ─────────────────────────────────────────────────────
 
-  describe('configured mode — sends POST to lifecycle endpoint', () => {
-    it('notifyRegistrationSubmitted sends POST to /api/webhooks/mainapp-lifecycle-events', async () => {
+  describe('configured mode — writes to the CRM outbox', () => {
+    it('notifyRegistrationSubmitted writes a lifecycle event to the outbox and schedules delivery', async () => {
       setCrmEnv();
-      const mockFetch = makeMockFetch(200);
-      vi.stubGlobal('fetch', mockFetch);
+      const fetchSpy = makeMockFetch(200);
+      vi.stubGlobal('fetch', fetchSpy);
 
-      const result = await notifyRegistrationSubmitted(makeRegistrationParams());
+      const result = await notifyRegistrationSubmitted(makeRegistrationParams(), client);
 
-      expect(result.dispatch_status).toBe('SENT');
-      expect((result as any).http_status).toBe(200);
-      expect(mockFetch).toHaveBeenCalledOnce();
-      const [url, init] = mockFetch.mock.calls[0];
-      expect(url).toBe(`${BASE_URL}/api/webhooks/mainapp-lifecycle-events`);
-      expect(init.method).toBe('POST');
-      expect(init.headers['Content-Type']).toBe('application/json');
-      expect(init.headers['x-crm-mainapp-lifecycle-secret']).toBe(SECRET);
+      expect(result).toEqual({ dispatch_status: 'QUEUED', outbox_event_id: 'evt-0001' });
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(db.crmOutboxEvent.create).toHaveBeenCalledOnce();
+      const data = db.crmOutboxEvent.create.mock.calls[0][0].data;
+      expect(data.channel).toBe('CRM_LIFECYCLE');
+      expect(data.eventType).toBe('org.registration.submitted.v1');
+      expect(data.orgId).toBe(ORG_ID);
+      expect(data.idempotencyKey).toBe((data.payload as Record<string, unknown>).idempotency_key);
+      expect(db.backgroundJob.create).toHaveBeenCalledOnce();
+      const job = db.backgroundJob.create.mock.calls[0][0].data;
+      expect(job.jobType).toBe('crm.outbox.deliver');
+      expect(job.payload).toEqual({ eventId: 'evt-0001' });
+    });
+
+    it('does not touch the network when CRM is unreachable — delivery is retried by the outbox job', async () => {
+      setCrmEnv();
+      const fetchSpy = vi.fn(() => Promise.reject(new Error('net::ERR_FAILED')));
+      vi.stubGlobal('fetch', fetchSpy);
+
+      await expect(notifyProviderCheckCompleted(makeProviderCheckParams(), client)).resolves.toEqual({
+        dispatch_status: 'QUEUED',
+        outbox_event_id: 'evt-0001',
+      });
+      expect(fetchSpy).not.toHaveBeenCalled();
+      const job = db.backgroundJob.create.mock.calls[0][0].data;
+      expect(job.maxAttempts).toBe(CRM_OUTBOX_MAX_ATTEMPTS);
+      expect(job.dedupeKey).toBe('crm-outbox:evt-0001');
     });
 
-    it('registration event payload includes all required fields', async () => {
+    it('propagates outbox write errors so the caller transaction rolls back', async () => {
       setCrmEnv();
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
+      db.crmOutboxEvent.create.mockRejectedValueOnce(new Error('db down'));
 
-      await notifyRegistrationSubmitted(makeRegistrationParams());
+      await expect(notifyGstSubmitted(makeGstParams(), client)).rejects.toThrow('db down');
+      expect(db.backgroundJob.create).not.toHaveBeenCalled();
+    });
 
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+    it('registration event payload includes all required fields', async () => {
+      setCrmEnv();
+      await notifyRegistrationSubmitted(makeRegistrationParams(), client);
+
+      const payload = persistedPayload(db);
       expect(payload.event).toBe('org.registration.submitted.v1');
       expect(payload.org_id).toBe(ORG_ID);
       expect(payload.tenant_id).toBe(TENANT_ID);
@@ -214,51 +274,39 @@ describe('crmLifecycleNotifyClient', () => {
 
     it('registration event idempotency_key encodes event:org_id:epochMs', async () => {
       setCrmEnv();
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
+      await notifyRegistrationSubmitted(makeRegistrationParams(), client);
 
-      await notifyRegistrationSubmitted(makeRegistrationParams());
-
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       const [eventPart, orgIdPart, epochPart] = payload.idempotency_key.split(':');
       expect(eventPart).toBe('org.registration.submitted.v1');
       expect(orgIdPart).toBe(ORG_ID);
       expect(Number(epochPart)).toBeGreaterThan(0);
     });
 
-    it('notifyGstSubmitted sends correct event type', async () => {
+    it('notifyGstSubmitted persists correct event type', async () => {
       setCrmEnv();
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
+      await notifyGstSubmitted(makeGstParams(), client);
 
-      await notifyGstSubmitted(makeGstParams());
-
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload.event).toBe('org.gst.submitted.v1');
       expect(payload.registration_type).toBe('Regular');
       expect(payload.state_code).toBe('29');
       expect(payload.org_status).toBe('PENDING_VERIFICATION');
     });
 
-    it('notifyGstResubmitted sends correct event type', async () => {
+    it('notifyGstResubmitted persists correct event type', async () => {
       setCrmEnv();
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
-
-      await notifyGstResubmitted(makeGstParams());
+      await notifyGstResubmitted(makeGstParams(), client);
 
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload.event).toBe('org.gst.resubmitted.v1');
     });
 
-    it('notifyProviderCheckCompleted sends correct fields', async () => {
+    it('notifyProviderCheckCompleted persists correct fields', async () => {
       setCrmEnv();
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
-
-      await notifyProviderCheckCompleted(makeProviderCheckParams());
+      await notifyProviderCheckCompleted(makeProviderCheckParams(), client);
 
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload.event).toBe('org.gst.provider_check.completed.v1');
       expect(payload.provider_result).toBe('AUTO_APPROVED');
       expect(payload.provider_name).toBe('deepvue');
@@ -268,12 +316,9 @@ describe('crmLifecycleNotifyClient', () => {
 
     it('notifyAdminReviewedApproved uses default category when not provided', async () => {
       setCrmEnv();
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
+      await notifyAdminReviewedApproved({ orgId: ORG_ID, tenantId: TENANT_ID }, client);
 
-      await notifyAdminReviewedApproved({ orgId: ORG_ID, tenantId: TENANT_ID });
-
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload.event).toBe('org.gst.admin_reviewed.approved.v1');
       expect(payload.review_outcome).toBe('APPROVED');
       expect(payload.org_status).toBe('VERIFICATION_APPROVED');
@@ -282,12 +327,9 @@ describe('crmLifecycleNotifyClient', () => {
 
     it('notifyAdminReviewedRejected uses default category when not provided', async () => {
       setCrmEnv();
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
-
-      await notifyAdminReviewedRejected({ orgId: ORG_ID, tenantId: TENANT_ID });
+      await notifyAdminReviewedRejected({ orgId: ORG_ID, tenantId: TENANT_ID }, client);
 
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload.event).toBe('org.gst.admin_reviewed.rejected.v1');
       expect(payload.review_outcome).toBe('REJECTED');
       expect(payload.org_status).toBe('VERIFICATION_REJECTED');
@@ -296,12 +338,9 @@ describe('crmLifecycleNotifyClient', () => {
 
     it('notifyAdminReviewedNeedsMoreInfo uses default category when not provided', async () => {
       setCrmEnv();
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
-
-      await notifyAdminReviewedNeedsMoreInfo({ orgId: ORG_ID, tenantId: TENANT_ID });
+      await notifyAdminReviewedNeedsMoreInfo({ orgId: ORG_ID, tenantId: TENANT_ID }, client);
 
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload.event).toBe('org.gst.admin_reviewed.needs_more_info.v1');
       expect(payload.review_outcome).toBe('NEEDS_MORE_INFO');
       expect(payload.org_status).toBe('VERIFICATION_NEEDS_MORE_INFO');
@@ -309,19 +348,38 @@ describe('crmLifecycleNotifyClient', () => {
     });
   });
 
-  // ─── Failure handling ─────────────────────────────────────────────────────
+  // ─── Sender (outbox dispatcher) ──────────────────────────────────────────
+
+  describe('sendCrmLifecycleEvent — signed POST, never throws', () => {
+    const cfgValue = { baseUrl: BASE_URL, secret: SECRET };
+    const payload = { event: 'org.gst.submitted.v1', org_id: ORG_ID, idempotency_key: 'k-1' };
+
+    it('sends POST to /api/webhooks/mainapp-lifecycle-events with secret and HMAC headers', async () => {
+      const mockFetch = makeMockFetch(200);
+      vi.stubGlobal('fetch', mockFetch);
+
+      const result = await sendCrmLifecycleEvent(cfgValue, payload);
+
+      expect(result).toEqual({ dispatch_status: 'SENT', http_status: 200 });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe(`${BASE_URL}/api/webhooks/mainapp-lifecycle-events`);
+      expect(init.method).toBe('POST');
+      expect(init.headers['Content-Type']).toBe('application/json');
+      expect(init.headers['x-crm-mainapp-lifecycle-secret']).toBe(SECRET);
+      expect(JSON.parse(init.body)).toEqual(payload);
+
+      const ts = Number(init.headers[CRM_TS_HEADER]);
+      expect(init.headers[CRM_HMAC_HEADER]).toBe(signCrmNotifyBody(init.body, SECRET, ts)[CRM_HMAC_HEADER]);
+    });
 
-  describe('failure handling — does not throw into caller', () => {
     it('returns FAILED when fetch rejects (network error)', async () => {
-      setCrmEnv();
       vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('ECONNREFUSED'))));
 
-      const result = await notifyRegistrationSubmitted(makeRegistrationParams());
+      const result = await sendCrmLifecycleEvent(cfgValue, payload);
       expect(result.dispatch_status).toBe('FAILED');
     });
 
     it('returns FAILED on timeout (AbortError)', async () => {
-      setCrmEnv();
       vi.stubGlobal(
         'fetch',
         vi.fn(() => {
@@ -331,147 +389,124 @@ describe('crmLifecycleNotifyClient', () => {
         }),
       );
 
-      const result = await notifyGstSubmitted(makeGstParams());
+      const result = await sendCrmLifecycleEvent(cfgValue, payload);
       expect(result.dispatch_status).toBe('FAILED');
       expect((result as any).error_message).toContain('timed out');
     });
 
-    it('does not throw when provider check notify fails', async () => {
-      setCrmEnv();
-      vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('net::ERR_FAILED'))));
+    it('returns SENT with non-2xx http_status (CRM returned error status)', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => ({ status: 500 })));
 
-      await expect(notifyProviderCheckCompleted(makeProviderCheckParams())).resolves.toMatchObject({
-        dispatch_status: 'FAILED',
-      });
+      const result = await sendCrmLifecycleEvent(cfgValue, payload);
+      expect(result).toEqual({ dispatch_status: 'SENT', http_status: 500 });
     });
 
-    it('returns SENT with non-2xx http_status (CRM returned error status)', async () => {
-      setCrmEnv();
-      vi.stubGlobal('fetch', vi.fn(async () => ({ status: 500 })));
+    it('secret value does not appear in the serialized body', async () => {
+      const mockFetch = makeMockFetch();
+      vi.stubGlobal('fetch', mockFetch);
+
+      await sendCrmLifecycleEvent(cfgValue, payload);
 
-      const result = await notifyRegistrationSubmitted(makeRegistrationParams());
-      expect(result.dispatch_status).toBe('SENT');
-      expect((result as any).http_status).toBe(500);
+      expect(mockFetch.mock.calls[0][1].body).not.toContain(SECRET);
     });
   });
 
   // ─── Payload redaction ────────────────────────────────────────────────────
 
-  describe('payload redaction — forbidden fields never sent', () => {
+  describe('payload redaction — forbidden fields never persisted', () => {
     beforeEach(() => {
       setCrmEnv();
     });
 
     it('registration payload does not contain passwordHash', async () => {
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
+      await notifyRegistrationSubmitted(makeRegistrationParams(), client);
 
-      await notifyRegistrationSubmitted(makeRegistrationParams());
-
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload).not.toHaveProperty('passwordHash');
     });
 
     it('registration payload does not contain raw_verification_json', async () => {
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
-
-      await notifyRegistrationSubmitted(makeRegistrationParams());
+      await notifyRegistrationSubmitted(makeRegistrationParams(), client);
 
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload).not.toHaveProperty('raw_verification_json');
     });
 
     it('GST submit payload does not contain actual GSTIN value', async () => {
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
-
-      await notifyGstSubmitted(makeGstParams());
+      await notifyGstSubmitted(makeGstParams(), client);
 
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       // gstin field must be null (GSTIN_EXCLUDED_IN_V1), never an actual GSTIN string
       expect(payload.gstin).toBeNull();
     });
 
     it('GST resubmit payload does not contain actual GSTIN value', async () => {
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
+      await notifyGstResubmitted(makeGstParams(), client);
 
-      await notifyGstResubmitted(makeGstParams());
-
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload.gstin).toBeNull();
     });
 
     it('provider check payload does not contain provider_request_id', async () => {
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
+      await notifyProviderCheckCompleted(makeProviderCheckParams(), client);
 
-      await notifyProviderCheckCompleted(makeProviderCheckParams());
-
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload).not.toHaveProperty('provider_request_id');
     });
 
     it('provider check payload does not contain provider_verified_at', async () => {
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
-
-      await notifyProviderCheckCompleted(makeProviderCheckParams());
+      await notifyProviderCheckCompleted(makeProviderCheckParams(), client);
 
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload).not.toHaveProperty('provider_verified_at');
     });
 
     it('provider check payload does not contain raw_verification_json', async () => {
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
-
-      await notifyProviderCheckCompleted(makeProviderCheckParams());
+      await notifyProviderCheckCompleted(makeProviderCheckParams(), client);
 
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload).not.toHaveProperty('raw_verification_json');
     });
 
     it('admin approved payload does not contain reviewed_by_admin_id', async () => {
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
+      await notifyAdminReviewedApproved({ orgId: ORG_ID, tenantId: TENANT_ID }, client);
 
-      await notifyAdminReviewedApproved({ orgId: ORG_ID, tenantId: TENANT_ID });
-
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload).not.toHaveProperty('reviewed_by_admin_id');
     });
 
     it('admin approved payload does not contain raw review_notes', async () => {
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
-
-      await notifyAdminReviewedApproved({ orgId: ORG_ID, tenantId: TENANT_ID });
+      await notifyAdminReviewedApproved({ orgId: ORG_ID, tenantId: TENANT_ID }, client);
 
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload).not.toHaveProperty('review_notes');
     });
 
     it('admin rejected payload does not contain reviewed_by_admin_id or raw review_notes', async () => {
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
-
-      await notifyAdminReviewedRejected({ orgId: ORG_ID, tenantId: TENANT_ID });
+      await notifyAdminReviewedRejected({ orgId: ORG_ID, tenantId: TENANT_ID }, client);
 
-      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const payload = persistedPayload(db);
       expect(payload).not.toHaveProperty('reviewed_by_admin_id');
       expect(payload).not.toHaveProperty('review_notes');
     });
 
-    it('secret header value does not appear in the serialized payload body', async () => {
-      const mockFetch = makeMockFetch();
-      vi.stubGlobal('fetch', mockFetch);
+    it('outbox row columns outside the payload carry no email, legal name or GSTIN', async () => {
+      await notifyRegistrationSubmitted(makeRegistrationParams(), client);
+      await notifyGstSubmitted(makeGstParams(), client);
+
+      for (const [{ data }] of db.crmOutboxEvent.create.mock.calls) {
+        const { payload: _payload, ...columns } = data;
+        const serialized = JSON.stringify(columns);
+        expect(serialized).not.toContain('owner@example.com');
+        expect(serialized).not.toContain('Acme Textiles');
+        expect(serialized).not.toMatch(/\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]/);
+      }
+    });
 
-      await notifyRegistrationSubmitted(makeRegistrationParams());
+    it('secret value does not appear in the persisted payload', async () => {
+      await notifyRegistrationSubmitted(makeRegistrationParams(), client);
 
-      const bodyStr: string = mockFetch.mock.calls[0][1].body;
-      expect(bodyStr).not.toContain(SECRET);
+      expect(JSON.stringify(persistedPayload(db))).not.toContain(SECRET);
     });
   });
 });
@@ -0,0 +1,510 @@
+/**
+ * Unit Tests — CRM Notify Outbox (contract, service, dispatcher)
+ * CRM-NOTIFY-OUTBOX-001
+ *
+ * All Prisma DB calls and CRM senders are mocked — no real database or CRM endpoint.
+ *
+ * Test IDs:
+ *   CRMOB-01  contract — valid lifecycle and Tier 0 payloads pass
+ *   CRMOB-02  contract — unknown / missing keys rejected
+ *   CRMOB-03  contract — non-null gstin and GSTIN-shaped values rejected
+ *   CRMOB-04  contract — email-shaped value outside allowed field rejected
+ *   CRMOB-05  contract — org_id mismatch and forbidden Tier 0 token fields rejected
+ *   CRMOB-06  maskCrmOutboxPayload — masks email / phone / name only
+ *   CRMOB-07  enqueueCrmOutboxEvent — PENDING row + deduped delivery job
+ *   CRMOB-08  enqueueCrmOutboxEvent — contract violation writes nothing
+ *   CRMOB-09  enqueueCrmOutboxEvent — inline attempt recorded as attempt 1
+ *   CRMOB-10  listCrmOutboxEvents — filters, limit cap, cursor pagination
+ *   CRMOB-11  replayCrmOutboxEvent — DEAD_LETTER → PENDING + job; PENDING rejected
+ *   CRMOB-12  deadLetterCrmOutboxEvent — PENDING → DEAD_LETTER; missing / non-PENDING rejected
+ *   CRMOB-13  classifyCrmSendResult — 2xx / 408 / 429 / 5xx / other 4xx / network
+ *   CRMOB-14  deliverCrmOutboxEvent — 2xx → DELIVERED with attempt row
+ *   CRMOB-15  deliverCrmOutboxEvent — retryable failure stays PENDING and throws retryable Error
+ *   CRMOB-16  deliverCrmOutboxEvent — retryable on final attempt / permanent → DEAD_LETTER
+ *   CRMOB-17  deliverCrmOutboxEvent — non-PENDING skipped; missing → NonRetryableJobError
+ *   CRMOB-18  deliverCrmOutboxEvent — channel not configured → retryable, no send
+ */
+
+vi.mock('../config/index.js', () => ({
+  config: {
+    CRM_MAINAPP_TIER0_BASE_URL: 'https://crm.texqtic.test' as string | undefined,
+    CRM_MAINAPP_TIER0_INGESTION_SECRET: 'tier0-secret-that-is-32-chars-long!!' as string | undefined,
+  },
+}));
+
+vi.mock('../services/crmTier0NotifyClient.js', () => ({
+  notifyCrmTier0Capture: vi.fn(),
+}));
+
+vi.mock('../services/crmLifecycleNotifyClient.js', () => ({
+  getCrmLifecycleConfig: vi.fn(),
+  sendCrmLifecycleEvent: vi.fn(),
+}));
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import {
+  assertCrmOutboxPayloadContract,
+  CrmOutboxContractError,
+  maskCrmOutboxPayload,
+} from '../services/crmOutbox/crmOutbox.contract.js';
+import {
+  CRM_OUTBOX_DELIVER_JOB_TYPE,
+  CRM_OUTBOX_MANUAL_DEAD_LETTER_REASON,
+  CRM_OUTBOX_MAX_ATTEMPTS,
+  CrmOutboxEventNotFoundError,
+  CrmOutboxEventStateError,
+  deadLetterCrmOutboxEvent,
+  enqueueCrmOutboxEvent,
+  listCrmOutboxEvents,
+  replayCrmOutboxEvent,
+} from '../services/crmOutbox/crmOutbox.service.js';
+import {
+  classifyCrmSendResult,
+  deliverCrmOutboxEvent,
+} from '../services/crmOutbox/crmOutbox.dispatcher.js';
+import { NonRetryableJobError } from '../services/jobQueue/jobQueue.service.js';
+import { getCrmLifecycleConfig, sendCrmLifecycleEvent } from '../services/crmLifecycleNotifyClient.js';
+import { notifyCrmTier0Capture } from '../services/crmTier0NotifyClient.js';
+
+// ─── Mock DB type ─────────────────────────────────────────────────────────────
+
+interface MockDb {
+  $transaction: Mock;
+  crmOutboxEvent: {
+    create:     Mock;
+    findUnique: Mock;
+    findMany:   Mock;
+    updateMany: Mock;
+  };
+  crmOutboxDeliveryAttempt: {
+    create:   Mock;
+    findMany: Mock;
+  };
+  backgroundJob: {
+    create:    Mock;
+    findFirst: Mock;
+  };
+}
+
+function makeDb(): MockDb {
+  const db: MockDb = {
+    $transaction: vi.fn(),
+    crmOutboxEvent: {
+      create:     vi.fn(async ({ data }) => ({ id: EVENT_ID, status: 'PENDING', attempts: 0, ...data })),
+      findUnique: vi.fn(),
+      findMany:   vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    crmOutboxDeliveryAttempt: {
+      create:   vi.fn().mockResolvedValue({}),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    backgroundJob: {
+      create:    vi.fn(async ({ data }) => ({ id: 'job-1', ...data })),
+      findFirst: vi.fn().mockResolvedValue(null),
+    },
+  };
+  db.$transaction.mockImplementation(async (cb: (tx: MockDb) => Promise<unknown>) => cb(db));
+  return db;
+}
+
+const asClient = (db: MockDb) => db as unknown as PrismaClient;
+
+// ─── Shared fixtures ──────────────────────────────────────────────────────────
+
+const ORG_ID = 'aaaaaaaa-0000-0000-0000-000000000001';
+const EVENT_ID = 'eeeeeeee-0000-0000-0000-000000000001';
+
+function gstSubmittedPayload(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    event: 'org.gst.submitted.v1',
+    idempotency_key: `org.gst.submitted.v1:${ORG_ID}:1750000000000`,
+    occurred_at: '2026-06-20T10:00:00.000Z',
+    org_id: ORG_ID,
+    tenant_id: ORG_ID,
+    schema_version: '1.0',
+    org_status: 'PENDING_VERIFICATION',
+    registration_type: 'Regular',
+    state_code: '29',
+    gstin: null,
+    ...overrides,
+  };
+}
+
+function tier0Payload(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    mainAppTier0RequestId: 'bbbbbbbb-0000-4000-8000-000000000001',
+    roleIntent: 'supplier',
+    name: 'Rahul Sharma',
+    sourceChannel: 'WEB',
+    firstTouchTimestamp: '2026-06-06T10:00:00.000Z',
+    email: 'rahul@example.com',
+    ...overrides,
+  };
+}
+
+function lifecycleInput(payload = gstSubmittedPayload()) {
+  return {
+    channel: 'CRM_LIFECYCLE' as const,
+    eventType: 'org.gst.submitted.v1',
+    orgId: ORG_ID,
+    idempotencyKey: payload.idempotency_key as string,
+    payload,
+  };
+}
+
+function eventRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: EVENT_ID,
+    channel: 'CRM_LIFECYCLE',
+    eventType: 'org.gst.submitted.v1',
+    orgId: ORG_ID,
+    idempotencyKey: 'k-1',
+    payload: gstSubmittedPayload(),
+    status: 'PENDING',
+    attempts: 0,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'info').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.mocked(getCrmLifecycleConfig).mockReturnValue({ baseUrl: 'https://crm.texqtic.test', secret: 's' });
+});
+
+// ─── Contract ─────────────────────────────────────────────────────────────────
+
+describe('assertCrmOutboxPayloadContract', () => {
+  it('CRMOB-01: valid lifecycle and Tier 0 payloads pass', () => {
+    expect(() =>
+      assertCrmOutboxPayloadContract('CRM_LIFECYCLE', 'org.gst.submitted.v1', ORG_ID, gstSubmittedPayload()),
+    ).not.toThrow();
+    expect(() =>
+      assertCrmOutboxPayloadContract('CRM_TIER0', 'tier0.capture.v1', null, tier0Payload()),
+    ).not.toThrow();
+  });
+
+  it('CRMOB-02: unknown and missing keys are rejected', () => {
+    expect(() =>
+      assertCrmOutboxPayloadContract(
+        'CRM_LIFECYCLE',
+        'org.gst.submitted.v1',
+        ORG_ID,
+        gstSubmittedPayload({ raw_verification_json: 'x' }),
+      ),
+    ).toThrow(/raw_verification_json/);
+
+    const missing = gstSubmittedPayload();
+    delete missing.state_code;
+    expect(() =>
+      assertCrmOutboxPayloadContract('CRM_LIFECYCLE', 'org.gst.submitted.v1', ORG_ID, missing),
+    ).toThrow(/state_code/);
+
+    expect(() =>
+      assertCrmOutboxPayloadContract('CRM_LIFECYCLE', 'org.unknown.v1', ORG_ID, gstSubmittedPayload()),
+    ).toThrow(CrmOutboxContractError);
+  });
+
+  it('CRMOB-03: non-null gstin and GSTIN-shaped values are rejected', () => {
+    expect(() =>
+      assertCrmOutboxPayloadContract(
+        'CRM_LIFECYCLE',
+        'org.gst.submitted.v1',
+        ORG_ID,
+        gstSubmittedPayload({ gstin: '29ABCDE1234F1Z5' }),
+      ),
+    ).toThrow(/GSTIN_EXCLUDED_IN_V1/);
+
+    expect(() =>
+      assertCrmOutboxPayloadContract(
+        'CRM_LIFECYCLE',
+        'org.gst.submitted.v1',
+        ORG_ID,
+        gstSubmittedPayload({ registration_type: 'GST 29ABCDE1234F1Z5' }),
+      ),
+    ).toThrow(/registration_type/);
+  });
+
+  it('CRMOB-04: email-shaped value outside the allowed field is rejected, without echoing it', () => {
+    let error: unknown;
+    try {
+      assertCrmOutboxPayloadContract(
+        'CRM_LIFECYCLE',
+        'org.gst.submitted.v1',
+        ORG_ID,
+        gstSubmittedPayload({ state_code: 'owner@example.com' }),
+      );
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(CrmOutboxContractError);
+    expect((error as Error).message).toContain('state_code');
+    expect((error as Error).message).not.toContain('owner@example.com');
+  });
+
+  it('CRMOB-05: org_id mismatch and forbidden Tier 0 token fields are rejected', () => {
+    expect(() =>
+      assertCrmOutboxPayloadContract(
+        'CRM_LIFECYCLE',
+        'org.gst.submitted.v1',
+        'bbbbbbbb-0000-0000-0000-000000000002',
+        gstSubmittedPayload(),
+      ),
+    ).toThrow(/org_id/);
+
+    expect(() =>
+      assertCrmOutboxPayloadContract('CRM_TIER0', 'tier0.capture.v1', null, tier0Payload({ inviteToken: 't' })),
+    ).toThrow(/inviteToken/);
+  });
+
+  it('CRMOB-06: maskCrmOutboxPayload masks email / phone / name only', () => {
+    const masked = maskCrmOutboxPayload(tier0Payload({ phone: '+919999999999', city: 'Surat' }));
+    expect(masked.email).toBe('[REDACTED]');
+    expect(masked.phone).toBe('[REDACTED]');
+    expect(masked.name).toBe('[REDACTED]');
+    expect(masked.city).toBe('Surat');
+    expect(masked.roleIntent).toBe('supplier');
+  });
+});
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+describe('enqueueCrmOutboxEvent', () => {
+  it('CRMOB-07: writes a PENDING row and a deduped delivery job', async () => {
+    const db = makeDb();
+
+    const event = await enqueueCrmOutboxEvent(asClient(db), lifecycleInput());
+
+    expect(event.id).toBe(EVENT_ID);
+    const data = db.crmOutboxEvent.create.mock.calls[0][0].data;
+    expect(data).toMatchObject({ channel: 'CRM_LIFECYCLE', eventType: 'org.gst.submitted.v1', orgId: ORG_ID });
+    expect(data).not.toHaveProperty('attempts');
+    expect(db.crmOutboxDeliveryAttempt.create).not.toHaveBeenCalled();
+    expect(db.backgroundJob.create.mock.calls[0][0].data).toMatchObject({
+      jobType:     CRM_OUTBOX_DELIVER_JOB_TYPE,
+      orgId:       ORG_ID,
+      payload:     { eventId: EVENT_ID },
+      maxAttempts: CRM_OUTBOX_MAX_ATTEMPTS,
+      dedupeKey:   `crm-outbox:${EVENT_ID}`,
+    });
+  });
+
+  it('CRMOB-08: contract violation writes nothing', async () => {
+    const db = makeDb();
+
+    await expect(
+      enqueueCrmOutboxEvent(asClient(db), lifecycleInput(gstSubmittedPayload({ review_notes: 'x' }))),
+    ).rejects.toBeInstanceOf(CrmOutboxContractError);
+    expect(db.crmOutboxEvent.create).not.toHaveBeenCalled();
+    expect(db.backgroundJob.create).not.toHaveBeenCalled();
+  });
+
+  it('CRMOB-09: inline attempt is recorded as attempt 1', async () => {
+    const db = makeDb();
+
+    await enqueueCrmOutboxEvent(
+      asClient(db),
+      {
+        channel: 'CRM_TIER0',
+        eventType: 'tier0.capture.v1',
+        orgId: null,
+        idempotencyKey: 'tier0.capture.v1:req-1',
+        payload: tier0Payload(),
+      },
+      { outcome: 'RETRYABLE_FAILURE', httpStatus: 503, errorMessage: 'CRM responded HTTP 503', durationMs: 40 },
+    );
+
+    expect(db.crmOutboxEvent.create.mock.calls[0][0].data).toMatchObject({
+      attempts: 1,
+      lastHttpStatus: 503,
+      lastError: 'CRM responded HTTP 503',
+    });
+    expect(db.crmOutboxDeliveryAttempt.create.mock.calls[0][0].data).toEqual({
+      eventId: EVENT_ID,
+      attemptNo: 1,
+      outcome: 'RETRYABLE_FAILURE',
+      httpStatus: 503,
+      errorMessage: 'CRM responded HTTP 503',
+      durationMs: 40,
+    });
+    expect(db.backgroundJob.create.mock.calls[0][0].data.orgId).toBeNull();
+  });
+});
+
+describe('listCrmOutboxEvents', () => {
+  it('CRMOB-10: applies filters, caps limit and returns the next cursor', async () => {
+    const db = makeDb();
+    const rows = [eventRow({ id: 'e-1' }), eventRow({ id: 'e-2' }), eventRow({ id: 'e-3' })];
+    db.crmOutboxEvent.findMany.mockResolvedValueOnce(rows);
+
+    const page = await listCrmOutboxEvents(asClient(db), { status: 'DEAD_LETTER', limit: 2, cursor: 'e-0' });
+
+    expect(page.events.map(e => e.id)).toEqual(['e-1', 'e-2']);
+    expect(page.nextCursor).toBe('e-2');
+    const args = db.crmOutboxEvent.findMany.mock.calls[0][0];
+    expect(args.where).toEqual({ status: 'DEAD_LETTER' });
+    expect(args.take).toBe(3);
+    expect(args.cursor).toEqual({ id: 'e-0' });
+    expect(args.skip).toBe(1);
+
+    db.crmOutboxEvent.findMany.mockResolvedValueOnce([]);
+    const capped = await listCrmOutboxEvents(asClient(db), { limit: 1000 });
+    expect(db.crmOutboxEvent.findMany.mock.calls[1][0].take).toBe(101);
+    expect(capped.nextCursor).toBeNull();
+  });
+});
+
+describe('replayCrmOutboxEvent', () => {
+  it('CRMOB-11: DEAD_LETTER → PENDING with a fresh delivery job; PENDING is rejected', async () => {
+    const db = makeDb();
+    db.crmOutboxEvent.findUnique
+      .mockResolvedValueOnce(eventRow({ status: 'DEAD_LETTER' }))
+      .mockResolvedValueOnce(eventRow({ status: 'PENDING' }));
+
+    const replayed = await replayCrmOutboxEvent(asClient(db), EVENT_ID);
+
+    expect(replayed.status).toBe('PENDING');
+    expect(db.crmOutboxEvent.updateMany.mock.calls[0][0]).toEqual({
+      where: { id: EVENT_ID, status: { in: ['DEAD_LETTER', 'DELIVERED'] } },
+      data:  { status: 'PENDING', deadLetteredAt: null },
+    });
+    expect(db.backgroundJob.create).toHaveBeenCalledOnce();
+
+    db.crmOutboxEvent.findUnique.mockResolvedValueOnce(eventRow({ status: 'PENDING' }));
+    await expect(replayCrmOutboxEvent(asClient(db), EVENT_ID)).rejects.toBeInstanceOf(CrmOutboxEventStateError);
+  });
+});
+
+describe('deadLetterCrmOutboxEvent', () => {
+  it('CRMOB-12: PENDING → DEAD_LETTER; missing or non-PENDING rejected', async () => {
+    const db = makeDb();
+    db.crmOutboxEvent.findUnique
+      .mockResolvedValueOnce(eventRow())
+      .mockResolvedValueOnce(eventRow({ status: 'DEAD_LETTER' }));
+
+    await deadLetterCrmOutboxEvent(asClient(db), EVENT_ID);
+    expect(db.crmOutboxEvent.updateMany.mock.calls[0][0].data).toMatchObject({
+      status:    'DEAD_LETTER',
+      lastError: CRM_OUTBOX_MANUAL_DEAD_LETTER_REASON,
+    });
+
+    db.crmOutboxEvent.findUnique.mockResolvedValueOnce(null);
+    await expect(deadLetterCrmOutboxEvent(asClient(db), EVENT_ID)).rejects.toBeInstanceOf(CrmOutboxEventNotFoundError);
+
+    db.crmOutboxEvent.findUnique.mockResolvedValueOnce(eventRow({ status: 'DELIVERED' }));
+    await expect(deadLetterCrmOutboxEvent(asClient(db), EVENT_ID)).rejects.toBeInstanceOf(CrmOutboxEventStateError);
+  });
+});
+
+// ─── Dispatcher ───────────────────────────────────────────────────────────────
+
+describe('classifyCrmSendResult', () => {
+  it('CRMOB-13: classifies 2xx / 408 / 429 / 5xx / other 4xx / network', () => {
+    const sent = (http_status: number) => ({ dispatch_status: 'SENT' as const, http_status });
+    expect(classifyCrmSendResult(sent(201)).outcome).toBe('DELIVERED');
+    expect(classifyCrmSendResult(sent(408)).outcome).toBe('RETRYABLE_FAILURE');
+    expect(classifyCrmSendResult(sent(429)).outcome).toBe('RETRYABLE_FAILURE');
+    expect(classifyCrmSendResult(sent(502)).outcome).toBe('RETRYABLE_FAILURE');
+    expect(classifyCrmSendResult(sent(400)).outcome).toBe('PERMANENT_FAILURE');
+    expect(classifyCrmSendResult(sent(401)).outcome).toBe('PERMANENT_FAILURE');
+    expect(
+      classifyCrmSendResult({ dispatch_status: 'FAILED', error_message: 'CRM lifecycle notify timed out' }),
+    ).toEqual({ outcome: 'RETRYABLE_FAILURE', httpStatus: null, errorMessage: 'CRM lifecycle notify timed out' });
+  });
+});
+
+describe('deliverCrmOutboxEvent', () => {
+  it('CRMOB-14: 2xx → DELIVERED with an attempt row', async () => {
+    const db = makeDb();
+    db.crmOutboxEvent.findUnique.mockResolvedValueOnce(eventRow({ attempts: 2 }));
+    vi.mocked(sendCrmLifecycleEvent).mockResolvedValueOnce({ dispatch_status: 'SENT', http_status: 200 });
+
+    const result = await deliverCrmOutboxEvent(asClient(db), EVENT_ID, { attempt: 1, maxAttempts: 8 });
+
+    expect(result).toBe('DELIVERED');
+    expect(db.crmOutboxDeliveryAttempt.create.mock.calls[0][0].data).toMatchObject({
+      eventId: EVENT_ID,
+      attemptNo: 3,
+      outcome: 'DELIVERED',
+      httpStatus: 200,
+    });
+    const update = db.crmOutboxEvent.updateMany.mock.calls[0][0];
+    expect(update.where).toEqual({ id: EVENT_ID, status: 'PENDING' });
+    expect(update.data.status).toBe('DELIVERED');
+    expect(update.data.deliveredAt).toBeInstanceOf(Date);
+  });
+
+  it('CRMOB-15: retryable failure stays PENDING and throws a retryable Error', async () => {
+    const db = makeDb();
+    db.crmOutboxEvent.findUnique.mockResolvedValueOnce(eventRow());
+    vi.mocked(sendCrmLifecycleEvent).mockResolvedValueOnce({ dispatch_status: 'SENT', http_status: 503 });
+
+    const promise = deliverCrmOutboxEvent(asClient(db), EVENT_ID, { attempt: 3, maxAttempts: 8 });
+
+    await expect(promise).rejects.toThrow('CRM responded HTTP 503');
+    await expect(promise).rejects.not.toBeInstanceOf(NonRetryableJobError);
+    expect(db.crmOutboxEvent.updateMany.mock.calls[0][0].data.status).toBe('PENDING');
+  });
+
+  it('CRMOB-16: retryable on the final attempt, or permanent failure → DEAD_LETTER', async () => {
+    const db = makeDb();
+    db.crmOutboxEvent.findUnique.mockResolvedValue(eventRow());
+    vi.mocked(sendCrmLifecycleEvent)
+      .mockResolvedValueOnce({ dispatch_status: 'FAILED', error_message: 'CRM lifecycle notify network error' })
+      .mockResolvedValueOnce({ dispatch_status: 'SENT', http_status: 400 });
+
+    await expect(
+      deliverCrmOutboxEvent(asClient(db), EVENT_ID, { attempt: 8, maxAttempts: 8 }),
+    ).rejects.toThrow('network error');
+    expect(db.crmOutboxEvent.updateMany.mock.calls[0][0].data.status).toBe('DEAD_LETTER');
+
+    await expect(
+      deliverCrmOutboxEvent(asClient(db), EVENT_ID, { attempt: 1, maxAttempts: 8 }),
+    ).rejects.toBeInstanceOf(NonRetryableJobError);
+    const update = db.crmOutboxEvent.updateMany.mock.calls[1][0].data;
+    expect(update.status).toBe('DEAD_LETTER');
+    expect(update.deadLetteredAt).toBeInstanceOf(Date);
+    expect(db.crmOutboxDeliveryAttempt.create.mock.calls[1][0].data.outcome).toBe('PERMANENT_FAILURE');
+  });
+
+  it('CRMOB-17: non-PENDING event is skipped; missing event → NonRetryableJobError', async () => {
+    const db = makeDb();
+    db.crmOutboxEvent.findUnique.mockResolvedValueOnce(eventRow({ status: 'DEAD_LETTER' }));
+
+    await expect(
+      deliverCrmOutboxEvent(asClient(db), EVENT_ID, { attempt: 1, maxAttempts: 8 }),
+    ).resolves.toBe('SKIPPED');
+    expect(sendCrmLifecycleEvent).not.toHaveBeenCalled();
+    expect(db.crmOutboxDeliveryAttempt.create).not.toHaveBeenCalled();
+
+    db.crmOutboxEvent.findUnique.mockResolvedValueOnce(null);
+    await expect(
+      deliverCrmOutboxEvent(asClient(db), EVENT_ID, { attempt: 1, maxAttempts: 8 }),
+    ).rejects.toBeInstanceOf(NonRetryableJobError);
+  });
+
+  it('CRMOB-18: channel not configured → retryable failure without a send; Tier 0 routes to its client', async () => {
+    const db = makeDb();
+    db.crmOutboxEvent.findUnique.mockResolvedValueOnce(eventRow());
+    vi.mocked(getCrmLifecycleConfig).mockReturnValueOnce(null);
+
+    await expect(
+      deliverCrmOutboxEvent(asClient(db), EVENT_ID, { attempt: 1, maxAttempts: 8 }),
+    ).rejects.toThrow('not configured');
+    expect(sendCrmLifecycleEvent).not.toHaveBeenCalled();
+
+    db.crmOutboxEvent.findUnique.mockResolvedValueOnce(
+      eventRow({ channel: 'CRM_TIER0', eventType: 'tier0.capture.v1', orgId: null, payload: tier0Payload() }),
+    );
+    vi.mocked(notifyCrmTier0Capture).mockResolvedValueOnce({ status: 201, ack: null });
+
+    await expect(
+      deliverCrmOutboxEvent(asClient(db), EVENT_ID, { attempt: 2, maxAttempts: 8 }),
+    ).resolves.toBe('DELIVERED');
+    expect(vi.mocked(notifyCrmTier0Capture).mock.calls[0][0]).toBe('https://crm.texqtic.test');
+  });
+});
@@ -92,6 +92,11 @@ vi.mock('../middleware/auth.js', () => ({
   databaseContextMiddleware: vi.fn((_req: unknown, _rep: unknown, done: () => void) => done()),
 }));
 
+// MFA-001 step-up on /transition: these tests cover the escrow contract, not MFA
+vi.mock('../middleware/mfaStepUp.js', () => ({
+  requireMfaStepUp: vi.fn((_req: unknown, _rep: unknown, done: () => void) => done()),
+}));
+
 // Mock database-context middleware
 vi.mock('../middleware/database-context.middleware.js', () => ({
   databaseContextMiddleware: vi.fn((_req: unknown, _rep: unknown, done: () => void) => done()),
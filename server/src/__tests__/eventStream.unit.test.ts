@@ -0,0 +1,483 @@
+/**
+ * Unit Tests — Live Event Stream (cursor, resume, filters, backpressure, limits)
+ * EVENT-STREAM-001
+ *
+ * Runs against an in-memory stand-in for event_logs and a fake SseStream — no real
+ * database or socket. The reader hook lets a test change the table between polls.
+ *
+ * Test IDs:
+ *   ES-01  eventStreamWhere — name prefix, tenant and realm filters
+ *   ES-02  EventLogCursor — floor trails the db clock, holds on full batches, bounded id set
+ *   ES-03  runEventStream — ready frame, ordered event_log frames with ids, filters, late commits
+ *   ES-04  runEventStream — Last-Event-ID resume; unknown / too old ids start from now
+ *   ES-05  runEventStream — waits for drain; SLOW_CONSUMER when the client does not drain
+ *   ES-06  runEventStream — reconnect at max lifetime, error frame on read failure
+ *   ES-07  EventStreamConnectionLimiter — global and per-principal caps, idempotent release
+ */
+
+vi.mock('../config/index.js', () => ({
+  config: {
+    EVENT_STREAM_POLL_INTERVAL_MS: 1_000,
+    EVENT_STREAM_MAX_CONNECTIONS: 200,
+  },
+}));
+
+import { describe, it, expect, vi } from 'vitest';
+import type { EventLog } from '@prisma/client';
+import {
+  EventLogCursor,
+  EventStreamConnectionLimiter,
+  eventStreamWhere,
+  runEventStream,
+} from '../services/eventStream/eventStream.service.js';
+import type {
+  EventStreamFilter,
+  EventStreamOptions,
+  EventStreamReader,
+} from '../services/eventStream/eventStream.types.js';
+import type { SseStream } from '../utils/sse.js';
+
+// ─── In-memory event store ────────────────────────────────────────────────────
+
+const TENANT_A = '11111111-1111-4111-8111-111111111111';
+const TENANT_B = '22222222-2222-4222-8222-222222222222';
+const T0 = new Date('2026-03-01T00:00:00.000Z').getTime();
+
+function eventRow(
+  seq: number,
+  name: string,
+  atMs: number,
+  overrides: Partial<EventLog> = {},
+): EventLog {
+  return {
+    id: `00000000-0000-4000-8000-${String(seq).padStart(12, '0')}`,
+    version: 'v1',
+    name,
+    occurredAt: new Date(T0 + atMs),
+    tenantId: TENANT_A,
+    realm: 'TENANT',
+    actorType: 'USER',
+    actorId: null,
+    entityType: 'trade',
+    entityId: `20000000-0000-4000-8000-${String(seq).padStart(12, '0')}`,
+    payloadJson: null,
+    metadataJson: null,
+    auditLogId: `10000000-0000-4000-8000-${String(seq).padStart(12, '0')}`,
+    createdAt: new Date(T0 + atMs),
+    ...overrides,
+  } as EventLog;
+}
+
+type Where = Record<string, unknown>;
+
+function compare(a: unknown, b: unknown): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function matches(row: EventLog, where: Where): boolean {
+  return Object.entries(where).every(([key, cond]) => {
+    if (key === 'AND') return (cond as Where[]).every(part => matches(row, part));
+    const value = (row as unknown as Record<string, unknown>)[key];
+    if (cond instanceof Date) return compare(value, cond) === 0;
+    if (cond !== null && typeof cond === 'object') {
+      const ops = cond as Record<string, unknown>;
+      if ('startsWith' in ops && !String(value).startsWith(String(ops.startsWith))) return false;
+      if ('gte' in ops && compare(value, ops.gte) < 0) return false;
+      if ('lte' in ops && compare(value, ops.lte) > 0) return false;
+      if ('notIn' in ops && (ops.notIn as unknown[]).includes(value)) return false;
+      return true;
+    }
+    return value === cond;
+  });
+}
+
+function createEventStore(initial: EventLog[] = []) {
+  const store = {
+    rows: [...initial],
+    nowMs: T0 + 60_000,
+    failReads: false,
+  };
+
+  const findMany = vi.fn(async (args: {
+    where?: Where;
+    orderBy?: Array<Record<string, 'asc' | 'desc'>>;
+    take?: number;
+  }) => {
+    if (store.failReads) throw new Error('connection lost');
+    const found = store.rows.filter(row => matches(row, args.where ?? {}));
+    const order = args.orderBy ?? [];
+    found.sort((a, b) => {
+      for (const clause of order) {
+        const [field, dir] = Object.entries(clause)[0];
+        const diff = compare(
+          (a as unknown as Record<string, unknown>)[field],
+          (b as unknown as Record<string, unknown>)[field],
+        );
+        if (diff !== 0) return dir === 'asc' ? diff : -diff;
+      }
+      return 0;
+    });
+    return args.take === undefined ? found : found.slice(0, args.take);
+  });
+
+  const tx = {
+    $queryRaw: vi.fn(async () => [{ now: new Date(store.nowMs) }]),
+    eventLog: {
+      findMany,
+      findUnique: vi.fn(async (args: { where: { id: string } }) => {
+        if (store.failReads) throw new Error('connection lost');
+        return store.rows.find(row => row.id === args.where.id) ?? null;
+      }),
+    },
+  };
+
+  return { store, tx };
+}
+
+/**
+ * Reader over the store. `onRead(n)` runs before the n-th read (1 = opening the
+ * cursor, 2 = first poll, …) so a test can insert rows or disconnect the client.
+ */
+function createReader(tx: unknown, onRead: (readNumber: number) => void = () => {}) {
+  let reads = 0;
+  const reader: EventStreamReader = async fn => {
+    reads += 1;
+    onRead(reads);
+    return fn(tx as never);
+  };
+  return reader;
+}
+
+// ─── Fake SSE stream ─────────────────────────────────────────────────────────
+
+interface Frame {
+  event: string;
+  data: Record<string, unknown>;
+  id?: string;
+}
+
+function createFakeStream() {
+  const frames: Frame[] = [];
+  const comments: string[] = [];
+  const listeners: Array<() => void> = [];
+  let closed = false;
+
+  const stream = {
+    bufferedBytes: 0,
+    get opened() {
+      return frames.length > 0;
+    },
+    get closed() {
+      return closed;
+    },
+    send(event: string, data: unknown, id?: string) {
+      if (closed) return;
+      frames.push({ event, data: JSON.parse(JSON.stringify(data)), id });
+    },
+    comment(text: string) {
+      if (!closed) comments.push(text);
+    },
+    drained: vi.fn(async (_timeoutMs: number) => true),
+    onClose(listener: () => void) {
+      if (closed) listener();
+      else listeners.push(listener);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      for (const listener of listeners.splice(0)) listener();
+    },
+    fail(code: string, message: string) {
+      stream.send('error', { code, message });
+      stream.close();
+    },
+  };
+
+  return { stream: stream as typeof stream & SseStream, frames, comments };
+}
+
+const FAST: Partial<EventStreamOptions> = { pollIntervalMs: 1, batchSize: 2, overlapMs: 5_000 };
+
+const eventIds = (frames: Frame[]) => frames.filter(f => f.event === 'event_log').map(f => f.id);
+
+// ─── ES-01 ────────────────────────────────────────────────────────────────────
+
+describe('ES-01 eventStreamWhere', () => {
+  it('maps the filters onto event_logs columns', () => {
+    expect(eventStreamWhere({})).toEqual({});
+    expect(eventStreamWhere({ namePrefix: 'trade.', tenantId: TENANT_A, realm: 'TENANT' })).toEqual({
+      name: { startsWith: 'trade.' },
+      tenantId: TENANT_A,
+      realm: 'TENANT',
+    });
+  });
+});
+
+// ─── ES-02 ────────────────────────────────────────────────────────────────────
+
+describe('ES-02 EventLogCursor', () => {
+  const options = { overlapMs: 5_000, maxSeenIds: 3 };
+
+  it('trails the database clock by the overlap window and skips ids already sent', () => {
+    const cursor = new EventLogCursor(new Date(T0), options);
+    const rows = [eventRow(1, 'a', 1_000), eventRow(2, 'a', 2_000)];
+    cursor.advance(rows, new Date(T0 + 4_000), false);
+    expect(cursor.floor.getTime()).toBe(T0);
+
+    cursor.advance([], new Date(T0 + 6_500), false);
+    expect(cursor.floor.getTime()).toBe(T0 + 1_500);
+    expect(cursor.seenCount).toBe(1);
+    expect(cursor.where({ realm: 'TENANT' })).toEqual({
+      AND: [
+        { realm: 'TENANT' },
+        { createdAt: { gte: new Date(T0 + 1_500) } },
+        { id: { notIn: [rows[1].id] } },
+      ],
+    });
+  });
+
+  it('does not move past the last row of a full batch', () => {
+    const cursor = new EventLogCursor(new Date(T0), options);
+    cursor.advance([eventRow(1, 'a', 1_000), eventRow(2, 'a', 2_000)], new Date(T0 + 3_600_000), true);
+    expect(cursor.floor.getTime()).toBe(T0 + 2_000);
+  });
+
+  it('raises the floor above the oldest ids once maxSeenIds is exceeded', () => {
+    const cursor = new EventLogCursor(new Date(T0), options);
+    const rows = [1, 2, 3, 4, 5].map(n => eventRow(n, 'a', n * 100));
+    cursor.advance(rows, new Date(T0 + 1_000), false);
+    expect(cursor.seenCount).toBe(3);
+    expect(cursor.floor.getTime()).toBe(T0 + 201);
+  });
+});
+
+// ─── ES-03 ────────────────────────────────────────────────────────────────────
+
+describe('ES-03 runEventStream delivery', () => {
+  it('sends ready, then new rows in created_at order with their ids', async () => {
+    const old = eventRow(1, 'trade.created', 0);
+    const { store, tx } = createEventStore([old]);
+    const { stream, frames } = createFakeStream();
+    const later = [eventRow(3, 'trade.updated', 61_000), eventRow(2, 'trade.created', 60_500)];
+    const reader = createReader(tx, n => {
+      if (n === 2) store.rows.push(...later);
+      if (n === 4) stream.close();
+    });
+
+    const summary = await runEventStream(stream, reader, {}, null, FAST);
+
+    expect(frames[0]).toMatchObject({ event: 'ready', data: { resumed: false, lastEventId: null } });
+    expect(eventIds(frames)).toEqual([later[1].id, later[0].id]);
+    expect(frames[1].data).toMatchObject({ name: 'trade.created', tenantId: TENANT_A });
+    expect(summary).toMatchObject({ delivered: 2, resumed: false, reason: 'CLIENT_CLOSED' });
+  });
+
+  it('applies name prefix, tenant and realm filters', async () => {
+    const { store, tx } = createEventStore();
+    const { stream, frames } = createFakeStream();
+    const rows = [
+      eventRow(1, 'trade.created', 60_100),
+      eventRow(2, 'rfq.created', 60_200),
+      eventRow(3, 'trade.updated', 60_300, { tenantId: TENANT_B }),
+      eventRow(4, 'trade.settled', 60_400, { realm: 'ADMIN' }),
+    ];
+    const reader = createReader(tx, n => {
+      if (n === 2) store.rows.push(...rows);
+      if (n === 4) stream.close();
+    });
+    const filter: EventStreamFilter = { namePrefix: 'trade.', tenantId: TENANT_A, realm: 'TENANT' };
+
+    await runEventStream(stream, reader, filter, null, FAST);
+
+    expect(eventIds(frames)).toEqual([rows[0].id]);
+    expect(frames[0].data.filter).toEqual({ namePrefix: 'trade.', tenantId: TENANT_A, realm: 'TENANT' });
+  });
+
+  it('delivers a row that commits late with an earlier created_at, exactly once', async () => {
+    const { store, tx } = createEventStore();
+    const { stream, frames } = createFakeStream();
+    const first = eventRow(2, 'trade.updated', 60_500);
+    const late = eventRow(1, 'trade.created', 60_200);
+    const reader = createReader(tx, n => {
+      if (n === 2) store.rows.push(first);
+      if (n === 3) {
+        store.nowMs += 1_000;
+        store.rows.push(late);
+      }
+      if (n === 5) stream.close();
+    });
+
+    await runEventStream(stream, reader, {}, null, FAST);
+
+    expect(eventIds(frames)).toEqual([first.id, late.id]);
+  });
+
+  it('reads a backlog larger than one batch without waiting between polls', async () => {
+    const rows = [1, 2, 3, 4, 5].map(n => eventRow(n, 'trade.created', 60_000 + n));
+    const { store, tx } = createEventStore();
+    const { stream, frames } = createFakeStream();
+    const reader = createReader(tx, n => {
+      if (n === 2) store.rows.push(...rows);
+      // The final, partial batch starts the (long) poll wait; closing ends it early.
+      if (n === 4) setTimeout(() => stream.close(), 20);
+    });
+
+    await runEventStream(stream, reader, {}, null, { ...FAST, pollIntervalMs: 60_000 });
+
+    expect(eventIds(frames)).toEqual(rows.map(row => row.id));
+  });
+});
+
+// ─── ES-04 ────────────────────────────────────────────────────────────────────
+
+describe('ES-04 runEventStream resume', () => {
+  const rows = [
+    eventRow(1, 'trade.created', 10_000),
+    eventRow(2, 'trade.updated', 20_000),
+    eventRow(3, 'trade.settled', 20_000),
+    eventRow(4, 'trade.closed', 30_000),
+  ];
+
+  it('continues after the Last-Event-ID row, including same-timestamp rows', async () => {
+    const { tx } = createEventStore(rows);
+    const { stream, frames } = createFakeStream();
+    const reader = createReader(tx, n => {
+      if (n === 4) stream.close();
+    });
+
+    const summary = await runEventStream(stream, reader, {}, rows[1].id, FAST);
+
+    expect(frames[0].data).toMatchObject({ resumed: true, lastEventId: rows[1].id });
+    expect(eventIds(frames)).toEqual([rows[2].id, rows[3].id]);
+    expect(summary.resumed).toBe(true);
+  });
+
+  it('starts from now when the id is unknown to the reader or too old', async () => {
+    for (const [lastEventId, overrides] of [
+      ['00000000-0000-4000-8000-999999999999', {}],
+      [rows[0].id, { maxResumeAgeMs: 30_000 }],
+    ] as const) {
+      const { tx } = createEventStore(rows);
+      const { stream, frames } = createFakeStream();
+      const reader = createReader(tx, n => {
+        if (n === 3) stream.close();
+      });
+
+      await runEventStream(stream, reader, {}, lastEventId, { ...FAST, ...overrides });
+
+      expect(frames[0].data).toMatchObject({ resumed: false, lastEventId: null });
+      expect(eventIds(frames)).toEqual([]);
+    }
+  });
+});
+
+// ─── ES-05 ────────────────────────────────────────────────────────────────────
+
+describe('ES-05 runEventStream backpressure', () => {
+  it('waits for the client to drain before reading more', async () => {
+    const { store, tx } = createEventStore();
+    const { stream, frames } = createFakeStream();
+    stream.drained.mockImplementation(async () => {
+      stream.bufferedBytes = 0;
+      return true;
+    });
+    const reader = createReader(tx, n => {
+      if (n === 2) {
+        store.rows.push(eventRow(1, 'trade.created', 60_100));
+        stream.bufferedBytes = 1_000;
+      }
+      if (n === 3) stream.close();
+    });
+
+    const summary = await runEventStream(stream, reader, {}, null, { ...FAST, maxBufferedBytes: 500 });
+
+    expect(stream.drained).toHaveBeenCalledTimes(1);
+    expect(summary).toMatchObject({ delivered: 1, reason: 'CLIENT_CLOSED' });
+    expect(frames.some(f => f.event === 'error')).toBe(false);
+  });
+
+  it('disconnects a client that does not drain in time', async () => {
+    const { store, tx } = createEventStore();
+    const { stream, frames } = createFakeStream();
+    stream.drained.mockResolvedValue(false);
+    const reader = createReader(tx, n => {
+      if (n === 2) {
+        store.rows.push(eventRow(1, 'trade.created', 60_100));
+        stream.bufferedBytes = 1_000;
+      }
+    });
+
+    const summary = await runEventStream(stream, reader, {}, null, {
+      ...FAST,
+      maxBufferedBytes: 500,
+      drainTimeoutMs: 10,
+    });
+
+    expect(stream.drained).toHaveBeenCalledWith(10);
+    expect(frames[frames.length - 1]).toMatchObject({ event: 'error', data: { code: 'SLOW_CONSUMER' } });
+    expect(stream.closed).toBe(true);
+    expect(summary.reason).toBe('SLOW_CONSUMER');
+  });
+});
+
+// ─── ES-06 ────────────────────────────────────────────────────────────────────
+
+describe('ES-06 runEventStream lifetime and errors', () => {
+  it('asks the client to reconnect once the lifetime is over', async () => {
+    const { tx } = createEventStore();
+    const { stream, frames } = createFakeStream();
+
+    const summary = await runEventStream(stream, createReader(tx), {}, null, { ...FAST, maxLifetimeMs: 0 });
+
+    expect(frames.map(f => f.event)).toEqual(['ready', 'reconnect']);
+    expect(stream.closed).toBe(true);
+    expect(summary.reason).toBe('MAX_LIFETIME');
+  });
+
+  it('sends an error frame when a poll fails', async () => {
+    const { store, tx } = createEventStore();
+    const { stream, frames } = createFakeStream();
+    const reader = createReader(tx, n => {
+      if (n === 2) store.failReads = true;
+    });
+
+    const summary = await runEventStream(stream, reader, {}, null, FAST);
+
+    expect(frames[frames.length - 1]).toMatchObject({ event: 'error', data: { code: 'INTERNAL_ERROR' } });
+    expect(summary.reason).toBe('ERROR');
+  });
+
+  it('lets errors opening the cursor propagate before anything is sent', async () => {
+    const { store, tx } = createEventStore();
+    const { stream, frames } = createFakeStream();
+    store.failReads = true;
+
+    await expect(
+      runEventStream(stream, createReader(tx), {}, '00000000-0000-4000-8000-000000000001', FAST),
+    ).rejects.toThrow('connection lost');
+    expect(frames).toEqual([]);
+  });
+});
+
+// ─── ES-07 ────────────────────────────────────────────────────────────────────
+
+describe('ES-07 EventStreamConnectionLimiter', () => {
+  it('caps connections per principal and globally', () => {
+    const limiter = new EventStreamConnectionLimiter(3, 2);
+    const a1 = limiter.acquire('ADMIN:a');
+    const a2 = limiter.acquire('ADMIN:a');
+    expect(a1).not.toBeNull();
+    expect(a2).not.toBeNull();
+    expect(limiter.acquire('ADMIN:a')).toBeNull();
+
+    expect(limiter.acquire('ADMIN:b')).not.toBeNull();
+    expect(limiter.acquire('ADMIN:c')).toBeNull();
+    expect(limiter.activeConnections).toBe(3);
+
+    a1?.();
+    a1?.();
+    expect(limiter.activeConnections).toBe(2);
+    expect(limiter.acquire('ADMIN:c')).not.toBeNull();
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * FX-RATES-001 — FxRateService unit tests
+ *
+ * FX-01  parseFxRateCsv: header, comments, per-line errors
+ * FX-02  resolveRate: IDENTITY / DIRECT / INVERSE, latest effective date wins
+ * FX-03  resolveRate ignores rates effective after asOf; convert throws when none apply
+ * FX-04  convert rounds to 6 dp and carries the rate reference
+ * FX-05  convertWithSnapshot reuses a matching creation snapshot
+ * FX-06  snapshot returns null without a rate, identity snapshot without a row
+ * FX-07  recordRates: inserts, skips identical rows, rejects conflicts (insert-only)
+ * FX-08  recordRates validates every row before writing anything
+ *
+ * In-memory fake of db.fxRate — no real Prisma client.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Prisma, type PrismaClient } from '@prisma/client';
+import {
+  FxRateConflictError,
+  FxRateService,
+  FxRateUnavailableError,
+  FxRateValidationError,
+  parseFxRateCsv,
+} from '../services/fx/fxRate.service.js';
+
+// ─── In-memory fxRate fake ────────────────────────────────────────────────────
+
+type StoredRate = {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: Prisma.Decimal;
+  effectiveDate: Date;
+  source: string;
+  sourceReference: string | null;
+  createdByAdminId: string | null;
+  createdAt: Date;
+};
+
+type RateWhere = {
+  baseCurrency?: string;
+  quoteCurrency?: string;
+  effectiveDate?: Date | { lte: Date };
+  OR?: RateWhere[];
+};
+
+function matches(row: StoredRate, where: RateWhere): boolean {
+  if (where.OR) return where.OR.some(clause => matches(row, clause));
+  if (where.baseCurrency && row.baseCurrency !== where.baseCurrency) return false;
+  if (where.quoteCurrency && row.quoteCurrency !== where.quoteCurrency) return false;
+  if (where.effectiveDate instanceof Date) {
+    return row.effectiveDate.getTime() === where.effectiveDate.getTime();
+  }
+  if (where.effectiveDate) return row.effectiveDate <= where.effectiveDate.lte;
+  return true;
+}
+
+function makeFakeDb() {
+  const rows: StoredRate[] = [];
+  let seq = 0;
+
+  const fxRate = {
+    async findFirst({ where }: { where: RateWhere }) {
+      return (
+        rows
+          .filter(row => matches(row, where))
+          .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime())[0] ?? null
+      );
+    },
+    async findMany({ where }: { where: RateWhere }) {
+      return rows.filter(row => matches(row, where ?? {}));
+    },
+    async create({ data }: { data: Omit<StoredRate, 'id' | 'createdAt'> }) {
+      seq += 1;
+      const row: StoredRate = {
+        ...data,
+        id: `fx-${seq}`,
+        rate: new Prisma.Decimal(data.rate),
+        createdAt: new Date('2026-06-27T00:00:00.000Z'),
+      };
+      rows.push(row);
+      return row;
+    },
+  };
+
+  const seed = (base: string, quote: string, rate: string, date: string) => {
+    seq += 1;
+    const row: StoredRate = {
+      id: `fx-${seq}`,
+      baseCurrency: base,
+      quoteCurrency: quote,
+      rate: new Prisma.Decimal(rate),
+      effectiveDate: new Date(`${date}T00:00:00.000Z`),
+      source: 'MANUAL',
+      sourceReference: null,
+      createdByAdminId: null,
+      createdAt: new Date(),
+    };
+    rows.push(row);
+    return row;
+  };
+
+  return { db: { fxRate } as unknown as PrismaClient, rows, seed };
+}
+
+const JUNE_30 = new Date('2026-06-30T12:00:00.000Z');
+
+// ─── FX-01 ────────────────────────────────────────────────────────────────────
+
+describe('FX-01 parseFxRateCsv', () => {
+  it('parses rows in any column order and skips comments and blank lines', () => {
+    const result = parseFxRateCsv(
+      '# daily feed\nrate,effective_date,base_currency,quote_currency\n\n83.125,2026-06-27,usd,inr\n',
+    );
+    expect(result.errors).toEqual([]);
+    expect(result.rows).toEqual([
+      { baseCurrency: 'usd', quoteCurrency: 'inr', rate: '83.125', effectiveDate: '2026-06-27' },
+    ]);
+  });
+
+  it('reports invalid lines with their line number and keeps valid ones', () => {
+    const result = parseFxRateCsv(
+      'base_currency,quote_currency,rate,effective_date\nUSD,INR,-1,2026-06-27\nEUR,INR,90.5,2026-02-30\nEUR,INR,90.5,2026-06-27',
+    );
+    expect(result.rows).toHaveLength(1);
+    expect(result.errors.map(e => e.line)).toEqual([2, 3]);
+  });
+
+  it('rejects a file whose header lacks a required column', () => {
+    const result = parseFxRateCsv('base_currency,quote_currency,rate\nUSD,INR,83');
+    expect(result.rows).toEqual([]);
+    expect(result.errors[0].message).toContain('effective_date');
+  });
+});
+
+// ─── FX-02 / FX-03 / FX-04 ───────────────────────────────────────────────────
+
+describe('FxRateService.resolveRate / convert', () => {
+  let fake: ReturnType<typeof makeFakeDb>;
+  let svc: FxRateService;
+
+  beforeEach(() => {
+    fake = makeFakeDb();
+    svc = new FxRateService(fake.db, 'INR');
+  });
+
+  it('FX-02: identity conversion needs no stored row', async () => {
+    const ref = await svc.resolveRate('inr', 'INR', JUNE_30);
+    expect(ref).toEqual({
+      fxRateId: null,
+      fromCurrency: 'INR',
+      toCurrency: 'INR',
+      rate: '1',
+      method: 'IDENTITY',
+      effectiveDate: null,
+    });
+  });
+
+  it('FX-02: direct rate uses the latest effective date on or before asOf', async () => {
+    fake.seed('USD', 'INR', '82.5', '2026-06-01');
+    const latest = fake.seed('USD', 'INR', '83.125', '2026-06-27');
+    const ref = await svc.resolveRate('USD', 'INR', JUNE_30);
+    expect(ref).toMatchObject({ fxRateId: latest.id, method: 'DIRECT', rate: '83.125', effectiveDate: '2026-06-27' });
+  });
+
+  it('FX-02: inverse rate is 1/rate when only the reverse pair is stored', async () => {
+    const row = fake.seed('USD', 'INR', '80', '2026-06-27');
+    const ref = await svc.resolveRate('INR', 'USD', JUNE_30);
+    expect(ref).toMatchObject({ fxRateId: row.id, method: 'INVERSE', rate: '0.0125' });
+  });
+
+  it('FX-02: a more recent inverse row beats an older direct row', async () => {
+    fake.seed('EUR', 'INR', '90', '2026-06-01');
+    const inverse = fake.seed('INR', 'EUR', '0.01', '2026-06-20');
+    const ref = await svc.resolveRate('EUR', 'INR', JUNE_30);
+    expect(ref).toMatchObject({ fxRateId: inverse.id, method: 'INVERSE', rate: '100' });
+  });
+
+  it('FX-03: rates effective after asOf are ignored', async () => {
+    fake.seed('USD', 'INR', '83', '2026-07-01');
+    expect(await svc.resolveRate('USD', 'INR', JUNE_30)).toBeNull();
+    await expect(svc.convert(100, 'USD', 'INR', JUNE_30)).rejects.toBeInstanceOf(FxRateUnavailableError);
+  });
+
+  it('FX-04: convert rounds half-up to 6 dp and returns the reference', async () => {
+    const row = fake.seed('USD', 'INR', '83.1234567', '2026-06-27');
+    const conversion = await svc.convert('10.5', 'USD', 'INR', JUNE_30);
+    expect(conversion.convertedAmount).toBe('872.796295');
+    expect(conversion.reference.fxRateId).toBe(row.id);
+  });
+
+  it('FX-05: convertWithSnapshot reuses a snapshot that targets the requested currency', async () => {
+    fake.seed('USD', 'INR', '90', '2026-06-29');
+    const conversion = await svc.convertWithSnapshot(
+      '1000',
+      'USD',
+      {
+        reportingCurrency: 'INR',
+        rate: new Prisma.Decimal('83'),
+        fxRateId: 'fx-snapshot',
+        effectiveDate: new Date('2026-06-01T00:00:00.000Z'),
+      },
+      'INR',
+      JUNE_30,
+    );
+    expect(conversion.convertedAmount).toBe('83000');
+    expect(conversion.reference).toMatchObject({ method: 'SNAPSHOT', fxRateId: 'fx-snapshot', effectiveDate: '2026-06-01' });
+  });
+
+  it('FX-06: snapshot is null when no rate is loaded and identity for the reporting currency', async () => {
+    expect(await svc.snapshot('USD', JUNE_30)).toBeNull();
+    const identity = await svc.snapshot('INR', JUNE_30);
+    expect(identity).toMatchObject({ reportingCurrency: 'INR', fxRateId: null, effectiveDate: null });
+    expect(identity?.rate.toString()).toBe('1');
+  });
+});
+
+// ─── FX-07 / FX-08 ───────────────────────────────────────────────────────────
+
+describe('FxRateService.recordRates', () => {
+  let fake: ReturnType<typeof makeFakeDb>;
+  let svc: FxRateService;
+
+  beforeEach(() => {
+    fake = makeFakeDb();
+    svc = new FxRateService(fake.db);
+  });
+
+  it('FX-07: inserts new rows and skips rows identical to stored rates', async () => {
+    fake.seed('USD', 'INR', '83.125', '2026-06-27');
+    const result = await svc.recordRates({
+      rows: [
+        { baseCurrency: 'usd', quoteCurrency: 'inr', rate: '83.1250', effectiveDate: '2026-06-27' },
+        { baseCurrency: 'EUR', quoteCurrency: 'INR', rate: 90.4, effectiveDate: '2026-06-27' },
+      ],
+      source: 'FILE_FEED',
+      sourceReference: 'rates.csv',
+    });
+    expect(result.unchanged).toBe(1);
+    expect(result.inserted).toHaveLength(1);
+    expect(result.inserted[0]).toMatchObject({
+      baseCurrency: 'EUR',
+      quoteCurrency: 'INR',
+      rate: '90.4',
+      effectiveDate: '2026-06-27',
+      source: 'FILE_FEED',
+      sourceReference: 'rates.csv',
+    });
+  });
+
+  it('FX-07: a different rate for a stored pair and date is a conflict and nothing is written', async () => {
+    fake.seed('USD', 'INR', '83.125', '2026-06-27');
+    await expect(
+      svc.recordRates({
+        rows: [
+          { baseCurrency: 'EUR', quoteCurrency: 'INR', rate: '90', effectiveDate: '2026-06-27' },
+          { baseCurrency: 'USD', quoteCurrency: 'INR', rate: '84', effectiveDate: '2026-06-27' },
+        ],
+        source: 'MANUAL',
+      }),
+    ).rejects.toBeInstanceOf(FxRateConflictError);
+    expect(fake.rows).toHaveLength(1);
+  });
+
+  it('FX-08: one invalid row rejects the whole load', async () => {
+    await expect(
+      svc.recordRates({
+        rows: [
+          { baseCurrency: 'EUR', quoteCurrency: 'INR', rate: '90', effectiveDate: '2026-06-27' },
+          { baseCurrency: 'USD', quoteCurrency: 'USD', rate: '1', effectiveDate: '2026-06-27' },
+        ],
+        source: 'MANUAL',
+      }),
+    ).rejects.toBeInstanceOf(FxRateValidationError);
+    expect(fake.rows).toHaveLength(0);
+  });
+
+  it('FX-08: duplicate pair and date within one load is rejected', async () => {
+    await expect(
+      svc.recordRates({
+        rows: [
+          { baseCurrency: 'EUR', quoteCurrency: 'INR', rate: '90', effectiveDate: '2026-06-27' },
+          { baseCurrency: 'eur', quoteCurrency: 'inr', rate: '91', effectiveDate: '2026-06-27' },
+        ],
+        source: 'MANUAL',
+      }),
+    ).rejects.toThrow(/Duplicate rate/);
+  });
+});
@@ -6,6 +6,9 @@ const { RESOLVER_SECRET, prismaMock, getUserMembershipMock } = vi.hoisted(() =>
   RESOLVER_SECRET: 'test-g026-routing-secret'.padEnd(32, 'x'),
   prismaMock: {
     $transaction: vi.fn(),
+    // Session registry lookups made by tenantAuthMiddleware (no sessions, no force-logout)
+    authSession: { findUnique: vi.fn().mockResolvedValue(null) },
+    sessionRevocation: { findMany: vi.fn().mockResolvedValue([]) },
   },
   getUserMembershipMock: vi.fn(),
 }));
@@ -0,0 +1,470 @@
+/**
+ * Unit Tests — Governance expiry sweeper (service, queue projection, job handler)
+ * GOV-EXPIRY-SWEEP-001
+ *
+ * All Prisma DB calls, audit writes, email and job enqueue are mocked — no real database.
+ *
+ * Test IDs:
+ *   GEXP-01  planSweep — due approvals / sanctions without events; writes nothing
+ *   GEXP-02  planSweep — truncated when more rows than the limit
+ *   GEXP-03  runSweep — approval expiry event + APPROVAL_EXPIRED audit in one tx, no UPDATE
+ *   GEXP-04  runSweep — sanction decay event + SANCTION_DECAYED audit in one tx, no UPDATE
+ *   GEXP-05  runSweep — P2002 (already recorded) counted as skipped, maker not notified
+ *   GEXP-06  runSweep — non-unique DB error propagates
+ *   GEXP-07  runSweep — maker notified by user / admin email; missing maker → NO_RECIPIENT
+ *   GEXP-08  runSweep — notification failure counted as FAILED, sweep continues
+ *   GEXP-09  MakerCheckerService queues — expired rows hidden / reported as EXPIRED
+ *   GEXP-10  scheduleGovernanceExpirySweep — slot dedupe key and runAt
+ *   GEXP-11  job handler — schedules next slot before sweeping
+ *   GEXP-12  createApprovalRequest — re-request after the sweep frees the D-021-B slot
+ *   GEXP-13  createApprovalRequest — a live (unswept) slot holder still blocks
+ */
+
+vi.mock('../config/index.js', () => ({
+  config: { GOV_EXPIRY_SWEEP_INTERVAL_MS: 300_000 },
+}));
+
+vi.mock('../lib/auditLog.js', () => ({
+  writeAuditLog: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../services/email/email.service.js', () => ({
+  sendApprovalExpiredEmail: vi.fn().mockResolvedValue({ status: 'DEV_LOGGED' }),
+}));
+
+vi.mock('../services/jobQueue/jobQueue.service.js', () => ({
+  enqueueJob: vi.fn().mockResolvedValue({ id: 'job-next' }),
+}));
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import { GovernanceExpiryService } from '../services/governanceExpiry.service.js';
+import { MakerCheckerService } from '../services/makerChecker.service.js';
+import type { StateMachineService } from '../services/stateMachine.service.js';
+import {
+  GOVERNANCE_EXPIRY_SWEEP_JOB_TYPE,
+  governanceExpirySweepJobHandler,
+  scheduleGovernanceExpirySweep,
+} from '../workers/governanceExpiryWorker.js';
+import { writeAuditLog } from '../lib/auditLog.js';
+import { sendApprovalExpiredEmail } from '../services/email/email.service.js';
+import { enqueueJob } from '../services/jobQueue/jobQueue.service.js';
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const ORG_ID      = '11111111-1111-1111-1111-111111111111';
+const APPROVAL_ID = '22222222-2222-2222-2222-222222222222';
+const SANCTION_ID = '33333333-3333-3333-3333-333333333333';
+const USER_ID     = '44444444-4444-4444-4444-444444444444';
+const ADMIN_ID    = '55555555-5555-5555-5555-555555555555';
+const ENTITY_ID   = '66666666-6666-6666-6666-666666666666';
+
+const AS_OF = new Date('2026-06-22T12:00:00.000Z');
+
+function approvalRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id:                   APPROVAL_ID,
+    orgId:                ORG_ID,
+    entityType:           'TRADE',
+    entityId:             ENTITY_ID,
+    fromStateKey:         'NEGOTIATION',
+    toStateKey:           'CONTRACTED',
+    status:               'REQUESTED',
+    expiresAt:            new Date('2026-06-22T10:00:00.000Z'),
+    requestedByActorType: 'TENANT_ADMIN',
+    requestedByUserId:    USER_ID,
+    requestedByAdminId:   null,
+    ...overrides,
+  };
+}
+
+function sanctionRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id:           SANCTION_ID,
+    orgId:        ORG_ID,
+    entityType:   null,
+    entityId:     null,
+    sanctionType: 'SUPPRESSION',
+    severity:     2,
+    decaysAt:     new Date('2026-06-22T11:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function uniqueViolation(): Error {
+  return Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+}
+
+// ─── Mock DB ──────────────────────────────────────────────────────────────────
+
+interface MockDb {
+  $transaction: Mock;
+  pendingApproval:     { findMany: Mock; update: Mock; updateMany: Mock };
+  sanction:            { findMany: Mock; update: Mock; updateMany: Mock };
+  approvalExpiryEvent: { create: Mock };
+  sanctionDecayEvent:  { create: Mock };
+  user:                { findUnique: Mock };
+  adminUser:           { findUnique: Mock };
+}
+
+function makeMockDb(opts: { approvals?: unknown[]; sanctions?: unknown[] } = {}): MockDb {
+  const db: MockDb = {
+    $transaction: vi.fn(),
+    pendingApproval: {
+      findMany:   vi.fn().mockResolvedValue(opts.approvals ?? []),
+      update:     vi.fn(),
+      updateMany: vi.fn(),
+    },
+    sanction: {
+      findMany:   vi.fn().mockResolvedValue(opts.sanctions ?? []),
+      update:     vi.fn(),
+      updateMany: vi.fn(),
+    },
+    approvalExpiryEvent: { create: vi.fn().mockResolvedValue({ id: 'aee-1' }) },
+    sanctionDecayEvent:  { create: vi.fn().mockResolvedValue({ id: 'sde-1' }) },
+    user:                { findUnique: vi.fn().mockResolvedValue({ email: 'maker@acme.test' }) },
+    adminUser:           { findUnique: vi.fn().mockResolvedValue({ email: 'ops@texqtic.test' }) },
+  };
+  db.$transaction.mockImplementation(async (fn: (tx: MockDb) => Promise<unknown>) => fn(db));
+  return db;
+}
+
+function service(db: MockDb): GovernanceExpiryService {
+  return new GovernanceExpiryService(db as unknown as PrismaClient);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'info').mockImplementation(() => undefined);
+});
+
+// ─── planSweep ────────────────────────────────────────────────────────────────
+
+describe('GovernanceExpiryService.planSweep', () => {
+  it('GEXP-01: lists due approvals / sanctions without events and writes nothing', async () => {
+    const db = makeMockDb({ approvals: [approvalRow()], sanctions: [sanctionRow()] });
+
+    const plan = await service(db).planSweep(AS_OF, 10);
+
+    const approvalQuery = db.pendingApproval.findMany.mock.calls[0][0];
+    expect(approvalQuery.where).toEqual({
+      status:      { in: ['REQUESTED', 'ESCALATED'] },
+      expiresAt:   { lte: AS_OF },
+      expiryEvent: { is: null },
+    });
+    expect(approvalQuery.take).toBe(11);
+
+    const sanctionQuery = db.sanction.findMany.mock.calls[0][0];
+    expect(sanctionQuery.where).toEqual({
+      status:     'ACTIVE',
+      decaysAt:   { not: null, lte: AS_OF },
+      decayEvent: { is: null },
+    });
+
+    expect(plan.asOf).toBe(AS_OF);
+    expect(plan.truncated).toBe(false);
+    expect(plan.approvals).toEqual([
+      expect.objectContaining({ approvalId: APPROVAL_ID, orgId: ORG_ID, status: 'REQUESTED' }),
+    ]);
+    expect(plan.sanctions).toEqual([
+      expect.objectContaining({ sanctionId: SANCTION_ID, sanctionType: 'SUPPRESSION', severity: 2 }),
+    ]);
+
+    expect(db.$transaction).not.toHaveBeenCalled();
+    expect(db.approvalExpiryEvent.create).not.toHaveBeenCalled();
+    expect(db.sanctionDecayEvent.create).not.toHaveBeenCalled();
+    expect(writeAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('GEXP-02: truncated when more rows than the limit', async () => {
+    const db = makeMockDb({
+      approvals: [approvalRow(), approvalRow({ id: 'a2' }), approvalRow({ id: 'a3' })],
+    });
+
+    const plan = await service(db).planSweep(AS_OF, 2);
+
+    expect(plan.approvals).toHaveLength(2);
+    expect(plan.truncated).toBe(true);
+  });
+});
+
+// ─── runSweep ─────────────────────────────────────────────────────────────────
+
+describe('GovernanceExpiryService.runSweep', () => {
+  it('GEXP-03: approval expiry event + APPROVAL_EXPIRED audit in one tx, never an UPDATE', async () => {
+    const db = makeMockDb({ approvals: [approvalRow({ status: 'ESCALATED' })] });
+
+    const result = await service(db).runSweep(AS_OF);
+
+    expect(result.approvalsExpired).toBe(1);
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+    expect(db.approvalExpiryEvent.create).toHaveBeenCalledWith({
+      data: {
+        approvalId:     APPROVAL_ID,
+        orgId:          ORG_ID,
+        expiredAtDue:   new Date('2026-06-22T10:00:00.000Z'),
+        statusAtExpiry: 'ESCALATED',
+        sweepRunId:     result.sweepRunId,
+      },
+    });
+    expect(writeAuditLog).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({
+        realm:     'TENANT',
+        tenantId:  ORG_ID,
+        actorType: 'SYSTEM',
+        action:    'APPROVAL_EXPIRED',
+        entity:    'pending_approval',
+        entityId:  APPROVAL_ID,
+        metadataJson: expect.objectContaining({ sweepRunId: result.sweepRunId, statusAtExpiry: 'ESCALATED' }),
+      }),
+    );
+    expect(db.pendingApproval.update).not.toHaveBeenCalled();
+    expect(db.pendingApproval.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('GEXP-04: sanction decay event + SANCTION_DECAYED audit in one tx, never an UPDATE', async () => {
+    const db = makeMockDb({ sanctions: [sanctionRow()] });
+
+    const result = await service(db).runSweep(AS_OF);
+
+    expect(result.sanctionsDecayed).toBe(1);
+    expect(db.sanctionDecayEvent.create).toHaveBeenCalledWith({
+      data: {
+        sanctionId: SANCTION_ID,
+        orgId:      ORG_ID,
+        decaysAt:   new Date('2026-06-22T11:00:00.000Z'),
+        sweepRunId: result.sweepRunId,
+      },
+    });
+    expect(writeAuditLog).toHaveBeenCalledWith(
+      db,
+      expect.objectContaining({ action: 'SANCTION_DECAYED', entity: 'sanction', entityId: SANCTION_ID }),
+    );
+    expect(db.sanction.update).not.toHaveBeenCalled();
+    expect(db.sanction.updateMany).not.toHaveBeenCalled();
+    expect(sendApprovalExpiredEmail).not.toHaveBeenCalled();
+  });
+
+  it('GEXP-05: P2002 (already recorded) is skipped and the maker is not notified again', async () => {
+    const db = makeMockDb({ approvals: [approvalRow()], sanctions: [sanctionRow()] });
+    db.approvalExpiryEvent.create.mockRejectedValueOnce(uniqueViolation());
+    db.sanctionDecayEvent.create.mockRejectedValueOnce(uniqueViolation());
+
+    const result = await service(db).runSweep(AS_OF);
+
+    expect(result.approvalsExpired).toBe(0);
+    expect(result.sanctionsDecayed).toBe(0);
+    expect(result.skipped).toBe(2);
+    expect(sendApprovalExpiredEmail).not.toHaveBeenCalled();
+  });
+
+  it('GEXP-06: non-unique DB error propagates', async () => {
+    const db = makeMockDb({ sanctions: [sanctionRow()] });
+    db.sanctionDecayEvent.create.mockRejectedValueOnce(new Error('connection reset'));
+
+    await expect(service(db).runSweep(AS_OF)).rejects.toThrow('connection reset');
+  });
+
+  it('GEXP-07: maker notified by user / admin email; missing maker → NO_RECIPIENT', async () => {
+    const db = makeMockDb({
+      approvals: [
+        approvalRow(),
+        approvalRow({ id: 'a-admin', requestedByUserId: null, requestedByAdminId: ADMIN_ID }),
+        approvalRow({ id: 'a-gone', requestedByUserId: 'deleted-user' }),
+      ],
+    });
+    db.user.findUnique.mockImplementation(async ({ where }: { where: { id: string } }) =>
+      where.id === USER_ID ? { email: 'maker@acme.test' } : null,
+    );
+
+    const result = await service(db).runSweep(AS_OF);
+
+    expect(result.notifications).toEqual({ SENT: 2, NO_RECIPIENT: 1, FAILED: 0 });
+    expect(sendApprovalExpiredEmail).toHaveBeenCalledWith(
+      'maker@acme.test',
+      expect.objectContaining({ approvalId: APPROVAL_ID, entityType: 'TRADE', toStateKey: 'CONTRACTED' }),
+      expect.objectContaining({ tenantId: ORG_ID, triggeredBy: 'system' }),
+    );
+    expect(sendApprovalExpiredEmail).toHaveBeenCalledWith(
+      'ops@texqtic.test',
+      expect.objectContaining({ approvalId: 'a-admin' }),
+      expect.anything(),
+    );
+  });
+
+  it('GEXP-08: notification failure is counted as FAILED and the sweep continues', async () => {
+    const db = makeMockDb({ approvals: [approvalRow(), approvalRow({ id: 'a2' })] });
+    (sendApprovalExpiredEmail as Mock).mockRejectedValueOnce(new Error('SMTP down'));
+
+    const result = await service(db).runSweep(AS_OF);
+
+    expect(result.approvalsExpired).toBe(2);
+    expect(result.notifications).toEqual({ SENT: 1, NO_RECIPIENT: 0, FAILED: 1 });
+  });
+});
+
+// ─── MakerCheckerService queue projection ────────────────────────────────────
+
+describe('MakerCheckerService queues with expiry events', () => {
+  function makerChecker(findMany: Mock): MakerCheckerService {
+    const db = { pendingApproval: { findMany } } as unknown as PrismaClient;
+    return new MakerCheckerService(db, {} as StateMachineService);
+  }
+
+  it('GEXP-09: pending queue hides expired rows; control-plane queue reports them as EXPIRED', async () => {
+    const findMany = vi.fn().mockResolvedValue([]);
+    await makerChecker(findMany).getPendingQueue(ORG_ID);
+    expect(findMany.mock.calls[0][0].where).toEqual({
+      orgId:       ORG_ID,
+      status:      { in: ['REQUESTED', 'ESCALATED'] },
+      expiryEvent: { is: null },
+    });
+
+    findMany.mockReset().mockResolvedValue([
+      { ...approvalRow(), expiryEvent: { id: 'aee-1' } },
+    ]);
+    const rows = await makerChecker(findMany).getControlPlaneQueue({
+      scope:  'CONTROL_PLANE',
+      status: ['EXPIRED'],
+    });
+    expect(findMany.mock.calls[0][0].where).toEqual({
+      OR: [
+        { status: { in: ['EXPIRED'] } },
+        { status: { in: ['REQUESTED', 'ESCALATED'] }, expiryEvent: { isNot: null } },
+      ],
+    });
+    expect(rows[0].status).toBe('EXPIRED');
+    expect(rows[0]).not.toHaveProperty('expiryEvent');
+
+    findMany.mockReset().mockResolvedValue([{ ...approvalRow(), expiryEvent: null }]);
+    const live = await makerChecker(findMany).getControlPlaneQueue({ scope: 'TENANT', orgId: ORG_ID });
+    expect(findMany.mock.calls[0][0].where).toEqual({
+      OR:    [{ status: { in: ['REQUESTED', 'ESCALATED'] }, expiryEvent: { is: null } }],
+      orgId: ORG_ID,
+    });
+    expect(live[0].status).toBe('REQUESTED');
+  });
+});
+
+describe('MakerCheckerService resubmission after expiry', () => {
+  const requestInput = {
+    orgId:                ORG_ID,
+    entityType:           'TRADE' as const,
+    entityId:             ENTITY_ID,
+    fromStateKey:         'negotiation',
+    toStateKey:           'contracted',
+    requestedByActorType: 'TENANT_ADMIN' as const,
+    requestedByUserId:    USER_ID,
+    requestedByRole:      'TRADE_MAKER',
+    requestReason:        'Terms agreed again after the first request lapsed.',
+    frozenPayload:        { tradeId: ENTITY_ID },
+    severityLevel:        2,
+  };
+
+  interface ApprovalDb extends MockDb {
+    pendingApproval: MockDb['pendingApproval'] & { create: Mock; findFirst: Mock };
+  }
+
+  function makeApprovalDb(): ApprovalDb {
+    const db = makeMockDb({ approvals: [approvalRow()] }) as ApprovalDb;
+    db.pendingApproval.create = vi.fn();
+    db.pendingApproval.findFirst = vi.fn();
+    return db;
+  }
+
+  function makerChecker(db: MockDb): MakerCheckerService {
+    return new MakerCheckerService(db as unknown as PrismaClient, {} as StateMachineService);
+  }
+
+  it('GEXP-12: re-requesting the same transition after the sweep creates a new request', async () => {
+    const db = makeApprovalDb();
+    const sweep = await service(db).runSweep(AS_OF);
+    expect(sweep.approvalsExpired).toBe(1);
+    expect(db.pendingApproval.update).not.toHaveBeenCalled();
+    expect(db.pendingApproval.updateMany).not.toHaveBeenCalled();
+
+    // The slot trigger skips the swept row, so the INSERT goes through.
+    const newExpiry = new Date('2026-06-23T12:00:00.000Z');
+    db.pendingApproval.findFirst.mockResolvedValue({ attemptCount: 1 });
+    db.pendingApproval.create.mockResolvedValue({ id: 'approval-2', expiresAt: newExpiry });
+
+    const result = await makerChecker(db).createApprovalRequest(requestInput);
+
+    expect(result).toEqual({ status: 'CREATED', approvalId: 'approval-2', expiresAt: newExpiry });
+    expect(db.pendingApproval.findFirst.mock.calls[0][0].where).toEqual({
+      orgId:        ORG_ID,
+      entityType:   'TRADE',
+      entityId:     ENTITY_ID,
+      fromStateKey: 'NEGOTIATION',
+      toStateKey:   'CONTRACTED',
+      status:       { in: ['REQUESTED', 'ESCALATED'] },
+      expiryEvent:  { isNot: null },
+    });
+    // Append-only: the expired request is never updated.
+    expect(db.pendingApproval.update).not.toHaveBeenCalled();
+    expect(db.pendingApproval.updateMany).not.toHaveBeenCalled();
+    expect(db.pendingApproval.create).toHaveBeenCalledTimes(1);
+    const resubmitted = db.pendingApproval.create.mock.calls[0][0].data;
+    expect(resubmitted.status).toBe('REQUESTED');
+    expect(resubmitted.attemptCount).toBe(2);
+  });
+
+  it('GEXP-13: a slot held by a request without an expiry event still returns ACTIVE_REQUEST_EXISTS', async () => {
+    const db = makeApprovalDb();
+    db.pendingApproval.create.mockRejectedValue(uniqueViolation());
+    db.pendingApproval.findFirst.mockResolvedValue(null);
+
+    const result = await makerChecker(db).createApprovalRequest(requestInput);
+
+    expect(result.status).toBe('ACTIVE_REQUEST_EXISTS');
+    expect(db.pendingApproval.updateMany).not.toHaveBeenCalled();
+    expect(db.pendingApproval.create).toHaveBeenCalledTimes(1);
+    expect(db.pendingApproval.findFirst.mock.invocationCallOrder[0])
+      .toBeLessThan(db.pendingApproval.create.mock.invocationCallOrder[0]);
+  });
+});
+
+// ─── Job scheduling ───────────────────────────────────────────────────────────
+
+describe('governance.expiry.sweep job', () => {
+  it('GEXP-10: schedules the current / next slot with a slot dedupe key', async () => {
+    const db = {} as PrismaClient;
+    const now = new Date(900_000 + 12_345); // slot 3 of a 300s interval
+
+    await scheduleGovernanceExpirySweep(db, now);
+    expect(enqueueJob).toHaveBeenLastCalledWith(db, {
+      jobType:   GOVERNANCE_EXPIRY_SWEEP_JOB_TYPE,
+      orgId:     null,
+      payload:   { slot: 3 },
+      runAt:     now,
+      dedupeKey: 'slot:3',
+    });
+
+    await scheduleGovernanceExpirySweep(db, now, { nextSlot: true });
+    expect(enqueueJob).toHaveBeenLastCalledWith(db, expect.objectContaining({
+      payload:   { slot: 4 },
+      runAt:     new Date(1_200_000),
+      dedupeKey: 'slot:4',
+    }));
+  });
+
+  it('GEXP-11: handler enqueues the next slot before running the sweep', async () => {
+    const db = makeMockDb({ sanctions: [sanctionRow()] });
+    const order: string[] = [];
+    (enqueueJob as Mock).mockImplementationOnce(async () => { order.push('schedule'); return { id: 'j' }; });
+    db.sanction.findMany.mockImplementationOnce(async () => { order.push('sweep'); return [sanctionRow()]; });
+
+    expect(governanceExpirySweepJobHandler.scope).toBe('system');
+    await governanceExpirySweepJobHandler.handle(db as unknown as PrismaClient, { slot: 1 }, {
+      jobId: 'job-1', jobType: GOVERNANCE_EXPIRY_SWEEP_JOB_TYPE, orgId: null,
+      attempt: 1, maxAttempts: 5, requestId: 'req-1',
+    });
+
+    expect(order).toEqual(['schedule', 'sweep']);
+    expect(enqueueJob).toHaveBeenCalledWith(db, expect.objectContaining({ dedupeKey: expect.stringMatching(/^slot:\d+$/) }));
+    expect(db.sanctionDecayEvent.create).toHaveBeenCalledTimes(1);
+  });
+});
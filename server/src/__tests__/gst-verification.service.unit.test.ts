@@ -1368,13 +1368,44 @@ describe('GstVerificationService — CRM lifecycle events', () => {
       expect(vi.mocked(notifyAdminReviewedApproved)).not.toHaveBeenCalled();
     });
 
-    it('CRM sender failure does not fail provider auto-approval path', async () => {
-      vi.mocked(notifyAdminReviewedApproved).mockRejectedValueOnce(new Error('CRM network failure'));
+    it('CRM outbox write failure propagates so the auto-approval transaction rolls back', async () => {
+      vi.mocked(notifyAdminReviewedApproved).mockRejectedValueOnce(new Error('outbox insert failed'));
+      const db = makeAutoApprovalDb();
+      const svc = new GstVerificationService(db, makeAutoApprovalProvider());
+
+      // Outbox posture: the lifecycle event commits (or rolls back) with the state change
+      await expect(svc.submitVerification(ORG_ID, BASE_SUBMIT_INPUT)).rejects.toThrow('outbox insert failed');
+    });
+
+    it('auto-approval lifecycle event is written with the service transaction client', async () => {
+      vi.mocked(notifyAdminReviewedApproved).mockClear();
+      const db = makeAutoApprovalDb();
+      const svc = new GstVerificationService(db, makeAutoApprovalProvider());
+
+      await svc.submitVerification(ORG_ID, BASE_SUBMIT_INPUT);
+
+      expect(vi.mocked(notifyAdminReviewedApproved).mock.calls[0][1]).toBe(db);
+      // Only ids and the review category reach the outbox — never the GSTIN
+      expect(vi.mocked(notifyAdminReviewedApproved).mock.calls[0][0]).toEqual({
+        orgId: ORG_ID,
+        tenantId: ORG_ID,
+        reviewNotesCategory: 'AUTO_APPROVED',
+      });
+    });
+
+    it('CRM outage does not fail provider auto-approval — the event is only queued', async () => {
+      vi.mocked(notifyAdminReviewedApproved).mockResolvedValueOnce({
+        dispatch_status: 'QUEUED',
+        outbox_event_id: 'evt-0001',
+      });
+      const fetchSpy = vi.fn(() => Promise.reject(new Error('CRM network failure')));
+      vi.stubGlobal('fetch', fetchSpy);
       const db = makeAutoApprovalDb();
       const svc = new GstVerificationService(db, makeAutoApprovalProvider());
 
-      // Must resolve without throwing even if CRM sender throws
       await expect(svc.submitVerification(ORG_ID, BASE_SUBMIT_INPUT)).resolves.toBeDefined();
+      expect(fetchSpy).not.toHaveBeenCalled();
+      vi.unstubAllGlobals();
     });
 
     it('manual admin approval CRM behavior is unchanged after auto-approval fix', async () => {
@@ -0,0 +1,403 @@
+/**
+ * Unit Tests — Catalog inventory (stock lots, reservations, availability)
+ * CATALOG-INVENTORY-001
+ *
+ * All Prisma DB calls are mocked — no real database.
+ *
+ * Test IDs:
+ *   INV-01  deriveStockAvailability — untracked null; OUT / LOW / IN thresholds
+ *   INV-02  allocateFromLots — FIFO split across lots; null when short
+ *   INV-03  reserveStockForOrder — untracked lines never touch stock
+ *   INV-04  reserveStockForOrder — FIFO reservation rows + reserved_qty increments
+ *   INV-05  reserveStockForOrder — two lines on one item share the locked lots
+ *   INV-06  reserveStockForOrder — shortfall throws InsufficientStockError, writes nothing
+ *   INV-07  releaseOrderReservations — lots locked by id first; reserved_qty decremented, rows RELEASED
+ *   INV-08  consumeOrderReservations — on_hand and reserved decremented, rows CONSUMED
+ *   INV-09  receiveStock — new lot linked to TraceabilityNode by batchId; existing lot incremented
+ *   INV-10  adjustStockLot — rejects going below reserved; applies valid delta
+ *   INV-11  loadCatalogAvailability — no stock query when nothing is tracked
+ *   INV-12  B2C projection — availability flag projected, quantities never exposed
+ *   INV-13  reserveStockForOrder — all tracked items' lots locked in one id-ordered statement
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import {
+  InsufficientStockError,
+  StockAdjustmentError,
+  adjustStockLot,
+  allocateFromLots,
+  consumeOrderReservations,
+  deriveStockAvailability,
+  loadCatalogAvailability,
+  receiveStock,
+  releaseOrderReservations,
+  reserveStockForOrder,
+} from '../services/inventory/inventory.service.js';
+import { listPublicB2CProducts } from '../services/publicB2CProjection.service.js';
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const TENANT_ID = '11111111-1111-1111-1111-111111111111';
+const ORDER_ID  = '22222222-2222-2222-2222-222222222222';
+const ITEM_A    = '33333333-3333-3333-3333-333333333333';
+const ITEM_B    = '44444444-4444-4444-4444-444444444444';
+const LOT_1     = '55555555-5555-5555-5555-555555555551';
+const LOT_2     = '55555555-5555-5555-5555-555555555552';
+const LOCATION  = '66666666-6666-6666-6666-666666666666';
+const NODE_ID   = '77777777-7777-7777-7777-777777777777';
+const LOT_OLDER = new Date('2026-06-01T00:00:00Z');
+const LOT_NEWER = new Date('2026-06-10T00:00:00Z');
+
+function lot(id: string, catalogItemId: string, createdAt: Date, onHand: number, reserved: number) {
+  return { id, catalog_item_id: catalogItemId, created_at: createdAt, on_hand_qty: onHand, reserved_qty: reserved };
+}
+
+function lockSql(tx: ReturnType<typeof makeTx>, call = 0): Prisma.Sql {
+  return tx.$queryRaw.mock.calls[call][0] as Prisma.Sql;
+}
+
+function makeTx(overrides: {
+  trackedIds?: string[];
+  lockedLots?: Array<{
+    id: string;
+    catalog_item_id: string;
+    created_at: Date;
+    on_hand_qty: number;
+    reserved_qty: number;
+  }>;
+  activeReservations?: Array<{ id: string; stockLotId: string; quantity: number }>;
+  existingLot?: { id: string } | null;
+  traceabilityNode?: { id: string } | null;
+} = {}) {
+  const tx = {
+    $queryRaw: vi.fn().mockResolvedValue(overrides.lockedLots ?? []),
+    catalogItem: {
+      findMany: vi.fn().mockResolvedValue((overrides.trackedIds ?? []).map(id => ({ id }))),
+    },
+    traceabilityNode: {
+      findFirst: vi.fn().mockResolvedValue(overrides.traceabilityNode ?? null),
+    },
+    inventoryStockLot: {
+      findFirst: vi.fn().mockResolvedValue(overrides.existingLot ?? null),
+      create:    vi.fn().mockImplementation(async ({ data }) => ({ id: LOT_1, ...data })),
+      update:    vi.fn().mockImplementation(async ({ where }) => ({ id: where.id, onHandQty: 0, reservedQty: 0 })),
+      groupBy:   vi.fn().mockResolvedValue([]),
+    },
+    inventoryReservation: {
+      create:   vi.fn().mockResolvedValue({}),
+      findMany: vi.fn().mockResolvedValue(overrides.activeReservations ?? []),
+      update:   vi.fn().mockResolvedValue({}),
+    },
+  };
+  return tx;
+}
+
+function asTx(tx: ReturnType<typeof makeTx>): Prisma.TransactionClient {
+  return tx as unknown as Prisma.TransactionClient;
+}
+
+// ─── INV-01 / INV-02: pure helpers ────────────────────────────────────────────
+
+describe('deriveStockAvailability', () => {
+  it('INV-01: null for untracked items; OUT / LOW / IN by available vs threshold', () => {
+    expect(deriveStockAvailability(false, 0, 5)).toBeNull();
+    expect(deriveStockAvailability(true, 0, 5)).toBe('OUT_OF_STOCK');
+    expect(deriveStockAvailability(true, -2, null)).toBe('OUT_OF_STOCK');
+    expect(deriveStockAvailability(true, 5, 5)).toBe('LOW_STOCK');
+    expect(deriveStockAvailability(true, 6, 5)).toBe('IN_STOCK');
+    expect(deriveStockAvailability(true, 1, null)).toBe('IN_STOCK');
+  });
+});
+
+describe('allocateFromLots', () => {
+  it('INV-02: takes from the oldest lot first and splits across lots', () => {
+    expect(allocateFromLots([{ id: LOT_1, available: 3 }, { id: LOT_2, available: 10 }], 5)).toEqual([
+      { stockLotId: LOT_1, quantity: 3 },
+      { stockLotId: LOT_2, quantity: 2 },
+    ]);
+    expect(allocateFromLots([{ id: LOT_1, available: 0 }, { id: LOT_2, available: 4 }], 4)).toEqual([
+      { stockLotId: LOT_2, quantity: 4 },
+    ]);
+    expect(allocateFromLots([{ id: LOT_1, available: 3 }], 4)).toBeNull();
+  });
+});
+
+// ─── INV-03..06: reservations at checkout ─────────────────────────────────────
+
+describe('reserveStockForOrder', () => {
+  it('INV-03: untracked items do not lock or reserve stock', async () => {
+    const tx = makeTx({ trackedIds: [] });
+
+    const result = await reserveStockForOrder(asTx(tx), {
+      tenantId: TENANT_ID,
+      orderId:  ORDER_ID,
+      lines:    [{ orderItemId: 'oi-1', catalogItemId: ITEM_A, quantity: 10 }],
+    });
+
+    expect(result).toEqual([]);
+    expect(tx.$queryRaw).not.toHaveBeenCalled();
+    expect(tx.inventoryReservation.create).not.toHaveBeenCalled();
+  });
+
+  it('INV-04: reserves FIFO across lots and increments reserved_qty', async () => {
+    const tx = makeTx({
+      trackedIds: [ITEM_A],
+      lockedLots: [
+        lot(LOT_2, ITEM_A, LOT_NEWER, 10, 0),
+        lot(LOT_1, ITEM_A, LOT_OLDER, 5, 3),
+      ],
+    });
+
+    const result = await reserveStockForOrder(asTx(tx), {
+      tenantId: TENANT_ID,
+      orderId:  ORDER_ID,
+      lines:    [
+        { orderItemId: 'oi-1', catalogItemId: ITEM_A, quantity: 4 },
+        { orderItemId: 'oi-2', catalogItemId: ITEM_B, quantity: 99 },
+      ],
+    });
+
+    expect(result).toEqual([
+      { orderItemId: 'oi-1', catalogItemId: ITEM_A, stockLotId: LOT_1, quantity: 2 },
+      { orderItemId: 'oi-1', catalogItemId: ITEM_A, stockLotId: LOT_2, quantity: 2 },
+    ]);
+    expect(tx.inventoryStockLot.update).toHaveBeenCalledWith({
+      where: { id: LOT_1 },
+      data:  { reservedQty: { increment: 2 } },
+    });
+    expect(tx.inventoryReservation.create).toHaveBeenCalledWith({
+      data: {
+        tenantId:      TENANT_ID,
+        orderId:       ORDER_ID,
+        orderItemId:   'oi-1',
+        catalogItemId: ITEM_A,
+        stockLotId:    LOT_2,
+        quantity:      2,
+      },
+    });
+    expect(tx.inventoryReservation.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('INV-05: two lines for the same item draw on one lock of its lots', async () => {
+    const tx = makeTx({
+      trackedIds: [ITEM_A],
+      lockedLots: [lot(LOT_1, ITEM_A, LOT_OLDER, 6, 0)],
+    });
+
+    await expect(reserveStockForOrder(asTx(tx), {
+      tenantId: TENANT_ID,
+      orderId:  ORDER_ID,
+      lines:    [
+        { orderItemId: 'oi-1', catalogItemId: ITEM_A, quantity: 4 },
+        { orderItemId: 'oi-2', catalogItemId: ITEM_A, quantity: 3 },
+      ],
+    })).rejects.toMatchObject({ catalogItemId: ITEM_A, requested: 3, available: 2 });
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('INV-06: shortfall throws InsufficientStockError before any write', async () => {
+    const tx = makeTx({
+      trackedIds: [ITEM_A],
+      lockedLots: [lot(LOT_1, ITEM_A, LOT_OLDER, 2, 1)],
+    });
+
+    const err = await reserveStockForOrder(asTx(tx), {
+      tenantId: TENANT_ID,
+      orderId:  ORDER_ID,
+      lines:    [{ orderItemId: 'oi-1', catalogItemId: ITEM_A, quantity: 2 }],
+    }).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(InsufficientStockError);
+    expect(err).toMatchObject({ requested: 2, available: 1 });
+    expect(tx.inventoryStockLot.update).not.toHaveBeenCalled();
+    expect(tx.inventoryReservation.create).not.toHaveBeenCalled();
+  });
+
+  it('INV-13: lots of every tracked item are locked in one statement, in lot id order', async () => {
+    const tx = makeTx({
+      trackedIds: [ITEM_B, ITEM_A],
+      lockedLots: [
+        lot(LOT_1, ITEM_B, LOT_OLDER, 5, 0),
+        lot(LOT_2, ITEM_A, LOT_OLDER, 5, 0),
+      ],
+    });
+
+    const result = await reserveStockForOrder(asTx(tx), {
+      tenantId: TENANT_ID,
+      orderId:  ORDER_ID,
+      lines:    [
+        { orderItemId: 'oi-1', catalogItemId: ITEM_B, quantity: 1 },
+        { orderItemId: 'oi-2', catalogItemId: ITEM_A, quantity: 2 },
+      ],
+    });
+
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(lockSql(tx).sql).toMatch(/ORDER BY l\.id ASC\s+FOR UPDATE OF l/);
+    expect(lockSql(tx).values).toContainEqual(expect.arrayContaining([ITEM_A, ITEM_B]));
+    expect(result.map(a => [a.catalogItemId, a.stockLotId])).toEqual([
+      [ITEM_B, LOT_1],
+      [ITEM_A, LOT_2],
+    ]);
+  });
+});
+
+// ─── INV-07 / INV-08: settlement on order status ──────────────────────────────
+
+describe('order reservation settlement', () => {
+  const now = new Date('2026-06-23T10:00:00Z');
+  const active = [
+    { id: 'r-1', stockLotId: LOT_1, quantity: 2 },
+    { id: 'r-2', stockLotId: LOT_2, quantity: 3 },
+  ];
+
+  it('INV-07: CANCELLED releases reserved stock', async () => {
+    const tx = makeTx({ activeReservations: active });
+
+    const result = await releaseOrderReservations(asTx(tx), ORDER_ID, now);
+
+    expect(result).toEqual({ reservationCount: 2, quantity: 5 });
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(lockSql(tx).sql).toMatch(/ORDER BY id ASC\s+FOR UPDATE/);
+    expect(lockSql(tx).values).toContainEqual([LOT_1, LOT_2]);
+    expect(tx.$queryRaw.mock.invocationCallOrder[0])
+      .toBeLessThan(tx.inventoryStockLot.update.mock.invocationCallOrder[0]);
+    expect(tx.inventoryReservation.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { orderId: ORDER_ID, status: 'ACTIVE' },
+    }));
+    expect(tx.inventoryStockLot.update).toHaveBeenCalledWith({
+      where: { id: LOT_2 },
+      data:  { reservedQty: { decrement: 3 } },
+    });
+    expect(tx.inventoryReservation.update).toHaveBeenCalledWith({
+      where: { id: 'r-1' },
+      data:  { status: 'RELEASED', releasedAt: now },
+    });
+  });
+
+  it('INV-08: FULFILLED consumes on-hand and reserved stock', async () => {
+    const tx = makeTx({ activeReservations: active });
+
+    await consumeOrderReservations(asTx(tx), ORDER_ID, now);
+
+    expect(tx.inventoryStockLot.update).toHaveBeenCalledWith({
+      where: { id: LOT_1 },
+      data:  { onHandQty: { decrement: 2 }, reservedQty: { decrement: 2 } },
+    });
+    expect(tx.inventoryReservation.update).toHaveBeenCalledWith({
+      where: { id: 'r-2' },
+      data:  { status: 'CONSUMED', consumedAt: now },
+    });
+  });
+});
+
+// ─── INV-09 / INV-10: stock movements ─────────────────────────────────────────
+
+describe('receiveStock', () => {
+  it('INV-09: new lot links the TraceabilityNode for its batch; existing lot is incremented', async () => {
+    const fresh = makeTx({ traceabilityNode: { id: NODE_ID } });
+    await receiveStock(asTx(fresh), {
+      tenantId: TENANT_ID, catalogItemId: ITEM_A, locationId: LOCATION, batchId: 'LOT-2026-001', quantity: 40,
+    });
+    expect(fresh.traceabilityNode.findFirst).toHaveBeenCalledWith({
+      where:  { orgId: TENANT_ID, batchId: 'LOT-2026-001' },
+      select: { id: true },
+    });
+    expect(fresh.inventoryStockLot.create).toHaveBeenCalledWith({
+      data: {
+        tenantId: TENANT_ID, catalogItemId: ITEM_A, locationId: LOCATION,
+        batchId: 'LOT-2026-001', traceabilityNodeId: NODE_ID, onHandQty: 40,
+      },
+    });
+
+    const existing = makeTx({ existingLot: { id: LOT_1 } });
+    await receiveStock(asTx(existing), {
+      tenantId: TENANT_ID, catalogItemId: ITEM_A, locationId: LOCATION, batchId: null, quantity: 5,
+    });
+    expect(existing.traceabilityNode.findFirst).not.toHaveBeenCalled();
+    expect(existing.inventoryStockLot.update).toHaveBeenCalledWith({
+      where: { id: LOT_1 },
+      data:  { onHandQty: { increment: 5 } },
+    });
+  });
+});
+
+describe('adjustStockLot', () => {
+  it('INV-10: rejects an adjustment below the reserved quantity; applies a valid one', async () => {
+    const tx = makeTx({ lockedLots: [lot(LOT_1, ITEM_A, LOT_OLDER, 10, 8)] });
+
+    await expect(adjustStockLot(asTx(tx), LOT_1, -3)).rejects.toBeInstanceOf(StockAdjustmentError);
+    expect(tx.inventoryStockLot.update).not.toHaveBeenCalled();
+
+    await adjustStockLot(asTx(tx), LOT_1, -2);
+    expect(tx.inventoryStockLot.update).toHaveBeenCalledWith({
+      where: { id: LOT_1 },
+      data:  { onHandQty: { increment: -2 } },
+    });
+  });
+});
+
+// ─── INV-11 / INV-12: projections ─────────────────────────────────────────────
+
+describe('availability projection', () => {
+  it('INV-11: loadCatalogAvailability skips the stock query when nothing is tracked', async () => {
+    const tx = makeTx();
+
+    const result = await loadCatalogAvailability(asTx(tx), [
+      { id: ITEM_A, inventoryTracked: false, lowStockThreshold: null },
+    ]);
+
+    expect(result.get(ITEM_A)).toBeNull();
+    expect(tx.inventoryStockLot.groupBy).not.toHaveBeenCalled();
+  });
+
+  it('INV-12: B2C preview carries the availability flag but no quantities', async () => {
+    const mockTx = {
+      $executeRawUnsafe: vi.fn().mockResolvedValue(undefined),
+      organizations: {
+        findMany: vi.fn().mockResolvedValue([{
+          id: TENANT_ID, slug: 'sunshine-store', legal_name: 'Sunshine Store', org_type: 'B2C',
+          jurisdiction: 'IN', status: 'ACTIVE', publication_posture: 'B2C_PUBLIC',
+        }]),
+      },
+      tenant: {
+        findMany: vi.fn().mockResolvedValue([{ id: TENANT_ID, publicEligibilityPosture: 'PUBLICATION_ELIGIBLE' }]),
+      },
+      catalogItem: {
+        findMany: vi.fn().mockResolvedValue([
+          {
+            id: ITEM_A, tenantId: TENANT_ID, name: 'Tote', description: null, moq: 1, price: '9.99',
+            imageUrl: null, publicationPosture: 'B2C_PUBLIC', productCategory: null, material: null,
+            fabricType: null, inventoryTracked: true, lowStockThreshold: 5,
+          },
+          {
+            id: ITEM_B, tenantId: TENANT_ID, name: 'Scarf', description: null, moq: 1, price: null,
+            imageUrl: null, publicationPosture: 'B2C_PUBLIC', productCategory: null, material: null,
+            fabricType: null, inventoryTracked: false, lowStockThreshold: null,
+          },
+        ]),
+      },
+      inventoryStockLot: {
+        groupBy: vi.fn().mockResolvedValue([
+          { catalogItemId: ITEM_A, _sum: { onHandQty: 7, reservedQty: 3 } },
+        ]),
+      },
+    };
+    const prismaMock = {
+      $transaction: vi.fn().mockImplementation(async (fn: (tx: typeof mockTx) => Promise<unknown>) => fn(mockTx)),
+    } as unknown as PrismaClient;
+
+    const result = await listPublicB2CProducts({}, prismaMock);
+    const [tote, scarf] = result.items[0].productsPreview;
+
+    expect(tote.availability).toBe('LOW_STOCK');
+    expect(scarf.availability).toBeNull();
+    expect(tote).not.toHaveProperty('onHand');
+    expect(tote).not.toHaveProperty('available');
+    expect(tote).not.toHaveProperty('lowStockThreshold');
+    expect(tote).not.toHaveProperty('inventoryTracked');
+    expect(mockTx.inventoryStockLot.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: { catalogItemId: { in: [ITEM_A] }, location: { active: true } },
+    }));
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Unit Tests — Background Job Queue service
+ * OPS-BACKGROUND-JOB-QUEUE-001
+ *
+ * All Prisma DB calls are mocked — no real database required.
+ *
+ * Test IDs:
+ *   JOBQ-SVC-01  computeBackoffMs — exponential growth from baseMs, capped at maxMs
+ *   JOBQ-SVC-02  enqueueJob — creates PENDING row with defaults
+ *   JOBQ-SVC-03  enqueueJob — active duplicate dedupeKey returns existing row, no insert
+ *   JOBQ-SVC-04  enqueueJob — P2002 dedupe race resolves to the winning row
+ *   JOBQ-SVC-05  enqueueJob — invalid jobType / maxAttempts → BackgroundJobInvalidError
+ *   JOBQ-SVC-06  claimJobs — takes advisory lock and claims due rows with lease + attempts++
+ *   JOBQ-SVC-07  claimJobs — per-org concurrency counts running jobs and in-batch claims
+ *   JOBQ-SVC-08  claimJobs — expired lease on final attempt is dead-lettered, not claimed
+ *   JOBQ-SVC-09  claimJobs — no candidates → no writes
+ *   JOBQ-SVC-10  failJob — attempts left → PENDING with backoff run_at, guarded by lockedBy
+ *   JOBQ-SVC-11  failJob — attempts exhausted or non-retryable → DEAD_LETTER
+ *   JOBQ-SVC-12  failJob / completeJob — lease lost → LEASE_LOST / false
+ *   JOBQ-SVC-13  completeJob — clearPayload replaces payload with {}
+ *   JOBQ-SVC-14  requeueDeadLetterJob — resets attempts; rejects non-DEAD_LETTER / missing
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import {
+  BackgroundJobInvalidError,
+  BackgroundJobNotDeadLetteredError,
+  BackgroundJobNotFoundError,
+  claimJobs,
+  completeJob,
+  computeBackoffMs,
+  DEFAULT_MAX_ATTEMPTS,
+  enqueueJob,
+  failJob,
+  requeueDeadLetterJob,
+} from '../services/jobQueue/jobQueue.service.js';
+
+// ─── Mock DB type ─────────────────────────────────────────────────────────────
+
+interface MockDb {
+  $transaction: Mock;
+  $executeRaw:  Mock;
+  $queryRaw:    Mock;
+  backgroundJob: {
+    create:     Mock;
+    findFirst:  Mock;
+    findUnique: Mock;
+    findMany:   Mock;
+    groupBy:    Mock;
+    updateMany: Mock;
+  };
+}
+
+function makeDb(): MockDb {
+  const db: MockDb = {
+    $transaction: vi.fn(),
+    $executeRaw:  vi.fn().mockResolvedValue(1),
+    $queryRaw:    vi.fn(),
+    backgroundJob: {
+      create:     vi.fn(),
+      findFirst:  vi.fn().mockResolvedValue(null),
+      findUnique: vi.fn(),
+      findMany:   vi.fn().mockResolvedValue([]),
+      groupBy:    vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+  db.$transaction.mockImplementation(async (cb: (tx: MockDb) => Promise<unknown>) => cb(db));
+  return db;
+}
+
+// ─── Shared fixtures ──────────────────────────────────────────────────────────
+
+const ORG_A = 'aaaaaaaa-0000-0000-0000-000000000001';
+const ORG_B = 'bbbbbbbb-0000-0000-0000-000000000002';
+const WORKER = 'node-1:123:abcd';
+const DB_NOW = new Date('2026-06-20T10:00:00.000Z');
+
+function candidate(id: string, overrides: Partial<{
+  orgId: string | null; status: string; attempts: number; maxAttempts: number;
+}> = {}) {
+  return { id, orgId: ORG_A, status: 'PENDING', attempts: 0, maxAttempts: 5, ...overrides };
+}
+
+function mockClaimQueries(db: MockDb, candidates: ReturnType<typeof candidate>[]) {
+  db.$queryRaw
+    .mockResolvedValueOnce([{ now: DB_NOW }])
+    .mockResolvedValueOnce(candidates);
+}
+
+const CLAIM_OPTS = { jobType: 'vector.index', workerId: WORKER, limit: 5, leaseMs: 60_000, perOrgConcurrency: 2 };
+
+let db: MockDb;
+
+beforeEach(() => {
+  db = makeDb();
+});
+
+// ─── computeBackoffMs ─────────────────────────────────────────────────────────
+
+describe('JOBQ-SVC-01: computeBackoffMs', () => {
+  it('doubles from baseMs per attempt and caps at maxMs', () => {
+    const policy = { baseMs: 1_000, maxMs: 10_000 };
+    expect(computeBackoffMs(1, policy)).toBe(1_000);
+    expect(computeBackoffMs(2, policy)).toBe(2_000);
+    expect(computeBackoffMs(4, policy)).toBe(8_000);
+    expect(computeBackoffMs(5, policy)).toBe(10_000);
+    expect(computeBackoffMs(30, policy)).toBe(10_000);
+  });
+});
+
+// ─── enqueueJob ───────────────────────────────────────────────────────────────
+
+describe('JOBQ-SVC-02..05: enqueueJob', () => {
+  it('JOBQ-SVC-02: creates a row with default maxAttempts and no dedupe key', async () => {
+    db.backgroundJob.create.mockResolvedValue({ id: 'job-1' });
+
+    const job = await enqueueJob(db as never, { jobType: 'email.send', orgId: ORG_A, payload: { to: 'x' } });
+
+    expect(job).toEqual({ id: 'job-1' });
+    expect(db.backgroundJob.findFirst).not.toHaveBeenCalled();
+    expect(db.backgroundJob.create).toHaveBeenCalledWith({
+      data: {
+        jobType:     'email.send',
+        orgId:       ORG_A,
+        payload:     { to: 'x' },
+        maxAttempts: DEFAULT_MAX_ATTEMPTS,
+        dedupeKey:   null,
+      },
+    });
+  });
+
+  it('JOBQ-SVC-03: returns the active duplicate for the same dedupeKey without inserting', async () => {
+    db.backgroundJob.findFirst.mockResolvedValue({ id: 'existing' });
+
+    const job = await enqueueJob(db as never, {
+      jobType: 'governance.expiry_sweep', orgId: null, payload: {}, dedupeKey: 'sweep:2026-06-20T10',
+    });
+
+    expect(job).toEqual({ id: 'existing' });
+    expect(db.backgroundJob.findFirst).toHaveBeenCalledWith({
+      where: {
+        jobType:   'governance.expiry_sweep',
+        dedupeKey: 'sweep:2026-06-20T10',
+        status:    { in: ['PENDING', 'RUNNING'] },
+      },
+    });
+    expect(db.backgroundJob.create).not.toHaveBeenCalled();
+  });
+
+  it('JOBQ-SVC-04: unique violation from a concurrent enqueue resolves to the winning row', async () => {
+    db.backgroundJob.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 'winner' });
+    db.backgroundJob.create.mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+
+    const job = await enqueueJob(db as never, { jobType: 't', orgId: null, payload: {}, dedupeKey: 'k' });
+
+    expect(job).toEqual({ id: 'winner' });
+  });
+
+  it('JOBQ-SVC-05: rejects empty jobType and non-positive maxAttempts', async () => {
+    await expect(enqueueJob(db as never, { jobType: '', orgId: null, payload: {} }))
+      .rejects.toBeInstanceOf(BackgroundJobInvalidError);
+    await expect(enqueueJob(db as never, { jobType: 't', orgId: null, payload: {}, maxAttempts: 0 }))
+      .rejects.toBeInstanceOf(BackgroundJobInvalidError);
+    expect(db.backgroundJob.create).not.toHaveBeenCalled();
+  });
+});
+
+// ─── claimJobs ────────────────────────────────────────────────────────────────
+
+describe('JOBQ-SVC-06..09: claimJobs', () => {
+  it('JOBQ-SVC-06: serialises on an advisory lock and claims due rows with a lease', async () => {
+    mockClaimQueries(db, [candidate('j1'), candidate('j2', { orgId: null })]);
+    db.backgroundJob.findMany.mockResolvedValue([{ id: 'j1' }, { id: 'j2' }]);
+
+    const jobs = await claimJobs(db as never, CLAIM_OPTS);
+
+    expect(jobs).toEqual([{ id: 'j1' }, { id: 'j2' }]);
+    const lockValues = db.$executeRaw.mock.calls[0].slice(1);
+    expect(lockValues).toEqual(['background_jobs:vector.index']);
+    expect(db.backgroundJob.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['j1', 'j2'] } },
+      data: {
+        status:      'RUNNING',
+        lockedBy:    WORKER,
+        lockedUntil: new Date(DB_NOW.getTime() + 60_000),
+        attempts:    { increment: 1 },
+      },
+    });
+  });
+
+  it('JOBQ-SVC-07: skips orgs at their concurrency limit, counting jobs claimed in this batch', async () => {
+    mockClaimQueries(db, [
+      candidate('a1'), candidate('a2'), candidate('b1', { orgId: ORG_B }), candidate('b2', { orgId: ORG_B }),
+    ]);
+    db.backgroundJob.groupBy.mockResolvedValue([{ orgId: ORG_A, _count: { _all: 1 } }]);
+
+    await claimJobs(db as never, { ...CLAIM_OPTS, perOrgConcurrency: 2 });
+
+    const claimCall = db.backgroundJob.updateMany.mock.calls.at(-1)?.[0];
+    // ORG_A already runs 1 → only a1 fits; ORG_B runs 0 → b1, b2 fit
+    expect(claimCall.where.id.in).toEqual(['a1', 'b1', 'b2']);
+  });
+
+  it('JOBQ-SVC-08: dead-letters an expired lease that was already on its final attempt', async () => {
+    mockClaimQueries(db, [
+      candidate('crashed', { status: 'RUNNING', attempts: 5, maxAttempts: 5 }),
+      candidate('reclaim', { status: 'RUNNING', attempts: 2, maxAttempts: 5 }),
+    ]);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await claimJobs(db as never, CLAIM_OPTS);
+
+    expect(db.backgroundJob.updateMany).toHaveBeenNthCalledWith(1, {
+      where: { id: { in: ['crashed'] } },
+      data: expect.objectContaining({ status: 'DEAD_LETTER', deadLetteredAt: DB_NOW, lockedBy: null }),
+    });
+    expect(db.backgroundJob.updateMany).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      where: { id: { in: ['reclaim'] } },
+    }));
+    errorSpy.mockRestore();
+  });
+
+  it('JOBQ-SVC-09: returns [] without writes when nothing is due', async () => {
+    mockClaimQueries(db, []);
+
+    const jobs = await claimJobs(db as never, CLAIM_OPTS);
+
+    expect(jobs).toEqual([]);
+    expect(db.backgroundJob.groupBy).not.toHaveBeenCalled();
+    expect(db.backgroundJob.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+// ─── failJob / completeJob ────────────────────────────────────────────────────
+
+describe('JOBQ-SVC-10..13: failJob / completeJob', () => {
+  it('JOBQ-SVC-10: schedules a retry with backoff while attempts remain', async () => {
+    const before = Date.now();
+
+    const outcome = await failJob(
+      db as never,
+      { id: 'j1', attempts: 2, maxAttempts: 5 },
+      WORKER,
+      new Error('timeout'),
+      { backoff: { baseMs: 1_000, maxMs: 60_000 } },
+    );
+
+    expect(outcome).toBe('RETRY_SCHEDULED');
+    const call = db.backgroundJob.updateMany.mock.calls[0][0];
+    expect(call.where).toEqual({ id: 'j1', status: 'RUNNING', lockedBy: WORKER });
+    expect(call.data.status).toBe('PENDING');
+    expect(call.data.lastError).toBe('Error: timeout');
+    expect(call.data.runAt.getTime()).toBeGreaterThanOrEqual(before + 2_000);
+  });
+
+  it('JOBQ-SVC-11: dead-letters when attempts are exhausted or the error is not retryable', async () => {
+    await expect(failJob(db as never, { id: 'j1', attempts: 5, maxAttempts: 5 }, WORKER, 'boom'))
+      .resolves.toBe('DEAD_LETTERED');
+    await expect(failJob(db as never, { id: 'j2', attempts: 1, maxAttempts: 5 }, WORKER, 'bad payload', { retryable: false }))
+      .resolves.toBe('DEAD_LETTERED');
+    expect(db.backgroundJob.updateMany.mock.calls[1][0].data).toMatchObject({
+      status:    'DEAD_LETTER',
+      lastError: 'bad payload',
+    });
+  });
+
+  it('JOBQ-SVC-12: reports a lost lease when the row is no longer owned by this worker', async () => {
+    db.backgroundJob.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(failJob(db as never, { id: 'j1', attempts: 1, maxAttempts: 5 }, WORKER, 'x'))
+      .resolves.toBe('LEASE_LOST');
+    await expect(completeJob(db as never, 'j1', WORKER)).resolves.toBe(false);
+  });
+
+  it('JOBQ-SVC-13: completeJob clears the payload only when asked', async () => {
+    await completeJob(db as never, 'j1', WORKER);
+    await completeJob(db as never, 'j2', WORKER, { clearPayload: true });
+
+    expect(db.backgroundJob.updateMany.mock.calls[0][0].data).not.toHaveProperty('payload');
+    expect(db.backgroundJob.updateMany.mock.calls[1][0].data).toMatchObject({ status: 'SUCCEEDED', payload: {} });
+  });
+});
+
+// ─── requeueDeadLetterJob ─────────────────────────────────────────────────────
+
+describe('JOBQ-SVC-14: requeueDeadLetterJob', () => {
+  it('moves a DEAD_LETTER job back to PENDING with a fresh attempt budget', async () => {
+    db.backgroundJob.findUnique
+      .mockResolvedValueOnce({ id: 'j1', status: 'DEAD_LETTER' })
+      .mockResolvedValueOnce({ id: 'j1', status: 'PENDING', attempts: 0 });
+
+    const job = await requeueDeadLetterJob(db as never, 'j1');
+
+    expect(job.status).toBe('PENDING');
+    expect(db.backgroundJob.updateMany.mock.calls[0][0]).toMatchObject({
+      where: { id: 'j1', status: 'DEAD_LETTER' },
+      data:  { status: 'PENDING', attempts: 0, deadLetteredAt: null },
+    });
+  });
+
+  it('rejects missing and non-dead-lettered jobs', async () => {
+    db.backgroundJob.findUnique.mockResolvedValueOnce(null);
+    await expect(requeueDeadLetterJob(db as never, 'missing')).rejects.toBeInstanceOf(BackgroundJobNotFoundError);
+
+    db.backgroundJob.findUnique.mockResolvedValueOnce({ id: 'j1', status: 'RUNNING' });
+    await expect(requeueDeadLetterJob(db as never, 'j1')).rejects.toBeInstanceOf(BackgroundJobNotDeadLetteredError);
+    expect(db.backgroundJob.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Unit Tests — Background Job Queue worker
+ * OPS-BACKGROUND-JOB-QUEUE-001
+ *
+ * Queue service and withDbContext are mocked — no real database required.
+ *
+ * Test IDs:
+ *   JOBQ-WRK-01  tenant job runs inside withDbContext with orgId from the job row
+ *   JOBQ-WRK-02  system job receives the root client, no tenant context
+ *   JOBQ-WRK-03  handler error → failJob with handler backoff, retryable
+ *   JOBQ-WRK-04  NonRetryableJobError → failJob retryable:false
+ *   JOBQ-WRK-05  tenant job without orgId is never run unscoped (dead-lettered)
+ *   JOBQ-WRK-06  one failing job does not affect the others in the batch
+ *   JOBQ-WRK-07  claim error for one job type does not stop other types
+ *   JOBQ-WRK-08  claim options come from the handler definition
+ *   JOBQ-WRK-09  startJobQueueWorker rejects duplicate job types; stop() drains
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../lib/database-context.js', () => ({
+  withDbContext: vi.fn(),
+}));
+
+vi.mock('../services/jobQueue/jobQueue.service.js', async () => {
+  const actual = await vi.importActual<typeof import('../services/jobQueue/jobQueue.service.js')>(
+    '../services/jobQueue/jobQueue.service.js',
+  );
+  return {
+    ...actual,
+    claimJobs:      vi.fn(),
+    completeJob:    vi.fn(),
+    failJob:        vi.fn(),
+    extendJobLease: vi.fn(),
+  };
+});
+
+import { withDbContext } from '../lib/database-context.js';
+import {
+  claimJobs,
+  completeJob,
+  failJob,
+  NonRetryableJobError,
+} from '../services/jobQueue/jobQueue.service.js';
+import {
+  JOB_WORKER_ACTOR_ID,
+  runJobWorkerTick,
+  startJobQueueWorker,
+} from '../services/jobQueue/jobQueue.worker.js';
+import type { BackgroundJobRecord, JobHandlerDefinition } from '../services/jobQueue/jobQueue.types.js';
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const ORG_A = 'aaaaaaaa-0000-0000-0000-000000000001';
+const WORKER = 'node-1:1:test';
+const ROOT_DB = { root: true };
+const TENANT_TX = { tenantTx: true };
+
+function makeJob(overrides: Partial<BackgroundJobRecord> = {}): BackgroundJobRecord {
+  const now = new Date('2026-06-20T10:00:00.000Z');
+  return {
+    id:             'job-1',
+    jobType:        'test.tenant',
+    orgId:          ORG_A,
+    payload:        { n: 1 },
+    status:         'RUNNING',
+    attempts:       1,
+    maxAttempts:    5,
+    runAt:          now,
+    lockedBy:       WORKER,
+    lockedUntil:    now,
+    lastError:      null,
+    dedupeKey:      null,
+    completedAt:    null,
+    deadLetteredAt: null,
+    createdAt:      now,
+    updatedAt:      now,
+    ...overrides,
+  };
+}
+
+function makeHandler(overrides: Partial<JobHandlerDefinition> = {}): JobHandlerDefinition {
+  return {
+    jobType: 'test.tenant',
+    scope:   'tenant',
+    handle:  vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'info').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.mocked(withDbContext).mockImplementation(async (_db, _ctx, cb) => cb(TENANT_TX));
+  vi.mocked(completeJob).mockResolvedValue(true);
+  vi.mocked(failJob).mockResolvedValue('RETRY_SCHEDULED');
+});
+
+// ─── Execution scope ──────────────────────────────────────────────────────────
+
+describe('JOBQ-WRK-01..02: execution scope', () => {
+  it('JOBQ-WRK-01: tenant job runs inside withDbContext with orgId from the job row', async () => {
+    const handler = makeHandler({ actorId: '00000000-0000-0000-0000-0000000000aa' });
+    vi.mocked(claimJobs).mockResolvedValue([makeJob({ payload: { orgId: 'smuggled' } })]);
+
+    const result = await runJobWorkerTick(ROOT_DB as never, [handler], WORKER);
+
+    expect(result).toEqual({ claimed: 1, succeeded: 1, retried: 0, deadLettered: 0 });
+    const ctx = vi.mocked(withDbContext).mock.calls[0][1];
+    expect(ctx).toMatchObject({ orgId: ORG_A, actorId: '00000000-0000-0000-0000-0000000000aa', realm: 'tenant' });
+    expect(handler.handle).toHaveBeenCalledWith(
+      TENANT_TX,
+      { orgId: 'smuggled' },
+      expect.objectContaining({ jobId: 'job-1', orgId: ORG_A, attempt: 1 }),
+    );
+    expect(completeJob).toHaveBeenCalledWith(ROOT_DB, 'job-1', WORKER, { clearPayload: undefined });
+  });
+
+  it('JOBQ-WRK-01b: tenant job defaults to the job worker actor', async () => {
+    vi.mocked(claimJobs).mockResolvedValue([makeJob()]);
+
+    await runJobWorkerTick(ROOT_DB as never, [makeHandler()], WORKER);
+
+    expect(vi.mocked(withDbContext).mock.calls[0][1].actorId).toBe(JOB_WORKER_ACTOR_ID);
+  });
+
+  it('JOBQ-WRK-02: system job receives the root client and no tenant context', async () => {
+    const handler = makeHandler({ jobType: 'test.system', scope: 'system' });
+    vi.mocked(claimJobs).mockResolvedValue([makeJob({ jobType: 'test.system', orgId: null })]);
+
+    await runJobWorkerTick(ROOT_DB as never, [handler], WORKER);
+
+    expect(withDbContext).not.toHaveBeenCalled();
+    expect(handler.handle).toHaveBeenCalledWith(ROOT_DB, { n: 1 }, expect.objectContaining({ orgId: null }));
+  });
+});
+
+// ─── Failure handling ─────────────────────────────────────────────────────────
+
+describe('JOBQ-WRK-03..06: failure handling', () => {
+  it('JOBQ-WRK-03: handler error is recorded as a retryable failure with the handler backoff', async () => {
+    const backoff = { baseMs: 100, maxMs: 1_000 };
+    const error = new Error('provider 503');
+    vi.mocked(claimJobs).mockResolvedValue([makeJob()]);
+
+    const result = await runJobWorkerTick(
+      ROOT_DB as never,
+      [makeHandler({ backoff, handle: vi.fn().mockRejectedValue(error) })],
+      WORKER,
+    );
+
+    expect(result.retried).toBe(1);
+    expect(failJob).toHaveBeenCalledWith(ROOT_DB, expect.objectContaining({ id: 'job-1' }), WORKER, error, {
+      backoff,
+      retryable: true,
+    });
+    expect(completeJob).not.toHaveBeenCalled();
+  });
+
+  it('JOBQ-WRK-04: NonRetryableJobError is recorded as non-retryable', async () => {
+    vi.mocked(claimJobs).mockResolvedValue([makeJob()]);
+    vi.mocked(failJob).mockResolvedValue('DEAD_LETTERED');
+
+    const result = await runJobWorkerTick(
+      ROOT_DB as never,
+      [makeHandler({ handle: vi.fn().mockRejectedValue(new NonRetryableJobError('bad payload')) })],
+      WORKER,
+    );
+
+    expect(result.deadLettered).toBe(1);
+    expect(vi.mocked(failJob).mock.calls[0][4]).toMatchObject({ retryable: false });
+  });
+
+  it('JOBQ-WRK-05: tenant job without orgId is dead-lettered, never run unscoped', async () => {
+    const handler = makeHandler();
+    vi.mocked(claimJobs).mockResolvedValue([makeJob({ orgId: null })]);
+    vi.mocked(failJob).mockResolvedValue('DEAD_LETTERED');
+
+    await runJobWorkerTick(ROOT_DB as never, [handler], WORKER);
+
+    expect(handler.handle).not.toHaveBeenCalled();
+    expect(withDbContext).not.toHaveBeenCalled();
+    expect(vi.mocked(failJob).mock.calls[0][3]).toBeInstanceOf(NonRetryableJobError);
+  });
+
+  it('JOBQ-WRK-06: one failing job does not affect the rest of the batch', async () => {
+    vi.mocked(claimJobs).mockResolvedValue([
+      makeJob({ id: 'ok-1' }), makeJob({ id: 'bad' }), makeJob({ id: 'ok-2' }),
+    ]);
+    const handle = vi.fn().mockImplementation(async (_tx, _payload, ctx: { jobId: string }) => {
+      if (ctx.jobId === 'bad') throw new Error('boom');
+    });
+
+    const result = await runJobWorkerTick(ROOT_DB as never, [makeHandler({ handle })], WORKER);
+
+    expect(result).toEqual({ claimed: 3, succeeded: 2, retried: 1, deadLettered: 0 });
+  });
+});
+
+// ─── Claiming ─────────────────────────────────────────────────────────────────
+
+describe('JOBQ-WRK-07..08: claiming', () => {
+  it('JOBQ-WRK-07: a claim error for one job type does not stop the others', async () => {
+    const second = makeHandler({ jobType: 'test.second' });
+    vi.mocked(claimJobs)
+      .mockRejectedValueOnce(new Error('lock timeout'))
+      .mockResolvedValueOnce([makeJob({ jobType: 'test.second' })]);
+
+    const result = await runJobWorkerTick(ROOT_DB as never, [makeHandler(), second], WORKER);
+
+    expect(result.succeeded).toBe(1);
+    expect(second.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('JOBQ-WRK-08: claim options come from the handler definition', async () => {
+    vi.mocked(claimJobs).mockResolvedValue([]);
+
+    await runJobWorkerTick(
+      ROOT_DB as never,
+      [makeHandler({ batchSize: 3, leaseMs: 90_000, perOrgConcurrency: 1 })],
+      WORKER,
+    );
+
+    expect(claimJobs).toHaveBeenCalledWith(ROOT_DB, {
+      jobType:           'test.tenant',
+      workerId:          WORKER,
+      limit:             3,
+      leaseMs:           90_000,
+      perOrgConcurrency: 1,
+    });
+  });
+});
+
+// ─── startJobQueueWorker ──────────────────────────────────────────────────────
+
+describe('JOBQ-WRK-09: startJobQueueWorker', () => {
+  it('rejects duplicate job type registrations', () => {
+    expect(() => startJobQueueWorker(ROOT_DB as never, [makeHandler(), makeHandler()])).toThrow(/Duplicate job type/);
+  });
+
+  it('tick() runs a cycle on demand and stop() waits for it', async () => {
+    vi.mocked(claimJobs).mockResolvedValue([makeJob()]);
+    const handle = startJobQueueWorker(ROOT_DB as never, [makeHandler()], {
+      workerId:       WORKER,
+      pollIntervalMs: 60_000,
+    });
+
+    const pending = handle.tick();
+    await handle.stop();
+
+    await expect(pending).resolves.toEqual({ claimed: 1, succeeded: 1, retried: 0, deadLettered: 0 });
+  });
+});
@@ -0,0 +1,460 @@
+/**
+ * MFA-001 — TOTP, WebAuthn and MfaService unit tests
+ *
+ * MFA-01  TOTP matches the RFC 6238 SHA-1 vector; drift window and lastUsedStep
+ * MFA-02  getRequirement: NONE without factor, ENROLL when required, VERIFY with a factor
+ * MFA-03  TOTP enrollment: secret stored encrypted, confirm activates and issues recovery codes
+ * MFA-04  TOTP verification rejects a wrong code and a replayed step
+ * MFA-05  Recovery codes are single-use and report the remaining count
+ * MFA-06  checkStepUp: fresh mfaAt passes, stale or missing fails, ENROLL reported
+ * MFA-07  removeFactor refuses the last factor while MFA is required; otherwise clears codes
+ * MFA-08  WebAuthn (ES256): register, assert, sign counter advances, challenge single-use
+ * MFA-09  WebAuthn rejects a foreign origin and a non-increasing counter
+ *
+ * In-memory fake of db.mfaFactor / mfaRecoveryCode / mfaChallenge / tenant — no real Prisma client.
+ * WebAuthn responses are built here with a P-256 key and a minimal CBOR encoder.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createHash, generateKeyPairSync, randomUUID, sign, type KeyObject } from 'node:crypto';
+import type { PrismaClient } from '@prisma/client';
+import {
+  MfaPolicyError,
+  MfaService,
+  MfaVerificationError,
+  deriveMfaEncryptionKey,
+  type MfaPrincipal,
+} from '../services/mfa/mfa.service.js';
+import { generateTotpCode, totpStep, verifyTotpCode } from '../services/mfa/totp.js';
+import { WebAuthnVerificationError, verifyAssertionResponse } from '../services/mfa/webauthn.js';
+
+// ─── In-memory Prisma fake ───────────────────────────────────────────────────
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+function fieldMatches(value: unknown, condition: unknown): boolean {
+  if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+    const ops = condition as { not?: unknown; lt?: number; gt?: Date | number };
+    if ('not' in ops && value === ops.not) return false;
+    if (ops.lt !== undefined && !(value !== null && (value as number) < ops.lt)) return false;
+    if (ops.gt !== undefined && !(value !== null && (value as Date | number) > ops.gt)) return false;
+    return true;
+  }
+  return value === condition;
+}
+
+function matches(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([key, condition]) =>
+    key === 'OR'
+      ? (condition as Where[]).some(clause => matches(row, clause))
+      : fieldMatches(row[key] ?? null, condition),
+  );
+}
+
+function makeTable(defaults: () => Row) {
+  const rows: Row[] = [];
+  return {
+    rows,
+    async findMany({ where }: { where?: Where } = {}) {
+      return rows.filter(row => matches(row, where));
+    },
+    async findFirst({ where }: { where?: Where }) {
+      return rows.find(row => matches(row, where)) ?? null;
+    },
+    async findUnique({ where }: { where: Where }) {
+      return rows.find(row => matches(row, where)) ?? null;
+    },
+    async count({ where }: { where?: Where } = {}) {
+      return rows.filter(row => matches(row, where)).length;
+    },
+    async create({ data }: { data: Row }) {
+      const row = { ...defaults(), id: randomUUID(), ...data };
+      rows.push(row);
+      return row;
+    },
+    async createMany({ data }: { data: Row[] }) {
+      for (const item of data) rows.push({ ...defaults(), id: randomUUID(), ...item });
+      return { count: data.length };
+    },
+    async update({ where, data }: { where: Where; data: Row }) {
+      const row = rows.find(r => matches(r, where));
+      if (!row) throw new Error('Record to update not found');
+      Object.assign(row, data);
+      return row;
+    },
+    async updateMany({ where, data }: { where: Where; data: Row }) {
+      const hits = rows.filter(row => matches(row, where));
+      for (const row of hits) Object.assign(row, data);
+      return { count: hits.length };
+    },
+    async delete({ where }: { where: Where }) {
+      const index = rows.findIndex(row => matches(row, where));
+      return rows.splice(index, 1)[0];
+    },
+    async deleteMany({ where }: { where?: Where } = {}) {
+      const keep = rows.filter(row => !matches(row, where));
+      const removed = rows.length - keep.length;
+      rows.splice(0, rows.length, ...keep);
+      return { count: removed };
+    },
+  };
+}
+
+function makeFakeDb() {
+  const tenants = new Map<string, { mfaRequired: boolean }>();
+  const db = {
+    mfaFactor: makeTable(() => ({
+      userId: null,
+      adminId: null,
+      status: 'PENDING',
+      label: null,
+      totpSecretEncrypted: null,
+      totpLastUsedStep: null,
+      webauthnCredentialId: null,
+      webauthnPublicKey: null,
+      webauthnAlgorithm: null,
+      webauthnSignCount: 0n,
+      webauthnTransports: [],
+      createdAt: new Date(),
+      confirmedAt: null,
+      lastUsedAt: null,
+    })),
+    mfaRecoveryCode: makeTable(() => ({ userId: null, adminId: null, usedAt: null })),
+    mfaChallenge: makeTable(() => ({ userId: null, adminId: null, consumedAt: null })),
+    tenant: {
+      async findUnique({ where }: { where: { id: string } }) {
+        return tenants.get(where.id) ?? null;
+      },
+      async update({ where, data }: { where: { id: string }; data: { mfaRequired: boolean } }) {
+        tenants.set(where.id, { mfaRequired: data.mfaRequired });
+        return data;
+      },
+    },
+  };
+  return { db, tenants };
+}
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const TENANT_ID = '00000000-0000-0000-0000-0000000000aa';
+const USER: MfaPrincipal = { realm: 'TENANT', userId: '00000000-0000-0000-0000-000000000001', tenantId: TENANT_ID };
+const ADMIN: MfaPrincipal = { realm: 'ADMIN', adminId: '00000000-0000-0000-0000-000000000002' };
+const RP = { id: 'app.texqtic.test', name: 'TexQtic', origins: ['https://app.texqtic.test'] };
+const NOW = new Date('2026-06-28T12:00:00Z');
+
+function makeService(overrides: { adminRequired?: boolean } = {}) {
+  const { db, tenants } = makeFakeDb();
+  const service = new MfaService(db as unknown as PrismaClient, {
+    issuer: 'TexQtic',
+    encryptionKey: deriveMfaEncryptionKey('unit-test-secret-unit-test-secret-000'),
+    rp: RP,
+    adminRequired: overrides.adminRequired ?? false,
+    stepUpMaxAgeSeconds: 600,
+  });
+  return { service, db, tenants };
+}
+
+async function enrollTotp(service: MfaService) {
+  const started = await service.startTotpEnrollment(USER, { accountName: 'user@example.com' });
+  const enrolled = await service.confirmTotpEnrollment(
+    USER,
+    started.factorId,
+    generateTotpCode(started.secret, totpStep(NOW)),
+    NOW,
+  );
+  return { ...started, ...enrolled };
+}
+
+// ─── Minimal CBOR encoder + authenticator simulator ─────────────────────────
+
+function cborHead(major: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 256) return Buffer.from([(major << 5) | 24, length]);
+  const head = Buffer.alloc(3);
+  head[0] = (major << 5) | 25;
+  head.writeUInt16BE(length, 1);
+  return head;
+}
+
+function cbor(value: unknown): Buffer {
+  if (typeof value === 'number') {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([cborHead(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([cborHead(2, value.length), value]);
+  }
+  const entries = value instanceof Map ? [...value.entries()] : Object.entries(value as Row);
+  return Buffer.concat([cborHead(5, entries.length), ...entries.flatMap(([k, v]) => [cbor(k), cbor(v)])]);
+}
+
+const sha256 = (data: Buffer | string) => createHash('sha256').update(data).digest();
+
+class FakeAuthenticator {
+  readonly credentialId = sha256(randomUUID()).subarray(0, 16);
+  private readonly privateKey: KeyObject;
+  private readonly publicJwk: { x: string; y: string };
+  signCount = 0;
+
+  constructor(private readonly origin = RP.origins[0]) {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    this.privateKey = privateKey;
+    this.publicJwk = publicKey.export({ format: 'jwk' }) as { x: string; y: string };
+  }
+
+  private clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false }));
+  }
+
+  register(challenge: string) {
+    const coseKey = new Map<number, unknown>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(this.publicJwk.x, 'base64url')],
+      [-3, Buffer.from(this.publicJwk.y, 'base64url')],
+    ]);
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(this.credentialId.length);
+    const authData = Buffer.concat([
+      sha256(RP.id),
+      Buffer.from([0x41]), // UP | AT
+      Buffer.alloc(4),
+      Buffer.alloc(16), // aaguid
+      idLength,
+      this.credentialId,
+      cbor(coseKey),
+    ]);
+    const id = this.credentialId.toString('base64url');
+    return {
+      id,
+      rawId: id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', challenge).toString('base64url'),
+        attestationObject: cbor({ fmt: 'none', attStmt: {}, authData }).toString('base64url'),
+        transports: ['usb'],
+      },
+    };
+  }
+
+  assert(challenge: string, signCount = this.signCount + 1) {
+    this.signCount = signCount;
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(signCount);
+    const authData = Buffer.concat([sha256(RP.id), Buffer.from([0x01]), counter]);
+    const clientDataJSON = this.clientData('webauthn.get', challenge);
+    const signature = sign('sha256', Buffer.concat([authData, sha256(clientDataJSON)]), this.privateKey);
+    const id = this.credentialId.toString('base64url');
+    return {
+      id,
+      rawId: id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: null,
+      },
+    };
+  }
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('MFA-01 TOTP', () => {
+  // RFC 6238 Appendix B, SHA-1 seed "12345678901234567890" (base32), T = 59s → 94287082
+  const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  it('matches the RFC 6238 test vector (6-digit truncation)', () => {
+    expect(generateTotpCode(RFC_SECRET, totpStep(new Date(59_000)))).toBe('287082');
+  });
+
+  it('accepts one step of drift either side and rejects steps not newer than lastUsedStep', () => {
+    const step = totpStep(NOW);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), { at: NOW })).toBe(step - 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 1), { at: NOW })).toBe(step + 1);
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 2), { at: NOW })).toBeNull();
+    expect(
+      verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step), { at: NOW, lastUsedStep: step }),
+    ).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, '12345', { at: NOW })).toBeNull();
+  });
+});
+
+describe('MfaService', () => {
+  let ctx: ReturnType<typeof makeService>;
+
+  beforeEach(() => {
+    ctx = makeService();
+  });
+
+  it('MFA-02 reports NONE, ENROLL and VERIFY requirements', async () => {
+    expect(await ctx.service.getRequirement(USER)).toEqual({ requirement: 'NONE', methods: [] });
+
+    await ctx.service.setTenantMfaRequired(TENANT_ID, true);
+    expect((await ctx.service.getRequirement(USER)).requirement).toBe('ENROLL');
+
+    await enrollTotp(ctx.service);
+    expect(await ctx.service.getRequirement(USER)).toEqual({
+      requirement: 'VERIFY',
+      methods: ['TOTP', 'RECOVERY_CODE'],
+    });
+
+    const admins = makeService({ adminRequired: true });
+    expect((await admins.service.getRequirement(ADMIN)).requirement).toBe('ENROLL');
+  });
+
+  it('MFA-03 stores the TOTP secret encrypted and activates on confirm with recovery codes', async () => {
+    const started = await ctx.service.startTotpEnrollment(USER, { accountName: 'user@example.com' });
+    expect(started.otpauthUri).toContain('otpauth://totp/TexQtic%3Auser%40example.com');
+
+    const stored = ctx.db.mfaFactor.rows[0];
+    expect(stored.status).toBe('PENDING');
+    expect(stored.totpSecretEncrypted).toMatch(/^v1:/);
+    expect(stored.totpSecretEncrypted).not.toContain(started.secret);
+
+    await expect(
+      ctx.service.confirmTotpEnrollment(USER, started.factorId, '000000', NOW),
+    ).rejects.toBeInstanceOf(MfaVerificationError);
+
+    const enrolled = await ctx.service.confirmTotpEnrollment(
+      USER,
+      started.factorId,
+      generateTotpCode(started.secret, totpStep(NOW)),
+      NOW,
+    );
+    expect(enrolled.factor.status).toBe('ACTIVE');
+    expect(enrolled.recoveryCodes).toHaveLength(10);
+    expect(enrolled.recoveryCodes?.[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    expect(ctx.db.mfaRecoveryCode.rows.every(row => !enrolled.recoveryCodes?.includes(row.codeHash as string))).toBe(
+      true,
+    );
+  });
+
+  it('MFA-04 verifies a TOTP code once and rejects wrong or replayed codes', async () => {
+    const { secret } = await enrollTotp(ctx.service);
+    const later = new Date(NOW.getTime() + 60_000);
+    const code = generateTotpCode(secret, totpStep(later));
+
+    await expect(ctx.service.verify(USER, { method: 'TOTP', code: '000000' }, later)).rejects.toMatchObject({
+      reason: 'INVALID_CODE',
+    });
+
+    const result = await ctx.service.verify(USER, { method: 'TOTP', code }, later);
+    expect(result).toMatchObject({ method: 'TOTP', recoveryCodesRemaining: null });
+
+    await expect(ctx.service.verify(USER, { method: 'TOTP', code }, later)).rejects.toBeInstanceOf(
+      MfaVerificationError,
+    );
+  });
+
+  it('MFA-05 consumes each recovery code once', async () => {
+    const { recoveryCodes } = await enrollTotp(ctx.service);
+    const code = (recoveryCodes ?? [])[3].toUpperCase();
+
+    const result = await ctx.service.verify(USER, { method: 'RECOVERY_CODE', code }, NOW);
+    expect(result).toEqual({ method: 'RECOVERY_CODE', factorId: null, recoveryCodesRemaining: 9 });
+
+    await expect(ctx.service.verify(USER, { method: 'RECOVERY_CODE', code }, NOW)).rejects.toMatchObject({
+      reason: 'INVALID_CODE',
+    });
+  });
+
+  it('MFA-06 requires a fresh mfaAt for step-up once a factor exists', async () => {
+    expect(await ctx.service.checkStepUp(USER, undefined, NOW)).toEqual({ ok: true });
+
+    await ctx.service.setTenantMfaRequired(TENANT_ID, true);
+    expect(await ctx.service.checkStepUp(USER, undefined, NOW)).toEqual({
+      ok: false,
+      code: 'MFA_ENROLLMENT_REQUIRED',
+    });
+
+    await enrollTotp(ctx.service);
+    const nowSecs = Math.floor(NOW.getTime() / 1000);
+    expect(await ctx.service.checkStepUp(USER, nowSecs - 60, NOW)).toEqual({ ok: true });
+    expect(await ctx.service.checkStepUp(USER, nowSecs - 601, NOW)).toEqual({
+      ok: false,
+      code: 'MFA_STEP_UP_REQUIRED',
+    });
+    expect(await ctx.service.checkStepUp(USER, undefined, NOW)).toEqual({
+      ok: false,
+      code: 'MFA_STEP_UP_REQUIRED',
+    });
+  });
+
+  it('MFA-07 refuses to remove the last factor while required and clears codes otherwise', async () => {
+    const { factor } = await enrollTotp(ctx.service);
+
+    await ctx.service.setTenantMfaRequired(TENANT_ID, true);
+    await expect(ctx.service.removeFactor(USER, factor.id)).rejects.toBeInstanceOf(MfaPolicyError);
+
+    await ctx.service.setTenantMfaRequired(TENANT_ID, false);
+    await ctx.service.removeFactor(USER, factor.id);
+    expect(ctx.db.mfaFactor.rows).toHaveLength(0);
+    expect(ctx.db.mfaRecoveryCode.rows).toHaveLength(0);
+    expect((await ctx.service.getRequirement(USER)).requirement).toBe('NONE');
+  });
+
+  it('MFA-08 registers and verifies a WebAuthn ES256 credential', async () => {
+    const authenticator = new FakeAuthenticator();
+
+    const creation = await ctx.service.createWebAuthnRegistrationOptions(ADMIN, { userName: 'admin@example.com' });
+    expect(creation.publicKey.rp).toEqual({ id: RP.id, name: RP.name });
+    const registered = await ctx.service.completeWebAuthnRegistration(ADMIN, {
+      challengeId: creation.challengeId,
+      credential: authenticator.register(creation.publicKey.challenge),
+    });
+    expect(registered.factor).toMatchObject({ type: 'WEBAUTHN', status: 'ACTIVE', transports: ['usb'] });
+    expect(registered.recoveryCodes).toHaveLength(10);
+
+    const request = await ctx.service.createWebAuthnAssertionOptions(ADMIN);
+    expect(request.publicKey.allowCredentials).toHaveLength(1);
+    const proof = {
+      method: 'WEBAUTHN' as const,
+      challengeId: request.challengeId,
+      credential: authenticator.assert(request.publicKey.challenge),
+    };
+    const result = await ctx.service.verify(ADMIN, proof);
+    expect(result).toMatchObject({ method: 'WEBAUTHN', factorId: registered.factor.id });
+    expect(ctx.db.mfaFactor.rows[0].webauthnSignCount).toBe(1n);
+
+    // The challenge was consumed by the first verification.
+    await expect(ctx.service.verify(ADMIN, proof)).rejects.toMatchObject({ reason: 'CHALLENGE_EXPIRED' });
+  });
+
+  it('MFA-09 rejects a foreign origin and a counter that does not increase', async () => {
+    const creation = await ctx.service.createWebAuthnRegistrationOptions(ADMIN, { userName: 'admin@example.com' });
+    const phishing = new FakeAuthenticator('https://app.texqtic.test.evil.example');
+    await expect(
+      ctx.service.completeWebAuthnRegistration(ADMIN, {
+        challengeId: creation.challengeId,
+        credential: phishing.register(creation.publicKey.challenge),
+      }),
+    ).rejects.toMatchObject({ reason: 'INVALID_CREDENTIAL' });
+
+    const authenticator = new FakeAuthenticator();
+    const options = await ctx.service.createWebAuthnRegistrationOptions(ADMIN, { userName: 'admin@example.com' });
+    await ctx.service.completeWebAuthnRegistration(ADMIN, {
+      challengeId: options.challengeId,
+      credential: authenticator.register(options.publicKey.challenge),
+    });
+    const stored = ctx.db.mfaFactor.rows[0];
+
+    const assertion = authenticator.assert('challenge-value', 5);
+    expect(() =>
+      verifyAssertionResponse({
+        credential: assertion,
+        expectedChallenge: 'challenge-value',
+        rp: RP,
+        publicKey: stored.webauthnPublicKey as string,
+        algorithm: stored.webauthnAlgorithm as number,
+        storedSignCount: 5,
+      }),
+    ).toThrow(WebAuthnVerificationError);
+  });
+});
@@ -8,13 +8,16 @@
  *   POST /:poolId/rfq/:rfqId/award-approvals/:approvalId/reject
  *   GET  /:poolId/rfq/:rfqId/award-approvals
  *   (compat) POST /:poolId/rfq/:rfqId/quotes/:quoteId/accept — preserved, not converted
+ *   POST /:poolId/rfq/:rfqId/line-awards
+ *   POST /:poolId/rfq/:rfqId/line-awards/award-request
  *
- * Test structure: 16 tests (MC-ROUTE-01 through MC-ROUTE-16)
+ * Test structure: 19 tests (MC-ROUTE-01 through MC-ROUTE-19)
  *   MC-ROUTE-01..04: feature gate disabled → 503 FEATURE_DISABLED
  *   MC-ROUTE-05..08: happy paths — correct service call + response shape
  *   MC-ROUTE-09..13: error mapping — all 6 MC error classes covered
  *   MC-ROUTE-14..15: /accept compat — still exists, does NOT call requestAward
  *   MC-ROUTE-16:     DTO exposure — frozenPayload / frozenPayloadHash not in response
+ *   MC-ROUTE-17..19: split award — happy paths + INVALID_SPLIT_AWARD mapping
  */
 
 // ─── Module mocks (hoisted by Vitest) ────────────────────────────────────────
@@ -51,6 +54,11 @@ vi.mock('../middleware/ncPoolSupplierInviteFeatureGate.middleware.js', () => ({
   ncPoolSupplierInviteFeatureGateMiddleware: vi.fn(),
 }));
 
+// Verification gate has its own coverage (nc-pool-verification-gate); default to not blocked.
+vi.mock('../utils/orgVerificationGuard.js', () => ({
+  isOrgVerificationBlocked: vi.fn().mockResolvedValue(false),
+}));
+
 // Keep real error classes; mock only the service constructor.
 vi.mock('../services/networkPoolRfq.service.js', async importOriginal => {
   const actual = await importOriginal() as Record<string, unknown>;
@@ -79,6 +87,7 @@ import {
   NetworkPoolRfqApprovalExpiredError,
   NetworkPoolRfqMakerCheckerSameActorError,
   NetworkPoolRfqQuoteNoLongerSubmittedError,
+  NetworkPoolRfqSplitAwardInvalidError,
   type AwardApprovalRequest,
   type AwardApproved,
   type AwardRejected,
@@ -99,6 +108,9 @@ const APPROVE_URL       = `${PREFIX}/${TEST_POOL_ID}/rfq/${TEST_RFQ_ID}/award-ap
 const REJECT_URL        = `${PREFIX}/${TEST_POOL_ID}/rfq/${TEST_RFQ_ID}/award-approvals/${TEST_APPROVAL_ID}/reject`;
 const LIST_URL          = `${PREFIX}/${TEST_POOL_ID}/rfq/${TEST_RFQ_ID}/award-approvals`;
 const ACCEPT_URL        = `${PREFIX}/${TEST_POOL_ID}/rfq/${TEST_RFQ_ID}/quotes/${TEST_QUOTE_ID}/accept`;
+const LINE_AWARDS_URL   = `${PREFIX}/${TEST_POOL_ID}/rfq/${TEST_RFQ_ID}/line-awards`;
+const SPLIT_REQUEST_URL = `${PREFIX}/${TEST_POOL_ID}/rfq/${TEST_RFQ_ID}/line-awards/award-request`;
+const TEST_RFQ_LINE_ID  = '11000000-0000-0000-0000-000000000007';
 
 // ─── Fixtures ─────────────────────────────────────────────────────────────────
 
@@ -128,6 +140,8 @@ type MockSvcInstance = {
   acceptQuote: ReturnType<typeof vi.fn>;
   rejectQuote: ReturnType<typeof vi.fn>;
   listOwnerQuotes: ReturnType<typeof vi.fn>;
+  awardLines: ReturnType<typeof vi.fn>;
+  requestSplitAward: ReturnType<typeof vi.fn>;
 };
 
 let mockSvc: MockSvcInstance;
@@ -166,6 +180,8 @@ beforeEach(() => {
     acceptQuote:                   vi.fn(),
     rejectQuote:                   vi.fn(),
     listOwnerQuotes:               vi.fn(),
+    awardLines:                    vi.fn(),
+    requestSplitAward:             vi.fn(),
   };
   vi.mocked(NetworkPoolRfqService).mockImplementation(function() { return mockSvc as any; });
 
@@ -603,4 +619,77 @@ describe('MC Award Routes — unit tests', () => {
       await app.close();
     }
   });
+
+  // ── MC-ROUTE-17..19: split award ──────────────────────────────────────────
+
+  it('MC-ROUTE-17: line-awards returns 200 and passes allocations to awardLines', async () => {
+    mockSvc.awardLines.mockResolvedValue({ awards: [], quotes: [] });
+    const allocations = [{ rfq_line_id: TEST_RFQ_LINE_ID, quote_id: TEST_QUOTE_ID, awarded_qty: '40.5' }];
+
+    const app = await buildApp();
+    try {
+      const res = await app.inject({
+        method:  'POST',
+        url:     LINE_AWARDS_URL,
+        payload: { allocations },
+      });
+
+      expect(res.statusCode).toBe(200);
+      expect(mockSvc.awardLines).toHaveBeenCalledWith(
+        TEST_ORG_ID,
+        TEST_USER_ID,
+        TEST_POOL_ID,
+        TEST_RFQ_ID,
+        expect.objectContaining({ allocations }),
+      );
+    } finally {
+      await app.close();
+    }
+  });
+
+  it('MC-ROUTE-18: line-awards/award-request returns 201 with split_allocations', async () => {
+    const allocation = { rfq_line_id: TEST_RFQ_LINE_ID, quote_id: TEST_QUOTE_ID, awarded_qty: '40' };
+    mockSvc.requestSplitAward.mockResolvedValue(makeApprovalRecord({ split_allocations: [allocation] }));
+
+    const app = await buildApp();
+    try {
+      const res = await app.inject({
+        method:  'POST',
+        url:     SPLIT_REQUEST_URL,
+        payload: { allocations: [allocation], request_reason: 'Split between two mills' },
+      });
+
+      expect(res.statusCode).toBe(201);
+      const body = JSON.parse(res.body);
+      expect(body.data.split_allocations).toEqual([allocation]);
+      expect(mockSvc.requestSplitAward).toHaveBeenCalledOnce();
+    } finally {
+      await app.close();
+    }
+  });
+
+  it('MC-ROUTE-19: SplitAwardInvalidError maps to 422 INVALID_SPLIT_AWARD; empty allocations → 400', async () => {
+    mockSvc.awardLines.mockRejectedValue(new NetworkPoolRfqSplitAwardInvalidError('over-allocated'));
+
+    const app = await buildApp();
+    try {
+      const res = await app.inject({
+        method:  'POST',
+        url:     LINE_AWARDS_URL,
+        payload: { allocations: [{ rfq_line_id: TEST_RFQ_LINE_ID, quote_id: TEST_QUOTE_ID, awarded_qty: 999 }] },
+      });
+      expect(res.statusCode).toBe(422);
+      expect(JSON.parse(res.body).error.code).toBe('INVALID_SPLIT_AWARD');
+
+      const empty = await app.inject({
+        method:  'POST',
+        url:     LINE_AWARDS_URL,
+        payload: { allocations: [] },
+      });
+      expect(empty.statusCode).toBe(400);
+      expect(mockSvc.awardLines).toHaveBeenCalledOnce();
+    } finally {
+      await app.close();
+    }
+  });
 });
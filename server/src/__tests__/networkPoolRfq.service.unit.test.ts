@@ -25,12 +25,15 @@
  *   acceptInvite:              P-SUP-ACCEPT-01 → P-SUP-ACCEPT-10
  *   declineInvite:             P-SUP-DECLINE-01 → P-SUP-DECLINE-11
  *   General supplier:          P-SUP-GEN-01 → P-SUP-GEN-05
+ *   Line quotes / split award: P-SPLIT-01 → P-SPLIT-12
  *
  * Run (from server/ directory):
  *   pnpm exec vitest run src/__tests__/networkPoolRfq.service.unit.test.ts
  */
 
 import { describe, it, expect, vi } from 'vitest';
+import type { Mock } from 'vitest';
+import type { Prisma, PrismaClient } from '@prisma/client';
 import {
   NetworkPoolRfqService,
   NetworkPoolRfqInvalidInputError,
@@ -58,6 +61,9 @@ import {
   NetworkPoolRfqApprovalExpiredError,
   NetworkPoolRfqMakerCheckerSameActorError,
   NetworkPoolRfqQuoteNoLongerSubmittedError,
+  // Line-level quotes / split awards
+  NetworkPoolRfqSupplierQuoteLineInvalidError,
+  NetworkPoolRfqSplitAwardInvalidError,
 } from '../services/networkPoolRfq.service.js';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
@@ -3200,7 +3206,7 @@ function makeFrozenPayload() {
 }
 
 /** Produce the same deterministic hash as hashFrozenPayload() */
-function computeExpectedHash(payload: Record<string, string>): string {
+function computeExpectedHash(payload: object): string {
   const sorted = Object.fromEntries(Object.entries(payload).sort(([a], [b]) => a.localeCompare(b)));
   // Use node:crypto via require — vitest runs in Node so this works
   // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -3723,3 +3729,385 @@ describe('P-RFQ-READ-04: FAIL — getPoolRfqForOwner throws NetworkPoolRfqRfqNot
     ).rejects.toBeInstanceOf(NetworkPoolRfqRfqNotFoundError);
   });
 });
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Line-level quotes and split awards — P-SPLIT-01 → P-SPLIT-12
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const RFQ_LINE_ID_1   = '4444aaaa-0000-0000-0000-000000000001';
+const RFQ_LINE_ID_2   = '4444aaaa-0000-0000-0000-000000000002';
+const QUOTE_LINE_ID_1 = '5555aaaa-0000-0000-0000-000000000001';
+const QUOTE_LINE_ID_2 = '5555aaaa-0000-0000-0000-000000000002';
+const QUOTE_LINE_ID_3 = '5555aaaa-0000-0000-0000-000000000003';
+const LINE_AWARD_ID   = '6666aaaa-0000-0000-0000-000000000001';
+
+function makeRfqLineQtyRows() {
+  return [
+    { id: RFQ_LINE_ID_1, qty: '100' },
+    { id: RFQ_LINE_ID_2, qty: '50' },
+  ];
+}
+
+function makeQuoteLineRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id:            QUOTE_LINE_ID_1,
+    quoteId:       QUOTE_ID,
+    rfqLineId:     RFQ_LINE_ID_1,
+    ownerOrgId:    OWNER_ORG_ID,
+    supplierOrgId: SUPPLIER_ORG_ID,
+    rfqId:         RFQ_ID,
+    poolId:        POOL_ID,
+    unitPrice:     '10.000000',
+    quotedQty:     '100.000000',
+    lineAmount:    '1000.00',
+    leadTimeDays:  null,
+    lineNote:      null,
+    createdAt:     NOW,
+    ...overrides,
+  };
+}
+
+/** Quote A prices line 1 (100 @ 10) and line 2 (50 @ 4); quote B prices line 1 only (60 @ 9.5). */
+function makeSplitQuoteRows() {
+  return [
+    makeOwnerQuoteRow({
+      lines: [
+        makeQuoteLineRow(),
+        makeQuoteLineRow({ id: QUOTE_LINE_ID_2, rfqLineId: RFQ_LINE_ID_2, unitPrice: '4', quotedQty: '50', lineAmount: '200.00' }),
+      ],
+    }),
+    makeOwnerQuoteRow({
+      id:            QUOTE_ID_2,
+      supplierOrgId: 'supplier-org-b',
+      lines: [
+        makeQuoteLineRow({ id: QUOTE_LINE_ID_3, quoteId: QUOTE_ID_2, unitPrice: '9.5', quotedQty: '60', lineAmount: '570.00' }),
+      ],
+    }),
+  ];
+}
+
+function makeSplitAllocations() {
+  return [
+    { rfq_line_id: RFQ_LINE_ID_1, quote_id: QUOTE_ID,   awarded_qty: '40' },
+    { rfq_line_id: RFQ_LINE_ID_1, quote_id: QUOTE_ID_2, awarded_qty: 60 },
+    { rfq_line_id: RFQ_LINE_ID_2, quote_id: QUOTE_ID,   awarded_qty: '50' },
+  ];
+}
+
+type SplitAwardTxOverrides = {
+  networkPool?:                 Record<string, Mock>;
+  networkPoolRfq?:              Record<string, Mock>;
+  networkPoolRfqLine?:          Record<string, Mock>;
+  networkPoolRfqSupplierQuote?: Record<string, Mock>;
+  networkPoolRfqLineAward?:     Record<string, Mock>;
+  pendingApproval?:             Record<string, Mock>;
+};
+
+function makeTxForSplitAward(overrides: SplitAwardTxOverrides = {}) {
+  return {
+    networkPool: {
+      findFirst: vi.fn().mockResolvedValue(makePoolRowForAward('QUOTED')),
+      update:    vi.fn().mockResolvedValue({}),
+      ...(overrides.networkPool ?? {}),
+    },
+    networkPoolRfq: {
+      findFirst: vi.fn().mockResolvedValue(makeRfqRowForAward()),
+      update:    vi.fn().mockResolvedValue({}),
+      ...(overrides.networkPoolRfq ?? {}),
+    },
+    networkPoolRfqLine: {
+      findMany: vi.fn().mockResolvedValue(makeRfqLineQtyRows()),
+      ...(overrides.networkPoolRfqLine ?? {}),
+    },
+    networkPoolRfqSupplierQuote: {
+      findMany:   vi.fn().mockResolvedValue(makeSplitQuoteRows()),
+      update:     vi.fn().mockImplementation(({ where }: { where: { id: string } }) =>
+        Promise.resolve(makeOwnerQuoteRow({ id: where.id, status: 'ACCEPTED', acceptedAt: NOW, lines: [] })),
+      ),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      ...(overrides.networkPoolRfqSupplierQuote ?? {}),
+    },
+    networkPoolRfqLineAward: {
+      create: vi.fn().mockImplementation(({ data }: { data: Record<string, unknown> }) =>
+        Promise.resolve({ id: LINE_AWARD_ID, ...data }),
+      ),
+      ...(overrides.networkPoolRfqLineAward ?? {}),
+    },
+    networkLifecycleLog: {
+      create: vi.fn().mockResolvedValue({ id: LOG_ID }),
+    },
+    pendingApproval: {
+      create: vi.fn().mockImplementation(({ data }: { data: Prisma.PendingApprovalUncheckedCreateInput }) =>
+        Promise.resolve(makeApprovalRow({ frozenPayload: data.frozenPayload, frozenPayloadHash: data.frozenPayloadHash })),
+      ),
+      ...(overrides.pendingApproval ?? {}),
+    },
+    approvalSignature: {
+      create: vi.fn().mockResolvedValue({ id: 'sig-003' }),
+    },
+  };
+}
+
+function makeDbForSplitAward(txOverrides: SplitAwardTxOverrides = {}) {
+  const tx = makeTxForSplitAward(txOverrides);
+  return {
+    lifecycleState: {
+      findUnique: vi.fn().mockImplementation(({ where }: Prisma.LifecycleStateFindUniqueArgs) => {
+        const key = where.entityType_stateKey?.stateKey;
+        if (key === 'QUOTED')   return Promise.resolve({ id: QUOTED_STATE_ID,   stateKey: 'QUOTED' });
+        if (key === 'ACCEPTED') return Promise.resolve({ id: ACCEPTED_STATE_ID, stateKey: 'ACCEPTED' });
+        return Promise.resolve(null);
+      }),
+    },
+    $transaction: vi.fn().mockImplementation((fn: (tx: Prisma.TransactionClient) => Promise<unknown>) =>
+      fn(tx as unknown as Prisma.TransactionClient),
+    ),
+    _mockTx: tx,
+  };
+}
+
+/** The split-award mocks carry only the delegates the service touches. */
+function asPrismaClient(db: ReturnType<typeof makeDbForSplitAward>): PrismaClient {
+  return db as unknown as PrismaClient;
+}
+
+function makeDbForSubmitQuoteWithLines(lineRows = makeRfqLineQtyRows()) {
+  const db = makeDbForSubmitQuote();
+  db._mockTx.networkPoolRfqLine = {
+    findMany: vi.fn().mockResolvedValue(lineRows),
+  };
+  db._mockTx.networkPoolRfqSupplierQuoteLine = {
+    create: vi.fn().mockImplementation(({ data }: { data: Record<string, unknown> }) =>
+      Promise.resolve({ id: QUOTE_LINE_ID_1, ...data }),
+    ),
+  };
+  return db;
+}
+
+describe('P-SPLIT-01: PASS — submitQuote with lines derives quoteAmount from line amounts', () => {
+  it('stores the sum of unit_price × quoted_qty and creates one quote line row per line', async () => {
+    const db  = makeDbForSubmitQuoteWithLines();
+    const svc = new NetworkPoolRfqService(db, makeSm());
+
+    const result = await svc.submitQuote(SUPPLIER_ORG_ID, USER_ID, INVITE_ID, makeSubmitQuoteInput({
+      quote_amount: undefined,
+      lines: [
+        { rfq_line_id: RFQ_LINE_ID_1, unit_price: '10.125', quoted_qty: '100' },
+        { rfq_line_id: RFQ_LINE_ID_2, unit_price: 4, quoted_qty: 50, lead_time_days: 21 },
+      ],
+    }));
+
+    const quoteData = db._mockTx.networkPoolRfqSupplierQuote.create.mock.calls[0][0].data;
+    expect(quoteData.quoteAmount).toBe('1212.50');
+    expect(db._mockTx.networkPoolRfqSupplierQuoteLine.create).toHaveBeenCalledTimes(2);
+    const firstLine = db._mockTx.networkPoolRfqSupplierQuoteLine.create.mock.calls[0][0].data;
+    expect(firstLine.quoteId).toBe(QUOTE_ID);
+    expect(firstLine.lineAmount).toBe('1012.50');
+    const secondLine = db._mockTx.networkPoolRfqSupplierQuoteLine.create.mock.calls[1][0].data;
+    expect(secondLine.leadTimeDays).toBe(21);
+    expect(result.lines).toHaveLength(2);
+  });
+});
+
+describe('P-SPLIT-02: FAIL — submitQuote rejects quote_amount that disagrees with the lines', () => {
+  it('throws NetworkPoolRfqSupplierQuoteLineInvalidError and creates no quote', async () => {
+    const db  = makeDbForSubmitQuoteWithLines();
+    const svc = new NetworkPoolRfqService(db, makeSm());
+
+    await expect(svc.submitQuote(SUPPLIER_ORG_ID, USER_ID, INVITE_ID, makeSubmitQuoteInput({
+      quote_amount: 999,
+      lines: [{ rfq_line_id: RFQ_LINE_ID_1, unit_price: '10', quoted_qty: '100' }],
+    }))).rejects.toBeInstanceOf(NetworkPoolRfqSupplierQuoteLineInvalidError);
+    expect(db._mockTx.networkPoolRfqSupplierQuote.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('P-SPLIT-03: FAIL — submitQuote rejects a line that does not belong to the RFQ', () => {
+  it('throws NetworkPoolRfqSupplierQuoteLineInvalidError for a foreign rfq_line_id', async () => {
+    const db  = makeDbForSubmitQuoteWithLines();
+    const svc = new NetworkPoolRfqService(db, makeSm());
+
+    await expect(svc.submitQuote(SUPPLIER_ORG_ID, USER_ID, INVITE_ID, makeSubmitQuoteInput({
+      lines: [{ rfq_line_id: '4444ffff-0000-0000-0000-000000000009', unit_price: '1', quoted_qty: '1' }],
+    }))).rejects.toBeInstanceOf(NetworkPoolRfqSupplierQuoteLineInvalidError);
+  });
+});
+
+describe('P-SPLIT-04: FAIL — submitQuote rejects quoted_qty above the RFQ line qty', () => {
+  it('throws NetworkPoolRfqSupplierQuoteLineInvalidError when quoted_qty > line qty', async () => {
+    const db  = makeDbForSubmitQuoteWithLines();
+    const svc = new NetworkPoolRfqService(db, makeSm());
+
+    await expect(svc.submitQuote(SUPPLIER_ORG_ID, USER_ID, INVITE_ID, makeSubmitQuoteInput({
+      quote_amount: undefined,
+      lines: [{ rfq_line_id: RFQ_LINE_ID_2, unit_price: '1', quoted_qty: '50.5' }],
+    }))).rejects.toBeInstanceOf(NetworkPoolRfqSupplierQuoteLineInvalidError);
+  });
+});
+
+describe('P-SPLIT-05: PASS — awardLines writes one award row per allocation and accepts allocated quotes', () => {
+  it('creates award rows, accepts both quotes, rejects the rest and moves RFQ to ACCEPTED', async () => {
+    const db  = makeDbForSplitAward();
+    const sm  = makeSm();
+    const svc = new NetworkPoolRfqService(asPrismaClient(db), sm);
+
+    const result = await svc.awardLines(OWNER_ORG_ID, USER_ID, POOL_ID, RFQ_ID, {
+      allocations: makeSplitAllocations(),
+    });
+
+    expect(db._mockTx.networkPoolRfqLineAward.create).toHaveBeenCalledTimes(3);
+    const awardData = db._mockTx.networkPoolRfqLineAward.create.mock.calls.map((c) => c[0].data);
+    const line1QuoteB = awardData.find((d) => d.quoteId === QUOTE_ID_2);
+    expect(line1QuoteB.quoteLineId).toBe(QUOTE_LINE_ID_3);
+    expect(line1QuoteB.awardAmount).toBe('570.00');
+    expect(line1QuoteB.approvalId).toBeNull();
+
+    expect(db._mockTx.networkPoolRfqSupplierQuote.update).toHaveBeenCalledTimes(2);
+    const updateManyCall = db._mockTx.networkPoolRfqSupplierQuote.updateMany.mock.calls[0][0];
+    expect(updateManyCall.where.status).toBe('SUBMITTED');
+    expect(updateManyCall.where.id.notIn.sort()).toEqual([QUOTE_ID, QUOTE_ID_2].sort());
+    expect(db._mockTx.networkPoolRfq.update.mock.calls[0][0].data.status).toBe('ACCEPTED');
+
+    expect(result.awards).toHaveLength(3);
+    expect(result.quotes.map((q) => q.status)).toEqual(['ACCEPTED', 'ACCEPTED']);
+  });
+});
+
+describe('P-SPLIT-06: PASS — awardLines transitions pool CLOSED_FOR_BIDS→QUOTED→ACCEPTED', () => {
+  it('calls sm.transition twice and writes the split award log', async () => {
+    const db = makeDbForSplitAward({
+      networkPool: { findFirst: vi.fn().mockResolvedValue(makePoolRowForAward('CLOSED_FOR_BIDS')) },
+    });
+    const sm  = makeSm();
+    const svc = new NetworkPoolRfqService(asPrismaClient(db), sm);
+
+    await svc.awardLines(OWNER_ORG_ID, USER_ID, POOL_ID, RFQ_ID, { allocations: makeSplitAllocations() });
+
+    expect(sm.transition).toHaveBeenCalledTimes(2);
+    expect(sm.transition.mock.calls[0][0].toStateKey).toBe('QUOTED');
+    expect(sm.transition.mock.calls[1][0].toStateKey).toBe('ACCEPTED');
+    const logReason = db._mockTx.networkLifecycleLog.create.mock.calls[0][0].data.reason;
+    expect(logReason).toContain('nc_pool_rfq_split_award_applied');
+  });
+});
+
+describe('P-SPLIT-07: FAIL — awardLines rejects allocations exceeding the RFQ line qty', () => {
+  it('throws NetworkPoolRfqSplitAwardInvalidError and writes no award rows', async () => {
+    const db  = makeDbForSplitAward();
+    const svc = new NetworkPoolRfqService(asPrismaClient(db), makeSm());
+
+    await expect(svc.awardLines(OWNER_ORG_ID, USER_ID, POOL_ID, RFQ_ID, {
+      allocations: [
+        { rfq_line_id: RFQ_LINE_ID_1, quote_id: QUOTE_ID,   awarded_qty: '60' },
+        { rfq_line_id: RFQ_LINE_ID_1, quote_id: QUOTE_ID_2, awarded_qty: '60' },
+      ],
+    })).rejects.toBeInstanceOf(NetworkPoolRfqSplitAwardInvalidError);
+    expect(db._mockTx.networkPoolRfqLineAward.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('P-SPLIT-08: FAIL — awardLines rejects an allocation the quote did not price', () => {
+  it('throws NetworkPoolRfqSplitAwardInvalidError when the quote has no line for the RFQ line', async () => {
+    const db  = makeDbForSplitAward();
+    const svc = new NetworkPoolRfqService(asPrismaClient(db), makeSm());
+
+    await expect(svc.awardLines(OWNER_ORG_ID, USER_ID, POOL_ID, RFQ_ID, {
+      allocations: [{ rfq_line_id: RFQ_LINE_ID_2, quote_id: QUOTE_ID_2, awarded_qty: '10' }],
+    })).rejects.toBeInstanceOf(NetworkPoolRfqSplitAwardInvalidError);
+  });
+});
+
+describe('P-SPLIT-09: FAIL — awardLines rejects a quote that is no longer SUBMITTED', () => {
+  it('throws NetworkPoolRfqSupplierQuoteNotInSubmittedError', async () => {
+    const rows = makeSplitQuoteRows();
+    rows[1] = { ...rows[1], status: 'WITHDRAWN' };
+    const db = makeDbForSplitAward({
+      networkPoolRfqSupplierQuote: { findMany: vi.fn().mockResolvedValue(rows) },
+    });
+    const svc = new NetworkPoolRfqService(asPrismaClient(db), makeSm());
+
+    await expect(svc.awardLines(OWNER_ORG_ID, USER_ID, POOL_ID, RFQ_ID, {
+      allocations: makeSplitAllocations(),
+    })).rejects.toBeInstanceOf(NetworkPoolRfqSupplierQuoteNotInSubmittedError);
+  });
+});
+
+describe('P-SPLIT-10: FAIL — awardLines rejects duplicate (line, quote) allocations before any DB access', () => {
+  it('throws NetworkPoolRfqSplitAwardInvalidError without opening a transaction', async () => {
+    const db  = makeDbForSplitAward();
+    const svc = new NetworkPoolRfqService(asPrismaClient(db), makeSm());
+
+    await expect(svc.awardLines(OWNER_ORG_ID, USER_ID, POOL_ID, RFQ_ID, {
+      allocations: [
+        { rfq_line_id: RFQ_LINE_ID_1, quote_id: QUOTE_ID, awarded_qty: '10' },
+        { rfq_line_id: RFQ_LINE_ID_1, quote_id: QUOTE_ID, awarded_qty: '20' },
+      ],
+    })).rejects.toBeInstanceOf(NetworkPoolRfqSplitAwardInvalidError);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('P-SPLIT-11: PASS — requestSplitAward freezes sorted canonical allocations', () => {
+  it('stores allocations as sorted "line|quote|qty" strings and returns split_allocations', async () => {
+    const db = makeDbForSplitAward();
+    const sm = makeSm();
+    sm.transition = vi.fn().mockResolvedValue({ status: 'PENDING_APPROVAL' });
+    const svc = new NetworkPoolRfqService(asPrismaClient(db), sm);
+
+    const result = await svc.requestSplitAward(OWNER_ORG_ID, MAKER_USER_ID, POOL_ID, RFQ_ID, {
+      allocations:    makeSplitAllocations(),
+      request_reason: 'Split line 1 between two mills',
+    });
+
+    const data = db._mockTx.pendingApproval.create.mock.calls[0][0].data;
+    expect(data.frozenPayload).not.toHaveProperty('quoteId');
+    expect(data.frozenPayload.allocations).toEqual([
+      `${RFQ_LINE_ID_1}|${QUOTE_ID_2}|60`,
+      `${RFQ_LINE_ID_1}|${QUOTE_ID}|40`,
+      `${RFQ_LINE_ID_2}|${QUOTE_ID}|50`,
+    ].sort());
+    expect(data.frozenPayloadHash).toBe(computeExpectedHash(data.frozenPayload));
+    expect(db._mockTx.networkPoolRfqLineAward.create).not.toHaveBeenCalled();
+    expect(result.split_allocations).toHaveLength(3);
+  });
+});
+
+describe('P-SPLIT-12: PASS — approveAward applies a frozen split award', () => {
+  it('re-validates allocations, writes award rows with approvalId and returns awards', async () => {
+    const payload = {
+      orgId:       OWNER_ORG_ID,
+      poolId:      POOL_ID,
+      rfqId:       RFQ_ID,
+      allocations: [`${RFQ_LINE_ID_1}|${QUOTE_ID}|100`],
+    };
+    const approvalRow = makeApprovalRow({
+      frozenPayload:     payload,
+      frozenPayloadHash: computeExpectedHash(payload),
+      expiresAt:         new Date(Date.now() + 60 * 60 * 1000),
+    });
+    const db = makeDbForSplitAward({
+      pendingApproval: {
+        findFirst: vi.fn().mockResolvedValue(approvalRow),
+        update:    vi.fn().mockResolvedValue({ ...approvalRow, status: 'APPROVED' }),
+      },
+    });
+    const sm  = makeSm();
+    const svc = new NetworkPoolRfqService(asPrismaClient(db), sm);
+
+    const result = await svc.approveAward(OWNER_ORG_ID, CHECKER_USER_ID, APPROVAL_ID, {
+      approve_reason: 'OK',
+    });
+
+    expect(sm.transition).toHaveBeenCalledOnce();
+    expect(sm.transition.mock.calls[0][0].actorType).toBe('CHECKER');
+    const awardData = db._mockTx.networkPoolRfqLineAward.create.mock.calls[0][0].data;
+    expect(awardData.approvalId).toBe(APPROVAL_ID);
+    expect(awardData.awardAmount).toBe('1000.00');
+    expect(result.approval.status).toBe('APPROVED');
+    expect(result.approval.split_allocations).toEqual([
+      { rfq_line_id: RFQ_LINE_ID_1, quote_id: QUOTE_ID, awarded_qty: '100' },
+    ]);
+    expect(result.quote.id).toBe(QUOTE_ID);
+    expect(result.awards).toHaveLength(1);
+  });
+});
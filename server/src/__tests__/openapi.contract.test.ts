@@ -0,0 +1,177 @@
+/**
+ * API-DOCS-OPENAPI-001 — OpenAPI contract
+ *
+ * Registers every route exactly as server/src/index.ts does and requires each
+ * one to be documented in server/src/openapi/operations/<realm>.ts:
+ *
+ *   OA-001  every registered route has an operation (fails when a route is added undocumented)
+ *   OA-002  every documented operation is a registered route (no stale entries)
+ *   OA-003  no operation is documented twice
+ *   OA-004  each operation lives in the catalogue of the realm its path belongs to
+ *   OA-005  generated documents are OpenAPI 3.1 with one path item per route
+ *   OA-006  zod → JSON Schema conversion of the constructs the routes use
+ */
+
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import Fastify from 'fastify';
+import { z } from 'zod';
+
+vi.mock('../db/prisma.js', () => ({ prisma: {} }));
+
+import { registerApiRoutes, registerSystemRoutes } from '../routes/index.js';
+import {
+  API_OPERATIONS_BY_REALM,
+  buildOpenApiDocument,
+  OPENAPI_VERSION,
+  realmForPath,
+} from '../openapi/openApiDocument.js';
+import { zodToJsonSchema } from '../openapi/zodToJsonSchema.js';
+import { API_REALMS } from '../openapi/types.js';
+
+const routeKey = (method: string, path: string) => `${method} ${path}`;
+
+const documented = API_REALMS.flatMap(realm =>
+  API_OPERATIONS_BY_REALM[realm].map(operation => ({
+    realm,
+    key: routeKey(operation.method, operation.path),
+  })),
+);
+
+describe('OpenAPI route coverage', () => {
+  const registered = new Set<string>();
+
+  beforeAll(async () => {
+    const fastify = Fastify();
+    fastify.addHook('onRoute', route => {
+      const methods = Array.isArray(route.method) ? route.method : [route.method];
+      for (const method of methods) {
+        // HEAD is generated by Fastify for every GET route.
+        if (method !== 'HEAD') registered.add(routeKey(method, route.url));
+      }
+    });
+    registerSystemRoutes(fastify);
+    await registerApiRoutes(fastify);
+    await fastify.ready();
+    await fastify.close();
+  });
+
+  it('OA-001: every registered route is documented', () => {
+    const documentedKeys = new Set(documented.map(entry => entry.key));
+    const undocumented = [...registered].filter(key => !documentedKeys.has(key)).sort();
+    expect(undocumented).toEqual([]);
+    expect(registered.size).toBeGreaterThan(300);
+  });
+
+  it('OA-002: every documented operation is a registered route', () => {
+    const stale = documented.filter(entry => !registered.has(entry.key)).map(entry => entry.key);
+    expect(stale).toEqual([]);
+  });
+
+  it('OA-003: no operation is documented twice', () => {
+    const seen = new Set<string>();
+    const duplicates = documented.filter(entry => {
+      if (seen.has(entry.key)) return true;
+      seen.add(entry.key);
+      return false;
+    });
+    expect(duplicates).toEqual([]);
+  });
+
+  it('OA-004: operations are catalogued under the realm of their path', () => {
+    const misplaced = documented
+      .filter(entry => realmForPath(entry.key.split(' ')[1]) !== entry.realm)
+      .map(entry => `${entry.realm}: ${entry.key}`);
+    expect(misplaced).toEqual([]);
+  });
+});
+
+describe('OpenAPI documents', () => {
+  it('OA-005: each realm document is OpenAPI 3.1 and lists every operation once', () => {
+    for (const realm of API_REALMS) {
+      const document = buildOpenApiDocument(realm) as {
+        openapi: string;
+        paths: Record<string, Record<string, { operationId: string; responses: object }>>;
+      };
+      expect(document.openapi).toBe(OPENAPI_VERSION);
+
+      const operations = Object.values(document.paths).flatMap(item => Object.values(item));
+      expect(operations).toHaveLength(API_OPERATIONS_BY_REALM[realm].length);
+
+      const operationIds = operations.map(operation => operation.operationId);
+      expect(new Set(operationIds).size).toBe(operationIds.length);
+    }
+  });
+
+  it('OA-005: path params, query params and request examples are generated', () => {
+    const document = buildOpenApiDocument('tenant') as {
+      paths: Record<string, Record<string, Record<string, unknown>>>;
+    };
+    const transition = document.paths['/api/tenant/escrows/{escrowId}/transition'].post as {
+      parameters: Array<{ name: string; in: string; required: boolean }>;
+      requestBody: { content: Record<string, { schema: unknown; example: unknown }> };
+      responses: Record<string, unknown>;
+    };
+
+    expect(transition.parameters).toContainEqual(
+      expect.objectContaining({ name: 'escrowId', in: 'path', required: true }),
+    );
+    expect(transition.requestBody.content['application/json'].example).toBeDefined();
+    expect(Object.keys(transition.responses)).toEqual(
+      expect.arrayContaining(['200', '400', '401', '404']),
+    );
+
+    const list = document.paths['/api/tenant/shipments'].get as {
+      parameters: Array<{ in: string }>;
+    };
+    expect(list.parameters.every(parameter => parameter.in === 'query')).toBe(true);
+  });
+
+  it('OA-005: unauthenticated operations declare an empty security requirement', () => {
+    const document = buildOpenApiDocument('public') as {
+      paths: Record<string, Record<string, { security?: unknown[] }>>;
+    };
+    expect(document.paths['/api/auth/login'].post.security).toEqual([]);
+  });
+});
+
+describe('zodToJsonSchema', () => {
+  it('OA-006: objects, optionals, defaults and string formats', () => {
+    const schema = z.object({
+      id: z.string().uuid(),
+      email: z.string().email().optional(),
+      limit: z.coerce.number().int().min(1).max(100).default(20),
+      status: z.enum(['OPEN', 'CLOSED']),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        email: { type: 'string', format: 'email' },
+        limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+        status: { type: 'string', enum: ['OPEN', 'CLOSED'] },
+      },
+      required: ['id', 'status'],
+    });
+  });
+
+  it('OA-006: nullable, unions, strict objects and refinements', () => {
+    expect(zodToJsonSchema(z.string().nullable())).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'null' }],
+    });
+    expect(
+      zodToJsonSchema(
+        z.discriminatedUnion('method', [
+          z.object({ method: z.literal('totp'), code: z.string() }),
+          z.object({ method: z.literal('recovery'), code: z.string() }),
+        ]),
+      ),
+    ).toMatchObject({ anyOf: [{ type: 'object' }, { type: 'object' }] });
+    expect(zodToJsonSchema(z.object({ a: z.string() }).strict())).toMatchObject({
+      additionalProperties: false,
+    });
+    expect(
+      zodToJsonSchema(z.object({ from: z.string() }).refine(value => value.from.length > 0)),
+    ).toMatchObject({ type: 'object', required: ['from'] });
+  });
+});
@@ -325,6 +325,8 @@ describe('POST /api/public/register', () => {
     expect(response.statusCode).toBe(201);
     // Sender is now awaited — no drainTick needed; mock must be called by the time inject() resolves.
     expect(vi.mocked(notifyRegistrationSubmitted)).toHaveBeenCalledOnce();
+    // Enqueued with the registration transaction client, so the event commits with the account
+    expect(vi.mocked(notifyRegistrationSubmitted).mock.calls[0][1]).toBe(tx);
 
     await app.close();
   });
@@ -357,14 +359,46 @@ describe('POST /api/public/register', () => {
     expect(callArg.externalOrchestrationRef).toBeNull();
     // passwordHash must never appear
     expect(callArg).not.toHaveProperty('passwordHash');
+    expect(JSON.stringify(callArg)).not.toContain('Password123!');
 
     await app.close();
   });
 
-  it('CRM lifecycle event failure does not fail registration', async () => {
+  it('CRM outage does not fail registration — the event is only queued for delivery', async () => {
+    const tx = buildTransactionMock({ tenantSlug: 'crm-down-co' });
+    vi.mocked(prisma.$transaction).mockImplementation(async callback => callback(tx as never));
+    vi.mocked(notifyRegistrationSubmitted).mockResolvedValueOnce({
+      dispatch_status: 'QUEUED',
+      outbox_event_id: 'evt-0001',
+    });
+    const fetchSpy = vi.fn(() => Promise.reject(new Error('CRM down')));
+    vi.stubGlobal('fetch', fetchSpy);
+
+    const app = await buildApp();
+    const response = await app.inject({
+      method: 'POST',
+      url: ENDPOINT,
+      payload: {
+        roleIntent: 'supplier',
+        name: 'CRM Down User',
+        email: 'crm-down@example.com',
+        password: 'Password123!',
+        companyName: 'CRM Down Co',
+      },
+    });
+
+    // Delivery (and its retries) happens in the outbox worker, never in the request
+    expect(response.statusCode).toBe(201);
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    vi.unstubAllGlobals();
+    await app.close();
+  });
+
+  it('CRM outbox write failure fails registration (event and account commit together)', async () => {
     const tx = buildTransactionMock({ tenantSlug: 'crm-fail-co' });
     vi.mocked(prisma.$transaction).mockImplementation(async callback => callback(tx as never));
-    vi.mocked(notifyRegistrationSubmitted).mockRejectedValueOnce(new Error('CRM down'));
+    vi.mocked(notifyRegistrationSubmitted).mockRejectedValueOnce(new Error('outbox insert failed'));
 
     const app = await buildApp();
     const response = await app.inject({
@@ -379,8 +413,9 @@ describe('POST /api/public/register', () => {
       },
     });
 
-    // Registration must succeed even when CRM notify throws
-    expect(response.statusCode).toBe(201);
+    // The outbox write runs inside the registration transaction — its failure rolls back
+    expect(response.statusCode).toBe(500);
+    expect(vi.mocked(notifyRegistrationSubmitted).mock.calls.at(-1)?.[1]).toBe(tx);
 
     await app.close();
   });
@@ -17,8 +17,8 @@
  *   TIR-009: CRM returns 409 DUPLICATE_CONFLICT → 409 conflict to browser
  *   TIR-010: CRM returns 400 INVALID_PAYLOAD → 500 internal error to browser
  *   TIR-011: CRM returns 401 UNAUTHORIZED → 503 service unavailable
- *   TIR-012: CRM returns 500 → 503 service unavailable
- *   TIR-013: CRM call throws (network timeout) → 503 service unavailable
+ *   TIR-012: CRM returns 500 → capture queued in CRM outbox, 202 QUEUED
+ *   TIR-013: CRM call throws (network timeout) → capture queued in CRM outbox, 202 QUEUED
  *   TIR-014: mainAppTier0RequestId is server-generated, not from client
  *   TIR-015: CRM payload does not include forbidden fields
  *   TIR-016: honeypot field h_trap non-empty → fake 200 success, CRM not called
@@ -35,6 +35,11 @@
  *   TIR-025: rate-limited response body has code: RATE_LIMITED
  *   TIR-026: CRM not called for rate-limited request
  *   TIR-027: retry-after header present on rate-limited response
+ *
+ * CRM outbox fallback (CRM-NOTIFY-OUTBOX-001):
+ *   TIR-028: CRM returns 429 → capture queued in CRM outbox, 202 QUEUED
+ *   TIR-029: outbox write fails after CRM outage → 503 service unavailable
+ *   TIR-030: queued capture records the failed inline call as delivery attempt 1
  */
 
 // ─── Module mocks (hoisted by Vitest) ────────────────────────────────────────
@@ -58,6 +63,10 @@ vi.mock('../services/crmTier0NotifyClient.js', () => ({
   notifyCrmTier0Capture: vi.fn(),
 }));
 
+vi.mock('../services/crmOutbox/crmOutbox.service.js', () => ({
+  enqueueCrmOutboxEvent: vi.fn(),
+}));
+
 vi.mock('../services/email/email.service.js', () => ({
   sendBuyerInquiryAcknowledgementEmail: vi.fn(),
   sendSupplierInquiryNotificationEmail: vi.fn(),
@@ -97,6 +106,8 @@ import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
 import publicRoutes from '../routes/public.js';
 import { config } from '../config/index.js';
 import { notifyCrmTier0Capture } from '../services/crmTier0NotifyClient.js';
+import { enqueueCrmOutboxEvent } from '../services/crmOutbox/crmOutbox.service.js';
+import { prisma } from '../db/prisma.js';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
@@ -173,8 +184,27 @@ beforeEach(async () => {
 
   // Default: CRM notify returns 201 RECEIVED
   vi.mocked(notifyCrmTier0Capture).mockResolvedValue(CRM_201_RESPONSE);
+
+  // Default: outbox transaction runs its callback; enqueue succeeds
+  vi.mocked(prisma.$transaction).mockImplementation(async callback => callback({} as never));
+  vi.mocked(enqueueCrmOutboxEvent).mockResolvedValue({ id: 'evt-0001' } as never);
 });
 
+/** Secrets and bot fields that must never reach the CRM payload or the outbox row. */
+const TIER0_FORBIDDEN_FIELDS = [
+  'inviteToken', 'mainAppSessionToken', 'authToken', 'accessToken', 'refreshToken',
+  'idToken', 'tokenHash', 'privateInviteUrl', 'h_trap',
+];
+
+function expectQueuedResponse(response: { statusCode: number; body: string }) {
+  expect(response.statusCode).toBe(202);
+  const body = JSON.parse(response.body);
+  expect(body.success).toBe(true);
+  expect(body.data.status).toBe('QUEUED');
+  expect(body.data.crmReceiptId).toBeNull();
+  expect(typeof body.data.requestId).toBe('string');
+}
+
 // ─── Tests ────────────────────────────────────────────────────────────────────
 
 describe('POST /api/public/tier0/request-access', () => {
@@ -349,7 +379,7 @@ describe('POST /api/public/tier0/request-access', () => {
     expect(response.statusCode).toBe(503);
   });
 
-  it('TIR-012: CRM returns 500 → 503 service unavailable', async () => {
+  it('TIR-012: CRM returns 500 → capture queued in CRM outbox, 202 QUEUED', async () => {
     vi.mocked(notifyCrmTier0Capture).mockResolvedValue({
       status: 500,
       ack: { retryable: true },
@@ -361,10 +391,19 @@ describe('POST /api/public/tier0/request-access', () => {
       payload: VALID_MINIMAL_PAYLOAD,
     });
 
-    expect(response.statusCode).toBe(503);
+    expectQueuedResponse(response);
+    expect(vi.mocked(enqueueCrmOutboxEvent)).toHaveBeenCalledOnce();
+    const [, input] = vi.mocked(enqueueCrmOutboxEvent).mock.calls[0];
+    expect(input.channel).toBe('CRM_TIER0');
+    expect(input.eventType).toBe('tier0.capture.v1');
+    expect(input.orgId).toBeNull();
+    expect(input.payload).toBe(vi.mocked(notifyCrmTier0Capture).mock.calls[0][2]);
+    for (const field of TIER0_FORBIDDEN_FIELDS) {
+      expect(input.payload).not.toHaveProperty(field);
+    }
   });
 
-  it('TIR-013: CRM call throws (network/timeout) → 503 service unavailable', async () => {
+  it('TIR-013: CRM call throws (network/timeout) → capture queued in CRM outbox, 202 QUEUED', async () => {
     vi.mocked(notifyCrmTier0Capture).mockRejectedValue(new Error('AbortError: signal timed out'));
 
     const response = await app.inject({
@@ -373,7 +412,16 @@ describe('POST /api/public/tier0/request-access', () => {
       payload: VALID_MINIMAL_PAYLOAD,
     });
 
-    expect(response.statusCode).toBe(503);
+    expectQueuedResponse(response);
+    expect(vi.mocked(enqueueCrmOutboxEvent)).toHaveBeenCalledOnce();
+    const [, input, inlineAttempt] = vi.mocked(enqueueCrmOutboxEvent).mock.calls[0];
+    expect(input.channel).toBe('CRM_TIER0');
+    expect(input.payload).toBe(vi.mocked(notifyCrmTier0Capture).mock.calls[0][2]);
+    for (const field of TIER0_FORBIDDEN_FIELDS) {
+      expect(input.payload).not.toHaveProperty(field);
+    }
+    // Retryable: the outbox job re-delivers after the failed inline attempt
+    expect(inlineAttempt).toMatchObject({ outcome: 'RETRYABLE_FAILURE', httpStatus: null });
   });
 
   it('TIR-014: mainAppTier0RequestId is server-generated — differs from any client value', async () => {
@@ -499,6 +547,51 @@ describe('POST /api/public/tier0/request-access', () => {
     expect(vi.mocked(notifyCrmTier0Capture)).not.toHaveBeenCalled();
   });
 
+  it('TIR-028: CRM returns 429 → capture queued in CRM outbox, 202 QUEUED', async () => {
+    vi.mocked(notifyCrmTier0Capture).mockResolvedValue({ status: 429, ack: null });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: ENDPOINT,
+      payload: VALID_MINIMAL_PAYLOAD,
+    });
+
+    expectQueuedResponse(response);
+  });
+
+  it('TIR-029: outbox write fails after CRM outage → 503 service unavailable', async () => {
+    vi.mocked(notifyCrmTier0Capture).mockResolvedValue({ status: 503, ack: null });
+    vi.mocked(enqueueCrmOutboxEvent).mockRejectedValue(new Error('db down'));
+
+    const response = await app.inject({
+      method: 'POST',
+      url: ENDPOINT,
+      payload: VALID_MINIMAL_PAYLOAD,
+    });
+
+    expect(response.statusCode).toBe(503);
+  });
+
+  it('TIR-030: queued capture records the failed inline call as delivery attempt 1', async () => {
+    vi.mocked(notifyCrmTier0Capture).mockResolvedValue({ status: 502, ack: null });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: ENDPOINT,
+      payload: VALID_MINIMAL_PAYLOAD,
+    });
+
+    expectQueuedResponse(response);
+    const body = JSON.parse(response.body);
+    const [, input, inlineAttempt] = vi.mocked(enqueueCrmOutboxEvent).mock.calls[0];
+    expect(input.idempotencyKey).toBe(`tier0.capture.v1:${body.data.requestId}`);
+    expect(inlineAttempt).toMatchObject({
+      outcome: 'RETRYABLE_FAILURE',
+      httpStatus: 502,
+      errorMessage: 'CRM responded HTTP 502',
+    });
+  });
+
   // ─── Rate-limit configuration — static source checks ──────────────────────
   describe('Rate-limit configuration (static)', () => {
     let src: string;
@@ -0,0 +1,189 @@
+/**
+ * publicSitemap.service.test.ts — PUBLIC-SEO-SITEMAP-SERVER-001 server sitemaps / robots.txt
+ *
+ * Covers:
+ * - Platform sitemap index: non-empty types only, lastmod from entity updated-at
+ * - Urlsets: supplier / product / passport paths, static pages without lastmod
+ * - Passports: only PUBLISHED passports of PUBLICATION_ELIGIBLE, non-sentinel orgs
+ * - White-label scope: per-host origin, non-eligible tenant → `Disallow: /` and empty index
+ * - Cache eviction through the cache-invalidate emitter
+ *
+ * Run:
+ *   pnpm --dir server exec vitest run src/__tests__/publicSitemap.service.test.ts
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const dbState = vi.hoisted(() => ({
+  eligibleTenantIds: new Set<string>(),
+  sentinelOrgIds: new Set<string>(),
+}));
+
+vi.mock('../lib/database-context.js', () => {
+  const tx = {
+    tenant: {
+      findMany: vi.fn(async ({ where }: { where: { id: { in: string[] } } }) =>
+        where.id.in.filter(id => dbState.eligibleTenantIds.has(id)).map(id => ({ id }))),
+    },
+    organizations: {
+      findMany: vi.fn(async ({ where }: { where: { id: { in: string[] } } }) =>
+        where.id.in.filter(id => !dbState.sentinelOrgIds.has(id)).map(id => ({ id }))),
+    },
+  };
+  return {
+    withAdminContext: vi.fn(async (_db: unknown, callback: (t: unknown) => unknown) => callback(tx)),
+    withOrgAdminContext: vi.fn(async (_db: unknown, callback: (t: unknown) => unknown) => callback(tx)),
+  };
+});
+
+vi.mock('../services/publicB2BProjection.service.js', () => ({
+  listPublicB2BSupplierSitemapEntries: vi.fn(),
+}));
+
+vi.mock('../services/publicB2CProjection.service.js', () => ({
+  listPublicB2CProductSitemapEntries: vi.fn(),
+}));
+
+import { emitCacheInvalidate, onCacheInvalidate } from '../lib/cacheInvalidateEmitter.js';
+import { listPublicB2BSupplierSitemapEntries } from '../services/publicB2BProjection.service.js';
+import { listPublicB2CProductSitemapEntries } from '../services/publicB2CProjection.service.js';
+import {
+  emitPublicContentInvalidate,
+  getPublicRobotsTxt,
+  getPublicSitemapIndexXml,
+  getPublicSitemapXml,
+  invalidatePublicSitemapCache,
+  type PublicSitemapScope,
+} from '../services/publicSitemap.service.js';
+
+const PLATFORM: PublicSitemapScope = { kind: 'PLATFORM', origin: 'https://app.texqtic.com' };
+const WL_SCOPE: PublicSitemapScope = {
+  kind: 'TENANT',
+  origin: 'https://shop.acme.example',
+  host: 'shop.acme.example',
+  tenantId: 'org-acme',
+};
+
+const log = { info: vi.fn(), warn: vi.fn() };
+
+function fakePrisma(passportRows: Array<{ org_id: string; public_token: string; updated_at: Date }> = []) {
+  const queryRaw = vi.fn().mockResolvedValue(passportRows);
+  const tx = {
+    $executeRaw: vi.fn().mockResolvedValue(0),
+    $queryRaw: queryRaw,
+    tenant: {
+      findUnique: vi.fn().mockResolvedValue({
+        slug: 'acme',
+        domains: [{ domain: 'shop.acme.example' }],
+      }),
+    },
+  };
+  return {
+    prisma: { $transaction: vi.fn(async (callback: (t: typeof tx) => unknown) => callback(tx)) },
+    queryRaw,
+  };
+}
+
+beforeEach(() => {
+  invalidatePublicSitemapCache(['shop.acme.example'], 'public_content_change');
+  dbState.eligibleTenantIds = new Set(['org-acme', 'org-weave']);
+  dbState.sentinelOrgIds = new Set();
+  vi.mocked(listPublicB2BSupplierSitemapEntries).mockReset().mockResolvedValue([
+    { slug: 'acme-mills', updatedAt: new Date('2026-09-01T00:00:00Z') },
+  ]);
+  vi.mocked(listPublicB2CProductSitemapEntries).mockReset().mockResolvedValue([
+    { slug: 'weave--linen-throw-abc', updatedAt: new Date('2026-09-20T00:00:00Z') },
+  ]);
+});
+
+describe('platform sitemaps', () => {
+  it('indexes every non-empty sitemap type with the latest lastmod', async () => {
+    const { prisma } = fakePrisma([]);
+    const xml = await getPublicSitemapIndexXml(prisma as never, PLATFORM);
+
+    expect(xml).toContain('<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+    expect(xml).toContain('<loc>https://app.texqtic.com/sitemaps/pages.xml</loc>');
+    expect(xml).toContain('<loc>https://app.texqtic.com/sitemaps/suppliers.xml</loc>\n    <lastmod>2026-09-01T00:00:00.000Z</lastmod>');
+    expect(xml).toContain('<loc>https://app.texqtic.com/sitemaps/products.xml</loc>\n    <lastmod>2026-09-20T00:00:00.000Z</lastmod>');
+    expect(xml).not.toContain('passports.xml');
+  });
+
+  it('renders static pages without lastmod and entity pages with it', async () => {
+    const { prisma } = fakePrisma();
+    const pages = await getPublicSitemapXml(prisma as never, PLATFORM, 'pages');
+    expect(pages).toContain('<loc>https://app.texqtic.com/collections/natural-fabric-stories</loc>');
+    expect(pages).not.toContain('<lastmod>');
+
+    const suppliers = await getPublicSitemapXml(prisma as never, PLATFORM, 'suppliers');
+    expect(suppliers).toContain('<loc>https://app.texqtic.com/supplier/acme-mills</loc>\n    <lastmod>2026-09-01T00:00:00.000Z</lastmod>');
+  });
+
+  it('lists only published passports of eligible, non-sentinel orgs', async () => {
+    dbState.sentinelOrgIds = new Set(['org-weave']);
+    const { prisma } = fakePrisma([
+      { org_id: 'org-acme', public_token: '11111111-1111-4111-8111-111111111111', updated_at: new Date('2026-08-01T00:00:00Z') },
+      { org_id: 'org-weave', public_token: '22222222-2222-4222-8222-222222222222', updated_at: new Date('2026-08-02T00:00:00Z') },
+      { org_id: 'org-private', public_token: '33333333-3333-4333-8333-333333333333', updated_at: new Date('2026-08-03T00:00:00Z') },
+    ]);
+
+    const xml = await getPublicSitemapXml(prisma as never, PLATFORM, 'passports');
+    expect(xml).toContain('/passport/11111111-1111-4111-8111-111111111111');
+    expect(xml).not.toContain('22222222');
+    expect(xml).not.toContain('33333333');
+  });
+
+  it('allows public surfaces and points robots at the sitemap index', async () => {
+    const robots = await getPublicRobotsTxt(fakePrisma().prisma as never, PLATFORM);
+    expect(robots).toContain('Disallow: /api/');
+    for (const appPath of ['/w$', '/w/', '/wl-admin', '/cp/']) {
+      expect(robots).toContain(`Disallow: ${appPath}\n`);
+    }
+    expect(robots).not.toContain('Disallow: /supplier/');
+    expect(robots).toContain('Sitemap: https://app.texqtic.com/sitemap.xml');
+  });
+});
+
+describe('white-label sitemaps', () => {
+  it('scopes entries to the tenant and uses the requesting host as origin', async () => {
+    const { prisma } = fakePrisma();
+    const pages = await getPublicSitemapXml(prisma as never, WL_SCOPE, 'pages');
+    expect(pages).toContain('<loc>https://shop.acme.example/</loc>');
+
+    await getPublicSitemapXml(prisma as never, WL_SCOPE, 'suppliers');
+    expect(listPublicB2BSupplierSitemapEntries).toHaveBeenCalledWith(prisma, { tenantId: 'org-acme' });
+  });
+
+  it('blocks crawling and lists nothing for a tenant that is not publication eligible', async () => {
+    dbState.eligibleTenantIds = new Set();
+    const { prisma } = fakePrisma();
+
+    expect(await getPublicRobotsTxt(prisma as never, WL_SCOPE)).toContain('Disallow: /\n');
+    expect(await getPublicSitemapIndexXml(prisma as never, WL_SCOPE)).not.toContain('<sitemap>');
+    expect(listPublicB2BSupplierSitemapEntries).not.toHaveBeenCalled();
+  });
+});
+
+describe('cache invalidation', () => {
+  it('serves from cache until the emitter signals a content change for the tenant', async () => {
+    const unsubscribe = onCacheInvalidate(invalidatePublicSitemapCache);
+    const { prisma } = fakePrisma();
+
+    await getPublicSitemapXml(prisma as never, WL_SCOPE, 'suppliers');
+    await getPublicSitemapXml(prisma as never, WL_SCOPE, 'suppliers');
+    expect(listPublicB2BSupplierSitemapEntries).toHaveBeenCalledTimes(1);
+
+    emitCacheInvalidate(['other.example'], 'domain_crud', log);
+    await getPublicSitemapXml(prisma as never, WL_SCOPE, 'suppliers');
+    expect(listPublicB2BSupplierSitemapEntries).toHaveBeenCalledTimes(1);
+
+    await emitPublicContentInvalidate(prisma as never, 'org-acme', log);
+    expect(log.info).toHaveBeenLastCalledWith(
+      expect.objectContaining({ invalidated: 2, reason: 'public_content_change' }),
+      expect.any(String),
+    );
+    await getPublicSitemapXml(prisma as never, WL_SCOPE, 'suppliers');
+    expect(listPublicB2BSupplierSitemapEntries).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+  });
+});
@@ -208,6 +208,9 @@ describe('relationship catalog visibility route integration', () => {
         catalogItem: {
           findMany: vi.fn(async () => scenario.listItems),
         },
+        catalogItemVariant: {
+          findMany: vi.fn(async () => []),
+        },
       };
 
       return callback(tx);
@@ -0,0 +1,285 @@
+/**
+ * Unit tests — RFQ quote negotiation helpers (TECS-RFQ-QUOTE-001)
+ *
+ * Pure unit tests. No DB access — markRfqQuoteAccepted runs against a mocked tx.
+ * Covers: quantity-break pricing, totals, expiry, best-terms resolution,
+ *         acceptance and revision evaluation, terms schema validation,
+ *         status-guarded acceptance.
+ *
+ * Run: pnpm exec vitest run src/__tests__/rfq-quote.service.unit.test.ts
+ *       (from server/ directory)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  computeRfqQuoteTotal,
+  evaluateRfqQuoteAcceptance,
+  evaluateRfqQuoteRevision,
+  isRfqQuoteExpired,
+  mapRfqQuoteNegotiation,
+  markRfqQuoteAccepted,
+  resolveEffectiveUnitPrice,
+  resolveRfqQuoteBestTerms,
+  rfqQuoteTermsSchema,
+  type RfqQuoteRecord,
+} from '../services/rfq/rfqQuote.service.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const RFQ_ID       = 'aaaa0000-0000-0000-0000-000000000001';
+const BUYER_ORG    = 'bbbb0000-0000-0000-0000-000000000002';
+const SUPPLIER_ORG = 'cccc0000-0000-0000-0000-000000000003';
+const USER_ID      = 'dddd0000-0000-0000-0000-000000000004';
+const NOW = new Date('2026-06-15T12:00:00.000Z');
+
+function makeQuote(overrides: Partial<RfqQuoteRecord> = {}): RfqQuoteRecord {
+  return {
+    id: 'q-1',
+    rfqId: RFQ_ID,
+    buyerOrgId: BUYER_ORG,
+    supplierOrgId: SUPPLIER_ORG,
+    revision: 1,
+    authorSide: 'SUPPLIER',
+    status: 'ACTIVE',
+    currency: 'EUR',
+    unitPrice: 4.8,
+    quantity: 500,
+    quantityBreaks: [],
+    leadTimeDays: 21,
+    incoterm: 'FOB',
+    validUntil: new Date('2026-06-30T00:00:00.000Z'),
+    paymentTerms: 'Net 30',
+    note: null,
+    createdByUserId: USER_ID,
+    createdAt: NOW,
+    acceptedAt: null,
+    acceptedByUserId: null,
+    ...overrides,
+  };
+}
+
+// ─── Pricing ──────────────────────────────────────────────────────────────────
+
+describe('resolveEffectiveUnitPrice / computeRfqQuoteTotal', () => {
+  const quote = makeQuote({
+    quantityBreaks: [
+      { min_quantity: 250, unit_price: 4.5 },
+      { min_quantity: 1000, unit_price: 4.1 },
+    ],
+  });
+
+  it('uses the base unit price below the first break', () => {
+    expect(resolveEffectiveUnitPrice(quote, 100)).toBe(4.8);
+  });
+
+  it('uses the highest break whose minimum is met', () => {
+    expect(resolveEffectiveUnitPrice(quote, 250)).toBe(4.5);
+    expect(resolveEffectiveUnitPrice(quote, 999)).toBe(4.5);
+    expect(resolveEffectiveUnitPrice(quote, 1000)).toBe(4.1);
+  });
+
+  it('totals at the quoted quantity, rounded to cents', () => {
+    expect(computeRfqQuoteTotal(quote)).toBe(2250);
+    expect(computeRfqQuoteTotal(makeQuote({ unitPrice: 0.333, quantity: 7 }))).toBe(2.33);
+  });
+});
+
+// ─── Expiry ───────────────────────────────────────────────────────────────────
+
+describe('isRfqQuoteExpired', () => {
+  it('treats valid_until as inclusive through the end of the UTC day', () => {
+    const quote = makeQuote({ validUntil: new Date('2026-06-15T00:00:00.000Z') });
+    expect(isRfqQuoteExpired(quote, new Date('2026-06-15T23:59:59.000Z'))).toBe(false);
+    expect(isRfqQuoteExpired(quote, new Date('2026-06-16T00:00:00.000Z'))).toBe(true);
+  });
+
+  it('never expires without valid_until', () => {
+    expect(isRfqQuoteExpired(makeQuote({ validUntil: null }), NOW)).toBe(false);
+  });
+});
+
+// ─── Best terms ───────────────────────────────────────────────────────────────
+
+describe('resolveRfqQuoteBestTerms', () => {
+  it('prefers the accepted revision', () => {
+    const thread = [
+      makeQuote({ id: 'q-1', status: 'ACCEPTED', acceptedAt: NOW, acceptedByUserId: USER_ID }),
+    ];
+    expect(resolveRfqQuoteBestTerms(thread, NOW)?.id).toBe('q-1');
+  });
+
+  it('returns the active supplier revision when not expired', () => {
+    const thread = [
+      makeQuote({ id: 'q-1', status: 'SUPERSEDED' }),
+      makeQuote({ id: 'q-2', revision: 2, unitPrice: 4.6 }),
+    ];
+    expect(resolveRfqQuoteBestTerms(thread, NOW)?.id).toBe('q-2');
+  });
+
+  it('returns null while a buyer counter-offer is pending', () => {
+    const thread = [
+      makeQuote({ id: 'q-1', status: 'SUPERSEDED' }),
+      makeQuote({ id: 'q-2', revision: 2, authorSide: 'BUYER' }),
+    ];
+    expect(resolveRfqQuoteBestTerms(thread, NOW)).toBeNull();
+  });
+
+  it('returns null when the active supplier revision has expired', () => {
+    const thread = [makeQuote({ validUntil: new Date('2026-06-01T00:00:00.000Z') })];
+    expect(resolveRfqQuoteBestTerms(thread, NOW)).toBeNull();
+  });
+});
+
+// ─── Acceptance ───────────────────────────────────────────────────────────────
+
+describe('evaluateRfqQuoteAcceptance', () => {
+  it('accepts the active, unexpired supplier revision', () => {
+    const decision = evaluateRfqQuoteAcceptance([makeQuote()], 'q-1', NOW);
+    expect(decision).toMatchObject({ ok: true, quote: { id: 'q-1' } });
+  });
+
+  it('rejects unknown quote ids', () => {
+    expect(evaluateRfqQuoteAcceptance([makeQuote()], 'missing', NOW))
+      .toEqual({ ok: false, code: 'QUOTE_NOT_FOUND' });
+  });
+
+  it('rejects once any revision is accepted', () => {
+    const thread = [makeQuote({ status: 'ACCEPTED' })];
+    expect(evaluateRfqQuoteAcceptance(thread, 'q-1', NOW))
+      .toEqual({ ok: false, code: 'QUOTE_ALREADY_ACCEPTED' });
+  });
+
+  it('rejects superseded revisions', () => {
+    const thread = [makeQuote({ status: 'SUPERSEDED' }), makeQuote({ id: 'q-2', revision: 2 })];
+    expect(evaluateRfqQuoteAcceptance(thread, 'q-1', NOW))
+      .toEqual({ ok: false, code: 'QUOTE_NOT_ACTIVE' });
+  });
+
+  it('rejects buyer counter-offers', () => {
+    const thread = [makeQuote({ authorSide: 'BUYER' })];
+    expect(evaluateRfqQuoteAcceptance(thread, 'q-1', NOW))
+      .toEqual({ ok: false, code: 'QUOTE_NOT_SUPPLIER_OFFER' });
+  });
+
+  it('rejects expired revisions', () => {
+    const thread = [makeQuote({ validUntil: new Date('2026-06-01T00:00:00.000Z') })];
+    expect(evaluateRfqQuoteAcceptance(thread, 'q-1', NOW))
+      .toEqual({ ok: false, code: 'QUOTE_EXPIRED' });
+  });
+});
+
+// ─── Revisions ────────────────────────────────────────────────────────────────
+
+describe('evaluateRfqQuoteRevision', () => {
+  it('starts a supplier thread at revision 1', () => {
+    expect(evaluateRfqQuoteRevision([], 'SUPPLIER')).toEqual({ ok: true, nextRevision: 1 });
+  });
+
+  it('increments past the latest revision', () => {
+    const thread = [makeQuote({ status: 'SUPERSEDED' }), makeQuote({ id: 'q-2', revision: 2 })];
+    expect(evaluateRfqQuoteRevision(thread, 'BUYER')).toEqual({ ok: true, nextRevision: 3 });
+  });
+
+  it('requires a supplier quote before a buyer counter-offer', () => {
+    expect(evaluateRfqQuoteRevision([], 'BUYER'))
+      .toEqual({ ok: false, code: 'COUNTER_OFFER_REQUIRES_SUPPLIER_QUOTE' });
+  });
+
+  it('blocks revisions after acceptance', () => {
+    expect(evaluateRfqQuoteRevision([makeQuote({ status: 'ACCEPTED' })], 'SUPPLIER'))
+      .toEqual({ ok: false, code: 'QUOTE_ALREADY_ACCEPTED' });
+  });
+});
+
+// ─── DTO mapping ──────────────────────────────────────────────────────────────
+
+describe('mapRfqQuoteNegotiation', () => {
+  it('exposes the thread, best terms and accepted quote id', () => {
+    const thread = [
+      makeQuote({ id: 'q-1', status: 'SUPERSEDED' }),
+      makeQuote({ id: 'q-2', revision: 2, status: 'ACCEPTED', acceptedAt: NOW, acceptedByUserId: USER_ID }),
+    ];
+    const mapped = mapRfqQuoteNegotiation(thread, NOW);
+
+    expect(mapped.quote_thread).toHaveLength(2);
+    expect(mapped.accepted_quote_id).toBe('q-2');
+    expect(mapped.best_terms).toMatchObject({
+      id: 'q-2',
+      total_amount: 2400,
+      valid_until: '2026-06-30',
+      expired: false,
+    });
+  });
+});
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+
+describe('rfqQuoteTermsSchema', () => {
+  it('normalises currency and defaults quantity_breaks', () => {
+    const parsed = rfqQuoteTermsSchema.parse({ unit_price: 4.8, currency: 'eur' });
+    expect(parsed.currency).toBe('EUR');
+    expect(parsed.quantity_breaks).toEqual([]);
+  });
+
+  it('rejects quantity breaks that are not strictly ascending', () => {
+    const result = rfqQuoteTermsSchema.safeParse({
+      unit_price: 4.8,
+      currency: 'EUR',
+      quantity_breaks: [
+        { min_quantity: 500, unit_price: 4.5 },
+        { min_quantity: 500, unit_price: 4.2 },
+      ],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts valid_until only when it is a real calendar date', () => {
+    const parse = (valid_until: string) =>
+      rfqQuoteTermsSchema.safeParse({ unit_price: 4.8, currency: 'EUR', valid_until });
+    expect(parse('2028-02-29').success).toBe(true);
+    expect(parse('2026-13-45').success).toBe(false);
+    expect(parse('2026-02-30').success).toBe(false);
+    expect(parse('2027-02-29').success).toBe(false);
+    expect(parse('2026-6-30').success).toBe(false);
+  });
+
+  it('rejects unknown keys', () => {
+    expect(rfqQuoteTermsSchema.safeParse({ unit_price: 1, currency: 'USD', total: 10 }).success).toBe(false);
+  });
+});
+
+// ─── Acceptance persistence ───────────────────────────────────────────────────
+
+describe('markRfqQuoteAccepted', () => {
+  function makeTx(updatedCount: number) {
+    return {
+      rfqQuote: {
+        updateMany: vi.fn().mockResolvedValue({ count: updatedCount }),
+        findUniqueOrThrow: vi.fn().mockResolvedValue(
+          makeQuote({ status: 'ACCEPTED', acceptedAt: NOW, acceptedByUserId: USER_ID }),
+        ),
+      },
+    };
+  }
+
+  it('accepts only while the revision is still ACTIVE', async () => {
+    const tx = makeTx(1);
+
+    const accepted = await markRfqQuoteAccepted(tx as never, 'q-1', USER_ID);
+
+    expect(tx.rfqQuote.updateMany).toHaveBeenCalledWith({
+      where: { id: 'q-1', status: 'ACTIVE' },
+      data: expect.objectContaining({ status: 'ACCEPTED', acceptedByUserId: USER_ID }),
+    });
+    expect(accepted).toMatchObject({ id: 'q-1', status: 'ACCEPTED', acceptedByUserId: USER_ID });
+  });
+
+  it('returns null when a concurrent request changed the revision first', async () => {
+    const tx = makeTx(0);
+
+    const accepted = await markRfqQuoteAccepted(tx as never, 'q-1', USER_ID);
+
+    expect(accepted).toBeNull();
+    expect(tx.rfqQuote.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+});
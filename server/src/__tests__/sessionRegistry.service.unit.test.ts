@@ -0,0 +1,233 @@
+/**
+ * SESSION-REGISTRY-001 — SessionRegistryService unit tests
+ *
+ * SR-01  Per-device sign-out revokes the session and its refresh-token family
+ * SR-02  A session can only be revoked by its owner
+ * SR-03  Impersonation tokens need a registered session; stop and expiry reject them
+ * SR-04  Tenant force-logout: watermark rejects older tokens (with or without sid), not newer
+ * SR-05  User force-logout revokes every refresh token; checkRefresh compares row createdAt
+ * SR-06  Refresh registers legacy families; revoke-others keeps the current device
+ *
+ * In-memory fake of db.authSession / sessionRevocation / refreshToken — no real Prisma client.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'node:crypto';
+import type { Prisma } from '@prisma/client';
+import { SessionNotFoundError, SessionRegistryService } from '../services/sessions/sessionRegistry.service.js';
+
+// ─── In-memory Prisma fake ───────────────────────────────────────────────────
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+function fieldMatches(value: unknown, condition: unknown): boolean {
+  if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+    const ops = condition as { not?: unknown; in?: unknown[]; gt?: Date };
+    if ('not' in ops && value === ops.not) return false;
+    if (ops.in !== undefined && !ops.in.includes(value)) return false;
+    if (ops.gt !== undefined && !(value !== null && (value as Date) > ops.gt)) return false;
+    return true;
+  }
+  return value === condition;
+}
+
+function matches(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') return (condition as Where[]).some(clause => matches(row, clause));
+    if (key.includes('_')) return matches(row, condition as Where); // compound unique key
+    return fieldMatches(row[key] ?? null, condition);
+  });
+}
+
+function makeTable(defaults: () => Row) {
+  const rows: Row[] = [];
+  return {
+    rows,
+    async findMany({ where }: { where?: Where } = {}) {
+      return rows.filter(row => matches(row, where));
+    },
+    async findUnique({ where }: { where: Where }) {
+      return rows.find(row => matches(row, where)) ?? null;
+    },
+    async create({ data }: { data: Row }) {
+      const row = { ...defaults(), id: randomUUID(), ...data };
+      rows.push(row);
+      return row;
+    },
+    async updateMany({ where, data }: { where: Where; data: Row }) {
+      const hits = rows.filter(row => matches(row, where));
+      for (const row of hits) Object.assign(row, data);
+      return { count: hits.length };
+    },
+    async upsert({ where, create, update }: { where: Where; create: Row; update: Row }) {
+      const row = rows.find(r => matches(r, where));
+      if (row) return Object.assign(row, update);
+      const created = { ...defaults(), id: randomUUID(), ...create };
+      rows.push(created);
+      return created;
+    },
+  };
+}
+
+function makeFakeDb() {
+  return {
+    authSession: makeTable(() => ({
+      userId: null,
+      adminId: null,
+      tenantId: null,
+      impersonationId: null,
+      ip: null,
+      userAgent: null,
+      createdAt: new Date(),
+      lastSeenAt: new Date(),
+      expiresAt: null,
+      revokedAt: null,
+      revokedReason: null,
+      revokedByAdminId: null,
+    })),
+    sessionRevocation: makeTable(() => ({ reason: null, revokedByAdminId: null })),
+    refreshToken: makeTable(() => ({ userId: null, adminId: null, revokedAt: null, createdAt: new Date() })),
+  };
+}
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const TENANT_A = '00000000-0000-0000-0000-0000000000aa';
+const TENANT_B = '00000000-0000-0000-0000-0000000000bb';
+const USER_1 = '00000000-0000-0000-0000-000000000001';
+const USER_2 = '00000000-0000-0000-0000-000000000002';
+const ADMIN_ID = '00000000-0000-0000-0000-0000000000ad';
+
+const secondsOf = (date: Date) => Math.floor(date.getTime() / 1000);
+
+describe('SessionRegistryService', () => {
+  let db: ReturnType<typeof makeFakeDb>;
+  let registry: SessionRegistryService;
+
+  beforeEach(() => {
+    db = makeFakeDb();
+    registry = new SessionRegistryService(db as unknown as Prisma.TransactionClient);
+  });
+
+  async function login(userId: string, tenantId: string) {
+    const sessionId = randomUUID();
+    await registry.recordLoginSession({ sessionId, owner: { userId }, tenantId, ip: '10.0.0.1', userAgent: 'test' });
+    await db.refreshToken.create({ data: { userId, familyId: sessionId } });
+    return sessionId;
+  }
+
+  it('SR-01: per-device sign-out revokes the session and its refresh family', async () => {
+    const sid = await login(USER_1, TENANT_A);
+    const other = await login(USER_1, TENANT_A);
+    const claims = { sid, userId: USER_1, tenantId: TENANT_A, iat: secondsOf(new Date()) };
+
+    expect(await registry.checkAccess(claims)).toEqual({ ok: true });
+
+    await registry.revokeSession({ userId: USER_1 }, sid);
+
+    expect(await registry.checkAccess(claims)).toEqual({ ok: false, reason: 'SESSION_REVOKED' });
+    expect(db.refreshToken.rows.find(r => r.familyId === sid)?.revokedAt).toBeInstanceOf(Date);
+    expect(db.refreshToken.rows.find(r => r.familyId === other)?.revokedAt).toBeNull();
+    expect(await registry.checkAccess({ ...claims, sid: other })).toEqual({ ok: true });
+  });
+
+  it('SR-02: a session can only be revoked by its owner', async () => {
+    const sid = await login(USER_1, TENANT_A);
+
+    await expect(registry.revokeSession({ userId: USER_2 }, sid)).rejects.toBeInstanceOf(SessionNotFoundError);
+    await expect(registry.revokeSession({ adminId: ADMIN_ID }, sid)).rejects.toBeInstanceOf(SessionNotFoundError);
+    expect(db.authSession.rows[0].revokedAt).toBeNull();
+  });
+
+  it('SR-03: impersonation tokens need a registered session; stop and expiry reject them', async () => {
+    const impersonationId = randomUUID();
+    const now = new Date();
+    const claims = { userId: USER_1, tenantId: TENANT_A, iat: secondsOf(now), isImpersonation: true };
+
+    expect(await registry.checkAccess(claims)).toEqual({ ok: false, reason: 'SESSION_REQUIRED' });
+
+    const sid = await registry.recordImpersonationSession({
+      impersonationId,
+      userId: USER_1,
+      tenantId: TENANT_A,
+      expiresAt: new Date(now.getTime() + 30 * 60_000),
+    });
+    expect(await registry.checkAccess({ ...claims, sid })).toEqual({ ok: true });
+    expect(await registry.checkAccess({ ...claims, sid }, new Date(now.getTime() + 31 * 60_000))).toEqual({
+      ok: false,
+      reason: 'SESSION_EXPIRED',
+    });
+
+    await registry.revokeImpersonation(impersonationId);
+    expect(await registry.checkAccess({ ...claims, sid })).toEqual({ ok: false, reason: 'SESSION_REVOKED' });
+  });
+
+  it('SR-04: tenant force-logout rejects older tokens with or without sid, not newer ones', async () => {
+    const sidA = await login(USER_1, TENANT_A);
+    const sidB = await login(USER_2, TENANT_B);
+    const before = new Date(Date.now() - 60_000);
+    const at = new Date();
+
+    const result = await registry.forceLogout({
+      scope: 'TENANT',
+      subjectId: TENANT_A,
+      reason: 'Compromised credentials reported',
+      adminId: ADMIN_ID,
+      now: at,
+    });
+
+    expect(result).toMatchObject({ sessionsRevoked: 1, refreshTokensRevoked: 1 });
+    expect(await registry.checkAccess({ sid: sidA, userId: USER_1, tenantId: TENANT_A, iat: secondsOf(before) }))
+      .toEqual({ ok: false, reason: 'SESSION_REVOKED' });
+    expect(await registry.checkAccess({ userId: USER_1, tenantId: TENANT_A, iat: secondsOf(before) }))
+      .toEqual({ ok: false, reason: 'FORCED_LOGOUT' });
+    expect(await registry.checkAccess({ userId: USER_1, tenantId: TENANT_A, iat: secondsOf(at) + 1 }))
+      .toEqual({ ok: true });
+    expect(await registry.checkAccess({ sid: sidB, userId: USER_2, tenantId: TENANT_B, iat: secondsOf(before) }))
+      .toEqual({ ok: true });
+    expect(db.refreshToken.rows.find(r => r.familyId === sidB)?.revokedAt).toBeNull();
+  });
+
+  it('SR-05: user force-logout revokes every refresh token; checkRefresh compares createdAt', async () => {
+    await login(USER_1, TENANT_A);
+    await db.refreshToken.create({ data: { userId: USER_1, familyId: randomUUID() } }); // pre-registry family
+    const at = new Date(Date.now() + 1000);
+
+    const result = await registry.forceLogout({
+      scope: 'USER',
+      subjectId: USER_1,
+      reason: 'Employee offboarded today',
+      adminId: ADMIN_ID,
+      now: at,
+    });
+
+    expect(result.refreshTokensRevoked).toBe(2);
+    const legacyFamily = db.refreshToken.rows[1].familyId as string;
+    expect(
+      await registry.checkRefresh({ familyId: legacyFamily, owner: { userId: USER_1 }, refreshIssuedAt: new Date() }),
+    ).toEqual({ ok: false, reason: 'FORCED_LOGOUT' });
+    expect(
+      await registry.checkRefresh({
+        familyId: randomUUID(),
+        owner: { userId: USER_1 },
+        refreshIssuedAt: new Date(at.getTime() + 1000),
+      }),
+    ).toEqual({ ok: true });
+  });
+
+  it('SR-06: refresh registers legacy families; revoke-others keeps the current device', async () => {
+    const current = await login(USER_1, TENANT_A);
+    const legacy = randomUUID();
+
+    await registry.touchRefreshedSession({ sessionId: legacy, owner: { userId: USER_1 }, tenantId: TENANT_A });
+    await registry.touchRefreshedSession({ sessionId: legacy, owner: { userId: USER_1 }, tenantId: TENANT_A });
+    expect(db.authSession.rows.filter(r => r.id === legacy)).toHaveLength(1);
+    expect((await registry.listOwnSessions({ userId: USER_1 })).map(s => s.id).sort()).toEqual(
+      [current, legacy].sort(),
+    );
+
+    expect(await registry.revokeOtherSessions({ userId: USER_1 }, current)).toBe(1);
+    expect((await registry.listOwnSessions({ userId: USER_1 })).map(s => s.id)).toEqual([current]);
+  });
+});
@@ -0,0 +1,436 @@
+/**
+ * Unit Tests — Shipments, packing lists and delivery-driven fulfilment
+ * ORDER-FULFILMENT-001
+ *
+ * All Prisma DB calls and StateMachineService are mocked — no real database.
+ *
+ * Test IDs:
+ *   SHIP-01  canTransitionShipment — PENDING → DISPATCHED → DELIVERED; terminal states stay put
+ *   SHIP-02  isDocumentKindAllowed — proof of delivery only once dispatched; nothing on CANCELLED
+ *   SHIP-03  summarizeOrderShipmentProgress — cancelled shipments ignored; delivered tracked apart
+ *   SHIP-04  validateOrderShipmentLines — foreign order item and over-shipping rejected
+ *   SHIP-05  createShipment — order lines take item name / catalog id and resolve batch nodes
+ *   SHIP-06  createShipment — trade lines need a description; closed trades rejected
+ *   SHIP-07  dispatchShipment — compare-and-set status; DISPATCH_PROOF evidence per distinct node
+ *   SHIP-08  dispatchShipment — concurrent status change surfaces SHIPMENT_INVALID_TRANSITION
+ *   SHIP-09  fulfilOrderIfDelivered — partial delivery leaves the order alone
+ *   SHIP-10  fulfilOrderIfDelivered — full delivery: SYSTEM_AUTOMATION → FULFILLED, PLACED, reservations consumed
+ *   SHIP-11  fulfilOrderIfDelivered — SM denial reported, order untouched; non-CONFIRMED skipped
+ *   SHIP-12  deliverShipment — trade shipment appends SHIPMENT_DELIVERED trade event
+ *   SHIP-13  recordShipmentDocument — DISPATCH_PROOF upload becomes evidence with a tenant route URL
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Prisma } from '@prisma/client';
+
+const smTransition = vi.fn();
+vi.mock('../services/stateMachine.service.js', () => ({
+  StateMachineService: class {
+    transition = smTransition;
+  },
+}));
+
+import {
+  ShipmentError,
+  canTransitionShipment,
+  createShipment,
+  deliverShipment,
+  dispatchShipment,
+  fulfilOrderIfDelivered,
+  isDocumentKindAllowed,
+  recordShipmentDocument,
+  summarizeOrderShipmentProgress,
+  validateOrderShipmentLines,
+} from '../services/shipment/shipment.service.js';
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const TENANT_ID   = '11111111-1111-1111-1111-111111111111';
+const ORDER_ID    = '22222222-2222-2222-2222-222222222222';
+const TRADE_ID    = '33333333-3333-3333-3333-333333333333';
+const SHIPMENT_ID = '44444444-4444-4444-4444-444444444444';
+const ITEM_A      = '55555555-5555-5555-5555-555555555551';
+const ITEM_B      = '55555555-5555-5555-5555-555555555552';
+const CATALOG_A   = '66666666-6666-6666-6666-666666666661';
+const NODE_1      = '77777777-7777-7777-7777-777777777771';
+const NODE_2      = '77777777-7777-7777-7777-777777777772';
+const DOCUMENT_ID = '88888888-8888-8888-8888-888888888888';
+
+function makeShipment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: SHIPMENT_ID,
+    tenantId: TENANT_ID,
+    orderId: ORDER_ID,
+    tradeId: null,
+    carrier: 'DHL',
+    trackingNumber: 'AWB123',
+    status: 'PENDING',
+    dispatchedAt: null,
+    deliveredAt: null,
+    lines: [
+      { traceabilityNodeId: NODE_1 },
+      { traceabilityNodeId: NODE_1 },
+      { traceabilityNodeId: NODE_2 },
+      { traceabilityNodeId: null },
+    ],
+    documents: [],
+    ...overrides,
+  };
+}
+
+function makeTx(overrides: {
+  order?: unknown;
+  trade?: unknown;
+  existingLines?: unknown[];
+  deliveredLines?: unknown[];
+  shipmentStatus?: string;
+  shipmentAfter?: unknown;
+  updateCount?: number;
+  latestLog?: { to_state: string } | null;
+  existingEvidence?: Array<{ node_id: string }>;
+  traceabilityNode?: { id: string } | null;
+  activeReservations?: unknown[];
+} = {}) {
+  const tx = {
+    $queryRaw: vi.fn().mockImplementation(async (query: TemplateStringsArray | Prisma.Sql) => {
+      // Tagged-template call sites pass the strings array; the inventory lock helpers pass Prisma.sql.
+      const sql = 'sql' in query ? query.strings.join('?') : query.join('?');
+      if (sql.includes('SELECT node_id FROM dpp_evidence_items')) return overrides.existingEvidence ?? [];
+      return [{ id: 'evidence-id' }];
+    }),
+    order: {
+      findUnique: vi.fn().mockResolvedValue(overrides.order ?? null),
+      update:     vi.fn().mockResolvedValue({}),
+    },
+    trade: {
+      findUnique: vi.fn().mockResolvedValue(overrides.trade ?? null),
+    },
+    tradeEvent: {
+      create: vi.fn().mockResolvedValue({ id: 'event-id' }),
+    },
+    order_lifecycle_logs: {
+      findFirst: vi.fn().mockResolvedValue(overrides.latestLog ?? null),
+    },
+    traceabilityNode: {
+      findFirst: vi.fn().mockResolvedValue(overrides.traceabilityNode ?? null),
+    },
+    shipment: {
+      findUnique: vi.fn().mockImplementation(async ({ select }: { select?: unknown }) =>
+        select ? { status: overrides.shipmentStatus ?? 'PENDING' } : (overrides.shipmentAfter ?? makeShipment())),
+      updateMany: vi.fn().mockResolvedValue({ count: overrides.updateCount ?? 1 }),
+      create:     vi.fn().mockImplementation(async ({ data }) => ({ id: SHIPMENT_ID, ...data, lines: data.lines.create })),
+    },
+    shipmentLine: {
+      findMany: vi.fn().mockImplementation(async ({ where }: { where: { shipment: { status: unknown } } }) =>
+        where.shipment.status === 'DELIVERED' ? overrides.deliveredLines ?? [] : overrides.existingLines ?? []),
+    },
+    shipmentDocument: {
+      create: vi.fn().mockResolvedValue({ id: DOCUMENT_ID }),
+    },
+    inventoryReservation: {
+      findMany: vi.fn().mockResolvedValue(overrides.activeReservations ?? []),
+      update:   vi.fn().mockResolvedValue({}),
+    },
+    inventoryStockLot: {
+      update: vi.fn().mockResolvedValue({}),
+    },
+  };
+  return tx as typeof tx & Prisma.TransactionClient;
+}
+
+const CONFIRMED_ORDER = {
+  status: 'PLACED',
+  items: [
+    { id: ITEM_A, name: 'Cotton twill', quantity: 10, catalogItemId: CATALOG_A },
+    { id: ITEM_B, name: 'Linen', quantity: 4, catalogItemId: null },
+  ],
+};
+
+beforeEach(() => {
+  smTransition.mockReset();
+});
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+describe('shipment lifecycle rules', () => {
+  it('SHIP-01: PENDING → DISPATCHED → DELIVERED; DELIVERED and CANCELLED are terminal', () => {
+    expect(canTransitionShipment('PENDING', 'DISPATCHED')).toBe(true);
+    expect(canTransitionShipment('DISPATCHED', 'DELIVERED')).toBe(true);
+    expect(canTransitionShipment('PENDING', 'DELIVERED')).toBe(false);
+    expect(canTransitionShipment('DISPATCHED', 'CANCELLED')).toBe(true);
+    expect(canTransitionShipment('DELIVERED', 'CANCELLED')).toBe(false);
+    expect(canTransitionShipment('CANCELLED', 'DISPATCHED')).toBe(false);
+    expect(canTransitionShipment('UNKNOWN', 'DISPATCHED')).toBe(false);
+  });
+
+  it('SHIP-02: proof of delivery only after dispatch; cancelled shipments take no documents', () => {
+    expect(isDocumentKindAllowed('PENDING', 'DISPATCH_PROOF')).toBe(true);
+    expect(isDocumentKindAllowed('PENDING', 'PROOF_OF_DELIVERY')).toBe(false);
+    expect(isDocumentKindAllowed('DISPATCHED', 'PROOF_OF_DELIVERY')).toBe(true);
+    expect(isDocumentKindAllowed('DELIVERED', 'PROOF_OF_DELIVERY')).toBe(true);
+    expect(isDocumentKindAllowed('CANCELLED', 'DISPATCH_PROOF')).toBe(false);
+  });
+
+  it('SHIP-03: progress ignores cancelled shipments and tracks delivered separately', () => {
+    const progress = summarizeOrderShipmentProgress(CONFIRMED_ORDER.items, [
+      { orderItemId: ITEM_A, quantity: 4, status: 'DELIVERED' },
+      { orderItemId: ITEM_A, quantity: 3, status: 'DISPATCHED' },
+      { orderItemId: ITEM_A, quantity: 3, status: 'CANCELLED' },
+      { orderItemId: null,   quantity: 9, status: 'DELIVERED' },
+    ]);
+    expect(progress).toEqual([
+      { orderItemId: ITEM_A, ordered: 10, shipped: 7, delivered: 4 },
+      { orderItemId: ITEM_B, ordered: 4, shipped: 0, delivered: 0 },
+    ]);
+  });
+
+  it('SHIP-04: rejects foreign order items and over-shipping across lines', () => {
+    const progress = summarizeOrderShipmentProgress(CONFIRMED_ORDER.items, [
+      { orderItemId: ITEM_A, quantity: 7, status: 'DISPATCHED' },
+    ]);
+
+    expect(() => validateOrderShipmentLines(progress, [{ quantity: 1 }]))
+      .toThrow(expect.objectContaining({ code: 'SHIPMENT_LINE_INVALID' }));
+    expect(() => validateOrderShipmentLines(progress, [
+      { orderItemId: ITEM_A, quantity: 2 },
+      { orderItemId: ITEM_A, quantity: 2 },
+    ])).toThrow(expect.objectContaining({ code: 'SHIPMENT_QUANTITY_EXCEEDED', statusCode: 409 }));
+    expect(() => validateOrderShipmentLines(progress, [
+      { orderItemId: ITEM_A, quantity: 3 },
+      { orderItemId: ITEM_B, quantity: 4 },
+    ])).not.toThrow();
+  });
+});
+
+// ─── createShipment ───────────────────────────────────────────────────────────
+
+describe('createShipment', () => {
+  it('SHIP-05: order lines default to the item name, carry the catalog id and resolve batch nodes', async () => {
+    const tx = makeTx({ order: CONFIRMED_ORDER, traceabilityNode: { id: NODE_1 } });
+
+    const shipment = await createShipment(tx, {
+      tenantId: TENANT_ID,
+      orderId: ORDER_ID,
+      carrier: 'DHL',
+      lines: [{ orderItemId: ITEM_A, quantity: 5, batchId: 'LOT-1' }],
+      createdByUserId: 'user-1',
+    });
+
+    expect(tx.traceabilityNode.findFirst).toHaveBeenCalledWith({
+      where: { orgId: TENANT_ID, batchId: 'LOT-1' },
+      select: { id: true },
+    });
+    expect(shipment.lines).toEqual([
+      expect.objectContaining({
+        tenantId: TENANT_ID,
+        orderItemId: ITEM_A,
+        catalogItemId: CATALOG_A,
+        description: 'Cotton twill',
+        quantity: 5,
+        traceabilityNodeId: NODE_1,
+      }),
+    ]);
+  });
+
+  it('SHIP-06: trade lines need a description; closed trades and cancelled orders are rejected', async () => {
+    const openTrade = { lifecycleState: { stateKey: 'FULFILLMENT' } };
+    await expect(createShipment(makeTx({ trade: openTrade }), {
+      tenantId: TENANT_ID,
+      tradeId: TRADE_ID,
+      carrier: 'Maersk',
+      lines: [{ quantity: 2 }],
+      createdByUserId: null,
+    })).rejects.toMatchObject({ code: 'SHIPMENT_LINE_INVALID' });
+
+    await expect(createShipment(makeTx({ trade: { lifecycleState: { stateKey: 'CLOSED' } } }), {
+      tenantId: TENANT_ID,
+      tradeId: TRADE_ID,
+      carrier: 'Maersk',
+      lines: [{ description: 'Greige fabric', quantity: 2 }],
+      createdByUserId: null,
+    })).rejects.toMatchObject({ code: 'SHIPMENT_PARENT_CLOSED' });
+
+    await expect(createShipment(makeTx({ order: { ...CONFIRMED_ORDER, status: 'CANCELLED' } }), {
+      tenantId: TENANT_ID,
+      orderId: ORDER_ID,
+      carrier: 'DHL',
+      lines: [{ orderItemId: ITEM_A, quantity: 1 }],
+      createdByUserId: null,
+    })).rejects.toBeInstanceOf(ShipmentError);
+  });
+});
+
+// ─── dispatchShipment ─────────────────────────────────────────────────────────
+
+describe('dispatchShipment', () => {
+  it('SHIP-07: moves PENDING → DISPATCHED and records evidence once per distinct node', async () => {
+    const dispatchedAt = new Date('2026-06-24T10:00:00Z');
+    const tx = makeTx({
+      existingEvidence: [{ node_id: NODE_2 }],
+      shipmentAfter: makeShipment({ status: 'DISPATCHED', dispatchedAt }),
+    });
+
+    const result = await dispatchShipment(tx, { tenantId: TENANT_ID, shipmentId: SHIPMENT_ID, dispatchedAt });
+
+    expect(tx.shipment.updateMany).toHaveBeenCalledWith({
+      where: { id: SHIPMENT_ID, status: 'PENDING' },
+      data: { dispatchedAt, status: 'DISPATCHED' },
+    });
+    // NODE_1 appears twice on the packing list, NODE_2 already has evidence for this shipment.
+    expect(result.evidenceCount).toBe(1);
+    const insert = tx.$queryRaw.mock.calls.find(([strings]) => strings.join('?').includes('INSERT INTO dpp_evidence_items'));
+    expect(insert?.slice(1)).toEqual(expect.arrayContaining([
+      NODE_1, 'DISPATCH_PROOF', 'Dispatch proof — DHL AWB123', 'shipments', SHIPMENT_ID, 'DHL', 'AWB123', dispatchedAt,
+    ]));
+  });
+
+  it('SHIP-08: a concurrent status change surfaces SHIPMENT_INVALID_TRANSITION', async () => {
+    await expect(dispatchShipment(makeTx({ updateCount: 0 }), { tenantId: TENANT_ID, shipmentId: SHIPMENT_ID }))
+      .rejects.toMatchObject({ code: 'SHIPMENT_INVALID_TRANSITION' });
+    await expect(dispatchShipment(makeTx({ shipmentStatus: 'DELIVERED' }), { tenantId: TENANT_ID, shipmentId: SHIPMENT_ID }))
+      .rejects.toMatchObject({ code: 'SHIPMENT_INVALID_TRANSITION', statusCode: 409 });
+  });
+});
+
+// ─── Delivery-driven fulfilment ───────────────────────────────────────────────
+
+describe('fulfilOrderIfDelivered', () => {
+  it('SHIP-09: partial delivery leaves the order and the state machine alone', async () => {
+    const tx = makeTx({
+      order: CONFIRMED_ORDER,
+      deliveredLines: [{ orderItemId: ITEM_A, quantity: 10 }, { orderItemId: ITEM_B, quantity: 3 }],
+    });
+
+    const outcome = await fulfilOrderIfDelivered(tx, TENANT_ID, ORDER_ID, SHIPMENT_ID);
+
+    expect(outcome).toEqual({ status: 'PARTIAL' });
+    expect(smTransition).not.toHaveBeenCalled();
+    expect(tx.order.update).not.toHaveBeenCalled();
+  });
+
+  it('SHIP-10: full delivery transitions CONFIRMED → FULFILLED as SYSTEM_AUTOMATION', async () => {
+    smTransition.mockResolvedValue({ status: 'APPLIED', transitionId: 'log-1' });
+    const tx = makeTx({
+      order: CONFIRMED_ORDER,
+      latestLog: { to_state: 'CONFIRMED' },
+      deliveredLines: [
+        { orderItemId: ITEM_A, quantity: 6 },
+        { orderItemId: ITEM_A, quantity: 4 },
+        { orderItemId: ITEM_B, quantity: 4 },
+      ],
+      activeReservations: [{ id: 'res-1', stockLotId: 'lot-1', quantity: 10 }],
+    });
+
+    const outcome = await fulfilOrderIfDelivered(tx, TENANT_ID, ORDER_ID, SHIPMENT_ID);
+
+    expect(smTransition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        entityType: 'ORDER',
+        entityId: ORDER_ID,
+        orgId: TENANT_ID,
+        fromStateKey: 'CONFIRMED',
+        toStateKey: 'FULFILLED',
+        actorType: 'SYSTEM_AUTOMATION',
+        actorUserId: null,
+      }),
+      expect.anything(),
+    );
+    expect(tx.order.update).toHaveBeenCalledWith({ where: { id: ORDER_ID }, data: { status: 'PLACED' } });
+    expect(tx.inventoryReservation.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'CONSUMED' }) }),
+    );
+    expect(outcome).toEqual({ status: 'FULFILLED', transitionId: 'log-1', consumedReservations: 1 });
+  });
+
+  it('SHIP-11: SM denial is reported without touching the order; non-CONFIRMED orders are skipped', async () => {
+    const fullyDelivered = [{ orderItemId: ITEM_A, quantity: 10 }, { orderItemId: ITEM_B, quantity: 4 }];
+
+    smTransition.mockResolvedValue({ status: 'DENIED', code: 'ACTOR_ROLE_NOT_PERMITTED' });
+    const denied = makeTx({ order: CONFIRMED_ORDER, latestLog: { to_state: 'CONFIRMED' }, deliveredLines: fullyDelivered });
+    expect(await fulfilOrderIfDelivered(denied, TENANT_ID, ORDER_ID, SHIPMENT_ID))
+      .toEqual({ status: 'DENIED', code: 'ACTOR_ROLE_NOT_PERMITTED' });
+    expect(denied.order.update).not.toHaveBeenCalled();
+
+    smTransition.mockClear();
+    const pending = makeTx({ order: { ...CONFIRMED_ORDER, status: 'PAYMENT_PENDING' }, deliveredLines: fullyDelivered });
+    expect(await fulfilOrderIfDelivered(pending, TENANT_ID, ORDER_ID, SHIPMENT_ID))
+      .toEqual({ status: 'SKIPPED', canonicalState: 'PAYMENT_PENDING' });
+    expect(smTransition).not.toHaveBeenCalled();
+  });
+});
+
+describe('deliverShipment', () => {
+  it('SHIP-12: a delivered trade shipment appends a SHIPMENT_DELIVERED trade event', async () => {
+    const deliveredAt = new Date('2026-06-25T08:00:00Z');
+    const tx = makeTx({
+      shipmentStatus: 'DISPATCHED',
+      shipmentAfter: makeShipment({ orderId: null, tradeId: TRADE_ID, status: 'DELIVERED', deliveredAt }),
+    });
+
+    const result = await deliverShipment(tx, {
+      tenantId: TENANT_ID,
+      shipmentId: SHIPMENT_ID,
+      deliveredAt,
+      actorUserId: 'user-1',
+    });
+
+    expect(result.fulfilment).toBeNull();
+    expect(smTransition).not.toHaveBeenCalled();
+    expect(tx.tradeEvent.create).toHaveBeenCalledWith({
+      data: {
+        tenantId: TENANT_ID,
+        tradeId: TRADE_ID,
+        eventType: 'SHIPMENT_DELIVERED',
+        metadata: {
+          shipmentId: SHIPMENT_ID,
+          carrier: 'DHL',
+          trackingNumber: 'AWB123',
+          deliveredAt: deliveredAt.toISOString(),
+        },
+        createdByUserId: 'user-1',
+      },
+    });
+  });
+});
+
+describe('recordShipmentDocument', () => {
+  it('SHIP-13: DISPATCH_PROOF upload becomes evidence pointing at the tenant document route', async () => {
+    const tx = makeTx();
+    const shipment = makeShipment({ status: 'DISPATCHED', dispatchedAt: new Date('2026-06-24T10:00:00Z') });
+
+    const result = await recordShipmentDocument(tx, {
+      tenantId: TENANT_ID,
+      shipment: shipment as never,
+      kind: 'DISPATCH_PROOF',
+      storagePath: `${TENANT_ID}/shipments/${SHIPMENT_ID}/file.pdf`,
+      originalName: 'awb.pdf',
+      mimeType: 'application/pdf',
+      sizeBytes: 1024,
+      uploadedByUserId: 'user-1',
+    });
+
+    expect(result).toEqual({ documentId: DOCUMENT_ID, evidenceCount: 2 });
+    const inserts = tx.$queryRaw.mock.calls.filter(([strings]) => strings.join('?').includes('INSERT INTO dpp_evidence_items'));
+    for (const [, ...values] of inserts) {
+      expect(values).toEqual(expect.arrayContaining([
+        'shipment_documents',
+        DOCUMENT_ID,
+        `/api/tenant/shipments/${SHIPMENT_ID}/documents/${DOCUMENT_ID}`,
+      ]));
+      expect(values.join('|')).not.toContain('/shipments/' + SHIPMENT_ID + '/file.pdf');
+    }
+
+    const pod = makeTx();
+    expect(await recordShipmentDocument(pod, {
+      tenantId: TENANT_ID,
+      shipment: shipment as never,
+      kind: 'PROOF_OF_DELIVERY',
+      storagePath: 'p',
+      originalName: null,
+      mimeType: 'image/png',
+      sizeBytes: 10,
+      uploadedByUserId: null,
+    })).toEqual({ documentId: DOCUMENT_ID, evidenceCount: 0 });
+    expect(pod.$queryRaw).not.toHaveBeenCalled();
+  });
+});
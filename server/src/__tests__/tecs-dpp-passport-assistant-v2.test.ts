@@ -298,13 +298,18 @@ describe('DPP-019-E: Fallback behaviour', () => {
     expect(assistantSource).toContain("mode: 'deterministic_fallback'");
   });
 
-  it('E2 — Provider unavailable (null genAI) triggers fallback, not throw', () => {
+  it('E2 — Provider unavailable (no configured provider) triggers fallback, not throw', () => {
     const inferenceBody = extractFunctionBody(
       assistantSource,
       'runPassportAssistantInference',
     );
-    expect(inferenceBody).toContain('passportGenAI');
-    expect(inferenceBody).toContain('buildDeterministicFallback');
+    // The null provider check returns the deterministic fallback before any AI work
+    expect(inferenceBody).toMatch(
+      /if \(!passportProvider\) \{\s*return buildDeterministicFallback\(/,
+    );
+    expect(inferenceBody.indexOf('if (!passportProvider)')).toBeLessThan(
+      inferenceBody.indexOf('enforcePassportAssistantRateLimit'),
+    );
   });
 
   it('E3 — Timeout triggers fallback (Promise.race with timeout promise)', () => {
@@ -0,0 +1,292 @@
+/**
+ * DPP-PASSPORT-FORMATS-001 — Machine-readable passport formats
+ *
+ * Slice: GET /api/tenant/dpp/:nodeId/passport/jsonld|digital-link|label|espr-report
+ *        GET /api/public/dpp/dl/01/:gtin/21/:serial
+ *
+ * Test strategy:
+ *   Group A — Unit: GTIN normalisation (check digit, GTIN-8/12/13 padding)
+ *   Group B — Unit: GS1 Digital Link resolution
+ *   Group C — Unit: schema.org JSON-LD document
+ *   Group D — Unit: QR label descriptor honours label config
+ *   Group E — Unit: ESPR textile readiness report
+ *   Group F — Static: route registration and D-5 boundary
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { normalizeGtin, type DppProductDetailsDto } from '../services/dppProductDetails.js';
+import {
+  DEFAULT_DPP_PASSPORT_LABEL_CONFIG,
+  type DppPassportFormatSource,
+  buildEsprTextileReport,
+  buildPassportJsonLd,
+  buildPassportQrLabel,
+  resolveDigitalLink,
+} from '../services/dppPassportFormats.js';
+
+const SERVER_ROOT = path.resolve(__dirname, '../..');
+const TENANT_ROUTE_PATH = path.join(SERVER_ROOT, 'src/routes/tenant.ts');
+const FORMATS_ROUTE_PATH = path.join(SERVER_ROOT, 'src/routes/tenant/dppPassportFormats.ts');
+const PUBLIC_ROUTE_PATH = path.join(SERVER_ROOT, 'src/routes/public.ts');
+
+const BASE = 'https://app.example.test';
+const TOKEN = '0b9a3c57-64d2-4f7e-9a41-2d3e6f1a8b90';
+const NODE_ID = '6f1e2d3c-4b5a-4987-8a6b-5c4d3e2f1a0b';
+const GTIN = '09506000134352';
+
+function details(overrides: Partial<DppProductDetailsDto> = {}): DppProductDetailsDto {
+  return {
+    id: 'a1a1a1a1-0000-4000-8000-000000000001',
+    orgId: 'b2b2b2b2-0000-4000-8000-000000000002',
+    nodeId: NODE_ID,
+    sku: 'SKU-1',
+    styleCode: 'TEE-ORGANIC',
+    batchLotNumber: 'LOT-42',
+    productDescription: 'Organic cotton t-shirt',
+    seasonOrModelYear: 'SS26',
+    facilityName: 'Tiruppur Unit 3',
+    countryOfOrigin: 'IN',
+    materialComposition: [
+      { material: 'Cotton', percentage: 95 },
+      { material: 'Elastane', percentage: 5 },
+    ],
+    recycledContentPercent: 0,
+    organicContentPercent: 95,
+    dyeFinishCategory: 'REACTIVE',
+    restrictedSubstancesDeclared: true,
+    productPhotoEvidenceItemId: null,
+    gtin: GTIN,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function source(overrides: Partial<DppPassportFormatSource> = {}): DppPassportFormatSource {
+  return {
+    nodeId: NODE_ID,
+    batchId: 'BATCH-42',
+    nodeType: 'FINISHED_GOOD',
+    manufacturerName: 'Acme Knits',
+    manufacturerJurisdiction: 'IN',
+    manufacturerRegistrationNo: 'GSTIN-123',
+    passportStatus: 'PUBLISHED',
+    publicPassportId: TOKEN,
+    productDetails: details(),
+    certifications: [
+      {
+        certificationType: 'GOTS',
+        lifecycleStateName: 'APPROVED',
+        issuedAt: new Date('2026-01-01T00:00:00Z'),
+        expiryDate: new Date('2099-01-01T00:00:00Z'),
+      },
+    ],
+    ...overrides,
+  };
+}
+
+// ─── Group A ──────────────────────────────────────────────────────────────────
+
+describe('DPF-A — GTIN normalisation', () => {
+  it('DPF-A01 — accepts a valid GTIN-14 unchanged', () => {
+    expect(normalizeGtin(GTIN)).toBe(GTIN);
+  });
+
+  it('DPF-A02 — pads GTIN-13 and GTIN-8 to 14 digits', () => {
+    expect(normalizeGtin('9506000134352')).toBe(GTIN);
+    expect(normalizeGtin('96385074')).toBe('00000096385074');
+  });
+
+  it('DPF-A03 — rejects a wrong check digit, bad length or non-digits', () => {
+    expect(normalizeGtin('09506000134353')).toBeNull();
+    expect(normalizeGtin('123456789')).toBeNull();
+    expect(normalizeGtin('0950600013435X')).toBeNull();
+  });
+});
+
+// ─── Group B ──────────────────────────────────────────────────────────────────
+
+describe('DPF-B — GS1 Digital Link', () => {
+  it('DPF-B01 — published passport with GTIN yields /01/{gtin}/21/{token}', () => {
+    const link = resolveDigitalLink(source(), BASE);
+    expect(link).toEqual({
+      available: true,
+      digitalLinkUri: `${BASE}/api/public/dpp/dl/01/${GTIN}/21/${TOKEN}`,
+      passportUrl: `${BASE}/passport/${TOKEN}`,
+      gtin: GTIN,
+      publicPassportId: TOKEN,
+    });
+  });
+
+  it('DPF-B02 — unpublished passport is NOT_PUBLISHED even when a token exists', () => {
+    const link = resolveDigitalLink(source({ passportStatus: 'TRADE_READY' }), BASE);
+    expect(link).toEqual({ available: false, reason: 'NOT_PUBLISHED', passportUrl: null });
+  });
+
+  it('DPF-B03 — published passport without GTIN is GTIN_MISSING but keeps the passport URL', () => {
+    const link = resolveDigitalLink(source({ productDetails: details({ gtin: null }) }), BASE);
+    expect(link).toEqual({ available: false, reason: 'GTIN_MISSING', passportUrl: `${BASE}/passport/${TOKEN}` });
+  });
+});
+
+// ─── Group C ──────────────────────────────────────────────────────────────────
+
+describe('DPF-C — schema.org JSON-LD', () => {
+  const generatedAt = new Date('2026-06-01T12:00:00Z');
+
+  it('DPF-C01 — Product typed against schema.org with the Digital Link as @id', () => {
+    const doc = buildPassportJsonLd(source(), BASE, generatedAt);
+    expect(doc['@context']).toMatchObject({ '@vocab': 'https://schema.org/' });
+    expect(doc['@type']).toBe('Product');
+    expect(doc['@id']).toBe(`${BASE}/api/public/dpp/dl/01/${GTIN}/21/${TOKEN}`);
+    expect(doc['gtin14']).toBe(GTIN);
+    expect(doc['material']).toEqual(['95% Cotton', '5% Elastane']);
+    expect(doc['manufacturer']).toMatchObject({ '@type': 'Organization', name: 'Acme Knits' });
+    expect(doc['hasCertification']).toHaveLength(1);
+  });
+
+  it('DPF-C02 — draft passport falls back to a urn:uuid id and hides the token', () => {
+    const doc = buildPassportJsonLd(source({ passportStatus: 'DRAFT' }), BASE, generatedAt);
+    expect(doc['@id']).toBe(`urn:uuid:${NODE_ID}`);
+    expect(doc).not.toHaveProperty('url');
+    expect(doc).not.toHaveProperty('texqtic:publicPassportId');
+  });
+
+  it('DPF-C03 — null fields and expired certifications are omitted', () => {
+    const doc = buildPassportJsonLd(
+      source({
+        productDetails: null,
+        certifications: [{
+          certificationType: 'OEKO',
+          lifecycleStateName: 'APPROVED',
+          issuedAt: null,
+          expiryDate: new Date('2020-01-01T00:00:00Z'),
+        }],
+      }),
+      BASE,
+      generatedAt,
+    );
+    expect(doc).not.toHaveProperty('description');
+    expect(doc).not.toHaveProperty('gtin14');
+    expect(doc).not.toHaveProperty('hasCertification');
+  });
+});
+
+// ─── Group D ──────────────────────────────────────────────────────────────────
+
+describe('DPF-D — QR label', () => {
+  it('DPF-D01 — encodes the Digital Link and applies the org label config', () => {
+    const label = buildPassportQrLabel(
+      source(),
+      { publicTitle: 'Acme Passport', buyerFacingLabel: 'Scan to verify', subtitle: 'SS26', showTexqticBrand: false },
+      BASE,
+    );
+    expect(label).toMatchObject({
+      payloadUrl: `${BASE}/api/public/dpp/dl/01/${GTIN}/21/${TOKEN}`,
+      title: 'Acme Passport',
+      buyerFacingLabel: 'Scan to verify',
+      subtitle: 'SS26',
+      showTexqticBrand: false,
+      batchId: 'LOT-42',
+    });
+  });
+
+  it('DPF-D02 — without GTIN the label encodes the public passport URL', () => {
+    const label = buildPassportQrLabel(
+      source({ productDetails: details({ gtin: null }) }),
+      DEFAULT_DPP_PASSPORT_LABEL_CONFIG,
+      BASE,
+    );
+    expect(label?.payloadUrl).toBe(`${BASE}/passport/${TOKEN}`);
+    expect(label?.title).toBe('TEE-ORGANIC');
+    expect(label?.buyerFacingLabel).toBe('Verified Supply Chain Passport');
+  });
+
+  it('DPF-D03 — no label for an unpublished passport', () => {
+    expect(buildPassportQrLabel(source({ passportStatus: 'INTERNAL' }), DEFAULT_DPP_PASSPORT_LABEL_CONFIG, BASE))
+      .toBeNull();
+  });
+});
+
+// ─── Group E ──────────────────────────────────────────────────────────────────
+
+describe('DPF-E — ESPR textile readiness report', () => {
+  const evaluatedAt = new Date('2026-06-01T12:00:00Z');
+
+  it('DPF-E01 — complete passport is ready with nothing missing', () => {
+    const report = buildEsprTextileReport(source(), evaluatedAt);
+    expect(report.ready).toBe(true);
+    expect(report.requiredMissing).toEqual([]);
+    expect(report.recommendedMissing).toEqual([]);
+  });
+
+  it('DPF-E02 — lists missing required fields for a bare draft', () => {
+    const report = buildEsprTextileReport(
+      source({
+        passportStatus: 'DRAFT',
+        manufacturerRegistrationNo: null,
+        productDetails: null,
+        certifications: [],
+      }),
+      evaluatedAt,
+    );
+    expect(report.ready).toBe(false);
+    expect(report.requiredMissing).toEqual(expect.arrayContaining([
+      'unique_product_identifier',
+      'data_carrier',
+      'product_description',
+      'operator_identifier',
+      'manufacturing_facility',
+      'country_of_origin',
+      'fibre_composition',
+      'substances_of_concern',
+    ]));
+    expect(report.requiredMissing).not.toContain('batch_lot_number');
+    expect(report.recommendedMissing).toContain('certifications');
+  });
+
+  it('DPF-E03 — fibre composition must total 100%', () => {
+    const report = buildEsprTextileReport(
+      source({ productDetails: details({ materialComposition: [{ material: 'Cotton', percentage: 80 }] }) }),
+      evaluatedAt,
+    );
+    const check = report.checks.find(c => c.key === 'fibre_composition');
+    expect(check).toMatchObject({ satisfied: false, detail: 'Composition totals 80.00%' });
+    expect(report.ready).toBe(false);
+  });
+
+  it('DPF-E04 — declaring "no restricted substances" (false) still counts as declared', () => {
+    const report = buildEsprTextileReport(
+      source({ productDetails: details({ restrictedSubstancesDeclared: false }) }),
+      evaluatedAt,
+    );
+    expect(report.requiredMissing).not.toContain('substances_of_concern');
+  });
+});
+
+// ─── Group F ──────────────────────────────────────────────────────────────────
+
+describe('DPF-F — Static: registration and boundaries', () => {
+  it('DPF-F01 — formats plugin registered under /tenant/dpp', () => {
+    const src = fs.readFileSync(TENANT_ROUTE_PATH, 'utf-8');
+    expect(src).toMatch(/register\(tenantDppPassportFormatRoutes,\s*\{\s*prefix:\s*'\/tenant\/dpp'\s*\}\)/);
+  });
+
+  it('DPF-F02 — all four format routes are tenant-authenticated', () => {
+    const src = fs.readFileSync(FORMATS_ROUTE_PATH, 'utf-8');
+    for (const route of ['jsonld', 'digital-link', 'label', 'espr-report']) {
+      expect(src).toMatch(new RegExp(`'/:nodeId/passport/${route}',\\s*\\{ onRequest: \\[tenantAuthMiddleware, databaseContextMiddleware\\] \\}`));
+    }
+  });
+
+  it('DPF-F03 — public resolver redirects and never reads tenant tables', () => {
+    const src = fs.readFileSync(PUBLIC_ROUTE_PATH, 'utf-8');
+    const start = src.indexOf("fastify.get('/dpp/dl/01/:gtin/21/:serial'");
+    expect(start).toBeGreaterThan(0);
+    const block = src.slice(start, src.indexOf('INQUIRY-004: Pre-auth', start));
+    expect(block).toMatch(/reply\.redirect\(/);
+    expect(block).not.toMatch(/\$queryRaw|withDbContext|prisma\./);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Unit Tests — Traceability multi-hop lineage, mass balance and cycle detection
+ * G-016 lineage extension
+ *
+ * TraceabilityService runs against an in-memory fake of the two Prisma models
+ * it touches — no real database.
+ *
+ * Test IDs:
+ *   LIN-01  getLineage — UPSTREAM / DOWNSTREAM / BOTH walk the right way with signed depth
+ *   LIN-02  getLineage — depth limit stops the walk; shortest distance wins on diamonds
+ *   LIN-03  getLineage — edge-type filter (case-insensitive) prunes traversal
+ *   LIN-04  getLineage — unknown root → NOT_FOUND
+ *   LIN-05  computeMassBalance — balanced, excess output, process loss, unit mismatch, incomplete
+ *   LIN-06  checkMassBalance — uses all incident edges of lineage nodes; counts violations
+ *   LIN-07  createEdge — self-loop and cycle rejected with CYCLE_DETECTED; advisory lock taken
+ *   LIN-08  createEdge — quantity needs a unit; quantity persisted with the edge
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Prisma, type PrismaClient } from '@prisma/client';
+import {
+  TraceabilityService,
+  computeMassBalance,
+  type TraceabilityEdgeRow,
+  type TraceabilityNodeRow,
+} from '../services/traceability.g016.service.js';
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const ORG_ID = '11111111-1111-1111-1111-111111111111';
+
+function node(id: string, nodeType = 'BATCH'): TraceabilityNodeRow {
+  return {
+    id,
+    orgId: ORG_ID,
+    batchId: `B-${id}`,
+    nodeType,
+    meta: {},
+    visibility: 'TENANT',
+    geoHash: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  };
+}
+
+function edge(
+  fromNodeId: string,
+  toNodeId: string,
+  edgeType = 'TRANSFORMS',
+  quantity: number | null = null,
+  quantityUnit: string | null = quantity === null ? null : 'kg',
+): TraceabilityEdgeRow {
+  return {
+    id: `${fromNodeId}->${toNodeId}:${edgeType}`,
+    orgId: ORG_ID,
+    fromNodeId,
+    toNodeId,
+    edgeType,
+    transformationId: null,
+    quantity: quantity === null ? null : new Prisma.Decimal(quantity),
+    quantityUnit,
+    meta: {},
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+}
+
+type Where = Record<string, unknown>;
+
+function matches(row: Record<string, unknown>, where: Where): boolean {
+  return Object.entries(where).every(([key, cond]) => {
+    if (key === 'OR') return (cond as Where[]).some(w => matches(row, w));
+    if (cond && typeof cond === 'object' && 'in' in cond) {
+      return (cond as { in: unknown[] }).in.includes(row[key]);
+    }
+    return row[key] === cond;
+  });
+}
+
+/** In-memory stand-in for the traceabilityNode / traceabilityEdge delegates. */
+function makeDb(nodes: TraceabilityNodeRow[], edges: TraceabilityEdgeRow[]) {
+  const executeRaw = vi.fn().mockResolvedValue(1);
+  const create = vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+    const row = { id: `edge-${edges.length + 1}`, ...data } as unknown as TraceabilityEdgeRow;
+    edges.push(row);
+    return { id: row.id };
+  });
+  const db = {
+    $executeRaw: executeRaw,
+    traceabilityNode: {
+      findFirst: vi.fn(async ({ where }: { where: Where }) =>
+        nodes.find(n => matches(n as unknown as Record<string, unknown>, where)) ?? null,
+      ),
+      findMany: vi.fn(async ({ where }: { where: Where }) =>
+        nodes.filter(n => matches(n as unknown as Record<string, unknown>, where)),
+      ),
+    },
+    traceabilityEdge: {
+      findMany: vi.fn(async ({ where }: { where: Where }) =>
+        edges.filter(e => matches(e as unknown as Record<string, unknown>, where)),
+      ),
+      create,
+    },
+  };
+  return { svc: new TraceabilityService(db as unknown as PrismaClient), executeRaw, create };
+}
+
+// fibre → yarn → fabric → garment, with dye also feeding fabric
+//   fibre ─┐
+//          yarn ── fabric ── garment
+//   dye ───────────┘
+function supplyChain() {
+  const nodes = ['fibre', 'dye', 'yarn', 'fabric', 'garment'].map(id => node(id));
+  const edges = [
+    edge('fibre', 'yarn', 'TRANSFORMS', 100),
+    edge('yarn', 'fabric', 'TRANSFORMS', 95),
+    edge('dye', 'fabric', 'TRANSFORMS', 5),
+    edge('fabric', 'garment', 'SHIPMENT', 98),
+  ];
+  return { nodes, edges };
+}
+
+// ─── LIN-01 ─────────────────────────────────────────────────────────────────
+
+describe('LIN-01 getLineage — direction', () => {
+  it('UPSTREAM follows edges backwards from the root', async () => {
+    const { nodes, edges } = supplyChain();
+    const { svc } = makeDb(nodes, edges);
+
+    const result = await svc.getLineage({ orgId: ORG_ID, nodeId: 'fabric', direction: 'UPSTREAM', maxDepth: 5 });
+    expect(result.status).toBe('OK');
+    if (result.status !== 'OK') return;
+
+    const byId = Object.fromEntries(result.nodes.map(n => [n.id, [n.direction, n.depth]]));
+    expect(byId).toEqual({
+      fabric: ['ROOT', 0],
+      yarn: ['UPSTREAM', 1],
+      dye: ['UPSTREAM', 1],
+      fibre: ['UPSTREAM', 2],
+    });
+    expect(result.edges).toHaveLength(3);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('DOWNSTREAM follows edges forwards; BOTH merges both walks', async () => {
+    const { nodes, edges } = supplyChain();
+    const { svc } = makeDb(nodes, edges);
+
+    const down = await svc.getLineage({ orgId: ORG_ID, nodeId: 'yarn', direction: 'DOWNSTREAM', maxDepth: 5 });
+    expect(down.status === 'OK' && down.nodes.map(n => n.id).sort()).toEqual(['fabric', 'garment', 'yarn']);
+
+    const both = await svc.getLineage({ orgId: ORG_ID, nodeId: 'yarn', direction: 'BOTH', maxDepth: 5 });
+    expect(both.status === 'OK' && both.nodes.map(n => n.id).sort()).toEqual([
+      'fabric',
+      'fibre',
+      'garment',
+      'yarn',
+    ]);
+    // dye is a sibling input, neither upstream nor downstream of yarn
+    expect(both.status === 'OK' && both.edges.some(e => e.fromNodeId === 'dye')).toBe(false);
+  });
+});
+
+// ─── LIN-02 ─────────────────────────────────────────────────────────────────
+
+describe('LIN-02 getLineage — depth limit and diamonds', () => {
+  it('stops after maxDepth hops', async () => {
+    const { nodes, edges } = supplyChain();
+    const { svc } = makeDb(nodes, edges);
+
+    const result = await svc.getLineage({ orgId: ORG_ID, nodeId: 'garment', direction: 'UPSTREAM', maxDepth: 1 });
+    expect(result.status === 'OK' && result.nodes.map(n => n.id).sort()).toEqual(['fabric', 'garment']);
+  });
+
+  it('reports a node reachable by two paths once, at its shortest distance', async () => {
+    const nodes = ['a', 'b', 'c', 'd'].map(id => node(id));
+    const edges = [edge('a', 'b'), edge('b', 'c'), edge('c', 'd'), edge('a', 'd')];
+    const { svc } = makeDb(nodes, edges);
+
+    const result = await svc.getLineage({ orgId: ORG_ID, nodeId: 'a', direction: 'DOWNSTREAM', maxDepth: 5 });
+    expect(result.status).toBe('OK');
+    if (result.status !== 'OK') return;
+    expect(result.nodes.filter(n => n.id === 'd')).toHaveLength(1);
+    expect(result.nodes.find(n => n.id === 'd')?.depth).toBe(1);
+    expect(result.edges).toHaveLength(4);
+  });
+});
+
+// ─── LIN-03 ─────────────────────────────────────────────────────────────────
+
+describe('LIN-03 getLineage — edge-type filter', () => {
+  it('only traverses edges of the requested types', async () => {
+    const { nodes, edges } = supplyChain();
+    const { svc } = makeDb(nodes, edges);
+
+    const result = await svc.getLineage({
+      orgId: ORG_ID,
+      nodeId: 'garment',
+      direction: 'UPSTREAM',
+      maxDepth: 5,
+      edgeTypes: [' transforms '],
+    });
+    // garment is only reachable via SHIPMENT, so nothing beyond the root
+    expect(result.status === 'OK' && result.nodes.map(n => n.id)).toEqual(['garment']);
+  });
+});
+
+// ─── LIN-04 ─────────────────────────────────────────────────────────────────
+
+describe('LIN-04 getLineage — unknown root', () => {
+  it('returns NOT_FOUND', async () => {
+    const { svc } = makeDb([], []);
+    const result = await svc.getLineage({ orgId: ORG_ID, nodeId: 'missing', direction: 'BOTH', maxDepth: 3 });
+    expect(result).toMatchObject({ status: 'ERROR', code: 'NOT_FOUND' });
+  });
+});
+
+// ─── LIN-05 ─────────────────────────────────────────────────────────────────
+
+describe('LIN-05 computeMassBalance', () => {
+  const n = [node('x')];
+
+  it('BALANCED within tolerance, and process loss is accepted', () => {
+    const [within] = computeMassBalance(n, [edge('in', 'x', 'T', 100), edge('x', 'out', 'T', 101)], 2);
+    expect(within).toMatchObject({ status: 'BALANCED', inputQuantity: 100, outputQuantity: 101, variancePercent: 1 });
+
+    const [loss] = computeMassBalance(n, [edge('in', 'x', 'T', 100), edge('x', 'out', 'T', 60)], 2);
+    expect(loss).toMatchObject({ status: 'BALANCED', variancePercent: -40 });
+  });
+
+  it('EXCESS_OUTPUT when output exceeds input beyond tolerance', () => {
+    const [entry] = computeMassBalance(n, [edge('in', 'x', 'T', 100), edge('x', 'out', 'T', 110)], 2);
+    expect(entry).toMatchObject({ status: 'EXCESS_OUTPUT', variancePercent: 10, unit: 'kg' });
+  });
+
+  it('UNIT_MISMATCH when quantified edges use different units', () => {
+    const [entry] = computeMassBalance(
+      n,
+      [edge('in', 'x', 'T', 100, 'kg'), edge('x', 'out', 'T', 300, 'm')],
+      2,
+    );
+    expect(entry).toMatchObject({ status: 'UNIT_MISMATCH', unit: null, variancePercent: null });
+  });
+
+  it('INCOMPLETE when an incident edge has no quantity', () => {
+    const [entry] = computeMassBalance(
+      n,
+      [edge('in', 'x', 'T', 100), edge('in2', 'x', 'T'), edge('x', 'out', 'T', 90)],
+      2,
+    );
+    expect(entry).toMatchObject({ status: 'INCOMPLETE', unquantifiedEdges: 1 });
+  });
+
+  it('skips nodes that are not transformations (no input or no output)', () => {
+    expect(computeMassBalance(n, [edge('x', 'out', 'T', 10)], 2)).toEqual([]);
+  });
+});
+
+// ─── LIN-06 ─────────────────────────────────────────────────────────────────
+
+describe('LIN-06 checkMassBalance', () => {
+  it('balances each transformation with all its incident edges and counts violations', async () => {
+    const { nodes, edges } = supplyChain();
+    edges.push(edge('fabric', 'offcuts', 'WASTE', 10));
+    const { svc } = makeDb(nodes, edges);
+
+    // Walk from garment upstream, restricted to SHIPMENT: only fabric joins the lineage,
+    // yet fabric's TRANSFORMS inputs (95 + 5) and WASTE output still count.
+    const result = await svc.checkMassBalance({
+      orgId: ORG_ID,
+      nodeId: 'garment',
+      direction: 'UPSTREAM',
+      maxDepth: 3,
+      edgeTypes: ['SHIPMENT'],
+    });
+    expect(result.status).toBe('OK');
+    if (result.status !== 'OK') return;
+    expect(result.tolerancePercent).toBe(2);
+    expect(result.entries).toEqual([
+      expect.objectContaining({ nodeId: 'fabric', status: 'EXCESS_OUTPUT', inputQuantity: 100, outputQuantity: 108 }),
+    ]);
+    expect(result.violations).toBe(1);
+  });
+
+  it('rejects a negative tolerance', async () => {
+    const { svc } = makeDb([node('a')], []);
+    const result = await svc.checkMassBalance({
+      orgId: ORG_ID,
+      nodeId: 'a',
+      direction: 'BOTH',
+      maxDepth: 1,
+      tolerancePercent: -1,
+    });
+    expect(result).toMatchObject({ status: 'ERROR', code: 'INVALID_INPUT' });
+  });
+});
+
+// ─── LIN-07 ─────────────────────────────────────────────────────────────────
+
+describe('LIN-07 createEdge — cycle detection', () => {
+  it('rejects a self-loop without touching the database', async () => {
+    const { svc, executeRaw, create } = makeDb([node('a')], []);
+    const result = await svc.createEdge({ orgId: ORG_ID, fromNodeId: 'a', toNodeId: 'a', edgeType: 'T' });
+    expect(result).toMatchObject({ status: 'ERROR', code: 'CYCLE_DETECTED' });
+    expect(executeRaw).not.toHaveBeenCalled();
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('rejects an edge that would close a multi-hop cycle (any edge type)', async () => {
+    const { nodes, edges } = supplyChain();
+    const { svc, executeRaw, create } = makeDb(nodes, edges);
+
+    const result = await svc.createEdge({ orgId: ORG_ID, fromNodeId: 'garment', toNodeId: 'fibre', edgeType: 'RECYCLED' });
+    expect(result).toMatchObject({ status: 'ERROR', code: 'CYCLE_DETECTED' });
+    expect(executeRaw).toHaveBeenCalledTimes(1);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('accepts an edge that keeps the graph acyclic', async () => {
+    const { nodes, edges } = supplyChain();
+    const { svc, create } = makeDb(nodes, edges);
+
+    const result = await svc.createEdge({ orgId: ORG_ID, fromNodeId: 'dye', toNodeId: 'garment', edgeType: 'T' });
+    expect(result.status).toBe('CREATED');
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ─── LIN-08 ─────────────────────────────────────────────────────────────────
+
+describe('LIN-08 createEdge — quantity', () => {
+  it('requires quantity and quantityUnit together', async () => {
+    const { svc, create } = makeDb([node('a'), node('b')], []);
+    const result = await svc.createEdge({ orgId: ORG_ID, fromNodeId: 'a', toNodeId: 'b', edgeType: 'T', quantity: 5 });
+    expect(result).toMatchObject({ status: 'ERROR', code: 'INVALID_INPUT' });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('persists a positive quantity with its trimmed unit', async () => {
+    const { svc, create } = makeDb([node('a'), node('b')], []);
+    const result = await svc.createEdge({
+      orgId: ORG_ID,
+      fromNodeId: 'a',
+      toNodeId: 'b',
+      edgeType: 't',
+      quantity: 12.5,
+      quantityUnit: ' kg ',
+    });
+    expect(result.status).toBe('CREATED');
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ edgeType: 'T', quantity: 12.5, quantityUnit: 'kg' }),
+      }),
+    );
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Unit tests — trade creation from an RFQ with an accepted quote (TECS-RFQ-QUOTE-001)
+ *
+ * TradeService.createTradeFromRfq() with all Prisma calls mocked — no real database.
+ * Covers: currency and gross amount derived from the accepted revision, rejection of
+ *         contradicting terms, explicit terms required without an accepted quote.
+ *
+ * Run: pnpm exec vitest run src/__tests__/trade-rfq-accepted-quote.unit.test.ts
+ *       (from server/ directory)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { TradeService } from '../services/trade.g017.service.js';
+
+// ─── Mock DB ──────────────────────────────────────────────────────────────────
+
+interface MockDb {
+  lifecycleState: { findFirst: Mock };
+  rfq: { findFirst: Mock };
+  rfqQuote: { findFirst: Mock };
+  trade: { findFirst: Mock; create: Mock; update: Mock };
+  tradeEvent: { create: Mock };
+  $queryRaw: Mock;
+  $transaction: Mock;
+}
+
+function makeDb(): MockDb {
+  const db: MockDb = {
+    lifecycleState: { findFirst: vi.fn() },
+    rfq: { findFirst: vi.fn() },
+    // default: no accepted quote — caller-supplied amount/currency path
+    rfqQuote: { findFirst: vi.fn().mockResolvedValue(null) },
+    trade: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+    tradeEvent: { create: vi.fn() },
+    $queryRaw: vi.fn(),
+    // $transaction calls the callback with db itself (same mock handles all methods)
+    $transaction: vi.fn((cb: (tx: MockDb) => unknown) => cb(db)),
+  };
+  return db;
+}
+
+function makeEscalation() {
+  return {
+    checkEntityFreeze: vi.fn().mockResolvedValue(undefined),
+    checkOrgFreeze: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const DRAFT_STATE = { id: 'draft-state-uuid-0000-000000000001' };
+const TENANT_ID = 'tenant-uuid-0000-0000-000000000001';
+const TRADE_ID = 'trade-uuid-0000-0000-000000000001';
+
+const RFQ_ROW = {
+  id: 'rfq-uuid-0000-0000-000000000001',
+  orgId: TENANT_ID,
+  supplierOrgId: 'supplier-org-uuid-0000-000000000001',
+  status: 'RESPONDED',
+};
+
+const VALID_CREATE_FROM_RFQ_INPUT = {
+  tenantId: TENANT_ID,
+  rfqId: RFQ_ROW.id,
+  tradeReference: 'TRD-RFQ-0001',
+  currency: 'USD',
+  grossAmount: 2400,
+  reason: 'Bridge responded RFQ into existing trade continuity.',
+};
+
+// Accepted supplier revision — 500 m at the 500+ tier of 4.25 = 2125.00
+const ACCEPTED_QUOTE_ROW = {
+  id: 'quote-uuid-0000-0000-000000000002',
+  rfqId: RFQ_ROW.id,
+  buyerOrgId: RFQ_ROW.orgId,
+  supplierOrgId: RFQ_ROW.supplierOrgId,
+  revision: 3,
+  authorSide: 'SUPPLIER',
+  status: 'ACCEPTED',
+  currency: 'EUR',
+  unitPrice: { toString: () => '4.80' },
+  quantity: 500,
+  quantityBreaks: [{ min_quantity: 500, unit_price: 4.25 }],
+  leadTimeDays: 21,
+  incoterm: 'FOB',
+  validUntil: null,
+  paymentTerms: '30% advance, 70% against BL',
+  note: null,
+  createdByUserId: 'user-supplier-0001',
+  createdAt: new Date('2026-06-10T10:00:00.000Z'),
+  acceptedAt: new Date('2026-06-11T10:00:00.000Z'),
+  acceptedByUserId: 'user-buyer-0001',
+};
+
+// ─── Tests ────────────────────────────────────────────────────────────────────
+
+describe('TradeService.createTradeFromRfq — accepted quote terms', () => {
+  let db: MockDb;
+  let svc: TradeService;
+
+  beforeEach(() => {
+    db = makeDb();
+    svc = new TradeService(db as never, { transition: vi.fn() } as never, makeEscalation() as never);
+  });
+
+  it('derives currency and grossAmount from the accepted quote', async () => {
+    db.lifecycleState.findFirst.mockResolvedValueOnce(DRAFT_STATE);
+    db.rfq.findFirst.mockResolvedValueOnce(RFQ_ROW);
+    db.rfqQuote.findFirst.mockResolvedValueOnce(ACCEPTED_QUOTE_ROW);
+    db.$queryRaw
+      .mockResolvedValueOnce([{ exists: true }])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ exists: true }])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ exists: true }])
+      .mockResolvedValueOnce([{ id: TRADE_ID, trade_reference: VALID_CREATE_FROM_RFQ_INPUT.tradeReference }]);
+    db.tradeEvent.create.mockResolvedValueOnce({ id: 'event-rfq-002' });
+
+    const result = await svc.createTradeFromRfq({
+      ...VALID_CREATE_FROM_RFQ_INPUT,
+      currency: undefined,
+      grossAmount: undefined,
+    });
+
+    expect(result).toMatchObject({
+      status: 'CREATED',
+      currency: 'EUR',
+      grossAmount: 2125,
+      acceptedQuoteId: ACCEPTED_QUOTE_ROW.id,
+    });
+    expect(db.tradeEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          metadata: expect.objectContaining({
+            currency: 'EUR',
+            grossAmount: 2125,
+            acceptedQuoteId: ACCEPTED_QUOTE_ROW.id,
+            acceptedQuoteRevision: 3,
+          }),
+        }),
+      }),
+    );
+  });
+
+  it('rejects a grossAmount that contradicts the accepted quote', async () => {
+    db.lifecycleState.findFirst.mockResolvedValueOnce(DRAFT_STATE);
+    db.rfq.findFirst.mockResolvedValueOnce(RFQ_ROW);
+    db.rfqQuote.findFirst.mockResolvedValueOnce(ACCEPTED_QUOTE_ROW);
+    db.$queryRaw
+      .mockResolvedValueOnce([{ exists: true }])
+      .mockResolvedValueOnce([]);
+
+    const result = await svc.createTradeFromRfq({
+      ...VALID_CREATE_FROM_RFQ_INPUT,
+      currency: 'EUR',
+      grossAmount: 2400,
+    });
+
+    expect(result.status).toBe('ERROR');
+    expect((result as { status: 'ERROR'; code: string }).code).toBe('QUOTE_TERMS_MISMATCH');
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('requires explicit terms when no quote has been accepted', async () => {
+    db.lifecycleState.findFirst.mockResolvedValueOnce(DRAFT_STATE);
+    db.rfq.findFirst.mockResolvedValueOnce(RFQ_ROW);
+    db.$queryRaw
+      .mockResolvedValueOnce([{ exists: true }])
+      .mockResolvedValueOnce([]);
+
+    const result = await svc.createTradeFromRfq({
+      ...VALID_CREATE_FROM_RFQ_INPUT,
+      grossAmount: undefined,
+    });
+
+    expect(result.status).toBe('ERROR');
+    expect((result as { status: 'ERROR'; code: string }).code).toBe('RFQ_NOT_ELIGIBLE');
+  });
+});
@@ -18,6 +18,7 @@ const envSchema = z.object({
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1).optional(),
   CATALOG_IMAGE_BUCKET: z.string().min(1).optional(),
   CERTIFICATE_DOCUMENT_BUCKET: z.string().min(1).optional(),
+  SHIPMENT_DOCUMENT_BUCKET: z.string().min(1).optional(),
 
   // JWT
   JWT_ACCESS_SECRET: z.string().min(32),
@@ -38,7 +39,27 @@ const envSchema = z.object({
   RATE_LIMIT_WINDOW_MINUTES: z.string().transform(Number).default('10'),
 
   // AI
-  GEMINI_API_KEY: z.string().min(1),
+  // Optional so development and CI can run offline (AI_PROVIDER=fixture); without it the
+  // Gemini provider is unconfigured and call sites selecting it run in degraded mode.
+  GEMINI_API_KEY: z.string().min(1).optional(),
+
+  // AI-PROVIDER-001 — provider selection (services/ai/providers/).
+  // AI_PROVIDER: deployment default. AI_PROVIDER_TASK_OVERRIDES: comma-separated
+  // task=provider pairs, e.g. "rfq-assist=openai-compatible,embedding=fixture".
+  // Per-tenant settings (tenant_ai_provider_settings) take precedence for text tasks.
+  AI_PROVIDER: z.enum(['gemini', 'openai-compatible', 'fixture']).default('gemini'),
+  AI_PROVIDER_TASK_OVERRIDES: z.string().optional(),
+  // OpenAI-compatible endpoint including the version segment (e.g. http://localhost:11434/v1).
+  // The provider is configured only when the base URL is set.
+  AI_OPENAI_COMPAT_BASE_URL: z.string().url().optional(),
+  AI_OPENAI_COMPAT_API_KEY: z.string().min(1).optional(),
+  AI_OPENAI_COMPAT_MODEL: z.string().min(1).default('llama3.1'),
+  // Must produce 768-dim vectors (EMBEDDING_DIM); nomic-embed-text does natively.
+  AI_OPENAI_COMPAT_EMBEDDING_MODEL: z.string().min(1).default('nomic-embed-text'),
+  // JSON file of canned responses for the fixture provider (see fixtureProvider.ts).
+  AI_FIXTURE_FILE: z.string().min(1).optional(),
+  // AI-STREAM-001 — per-tenant response cache lifetime (ai_response_cache). 0 disables.
+  AI_RESPONSE_CACHE_TTL_SECONDS: z.string().transform(Number).default('900'),
 
   // CORS
   CORS_ALLOWED_ORIGINS: z
@@ -67,6 +88,68 @@ const envSchema = z.object({
   CRM_LIFECYCLE_BASE_URL: z.string().url().optional(),
   CRM_LIFECYCLE_INGESTION_SECRET: z.string().min(32).optional(),
 
+  // OPS-BACKGROUND-JOB-QUEUE-001 — durable background job worker.
+  // Every API instance runs the worker by default; claims are lease-based, so any
+  // number of instances may poll concurrently. Set to 'false' to run a web-only node.
+  JOB_WORKER_ENABLED: z
+    .string()
+    .transform(v => v === 'true')
+    .default('true'),
+  JOB_WORKER_POLL_INTERVAL_MS: z.string().transform(Number).default('1000'),
+  // Governance expiry sweeper ('governance.expiry.sweep' job): expires stale
+  // maker-checker approvals and decays sanctions past decays_at.
+  GOV_EXPIRY_SWEEP_INTERVAL_MS: z.string().transform(Number).default('300000'),
+
+  // FX — platform reporting currency. Trades and invoices snapshot their rate into it
+  // at creation; TTP tier caps are denominated in it by default.
+  FX_REPORTING_CURRENCY: z
+    .string()
+    .regex(/^[A-Z]{3}$/, 'FX_REPORTING_CURRENCY must be an uppercase ISO 4217 code')
+    .default('INR'),
+
+  // MFA — TOTP / WebAuthn second factor and step-up re-authentication.
+  // MFA_SECRET_ENCRYPTION_KEY encrypts TOTP secrets at rest; when unset a key is derived
+  // from JWT_ACCESS_SECRET (rotating that secret then invalidates enrolled authenticator apps).
+  MFA_SECRET_ENCRYPTION_KEY: z.string().min(32).optional(),
+  MFA_TOTP_ISSUER: z.string().min(1).default('TexQtic'),
+  // Require every platform admin to enroll a factor before sensitive control-plane actions.
+  MFA_ADMIN_REQUIRED: z
+    .string()
+    .transform(v => v === 'true')
+    .default('false'),
+  // How recent a factor verification must be for step-up protected routes.
+  MFA_STEP_UP_MAX_AGE_SECONDS: z.string().transform(Number).default('600'),
+  // WebAuthn relying party. Defaults derive from FRONTEND_URL (hostname / origin).
+  WEBAUTHN_RP_ID: z.string().min(1).optional(),
+  WEBAUTHN_RP_NAME: z.string().min(1).default('TexQtic'),
+  // Comma-separated list of allowed origins, e.g. https://app.texqtic.com,https://admin.texqtic.com
+  WEBAUTHN_ORIGINS: z.string().min(1).optional(),
+
+  // SSO — per-tenant OIDC / SAML sign-in (see services/sso). SSO_SECRET_ENCRYPTION_KEY encrypts
+  // OIDC client secrets at rest; when unset a key is derived from JWT_ACCESS_SECRET.
+  SSO_SECRET_ENCRYPTION_KEY: z.string().min(32).optional(),
+  // Public origin of this API, used for the OIDC redirect URI and SAML ACS / entity ID.
+  // Defaults to the FRONTEND_URL origin (the SPA proxies /api).
+  SSO_CALLBACK_BASE_URL: z.string().url().optional(),
+
+  // Tenant outbound webhooks (see services/webhooks). WEBHOOK_SECRET_ENCRYPTION_KEY encrypts
+  // subscription signing secrets at rest; when unset a key is derived from JWT_ACCESS_SECRET.
+  WEBHOOK_SECRET_ENCRYPTION_KEY: z.string().min(32).optional(),
+
+  // Tamper-evident audit log chain (see services/auditChain). AUDIT_CHAIN_SIGNING_KEY is an
+  // Ed25519 private key (PKCS#8 PEM, "\n" escapes allowed) that signs chain checkpoints and
+  // export manifests; when unset a key is derived from JWT_ACCESS_SECRET (rotating that secret
+  // then changes the signing key id, and older checkpoints verify only against the old key).
+  AUDIT_CHAIN_SIGNING_KEY: z.string().min(1).optional(),
+  // 'audit.chain.seal' job cadence, and the minimum spacing of signed head checkpoints per chain.
+  AUDIT_CHAIN_SEAL_INTERVAL_MS: z.string().transform(Number).default('60000'),
+  AUDIT_CHAIN_CHECKPOINT_INTERVAL_MS: z.string().transform(Number).default('3600000'),
+
+  // Live event_logs streams (services/eventStream): poll cadence of each open stream and the
+  // cap on concurrent streams per API process (further opens get 429).
+  EVENT_STREAM_POLL_INTERVAL_MS: z.string().transform(Number).default('1000'),
+  EVENT_STREAM_MAX_CONNECTIONS: z.string().transform(Number).default('200'),
+
   // Feature Flags
   KILL_SWITCH_ALL: z
     .string()
@@ -0,0 +1,205 @@
+/**
+ * domainEmitter.ts — TENANT-WEBHOOKS-001
+ *
+ * Best-effort emission of the versioned trade / RFQ / order / pool domain events.
+ *
+ * Execution chain (per publishDomainEvent call):
+ *   1. validateEventPayload()      — domain payload schema guard (eventSchemas.ts)
+ *   2. Build EventEnvelope         — v1 envelope, TENANT realm, emitting org as tenantId
+ *   3. validateKnownEvent()        — envelope structure guard (events.ts)
+ *   4. assertNoSecretsInPayload()  — secrets guard (events.ts)
+ *   5. emitEventToSink()           — P0 console sink (events.ts)
+ *   6. eventLog.create()           — event_logs row
+ *      enqueueJob('events.projection.apply') — projections, claimable once it commits
+ *   7. enqueueJob('webhook.fanout') — tenant webhook fan-out (services/webhooks)
+ *
+ * RULES:
+ * - Call with the transaction client of the state change, AFTER the change is written:
+ *   the projection and fan-out jobs commit or roll back with it, so neither projections
+ *   nor subscribers see a change that did not happen. Job rows are created with
+ *   orgId = emitting org, which background_jobs RLS allows inside that org's
+ *   withDbContext transaction.
+ * - Failures are caught, logged, never rethrown. Inside a caller transaction each INSERT
+ *   runs under its own SAVEPOINT, so a rejected row (e.g. background_jobs RLS in an admin
+ *   context without org context) is rolled back alone and cannot abort the state change,
+ *   and a failed event_logs write does not stop the webhook fan-out.
+ * - Domain events are not derived from an audit row: the event_logs row links to its own
+ *   id (auditLogId = event.id), mirroring event.id = audit.id of audit-derived events.
+ * - Payload must be minimal, non-secret, non-PII (enforced by schema + secrets guard);
+ *   it is delivered verbatim to other tenants' endpoints as `data`.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { PrismaClient, Prisma } from '@prisma/client';
+import { validateEventPayload } from './eventSchemas.js';
+import {
+  validateKnownEvent,
+  assertNoSecretsInPayload,
+  emitEventToSink,
+  toEventLogCreateData,
+  EVENT_PROJECTION_JOB_TYPE,
+  EVENT_PROJECTION_MAX_ATTEMPTS,
+} from '../lib/events.js';
+import type {
+  ActorType,
+  EventProjectionJobPayload,
+  KnownEventEnvelope,
+  KnownEventName,
+} from '../lib/events.js';
+import { enqueueJob } from '../services/jobQueue/jobQueue.service.js';
+import {
+  WEBHOOK_FANOUT_JOB_TYPE,
+  WEBHOOK_FANOUT_MAX_ATTEMPTS,
+  type WebhookFanoutJobPayload,
+} from '../services/webhooks/webhook.types.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Options for publishing a domain event.
+ */
+export interface DomainEventOpts {
+  /** Emitting org — envelope.tenantId and owner of the fan-out job. */
+  orgId: string;
+
+  /**
+   * Orgs whose webhook subscriptions receive the event. Defaults to [orgId].
+   * RFQ and pool award events name both parties.
+   */
+  audienceOrgIds?: string[];
+
+  /** Actor of the change. id is null for SYSTEM. */
+  actor: { type: ActorType; id: string | null };
+
+  /** Entity the event is about (rfq, rfq_quote, trade, pool, …). */
+  entity: { type: string; id: string };
+
+  /**
+   * Prisma client or transaction. The event_logs row and the projection and fan-out
+   * jobs are written on it; when omitted the event only reaches the sink.
+   */
+  db?: DbClient;
+}
+
+/**
+ * Run one INSERT on the caller's client. A TransactionClient (no $transaction) is
+ * isolated with a SAVEPOINT so a failed INSERT leaves the caller's transaction usable.
+ */
+async function inSavepoint(db: DbClient, name: string, write: () => Promise<unknown>): Promise<void> {
+  const inTransaction = !('$transaction' in db);
+  if (inTransaction) await db.$executeRawUnsafe(`SAVEPOINT ${name}`);
+  try {
+    await write();
+  } catch (err) {
+    if (inTransaction) await db.$executeRawUnsafe(`ROLLBACK TO SAVEPOINT ${name}`);
+    throw err;
+  }
+  if (inTransaction) await db.$executeRawUnsafe(`RELEASE SAVEPOINT ${name}`);
+}
+
+/**
+ * Store the event in event_logs and enqueue its 'events.projection.apply' job.
+ * Failures are logged here so the webhook fan-out still runs.
+ */
+async function storeDomainEvent(
+  db: DbClient,
+  event: KnownEventEnvelope,
+  opts: DomainEventOpts,
+): Promise<void> {
+  try {
+    await inSavepoint(db, 'domain_event_log', () =>
+      db.eventLog.create({ data: toEventLogCreateData(event, event.id) }),
+    );
+    await inSavepoint(db, 'domain_event_projection', () =>
+      enqueueJob<EventProjectionJobPayload>(db as PrismaClient, {
+        jobType: EVENT_PROJECTION_JOB_TYPE,
+        orgId: opts.orgId,
+        payload: { event },
+        maxAttempts: EVENT_PROJECTION_MAX_ATTEMPTS,
+      }),
+    );
+  } catch (err) {
+    console.warn('[Domain Event Emission] Event log or projection job write failed (non-blocking):', {
+      eventId: event.id,
+      eventName: event.name,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+/** Insert the 'webhook.fanout' job. */
+async function enqueueFanoutJob(
+  db: DbClient,
+  event: KnownEventEnvelope,
+  opts: DomainEventOpts,
+): Promise<void> {
+  await inSavepoint(db, 'domain_event_publish', () =>
+    enqueueJob<WebhookFanoutJobPayload>(db as PrismaClient, {
+      jobType: WEBHOOK_FANOUT_JOB_TYPE,
+      orgId: opts.orgId,
+      payload: {
+        event,
+        audienceOrgIds: opts.audienceOrgIds ?? [opts.orgId],
+      },
+      maxAttempts: WEBHOOK_FANOUT_MAX_ATTEMPTS,
+    }),
+  );
+}
+
+/**
+ * Publish a domain event — best-effort, non-blocking.
+ *
+ * All errors are caught and logged. This function MUST NOT throw.
+ *
+ * @param name    KnownEventName of a trade / RFQ / order / pool domain event
+ * @param payload Minimal, non-secret payload satisfying the registered domain schema
+ * @param opts    Emission options
+ */
+export async function publishDomainEvent(
+  name: KnownEventName,
+  payload: Record<string, unknown>,
+  opts: DomainEventOpts,
+): Promise<void> {
+  try {
+    // 1. Validate payload against the registered domain schema
+    const validatedPayload = validateEventPayload(name, payload);
+
+    // 2. Build v1 EventEnvelope
+    const envelope = {
+      id: randomUUID(),
+      version: 'v1' as const,
+      name,
+      occurredAt: new Date().toISOString(),
+      tenantId: opts.orgId,
+      realm: 'TENANT' as const,
+      actor: opts.actor,
+      entity: opts.entity,
+      payload: validatedPayload as Prisma.JsonValue,
+      metadata: {},
+    };
+
+    // 3. Validate as KnownEventEnvelope (structural guard)
+    const knownEnvelope = validateKnownEvent(envelope);
+
+    // 4. Assert no secrets in payload (security guard)
+    assertNoSecretsInPayload(knownEnvelope.payload);
+
+    // 5. Emit to P0 sink (console logging)
+    emitEventToSink(knownEnvelope);
+
+    if (opts.db) {
+      // 6. Persist to event_logs (event streams) and enqueue projections in the caller's transaction
+      await storeDomainEvent(opts.db, knownEnvelope, opts);
+
+      // 7. Schedule tenant webhook fan-out in the caller's transaction
+      await enqueueFanoutJob(opts.db, knownEnvelope, opts);
+    }
+  } catch (err) {
+    // Best-effort: log warning, never rethrow
+    console.warn('[Domain Event Emission] Failed (non-blocking):', {
+      eventName: name,
+      orgId: opts.orgId ? `${opts.orgId.slice(0, 8)}…` : 'unknown',
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
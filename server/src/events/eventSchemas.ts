@@ -204,15 +204,110 @@ export const AiVectorQueryPayload = z
   })
   .passthrough();
 
+// ============================================================================
+// TRADE / RFQ / ORDER / POOL DOMAIN — PAYLOAD SCHEMAS (TENANT-WEBHOOKS-001)
+// ============================================================================
+
+/**
+ * <entity>.state_changed.v1
+ * Emitted by StateMachineService.transition() after an APPLIED lifecycle log write.
+ * The transition reason is free text and is deliberately not part of the payload.
+ */
+export const DomainStateChangedPayload = z
+  .object({
+    entityType: z.string(),
+    entityId: z.string().uuid(),
+    fromState: z.string(),
+    toState: z.string(),
+    actorType: z.string(),
+    transitionId: z.string().uuid(),
+  })
+  .passthrough();
+
+/**
+ * rfq.submitted.v1
+ * Emitted when an RFQ is sent to a supplier (direct create or draft submit).
+ */
+export const RfqSubmittedPayload = z
+  .object({
+    rfqId: z.string().uuid(),
+    buyerOrgId: z.string().uuid(),
+    supplierOrgId: z.string().uuid(),
+    status: z.string(),
+  })
+  .passthrough();
+
+/**
+ * rfq.responded.v1
+ * Emitted when the supplier responds to an RFQ.
+ */
+export const RfqRespondedPayload = z
+  .object({
+    rfqId: z.string().uuid(),
+    responseId: z.string().uuid(),
+    buyerOrgId: z.string().uuid(),
+    supplierOrgId: z.string().uuid(),
+  })
+  .passthrough();
+
+/**
+ * rfq.quote.revised.v1
+ * Emitted when the supplier revises its quote or the buyer posts a counter-offer.
+ */
+export const RfqQuoteRevisedPayload = z
+  .object({
+    rfqId: z.string().uuid(),
+    quoteId: z.string().uuid(),
+    revision: z.number().int().positive(),
+    authorSide: z.enum(['BUYER', 'SUPPLIER']),
+    buyerOrgId: z.string().uuid(),
+    supplierOrgId: z.string().uuid(),
+  })
+  .passthrough();
+
+/**
+ * rfq.quote.accepted.v1
+ * Emitted when the buyer accepts the current supplier quote revision.
+ */
+export const RfqQuoteAcceptedPayload = z
+  .object({
+    rfqId: z.string().uuid(),
+    quoteId: z.string().uuid(),
+    revision: z.number().int().positive(),
+    buyerOrgId: z.string().uuid(),
+    supplierOrgId: z.string().uuid(),
+  })
+  .passthrough();
+
+/**
+ * pool.quote.awarded.v1
+ * Emitted when a pool RFQ is awarded — whole quote (FULL) or per demand line (SPLIT).
+ */
+export const PoolQuoteAwardedPayload = z
+  .object({
+    poolId: z.string().uuid(),
+    rfqId: z.string().uuid(),
+    awardType: z.enum(['FULL', 'SPLIT']),
+    awards: z.array(
+      z
+        .object({
+          quoteId: z.string().uuid(),
+          supplierOrgId: z.string().uuid(),
+        })
+        .passthrough(),
+    ),
+  })
+  .passthrough();
+
 // ============================================================================
 // AI EVENT PAYLOAD SCHEMA REGISTRY
 // ============================================================================
 
 /**
- * Registry mapping AI KnownEventName → Zod payload schema.
+ * Registry mapping AI and domain KnownEventName → Zod payload schema.
  *
- * Extend this map as new AI event types are introduced.
- * Non-AI events are not registered here; their payloads are validated loosely
+ * Extend this map as new AI or domain event types are introduced.
+ * Unregistered events (tenant, team, cart, acquisition) are validated loosely
  * by the envelope schema's z.record(z.any()).
  */
 export const EVENT_PAYLOAD_SCHEMAS: Partial<Record<KnownEventName, z.ZodTypeAny>> = {
@@ -230,6 +325,19 @@ export const EVENT_PAYLOAD_SCHEMAS: Partial<Record<KnownEventName, z.ZodTypeAny>
   'ai.vector.upsert': AiVectorUpsertPayload,
   'ai.vector.delete': AiVectorDeletePayload,
   'ai.vector.query': AiVectorQueryPayload,
+  // TENANT-WEBHOOKS-001: trade / RFQ / order / pool domain
+  'trade.state_changed.v1': DomainStateChangedPayload,
+  'escrow.state_changed.v1': DomainStateChangedPayload,
+  'certification.state_changed.v1': DomainStateChangedPayload,
+  'order.state_changed.v1': DomainStateChangedPayload,
+  'pool.state_changed.v1': DomainStateChangedPayload,
+  'syndicate.state_changed.v1': DomainStateChangedPayload,
+  'vco_chain.state_changed.v1': DomainStateChangedPayload,
+  'rfq.submitted.v1': RfqSubmittedPayload,
+  'rfq.responded.v1': RfqRespondedPayload,
+  'rfq.quote.revised.v1': RfqQuoteRevisedPayload,
+  'rfq.quote.accepted.v1': RfqQuoteAcceptedPayload,
+  'pool.quote.awarded.v1': PoolQuoteAwardedPayload,
 };
 
 // ============================================================================
@@ -241,7 +349,7 @@ export const EVENT_PAYLOAD_SCHEMAS: Partial<Record<KnownEventName, z.ZodTypeAny>
  *
  * Returns the parsed (and passthrough-preserved) payload if a schema is
  * registered for the given event name. Returns the original payload unchanged
- * if no schema is registered (non-AI events).
+ * if no schema is registered.
  *
  * Throws a Zod validation error if the payload does not satisfy the schema.
  *
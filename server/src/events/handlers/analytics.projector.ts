@@ -0,0 +1,577 @@
+import { Prisma } from '@prisma/client';
+import type { DbClient, ProjectionResult, ProjectionHandler } from '../projections/types.js';
+import type { EventEnvelope } from '../../lib/events.js';
+import { registerProjection } from '../projections/registry.js';
+
+/**
+ * Analytics Projection Handler — ANALYTICS-PROJECTIONS-001
+ *
+ * PURPOSE:
+ * - supplier_performance_summaries: RFQ responsiveness, pool quote win rate and
+ *   on-time fulfilment per supplier org (tenant dashboard + supplier match signals)
+ * - buyer_spend_monthly: buyer spend per month, supplier, category and currency
+ *
+ * EVENTS HANDLED (domain events persisted by events/domainEmitter.ts):
+ * - rfq.submitted.v1, rfq.responded.v1  → supplier summary of payload.supplierOrgId
+ * - pool.quote.awarded.v1               → supplier summary of every quoting supplier
+ * - trade.state_changed.v1              → seller summary + buyer spend month of the trade
+ *
+ * RECOMPUTE, NOT INCREMENT:
+ * - Every row is rebuilt from rfqs, pool quotes, trades and shipments, so a late,
+ *   duplicate or replayed event converges to the same row. The event only says
+ *   which rows to rebuild.
+ * - A trade enters buyer spend at its first state transition (trade creation has no
+ *   domain event). replay:analytics corrects any drift; projection:health:analytics
+ *   detects it.
+ *
+ * IDEMPOTENCY:
+ * - Uses last_event_id to skip an event already applied to a row
+ * - Uses version for optimistic locking on supplier summaries
+ *
+ * TENANT ISOLATION:
+ * - The emitting org (event.tenantId) must be a party to the RFQ, pool or trade
+ * - RLS enforced at schema level (projector bypass for writes)
+ */
+
+const PROJECTION_NAME = 'analytics';
+
+/** Trailing window of the supplier performance summary. */
+export const ANALYTICS_WINDOW_DAYS = 365;
+
+/** A supplier response within this many minutes of submission counts as "within 24h". */
+export const RESPONSE_WITHIN_MINUTES = 24 * 60;
+
+/** Spend category of trades without a source RFQ catalog item category. */
+export const SPEND_CATEGORY_UNCATEGORISED = 'UNCATEGORISED';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FulfilmentOutcome = 'ON_TIME' | 'LATE' | 'PENDING';
+
+export interface SupplierPerformanceMetrics {
+  windowDays: number;
+  rfqReceivedCount: number;
+  rfqRespondedCount: number;
+  respondedWithin24hCount: number;
+  responseMinutesMedian: number | null;
+  responseMinutesAvg: number | null;
+  poolQuoteDecidedCount: number;
+  poolQuoteWonCount: number;
+  fulfilmentDueCount: number;
+  fulfilmentOnTimeCount: number;
+}
+
+export interface BuyerSpendBucket {
+  supplierOrgId: string;
+  category: string;
+  currency: string;
+  tradeCount: number;
+  totalAmount: Prisma.Decimal;
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/** First day (00:00 UTC) of the UTC month of `date`. */
+export function monthStartUtc(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/** First day of the following UTC month. */
+export function nextMonthUtc(month: Date): Date {
+  return new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1));
+}
+
+/** Median of whole minutes (mean of the two middle values, rounded). Null when empty. */
+export function medianMinutes(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]
+    : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * Fulfilment outcome of one trade against its target delivery date.
+ *
+ * Fulfilled = at least one DELIVERED shipment and none PENDING / DISPATCHED; the
+ * fulfilment time is the last delivery. It is on time when delivered by the end
+ * (UTC) of the due date. Unfulfilled trades are LATE once the due date has passed,
+ * otherwise PENDING (not counted yet).
+ */
+export function classifyFulfilment(
+  dueDate: Date,
+  shipments: Array<{ status: string; deliveredAt: Date | null }>,
+  asOf: Date
+): FulfilmentOutcome {
+  const dueEnd = dueDate.getTime() + DAY_MS;
+  const open = shipments.some(s => s.status === 'PENDING' || s.status === 'DISPATCHED');
+  const deliveredAt = shipments
+    .filter(s => s.status === 'DELIVERED' && s.deliveredAt)
+    .map(s => (s.deliveredAt as Date).getTime());
+
+  if (!open && deliveredAt.length > 0) {
+    return Math.max(...deliveredAt) < dueEnd ? 'ON_TIME' : 'LATE';
+  }
+  return asOf.getTime() >= dueEnd ? 'LATE' : 'PENDING';
+}
+
+/**
+ * Whether an ACCEPTED pool quote won everything it offered.
+ *
+ * A quote accepted whole has no line awards. A split-awarded quote only counts when
+ * every quoted line was awarded its full quoted qty — a partial award is decided,
+ * not won.
+ */
+export function isFullPoolAward(
+  lines: Array<{ quotedQty: Prisma.Decimal; awards: Array<{ awardedQty: Prisma.Decimal }> }>
+): boolean {
+  if (lines.every(line => line.awards.length === 0)) return true;
+  return lines.every(line =>
+    line.awards
+      .reduce((sum, award) => sum.plus(award.awardedQty), new Prisma.Decimal(0))
+      .greaterThanOrEqualTo(line.quotedQty)
+  );
+}
+
+// ============================================================================
+// RECOMPUTE FROM SOURCE TABLES (also used by replay and health checks)
+// ============================================================================
+
+/**
+ * Recompute a supplier's performance over the trailing window ending at `asOf`.
+ *
+ * - RFQs: submitted (non-draft) RFQs addressed to the supplier. Submission time is the
+ *   first rfq.submitted.v1 event of the RFQ, or its creation time for RFQs created
+ *   before domain events were stored.
+ * - Pool quotes: fully awarded ACCEPTED quotes (isFullPoolAward) vs. ACCEPTED + REJECTED
+ *   (withdrawn and open quotes excluded).
+ * - Fulfilment: non-cancelled trades sold by the supplier whose source RFQ has a target
+ *   delivery date (classifyFulfilment).
+ */
+export async function computeSupplierPerformance(
+  db: DbClient,
+  supplierOrgId: string,
+  asOf: Date
+): Promise<SupplierPerformanceMetrics> {
+  const since = new Date(asOf.getTime() - ANALYTICS_WINDOW_DAYS * DAY_MS);
+
+  // 1. RFQ responsiveness
+  const rfqs = await db.rfq.findMany({
+    where: { supplierOrgId, status: { not: 'INITIATED' }, createdAt: { gte: since } },
+    select: { id: true, createdAt: true, supplierResponse: { select: { submittedAt: true } } },
+  });
+
+  const submittedAt = new Map<string, Date>();
+  if (rfqs.length > 0) {
+    const submittedEvents = await db.eventLog.findMany({
+      where: {
+        name: 'rfq.submitted.v1',
+        entityType: 'rfq',
+        entityId: { in: rfqs.map(rfq => rfq.id) },
+      },
+      select: { entityId: true, occurredAt: true },
+      orderBy: { occurredAt: 'asc' },
+    });
+    for (const ev of submittedEvents) {
+      if (!submittedAt.has(ev.entityId)) submittedAt.set(ev.entityId, ev.occurredAt);
+    }
+  }
+
+  const responseMinutes = rfqs
+    .filter(rfq => rfq.supplierResponse)
+    .map(rfq => {
+      const sentAt = submittedAt.get(rfq.id) ?? rfq.createdAt;
+      const respondedAt = (rfq.supplierResponse as { submittedAt: Date }).submittedAt;
+      return Math.max(0, Math.round((respondedAt.getTime() - sentAt.getTime()) / 60_000));
+    });
+
+  // 2. Pool quote win rate
+  const [poolQuoteDecidedCount, acceptedQuotes] = await Promise.all([
+    db.networkPoolRfqSupplierQuote.count({
+      where: { supplierOrgId, status: { in: ['ACCEPTED', 'REJECTED'] }, submittedAt: { gte: since } },
+    }),
+    db.networkPoolRfqSupplierQuote.findMany({
+      where: { supplierOrgId, status: 'ACCEPTED', submittedAt: { gte: since } },
+      select: { lines: { select: { quotedQty: true, awards: { select: { awardedQty: true } } } } },
+    }),
+  ]);
+  const poolQuoteWonCount = acceptedQuotes.filter(quote => isFullPoolAward(quote.lines)).length;
+
+  // 3. On-time fulfilment
+  const trades = await db.trade.findMany({
+    where: {
+      sellerOrgId: supplierOrgId,
+      createdAt: { gte: since },
+      lifecycleState: { stateKey: { not: 'CANCELLED' } },
+      sourceRfq: { targetDeliveryDate: { not: null } },
+    },
+    select: {
+      sourceRfq: { select: { targetDeliveryDate: true } },
+      shipments: { select: { status: true, deliveredAt: true } },
+    },
+  });
+
+  let fulfilmentDueCount = 0;
+  let fulfilmentOnTimeCount = 0;
+  for (const trade of trades) {
+    const dueDate = trade.sourceRfq?.targetDeliveryDate;
+    if (!dueDate) continue;
+    const outcome = classifyFulfilment(dueDate, trade.shipments, asOf);
+    if (outcome === 'PENDING') continue;
+    fulfilmentDueCount += 1;
+    if (outcome === 'ON_TIME') fulfilmentOnTimeCount += 1;
+  }
+
+  return {
+    windowDays: ANALYTICS_WINDOW_DAYS,
+    rfqReceivedCount: rfqs.length,
+    rfqRespondedCount: responseMinutes.length,
+    respondedWithin24hCount: responseMinutes.filter(m => m <= RESPONSE_WITHIN_MINUTES).length,
+    responseMinutesMedian: medianMinutes(responseMinutes),
+    responseMinutesAvg:
+      responseMinutes.length > 0
+        ? Math.round(responseMinutes.reduce((sum, m) => sum + m, 0) / responseMinutes.length)
+        : null,
+    poolQuoteDecidedCount,
+    poolQuoteWonCount,
+    fulfilmentDueCount,
+    fulfilmentOnTimeCount,
+  };
+}
+
+/**
+ * Recompute a buyer's spend for one UTC month: non-cancelled trades created in the
+ * month, grouped by seller org, source RFQ catalog item category and currency.
+ * Buckets are sorted by supplier, category, currency.
+ */
+export async function computeBuyerSpendMonth(
+  db: DbClient,
+  buyerOrgId: string,
+  month: Date
+): Promise<BuyerSpendBucket[]> {
+  const trades = await db.trade.findMany({
+    where: {
+      buyerOrgId,
+      createdAt: { gte: month, lt: nextMonthUtc(month) },
+      lifecycleState: { stateKey: { not: 'CANCELLED' } },
+    },
+    select: {
+      sellerOrgId: true,
+      currency: true,
+      grossAmount: true,
+      sourceRfq: { select: { catalogItem: { select: { productCategory: true } } } },
+    },
+  });
+
+  const buckets = new Map<string, BuyerSpendBucket>();
+  for (const trade of trades) {
+    const category =
+      trade.sourceRfq?.catalogItem.productCategory?.trim() || SPEND_CATEGORY_UNCATEGORISED;
+    const key = `${trade.sellerOrgId}|${category}|${trade.currency}`;
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.tradeCount += 1;
+      bucket.totalAmount = bucket.totalAmount.add(trade.grossAmount);
+    } else {
+      buckets.set(key, {
+        supplierOrgId: trade.sellerOrgId,
+        category,
+        currency: trade.currency,
+        tradeCount: 1,
+        totalAmount: new Prisma.Decimal(trade.grossAmount),
+      });
+    }
+  }
+
+  return [...buckets.values()].sort(
+    (a, b) =>
+      a.supplierOrgId.localeCompare(b.supplierOrgId) ||
+      a.category.localeCompare(b.category) ||
+      a.currency.localeCompare(b.currency)
+  );
+}
+
+// ============================================================================
+// PROJECTION WRITES
+// ============================================================================
+
+type RowOutcome = 'applied' | 'skipped';
+
+/**
+ * Rebuild one supplier's summary row. Creates it on first sight; afterwards updates
+ * under the version lock.
+ */
+export async function projectSupplierPerformance(
+  db: DbClient,
+  supplierOrgId: string,
+  event: Pick<EventEnvelope, 'id' | 'occurredAt'>,
+  asOf: Date = new Date()
+): Promise<RowOutcome> {
+  const existing = await db.supplierPerformanceSummary.findUnique({
+    where: { tenantId: supplierOrgId },
+    select: { id: true, lastEventId: true, version: true },
+  });
+
+  if (existing?.lastEventId === event.id) {
+    return 'skipped';
+  }
+
+  const metrics = await computeSupplierPerformance(db, supplierOrgId, asOf);
+
+  if (!existing) {
+    await db.supplierPerformanceSummary.create({
+      data: {
+        tenantId: supplierOrgId,
+        ...metrics,
+        lastEventId: event.id,
+        version: 1,
+        lastUpdatedAt: new Date(event.occurredAt),
+      },
+    });
+    return 'applied';
+  }
+
+  await db.supplierPerformanceSummary.update({
+    where: {
+      id: existing.id,
+      version: existing.version, // Optimistic lock
+    },
+    data: {
+      ...metrics,
+      lastEventId: event.id,
+      version: existing.version + 1,
+      lastUpdatedAt: new Date(event.occurredAt),
+    },
+  });
+  return 'applied';
+}
+
+/** Replace a buyer's spend rows for one UTC month. */
+export async function projectBuyerSpendMonth(
+  db: DbClient,
+  buyerOrgId: string,
+  month: Date,
+  event: Pick<EventEnvelope, 'id' | 'occurredAt'>
+): Promise<RowOutcome> {
+  const applied = await db.buyerSpendMonthly.findFirst({
+    where: { tenantId: buyerOrgId, month, lastEventId: event.id },
+    select: { id: true },
+  });
+  if (applied) {
+    return 'skipped';
+  }
+
+  const buckets = await computeBuyerSpendMonth(db, buyerOrgId, month);
+  const lastUpdatedAt = new Date(event.occurredAt);
+
+  await db.buyerSpendMonthly.deleteMany({ where: { tenantId: buyerOrgId, month } });
+  if (buckets.length > 0) {
+    await db.buyerSpendMonthly.createMany({
+      data: buckets.map(bucket => ({
+        tenantId: buyerOrgId,
+        month,
+        ...bucket,
+        lastEventId: event.id,
+        lastUpdatedAt,
+      })),
+    });
+  }
+  return 'applied';
+}
+
+// ============================================================================
+// EVENT HANDLERS
+// ============================================================================
+
+function failure(event: EventEnvelope, error: string): ProjectionResult {
+  return {
+    success: false,
+    eventId: event.id,
+    eventName: event.name,
+    projectionName: PROJECTION_NAME,
+    error,
+  };
+}
+
+function outcomeResult(event: EventEnvelope, outcomes: RowOutcome[]): ProjectionResult {
+  if (outcomes.length > 0 && outcomes.every(outcome => outcome === 'skipped')) {
+    return {
+      success: true,
+      eventId: event.id,
+      eventName: event.name,
+      projectionName: PROJECTION_NAME,
+      skipped: true,
+      skipReason: 'Event already processed (idempotent skip)',
+    };
+  }
+  return {
+    success: true,
+    eventId: event.id,
+    eventName: event.name,
+    projectionName: PROJECTION_NAME,
+  };
+}
+
+function payloadOf(event: EventEnvelope): Record<string, unknown> | null {
+  if (!event.payload || typeof event.payload !== 'object' || Array.isArray(event.payload)) {
+    return null;
+  }
+  return event.payload as Record<string, unknown>;
+}
+
+/**
+ * Handle rfq.submitted.v1 / rfq.responded.v1
+ *
+ * Rebuilds the summary of the RFQ's supplier.
+ */
+async function handleRfqEvent(db: DbClient, event: EventEnvelope): Promise<ProjectionResult> {
+  try {
+    if (!event.tenantId) {
+      return failure(event, 'Event missing tenantId (tenant isolation required)');
+    }
+    const payload = payloadOf(event);
+    if (!payload) {
+      return failure(event, 'Invalid payload: expected object');
+    }
+    const buyerOrgId = payload.buyerOrgId as string;
+    const supplierOrgId = payload.supplierOrgId as string;
+    if (!buyerOrgId || !supplierOrgId) {
+      return failure(event, 'Missing required fields: buyerOrgId or supplierOrgId');
+    }
+    if (event.tenantId !== buyerOrgId && event.tenantId !== supplierOrgId) {
+      return failure(event, 'Emitting org is not a party to the RFQ (isolation violation)');
+    }
+
+    const outcome = await projectSupplierPerformance(db, supplierOrgId, event);
+    return outcomeResult(event, [outcome]);
+  } catch (error) {
+    return failure(event, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle pool.quote.awarded.v1
+ *
+ * An award decides every quote of the pool RFQ (winners ACCEPTED, the rest
+ * REJECTED), so each quoting supplier's summary is rebuilt.
+ */
+async function handlePoolQuoteAwarded(
+  db: DbClient,
+  event: EventEnvelope
+): Promise<ProjectionResult> {
+  try {
+    if (!event.tenantId) {
+      return failure(event, 'Event missing tenantId (tenant isolation required)');
+    }
+    const payload = payloadOf(event);
+    if (!payload) {
+      return failure(event, 'Invalid payload: expected object');
+    }
+    const rfqId = payload.rfqId as string;
+    if (!rfqId) {
+      return failure(event, 'Missing required field: rfqId');
+    }
+
+    const quotes = await db.networkPoolRfqSupplierQuote.findMany({
+      where: { rfqId, ownerOrgId: event.tenantId }, // Enforce tenant isolation
+      select: { supplierOrgId: true },
+      distinct: ['supplierOrgId'],
+    });
+
+    const outcomes: RowOutcome[] = [];
+    for (const quote of quotes) {
+      outcomes.push(await projectSupplierPerformance(db, quote.supplierOrgId, event));
+    }
+    return outcomeResult(event, outcomes);
+  } catch (error) {
+    return failure(event, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Handle trade.state_changed.v1
+ *
+ * Rebuilds the seller's summary (fulfilment, cancellations) and the buyer's spend
+ * for the trade's creation month.
+ */
+async function handleTradeStateChanged(
+  db: DbClient,
+  event: EventEnvelope
+): Promise<ProjectionResult> {
+  try {
+    if (!event.tenantId) {
+      return failure(event, 'Event missing tenantId (tenant isolation required)');
+    }
+    const payload = payloadOf(event);
+    const tradeId = (payload?.entityId as string) || event.entity.id;
+    if (!tradeId) {
+      return failure(event, 'Missing required field: entityId');
+    }
+
+    const trade = await db.trade.findUnique({
+      where: { id: tradeId },
+      select: { tenantId: true, buyerOrgId: true, sellerOrgId: true, createdAt: true },
+    });
+    if (!trade) {
+      return failure(event, `Trade not found: ${tradeId}`);
+    }
+    if (![trade.tenantId, trade.buyerOrgId, trade.sellerOrgId].includes(event.tenantId)) {
+      return failure(event, 'Emitting org is not a party to the trade (isolation violation)');
+    }
+
+    const outcomes = [
+      await projectSupplierPerformance(db, trade.sellerOrgId, event),
+      await projectBuyerSpendMonth(db, trade.buyerOrgId, monthStartUtc(trade.createdAt), event),
+    ];
+    return outcomeResult(event, outcomes);
+  } catch (error) {
+    return failure(event, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Unified analytics projection handler
+ */
+const analyticsProjectionHandler: ProjectionHandler = async (
+  db: DbClient,
+  event: EventEnvelope
+): Promise<ProjectionResult> => {
+  switch (event.name) {
+    case 'rfq.submitted.v1':
+    case 'rfq.responded.v1':
+      return handleRfqEvent(db, event);
+
+    case 'pool.quote.awarded.v1':
+      return handlePoolQuoteAwarded(db, event);
+
+    case 'trade.state_changed.v1':
+      return handleTradeStateChanged(db, event);
+
+    default:
+      // Unknown event name - should never happen due to registry filtering
+      return failure(event, `Unexpected event name: ${event.name}`);
+  }
+};
+
+/** Event names that trigger the analytics projection (also selected by replay:analytics). */
+export const ANALYTICS_EVENT_NAMES = [
+  'rfq.submitted.v1',
+  'rfq.responded.v1',
+  'pool.quote.awarded.v1',
+  'trade.state_changed.v1',
+];
+
+/**
+ * Auto-register handler at module load time
+ */
+registerProjection({
+  name: PROJECTION_NAME,
+  eventNames: ANALYTICS_EVENT_NAMES,
+  handler: analyticsProjectionHandler,
+});
+
+// Export for testing (handler is already registered)
+export { analyticsProjectionHandler };
@@ -17,7 +17,7 @@
 
 // Import all handler modules to trigger auto-registration
 import './marketplace.projector.js';
+import './analytics.projector.js';
 
 // Future handlers will be imported here:
-// import './analytics.projector.js';
 // import './audit.projector.js';
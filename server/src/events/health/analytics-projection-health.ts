@@ -0,0 +1,408 @@
+#!/usr/bin/env node
+/**
+ * Analytics Projection Health Report CLI
+ *
+ * ANALYTICS-PROJECTIONS-001: Read-only health inspection for SupplierPerformanceSummary
+ * and BuyerSpendMonthly projections.
+ *
+ * PURPOSE:
+ * Inspects the freshness and accuracy of a tenant's analytics rows against the
+ * source tables, helping operators determine if `replay:analytics --reconcile` is needed.
+ *
+ * USAGE:
+ *   npm run projection:health:analytics -- --tenant-id <uuid> [options]
+ *
+ * FLAGS:
+ *   --tenant-id <uuid>                  (Required) Tenant to inspect
+ *   --json                              (Optional) Output JSON instead of human-readable
+ *   --stale-threshold-minutes <number>  (Optional) Staleness threshold (default: 5)
+ *
+ * HEALTH METRICS:
+ * - supplier_summary_present: Whether the tenant has a supplier summary row
+ * - supplier_summary_missing: Supplier activity in the window but no row
+ * - supplier_summary_stale: Newest supplier event newer than the row + threshold
+ * - supplier_summary_drift: Fields whose stored value differs from a recompute
+ * - spend_months: Months with non-cancelled trades bought by the tenant
+ * - missing_spend_months / drifted_spend_months: Months without rows / with a
+ *   different trade count per bucket than a recompute
+ * - Freshness timestamps: newest event and projection times
+ *
+ * SAFETY:
+ * - Read-only: No database writes
+ * - Safe to run repeatedly
+ * - No projection mutations
+ * - No event replay triggering
+ *
+ * EXIT CODES:
+ * - 0: Success (health computed)
+ * - 2: Validation error (invalid UUID, bad arguments)
+ * - 1: Fatal error (DB query fails, unexpected crash)
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  computeBuyerSpendMonth,
+  computeSupplierPerformance,
+  monthStartUtc,
+} from '../handlers/analytics.projector.js';
+import type { SupplierPerformanceMetrics } from '../handlers/analytics.projector.js';
+
+// ============================================================================
+// CLI ARGUMENT PARSING
+// ============================================================================
+
+interface CliArgs {
+  tenantId: string;
+  json: boolean;
+  staleThresholdMinutes: number;
+}
+
+function parseArgs(): CliArgs {
+  const args = process.argv.slice(2);
+
+  const parsed: Partial<CliArgs> = {
+    json: false,
+    staleThresholdMinutes: 5,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = args[i + 1];
+
+    switch (arg) {
+      case '--tenant-id':
+        if (!next || next.startsWith('--')) {
+          console.error('❌ Error: --tenant-id requires a value');
+          printUsage();
+          process.exit(2);
+        }
+        parsed.tenantId = next;
+        i++;
+        break;
+
+      case '--json':
+        parsed.json = true;
+        break;
+
+      case '--stale-threshold-minutes':
+        if (!next || next.startsWith('--')) {
+          console.error('❌ Error: --stale-threshold-minutes requires a value');
+          printUsage();
+          process.exit(2);
+        }
+        const threshold = parseInt(next, 10);
+        if (isNaN(threshold) || threshold < 0) {
+          console.error('❌ Error: --stale-threshold-minutes must be a non-negative number');
+          process.exit(2);
+        }
+        parsed.staleThresholdMinutes = threshold;
+        i++;
+        break;
+
+      case '--help':
+      case '-h':
+        printUsage();
+        process.exit(0);
+        break;
+
+      default:
+        console.error(`❌ Error: Unknown flag: ${arg}`);
+        printUsage();
+        process.exit(2);
+    }
+  }
+
+  // Validate required arguments
+  if (!parsed.tenantId) {
+    console.error('❌ Error: --tenant-id is required');
+    printUsage();
+    process.exit(2);
+  }
+
+  // Validate UUID format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(parsed.tenantId)) {
+    console.error('❌ Error: --tenant-id must be a valid UUID');
+    process.exit(2);
+  }
+
+  return parsed as CliArgs;
+}
+
+function printUsage() {
+  console.log(`
+Usage:
+  npm run projection:health:analytics -- --tenant-id <uuid> [options]
+
+Options:
+  --tenant-id <uuid>                  (Required) Tenant to inspect
+  --json                              (Optional) Output JSON summary
+  --stale-threshold-minutes <number>  (Optional) Staleness threshold (default: 5)
+  --help, -h                          Show this help message
+
+Examples:
+  # Basic health check
+  npm run projection:health:analytics -- --tenant-id abc-123
+
+  # JSON output for automation
+  npm run projection:health:analytics -- --tenant-id abc-123 --json
+
+  # Custom staleness threshold
+  npm run projection:health:analytics -- --tenant-id abc-123 --stale-threshold-minutes 10
+  `);
+}
+
+// ============================================================================
+// HEALTH REPORT TYPES
+// ============================================================================
+
+interface HealthReport {
+  tenant_id: string;
+  supplier_summary_present: boolean;
+  supplier_summary_missing: boolean;
+  supplier_summary_stale: boolean;
+  supplier_summary_drift: string[];
+  spend_months: number;
+  spend_rows: number;
+  missing_spend_months: string[];
+  drifted_spend_months: string[];
+  stale_threshold_minutes: number;
+  newest_supplier_event_at: string | null;
+  supplier_summary_updated_at: string | null;
+  newest_spend_projection_at: string | null;
+  recommend_replay: boolean;
+  checked_at: string;
+}
+
+// ============================================================================
+// HEALTH CHECK LOGIC
+// ============================================================================
+
+const SUPPLIER_METRIC_FIELDS: Array<keyof SupplierPerformanceMetrics> = [
+  'rfqReceivedCount',
+  'rfqRespondedCount',
+  'respondedWithin24hCount',
+  'responseMinutesMedian',
+  'responseMinutesAvg',
+  'poolQuoteDecidedCount',
+  'poolQuoteWonCount',
+  'fulfilmentDueCount',
+  'fulfilmentOnTimeCount',
+];
+
+const formatMonth = (month: Date) => month.toISOString().slice(0, 7);
+
+async function computeHealth(args: CliArgs, prisma: PrismaClient): Promise<HealthReport> {
+  const checkedAt = new Date();
+  const thresholdMs = args.staleThresholdMinutes * 60 * 1000;
+
+  // 1. Supplier summary vs. a recompute from source tables
+  const summary = await prisma.supplierPerformanceSummary.findUnique({
+    where: { tenantId: args.tenantId },
+  });
+  const expected = await computeSupplierPerformance(prisma, args.tenantId, checkedAt);
+  const hasSupplierActivity =
+    expected.rfqReceivedCount > 0 ||
+    expected.poolQuoteDecidedCount > 0 ||
+    expected.fulfilmentDueCount > 0;
+
+  const supplierDrift = summary
+    ? SUPPLIER_METRIC_FIELDS.filter(field => summary[field] !== expected[field])
+    : [];
+
+  // 2. Newest event that should have refreshed the supplier summary
+  const soldTrades = await prisma.trade.findMany({
+    where: { sellerOrgId: args.tenantId },
+    select: { id: true },
+  });
+  const newestSupplierEvent = await prisma.eventLog.aggregate({
+    where: {
+      OR: [
+        {
+          name: { in: ['rfq.submitted.v1', 'rfq.responded.v1'] },
+          payloadJson: { path: ['supplierOrgId'], equals: args.tenantId },
+        },
+        {
+          name: 'trade.state_changed.v1',
+          entityId: { in: soldTrades.map(trade => trade.id) },
+        },
+      ],
+    },
+    _max: { occurredAt: true },
+  });
+  const newestSupplierEventAt = newestSupplierEvent._max.occurredAt;
+  const supplierStale =
+    !!summary &&
+    !!newestSupplierEventAt &&
+    newestSupplierEventAt.getTime() > summary.lastUpdatedAt.getTime() + thresholdMs;
+
+  // 3. Buyer spend months vs. a recompute per month
+  const boughtTrades = await prisma.trade.findMany({
+    where: { buyerOrgId: args.tenantId, lifecycleState: { stateKey: { not: 'CANCELLED' } } },
+    select: { createdAt: true },
+  });
+  const months = [...new Set(boughtTrades.map(trade => monthStartUtc(trade.createdAt).getTime()))]
+    .sort((a, b) => a - b)
+    .map(time => new Date(time));
+
+  const spendRows = await prisma.buyerSpendMonthly.findMany({
+    where: { tenantId: args.tenantId },
+    select: {
+      month: true,
+      supplierOrgId: true,
+      category: true,
+      currency: true,
+      tradeCount: true,
+      lastUpdatedAt: true,
+    },
+  });
+
+  const missingSpendMonths: string[] = [];
+  const driftedSpendMonths: string[] = [];
+  for (const month of months) {
+    const rows = spendRows.filter(row => row.month.getTime() === month.getTime());
+    if (rows.length === 0) {
+      missingSpendMonths.push(formatMonth(month));
+      continue;
+    }
+    const buckets = await computeBuyerSpendMonth(prisma, args.tenantId, month);
+    const stored = new Map(
+      rows.map(row => [`${row.supplierOrgId}|${row.category}|${row.currency}`, row.tradeCount])
+    );
+    const drifted =
+      buckets.length !== rows.length ||
+      buckets.some(
+        bucket =>
+          stored.get(`${bucket.supplierOrgId}|${bucket.category}|${bucket.currency}`) !==
+          bucket.tradeCount
+      );
+    if (drifted) {
+      driftedSpendMonths.push(formatMonth(month));
+    }
+  }
+
+  const newestSpendProjectionAt = spendRows.reduce<Date | null>(
+    (newest, row) => (!newest || row.lastUpdatedAt > newest ? row.lastUpdatedAt : newest),
+    null
+  );
+
+  // 4. Determine recommendation
+  const supplierMissing = !summary && hasSupplierActivity;
+  const recommendReplay =
+    supplierMissing ||
+    supplierStale ||
+    supplierDrift.length > 0 ||
+    missingSpendMonths.length > 0 ||
+    driftedSpendMonths.length > 0;
+
+  return {
+    tenant_id: args.tenantId,
+    supplier_summary_present: !!summary,
+    supplier_summary_missing: supplierMissing,
+    supplier_summary_stale: supplierStale,
+    supplier_summary_drift: supplierDrift,
+    spend_months: months.length,
+    spend_rows: spendRows.length,
+    missing_spend_months: missingSpendMonths,
+    drifted_spend_months: driftedSpendMonths,
+    stale_threshold_minutes: args.staleThresholdMinutes,
+    newest_supplier_event_at: newestSupplierEventAt?.toISOString() || null,
+    supplier_summary_updated_at: summary?.lastUpdatedAt.toISOString() || null,
+    newest_spend_projection_at: newestSpendProjectionAt?.toISOString() || null,
+    recommend_replay: recommendReplay,
+    checked_at: checkedAt.toISOString(),
+  };
+}
+
+// ============================================================================
+// OUTPUT FORMATTING
+// ============================================================================
+
+function printHumanReport(report: HealthReport) {
+  console.log('\n📊 Analytics Projection Health');
+  console.log('━'.repeat(60));
+  console.log(`Tenant: ${report.tenant_id}`);
+  console.log();
+
+  console.log('Supplier performance:');
+  console.log(`  Summary present:          ${report.supplier_summary_present ? 'YES' : 'NO'}`);
+  console.log(
+    `  Stale:                    ${report.supplier_summary_stale ? 'YES' : 'NO'} (threshold: ${report.stale_threshold_minutes} min)`
+  );
+  console.log(`  Drifted fields:           ${report.supplier_summary_drift.join(', ') || 'none'}`);
+  console.log(`  Newest event at:          ${report.newest_supplier_event_at || 'N/A'}`);
+  console.log(`  Summary updated at:       ${report.supplier_summary_updated_at || 'N/A'}`);
+  console.log();
+
+  console.log('Buyer spend:');
+  console.log(`  Months with trades:       ${report.spend_months}`);
+  console.log(`  Projection rows:          ${report.spend_rows}`);
+  console.log(`  Missing months:           ${report.missing_spend_months.join(', ') || 'none'}`);
+  console.log(`  Drifted months:           ${report.drifted_spend_months.join(', ') || 'none'}`);
+  console.log(`  Newest projection at:     ${report.newest_spend_projection_at || 'N/A'}`);
+  console.log();
+
+  console.log('Status:');
+  if (report.recommend_replay) {
+    console.log('  ⚠️  Replay recommended (replay:analytics --reconcile)');
+    if (report.supplier_summary_missing) {
+      console.log('      - supplier summary missing');
+    }
+    if (report.supplier_summary_stale) {
+      console.log('      - supplier summary stale');
+    }
+    if (report.supplier_summary_drift.length > 0) {
+      console.log(`      - ${report.supplier_summary_drift.length} supplier field(s) drifted`);
+    }
+    if (report.missing_spend_months.length > 0) {
+      console.log(`      - ${report.missing_spend_months.length} spend month(s) missing`);
+    }
+    if (report.drifted_spend_months.length > 0) {
+      console.log(`      - ${report.drifted_spend_months.length} spend month(s) drifted`);
+    }
+  } else {
+    console.log('  ✅ Projections healthy');
+  }
+
+  console.log('━'.repeat(60));
+  console.log(`Checked at: ${report.checked_at}\n`);
+}
+
+function printJsonReport(report: HealthReport) {
+  console.log(JSON.stringify(report));
+}
+
+// ============================================================================
+// MAIN ENTRY POINT
+// ============================================================================
+
+async function main() {
+  const args = parseArgs();
+  const prisma = new PrismaClient();
+
+  try {
+    const report = await computeHealth(args, prisma);
+
+    if (args.json) {
+      printJsonReport(report);
+    } else {
+      printHumanReport(report);
+    }
+
+    await prisma.$disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Fatal error:', error);
+    await prisma.$disconnect();
+    process.exit(1);
+  }
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+main().catch(error => {
+  console.error('Unhandled error:', error);
+  process.exit(1);
+});
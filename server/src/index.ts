@@ -9,16 +9,8 @@ import fastifyJwt from '@fastify/jwt';
 import { config } from './config/index.js';
 import { realmHintGuardOnRequest } from './middleware/realmGuard.js';
 import { tenantResolutionHook } from './hooks/tenantResolutionHook.js';
-import authRoutes from './routes/auth.js';
-import controlRoutes from './routes/control.js';
-import tenantRoutes from './routes/tenant.js';
-import publicRoutes from './routes/public.js';
-import adminCartSummariesRoutes from './routes/admin-cart-summaries.js';
-import aiRoutes from './routes/ai.js';
-import tenantProvisionRoutes from './routes/admin/tenantProvision.js';
-import impersonationRoutes from './routes/admin/impersonation.js';
-import internalGovRoutes from './routes/internal/index.js';
-import { startVectorWorker } from './workers/vectorWorker.js';
+import { registerApiRoutes, registerSystemRoutes } from './routes/index.js';
+import { startBackgroundJobWorker } from './workers/jobWorker.js';
 
 /**
  * Type guard for Fastify-like error objects.
@@ -111,19 +103,8 @@ await fastify.register(fastifyJwt, {
   jwtSign: 'adminJwtSign',
 });
 
-// Health check
-fastify.get('/health', async () => {
-  return { status: 'ok', timestamp: new Date().toISOString() };
-});
-
-// Root route
-fastify.get('/', async () => {
-  return {
-    name: 'TexQtic API',
-    version: '0.1.0',
-    status: 'running',
-  };
-});
+// Health check and root route
+registerSystemRoutes(fastify);
 
 // G-026 TECS 6C2: Edge-injected tenant header validation (runs before all auth).
 // Verifies HMAC on x-texqtic-tenant-id headers injected by Vercel Edge Middleware.
@@ -146,27 +127,9 @@ fastify.addHook('onRequest', async (request, reply) => {
   }
 });
 
-// Import routes
-await fastify.register(publicRoutes, { prefix: '/api/public' });
-await fastify.register(authRoutes, { prefix: '/api/auth' });
-await fastify.register(controlRoutes, { prefix: '/api/control' });
-await fastify.register(tenantRoutes, { prefix: '/api' });
-await fastify.register(adminCartSummariesRoutes, { prefix: '/api/control/marketplace' });
-await fastify.register(aiRoutes, { prefix: '/api/ai' });
-// G-008: Canonical admin tenant provisioning (Doctrine v1.4)
-// Registered under /api/control (admin realm, mapped in realmGuard ENDPOINT_REALM_MAP)
-// Note: /api/admin was originally chosen but is unmapped in realmGuard → WRONG_REALM.
-// Option B resolution: use /api/control (already mapped as admin realm). No realmGuard change.
-await fastify.register(tenantProvisionRoutes, { prefix: '/api/control' });
-// G-011: Control-plane impersonation routes (admin realm)
-// Routes: POST /api/control/impersonation/start, POST /api/control/impersonation/stop,
-//         GET  /api/control/impersonation/status/:id
-await fastify.register(impersonationRoutes, { prefix: '/api/control' });
-// G-021 Day 3: Internal governance routes (maker-checker queues + replay)
-// Tenant endpoints: /api/internal/gov/*  (X-Texqtic-Internal: true + tenant JWT)
-// Admin endpoints:  /api/control/internal/gov/* (X-Texqtic-Internal: true + admin JWT)
-// No prefix argument — plugin manages its own /api/* absolute paths.
-await fastify.register(internalGovRoutes);
+// Import routes (API-DOCS-OPENAPI-001: registration lives in routes/index.ts so the
+// OpenAPI contract test enumerates exactly the routes the server serves)
+await registerApiRoutes(fastify);
 
 // Error handler
 fastify.setErrorHandler((error, _request, reply) => {
@@ -190,16 +153,17 @@ fastify.setErrorHandler((error, _request, reply) => {
 // Start server
 const start = async () => {
   try {
-    // G-028-B2-WORKER-BOOTSTRAP: Start the vector index queue worker.
-    // Jobs enqueued via enqueueSourceIngestion / enqueueSourceDeletion are now
-    // dequeued and dispatched through the RLS-enforced runner in vectorWorker.ts.
-    const vectorWorkerHandle = startVectorWorker();
-
-    // Stop the vector worker when the Fastify server closes (graceful shutdown).
-    // The worker interval is already .unref()'d so it will not block process exit;
+    // OPS-BACKGROUND-JOB-QUEUE-001: Start the durable background job worker.
+    // Jobs enqueued via enqueueJob() (e.g. enqueueSourceIngestion / enqueueSourceDeletion)
+    // are claimed from background_jobs and dispatched through the RLS-enforced runner.
+    const jobWorkerHandle = startBackgroundJobWorker();
+
+    // Stop the worker when the Fastify server closes (graceful shutdown) and let the
+    // in-flight tick finish; unfinished leases are reclaimed by other instances.
+    // The poll timer is .unref()'d so it will not block process exit;
     // this hook must be registered BEFORE listen() — Fastify 5 forbids addHook after listen.
     fastify.addHook('onClose', async () => {
-      vectorWorkerHandle.stop();
+      await jobWorkerHandle?.stop();
     });
 
     await fastify.listen({ port: config.PORT, host: config.HOST });
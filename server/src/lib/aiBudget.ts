@@ -1,5 +1,6 @@
 import type { PrismaClient, Prisma } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import type { AiProviderId } from '../services/ai/providers/types.js';
 
 // Type-widened client to support both direct client and transaction usage
 type DbClient = PrismaClient | Prisma.TransactionClient;
@@ -13,6 +14,9 @@ type DbClient = PrismaClient | Prisma.TransactionClient;
 
 // Configuration (can be overridden via env vars)
 const AI_COST_PER_1K_TOKENS_USD = parseFloat(process.env.AI_COST_PER_1K_TOKENS_USD || '0.002');
+const AI_OPENAI_COMPAT_COST_PER_1K_TOKENS_USD = parseFloat(
+  process.env.AI_OPENAI_COMPAT_COST_PER_1K_TOKENS_USD || '0'
+);
 const AI_BUDGET_DEFAULT_TOKENS = parseInt(process.env.AI_BUDGET_DEFAULT_TOKENS || '50000', 10);
 const AI_BUDGET_DEFAULT_HARD_STOP = process.env.AI_BUDGET_DEFAULT_HARD_STOP !== 'false';
 
@@ -74,16 +78,56 @@ export function getNextMonthISO(date: Date = new Date()): string {
 }
 
 /**
- * Estimate cost in USD for given token count and model
+ * Price per 1K tokens when no model-specific price is configured.
+ * The fixture provider never leaves the process, so it is free.
+ */
+const PROVIDER_DEFAULT_COST_PER_1K_TOKENS_USD: Record<AiProviderId, number> = {
+  gemini: AI_COST_PER_1K_TOKENS_USD,
+  'openai-compatible': AI_OPENAI_COMPAT_COST_PER_1K_TOKENS_USD,
+  fixture: 0,
+};
+
+/**
+ * Parse AI_MODEL_COST_PER_1K_TOKENS_USD: comma-separated provider/model=price pairs,
+ * e.g. "gemini/gemini-2.5-flash=0.0025,openai-compatible/gpt-4o-mini=0.0006".
+ * Malformed entries are ignored (the provider default applies).
+ */
+export function parseModelPricing(raw: string | undefined): Map<string, number> {
+  const pricing = new Map<string, number>();
+  for (const entry of (raw ?? '').split(',')) {
+    const separator = entry.lastIndexOf('=');
+    if (separator <= 0) continue;
+    const key = entry.slice(0, separator).trim();
+    const price = Number(entry.slice(separator + 1).trim());
+    if (key.includes('/') && Number.isFinite(price) && price >= 0) {
+      pricing.set(key, price);
+    }
+  }
+  return pricing;
+}
+
+const AI_MODEL_COST_PER_1K_TOKENS_USD = parseModelPricing(process.env.AI_MODEL_COST_PER_1K_TOKENS_USD);
+
+/**
+ * Estimate cost in USD for given token count, model and provider
+ *
+ * Looks up "provider/model" in AI_MODEL_COST_PER_1K_TOKENS_USD, then falls back to the
+ * provider's default price.
  *
  * @param tokens - Number of tokens consumed
- * @param model - Model name (for future per-model pricing)
+ * @param model - Model name
+ * @param provider - Provider that ran the model (defaults to gemini for existing callers)
  * @returns Cost in USD
  */
-export function estimateCostUSD(tokens: number, _model: string = 'gemini-1.5-flash'): number {
-  // Simple linear pricing: $0.002 per 1K tokens (configurable)
-  // Future: use model-specific pricing table
-  return (tokens / 1000) * AI_COST_PER_1K_TOKENS_USD;
+export function estimateCostUSD(
+  tokens: number,
+  model: string = 'gemini-1.5-flash',
+  provider: AiProviderId = 'gemini'
+): number {
+  const per1k =
+    AI_MODEL_COST_PER_1K_TOKENS_USD.get(`${provider}/${model}`) ??
+    PROVIDER_DEFAULT_COST_PER_1K_TOKENS_USD[provider];
+  return (tokens / 1000) * per1k;
 }
 
 /**
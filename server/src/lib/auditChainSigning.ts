@@ -0,0 +1,160 @@
+/**
+ * Audit Log Chain — Hashing and Signing Helper
+ *
+ * Hash chain (one chain per realm / tenant, see services/auditChain):
+ *   entryHash = sha256_hex(prevHash + "\n" + canonicalJson(record))
+ *   The first entry of a chain links to AUDIT_CHAIN_GENESIS_HASH (64 zeros).
+ *
+ * canonicalJson is JSON with object keys sorted recursively and no whitespace;
+ * undefined members are dropped as JSON.stringify does. Offline verifiers of an
+ * export bundle must reproduce it byte for byte.
+ *
+ * Signatures are Ed25519:
+ *   Checkpoint message: "texqtic.audit-checkpoint.v1\n<chainKey>\n<seq>\n<headHash>"
+ *   Export manifest:    the exact manifest.json bytes
+ *   keyId:              first 16 hex chars of sha256(raw 32-byte public key)
+ *
+ * Security notes:
+ *   - The private key never leaves this module; only keyId and the public key PEM are exposed.
+ *   - Without AUDIT_CHAIN_SIGNING_KEY the key is derived from JWT_ACCESS_SECRET (HKDF), so
+ *     development and CI sign deterministically without extra configuration.
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  hkdfSync,
+  sign,
+  verify,
+  type KeyObject,
+} from 'node:crypto';
+import { config } from '../config/index.js';
+
+export const AUDIT_CHAIN_GENESIS_HASH = '0'.repeat(64);
+export const AUDIT_CHAIN_SIGNATURE_ALGORITHM = 'Ed25519' as const;
+
+const CHECKPOINT_MESSAGE_PREFIX = 'texqtic.audit-checkpoint.v1';
+
+/** PKCS#8 DER prefix of an Ed25519 private key; the 32-byte seed follows. */
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+export interface AuditChainSigningKey {
+  keyId: string;
+  publicKeyPem: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+// ─── Hashing ──────────────────────────────────────────────────────────────────
+
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  const members = Object.keys(value)
+    .sort()
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${members.join(',')}}`;
+}
+
+export function computeAuditChainHash(prevHash: string, record: unknown): string {
+  return createHash('sha256').update(`${prevHash}\n${canonicalJson(record)}`, 'utf8').digest('hex');
+}
+
+export function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// ─── Signing key ──────────────────────────────────────────────────────────────
+
+let cachedKey: AuditChainSigningKey | null = null;
+
+function loadPrivateKey(): KeyObject {
+  if (config.AUDIT_CHAIN_SIGNING_KEY) {
+    const key = createPrivateKey(config.AUDIT_CHAIN_SIGNING_KEY.replace(/\\n/g, '\n'));
+    if (key.asymmetricKeyType !== 'ed25519') {
+      throw new Error('AUDIT_CHAIN_SIGNING_KEY must be an Ed25519 private key');
+    }
+    return key;
+  }
+  const seed = Buffer.from(
+    hkdfSync('sha256', config.JWT_ACCESS_SECRET, 'texqtic-audit-chain', 'audit-chain-signing-key:v1', 32),
+  );
+  return createPrivateKey({ key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]), format: 'der', type: 'pkcs8' });
+}
+
+/** The process-wide audit signing key (loaded once). */
+export function getAuditChainSigningKey(): AuditChainSigningKey {
+  if (cachedKey) return cachedKey;
+  const privateKey = loadPrivateKey();
+  const publicKey = createPublicKey(privateKey);
+  // The raw key is the last 32 bytes of the SPKI DER encoding.
+  const rawPublicKey = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32);
+  cachedKey = {
+    keyId: sha256Hex(rawPublicKey).slice(0, 16),
+    publicKeyPem: publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+    privateKey,
+    publicKey,
+  };
+  return cachedKey;
+}
+
+// ─── Checkpoints ──────────────────────────────────────────────────────────────
+
+export interface AuditCheckpointHead {
+  chainKey: string;
+  seq: number;
+  headHash: string;
+}
+
+function checkpointMessage(head: AuditCheckpointHead): Buffer {
+  return Buffer.from(`${CHECKPOINT_MESSAGE_PREFIX}\n${head.chainKey}\n${head.seq}\n${head.headHash}`, 'utf8');
+}
+
+export function signAuditCheckpoint(head: AuditCheckpointHead): { keyId: string; signature: string } {
+  const key = getAuditChainSigningKey();
+  return {
+    keyId: key.keyId,
+    signature: sign(null, checkpointMessage(head), key.privateKey).toString('base64'),
+  };
+}
+
+/** True when `signature` is a valid signature of `head` by `publicKey` (defaults to the current key). */
+export function verifyAuditCheckpoint(
+  head: AuditCheckpointHead,
+  signature: string,
+  publicKey: KeyObject | string = getAuditChainSigningKey().publicKey,
+): boolean {
+  try {
+    return verify(null, checkpointMessage(head), publicKey, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+// ─── Export manifests ─────────────────────────────────────────────────────────
+
+export function signAuditManifest(manifestBytes: string | Buffer): string {
+  return sign(null, Buffer.from(manifestBytes), getAuditChainSigningKey().privateKey).toString('base64');
+}
+
+/** Receiver-side check for an export bundle, documented for auditors and used by tests. */
+export function verifyAuditManifest(
+  manifestBytes: string | Buffer,
+  signature: string,
+  publicKeyPem: string,
+): boolean {
+  try {
+    return verify(null, Buffer.from(manifestBytes), publicKeyPem, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
@@ -231,7 +231,24 @@ export function createAuthAudit(params: {
     | 'AUTH_REFRESH_REPLAY_DETECTED'
     | 'AUTH_LOGOUT_SUCCESS'
     | 'AUTH_LOGOUT_FAILED'
-    | 'AUTH_LOGOUT_NOOP';
+    | 'AUTH_LOGOUT_NOOP'
+    | 'AUTH_MFA_CHALLENGE_ISSUED'
+    | 'AUTH_MFA_VERIFIED'
+    | 'AUTH_MFA_FAILED'
+    | 'AUTH_MFA_ENROLL_STARTED'
+    | 'AUTH_MFA_ENROLLED'
+    | 'AUTH_MFA_FACTOR_REMOVED'
+    | 'AUTH_MFA_RECOVERY_CODE_USED'
+    | 'AUTH_MFA_RECOVERY_CODES_REGENERATED'
+    | 'AUTH_MFA_STEP_UP_SUCCESS'
+    | 'AUTH_MFA_STEP_UP_FAILED'
+    | 'AUTH_MFA_POLICY_UPDATED'
+    | 'AUTH_SESSION_REVOKED'
+    | 'AUTH_SESSIONS_REVOKED_OTHERS'
+    | 'AUTH_SSO_LOGIN_FAILED'
+    | 'AUTH_SSO_USER_PROVISIONED'
+    | 'AUTH_SSO_CONFIG_UPDATED'
+    | 'AUTH_SSO_CONFIG_DELETED';
   realm: AuditRealm;
   tenantId: string | null;
   actorId: string | null;
@@ -253,6 +270,14 @@ export function createAuthAudit(params: {
     | 'ALREADY_REVOKED'
     | 'BOTH_COOKIES'
     | 'COOKIE_DB_REALM_MISMATCH'
+    | 'MFA_REQUIRED'
+    | 'MFA_ENROLLMENT_REQUIRED'
+    | 'MFA_INVALID_CODE'
+    | 'MFA_REPLAY'
+    | 'MFA_CHALLENGE_EXPIRED'
+    | 'MFA_INVALID_CREDENTIAL'
+    | 'MFA_NO_FACTOR'
+    | 'SSO_REJECTED'
     | 'ERROR';
   ip?: string | null;
   userAgent?: string | null;
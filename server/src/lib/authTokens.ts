@@ -95,3 +95,82 @@ export const PASSWORD_RESET_EXPIRY_MINUTES = 30;
 export function getPasswordResetExpiry(): Date {
   return new Date(Date.now() + PASSWORD_RESET_EXPIRY_MINUTES * 60 * 1000);
 }
+
+/**
+ * MFA challenge token lifetime (5 minutes). Issued after a correct password when a
+ * second factor is still needed; exchanged at /api/auth/mfa/* for a session.
+ */
+export const MFA_CHALLENGE_TOKEN_EXPIRY_SECONDS = 300;
+
+export interface MfaChallengeClaims {
+  realm: 'TENANT' | 'ADMIN';
+  /** users.id (TENANT) or admin_users.id (ADMIN). */
+  subjectId: string;
+  tenantId: string | null;
+  email: string;
+  /** true = no factor enrolled yet; the token only permits first enrollment. */
+  enrollmentRequired: boolean;
+}
+
+/**
+ * Generates an MFA challenge JWT (tenant JWT namespace, purpose-bound).
+ * Claim names deliberately avoid userId / tenantId / adminId so the token can
+ * never satisfy tenantAuthMiddleware or adminAuthMiddleware.
+ */
+export async function generateMfaChallengeToken(
+  fastify: FastifyInstance,
+  claims: MfaChallengeClaims
+): Promise<string> {
+  // @ts-expect-error - fastify-jwt namespace creates 'tenant' property
+  return await fastify.tenant.sign(
+    {
+      purpose: 'mfa_challenge',
+      mfaRealm: claims.realm,
+      mfaSubjectId: claims.subjectId,
+      mfaTenantId: claims.tenantId,
+      email: claims.email,
+      mfaEnrollmentRequired: claims.enrollmentRequired,
+    },
+    {
+      expiresIn: MFA_CHALLENGE_TOKEN_EXPIRY_SECONDS,
+    }
+  );
+}
+
+/**
+ * Verifies an MFA challenge JWT
+ * Returns the challenge claims if valid, null if invalid/expired/wrong purpose
+ */
+export async function verifyMfaChallengeToken(
+  fastify: FastifyInstance,
+  token: string
+): Promise<MfaChallengeClaims | null> {
+  try {
+    // @ts-expect-error - fastify-jwt namespace creates 'tenant' property
+    const decoded = await fastify.tenant.verify<{
+      purpose: string;
+      mfaRealm: 'TENANT' | 'ADMIN';
+      mfaSubjectId: string;
+      mfaTenantId: string | null;
+      email: string;
+      mfaEnrollmentRequired: boolean;
+    }>(token);
+
+    if (decoded.purpose !== 'mfa_challenge') {
+      return null;
+    }
+    if (decoded.mfaRealm === 'TENANT' && !decoded.mfaTenantId) {
+      return null;
+    }
+
+    return {
+      realm: decoded.mfaRealm,
+      subjectId: decoded.mfaSubjectId,
+      tenantId: decoded.mfaTenantId,
+      email: decoded.email,
+      enrollmentRequired: decoded.mfaEnrollmentRequired === true,
+    };
+  } catch {
+    return null; // Token invalid/expired
+  }
+}
@@ -10,6 +10,11 @@
  * Edge TTL (60 s) drives actual cache eviction — this emitter provides the
  * audit trail and emitter contract.
  *
+ * PUBLIC-SEO-SITEMAP-SERVER-001: in-process caches keyed by host (public sitemaps,
+ * robots.txt) subscribe with `onCacheInvalidate()` and are evicted by the same
+ * emitter and webhook calls. 'public_content_change' signals that a tenant's public
+ * projection (supplier profile, public catalog items, published passports) changed.
+ *
  * Governance: GOVERNANCE-SYNC-093
  */
 
@@ -17,7 +22,11 @@ import { normalizeHost } from './hostNormalize.js';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-export type InvalidationReason = 'domain_crud' | 'tenant_status_change' | 'manual';
+export type InvalidationReason =
+  | 'domain_crud'
+  | 'tenant_status_change'
+  | 'public_content_change'
+  | 'manual';
 
 /** Minimal logger interface compatible with Fastify's request.log */
 export interface EmitterLogger {
@@ -25,6 +34,42 @@ export interface EmitterLogger {
   warn(obj: Record<string, unknown>, msg: string): void;
 }
 
+/** Receives the normalized hosts of every invalidation (emitter or webhook). */
+export type CacheInvalidateListener = (hosts: string[], reason: InvalidationReason) => void;
+
+// ─── Listeners ───────────────────────────────────────────────────────────────
+
+const listeners = new Set<CacheInvalidateListener>();
+
+/**
+ * Subscribe an in-process cache to invalidations. Registering the same function
+ * twice is a no-op. Returns an unsubscribe function.
+ */
+export function onCacheInvalidate(listener: CacheInvalidateListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Fan already-normalized hosts out to the registered listeners. A failing
+ * listener is logged and never blocks the others or the caller.
+ */
+export function notifyCacheInvalidateListeners(
+  normalizedHosts: string[],
+  reason: InvalidationReason,
+  log: EmitterLogger,
+): void {
+  for (const listener of listeners) {
+    try {
+      listener(normalizedHosts, reason);
+    } catch (err) {
+      log.warn({ err, reason }, 'cache-invalidate: listener failed');
+    }
+  }
+}
+
 // ─── Emitter ─────────────────────────────────────────────────────────────────
 
 /**
@@ -33,6 +78,7 @@ export interface EmitterLogger {
  * Mirrors steps 4-5 of the POST /api/internal/cache-invalidate handler:
  *   a) Normalize hosts (invalid host strings silently skipped)
  *   b) Log the invalidation event
+ *   c) Notify in-process listeners (PUBLIC-SEO-SITEMAP-SERVER-001)
  *
  * Edge invalidation is TTL-bounded (60 s). This call is best-effort — it
  * will not throw on normalization failures. Caller is responsible for
@@ -65,4 +111,6 @@ export function emitCacheInvalidate(
     },
     'cache-invalidate: emitter (direct call, TECS 6D)',
   );
+
+  notifyCacheInvalidateListeners(normalizedHosts, reason, log);
 }
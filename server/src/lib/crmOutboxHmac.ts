@@ -0,0 +1,44 @@
+/**
+ * CRM Outbox — Outbound HMAC Signing Helper
+ *
+ * Signs every Main App → CRM notification body so the CRM receiver can verify
+ * origin and integrity in addition to the shared-secret header.
+ *
+ * Wire format (mirrors the resolver / provisioning HMAC conventions):
+ *   Header: x-texqtic-crm-hmac — hex-encoded HMAC-SHA256 of the message
+ *   Header: x-texqtic-crm-ts   — Unix timestamp in milliseconds (string)
+ *
+ *   Message: "crm-notify:" + tsMs + ":" + sha256Hex(body)
+ *   Secret:  the channel ingestion secret (CRM_LIFECYCLE_INGESTION_SECRET /
+ *            CRM_MAINAPP_TIER0_INGESTION_SECRET)
+ *
+ * Security notes:
+ *   - body MUST be the exact string sent on the wire.
+ *   - The secret is NEVER logged or returned.
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+
+export const CRM_HMAC_HEADER = 'x-texqtic-crm-hmac';
+export const CRM_TS_HEADER = 'x-texqtic-crm-ts';
+
+/**
+ * Build the signature headers for a serialized CRM notification body.
+ *
+ * @param body    Exact JSON string that will be sent as the request body.
+ * @param secret  Channel ingestion secret.
+ * @param tsMs    Signing timestamp (defaults to now).
+ */
+export function signCrmNotifyBody(
+  body: string,
+  secret: string,
+  tsMs: number = Date.now(),
+): Record<string, string> {
+  const bodyHash = createHash('sha256').update(body, 'utf8').digest('hex');
+  const message = `crm-notify:${tsMs}:${bodyHash}`;
+  const hmac = createHmac('sha256', secret).update(message, 'utf8').digest('hex');
+  return {
+    [CRM_HMAC_HEADER]: hmac,
+    [CRM_TS_HEADER]: String(tsMs),
+  };
+}
@@ -712,7 +712,9 @@ export function buildTenantSessionTransportIdentity(
  * - app.is_admin = 'true' is also set in the callback below, but it is NOT currently
  *   evaluated by any live organizations RLS policy. It is retained for forward-compat.
  * - NO RLS policies are changed by this helper. The guard remains intact.
- * - Use ONLY for read operations on the organizations table.
+ * - Use ONLY for read operations on the organizations table. The one other read is
+ *   supplier_performance_summaries for supplier match ranking; its admin_select policy
+ *   does evaluate app.is_admin.
  *
  * @param prismaClient - PrismaClient instance (module-level singleton)
  * @param callback - async operation (should only read organizations)
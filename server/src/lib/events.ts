@@ -189,7 +189,20 @@ export type KnownEventName =
   | 'buyer_inquiry.created.v1' // Buyer inquiry submitted (future INQUIRY-004 emission)
   | 'public_supplier_profile.provision_requested.v1' // CRM provisioning request received (future WEBHOOK-007)
   | 'public_supplier_profile.provisioned.v1' // Acquisition-sourced public supplier profile provisioned (future WEBHOOK-007)
-  | 'public_supplier_profile.gate_failed.v1'; // Provisioning gate failure (future WEBHOOK-007)
+  | 'public_supplier_profile.gate_failed.v1' // Provisioning gate failure (future WEBHOOK-007)
+  // TENANT-WEBHOOKS-001: versioned domain events (delivered to tenant webhook subscriptions)
+  | 'trade.state_changed.v1' // StateMachineService TRADE transition applied
+  | 'escrow.state_changed.v1' // StateMachineService ESCROW transition applied
+  | 'certification.state_changed.v1' // StateMachineService CERTIFICATION transition applied
+  | 'order.state_changed.v1' // StateMachineService ORDER transition applied
+  | 'pool.state_changed.v1' // StateMachineService POOL transition applied
+  | 'syndicate.state_changed.v1' // StateMachineService SYNDICATE transition applied
+  | 'vco_chain.state_changed.v1' // StateMachineService VCO_CHAIN transition applied
+  | 'rfq.submitted.v1' // RFQ sent to a supplier (direct create or draft submit)
+  | 'rfq.responded.v1' // Supplier responded to an RFQ
+  | 'rfq.quote.revised.v1' // Buyer or supplier revised the RFQ quote
+  | 'rfq.quote.accepted.v1' // Buyer accepted the RFQ quote
+  | 'pool.quote.awarded.v1'; // Pool RFQ quote (or split lines) awarded to a supplier
 
 /**
  * Event envelope with known event name (type-safe)
@@ -279,6 +292,19 @@ export const knownEventEnvelopeSchema = eventEnvelopeSchema.extend({
     'public_supplier_profile.provision_requested.v1',
     'public_supplier_profile.provisioned.v1',
     'public_supplier_profile.gate_failed.v1',
+    // TENANT-WEBHOOKS-001: versioned domain events
+    'trade.state_changed.v1',
+    'escrow.state_changed.v1',
+    'certification.state_changed.v1',
+    'order.state_changed.v1',
+    'pool.state_changed.v1',
+    'syndicate.state_changed.v1',
+    'vco_chain.state_changed.v1',
+    'rfq.submitted.v1',
+    'rfq.responded.v1',
+    'rfq.quote.revised.v1',
+    'rfq.quote.accepted.v1',
+    'pool.quote.awarded.v1',
   ]),
 });
 
@@ -458,21 +484,6 @@ export function emitEventToSink(event: KnownEventEnvelope): void {
   console.info('EVENT_EMIT', JSON.stringify(event));
 }
 
-/**
- * Store event to EventLog table (best-effort, non-blocking)
- *
- * Prompt #16: Persist events to first-class EventLog storage.
- *
- * Rules:
- * - Deterministic linkage: EventLog.id = event.id, EventLog.auditLogId = auditLogId
- * - Immutable: INSERT only, no UPDATE/DELETE
- * - Best-effort: warnings only, never throw (don't break requests)
- * - Unique violations (P2002) are swallowed (event already stored)
- *
- * @param prisma - Prisma client or transaction for database access
- * @param event - Validated KnownEventEnvelope to store
- * @param auditLogId - Audit log ID for traceability linkage
- */
 /**
  * Schedule a projection apply after the current event-loop tick.
  *
@@ -496,42 +507,111 @@ function scheduleProjectionApply(event: KnownEventEnvelope): void {
       async tx => {
         await applyProjections(tx, event);
       }
-    ).catch((projectionError: unknown) => {
-      const err =
-        projectionError instanceof Error ? projectionError : new Error(String(projectionError));
-      console.warn('[Event Projections] Failed to apply projections (non-blocking):', {
-        eventId: event.id,
-        eventName: event.name,
-        tenantId: event.tenantId,
-        error: err.message,
-      });
-    });
+    ).catch((projectionError: unknown) => logProjectionFailure(event, projectionError));
   });
 }
 
+/** background_jobs.job_type that applies the projections of one stored domain event. */
+export const EVENT_PROJECTION_JOB_TYPE = 'events.projection.apply' as const;
+
+export const EVENT_PROJECTION_MAX_ATTEMPTS = 5 as const;
+
+/** Job payload of 'events.projection.apply'. */
+export interface EventProjectionJobPayload {
+  event: KnownEventEnvelope;
+}
+
+/**
+ * Apply the projections of a domain event from the 'events.projection.apply' job.
+ *
+ * Domain events (events/domainEmitter.ts) are stored mid-transaction and the job is
+ * enqueued in that same transaction, so the job only becomes claimable once the
+ * event_logs row and the source rows it projects have committed.
+ *
+ * Same projector invariants as scheduleProjectionApply(). Unlike it, this throws when
+ * a handler fails so the job queue retries with backoff (handlers are idempotent).
+ *
+ * @param db - Service connection (PrismaClient, not a TransactionClient)
+ */
+export async function applyDomainEventProjections(
+  db: PrismaClient,
+  event: KnownEventEnvelope
+): Promise<void> {
+  const results = await withBypassForProjector(
+    db,
+    { realm: 'system', role: 'PROJECTOR' },
+    async tx => applyProjections(tx, event)
+  );
+  const failed = results.filter(result => !result.success && !result.skipped);
+  if (failed.length > 0) {
+    throw new Error(
+      `Projections failed for ${event.name}: ${failed.map(result => result.projectionName).join(', ')}`
+    );
+  }
+}
+
+function logProjectionFailure(event: KnownEventEnvelope, projectionError: unknown): void {
+  const err =
+    projectionError instanceof Error ? projectionError : new Error(String(projectionError));
+  console.warn('[Event Projections] Failed to apply projections (non-blocking):', {
+    eventId: event.id,
+    eventName: event.name,
+    tenantId: event.tenantId,
+    error: err.message,
+  });
+}
+
+/**
+ * EventLog row for an envelope. Shared by storeEventBestEffort() and the domain
+ * event emitter so both write the same columns.
+ *
+ * @param event - Validated KnownEventEnvelope
+ * @param auditLogId - Audit log ID for traceability linkage (the event's own id for
+ *                     domain events raised without an audit row)
+ */
+export function toEventLogCreateData(
+  event: KnownEventEnvelope,
+  auditLogId: string
+): Prisma.EventLogUncheckedCreateInput {
+  return {
+    id: event.id, // Deterministic: event.id = audit.id
+    version: event.version,
+    name: event.name,
+    occurredAt: new Date(event.occurredAt),
+    tenantId: event.tenantId,
+    realm: event.realm,
+    actorType: event.actor.type,
+    actorId: event.actor.id,
+    entityType: event.entity.type,
+    entityId: event.entity.id,
+    payloadJson: event.payload ?? undefined,
+    metadataJson: (event.metadata as Prisma.InputJsonValue) ?? undefined,
+    auditLogId, // Traceability: link back to audit log
+  };
+}
+
+/**
+ * Store event to EventLog table (best-effort, non-blocking)
+ *
+ * Prompt #16: Persist events to first-class EventLog storage.
+ *
+ * Rules:
+ * - Deterministic linkage: EventLog.id = event.id, EventLog.auditLogId = auditLogId
+ * - Immutable: INSERT only, no UPDATE/DELETE
+ * - Best-effort: warnings only, never throw (don't break requests)
+ * - Unique violations (P2002) are swallowed (event already stored)
+ *
+ * @param prisma - Prisma client or transaction for database access
+ * @param event - Validated KnownEventEnvelope to store
+ * @param auditLogId - Audit log ID for traceability linkage
+ */
 export async function storeEventBestEffort(
   prisma: DbClient,
   event: KnownEventEnvelope,
   auditLogId: string
 ): Promise<void> {
   try {
-    await prisma.eventLog.create({
-      data: {
-        id: event.id, // Deterministic: event.id = audit.id
-        version: event.version,
-        name: event.name,
-        occurredAt: new Date(event.occurredAt),
-        tenantId: event.tenantId,
-        realm: event.realm,
-        actorType: event.actor.type,
-        actorId: event.actor.id,
-        entityType: event.entity.type,
-        entityId: event.entity.id,
-        payloadJson: event.payload ?? undefined,
-        metadataJson: (event.metadata as Prisma.InputJsonValue) ?? undefined,
-        auditLogId, // Traceability: link back to audit log
-      },
-    });
+    await prisma.eventLog.create({ data: toEventLogCreateData(event, auditLogId) });
 
     // Prompt #29 + Gate D.6: Apply projections after successful EventLog write (best-effort)
     // Projections are idempotent, replay-safe, and MUST NOT block writes.
@@ -0,0 +1,81 @@
+/**
+ * MFA-001 request contracts shared by /api/auth/mfa, /api/tenant/mfa and /api/control/mfa.
+ */
+
+import { z } from 'zod';
+import {
+  MfaFactorNotFoundError,
+  MfaPolicyError,
+  MfaVerificationError,
+  type MfaFailureReason,
+  type MfaProof,
+} from '../services/mfa/mfa.service.js';
+
+const base64UrlSchema = z.string().regex(/^[A-Za-z0-9_-]+$/, 'Must be base64url').max(16_384);
+
+export const registrationCredentialSchema = z.object({
+  id: base64UrlSchema,
+  rawId: base64UrlSchema,
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+    attestationObject: base64UrlSchema,
+    transports: z.array(z.string().max(32)).max(10).optional(),
+  }),
+});
+
+export const assertionCredentialSchema = z.object({
+  id: base64UrlSchema,
+  rawId: base64UrlSchema,
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+    authenticatorData: base64UrlSchema,
+    signature: base64UrlSchema,
+    userHandle: base64UrlSchema.nullable().optional(),
+  }),
+});
+
+export const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+export const mfaProofSchema: z.ZodType<MfaProof> = z.discriminatedUnion('method', [
+  z.object({ method: z.literal('TOTP'), code: totpCodeSchema }),
+  z.object({ method: z.literal('RECOVERY_CODE'), code: z.string().trim().min(10).max(20) }),
+  z.object({
+    method: z.literal('WEBAUTHN'),
+    challengeId: z.string().uuid(),
+    credential: assertionCredentialSchema,
+  }),
+]);
+
+export const factorLabelSchema = z.string().trim().min(1).max(100).optional();
+
+/** Auth-audit reasonCode for a failed verification. */
+export function mfaFailureReasonCode(
+  reason: MfaFailureReason
+): 'MFA_INVALID_CODE' | 'MFA_REPLAY' | 'MFA_CHALLENGE_EXPIRED' | 'MFA_INVALID_CREDENTIAL' | 'MFA_NO_FACTOR' {
+  return `MFA_${reason}`;
+}
+
+/**
+ * HTTP mapping for MfaService errors. Returns null for anything else (→ 500).
+ * Verification failures are 401 without detail beyond the reason code.
+ */
+export function mfaErrorToHttp(err: unknown): { code: string; message: string; status: number } | null {
+  if (err instanceof MfaVerificationError) {
+    if (err.reason === 'CHALLENGE_EXPIRED') {
+      return { code: 'MFA_CHALLENGE_EXPIRED', message: 'Challenge expired or already used', status: 401 };
+    }
+    if (err.reason === 'NO_FACTOR') {
+      return { code: 'MFA_NO_FACTOR', message: err.message, status: 400 };
+    }
+    return { code: 'MFA_INVALID', message: 'Invalid verification code or credential', status: 401 };
+  }
+  if (err instanceof MfaFactorNotFoundError) {
+    return { code: 'NOT_FOUND', message: err.message, status: 404 };
+  }
+  if (err instanceof MfaPolicyError) {
+    return { code: 'MFA_POLICY_VIOLATION', message: err.message, status: 409 };
+  }
+  return null;
+}
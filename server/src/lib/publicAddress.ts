@@ -0,0 +1,45 @@
+/**
+ * SSRF guard for server-side fetches of tenant-supplied URLs (catalog image import,
+ * outbound webhooks).
+ *
+ * A host is reachable only when every address it resolves to is public: loopback,
+ * RFC 1918, CGNAT, link-local (cloud metadata), multicast / reserved and IPv6
+ * ULA / link-local ranges are refused. Callers must also refuse redirects.
+ */
+
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.toLowerCase().startsWith('::ffff:') ? address.slice(7) : address;
+  if (isIP(mapped) === 4) {
+    const [a, b] = mapped.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || a >= 224;
+  }
+  const lower = mapped.toLowerCase();
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+/** URL.hostname without the brackets of an IPv6 literal. */
+export function bareHostname(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '');
+}
+
+/**
+ * True when `hostname` (an IP literal or a DNS name) resolves to public addresses only.
+ * Resolution failures count as not reachable.
+ */
+export async function isPublicHost(hostname: string): Promise<boolean> {
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookup(hostname, { all: true }).then(
+      results => results.map(result => result.address),
+      () => [] as string[],
+    );
+  return addresses.length > 0 && !addresses.some(isPrivateAddress);
+}
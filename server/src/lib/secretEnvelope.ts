@@ -0,0 +1,31 @@
+/**
+ * AES-256-GCM envelope for secrets stored in the database (TOTP seeds, SSO client secrets).
+ *
+ * Format: v1:<iv>:<tag>:<ciphertext>, each part base64url. Keys are 32 bytes; callers
+ * derive their own with HKDF so one leaked column key does not open another feature's data.
+ */
+
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'node:crypto';
+
+/** Derives a 32-byte envelope key from a configured secret string. */
+export function deriveEnvelopeKey(secret: string, salt: string, info: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', secret, salt, info, 32));
+}
+
+export function sealSecret(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `v1:${iv.toString('base64url')}:${tag.toString('base64url')}:${ciphertext.toString('base64url')}`;
+}
+
+export function openSecret(envelope: string, key: Buffer): string {
+  const [version, iv, tag, ciphertext] = envelope.split(':');
+  if (version !== 'v1' || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognised secret envelope');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,80 @@
+/**
+ * SSO-001 request contracts shared by /api/auth/sso and /api/tenant/sso.
+ */
+
+import { z } from 'zod';
+import {
+  SsoConfigError,
+  SsoConnectionNotFoundError,
+  type OidcConnectionInput,
+  type SamlConnectionInput,
+} from '../services/sso/sso.service.js';
+
+const ssoRoleSchema = z.enum(['ADMIN', 'MEMBER', 'VIEWER']);
+
+const attributeNameSchema = z.string().trim().min(1).max(255);
+
+const commonConnectionSchema = z.object({
+  enabled: z.boolean(),
+  displayName: z.string().trim().min(1).max(100).nullable().optional(),
+  emailAttribute: attributeNameSchema.optional(),
+  groupsAttribute: attributeNameSchema.optional(),
+  roleMappings: z
+    .array(z.object({ group: z.string().trim().min(1).max(255), role: ssoRoleSchema }))
+    .max(100)
+    .default([]),
+  defaultRole: ssoRoleSchema.nullable().default(null),
+  jitProvisioning: z.boolean().default(true),
+});
+
+const httpsUrlSchema = (max: number) =>
+  z
+    .string()
+    .trim()
+    .url()
+    .max(max)
+    .refine(value => value.startsWith('https://'), 'Must be an https URL');
+
+export const oidcConnectionSchema: z.ZodType<OidcConnectionInput, z.ZodTypeDef, unknown> =
+  commonConnectionSchema.extend({
+    issuer: httpsUrlSchema(500),
+    clientId: z.string().trim().min(1).max(255),
+    clientSecret: z.string().min(1).max(1000).optional(),
+    scopes: z
+      .string()
+      .trim()
+      .max(255)
+      .refine(value => value.split(/\s+/).includes('openid'), 'Scopes must include openid')
+      .optional(),
+  });
+
+export const samlConnectionSchema: z.ZodType<SamlConnectionInput, z.ZodTypeDef, unknown> =
+  commonConnectionSchema.extend({
+    idpEntityId: z.string().trim().min(1).max(500),
+    idpSsoUrl: httpsUrlSchema(1000),
+    idpCertificate: z.string().trim().min(1).max(20_000),
+  });
+
+export const ssoProtocolParamsSchema = z.object({
+  protocol: z.enum(['oidc', 'saml']).transform(value => value.toUpperCase() as 'OIDC' | 'SAML'),
+});
+
+/**
+ * HTTP mapping for SsoService configuration errors. Returns null for anything else (→ 500).
+ * Login failures (SsoLoginError) are not mapped here: callbacks redirect to the SPA.
+ */
+export function ssoErrorToHttp(err: unknown): { code: string; message: string; status: number } | null {
+  if (err instanceof SsoConnectionNotFoundError) {
+    return { code: 'NOT_FOUND', message: err.message, status: 404 };
+  }
+  if (err instanceof SsoConfigError) {
+    if (err.failure === 'NO_VERIFIED_DOMAIN') {
+      return { code: 'SSO_DOMAIN_NOT_VERIFIED', message: err.message, status: 409 };
+    }
+    if (err.failure === 'DISCOVERY_FAILED') {
+      return { code: 'SSO_DISCOVERY_FAILED', message: err.message, status: 422 };
+    }
+    return { code: 'VALIDATION_ERROR', message: err.message, status: 400 };
+  }
+  return null;
+}
@@ -0,0 +1,75 @@
+/**
+ * Tenant Webhooks — Outbound Signing Helper
+ *
+ * Signs every tenant webhook body so the subscriber can verify origin, integrity
+ * and freshness with the subscription's signing secret.
+ *
+ * Wire format:
+ *   Header: x-texqtic-webhook-id        — delivery event id (stable across retries)
+ *   Header: x-texqtic-webhook-timestamp — Unix timestamp in seconds (string)
+ *   Header: x-texqtic-webhook-signature — space-separated "v1=<hex>" entries
+ *
+ *   Message: id + "." + timestamp + "." + body
+ *   Secret:  the subscription signing secret ("whsec_…"). During the grace period after a
+ *            rotation the previous secret adds a second v1= entry; receivers accept the
+ *            request when any entry matches a secret they hold.
+ *
+ * Security notes:
+ *   - body MUST be the exact string sent on the wire.
+ *   - Secrets are NEVER logged or returned after creation / rotation.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export const WEBHOOK_ID_HEADER = 'x-texqtic-webhook-id';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-texqtic-webhook-timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-texqtic-webhook-signature';
+
+function computeSignature(id: string, timestamp: string, body: string, secret: string): string {
+  return createHmac('sha256', secret).update(`${id}.${timestamp}.${body}`, 'utf8').digest('hex');
+}
+
+/**
+ * Build the signature headers for a serialized webhook body.
+ *
+ * @param id       Delivery event id.
+ * @param body     Exact JSON string that will be sent as the request body.
+ * @param secrets  Current secret first, then the previous secret while it is in its grace period.
+ * @param tsSec    Signing timestamp in seconds (defaults to now).
+ */
+export function signWebhookBody(
+  id: string,
+  body: string,
+  secrets: readonly string[],
+  tsSec: number = Math.floor(Date.now() / 1000),
+): Record<string, string> {
+  const timestamp = String(tsSec);
+  return {
+    [WEBHOOK_ID_HEADER]: id,
+    [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+    [WEBHOOK_SIGNATURE_HEADER]: secrets
+      .map(secret => `v1=${computeSignature(id, timestamp, body, secret)}`)
+      .join(' '),
+  };
+}
+
+/**
+ * Receiver-side check, documented for subscribers and used by tests: true when any v1
+ * entry of `signatureHeader` matches `secret`.
+ */
+export function verifyWebhookSignature(
+  id: string,
+  timestamp: string,
+  body: string,
+  signatureHeader: string,
+  secret: string,
+): boolean {
+  const expected = Buffer.from(computeSignature(id, timestamp, body, secret), 'utf8');
+  return signatureHeader
+    .split(' ')
+    .filter(entry => entry.startsWith('v1='))
+    .some(entry => {
+      const candidate = Buffer.from(entry.slice(3), 'utf8');
+      return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+    });
+}
@@ -3,6 +3,11 @@ import { sendUnauthorized, sendForbidden } from '../utils/response.js';
 import { getUserMembership } from '../db/withDbContext.js';
 import { checkRealmMismatch } from './realmGuard.js';
 import { prisma } from '../db/prisma.js';
+import {
+  SessionRegistryService,
+  type AccessTokenClaims,
+  type SessionRejectReason,
+} from '../services/sessions/sessionRegistry.service.js';
 
 declare module 'fastify' {
   interface FastifyRequest {
@@ -12,9 +17,39 @@ declare module 'fastify' {
     isAdmin?: boolean;
     adminId?: string;
     adminRole?: string;
+    /** mfaAt claim of the verified token (unix seconds of the last second-factor check). */
+    mfaVerifiedAt?: number;
+    /** sid claim of the verified token (auth_sessions.id); absent on pre-registry tokens. */
+    sessionId?: string;
   }
 }
 
+const SESSION_REJECT_MESSAGES: Record<SessionRejectReason, string> = {
+  SESSION_REVOKED: 'Session has been signed out',
+  SESSION_EXPIRED: 'Session has expired',
+  SESSION_REQUIRED: 'Session is not registered',
+  FORCED_LOGOUT: 'Session was ended by an administrator',
+};
+
+/**
+ * SESSION-REGISTRY-001: server-side revocation check, run on every authenticated
+ * request after the JWT verifies. Sends 401 and returns true when the session is gone.
+ * Lookup errors propagate to the caller's catch (fail closed).
+ */
+async function rejectRevokedSession(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  claims: AccessTokenClaims
+): Promise<boolean> {
+  const result = await new SessionRegistryService(prisma).checkAccess(claims);
+  if (!result.ok) {
+    sendUnauthorized(reply, SESSION_REJECT_MESSAGES[result.reason]);
+    return true;
+  }
+  request.sessionId = claims.sid;
+  return false;
+}
+
 // G-W3-A1 cleanup: tenantMiddleware (X-Tenant-Id header bypass, 0 callers) deleted.
 // Tenant context MUST come from JWT. See lib/tenantContext.ts.
 
@@ -28,7 +63,14 @@ export async function tenantAuthMiddleware(request: FastifyRequest, reply: Fasti
   try {
     // Verify JWT using tenant realm ONLY
     await request.tenantJwtVerify({ onlyCookie: false });
-    const payload = request.user as { userId?: string; tenantId?: string };
+    const payload = request.user as {
+      userId?: string;
+      tenantId?: string;
+      mfaAt?: number;
+      sid?: string;
+      iat?: number;
+      isImpersonation?: boolean;
+    };
 
     if (!payload.userId || !payload.tenantId) {
       return sendUnauthorized(reply, 'Invalid token payload');
@@ -44,6 +86,18 @@ export async function tenantAuthMiddleware(request: FastifyRequest, reply: Fasti
       return sendForbidden(reply, 'Resolved tenant does not match token tenant');
     }
 
+    if (
+      await rejectRevokedSession(request, reply, {
+        sid: payload.sid,
+        userId: payload.userId,
+        tenantId: payload.tenantId,
+        iat: payload.iat,
+        isImpersonation: payload.isImpersonation === true,
+      })
+    ) {
+      return;
+    }
+
     // Verify membership
     const membership = await getUserMembership(payload.userId, payload.tenantId);
     if (!membership) {
@@ -53,6 +107,7 @@ export async function tenantAuthMiddleware(request: FastifyRequest, reply: Fasti
     request.userId = payload.userId;
     request.tenantId = payload.tenantId;
     request.userRole = membership.role;
+    request.mfaVerifiedAt = typeof payload.mfaAt === 'number' ? payload.mfaAt : undefined;
   } catch {
     // Tenant JWT verification failed - invalid or expired
     return sendUnauthorized(reply, 'Invalid or expired token');
@@ -90,9 +145,20 @@ export async function adminAuthMiddleware(request: FastifyRequest, reply: Fastif
       return sendUnauthorized(reply, 'Admin access no longer matches token');
     }
 
+    if (
+      await rejectRevokedSession(request, reply, {
+        sid: typeof payload.sid === 'string' ? payload.sid : undefined,
+        adminId: payload.adminId,
+        iat: typeof payload.iat === 'number' ? payload.iat : undefined,
+      })
+    ) {
+      return;
+    }
+
     request.isAdmin = true;
     request.adminId = adminRecord.id;
     request.adminRole = adminRecord.role;
+    request.mfaVerifiedAt = typeof payload.mfaAt === 'number' ? payload.mfaAt : undefined;
 
     // Wave 0-B: Check realm mismatch using centralized mapping
     // This catches cases where admin token is used on tenant-only endpoint
@@ -0,0 +1,68 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { sendError, sendUnauthorized } from '../utils/response.js';
+import { createMfaService } from '../services/mfa/mfa.factory.js';
+import type { MfaPrincipal } from '../services/mfa/mfa.service.js';
+
+/**
+ * MFA-001: Step-up gate for sensitive actions (approval signing, impersonation,
+ * escrow transitions).
+ *
+ * Must run after tenantAuthMiddleware / adminAuthMiddleware (reads userId / adminId
+ * and mfaVerifiedAt). Passes when the principal has no factor and MFA is not
+ * required for them; otherwise the token's mfaAt must be within
+ * MFA_STEP_UP_MAX_AGE_SECONDS. The client obtains a fresh token from
+ * POST /api/tenant/mfa/step-up or POST /api/control/mfa/step-up and retries.
+ *
+ *   401 MFA_STEP_UP_REQUIRED     — factor enrolled, verification missing or stale
+ *   403 MFA_ENROLLMENT_REQUIRED  — MFA required but no factor enrolled
+ *   503 MFA_CHECK_FAILED         — lookup failed; fails closed
+ */
+export async function requireMfaStepUp(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  return enforceStepUp(request, reply, false);
+}
+
+/**
+ * Variant for MFA self-management (adding a factor, changing the tenant policy):
+ * a principal with no factor yet passes even when MFA is required, so they can
+ * enroll; once a factor exists a fresh verification is needed.
+ */
+export async function requireMfaStepUpIfEnrolled(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  return enforceStepUp(request, reply, true);
+}
+
+async function enforceStepUp(request: FastifyRequest, reply: FastifyReply, allowEnrollment: boolean): Promise<void> {
+  let principal: MfaPrincipal | null = null;
+  if (request.isAdmin && request.adminId) {
+    principal = { realm: 'ADMIN', adminId: request.adminId };
+  } else if (request.userId && request.tenantId) {
+    principal = { realm: 'TENANT', userId: request.userId, tenantId: request.tenantId };
+  }
+
+  if (!principal) {
+    return sendUnauthorized(reply, 'Authentication required') as unknown as void;
+  }
+
+  try {
+    const result = await createMfaService().checkStepUp(principal, request.mfaVerifiedAt);
+    if (result.ok) return;
+    if (allowEnrollment && result.code === 'MFA_ENROLLMENT_REQUIRED') return;
+
+    if (result.code === 'MFA_ENROLLMENT_REQUIRED') {
+      return sendError(
+        reply,
+        'MFA_ENROLLMENT_REQUIRED',
+        'Multi-factor authentication is required. Enroll a factor to continue.',
+        403,
+      ) as unknown as void;
+    }
+    return sendError(
+      reply,
+      'MFA_STEP_UP_REQUIRED',
+      'Confirm your identity with a second factor to continue.',
+      401,
+    ) as unknown as void;
+  } catch (err) {
+    request.log.error({ err, realm: principal.realm }, '[MFA] step-up check failed');
+    return sendError(reply, 'MFA_CHECK_FAILED', 'Unable to verify MFA status', 503) as unknown as void;
+  }
+}
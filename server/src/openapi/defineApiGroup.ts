@@ -0,0 +1,25 @@
+/**
+ * defineApiGroup.ts — API-DOCS-OPENAPI-001
+ *
+ * Declares the operations of one route module relative to the prefix the
+ * module is registered at, mirroring how the module declares its routes.
+ */
+
+import type { ApiOperationDoc, ApiOperationGroup, ApiOperationInput } from './types.js';
+
+export function joinRoutePath(prefix: string, path: string): string {
+  if (path === '/' || path === '') return prefix === '' ? '/' : prefix;
+  return `${prefix}${path}`;
+}
+
+export function defineApiGroup(
+  group: ApiOperationGroup,
+  operations: ApiOperationInput[],
+): ApiOperationDoc[] {
+  return operations.map(operation => ({
+    ...operation,
+    tag: group.tag,
+    path: joinRoutePath(group.prefix, operation.path),
+    security: operation.security ?? group.security,
+  }));
+}
@@ -0,0 +1,421 @@
+/**
+ * openApiDocument.ts — API-DOCS-OPENAPI-001
+ *
+ * Builds one OpenAPI 3.1 document per realm from the operation catalogue in
+ * ./operations and the zod schemas the routes validate with.
+ *
+ * Realm split (realmForPath):
+ *   internal — /api/internal/* and /api/control/internal/* (service-to-service, X-Texqtic-Internal)
+ *   control  — /api/control/* (admin JWT)
+ *   tenant   — /api/tenant/*, /api/me, /api/ai, … (tenant JWT; realmGuard's catch-all)
+ *   public   — /api/public/*, /api/auth/*, /health, crawler files
+ *
+ * Documents are pure functions of the catalogue, so each realm is built once
+ * per process and cached.
+ */
+
+import type { ZodTypeAny } from 'zod';
+import { matchRealm } from '../middleware/realmGuard.js';
+import { objectShapeOf, zodToJsonSchema, type JsonSchema } from './zodToJsonSchema.js';
+import { API_REALMS, type ApiOperationDoc, type ApiRealm, type ApiSecurityScheme } from './types.js';
+import { PUBLIC_API_OPERATIONS } from './operations/public.js';
+import { TENANT_API_OPERATIONS } from './operations/tenant.js';
+import { CONTROL_API_OPERATIONS } from './operations/control.js';
+import { INTERNAL_API_OPERATIONS } from './operations/internal.js';
+
+export const API_OPERATIONS_BY_REALM: Record<ApiRealm, ApiOperationDoc[]> = {
+  public: PUBLIC_API_OPERATIONS,
+  tenant: TENANT_API_OPERATIONS,
+  control: CONTROL_API_OPERATIONS,
+  internal: INTERNAL_API_OPERATIONS,
+};
+
+const REALM_TITLES: Record<ApiRealm, { title: string; description: string }> = {
+  public: {
+    title: 'TexQtic Public API',
+    description:
+      'Unauthenticated storefront projections, authentication entry points and crawler files.',
+  },
+  tenant: {
+    title: 'TexQtic Tenant API',
+    description:
+      'Tenant-plane routes. Org scope is always derived from the tenant JWT — never send orgId / tenantId in a body.',
+  },
+  control: {
+    title: 'TexQtic Control-Plane API',
+    description: 'Platform administration routes. Requires an admin-realm JWT.',
+  },
+  internal: {
+    title: 'TexQtic Internal API',
+    description:
+      'Service-to-service routes: maker-checker governance (X-Texqtic-Internal header + JWT) and HMAC-signed edge / CRM callbacks.',
+  },
+};
+
+/** OpenAPI version string emitted by buildOpenApiDocument. */
+export const OPENAPI_VERSION = '3.1.0';
+
+/** Matches the version reported by GET /. */
+const API_VERSION = '0.1.0';
+
+// ─── Realm classification ────────────────────────────────────────────────────
+
+export function realmForPath(path: string): ApiRealm {
+  if (path.startsWith('/api/internal/') || path.startsWith('/api/control/internal/')) {
+    return 'internal';
+  }
+  const realm = matchRealm(path);
+  return realm === 'admin' ? 'control' : realm;
+}
+
+// ─── Examples ────────────────────────────────────────────────────────────────
+
+const STRING_FORMAT_EXAMPLES: Record<string, string> = {
+  uuid: '3f2c8a4e-7b1d-4c9a-9e2f-5a6b7c8d9e0f',
+  email: 'buyer@example.com',
+  uri: 'https://example.com/resource',
+  'date-time': '2026-01-15T09:30:00.000Z',
+  date: '2026-01-15',
+};
+
+const MAX_EXAMPLE_DEPTH = 8;
+
+/**
+ * Illustrative value for a JSON Schema: defaults, consts and the first enum
+ * member win; otherwise a type-appropriate placeholder that satisfies the
+ * documented bounds.
+ */
+export function exampleFromJsonSchema(schema: JsonSchema, depth = 0): unknown {
+  if (depth > MAX_EXAMPLE_DEPTH) return null;
+  if ('default' in schema) return schema.default;
+  if ('const' in schema) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  if (Array.isArray(schema.anyOf)) {
+    const options = schema.anyOf as JsonSchema[];
+    const preferred = options.find(option => option.type !== 'null') ?? options[0];
+    return preferred ? exampleFromJsonSchema(preferred, depth + 1) : null;
+  }
+  if (Array.isArray(schema.allOf)) {
+    return (schema.allOf as JsonSchema[]).reduce<Record<string, unknown>>((merged, part) => {
+      const value = exampleFromJsonSchema(part, depth + 1);
+      return value && typeof value === 'object' ? { ...merged, ...value } : merged;
+    }, {});
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [
+          key,
+          exampleFromJsonSchema(value, depth + 1),
+        ]),
+      );
+    }
+    case 'array': {
+      if (Array.isArray(schema.prefixItems)) {
+        return (schema.prefixItems as JsonSchema[]).map(item => exampleFromJsonSchema(item, depth + 1));
+      }
+      const items = schema.items;
+      return items && typeof items === 'object'
+        ? [exampleFromJsonSchema(items as JsonSchema, depth + 1)]
+        : [];
+    }
+    case 'string': {
+      const format = typeof schema.format === 'string' ? STRING_FORMAT_EXAMPLES[schema.format] : undefined;
+      if (format) return format;
+      const minLength = typeof schema.minLength === 'number' ? schema.minLength : 0;
+      return minLength > 6 ? 'x'.repeat(minLength) : 'string';
+    }
+    case 'integer':
+    case 'number': {
+      if (typeof schema.minimum === 'number') return schema.minimum;
+      if (typeof schema.exclusiveMinimum === 'number') {
+        return schema.type === 'integer' ? schema.exclusiveMinimum + 1 : schema.exclusiveMinimum + 0.5;
+      }
+      return 1;
+    }
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return {};
+  }
+}
+
+// ─── Operation objects ───────────────────────────────────────────────────────
+
+/** /api/tenant/shipments/:id → /api/tenant/shipments/{id} */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+}
+
+function pathParamNames(path: string): string[] {
+  return [...path.matchAll(/:([A-Za-z0-9_]+)/g)].map(match => match[1]);
+}
+
+function toPascalCase(segment: string): string {
+  return segment
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/** GET /api/tenant/shipments/:id → getApiTenantShipmentsById */
+export function operationIdFor(method: string, path: string): string {
+  const parts = path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => (segment.startsWith(':') ? `By${toPascalCase(segment.slice(1))}` : toPascalCase(segment)));
+  return `${method.toLowerCase()}${parts.join('') || 'Root'}`;
+}
+
+function parametersFor(
+  location: 'path' | 'query',
+  schema: ZodTypeAny | undefined,
+  pathNames: string[],
+): JsonSchema[] {
+  const shape = schema ? objectShapeOf(schema) : null;
+
+  if (location === 'path') {
+    return pathNames.map(name => {
+      const property = shape?.[name];
+      const json = property ? zodToJsonSchema(property) : { type: 'string' };
+      return { name, in: 'path', required: true, schema: json };
+    });
+  }
+
+  if (!shape) return [];
+  return Object.entries(shape).map(([name, property]) => {
+    const json = zodToJsonSchema(property);
+    const { description, ...rest } = json;
+    return {
+      name,
+      in: 'query',
+      required: !property.isOptional(),
+      ...(typeof description === 'string' ? { description } : {}),
+      schema: rest,
+    };
+  });
+}
+
+function requestBodyFor(operation: ApiOperationDoc): JsonSchema | undefined {
+  if (operation.bodyContentType === 'multipart/form-data') {
+    return {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: { file: { type: 'string', contentMediaType: 'application/octet-stream' } },
+            required: ['file'],
+          },
+        },
+      },
+    };
+  }
+  if (!operation.body) return undefined;
+
+  const schema = zodToJsonSchema(operation.body);
+  return {
+    required: !operation.body.isOptional(),
+    content: {
+      [operation.bodyContentType ?? 'application/json']: {
+        schema,
+        example: operation.requestExample ?? exampleFromJsonSchema(schema),
+      },
+    },
+  };
+}
+
+const ERROR_RESPONSE = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorEnvelope' } } },
+});
+
+function responsesFor(operation: ApiOperationDoc): JsonSchema {
+  const statusCode = operation.successStatus ?? 200;
+  const status = String(statusCode);
+  const contentType = operation.responseContentType ?? 'application/json';
+
+  const success =
+    statusCode >= 300 && statusCode < 400
+      ? { description: 'Redirect', headers: { Location: { schema: { type: 'string', format: 'uri' } } } }
+      : contentType === 'application/json' && operation.rawResponse
+      ? {
+          description: 'Success',
+          content: { 'application/json': { schema: { type: 'object' }, example: operation.responseExample ?? {} } },
+        }
+      : contentType === 'application/json'
+      ? {
+          description: 'Success',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/SuccessEnvelope' },
+              example: { success: true, data: operation.responseExample ?? {} },
+            },
+          },
+        }
+      : { description: 'Success', content: { [contentType]: { schema: { type: 'string' } } } };
+
+  const responses: JsonSchema = { [status]: success };
+  if (operation.params || operation.query || operation.body || pathParamNames(operation.path).length > 0) {
+    responses['400'] = ERROR_RESPONSE('Validation error');
+  }
+  if (operation.security.length > 0) {
+    responses['401'] = ERROR_RESPONSE('Missing or invalid credentials');
+    responses['403'] = ERROR_RESPONSE('Authenticated principal may not perform this operation');
+  }
+  if (pathParamNames(operation.path).length > 0) {
+    responses['404'] = ERROR_RESPONSE('Resource not found in the caller scope');
+  }
+  return responses;
+}
+
+function operationObject(operation: ApiOperationDoc): JsonSchema {
+  const pathNames = pathParamNames(operation.path);
+  const parameters = [
+    ...parametersFor('path', operation.params, pathNames),
+    ...parametersFor('query', operation.query, pathNames),
+  ];
+  const requestBody = requestBodyFor(operation);
+
+  return {
+    operationId: operationIdFor(operation.method, operation.path),
+    summary: operation.summary,
+    ...(operation.description ? { description: operation.description } : {}),
+    tags: [operation.tag],
+    security:
+      operation.security.length > 0
+        ? [Object.fromEntries(operation.security.map(scheme => [scheme, [] as string[]]))]
+        : [],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(requestBody ? { requestBody } : {}),
+    responses: responsesFor(operation),
+  };
+}
+
+// ─── Document ────────────────────────────────────────────────────────────────
+
+const SECURITY_SCHEMES: Record<ApiSecurityScheme, JsonSchema> = {
+  tenantBearer: {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+    description: 'Tenant-realm access token from POST /api/auth/login.',
+  },
+  adminBearer: {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+    description: 'Admin-realm access token from POST /api/auth/admin/login.',
+  },
+  internalHeader: {
+    type: 'apiKey',
+    in: 'header',
+    name: 'X-Texqtic-Internal',
+    description: 'Must be the literal value "true". Sent together with a realm JWT.',
+  },
+  resolverHmac: {
+    type: 'apiKey',
+    in: 'header',
+    name: 'x-texqtic-resolver-hmac',
+    description: 'HMAC-SHA256 over the request with TEXQTIC_RESOLVER_SECRET; pair with x-texqtic-resolver-ts.',
+  },
+  provisioningHmac: {
+    type: 'apiKey',
+    in: 'header',
+    name: 'x-texqtic-provisioning-hmac',
+    description: 'HMAC-SHA256 over the request body; pair with x-texqtic-provisioning-ts.',
+  },
+};
+
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  SuccessEnvelope: {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      data: {},
+    },
+    required: ['success'],
+  },
+  ErrorEnvelope: {
+    type: 'object',
+    properties: {
+      success: { const: false },
+      error: {
+        type: 'object',
+        properties: {
+          code: { type: 'string' },
+          message: { type: 'string' },
+          details: {},
+        },
+        required: ['code', 'message'],
+      },
+    },
+    required: ['success', 'error'],
+  },
+};
+
+const documentCache = new Map<ApiRealm, JsonSchema>();
+
+/**
+ * OpenAPI 3.1 document for one realm.
+ */
+export function buildOpenApiDocument(realm: ApiRealm): JsonSchema {
+  const cached = documentCache.get(realm);
+  if (cached) return cached;
+
+  const operations = API_OPERATIONS_BY_REALM[realm];
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  const tags: string[] = [];
+  const schemes = new Set<ApiSecurityScheme>();
+
+  for (const operation of operations) {
+    const key = toOpenApiPath(operation.path);
+    paths[key] ??= {};
+    paths[key][operation.method.toLowerCase()] = operationObject(operation);
+    if (!tags.includes(operation.tag)) tags.push(operation.tag);
+    operation.security.forEach(scheme => schemes.add(scheme));
+  }
+
+  const document: JsonSchema = {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: REALM_TITLES[realm].title,
+      version: API_VERSION,
+      description: REALM_TITLES[realm].description,
+    },
+    servers: [{ url: '/' }],
+    tags: tags.map(name => ({ name })),
+    paths,
+    components: {
+      schemas: COMPONENT_SCHEMAS,
+      securitySchemes: Object.fromEntries(
+        [...schemes].map(scheme => [scheme, SECURITY_SCHEMES[scheme]]),
+      ),
+    },
+  };
+
+  documentCache.set(realm, document);
+  return document;
+}
+
+/**
+ * Realm index served by GET /api/control/openapi.
+ */
+export function listOpenApiRealms(): Array<{
+  realm: ApiRealm;
+  title: string;
+  description: string;
+  operations: number;
+}> {
+  return API_REALMS.map(realm => ({
+    realm,
+    ...REALM_TITLES[realm],
+    operations: API_OPERATIONS_BY_REALM[realm].length,
+  }));
+}
@@ -0,0 +1,468 @@
+/**
+ * Control realm operations — API-DOCS-OPENAPI-001
+ *
+ * Control-plane routes behind adminAuthMiddleware: routes/control.ts, the
+ * routes/control/* plugins it registers, tenant provisioning, impersonation
+ * and the marketplace cart summaries.
+ */
+
+import { z } from 'zod';
+import { defineApiGroup } from '../defineApiGroup.js';
+import { apiRealmSchema, type ApiOperationDoc, type ApiSecurityScheme } from '../types.js';
+import * as controlRoutes from '../../routes/control.js';
+import * as sessionRoutes from '../../routes/sessions.js';
+import * as impersonationRoutes from '../../routes/admin/impersonation.js';
+import * as tenantProvisionRoutes from '../../routes/admin/tenantProvision.js';
+import * as adminTraceabilityRoutes from '../../routes/admin/traceability.g016.js';
+import * as aiRoutes from '../../routes/control/ai.g028.js';
+import * as auditLogRoutes from '../../routes/control/audit-logs.js';
+import * as certificationRoutes from '../../routes/control/certifications.g019.js';
+import * as crmOutboxRoutes from '../../routes/control/crm-outbox.js';
+import * as escalationRoutes from '../../routes/control/escalation.g022.js';
+import * as escrowRoutes from '../../routes/control/escrow.g018.js';
+import * as eventStreamRoutes from '../../routes/control/event-stream.js';
+import * as fxRateRoutes from '../../routes/control/fx-rates.js';
+import * as governanceExpiryRoutes from '../../routes/control/governance-expiry.js';
+import * as gstVerificationRoutes from '../../routes/control/gst-verification.js';
+import * as invoiceRoutes from '../../routes/control/invoices.js';
+import * as settlementRoutes from '../../routes/control/settlement.js';
+import * as tradeRoutes from '../../routes/control/trades.g017.js';
+import * as ttpEligibilityRoutes from '../../routes/control/ttp-eligibility.js';
+import * as ttpEnrollmentRoutes from '../../routes/control/ttp-enrollments.js';
+import * as ttpRoutingStubRoutes from '../../routes/control/ttp-routing-stubs.js';
+import * as ttpScoreSnapshotRoutes from '../../routes/control/ttp-score-snapshots.js';
+import * as vpcRoutes from '../../routes/control/vpc.js';
+import * as zohoBooksRoutes from '../../routes/control/zoho-books.js';
+import { mfaProofSchema } from '../../lib/mfaContracts.js';
+
+const security: ApiSecurityScheme[] = ['adminBearer'];
+
+const apiRealmParamsSchema = z.object({ realm: apiRealmSchema });
+
+export const CONTROL_API_OPERATIONS: ApiOperationDoc[] = [
+  ...defineApiGroup({ tag: 'Tenants', prefix: '/api/control/tenants', security }, [
+    { method: 'GET', path: '/', summary: 'Tenant registry' },
+    { method: 'GET', path: '/:id', summary: 'Tenant detail with memberships and onboarding state' },
+    { method: 'POST', path: '/:id/onboarding/outcome', summary: 'Record an onboarding review outcome' },
+    { method: 'POST', path: '/:id/onboarding/activate-approved', summary: 'Activate an approved onboarding' },
+    { method: 'POST', path: '/:id/archive', summary: 'Archive a tenant' },
+    { method: 'POST', path: '/:id/publish', summary: 'Publish a tenant to the public surfaces' },
+    {
+      method: 'POST',
+      path: '/:id/profile-completeness',
+      summary: 'Set the profile taxonomy (segments and role positions)',
+      body: controlRoutes.profileCompletenessTaxonomyBodySchema,
+    },
+    { method: 'GET', path: '/:id/catalog-items', summary: 'Catalog items of a tenant' },
+    {
+      method: 'POST',
+      path: '/:id/catalog-items/:itemId/publication-posture',
+      summary: 'Set the publication posture of a catalog item',
+      body: controlRoutes.catalogOfferingPreviewPublicationPostureBodySchema,
+    },
+    { method: 'POST', path: '/:id/first-owner/reinvite', summary: 'Re-send the first-owner invite' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Tenant provisioning', prefix: '/api/control/tenants', security }, [
+    {
+      method: 'POST',
+      path: '/provision',
+      summary: 'Provision a tenant with its first owner',
+      description:
+        'SUPER_ADMIN only. The approved-onboarding service credential may call it with provisioningMode APPROVED_ONBOARDING.',
+    },
+    {
+      method: 'GET',
+      path: '/provision/status',
+      summary: 'Provisioning status',
+      description: 'Also readable with the approved-onboarding service credential.',
+    },
+    {
+      method: 'POST',
+      path: '/provision/consent-runtime-path',
+      summary: 'Provision through the consent runtime path',
+      body: tenantProvisionRoutes.consentRuntimePathBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/provision/consent-runtime-path/activate-handoff',
+      summary: 'Hand off a consent-path tenant for activation',
+      body: tenantProvisionRoutes.consentRuntimeActivationHandoffBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/smtp-verification-trigger',
+      summary: 'Send the SMTP verification email',
+      body: tenantProvisionRoutes.smtpVerificationTriggerBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Impersonation', prefix: '/api/control/impersonation', security }, [
+    {
+      method: 'POST',
+      path: '/start',
+      summary: 'Start impersonating a tenant user',
+      description: 'SUPER_ADMIN with a fresh MFA step-up. Returns a tenant-shaped JWT marked as impersonation.',
+      body: impersonationRoutes.startBodySchema,
+    },
+    { method: 'POST', path: '/stop', summary: 'Stop an impersonation', body: impersonationRoutes.stopBodySchema },
+    { method: 'GET', path: '/status/:impersonationId', summary: 'Impersonation session status' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Platform', prefix: '/api/control', security }, [
+    { method: 'GET', path: '/whoami', summary: 'Current admin and role' },
+    { method: 'GET', path: '/system/health', summary: 'Platform health' },
+    { method: 'GET', path: '/audit-logs', summary: 'Platform audit log' },
+    { method: 'GET', path: '/events', summary: 'Platform event stream' },
+    { method: 'GET', path: '/feature-flags', summary: 'Feature flags' },
+    { method: 'PUT', path: '/feature-flags/:key', summary: 'Set a feature flag' },
+    { method: 'GET', path: '/admin-access-registry', summary: 'Admin access registry' },
+    { method: 'DELETE', path: '/admin-access-registry/:id', summary: 'Revoke an admin access entry' },
+    { method: 'GET', path: '/orders', summary: 'Orders across tenants' },
+  ]),
+
+  ...defineApiGroup({ tag: 'API reference', prefix: '/api/control/openapi', security }, [
+    {
+      method: 'GET',
+      path: '/',
+      summary: 'Documentation realms with their operation counts',
+      responseExample: {
+        realms: [{ realm: 'tenant', title: 'TexQtic Tenant API', description: 'Tenant-plane routes.', operations: 240 }],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/:realm',
+      summary: 'OpenAPI 3.1 document of one realm',
+      params: apiRealmParamsSchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Finance & compliance supervision', prefix: '/api/control', security }, [
+    { method: 'GET', path: '/finance/payouts', summary: 'Payouts awaiting supervision' },
+    { method: 'POST', path: '/finance/payouts/:payout_id/approve', summary: 'Approve a payout' },
+    { method: 'POST', path: '/finance/payouts/:payout_id/reject', summary: 'Reject a payout' },
+    { method: 'POST', path: '/finance/records/:record_id/outcome', summary: 'Record a finance supervision outcome' },
+    { method: 'GET', path: '/compliance/requests', summary: 'Compliance requests' },
+    { method: 'POST', path: '/compliance/requests/:request_id/approve', summary: 'Approve a compliance request' },
+    { method: 'POST', path: '/compliance/requests/:request_id/reject', summary: 'Reject a compliance request' },
+    {
+      method: 'POST',
+      path: '/compliance/records/:certification_id/outcome',
+      summary: 'Record a compliance supervision outcome',
+    },
+    { method: 'GET', path: '/disputes', summary: 'Disputes' },
+    { method: 'POST', path: '/disputes/:dispute_id/resolve', summary: 'Resolve a dispute' },
+    { method: 'POST', path: '/disputes/:dispute_id/escalate', summary: 'Escalate a dispute' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Marketplace', prefix: '/api/control/marketplace', security }, [
+    { method: 'GET', path: '/cart-summaries', summary: 'Cart summaries across tenants' },
+    { method: 'GET', path: '/cart-summaries/:cart_id', summary: 'Cart summary detail' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Escalations', prefix: '/api/control/escalations', security }, [
+    { method: 'GET', path: '/', summary: 'Escalations across tenants', query: escalationRoutes.listQuerySchema },
+    { method: 'POST', path: '/', summary: 'Open an escalation', body: escalationRoutes.createBodySchema },
+    {
+      method: 'POST',
+      path: '/:id/upgrade',
+      summary: 'Upgrade escalation severity',
+      params: escalationRoutes.escalationIdParam,
+      body: escalationRoutes.upgradeBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:id/resolve',
+      summary: 'Resolve an escalation',
+      params: escalationRoutes.escalationIdParam,
+      body: escalationRoutes.resolveBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Trades', prefix: '/api/control/trades', security }, [
+    { method: 'GET', path: '/', summary: 'Trades across tenants', query: tradeRoutes.listQuerySchema },
+    {
+      method: 'POST',
+      path: '/:id/transition',
+      summary: 'Transition a trade',
+      params: tradeRoutes.tradeIdParamSchema,
+      body: tradeRoutes.transitionBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Escrows', prefix: '/api/control/escrows', security }, [
+    { method: 'GET', path: '/', summary: 'Escrows across tenants', query: escrowRoutes.listQuerySchema },
+    { method: 'GET', path: '/:escrowId', summary: 'Escrow detail', params: escrowRoutes.escrowIdParamSchema },
+    {
+      method: 'POST',
+      path: '/:escrowId/transition',
+      summary: 'Transition an escrow',
+      params: escrowRoutes.escrowIdParamSchema,
+      body: escrowRoutes.transitionEscrowBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Settlements', prefix: '/api/control/settlements', security }, [
+    { method: 'GET', path: '/', summary: 'Settlements across tenants', query: settlementRoutes.listQuerySchema },
+    { method: 'POST', path: '/preview', summary: 'Preview a settlement', body: settlementRoutes.previewBodySchema },
+    { method: 'POST', path: '/', summary: 'Settle a trade', body: settlementRoutes.settleBodySchema },
+  ]),
+
+  ...defineApiGroup({ tag: 'Invoices', prefix: '/api/control/invoices', security }, [
+    { method: 'GET', path: '/', summary: 'Invoices across tenants', query: invoiceRoutes.listQuerySchema },
+    {
+      method: 'GET',
+      path: '/:invoiceId',
+      summary: 'Invoice detail',
+      params: invoiceRoutes.invoiceIdParamSchema,
+    },
+    {
+      method: 'PATCH',
+      path: '/:invoiceId/transition',
+      summary: 'Transition an invoice',
+      params: invoiceRoutes.invoiceIdParamSchema,
+      body: invoiceRoutes.transitionBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Certifications', prefix: '/api/control/certifications', security }, [
+    { method: 'GET', path: '/', summary: 'Certifications across tenants', query: certificationRoutes.listQuerySchema },
+    {
+      method: 'GET',
+      path: '/:id',
+      summary: 'Certification detail',
+      params: certificationRoutes.certIdParamSchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Traceability', prefix: '/api/control/traceability', security }, [
+    {
+      method: 'GET',
+      path: '/nodes',
+      summary: 'Traceability nodes across tenants',
+      query: adminTraceabilityRoutes.listNodesQuerySchema,
+    },
+    {
+      method: 'GET',
+      path: '/edges',
+      summary: 'Traceability edges across tenants',
+      query: adminTraceabilityRoutes.listEdgesQuerySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'AI governance', prefix: '/api/control/ai', security }, [
+    { method: 'GET', path: '/health', summary: 'AI service health' },
+    {
+      method: 'POST',
+      path: '/insights',
+      summary: 'Platform-level AI insight (SUPER_ADMIN)',
+      description: 'PII is redacted from the prompt and suppressed in the output.',
+      body: aiRoutes.cpInsightsBodySchema,
+    },
+    { method: 'GET', path: '/providers', summary: 'AI providers and task routing' },
+    {
+      method: 'GET',
+      path: '/providers/tenants/:tenantId',
+      summary: 'Per-task provider overrides of a tenant',
+      params: aiRoutes.tenantProviderParamsSchema,
+    },
+    {
+      method: 'PUT',
+      path: '/providers/tenants/:tenantId',
+      summary: 'Set a per-task provider override',
+      params: aiRoutes.tenantProviderParamsSchema,
+      body: aiRoutes.tenantProviderBodySchema,
+    },
+    {
+      method: 'DELETE',
+      path: '/providers/tenants/:tenantId/:task',
+      summary: 'Remove a per-task provider override',
+      params: aiRoutes.tenantProviderTaskParamsSchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'GST verification', prefix: '/api/control/gst-verification', security }, [
+    { method: 'GET', path: '/', summary: 'GST verification queue' },
+    {
+      method: 'GET',
+      path: '/:orgId',
+      summary: 'GST verification of an organisation',
+      params: gstVerificationRoutes.orgIdParamSchema,
+    },
+    {
+      method: 'PATCH',
+      path: '/:orgId',
+      summary: 'Review a GST verification',
+      params: gstVerificationRoutes.orgIdParamSchema,
+      body: gstVerificationRoutes.reviewBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Trade Trust Pay', prefix: '/api/control/ttp', security }, [
+    {
+      method: 'GET',
+      path: '/eligibility/:orgId',
+      summary: 'Latest eligibility assessment of an organisation',
+      params: ttpEligibilityRoutes.orgIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/eligibility/:orgId',
+      summary: 'Record an eligibility assessment',
+      params: ttpEligibilityRoutes.orgIdParamSchema,
+      body: ttpEligibilityRoutes.createAssessmentBodySchema,
+    },
+    { method: 'GET', path: '/enrollments', summary: 'Enrollment queue', query: ttpEnrollmentRoutes.listQuerySchema },
+    {
+      method: 'GET',
+      path: '/enrollments/:tradeId',
+      summary: 'Enrollment of a trade',
+      params: ttpEnrollmentRoutes.tradeIdParamSchema,
+    },
+    {
+      method: 'PATCH',
+      path: '/enrollments/:tradeId',
+      summary: 'Review an enrollment',
+      params: ttpEnrollmentRoutes.tradeIdParamSchema,
+      body: ttpEnrollmentRoutes.reviewBodySchema,
+    },
+    {
+      method: 'GET',
+      path: '/routing-stubs/:vpcId',
+      summary: 'Payment routing stub of a VPC',
+      params: ttpRoutingStubRoutes.vpcIdParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/score-snapshots/:orgId',
+      summary: 'Score snapshots of an organisation',
+      query: ttpScoreSnapshotRoutes.snapshotListQuerySchema,
+    },
+    { method: 'GET', path: '/score-snapshot/:snapshotId', summary: 'Score snapshot detail' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Verified payment commitments', prefix: '/api/control/vpc', security }, [
+    { method: 'GET', path: '/', summary: 'Verified payment commitments', query: vpcRoutes.listQuerySchema },
+    {
+      method: 'POST',
+      path: '/generate/:invoiceId',
+      summary: 'Generate a VPC from an approved invoice',
+      params: vpcRoutes.invoiceIdParamSchema,
+    },
+    { method: 'GET', path: '/:vpcId', summary: 'VPC detail', params: vpcRoutes.vpcIdParamSchema },
+    {
+      method: 'PATCH',
+      path: '/:vpcId/transition',
+      summary: 'Transition a VPC',
+      params: vpcRoutes.vpcIdParamSchema,
+      body: vpcRoutes.transitionBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Zoho Books', prefix: '/api/control/zoho-books', security }, [
+    { method: 'GET', path: '/status', summary: 'Zoho Books connection status' },
+    { method: 'GET', path: '/contacts', summary: 'Zoho Books contacts', query: zohoBooksRoutes.contactsQuerySchema },
+    { method: 'GET', path: '/backfill-candidates', summary: 'Organisations not yet synced to Zoho Books' },
+  ]),
+
+  ...defineApiGroup({ tag: 'CRM outbox', prefix: '/api/control/crm-outbox', security }, [
+    { method: 'GET', path: '/', summary: 'CRM outbox events', query: crmOutboxRoutes.listQuerySchema },
+    { method: 'GET', path: '/:eventId', summary: 'Outbox event detail', params: crmOutboxRoutes.eventIdParamSchema },
+    {
+      method: 'POST',
+      path: '/:eventId/replay',
+      summary: 'Replay an outbox event',
+      params: crmOutboxRoutes.eventIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:eventId/dead-letter',
+      summary: 'Dead-letter an outbox event',
+      params: crmOutboxRoutes.eventIdParamSchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Governance', prefix: '/api/control/governance', security }, [
+    {
+      method: 'GET',
+      path: '/expiry-sweep/preview',
+      summary: 'Preview the certification expiry sweep',
+      query: governanceExpiryRoutes.previewQuerySchema,
+    },
+    { method: 'POST', path: '/expiry-sweep/run', summary: 'Run the certification expiry sweep' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Audit chain', prefix: '/api/control/audit-logs', security }, [
+    {
+      method: 'GET',
+      path: '/verify',
+      summary: 'Verify an audit hash chain',
+      query: auditLogRoutes.auditChainQuerySchema,
+    },
+    {
+      method: 'GET',
+      path: '/export',
+      summary: 'Signed audit log export for a date range',
+      description: 'ZIP of audit-log.jsonl, checkpoints.jsonl, manifest.json and its Ed25519 signature.',
+      query: auditLogRoutes.auditExportQuerySchema,
+      responseContentType: 'application/zip',
+    },
+    { method: 'GET', path: '/signing-key', summary: 'Public key for verifying audit exports' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Live events', prefix: '/api/control/events', security }, [
+    {
+      method: 'GET',
+      path: '/stream',
+      summary: 'Live event log stream (SSE)',
+      description:
+        'Server-sent events: ready, event_log (id = event id), reconnect, error. ' +
+        'Resume with the Last-Event-ID header. 429 TOO_MANY_STREAMS when the connection limit is reached.',
+      query: eventStreamRoutes.controlEventStreamQuerySchema,
+      responseContentType: 'text/event-stream',
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'FX rates', prefix: '/api/control/fx-rates', security }, [
+    { method: 'GET', path: '/', summary: 'FX rate table', query: fxRateRoutes.listQuerySchema },
+    { method: 'POST', path: '/', summary: 'Upload FX rates', body: fxRateRoutes.uploadBodySchema },
+    { method: 'GET', path: '/convert', summary: 'Convert an amount', query: fxRateRoutes.convertQuerySchema },
+  ]),
+
+  ...defineApiGroup({ tag: 'Account security — MFA', prefix: '/api/control/mfa', security }, [
+    { method: 'GET', path: '/', summary: 'Enrolled factors of the admin' },
+    { method: 'POST', path: '/totp', summary: 'Start TOTP enrolment' },
+    { method: 'POST', path: '/totp/confirm', summary: 'Confirm TOTP enrolment' },
+    { method: 'POST', path: '/webauthn/register/options', summary: 'Passkey registration options' },
+    { method: 'POST', path: '/webauthn/register/verify', summary: 'Register a passkey' },
+    { method: 'POST', path: '/recovery-codes', summary: 'Regenerate recovery codes' },
+    { method: 'DELETE', path: '/factors/:factorId', summary: 'Remove a factor' },
+    { method: 'POST', path: '/step-up/webauthn/options', summary: 'Passkey options for a step-up challenge' },
+    {
+      method: 'POST',
+      path: '/step-up',
+      summary: 'Step up the session for a sensitive action',
+      body: mfaProofSchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Account security — sessions', prefix: '/api/control/sessions', security }, [
+    { method: 'GET', path: '/', summary: 'Active sessions of the admin' },
+    {
+      method: 'DELETE',
+      path: '/:sessionId',
+      summary: 'Revoke a session',
+      params: sessionRoutes.sessionIdParamsSchema,
+    },
+    { method: 'POST', path: '/revoke-others', summary: 'Revoke every other session' },
+    { method: 'GET', path: '/tenants/:tenantId', summary: 'Active sessions of a tenant' },
+    { method: 'GET', path: '/users/:userId', summary: 'Active sessions of a user' },
+    {
+      method: 'POST',
+      path: '/force-logout',
+      summary: 'Force-logout a user or a whole tenant',
+      body: sessionRoutes.forceLogoutBodySchema,
+    },
+  ]),
+];
@@ -0,0 +1,105 @@
+/**
+ * Internal realm operations — API-DOCS-OPENAPI-001
+ *
+ * Machine-to-machine and governance routes registered by routes/internal:
+ * maker-checker approval queues (X-Texqtic-Internal header plus a realm JWT),
+ * the Edge domain resolver and cache-invalidation webhook (resolver HMAC) and
+ * CRM supplier provisioning (provisioning HMAC).
+ */
+
+import type { ZodTypeAny } from 'zod';
+import { defineApiGroup } from '../defineApiGroup.js';
+import type { ApiOperationDoc, ApiOperationInput } from '../types.js';
+import * as makerCheckerRoutes from '../../routes/internal/makerChecker.js';
+import * as resolveDomainRoutes from '../../routes/internal/resolveDomain.js';
+import * as cacheInvalidateRoutes from '../../routes/internal/cacheInvalidate.js';
+import * as acquisitionProvisioningRoutes from '../../routes/internal/acquisitionProvisioning.js';
+
+/** Both maker-checker plugins expose the same four routes; only the queue filter differs. */
+function approvalQueueOperations(queueLabel: string, queueQuerySchema: ZodTypeAny): ApiOperationInput[] {
+  return [
+    { method: 'GET', path: '/approvals', summary: `Pending ${queueLabel} approvals`, query: queueQuerySchema },
+    {
+      method: 'GET',
+      path: '/approvals/:id',
+      summary: 'Approval detail with signatures',
+      params: makerCheckerRoutes.approvalIdParam,
+    },
+    {
+      method: 'POST',
+      path: '/approvals/:id/sign',
+      summary: 'Sign an approval as checker',
+      description: 'Requires a fresh MFA step-up; the maker cannot sign their own request.',
+      params: makerCheckerRoutes.approvalIdParam,
+      body: makerCheckerRoutes.signBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/approvals/:id/replay',
+      summary: 'Replay the approved action',
+      params: makerCheckerRoutes.approvalIdParam,
+      body: makerCheckerRoutes.replayBodySchema,
+    },
+  ];
+}
+
+export const INTERNAL_API_OPERATIONS: ApiOperationDoc[] = [
+  ...defineApiGroup(
+    { tag: 'Maker-checker — tenant', prefix: '/api/internal/gov', security: ['internalHeader', 'tenantBearer'] },
+    approvalQueueOperations('tenant', makerCheckerRoutes.tenantQueueQuerySchema),
+  ),
+
+  ...defineApiGroup(
+    {
+      tag: 'Maker-checker — control plane',
+      prefix: '/api/control/internal/gov',
+      security: ['internalHeader', 'adminBearer'],
+    },
+    approvalQueueOperations('control-plane', makerCheckerRoutes.adminQueueQuerySchema),
+  ),
+
+  ...defineApiGroup({ tag: 'Edge runtime', prefix: '/api/internal', security: ['resolverHmac'] }, [
+    {
+      method: 'GET',
+      path: '/resolve-domain',
+      summary: 'Resolve a Host header to its tenant',
+      description: 'Called by the Edge function. Returns 404 { status: "not_found" } for unknown hosts.',
+      query: resolveDomainRoutes.querySchema,
+      rawResponse: true,
+      responseExample: {
+        status: 'resolved',
+        tenantId: '3f2c8a4e-7b1d-4c9a-9e2f-5a6b7c8d9e0f',
+        tenantSlug: 'acme-textiles',
+        canonicalHost: 'acme-textiles.texqtic.app',
+      },
+    },
+    {
+      method: 'POST',
+      path: '/cache-invalidate',
+      summary: 'Invalidate resolver and sitemap caches for hosts',
+      body: cacheInvalidateRoutes.bodySchema,
+      rawResponse: true,
+      responseExample: { status: 'ok', invalidated: 1 },
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'CRM provisioning', prefix: '/api/internal', security: ['provisioningHmac'] }, [
+    {
+      method: 'POST',
+      path: '/acquisition/provision-supplier',
+      summary: 'Provision a public supplier profile from the CRM',
+      description: 'Idempotent on external_orchestration_ref: 201 when created, 200 when it already exists, 202 when a publication gate fails.',
+      body: acquisitionProvisioningRoutes.payloadSchema,
+      rawResponse: true,
+      responseExample: {
+        accepted: true,
+        idempotent: false,
+        status: 'provisioned',
+        slug: 'acme-textiles',
+        publicUrl: 'https://app.texqtic.com/supplier/acme-textiles',
+        platformRequestId: '3f2c8a4e-7b1d-4c9a-9e2f-5a6b7c8d9e0f',
+        reasonCode: null,
+      },
+    },
+  ]),
+];
@@ -0,0 +1,218 @@
+/**
+ * Public realm operations — API-DOCS-OPENAPI-001
+ *
+ * Unauthenticated routes: liveness, storefront projections (routes/public.ts),
+ * crawler files (routes/publicSeo.ts) and the authentication entry points
+ * (routes/auth.ts, auth-mfa.ts, auth-sso.ts).
+ */
+
+import { z } from 'zod';
+import { defineApiGroup } from '../defineApiGroup.js';
+import type { ApiOperationDoc } from '../types.js';
+import * as publicRoutes from '../../routes/public.js';
+import * as publicSeoRoutes from '../../routes/publicSeo.js';
+import * as authRoutes from '../../routes/auth.js';
+import * as authMfaRoutes from '../../routes/auth-mfa.js';
+import * as authSsoRoutes from '../../routes/auth-sso.js';
+import { mfaProofSchema } from '../../lib/mfaContracts.js';
+
+const mfaTokenBodySchema = z.object({ mfaToken: authMfaRoutes.mfaTokenSchema });
+
+export const PUBLIC_API_OPERATIONS: ApiOperationDoc[] = [
+  ...defineApiGroup({ tag: 'System', prefix: '', security: [] }, [
+    {
+      method: 'GET',
+      path: '/health',
+      summary: 'Liveness probe',
+      rawResponse: true,
+      responseExample: { status: 'ok', timestamp: '2026-01-15T09:30:00.000Z' },
+    },
+    {
+      method: 'GET',
+      path: '/',
+      summary: 'API name, version and status',
+      rawResponse: true,
+      responseExample: { name: 'TexQtic API', version: '0.1.0', status: 'running' },
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Storefront', prefix: '/api/public', security: [] }, [
+    {
+      method: 'GET',
+      path: '/entry/resolve',
+      summary: 'Resolve a tenant slug to its public entry surface',
+      query: publicRoutes.publicEntryQuerySchema,
+    },
+    {
+      method: 'GET',
+      path: '/tenants/resolve',
+      summary: 'Resolve a tenant slug for the sign-in tenant picker',
+      query: publicRoutes.publicEntryQuerySchema,
+    },
+    {
+      method: 'GET',
+      path: '/tenants/by-email',
+      summary: 'List the tenants an email address can sign in to',
+      description: 'Only tenant slugs and ids are returned; the response is identical for unknown emails.',
+    },
+    {
+      method: 'GET',
+      path: '/b2b/suppliers',
+      summary: 'Public B2B supplier discovery',
+      description: 'Catalog search filters narrow suppliers to those with a matching public item.',
+    },
+    { method: 'GET', path: '/b2c/products', summary: 'Public B2C storefront browse' },
+    { method: 'GET', path: '/b2c/products/:slug', summary: 'Public B2C product detail' },
+    {
+      method: 'GET',
+      path: '/supplier/:slug',
+      summary: 'Public supplier profile',
+      description: 'Optional ?source= (qr | referral | event | direct) attributes the profile view.',
+    },
+    { method: 'GET', path: '/dpp/:publicPassportId', summary: 'Published Digital Product Passport' },
+    {
+      method: 'GET',
+      path: '/dpp/:publicPassportId/structured-data',
+      summary: 'Published passport as schema.org JSON-LD',
+    },
+    {
+      method: 'GET',
+      path: '/dpp/dl/01/:gtin/21/:serial',
+      summary: 'GS1 Digital Link resolver for a published passport',
+    },
+    { method: 'POST', path: '/inquiry/submit', summary: 'Submit a buyer inquiry to a public supplier' },
+    { method: 'POST', path: '/register', summary: 'Direct supplier / buyer registration' },
+    { method: 'POST', path: '/tier0/request-access', summary: 'Request Tier-0 platform access' },
+  ]),
+
+  ...defineApiGroup({ tag: 'API reference', prefix: '/api/public', security: [] }, [
+    {
+      method: 'GET',
+      path: '/openapi.json',
+      summary: 'OpenAPI 3.1 document of the public realm',
+      rawResponse: true,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Crawler files', prefix: '', security: [] }, [
+    { method: 'GET', path: '/robots.txt', summary: 'Per-host robots policy', responseContentType: 'text/plain' },
+    {
+      method: 'GET',
+      path: '/sitemap.xml',
+      summary: 'Sitemap index for the requesting host',
+      responseContentType: 'application/xml',
+    },
+    {
+      method: 'GET',
+      path: '/sitemaps/:file',
+      summary: 'One sitemap urlset (pages, suppliers, products, passports)',
+      params: publicSeoRoutes.sitemapFileParamsSchema,
+      responseContentType: 'application/xml',
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Authentication', prefix: '/api/auth', security: [] }, [
+    {
+      method: 'POST',
+      path: '/login',
+      summary: 'Unified login (tenant when tenantId is sent, otherwise admin)',
+      body: authRoutes.loginBodySchema,
+      responseExample: {
+        token: '<jwt>',
+        user: { id: '3f2c8a4e-7b1d-4c9a-9e2f-5a6b7c8d9e0f', email: 'buyer@example.com', role: 'OWNER' },
+      },
+    },
+    { method: 'POST', path: '/admin/login', summary: 'Control-plane login', body: authRoutes.adminLoginBodySchema },
+    { method: 'POST', path: '/tenant/login', summary: 'Tenant login', body: authRoutes.tenantLoginBodySchema },
+    {
+      method: 'POST',
+      path: '/forgot-password',
+      summary: 'Send a password reset email',
+      description: 'Always succeeds to prevent user enumeration.',
+      body: authRoutes.forgotPasswordBodySchema,
+    },
+    { method: 'POST', path: '/reset-password', summary: 'Reset a password with a reset token', body: authRoutes.resetPasswordBodySchema },
+    { method: 'POST', path: '/verify-email', summary: 'Confirm an email address', body: authRoutes.verifyEmailBodySchema },
+    {
+      method: 'POST',
+      path: '/resend-verification',
+      summary: 'Resend the email verification link',
+      body: authRoutes.resendVerificationBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/refresh',
+      summary: 'Rotate the refresh cookie and issue a new access token',
+      description: 'Reads the realm refresh cookie (texqtic_rt_tenant or texqtic_rt_admin).',
+    },
+    { method: 'POST', path: '/logout', summary: 'Revoke the refresh token and clear the cookie' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Authentication — MFA', prefix: '/api/auth/mfa', security: [] }, [
+    {
+      method: 'POST',
+      path: '/webauthn/options',
+      summary: 'WebAuthn assertion options for a pending MFA login',
+      body: mfaTokenBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/verify',
+      summary: 'Complete a login that returned mfaRequired',
+      body: mfaTokenBodySchema.and(mfaProofSchema),
+    },
+    {
+      method: 'POST',
+      path: '/enroll/totp',
+      summary: 'Start TOTP enrolment during a login that requires MFA',
+      body: mfaTokenBodySchema,
+    },
+    { method: 'POST', path: '/enroll/totp/confirm', summary: 'Confirm TOTP enrolment and finish the login' },
+    {
+      method: 'POST',
+      path: '/enroll/webauthn/options',
+      summary: 'WebAuthn registration options during a login that requires MFA',
+      body: mfaTokenBodySchema,
+    },
+    { method: 'POST', path: '/enroll/webauthn/verify', summary: 'Register a passkey and finish the login' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Authentication — SSO', prefix: '/api/auth/sso', security: [] }, [
+    { method: 'GET', path: '/discover', summary: 'SSO connections available for an email domain' },
+    {
+      method: 'GET',
+      path: '/:connectionId/start',
+      summary: 'Redirect to the identity provider',
+      params: authSsoRoutes.connectionParamsSchema,
+      query: authSsoRoutes.startQuerySchema,
+      successStatus: 302,
+    },
+    {
+      method: 'GET',
+      path: '/oidc/callback',
+      summary: 'OIDC authorization-code callback',
+      query: authSsoRoutes.oidcCallbackQuerySchema,
+      successStatus: 302,
+    },
+    {
+      method: 'POST',
+      path: '/saml/acs',
+      summary: 'SAML assertion consumer service',
+      body: authSsoRoutes.samlAcsBodySchema,
+      bodyContentType: 'application/x-www-form-urlencoded',
+      successStatus: 302,
+    },
+    {
+      method: 'GET',
+      path: '/:connectionId/saml/metadata',
+      summary: 'SAML service-provider metadata',
+      params: authSsoRoutes.connectionParamsSchema,
+      responseContentType: 'application/samlmetadata+xml',
+    },
+    {
+      method: 'POST',
+      path: '/complete',
+      summary: 'Redeem the one-time SSO code for a tenant session',
+    },
+  ]),
+];
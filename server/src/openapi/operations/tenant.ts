@@ -0,0 +1,1022 @@
+/**
+ * Tenant realm operations — API-DOCS-OPENAPI-001
+ *
+ * Routes behind tenantAuthMiddleware: the core commerce routes in
+ * routes/tenant.ts, the routes/tenant/* plugins it registers, tenant MFA /
+ * sessions / SSO settings and the /api/ai routes.
+ */
+
+import { defineApiGroup } from '../defineApiGroup.js';
+import type { ApiOperationDoc, ApiSecurityScheme } from '../types.js';
+import * as tenantRoutes from '../../routes/tenant.js';
+import * as aiRoutes from '../../routes/ai.js';
+import * as sessionRoutes from '../../routes/sessions.js';
+import * as analyticsRoutes from '../../routes/tenant/analytics.js';
+import * as auditLogRoutes from '../../routes/tenant/auditLogs.js';
+import * as catalogImportRoutes from '../../routes/tenant/catalogImport.js';
+import * as catalogVariantRoutes from '../../routes/tenant/catalogVariants.js';
+import * as certificationRoutes from '../../routes/tenant/certifications.g019.js';
+import * as documentRoutes from '../../routes/tenant/documents.js';
+import * as dppPassportFormatRoutes from '../../routes/tenant/dppPassportFormats.js';
+import * as escalationRoutes from '../../routes/tenant/escalation.g022.js';
+import * as eventStreamRoutes from '../../routes/tenant/eventStream.js';
+import * as escrowRoutes from '../../routes/tenant/escrow.g018.js';
+import * as gstVerificationRoutes from '../../routes/tenant/gst-verification.js';
+import * as inventoryRoutes from '../../routes/tenant/inventory.js';
+import * as invoiceApprovalRoutes from '../../routes/tenant/invoice-approval.js';
+import * as invoiceRoutes from '../../routes/tenant/invoices.js';
+import * as networkInvoiceRoutes from '../../routes/tenant/networkInvoices.js';
+import * as networkLifecycleRoutes from '../../routes/tenant/networkLifecycle.js';
+import * as networkSettlementRoutes from '../../routes/tenant/networkSettlement.js';
+import * as poolDemandLineRoutes from '../../routes/tenant/poolDemandLines.js';
+import * as poolRfqRoutes from '../../routes/tenant/poolRfq.js';
+import * as supplierInviteRoutes from '../../routes/tenant/poolRfqSupplierInvites.js';
+import * as supplierQuoteRoutes from '../../routes/tenant/poolRfqSupplierQuotes.js';
+import * as poolRoutes from '../../routes/tenant/pools.js';
+import * as settlementRoutes from '../../routes/tenant/settlement.js';
+import * as shipmentRoutes from '../../routes/tenant/shipments.js';
+import * as traceabilityRoutes from '../../routes/tenant/traceability.g016.js';
+import * as tradeRoutes from '../../routes/tenant/trades.g017.js';
+import * as ttpEnrollmentRoutes from '../../routes/tenant/ttp-enrollment.js';
+import * as ttpSummaryRoutes from '../../routes/tenant/ttp-summary.js';
+import * as webhookRoutes from '../../routes/tenant/webhooks.js';
+import { catalogItemCreateSchema } from '../../services/catalogItemValidation.js';
+import {
+  catalogVariantCreateSchema,
+  catalogVariantUpdateSchema,
+} from '../../services/catalogVariant.service.js';
+import { mfaProofSchema } from '../../lib/mfaContracts.js';
+import {
+  oidcConnectionSchema,
+  samlConnectionSchema,
+  ssoProtocolParamsSchema,
+} from '../../lib/ssoContracts.js';
+
+const security: ApiSecurityScheme[] = ['tenantBearer'];
+
+export const TENANT_API_OPERATIONS: ApiOperationDoc[] = [
+  ...defineApiGroup({ tag: 'Session', prefix: '/api', security }, [
+    {
+      method: 'GET',
+      path: '/me',
+      summary: 'Current user, tenant and membership role',
+      responseExample: {
+        user: { id: '3f2c8a4e-7b1d-4c9a-9e2f-5a6b7c8d9e0f', email: 'buyer@example.com' },
+        tenant: { id: '3f2c8a4e-7b1d-4c9a-9e2f-5a6b7c8d9e0f', slug: 'acme-textiles' },
+        role: 'OWNER',
+      },
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Tenant workspace', prefix: '/api/tenant', security }, [
+    { method: 'GET', path: '/audit-logs', summary: 'Audit log of the current tenant' },
+    { method: 'GET', path: '/memberships', summary: 'Members and pending invites' },
+    { method: 'POST', path: '/memberships', summary: 'Invite a member' },
+    { method: 'PATCH', path: '/memberships/:id', summary: 'Change a member role' },
+    { method: 'PATCH', path: '/memberships/invites/:id', summary: 'Change the role of a pending invite' },
+    { method: 'DELETE', path: '/memberships/invites/:id', summary: 'Revoke a pending invite' },
+    { method: 'POST', path: '/memberships/invites/:id/resend', summary: 'Resend an invite email' },
+    {
+      method: 'POST',
+      path: '/activate',
+      summary: 'Accept an invite and create the user account',
+      description: 'Unauthenticated: the invite token in the body is the credential.',
+      security: [],
+    },
+    {
+      method: 'POST',
+      path: '/activate-authenticated',
+      summary: 'Accept an invite as an already signed-in user',
+      description: 'The invite email must match the authenticated user; no existing membership is required.',
+    },
+    { method: 'PUT', path: '/branding', summary: 'Update tenant branding' },
+    { method: 'GET', path: '/profile', summary: 'Supplier / buyer organisation profile' },
+    { method: 'PUT', path: '/profile', summary: 'Update the organisation profile' },
+    {
+      method: 'POST',
+      path: '/profile/logo/upload',
+      summary: 'Upload the organisation logo',
+      bodyContentType: 'multipart/form-data',
+    },
+    {
+      method: 'POST',
+      path: '/supplier-profile/ai-completeness',
+      summary: 'AI review of supplier profile completeness',
+    },
+    { method: 'GET', path: '/domains', summary: 'Custom domains of the tenant' },
+    { method: 'POST', path: '/domains', summary: 'Add a custom domain' },
+    { method: 'DELETE', path: '/domains/:id', summary: 'Remove a custom domain' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Catalog', prefix: '/api/tenant', security }, [
+    {
+      method: 'GET',
+      path: '/catalog/items',
+      summary: 'Search and browse catalog items',
+      description: 'Faceted search: composition and certification filters with ranked full-text matching.',
+      query: tenantRoutes.catalogItemListQuerySchema,
+    },
+    { method: 'POST', path: '/catalog/items', summary: 'Create a catalog item', body: catalogItemCreateSchema },
+    { method: 'PATCH', path: '/catalog/items/:id', summary: 'Update a catalog item' },
+    { method: 'DELETE', path: '/catalog/items/:id', summary: 'Delete a catalog item' },
+    { method: 'GET', path: '/catalog/items/:itemId', summary: 'Catalog item detail with variants' },
+    {
+      method: 'POST',
+      path: '/catalog/items/:itemId/rfq-prefill',
+      summary: 'Prefill an RFQ draft from a catalog item',
+    },
+    { method: 'GET', path: '/catalog/items/:itemId/recommendations', summary: 'Related catalog items' },
+    {
+      method: 'GET',
+      path: '/catalog/supplier/:supplierOrgId/items',
+      summary: 'Catalog items of one supplier visible to the buyer',
+    },
+    {
+      method: 'POST',
+      path: '/catalog/images/upload',
+      summary: 'Upload a catalog item image',
+      bodyContentType: 'multipart/form-data',
+    },
+    { method: 'GET', path: '/b2b/eligible-suppliers', summary: 'Suppliers the buyer may trade with' },
+    { method: 'GET', path: '/aggregator/discovery', summary: 'Aggregator discovery of supplier catalogs' },
+    { method: 'GET', path: '/inquiries/supplier-inbox', summary: 'Buyer inquiries received by the supplier' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Catalog — variants', prefix: '/api/tenant/catalog/items', security }, [
+    {
+      method: 'GET',
+      path: '/:itemId/variants',
+      summary: 'Variants of a catalog item',
+      params: catalogVariantRoutes.itemParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:itemId/variants',
+      summary: 'Add a variant',
+      params: catalogVariantRoutes.itemParamSchema,
+      body: catalogVariantCreateSchema,
+    },
+    {
+      method: 'PATCH',
+      path: '/:itemId/variants/:variantId',
+      summary: 'Update a variant',
+      params: catalogVariantRoutes.variantParamSchema,
+      body: catalogVariantUpdateSchema,
+    },
+    {
+      method: 'DELETE',
+      path: '/:itemId/variants/:variantId',
+      summary: 'Delete a variant',
+      params: catalogVariantRoutes.variantParamSchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Catalog — import / export', prefix: '/api/tenant/catalog', security }, [
+    {
+      method: 'POST',
+      path: '/imports',
+      summary: 'Upload a CSV / XLSX file and run the dry-run validation',
+      bodyContentType: 'multipart/form-data',
+    },
+    {
+      method: 'GET',
+      path: '/imports/:id',
+      summary: 'Import job with its validation preview',
+      params: catalogImportRoutes.idParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/imports/:id/mapping',
+      summary: 'Remap columns and re-validate',
+      params: catalogImportRoutes.idParamSchema,
+      body: catalogImportRoutes.remapBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/imports/:id/apply',
+      summary: 'Apply a validated import (upsert by SKU)',
+      params: catalogImportRoutes.idParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/export',
+      summary: 'Export the catalog',
+      query: catalogImportRoutes.exportQuerySchema,
+      responseContentType: 'application/octet-stream',
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Cart & checkout', prefix: '/api/tenant', security }, [
+    { method: 'GET', path: '/cart', summary: 'Active cart with lines' },
+    { method: 'POST', path: '/cart', summary: 'Get or create the active cart' },
+    { method: 'POST', path: '/cart/items', summary: 'Add a cart line', body: tenantRoutes.cartItemAddBodySchema },
+    {
+      method: 'PATCH',
+      path: '/cart/items/:id',
+      summary: 'Change a cart line quantity (0 removes it)',
+      body: tenantRoutes.cartItemUpdateBodySchema,
+    },
+    { method: 'POST', path: '/checkout', summary: 'Convert the active cart into an order' },
+  ]),
+
+  ...defineApiGroup({ tag: 'RFQs', prefix: '/api/tenant/rfqs', security }, [
+    {
+      method: 'GET',
+      path: '/',
+      summary: 'RFQs sent by the buyer',
+      query: tenantRoutes.rfqListQuerySchema,
+    },
+    { method: 'POST', path: '/', summary: 'Send an RFQ to a supplier', body: tenantRoutes.rfqCreateBodySchema },
+    { method: 'GET', path: '/:id', summary: 'Buyer RFQ detail with the quote thread' },
+    {
+      method: 'POST',
+      path: '/:id/quotes',
+      summary: 'Buyer counter-offer on a quote thread',
+    },
+    { method: 'POST', path: '/:id/quotes/:quoteId/accept', summary: 'Accept the latest supplier quote' },
+    { method: 'POST', path: '/:id/ai-assist', summary: 'AI assistance for an RFQ' },
+    {
+      method: 'GET',
+      path: '/inbox',
+      summary: 'RFQs received by the supplier',
+      query: tenantRoutes.rfqListQuerySchema,
+    },
+    { method: 'GET', path: '/inbox/:id', summary: 'Supplier RFQ detail with the quote thread' },
+    { method: 'POST', path: '/inbox/:id/respond', summary: 'Supplier response to an RFQ' },
+    { method: 'POST', path: '/inbox/:id/quotes', summary: 'Supplier quote revision on a quote thread' },
+    { method: 'POST', path: '/drafts/from-catalog-item', summary: 'Create an RFQ draft from a catalog item' },
+    { method: 'POST', path: '/drafts/multi-item', summary: 'Create a multi-item RFQ draft' },
+    { method: 'POST', path: '/drafts/multi-item/submit', summary: 'Submit a multi-item RFQ draft' },
+    { method: 'POST', path: '/drafts/:id/submit', summary: 'Submit an RFQ draft' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Orders', prefix: '/api/tenant/orders', security }, [
+    { method: 'GET', path: '/', summary: 'Orders of the tenant', query: tenantRoutes.orderListQuerySchema },
+    { method: 'GET', path: '/:id', summary: 'Order detail' },
+    {
+      method: 'PATCH',
+      path: '/:id/status',
+      summary: 'Transition an order status',
+      body: tenantRoutes.orderStatusUpdateBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Digital Product Passports', prefix: '/api/tenant/dpp', security }, [
+    { method: 'GET', path: '/passports', summary: 'Passports of the tenant' },
+    { method: 'GET', path: '/passport-label-config', summary: 'Passport label configuration' },
+    { method: 'PUT', path: '/passport-label-config', summary: 'Update the passport label configuration' },
+    { method: 'GET', path: '/:nodeId', summary: 'Traceability node snapshot for its passport' },
+    { method: 'GET', path: '/:nodeId/passport', summary: 'Passport of a traceability node' },
+    { method: 'PATCH', path: '/:nodeId/passport/status', summary: 'Transition a passport status' },
+    { method: 'POST', path: '/:nodeId/passport/assistant', summary: 'AI passport assistant' },
+    { method: 'GET', path: '/:nodeId/passport/export', summary: 'Export a passport' },
+    { method: 'POST', path: '/:nodeId/certifications', summary: 'Link a certification to a node' },
+    { method: 'GET', path: '/:nodeId/evidence-claims', summary: 'Evidence claims of a node' },
+    { method: 'POST', path: '/:nodeId/evidence-claims', summary: 'Add an evidence claim' },
+    { method: 'GET', path: '/:nodeId/evidence-items', summary: 'Evidence items of a node' },
+    { method: 'POST', path: '/:nodeId/evidence-items', summary: 'Add an evidence item' },
+    { method: 'PUT', path: '/:nodeId/product-details', summary: 'Update passport product details' },
+    { method: 'GET', path: '/:nodeId/trade-links', summary: 'Trades linked to a node' },
+    { method: 'POST', path: '/:nodeId/trade-links', summary: 'Link a trade to a node' },
+    {
+      method: 'GET',
+      path: '/:nodeId/passport/jsonld',
+      summary: 'Passport as JSON-LD',
+      params: dppPassportFormatRoutes.nodeParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/:nodeId/passport/digital-link',
+      summary: 'GS1 Digital Link of the passport',
+      params: dppPassportFormatRoutes.nodeParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/:nodeId/passport/label',
+      summary: 'Printable passport label',
+      params: dppPassportFormatRoutes.nodeParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/:nodeId/passport/espr-report',
+      summary: 'ESPR conformity report',
+      params: dppPassportFormatRoutes.nodeParamSchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Escalations', prefix: '/api/tenant/escalations', security }, [
+    { method: 'GET', path: '/', summary: 'Escalations of the tenant', query: escalationRoutes.tenantListQuerySchema },
+    { method: 'POST', path: '/', summary: 'Open an escalation', body: escalationRoutes.tenantCreateBodySchema },
+    {
+      method: 'POST',
+      path: '/:id/resolve',
+      summary: 'Resolve an escalation',
+      params: escalationRoutes.escalationIdParamSchema,
+      body: escalationRoutes.tenantResolveBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Trades', prefix: '/api/tenant/trades', security }, [
+    { method: 'GET', path: '/', summary: 'Trades of the tenant', query: tradeRoutes.listQuerySchema },
+    { method: 'POST', path: '/', summary: 'Create a trade', body: tradeRoutes.createTradeBodySchema },
+    {
+      method: 'POST',
+      path: '/from-rfq',
+      summary: 'Create a trade from an accepted RFQ quote',
+      body: tradeRoutes.createTradeFromRfqBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:id/escrow',
+      summary: 'Open an escrow for a trade',
+      params: tradeRoutes.tradeIdParamSchema,
+      body: tradeRoutes.createTradeEscrowBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:id/transition',
+      summary: 'Transition a trade',
+      params: tradeRoutes.tradeIdParamSchema,
+      body: tradeRoutes.transitionTradeBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Trade Trust Pay', prefix: '/api/tenant', security }, [
+    {
+      method: 'GET',
+      path: '/trades/:tradeId/invoice-approval',
+      summary: 'Buyer invoice approval state of a trade',
+      params: invoiceApprovalRoutes.tradeIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/invoices/:invoiceId/buyer-action',
+      summary: 'Buyer approval or dispute of an invoice',
+      params: invoiceApprovalRoutes.invoiceIdParamSchema,
+      body: invoiceApprovalRoutes.buyerActionBodySchema,
+    },
+    {
+      method: 'GET',
+      path: '/trades/:tradeId/ttp-summary',
+      summary: 'Trade Trust Pay summary of a trade',
+      params: ttpSummaryRoutes.tradeIdParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/trades/:tradeId/ttp-enrollment',
+      summary: 'Trade Trust Pay enrollment of a trade',
+      params: ttpEnrollmentRoutes.tradeIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/trades/:tradeId/ttp-enrollment',
+      summary: 'Request Trade Trust Pay enrollment',
+      params: ttpEnrollmentRoutes.tradeIdParamSchema,
+      body: ttpEnrollmentRoutes.requestEnrollmentBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Escrows', prefix: '/api/tenant/escrows', security }, [
+    { method: 'GET', path: '/', summary: 'Escrows of the tenant', query: escrowRoutes.listQuerySchema },
+    { method: 'POST', path: '/', summary: 'Create an escrow', body: escrowRoutes.createEscrowBodySchema },
+    {
+      method: 'GET',
+      path: '/:escrowId',
+      summary: 'Escrow detail with its balance',
+      params: escrowRoutes.escrowIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:escrowId/transactions',
+      summary: 'Record an escrow transaction',
+      params: escrowRoutes.escrowIdParamSchema,
+      body: escrowRoutes.recordTransactionBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:escrowId/transition',
+      summary: 'Transition an escrow',
+      params: escrowRoutes.escrowIdParamSchema,
+      body: escrowRoutes.transitionEscrowBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Settlements', prefix: '/api/tenant/settlements', security }, [
+    {
+      method: 'POST',
+      path: '/preview',
+      summary: 'Preview a settlement',
+      body: settlementRoutes.previewBodySchema,
+    },
+    { method: 'POST', path: '/', summary: 'Settle a trade', body: settlementRoutes.settleBodySchema },
+  ]),
+
+  ...defineApiGroup({ tag: 'Invoices', prefix: '/api/tenant/invoices', security }, [
+    { method: 'GET', path: '/', summary: 'Invoices of the tenant', query: invoiceRoutes.listQuerySchema },
+    { method: 'POST', path: '/', summary: 'Create an invoice', body: invoiceRoutes.createBodySchema },
+    {
+      method: 'GET',
+      path: '/:invoiceId',
+      summary: 'Invoice detail',
+      params: invoiceRoutes.invoiceIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:invoiceId/transition',
+      summary: 'Transition an invoice',
+      params: invoiceRoutes.invoiceIdParamSchema,
+      body: invoiceRoutes.transitionBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Certifications', prefix: '/api/tenant/certifications', security }, [
+    { method: 'GET', path: '/', summary: 'Certifications of the tenant', query: certificationRoutes.listQuerySchema },
+    { method: 'POST', path: '/', summary: 'Add a certification', body: certificationRoutes.createCertBodySchema },
+    {
+      method: 'GET',
+      path: '/:id',
+      summary: 'Certification detail',
+      params: certificationRoutes.certIdParamSchema,
+    },
+    {
+      method: 'PATCH',
+      path: '/:id',
+      summary: 'Update a certification',
+      params: certificationRoutes.certIdParamSchema,
+      body: certificationRoutes.updateCertBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:id/document/upload',
+      summary: 'Upload the certificate document',
+      params: certificationRoutes.certIdParamSchema,
+      bodyContentType: 'multipart/form-data',
+    },
+    {
+      method: 'GET',
+      path: '/:id/document',
+      summary: 'Signed URL of the certificate document',
+      params: certificationRoutes.certIdParamSchema,
+    },
+    {
+      method: 'DELETE',
+      path: '/:id/document',
+      summary: 'Remove the certificate document',
+      params: certificationRoutes.certIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:id/transition',
+      summary: 'Transition a certification',
+      params: certificationRoutes.certIdParamSchema,
+      body: certificationRoutes.transitionCertBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Documents', prefix: '/api/tenant/documents', security }, [
+    {
+      method: 'POST',
+      path: '/:documentId/classify',
+      summary: 'AI classification of an uploaded document',
+      params: documentRoutes.documentIdParamSchema,
+      body: documentRoutes.classifyBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:documentId/extract',
+      summary: 'AI field extraction from a document',
+      params: documentRoutes.documentIdParamSchema,
+      body: documentRoutes.extractBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:documentId/extraction/review',
+      summary: 'Human review of extracted fields',
+      params: documentRoutes.documentIdParamSchema,
+      body: documentRoutes.reviewBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Traceability', prefix: '/api/tenant/traceability', security }, [
+    { method: 'GET', path: '/nodes', summary: 'Traceability nodes', query: traceabilityRoutes.listNodesQuerySchema },
+    { method: 'POST', path: '/nodes', summary: 'Create a node', body: traceabilityRoutes.createNodeBodySchema },
+    {
+      method: 'GET',
+      path: '/nodes/:id/neighbors',
+      summary: 'Direct upstream and downstream nodes',
+      params: traceabilityRoutes.nodeIdParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/nodes/:id/lineage',
+      summary: 'Lineage graph of a node',
+      params: traceabilityRoutes.nodeIdParamSchema,
+      query: traceabilityRoutes.lineageQuerySchema,
+    },
+    {
+      method: 'GET',
+      path: '/nodes/:id/mass-balance',
+      summary: 'Mass balance of a node',
+      params: traceabilityRoutes.nodeIdParamSchema,
+      query: traceabilityRoutes.massBalanceQuerySchema,
+    },
+    { method: 'GET', path: '/edges', summary: 'Traceability edges', query: traceabilityRoutes.listEdgesQuerySchema },
+    { method: 'POST', path: '/edges', summary: 'Create an edge', body: traceabilityRoutes.createEdgeBodySchema },
+  ]),
+
+  ...defineApiGroup({ tag: 'Inventory', prefix: '/api/tenant/inventory', security }, [
+    {
+      method: 'GET',
+      path: '/locations',
+      summary: 'Stock locations',
+      query: inventoryRoutes.listLocationsQuerySchema,
+    },
+    {
+      method: 'POST',
+      path: '/locations',
+      summary: 'Create a stock location',
+      body: inventoryRoutes.createLocationBodySchema,
+    },
+    {
+      method: 'PATCH',
+      path: '/locations/:id',
+      summary: 'Update a stock location',
+      params: inventoryRoutes.idParamSchema,
+      body: inventoryRoutes.updateLocationBodySchema,
+    },
+    {
+      method: 'GET',
+      path: '/items/:catalogItemId',
+      summary: 'Stock of a catalog item by location and lot',
+      params: inventoryRoutes.catalogItemParamSchema,
+    },
+    {
+      method: 'PATCH',
+      path: '/items/:catalogItemId',
+      summary: 'Update stock settings of a catalog item',
+      params: inventoryRoutes.catalogItemParamSchema,
+      body: inventoryRoutes.updateItemSettingsBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/lots/receive',
+      summary: 'Receive a stock lot',
+      body: inventoryRoutes.receiveStockBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/lots/:id/adjust',
+      summary: 'Adjust a stock lot',
+      params: inventoryRoutes.idParamSchema,
+      body: inventoryRoutes.adjustStockBodySchema,
+    },
+    { method: 'GET', path: '/low-stock', summary: 'Items below their reorder point' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Shipments', prefix: '/api/tenant/shipments', security }, [
+    { method: 'GET', path: '/', summary: 'Shipments of the tenant', query: shipmentRoutes.listShipmentsQuerySchema },
+    { method: 'POST', path: '/', summary: 'Create a shipment', body: shipmentRoutes.createShipmentBodySchema },
+    { method: 'GET', path: '/:id', summary: 'Shipment detail', params: shipmentRoutes.idParamSchema },
+    {
+      method: 'POST',
+      path: '/:id/dispatch',
+      summary: 'Dispatch a shipment',
+      params: shipmentRoutes.idParamSchema,
+      body: shipmentRoutes.dispatchBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:id/deliver',
+      summary: 'Confirm delivery',
+      params: shipmentRoutes.idParamSchema,
+      body: shipmentRoutes.deliverBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:id/cancel',
+      summary: 'Cancel a shipment',
+      params: shipmentRoutes.idParamSchema,
+      body: shipmentRoutes.cancelBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:id/documents',
+      summary: 'Upload a shipping document',
+      params: shipmentRoutes.idParamSchema,
+      query: shipmentRoutes.uploadDocumentQuerySchema,
+      bodyContentType: 'multipart/form-data',
+    },
+    {
+      method: 'GET',
+      path: '/:id/documents/:documentId',
+      summary: 'Signed URL of a shipping document',
+      params: shipmentRoutes.documentParamSchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'GST verification', prefix: '/api/tenant/gst-verification', security }, [
+    { method: 'GET', path: '/', summary: 'GST verification status of the tenant' },
+    {
+      method: 'POST',
+      path: '/',
+      summary: 'Submit a GSTIN for verification',
+      body: gstVerificationRoutes.submitBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Network commerce — pools', prefix: '/api/tenant/network-commerce/pools', security }, [
+    { method: 'GET', path: '/', summary: 'Demand pools', query: poolRoutes.listPoolsQuerySchema },
+    { method: 'POST', path: '/', summary: 'Create a demand pool', body: poolRoutes.createPoolBodySchema },
+    {
+      method: 'GET',
+      path: '/joined',
+      summary: 'Pools the tenant has joined',
+      query: poolRoutes.listPoolsQuerySchema,
+    },
+    { method: 'GET', path: '/:poolId', summary: 'Pool detail', params: poolRoutes.poolIdParamSchema },
+    {
+      method: 'GET',
+      path: '/:poolId/membership',
+      summary: 'Membership of the tenant in a pool',
+      params: poolRoutes.poolIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/open',
+      summary: 'Open a pool for members',
+      params: poolRoutes.poolIdParamSchema,
+      body: poolRoutes.openPoolBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/join',
+      summary: 'Join a pool',
+      params: poolRoutes.poolIdParamSchema,
+      body: poolRoutes.joinPoolBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/order',
+      summary: 'Place the pooled order',
+      params: poolRoutes.poolIdParamSchema,
+      body: poolRoutes.orderPoolBodySchema,
+    },
+    {
+      method: 'GET',
+      path: '/:poolId/demand-lines',
+      summary: 'Demand lines of a pool',
+      params: poolDemandLineRoutes.poolParamSchema,
+      query: poolDemandLineRoutes.listDemandLinesQuerySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/demand-lines',
+      summary: 'Add a demand line',
+      params: poolDemandLineRoutes.poolParamSchema,
+      body: poolDemandLineRoutes.createDemandLineBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/demand-lines/lock-for-rfq',
+      summary: 'Lock demand lines for an RFQ',
+      params: poolDemandLineRoutes.poolParamSchema,
+      body: poolDemandLineRoutes.lockDemandLinesBodySchema,
+    },
+    {
+      method: 'PATCH',
+      path: '/:poolId/demand-lines/:lineId',
+      summary: 'Update a demand line',
+      params: poolDemandLineRoutes.poolAndLineParamSchema,
+      body: poolDemandLineRoutes.updateDemandLineBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/demand-lines/:lineId/cancel',
+      summary: 'Cancel a demand line',
+      params: poolDemandLineRoutes.poolAndLineParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/:poolId/invoices',
+      summary: 'Invoices of a pool',
+      params: networkInvoiceRoutes.poolIdParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/:poolId/invoices/:invoiceId',
+      summary: 'Pool invoice detail',
+      params: networkInvoiceRoutes.poolAndInvoiceParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/:poolId/settlement',
+      summary: 'Settlement of a pool',
+      params: networkSettlementRoutes.poolIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/settlement/preview',
+      summary: 'Preview the pool settlement',
+      params: networkSettlementRoutes.poolIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/settlement/compute',
+      summary: 'Compute the pool settlement',
+      params: networkSettlementRoutes.poolIdParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/:poolId/lifecycle',
+      summary: 'Lifecycle timeline of a pool',
+      params: networkLifecycleRoutes.poolIdParamSchema,
+      query: networkLifecycleRoutes.lifecycleQuerySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Network commerce — pool RFQs', prefix: '/api/tenant/network-commerce/pools', security }, [
+    {
+      method: 'POST',
+      path: '/:poolId/rfq/issue',
+      summary: 'Issue the pool RFQ from locked demand lines',
+      params: poolRfqRoutes.poolParamSchema,
+      body: poolRfqRoutes.issueRfqBodySchema,
+    },
+    { method: 'GET', path: '/:poolId/rfq', summary: 'RFQs of a pool', params: poolRfqRoutes.poolParamSchema },
+    { method: 'GET', path: '/:poolId/rfq/:rfqId', summary: 'Pool RFQ detail', params: poolRfqRoutes.rfqParamSchema },
+    {
+      method: 'GET',
+      path: '/:poolId/rfq/:rfqId/lines',
+      summary: 'Lines of a pool RFQ',
+      params: poolRfqRoutes.rfqParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/rfq/:rfqId/invites',
+      summary: 'Invite a supplier to quote',
+      params: poolRfqRoutes.rfqParamSchema,
+      body: poolRfqRoutes.sendInviteBodySchema,
+    },
+    {
+      method: 'GET',
+      path: '/:poolId/rfq/:rfqId/invites',
+      summary: 'Supplier invites of a pool RFQ',
+      params: poolRfqRoutes.rfqParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/:poolId/rfq/:rfqId/invites/:inviteId',
+      summary: 'Supplier invite detail',
+      params: poolRfqRoutes.inviteParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/rfq/:rfqId/invites/:inviteId/cancel',
+      summary: 'Cancel a supplier invite',
+      params: poolRfqRoutes.inviteParamSchema,
+      body: poolRfqRoutes.cancelInviteBodySchema,
+    },
+    {
+      method: 'GET',
+      path: '/:poolId/rfq/:rfqId/quotes',
+      summary: 'Supplier quotes of a pool RFQ',
+      params: poolRfqRoutes.rfqParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/rfq/:rfqId/quotes/:quoteId/accept',
+      summary: 'Accept a supplier quote',
+      params: poolRfqRoutes.rfqQuoteParamSchema,
+      body: poolRfqRoutes.acceptQuoteBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/rfq/:rfqId/quotes/:quoteId/reject',
+      summary: 'Reject a supplier quote',
+      params: poolRfqRoutes.rfqQuoteParamSchema,
+      body: poolRfqRoutes.rejectQuoteBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/rfq/:rfqId/quotes/:quoteId/award-request',
+      summary: 'Request approval to award a quote',
+      params: poolRfqRoutes.rfqQuoteParamSchema,
+      body: poolRfqRoutes.requestAwardBodySchema,
+    },
+    {
+      method: 'GET',
+      path: '/:poolId/rfq/:rfqId/award-approvals',
+      summary: 'Award approvals of a pool RFQ',
+      params: poolRfqRoutes.rfqParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/rfq/:rfqId/award-approvals/:approvalId/approve',
+      summary: 'Approve an award',
+      params: poolRfqRoutes.approvalParamSchema,
+      body: poolRfqRoutes.approveAwardBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/rfq/:rfqId/award-approvals/:approvalId/reject',
+      summary: 'Reject an award',
+      params: poolRfqRoutes.approvalParamSchema,
+      body: poolRfqRoutes.rejectAwardApprovalBodySchema,
+    },
+    {
+      method: 'GET',
+      path: '/:poolId/rfq/:rfqId/line-awards',
+      summary: 'Per-line awards of a pool RFQ',
+      params: poolRfqRoutes.rfqParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/rfq/:rfqId/line-awards',
+      summary: 'Split-award lines across suppliers',
+      params: poolRfqRoutes.rfqParamSchema,
+      body: poolRfqRoutes.awardLinesBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/:poolId/rfq/:rfqId/line-awards/award-request',
+      summary: 'Request approval of a split award',
+      params: poolRfqRoutes.rfqParamSchema,
+      body: poolRfqRoutes.requestSplitAwardBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Network commerce — supplier invites', prefix: '/api/tenant/network-commerce', security }, [
+    { method: 'GET', path: '/supplier-rfq-invites', summary: 'Pool RFQ invites received by the supplier' },
+    {
+      method: 'GET',
+      path: '/supplier-rfq-invites/:inviteId',
+      summary: 'Received invite detail',
+      params: supplierInviteRoutes.inviteIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/supplier-rfq-invites/:inviteId/accept',
+      summary: 'Accept an invite to quote',
+      params: supplierInviteRoutes.inviteIdParamSchema,
+      body: supplierInviteRoutes.acceptBodySchema,
+    },
+    {
+      method: 'POST',
+      path: '/supplier-rfq-invites/:inviteId/decline',
+      summary: 'Decline an invite to quote',
+      params: supplierInviteRoutes.inviteIdParamSchema,
+      body: supplierInviteRoutes.declineBodySchema,
+    },
+    {
+      method: 'GET',
+      path: '/supplier-rfq-invites/:inviteId/rfq-lines',
+      summary: 'RFQ lines the supplier can quote',
+      params: supplierQuoteRoutes.inviteIdParamSchema,
+    },
+    {
+      method: 'GET',
+      path: '/supplier-rfq-invites/:inviteId/quote',
+      summary: 'Quote submitted for an invite',
+      params: supplierQuoteRoutes.inviteIdParamSchema,
+    },
+    {
+      method: 'POST',
+      path: '/supplier-rfq-invites/:inviteId/quote',
+      summary: 'Submit a quote',
+      params: supplierQuoteRoutes.inviteIdParamSchema,
+      body: supplierQuoteRoutes.submitQuoteBodySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Webhooks', prefix: '/api/tenant/webhooks', security }, [
+    { method: 'GET', path: '/event-types', summary: 'Subscribable event types and payload versions' },
+    { method: 'GET', path: '/', summary: 'Webhook endpoints' },
+    {
+      method: 'POST',
+      path: '/',
+      summary: 'Register an endpoint',
+      description: 'The signing secret is returned once.',
+      body: webhookRoutes.createBodySchema,
+    },
+    {
+      method: 'PATCH',
+      path: '/:id',
+      summary: 'Update an endpoint',
+      params: webhookRoutes.idParamSchema,
+      body: webhookRoutes.updateBodySchema,
+    },
+    { method: 'DELETE', path: '/:id', summary: 'Delete an endpoint', params: webhookRoutes.idParamSchema },
+    {
+      method: 'POST',
+      path: '/:id/rotate-secret',
+      summary: 'Rotate the signing secret',
+      params: webhookRoutes.idParamSchema,
+    },
+    { method: 'POST', path: '/:id/test', summary: 'Send a test event', params: webhookRoutes.idParamSchema },
+    {
+      method: 'GET',
+      path: '/deliveries',
+      summary: 'Delivery log',
+      query: webhookRoutes.deliveriesQuerySchema,
+    },
+    {
+      method: 'POST',
+      path: '/deliveries/:id/redeliver',
+      summary: 'Redeliver a delivery',
+      params: webhookRoutes.idParamSchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Audit log', prefix: '/api/tenant/audit-logs', security }, [
+    { method: 'GET', path: '/verify', summary: 'Verify the tenant audit hash chain' },
+    {
+      method: 'GET',
+      path: '/export',
+      summary: 'Signed audit log export for a date range',
+      description: 'OWNER or ADMIN. ZIP of audit-log.jsonl, checkpoints.jsonl, manifest.json and its Ed25519 signature.',
+      query: auditLogRoutes.exportQuerySchema,
+      responseContentType: 'application/zip',
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Live events', prefix: '/api/tenant/events', security }, [
+    {
+      method: 'GET',
+      path: '/stream',
+      summary: 'Live event notifications of the current tenant (SSE)',
+      description:
+        'Server-sent events: ready, event_log (id = event id), reconnect, error. ' +
+        'Resume with the Last-Event-ID header. 429 TOO_MANY_STREAMS when the connection limit is reached.',
+      query: eventStreamRoutes.tenantEventStreamQuerySchema,
+      responseContentType: 'text/event-stream',
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Analytics', prefix: '/api/tenant/analytics', security }, [
+    {
+      method: 'GET',
+      path: '/supplier-performance',
+      summary: 'Supplier performance summary of the current tenant',
+      description: 'RFQ responsiveness, pool quote win rate and on-time fulfilment over the trailing window. summary is null before the first projection.',
+    },
+    {
+      method: 'GET',
+      path: '/buyer-spend',
+      summary: 'Buyer spend by month, supplier, category and currency',
+      description: 'Defaults to the last 12 months; at most 36 months. Amounts are decimal strings, totals are per currency.',
+      query: analyticsRoutes.buyerSpendQuerySchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'Account security — MFA', prefix: '/api/tenant/mfa', security }, [
+    { method: 'GET', path: '/', summary: 'Enrolled factors and the tenant MFA policy' },
+    { method: 'POST', path: '/totp', summary: 'Start TOTP enrolment' },
+    { method: 'POST', path: '/totp/confirm', summary: 'Confirm TOTP enrolment' },
+    { method: 'POST', path: '/webauthn/register/options', summary: 'Passkey registration options' },
+    { method: 'POST', path: '/webauthn/register/verify', summary: 'Register a passkey' },
+    { method: 'POST', path: '/recovery-codes', summary: 'Regenerate recovery codes' },
+    { method: 'DELETE', path: '/factors/:factorId', summary: 'Remove a factor' },
+    { method: 'POST', path: '/step-up/webauthn/options', summary: 'Passkey options for a step-up challenge' },
+    {
+      method: 'POST',
+      path: '/step-up',
+      summary: 'Step up the session for a sensitive action',
+      body: mfaProofSchema,
+    },
+    { method: 'PUT', path: '/policy', summary: 'Set the tenant MFA policy' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Account security — sessions', prefix: '/api/tenant/sessions', security }, [
+    { method: 'GET', path: '/', summary: 'Active sessions of the user' },
+    {
+      method: 'DELETE',
+      path: '/:sessionId',
+      summary: 'Revoke a session',
+      params: sessionRoutes.sessionIdParamsSchema,
+    },
+    { method: 'POST', path: '/revoke-others', summary: 'Revoke every other session' },
+  ]),
+
+  ...defineApiGroup({ tag: 'Account security — SSO', prefix: '/api/tenant/sso', security }, [
+    { method: 'GET', path: '/', summary: 'SSO connections of the tenant' },
+    { method: 'PUT', path: '/oidc', summary: 'Configure the OIDC connection', body: oidcConnectionSchema },
+    { method: 'PUT', path: '/saml', summary: 'Configure the SAML connection', body: samlConnectionSchema },
+    {
+      method: 'DELETE',
+      path: '/:protocol',
+      summary: 'Remove an SSO connection',
+      params: ssoProtocolParamsSchema,
+    },
+  ]),
+
+  ...defineApiGroup({ tag: 'AI', prefix: '/api/ai', security }, [
+    { method: 'GET', path: '/insights', summary: 'AI market insights for the tenant' },
+    {
+      method: 'POST',
+      path: '/negotiation-advice',
+      summary: 'AI negotiation advice for an RFQ',
+      body: aiRoutes.negotiationAdviceSchema,
+    },
+    { method: 'GET', path: '/health', summary: 'AI service health' },
+  ]),
+];
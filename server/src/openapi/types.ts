@@ -0,0 +1,74 @@
+/**
+ * types.ts — API-DOCS-OPENAPI-001
+ *
+ * Operation catalogue types for the generated OpenAPI documents.
+ *
+ * Every HTTP route registered by routes/index.ts has exactly one ApiOperationDoc
+ * in server/src/openapi/operations/<realm>.ts; the contract test
+ * (__tests__/openapi.contract.test.ts) fails when a route is missing or a
+ * documented operation no longer exists.
+ */
+
+import { z, type ZodTypeAny } from 'zod';
+
+/** Documentation realms — one OpenAPI document each. */
+export const apiRealmSchema = z.enum(['public', 'tenant', 'control', 'internal']);
+
+export type ApiRealm = z.infer<typeof apiRealmSchema>;
+
+export const API_REALMS: readonly ApiRealm[] = apiRealmSchema.options;
+
+export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Security schemes (components.securitySchemes). An operation lists the schemes
+ * it requires together; an empty list means unauthenticated.
+ */
+export type ApiSecurityScheme =
+  | 'tenantBearer'
+  | 'adminBearer'
+  | 'internalHeader'
+  | 'resolverHmac'
+  | 'provisioningHmac';
+
+export interface ApiOperationDoc {
+  method: ApiMethod;
+  /** Full route path in Fastify syntax, e.g. /api/tenant/shipments/:id */
+  path: string;
+  summary: string;
+  /** Grouping shown in the reference (one tag per route module). */
+  tag: string;
+  security: ApiSecurityScheme[];
+  description?: string;
+  /** zod schemas the handler validates with. Path params default to strings when omitted. */
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+  /** Defaults to application/json. multipart/form-data bodies are documented as a file part. */
+  bodyContentType?: 'application/json' | 'application/x-www-form-urlencoded' | 'multipart/form-data';
+  /** Defaults to application/json with the { success, data } envelope. */
+  responseContentType?: string;
+  /** JSON response that is not wrapped in the { success, data } envelope. */
+  rawResponse?: boolean;
+  /** Defaults to 200. A 3xx status is documented as a redirect with a Location header. */
+  successStatus?: number;
+  /** Overrides the request example generated from `body`. */
+  requestExample?: unknown;
+  /** Example of the `data` field of a success response (the whole body when rawResponse). */
+  responseExample?: unknown;
+}
+
+/** Per-operation fields when declared inside a group. */
+export type ApiOperationInput = Omit<ApiOperationDoc, 'tag' | 'security' | 'path'> & {
+  /** Path relative to the group prefix ('/' = the prefix itself). */
+  path: string;
+  /** Overrides the group security. */
+  security?: ApiSecurityScheme[];
+};
+
+export interface ApiOperationGroup {
+  tag: string;
+  /** Registration prefix of the route module, e.g. /api/tenant/shipments */
+  prefix: string;
+  security: ApiSecurityScheme[];
+}
@@ -0,0 +1,238 @@
+/**
+ * zodToJsonSchema.ts — API-DOCS-OPENAPI-001
+ *
+ * Converts the zod (v3) schemas the routes validate with into JSON Schema
+ * 2020-12, the dialect OpenAPI 3.1 uses for schema objects.
+ *
+ * Scope: the zod constructs used by server/src/routes. Refinements and
+ * transforms (ZodEffects) document their input shape — the check itself is
+ * not expressible in JSON Schema. Constructs with no JSON Schema equivalent
+ * (functions, promises) render as an unconstrained schema `{}`.
+ */
+
+import { ZodFirstPartyTypeKind, type ZodTypeAny } from 'zod';
+
+export type JsonSchema = { [key: string]: unknown };
+
+function withDescription(schema: ZodTypeAny, json: JsonSchema): JsonSchema {
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function stringSchema(checks: Array<{ kind: string; value?: unknown; regex?: RegExp }>): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'length':
+        json.minLength = check.value;
+        json.maxLength = check.value;
+        break;
+      case 'uuid':
+        json.format = 'uuid';
+        break;
+      case 'email':
+        json.format = 'email';
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+      case 'date':
+        json.format = 'date';
+        break;
+      case 'regex':
+        if (check.regex) json.pattern = check.regex.source;
+        break;
+      default:
+        break;
+    }
+  }
+  return json;
+}
+
+function numberSchema(
+  checks: Array<{ kind: string; value?: number; inclusive?: boolean }>,
+): JsonSchema {
+  const json: JsonSchema = { type: 'number' };
+  for (const check of checks) {
+    switch (check.kind) {
+      case 'int':
+        json.type = 'integer';
+        break;
+      case 'min':
+        if (check.inclusive) json.minimum = check.value;
+        else json.exclusiveMinimum = check.value;
+        break;
+      case 'max':
+        if (check.inclusive) json.maximum = check.value;
+        else json.exclusiveMaximum = check.value;
+        break;
+      case 'multipleOf':
+        json.multipleOf = check.value;
+        break;
+      default:
+        break;
+    }
+  }
+  return json;
+}
+
+function objectSchema(schema: ZodTypeAny, seen: Set<ZodTypeAny>): JsonSchema {
+  const def = schema._def;
+  const shape = def.shape() as Record<string, ZodTypeAny>;
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(shape)) {
+    properties[key] = convert(value, seen);
+    if (!value.isOptional()) required.push(key);
+  }
+
+  const json: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) json.required = required;
+
+  const catchall = def.catchall as ZodTypeAny | undefined;
+  if (catchall && catchall._def.typeName !== ZodFirstPartyTypeKind.ZodNever) {
+    json.additionalProperties = convert(catchall, seen);
+  } else if (def.unknownKeys === 'strict') {
+    json.additionalProperties = false;
+  }
+  return json;
+}
+
+function convert(schema: ZodTypeAny, seen: Set<ZodTypeAny>): JsonSchema {
+  // Recursive (z.lazy) schemas are documented one level deep.
+  if (seen.has(schema)) return {};
+  seen.add(schema);
+  try {
+    return withDescription(schema, convertInner(schema, seen));
+  } finally {
+    seen.delete(schema);
+  }
+}
+
+function convertInner(schema: ZodTypeAny, seen: Set<ZodTypeAny>): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return stringSchema(def.checks);
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return numberSchema(def.checks);
+    case ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' };
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      const values = Object.entries(def.values as Record<string, string | number>)
+        // Numeric TS enums carry reverse mappings (value → key); keep the values only.
+        .filter(([key]) => Number.isNaN(Number(key)))
+        .map(([, value]) => value);
+      return { enum: values };
+    }
+    case ZodFirstPartyTypeKind.ZodObject:
+      return objectSchema(schema, seen);
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const json: JsonSchema = { type: 'array', items: convert(def.type, seen) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      if (def.exactLength) {
+        json.minItems = def.exactLength.value;
+        json.maxItems = def.exactLength.value;
+      }
+      return json;
+    }
+    case ZodFirstPartyTypeKind.ZodSet:
+      return { type: 'array', uniqueItems: true, items: convert(def.valueType, seen) };
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return {
+        type: 'array',
+        prefixItems: (def.items as ZodTypeAny[]).map(item => convert(item, seen)),
+        ...(def.rest ? { items: convert(def.rest, seen) } : { items: false }),
+      };
+    case ZodFirstPartyTypeKind.ZodRecord:
+    case ZodFirstPartyTypeKind.ZodMap:
+      return { type: 'object', additionalProperties: convert(def.valueType, seen) };
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+      const options = Array.isArray(def.options)
+        ? (def.options as ZodTypeAny[])
+        : [...(def.options as Map<unknown, ZodTypeAny>).values()];
+      return { anyOf: options.map(option => convert(option, seen)) };
+    }
+    case ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [convert(def.left, seen), convert(def.right, seen)] };
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return convert(def.innerType, seen);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [convert(def.innerType, seen), { type: 'null' }] };
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...convert(def.innerType, seen), default: def.defaultValue() };
+    case ZodFirstPartyTypeKind.ZodCatch:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return convert(def.innerType, seen);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return convert(def.type, seen);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return convert(def.schema, seen);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return convert(def.in, seen);
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return convert(def.getter(), seen);
+    case ZodFirstPartyTypeKind.ZodNever:
+      return { not: {} };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Convert a zod schema to a JSON Schema 2020-12 object.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  return convert(schema, new Set());
+}
+
+/**
+ * Top-level properties of an object-like schema (unwrapping effects, optional
+ * and default wrappers) — used to turn params / query schemas into OpenAPI
+ * parameter objects. Returns null when the schema is not object-shaped.
+ */
+export function objectShapeOf(schema: ZodTypeAny): Record<string, ZodTypeAny> | null {
+  let current: ZodTypeAny = schema;
+  for (;;) {
+    const def = current._def;
+    switch (def.typeName as ZodFirstPartyTypeKind) {
+      case ZodFirstPartyTypeKind.ZodObject:
+        return def.shape() as Record<string, ZodTypeAny>;
+      case ZodFirstPartyTypeKind.ZodEffects:
+        current = def.schema;
+        break;
+      case ZodFirstPartyTypeKind.ZodOptional:
+      case ZodFirstPartyTypeKind.ZodNullable:
+      case ZodFirstPartyTypeKind.ZodDefault:
+        current = def.innerType;
+        break;
+      case ZodFirstPartyTypeKind.ZodPipeline:
+        current = def.in;
+        break;
+      default:
+        return null;
+    }
+  }
+}
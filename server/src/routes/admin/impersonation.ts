@@ -11,11 +11,11 @@
  *
  * Registered at /api/control (admin realm — mapped in realmGuard ENDPOINT_REALM_MAP).
  *
- * Token revocation note (G-011):
- *   Issued tokens are valid until exp (30 min TTL). The stop endpoint sets endedAt
- *   in DB and writes an IMPERSONATION_STOP audit event. Real-time revocation in
- *   tenantAuthMiddleware is out-of-scope (middleware outside allowlist). Short TTL
- *   is the primary revocation mechanism. See governance for threat-model coverage.
+ * Token revocation note:
+ *   Issued tokens carry the session registry id as `sid` (SESSION-REGISTRY-001). The
+ *   stop endpoint sets endedAt, revokes the registry row and writes an IMPERSONATION_STOP
+ *   audit event; tenantAuthMiddleware rejects the token on its next request. exp
+ *   (30 min TTL) still bounds the token if it is never stopped.
  *
  * Doctrine v1.4 compliance:
  *   - orgId passed as tenantId in token = canonical app.org_id value
@@ -26,6 +26,7 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { adminAuthMiddleware, requireAdminRole } from '../../middleware/auth.js';
+import { requireMfaStepUp } from '../../middleware/mfaStepUp.js';
 import { prisma } from '../../db/prisma.js';
 import { sendSuccess, sendError } from '../../utils/response.js';
 import {
@@ -35,13 +36,13 @@ import {
   ImpersonationAbortError,
 } from '../../services/impersonation.service.js';
 
-const startBodySchema = z.object({
+export const startBodySchema = z.object({
   orgId: z.string().uuid('orgId must be a valid UUID'),
   userId: z.string().uuid('userId must be a valid UUID'),
   reason: z.string().min(10, 'reason must be at least 10 characters').max(500).trim(),
 });
 
-const stopBodySchema = z.object({
+export const stopBodySchema = z.object({
   impersonationId: z.string().uuid('impersonationId must be a valid UUID'),
   reason: z.string().min(10, 'reason must be at least 10 characters').max(500).trim(),
 });
@@ -56,7 +57,7 @@ const impersonationRoutes: FastifyPluginAsync = async fastify => {
    * Start a time-bounded impersonation session for a tenant user.
    * Returns a tenant-shaped JWT with explicit isImpersonation marker.
    */
-  fastify.post('/impersonation/start', { preHandler: requireAdminRole('SUPER_ADMIN') }, async (request, reply) => {
+  fastify.post('/impersonation/start', { preHandler: [requireAdminRole('SUPER_ADMIN'), requireMfaStepUp] }, async (request, reply) => {
     try {
       const parseResult = startBodySchema.safeParse(request.body);
       if (!parseResult.success) {
@@ -73,6 +74,7 @@ const impersonationRoutes: FastifyPluginAsync = async fastify => {
       // Sign a TENANT-realm JWT with impersonation marker.
       // Claims: userId + tenantId (canonical org_id) satisfy tenantAuthMiddleware.
       // Extra claims: isImpersonation, impersonatorAdminId, impersonationId — for traceability.
+      // sid: session registry id checked by tenantAuthMiddleware on every request.
       // exp embedded as seconds-since-epoch to enforce 30-min TTL.
       const expSecs = Math.floor(result.expiresAt.getTime() / 1000);
       const token = await reply.tenantJwtSign({
@@ -82,6 +84,7 @@ const impersonationRoutes: FastifyPluginAsync = async fastify => {
         isImpersonation: true,
         impersonatorAdminId: request.adminId,
         impersonationId: result.impersonationId,
+        sid: result.sessionId,
         exp: expSecs,
       });
 
@@ -112,7 +115,7 @@ const impersonationRoutes: FastifyPluginAsync = async fastify => {
    * POST /api/control/impersonation/stop
    *
    * Revoke an active impersonation session.
-   * Sets endedAt in DB and writes IMPERSONATION_STOP audit event.
+   * Sets endedAt in DB, revokes the issued token and writes IMPERSONATION_STOP audit event.
    * Stop reason is persisted to the audit log (not to the session row — schema constraint).
    */
   fastify.post('/impersonation/stop', { preHandler: requireAdminRole('SUPER_ADMIN') }, async (request, reply) => {
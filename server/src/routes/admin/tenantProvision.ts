@@ -168,11 +168,11 @@ function tokenMatchesConfiguredHash(token: string, expectedHash: string): boolea
 const SAFE_SMTP_VERIFICATION_APPROVED_RECIPIENT = 'paresh@texqtic.com';
 const CONSENT_RUNTIME_QA_MODE = 'FAM_07E5_CONSENT_RUNTIME_PATH';
 
-const smtpVerificationTriggerBodySchema = z.object({
+export const smtpVerificationTriggerBodySchema = z.object({
   recipient: z.string().email('recipient must be a valid email address').toLowerCase(),
 });
 
-const consentRuntimePathBodySchema = z.object({
+export const consentRuntimePathBodySchema = z.object({
   qaMode: z.literal(CONSENT_RUNTIME_QA_MODE),
   orchestrationReference: z.string().trim().min(1).max(255),
   organization: z.object({
@@ -185,7 +185,7 @@ const consentRuntimePathBodySchema = z.object({
   sendInviteEmail: z.boolean().optional(),
 });
 
-const consentRuntimeActivationHandoffBodySchema = z.object({
+export const consentRuntimeActivationHandoffBodySchema = z.object({
   qaMode: z.literal(CONSENT_RUNTIME_QA_MODE),
   inviteId: z.string().uuid('inviteId must be a valid UUID'),
   orgId: z.string().uuid('orgId must be a valid UUID').optional(),
@@ -61,14 +61,14 @@ async function withTraceabilityAdminContext<T>(
 
 // ─── Zod Schemas ─────────────────────────────────────────────────────────────
 
-const listNodesQuerySchema = z.object({
+export const listNodesQuerySchema = z.object({
   orgId:    uuidSchema.optional(),
   nodeType: z.string().max(100).trim().optional(),
   limit:    z.coerce.number().int().min(1).max(200).optional().default(50),
   offset:   z.coerce.number().int().min(0).optional().default(0),
 });
 
-const listEdgesQuerySchema = z.object({
+export const listEdgesQuerySchema = z.object({
   orgId:      uuidSchema.optional(),
   edgeType:   z.string().max(100).trim().optional(),
   fromNodeId: uuidSchema.optional(),
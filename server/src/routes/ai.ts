@@ -1,6 +1,7 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { sendSuccess, sendValidationError } from '../utils/response.js';
+import { acceptsEventStream, createSseStream, type SseStream } from '../utils/sse.js';
 import { getTenantContext } from '../lib/tenantContext.js';
 import { tenantAuthMiddleware } from '../middleware/auth.js';
 import { databaseContextMiddleware } from '../middleware/database-context.middleware.js';
@@ -8,15 +9,18 @@ import { getMonthKey, BudgetExceededError } from '../lib/aiBudget.js';
 import { PrismaClient } from '@prisma/client';
 import {
   runAiInference,
-  isGenAiConfigured,
   AiRateLimitExceededError,
+  type AiInferenceResult,
 } from '../services/ai/inferenceService.js';
-import { config } from '../config/index.js';
+import {
+  getAiProviderRegistry,
+  resolveAiProvider,
+} from '../services/ai/providers/aiProviderFactory.js';
 
 const prisma = new PrismaClient();
 
 // Request schemas
-const negotiationAdviceSchema = z.object({
+export const negotiationAdviceSchema = z.object({
   productName: z.string().optional(),
   targetPrice: z.number().positive().optional(),
   quantity: z.number().positive().optional(),
@@ -40,6 +44,31 @@ const AI_PREFLIGHT_TOKENS_NEGOTIATION = Number.parseInt(
 // (PW5-AI-TIS-EXTRACT). Route handlers below are HTTP-concern only.
 // ---------------------------------------------------------------------------
 
+/**
+ * AI-STREAM-001: with `Accept: text/event-stream` the handlers below stream
+ * `delta` events ({ text }) and finish with one `done` event carrying the JSON
+ * response's data plus the usage otherwise sent as X-AI-* headers. The `done`
+ * text is authoritative (it differs from the deltas when the PII guard blocked
+ * the output). Errors before the first event are returned as normal JSON.
+ */
+function finishStream(
+  stream: SseStream,
+  data: Record<string, unknown>,
+  result?: AiInferenceResult
+): void {
+  stream.send('done', {
+    ...data,
+    usage: result
+      ? {
+          monthKey: result.monthKey,
+          tokensUsed: result.tokensUsed,
+          costEstimateUSD: result.costEstimateUSD,
+        }
+      : null,
+  });
+  stream.close();
+}
+
 const aiRoutes: FastifyPluginAsync = async fastify => {
   /**
    * GET /api/ai/insights
@@ -49,9 +78,10 @@ const aiRoutes: FastifyPluginAsync = async fastify => {
    *   - tenantType (optional): B2B, B2C, AGGREGATOR, WHITE_LABEL
    *   - experience (optional): context hint
    *
-   * Response: { ok: true, data: { insightText: string, updatedAt: string } }
+   * Response: { ok: true, data: { insightText: string, updatedAt: string, cached: boolean } }
    *
    * Phase 3B: Budget enforcement + usage metering + audit logging
+   * AI-STREAM-001: SSE with Accept: text/event-stream; Idempotency-Key replays
    *
    * Orchestration delegated to inferenceService.runAiInference (PW5-AI-TIS-EXTRACT).
    */
@@ -79,6 +109,7 @@ const aiRoutes: FastifyPluginAsync = async fastify => {
     const monthKey = getMonthKey();
     const model = 'gemini-1.5-flash';
     const degradedInsightText = 'AI insights temporarily unavailable. Please try again later.';
+    const stream = acceptsEventStream(request) ? createSseStream(reply) : null;
 
     try {
       // Database context injected by databaseContextMiddleware (G-005)
@@ -117,18 +148,24 @@ const aiRoutes: FastifyPluginAsync = async fastify => {
         dbContext,
         tenantType,
         experience,
+        onDelta: stream ? text => stream.send('delta', { text }) : undefined,
       });
 
+      const data = {
+        insightText: result.text,
+        updatedAt: new Date().toISOString(),
+        cached: result.cacheHit ?? false,
+      };
+      if (stream) {
+        return finishStream(stream, data, result);
+      }
+
       // HTTP response headers
       reply.header('X-AI-Month', result.monthKey);
       reply.header('X-AI-Tokens-Used', result.tokensUsed.toString());
       reply.header('X-AI-Cost-USD', result.costEstimateUSD.toFixed(4));
 
-      return sendSuccess(reply, {
-        insightText: result.text,
-        updatedAt: new Date().toISOString(),
-        cached: false,
-      });
+      return sendSuccess(reply, data);
     } catch (error) {
       if (error instanceof AiRateLimitExceededError) {
         return reply.code(429).send(error.toJSON());
@@ -137,11 +174,15 @@ const aiRoutes: FastifyPluginAsync = async fastify => {
         return reply.code(429).send(error.toJSON());
       }
       console.error('[AI Insights] Error:', error);
-      return sendSuccess(reply, {
+      const degraded = {
         insightText: degradedInsightText,
         updatedAt: new Date().toISOString(),
         cached: false,
-      });
+      };
+      if (stream) {
+        return finishStream(stream, degraded);
+      }
+      return sendSuccess(reply, degraded);
     }
   });
 
@@ -150,9 +191,10 @@ const aiRoutes: FastifyPluginAsync = async fastify => {
    * Generate negotiation strategy advice
    *
    * Body: { productName?, targetPrice?, quantity?, context? }
-   * Response: { ok: true, data: { adviceText: string, riskFlags: string[], updatedAt: string } }
+   * Response: { ok: true, data: { adviceText: string, riskFlags: string[], updatedAt: string, cached: boolean } }
    *
    * Phase 3B: Budget enforcement + usage metering + audit logging
+   * AI-STREAM-001: SSE with Accept: text/event-stream; Idempotency-Key replays
    *
    * Orchestration delegated to inferenceService.runAiInference (PW5-AI-TIS-EXTRACT).
    */
@@ -183,6 +225,7 @@ const aiRoutes: FastifyPluginAsync = async fastify => {
       : idempotencyHeader;
     const monthKey = getMonthKey();
     const model = 'gemini-1.5-flash';
+    const stream = acceptsEventStream(request) ? createSseStream(reply) : null;
 
     try {
       // Database context injected by databaseContextMiddleware (G-005)
@@ -223,18 +266,25 @@ const aiRoutes: FastifyPluginAsync = async fastify => {
         productName,
         targetPrice,
         quantity,
+        onDelta: stream ? text => stream.send('delta', { text }) : undefined,
       });
 
+      const data = {
+        adviceText: result.text,
+        riskFlags: result.riskFlags ?? [],
+        updatedAt: new Date().toISOString(),
+        cached: result.cacheHit ?? false,
+      };
+      if (stream) {
+        return finishStream(stream, data, result);
+      }
+
       // HTTP response headers
       reply.header('X-AI-Month', result.monthKey);
       reply.header('X-AI-Tokens-Used', result.tokensUsed.toString());
       reply.header('X-AI-Cost-USD', result.costEstimateUSD.toFixed(4));
 
-      return sendSuccess(reply, {
-        adviceText: result.text,
-        riskFlags: result.riskFlags ?? [],
-        updatedAt: new Date().toISOString(),
-      });
+      return sendSuccess(reply, data);
     } catch (error) {
       if (error instanceof AiRateLimitExceededError) {
         return reply.code(429).send(error.toJSON());
@@ -243,6 +293,9 @@ const aiRoutes: FastifyPluginAsync = async fastify => {
         return reply.code(429).send(error.toJSON());
       }
       console.error('[AI Negotiation] Error:', error);
+      if (stream?.opened) {
+        return stream.fail('INTERNAL_ERROR', 'Failed to generate negotiation advice');
+      }
       return reply.code(500).send({
         ok: false,
         error: 'INTERNAL_ERROR',
@@ -256,10 +309,13 @@ const aiRoutes: FastifyPluginAsync = async fastify => {
    * AI service health check — tenant-auth protected (VER-008 remediation)
    */
   fastify.get('/health', { onRequest: [tenantAuthMiddleware] }, async (_request, reply) => {
+    // Deployment-level selection for insights; tenant settings are not consulted here.
+    const provider = resolveAiProvider('insights');
     return sendSuccess(reply, {
-      status: isGenAiConfigured() ? 'operational' : 'degraded',
-      provider: 'gemini-1.5-flash',
-      configured: config.GEMINI_API_KEY ? true : false,
+      status: provider ? 'operational' : 'degraded',
+      provider: getAiProviderRegistry().deploymentProviderId('insights'),
+      model: provider?.textModel ?? null,
+      configured: provider !== null,
       timestamp: new Date().toISOString(),
     });
   });
@@ -0,0 +1,641 @@
+/**
+ * MFA-001 — Login second-factor routes (pre-session)
+ *
+ * A correct password no longer yields a session when the principal has a factor
+ * enrolled (or MFA is required for them). The login routes instead return
+ *   { mfaRequired: true, mfaEnrollmentRequired, mfaToken, methods }
+ * and the client finishes here with the short-lived mfaToken:
+ *
+ *   POST /api/auth/mfa/webauthn/options        — assertion options for a security key
+ *   POST /api/auth/mfa/verify                  — TOTP / WebAuthn / recovery code → session
+ *   POST /api/auth/mfa/enroll/totp             — first-factor enrollment (enrollment tokens only)
+ *   POST /api/auth/mfa/enroll/totp/confirm     — confirm → session + recovery codes
+ *   POST /api/auth/mfa/enroll/webauthn/options
+ *   POST /api/auth/mfa/enroll/webauthn/verify  — register → session + recovery codes
+ *
+ * Enrollment tokens cannot add a factor once one exists (checked at use time), so a
+ * leaked password cannot be used to attach an attacker's authenticator.
+ * Sessions issued here carry mfaAt, which satisfies step-up for MFA_STEP_UP_MAX_AGE_SECONDS.
+ * Verification attempts are rate limited per subject with the login thresholds.
+ */
+
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { randomUUID } from 'node:crypto';
+import { sendSuccess, sendError, sendValidationError, sendRateLimitExceeded } from '../utils/response.js';
+import { prisma } from '../db/prisma.js';
+import { writeAuditLog, createAuthAudit } from '../lib/auditLog.js';
+import {
+  generateMfaChallengeToken,
+  verifyMfaChallengeToken,
+  MFA_CHALLENGE_TOKEN_EXPIRY_SECONDS,
+  type MfaChallengeClaims,
+} from '../lib/authTokens.js';
+import {
+  factorLabelSchema,
+  mfaErrorToHttp,
+  mfaFailureReasonCode,
+  mfaProofSchema,
+  registrationCredentialSchema,
+  totpCodeSchema,
+} from '../lib/mfaContracts.js';
+import { hashRateLimitKey, recordAttempt, getAttemptCount, calculateRetryAfter } from '../utils/rateLimit/index.js';
+import { generateRefreshToken, hashRefreshToken, createRefreshSession } from '../utils/auth/index.js';
+import { config } from '../config/index.js';
+import { getOrganizationIdentity, OrganizationNotFoundError, withLoginContext } from '../lib/database-context.js';
+import { createMfaService } from '../services/mfa/mfa.factory.js';
+import {
+  MfaVerificationError,
+  type MfaMethod,
+  type MfaPrincipal,
+  type MfaVerificationResult,
+} from '../services/mfa/mfa.service.js';
+import { SessionRegistryService } from '../services/sessions/sessionRegistry.service.js';
+
+export interface MfaLoginChallenge {
+  mfaRequired: true;
+  mfaEnrollmentRequired: boolean;
+  mfaToken: string;
+  methods: MfaMethod[];
+  expiresIn: number;
+}
+
+function toPrincipal(claims: MfaChallengeClaims): MfaPrincipal {
+  return claims.realm === 'TENANT'
+    ? { realm: 'TENANT', userId: claims.subjectId, tenantId: claims.tenantId as string }
+    : { realm: 'ADMIN', adminId: claims.subjectId };
+}
+
+export function clientMeta(request: FastifyRequest): { ip: string; userAgent: string | undefined } {
+  const forwarded = request.headers['x-forwarded-for'];
+  const first = typeof forwarded === 'string' ? forwarded : forwarded?.[0];
+  return { ip: first ? first.split(',')[0].trim() : request.ip, userAgent: request.headers['user-agent'] };
+}
+
+/**
+ * Per-principal attempt limit on factor verification (login and step-up), using the
+ * login thresholds for the realm. Returns true when blocked — the 429 is already sent.
+ */
+export async function mfaAttemptLimited(reply: FastifyReply, principal: MfaPrincipal): Promise<boolean> {
+  const subjectId = principal.realm === 'TENANT' ? principal.userId : principal.adminId;
+  const key = hashRateLimitKey(`mfa:${principal.realm}:${subjectId}`);
+  const max = principal.realm === 'ADMIN' ? config.RATE_LIMIT_ADMIN_LOGIN_MAX : config.RATE_LIMIT_TENANT_LOGIN_MAX;
+  const count = await getAttemptCount({ key, windowMinutes: config.RATE_LIMIT_WINDOW_MINUTES });
+  if (count >= max) {
+    sendRateLimitExceeded(reply, calculateRetryAfter(config.RATE_LIMIT_WINDOW_MINUTES), 'Too many verification attempts');
+    return true;
+  }
+  await recordAttempt({
+    key,
+    endpoint: '/mfa/verify',
+    realm: principal.realm,
+    windowMinutes: config.RATE_LIMIT_WINDOW_MINUTES,
+  });
+  return false;
+}
+
+/**
+ * Called by the login routes after the password (and account state) checks pass.
+ * Returns null when no second factor is needed; otherwise the body to send instead
+ * of a session. Errors propagate — login fails closed.
+ */
+export async function beginMfaLogin(
+  fastify: FastifyInstance,
+  params: {
+    principal: MfaPrincipal;
+    email: string;
+    ip: string;
+    userAgent: string | undefined;
+  }
+): Promise<MfaLoginChallenge | null> {
+  const { principal, email, ip, userAgent } = params;
+  const { requirement, methods } = await createMfaService().getRequirement(principal);
+  if (requirement === 'NONE') {
+    return null;
+  }
+
+  const tenantId = principal.realm === 'TENANT' ? principal.tenantId : null;
+  const subjectId = principal.realm === 'TENANT' ? principal.userId : principal.adminId;
+  const mfaToken = await generateMfaChallengeToken(fastify, {
+    realm: principal.realm,
+    subjectId,
+    tenantId,
+    email,
+    enrollmentRequired: requirement === 'ENROLL',
+  });
+
+  await writeAuditLog(
+    prisma,
+    createAuthAudit({
+      action: 'AUTH_MFA_CHALLENGE_ISSUED',
+      realm: principal.realm,
+      tenantId,
+      actorId: subjectId,
+      email,
+      reasonCode: requirement === 'ENROLL' ? 'MFA_ENROLLMENT_REQUIRED' : 'MFA_REQUIRED',
+      ip,
+      userAgent,
+      metadataJson: { methods },
+    })
+  );
+
+  return {
+    mfaRequired: true,
+    mfaEnrollmentRequired: requirement === 'ENROLL',
+    mfaToken,
+    methods,
+    expiresIn: MFA_CHALLENGE_TOKEN_EXPIRY_SECONDS,
+  };
+}
+
+export const mfaTokenSchema = z.string().min(1, 'mfaToken is required');
+
+const authMfaRoutes: FastifyPluginAsync = async fastify => {
+  const mfa = () => createMfaService();
+
+  async function resolveClaims(
+    reply: FastifyReply,
+    token: string,
+    expect: 'VERIFY' | 'ENROLL'
+  ): Promise<MfaChallengeClaims | null> {
+    const claims = await verifyMfaChallengeToken(fastify, token);
+    if (!claims) {
+      sendError(reply, 'MFA_TOKEN_INVALID', 'MFA token is invalid or expired. Sign in again.', 401);
+      return null;
+    }
+    if ((expect === 'ENROLL') !== claims.enrollmentRequired) {
+      sendError(
+        reply,
+        'MFA_TOKEN_INVALID',
+        expect === 'ENROLL'
+          ? 'This sign-in requires verifying an existing factor'
+          : 'This sign-in requires enrolling a factor first',
+        403
+      );
+      return null;
+    }
+    return claims;
+  }
+
+  async function auditFailure(request: FastifyRequest, claims: MfaChallengeClaims, err: MfaVerificationError) {
+    const { ip, userAgent } = clientMeta(request);
+    await writeAuditLog(
+      prisma,
+      createAuthAudit({
+        action: 'AUTH_MFA_FAILED',
+        realm: claims.realm,
+        tenantId: claims.tenantId,
+        actorId: claims.subjectId,
+        email: claims.email,
+        reasonCode: mfaFailureReasonCode(err.reason),
+        ip,
+        userAgent,
+      })
+    );
+  }
+
+  /**
+   * Issues the access token (with mfaAt) and refresh cookie once the factor is proven.
+   * Mirrors the login routes; membership and tenant status are re-checked because the
+   * password step may be up to MFA_CHALLENGE_TOKEN_EXPIRY_SECONDS old.
+   */
+  async function completeLogin(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    claims: MfaChallengeClaims,
+    verification: MfaVerificationResult,
+    extra: Record<string, unknown> = {}
+  ) {
+    const { ip, userAgent } = clientMeta(request);
+    const mfaAt = Math.floor(Date.now() / 1000);
+
+    await writeAuditLog(
+      prisma,
+      createAuthAudit({
+        action: verification.method === 'RECOVERY_CODE' ? 'AUTH_MFA_RECOVERY_CODE_USED' : 'AUTH_MFA_VERIFIED',
+        realm: claims.realm,
+        tenantId: claims.tenantId,
+        actorId: claims.subjectId,
+        email: claims.email,
+        reasonCode: 'SUCCESS',
+        ip,
+        userAgent,
+        metadataJson: {
+          method: verification.method,
+          factorId: verification.factorId,
+          recoveryCodesRemaining: verification.recoveryCodesRemaining,
+        },
+      })
+    );
+
+    if (claims.realm === 'ADMIN') {
+      const admin = await prisma.adminUser.findUnique({
+        where: { id: claims.subjectId },
+        select: { id: true, email: true, role: true },
+      });
+      if (!admin) {
+        return sendError(reply, 'AUTH_INVALID', 'Invalid credentials', 401);
+      }
+
+      const sessionId = randomUUID();
+      const token = await reply.adminJwtSign({ adminId: admin.id, role: admin.role, mfaAt, sid: sessionId });
+      await writeAuditLog(
+        prisma,
+        createAuthAudit({
+          action: 'AUTH_LOGIN_SUCCESS',
+          realm: 'ADMIN',
+          tenantId: null,
+          actorId: admin.id,
+          email: admin.email,
+          reasonCode: 'SUCCESS',
+          ip,
+          userAgent,
+          metadataJson: { mfaMethod: verification.method },
+        })
+      );
+
+      try {
+        const refreshToken = generateRefreshToken();
+        await new SessionRegistryService(prisma).recordLoginSession({
+          sessionId,
+          owner: { adminId: admin.id },
+          tenantId: null,
+          ip,
+          userAgent,
+        });
+        await prisma.refreshToken.create({
+          data: createRefreshSession({
+            adminId: admin.id,
+            familyId: sessionId,
+            tokenHash: hashRefreshToken(refreshToken),
+            expiresAt: new Date(Date.now() + config.REFRESH_TOKEN_TTL_DAYS_ADMIN * 24 * 60 * 60 * 1000),
+            ip,
+            userAgent,
+          }),
+        });
+        reply.setCookie('texqtic_rt_admin', refreshToken, {
+          httpOnly: true,
+          secure: config.NODE_ENV === 'production',
+          sameSite: 'lax',
+          path: '/',
+          maxAge: config.REFRESH_TOKEN_TTL_DAYS_ADMIN * 24 * 60 * 60,
+        });
+      } catch (error) {
+        // Fail-open, as in /admin/login
+        fastify.log.error({ err: error }, '[MFA] Admin refresh token issuance failed - login continues');
+      }
+
+      return sendSuccess(reply, {
+        token,
+        admin: { id: admin.id, email: admin.email, role: admin.role },
+        user: { id: admin.id, email: admin.email, role: 'ADMIN', tenantId: null },
+        mfa: { method: verification.method, recoveryCodesRemaining: verification.recoveryCodesRemaining },
+        ...extra,
+      });
+    }
+
+    const tenantId = claims.tenantId as string;
+    const membership = await withLoginContext(prisma, tenantId, async tx =>
+      tx.membership.findFirst({
+        where: { userId: claims.subjectId, tenantId },
+        select: { tenantId: true, role: true, tenant: { select: { status: true } } },
+      })
+    );
+    if (!membership) {
+      return sendError(reply, 'AUTH_FORBIDDEN', 'User is not a member of this tenant', 403);
+    }
+    if (membership.tenant.status !== 'ACTIVE') {
+      return sendError(reply, 'AUTH_FORBIDDEN', 'Tenant is inactive', 403);
+    }
+
+    const sessionId = randomUUID();
+    const token = await reply.tenantJwtSign({
+      userId: claims.subjectId,
+      tenantId,
+      role: membership.role,
+      mfaAt,
+      sid: sessionId,
+    });
+    await writeAuditLog(
+      prisma,
+      createAuthAudit({
+        action: 'AUTH_LOGIN_SUCCESS',
+        realm: 'TENANT',
+        tenantId,
+        actorId: claims.subjectId,
+        email: claims.email,
+        reasonCode: 'SUCCESS',
+        ip,
+        userAgent,
+        metadataJson: { mfaMethod: verification.method },
+      })
+    );
+
+    try {
+      const refreshToken = generateRefreshToken();
+      await new SessionRegistryService(prisma).recordLoginSession({
+        sessionId,
+        owner: { userId: claims.subjectId },
+        tenantId,
+        ip,
+        userAgent,
+      });
+      await prisma.refreshToken.create({
+        data: createRefreshSession({
+          userId: claims.subjectId,
+          familyId: sessionId,
+          tokenHash: hashRefreshToken(refreshToken),
+          expiresAt: new Date(Date.now() + config.REFRESH_TOKEN_TTL_DAYS_TENANT * 24 * 60 * 60 * 1000),
+          ip,
+          userAgent,
+        }),
+      });
+      reply.setCookie('texqtic_rt_tenant', refreshToken, {
+        httpOnly: true,
+        secure: config.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/',
+        maxAge: config.REFRESH_TOKEN_TTL_DAYS_TENANT * 24 * 60 * 60,
+      });
+    } catch (error) {
+      // Fail-open, as in /tenant/login
+      fastify.log.error({ err: error }, '[MFA] Tenant refresh token issuance failed - login continues');
+    }
+
+    // Fail-open org identity lookup (same fields as the login responses)
+    let org: Awaited<ReturnType<typeof getOrganizationIdentity>> | null = null;
+    try {
+      org = await getOrganizationIdentity(tenantId, prisma);
+    } catch (err) {
+      if (!(err instanceof OrganizationNotFoundError)) {
+        fastify.log.warn({ err }, '[MFA] org identity lookup failed — tenant fields will be null');
+      }
+    }
+
+    return sendSuccess(reply, {
+      token,
+      user: { id: claims.subjectId, email: claims.email, role: 'TENANT', tenantId },
+      membership: { tenantId, role: membership.role },
+      tenantType: org?.org_type ?? null,
+      tenant_category: org?.org_type ?? null,
+      is_white_label: org?.is_white_label ?? false,
+      base_family: org?.base_family ?? null,
+      aggregator_capability: org?.aggregator_capability ?? false,
+      white_label_capability: org?.white_label_capability ?? false,
+      commercial_plan: org?.commercial_plan ?? null,
+      mfa: { method: verification.method, recoveryCodesRemaining: verification.recoveryCodesRemaining },
+      ...extra,
+    });
+  }
+
+  /** Enrollment tokens are only honoured while the principal still has no ACTIVE factor. */
+  async function stillEnrolling(reply: FastifyReply, principal: MfaPrincipal): Promise<boolean> {
+    const { requirement } = await mfa().getRequirement(principal);
+    if (requirement === 'VERIFY') {
+      sendError(reply, 'MFA_ALREADY_ENROLLED', 'A factor is already enrolled. Sign in again to verify it.', 409);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * POST /api/auth/mfa/webauthn/options
+   * Request: { mfaToken }
+   */
+  fastify.post('/webauthn/options', async (request, reply) => {
+    const parsed = z.object({ mfaToken: mfaTokenSchema }).safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+
+    try {
+      const claims = await resolveClaims(reply, parsed.data.mfaToken, 'VERIFY');
+      if (!claims) return reply;
+      const options = await mfa().createWebAuthnAssertionOptions(toPrincipal(claims));
+      return sendSuccess(reply, options);
+    } catch (error: unknown) {
+      const mapped = mfaErrorToHttp(error);
+      if (mapped) return sendError(reply, mapped.code, mapped.message, mapped.status);
+      fastify.log.error({ err: error }, '[MFA] POST /auth/mfa/webauthn/options error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to create WebAuthn options', 500);
+    }
+  });
+
+  /**
+   * POST /api/auth/mfa/verify
+   * Request: { mfaToken, method: 'TOTP' | 'RECOVERY_CODE', code }
+   *        | { mfaToken, method: 'WEBAUTHN', challengeId, credential }
+   * Response: the login response (token + user/admin), plus { mfa: { method, recoveryCodesRemaining } }
+   */
+  fastify.post('/verify', async (request, reply) => {
+    const body = request.body as Record<string, unknown> | undefined;
+    const tokenResult = mfaTokenSchema.safeParse(body?.mfaToken);
+    const proofResult = mfaProofSchema.safeParse(body);
+    if (!tokenResult.success) {
+      return sendValidationError(reply, tokenResult.error.errors);
+    }
+    if (!proofResult.success) {
+      return sendValidationError(reply, proofResult.error.errors);
+    }
+
+    let claims: MfaChallengeClaims | null = null;
+    try {
+      claims = await resolveClaims(reply, tokenResult.data, 'VERIFY');
+      if (!claims) return reply;
+      if (await mfaAttemptLimited(reply, toPrincipal(claims))) return reply;
+
+      const verification = await mfa().verify(toPrincipal(claims), proofResult.data);
+      return await completeLogin(request, reply, claims, verification);
+    } catch (error: unknown) {
+      if (claims && error instanceof MfaVerificationError) {
+        await auditFailure(request, claims, error);
+      }
+      const mapped = mfaErrorToHttp(error);
+      if (mapped) return sendError(reply, mapped.code, mapped.message, mapped.status);
+      fastify.log.error({ err: error }, '[MFA] POST /auth/mfa/verify error');
+      return sendError(reply, 'INTERNAL_ERROR', 'MFA verification failed', 500);
+    }
+  });
+
+  /**
+   * POST /api/auth/mfa/enroll/totp
+   * Request: { mfaToken, label? }
+   * Response: { factorId, secret, otpauthUri } — secret is shown once
+   */
+  fastify.post('/enroll/totp', async (request, reply) => {
+    const parsed = z.object({ mfaToken: mfaTokenSchema, label: factorLabelSchema }).safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+
+    try {
+      const claims = await resolveClaims(reply, parsed.data.mfaToken, 'ENROLL');
+      if (!claims) return reply;
+      const principal = toPrincipal(claims);
+      if (!(await stillEnrolling(reply, principal))) return reply;
+
+      const enrollment = await mfa().startTotpEnrollment(principal, {
+        accountName: claims.email,
+        label: parsed.data.label,
+      });
+      const { ip, userAgent } = clientMeta(request);
+      await writeAuditLog(
+        prisma,
+        createAuthAudit({
+          action: 'AUTH_MFA_ENROLL_STARTED',
+          realm: claims.realm,
+          tenantId: claims.tenantId,
+          actorId: claims.subjectId,
+          email: claims.email,
+          reasonCode: 'SUCCESS',
+          ip,
+          userAgent,
+          metadataJson: { factorType: 'TOTP', factorId: enrollment.factorId },
+        })
+      );
+      return sendSuccess(reply, enrollment);
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[MFA] POST /auth/mfa/enroll/totp error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to start TOTP enrollment', 500);
+    }
+  });
+
+  /**
+   * POST /api/auth/mfa/enroll/totp/confirm
+   * Request: { mfaToken, factorId, code }
+   * Response: login response + { recoveryCodes }
+   */
+  fastify.post('/enroll/totp/confirm', async (request, reply) => {
+    const parsed = z
+      .object({ mfaToken: mfaTokenSchema, factorId: z.string().uuid(), code: totpCodeSchema })
+      .safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+
+    let claims: MfaChallengeClaims | null = null;
+    try {
+      claims = await resolveClaims(reply, parsed.data.mfaToken, 'ENROLL');
+      if (!claims) return reply;
+      if (await mfaAttemptLimited(reply, toPrincipal(claims))) return reply;
+      const principal = toPrincipal(claims);
+      if (!(await stillEnrolling(reply, principal))) return reply;
+
+      const enrolled = await mfa().confirmTotpEnrollment(principal, parsed.data.factorId, parsed.data.code);
+      await auditEnrolled(request, claims, enrolled.factor.id, 'TOTP');
+      return await completeLogin(
+        request,
+        reply,
+        claims,
+        { method: 'TOTP', factorId: enrolled.factor.id, recoveryCodesRemaining: null },
+        { recoveryCodes: enrolled.recoveryCodes }
+      );
+    } catch (error: unknown) {
+      if (claims && error instanceof MfaVerificationError) {
+        await auditFailure(request, claims, error);
+      }
+      const mapped = mfaErrorToHttp(error);
+      if (mapped) return sendError(reply, mapped.code, mapped.message, mapped.status);
+      fastify.log.error({ err: error }, '[MFA] POST /auth/mfa/enroll/totp/confirm error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to confirm TOTP enrollment', 500);
+    }
+  });
+
+  /**
+   * POST /api/auth/mfa/enroll/webauthn/options
+   * Request: { mfaToken }
+   */
+  fastify.post('/enroll/webauthn/options', async (request, reply) => {
+    const parsed = z.object({ mfaToken: mfaTokenSchema }).safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+
+    try {
+      const claims = await resolveClaims(reply, parsed.data.mfaToken, 'ENROLL');
+      if (!claims) return reply;
+      const principal = toPrincipal(claims);
+      if (!(await stillEnrolling(reply, principal))) return reply;
+
+      const options = await mfa().createWebAuthnRegistrationOptions(principal, { userName: claims.email });
+      return sendSuccess(reply, options);
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[MFA] POST /auth/mfa/enroll/webauthn/options error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to create WebAuthn options', 500);
+    }
+  });
+
+  /**
+   * POST /api/auth/mfa/enroll/webauthn/verify
+   * Request: { mfaToken, challengeId, credential, label? }
+   * Response: login response + { recoveryCodes }
+   */
+  fastify.post('/enroll/webauthn/verify', async (request, reply) => {
+    const parsed = z
+      .object({
+        mfaToken: mfaTokenSchema,
+        challengeId: z.string().uuid(),
+        credential: registrationCredentialSchema,
+        label: factorLabelSchema,
+      })
+      .safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+
+    let claims: MfaChallengeClaims | null = null;
+    try {
+      claims = await resolveClaims(reply, parsed.data.mfaToken, 'ENROLL');
+      if (!claims) return reply;
+      const principal = toPrincipal(claims);
+      if (!(await stillEnrolling(reply, principal))) return reply;
+
+      const enrolled = await mfa().completeWebAuthnRegistration(principal, {
+        challengeId: parsed.data.challengeId,
+        credential: parsed.data.credential,
+        label: parsed.data.label,
+      });
+      await auditEnrolled(request, claims, enrolled.factor.id, 'WEBAUTHN');
+      return await completeLogin(
+        request,
+        reply,
+        claims,
+        { method: 'WEBAUTHN', factorId: enrolled.factor.id, recoveryCodesRemaining: null },
+        { recoveryCodes: enrolled.recoveryCodes }
+      );
+    } catch (error: unknown) {
+      if (claims && error instanceof MfaVerificationError) {
+        await auditFailure(request, claims, error);
+      }
+      const mapped = mfaErrorToHttp(error);
+      if (mapped) return sendError(reply, mapped.code, mapped.message, mapped.status);
+      fastify.log.error({ err: error }, '[MFA] POST /auth/mfa/enroll/webauthn/verify error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to register security key', 500);
+    }
+  });
+
+  async function auditEnrolled(
+    request: FastifyRequest,
+    claims: MfaChallengeClaims,
+    factorId: string,
+    factorType: 'TOTP' | 'WEBAUTHN'
+  ) {
+    const { ip, userAgent } = clientMeta(request);
+    await writeAuditLog(
+      prisma,
+      createAuthAudit({
+        action: 'AUTH_MFA_ENROLLED',
+        realm: claims.realm,
+        tenantId: claims.tenantId,
+        actorId: claims.subjectId,
+        email: claims.email,
+        reasonCode: 'SUCCESS',
+        ip,
+        userAgent,
+        metadataJson: { factorType, factorId, via: 'login' },
+      })
+    );
+  }
+};
+
+export default authMfaRoutes;
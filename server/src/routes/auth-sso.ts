@@ -0,0 +1,326 @@
+/**
+ * SSO-001 — Single sign-on login routes (pre-session)
+ *
+ *   GET  /api/auth/sso/discover?email=               — SSO connections for the email's verified domain
+ *   GET  /api/auth/sso/:connectionId/start           — 302 to the IdP (?returnTo=/path&loginHint=)
+ *   GET  /api/auth/sso/oidc/callback                 — OIDC redirect URI
+ *   POST /api/auth/sso/saml/acs                      — SAML assertion consumer service (HTTP-POST)
+ *   GET  /api/auth/sso/:connectionId/saml/metadata   — SP metadata for the IdP administrator
+ *   POST /api/auth/sso/complete                      — { code } → session, as /tenant/login
+ *
+ * The IdP callbacks never put a token in a URL: they redirect the browser to
+ *   {FRONTEND_URL}{returnTo}#sso_code=<one-time code>     (or #sso_error=<REASON>)
+ * and the SPA redeems the code at /complete within two minutes.
+ */
+
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { randomUUID } from 'node:crypto';
+import { sendSuccess, sendError, sendValidationError } from '../utils/response.js';
+import { prisma } from '../db/prisma.js';
+import { writeAuditLog, createAuthAudit } from '../lib/auditLog.js';
+import { generateRefreshToken, hashRefreshToken, createRefreshSession } from '../utils/auth/index.js';
+import { config } from '../config/index.js';
+import { getOrganizationIdentity, OrganizationNotFoundError, withLoginContext } from '../lib/database-context.js';
+import { createSsoService } from '../services/sso/sso.factory.js';
+import { SsoLoginError, type SsoCallbackResult } from '../services/sso/sso.service.js';
+import { ssoErrorToHttp } from '../lib/ssoContracts.js';
+import { SessionRegistryService } from '../services/sessions/sessionRegistry.service.js';
+import { clientMeta } from './auth-mfa.js';
+
+export const connectionParamsSchema = z.object({ connectionId: z.string().uuid() });
+
+export const startQuerySchema = z.object({
+  returnTo: z.string().max(500).optional(),
+  loginHint: z.string().email().max(255).optional(),
+});
+
+export const oidcCallbackQuerySchema = z.object({
+  state: z.string().min(1).max(200),
+  code: z.string().min(1).max(4096).optional(),
+  error: z.string().max(200).optional(),
+});
+
+export const samlAcsBodySchema = z.object({
+  SAMLResponse: z.string().min(1).max(500_000),
+  RelayState: z.string().min(1).max(200),
+});
+
+const authSsoRoutes: FastifyPluginAsync = async fastify => {
+  const sso = () => createSsoService();
+
+  // The SAML HTTP-POST binding submits an HTML form (scoped to this plugin).
+  fastify.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    { parseAs: 'string', bodyLimit: 1_048_576 },
+    (_request, body, done) => {
+      done(null, Object.fromEntries(new URLSearchParams(body as string)));
+    }
+  );
+
+  function frontendRedirect(reply: FastifyReply, returnTo: string | null, fragment: Record<string, string>) {
+    const frontendOrigin = new URL(config.FRONTEND_URL).origin;
+    let target = new URL(returnTo ?? '/', config.FRONTEND_URL);
+    // The one-time code must never leave the SPA's origin, whatever returnTo resolved to.
+    if (target.origin !== frontendOrigin) target = new URL('/', config.FRONTEND_URL);
+    target.hash = new URLSearchParams(fragment).toString();
+    return reply.redirect(target.toString(), 302);
+  }
+
+  async function auditCallback(request: FastifyRequest, result: SsoCallbackResult) {
+    if (!result.userCreated && !result.membershipCreated && !result.roleChanged) return;
+    const { ip, userAgent } = clientMeta(request);
+    await writeAuditLog(
+      prisma,
+      createAuthAudit({
+        action: 'AUTH_SSO_USER_PROVISIONED',
+        realm: 'TENANT',
+        tenantId: result.tenantId,
+        actorId: result.userId,
+        email: result.email,
+        reasonCode: 'SUCCESS',
+        ip,
+        userAgent,
+        metadataJson: {
+          connectionId: result.connectionId,
+          protocol: result.protocol,
+          role: result.role,
+          userCreated: result.userCreated,
+          membershipCreated: result.membershipCreated,
+          roleChanged: result.roleChanged,
+        },
+      })
+    );
+  }
+
+  /** Shared tail of both IdP callbacks: audit, then hand the browser back to the SPA. */
+  async function finishCallback(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    label: string,
+    run: () => Promise<SsoCallbackResult>
+  ) {
+    try {
+      const result = await run();
+      await auditCallback(request, result);
+      return frontendRedirect(reply, result.returnTo, { sso_code: result.handoffCode });
+    } catch (error: unknown) {
+      if (error instanceof SsoLoginError) {
+        const { ip, userAgent } = clientMeta(request);
+        await writeAuditLog(
+          prisma,
+          createAuthAudit({
+            action: 'AUTH_SSO_LOGIN_FAILED',
+            realm: 'TENANT',
+            tenantId: error.context.tenantId ?? null,
+            actorId: null,
+            email: error.context.email ?? null,
+            reasonCode: 'SSO_REJECTED',
+            ip,
+            userAgent,
+            metadataJson: { reason: error.reason, detail: error.message },
+          })
+        );
+        return frontendRedirect(reply, error.context.returnTo ?? null, { sso_error: error.reason });
+      }
+      fastify.log.error({ err: error }, `[SSO] ${label} error`);
+      return frontendRedirect(reply, null, { sso_error: 'INTERNAL_ERROR' });
+    }
+  }
+
+  /**
+   * GET /api/auth/sso/discover?email=
+   * Response: { sso: boolean, connections: [{ connectionId, protocol, displayName }] }
+   */
+  fastify.get('/discover', async (request, reply) => {
+    const parsed = z.object({ email: z.string().trim().email().max(255) }).safeParse(request.query);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+    try {
+      const found = await sso().discoverByEmail(parsed.data.email);
+      return sendSuccess(reply, { sso: !!found, connections: found?.connections ?? [] });
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[SSO] discover error');
+      return sendError(reply, 'INTERNAL_ERROR', 'SSO discovery failed', 500);
+    }
+  });
+
+  /**
+   * GET /api/auth/sso/:connectionId/start
+   * 302 to the IdP authorization / SSO endpoint.
+   */
+  fastify.get('/:connectionId/start', async (request, reply) => {
+    const params = connectionParamsSchema.safeParse(request.params);
+    const query = startQuerySchema.safeParse(request.query);
+    if (!params.success || !query.success) {
+      return sendValidationError(reply, [...(params.error?.errors ?? []), ...(query.error?.errors ?? [])]);
+    }
+    try {
+      const { redirectUrl } = await sso().startLogin(params.data.connectionId, query.data);
+      return reply.redirect(redirectUrl, 302);
+    } catch (error: unknown) {
+      if (error instanceof SsoLoginError) {
+        return frontendRedirect(reply, null, { sso_error: error.reason });
+      }
+      fastify.log.error({ err: error }, '[SSO] start error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to start single sign-on', 500);
+    }
+  });
+
+  /** GET /api/auth/sso/oidc/callback?state=&code= (or &error=) */
+  fastify.get('/oidc/callback', async (request, reply) => {
+    const parsed = oidcCallbackQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return frontendRedirect(reply, null, { sso_error: 'STATE_INVALID' });
+    }
+    return finishCallback(request, reply, 'OIDC callback', () => sso().completeOidc(parsed.data));
+  });
+
+  /** POST /api/auth/sso/saml/acs — form fields SAMLResponse, RelayState */
+  fastify.post('/saml/acs', async (request, reply) => {
+    const parsed = samlAcsBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return frontendRedirect(reply, null, { sso_error: 'STATE_INVALID' });
+    }
+    return finishCallback(request, reply, 'SAML ACS', () =>
+      sso().completeSaml({ samlResponse: parsed.data.SAMLResponse, relayState: parsed.data.RelayState })
+    );
+  });
+
+  /** GET /api/auth/sso/:connectionId/saml/metadata — application/samlmetadata+xml */
+  fastify.get('/:connectionId/saml/metadata', async (request, reply) => {
+    const params = connectionParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return sendValidationError(reply, params.error.errors);
+    }
+    try {
+      const xml = await sso().spMetadata(params.data.connectionId);
+      return reply.type('application/samlmetadata+xml').send(xml);
+    } catch (error: unknown) {
+      const mapped = ssoErrorToHttp(error);
+      if (mapped) return sendError(reply, mapped.code, mapped.message, mapped.status);
+      fastify.log.error({ err: error }, '[SSO] metadata error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to build SP metadata', 500);
+    }
+  });
+
+  /**
+   * POST /api/auth/sso/complete
+   * Request: { code }
+   * Response: same shape as a tenant login, plus sso: { connectionId, protocol }.
+   */
+  fastify.post('/complete', async (request, reply) => {
+    const parsed = z.object({ code: z.string().min(1).max(200) }).safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+    try {
+      return await completeSsoLogin(fastify, request, reply, parsed.data.code);
+    } catch (error: unknown) {
+      if (error instanceof SsoLoginError) {
+        return sendError(reply, 'AUTH_INVALID', error.message, 401);
+      }
+      fastify.log.error({ err: error }, '[SSO] complete error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Single sign-on failed', 500);
+    }
+  });
+};
+
+/**
+ * Issues the access token and refresh cookie for a redeemed handoff code. Mirrors the
+ * tenant login route; membership and tenant status are re-checked at redemption.
+ */
+async function completeSsoLogin(fastify: FastifyInstance, request: FastifyRequest, reply: FastifyReply, code: string) {
+  const handoff = await createSsoService().redeemHandoff(code);
+  const { ip, userAgent } = clientMeta(request);
+  const { userId, tenantId } = handoff;
+
+  const membership = await withLoginContext(prisma, tenantId, async tx =>
+    tx.membership.findFirst({
+      where: { userId, tenantId },
+      select: { role: true, tenant: { select: { status: true } }, user: { select: { email: true } } },
+    })
+  );
+  if (!membership) {
+    return sendError(reply, 'AUTH_FORBIDDEN', 'User is not a member of this tenant', 403);
+  }
+  if (membership.tenant.status !== 'ACTIVE') {
+    return sendError(reply, 'AUTH_FORBIDDEN', 'Tenant is inactive', 403);
+  }
+  const email = membership.user.email;
+
+  const sessionId = randomUUID();
+  const token = await reply.tenantJwtSign({ userId, tenantId, role: membership.role, sid: sessionId });
+  await writeAuditLog(
+    prisma,
+    createAuthAudit({
+      action: 'AUTH_LOGIN_SUCCESS',
+      realm: 'TENANT',
+      tenantId,
+      actorId: userId,
+      email,
+      reasonCode: 'SUCCESS',
+      ip,
+      userAgent,
+      metadataJson: { sso: { connectionId: handoff.connectionId, protocol: handoff.protocol } },
+    })
+  );
+
+  try {
+    const refreshToken = generateRefreshToken();
+    await new SessionRegistryService(prisma).recordLoginSession({
+      sessionId,
+      owner: { userId },
+      tenantId,
+      ip,
+      userAgent,
+    });
+    await prisma.refreshToken.create({
+      data: createRefreshSession({
+        userId,
+        familyId: sessionId,
+        tokenHash: hashRefreshToken(refreshToken),
+        expiresAt: new Date(Date.now() + config.REFRESH_TOKEN_TTL_DAYS_TENANT * 24 * 60 * 60 * 1000),
+        ip,
+        userAgent,
+      }),
+    });
+    reply.setCookie('texqtic_rt_tenant', refreshToken, {
+      httpOnly: true,
+      secure: config.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: config.REFRESH_TOKEN_TTL_DAYS_TENANT * 24 * 60 * 60,
+    });
+  } catch (error) {
+    // Fail-open, as in /tenant/login
+    fastify.log.error({ err: error }, '[SSO] Tenant refresh token issuance failed - login continues');
+  }
+
+  // Fail-open org identity lookup (same fields as the login responses)
+  let org: Awaited<ReturnType<typeof getOrganizationIdentity>> | null = null;
+  try {
+    org = await getOrganizationIdentity(tenantId, prisma);
+  } catch (err) {
+    if (!(err instanceof OrganizationNotFoundError)) {
+      fastify.log.warn({ err }, '[SSO] org identity lookup failed — tenant fields will be null');
+    }
+  }
+
+  return sendSuccess(reply, {
+    token,
+    user: { id: userId, email, role: 'TENANT', tenantId },
+    membership: { tenantId, role: membership.role },
+    tenantType: org?.org_type ?? null,
+    tenant_category: org?.org_type ?? null,
+    is_white_label: org?.is_white_label ?? false,
+    base_family: org?.base_family ?? null,
+    aggregator_capability: org?.aggregator_capability ?? false,
+    white_label_capability: org?.white_label_capability ?? false,
+    commercial_plan: org?.commercial_plan ?? null,
+    sso: { connectionId: handoff.connectionId, protocol: handoff.protocol },
+  });
+}
+
+export default authSsoRoutes;
@@ -31,6 +31,9 @@ import {
   createRefreshSession,
 } from '../utils/auth/index.js';
 import { config } from '../config/index.js';
+import authMfaRoutes, { beginMfaLogin } from './auth-mfa.js';
+import authSsoRoutes from './auth-sso.js';
+import { SessionRegistryService } from '../services/sessions/sessionRegistry.service.js';
 import {
   getOrganizationIdentity,
   OrganizationNotFoundError,
@@ -59,6 +62,42 @@ function getClientIp(request: any): string {
   return request.ip;
 }
 
+// API-DOCS-OPENAPI-001: request bodies, module-level so the OpenAPI catalogue documents them.
+
+export const loginBodySchema = z.object({
+  email: z.string().email('Invalid email format'),
+  password: z.string().min(1, 'Password is required'),
+  tenantId: z.string().uuid('Invalid tenant ID format').optional(),
+});
+
+export const adminLoginBodySchema = z.object({
+  email: z.string().email('Invalid email format'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const tenantLoginBodySchema = z.object({
+  email: z.string().email('Invalid email format'),
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  tenantId: z.string().uuid('Invalid tenant ID format'),
+});
+
+export const forgotPasswordBodySchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+export const resetPasswordBodySchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  newPassword: z.string().min(6, 'Password must be at least 6 characters'),
+});
+
+export const verifyEmailBodySchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+export const resendVerificationBodySchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
 /**
  * Authentication Routes
  *
@@ -69,6 +108,12 @@ function getClientIp(request: any): string {
  * to ensure Postgres Row Level Security policies are enforced.
  */
 const authRoutes: FastifyPluginAsync = async fastify => {
+  // MFA-001: second-factor completion for logins that returned mfaRequired
+  await fastify.register(authMfaRoutes, { prefix: '/mfa' });
+
+  // SSO-001: per-tenant OIDC / SAML sign-in (IdP redirects, callbacks, code redemption)
+  await fastify.register(authSsoRoutes, { prefix: '/sso' });
+
   /**
    * POST /api/auth/login
    * Unified login endpoint (auto-detects admin vs tenant)
@@ -82,13 +127,7 @@ const authRoutes: FastifyPluginAsync = async fastify => {
    */
   fastify.post('/login', async (request, reply) => {
     // Validate request body
-    const bodySchema = z.object({
-      email: z.string().email('Invalid email format'),
-      password: z.string().min(1, 'Password is required'),
-      tenantId: z.string().uuid('Invalid tenant ID format').optional(),
-    });
-
-    const parseResult = bodySchema.safeParse(request.body);
+    const parseResult = loginBodySchema.safeParse(request.body);
     if (!parseResult.success) {
       return sendValidationError(reply, parseResult.error.errors);
     }
@@ -297,11 +336,24 @@ const authRoutes: FastifyPluginAsync = async fastify => {
           }
         }
 
+        // MFA-001: a second factor (or first-factor enrollment) replaces the session
+        const mfaChallenge = await beginMfaLogin(fastify, {
+          principal: { realm: 'TENANT', userId: result.user.id, tenantId: result.membership.tenantId },
+          email: result.user.email,
+          ip: clientIp,
+          userAgent,
+        });
+        if (mfaChallenge) {
+          return sendSuccess(reply, mfaChallenge);
+        }
+
         // Generate tenant JWT token
+        const sessionId = randomUUID();
         const token = await reply.tenantJwtSign({
           userId: result.user.id,
           tenantId: result.membership.tenantId,
           role: result.membership.role,
+          sid: sessionId,
         });
 
         // Log successful tenant login
@@ -327,9 +379,18 @@ const authRoutes: FastifyPluginAsync = async fastify => {
             Date.now() + config.REFRESH_TOKEN_TTL_DAYS_TENANT * 24 * 60 * 60 * 1000
           );
 
+          await new SessionRegistryService(prisma).recordLoginSession({
+            sessionId,
+            owner: { userId: result.user.id },
+            tenantId: result.membership.tenantId,
+            ip: clientIp,
+            userAgent,
+          });
+
           await prisma.refreshToken.create({
             data: createRefreshSession({
               userId: result.user.id,
+              familyId: sessionId,
               tokenHash: refreshTokenHash,
               expiresAt: refreshExpiresAt,
               ip: clientIp,
@@ -514,10 +575,23 @@ const authRoutes: FastifyPluginAsync = async fastify => {
         return sendError(reply, 'AUTH_INVALID', 'Invalid credentials', 401);
       }
 
+      // MFA-001: a second factor (or first-factor enrollment) replaces the session
+      const mfaChallenge = await beginMfaLogin(fastify, {
+        principal: { realm: 'ADMIN', adminId: result.id },
+        email: result.email,
+        ip: clientIp,
+        userAgent,
+      });
+      if (mfaChallenge) {
+        return sendSuccess(reply, mfaChallenge);
+      }
+
       // Generate admin JWT token using namespaced JWT method on reply
+      const sessionId = randomUUID();
       const token = await reply.adminJwtSign({
         adminId: result.id,
         role: result.role,
+        sid: sessionId,
       });
 
       // Log successful admin login
@@ -542,9 +616,18 @@ const authRoutes: FastifyPluginAsync = async fastify => {
         Date.now() + config.REFRESH_TOKEN_TTL_DAYS_ADMIN * 24 * 60 * 60 * 1000
       );
 
+      await new SessionRegistryService(prisma).recordLoginSession({
+        sessionId,
+        owner: { adminId: result.id },
+        tenantId: null,
+        ip: clientIp,
+        userAgent,
+      });
+
       await prisma.refreshToken.create({
         data: createRefreshSession({
           adminId: result.id,
+          familyId: sessionId,
           tokenHash: refreshTokenHash,
           expiresAt: refreshExpiresAt,
           ip: clientIp,
@@ -607,12 +690,7 @@ const authRoutes: FastifyPluginAsync = async fastify => {
    */
   fastify.post('/admin/login', async (request, reply) => {
     // Validate request body
-    const bodySchema = z.object({
-      email: z.string().email('Invalid email format'),
-      password: z.string().min(1, 'Password is required'),
-    });
-
-    const parseResult = bodySchema.safeParse(request.body);
+    const parseResult = adminLoginBodySchema.safeParse(request.body);
     if (!parseResult.success) {
       return sendValidationError(reply, parseResult.error.errors);
     }
@@ -719,10 +797,23 @@ const authRoutes: FastifyPluginAsync = async fastify => {
         return sendError(reply, 'AUTH_INVALID', 'Invalid credentials', 401);
       }
 
+      // MFA-001: a second factor (or first-factor enrollment) replaces the session
+      const mfaChallenge = await beginMfaLogin(fastify, {
+        principal: { realm: 'ADMIN', adminId: result.id },
+        email: result.email,
+        ip: clientIp,
+        userAgent,
+      });
+      if (mfaChallenge) {
+        return sendSuccess(reply, mfaChallenge);
+      }
+
       // Generate admin JWT token using namespaced JWT method on reply
+      const sessionId = randomUUID();
       const token = await reply.adminJwtSign({
         adminId: result.id,
         role: result.role,
+        sid: sessionId,
       });
 
       // Log successful admin login
@@ -748,9 +839,18 @@ const authRoutes: FastifyPluginAsync = async fastify => {
           Date.now() + config.REFRESH_TOKEN_TTL_DAYS_ADMIN * 24 * 60 * 60 * 1000
         );
 
+        await new SessionRegistryService(prisma).recordLoginSession({
+          sessionId,
+          owner: { adminId: result.id },
+          tenantId: null,
+          ip: clientIp,
+          userAgent,
+        });
+
         await prisma.refreshToken.create({
           data: createRefreshSession({
             adminId: result.id,
+            familyId: sessionId,
             tokenHash: refreshTokenHash,
             expiresAt: refreshExpiresAt,
             ip: clientIp,
@@ -816,13 +916,7 @@ const authRoutes: FastifyPluginAsync = async fastify => {
    */
   fastify.post('/tenant/login', async (request, reply) => {
     // Validate request body
-    const bodySchema = z.object({
-      email: z.string().email('Invalid email format'),
-      password: z.string().min(6, 'Password must be at least 6 characters'),
-      tenantId: z.string().uuid('Invalid tenant ID format'),
-    });
-
-    const parseResult = bodySchema.safeParse(request.body);
+    const parseResult = tenantLoginBodySchema.safeParse(request.body);
     if (!parseResult.success) {
       return sendValidationError(reply, parseResult.error.errors);
     }
@@ -1001,11 +1095,24 @@ const authRoutes: FastifyPluginAsync = async fastify => {
         return sendError(reply, 'AUTH_FORBIDDEN', 'User is not a member of this tenant', 403);
       }
 
+      // MFA-001: a second factor (or first-factor enrollment) replaces the session
+      const mfaChallenge = await beginMfaLogin(fastify, {
+        principal: { realm: 'TENANT', userId: result.user.id, tenantId: result.membership.tenantId },
+        email: result.user.email,
+        ip: clientIp,
+        userAgent,
+      });
+      if (mfaChallenge) {
+        return sendSuccess(reply, mfaChallenge);
+      }
+
       // Generate tenant JWT token
+      const sessionId = randomUUID();
       const token = await reply.tenantJwtSign({
         userId: result.user.id,
         tenantId: result.membership.tenantId,
         role: result.membership.role,
+        sid: sessionId,
       });
 
       // Log successful tenant login
@@ -1031,9 +1138,18 @@ const authRoutes: FastifyPluginAsync = async fastify => {
           Date.now() + config.REFRESH_TOKEN_TTL_DAYS_TENANT * 24 * 60 * 60 * 1000
         );
 
+        await new SessionRegistryService(prisma).recordLoginSession({
+          sessionId,
+          owner: { userId: result.user.id },
+          tenantId: result.membership.tenantId,
+          ip: clientIp,
+          userAgent,
+        });
+
         await prisma.refreshToken.create({
           data: createRefreshSession({
             userId: result.user.id,
+            familyId: sessionId,
             tokenHash: refreshTokenHash,
             expiresAt: refreshExpiresAt,
             ip: clientIp,
@@ -1125,11 +1241,7 @@ const authRoutes: FastifyPluginAsync = async fastify => {
    * Token: 30-minute expiry, single-use, hashed storage
    */
   fastify.post('/forgot-password', async (request, reply) => {
-    const bodySchema = z.object({
-      email: z.string().email('Invalid email format'),
-    });
-
-    const parseResult = bodySchema.safeParse(request.body);
+    const parseResult = forgotPasswordBodySchema.safeParse(request.body);
     if (!parseResult.success) {
       return sendValidationError(reply, parseResult.error.errors);
     }
@@ -1195,12 +1307,7 @@ const authRoutes: FastifyPluginAsync = async fastify => {
    * Security: marks token as used, single-use enforcement
    */
   fastify.post('/reset-password', async (request, reply) => {
-    const bodySchema = z.object({
-      token: z.string().min(1, 'Token is required'),
-      newPassword: z.string().min(6, 'Password must be at least 6 characters'),
-    });
-
-    const parseResult = bodySchema.safeParse(request.body);
+    const parseResult = resetPasswordBodySchema.safeParse(request.body);
     if (!parseResult.success) {
       return sendValidationError(reply, parseResult.error.errors);
     }
@@ -1286,11 +1393,7 @@ const authRoutes: FastifyPluginAsync = async fastify => {
    * Updates: emailVerified flag and emailVerifiedAt timestamp
    */
   fastify.post('/verify-email', async (request, reply) => {
-    const bodySchema = z.object({
-      token: z.string().min(1, 'Token is required'),
-    });
-
-    const parseResult = bodySchema.safeParse(request.body);
+    const parseResult = verifyEmailBodySchema.safeParse(request.body);
     if (!parseResult.success) {
       return sendValidationError(reply, parseResult.error.errors);
     }
@@ -1363,11 +1466,7 @@ const authRoutes: FastifyPluginAsync = async fastify => {
    * Security: Always returns success to prevent user enumeration
    */
   fastify.post('/resend-verification', async (request, reply) => {
-    const bodySchema = z.object({
-      email: z.string().email('Invalid email format'),
-    });
-
-    const parseResult = bodySchema.safeParse(request.body);
+    const parseResult = resendVerificationBodySchema.safeParse(request.body);
     if (!parseResult.success) {
       return sendValidationError(reply, parseResult.error.errors);
     }
@@ -1618,6 +1717,46 @@ const authRoutes: FastifyPluginAsync = async fastify => {
         return sendError(reply, 'AUTH_INVALID', 'Realm mismatch', 401);
       }
 
+      // 4b) Session registry (SESSION-REGISTRY-001): a signed-out or force-logged-out
+      //     device must not mint new access tokens. The family is revoked so the cookie
+      //     stops working even for families that predate the registry.
+      const sessionRegistry = new SessionRegistryService(prisma);
+      const sessionOwner = refreshTokenRow.userId
+        ? { userId: refreshTokenRow.userId }
+        : { adminId: refreshTokenRow.adminId as string };
+      const sessionCheck = await sessionRegistry.checkRefresh({
+        familyId: refreshTokenRow.familyId,
+        owner: sessionOwner,
+        refreshIssuedAt: refreshTokenRow.createdAt,
+      });
+      if (!sessionCheck.ok) {
+        await prisma.refreshToken.updateMany({
+          where: { familyId: refreshTokenRow.familyId, revokedAt: null },
+          data: { revokedAt: new Date() },
+        });
+        reply.setCookie(realm === 'TENANT' ? 'texqtic_rt_tenant' : 'texqtic_rt_admin', '', {
+          httpOnly: true,
+          secure: config.NODE_ENV === 'production',
+          sameSite: 'lax',
+          path: '/',
+          maxAge: 0,
+        });
+        await writeAuditLog(
+          prisma,
+          createAuthAudit({
+            action: 'AUTH_REFRESH_FAILED',
+            realm,
+            tenantId: null,
+            actorId: refreshTokenRow.userId || refreshTokenRow.adminId,
+            email: null,
+            reasonCode: 'REVOKED',
+            ip: clientIp,
+            userAgent,
+          })
+        );
+        return sendError(reply, 'AUTH_INVALID', 'Session has been signed out', 401);
+      }
+
       // 5) Issue new token pair (atomic rotation with concurrency protection)
       const newPlaintextRefreshToken = generateRefreshToken();
       const newRefreshTokenHash = hashRefreshToken(newPlaintextRefreshToken);
@@ -1774,6 +1913,7 @@ const authRoutes: FastifyPluginAsync = async fastify => {
           userId: user.id,
           tenantId: user.memberships[0].tenantId,
           role: user.memberships[0].role,
+          sid: refreshTokenRow.familyId,
         });
       } else {
         // ADMIN realm
@@ -1814,7 +1954,22 @@ const authRoutes: FastifyPluginAsync = async fastify => {
         accessToken = await reply.adminJwtSign({
           adminId: admin.id,
           role: admin.role,
+          sid: refreshTokenRow.familyId,
+        });
+      }
+
+      // 6b) Register families that predate the registry; otherwise bump lastSeenAt.
+      //     Fail-open: the access token is already bound to the family via sid.
+      try {
+        await sessionRegistry.touchRefreshedSession({
+          sessionId: refreshTokenRow.familyId,
+          owner: sessionOwner,
+          tenantId,
+          ip: clientIp,
+          userAgent,
         });
+      } catch (sessionError) {
+        fastify.log.warn({ err: sessionError }, '[Auth] Session registry touch failed');
       }
 
       // 7) Set new refresh cookie
@@ -2000,6 +2155,8 @@ const authRoutes: FastifyPluginAsync = async fastify => {
                   lastUsedAt: new Date(),
                 },
               });
+              // SESSION-REGISTRY-001: end the device session so its access token dies too
+              await new SessionRegistryService(prisma).endLoginSession(refreshTokenRow.familyId);
 
               // Audit successful logout (non-blocking)
               try {
@@ -17,6 +17,7 @@ import {
   withOrgAdminContext as withOrganizationReadAdminContext,
 } from '../lib/database-context.js';
 import { prisma } from '../db/prisma.js';
+import { emitPublicContentInvalidate } from '../services/publicSitemap.service.js';
 import { writeAuditLog, createAdminAudit, writeAuthorityIntent } from '../lib/auditLog.js';
 import { EscalationService } from '../services/escalation.service.js';
 import controlEscalationRoutes from './control/escalation.g022.js';
@@ -34,6 +35,13 @@ import controlTtpRoutingStubRoutes from './control/ttp-routing-stubs.js';
 import controlTtpEnrollmentRoutes from './control/ttp-enrollments.js';
 import controlTtpScoreSnapshotRoutes from './control/ttp-score-snapshots.js';
 import controlZohoBooksRoutes from './control/zoho-books.js';
+import controlCrmOutboxRoutes from './control/crm-outbox.js';
+import controlGovernanceExpiryRoutes from './control/governance-expiry.js';
+import controlFxRateRoutes from './control/fx-rates.js';
+import controlAuditLogRoutes from './control/audit-logs.js';
+import controlEventStreamRoutes from './control/event-stream.js';
+import { controlMfaRoutes } from './mfa.js';
+import { controlSessionRoutes } from './sessions.js';
 import { filterControlPlaneLaunchFacingTenantList } from '../config/controlPlaneTenantReadExclusions.js';
 import {
   loadLegalPackageAuthority,
@@ -64,13 +72,13 @@ const catalogOfferingPreviewPublicationPostures = [
   'BOTH',
 ] as const;
 
-const catalogOfferingPreviewPublicationPostureBodySchema = z
+export const catalogOfferingPreviewPublicationPostureBodySchema = z
   .object({
     publicationPosture: z.enum(catalogOfferingPreviewPublicationPostures),
   })
   .strict();
 
-const profileCompletenessTaxonomyBodySchema = z
+export const profileCompletenessTaxonomyBodySchema = z
   .object({
     primary_segment_key: profileCompletenessSegmentKeySchema,
     secondary_segment_keys: z.array(profileCompletenessSegmentKeySchema).default([]),
@@ -2576,6 +2584,7 @@ const controlRoutes: FastifyPluginAsync = async fastify => {
   // ─── G-028 C1: Control-plane AI insights — Slice 1 ───────────────────────────
   // GET  /api/control/ai/health   — SUPER_ADMIN health probe
   // POST /api/control/ai/insights — SUPER_ADMIN platform-level AI insights
+  // GET|PUT|DELETE /api/control/ai/providers[/tenants/:tenantId] — AI provider selection (AI-PROVIDER-001)
   await fastify.register(controlPlaneAiRoutes, { prefix: '/ai' });
 
   // ─── TTP Slice 2: GST Verification Gate ──────────────────────────────────────
@@ -2625,6 +2634,47 @@ const controlRoutes: FastifyPluginAsync = async fastify => {
   // Design: DESIGN-SUPERADMIN-ZOHO-BOOKS-OPERATIONS-SURFACE-01 (3b588e88)
   await fastify.register(controlZohoBooksRoutes, { prefix: '/zoho-books' });
 
+  // ─── CRM Notify Outbox (CRM-NOTIFY-OUTBOX-001) ────────────────────────────────
+  // GET  /api/control/crm-outbox                          — list outbox events
+  // GET  /api/control/crm-outbox/:eventId                 — event detail + delivery attempts
+  // POST /api/control/crm-outbox/:eventId/replay          — re-deliver (SUPER_ADMIN)
+  // POST /api/control/crm-outbox/:eventId/dead-letter     — stop delivery (SUPER_ADMIN)
+  await fastify.register(controlCrmOutboxRoutes, { prefix: '/crm-outbox' });
+
+  // ─── Governance Expiry Sweep (GOV-EXPIRY-SWEEP-001) ───────────────────────────
+  // GET  /api/control/governance/expiry-sweep/preview     — dry-run report
+  // POST /api/control/governance/expiry-sweep/run         — sweep now (SUPER_ADMIN)
+  await fastify.register(controlGovernanceExpiryRoutes, { prefix: '/governance' });
+
+  // ─── FX Rates (FX-RATES-001) ──────────────────────────────────────────────────
+  // GET  /api/control/fx-rates                            — list stored rates
+  // POST /api/control/fx-rates                            — upload rates (SUPER_ADMIN)
+  // GET  /api/control/fx-rates/convert                    — conversion preview + rate reference
+  await fastify.register(controlFxRateRoutes, { prefix: '/fx-rates' });
+
+  // ─── Audit Chain (AUDIT-CHAIN-001) ────────────────────────────────────────────
+  // GET  /api/control/audit-logs/verify                   — chain verification report
+  // GET  /api/control/audit-logs/export                   — signed export bundle (ZIP)
+  // GET  /api/control/audit-logs/signing-key              — public verification key
+  await fastify.register(controlAuditLogRoutes, { prefix: '/audit-logs' });
+
+  // ─── Live Event Stream (EVENT-STREAM-001) ─────────────────────────────────────
+  // GET  /api/control/events/stream                       — SSE stream of new event logs
+  await fastify.register(controlEventStreamRoutes, { prefix: '/events' });
+
+  // ─── MFA-001: Admin self-service MFA and step-up ─────────────────────────────
+  // GET /api/control/mfa, POST /api/control/mfa/totp|totp/confirm|recovery-codes|step-up
+  // POST /api/control/mfa/webauthn/register/options|verify, /step-up/webauthn/options
+  // DELETE /api/control/mfa/factors/:factorId
+  await fastify.register(controlMfaRoutes, { prefix: '/mfa' });
+
+  // ─── Sessions (SESSION-REGISTRY-001) ──────────────────────────────────────────
+  // GET  /api/control/sessions, DELETE /api/control/sessions/:sessionId — own sessions
+  // POST /api/control/sessions/revoke-others
+  // GET  /api/control/sessions/tenants/:tenantId|users/:userId          — SUPER_ADMIN
+  // POST /api/control/sessions/force-logout                             — SUPER_ADMIN
+  await fastify.register(controlSessionRoutes, { prefix: '/sessions' });
+
   /**
    * POST /api/control/tenants/:id/publish
    * Elevate a verified or active supplier tenant to B2B public directory presence.
@@ -2763,6 +2813,9 @@ const controlRoutes: FastifyPluginAsync = async fastify => {
         })
       );
 
+      // PUBLIC-SEO-SITEMAP-SERVER-001: the tenant's entities now enter public sitemaps.
+      void emitPublicContentInvalidate(prisma, id, request.log);
+
       return sendSuccess(reply, {
         tenantId: result.updatedOrg.id,
         slug: result.currentTenant.slug,
@@ -3195,6 +3248,9 @@ const controlRoutes: FastifyPluginAsync = async fastify => {
         })
       );
 
+      // PUBLIC-SEO-SITEMAP-SERVER-001: posture decides public sitemap membership.
+      void emitPublicContentInvalidate(prisma, id, request.log);
+
       return sendSuccess(reply, {
         tenantId: id,
         slug: result.currentTenant.slug,
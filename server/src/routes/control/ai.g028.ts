@@ -5,8 +5,12 @@
  * Mounted under /api/control/ai/* by the parent controlRoutes plugin.
  *
  * Routes:
- *   GET  /health   → /api/control/ai/health
- *   POST /insights → /api/control/ai/insights
+ *   GET    /health                               → /api/control/ai/health
+ *   POST   /insights                             → /api/control/ai/insights
+ *   GET    /providers                            → deployment provider selection (AI-PROVIDER-001)
+ *   GET    /providers/tenants/:tenantId          → tenant provider settings
+ *   PUT    /providers/tenants/:tenantId          → set a tenant provider ('*' or per task)
+ *   DELETE /providers/tenants/:tenantId/:task    → remove a tenant provider setting
  *
  * Auth posture:
  *   - Parent controlRoutes plugin enforces adminAuthMiddleware globally (all
@@ -37,10 +41,20 @@ import { PrismaClient } from '@prisma/client';
 import { randomUUID } from 'node:crypto';
 import { requireAdminRole } from '../../middleware/auth.js';
 import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
+import { withSuperAdminContext } from '../../lib/database-context.js';
+import { writeAuditLog, createAdminAudit } from '../../lib/auditLog.js';
 import {
   isGenAiConfigured,
   runControlPlaneInsight,
 } from '../../services/ai/controlPlaneInferenceService.js';
+import { getAiProviderRegistry } from '../../services/ai/providers/aiProviderFactory.js';
+import {
+  TENANT_AI_PROVIDER_TASKS,
+  deleteTenantAiProviderSetting,
+  listTenantAiProviderSettings,
+  upsertTenantAiProviderSetting,
+} from '../../services/ai/providers/tenantProviderSettings.js';
+import { AI_PROVIDER_IDS, AI_PROVIDER_TASKS } from '../../services/ai/providers/types.js';
 
 const prisma = new PrismaClient();
 
@@ -71,12 +85,28 @@ const uuidSchema = z.string().uuid('Must be a valid UUID');
  * Fields unconditionally rejected (all client identity signals):
  *   - orgId / tenantId / role / realm — not accepted in any slice
  */
-const cpInsightsBodySchema = z.object({
+export const cpInsightsBodySchema = z.object({
   prompt: z.string().min(1).max(2_000),
   focus: z.string().max(200).optional(),
   targetOrgId: uuidSchema.optional(),
 });
 
+// ---------------------------------------------------------------------------
+// AI-PROVIDER-001 — per-tenant provider settings schemas
+// ---------------------------------------------------------------------------
+
+export const tenantProviderParamsSchema = z.object({ tenantId: uuidSchema });
+
+export const tenantProviderTaskParamsSchema = tenantProviderParamsSchema.extend({
+  task: z.enum(TENANT_AI_PROVIDER_TASKS),
+});
+
+/** task '*' pins every text task that has no task-specific setting. */
+export const tenantProviderBodySchema = z.object({
+  task: z.enum(TENANT_AI_PROVIDER_TASKS).default('*'),
+  provider: z.enum(AI_PROVIDER_IDS),
+});
+
 // ---------------------------------------------------------------------------
 // Route plugin
 // ---------------------------------------------------------------------------
@@ -214,7 +244,7 @@ const controlPlaneAiRoutes: FastifyPluginAsync = async fastify => {
         insightText: result.text,
         requestId,
         meta: {
-          model: 'gemini-1.5-flash',
+          model: result.model,
           tokensUsed: result.tokensUsed,
           inferenceLatencyMs: result.inferenceLatencyMs,
           hadInferenceError: result.hadInferenceError,
@@ -226,6 +256,162 @@ const controlPlaneAiRoutes: FastifyPluginAsync = async fastify => {
       });
     }
   );
+
+  /**
+   * GET /api/control/ai/providers
+   *
+   * Deployment provider selection (AI-PROVIDER-001): which providers are configured
+   * and which one each task uses when a tenant has no setting. SUPER_ADMIN required.
+   */
+  fastify.get(
+    '/providers',
+    { preHandler: requireAdminRole('SUPER_ADMIN') },
+    async (_request, reply) => {
+      const registry = getAiProviderRegistry();
+      return sendSuccess(reply, {
+        providers: AI_PROVIDER_IDS.map(id => ({ id, configured: registry.isConfigured(id) })),
+        tasks: AI_PROVIDER_TASKS.map(task => ({
+          task,
+          provider: registry.deploymentProviderId(task),
+        })),
+      });
+    }
+  );
+
+  /**
+   * GET /api/control/ai/providers/tenants/:tenantId
+   *
+   * The tenant's provider settings. Tasks without a row use the deployment selection.
+   */
+  fastify.get(
+    '/providers/tenants/:tenantId',
+    { preHandler: requireAdminRole('SUPER_ADMIN') },
+    async (request, reply) => {
+      const params = tenantProviderParamsSchema.safeParse(request.params);
+      if (!params.success) {
+        return sendValidationError(reply, params.error.errors);
+      }
+
+      try {
+        const settings = await withSuperAdminContext(prisma, tx =>
+          listTenantAiProviderSettings(tx, params.data.tenantId)
+        );
+        return sendSuccess(reply, { tenantId: params.data.tenantId, settings });
+      } catch (error: unknown) {
+        fastify.log.error({ err: error }, '[ai-providers] GET tenant settings error');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to load AI provider settings', 500);
+      }
+    }
+  );
+
+  /**
+   * PUT /api/control/ai/providers/tenants/:tenantId
+   * Body: { task?: '*' | <text task>, provider: 'gemini' | 'openai-compatible' | 'fixture' }
+   *
+   * Rejects providers that are not configured on this deployment (422) — a stored
+   * setting for an unconfigured provider would silently fall back to the default.
+   */
+  fastify.put(
+    '/providers/tenants/:tenantId',
+    { preHandler: requireAdminRole('SUPER_ADMIN') },
+    async (request, reply) => {
+      const adminId = request.adminId;
+      if (!adminId) {
+        return sendError(reply, 'UNAUTHORIZED', 'Admin identity missing from token', 401);
+      }
+
+      const params = tenantProviderParamsSchema.safeParse(request.params);
+      if (!params.success) {
+        return sendValidationError(reply, params.error.errors);
+      }
+      const body = tenantProviderBodySchema.safeParse(request.body);
+      if (!body.success) {
+        return sendValidationError(reply, body.error.errors);
+      }
+
+      const { tenantId } = params.data;
+      const { task, provider } = body.data;
+
+      if (!getAiProviderRegistry().isConfigured(provider)) {
+        return sendError(
+          reply,
+          'AI_PROVIDER_NOT_CONFIGURED',
+          `AI provider '${provider}' is not configured on this deployment`,
+          422
+        );
+      }
+
+      const tenant = await prisma.tenant.findUnique({ where: { id: tenantId }, select: { id: true } });
+      if (!tenant) {
+        return sendError(reply, 'ORG_NOT_FOUND', `Tenant '${tenantId}' does not exist`, 404);
+      }
+
+      try {
+        const setting = await withSuperAdminContext(prisma, async tx => {
+          const saved = await upsertTenantAiProviderSetting(tx, { tenantId, task, provider, adminId });
+          await writeAuditLog(
+            tx,
+            createAdminAudit(adminId, 'control.ai_provider.updated', 'tenant_ai_provider_setting', {
+              tenantId,
+              task,
+              provider,
+            })
+          );
+          return saved;
+        });
+        return sendSuccess(reply, { tenantId, setting });
+      } catch (error: unknown) {
+        fastify.log.error({ err: error }, '[ai-providers] PUT tenant setting error');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to save AI provider setting', 500);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/control/ai/providers/tenants/:tenantId/:task
+   *
+   * Removes a setting; the task falls back to the tenant's '*' setting, then the
+   * deployment selection.
+   */
+  fastify.delete(
+    '/providers/tenants/:tenantId/:task',
+    { preHandler: requireAdminRole('SUPER_ADMIN') },
+    async (request, reply) => {
+      const adminId = request.adminId;
+      if (!adminId) {
+        return sendError(reply, 'UNAUTHORIZED', 'Admin identity missing from token', 401);
+      }
+
+      const params = tenantProviderTaskParamsSchema.safeParse(request.params);
+      if (!params.success) {
+        return sendValidationError(reply, params.error.errors);
+      }
+      const { tenantId, task } = params.data;
+
+      try {
+        const deleted = await withSuperAdminContext(prisma, async tx => {
+          const removed = await deleteTenantAiProviderSetting(tx, tenantId, task);
+          if (removed) {
+            await writeAuditLog(
+              tx,
+              createAdminAudit(adminId, 'control.ai_provider.deleted', 'tenant_ai_provider_setting', {
+                tenantId,
+                task,
+              })
+            );
+          }
+          return removed;
+        });
+        if (!deleted) {
+          return sendError(reply, 'NOT_FOUND', 'No AI provider setting for this tenant and task', 404);
+        }
+        return sendSuccess(reply, { deleted: true });
+      } catch (error: unknown) {
+        fastify.log.error({ err: error }, '[ai-providers] DELETE tenant setting error');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to delete AI provider setting', 500);
+      }
+    }
+  );
 };
 
 export default controlPlaneAiRoutes;
@@ -0,0 +1,152 @@
+/**
+ * Control-plane Audit Chain Routes — AUDIT-CHAIN-001
+ *
+ * GET /api/control/audit-logs/verify       — walk one audit chain and report gaps / edits
+ * GET /api/control/audit-logs/export       — signed export bundle (ZIP) for a created_at range
+ * GET /api/control/audit-logs/signing-key  — public key that verifies checkpoints and manifests
+ *
+ * A chain is one (realm, tenant) pair: ?realm=ADMIN (default) without tenantId is the platform
+ * chain; ?realm=TENANT&tenantId=… is that tenant's chain.
+ *
+ * Auth: adminAuthMiddleware is inherited from the parent control plugin (control.ts addHook).
+ * Verify and export are themselves audit-logged, like GET /api/control/audit-logs.
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
+import { withAdminContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog, createAdminAudit } from '../../lib/auditLog.js';
+import {
+  AUDIT_CHAIN_SIGNATURE_ALGORITHM,
+  getAuditChainSigningKey,
+} from '../../lib/auditChainSigning.js';
+import {
+  AuditExportRangeError,
+  buildAuditExportBundle,
+  verifyAuditChain,
+} from '../../services/auditChain/auditChain.service.js';
+import type { AuditChainRef } from '../../services/auditChain/auditChain.types.js';
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const chainFields = {
+  realm: z.enum(['ADMIN', 'TENANT']).default('ADMIN'),
+  tenantId: z.string().uuid().optional(),
+};
+
+const requireTenantForTenantRealm = (query: { realm: string; tenantId?: string }) =>
+  query.realm !== 'TENANT' || query.tenantId !== undefined;
+const tenantRealmMessage = { message: 'tenantId is required for the TENANT realm', path: ['tenantId'] };
+
+export const auditChainQuerySchema = z
+  .object(chainFields)
+  .refine(requireTenantForTenantRealm, tenantRealmMessage);
+
+export const auditExportQuerySchema = z
+  .object({
+    ...chainFields,
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+  })
+  .refine(requireTenantForTenantRealm, tenantRealmMessage)
+  .refine(query => query.to > query.from, { message: '"to" must be after "from"', path: ['to'] });
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const controlAuditLogRoutes: FastifyPluginAsync = async fastify => {
+  /**
+   * GET /api/control/audit-logs/verify
+   * Full-chain verification report. Writes one audit entry.
+   */
+  fastify.get('/verify', async (request, reply) => {
+    if (!request.adminId) {
+      return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+    }
+    const adminId = request.adminId;
+
+    const queryResult = auditChainQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return sendValidationError(reply, queryResult.error.errors);
+    }
+    const ref: AuditChainRef = { realm: queryResult.data.realm, tenantId: queryResult.data.tenantId ?? null };
+
+    try {
+      const verification = await withAdminContext(prisma, tx => verifyAuditChain(tx, ref));
+
+      await writeAuditLog(
+        prisma,
+        createAdminAudit(adminId, 'ADMIN_AUDIT_CHAIN_VERIFY', 'audit_log', {
+          chainKey: verification.chainKey,
+          status: verification.status,
+          entriesChecked: verification.entriesChecked,
+          issueCount: verification.issueCount,
+        }),
+      );
+
+      return sendSuccess(reply, { verification });
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[audit-chain] GET /control/audit-logs/verify error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to verify audit chain', 500);
+    }
+  });
+
+  /**
+   * GET /api/control/audit-logs/export
+   * ZIP download: audit-log.jsonl, checkpoints.jsonl, manifest.json, manifest.sig.
+   */
+  fastify.get('/export', async (request, reply) => {
+    if (!request.adminId) {
+      return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+    }
+    const adminId = request.adminId;
+
+    const queryResult = auditExportQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return sendValidationError(reply, queryResult.error.errors);
+    }
+    const { realm, tenantId, from, to } = queryResult.data;
+    const ref: AuditChainRef = { realm, tenantId: tenantId ?? null };
+
+    try {
+      const bundle = await withAdminContext(prisma, tx =>
+        buildAuditExportBundle(tx, ref, { from, to }, { realm: 'ADMIN', actorId: adminId }),
+      );
+
+      await writeAuditLog(
+        prisma,
+        createAdminAudit(adminId, 'ADMIN_AUDIT_LOG_EXPORT', 'audit_log', {
+          chainKey: bundle.manifest.chain.key,
+          from: bundle.manifest.range.from,
+          to: bundle.manifest.range.to,
+          entryCount: bundle.manifest.entries.count,
+          verificationStatus: bundle.manifest.verification.status,
+        }),
+      );
+
+      reply
+        .header('Content-Type', 'application/zip')
+        .header('Content-Disposition', `attachment; filename="${bundle.fileName}"`)
+        .header('Cache-Control', 'no-store');
+      return reply.send(bundle.archive);
+    } catch (error: unknown) {
+      if (error instanceof AuditExportRangeError) {
+        return sendError(reply, 'EXPORT_RANGE_TOO_LARGE', error.message, 422);
+      }
+      fastify.log.error({ err: error }, '[audit-chain] GET /control/audit-logs/export error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to export audit log', 500);
+    }
+  });
+
+  /**
+   * GET /api/control/audit-logs/signing-key
+   * Public half of the audit signing key, for verifying exports offline.
+   */
+  fastify.get('/signing-key', async (_request, reply) => {
+    const { keyId, publicKeyPem } = getAuditChainSigningKey();
+    return sendSuccess(reply, { algorithm: AUDIT_CHAIN_SIGNATURE_ALGORITHM, keyId, publicKeyPem });
+  });
+};
+
+export default controlAuditLogRoutes;
@@ -60,7 +60,7 @@ async function withCertAdminContext<T>(
 
 // ─── Zod Schemas ─────────────────────────────────────────────────────────────
 
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   /** Optional: filter by a specific org UUID */
   orgId:     uuidSchema.optional(),
   /** Optional: filter by lifecycle state key (e.g., SUBMITTED, APPROVED) */
@@ -69,7 +69,7 @@ const listQuerySchema = z.object({
   offset:    z.coerce.number().int().min(0).optional().default(0),
 });
 
-const certIdParamSchema = z.object({ id: uuidSchema });
+export const certIdParamSchema = z.object({ id: uuidSchema });
 
 // ─── Plugin ───────────────────────────────────────────────────────────────────
 
@@ -0,0 +1,242 @@
+/**
+ * Control-plane CRM Notify Outbox Routes — CRM-NOTIFY-OUTBOX-001
+ *
+ * GET  /api/control/crm-outbox                   — list outbox events (filters + cursor)
+ * GET  /api/control/crm-outbox/:eventId          — event detail + delivery attempts
+ * POST /api/control/crm-outbox/:eventId/replay   — re-deliver a DEAD_LETTER / DELIVERED event
+ * POST /api/control/crm-outbox/:eventId/dead-letter — stop delivering a PENDING event
+ *
+ * Auth: adminAuthMiddleware is inherited from the parent control plugin (control.ts addHook).
+ * Replay / dead-letter are restricted to SUPER_ADMIN and audit-logged.
+ *
+ * Privacy: payloads are returned with contact PII masked (maskCrmOutboxPayload).
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import type { PrismaClient, Prisma } from '@prisma/client';
+import { randomUUID } from 'node:crypto';
+import { requireAdminRole } from '../../middleware/auth.js';
+import {
+  sendSuccess,
+  sendError,
+  sendValidationError,
+  sendNotFound,
+} from '../../utils/response.js';
+import { withDbContext, type DatabaseContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog, createAdminAudit } from '../../lib/auditLog.js';
+import {
+  CrmOutboxEventNotFoundError,
+  CrmOutboxEventStateError,
+  deadLetterCrmOutboxEvent,
+  getCrmOutboxEvent,
+  listCrmOutboxEvents,
+  replayCrmOutboxEvent,
+} from '../../services/crmOutbox/crmOutbox.service.js';
+import { maskCrmOutboxPayload } from '../../services/crmOutbox/crmOutbox.contract.js';
+import type { CrmOutboxEventRecord } from '../../services/crmOutbox/crmOutbox.types.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const ADMIN_SENTINEL_ID = '00000000-0000-0000-0000-000000000001';
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
+/**
+ * Admin read context — cross-tenant read access via app.is_admin flag.
+ * Mirrors withAdminContext() in control.ts.
+ */
+async function withCrmOutboxAdminReadContext<T>(
+  callback: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+  const ctx: DatabaseContext = {
+    orgId: ADMIN_SENTINEL_ID,
+    actorId: ADMIN_SENTINEL_ID,
+    realm: 'control',
+    requestId: randomUUID(),
+  };
+  return withDbContext(prisma, ctx, async tx => {
+    await (tx as unknown as PrismaClient).$executeRaw`SET LOCAL app.is_admin = 'true'`;
+    return callback(tx);
+  });
+}
+
+function toAdminView(event: CrmOutboxEventRecord): CrmOutboxEventRecord {
+  return { ...event, payload: maskCrmOutboxPayload(event.payload) };
+}
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+export const eventIdParamSchema = z.object({ eventId: z.string().uuid('Must be a valid UUID') });
+
+export const listQuerySchema = z.object({
+  status: z.enum(['PENDING', 'DELIVERED', 'DEAD_LETTER']).optional(),
+  channel: z.enum(['CRM_LIFECYCLE', 'CRM_TIER0']).optional(),
+  orgId: z.string().uuid().optional(),
+  eventType: z.string().trim().min(1).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().uuid().optional(),
+});
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const controlCrmOutboxRoutes: FastifyPluginAsync = async fastify => {
+  /**
+   * GET /api/control/crm-outbox
+   * List outbox events newest-first. Filters: status, channel, orgId, eventType.
+   */
+  fastify.get('/', async (request, reply) => {
+    if (!request.adminId) {
+      return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+    }
+
+    const queryResult = listQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return sendValidationError(reply, queryResult.error.errors);
+    }
+
+    try {
+      const { events, nextCursor } = await withCrmOutboxAdminReadContext(tx =>
+        listCrmOutboxEvents(tx as unknown as PrismaClient, queryResult.data),
+      );
+
+      return sendSuccess(reply, {
+        events: events.map(toAdminView),
+        count: events.length,
+        next_cursor: nextCursor,
+      });
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[crm-outbox] GET /control/crm-outbox list error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to list CRM outbox events', 500);
+    }
+  });
+
+  /**
+   * GET /api/control/crm-outbox/:eventId
+   * Event detail with its delivery attempt history (oldest first).
+   */
+  fastify.get('/:eventId', async (request, reply) => {
+    if (!request.adminId) {
+      return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+    }
+
+    const paramsResult = eventIdParamSchema.safeParse(request.params);
+    if (!paramsResult.success) {
+      return sendValidationError(reply, paramsResult.error.errors);
+    }
+
+    const { eventId } = paramsResult.data;
+
+    try {
+      const { event, attempts } = await withCrmOutboxAdminReadContext(tx =>
+        getCrmOutboxEvent(tx as unknown as PrismaClient, eventId),
+      );
+
+      return sendSuccess(reply, { event: toAdminView(event), attempts });
+    } catch (error: unknown) {
+      if (error instanceof CrmOutboxEventNotFoundError) {
+        return sendNotFound(reply, 'CRM outbox event not found');
+      }
+      fastify.log.error({ err: error, eventId }, '[crm-outbox] GET /control/crm-outbox/:eventId error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to retrieve CRM outbox event', 500);
+    }
+  });
+
+  /**
+   * POST /api/control/crm-outbox/:eventId/replay
+   * Re-deliver a DEAD_LETTER or DELIVERED event with a fresh attempt budget.
+   * Restricted to SUPER_ADMIN role.
+   */
+  fastify.post(
+    '/:eventId/replay',
+    { preHandler: requireAdminRole('SUPER_ADMIN') },
+    async (request, reply) => {
+      if (!request.adminId) {
+        return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+      }
+
+      const paramsResult = eventIdParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      const { eventId } = paramsResult.data;
+      const adminId = request.adminId;
+
+      try {
+        const event = await replayCrmOutboxEvent(prisma, eventId);
+
+        await writeAuditLog(
+          prisma,
+          createAdminAudit(adminId, 'control.crm_outbox.replayed', 'crm_outbox_events', {
+            eventId,
+            channel: event.channel,
+            eventType: event.eventType,
+            orgId: event.orgId,
+          }),
+        );
+
+        return sendSuccess(reply, { event: toAdminView(event) });
+      } catch (error: unknown) {
+        if (error instanceof CrmOutboxEventNotFoundError) {
+          return sendNotFound(reply, 'CRM outbox event not found');
+        }
+        if (error instanceof CrmOutboxEventStateError) {
+          return sendError(reply, 'CONFLICT', error.message, 409);
+        }
+        fastify.log.error({ err: error, eventId, adminId }, '[crm-outbox] POST /control/crm-outbox/:eventId/replay error');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to replay CRM outbox event', 500);
+      }
+    },
+  );
+
+  /**
+   * POST /api/control/crm-outbox/:eventId/dead-letter
+   * Stop delivering a PENDING event. Restricted to SUPER_ADMIN role.
+   */
+  fastify.post(
+    '/:eventId/dead-letter',
+    { preHandler: requireAdminRole('SUPER_ADMIN') },
+    async (request, reply) => {
+      if (!request.adminId) {
+        return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+      }
+
+      const paramsResult = eventIdParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      const { eventId } = paramsResult.data;
+      const adminId = request.adminId;
+
+      try {
+        const event = await deadLetterCrmOutboxEvent(prisma, eventId);
+
+        await writeAuditLog(
+          prisma,
+          createAdminAudit(adminId, 'control.crm_outbox.dead_lettered', 'crm_outbox_events', {
+            eventId,
+            channel: event.channel,
+            eventType: event.eventType,
+            orgId: event.orgId,
+          }),
+        );
+
+        return sendSuccess(reply, { event: toAdminView(event) });
+      } catch (error: unknown) {
+        if (error instanceof CrmOutboxEventNotFoundError) {
+          return sendNotFound(reply, 'CRM outbox event not found');
+        }
+        if (error instanceof CrmOutboxEventStateError) {
+          return sendError(reply, 'CONFLICT', error.message, 409);
+        }
+        fastify.log.error({ err: error, eventId, adminId }, '[crm-outbox] POST /control/crm-outbox/:eventId/dead-letter error');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to dead-letter CRM outbox event', 500);
+      }
+    },
+  );
+};
+
+export default controlCrmOutboxRoutes;
@@ -40,7 +40,7 @@ import type { PrismaClient } from '@prisma/client';
 // ─── Shared Zod schemas ────────────────────────────────────────────────────────
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
-const escalationIdParam = z.object({ id: uuidSchema });
+export const escalationIdParam = z.object({ id: uuidSchema });
 
 const severitySchema = z
   .number()
@@ -68,7 +68,7 @@ const sourceSchema = z.enum(['STATE_MACHINE', 'APPROVAL', 'MANUAL', 'SYSTEM']);
 
 // ─── Route body schemas ────────────────────────────────────────────────────────
 
-const createBodySchema = z.object({
+export const createBodySchema = z.object({
   /** Target org for the escalation — admin specifies explicitly */
   orgId:                  uuidSchema,
   entityType:             entityTypeSchema,
@@ -81,19 +81,19 @@ const createBodySchema = z.object({
   freezeRecommendation:   z.boolean().optional(),
 });
 
-const upgradeBodySchema = z.object({
+export const upgradeBodySchema = z.object({
   newSeverityLevel:       severitySchema,
   reason:                 z.string().min(1).max(2000).trim(),
   source:                 sourceSchema.optional().default('MANUAL'),
   triggeredByActorType:   actorTypeSchema.optional().default('PLATFORM_ADMIN'),
 });
 
-const resolveBodySchema = z.object({
+export const resolveBodySchema = z.object({
   resolutionStatus:   z.enum(['RESOLVED', 'OVERRIDDEN']),
   reason:             z.string().min(1).max(2000).trim(),
 });
 
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   orgId:       uuidSchema.optional(),
   entityType:  entityTypeSchema.optional(),
   entityId:    uuidSchema.optional(),
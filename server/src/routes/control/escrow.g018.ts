@@ -19,6 +19,7 @@ import { z } from 'zod';
 import type { PrismaClient, Prisma } from '@prisma/client';
 import { randomUUID } from 'node:crypto';
 import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
+import { requireMfaStepUp } from '../../middleware/mfaStepUp.js';
 import { withDbContext, type DatabaseContext } from '../../lib/database-context.js';
 import { prisma } from '../../db/prisma.js';
 import { writeAuditLog, createAdminAudit } from '../../lib/auditLog.js';
@@ -82,16 +83,16 @@ async function withEscrowAdminContext<T>(
 
 // ─── Zod Schemas ─────────────────────────────────────────────────────────────
 
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   tenantId: uuidSchema.optional(),
   limit:    z.coerce.number().int().min(1).max(200).optional().default(50),
   offset:   z.coerce.number().int().min(0).optional().default(0),
 });
 
-const escrowIdParamSchema = z.object({ escrowId: uuidSchema });
+export const escrowIdParamSchema = z.object({ escrowId: uuidSchema });
 
 // G-021 Fix B: transition body schema mirrors tenant plane pattern
-const transitionEscrowBodySchema = z.object({
+export const transitionEscrowBodySchema = z.object({
   /** Target org for RLS context — admin provides explicitly. */
   orgId:       uuidSchema,
   toStateKey:  z.string().min(1).max(100).trim().toUpperCase(),
@@ -218,9 +219,11 @@ const controlEscrowRoutes: FastifyPluginAsync = async fastify => {
    * PENDING_APPROVAL transitions create pending_approvals rows.
    * D-022-B: Freeze gate enforced by EscrowService.transitionEscrow().
    * Audit emitted atomically in the same Prisma transaction.
+   * MFA-001: step-up required (401 MFA_STEP_UP_REQUIRED) when the admin has a factor enrolled.
    */
   fastify.post(
     '/:escrowId/transition',
+    { preHandler: requireMfaStepUp },
     async (request, reply) => {
       const adminId = request.adminId ?? ADMIN_SENTINEL_ID;
 
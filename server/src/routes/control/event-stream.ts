@@ -0,0 +1,94 @@
+/**
+ * Control-plane Live Event Stream — EVENT-STREAM-001
+ *
+ * GET /api/control/events/stream — server-sent stream of new event_logs rows
+ *
+ * Query filters: name_prefix, tenant_id, realm. Reconnecting clients send the last
+ * event id they saw as the Last-Event-ID header (or ?last_event_id= where headers
+ * cannot be set) and resume after it. The paged history stays at GET /api/control/events.
+ *
+ * Auth: adminAuthMiddleware is inherited from the parent control plugin (control.ts addHook).
+ * Opening a stream is audit-logged like GET /api/control/events; individual frames are not.
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { sendError, sendValidationError } from '../../utils/response.js';
+import { createSseStream } from '../../utils/sse.js';
+import { withAdminContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog, createAdminAudit } from '../../lib/auditLog.js';
+import {
+  EVENT_STREAM_RETRY_MS,
+  eventStreamConnections,
+  runEventStream,
+} from '../../services/eventStream/eventStream.service.js';
+import type { EventStreamReader } from '../../services/eventStream/eventStream.types.js';
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+export const controlEventStreamQuerySchema = z.object({
+  name_prefix: z.string().min(1).max(100, 'name_prefix too long').optional(),
+  tenant_id: z.string().uuid('Invalid tenant_id format').optional(),
+  realm: z.enum(['ADMIN', 'TENANT']).optional(),
+  last_event_id: z.string().uuid('Invalid last_event_id format').optional(),
+});
+
+const lastEventIdHeaderSchema = z.string().uuid('Invalid Last-Event-ID header').optional();
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const controlEventStreamRoutes: FastifyPluginAsync = async fastify => {
+  /**
+   * GET /api/control/events/stream
+   * Events: ready, event_log (id = event id), reconnect, error.
+   */
+  fastify.get('/stream', async (request, reply) => {
+    if (!request.adminId) {
+      return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+    }
+    const adminId = request.adminId;
+
+    const queryResult = controlEventStreamQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return sendValidationError(reply, queryResult.error.errors);
+    }
+    const headerResult = lastEventIdHeaderSchema.safeParse(request.headers['last-event-id']);
+    if (!headerResult.success) {
+      return sendValidationError(reply, headerResult.error.errors);
+    }
+    const { name_prefix, tenant_id, realm, last_event_id } = queryResult.data;
+    const filter = { namePrefix: name_prefix, tenantId: tenant_id, realm };
+    const lastEventId = headerResult.data ?? last_event_id ?? null;
+
+    const release = eventStreamConnections.acquire(`ADMIN:${adminId}`);
+    if (!release) {
+      return sendError(reply, 'TOO_MANY_STREAMS', 'Too many open event streams', 429);
+    }
+
+    const reader: EventStreamReader = fn => withAdminContext(prisma, fn);
+    const stream = createSseStream(reply, { retryMs: EVENT_STREAM_RETRY_MS });
+    try {
+      await writeAuditLog(prisma, createAdminAudit(adminId, 'control.events.stream', 'event_log', {
+        filterNamePrefix: name_prefix ?? null,
+        filterTenantId: tenant_id ?? null,
+        filterRealm: realm ?? null,
+        lastEventId,
+      }));
+
+      const summary = await runEventStream(stream, reader, filter, lastEventId);
+      fastify.log.info({ adminId, ...summary }, '[event-stream] control stream ended');
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[event-stream] GET /control/events/stream error');
+      if (!stream.opened) {
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to open event stream', 500);
+      }
+      stream.fail('INTERNAL_ERROR', 'Event stream failed');
+    } finally {
+      release();
+    }
+    return reply;
+  });
+};
+
+export default controlEventStreamRoutes;
@@ -0,0 +1,232 @@
+/**
+ * Control-plane FX Rate Routes — FX-RATES-001
+ *
+ * GET  /api/control/fx-rates          — list stored rates (filter by pair)
+ * POST /api/control/fx-rates          — upload rates (JSON rows or CSV text) (SUPER_ADMIN)
+ * GET  /api/control/fx-rates/convert  — preview a conversion with its rate reference
+ *
+ * Auth: adminAuthMiddleware is inherited from the parent control plugin (control.ts addHook).
+ * fx_rates is insert-only: an upload that contradicts a stored rate for the same pair and
+ * effective date is rejected (409) — corrections go on a later effective date. Identical
+ * rows are skipped so re-uploading a file is harmless. Scheduled loads use
+ * scripts/fx-load-feed.ts (source FILE_FEED); uploads here are recorded as MANUAL.
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import type { PrismaClient, Prisma } from '@prisma/client';
+import { randomUUID } from 'node:crypto';
+import { requireAdminRole } from '../../middleware/auth.js';
+import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
+import { withDbContext, type DatabaseContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog, createAdminAudit } from '../../lib/auditLog.js';
+import {
+  FX_RATE_MAX_ROWS_PER_LOAD,
+  FxRateConflictError,
+  FxRateService,
+  FxRateUnavailableError,
+  FxRateValidationError,
+  parseFxRateCsv,
+} from '../../services/fx/fxRate.service.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const ADMIN_SENTINEL_ID = '00000000-0000-0000-0000-000000000001';
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
+/**
+ * Admin context — app.is_admin satisfies the fx_rates insert policy.
+ * Mirrors withAdminContext() in control.ts.
+ */
+async function withFxRatesAdminContext<T>(
+  adminId: string,
+  callback: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+  const ctx: DatabaseContext = {
+    orgId: ADMIN_SENTINEL_ID,
+    actorId: adminId,
+    realm: 'control',
+    requestId: randomUUID(),
+  };
+  return withDbContext(prisma, ctx, async tx => {
+    await (tx as unknown as PrismaClient).$executeRaw`SET LOCAL app.is_admin = 'true'`;
+    return callback(tx);
+  });
+}
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+const currencyCodeSchema = z
+  .string()
+  .trim()
+  .transform(v => v.toUpperCase())
+  .pipe(z.string().regex(/^[A-Z]{3}$/, 'Must be an ISO 4217 currency code'));
+
+export const listQuerySchema = z.object({
+  base: currencyCodeSchema.optional(),
+  quote: currencyCodeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const rateRowSchema = z.object({
+  baseCurrency: currencyCodeSchema,
+  quoteCurrency: currencyCodeSchema,
+  rate: z.union([z.number().positive(), z.string().trim().min(1)]),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'effectiveDate must be YYYY-MM-DD'),
+});
+
+export const uploadBodySchema = z
+  .object({
+    rates: z.array(rateRowSchema).min(1).max(FX_RATE_MAX_ROWS_PER_LOAD).optional(),
+    /** CSV text with header base_currency,quote_currency,rate,effective_date. */
+    csv: z.string().min(1).max(1_000_000).optional(),
+    sourceReference: z.string().trim().max(255).optional(),
+  })
+  .refine(body => (body.rates === undefined) !== (body.csv === undefined), {
+    message: 'Provide exactly one of rates or csv',
+  });
+
+export const convertQuerySchema = z.object({
+  amount: z.coerce.number().positive(),
+  from: currencyCodeSchema,
+  to: currencyCodeSchema,
+  asOf: z.coerce.date().optional(),
+});
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const controlFxRateRoutes: FastifyPluginAsync = async fastify => {
+  /**
+   * GET /api/control/fx-rates
+   * Newest effective date first.
+   */
+  fastify.get('/', async (request, reply) => {
+    if (!request.adminId) {
+      return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+    }
+
+    const queryResult = listQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return sendValidationError(reply, queryResult.error.errors);
+    }
+
+    const { base, quote, limit, offset } = queryResult.data;
+
+    try {
+      const rates = await withFxRatesAdminContext(request.adminId, tx =>
+        new FxRateService(tx as unknown as PrismaClient).listRates({
+          baseCurrency: base,
+          quoteCurrency: quote,
+          limit,
+          offset,
+        }),
+      );
+      return sendSuccess(reply, { rates, count: rates.length, limit, offset });
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[fx-rates] GET /control/fx-rates error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to list FX rates', 500);
+    }
+  });
+
+  /**
+   * POST /api/control/fx-rates
+   * Upload rates. All-or-nothing. Restricted to SUPER_ADMIN role.
+   */
+  fastify.post('/', { preHandler: requireAdminRole('SUPER_ADMIN') }, async (request, reply) => {
+    if (!request.adminId) {
+      return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+    }
+
+    const bodyResult = uploadBodySchema.safeParse(request.body);
+    if (!bodyResult.success) {
+      return sendValidationError(reply, bodyResult.error.errors);
+    }
+
+    const { rates, csv, sourceReference } = bodyResult.data;
+    const adminId = request.adminId;
+
+    let rows = rates ?? [];
+    if (csv !== undefined) {
+      const parsed = parseFxRateCsv(csv);
+      if (parsed.errors.length > 0) {
+        return sendError(reply, 'VALIDATION_ERROR', 'CSV contains invalid rows', 400, {
+          errors: parsed.errors,
+        });
+      }
+      rows = parsed.rows;
+    }
+
+    try {
+      const result = await withFxRatesAdminContext(adminId, async tx => {
+        const recorded = await new FxRateService(tx as unknown as PrismaClient).recordRates({
+          rows,
+          source: 'MANUAL',
+          sourceReference: sourceReference ?? null,
+          createdByAdminId: adminId,
+        });
+
+        await writeAuditLog(
+          tx as unknown as PrismaClient,
+          createAdminAudit(adminId, 'control.fx_rates.uploaded', 'fx_rate', {
+            inserted: recorded.inserted.length,
+            unchanged: recorded.unchanged,
+            sourceReference: sourceReference ?? null,
+            fxRateIds: recorded.inserted.map(row => row.id),
+          }),
+        );
+
+        return recorded;
+      });
+
+      return sendSuccess(
+        reply,
+        { inserted: result.inserted, insertedCount: result.inserted.length, unchanged: result.unchanged },
+        201,
+      );
+    } catch (error: unknown) {
+      if (error instanceof FxRateValidationError) {
+        return sendError(reply, 'VALIDATION_ERROR', error.message, 400);
+      }
+      if (error instanceof FxRateConflictError) {
+        return sendError(reply, 'FX_RATE_CONFLICT', error.message, 409, { conflicts: error.conflicts });
+      }
+      fastify.log.error({ err: error }, '[fx-rates] POST /control/fx-rates error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to record FX rates', 500);
+    }
+  });
+
+  /**
+   * GET /api/control/fx-rates/convert
+   * Dry-run conversion: converted amount + the rate reference it would be audited with.
+   */
+  fastify.get('/convert', async (request, reply) => {
+    if (!request.adminId) {
+      return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+    }
+
+    const queryResult = convertQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return sendValidationError(reply, queryResult.error.errors);
+    }
+
+    const { amount, from, to, asOf } = queryResult.data;
+
+    try {
+      const conversion = await withFxRatesAdminContext(request.adminId, tx =>
+        new FxRateService(tx as unknown as PrismaClient).convert(amount, from, to, asOf ?? new Date()),
+      );
+      return sendSuccess(reply, { conversion });
+    } catch (error: unknown) {
+      if (error instanceof FxRateUnavailableError) {
+        return sendError(reply, 'FX_RATE_UNAVAILABLE', error.message, 404);
+      }
+      fastify.log.error({ err: error }, '[fx-rates] GET /control/fx-rates/convert error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to convert amount', 500);
+    }
+  });
+};
+
+export default controlFxRateRoutes;
@@ -0,0 +1,141 @@
+/**
+ * Control-plane Governance Expiry Routes — GOV-EXPIRY-SWEEP-001
+ *
+ * GET  /api/control/governance/expiry-sweep/preview — dry run: what the next sweep would record
+ * POST /api/control/governance/expiry-sweep/run     — run a sweep now (SUPER_ADMIN)
+ *
+ * Auth: adminAuthMiddleware is inherited from the parent control plugin (control.ts addHook).
+ * The scheduled sweep runs as the 'governance.expiry.sweep' job; /run only brings it
+ * forward (same idempotent GovernanceExpiryService.runSweep) and is audit-logged.
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import type { PrismaClient, Prisma } from '@prisma/client';
+import { randomUUID } from 'node:crypto';
+import { requireAdminRole } from '../../middleware/auth.js';
+import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
+import { withDbContext, type DatabaseContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog, createAdminAudit } from '../../lib/auditLog.js';
+import {
+  GOVERNANCE_SWEEP_BATCH_LIMIT,
+  GovernanceExpiryService,
+} from '../../services/governanceExpiry.service.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const ADMIN_SENTINEL_ID = '00000000-0000-0000-0000-000000000001';
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
+/**
+ * Admin read context — cross-tenant read access via app.is_admin flag.
+ * Mirrors withAdminContext() in control.ts.
+ */
+async function withGovernanceExpiryAdminReadContext<T>(
+  callback: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+  const ctx: DatabaseContext = {
+    orgId: ADMIN_SENTINEL_ID,
+    actorId: ADMIN_SENTINEL_ID,
+    realm: 'control',
+    requestId: randomUUID(),
+  };
+  return withDbContext(prisma, ctx, async tx => {
+    await (tx as unknown as PrismaClient).$executeRaw`SET LOCAL app.is_admin = 'true'`;
+    return callback(tx);
+  });
+}
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+export const previewQuerySchema = z.object({
+  /** Evaluate the sweep as of this instant (default now) — e.g. "what expires by tomorrow". */
+  asOf: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(GOVERNANCE_SWEEP_BATCH_LIMIT).optional(),
+});
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const controlGovernanceExpiryRoutes: FastifyPluginAsync = async fastify => {
+  /**
+   * GET /api/control/governance/expiry-sweep/preview
+   * Dry-run report. Writes nothing.
+   */
+  fastify.get('/expiry-sweep/preview', async (request, reply) => {
+    if (!request.adminId) {
+      return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+    }
+
+    const queryResult = previewQuerySchema.safeParse(request.query);
+    if (!queryResult.success) {
+      return sendValidationError(reply, queryResult.error.errors);
+    }
+
+    const { asOf, limit } = queryResult.data;
+
+    try {
+      const plan = await withGovernanceExpiryAdminReadContext(tx =>
+        new GovernanceExpiryService(tx as unknown as PrismaClient).planSweep(asOf, limit),
+      );
+
+      return sendSuccess(reply, {
+        as_of: plan.asOf.toISOString(),
+        approvals_to_expire: plan.approvals,
+        sanctions_to_decay: plan.sanctions,
+        approval_count: plan.approvals.length,
+        sanction_count: plan.sanctions.length,
+        truncated: plan.truncated,
+      });
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[gov-expiry] GET /control/governance/expiry-sweep/preview error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to build governance expiry preview', 500);
+    }
+  });
+
+  /**
+   * POST /api/control/governance/expiry-sweep/run
+   * Run a sweep immediately. Restricted to SUPER_ADMIN role.
+   */
+  fastify.post(
+    '/expiry-sweep/run',
+    { preHandler: requireAdminRole('SUPER_ADMIN') },
+    async (request, reply) => {
+      if (!request.adminId) {
+        return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+      }
+
+      const adminId = request.adminId;
+
+      try {
+        const result = await new GovernanceExpiryService(prisma).runSweep();
+
+        await writeAuditLog(
+          prisma,
+          createAdminAudit(adminId, 'control.governance_expiry.sweep_run', 'governance_expiry', {
+            sweepRunId: result.sweepRunId,
+            approvalsExpired: result.approvalsExpired,
+            sanctionsDecayed: result.sanctionsDecayed,
+            skipped: result.skipped,
+          }),
+        );
+
+        return sendSuccess(reply, {
+          sweep_run_id: result.sweepRunId,
+          as_of: result.asOf.toISOString(),
+          approvals_expired: result.approvalsExpired,
+          sanctions_decayed: result.sanctionsDecayed,
+          skipped: result.skipped,
+          notifications: result.notifications,
+          truncated: result.truncated,
+        });
+      } catch (error: unknown) {
+        fastify.log.error({ err: error, adminId }, '[gov-expiry] POST /control/governance/expiry-sweep/run error');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to run governance expiry sweep', 500);
+      }
+    },
+  );
+};
+
+export default controlGovernanceExpiryRoutes;
@@ -95,9 +95,9 @@ async function withGstAdminWriteContext<T>(
 
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
-const orgIdParamSchema = z.object({ orgId: uuidSchema });
+export const orgIdParamSchema = z.object({ orgId: uuidSchema });
 
-const reviewBodySchema = z.object({
+export const reviewBodySchema = z.object({
   review_outcome: z.enum([
     TTP_GST_REVIEW_OUTCOME.APPROVED,
     TTP_GST_REVIEW_OUTCOME.REJECTED,
@@ -41,6 +41,7 @@ import {
   InvoiceTransitionNotAllowedError,
   InvoiceMakerCheckerRequiredError,
 } from '../../services/invoice.service.js';
+import { FxRateService } from '../../services/fx/fxRate.service.js';
 import {
   TTP_INVOICE_STATE,
 } from '../../ttp/ttp.constants.js';
@@ -103,9 +104,9 @@ async function withInvoiceAdminWriteContext<T>(
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
 
-const invoiceIdParamSchema = z.object({ invoiceId: uuidSchema });
+export const invoiceIdParamSchema = z.object({ invoiceId: uuidSchema });
 
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   org_id: uuidSchema.optional(),
   trade_id: uuidSchema.optional(),
   state_key: z.string().optional(),
@@ -113,7 +114,7 @@ const listQuerySchema = z.object({
   offset: z.coerce.number().int().min(0).optional(),
 });
 
-const transitionBodySchema = z.object({
+export const transitionBodySchema = z.object({
   to_state_key: z.enum(
     [
       TTP_INVOICE_STATE.UNDER_REVIEW,
@@ -217,7 +218,8 @@ const controlInvoiceRoutes: FastifyPluginAsync = async fastify => {
         orgId = invoiceForOrg.org_id;
 
         const record = await withInvoiceAdminWriteContext(orgId, adminId, async tx => {
-          const svc = new InvoiceService(makeTxBoundPrisma(tx));
+          const txBound = makeTxBoundPrisma(tx);
+          const svc = new InvoiceService(txBound, new FxRateService(txBound));
           return svc.adminTransition(adminId, invoiceId, {
             to_state_key,
             reason,
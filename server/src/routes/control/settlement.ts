@@ -48,6 +48,7 @@ import { TradeService } from '../../services/trade.g017.service.js';
 import { EscalationService } from '../../services/escalation.service.js';
 import { StateMachineService } from '../../services/stateMachine.service.js';
 import { MakerCheckerService } from '../../services/makerChecker.service.js';
+import { FxRateService } from '../../services/fx/fxRate.service.js';
 import { SanctionsService } from '../../services/sanctions.service.js';
 import {
   SettlementService,
@@ -104,7 +105,7 @@ async function withSettlementAdminContext<T>(
 
 // ─── Zod Schemas ─────────────────────────────────────────────────────────────
 
-const previewBodySchema = z.object({
+export const previewBodySchema = z.object({
   /**
    * Control plane: admin explicitly names the target tenant.
    * If omitted, the ADMIN_SENTINEL_ID is used as the org context
@@ -117,7 +118,7 @@ const previewBodySchema = z.object({
   currency: z.string().min(1, 'currency is required').max(10).trim(),
 });
 
-const settleBodySchema = z.object({
+export const settleBodySchema = z.object({
   /**
    * Control plane: admin explicitly names the target tenant for RLS context.
    * MUST be provided to correctly scope the settlement transaction.
@@ -141,7 +142,7 @@ const settleBodySchema = z.object({
  * PW5-W3: Query parameters for GET /api/control/settlements.
  * All filters are optional — admin reads cross-tenant by default.
  */
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   tenantId:    uuidSchema.optional(),
   escrowId:    uuidSchema.optional(),
   referenceId: z.string().min(1).max(500).trim().optional(),
@@ -168,7 +169,10 @@ function settlementErrorToStatus(code: string): number {
       return 409;
     case 'AI_HUMAN_CONFIRMATION_REQUIRED':
     case 'INVALID_AMOUNT':
+    case 'CURRENCY_MISMATCH':
       return 400;
+    case 'FX_RATE_UNAVAILABLE':
+      return 422;
     case 'DB_ERROR':
       return 500;
     default:
@@ -212,7 +216,7 @@ const controlSettlementRoutes: FastifyPluginAsync = async fastify => {
           const tradeSvc      = new TradeService(txBound, smSvc, escalationSvc, undefined, sanctionsSvc);
           const boundAudit: WriteAuditLogFn = (db, entry) => writeAuditLog(db, entry);
           const settlementSvc = new SettlementService(
-            txBound, tradeSvc, escrowSvc, escalationSvc, boundAudit,
+            txBound, tradeSvc, escrowSvc, escalationSvc, boundAudit, new FxRateService(txBound),
           );
 
           return settlementSvc.previewSettlement({
@@ -233,6 +237,7 @@ const controlSettlementRoutes: FastifyPluginAsync = async fastify => {
           currentBalance:   result.currentBalance,
           projectedBalance: result.projectedBalance,
           wouldSucceed:     result.wouldSucceed,
+          conversion:       result.conversion ?? null,
         });
       } catch (err) {
         fastify.log.error({ err }, '[G-019] POST /control/settlements/preview error');
@@ -275,7 +280,7 @@ const controlSettlementRoutes: FastifyPluginAsync = async fastify => {
           const tradeSvc      = new TradeService(txBound, smSvc, escalationSvc, undefined, sanctionsSvc);
           const boundAudit: WriteAuditLogFn = (db, entry) => writeAuditLog(db, entry);
           const settlementSvc = new SettlementService(
-            txBound, tradeSvc, escrowSvc, escalationSvc, boundAudit,
+            txBound, tradeSvc, escrowSvc, escalationSvc, boundAudit, new FxRateService(txBound),
           );
 
           return settlementSvc.settleTrade({
@@ -300,6 +305,7 @@ const controlSettlementRoutes: FastifyPluginAsync = async fastify => {
             transactionId:  result.transactionId,
             escrowReleased: result.escrowReleased,
             tradeClosed:    result.tradeClosed,
+            conversion:     result.conversion ?? null,
           }, 200);
         }
 
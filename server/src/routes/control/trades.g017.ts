@@ -84,14 +84,14 @@ async function withTradeAdminContext<T>(
 
 // ─── Zod schemas ──────────────────────────────────────────────────────────────
 
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   tenantId:  uuidSchema.optional(),
   status:    z.enum(['DRAFT', 'ACTIVE', 'SETTLED', 'DISPUTED', 'CANCELLED']).optional(),
   limit:     z.coerce.number().int().min(1).max(200).optional().default(50),
   offset:    z.coerce.number().int().min(0).optional().default(0),
 });
 
-const transitionBodySchema = z.object({
+export const transitionBodySchema = z.object({
   /** Target org for RLS context — admin provides explicitly (trade row is authoritative). */
   orgId:      uuidSchema,
   toStateKey: z.string().min(1).max(100).trim().toUpperCase(),
@@ -100,7 +100,7 @@ const transitionBodySchema = z.object({
   aiTriggered: z.boolean().optional().default(false),
 });
 
-const tradeIdParamSchema = z.object({ id: uuidSchema });
+export const tradeIdParamSchema = z.object({ id: uuidSchema });
 
 // ─── Plugin ───────────────────────────────────────────────────────────────────
 
@@ -108,9 +108,9 @@ async function withTtpAdminWriteContext<T>(
 
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
-const orgIdParamSchema = z.object({ orgId: uuidSchema });
+export const orgIdParamSchema = z.object({ orgId: uuidSchema });
 
-const createAssessmentBodySchema = z.object({
+export const createAssessmentBodySchema = z.object({
   risk_tier: z.number().int().min(0).max(3),
   eligibility_outcome: z.enum([
     TTP_ELIGIBILITY_OUTCOME.ELIGIBLE,
@@ -93,16 +93,16 @@ async function withAdminWriteContext<T>(
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
-const tradeIdParamSchema = z.object({ tradeId: uuidSchema });
+export const tradeIdParamSchema = z.object({ tradeId: uuidSchema });
 
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   status: z.string().optional(),
   orgId: z.string().uuid().optional(),
   tradeId: z.string().uuid().optional(),
   limit: z.coerce.number().min(1).max(200).default(50),
 });
 
-const reviewBodySchema = z.object({
+export const reviewBodySchema = z.object({
   outcome: z.enum([
     TTP_ENROLLMENT_REVIEW_OUTCOME.APPROVED,
     TTP_ENROLLMENT_REVIEW_OUTCOME.REJECTED,
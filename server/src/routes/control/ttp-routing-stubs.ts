@@ -90,7 +90,7 @@ async function withPartnerRoutingWriteContext<T>(
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
-const vpcIdParamSchema = z.object({ vpcId: uuidSchema });
+export const vpcIdParamSchema = z.object({ vpcId: uuidSchema });
 
 // ─── Plugin ───────────────────────────────────────────────────────────────────
 
@@ -42,12 +42,14 @@ import {
   VpcEligibilityExpiredError,
   VpcRiskTierBlockedError,
   VpcAmountExceedsCapError,
+  VpcFxRateUnavailableError,
   VpcDueDateMissingError,
   VpcDuplicateError,
   VpcNotFoundError,
   VpcTransitionNotAllowedError,
   VpcTerminalStateError,
 } from '../../services/vpc.service.js';
+import { FxRateService } from '../../services/fx/fxRate.service.js';
 import {
   TtpScoreSnapshotService,
   TTP_SCORE_TRIGGER_EVENT,
@@ -105,10 +107,10 @@ async function withVpcAdminWriteContext<T>(
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
 
-const invoiceIdParamSchema = z.object({ invoiceId: uuidSchema });
-const vpcIdParamSchema = z.object({ vpcId: uuidSchema });
+export const invoiceIdParamSchema = z.object({ invoiceId: uuidSchema });
+export const vpcIdParamSchema = z.object({ vpcId: uuidSchema });
 
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   org_id: uuidSchema.optional(),
   invoice_id: uuidSchema.optional(),
   trade_id: uuidSchema.optional(),
@@ -117,7 +119,7 @@ const listQuerySchema = z.object({
   offset: z.coerce.number().int().min(0).optional(),
 });
 
-const transitionBodySchema = z.object({
+export const transitionBodySchema = z.object({
   to_state_key: z.enum(
     [
       TTP_VPC_STATE.ROUTING_READY,
@@ -222,7 +224,8 @@ const controlVpcRoutes: FastifyPluginAsync = async fastify => {
         if (!invoiceSnap) return sendNotFound(reply, `Invoice not found: ${invoiceId}`);
 
         const record = await withVpcAdminWriteContext(invoiceSnap.org_id, adminId, async tx => {
-          const svc = new VpcService(makeTxBoundPrisma(tx));
+          const txBound = makeTxBoundPrisma(tx);
+          const svc = new VpcService(txBound, new FxRateService(txBound));
           return svc.generateVpc(invoiceId, adminId);
         });
 
@@ -233,6 +236,7 @@ const controlVpcRoutes: FastifyPluginAsync = async fastify => {
             vpc_id: record.id,
             vpc_reference: record.vpc_reference,
             org_id: record.org_id,
+            cap_check: record.cap_check ?? null,
           }),
         );
 
@@ -290,6 +294,8 @@ const controlVpcRoutes: FastifyPluginAsync = async fastify => {
           return sendError(reply, 'RISK_TIER_BLOCKED', err.message, 422);
         if (err instanceof VpcAmountExceedsCapError)
           return sendError(reply, 'AMOUNT_EXCEEDS_CAP', err.message, 422);
+        if (err instanceof VpcFxRateUnavailableError)
+          return sendError(reply, 'FX_RATE_UNAVAILABLE', err.message, 422);
         if (err instanceof VpcDueDateMissingError)
           return sendError(reply, 'DUE_DATE_MISSING', err.message, 422);
         if (err instanceof VpcDuplicateError)
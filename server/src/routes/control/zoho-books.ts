@@ -125,7 +125,7 @@ function sanitizeErrorSummary(raw: string | null | undefined): string | null {
 
 // ─── Query schemas ────────────────────────────────────────────────────────────
 
-const contactsQuerySchema = z.object({
+export const contactsQuerySchema = z.object({
   syncStatus: z
     .enum(['SYNC_SUCCESS', 'SYNC_FAILED', 'NOT_SYNCED'])
     .optional(),
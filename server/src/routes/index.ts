@@ -0,0 +1,77 @@
+/**
+ * API-DOCS-OPENAPI-001 — Route Registration Aggregator
+ *
+ * Single place that registers every HTTP route of the API. Used by
+ * server/src/index.ts at boot and by the OpenAPI contract test, which
+ * enumerates the registered routes and requires each one to be documented
+ * in server/src/openapi/operations/*.
+ *
+ * Both functions register on the instance passed in (no plugin wrapper), so
+ * calling them from index.ts keeps the exact registration order and hook
+ * encapsulation the server had when the calls were inline.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import authRoutes from './auth.js';
+import controlRoutes from './control.js';
+import tenantRoutes from './tenant.js';
+import publicRoutes from './public.js';
+import publicSeoRoutes from './publicSeo.js';
+import adminCartSummariesRoutes from './admin-cart-summaries.js';
+import aiRoutes from './ai.js';
+import tenantProvisionRoutes from './admin/tenantProvision.js';
+import impersonationRoutes from './admin/impersonation.js';
+import internalGovRoutes from './internal/index.js';
+import { controlOpenApiRoutes, publicOpenApiRoutes } from './openapi.js';
+
+/**
+ * Liveness routes: GET /health and GET /.
+ * Registered before the global onRequest hooks in index.ts.
+ */
+export function registerSystemRoutes(fastify: FastifyInstance): void {
+  // Health check
+  fastify.get('/health', async () => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  });
+
+  // Root route
+  fastify.get('/', async () => {
+    return {
+      name: 'TexQtic API',
+      version: '0.1.0',
+      status: 'running',
+    };
+  });
+}
+
+/**
+ * Realm route plugins (public, auth, control, tenant, internal).
+ */
+export async function registerApiRoutes(fastify: FastifyInstance): Promise<void> {
+  await fastify.register(publicRoutes, { prefix: '/api/public' });
+  // PUBLIC-SEO-SITEMAP-SERVER-001: crawler-facing /robots.txt, /sitemap.xml, /sitemaps/* (no prefix)
+  await fastify.register(publicSeoRoutes);
+  await fastify.register(authRoutes, { prefix: '/api/auth' });
+  await fastify.register(controlRoutes, { prefix: '/api/control' });
+  await fastify.register(tenantRoutes, { prefix: '/api' });
+  await fastify.register(adminCartSummariesRoutes, { prefix: '/api/control/marketplace' });
+  await fastify.register(aiRoutes, { prefix: '/api/ai' });
+  // G-008: Canonical admin tenant provisioning (Doctrine v1.4)
+  // Registered under /api/control (admin realm, mapped in realmGuard ENDPOINT_REALM_MAP)
+  // Note: /api/admin was originally chosen but is unmapped in realmGuard → WRONG_REALM.
+  // Option B resolution: use /api/control (already mapped as admin realm). No realmGuard change.
+  await fastify.register(tenantProvisionRoutes, { prefix: '/api/control' });
+  // G-011: Control-plane impersonation routes (admin realm)
+  // Routes: POST /api/control/impersonation/start, POST /api/control/impersonation/stop,
+  //         GET  /api/control/impersonation/status/:id
+  await fastify.register(impersonationRoutes, { prefix: '/api/control' });
+  // G-021 Day 3: Internal governance routes (maker-checker queues + replay)
+  // Tenant endpoints: /api/internal/gov/*  (X-Texqtic-Internal: true + tenant JWT)
+  // Admin endpoints:  /api/control/internal/gov/* (X-Texqtic-Internal: true + admin JWT)
+  // No prefix argument — plugin manages its own /api/* absolute paths.
+  await fastify.register(internalGovRoutes);
+  // API-DOCS-OPENAPI-001: generated OpenAPI 3.1 documents
+  // GET /api/public/openapi.json (public realm), GET /api/control/openapi[/:realm] (admin)
+  await fastify.register(publicOpenApiRoutes, { prefix: '/api/public' });
+  await fastify.register(controlOpenApiRoutes, { prefix: '/api/control' });
+}
@@ -41,7 +41,7 @@ const prohibitedFields = new Set([
   'escrow_account_id',
 ]);
 
-const payloadSchema = z
+export const payloadSchema = z
   .object({
     eventName: z.literal('public_supplier_profile.provision_requested.v1'),
     eventId: z.string().trim().min(1).max(255),
@@ -31,7 +31,7 @@
  *
  *   {
  *     "hosts":     string[]  1..100 items, each max 255 chars
- *     "reason":    "domain_crud" | "tenant_status_change" | "manual"
+ *     "reason":    "domain_crud" | "tenant_status_change" | "public_content_change" | "manual"
  *     "requestId": string (optional, for idempotency logging)
  *   }
  *
@@ -65,13 +65,14 @@ import { createHash } from 'crypto';
 import { verifyInvalidateHmac } from '../../lib/resolverHmac.js';
 import { config } from '../../config/index.js';
 import { normalizeHost } from '../../lib/hostNormalize.js';
+import { notifyCacheInvalidateListeners } from '../../lib/cacheInvalidateEmitter.js';
 
 // ─── Body schema ─────────────────────────────────────────────────────────────
 
-const VALID_REASONS = ['domain_crud', 'tenant_status_change', 'manual'] as const;
+const VALID_REASONS = ['domain_crud', 'tenant_status_change', 'public_content_change', 'manual'] as const;
 type InvalidationReason = typeof VALID_REASONS[number];
 
-const bodySchema = z.object({
+export const bodySchema = z.object({
   hosts: z
     .array(z.string().min(1).max(255))
     .min(1, 'At least one host required')
@@ -156,6 +157,10 @@ async function handleCacheInvalidate(
     'cache-invalidate: invalidation request processed',
   );
 
+  // 5b. Evict in-process host caches (public sitemaps / robots.txt —
+  //     PUBLIC-SEO-SITEMAP-SERVER-001).
+  notifyCacheInvalidateListeners(normalizedHosts, reason, request.log);
+
   // 6. Respond.
   //    Edge invalidation is TTL-bounded (60s max). Best-effort note documented
   //    in GOVERNANCE-SYNC-092. The webhook's primary role is emitter contract
@@ -37,6 +37,7 @@
 import type { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { tenantAuthMiddleware, adminAuthMiddleware } from '../../middleware/auth.js';
+import { requireMfaStepUp } from '../../middleware/mfaStepUp.js';
 import { prisma } from '../../db/prisma.js';
 import { sendSuccess, sendError } from '../../utils/response.js';
 import { StateMachineService } from '../../services/stateMachine.service.js';
@@ -66,9 +67,9 @@ async function internalOnlyGuard(request: FastifyRequest, reply: FastifyReply) {
 // ─── Shared Zod schemas ────────────────────────────────────────────────────────
 
 const uuidSchema   = z.string().uuid('Must be a valid UUID');
-const approvalIdParam = z.object({ id: uuidSchema });
+export const approvalIdParam = z.object({ id: uuidSchema });
 
-const signBodySchema = z.object({
+export const signBodySchema = z.object({
   decision:        z.enum(['APPROVE', 'REJECT']),
   reason:          z.string().min(5, 'reason must be at least 5 characters').max(1000).trim(),
   signerActorType: z.enum(['CHECKER', 'PLATFORM_ADMIN']),
@@ -78,17 +79,17 @@ const signBodySchema = z.object({
   impersonationId: z.string().uuid().nullable().optional(),
 });
 
-const replayBodySchema = z.object({
+export const replayBodySchema = z.object({
   callerActorType:      z.enum(['CHECKER', 'PLATFORM_ADMIN']).optional(),
   callerImpersonationId: z.string().uuid().nullable().optional(),
 }).optional();
 
-const tenantQueueQuerySchema = z.object({
+export const tenantQueueQuerySchema = z.object({
   status:     z.enum(['REQUESTED', 'APPROVED', 'REJECTED', 'EXPIRED', 'CANCELLED', 'ESCALATED']).optional(),
   entityType: z.enum(['TRADE', 'ESCROW', 'CERTIFICATION']).optional(),
 });
 
-const adminQueueQuerySchema = z.object({
+export const adminQueueQuerySchema = z.object({
   orgId:      z.string().uuid().optional(),
   status:     z.enum(['REQUESTED', 'APPROVED', 'REJECTED', 'EXPIRED', 'CANCELLED', 'ESCALATED']).optional(),
   entityType: z.enum(['TRADE', 'ESCROW', 'CERTIFICATION']).optional(),
@@ -171,7 +172,8 @@ export const tenantApprovalRoutes: FastifyPluginAsync = async fastify => {
   });
 
   // ─── POST /approvals/:id/sign ─────────────────────────────────────────────
-  fastify.post('/approvals/:id/sign', async (request, reply) => {
+  // MFA-001: signing requires a fresh second factor when one is enrolled / required
+  fastify.post('/approvals/:id/sign', { preHandler: requireMfaStepUp }, async (request, reply) => {
     if (!request.tenantId || !request.userId) {
       return sendError(reply, 'UNAUTHORIZED', 'Tenant authentication required', 401);
     }
@@ -325,7 +327,8 @@ export const adminApprovalRoutes: FastifyPluginAsync = async fastify => {
   });
 
   // ─── POST /approvals/:id/sign ─────────────────────────────────────────────
-  fastify.post('/approvals/:id/sign', async (request, reply) => {
+  // MFA-001: signing requires a fresh second factor when one is enrolled / required
+  fastify.post('/approvals/:id/sign', { preHandler: requireMfaStepUp }, async (request, reply) => {
     if (!request.isAdmin || !request.adminId) {
       return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
     }
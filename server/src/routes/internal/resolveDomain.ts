@@ -46,7 +46,7 @@ import { sendError } from '../../utils/response.js';
 
 // ─── Query-string schema ──────────────────────────────────────────────────────
 
-const querySchema = z.object({
+export const querySchema = z.object({
   host: z.string().min(1).max(255),
 });
 
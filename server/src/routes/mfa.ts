@@ -0,0 +1,412 @@
+/**
+ * MFA-001 — Self-service MFA management and step-up
+ *
+ * Two plugins with the same routes, one per plane:
+ *   tenantMfaRoutes  — registered at /api/tenant/mfa (tenant JWT)
+ *   controlMfaRoutes — registered at /api/control/mfa (admin JWT, inherited from control.ts)
+ *
+ * Routes:
+ *   GET    /                            — factors, requirement, recovery codes remaining
+ *   POST   /totp                        — start TOTP enrollment (secret + otpauth URI, shown once)
+ *   POST   /totp/confirm                — confirm with a code; first factor returns recovery codes
+ *   POST   /webauthn/register/options   — security key registration options
+ *   POST   /webauthn/register/verify    — register the key; first factor returns recovery codes
+ *   POST   /recovery-codes              — replace recovery codes (step-up)
+ *   DELETE /factors/:factorId           — remove a factor (step-up)
+ *   POST   /step-up/webauthn/options    — assertion options for step-up
+ *   POST   /step-up                     — verify a factor → fresh access token with mfaAt
+ *   PUT    /policy                      — tenant only: require MFA for all members (OWNER, step-up)
+ *
+ * Adding a factor needs step-up once one exists (requireMfaStepUpIfEnrolled), so a
+ * stolen session cannot attach a second authenticator. Impersonation tokens cannot
+ * manage the impersonated user's factors.
+ */
+
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { tenantAuthMiddleware } from '../middleware/auth.js';
+import { requireMfaStepUp, requireMfaStepUpIfEnrolled } from '../middleware/mfaStepUp.js';
+import { sendSuccess, sendError, sendValidationError } from '../utils/response.js';
+import { prisma } from '../db/prisma.js';
+import { config } from '../config/index.js';
+import { writeAuditLog, createAuthAudit } from '../lib/auditLog.js';
+import {
+  factorLabelSchema,
+  mfaErrorToHttp,
+  mfaFailureReasonCode,
+  mfaProofSchema,
+  registrationCredentialSchema,
+  totpCodeSchema,
+} from '../lib/mfaContracts.js';
+import { createMfaService } from '../services/mfa/mfa.factory.js';
+import { MfaVerificationError, type MfaPrincipal } from '../services/mfa/mfa.service.js';
+import { clientMeta, mfaAttemptLimited } from './auth-mfa.js';
+
+type MfaPlane = 'TENANT' | 'ADMIN';
+
+function resolvePrincipal(request: FastifyRequest, plane: MfaPlane): MfaPrincipal | null {
+  if (plane === 'ADMIN') {
+    return request.isAdmin && request.adminId ? { realm: 'ADMIN', adminId: request.adminId } : null;
+  }
+  return request.userId && request.tenantId
+    ? { realm: 'TENANT', userId: request.userId, tenantId: request.tenantId }
+    : null;
+}
+
+async function principalEmail(principal: MfaPrincipal): Promise<string> {
+  if (principal.realm === 'ADMIN') {
+    const admin = await prisma.adminUser.findUnique({ where: { id: principal.adminId }, select: { email: true } });
+    return admin?.email ?? principal.adminId;
+  }
+  const user = await prisma.user.findUnique({ where: { id: principal.userId }, select: { email: true } });
+  return user?.email ?? principal.userId;
+}
+
+function isImpersonation(request: FastifyRequest): boolean {
+  return (request.user as { isImpersonation?: unknown } | undefined)?.isImpersonation === true;
+}
+
+function registerMfaRoutes(fastify: FastifyInstance, plane: MfaPlane): void {
+  const mfa = () => createMfaService();
+
+  /** Resolves the caller; sends 401/403 and returns null when they cannot manage factors. */
+  function requirePrincipal(request: FastifyRequest, reply: FastifyReply): MfaPrincipal | null {
+    const principal = resolvePrincipal(request, plane);
+    if (!principal) {
+      sendError(reply, 'UNAUTHORIZED', 'Authentication required', 401);
+      return null;
+    }
+    if (isImpersonation(request)) {
+      sendError(reply, 'FORBIDDEN', 'MFA cannot be managed during impersonation', 403);
+      return null;
+    }
+    return principal;
+  }
+
+  async function audit(
+    request: FastifyRequest,
+    principal: MfaPrincipal,
+    action: Parameters<typeof createAuthAudit>[0]['action'],
+    reasonCode: Parameters<typeof createAuthAudit>[0]['reasonCode'],
+    metadataJson?: Record<string, unknown>
+  ) {
+    const { ip, userAgent } = clientMeta(request);
+    await writeAuditLog(
+      prisma,
+      createAuthAudit({
+        action,
+        realm: principal.realm,
+        tenantId: principal.realm === 'TENANT' ? principal.tenantId : null,
+        actorId: principal.realm === 'TENANT' ? principal.userId : principal.adminId,
+        email: null,
+        reasonCode,
+        ip,
+        userAgent,
+        metadataJson,
+      })
+    );
+  }
+
+  function handleError(reply: FastifyReply, error: unknown, label: string, fallback: string) {
+    const mapped = mfaErrorToHttp(error);
+    if (mapped) return sendError(reply, mapped.code, mapped.message, mapped.status);
+    fastify.log.error({ err: error }, `[MFA] ${label} error`);
+    return sendError(reply, 'INTERNAL_ERROR', fallback, 500);
+  }
+
+  /**
+   * GET /mfa
+   * Response: { required, requirement, factors, recoveryCodesRemaining }
+   */
+  fastify.get('/', async (request, reply) => {
+    const principal = requirePrincipal(request, reply);
+    if (!principal) return reply;
+
+    try {
+      return sendSuccess(reply, await mfa().getStatus(principal));
+    } catch (error: unknown) {
+      return handleError(reply, error, 'GET /mfa', 'Failed to load MFA status');
+    }
+  });
+
+  /**
+   * POST /mfa/totp
+   * Request: { label? }
+   * Response: { factorId, secret, otpauthUri }
+   */
+  fastify.post('/totp', { preHandler: requireMfaStepUpIfEnrolled }, async (request, reply) => {
+    const principal = requirePrincipal(request, reply);
+    if (!principal) return reply;
+    const parsed = z.object({ label: factorLabelSchema }).safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+
+    try {
+      const enrollment = await mfa().startTotpEnrollment(principal, {
+        accountName: await principalEmail(principal),
+        label: parsed.data.label,
+      });
+      await audit(request, principal, 'AUTH_MFA_ENROLL_STARTED', 'SUCCESS', {
+        factorType: 'TOTP',
+        factorId: enrollment.factorId,
+      });
+      return sendSuccess(reply, enrollment, 201);
+    } catch (error: unknown) {
+      return handleError(reply, error, 'POST /mfa/totp', 'Failed to start TOTP enrollment');
+    }
+  });
+
+  /**
+   * POST /mfa/totp/confirm
+   * Request: { factorId, code }
+   * Response: { factor, recoveryCodes | null }
+   */
+  fastify.post('/totp/confirm', { preHandler: requireMfaStepUpIfEnrolled }, async (request, reply) => {
+    const principal = requirePrincipal(request, reply);
+    if (!principal) return reply;
+    const parsed = z.object({ factorId: z.string().uuid(), code: totpCodeSchema }).safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+
+    try {
+      if (await mfaAttemptLimited(reply, principal)) return reply;
+      const enrolled = await mfa().confirmTotpEnrollment(principal, parsed.data.factorId, parsed.data.code);
+      await audit(request, principal, 'AUTH_MFA_ENROLLED', 'SUCCESS', {
+        factorType: 'TOTP',
+        factorId: enrolled.factor.id,
+      });
+      return sendSuccess(reply, enrolled);
+    } catch (error: unknown) {
+      if (error instanceof MfaVerificationError) {
+        await audit(request, principal, 'AUTH_MFA_FAILED', mfaFailureReasonCode(error.reason), { flow: 'enroll' });
+      }
+      return handleError(reply, error, 'POST /mfa/totp/confirm', 'Failed to confirm TOTP enrollment');
+    }
+  });
+
+  /**
+   * POST /mfa/webauthn/register/options
+   * Response: { challengeId, publicKey } — pass publicKey to navigator.credentials.create()
+   */
+  fastify.post('/webauthn/register/options', { preHandler: requireMfaStepUpIfEnrolled }, async (request, reply) => {
+    const principal = requirePrincipal(request, reply);
+    if (!principal) return reply;
+
+    try {
+      const options = await mfa().createWebAuthnRegistrationOptions(principal, {
+        userName: await principalEmail(principal),
+      });
+      return sendSuccess(reply, options);
+    } catch (error: unknown) {
+      return handleError(reply, error, 'POST /mfa/webauthn/register/options', 'Failed to create WebAuthn options');
+    }
+  });
+
+  /**
+   * POST /mfa/webauthn/register/verify
+   * Request: { challengeId, credential, label? }
+   * Response: { factor, recoveryCodes | null }
+   */
+  fastify.post('/webauthn/register/verify', { preHandler: requireMfaStepUpIfEnrolled }, async (request, reply) => {
+    const principal = requirePrincipal(request, reply);
+    if (!principal) return reply;
+    const parsed = z
+      .object({
+        challengeId: z.string().uuid(),
+        credential: registrationCredentialSchema,
+        label: factorLabelSchema,
+      })
+      .safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+
+    try {
+      const enrolled = await mfa().completeWebAuthnRegistration(principal, parsed.data);
+      await audit(request, principal, 'AUTH_MFA_ENROLLED', 'SUCCESS', {
+        factorType: 'WEBAUTHN',
+        factorId: enrolled.factor.id,
+      });
+      return sendSuccess(reply, enrolled, 201);
+    } catch (error: unknown) {
+      if (error instanceof MfaVerificationError) {
+        await audit(request, principal, 'AUTH_MFA_FAILED', mfaFailureReasonCode(error.reason), { flow: 'enroll' });
+      }
+      return handleError(reply, error, 'POST /mfa/webauthn/register/verify', 'Failed to register security key');
+    }
+  });
+
+  /**
+   * POST /mfa/recovery-codes
+   * Response: { recoveryCodes } — previous codes stop working
+   */
+  fastify.post('/recovery-codes', { preHandler: requireMfaStepUp }, async (request, reply) => {
+    const principal = requirePrincipal(request, reply);
+    if (!principal) return reply;
+
+    try {
+      const recoveryCodes = await mfa().regenerateRecoveryCodes(principal);
+      await audit(request, principal, 'AUTH_MFA_RECOVERY_CODES_REGENERATED', 'SUCCESS');
+      return sendSuccess(reply, { recoveryCodes });
+    } catch (error: unknown) {
+      return handleError(reply, error, 'POST /mfa/recovery-codes', 'Failed to regenerate recovery codes');
+    }
+  });
+
+  /**
+   * DELETE /mfa/factors/:factorId
+   * 409 MFA_POLICY_VIOLATION when removing the last factor while MFA is required.
+   */
+  fastify.delete('/factors/:factorId', { preHandler: requireMfaStepUp }, async (request, reply) => {
+    const principal = requirePrincipal(request, reply);
+    if (!principal) return reply;
+    const parsed = z.object({ factorId: z.string().uuid() }).safeParse(request.params);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+
+    try {
+      const removed = await mfa().removeFactor(principal, parsed.data.factorId);
+      await audit(request, principal, 'AUTH_MFA_FACTOR_REMOVED', 'SUCCESS', {
+        factorType: removed.type,
+        factorId: removed.id,
+      });
+      return sendSuccess(reply, { factor: removed });
+    } catch (error: unknown) {
+      return handleError(reply, error, 'DELETE /mfa/factors/:factorId', 'Failed to remove factor');
+    }
+  });
+
+  /**
+   * POST /mfa/step-up/webauthn/options
+   * Response: { challengeId, publicKey } — pass publicKey to navigator.credentials.get()
+   */
+  fastify.post('/step-up/webauthn/options', async (request, reply) => {
+    const principal = requirePrincipal(request, reply);
+    if (!principal) return reply;
+
+    try {
+      return sendSuccess(reply, await mfa().createWebAuthnAssertionOptions(principal));
+    } catch (error: unknown) {
+      return handleError(reply, error, 'POST /mfa/step-up/webauthn/options', 'Failed to create WebAuthn options');
+    }
+  });
+
+  /**
+   * POST /mfa/step-up
+   * Request: { method: 'TOTP' | 'RECOVERY_CODE', code } | { method: 'WEBAUTHN', challengeId, credential }
+   * Response: { token, mfaAt, expiresIn, recoveryCodesRemaining }
+   *
+   * The new token carries the caller's existing claims (including any exp) plus mfaAt.
+   */
+  fastify.post('/step-up', async (request, reply) => {
+    const principal = requirePrincipal(request, reply);
+    if (!principal) return reply;
+    const parsed = mfaProofSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+
+    try {
+      if (await mfaAttemptLimited(reply, principal)) return reply;
+      const verification = await mfa().verify(principal, parsed.data);
+
+      const mfaAt = Math.floor(Date.now() / 1000);
+      const { iat: _iat, ...claims } = request.user as Record<string, unknown>;
+      const payload = { ...claims, mfaAt };
+      const token = plane === 'ADMIN' ? await reply.adminJwtSign(payload) : await reply.tenantJwtSign(payload);
+
+      await audit(request, principal, 'AUTH_MFA_STEP_UP_SUCCESS', 'SUCCESS', {
+        method: verification.method,
+        factorId: verification.factorId,
+      });
+      if (verification.method === 'RECOVERY_CODE') {
+        await audit(request, principal, 'AUTH_MFA_RECOVERY_CODE_USED', 'SUCCESS', {
+          recoveryCodesRemaining: verification.recoveryCodesRemaining,
+        });
+      }
+
+      return sendSuccess(reply, {
+        token,
+        mfaAt,
+        expiresIn: config.MFA_STEP_UP_MAX_AGE_SECONDS,
+        recoveryCodesRemaining: verification.recoveryCodesRemaining,
+      });
+    } catch (error: unknown) {
+      if (error instanceof MfaVerificationError) {
+        await audit(request, principal, 'AUTH_MFA_STEP_UP_FAILED', mfaFailureReasonCode(error.reason));
+      }
+      return handleError(reply, error, 'POST /mfa/step-up', 'MFA verification failed');
+    }
+  });
+}
+
+export const tenantMfaRoutes: FastifyPluginAsync = async fastify => {
+  fastify.addHook('onRequest', tenantAuthMiddleware);
+
+  registerMfaRoutes(fastify, 'TENANT');
+
+  /**
+   * PUT /api/tenant/mfa/policy
+   * Request: { required: boolean }
+   * OWNER only. Members without a factor are asked to enroll at their next login;
+   * existing sessions are unaffected until they hit a step-up route.
+   */
+  fastify.put('/policy', { preHandler: requireMfaStepUpIfEnrolled }, async (request, reply) => {
+    if (!request.tenantId || !request.userId) {
+      return sendError(reply, 'UNAUTHORIZED', 'Tenant authentication required', 401);
+    }
+    if (request.userRole !== 'OWNER' || isImpersonation(request)) {
+      return sendError(reply, 'FORBIDDEN', 'Only the tenant OWNER can change the MFA policy', 403);
+    }
+    const parsed = z.object({ required: z.boolean() }).safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+
+    const principal: MfaPrincipal = { realm: 'TENANT', userId: request.userId, tenantId: request.tenantId };
+    try {
+      const svc = createMfaService();
+      if (parsed.data.required) {
+        // The OWNER turning enforcement on must not lock themselves out of step-up routes.
+        const status = await svc.getStatus(principal);
+        if (!status.factors.some(f => f.status === 'ACTIVE')) {
+          return sendError(
+            reply,
+            'MFA_ENROLLMENT_REQUIRED',
+            'Enroll a factor before requiring MFA for the tenant',
+            409
+          );
+        }
+      }
+
+      await svc.setTenantMfaRequired(request.tenantId, parsed.data.required);
+      const { ip, userAgent } = clientMeta(request);
+      await writeAuditLog(
+        prisma,
+        createAuthAudit({
+          action: 'AUTH_MFA_POLICY_UPDATED',
+          realm: 'TENANT',
+          tenantId: request.tenantId,
+          actorId: request.userId,
+          email: null,
+          reasonCode: 'SUCCESS',
+          ip,
+          userAgent,
+          metadataJson: { mfaRequired: parsed.data.required },
+        })
+      );
+      return sendSuccess(reply, { mfaRequired: parsed.data.required });
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[MFA] PUT /tenant/mfa/policy error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to update MFA policy', 500);
+    }
+  });
+};
+
+/** adminAuthMiddleware is inherited from the parent control plugin (control.ts addHook). */
+export const controlMfaRoutes: FastifyPluginAsync = async fastify => {
+  registerMfaRoutes(fastify, 'ADMIN');
+};
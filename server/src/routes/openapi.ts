@@ -0,0 +1,46 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { adminAuthMiddleware } from '../middleware/auth.js';
+import { sendSuccess, sendValidationError } from '../utils/response.js';
+import { buildOpenApiDocument, listOpenApiRealms } from '../openapi/openApiDocument.js';
+import { apiRealmSchema } from '../openapi/types.js';
+
+/**
+ * OpenAPI Routes (API-DOCS-OPENAPI-001)
+ *
+ * Serves the OpenAPI 3.1 documents generated from the route zod schemas
+ * (server/src/openapi). The public realm is published for integrators; every
+ * realm — including control and internal — is readable from the control plane.
+ *
+ * Endpoints:
+ * - GET /api/public/openapi.json - Public realm document (raw, no envelope)
+ * - GET /api/control/openapi - Realm index with operation counts
+ * - GET /api/control/openapi/:realm - Document of one realm
+ *
+ * Kept out of public.ts / control.ts: the operation catalogue imports the
+ * schemas of those modules, so they cannot import the catalogue back.
+ */
+
+const realmParamsSchema = z.object({ realm: apiRealmSchema });
+
+export const publicOpenApiRoutes: FastifyPluginAsync = async fastify => {
+  fastify.get('/openapi.json', async (_request, reply) => {
+    return reply.header('Cache-Control', 'public, max-age=300').send(buildOpenApiDocument('public'));
+  });
+};
+
+export const controlOpenApiRoutes: FastifyPluginAsync = async fastify => {
+  fastify.addHook('onRequest', adminAuthMiddleware);
+
+  fastify.get('/openapi', async (_request, reply) => {
+    return sendSuccess(reply, { realms: listOpenApiRealms() });
+  });
+
+  fastify.get('/openapi/:realm', async (request, reply) => {
+    const parseResult = realmParamsSchema.safeParse(request.params);
+    if (!parseResult.success) {
+      return sendValidationError(reply, parseResult.error.errors);
+    }
+    return sendSuccess(reply, buildOpenApiDocument(parseResult.data.realm));
+  });
+};
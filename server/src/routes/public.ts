@@ -34,6 +34,7 @@ import { writeAuditLog } from '../lib/auditLog.js';
 import { normalizeHost, parsePlatformHost } from '../lib/hostNormalize.js';
 import { resolveHostToTenant } from './internal/resolveDomain.js';
 import { listPublicB2BSuppliers, getPublicB2BSupplierBySlug } from '../services/publicB2BProjection.service.js';
+import { catalogSearchFiltersSchema } from '../services/catalogSearch.service.js';
 import { listPublicB2CProducts, getPublicB2CProductBySlug } from '../services/publicB2CProjection.service.js';
 import { APPROVED_CATEGORY_SLUGS } from '../config/publicB2CCategoryPageSlugs.js';
 import { APPROVED_COLLECTION_SLUGS } from '../config/publicCollectionSlugs.js';
@@ -43,7 +44,11 @@ import {
   type InquiryNotificationContext,
 } from '../services/email/email.service.js';
 import { config } from '../config/index.js';
+import { normalizeGtin } from '../services/dppProductDetails.js';
 import { notifyCrmTier0Capture } from '../services/crmTier0NotifyClient.js';
+import { enqueueCrmOutboxEvent } from '../services/crmOutbox/crmOutbox.service.js';
+import { CRM_TIER0_CAPTURE_EVENT } from '../services/crmOutbox/crmOutbox.contract.js';
+import type { InlineDeliveryAttempt } from '../services/crmOutbox/crmOutbox.types.js';
 import {
   registerDirectProvisionalAccount,
   type DirectRegistrationPayload,
@@ -405,7 +410,7 @@ async function findActiveTenantsByEmail(emailNormalized: string): Promise<Public
   return Array.from(uniqueTenants.values()).sort((left, right) => left.name.localeCompare(right.name));
 }
 
-const publicEntryQuerySchema = z.object({
+export const publicEntryQuerySchema = z.object({
   slug: z
     .string()
     .trim()
@@ -619,7 +624,9 @@ const publicRoutes: FastifyPluginAsync = async fastify => {
   // Design authority: governance/decisions/TEXQTIC-B2B-PUBLIC-PROJECTION-PRECONDITION-DESIGN-v1.md §D
   // Slice: PUBLIC_B2B_PROJECTION_PRECONDITION_IMPLEMENTATION_SLICE
 
-  const b2bSuppliersQuerySchema = z.object({
+  // CATALOG-SEARCH-001: the shared catalog search filters narrow suppliers to those
+  // with a matching public item.
+  const b2bSuppliersQuerySchema = catalogSearchFiltersSchema.extend({
     segment: z.string().min(1).max(100).optional(),
     geo: z.string().min(1).max(100).optional(),
     page: z.coerce.number().int().min(1).max(10000).optional(),
@@ -632,8 +639,8 @@ const publicRoutes: FastifyPluginAsync = async fastify => {
       return sendValidationError(reply, parseResult.error.errors);
     }
 
-    const { segment, geo, page, limit } = parseResult.data;
-    const result = await listPublicB2BSuppliers({ segment, geo, page, limit }, prisma);
+    const { segment, geo, page, limit, ...catalog } = parseResult.data;
+    const result = await listPublicB2BSuppliers({ segment, geo, page, limit, catalog }, prisma);
     return sendSuccess(reply, result);
   });
 
@@ -1248,6 +1255,45 @@ const publicRoutes: FastifyPluginAsync = async fastify => {
     return reply.send(structuredData);
   });
 
+  // ─── DPP-PASSPORT-FORMATS-001: GS1 Digital Link resolver ──────────────────────
+  // GET /api/public/dpp/dl/01/:gtin/21/:serial
+  //
+  // Target of the URI printed in passport QR labels. AI 01 is the GTIN, AI 21 the
+  // public passport token. Content negotiation per GS1 resolver practice:
+  //   - Accept: application/ld+json -> 307 to the structured-data route
+  //   - anything else                -> 307 to the buyer page /passport/:id
+  // No DB read here: the redirect targets only ever serve PUBLISHED passports and
+  // return the same generic 404 otherwise, so the resolver reveals nothing itself.
+  // The GTIN is validated (check digit) but not cross-checked against the token.
+  const dppDigitalLinkParamSchema = z.object({
+    gtin: z.string().max(14),
+    serial: z.string().uuid('serial must be a valid public passport id'),
+  });
+
+  fastify.get('/dpp/dl/01/:gtin/21/:serial', {
+    config: {
+      rateLimit: { max: 100, timeWindow: '15 minutes' },
+    },
+  }, async (request, reply) => {
+    void reply.header('X-Robots-Tag', 'noindex');
+    const paramsResult = dppDigitalLinkParamSchema.safeParse(request.params);
+    if (!paramsResult.success || !normalizeGtin(paramsResult.data.gtin)) {
+      void reply.header('Cache-Control', 'no-store');
+      return sendError(reply, 'DPP_NOT_FOUND', 'DPP passport not found', 404);
+    }
+
+    const { serial } = paramsResult.data;
+    const wantsLinkedData = (request.headers.accept ?? '').includes('application/ld+json');
+    void reply.header('Vary', 'Accept');
+    void reply.header('Cache-Control', 'public, max-age=300');
+    return reply.redirect(
+      wantsLinkedData
+        ? `/api/public/dpp/${serial}/structured-data`
+        : `${APP_PUBLIC_URL}/passport/${serial}`,
+      307,
+    );
+  });
+
   // ─── INQUIRY-004: Pre-auth buyer inquiry intake (Phase 2) ───────────────────
   // POST /api/public/inquiry/submit
   //
@@ -1618,6 +1664,9 @@ const publicRoutes: FastifyPluginAsync = async fastify => {
   //   • Rejects forbidden cross-system token fields before calling CRM.
   //   • Calls CRM: POST /api/webhooks/mainapp-tier0-captures (8s timeout).
   //   • Returns safe ack { requestId, crmReceiptId, status, message } to browser.
+  //   • CRM outage (network/timeout, 408/429/5xx): the capture is written to the CRM
+  //     outbox for retried delivery (CRM-NOTIFY-OUTBOX-001) and the browser gets
+  //     202 { status: 'QUEUED' } instead of losing the lead.
   //
   // Security:
   //   • CRM secret (CRM_MAINAPP_TIER0_INGESTION_SECRET) NEVER logged or returned.
@@ -1826,7 +1875,44 @@ const publicRoutes: FastifyPluginAsync = async fastify => {
       '[tier0] Calling CRM notify',
     );
 
+    // Persist the capture to the CRM outbox for retried delivery, recording the
+    // failed inline call as attempt 1. 503 only if the outbox write itself fails.
+    const queueForRetry = async (inlineAttempt: InlineDeliveryAttempt) => {
+      try {
+        await prisma.$transaction(async tx => {
+          await enqueueCrmOutboxEvent(
+            tx as unknown as typeof prisma,
+            {
+              channel: 'CRM_TIER0',
+              eventType: CRM_TIER0_CAPTURE_EVENT,
+              orgId: null,
+              idempotencyKey: `${CRM_TIER0_CAPTURE_EVENT}:${mainAppTier0RequestId}`,
+              payload: crmPayload,
+            },
+            inlineAttempt,
+          );
+        });
+      } catch (err: unknown) {
+        fastify.log.error(
+          { err: err instanceof Error ? err.message : String(err), mainAppTier0RequestId },
+          '[tier0] CRM outbox write failed',
+        );
+        return sendError(reply, 'SERVICE_UNAVAILABLE', "We're having trouble. Please try again in a moment.", 503);
+      }
+      fastify.log.info({ mainAppTier0RequestId }, '[tier0] CRM unavailable — capture queued in outbox');
+      return reply.code(202).send({
+        success: true,
+        data: {
+          requestId: mainAppTier0RequestId,
+          crmReceiptId: null,
+          status: 'QUEUED',
+          message: "You're on the list. Our team will be in touch.",
+        },
+      });
+    };
+
     let crmResult: { status: number; ack: Record<string, unknown> | null };
+    const crmCallStart = Date.now();
     try {
       crmResult = await notifyCrmTier0Capture(crmBaseUrl, crmSecret, crmPayload);
     } catch (err: unknown) {
@@ -1834,7 +1920,13 @@ const publicRoutes: FastifyPluginAsync = async fastify => {
         { err: err instanceof Error ? err.message : String(err), mainAppTier0RequestId },
         '[tier0] CRM notify call failed (network/timeout)',
       );
-      return sendError(reply, 'SERVICE_UNAVAILABLE', "We're having trouble. Please try again in a moment.", 503);
+      const isAbort = err instanceof Error && err.name === 'AbortError';
+      return queueForRetry({
+        outcome: 'RETRYABLE_FAILURE',
+        httpStatus: null,
+        errorMessage: isAbort ? 'CRM Tier 0 notify timed out' : 'CRM Tier 0 notify network error',
+        durationMs: Date.now() - crmCallStart,
+      });
     }
 
     // ── 11. CRM response handling ────────────────────────────────────────────
@@ -1877,7 +1969,18 @@ const publicRoutes: FastifyPluginAsync = async fastify => {
       return sendError(reply, 'SERVICE_UNAVAILABLE', 'Service temporarily unavailable.', 503);
     }
 
-    // Unexpected or 5xx status from CRM.
+    if (crmStatus === 408 || crmStatus === 429 || crmStatus >= 500) {
+      // Transient CRM failure — queue for retried delivery rather than dropping the lead.
+      fastify.log.warn({ mainAppTier0RequestId, crmStatus }, '[tier0] CRM returned retryable error status');
+      return queueForRetry({
+        outcome: 'RETRYABLE_FAILURE',
+        httpStatus: crmStatus,
+        errorMessage: `CRM responded HTTP ${crmStatus}`,
+        durationMs: Date.now() - crmCallStart,
+      });
+    }
+
+    // Unexpected status from CRM.
     fastify.log.warn({ mainAppTier0RequestId, crmStatus }, '[tier0] CRM returned unexpected/error status');
     return sendError(reply, 'SERVICE_UNAVAILABLE', "We're having trouble. Please try again in a moment.", 503);
   });
@@ -0,0 +1,92 @@
+/**
+ * PUBLIC-SEO-SITEMAP-SERVER-001 — Server-generated sitemaps and robots.txt
+ *
+ * Fastify plugin — registered WITHOUT a prefix (crawler-facing root paths).
+ * vercel.json routes these paths to the API function ahead of the static
+ * public/robots.txt and public/sitemap.xml, which remain the local-dev fallback.
+ *
+ * Routes:
+ *   GET /robots.txt             — per-host robots policy
+ *   GET /sitemap.xml            — sitemap index for the requesting host
+ *   GET /sitemaps/:file         — one urlset: pages.xml | suppliers.xml | products.xml | passports.xml
+ *
+ * Host scope:
+ *   - Edge-validated tenant context (request.resolvedTenantId, set by
+ *     tenantResolutionHook for white-label custom domains and <slug>.texqtic.app)
+ *     → TENANT scope with origin https://<host>.
+ *   - Anything else (platform hosts, local dev) → PLATFORM scope with the
+ *     canonical APP_PUBLIC_URL origin. The Host header is never echoed into <loc>
+ *     without Edge validation.
+ *
+ * No auth. Cached per host in PublicSitemapService and evicted via the
+ * cache-invalidate emitter.
+ */
+
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../db/prisma.js';
+import { normalizeHost } from '../lib/hostNormalize.js';
+import { onCacheInvalidate } from '../lib/cacheInvalidateEmitter.js';
+import { sendError } from '../utils/response.js';
+import {
+  getPublicRobotsTxt,
+  getPublicSitemapIndexXml,
+  getPublicSitemapXml,
+  invalidatePublicSitemapCache,
+  isPublicSitemapType,
+  type PublicSitemapScope,
+} from '../services/publicSitemap.service.js';
+
+const APP_PUBLIC_URL = (process.env['APP_PUBLIC_URL'] ?? 'https://app.texqtic.com') as string;
+const SEO_CACHE_CONTROL = 'public, max-age=900, stale-while-revalidate=300';
+
+// `.xml` is matched inside the param — a literal suffix in the route path is not
+// used (see the D-6 `.json` note in routes/public.ts).
+export const sitemapFileParamsSchema = z.object({
+  file: z.string().regex(/^[a-z]+\.xml$/),
+});
+
+function resolveSitemapScope(request: FastifyRequest): PublicSitemapScope {
+  const tenantId = request.resolvedTenantId;
+  const rawHost = typeof request.headers.host === 'string' ? request.headers.host : '';
+  const hostResult = normalizeHost(rawHost);
+
+  if (tenantId && hostResult.ok) {
+    return { kind: 'TENANT', origin: `https://${hostResult.host}`, host: hostResult.host, tenantId };
+  }
+  return { kind: 'PLATFORM', origin: APP_PUBLIC_URL.replace(/\/+$/, '') };
+}
+
+function sendSeoDocument(reply: FastifyReply, contentType: string, body: string) {
+  return reply
+    .header('Content-Type', contentType)
+    .header('Cache-Control', SEO_CACHE_CONTROL)
+    .send(body);
+}
+
+const publicSeoRoutes: FastifyPluginAsync = async fastify => {
+  onCacheInvalidate(invalidatePublicSitemapCache);
+
+  fastify.get('/robots.txt', async (request, reply) => {
+    const body = await getPublicRobotsTxt(prisma, resolveSitemapScope(request));
+    return sendSeoDocument(reply, 'text/plain; charset=utf-8', body);
+  });
+
+  fastify.get('/sitemap.xml', async (request, reply) => {
+    const body = await getPublicSitemapIndexXml(prisma, resolveSitemapScope(request));
+    return sendSeoDocument(reply, 'application/xml; charset=utf-8', body);
+  });
+
+  fastify.get('/sitemaps/:file', async (request, reply) => {
+    const paramsResult = sitemapFileParamsSchema.safeParse(request.params);
+    const type = paramsResult.success ? paramsResult.data.file.slice(0, -'.xml'.length) : '';
+    if (!isPublicSitemapType(type)) {
+      return sendError(reply, 'NOT_FOUND', 'Sitemap not found', 404);
+    }
+
+    const body = await getPublicSitemapXml(prisma, resolveSitemapScope(request), type);
+    return sendSeoDocument(reply, 'application/xml; charset=utf-8', body);
+  });
+};
+
+export default publicSeoRoutes;
@@ -0,0 +1,260 @@
+/**
+ * SESSION-REGISTRY-001 — Active sessions and revocation
+ *
+ * Two plugins, one per plane:
+ *   tenantSessionRoutes  — registered at /api/tenant/sessions (tenant JWT)
+ *   controlSessionRoutes — registered at /api/control/sessions (admin JWT, inherited from control.ts)
+ *
+ * Routes (both planes):
+ *   GET    /                    — the caller's signed-in devices; `current` marks this one
+ *   DELETE /:sessionId          — sign out one device
+ *   POST   /revoke-others       — sign out every device except this one
+ * Control plane only (SUPER_ADMIN):
+ *   GET    /tenants/:tenantId   — active sessions for a tenant (logins and impersonations)
+ *   GET    /users/:userId       — active sessions for a user
+ *   POST   /force-logout        — end every session for a tenant or user
+ *
+ * Revocation takes effect on the next request: the auth middleware checks the registry
+ * on every call (see services/sessions/sessionRegistry.service.ts).
+ */
+
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { tenantAuthMiddleware, requireAdminRole } from '../middleware/auth.js';
+import { sendSuccess, sendError, sendValidationError } from '../utils/response.js';
+import { prisma } from '../db/prisma.js';
+import { writeAuditLog, createAuthAudit, createAdminAudit } from '../lib/auditLog.js';
+import {
+  SessionNotFoundError,
+  SessionRegistryService,
+  type SessionOwner,
+  type SessionRecord,
+} from '../services/sessions/sessionRegistry.service.js';
+import { clientMeta } from './auth-mfa.js';
+
+type SessionPlane = 'TENANT' | 'ADMIN';
+
+export const sessionIdParamsSchema = z.object({ sessionId: z.string().uuid() });
+
+export const forceLogoutBodySchema = z.object({
+  scope: z.enum(['USER', 'TENANT']),
+  subjectId: z.string().uuid(),
+  reason: z.string().trim().min(10, 'reason must be at least 10 characters').max(500),
+});
+
+function resolveOwner(request: FastifyRequest, plane: SessionPlane): SessionOwner | null {
+  if (plane === 'ADMIN') {
+    return request.isAdmin && request.adminId ? { adminId: request.adminId } : null;
+  }
+  return request.userId ? { userId: request.userId } : null;
+}
+
+function isImpersonation(request: FastifyRequest): boolean {
+  return (request.user as { isImpersonation?: unknown } | undefined)?.isImpersonation === true;
+}
+
+function withCurrent(request: FastifyRequest, sessions: SessionRecord[]) {
+  return sessions.map(s => ({ ...s, current: s.id === request.sessionId }));
+}
+
+function registerOwnSessionRoutes(fastify: FastifyInstance, plane: SessionPlane): void {
+  const registry = () => new SessionRegistryService(prisma);
+
+  /** Resolves the caller; sends 401/403 and returns null when they cannot manage sessions. */
+  function requireOwner(request: FastifyRequest, reply: FastifyReply): SessionOwner | null {
+    const owner = resolveOwner(request, plane);
+    if (!owner) {
+      sendError(reply, 'UNAUTHORIZED', 'Authentication required', 401);
+      return null;
+    }
+    if (isImpersonation(request)) {
+      sendError(reply, 'FORBIDDEN', 'Sessions cannot be managed during impersonation', 403);
+      return null;
+    }
+    return owner;
+  }
+
+  async function audit(
+    request: FastifyRequest,
+    owner: SessionOwner,
+    action: Parameters<typeof createAuthAudit>[0]['action'],
+    metadataJson: Record<string, unknown>
+  ) {
+    const { ip, userAgent } = clientMeta(request);
+    await writeAuditLog(
+      prisma,
+      createAuthAudit({
+        action,
+        realm: plane,
+        tenantId: plane === 'TENANT' ? (request.tenantId ?? null) : null,
+        actorId: 'userId' in owner ? owner.userId : owner.adminId,
+        email: null,
+        reasonCode: 'REVOKED',
+        ip,
+        userAgent,
+        metadataJson,
+      })
+    );
+  }
+
+  /**
+   * GET /sessions
+   * Response: { sessions: [{ id, ip, userAgent, createdAt, lastSeenAt, current, ... }] }
+   */
+  fastify.get('/', async (request, reply) => {
+    const owner = requireOwner(request, reply);
+    if (!owner) return reply;
+    try {
+      const sessions = await registry().listOwnSessions(owner);
+      return sendSuccess(reply, { sessions: withCurrent(request, sessions) });
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[Sessions] list error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to list sessions', 500);
+    }
+  });
+
+  /**
+   * DELETE /sessions/:sessionId
+   * Signs out one device. Signing out the current session is allowed (acts as logout).
+   */
+  fastify.delete('/:sessionId', async (request, reply) => {
+    const owner = requireOwner(request, reply);
+    if (!owner) return reply;
+    const params = sessionIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return sendValidationError(reply, params.error.errors);
+    }
+
+    try {
+      await registry().revokeSession(owner, params.data.sessionId);
+      await audit(request, owner, 'AUTH_SESSION_REVOKED', { sessionId: params.data.sessionId });
+      return sendSuccess(reply, { revoked: true, current: params.data.sessionId === request.sessionId });
+    } catch (error: unknown) {
+      if (error instanceof SessionNotFoundError) {
+        return sendError(reply, 'NOT_FOUND', error.message, 404);
+      }
+      fastify.log.error({ err: error }, '[Sessions] revoke error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to sign out session', 500);
+    }
+  });
+
+  /**
+   * POST /sessions/revoke-others
+   * Response: { revoked: number }
+   */
+  fastify.post('/revoke-others', async (request, reply) => {
+    const owner = requireOwner(request, reply);
+    if (!owner) return reply;
+    try {
+      const revoked = await registry().revokeOtherSessions(owner, request.sessionId ?? null);
+      await audit(request, owner, 'AUTH_SESSIONS_REVOKED_OTHERS', { revoked, keptSessionId: request.sessionId ?? null });
+      return sendSuccess(reply, { revoked });
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[Sessions] revoke-others error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to sign out other sessions', 500);
+    }
+  });
+}
+
+export const tenantSessionRoutes: FastifyPluginAsync = async fastify => {
+  fastify.addHook('onRequest', tenantAuthMiddleware);
+
+  registerOwnSessionRoutes(fastify, 'TENANT');
+};
+
+/** adminAuthMiddleware is inherited from the parent control plugin (control.ts addHook). */
+export const controlSessionRoutes: FastifyPluginAsync = async fastify => {
+  registerOwnSessionRoutes(fastify, 'ADMIN');
+
+  /**
+   * GET /api/control/sessions/tenants/:tenantId
+   * SUPER_ADMIN. Active LOGIN and IMPERSONATION sessions for the tenant.
+   */
+  fastify.get(
+    '/tenants/:tenantId',
+    { preHandler: requireAdminRole('SUPER_ADMIN') },
+    async (request, reply) => {
+      const params = z.object({ tenantId: z.string().uuid() }).safeParse(request.params);
+      if (!params.success) {
+        return sendValidationError(reply, params.error.errors);
+      }
+      try {
+        const sessions = await new SessionRegistryService(prisma).listSubjectSessions('TENANT', params.data.tenantId);
+        return sendSuccess(reply, { sessions });
+      } catch (error: unknown) {
+        fastify.log.error({ err: error }, '[Sessions] tenant list error');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to list tenant sessions', 500);
+      }
+    }
+  );
+
+  /**
+   * GET /api/control/sessions/users/:userId
+   * SUPER_ADMIN. Active sessions for the user across tenants.
+   */
+  fastify.get(
+    '/users/:userId',
+    { preHandler: requireAdminRole('SUPER_ADMIN') },
+    async (request, reply) => {
+      const params = z.object({ userId: z.string().uuid() }).safeParse(request.params);
+      if (!params.success) {
+        return sendValidationError(reply, params.error.errors);
+      }
+      try {
+        const sessions = await new SessionRegistryService(prisma).listSubjectSessions('USER', params.data.userId);
+        return sendSuccess(reply, { sessions });
+      } catch (error: unknown) {
+        fastify.log.error({ err: error }, '[Sessions] user list error');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to list user sessions', 500);
+      }
+    }
+  );
+
+  /**
+   * POST /api/control/sessions/force-logout
+   * Request: { scope: 'USER' | 'TENANT', subjectId, reason }
+   * SUPER_ADMIN. Every access and refresh token for the subject stops working on its
+   * next request, including tokens issued before the session registry existed.
+   */
+  fastify.post('/force-logout', { preHandler: requireAdminRole('SUPER_ADMIN') }, async (request, reply) => {
+    if (!request.adminId) {
+      return sendError(reply, 'UNAUTHORIZED', 'Admin authentication required', 401);
+    }
+    const parsed = forceLogoutBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+    const { scope, subjectId, reason } = parsed.data;
+
+    try {
+      const exists =
+        scope === 'TENANT'
+          ? await prisma.tenant.findUnique({ where: { id: subjectId }, select: { id: true } })
+          : await prisma.user.findUnique({ where: { id: subjectId }, select: { id: true } });
+      if (!exists) {
+        return sendError(reply, 'NOT_FOUND', `${scope === 'TENANT' ? 'Tenant' : 'User'} not found`, 404);
+      }
+
+      const result = await new SessionRegistryService(prisma).forceLogout({
+        scope,
+        subjectId,
+        reason,
+        adminId: request.adminId,
+      });
+
+      await writeAuditLog(prisma, {
+        ...createAdminAudit(request.adminId, 'AUTH_SESSIONS_FORCE_LOGOUT', 'auth_session', {
+          ...result,
+          reason,
+        }),
+        tenantId: scope === 'TENANT' ? subjectId : null,
+        entityId: subjectId,
+      });
+
+      return sendSuccess(reply, result);
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[Sessions] force-logout error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Force logout failed', 500);
+    }
+  });
+};
@@ -0,0 +1,179 @@
+/**
+ * SSO-001 — Tenant single sign-on configuration
+ *
+ *   tenantSsoRoutes — registered at /api/tenant/sso (tenant JWT)
+ *
+ * Routes (OWNER only, step-up when a factor is enrolled, never during impersonation):
+ *   GET    /            — the tenant's OIDC / SAML connections (client secret never returned)
+ *                         plus the redirect URI / ACS / entity ID to register at the IdP
+ *   PUT    /oidc        — create or update the OIDC connection
+ *   PUT    /saml        — create or update the SAML connection
+ *   DELETE /:protocol   — remove a connection and its identity links
+ *
+ * Enabling a connection requires at least one verified tenant domain; only emails on
+ * verified domains can sign in through it (see services/sso/sso.service.ts).
+ */
+
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { tenantAuthMiddleware } from '../middleware/auth.js';
+import { requireMfaStepUpIfEnrolled } from '../middleware/mfaStepUp.js';
+import { sendSuccess, sendError, sendValidationError } from '../utils/response.js';
+import { prisma } from '../db/prisma.js';
+import { writeAuditLog, createAuthAudit } from '../lib/auditLog.js';
+import {
+  oidcConnectionSchema,
+  samlConnectionSchema,
+  ssoErrorToHttp,
+  ssoProtocolParamsSchema,
+} from '../lib/ssoContracts.js';
+import { createSsoService } from '../services/sso/sso.factory.js';
+import type { SsoConnectionRecord } from '../services/sso/sso.service.js';
+import { clientMeta } from './auth-mfa.js';
+
+function isImpersonation(request: FastifyRequest): boolean {
+  return (request.user as { isImpersonation?: unknown } | undefined)?.isImpersonation === true;
+}
+
+/** Sends 401/403 and returns false unless the caller is the tenant OWNER acting as themselves. */
+function requireOwner(request: FastifyRequest, reply: FastifyReply): request is FastifyRequest & {
+  tenantId: string;
+  userId: string;
+} {
+  if (!request.tenantId || !request.userId) {
+    sendError(reply, 'UNAUTHORIZED', 'Tenant authentication required', 401);
+    return false;
+  }
+  if (request.userRole !== 'OWNER' || isImpersonation(request)) {
+    sendError(reply, 'FORBIDDEN', 'Only the tenant OWNER can manage single sign-on', 403);
+    return false;
+  }
+  return true;
+}
+
+export const tenantSsoRoutes: FastifyPluginAsync = async fastify => {
+  fastify.addHook('onRequest', tenantAuthMiddleware);
+
+  const sso = () => createSsoService();
+
+  async function audit(
+    request: FastifyRequest & { tenantId: string; userId: string },
+    action: 'AUTH_SSO_CONFIG_UPDATED' | 'AUTH_SSO_CONFIG_DELETED',
+    metadataJson: Record<string, unknown>
+  ) {
+    const { ip, userAgent } = clientMeta(request);
+    await writeAuditLog(
+      prisma,
+      createAuthAudit({
+        action,
+        realm: 'TENANT',
+        tenantId: request.tenantId,
+        actorId: request.userId,
+        email: null,
+        reasonCode: 'SUCCESS',
+        ip,
+        userAgent,
+        metadataJson,
+      })
+    );
+  }
+
+  /** Audit metadata for a saved connection (no certificate, no secret). */
+  function auditSummary(connection: SsoConnectionRecord) {
+    return {
+      connectionId: connection.id,
+      protocol: connection.protocol,
+      enabled: connection.enabled,
+      issuer: connection.oidc?.issuer ?? connection.saml?.idpEntityId ?? null,
+      roleMappings: connection.roleMappings,
+      defaultRole: connection.defaultRole,
+      jitProvisioning: connection.jitProvisioning,
+    };
+  }
+
+  /**
+   * GET /api/tenant/sso
+   * Response: { connections: SsoConnectionRecord[] }
+   */
+  fastify.get('/', async (request, reply) => {
+    if (!requireOwner(request, reply)) return reply;
+    try {
+      const connections = await sso().listConnections(request.tenantId);
+      return sendSuccess(reply, { connections });
+    } catch (error: unknown) {
+      fastify.log.error({ err: error }, '[SSO] list connections error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to list SSO connections', 500);
+    }
+  });
+
+  /**
+   * PUT /api/tenant/sso/oidc
+   * Request: { enabled, issuer, clientId, clientSecret?, scopes?, emailAttribute?, groupsAttribute?,
+   *            roleMappings: [{ group, role }], defaultRole, jitProvisioning, displayName? }
+   * clientSecret may be omitted to keep the stored one. Enabling runs provider discovery.
+   */
+  fastify.put('/oidc', { preHandler: requireMfaStepUpIfEnrolled }, async (request, reply) => {
+    if (!requireOwner(request, reply)) return reply;
+    const parsed = oidcConnectionSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+    try {
+      const connection = await sso().upsertOidcConnection(request.tenantId, parsed.data);
+      await audit(request, 'AUTH_SSO_CONFIG_UPDATED', {
+        ...auditSummary(connection),
+        clientSecretRotated: !!parsed.data.clientSecret,
+      });
+      return sendSuccess(reply, { connection });
+    } catch (error: unknown) {
+      const mapped = ssoErrorToHttp(error);
+      if (mapped) return sendError(reply, mapped.code, mapped.message, mapped.status);
+      fastify.log.error({ err: error }, '[SSO] PUT /tenant/sso/oidc error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to save OIDC connection', 500);
+    }
+  });
+
+  /**
+   * PUT /api/tenant/sso/saml
+   * Request: { enabled, idpEntityId, idpSsoUrl, idpCertificate (PEM), emailAttribute?, groupsAttribute?,
+   *            roleMappings: [{ group, role }], defaultRole, jitProvisioning, displayName? }
+   */
+  fastify.put('/saml', { preHandler: requireMfaStepUpIfEnrolled }, async (request, reply) => {
+    if (!requireOwner(request, reply)) return reply;
+    const parsed = samlConnectionSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return sendValidationError(reply, parsed.error.errors);
+    }
+    try {
+      const connection = await sso().upsertSamlConnection(request.tenantId, parsed.data);
+      await audit(request, 'AUTH_SSO_CONFIG_UPDATED', auditSummary(connection));
+      return sendSuccess(reply, { connection });
+    } catch (error: unknown) {
+      const mapped = ssoErrorToHttp(error);
+      if (mapped) return sendError(reply, mapped.code, mapped.message, mapped.status);
+      fastify.log.error({ err: error }, '[SSO] PUT /tenant/sso/saml error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to save SAML connection', 500);
+    }
+  });
+
+  /**
+   * DELETE /api/tenant/sso/:protocol   (oidc | saml)
+   * Existing memberships are kept; users sign in with a password (reset) afterwards.
+   */
+  fastify.delete('/:protocol', { preHandler: requireMfaStepUpIfEnrolled }, async (request, reply) => {
+    if (!requireOwner(request, reply)) return reply;
+    const params = ssoProtocolParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return sendValidationError(reply, params.error.errors);
+    }
+    try {
+      await sso().deleteConnection(request.tenantId, params.data.protocol);
+      await audit(request, 'AUTH_SSO_CONFIG_DELETED', { protocol: params.data.protocol });
+      return sendSuccess(reply, { deleted: true });
+    } catch (error: unknown) {
+      const mapped = ssoErrorToHttp(error);
+      if (mapped) return sendError(reply, mapped.code, mapped.message, mapped.status);
+      fastify.log.error({ err: error }, '[SSO] DELETE /tenant/sso error');
+      return sendError(reply, 'INTERNAL_ERROR', 'Failed to delete SSO connection', 500);
+    }
+  });
+};
@@ -69,7 +69,7 @@ const { _extract, _budget, _genai, _classify, _cfg } = vi.hoisted(() => {
   const _extract = {
     buildDocumentExtractionPrompt: vi.fn().mockReturnValue('mock-prompt'),
     parseDocumentExtractionOutput: vi.fn(),
-    callGeminiForDocumentExtraction: vi.fn(),
+    callModelForDocumentExtraction: vi.fn(),
     ExtractionParseError,
     DOCUMENT_INTELLIGENCE_GOVERNANCE_LABEL:
       'AI-generated extraction \u00B7 Human review required before acting on any extracted data',
@@ -102,6 +102,7 @@ const { _extract, _budget, _genai, _classify, _cfg } = vi.hoisted(() => {
 
   const _cfg = {
     config: { GEMINI_API_KEY: 'test-gemini-api-key' },
+    provider: { id: 'gemini', textModel: 'gemini-2.5-flash' },
   };
 
   return { _extract, _budget, _genai, _classify, _cfg };
@@ -110,7 +111,7 @@ const { _extract, _budget, _genai, _classify, _cfg } = vi.hoisted(() => {
 vi.mock('../services/ai/documentExtractionService.js', () => ({
   buildDocumentExtractionPrompt: _extract.buildDocumentExtractionPrompt,
   parseDocumentExtractionOutput: _extract.parseDocumentExtractionOutput,
-  callGeminiForDocumentExtraction: _extract.callGeminiForDocumentExtraction,
+  callModelForDocumentExtraction: _extract.callModelForDocumentExtraction,
   ExtractionParseError: _extract.ExtractionParseError,
   DOCUMENT_INTELLIGENCE_GOVERNANCE_LABEL:
     'AI-generated extraction \u00B7 Human review required before acting on any extracted data',
@@ -181,7 +182,7 @@ import { writeAuditLog } from '../lib/auditLog.js';
 import {
   buildDocumentExtractionPrompt,
   parseDocumentExtractionOutput,
-  callGeminiForDocumentExtraction,
+  callModelForDocumentExtraction,
   ExtractionParseError,
 } from '../services/ai/documentExtractionService.js';
 import { BudgetExceededError, enforceBudgetOrThrow } from '../lib/aiBudget.js';
@@ -190,7 +191,7 @@ const mockWithDbContext = vi.mocked(withDbContext);
 const mockWriteAuditLog = vi.mocked(writeAuditLog);
 const mockBuildPrompt = vi.mocked(buildDocumentExtractionPrompt);
 const mockParseOutput = vi.mocked(parseDocumentExtractionOutput);
-const mockCallGemini = vi.mocked(callGeminiForDocumentExtraction);
+const mockCallGemini = vi.mocked(callModelForDocumentExtraction);
 const mockEnforceBudget = vi.mocked(enforceBudgetOrThrow);
 
 // ── Default mock draft ────────────────────────────────────────────────────────
@@ -315,8 +316,8 @@ async function buildTestApp(authenticated = true): Promise<FastifyInstance> {
       documentId,
     });
 
-    // Gemini call OUTSIDE tx (HOTFIX-MODEL-TX-001)
-    const aiResult = await callGeminiForDocumentExtraction(_cfg.config.GEMINI_API_KEY, prompt);
+    // Model call OUTSIDE tx (HOTFIX-MODEL-TX-001)
+    const aiResult = await callModelForDocumentExtraction(_cfg.provider as never, prompt);
 
     if (aiResult.hadInferenceError) {
       return localSendError(reply, 'SERVICE_UNAVAILABLE', 'AI extraction service unavailable. Please try again.', 503);
@@ -448,6 +449,7 @@ describe('POST /tenant/documents/:documentId/extract', () => {
       rawText: '{"extracted_fields":[],"overall_confidence":0.85}',
       tokensUsed: 100,
       hadInferenceError: false,
+      model: 'gemini-2.5-flash',
     });
 
     // Default: parse succeeds
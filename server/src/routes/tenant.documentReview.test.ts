@@ -100,7 +100,7 @@ vi.mock('../services/ai/documentClassificationService.js', () => ({
 vi.mock('../services/ai/documentExtractionService.js', () => ({
   buildDocumentExtractionPrompt: vi.fn(),
   parseDocumentExtractionOutput: vi.fn(),
-  callGeminiForDocumentExtraction: vi.fn(),
+  callModelForDocumentExtraction: vi.fn(),
   ExtractionParseError: class ExtractionParseError extends Error {},
   DOCUMENT_INTELLIGENCE_GOVERNANCE_LABEL: GOVERNANCE_LABEL,
 }));
@@ -1,4 +1,4 @@
-import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
 import type { Prisma } from '@prisma/client';
 import fastifyMultipart from '@fastify/multipart';
 import type {
@@ -20,6 +20,18 @@ import tenantEscrowRoutes from './tenant/escrow.g018.js';
 import tenantSettlementRoutes from './tenant/settlement.js';
 import tenantCertificationRoutes from './tenant/certifications.g019.js';
 import tenantTraceabilityRoutes from './tenant/traceability.g016.js';
+import tenantInventoryRoutes from './tenant/inventory.js';
+import tenantShipmentRoutes from './tenant/shipments.js';
+import tenantCatalogImportRoutes from './tenant/catalogImport.js';
+import tenantCatalogVariantRoutes from './tenant/catalogVariants.js';
+import tenantWebhookRoutes from './tenant/webhooks.js';
+import tenantAuditLogRoutes from './tenant/auditLogs.js';
+import tenantEventStreamRoutes from './tenant/eventStream.js';
+import tenantAnalyticsRoutes from './tenant/analytics.js';
+import { tenantMfaRoutes } from './mfa.js';
+import { tenantSessionRoutes } from './sessions.js';
+import { tenantSsoRoutes } from './sso.js';
+import tenantDppPassportFormatRoutes from './tenant/dppPassportFormats.js';
 import tenantDocumentRoutes from './tenant/documents.js';
 import tenantGstVerificationRoutes from './tenant/gst-verification.js';
 import tenantInvoiceRoutes from './tenant/invoices.js';
@@ -50,6 +62,7 @@ import {
   getDppProductDetailsForNode,
   upsertDppProductDetailsForNode,
   validateMaterialComposition,
+  normalizeGtin,
   DPP_MATERIAL_MAX_ENTRIES,
 } from '../services/dppProductDetails.js';
 import {
@@ -69,6 +82,7 @@ import {
   sendNotFound,
   sendUnauthorized,
 } from '../utils/response.js';
+import { acceptsEventStream, createSseStream } from '../utils/sse.js';
 import { isOrgVerificationBlocked } from '../utils/orgVerificationGuard.js';
 import {
   consentAcceptanceSchema,
@@ -87,6 +101,12 @@ import {
 import { prisma } from '../db/prisma.js';
 import { writeAuditLog } from '../lib/auditLog.js';
 import { computeTotals, TotalsInputError } from '../services/pricing/totals.service.js';
+import {
+  InsufficientStockError,
+  consumeOrderReservations,
+  releaseOrderReservations,
+  reserveStockForOrder,
+} from '../services/inventory/inventory.service.js';
 import {
   attachPriceDisclosureToPdpView,
   buildPdpDisclosureMetadata,
@@ -106,13 +126,59 @@ import {
   resolveCatalogVisibilityPolicy,
 } from '../services/catalogVisibilityPolicyResolver.js';
 import { getRelationshipOrNone } from '../services/relationshipAccessStorage.service.js';
+import {
+  buildCatalogItemVectorText,
+  catalogItemAttributeCompleteness,
+} from '../services/catalogItemText.js';
+import {
+  CATALOG_STAGE_VALUES,
+  CONSTRUCTION_VALUES,
+  FABRIC_TYPE_VALUES,
+  MATERIAL_VALUES,
+  PRODUCT_CATEGORY_VALUES,
+  catalogItemCreateSchema,
+  certificationsUpdateSchema,
+  mapCatalogVisibilityModeToPublicationPosture,
+  stageAttributesSchemas,
+  validateCatalogStageAttributes,
+} from '../services/catalogItemValidation.js';
+import {
+  catalogSearchFiltersSchema,
+  searchCatalogItems,
+  type CatalogSearchFacetFields,
+} from '../services/catalogSearch.service.js';
+import {
+  CART_LINE_VARIANT_SELECT,
+  CatalogVariantError,
+  loadBuyerVariantSummaries,
+  loadOrderableVariant,
+  loadVariantsByCatalogItem,
+  resolveEffectiveLineTerms,
+  resolveRfqVariantTarget,
+} from '../services/catalogVariant.service.js';
 import {
   notifySupplierRfqSubmittedGroups,
   type SupplierRfqSubmittedNotificationGroup,
 } from '../services/rfq/supplierNotificationBoundary.service.js';
+import {
+  appendRfqQuoteRevision,
+  buildRfqQuoteAuditSnapshot,
+  evaluateRfqQuoteAcceptance,
+  evaluateRfqQuoteRevision,
+  loadRfqQuoteThread,
+  mapRfqQuote,
+  mapRfqQuoteNegotiation,
+  markRfqQuoteAccepted,
+  rfqQuoteTermsSchema,
+  type RfqQuoteAuthorSide,
+  type RfqQuoteRecord,
+} from '../services/rfq/rfqQuote.service.js';
 import { sendInviteMemberEmail, type EmailDispatchOutcome } from '../services/email/email.service.js';
 import bcrypt from 'bcryptjs';
 import { emitCacheInvalidate } from '../lib/cacheInvalidateEmitter.js';
+import { emitPublicContentInvalidate } from '../services/publicSitemap.service.js';
+import { publishDomainEvent } from '../events/domainEmitter.js';
+import type { KnownEventName } from '../lib/events.js';
 import { enqueueSourceIngestion, enqueueSourceDeletion } from '../services/vectorIngestion.js';
 import {
   getCounterpartyProfileAggregation,
@@ -126,12 +192,14 @@ import { runSupplierProfileCompletenessInference } from '../services/ai/supplier
 import { BudgetExceededError, getMonthKey } from '../lib/aiBudget.js';
 import { AiRateLimitExceededError } from '../services/ai/inferenceService.js';
 import { buildSupplierMatchSignals } from '../services/ai/supplierMatching/supplierMatchSignalBuilder.service.js';
+import type { SafeSupplierPerformanceInput } from '../services/ai/supplierMatching/supplierMatchSignalBuilder.service.js';
 import { applySupplierMatchPolicyFilter } from '../services/ai/supplierMatching/supplierMatchPolicyFilter.service.js';
 import { rankSupplierCandidates } from '../services/ai/supplierMatching/supplierMatchRanker.service.js';
 import { buildSupplierMatchExplanation } from '../services/ai/supplierMatching/supplierMatchExplanationBuilder.service.js';
 import { guardSupplierMatchOutput } from '../services/ai/supplierMatching/supplierMatchRuntimeGuard.service.js';
 import type { SupplierMatchCandidateDraft, SupplierMatchCandidate } from '../services/ai/supplierMatching/supplierMatch.types.js';
 import {
+  runPassportAssistantIdempotent,
   runPassportAssistantInference,
   type PassportAssistantBuyerContext,
 } from '../services/passportAssistant.js';
@@ -194,17 +262,17 @@ function resolveItemCatalogVisibilityForRoute(
   return policy;
 }
 
-function mapCatalogVisibilityModeToPublicationPosture(
-  mode: unknown,
-): 'B2B_PUBLIC' | 'PRIVATE_OR_AUTH_ONLY' | undefined {
-  if (mode === 'PUBLIC') {
-    return 'B2B_PUBLIC';
-  }
-  if (mode === 'APPROVED_BUYER_ONLY' || mode === 'HIDDEN') {
-    return 'PRIVATE_OR_AUTH_ONLY';
-  }
-  return undefined;
-}
+/** Buyer browse row from catalog search; price and internal policy fields stay server-side. */
+type BuyerCatalogSearchRow = CatalogSearchFacetFields & {
+  name: string;
+  sku: string | null;
+  description: string | null;
+  moq: number;
+  imageUrl: string | null;
+  publicationPosture: string;
+  catalogVisibilityPolicyMode: string | null;
+  stageAttributes: Prisma.JsonValue | null;
+};
 
 type ConsentScaffoldValidationFailureCode =
   | 'CONSENT_REQUIRED'
@@ -996,12 +1064,59 @@ async function resolveTenantSessionIdentity(input: {
 
 const rfqReadStatusSchema = z.enum(['INITIATED', 'OPEN', 'RESPONDED', 'CLOSED']);
 
-const rfqListQuerySchema = z.object({
+export const rfqListQuerySchema = z.object({
   status: rfqReadStatusSchema.optional(),
   sort: z.enum(['updated_at_desc', 'created_at_desc']).optional().default('updated_at_desc'),
   q: z.string().trim().min(1).max(200).optional(),
 }).strict();
 
+// API-DOCS-OPENAPI-001: request schemas of the core commerce routes, module-level so the
+// OpenAPI catalogue (server/src/openapi/operations/tenant.ts) documents what the handlers parse.
+
+export const catalogItemListQuerySchema = catalogSearchFiltersSchema.extend({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().uuid().optional(),
+});
+
+export const cartItemAddBodySchema = z.object({
+  catalogItemId: z.string().uuid(),
+  quantity: z.number().int().min(1),
+  // CATALOG-VARIANTS-001: omitted / null = the parent item itself
+  variantId: z.string().uuid().nullable().optional(),
+});
+
+export const cartItemUpdateBodySchema = z.object({
+  quantity: z.number().int().min(0),
+});
+
+export const rfqCreateBodySchema = z.object({
+  catalogItemId: z.string().uuid(),
+  // CATALOG-VARIANTS-001: optional colourway / width / finish of the item
+  variantId: z.string().uuid().optional(),
+  quantity: z.number().int().min(1).optional().default(1),
+  buyerMessage: z.string().trim().min(1).max(1000).optional(),
+  requirementTitle: z.string().trim().max(200).optional(),
+  quantityUnit: z.string().trim().max(50).optional(),
+  urgency: z.enum(['STANDARD', 'URGENT', 'FLEXIBLE']).optional(),
+  sampleRequired: z.boolean().optional(),
+  targetDeliveryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  deliveryLocation: z.string().trim().max(200).optional(),
+  deliveryCountry: z.string().length(3).optional(),
+  stageRequirementAttributes: z.record(z.unknown()).optional(),
+  requirementConfirmedAt: z.string().datetime().optional(),
+  fieldSourceMeta: z.record(z.unknown()).optional(),
+});
+
+export const orderListQuerySchema = z.object({
+  cursor: z.string().uuid().optional(),
+  limit:  z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const orderStatusUpdateBodySchema = z.object({
+  status: z.enum(['CONFIRMED', 'FULFILLED', 'CANCELLED']),
+  reason: z.string().min(1).max(2000).trim().optional(),
+});
+
 type BuyerRfqResponseRow = {
   id: string;
   supplierOrgId: string;
@@ -1015,6 +1130,7 @@ type BuyerRfqListRow = {
   status: 'INITIATED' | 'OPEN' | 'RESPONDED' | 'CLOSED';
   orgId: string;
   catalogItemId: string;
+  variantId?: string | null;
   quantity: number;
   supplierOrgId: string;
   createdAt: Date;
@@ -1040,6 +1156,7 @@ type BuyerRfqDetailRow = BuyerRfqListRow & {
   buyerMessage: string | null;
   createdByUserId: string | null;
   supplierResponse: BuyerRfqResponseRow | null;
+  quoteThread: RfqQuoteRecord[];
   tradeContinuity: {
     id: string;
     tradeReference: string;
@@ -1051,6 +1168,7 @@ type SupplierRfqListRow = {
   id: string;
   status: 'INITIATED' | 'OPEN' | 'RESPONDED' | 'CLOSED';
   catalogItemId: string;
+  variantId?: string | null;
   quantity: number;
   createdAt: Date;
   updatedAt: Date;
@@ -1069,6 +1187,7 @@ type SupplierRfqListRow = {
 type SupplierRfqDetailRow = SupplierRfqListRow & {
   buyerMessage: string | null;
   buyerCounterpartySummary: CounterpartyProfileAggregation | null;
+  quoteThread: RfqQuoteRecord[];
 };
 
 type SupplierRfqResponseRow = {
@@ -1205,17 +1324,31 @@ function mapSupplierInquiryInboxItem(log: SupplierInquiryAuditRow) {
   };
 }
 
-function normalizeCatalogItemPrice<T extends { catalogItem: { price: unknown } }>(item: T) {
+type CartLineVariantFields = { price: unknown; widthCm: unknown } | null;
+
+function normalizeCatalogItemPrice<T extends { catalogItem: { price: unknown }; variant?: CartLineVariantFields }>(item: T) {
   return {
     ...item,
     catalogItem: {
       ...item.catalogItem,
       price: Number(item.catalogItem.price),
     },
+    // CATALOG-VARIANTS-001: a null variant price means the line uses the parent price.
+    ...(item.variant
+      ? {
+          variant: {
+            ...item.variant,
+            price: item.variant.price != null ? Number(item.variant.price) : null,
+            widthCm: item.variant.widthCm != null ? Number(item.variant.widthCm) : null,
+          },
+        }
+      : {}),
   };
 }
 
-function serializeCartResponse<T extends { items: Array<{ catalogItem: { price: unknown } }> } | null>(cart: T) {
+function serializeCartResponse<
+  T extends { items: Array<{ catalogItem: { price: unknown }; variant?: CartLineVariantFields }> } | null,
+>(cart: T) {
   if (!cart) {
     return cart;
   }
@@ -1231,6 +1364,7 @@ function mapBuyerRfqListItem(rfq: BuyerRfqListRow) {
     id: rfq.id,
     status: rfq.status,
     catalog_item_id: rfq.catalogItemId,
+    variant_id: rfq.variantId ?? null,
     item_name: rfq.catalogItem.name,
     item_sku: rfq.catalogItem.sku,
     quantity: rfq.quantity,
@@ -1266,6 +1400,7 @@ function mapBuyerRfqDetail(rfq: BuyerRfqDetailRow) {
     buyer_message: rfq.buyerMessage,
     created_by_user_id: rfq.createdByUserId,
     supplier_response: rfq.supplierResponse ? mapBuyerRfqResponse(rfq.supplierResponse) : null,
+    ...mapRfqQuoteNegotiation(rfq.quoteThread, new Date()),
     supplier_counterparty_summary: rfq.supplierCounterpartySummary,
     trade_continuity: rfq.tradeContinuity
       ? {
@@ -1281,6 +1416,7 @@ function mapSupplierRfqListItem(rfq: SupplierRfqListRow) {
     id: rfq.id,
     status: rfq.status,
     catalog_item_id: rfq.catalogItemId,
+    variant_id: rfq.variantId ?? null,
     item_name: rfq.catalogItem.name,
     item_sku: rfq.catalogItem.sku,
     quantity: rfq.quantity,
@@ -1300,6 +1436,7 @@ function mapSupplierRfqDetail(rfq: SupplierRfqDetailRow) {
     ...mapSupplierRfqListItem(rfq),
     buyer_message: rfq.buyerMessage,
     buyer_counterparty_summary: rfq.buyerCounterpartySummary,
+    ...mapRfqQuoteNegotiation(rfq.quoteThread, new Date()),
   };
 }
 
@@ -1546,6 +1683,202 @@ async function resolveBuyerRfqSupplierResponse(rfqId: string): Promise<BuyerRfqR
   });
 }
 
+async function resolveRfqQuoteThread(
+  dbContext: DatabaseContext,
+  rfqId: string,
+): Promise<RfqQuoteRecord[]> {
+  // Both RFQ parties read quote revisions directly: rfq_quotes RLS admits buyer_org_id
+  // and supplier_org_id, so no helper role is needed here.
+  return withDbContext(prisma, dbContext, tx => loadRfqQuoteThread(tx, rfqId));
+}
+
+type RfqQuoteMutationError =
+  | 'RFQ_NOT_FOUND'
+  | 'RFQ_CLOSED'
+  | 'RFQ_NOT_RESPONDED'
+  | 'QUOTE_NOT_FOUND'
+  | 'QUOTE_ALREADY_ACCEPTED'
+  | 'QUOTE_NOT_ACTIVE'
+  | 'QUOTE_NOT_SUPPLIER_OFFER'
+  | 'QUOTE_EXPIRED'
+  | 'COUNTER_OFFER_REQUIRES_SUPPLIER_QUOTE';
+
+type RfqQuoteMutationResult =
+  | { error: RfqQuoteMutationError }
+  | { quote: RfqQuoteRecord; thread: RfqQuoteRecord[] };
+
+function sendRfqQuoteMutationError(reply: FastifyReply, error: RfqQuoteMutationError) {
+  switch (error) {
+    case 'RFQ_NOT_FOUND':
+      return sendNotFound(reply, 'RFQ not found');
+    case 'QUOTE_NOT_FOUND':
+      return sendNotFound(reply, 'Quote not found');
+    case 'RFQ_CLOSED':
+      return sendError(reply, 'RFQ_CLOSED', 'RFQ is closed', 409);
+    case 'RFQ_NOT_RESPONDED':
+      return sendError(reply, 'RFQ_NOT_RESPONDED', 'Quotes can only be negotiated after the supplier has responded to the RFQ', 409);
+    case 'QUOTE_ALREADY_ACCEPTED':
+      return sendError(reply, 'QUOTE_ALREADY_ACCEPTED', 'A quote has already been accepted for this RFQ', 409);
+    case 'QUOTE_NOT_ACTIVE':
+      return sendError(reply, 'QUOTE_NOT_ACTIVE', 'Only the current quote revision can be accepted', 409);
+    case 'QUOTE_NOT_SUPPLIER_OFFER':
+      return sendError(reply, 'QUOTE_NOT_SUPPLIER_OFFER', 'Only a supplier quote revision can be accepted', 409);
+    case 'QUOTE_EXPIRED':
+      return sendError(reply, 'QUOTE_EXPIRED', 'Quote validity has expired', 409);
+    case 'COUNTER_OFFER_REQUIRES_SUPPLIER_QUOTE':
+      return sendError(reply, 'COUNTER_OFFER_REQUIRES_SUPPLIER_QUOTE', 'A counter-offer requires a priced supplier quote first', 409);
+  }
+}
+
+/**
+ * Publish an RFQ domain event to the buyer's and supplier's webhook subscriptions
+ * inside the mutation's transaction (TENANT-WEBHOOKS-001). Best-effort — never throws.
+ */
+function publishRfqDomainEvent(
+  tx: Prisma.TransactionClient,
+  name: KnownEventName,
+  rfq: { id: string; orgId: string; supplierOrgId: string },
+  actor: { orgId: string; userId: string | null },
+  entity: { type: string; id: string },
+  data: Record<string, unknown> = {},
+) {
+  return publishDomainEvent(
+    name,
+    { rfqId: rfq.id, buyerOrgId: rfq.orgId, supplierOrgId: rfq.supplierOrgId, ...data },
+    {
+      orgId: actor.orgId,
+      audienceOrgIds: [rfq.orgId, rfq.supplierOrgId],
+      actor: { type: 'USER', id: actor.userId },
+      entity,
+      db: tx,
+    },
+  );
+}
+
+/**
+ * Shared handler for supplier revisions and buyer counter-offers. The RFQ party is
+ * resolved from the authenticated org: suppliers address RFQs by supplier_org_id,
+ * buyers by org_id. Supersede + insert + audit share one transaction.
+ */
+async function handleRfqQuoteRevision(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  authorSide: RfqQuoteAuthorSide,
+) {
+  const { userId } = request;
+  if (!userId) {
+    return sendError(reply, 'UNAUTHORIZED', 'User context missing', 401);
+  }
+
+  const dbContext = request.dbContext;
+  if (!dbContext) {
+    return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+  }
+
+  const paramsSchema = z.object({ id: z.string().uuid() });
+  const paramsResult = paramsSchema.safeParse(request.params);
+  if (!paramsResult.success) {
+    return sendValidationError(reply, paramsResult.error.errors);
+  }
+
+  const bodyResult = rfqQuoteTermsSchema.safeParse(request.body);
+  if (!bodyResult.success) {
+    return sendValidationError(reply, bodyResult.error.errors);
+  }
+
+  const rfqId = paramsResult.data.id;
+  const terms = bodyResult.data;
+
+  try {
+    const result = await withDbContext(prisma, dbContext, async (tx): Promise<RfqQuoteMutationResult> => {
+      const rfq = await tx.rfq.findFirst({
+        where: authorSide === 'SUPPLIER'
+          ? { id: rfqId, supplierOrgId: dbContext.orgId }
+          : { id: rfqId, orgId: dbContext.orgId },
+        select: {
+          id: true,
+          orgId: true,
+          supplierOrgId: true,
+          quantity: true,
+          status: true,
+        },
+      });
+
+      if (!rfq) {
+        return { error: 'RFQ_NOT_FOUND' };
+      }
+
+      if (rfq.status !== 'RESPONDED') {
+        return { error: rfq.status === 'CLOSED' ? 'RFQ_CLOSED' : 'RFQ_NOT_RESPONDED' };
+      }
+
+      const thread = await loadRfqQuoteThread(tx, rfqId);
+      const decision = evaluateRfqQuoteRevision(thread, authorSide);
+      if (!decision.ok) {
+        return { error: decision.code };
+      }
+
+      const quote = await appendRfqQuoteRevision(tx, {
+        rfq,
+        authorSide,
+        revision: decision.nextRevision,
+        terms,
+        createdByUserId: userId,
+      });
+
+      await writeAuditLog(tx, {
+        realm: 'TENANT',
+        tenantId: dbContext.orgId,
+        actorType: 'USER',
+        actorId: userId,
+        action: 'rfq.RFQ_QUOTE_REVISED',
+        entity: 'rfq_quote',
+        entityId: quote.id,
+        afterJson: buildRfqQuoteAuditSnapshot(quote),
+        metadataJson: {
+          rfqId,
+          revision: quote.revision,
+          authorSide,
+          supersededRevision: thread.find(existing => existing.status === 'ACTIVE')?.revision ?? null,
+        },
+      });
+
+      await publishRfqDomainEvent(
+        tx,
+        'rfq.quote.revised.v1',
+        rfq,
+        { orgId: dbContext.orgId, userId },
+        { type: 'rfq_quote', id: quote.id },
+        { quoteId: quote.id, revision: quote.revision, authorSide },
+      );
+
+      return {
+        quote,
+        thread: [
+          ...thread.map(existing => (existing.status === 'ACTIVE' ? { ...existing, status: 'SUPERSEDED' as const } : existing)),
+          quote,
+        ],
+      };
+    });
+
+    if ('error' in result) {
+      return sendRfqQuoteMutationError(reply, result.error);
+    }
+
+    const now = new Date();
+    return sendSuccess(reply, {
+      quote: mapRfqQuote(result.quote, now),
+      ...mapRfqQuoteNegotiation(result.thread, now),
+    }, 201);
+  } catch (error: unknown) {
+    const prismaError = error as { code?: string };
+    if (prismaError?.code === 'P2002') {
+      return sendError(reply, 'QUOTE_REVISION_CONFLICT', 'Another quote revision was posted concurrently; reload and retry', 409);
+    }
+    throw error;
+  }
+}
+
 function groupMultiItemLinesBySupplier(lines: Array<{ supplier_org_id: string } & MultiItemGroupedLine>): MultiItemSupplierGroup[] {
   const grouped = new Map<string, MultiItemGroupedLine[]>();
   for (const line of lines) {
@@ -1624,427 +1957,8 @@ async function resolveBuyerRfqTradeContinuity(
   });
 }
 
-// =============================================================================
-// TECS-B2B-BUYER-CATALOG-TEXTILE-ATTRIBUTES-FILTERS-001
-// Textile attribute controlled-vocabulary constants (shared by create/update/filter routes)
-// =============================================================================
-
-const PRODUCT_CATEGORY_VALUES = [
-  'APPAREL_FABRIC', 'HOME_TEXTILE', 'TECHNICAL_FABRIC', 'INDUSTRIAL_FABRIC',
-  'LINING', 'INTERLINING', 'TRIMMING', 'ACCESSORY', 'OTHER',
-] as const;
-
-const FABRIC_TYPE_VALUES = [
-  'WOVEN', 'KNIT', 'NON_WOVEN', 'LACE', 'EMBROIDERED',
-  'TECHNICAL_COMPOSITE', 'FLEECE', 'OTHER',
-] as const;
-
-const MATERIAL_VALUES = [
-  'COTTON', 'POLYESTER', 'SILK', 'WOOL', 'LINEN', 'VISCOSE', 'MODAL',
-  'TENCEL_LYOCELL', 'NYLON', 'ACRYLIC', 'HEMP', 'BAMBOO',
-  'RECYCLED_POLYESTER', 'RECYCLED_COTTON', 'BLENDED', 'OTHER',
-] as const;
-
-const CONSTRUCTION_VALUES = [
-  'PLAIN_WEAVE', 'TWILL', 'SATIN', 'DOBBY', 'JACQUARD', 'TERRY', 'VELVET',
-  'JERSEY', 'RIB', 'INTERLOCK', 'FLEECE_KNIT', 'MESH', 'OTHER',
-] as const;
-
-const CERT_STANDARD_VALUES = [
-  'OEKO_TEX_STANDARD_100', 'OEKO_TEX_LEATHER_STANDARD', 'GOTS', 'BCI', 'FAIR_TRADE',
-  'BLUESIGN', 'HIGG_INDEX', 'RECYCLED_CLAIM_STANDARD', 'GLOBAL_RECYCLE_STANDARD',
-  'ISO_9001', 'SEDEX_SMETA', 'OTHER',
-] as const;
-
-/** Zod schema for a single certification entry stored in the certifications JSONB column. */
-const certificationEntrySchema = z.object({
-  standard: z.enum(CERT_STANDARD_VALUES),
-  certNumber: z.string().max(100).optional(),
-  issuedBy: z.string().max(200).optional(),
-  validUntil: z.string().max(50).optional(),
-});
-
-/** Zod schema for the certifications JSONB array (create path — no null). */
-const certificationsCreateSchema = z.array(certificationEntrySchema).optional();
-
-/** Zod schema for the certifications JSONB array (update path — nullable to clear). */
-const certificationsUpdateSchema = z.array(certificationEntrySchema).nullable().optional();
-
-// Catalog stage taxonomy (TECS-B2B-CATALOG-MATERIAL-STAGE-ATTRIBUTES-001)
-const CATALOG_STAGE_VALUES = [
-  'YARN', 'FIBER', 'FABRIC_WOVEN', 'FABRIC_KNIT', 'FABRIC_PROCESSED',
-  'GARMENT', 'ACCESSORY_TRIM', 'CHEMICAL_AUXILIARY', 'MACHINE', 'MACHINE_SPARE',
-  'PACKAGING', 'SERVICE', 'SOFTWARE_SAAS', 'OTHER',
-] as const;
-
-const SERVICE_TYPE_VALUES = [
-  'FASHION_DESIGN', 'FABRIC_DESIGN_DOBBY', 'FABRIC_DESIGN_JACQUARD', 'FABRIC_DESIGN_PRINT',
-  'TECHNICAL_CONSULTING', 'BUSINESS_CONSULTING', 'TESTING_LAB', 'LOGISTICS_PROVIDER',
-  'CERTIFICATION_PROVIDER', 'MANUFACTURING_SERVICE', 'TEXTILE_SOFTWARE_SAAS', 'OTHER_SERVICE',
-] as const;
-
-// Stage-specific stageAttributes Zod schemas.
-// Use .passthrough() so extra JSONB keys beyond defined fields are preserved.
-const stageAttributesSchemas: Partial<Record<typeof CATALOG_STAGE_VALUES[number], z.ZodTypeAny>> = {
-  YARN: z.object({
-    yarnType: z.enum(['SPUN', 'FILAMENT', 'TEXTURED', 'CORE_SPUN', 'FANCY', 'OTHER']).optional(),
-    yarnCount: z.string().max(50).optional(),
-    countSystem: z.enum(['NE', 'NM', 'TEX', 'DENIER']).optional(),
-    ply: z.number().int().min(1).max(12).optional(),
-    twist: z.number().optional(),
-    twistDirection: z.enum(['S', 'Z']).optional(),
-    fiber: z.string().max(100).optional(),
-    composition: z.string().max(500).optional(),
-    denier: z.number().optional(),
-    filamentType: z.string().max(100).optional(),
-    spinningType: z.enum(['RING', 'OPEN_END', 'AIR_JET', 'COMPACT', 'VORTEX', 'OTHER']).optional(),
-    coneWeight: z.number().optional(),
-    endUse: z.enum(['WEAVING', 'KNITTING', 'EMBROIDERY', 'SEWING_THREAD', 'OTHER']).optional(),
-    certifications: z.array(z.string().max(100)).optional(),
-  }).passthrough(),
-  FIBER: z.object({
-    fiberType: z.string().max(50).optional(),
-    fiberGrade: z.string().max(50).optional(),
-    stapleLength: z.number().optional(),
-    micronaire: z.number().optional(),
-    strength: z.number().optional(),
-    origin: z.string().max(100).optional(),
-    organicStatus: z.enum(['ORGANIC', 'CONVENTIONAL', 'TRANSITIONAL']).optional(),
-    moistureContent: z.number().optional(),
-    trashContent: z.number().optional(),
-    certifications: z.array(z.string().max(100)).optional(),
-  }).passthrough(),
-  FABRIC_WOVEN: z.object({
-    weaveType: z.string().max(50).optional(),
-    finish: z.string().max(100).optional(),
-    endUse: z.enum(['APPAREL', 'HOME_TEXTILE', 'INDUSTRIAL', 'TECHNICAL']).optional(),
-  }).passthrough(),
-  FABRIC_KNIT: z.object({
-    knitType: z.string().max(50).optional(),
-    gauge: z.number().optional(),
-    loopLength: z.number().optional(),
-    stretch: z.enum(['TWO_WAY', 'FOUR_WAY', 'NONE']).optional(),
-    finish: z.string().max(100).optional(),
-    endUse: z.enum(['APPAREL', 'HOME_TEXTILE', 'INDUSTRIAL', 'TECHNICAL']).optional(),
-  }).passthrough(),
-  FABRIC_PROCESSED: z.object({
-    processType: z.string().max(100).optional(),
-    dyeingMethod: z.string().max(100).optional(),
-    printingMethod: z.string().max(100).optional(),
-    baseConstruction: z.string().max(100).optional(),
-    finish: z.string().max(100).optional(),
-  }).passthrough(),
-  GARMENT: z.object({
-    garmentType: z.string().max(100).optional(),
-    sizeRange: z.string().max(100).optional(),
-    fit: z.string().max(50).optional(),
-    gender: z.string().max(50).optional(),
-    ageGroup: z.string().max(50).optional(),
-    fabricComposition: z.string().max(500).optional(),
-    trims: z.string().max(500).optional(),
-    stitchingType: z.string().max(100).optional(),
-    washCare: z.string().max(200).optional(),
-    monthlyCapacity: z.number().int().optional(),
-    complianceCertifications: z.array(z.string().max(100)).optional(),
-  }).passthrough(),
-  ACCESSORY_TRIM: z.object({
-    trimType: z.string().max(100).optional(),
-    material: z.string().max(100).optional(),
-    size: z.string().max(50).optional(),
-    color: z.string().max(100).optional(),
-    finish: z.string().max(100).optional(),
-    usage: z.string().max(200).optional(),
-    certifications: z.array(z.string().max(100)).optional(),
-  }).passthrough(),
-  CHEMICAL_AUXILIARY: z.object({
-    chemicalType: z.string().max(100).optional(),
-    applicationStage: z.string().max(100).optional(),
-    form: z.string().max(50).optional(),
-    concentration: z.string().max(50).optional(),
-    compatibility: z.string().max(200).optional(),
-    hazardClass: z.string().max(50).optional(),
-    packSize: z.string().max(100).optional(),
-    compliance: z.string().max(200).optional(),
-    sdsAvailable: z.boolean().optional(),
-  }).passthrough(),
-  MACHINE: z.object({
-    machineType: z.string().max(100).optional(),
-    brand: z.string().max(100).optional(),
-    model: z.string().max(100).optional(),
-    year: z.number().int().min(1900).max(2100).optional(),
-    capacity: z.string().max(100).optional(),
-    automationLevel: z.string().max(50).optional(),
-    powerRequirement: z.string().max(100).optional(),
-    condition: z.string().max(50).optional(),
-    warranty: z.string().max(100).optional(),
-    serviceSupport: z.boolean().optional(),
-  }).passthrough(),
-  MACHINE_SPARE: z.object({
-    spareType: z.string().max(100).optional(),
-    compatibleMachine: z.string().max(100).optional(),
-    partNumber: z.string().max(100).optional(),
-    material: z.string().max(100).optional(),
-    dimension: z.string().max(100).optional(),
-    brand: z.string().max(100).optional(),
-    condition: z.string().max(50).optional(),
-    stockAvailability: z.string().max(50).optional(),
-    leadTimeDays: z.number().int().optional(),
-  }).passthrough(),
-  PACKAGING: z.object({
-    packagingType: z.string().max(100).optional(),
-    material: z.string().max(100).optional(),
-    size: z.string().max(100).optional(),
-    gsmOrThickness: z.string().max(50).optional(),
-    printCompatibility: z.string().max(100).optional(),
-    foodGrade: z.boolean().optional(),
-    recyclable: z.boolean().optional(),
-    compliance: z.string().max(200).optional(),
-  }).passthrough(),
-  SERVICE: z.object({
-    serviceType: z.enum(SERVICE_TYPE_VALUES).optional(),
-    specialization: z.string().max(200).optional(),
-    industryFocus: z.array(z.string().max(100)).optional(),
-    softwareTools: z.string().max(200).optional(),
-    locationCoverage: z.string().max(200).optional(),
-    turnaroundTimeDays: z.number().int().optional(),
-    portfolioAvailable: z.boolean().optional(),
-    certifications: z.array(z.string().max(100)).optional(),
-    pricingModel: z.enum(['PER_PROJECT', 'HOURLY', 'RETAINER', 'SUBSCRIPTION']).optional(),
-  }).passthrough(),
-  SOFTWARE_SAAS: z.object({
-    softwareCategory: z.string().max(100).optional(),
-    deploymentModel: z.string().max(100).optional(),
-    modules: z.array(z.string().max(100)).optional(),
-    integrations: z.string().max(500).optional(),
-    userSeats: z.string().max(100).optional(),
-    supportLevel: z.string().max(100).optional(),
-    securityCertifications: z.array(z.string().max(100)).optional(),
-    trialAvailable: z.boolean().optional(),
-  }).passthrough(),
-  OTHER: z.record(z.unknown()),
-};
-
-// =============================================================================
-// Pure helpers: vector text and attribute completeness
-// =============================================================================
-
-interface CatalogItemForVectorText {
-  name: string;
-  sku?: string | null;
-  description?: string | null;
-  productCategory?: string | null;
-  fabricType?: string | null;
-  material?: string | null;
-  composition?: string | null;
-  construction?: string | null;
-  color?: string | null;
-  gsm?: unknown;
-  widthCm?: unknown;
-  certifications?: Array<{ standard: string }> | null;
-  // Stage attributes (TECS-B2B-CATALOG-MATERIAL-STAGE-ATTRIBUTES-001)
-  catalogStage?: string | null;
-  stageAttributes?: Record<string, unknown> | null;
-}
-
-/**
- * Build a rich plain-text document for vector ingestion from a catalog item.
- * Stage-aware dispatch: uses catalogStage to select the relevant field set.
- * DOES NOT include price or publicationPosture (intentional).
- */
-export function buildCatalogItemVectorText(item: CatalogItemForVectorText): string {
-  const attrs = (item.stageAttributes ?? {}) as Record<string, unknown>;
-
-  function strOf(key: string): string | null {
-    const v = attrs[key];
-    return typeof v === 'string' && v.length > 0 ? v : null;
-  }
-  function numOf(key: string): number | null {
-    const v = attrs[key];
-    return v != null && !isNaN(Number(v)) ? Number(v) : null;
-  }
-  function arrOf(key: string): string[] {
-    const v = attrs[key];
-    return Array.isArray(v) ? v.filter((x): x is string => typeof x === 'string') : [];
-  }
-
-  const certStr =
-    item.certifications && item.certifications.length > 0
-      ? `Certifications: ${item.certifications.map(c => c.standard).join(', ')}`
-      : null;
-
-  const parts: string[] = [item.name];
-  if (item.sku) parts.push(`SKU: ${item.sku}`);
-  if (item.description) parts.push(item.description);
-
-  switch (item.catalogStage) {
-    case 'YARN': {
-      if (strOf('yarnType')) parts.push(`Yarn type: ${strOf('yarnType')}`);
-      if (strOf('yarnCount')) parts.push(`Yarn count: ${strOf('yarnCount')}`);
-      if (strOf('countSystem')) parts.push(`Count system: ${strOf('countSystem')}`);
-      if (strOf('fiber')) parts.push(`Fiber: ${strOf('fiber')}`);
-      if (item.composition) parts.push(`Composition: ${item.composition}`);
-      if (strOf('spinningType')) parts.push(`Spinning type: ${strOf('spinningType')}`);
-      if (certStr) parts.push(certStr);
-      break;
-    }
-    case 'FIBER': {
-      if (strOf('fiberType')) parts.push(`Fiber type: ${strOf('fiberType')}`);
-      if (strOf('fiberGrade')) parts.push(`Grade: ${strOf('fiberGrade')}`);
-      if (strOf('origin')) parts.push(`Origin: ${strOf('origin')}`);
-      if (strOf('organicStatus')) parts.push(`Organic status: ${strOf('organicStatus')}`);
-      if (certStr) parts.push(certStr);
-      break;
-    }
-    case 'FABRIC_KNIT': {
-      if (strOf('knitType')) parts.push(`Knit type: ${strOf('knitType')}`);
-      const gauge = numOf('gauge');
-      if (gauge != null) parts.push(`Gauge: ${gauge}`);
-      if (strOf('stretch')) parts.push(`Stretch: ${strOf('stretch')}`);
-      if (item.material) parts.push(`Material: ${item.material}`);
-      if (item.composition) parts.push(`Composition: ${item.composition}`);
-      if (certStr) parts.push(certStr);
-      break;
-    }
-    case 'GARMENT': {
-      if (strOf('garmentType')) parts.push(`Garment type: ${strOf('garmentType')}`);
-      if (strOf('gender')) parts.push(`Gender: ${strOf('gender')}`);
-      if (strOf('fabricComposition')) parts.push(`Fabric composition: ${strOf('fabricComposition')}`);
-      if (strOf('stitchingType')) parts.push(`Stitching: ${strOf('stitchingType')}`);
-      const cap = numOf('monthlyCapacity');
-      if (cap != null) parts.push(`Monthly capacity: ${cap}`);
-      if (certStr) parts.push(certStr);
-      break;
-    }
-    case 'MACHINE': {
-      if (strOf('machineType')) parts.push(`Machine type: ${strOf('machineType')}`);
-      if (strOf('brand')) parts.push(`Brand: ${strOf('brand')}`);
-      if (strOf('model')) parts.push(`Model: ${strOf('model')}`);
-      const year = numOf('year');
-      if (year != null) parts.push(`Year: ${year}`);
-      if (strOf('condition')) parts.push(`Condition: ${strOf('condition')}`);
-      const svc = attrs['serviceSupport'];
-      if (svc != null) parts.push(`Service support: ${svc}`);
-      break;
-    }
-    case 'SERVICE': {
-      if (strOf('serviceType')) parts.push(`Service type: ${strOf('serviceType')}`);
-      if (strOf('specialization')) parts.push(`Specialization: ${strOf('specialization')}`);
-      const industries = arrOf('industryFocus');
-      if (industries.length > 0) parts.push(`Industry focus: ${industries.join(', ')}`);
-      if (strOf('locationCoverage')) parts.push(`Location coverage: ${strOf('locationCoverage')}`);
-      if (certStr) parts.push(certStr);
-      break;
-    }
-    case 'SOFTWARE_SAAS': {
-      if (strOf('softwareCategory')) parts.push(`Software category: ${strOf('softwareCategory')}`);
-      if (strOf('deploymentModel')) parts.push(`Deployment: ${strOf('deploymentModel')}`);
-      const mods = arrOf('modules');
-      if (mods.length > 0) parts.push(`Modules: ${mods.join(', ')}`);
-      const secCerts = arrOf('securityCertifications');
-      if (secCerts.length > 0) parts.push(`Security certifications: ${secCerts.join(', ')}`);
-      break;
-    }
-    default: {
-      // FABRIC_WOVEN, FABRIC_PROCESSED, ACCESSORY_TRIM, CHEMICAL_AUXILIARY,
-      // MACHINE_SPARE, PACKAGING, OTHER, or null — use existing fabric field path.
-      if (item.productCategory) parts.push(`Category: ${item.productCategory}`);
-      if (item.fabricType) parts.push(`Fabric type: ${item.fabricType}`);
-      if (item.material) parts.push(`Material: ${item.material}`);
-      if (item.composition) parts.push(`Composition: ${item.composition}`);
-      if (item.construction) parts.push(`Construction: ${item.construction}`);
-      if (item.color) parts.push(`Color: ${item.color}`);
-      if (item.gsm != null) parts.push(`GSM: ${Number(item.gsm)}`);
-      if (item.widthCm != null) parts.push(`Width: ${Number(item.widthCm)}cm`);
-      if (certStr) parts.push(certStr);
-      break;
-    }
-  }
-
-  return parts.join('\n');
-}
-
-/**
- * Compute what fraction of the relevant attribute fields are non-null/non-empty.
- * Stage-aware: uses catalogStage to determine the expected field set.
- * Returns a value in [0, 1]. Intended for AI context metadata only — not stored.
- */
-export function catalogItemAttributeCompleteness(item: Partial<CatalogItemForVectorText>): number {
-  const attrs = (item.stageAttributes ?? {}) as Record<string, unknown>;
-
-  function hasAttr(key: string): boolean {
-    const v = attrs[key];
-    if (v == null || v === '') return false;
-    if (Array.isArray(v) && v.length === 0) return false;
-    return true;
-  }
-  function hasField(key: keyof CatalogItemForVectorText): boolean {
-    const v = item[key];
-    if (v == null || v === '') return false;
-    if (Array.isArray(v) && (v as unknown[]).length === 0) return false;
-    return true;
-  }
-
-  switch (item.catalogStage) {
-    case 'YARN': {
-      // 11 fields
-      const count = [
-        hasField('name'), hasAttr('yarnType'), hasAttr('yarnCount'), hasAttr('countSystem'),
-        hasAttr('ply'), hasAttr('fiber'), hasField('composition'), hasAttr('spinningType'),
-        hasAttr('coneWeight'), hasAttr('endUse'), hasField('certifications'),
-      ].filter(Boolean).length;
-      return count / 11;
-    }
-    case 'FABRIC_KNIT': {
-      // 9 fields
-      const count = [
-        hasField('name'), hasAttr('knitType'), hasAttr('gauge'), hasAttr('loopLength'),
-        hasAttr('stretch'), hasField('material'), hasField('composition'), hasAttr('finish'),
-        hasField('certifications'),
-      ].filter(Boolean).length;
-      return count / 9;
-    }
-    case 'GARMENT': {
-      // 10 fields
-      const count = [
-        hasField('name'), hasAttr('garmentType'), hasAttr('gender'), hasAttr('ageGroup'),
-        hasAttr('fabricComposition'), hasAttr('trims'), hasAttr('stitchingType'),
-        hasAttr('washCare'), hasAttr('monthlyCapacity'), hasAttr('complianceCertifications'),
-      ].filter(Boolean).length;
-      return count / 10;
-    }
-    case 'MACHINE': {
-      // 8 fields
-      const count = [
-        hasField('name'), hasAttr('machineType'), hasAttr('brand'), hasAttr('model'),
-        hasAttr('year'), hasAttr('condition'), hasAttr('capacity'), hasAttr('serviceSupport'),
-      ].filter(Boolean).length;
-      return count / 8;
-    }
-    case 'SERVICE': {
-      // 7 fields
-      const count = [
-        hasField('name'), hasAttr('serviceType'), hasAttr('specialization'),
-        hasAttr('industryFocus'), hasAttr('locationCoverage'), hasAttr('turnaroundTimeDays'),
-        hasField('certifications'),
-      ].filter(Boolean).length;
-      return count / 7;
-    }
-    default: {
-      // FABRIC_WOVEN, null, or any other stage: 9 textile fields (legacy/unchanged)
-      const fields = [
-        'productCategory', 'fabricType', 'gsm', 'material', 'composition',
-        'color', 'widthCm', 'construction', 'certifications',
-      ] as const;
-      const filled = fields.filter(f => {
-        const v = (item as Record<string, unknown>)[f];
-        if (v == null || v === '') return false;
-        if (Array.isArray(v) && v.length === 0) return false;
-        return true;
-      }).length;
-      return filled / 9;
-    }
-  }
-}
+// Catalog item text helpers live in services/catalogItemText (shared with the import worker).
+export { buildCatalogItemVectorText, catalogItemAttributeCompleteness };
 
 /**
  * Assemble a plain-text summary of structured RFQ requirements for AI context.
@@ -2814,10 +2728,13 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
 
   /**
    * GET /api/tenant/catalog/items
-   * Read tenant-visible catalog items with cursor pagination
+   * Search tenant-visible catalog items with cursor pagination
    *
    * Gate B.2: RLS-enforced tenant isolation via app.org_id context
    * Manual tenant filters removed; RLS policies handle tenant boundary
+   *
+   * CATALOG-SEARCH-001: `q` is ranked full-text / trigram search; textile attribute,
+   * composition and certification filters narrow results; `facets` counts the matches.
    */
   fastify.get(
     '/tenant/catalog/items',
@@ -2829,35 +2746,21 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
       }
 
       // Validate query params
-      const querySchema = z.object({
-        q: z.string().optional(),
-        limit: z.coerce.number().int().min(1).max(100).default(20),
-        cursor: z.string().uuid().optional(),
-      });
-
-      const parseResult = querySchema.safeParse(request.query);
+      const parseResult = catalogItemListQuerySchema.safeParse(request.query);
       if (!parseResult.success) {
         return sendValidationError(reply, parseResult.error.errors);
       }
 
-      const { q, limit, cursor } = parseResult.data;
+      const { limit, cursor, ...filters } = parseResult.data;
 
       // Gate B.2: RLS-enforced query (no manual tenantId filter)
       // Tenant isolation enforced by: catalog_items tenant_id = app.current_org_id()
       // Explicit select: tenant-scoped catalog fields are returned for supplier UI readback.
       // Internal-only fields priceDisclosurePolicyMode and tenantId remain excluded.
-      const items = await withDbContext(prisma, request.dbContext, async tx => {
-        return await tx.catalogItem.findMany({
-          where: {
-            // Manual tenant filter REMOVED (RLS enforces tenant boundary)
-            active: true,
-            ...(q && {
-              OR: [
-                { name: { contains: q, mode: 'insensitive' } },
-                { sku: { contains: q, mode: 'insensitive' } },
-              ],
-            }),
-          },
+      const result = await withDbContext(prisma, request.dbContext, async tx => {
+        const page = await searchCatalogItems(tx, {
+          scope: {},
+          filters,
           select: {
             id: true,
             name: true,
@@ -2869,37 +2772,27 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
             updatedAt: true,
             moq: true,
             imageUrl: true,
-            productCategory: true,
-            fabricType: true,
-            gsm: true,
-            material: true,
-            composition: true,
-            color: true,
-            widthCm: true,
-            construction: true,
-            certifications: true,
-            catalogStage: true,
             stageAttributes: true,
             catalogVisibilityPolicyMode: true,
             publicationPosture: true,
           },
-          orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
-          take: limit + 1,
-          ...(cursor && {
-            cursor: { id: cursor },
-            skip: 1,
-          }),
+          limit,
+          cursor,
         });
+        // CATALOG-VARIANTS-001: variants are loaded for the returned page only.
+        const variantsByItem = await loadVariantsByCatalogItem(tx, page.items.map(item => item.id));
+        return {
+          ...page,
+          items: page.items.map(item => ({ ...item, variants: variantsByItem.get(item.id) ?? [] })),
+        };
       });
 
-      const hasMore = items.length > limit;
-      const resultItems = hasMore ? items.slice(0, limit) : items;
-      const nextCursor = hasMore ? resultItems[resultItems.length - 1]?.id : null;
-
       return sendSuccess(reply, {
-        items: resultItems,
-        count: resultItems.length,
-        nextCursor,
+        items: result.items,
+        count: result.items.length,
+        total: result.total,
+        nextCursor: result.nextCursor,
+        facets: result.facets,
       });
     }
   );
@@ -3031,31 +2924,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         return sendError(reply, 'FORBIDDEN', 'Only OWNER or ADMIN can create catalog items', 403);
       }
 
-      const bodySchema = z.object({
-        name: z.string().min(1).max(255),
-        sku: z.string().min(1).max(100).optional(),
-        imageUrl: z.string().url().max(2048).optional(),
-        description: z.string().optional(),
-        price: z.number().positive(),
-        moq: z.number().int().min(1).default(1),
-        // Textile attributes (TECS-B2B-BUYER-CATALOG-TEXTILE-ATTRIBUTES-FILTERS-001)
-        productCategory: z.enum(PRODUCT_CATEGORY_VALUES).optional(),
-        fabricType: z.enum(FABRIC_TYPE_VALUES).optional(),
-        gsm: z.number().min(10).max(2000).optional(),
-        material: z.enum(MATERIAL_VALUES).optional(),
-        composition: z.string().max(500).optional(),
-        color: z.string().max(100).optional(),
-        widthCm: z.number().min(1).max(999.99).optional(),
-        construction: z.enum(CONSTRUCTION_VALUES).optional(),
-        certifications: certificationsCreateSchema,
-        // Stage attributes (TECS-B2B-CATALOG-MATERIAL-STAGE-ATTRIBUTES-001)
-        catalogStage: z.enum(CATALOG_STAGE_VALUES).optional(),
-        stageAttributes: z.record(z.unknown()).optional(),
-        // Catalog visibility policy (TECS-CATALOG-VISIBILITY-POLICY-STORAGE-001)
-        catalogVisibilityPolicyMode: z.enum(CATALOG_VISIBILITY_POLICY_MODES).nullable().optional(),
-      });
-
-      const parseResult = bodySchema.safeParse(request.body);
+      const parseResult = catalogItemCreateSchema.safeParse(request.body);
       if (!parseResult.success) {
         return sendValidationError(reply, parseResult.error.errors);
       }
@@ -3070,19 +2939,11 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
       const derivedPublicationPosture = mapCatalogVisibilityModeToPublicationPosture(catalogVisibilityPolicyMode);
 
       // Validate stage-specific stageAttributes if present.
-      let validatedStageAttributes: Record<string, unknown> | null = null;
-      if (catalogStage && stageAttributes) {
-        const stageSchema = stageAttributesSchemas[catalogStage];
-        if (stageSchema) {
-          const attrResult = stageSchema.safeParse(stageAttributes);
-          if (!attrResult.success) {
-            return sendValidationError(reply, attrResult.error.errors);
-          }
-          validatedStageAttributes = attrResult.data as Record<string, unknown>;
-        } else {
-          validatedStageAttributes = stageAttributes;
-        }
+      const attrResult = validateCatalogStageAttributes(catalogStage, stageAttributes);
+      if (!attrResult.success) {
+        return sendValidationError(reply, attrResult.error.errors);
       }
+      const validatedStageAttributes = attrResult.data;
 
       const item = await withDbContext(prisma, dbContext, async tx => {
         const created = await tx.catalogItem.create({
@@ -3137,9 +2998,9 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
 
       // G-028 B1: Enqueue async vector indexing after successful DB commit.
       // Must run after withDbContext resolves so the transaction is committed.
-      // Failure is best-effort: a full queue does not fail the HTTP response.
+      // Failure is best-effort: an enqueue failure does not fail the HTTP response.
       const vectorText = buildCatalogItemVectorText(item);
-      const enqueueResult = enqueueSourceIngestion(
+      const enqueueResult = await enqueueSourceIngestion(
         dbContext.orgId,
         'CATALOG_ITEM',
         item.id,
@@ -3162,6 +3023,9 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         });
       }
 
+      // PUBLIC-SEO-SITEMAP-SERVER-001: public sitemaps pick up the new item.
+      void emitPublicContentInvalidate(prisma, dbContext.orgId, request.log);
+
       return sendSuccess(reply, { item }, 201);
     }
   );
@@ -3295,9 +3159,9 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
 
       // G-028 B2: Enqueue async vector reindex after successful DB commit.
       // Must run after withDbContext resolves so the transaction is committed.
-      // Failure is best-effort: a full queue does not fail the HTTP response.
+      // Failure is best-effort: an enqueue failure does not fail the HTTP response.
       const vectorText = buildCatalogItemVectorText(updated);
-      const enqueueResult = enqueueSourceIngestion(
+      const enqueueResult = await enqueueSourceIngestion(
         dbContext.orgId,
         'CATALOG_ITEM',
         updated.id,
@@ -3313,6 +3177,9 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         });
       }
 
+      // PUBLIC-SEO-SITEMAP-SERVER-001: name / posture changes alter public sitemap entries.
+      void emitPublicContentInvalidate(prisma, dbContext.orgId, request.log);
+
       return sendSuccess(reply, { item: updated });
     }
   );
@@ -3381,8 +3248,8 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
 
       // G-028-B2-DELETE-ENQUEUE-BLOCKER: Enqueue async vector chunk deletion post-commit.
       // Runs after withDbContext() resolves (transaction committed). Failure is best-effort:
-      // a full queue does not affect the HTTP 200 response or audit correctness.
-      const deleteEnqueueResult = enqueueSourceDeletion(
+      // an enqueue failure does not affect the HTTP 200 response or audit correctness.
+      const deleteEnqueueResult = await enqueueSourceDeletion(
         dbContext.orgId,
         'CATALOG_ITEM',
         id,
@@ -3396,6 +3263,9 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         });
       }
 
+      // PUBLIC-SEO-SITEMAP-SERVER-001: drop the item from public sitemaps.
+      void emitPublicContentInvalidate(prisma, dbContext.orgId, request.log);
+
       return sendSuccess(reply, { id, deleted: true });
     }
   );
@@ -3624,6 +3494,12 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           subLabel: 'RFQ required for pricing',
           note: 'Pricing is confirmed through the quote process',
         },
+        // CATALOG-VARIANTS-001: variants sit behind the parent's gates above and carry no price.
+        variants: await loadBuyerVariantSummaries(
+          prisma,
+          item.id,
+          typeof item.moq === 'number' ? item.moq : Number(item.moq),
+        ),
       };
 
       const supplierPolicy = resolveSupplierDisclosurePolicyForB2bPdp({
@@ -4023,6 +3899,34 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         }),
       );
 
+      // ── Step 4b: Supplier track record (analytics projection, counts only) ────
+      // supplier_performance_summaries is tenant-scoped; the admin arm of its RLS
+      // lets this read the candidates' rows. A failed read only drops the signal.
+      let performanceByOrg: Record<string, SafeSupplierPerformanceInput> = {};
+      try {
+        performanceByOrg = await withOrgAdminContext(prisma, async tx => {
+          const summaries = await tx.supplierPerformanceSummary.findMany({
+            where: { tenantId: { in: candidateTenantIds } },
+            select: {
+              tenantId: true,
+              rfqReceivedCount: true,
+              respondedWithin24hCount: true,
+              fulfilmentDueCount: true,
+              fulfilmentOnTimeCount: true,
+              poolQuoteDecidedCount: true,
+              poolQuoteWonCount: true,
+            },
+          });
+          const perfMap: Record<string, SafeSupplierPerformanceInput> = {};
+          for (const { tenantId, ...counts } of summaries) {
+            perfMap[tenantId] = { supplierOrgId: tenantId, ...counts };
+          }
+          return perfMap;
+        });
+      } catch {
+        performanceByOrg = {};
+      }
+
       // ── Step 5: Build SupplierMatchCandidateDraft[] (Slice A signals) ─────────
       const candidateDrafts: SupplierMatchCandidateDraft[] = candidateRows
         .filter(row => row.tenant_id in orgDisplayNames)
@@ -4063,6 +3967,9 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
                   | undefined) ?? 'NONE',
               },
             ],
+            supplierPerformance: performanceByOrg[row.tenant_id]
+              ? [performanceByOrg[row.tenant_id]]
+              : [],
           });
 
           const relState =
@@ -4192,25 +4099,11 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
       const paramsSchema = z.object({
         supplierOrgId: z.string().uuid(),
       });
-      const querySchema = z.object({
+      // Textile attribute, composition and certification filters are the shared
+      // catalog search filters (CATALOG-SEARCH-001).
+      const querySchema = catalogSearchFiltersSchema.extend({
         limit: z.coerce.number().int().min(1).max(100).default(20),
         cursor: z.string().uuid().optional(),
-        q: z.string().max(100).optional(),
-        // Textile attribute filters (TECS-B2B-BUYER-CATALOG-TEXTILE-ATTRIBUTES-FILTERS-001)
-        productCategory: z.string().max(50).optional(),
-        fabricType: z.string().max(50).optional(),
-        material: z.union([
-          z.array(z.string().max(50)),
-          z.string().max(50).transform(v => [v]),
-        ]).optional(),
-        construction: z.string().max(50).optional(),
-        color: z.string().max(100).optional(),
-        gsmMin: z.coerce.number().min(10).max(2000).optional(),
-        gsmMax: z.coerce.number().min(10).max(2000).optional(),
-        widthMin: z.coerce.number().min(1).max(999.99).optional(),
-        widthMax: z.coerce.number().min(1).max(999.99).optional(),
-        moqMax: z.coerce.number().int().min(1).optional(),
-        certification: z.string().max(50).optional(),
         // Stage filter (TECS-B2B-CATALOG-MATERIAL-STAGE-ATTRIBUTES-001)
         catalogStage: z.enum(CATALOG_STAGE_VALUES).optional(),
       });
@@ -4225,12 +4118,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         return sendValidationError(reply, queryResult.error.errors);
       }
 
-      const {
-        limit, cursor, q,
-        productCategory, fabricType, material, construction, color,
-        gsmMin, gsmMax, widthMin, widthMax, moqMax, certification,
-        catalogStage,
-      } = queryResult.data;
+      const { limit, cursor, ...filters } = queryResult.data;
 
       // Gate 1: Org eligibility (admin context required — organizations RLS requires admin realm).
       // Checks both organizations.publication_posture and tenant.publicEligibilityPosture.
@@ -4266,218 +4154,65 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         request.dbContext.orgId,
       );
 
-      // Build non-certification AND-composed filters.
+      // Gate 2: Read catalog items cross-tenant (texqtic_rfq_read role — proven cross-tenant read pattern).
       // Channel-eligibility gate: B2C_PUBLIC items are intentionally excluded from B2B buyer
       // browse surfaces. Use BOTH posture for cross-channel items. (POLICY_B — consistent with
       // the RFQ path which already gates on B2B_PUBLIC | BOTH via SQL.)
-      const filterClauses: Prisma.CatalogItemWhereInput[] = [
-        { tenantId: supplierOrgId, active: true },
-        { publicationPosture: { not: 'B2C_PUBLIC' } },
-      ];
-
-      if (q && q.trim().length > 0) {
-        filterClauses.push({
-          OR: [
-            { name: { contains: q.trim(), mode: 'insensitive' } },
-            { sku: { contains: q.trim(), mode: 'insensitive' } },
-          ],
-        });
-      }
-      if (productCategory) {
-        filterClauses.push({ productCategory: { equals: productCategory, mode: 'insensitive' } });
-      }
-      if (fabricType) {
-        filterClauses.push({ fabricType: { equals: fabricType, mode: 'insensitive' } });
-      }
-      if (material && material.length > 0) {
-        filterClauses.push({ material: { in: material, mode: 'insensitive' } });
-      }
-      if (construction) {
-        filterClauses.push({ construction: { equals: construction, mode: 'insensitive' } });
-      }
-      if (color) {
-        filterClauses.push({ color: { contains: color, mode: 'insensitive' } });
-      }
-      if (gsmMin !== undefined) {
-        filterClauses.push({ gsm: { gte: gsmMin } });
-      }
-      if (gsmMax !== undefined) {
-        filterClauses.push({ gsm: { lte: gsmMax } });
-      }
-      if (widthMin !== undefined) {
-        filterClauses.push({ widthCm: { gte: widthMin } });
-      }
-      if (widthMax !== undefined) {
-        filterClauses.push({ widthCm: { lte: widthMax } });
-      }
-      if (moqMax !== undefined) {
-        filterClauses.push({ moq: { lte: moqMax } });
-      }
-      if (catalogStage) {
-        filterClauses.push({ catalogStage: { equals: catalogStage } });
-      }
-
-      const baseWhere: Prisma.CatalogItemWhereInput = { AND: filterClauses };
-
-      // Gate 2: Read catalog items cross-tenant (texqtic_rfq_read role — proven cross-tenant read pattern).
-      // Certification filter uses two-pass approach:
-      //   Pass 1: findMany with all non-cert filters to obtain candidate IDs
-      //   Pass 2: $queryRaw with safe parameterized JSONB @> containment to apply cert filter
-      // This avoids unsafe string interpolation for JSONB user input.
-
-      type RawCatalogRow = {
-        id: string; name: string; sku: string | null;
-        description: string | null; moq: number; imageUrl: string | null;
-        product_category: string | null; fabric_type: string | null;
-        gsm: unknown; material: string | null; composition: string | null;
-        color: string | null; width_cm: unknown; construction: string | null;
-        certifications: unknown;
-        publication_posture: string | null; catalog_visibility_policy_mode: string | null;
-        catalog_stage: string | null; stage_attributes: unknown;
-      };
-
-      let rawItems: RawCatalogRow[];
-
-      if (certification) {
-        // Two-pass: get IDs from Prisma (includes cursor/limit handling), then cert filter via raw SQL.
-        const candidateIds = await prisma.$transaction(async tx => {
-          await tx.$executeRaw`SET LOCAL ROLE texqtic_rfq_read`;
-          const rows = await tx.catalogItem.findMany({
-            where: baseWhere,
-            select: { id: true },
-            orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
-            take: 1000, // broad fetch — cert filter applied below
-          });
-          return rows.map(r => r.id);
-        });
-
-        if (candidateIds.length === 0) {
-          return sendSuccess(reply, { items: [], count: 0, nextCursor: null });
-        }
-
-        // Safe parameterized JSONB containment — no string interpolation of user input.
-        const certFilter = JSON.stringify([{ standard: certification }]);
-        rawItems = await prisma.$transaction(async tx => {
-          await tx.$executeRaw`SET LOCAL ROLE texqtic_rfq_read`;
-          return tx.$queryRaw<RawCatalogRow[]>`
-            SELECT id, name, sku, description, moq, image_url AS "imageUrl",
-                   product_category, fabric_type, gsm, material, composition,
-                   color, width_cm, construction, certifications,
-                   publication_posture, catalog_visibility_policy_mode,
-                   catalog_stage, stage_attributes
-            FROM catalog_items
-            WHERE id = ANY(${candidateIds}::uuid[])
-              AND certifications IS NOT NULL
-              AND certifications @> ${certFilter}::jsonb
-            ORDER BY updated_at DESC, id DESC
-          `;
-        });
-
-        // Apply cursor-based pagination manually to raw results
-        let startIdx = 0;
-        if (cursor) {
-          const cursorIdx = rawItems.findIndex(r => r.id === cursor);
-          if (cursorIdx !== -1) startIdx = cursorIdx + 1;
-        }
-        rawItems = rawItems.slice(startIdx, startIdx + limit + 1);
-      } else {
-        // No cert filter — standard Prisma findMany with cursor pagination.
-        const items = await prisma.$transaction(async tx => {
-          await tx.$executeRaw`SET LOCAL ROLE texqtic_rfq_read`;
-          return tx.catalogItem.findMany({
-            where: baseWhere,
-            select: {
-              id: true, name: true, sku: true, description: true, moq: true, imageUrl: true,
-              productCategory: true, fabricType: true, gsm: true, material: true,
-              composition: true, color: true, widthCm: true, construction: true,
-              certifications: true,
-              publicationPosture: true, catalogVisibilityPolicyMode: true,
-              catalogStage: true, stageAttributes: true,
-            },
-            orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
-            take: limit + 1,
-            ...(cursor && { cursor: { id: cursor }, skip: 1 }),
-          });
-        });
-
-        const visibleItems = filterBuyerVisibleCatalogItems(items, {
-          buyerOrgId: request.dbContext.orgId,
-          relationshipState: relationship.state,
-          relationshipExpiresAt: relationship.expiresAt,
-          getSupplierOrgId: () => supplierOrgId,
-          getCatalogVisibilityPolicy: item =>
-            resolveItemCatalogVisibilityForRoute(
-              item as unknown as Record<string, unknown>,
-            ),
-        });
-
-        const hasMore = visibleItems.length > limit;
-        const resultItems = hasMore ? visibleItems.slice(0, limit) : visibleItems;
-        const nextCursor = hasMore ? (resultItems[resultItems.length - 1]?.id ?? null) : null;
-
-        return sendSuccess(reply, {
-          items: resultItems.map(item => ({
-            id: item.id,
-            name: item.name,
-            sku: item.sku,
-            description: item.description,
-            moq: item.moq,
-            imageUrl: item.imageUrl,
-            productCategory: item.productCategory,
-            fabricType: item.fabricType,
-            gsm: item.gsm != null ? Number(item.gsm) : null,
-            material: item.material,
-            composition: item.composition,
-            color: item.color,
-            widthCm: item.widthCm != null ? Number(item.widthCm) : null,
-            construction: item.construction,
-            certifications: item.certifications as Array<{ standard: string }> | null,
-            catalogStage: item.catalogStage,
-            stageAttributes: item.stageAttributes as Record<string, unknown> | null,
-          })),
-          count: resultItems.length,
-          nextCursor,
+      // Relationship visibility is applied before facet counts and pagination, so gated
+      // items never surface in counts.
+      const buyerOrgId = request.dbContext.orgId;
+      const result = await prisma.$transaction(async tx => {
+        await tx.$executeRaw`SET LOCAL ROLE texqtic_rfq_read`;
+        return searchCatalogItems<BuyerCatalogSearchRow>(tx, {
+          scope: {
+            tenantIds: [supplierOrgId],
+            excludedPublicationPostures: ['B2C_PUBLIC'],
+          },
+          filters,
+          select: {
+            name: true, sku: true, description: true, moq: true, imageUrl: true,
+            publicationPosture: true, catalogVisibilityPolicyMode: true,
+            stageAttributes: true,
+          },
+          limit,
+          cursor,
+          filterVisible: rows => filterBuyerVisibleCatalogItems(rows, {
+            buyerOrgId,
+            relationshipState: relationship.state,
+            relationshipExpiresAt: relationship.expiresAt,
+            getSupplierOrgId: () => supplierOrgId,
+            getCatalogVisibilityPolicy: item =>
+              resolveItemCatalogVisibilityForRoute(
+                item as unknown as Record<string, unknown>,
+              ),
+          }),
         });
-      }
-
-      // Arrive here only in the cert two-pass path
-      const visibleRawItems = filterBuyerVisibleCatalogItems(rawItems, {
-        buyerOrgId: request.dbContext.orgId,
-        relationshipState: relationship.state,
-        relationshipExpiresAt: relationship.expiresAt,
-        getSupplierOrgId: () => supplierOrgId,
-        getCatalogVisibilityPolicy: item =>
-          resolveItemCatalogVisibilityForRoute(
-            item as unknown as Record<string, unknown>,
-          ),
       });
 
-      const hasMore = visibleRawItems.length > limit;
-      const resultRaw = hasMore ? visibleRawItems.slice(0, limit) : visibleRawItems;
-      const nextCursor = hasMore ? (resultRaw[resultRaw.length - 1]?.id ?? null) : null;
-
       return sendSuccess(reply, {
-        items: resultRaw.map(r => ({
-          id: r.id,
-          name: r.name,
-          sku: r.sku,
-          description: r.description,
-          moq: Number(r.moq),
-          imageUrl: r.imageUrl,
-          productCategory: r.product_category,
-          fabricType: r.fabric_type,
-          gsm: r.gsm != null ? Number(r.gsm) : null,
-          material: r.material,
-          composition: r.composition,
-          color: r.color,
-          widthCm: r.width_cm != null ? Number(r.width_cm) : null,
-          construction: r.construction,
-          certifications: r.certifications as Array<{ standard: string }> | null,
-          catalogStage: r.catalog_stage,
-          stageAttributes: r.stage_attributes as Record<string, unknown> | null,
+        items: result.items.map(item => ({
+          id: item.id,
+          name: item.name,
+          sku: item.sku,
+          description: item.description,
+          moq: item.moq,
+          imageUrl: item.imageUrl,
+          productCategory: item.productCategory,
+          fabricType: item.fabricType,
+          gsm: item.gsm != null ? Number(item.gsm) : null,
+          material: item.material,
+          composition: item.composition,
+          color: item.color,
+          widthCm: item.widthCm != null ? Number(item.widthCm) : null,
+          construction: item.construction,
+          certifications: item.certifications as Array<{ standard: string }> | null,
+          catalogStage: item.catalogStage,
+          stageAttributes: item.stageAttributes as Record<string, unknown> | null,
         })),
-        count: resultRaw.length,
-        nextCursor,
+        count: result.items.length,
+        total: result.total,
+        nextCursor: result.nextCursor,
+        facets: result.facets,
       });
     }
   );
@@ -4674,6 +4409,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
                   active: true,
                 },
               },
+              variant: { select: CART_LINE_VARIANT_SELECT },
             },
           },
         },
@@ -4697,17 +4433,13 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
     { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
     async (request, reply) => {
       // Validate body
-      const bodySchema = z.object({
-        catalogItemId: z.string().uuid(),
-        quantity: z.number().int().min(1),
-      });
-
-      const parseResult = bodySchema.safeParse(request.body);
+      const parseResult = cartItemAddBodySchema.safeParse(request.body);
       if (!parseResult.success) {
         return sendValidationError(reply, parseResult.error.errors);
       }
 
       const { catalogItemId, quantity } = parseResult.data;
+      const variantId = parseResult.data.variantId ?? null;
 
       // Database context injected by databaseContextMiddleware (G-005)
       const dbContext = request.dbContext;
@@ -4735,6 +4467,19 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           return { error: 'CATALOG_ITEM_INACTIVE' };
         }
 
+        let variant: Awaited<ReturnType<typeof loadOrderableVariant>> | null = null;
+        if (variantId) {
+          try {
+            variant = await loadOrderableVariant(tx, catalogItemId, variantId);
+          } catch (err) {
+            if (err instanceof CatalogVariantError) {
+              return { error: err.code };
+            }
+            throw err;
+          }
+        }
+        const lineTerms = resolveEffectiveLineTerms(catalogItem, variant);
+
         // Ensure active cart exists (create if missing, RLS enforces tenant boundary)
         let cart = await tx.cart.findFirst({
           where: {
@@ -4756,23 +4501,22 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           cartWasCreated = true;
         }
 
-        // Upsert cart item
-        const existingCartItem = await tx.cartItem.findUnique({
+        // Upsert cart item — one line per (item, variant)
+        const existingCartItem = await tx.cartItem.findFirst({
           where: {
-            cartId_catalogItemId: {
-              cartId: cart.id,
-              catalogItemId,
-            },
+            cartId: cart.id,
+            catalogItemId,
+            variantId,
           },
         });
 
-        // MOQ enforcement: finalQty = existing + incoming must meet moq
+        // MOQ enforcement: finalQty = existing + incoming must meet the line's effective moq
         const currentQty = existingCartItem?.quantity ?? 0;
         const finalQty = currentQty + quantity;
-        if (finalQty < catalogItem.moq) {
+        if (finalQty < lineTerms.moq) {
           return {
             error: 'MOQ_NOT_MET' as const,
-            requiredMoq: catalogItem.moq,
+            requiredMoq: lineTerms.moq,
             finalQty,
           };
         }
@@ -4795,6 +4539,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
                   active: true,
                 },
               },
+              variant: { select: CART_LINE_VARIANT_SELECT },
             },
           });
         } else {
@@ -4803,6 +4548,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
             data: {
               cartId: cart.id,
               catalogItemId,
+              variantId,
               quantity,
             },
             include: {
@@ -4815,6 +4561,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
                   active: true,
                 },
               },
+              variant: { select: CART_LINE_VARIANT_SELECT },
             },
           });
         }
@@ -4831,6 +4578,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           metadataJson: {
             cartId: cart.id,
             catalogItemId,
+            variantId,
             quantityAdded: quantity,
             resultingQuantity,
           },
@@ -4851,6 +4599,12 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         if (result.error === 'CATALOG_ITEM_INACTIVE') {
           return sendError(reply, 'BAD_REQUEST', 'Catalog item is not active', 400);
         }
+        if (result.error === 'VARIANT_NOT_FOUND') {
+          return sendNotFound(reply, 'Variant not found for this catalog item');
+        }
+        if (result.error === 'VARIANT_INACTIVE') {
+          return sendError(reply, 'BAD_REQUEST', 'Variant is not active', 400);
+        }
         if (result.error === 'MOQ_NOT_MET') {
           return reply.status(422).send({
             success: false,
@@ -4939,6 +4693,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
             status: true,
             orgId: true,
             catalogItemId: true,
+            variantId: true,
             quantity: true,
             supplierOrgId: true,
             createdAt: true,
@@ -5020,6 +4775,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           id: true,
           status: true,
           catalogItemId: true,
+          variantId: true,
           quantity: true,
           createdAt: true,
           updatedAt: true,
@@ -5080,6 +4836,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           id: true,
           status: true,
           catalogItemId: true,
+          variantId: true,
           quantity: true,
           buyerMessage: true,
           createdAt: true,
@@ -5105,19 +4862,23 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
       return sendNotFound(reply, 'RFQ not found');
     }
 
-    const buyerCounterpartySummary = await getCounterpartyProfileAggregation(rfq.orgId, prisma).catch((error: unknown) => {
-      if (error instanceof OrganizationNotFoundError) {
-        return null;
-      }
+    const [buyerCounterpartySummary, quoteThread] = await Promise.all([
+      getCounterpartyProfileAggregation(rfq.orgId, prisma).catch((error: unknown) => {
+        if (error instanceof OrganizationNotFoundError) {
+          return null;
+        }
 
-      throw error;
-    });
+        throw error;
+      }),
+      resolveRfqQuoteThread(dbContext, rfq.id),
+    ]);
 
     return sendSuccess(reply, {
       rfq: mapSupplierRfqDetail({
         ...rfq,
         stageRequirementAttributes: rfq.stageRequirementAttributes as Record<string, unknown> | null,
         buyerCounterpartySummary,
+        quoteThread,
       }),
     });
   });
@@ -5125,6 +4886,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
   /**
    * POST /api/tenant/rfqs/inbox/:id/respond
    * Record the first supplier-side non-binding RFQ response for a supplier-addressed RFQ.
+   * An optional structured `quote` opens the negotiation thread as revision 1 (TECS-RFQ-QUOTE-001).
    */
   fastify.post('/tenant/rfqs/inbox/:id/respond', { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] }, async (request, reply) => {
     const { userId } = request;
@@ -5145,6 +4907,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
 
     const bodySchema = z.object({
       message: z.string().trim().min(1).max(1000),
+      quote: rfqQuoteTermsSchema.optional(),
     }).strict();
     const bodyResult = bodySchema.safeParse(request.body);
     if (!bodyResult.success) {
@@ -5152,7 +4915,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
     }
 
     const rfqId = paramsResult.data.id;
-    const message = bodyResult.data.message;
+    const { message, quote: quoteTerms } = bodyResult.data;
 
     try {
       const result = await withDbContext(prisma, dbContext, async tx => {
@@ -5163,7 +4926,9 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           },
           select: {
             id: true,
+            orgId: true,
             supplierOrgId: true,
+            quantity: true,
             status: true,
           },
         });
@@ -5243,10 +5008,57 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
             respondedAt: response.submittedAt.toISOString(),
             parentRfqStatus: 'RESPONDED',
             nonBinding: true,
+            hasStructuredQuote: Boolean(quoteTerms),
+          },
+        });
+
+        await publishRfqDomainEvent(
+          tx,
+          'rfq.responded.v1',
+          rfq,
+          { orgId: dbContext.orgId, userId },
+          { type: 'rfq_supplier_response', id: response.id },
+          { responseId: response.id },
+        );
+
+        if (!quoteTerms) {
+          return { response, quote: null };
+        }
+
+        const quote = await appendRfqQuoteRevision(tx, {
+          rfq,
+          authorSide: 'SUPPLIER',
+          revision: 1,
+          terms: quoteTerms,
+          createdByUserId: userId,
+        });
+
+        await writeAuditLog(tx, {
+          realm: 'TENANT',
+          tenantId: dbContext.orgId,
+          actorType: 'USER',
+          actorId: userId,
+          action: 'rfq.RFQ_QUOTE_REVISED',
+          entity: 'rfq_quote',
+          entityId: quote.id,
+          afterJson: buildRfqQuoteAuditSnapshot(quote),
+          metadataJson: {
+            rfqId,
+            revision: quote.revision,
+            authorSide: quote.authorSide,
           },
         });
 
-        return { response };
+        await publishRfqDomainEvent(
+          tx,
+          'rfq.quote.revised.v1',
+          rfq,
+          { orgId: dbContext.orgId, userId },
+          { type: 'rfq_quote', id: quote.id },
+          { quoteId: quote.id, revision: quote.revision, authorSide: quote.authorSide },
+        );
+
+        return { response, quote };
       });
 
       if ('error' in result) {
@@ -5271,6 +5083,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
 
       return sendSuccess(reply, {
         response: mapSupplierRfqResponse(result.response),
+        quote: result.quote ? mapRfqQuote(result.quote, new Date()) : null,
         rfq: {
           id: result.response.rfqId,
           status: 'RESPONDED',
@@ -5286,6 +5099,15 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
     }
   });
 
+  /**
+   * POST /api/tenant/rfqs/inbox/:id/quotes
+   * Supplier quote revision on a responded RFQ (new offer or reply to a buyer counter-offer).
+   * TECS-RFQ-QUOTE-001.
+   */
+  fastify.post('/tenant/rfqs/inbox/:id/quotes', { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] }, async (request, reply) => {
+    return handleRfqQuoteRevision(request, reply, 'SUPPLIER');
+  });
+
   /**
    * GET /api/tenant/rfqs/:id
    * Read a single buyer-owned RFQ for the authenticated tenant with minimal detail projection.
@@ -5312,6 +5134,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           id: true,
           status: true,
           catalogItemId: true,
+          variantId: true,
           quantity: true,
           buyerMessage: true,
           supplierOrgId: true,
@@ -5341,8 +5164,9 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
       return sendNotFound(reply, 'RFQ not found');
     }
 
-    const [supplierResponse, tradeContinuity, supplierCounterpartySummary] = await Promise.all([
+    const [supplierResponse, quoteThread, tradeContinuity, supplierCounterpartySummary] = await Promise.all([
       resolveBuyerRfqSupplierResponse(rfq.id),
+      resolveRfqQuoteThread(dbContext, rfq.id),
       resolveBuyerRfqTradeContinuity(dbContext, rfq.id),
       getCounterpartyProfileAggregation(rfq.supplierOrgId, prisma).catch((error: unknown) => {
         if (error instanceof OrganizationNotFoundError) {
@@ -5364,12 +5188,123 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           price: catalogItem.price,
         },
         supplierResponse,
+        quoteThread,
         supplierCounterpartySummary,
         tradeContinuity,
       }),
     });
   });
 
+  /**
+   * POST /api/tenant/rfqs/:id/quotes
+   * Buyer counter-offer on a responded RFQ. Supersedes the current quote revision.
+   * TECS-RFQ-QUOTE-001.
+   */
+  fastify.post('/tenant/rfqs/:id/quotes', { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] }, async (request, reply) => {
+    return handleRfqQuoteRevision(request, reply, 'BUYER');
+  });
+
+  /**
+   * POST /api/tenant/rfqs/:id/quotes/:quoteId/accept
+   * Buyer accepts the current supplier quote revision. The accepted revision becomes
+   * the commercial source for POST /api/tenant/trades/from-rfq. TECS-RFQ-QUOTE-001.
+   */
+  fastify.post(
+    '/tenant/rfqs/:id/quotes/:quoteId/accept',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const { userId } = request;
+      if (!userId) {
+        return sendError(reply, 'UNAUTHORIZED', 'User context missing', 401);
+      }
+
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const paramsSchema = z.object({ id: z.string().uuid(), quoteId: z.string().uuid() });
+      const paramsResult = paramsSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      const { id: rfqId, quoteId } = paramsResult.data;
+
+      try {
+        const result = await withDbContext(prisma, dbContext, async (tx): Promise<RfqQuoteMutationResult> => {
+          const rfq = await tx.rfq.findFirst({
+            where: { id: rfqId, orgId: dbContext.orgId },
+            select: { id: true, status: true },
+          });
+
+          if (!rfq) {
+            return { error: 'RFQ_NOT_FOUND' };
+          }
+
+          if (rfq.status !== 'RESPONDED') {
+            return { error: rfq.status === 'CLOSED' ? 'RFQ_CLOSED' : 'RFQ_NOT_RESPONDED' };
+          }
+
+          const thread = await loadRfqQuoteThread(tx, rfqId);
+          const decision = evaluateRfqQuoteAcceptance(thread, quoteId, new Date());
+          if (!decision.ok) {
+            return { error: decision.code };
+          }
+
+          const accepted = await markRfqQuoteAccepted(tx, decision.quote.id, userId);
+          if (!accepted) {
+            return { error: 'QUOTE_NOT_ACTIVE' };
+          }
+
+          await writeAuditLog(tx, {
+            realm: 'TENANT',
+            tenantId: dbContext.orgId,
+            actorType: 'USER',
+            actorId: userId,
+            action: 'rfq.RFQ_QUOTE_ACCEPTED',
+            entity: 'rfq_quote',
+            entityId: accepted.id,
+            beforeJson: { status: 'ACTIVE' },
+            afterJson: buildRfqQuoteAuditSnapshot(accepted),
+            metadataJson: {
+              rfqId,
+              revision: accepted.revision,
+              supplierOrgId: accepted.supplierOrgId,
+            },
+          });
+
+          await publishRfqDomainEvent(
+            tx,
+            'rfq.quote.accepted.v1',
+            { id: rfqId, orgId: accepted.buyerOrgId, supplierOrgId: accepted.supplierOrgId },
+            { orgId: dbContext.orgId, userId },
+            { type: 'rfq_quote', id: accepted.id },
+            { quoteId: accepted.id, revision: accepted.revision },
+          );
+
+          return { quote: accepted, thread: thread.map(quote => (quote.id === accepted.id ? accepted : quote)) };
+        });
+
+        if ('error' in result) {
+          return sendRfqQuoteMutationError(reply, result.error);
+        }
+
+        const now = new Date();
+        return sendSuccess(reply, {
+          quote: mapRfqQuote(result.quote, now),
+          ...mapRfqQuoteNegotiation(result.thread, now),
+        });
+      } catch (error: unknown) {
+        const prismaError = error as { code?: string };
+        if (prismaError?.code === 'P2002') {
+          return sendRfqQuoteMutationError(reply, 'QUOTE_ALREADY_ACCEPTED');
+        }
+        throw error;
+      }
+    },
+  );
+
   /**
    * POST /api/tenant/rfqs/:id/ai-assist
    * AI-assisted RFQ field suggestion (read-only — does NOT mutate the rfqs table).
@@ -5377,6 +5312,10 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
    *
    * Returns suggested values for incomplete RFQ fields based on the catalog item
    * and RFQ state. Buyer must confirm suggestions before applying via existing PATCH route.
+   *
+   * AI-STREAM-001: with Accept: text/event-stream, raw model output streams as `delta`
+   * events and the response body below arrives as the `done` event (parse failure →
+   * `error` event with code PARSE_ERROR).
    */
   fastify.post('/tenant/rfqs/:id/ai-assist', { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] }, async (request, reply) => {
     const { userId } = request;
@@ -5394,6 +5333,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
 
     const requestId = randomUUID();
     const monthKey = getMonthKey();
+    const stream = acceptsEventStream(request) ? createSseStream(reply) : null;
 
     try {
       const result = await withDbContext(prisma, dbContext, async (tx) => {
@@ -5522,28 +5462,46 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         userId: userId ?? null,
         prisma,
         dbContext,
+        onDelta: stream ? (text) => stream.send('delta', { text }) : undefined,
       });
 
       if (!serviceResult.ok) {
-        return sendError(reply, 'PARSE_ERROR', 'AI response could not be parsed as structured suggestions', 422, {
+        const parseErrorMessage = 'AI response could not be parsed as structured suggestions';
+        const parseErrorDetails = {
           suggestionsParseError: true,
           humanConfirmationRequired: true,
           auditLogId: serviceResult.auditLogId,
-        });
+        };
+        if (stream) {
+          return stream.fail('PARSE_ERROR', parseErrorMessage, parseErrorDetails);
+        }
+        return sendError(reply, 'PARSE_ERROR', parseErrorMessage, 422, parseErrorDetails);
       }
 
-      return reply.status(200).send({
+      const suggestionBody = {
         suggestions: serviceResult.suggestions,
         humanConfirmationRequired: true,
         reasoningLogId: serviceResult.reasoningLogId,
         auditLogId: serviceResult.auditLogId,
         hadInferenceError: serviceResult.hadInferenceError,
         fieldSourceMeta: { method: 'ai-rfq-assist', rfqId },
-      });
+      };
+      if (stream) {
+        stream.send('done', suggestionBody);
+        return stream.close();
+      }
+      return reply.status(200).send(suggestionBody);
     } catch (err) {
       if (err instanceof BudgetExceededError || err instanceof AiRateLimitExceededError) {
+        if (stream?.opened) {
+          return stream.fail('RATE_LIMIT_EXCEEDED', 'AI inference rate limit or budget exceeded');
+        }
         return sendError(reply, 'RATE_LIMIT_EXCEEDED', 'AI inference rate limit or budget exceeded', 429);
       }
+      if (stream?.opened) {
+        request.log.error({ err }, '[rfq-assist] streamed inference failed');
+        return stream.fail('INTERNAL_ERROR', 'AI assist failed');
+      }
       throw err;
     }
   });
@@ -5624,6 +5582,8 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
 
     const bodySchema = z.object({
       catalogItemId: z.string().uuid(),
+      // CATALOG-VARIANTS-001: optional variant of the item; gated by the item's own checks
+      variantId: z.string().uuid().optional().nullable(),
       selectedQuantity: z.number().int().min(1).max(999999).optional().nullable(),
       buyerNotes: z.string().trim().max(2000).optional().nullable(),
       specNotes: z.string().trim().max(2000).optional().nullable(),
@@ -5634,7 +5594,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
       return sendValidationError(reply, parseResult.error.errors);
     }
 
-    const { catalogItemId, selectedQuantity, buyerNotes, specNotes } = parseResult.data;
+    const { catalogItemId, variantId, selectedQuantity, buyerNotes, specNotes } = parseResult.data;
 
     const prefill = await resolveCatalogRfqDraftContext({
       buyerOrgId: dbContext.orgId,
@@ -5657,7 +5617,15 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
       return sendSuccess(reply, { ok: false, reason: 'RFQ_PREFILL_NOT_AVAILABLE' } satisfies CatalogRfqPrefillResult);
     }
 
-    const quantity = prefill.context.selectedQuantity ?? selectedQuantity ?? prefill.context.moq ?? 1;
+    // The variant is resolved only after the parent item passed every visibility gate;
+    // an unknown or inactive variant reads the same as an unavailable item.
+    const variant = variantId ? await resolveRfqVariantTarget(prisma, catalogItemId, variantId) : null;
+    if (variantId && !variant) {
+      return sendSuccess(reply, { ok: false, reason: 'ITEM_NOT_AVAILABLE' } satisfies CatalogRfqPrefillResult);
+    }
+    const effectiveMoq = variant?.moq ?? prefill.context.moq ?? null;
+
+    const quantity = prefill.context.selectedQuantity ?? selectedQuantity ?? effectiveMoq ?? 1;
 
     const result = await withDbContext(prisma, dbContext, async tx => {
       const rfq = await tx.rfq.create({
@@ -5665,6 +5633,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           orgId: dbContext.orgId,
           supplierOrgId: prefill.supplierOrgId,
           catalogItemId,
+          variantId: variant?.id ?? null,
           quantity,
           buyerMessage: buyerNotes ?? null,
           status: 'INITIATED',
@@ -5681,6 +5650,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           orgId: true,
           supplierOrgId: true,
           catalogItemId: true,
+          variantId: true,
           quantity: true,
           status: true,
           buyerMessage: true,
@@ -5703,6 +5673,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           orgId: rfq.orgId,
           supplierOrgId: rfq.supplierOrgId,
           catalogItemId: rfq.catalogItemId,
+          variantId: rfq.variantId,
           status: rfq.status,
           quantity: rfq.quantity,
           nonBinding: true,
@@ -5725,16 +5696,18 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           buyer_org_id: rfq.orgId,
           supplier_org_id: rfq.supplierOrgId,
           catalog_item_id: rfq.catalogItemId,
+          variant_id: rfq.variantId,
           status: rfq.status,
           quantity: rfq.quantity,
           buyer_notes: rfq.buyerMessage,
           item_summary: {
             item_id: prefill.context.itemId,
             product_name: prefill.context.productName,
+            variant: variant ? { id: variant.id, sku: variant.sku, label: variant.label } : null,
             category: prefill.context.category ?? null,
             material: prefill.context.material ?? null,
             spec_summary: prefill.context.specSummary ?? null,
-            moq: prefill.context.moq ?? null,
+            moq: effectiveMoq,
             compliance_refs: prefill.context.complianceRefs ?? [],
             published_dpp_ref: prefill.context.publishedDppRef ?? null,
             price_visibility_state: prefill.context.priceVisibilityState,
@@ -6144,6 +6117,15 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
               quoteGenerated: false,
             },
           });
+
+          await publishRfqDomainEvent(
+            tx,
+            'rfq.submitted.v1',
+            updated,
+            { orgId: dbContext.orgId, userId: userId ?? null },
+            { type: 'rfq', id: updated.id },
+            { status: updated.status },
+          );
         }
 
         const attrs = updated.stageRequirementAttributes as Record<string, unknown> | null;
@@ -6371,6 +6353,15 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         },
       });
 
+      await publishRfqDomainEvent(
+        tx,
+        'rfq.submitted.v1',
+        rfq,
+        { orgId: dbContext.orgId, userId: userId ?? null },
+        { type: 'rfq', id: rfq.id },
+        { status: rfq.status },
+      );
+
       return {
         rfq: {
           id: rfq.id,
@@ -6427,29 +6418,14 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
   fastify.post('/tenant/rfqs', { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] }, async (request, reply) => {
     const { userId } = request;
 
-    const bodySchema = z.object({
-      catalogItemId: z.string().uuid(),
-      quantity: z.number().int().min(1).optional().default(1),
-      buyerMessage: z.string().trim().min(1).max(1000).optional(),
-      requirementTitle: z.string().trim().max(200).optional(),
-      quantityUnit: z.string().trim().max(50).optional(),
-      urgency: z.enum(['STANDARD', 'URGENT', 'FLEXIBLE']).optional(),
-      sampleRequired: z.boolean().optional(),
-      targetDeliveryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
-      deliveryLocation: z.string().trim().max(200).optional(),
-      deliveryCountry: z.string().length(3).optional(),
-      stageRequirementAttributes: z.record(z.unknown()).optional(),
-      requirementConfirmedAt: z.string().datetime().optional(),
-      fieldSourceMeta: z.record(z.unknown()).optional(),
-    });
-
-    const parseResult = bodySchema.safeParse(request.body);
+    const parseResult = rfqCreateBodySchema.safeParse(request.body);
     if (!parseResult.success) {
       return sendValidationError(reply, parseResult.error.errors);
     }
 
     const {
       catalogItemId,
+      variantId,
       quantity,
       buyerMessage,
       requirementTitle,
@@ -6474,6 +6450,11 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
       return sendError(reply, 'BAD_REQUEST', 'Catalog item is not active', 400);
     }
 
+    const variantTarget = variantId ? await resolveRfqVariantTarget(prisma, catalogItemTarget.id, variantId) : null;
+    if (variantId && !variantTarget) {
+      return sendNotFound(reply, 'Variant not found for this catalog item');
+    }
+
     if (stageRequirementAttributes && catalogItemTarget.catalogStage) {
       const stageSchema = stageAttributesSchemas[catalogItemTarget.catalogStage as typeof CATALOG_STAGE_VALUES[number]];
       if (stageSchema) {
@@ -6497,6 +6478,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           orgId: dbContext.orgId,
           supplierOrgId: catalogItemTarget.supplierOrgId,
           catalogItemId: catalogItemTarget.id,
+          variantId: variantTarget?.id ?? null,
           quantity,
           buyerMessage: buyerMessage ?? null,
           status: 'OPEN',
@@ -6519,6 +6501,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           status: true,
           orgId: true,
           catalogItemId: true,
+          variantId: true,
           quantity: true,
           supplierOrgId: true,
           buyerMessage: true,
@@ -6552,6 +6535,8 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           catalogItemId: catalogItemTarget.id,
           catalogItemName: catalogItemTarget.name,
           catalogItemSku: catalogItemTarget.sku,
+          variantId: variantTarget?.id ?? null,
+          variantSku: variantTarget?.sku ?? null,
           quantity,
           buyerMessage: rfq.buyerMessage,
           status: rfq.status,
@@ -6562,6 +6547,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         metadataJson: {
           rfqId: rfq.id,
           catalogItemId: catalogItemTarget.id,
+          variantId: variantTarget?.id ?? null,
           quantity,
           createdAt: rfq.createdAt.toISOString(),
           createdBy: 'BUYER',
@@ -6570,6 +6556,15 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
         },
       });
 
+      await publishRfqDomainEvent(
+        tx,
+        'rfq.submitted.v1',
+        rfq,
+        { orgId: dbContext.orgId, userId: userId ?? null },
+        { type: 'rfq', id: rfq.id },
+        { status: rfq.status },
+      );
+
       return {
         rfq: mapBuyerRfqDetail({
           ...rfq,
@@ -6580,6 +6575,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
             sku: catalogItemTarget.sku,
           },
           supplierResponse: null,
+          quoteThread: [],
           tradeContinuity: null,
           supplierCounterpartySummary: null,
         }),
@@ -6613,11 +6609,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
       const { id: cartItemId } = paramsResult.data;
 
       // Validate body
-      const bodySchema = z.object({
-        quantity: z.number().int().min(0),
-      });
-
-      const bodyResult = bodySchema.safeParse(request.body);
+      const bodyResult = cartItemUpdateBodySchema.safeParse(request.body);
       if (!bodyResult.success) {
         return sendValidationError(reply, bodyResult.error.errors);
       }
@@ -6647,6 +6639,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
                 active: true,
               },
             },
+            variant: { select: CART_LINE_VARIANT_SELECT },
           },
         });
 
@@ -6677,6 +6670,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
             metadataJson: {
               cartId: cartItem.cartId,
               catalogItemId: cartItem.catalogItemId,
+              variantId: cartItem.variantId,
               previousQuantity: cartItem.quantity,
             },
           });
@@ -6698,6 +6692,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
                 active: true,
               },
             },
+            variant: { select: CART_LINE_VARIANT_SELECT },
           },
         });
 
@@ -6712,6 +6707,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           metadataJson: {
             cartId: cartItem.cartId,
             catalogItemId: cartItem.catalogItemId,
+            variantId: cartItem.variantId,
             previousQuantity: cartItem.quantity,
             newQuantity: quantity,
           },
@@ -6763,119 +6759,154 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
     const checkoutUserId = dbContext.actorId;
     const t0 = Date.now();
 
-    const result = await withDbContext(prisma, dbContext, async tx => {
-      // Load active cart with items + catalog metadata
-      const cart = await tx.cart.findFirst({
-        where: { userId: checkoutUserId, status: 'ACTIVE' },
-        include: {
-          items: {
-            include: {
-              catalogItem: {
-                select: { id: true, name: true, sku: true, price: true },
+    let result;
+    try {
+      result = await withDbContext(prisma, dbContext, async tx => {
+        // Load active cart with items + catalog metadata
+        const cart = await tx.cart.findFirst({
+          where: { userId: checkoutUserId, status: 'ACTIVE' },
+          include: {
+            items: {
+              include: {
+                catalogItem: {
+                  select: { id: true, name: true, sku: true, price: true, moq: true },
+                },
+                variant: { select: { id: true, sku: true, label: true, price: true, moq: true } },
               },
             },
           },
-        },
-      });
+        });
 
-      if (!cart) return { error: 'CART_NOT_FOUND' };
-      if (cart.items.length === 0) return { error: 'CART_EMPTY' };
+        if (!cart) return { error: 'CART_NOT_FOUND' };
+        if (cart.items.length === 0) return { error: 'CART_EMPTY' };
 
-      // Compute totals via canonical Phase-1 function (G-010)
-      // Stop-loss: TotalsInputError thrown if unitPrice/quantity invalid (never silent)
-      const cartItems = cart.items;
-      let totals;
-      try {
-        totals = computeTotals(
-          cartItems.map((item: typeof cartItems[number]) => ({
-            unitPrice: Number(item.catalogItem.price),
-            quantity: item.quantity,
-          })),
-          'USD'
-        );
-      } catch (err) {
-        if (err instanceof TotalsInputError) {
-          return { error: 'INVALID_LINE_ITEM', code: err.code, message: err.message };
-        }
-        throw err;
-      }
-      const { subtotal, grandTotal: total, discountTotal, taxTotal, feeTotal, breakdown } = totals;
+        // CATALOG-VARIANTS-001: a variant line snapshots the variant SKU, "parent — label"
+        // name and the variant price (falling back to the parent price).
+        const cartItems = cart.items.map((item: typeof cart.items[number]) => ({
+          ...item,
+          lineTerms: resolveEffectiveLineTerms(item.catalogItem, item.variant),
+        }));
 
-      // Create order + items + mark cart checked-out in single transaction
-      const order = await tx.order.create({
-        data: {
-          tenantId: dbContext.orgId,
-          userId: checkoutUserId,
-          cartId: cart.id,
-          status: 'PAYMENT_PENDING',
-          currency: totals.currency,
-          subtotal,
-          total,
-          items: {
-            create: cartItems.map((item: typeof cartItems[number]) => ({
-              tenantId: dbContext.orgId,
-              catalogItemId: item.catalogItemId,
-              sku: item.catalogItem.sku ?? '',
-              name: item.catalogItem.name,
+        // Compute totals via canonical Phase-1 function (G-010)
+        // Stop-loss: TotalsInputError thrown if unitPrice/quantity invalid (never silent)
+        let totals;
+        try {
+          totals = computeTotals(
+            cartItems.map((item: typeof cartItems[number]) => ({
+              unitPrice: item.lineTerms.unitPrice,
               quantity: item.quantity,
-              unitPrice: Number(item.catalogItem.price),
-              lineTotal: Number(item.catalogItem.price) * item.quantity,
             })),
-          },
-        },
-      });
+            'USD'
+          );
+        } catch (err) {
+          if (err instanceof TotalsInputError) {
+            return { error: 'INVALID_LINE_ITEM', code: err.code, message: err.message };
+          }
+          throw err;
+        }
+        const { subtotal, grandTotal: total, discountTotal, taxTotal, feeTotal, breakdown } = totals;
 
-      await tx.cart.update({
-        where: { id: cart.id },
-        data: { status: 'CHECKED_OUT' },
-      });
+        // Create order + items + mark cart checked-out in single transaction
+        const order = await tx.order.create({
+          data: {
+            tenantId: dbContext.orgId,
+            userId: checkoutUserId,
+            cartId: cart.id,
+            status: 'PAYMENT_PENDING',
+            currency: totals.currency,
+            subtotal,
+            total,
+            items: {
+              create: cartItems.map((item: typeof cartItems[number]) => ({
+                tenantId: dbContext.orgId,
+                catalogItemId: item.catalogItemId,
+                variantId: item.variantId,
+                sku: item.lineTerms.sku ?? '',
+                name: item.lineTerms.name,
+                quantity: item.quantity,
+                unitPrice: item.lineTerms.unitPrice,
+                lineTotal: item.lineTerms.unitPrice * item.quantity,
+              })),
+            },
+          },
+          include: { items: { select: { id: true, catalogItemId: true, quantity: true } } },
+        });
 
-      await writeAuditLog(tx, {
-        realm: 'TENANT',
-        tenantId: dbContext.orgId,
-        actorType: 'USER',
-        actorId: checkoutUserId,
-        action: 'order.CHECKOUT_COMPLETED',
-        entity: 'order',
-        entityId: order.id,
-        metadataJson: {
-          cartId: cart.id,
-          itemCount: cart.items.length,
-          totals: { subtotal, discountTotal, taxTotal, feeTotal, grandTotal: total, currency: totals.currency, breakdown } as unknown as Prisma.JsonValue,
+        // CATALOG-INVENTORY-001: hold stock for inventory-tracked lines.
+        // InsufficientStockError propagates so the whole checkout rolls back.
+        const stockReservations = await reserveStockForOrder(tx, {
+          tenantId: dbContext.orgId,
           orderId: order.id,
-          durationMs: Date.now() - t0,
-        },
-      });
+          lines: order.items.map((orderItem: { id: string; catalogItemId: string | null; quantity: number }) => ({
+            orderItemId: orderItem.id,
+            catalogItemId: orderItem.catalogItemId,
+            quantity: orderItem.quantity,
+          })),
+        });
 
-      // GAP-ORDER-LC-001: Record initial lifecycle transition in order_lifecycle_logs (SM canonical table).
-      await tx.order_lifecycle_logs.create({
-        data: {
-          order_id: order.id,
-          tenant_id: dbContext.orgId,
-          from_state: null,
-          to_state: 'PAYMENT_PENDING',
-          actor_id: checkoutUserId,
-          realm: 'tenant',
-          request_id: dbContext.requestId,
-        },
-      });
+        await tx.cart.update({
+          where: { id: cart.id },
+          data: { status: 'CHECKED_OUT' },
+        });
 
-      return {
-        orderId: order.id,
-        status: order.status,
-        currency: totals.currency,
-        itemCount: cart.items.length,
-        totals: {
-          subtotal,
-          discountTotal,
-          taxableAmount: totals.taxableAmount,
-          taxTotal,
-          feeTotal,
-          grandTotal: total,
-          breakdown,
-        },
-      };
-    });
+        await writeAuditLog(tx, {
+          realm: 'TENANT',
+          tenantId: dbContext.orgId,
+          actorType: 'USER',
+          actorId: checkoutUserId,
+          action: 'order.CHECKOUT_COMPLETED',
+          entity: 'order',
+          entityId: order.id,
+          metadataJson: {
+            cartId: cart.id,
+            itemCount: cart.items.length,
+            totals: { subtotal, discountTotal, taxTotal, feeTotal, grandTotal: total, currency: totals.currency, breakdown } as unknown as Prisma.JsonValue,
+            orderId: order.id,
+            stockReservationCount: stockReservations.length,
+            durationMs: Date.now() - t0,
+          },
+        });
+
+        // GAP-ORDER-LC-001: Record initial lifecycle transition in order_lifecycle_logs (SM canonical table).
+        await tx.order_lifecycle_logs.create({
+          data: {
+            order_id: order.id,
+            tenant_id: dbContext.orgId,
+            from_state: null,
+            to_state: 'PAYMENT_PENDING',
+            actor_id: checkoutUserId,
+            realm: 'tenant',
+            request_id: dbContext.requestId,
+          },
+        });
+
+        return {
+          orderId: order.id,
+          status: order.status,
+          currency: totals.currency,
+          itemCount: cart.items.length,
+          totals: {
+            subtotal,
+            discountTotal,
+            taxableAmount: totals.taxableAmount,
+            taxTotal,
+            feeTotal,
+            grandTotal: total,
+            breakdown,
+          },
+        };
+      });
+    } catch (err) {
+      if (err instanceof InsufficientStockError) {
+        return sendError(
+          reply,
+          'INSUFFICIENT_STOCK',
+          `Insufficient stock for catalog item ${err.catalogItemId}: requested ${err.requested}, available ${err.available}`,
+          409
+        );
+      }
+      throw err;
+    }
 
     if ('error' in result) {
       if (result.error === 'CART_NOT_FOUND') return sendNotFound(reply, 'No active cart found');
@@ -6938,11 +6969,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
     }
 
     // Parse and validate cursor + limit query params
-    const querySchema = z.object({
-      cursor: z.string().uuid().optional(),
-      limit:  z.coerce.number().int().min(1).max(100).default(20),
-    });
-    const queryResult = querySchema.safeParse(request.query);
+    const queryResult = orderListQuerySchema.safeParse(request.query);
     if (!queryResult.success) return sendValidationError(reply, queryResult.error.errors);
     const { cursor, limit } = queryResult.data;
 
@@ -7079,11 +7106,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
       if (!paramsResult.success) return sendValidationError(reply, paramsResult.error.errors);
 
       // Validate request body
-      const bodySchema = z.object({
-        status: z.enum(['CONFIRMED', 'FULFILLED', 'CANCELLED']),
-        reason: z.string().min(1).max(2000).trim().optional(),
-      });
-      const bodyResult = bodySchema.safeParse(request.body);
+      const bodyResult = orderStatusUpdateBodySchema.safeParse(request.body);
       if (!bodyResult.success) return sendValidationError(reply, bodyResult.error.errors);
 
       const { id: orderId } = paramsResult.data;
@@ -7150,6 +7173,13 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           data: { status: dbStatusUpdate },
         });
 
+        // CATALOG-INVENTORY-001: settle checkout stock reservations (no-op for untracked orders).
+        if (requestedStatus === 'CANCELLED') {
+          await releaseOrderReservations(tx, orderId);
+        } else if (requestedStatus === 'FULFILLED') {
+          await consumeOrderReservations(tx, orderId);
+        }
+
         return { order: updated };
       });
 
@@ -8936,6 +8966,11 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           },
         });
 
+        // PUBLIC-SEO-SITEMAP-SERVER-001: publishing / unpublishing changes the passports sitemap.
+        if (targetStatus === 'PUBLISHED' || outcome.previousStatus === 'PUBLISHED') {
+          void emitPublicContentInvalidate(prisma, dbContext.orgId, request.log);
+        }
+
         return sendSuccess(reply, {
           passport: {
             nodeId,
@@ -8964,6 +8999,8 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
   // On provider unavailability, timeout, budget exceeded, or parse failure →
   // deterministic_fallback mode (HTTP 200 still returned).
   // Budget exceeded / rate limit → HTTP 429.
+  // AI-STREAM-001: Accept: text/event-stream streams raw model output as `delta`
+  // events, then the result as `done`. X-Idempotency-Key replays a stored result.
   {
     fastify.post(
       '/tenant/dpp/:nodeId/passport/assistant',
@@ -9124,28 +9161,44 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           : null;
 
         const monthKey = getMonthKey();
+        const idempotencyKey =
+          (request.headers['x-idempotency-key'] as string | undefined)?.trim() || undefined;
+        const stream = acceptsEventStream(request) ? createSseStream(reply) : null;
 
         // ── 5. Run assistant inference ──
         try {
-          const result = await runPassportAssistantInference({
-            orgId: dbContext.orgId,
-            passportStatus,
-            passportMaturity,
-            approvedCertCount,
-            lineageDepth,
-            aiExtractedClaimsCount,
-            certifications: certSummaries,
-            productDetails: assistantProductDetails,
-            mode,
-            buyerContext: (buyerContext ?? null) as PassportAssistantBuyerContext,
-            includeExportGuidance: includeExportGuidance ?? false,
-            monthKey,
-            prisma,
-            dbContext,
-          });
+          const result = await runPassportAssistantIdempotent(
+            { orgId: dbContext.orgId, prisma, dbContext, idempotencyKey },
+            () =>
+              runPassportAssistantInference({
+                orgId: dbContext.orgId,
+                passportStatus,
+                passportMaturity,
+                approvedCertCount,
+                lineageDepth,
+                aiExtractedClaimsCount,
+                certifications: certSummaries,
+                productDetails: assistantProductDetails,
+                mode,
+                buyerContext: (buyerContext ?? null) as PassportAssistantBuyerContext,
+                includeExportGuidance: includeExportGuidance ?? false,
+                monthKey,
+                prisma,
+                dbContext,
+                onDelta: stream ? (text) => stream.send('delta', { text }) : undefined,
+              }),
+          );
 
+          if (stream) {
+            stream.send('done', result);
+            return stream.close();
+          }
           return sendSuccess(reply, result);
         } catch (err) {
+          if (stream?.opened) {
+            fastify.log.error({ err }, '[DPP-019] streamed passport assistant failed');
+            return stream.fail('INTERNAL_ERROR', 'Passport assistant failed');
+          }
           if (err instanceof BudgetExceededError || err instanceof AiRateLimitExceededError) {
             return sendError(
               reply,
@@ -9591,6 +9644,8 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
   // GET /api/tenant/dpp/:nodeId/passport/export
   // Authenticated tenant-internal export only.
   // No public route, no QR, no JSON-LD, no passportStatus mutation.
+  // Buyer-facing formats (JSON-LD, GS1 Digital Link, QR label, ESPR readiness report)
+  // are served by routes/tenant/dppPassportFormats.ts (DPP-PASSPORT-FORMATS-001).
   // Composes DppPassportFoundationView + approved evidence claims into a controlled JSON snapshot.
   // Audit: tenant.dpp.passport.exported
   //
@@ -9628,7 +9683,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
    *   - publicationStatus is always INTERNAL_EXPORT_ONLY (not a publication event)
    *   - humanReviewRequired: true (structural constant from TECS-AI-DOCUMENT-INTELLIGENCE-MVP-001)
    *   - Does NOT mutate passportStatus, maturity, or evidence claims
-   *   - No QR, no JSON-LD, no EU DPP compliance certification
+   *   - No QR, no JSON-LD, no EU DPP compliance certification (see dppPassportFormats.ts)
    *   - Evidence claims: id/orgId/nodeId/extractionId/claimType/claimValue/approvedBy/approvedAt only
    *   - Excluded: AI confidence scores, unreviewed drafts, raw file paths, admin notes
    *
@@ -10087,6 +10142,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
       dyeFinishCategory: z.string().max(100).nullable().optional(),
       restrictedSubstancesDeclared: z.boolean().nullable().optional(),
       productPhotoEvidenceItemId: z.string().uuid().nullable().optional(),
+      gtin: z.string().max(14).nullable().optional(),
     });
 
     /**
@@ -10133,6 +10189,15 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
           }
         }
 
+        // ── GTIN check digit + normalisation to GTIN-14 ──
+        let gtin = body.gtin;
+        if (gtin) {
+          gtin = normalizeGtin(gtin);
+          if (!gtin) {
+            return sendValidationError(reply, 'gtin must be a valid GTIN-8, GTIN-12, GTIN-13 or GTIN-14');
+          }
+        }
+
         // ── Verify node belongs to org ──
         let nodeExists: boolean;
         try {
@@ -10165,6 +10230,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
               dyeFinishCategory: body.dyeFinishCategory,
               restrictedSubstancesDeclared: body.restrictedSubstancesDeclared,
               productPhotoEvidenceItemId: body.productPhotoEvidenceItemId,
+              gtin,
             }),
           );
         } catch (err) {
@@ -10187,6 +10253,7 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
               body.materialComposition !== undefined &&
               body.materialComposition.length > 0,
             hasProductPhotoEvidence: body.productPhotoEvidenceItemId != null,
+            hasGtin: gtin != null,
           },
         });
 
@@ -10541,6 +10608,67 @@ const tenantRoutes: FastifyPluginAsync = async fastify => {
   // GET   /api/tenant/traceability/edges
   await fastify.register(tenantTraceabilityRoutes, { prefix: '/tenant/traceability' });
 
+  // ─── CATALOG-INVENTORY-001: Stock locations, lots and low-stock view ─────────
+  // GET|POST /api/tenant/inventory/locations, PATCH /api/tenant/inventory/locations/:id
+  // GET|PATCH /api/tenant/inventory/items/:catalogItemId
+  // POST /api/tenant/inventory/lots/receive, POST /api/tenant/inventory/lots/:id/adjust
+  // GET  /api/tenant/inventory/low-stock
+  await fastify.register(tenantInventoryRoutes, { prefix: '/tenant/inventory' });
+
+  // ─── CATALOG-IMPORT-001: Bulk catalog import (CSV / XLSX) and export ────────
+  // POST /api/tenant/catalog/imports, GET /api/tenant/catalog/imports/:id
+  // POST /api/tenant/catalog/imports/:id/mapping|apply
+  // GET  /api/tenant/catalog/export?format=csv|xlsx
+  await fastify.register(tenantCatalogImportRoutes, { prefix: '/tenant/catalog' });
+
+  // ─── CATALOG-VARIANTS-001: Variants (colourways, widths, finishes) per catalog item ──
+  // GET|POST     /api/tenant/catalog/items/:itemId/variants
+  // PATCH|DELETE /api/tenant/catalog/items/:itemId/variants/:variantId
+  await fastify.register(tenantCatalogVariantRoutes, { prefix: '/tenant/catalog/items' });
+
+  // ─── ORDER-FULFILMENT-001: Shipments, packing lists, proof of delivery ──────
+  // GET|POST /api/tenant/shipments, GET /api/tenant/shipments/:id
+  // POST /api/tenant/shipments/:id/dispatch|deliver|cancel
+  // POST /api/tenant/shipments/:id/documents, GET /api/tenant/shipments/:id/documents/:documentId
+  await fastify.register(tenantShipmentRoutes, { prefix: '/tenant/shipments' });
+
+  // ─── MFA-001: Self-service MFA and step-up ───────────────────────────────────
+  // GET /api/tenant/mfa, POST /api/tenant/mfa/totp|totp/confirm|recovery-codes|step-up
+  // POST /api/tenant/mfa/webauthn/register/options|verify, /step-up/webauthn/options
+  // DELETE /api/tenant/mfa/factors/:factorId, PUT /api/tenant/mfa/policy (OWNER)
+  await fastify.register(tenantMfaRoutes, { prefix: '/tenant/mfa' });
+
+  // ─── SESSION-REGISTRY-001: Active sessions and per-device sign-out ──────────
+  // GET /api/tenant/sessions, DELETE /api/tenant/sessions/:sessionId
+  // POST /api/tenant/sessions/revoke-others
+  await fastify.register(tenantSessionRoutes, { prefix: '/tenant/sessions' });
+
+  // ─── SSO-001: Tenant single sign-on configuration (OWNER) ───────────────────
+  // GET /api/tenant/sso, PUT /api/tenant/sso/oidc|saml, DELETE /api/tenant/sso/:protocol
+  await fastify.register(tenantSsoRoutes, { prefix: '/tenant/sso' });
+
+  // ─── TENANT-WEBHOOKS-001: Outbound webhooks for domain events (OWNER / ADMIN) ──
+  // GET|POST /api/tenant/webhooks, PATCH|DELETE /api/tenant/webhooks/:id
+  // POST /api/tenant/webhooks/:id/rotate-secret|test, GET /api/tenant/webhooks/event-types
+  // GET /api/tenant/webhooks/deliveries, POST /api/tenant/webhooks/deliveries/:id/redeliver
+  await fastify.register(tenantWebhookRoutes, { prefix: '/tenant/webhooks' });
+
+  // ─── AUDIT-CHAIN-001: Audit chain verification and signed export ────────────
+  // GET /api/tenant/audit-logs/verify, GET /api/tenant/audit-logs/export (OWNER / ADMIN)
+  await fastify.register(tenantAuditLogRoutes, { prefix: '/tenant/audit-logs' });
+
+  // ─── EVENT-STREAM-001: Live event notifications (SSE, RLS-scoped) ────────────
+  // GET /api/tenant/events/stream
+  await fastify.register(tenantEventStreamRoutes, { prefix: '/tenant/events' });
+
+  // ─── ANALYTICS-PROJECTIONS-001: Supplier performance and buyer spend ─────────
+  // GET /api/tenant/analytics/supplier-performance, GET /api/tenant/analytics/buyer-spend
+  await fastify.register(tenantAnalyticsRoutes, { prefix: '/tenant/analytics' });
+
+  // ─── DPP-PASSPORT-FORMATS-001: Machine-readable passport formats ─────────────
+  // GET /api/tenant/dpp/:nodeId/passport/jsonld|digital-link|label|espr-report
+  await fastify.register(tenantDppPassportFormatRoutes, { prefix: '/tenant/dpp' });
+
   // ─── TECS-AI-DOCUMENT-INTELLIGENCE-MVP-001 K-1: Document Classification ───────
   // POST /api/tenant/documents/:documentId/classify
   await fastify.register(tenantDocumentRoutes, { prefix: '/tenant/documents' });
@@ -0,0 +1,215 @@
+/**
+ * ANALYTICS-PROJECTIONS-001 — Tenant Analytics Routes
+ *
+ * Fastify plugin — registered at /api/tenant/analytics
+ *
+ * Routes:
+ *   GET /api/tenant/analytics/supplier-performance        — own supplier performance summary + rates
+ *   GET /api/tenant/analytics/buyer-spend?from=&to=       — own buyer spend by month/supplier/category
+ *
+ * D-017-A: both routes read ONLY rows of request.dbContext.orgId — the tenant is never taken
+ * from the query. Reads go through withDbContext, so the projection tables' RLS applies.
+ * The rows are maintained by events/handlers/analytics.projector.ts; these routes never
+ * compute from source tables.
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { Prisma } from '@prisma/client';
+import type { BuyerSpendMonthly, SupplierPerformanceSummary } from '@prisma/client';
+import { z } from 'zod';
+import { tenantAuthMiddleware } from '../../middleware/auth.js';
+import { databaseContextMiddleware } from '../../middleware/database-context.middleware.js';
+import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
+import { withDbContext, withOrgAdminContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
+const DEFAULT_SPEND_MONTHS = 12;
+const MAX_SPEND_MONTHS = 36;
+
+function parseMonth(value: string): Date {
+  const [year, month] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1));
+}
+
+function formatMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function addMonths(month: Date, count: number): Date {
+  return new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + count, 1));
+}
+
+function monthSpan(from: Date, to: Date): number {
+  return (
+    (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth()) + 1
+  );
+}
+
+/** Share of numerator in denominator, rounded to 4 decimals; null without a sample. */
+function rate(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 10000) / 10000 : null;
+}
+
+// ─── Zod Schemas ─────────────────────────────────────────────────────────────
+
+const monthString = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM');
+
+export const buyerSpendQuerySchema = z
+  .object({
+    from: monthString.optional(),
+    to: monthString.optional(),
+  })
+  .refine(query => !query.from || !query.to || query.from <= query.to, {
+    message: '"to" must not be before "from"',
+    path: ['to'],
+  });
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const tenantAnalyticsRoutes: FastifyPluginAsync = async fastify => {
+
+  // ─── GET /api/tenant/analytics/supplier-performance ──────────────────────
+  fastify.get(
+    '/supplier-performance',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const row = await withDbContext(prisma, dbContext, (tx): Promise<SupplierPerformanceSummary | null> =>
+        tx.supplierPerformanceSummary.findUnique({ where: { tenantId: dbContext.orgId } }),
+      );
+
+      if (!row) {
+        return sendSuccess(reply, { summary: null });
+      }
+
+      return sendSuccess(reply, {
+        summary: {
+          windowDays: row.windowDays,
+          rfqReceivedCount: row.rfqReceivedCount,
+          rfqRespondedCount: row.rfqRespondedCount,
+          respondedWithin24hCount: row.respondedWithin24hCount,
+          responseMinutesMedian: row.responseMinutesMedian,
+          responseMinutesAvg: row.responseMinutesAvg,
+          poolQuoteDecidedCount: row.poolQuoteDecidedCount,
+          poolQuoteWonCount: row.poolQuoteWonCount,
+          fulfilmentDueCount: row.fulfilmentDueCount,
+          fulfilmentOnTimeCount: row.fulfilmentOnTimeCount,
+          rates: {
+            responseRate: rate(row.rfqRespondedCount, row.rfqReceivedCount),
+            respondedWithin24hRate: rate(row.respondedWithin24hCount, row.rfqReceivedCount),
+            poolQuoteWinRate: rate(row.poolQuoteWonCount, row.poolQuoteDecidedCount),
+            onTimeFulfilmentRate: rate(row.fulfilmentOnTimeCount, row.fulfilmentDueCount),
+          },
+          lastUpdatedAt: row.lastUpdatedAt.toISOString(),
+        },
+      });
+    }
+  );
+
+  // ─── GET /api/tenant/analytics/buyer-spend ───────────────────────────────
+  fastify.get(
+    '/buyer-spend',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const parsed = buyerSpendQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return sendValidationError(reply, parsed.error.errors);
+      }
+
+      const now = new Date();
+      const to = parsed.data.to
+        ? parseMonth(parsed.data.to)
+        : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+      const from = parsed.data.from
+        ? parseMonth(parsed.data.from)
+        : addMonths(to, -(DEFAULT_SPEND_MONTHS - 1));
+      if (from > to) {
+        return sendError(reply, 'VALIDATION_ERROR', '"to" must not be before "from"', 400);
+      }
+      if (monthSpan(from, to) > MAX_SPEND_MONTHS) {
+        return sendError(
+          reply,
+          'VALIDATION_ERROR',
+          `Range must not exceed ${MAX_SPEND_MONTHS} months`,
+          400,
+        );
+      }
+
+      const rows = await withDbContext(prisma, dbContext, (tx): Promise<BuyerSpendMonthly[]> =>
+        tx.buyerSpendMonthly.findMany({
+          where: { tenantId: dbContext.orgId, month: { gte: from, lte: to } },
+          orderBy: [{ month: 'asc' }, { totalAmount: 'desc' }],
+        }),
+      );
+
+      // Supplier names live in organizations; a failed lookup only drops the names.
+      const supplierOrgIds = [...new Set(rows.map(r => r.supplierOrgId))];
+      let supplierNames: Record<string, string> = {};
+      if (supplierOrgIds.length > 0) {
+        try {
+          supplierNames = await withOrgAdminContext(prisma, async tx => {
+            const orgs = await tx.organizations.findMany({
+              where: { id: { in: supplierOrgIds } },
+              select: { id: true, legal_name: true },
+            });
+            const nameMap: Record<string, string> = {};
+            for (const org of orgs) {
+              nameMap[org.id] = org.legal_name;
+            }
+            return nameMap;
+          });
+        } catch {
+          supplierNames = {};
+        }
+      }
+
+      const totals = new Map<string, { tradeCount: number; totalAmount: Prisma.Decimal }>();
+      for (const r of rows) {
+        const total = totals.get(r.currency) ?? { tradeCount: 0, totalAmount: new Prisma.Decimal(0) };
+        total.tradeCount += r.tradeCount;
+        total.totalAmount = total.totalAmount.plus(r.totalAmount);
+        totals.set(r.currency, total);
+      }
+
+      const lastUpdatedAt = rows.reduce<Date | null>(
+        (newest, r) => (!newest || r.lastUpdatedAt > newest ? r.lastUpdatedAt : newest),
+        null,
+      );
+
+      return sendSuccess(reply, {
+        from: formatMonth(from),
+        to: formatMonth(to),
+        rows: rows.map(r => ({
+          month: formatMonth(r.month),
+          supplierOrgId: r.supplierOrgId,
+          supplierName: supplierNames[r.supplierOrgId] ?? null,
+          category: r.category,
+          currency: r.currency,
+          tradeCount: r.tradeCount,
+          totalAmount: r.totalAmount.toString(),
+        })),
+        totals: [...totals.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([currency, total]) => ({
+            currency,
+            tradeCount: total.tradeCount,
+            totalAmount: total.totalAmount.toString(),
+          })),
+        lastUpdatedAt: lastUpdatedAt?.toISOString() ?? null,
+      });
+    }
+  );
+};
+
+export default tenantAnalyticsRoutes;
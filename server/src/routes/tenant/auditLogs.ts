@@ -0,0 +1,122 @@
+/**
+ * AUDIT-CHAIN-001 — Tenant Audit Chain Routes
+ *
+ * Fastify plugin — registered at /api/tenant/audit-logs
+ *
+ * Routes:
+ *   GET /api/tenant/audit-logs/verify   — verify the tenant's audit chain (any member)
+ *   GET /api/tenant/audit-logs/export   — signed export bundle (ZIP) for a created_at range (OWNER / ADMIN)
+ *
+ * D-017-A: the chain is ALWAYS TENANT:<request.dbContext.orgId> — never taken from the query.
+ * Both routes read through withDbContext, so audit_logs RLS keeps them inside the tenant.
+ * The listing itself stays at GET /api/tenant/audit-logs in tenant.ts.
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { tenantAuthMiddleware } from '../../middleware/auth.js';
+import { databaseContextMiddleware } from '../../middleware/database-context.middleware.js';
+import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
+import { withDbContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog } from '../../lib/auditLog.js';
+import {
+  AuditExportRangeError,
+  buildAuditExportBundle,
+  verifyAuditChain,
+} from '../../services/auditChain/auditChain.service.js';
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
+const AUDIT_EXPORT_ROLES = ['OWNER', 'ADMIN'];
+
+// ─── Zod Schemas ─────────────────────────────────────────────────────────────
+
+export const exportQuerySchema = z.object({
+  from: z.coerce.date(),
+  to:   z.coerce.date(),
+}).refine(query => query.to > query.from, { message: '"to" must be after "from"', path: ['to'] });
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const tenantAuditLogRoutes: FastifyPluginAsync = async fastify => {
+
+  // ─── GET /api/tenant/audit-logs/verify ────────────────────────────────────
+  fastify.get(
+    '/verify',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const verification = await withDbContext(prisma, dbContext, tx =>
+        verifyAuditChain(tx, { realm: 'TENANT', tenantId: dbContext.orgId }),
+      );
+
+      return sendSuccess(reply, { verification });
+    }
+  );
+
+  // ─── GET /api/tenant/audit-logs/export ────────────────────────────────────
+  fastify.get(
+    '/export',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      if (!AUDIT_EXPORT_ROLES.includes(request.userRole ?? '')) {
+        return sendError(reply, 'FORBIDDEN', 'Only OWNER or ADMIN can export audit logs', 403);
+      }
+
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const parsed = exportQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return sendValidationError(reply, parsed.error.errors);
+      }
+      const { from, to } = parsed.data;
+
+      try {
+        const bundle = await withDbContext(prisma, dbContext, async tx => {
+          const result = await buildAuditExportBundle(
+            tx,
+            { realm: 'TENANT', tenantId: dbContext.orgId },
+            { from, to },
+            { realm: 'TENANT', actorId: request.userId ?? null },
+          );
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      request.userId ?? null,
+            action:       'TENANT_AUDIT_LOG_EXPORT',
+            entity:       'audit_log',
+            metadataJson: {
+              from:               result.manifest.range.from,
+              to:                 result.manifest.range.to,
+              entryCount:         result.manifest.entries.count,
+              verificationStatus: result.manifest.verification.status,
+            },
+          });
+          return result;
+        });
+
+        reply
+          .header('Content-Type', 'application/zip')
+          .header('Content-Disposition', `attachment; filename="${bundle.fileName}"`)
+          .header('Cache-Control', 'no-store');
+        return reply.send(bundle.archive);
+      } catch (err) {
+        if (err instanceof AuditExportRangeError) {
+          return sendError(reply, 'EXPORT_RANGE_TOO_LARGE', err.message, 422);
+        }
+        throw err;
+      }
+    }
+  );
+};
+
+export default tenantAuditLogRoutes;
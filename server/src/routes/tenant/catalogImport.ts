@@ -0,0 +1,286 @@
+/**
+ * CATALOG-IMPORT-001 — Tenant Bulk Catalog Import / Export Routes
+ *
+ * Fastify plugin — registered at /api/tenant/catalog
+ *
+ * Routes:
+ *   POST /api/tenant/catalog/imports                 — multipart CSV / XLSX upload → dry-run preview (PREVIEWED)
+ *   GET  /api/tenant/catalog/imports/:id             — import status, progress counters and validation report
+ *   POST /api/tenant/catalog/imports/:id/mapping     — re-validate a preview against a new column mapping
+ *   POST /api/tenant/catalog/imports/:id/apply       — PREVIEWED → QUEUED; enqueues the upsert-by-SKU apply job
+ *   GET  /api/tenant/catalog/export?format=csv|xlsx  — full catalog in the import column layout
+ *
+ * D-017-A: tenantId is ALWAYS sourced from request.dbContext.orgId — never from the body.
+ * Imports are OWNER / ADMIN only; the preview never writes catalog items. Rows are
+ * validated with the same schemas as POST /api/tenant/catalog/items.
+ * An optional `mapping` multipart field (JSON object: sheet header → field or null)
+ * must precede the file part; otherwise headers are matched to fields automatically.
+ */
+
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { tenantAuthMiddleware } from '../../middleware/auth.js';
+import { databaseContextMiddleware } from '../../middleware/database-context.middleware.js';
+import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
+import { withDbContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog } from '../../lib/auditLog.js';
+import { isOrgVerificationBlocked } from '../../utils/orgVerificationGuard.js';
+import {
+  CatalogImportError,
+  buildCatalogExportGrid,
+  catalogImportColumnMappingSchema,
+  createCatalogImportPreview,
+  getCatalogImport,
+  queueCatalogImport,
+  remapCatalogImport,
+  type CatalogImportColumnMapping,
+} from '../../services/catalogImport/catalogImport.service.js';
+import {
+  CATALOG_SPREADSHEET_CONTENT_TYPES,
+  CATALOG_SPREADSHEET_FORMATS,
+  CatalogSpreadsheetError,
+  detectCatalogSpreadsheetFormat,
+  readCatalogSpreadsheet,
+  writeCatalogSpreadsheet,
+} from '../../services/catalogImport/catalogSpreadsheet.js';
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
+const CATALOG_IMPORT_ROLES = ['OWNER', 'ADMIN'];
+
+function rejectNonCatalogImporter(request: FastifyRequest, reply: FastifyReply): boolean {
+  if (CATALOG_IMPORT_ROLES.includes(request.userRole ?? '')) return false;
+  sendError(reply, 'FORBIDDEN', 'Only OWNER or ADMIN can import catalog items', 403);
+  return true;
+}
+
+function sendCatalogImportError(reply: FastifyReply, err: unknown) {
+  if (err instanceof CatalogImportError || err instanceof CatalogSpreadsheetError) {
+    return sendError(reply, err.code, err.message, err.statusCode);
+  }
+  throw err;
+}
+
+/** Reads the optional `mapping` field sent ahead of the file part. */
+function readMappingField(fields: Record<string, unknown>): CatalogImportColumnMapping | undefined | z.ZodError {
+  const field = fields.mapping as { type?: string; value?: unknown } | undefined;
+  if (!field || field.type !== 'field' || typeof field.value !== 'string' || field.value.trim() === '') {
+    return undefined;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(field.value);
+  } catch {
+    return new z.ZodError([{ code: 'custom', path: ['mapping'], message: 'mapping must be a JSON object' }]);
+  }
+  const parsed = catalogImportColumnMappingSchema.safeParse(raw);
+  return parsed.success ? parsed.data : parsed.error;
+}
+
+// ─── Zod Schemas ─────────────────────────────────────────────────────────────
+
+export const idParamSchema = z.object({ id: z.string().uuid('Must be a valid UUID') });
+
+export const remapBodySchema = z.object({
+  mapping: catalogImportColumnMappingSchema,
+}).strict();
+
+export const exportQuerySchema = z.object({
+  format: z.enum(CATALOG_SPREADSHEET_FORMATS).default('csv'),
+});
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const tenantCatalogImportRoutes: FastifyPluginAsync = async fastify => {
+
+  // ─── POST /api/tenant/catalog/imports ─────────────────────────────────────
+  fastify.post(
+    '/imports',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonCatalogImporter(request, reply)) return;
+      if (await isOrgVerificationBlocked(dbContext.orgId, reply)) return;
+
+      try {
+        const file = await request.file();
+        if (!file) {
+          return sendError(reply, 'FILE_REQUIRED', 'A CSV or XLSX file is required.', 400);
+        }
+
+        const fileBuffer = await file.toBuffer();
+        if ((file.file as NodeJS.ReadableStream & { truncated?: boolean }).truncated) {
+          return sendError(reply, 'FILE_TOO_LARGE', 'File exceeds 5 MB upload limit.', 400);
+        }
+
+        const mapping = readMappingField(file.fields as Record<string, unknown>);
+        if (mapping instanceof z.ZodError) {
+          return sendValidationError(reply, mapping.errors);
+        }
+
+        const format = detectCatalogSpreadsheetFormat(fileBuffer, file.filename, file.mimetype);
+        const grid = readCatalogSpreadsheet(fileBuffer, format);
+
+        const preview = await withDbContext(prisma, dbContext, async tx => {
+          const result = await createCatalogImportPreview(tx, {
+            tenantId: dbContext.orgId,
+            userId:   request.userId ?? null,
+            fileName: file.filename?.slice(0, 255) || null,
+            format,
+            grid,
+            mapping,
+          });
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      request.userId ?? null,
+            action:       'catalog.import.previewed',
+            entity:       'catalog_import',
+            entityId:     result.import.id,
+            metadataJson: {
+              format,
+              fileName:  result.import.fileName,
+              totalRows: result.report.totalRows,
+              validRows: result.report.validRows,
+            },
+          });
+          return result;
+        });
+
+        return sendSuccess(reply, preview, 201);
+      } catch (err) {
+        return sendCatalogImportError(reply, err);
+      }
+    }
+  );
+
+  // ─── GET /api/tenant/catalog/imports/:id ──────────────────────────────────
+  fastify.get(
+    '/imports/:id',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonCatalogImporter(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      try {
+        const result = await withDbContext(prisma, dbContext, async tx =>
+          getCatalogImport(tx, dbContext.orgId, paramsResult.data.id));
+        return sendSuccess(reply, result);
+      } catch (err) {
+        return sendCatalogImportError(reply, err);
+      }
+    }
+  );
+
+  // ─── POST /api/tenant/catalog/imports/:id/mapping ─────────────────────────
+  fastify.post(
+    '/imports/:id/mapping',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonCatalogImporter(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const bodyResult = remapBodySchema.safeParse(request.body);
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+
+      try {
+        const result = await withDbContext(prisma, dbContext, async tx =>
+          remapCatalogImport(tx, dbContext.orgId, paramsResult.data.id, bodyResult.data.mapping));
+        return sendSuccess(reply, result);
+      } catch (err) {
+        return sendCatalogImportError(reply, err);
+      }
+    }
+  );
+
+  // ─── POST /api/tenant/catalog/imports/:id/apply ───────────────────────────
+  fastify.post(
+    '/imports/:id/apply',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonCatalogImporter(request, reply)) return;
+      if (await isOrgVerificationBlocked(dbContext.orgId, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      try {
+        const queued = await withDbContext(prisma, dbContext, async tx => {
+          const view = await queueCatalogImport(tx, dbContext.orgId, paramsResult.data.id);
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      request.userId ?? null,
+            action:       'catalog.import.queued',
+            entity:       'catalog_import',
+            entityId:     view.id,
+            metadataJson: { validRows: view.validRows, fileName: view.fileName },
+          });
+          return view;
+        });
+        return sendSuccess(reply, { import: queued }, 202);
+      } catch (err) {
+        return sendCatalogImportError(reply, err);
+      }
+    }
+  );
+
+  // ─── GET /api/tenant/catalog/export ───────────────────────────────────────
+  fastify.get(
+    '/export',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const queryResult = exportQuerySchema.safeParse(request.query);
+      if (!queryResult.success) {
+        return sendValidationError(reply, queryResult.error.errors);
+      }
+      const { format } = queryResult.data;
+
+      const grid = await withDbContext(prisma, dbContext, async tx =>
+        buildCatalogExportGrid(tx, dbContext.orgId));
+      const body = writeCatalogSpreadsheet(grid, format);
+      const stamp = new Date().toISOString().slice(0, 10);
+
+      void reply.header('Content-Type', CATALOG_SPREADSHEET_CONTENT_TYPES[format]);
+      void reply.header('Content-Disposition', `attachment; filename="catalog-${stamp}.${format}"`);
+      void reply.header('Cache-Control', 'no-store');
+      return reply.send(body);
+    }
+  );
+};
+
+export default tenantCatalogImportRoutes;
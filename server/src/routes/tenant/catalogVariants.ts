@@ -0,0 +1,227 @@
+/**
+ * CATALOG-VARIANTS-001 — Tenant Catalog Item Variant Routes
+ *
+ * Fastify plugin — registered at /api/tenant/catalog/items
+ *
+ * Routes:
+ *   GET    /api/tenant/catalog/items/:itemId/variants             — list the item's variants (any member)
+ *   POST   /api/tenant/catalog/items/:itemId/variants             — create a variant (OWNER / ADMIN)
+ *   PATCH  /api/tenant/catalog/items/:itemId/variants/:variantId  — update a variant (OWNER / ADMIN)
+ *   DELETE /api/tenant/catalog/items/:itemId/variants/:variantId  — delete a variant (OWNER / ADMIN)
+ *
+ * D-017-A: tenantId is ALWAYS sourced from request.dbContext.orgId — never from the body.
+ * Variants inherit visibility and price disclosure from the parent item; price / moq
+ * left null inherit the parent's values. Deleting a variant removes it from open carts;
+ * orders and RFQs keep their snapshot and lose only the variant link.
+ */
+
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { tenantAuthMiddleware } from '../../middleware/auth.js';
+import { databaseContextMiddleware } from '../../middleware/database-context.middleware.js';
+import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
+import { withDbContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog } from '../../lib/auditLog.js';
+import { isOrgVerificationBlocked } from '../../utils/orgVerificationGuard.js';
+import {
+  CatalogVariantError,
+  catalogVariantCreateSchema,
+  catalogVariantUpdateSchema,
+  createCatalogItemVariant,
+  deleteCatalogItemVariant,
+  listCatalogItemVariants,
+  updateCatalogItemVariant,
+} from '../../services/catalogVariant.service.js';
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
+const CATALOG_VARIANT_WRITE_ROLES = ['OWNER', 'ADMIN'];
+
+function rejectNonCatalogVariantWriter(request: FastifyRequest, reply: FastifyReply): boolean {
+  if (CATALOG_VARIANT_WRITE_ROLES.includes(request.userRole ?? '')) return false;
+  sendError(reply, 'FORBIDDEN', 'Only OWNER or ADMIN can manage catalog item variants', 403);
+  return true;
+}
+
+function sendCatalogVariantError(reply: FastifyReply, err: unknown) {
+  if (err instanceof CatalogVariantError) {
+    return sendError(reply, err.code, err.message, err.statusCode);
+  }
+  throw err;
+}
+
+// ─── Zod Schemas ─────────────────────────────────────────────────────────────
+
+export const itemParamSchema = z.object({
+  itemId: z.string().uuid('Must be a valid UUID'),
+});
+
+export const variantParamSchema = itemParamSchema.extend({
+  variantId: z.string().uuid('Must be a valid UUID'),
+});
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const tenantCatalogVariantRoutes: FastifyPluginAsync = async fastify => {
+
+  // ─── GET /api/tenant/catalog/items/:itemId/variants ───────────────────────
+  fastify.get(
+    '/:itemId/variants',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const paramsResult = itemParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      try {
+        const variants = await withDbContext(prisma, dbContext, async tx =>
+          listCatalogItemVariants(tx, dbContext.orgId, paramsResult.data.itemId));
+        return sendSuccess(reply, { variants, count: variants.length });
+      } catch (err) {
+        return sendCatalogVariantError(reply, err);
+      }
+    }
+  );
+
+  // ─── POST /api/tenant/catalog/items/:itemId/variants ──────────────────────
+  fastify.post(
+    '/:itemId/variants',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonCatalogVariantWriter(request, reply)) return;
+      if (await isOrgVerificationBlocked(dbContext.orgId, reply)) return;
+
+      const paramsResult = itemParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const bodyResult = catalogVariantCreateSchema.safeParse(request.body);
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+
+      try {
+        const variant = await withDbContext(prisma, dbContext, async tx => {
+          const created = await createCatalogItemVariant(
+            tx, dbContext.orgId, paramsResult.data.itemId, bodyResult.data,
+          );
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      request.userId ?? null,
+            action:       'catalog.variant.created',
+            entity:       'catalog_item_variant',
+            entityId:     created.id,
+            metadataJson: { catalogItemId: created.catalogItemId, sku: created.sku, label: created.label },
+          });
+          return created;
+        });
+        return sendSuccess(reply, { variant }, 201);
+      } catch (err) {
+        return sendCatalogVariantError(reply, err);
+      }
+    }
+  );
+
+  // ─── PATCH /api/tenant/catalog/items/:itemId/variants/:variantId ──────────
+  fastify.patch(
+    '/:itemId/variants/:variantId',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonCatalogVariantWriter(request, reply)) return;
+      if (await isOrgVerificationBlocked(dbContext.orgId, reply)) return;
+
+      const paramsResult = variantParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const bodyResult = catalogVariantUpdateSchema.safeParse(request.body);
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+
+      const { itemId, variantId } = paramsResult.data;
+      try {
+        const variant = await withDbContext(prisma, dbContext, async tx => {
+          const { before, after } = await updateCatalogItemVariant(
+            tx, dbContext.orgId, itemId, variantId, bodyResult.data,
+          );
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      request.userId ?? null,
+            action:       'catalog.variant.updated',
+            entity:       'catalog_item_variant',
+            entityId:     variantId,
+            beforeJson:   before as unknown as Prisma.JsonObject,
+            afterJson:    after as unknown as Prisma.JsonObject,
+            metadataJson: { catalogItemId: itemId, changedFields: Object.keys(bodyResult.data) },
+          });
+          return after;
+        });
+        return sendSuccess(reply, { variant });
+      } catch (err) {
+        return sendCatalogVariantError(reply, err);
+      }
+    }
+  );
+
+  // ─── DELETE /api/tenant/catalog/items/:itemId/variants/:variantId ─────────
+  fastify.delete(
+    '/:itemId/variants/:variantId',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonCatalogVariantWriter(request, reply)) return;
+      if (await isOrgVerificationBlocked(dbContext.orgId, reply)) return;
+
+      const paramsResult = variantParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      const { itemId, variantId } = paramsResult.data;
+      try {
+        await withDbContext(prisma, dbContext, async tx => {
+          const deleted = await deleteCatalogItemVariant(tx, dbContext.orgId, itemId, variantId);
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      request.userId ?? null,
+            action:       'catalog.variant.deleted',
+            entity:       'catalog_item_variant',
+            entityId:     variantId,
+            metadataJson: { catalogItemId: itemId, sku: deleted.sku, label: deleted.label },
+          });
+        });
+        return sendSuccess(reply, { deleted: true, id: variantId });
+      } catch (err) {
+        return sendCatalogVariantError(reply, err);
+      }
+    }
+  );
+};
+
+export default tenantCatalogVariantRoutes;
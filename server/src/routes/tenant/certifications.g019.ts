@@ -70,7 +70,7 @@ function makeTxBoundPrisma(tx: Prisma.TransactionClient): PrismaClient {
 
 // ─── Zod Schemas ─────────────────────────────────────────────────────────────
 
-const createCertBodySchema = z.object({
+export const createCertBodySchema = z.object({
   certificationType:  z.string().min(1).max(100).trim(),
   reason:             z.string().min(1).max(2000).trim(),
   issuedAt:           z.string().datetime({ offset: true }).optional().nullable(),
@@ -80,7 +80,7 @@ const createCertBodySchema = z.object({
   orgId:              z.never({ message: 'orgId must not be set in request body' }).optional(),
 });
 
-const updateCertBodySchema = z.object({
+export const updateCertBodySchema = z.object({
   certificationType:  z.string().min(1).max(100).trim().optional(),
   issuedAt:           z.string().datetime({ offset: true }).optional().nullable(),
   expiresAt:          z.string().datetime({ offset: true }).optional().nullable(),
@@ -88,7 +88,7 @@ const updateCertBodySchema = z.object({
   orgId:              z.never({ message: 'orgId must not be set in request body' }).optional(),
 });
 
-const transitionCertBodySchema = z.object({
+export const transitionCertBodySchema = z.object({
   toStateKey:   z.string().min(1).max(100).trim().toUpperCase(),
   reason:       z.string().min(1).max(2000).trim(),
   actorRole:    z.string().min(1).max(100).trim(),
@@ -97,13 +97,13 @@ const transitionCertBodySchema = z.object({
   orgId:        z.never({ message: 'orgId must not be set in request body' }).optional(),
 });
 
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   stateKey: z.string().max(50).trim().toUpperCase().optional(),
   limit:    z.coerce.number().int().min(1).max(200).optional().default(50),
   offset:   z.coerce.number().int().min(0).optional().default(0),
 });
 
-const certIdParamSchema = z.object({ id: uuidSchema });
+export const certIdParamSchema = z.object({ id: uuidSchema });
 
 // ─── Plugin ───────────────────────────────────────────────────────────────────
 
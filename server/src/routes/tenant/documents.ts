@@ -39,10 +39,10 @@ import {
 import {
   buildDocumentExtractionPrompt,
   parseDocumentExtractionOutput,
-  callGeminiForDocumentExtraction,
+  callModelForDocumentExtraction,
   ExtractionParseError,
 } from '../../services/ai/documentExtractionService.js';
-import { config } from '../../config/index.js';
+import { resolveTenantAiProvider } from '../../services/ai/providers/aiProviderFactory.js';
 import {
   loadTenantBudget,
   getUsage,
@@ -57,11 +57,11 @@ import {
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
 
-const documentIdParamSchema = z.object({
+export const documentIdParamSchema = z.object({
   documentId: uuidSchema,
 });
 
-const classifyBodySchema = z.object({
+export const classifyBodySchema = z.object({
   /**
    * Optional short text snippet from the document (first ~1 000 chars recommended).
    * Primary signal for keyword-based classification.
@@ -84,7 +84,7 @@ const classifyBodySchema = z.object({
   orgId: z.never({ message: 'orgId must not be set in request body' }).optional(),
 });
 
-const extractBodySchema = z.object({
+export const extractBodySchema = z.object({
   /**
    * Full document text content to extract fields from (required).
    * Maximum 50 000 characters — covers typical compliance certificate PDF text.
@@ -107,7 +107,7 @@ const extractBodySchema = z.object({
 // action: approve | reject
 // fieldOverrides: optional per-field value overrides (approve only; ignored on reject)
 // D-017-A: orgId MUST NOT be in the body
-const reviewBodySchema = z.object({
+export const reviewBodySchema = z.object({
   action: z.enum(['approve', 'reject']),
   fieldOverrides: z.record(z.string(), z.union([z.string(), z.null()])).optional(),
   // D-017-A: orgId MUST NOT be in the body
@@ -261,11 +261,12 @@ const tenantDocumentRoutes: FastifyPluginAsync = async (fastify) => {
       });
 
       // ── HOTFIX-MODEL-TX-001: AI call OUTSIDE Prisma transaction ──────────────
-      if (!config.GEMINI_API_KEY) {
+      const provider = await resolveTenantAiProvider(prisma, dbContext, 'document-extraction');
+      if (!provider) {
         return sendError(reply, 'SERVICE_UNAVAILABLE', 'AI service not configured', 503);
       }
 
-      const aiResult = await callGeminiForDocumentExtraction(config.GEMINI_API_KEY, prompt);
+      const aiResult = await callModelForDocumentExtraction(provider, prompt);
 
       if (aiResult.hadInferenceError) {
         return sendError(reply, 'SERVICE_UNAVAILABLE', 'AI extraction service unavailable. Please try again.', 503);
@@ -290,7 +291,7 @@ const tenantDocumentRoutes: FastifyPluginAsync = async (fastify) => {
 
       // ── DB writes inside a single Prisma transaction ─────────────────────────
       const tokensUsed = aiResult.tokensUsed;
-      const costUSD = estimateCostUSD(tokensUsed, 'gemini-2.5-flash');
+      const costUSD = estimateCostUSD(tokensUsed, aiResult.model, provider.id);
       const monthKey = getMonthKey();
       const reasoningHash = createHash('sha256')
         .update(`${requestId}:${documentId}:${extractedAt}`)
@@ -328,7 +329,7 @@ const tenantDocumentRoutes: FastifyPluginAsync = async (fastify) => {
               tenantId: orgId,
               requestId,
               reasoningHash,
-              model: 'gemini-2.5-flash',
+              model: aiResult.model,
               promptSummary: prompt.slice(0, 200),
               responseSummary: aiResult.rawText.slice(0, 500),
               tokensUsed,
@@ -0,0 +1,291 @@
+/**
+ * DPP-PASSPORT-FORMATS-001 — Tenant DPP Passport Format Routes
+ *
+ * Fastify plugin — registered at /api/tenant/dpp
+ *
+ * Routes:
+ *   GET /api/tenant/dpp/:nodeId/passport/jsonld        — schema.org Product JSON-LD (application/ld+json)
+ *   GET /api/tenant/dpp/:nodeId/passport/digital-link  — GS1 Digital Link URI built on the public passport token
+ *   GET /api/tenant/dpp/:nodeId/passport/label         — printable QR label descriptor (uses the org label config)
+ *   GET /api/tenant/dpp/:nodeId/passport/espr-report   — ESPR textile readiness: which required fields are missing
+ *
+ * Read-only: nothing here mutates passport status, details or evidence.
+ * The D-5 /passport/export snapshot stays the internal JSON export; these are the
+ * buyer-facing, machine-readable formats. Builders live in services/dppPassportFormats.ts.
+ * Exports (JSON-LD, label) are audit-logged as tenant.dpp.passport.*.
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { tenantAuthMiddleware } from '../../middleware/auth.js';
+import { databaseContextMiddleware } from '../../middleware/database-context.middleware.js';
+import { sendSuccess, sendError, sendNotFound, sendValidationError } from '../../utils/response.js';
+import { withDbContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog } from '../../lib/auditLog.js';
+import {
+  getDppProductDetailsForNode,
+  toDppProductDetailsDto,
+} from '../../services/dppProductDetails.js';
+import {
+  DEFAULT_DPP_PASSPORT_LABEL_CONFIG,
+  type DppPassportFormatSource,
+  type DppPassportLabelConfig,
+  type DppPassportStatus,
+  buildEsprTextileReport,
+  buildPassportJsonLd,
+  buildPassportQrLabel,
+  getAppPublicUrl,
+  resolveDigitalLink,
+} from '../../services/dppPassportFormats.js';
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
+export const nodeParamSchema = z.object({ nodeId: z.string().uuid('nodeId must be a valid UUID') });
+
+const PASSPORT_STATUSES: readonly DppPassportStatus[] = ['DRAFT', 'INTERNAL', 'TRADE_READY', 'PUBLISHED'];
+
+type TxClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+interface ProductRow {
+  node_id: string;
+  batch_id: string | null;
+  node_type: string | null;
+  manufacturer_name: string | null;
+  manufacturer_jurisdiction: string | null;
+  manufacturer_registration_no: string | null;
+}
+
+interface CertRow {
+  certification_type: string | null;
+  lifecycle_state_name: string | null;
+  issued_at: Date | null;
+  expiry_date: Date | null;
+}
+
+interface PassportStateRow {
+  status: string;
+  public_token: string | null;
+}
+
+/** Loads the passport source for one node; null when RLS hides it from this tenant. */
+async function loadPassportFormatSource(
+  tx: TxClient,
+  nodeId: string,
+): Promise<DppPassportFormatSource | null> {
+  const products = await tx.$queryRaw<ProductRow[]>`
+    SELECT node_id, batch_id, node_type,
+           manufacturer_name, manufacturer_jurisdiction, manufacturer_registration_no
+    FROM dpp_snapshot_products_v1
+    WHERE node_id = ${nodeId}::uuid
+  `;
+  const product = products[0];
+  if (!product) return null;
+
+  const certs = await tx.$queryRaw<CertRow[]>`
+    SELECT certification_type, lifecycle_state_name, issued_at, expiry_date
+    FROM dpp_snapshot_certifications_v1
+    WHERE node_id = ${nodeId}::uuid
+       OR (node_id IS NULL AND org_id = (
+         SELECT org_id FROM dpp_snapshot_products_v1 WHERE node_id = ${nodeId}::uuid LIMIT 1
+       ))
+  `;
+
+  const states = await tx.$queryRaw<PassportStateRow[]>`
+    SELECT status, public_token
+    FROM dpp_passport_states
+    WHERE node_id = ${nodeId}::uuid
+    LIMIT 1
+  `;
+  const rawStatus = states[0]?.status ?? 'DRAFT';
+
+  const details = await getDppProductDetailsForNode(tx, nodeId);
+
+  return {
+    nodeId,
+    batchId: product.batch_id,
+    nodeType: product.node_type,
+    manufacturerName: product.manufacturer_name,
+    manufacturerJurisdiction: product.manufacturer_jurisdiction,
+    manufacturerRegistrationNo: product.manufacturer_registration_no,
+    passportStatus: PASSPORT_STATUSES.includes(rawStatus as DppPassportStatus)
+      ? (rawStatus as DppPassportStatus)
+      : 'DRAFT',
+    publicPassportId: states[0]?.public_token ?? null,
+    productDetails: details ? toDppProductDetailsDto(details) : null,
+    certifications: certs.map(row => ({
+      certificationType: row.certification_type,
+      lifecycleStateName: row.lifecycle_state_name,
+      issuedAt: row.issued_at,
+      expiryDate: row.expiry_date,
+    })),
+  };
+}
+
+async function loadLabelConfig(tx: TxClient, orgId: string): Promise<DppPassportLabelConfig> {
+  const row = await tx.dpp_passport_label_config.findUnique({
+    where: { org_id: orgId },
+    select: { public_title: true, buyer_facing_label: true, subtitle: true, show_texqtic_brand: true },
+  });
+  return row
+    ? {
+        publicTitle: row.public_title,
+        buyerFacingLabel: row.buyer_facing_label,
+        subtitle: row.subtitle,
+        showTexqticBrand: row.show_texqtic_brand,
+      }
+    : DEFAULT_DPP_PASSPORT_LABEL_CONFIG;
+}
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const tenantDppPassportFormatRoutes: FastifyPluginAsync = async fastify => {
+  /**
+   * GET /api/tenant/dpp/:nodeId/passport/jsonld
+   * schema.org Product document for the passport, served as application/ld+json.
+   */
+  fastify.get(
+    '/:nodeId/passport/jsonld',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const paramsResult = nodeParamSchema.safeParse(request.params);
+      if (!paramsResult.success) return sendValidationError(reply, paramsResult.error.errors);
+      const { nodeId } = paramsResult.data;
+
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const generatedAt = new Date();
+      const document = await withDbContext(prisma, dbContext, async tx => {
+        const source = await loadPassportFormatSource(tx, nodeId);
+        if (!source) return null;
+
+        await writeAuditLog(tx, {
+          realm:        'TENANT',
+          tenantId:     dbContext.orgId,
+          actorType:    'USER',
+          actorId:      dbContext.actorId,
+          action:       'tenant.dpp.passport.jsonld_exported',
+          entity:       'traceability_node',
+          entityId:     nodeId,
+          metadataJson: { nodeId, passportStatus: source.passportStatus },
+        });
+
+        return buildPassportJsonLd(source, getAppPublicUrl(), generatedAt);
+      });
+
+      if (!document) return sendNotFound(reply, 'DPP passport not found or access denied');
+
+      void reply.header('Content-Type', 'application/ld+json; charset=utf-8');
+      void reply.header('Cache-Control', 'no-store');
+      return reply.send(document);
+    },
+  );
+
+  /**
+   * GET /api/tenant/dpp/:nodeId/passport/digital-link
+   * Returns { available: false, reason } until the passport is PUBLISHED and has a GTIN.
+   */
+  fastify.get(
+    '/:nodeId/passport/digital-link',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const paramsResult = nodeParamSchema.safeParse(request.params);
+      if (!paramsResult.success) return sendValidationError(reply, paramsResult.error.errors);
+      const { nodeId } = paramsResult.data;
+
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const source = await withDbContext(prisma, dbContext, async tx =>
+        loadPassportFormatSource(tx, nodeId),
+      );
+      if (!source) return sendNotFound(reply, 'DPP passport not found or access denied');
+
+      return sendSuccess(reply, { digitalLink: resolveDigitalLink(source, getAppPublicUrl()) });
+    },
+  );
+
+  /**
+   * GET /api/tenant/dpp/:nodeId/passport/label
+   * Printable label: QR payload plus the org's label config texts. PUBLISHED only.
+   */
+  fastify.get(
+    '/:nodeId/passport/label',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const paramsResult = nodeParamSchema.safeParse(request.params);
+      if (!paramsResult.success) return sendValidationError(reply, paramsResult.error.errors);
+      const { nodeId } = paramsResult.data;
+
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const result = await withDbContext(prisma, dbContext, async tx => {
+        const source = await loadPassportFormatSource(tx, nodeId);
+        if (!source) return null;
+
+        const label = buildPassportQrLabel(source, await loadLabelConfig(tx, dbContext.orgId), getAppPublicUrl());
+        if (label) {
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      dbContext.actorId,
+            action:       'tenant.dpp.passport.label_generated',
+            entity:       'traceability_node',
+            entityId:     nodeId,
+            metadataJson: { nodeId, hasDigitalLink: label.digitalLinkUri !== null },
+          });
+        }
+        return { label };
+      });
+
+      if (!result) return sendNotFound(reply, 'DPP passport not found or access denied');
+      if (!result.label) {
+        return sendError(
+          reply,
+          'DPP_PASSPORT_NOT_PUBLISHED',
+          'A label can only be printed for a PUBLISHED passport',
+          409,
+        );
+      }
+
+      return sendSuccess(reply, { label: result.label });
+    },
+  );
+
+  /**
+   * GET /api/tenant/dpp/:nodeId/passport/espr-report
+   * Readiness against the ESPR textile delegated-act drafts — not a conformity assessment.
+   */
+  fastify.get(
+    '/:nodeId/passport/espr-report',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const paramsResult = nodeParamSchema.safeParse(request.params);
+      if (!paramsResult.success) return sendValidationError(reply, paramsResult.error.errors);
+      const { nodeId } = paramsResult.data;
+
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const source = await withDbContext(prisma, dbContext, async tx =>
+        loadPassportFormatSource(tx, nodeId),
+      );
+      if (!source) return sendNotFound(reply, 'DPP passport not found or access denied');
+
+      return sendSuccess(reply, { report: buildEsprTextileReport(source, new Date()) });
+    },
+  );
+};
+
+export default tenantDppPassportFormatRoutes;
@@ -51,25 +51,25 @@ const tenantSeveritySchema = z
   .min(0)
   .max(1, 'Tenant-initiated escalations are restricted to LEVEL_0 and LEVEL_1') as z.ZodType<0 | 1>;
 
-const tenantCreateBodySchema = z.object({
+export const tenantCreateBodySchema = z.object({
   entityType: z.enum(['TRADE', 'ESCROW', 'APPROVAL', 'LIFECYCLE_LOG']),
   entityId:   uuidSchema,
   reason:     z.string().min(1).max(2000).trim(),
   severityLevel: tenantSeveritySchema,
 });
 
-const tenantListQuerySchema = z.object({
+export const tenantListQuerySchema = z.object({
   entityType: z.enum(['TRADE', 'ESCROW', 'APPROVAL', 'LIFECYCLE_LOG', 'ORG', 'GLOBAL']).optional(),
   entityId:   uuidSchema.optional(),
   status:     z.enum(['OPEN', 'RESOLVED', 'OVERRIDDEN']).optional(),
   limit:      z.coerce.number().int().min(1).max(100).optional(),
 });
 
-const escalationIdParamSchema = z.object({
+export const escalationIdParamSchema = z.object({
   id: uuidSchema,
 });
 
-const tenantResolveBodySchema = z.object({
+export const tenantResolveBodySchema = z.object({
   reason: z.string().min(1).max(2000).trim(),
 });
 
@@ -24,6 +24,7 @@ import { z } from 'zod';
 import type { PrismaClient, Prisma } from '@prisma/client';
 import { tenantAuthMiddleware } from '../../middleware/auth.js';
 import { databaseContextMiddleware } from '../../middleware/database-context.middleware.js';
+import { requireMfaStepUp } from '../../middleware/mfaStepUp.js';
 import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
 import { isOrgVerificationBlocked } from '../../utils/orgVerificationGuard.js';
 import { withDbContext } from '../../lib/database-context.js';
@@ -64,7 +65,7 @@ function makeTxBoundPrisma(tx: Prisma.TransactionClient): PrismaClient {
 
 // ─── Zod Schemas ─────────────────────────────────────────────────────────────
 
-const createEscrowBodySchema = z.object({
+export const createEscrowBodySchema = z.object({
   currency:        z.string().length(3, 'Currency must be an ISO 4217 3-letter code').toUpperCase(),
   reason:          z.string().min(1).max(2000).trim(),
   createdByUserId: uuidSchema.optional().nullable(),
@@ -72,7 +73,7 @@ const createEscrowBodySchema = z.object({
   tenantId:        z.never({ message: 'tenantId must not be set in request body' }).optional(),
 });
 
-const recordTransactionBodySchema = z.object({
+export const recordTransactionBodySchema = z.object({
   entryType:       z.enum(['HOLD', 'RELEASE', 'REFUND', 'ADJUSTMENT']),
   direction:       z.enum(['CREDIT', 'DEBIT']),
   amount:          z.number().positive('amount must be a positive number'),
@@ -85,7 +86,7 @@ const recordTransactionBodySchema = z.object({
   tenantId:        z.never({ message: 'tenantId must not be set in request body' }).optional(),
 });
 
-const transitionEscrowBodySchema = z.object({
+export const transitionEscrowBodySchema = z.object({
   toStateKey:  z.string().min(1).max(100).trim().toUpperCase(),
   reason:      z.string().min(1).max(2000).trim(),
   actorRole:   z.string().min(1).max(100).trim(),
@@ -94,12 +95,12 @@ const transitionEscrowBodySchema = z.object({
   tenantId:    z.never({ message: 'tenantId must not be set in request body' }).optional(),
 });
 
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   limit:  z.coerce.number().int().min(1).max(100).default(20),
   offset: z.coerce.number().int().min(0).default(0),
 });
 
-const escrowIdParamSchema = z.object({ escrowId: uuidSchema });
+export const escrowIdParamSchema = z.object({ escrowId: uuidSchema });
 
 // ─── Plugin ───────────────────────────────────────────────────────────────────
 
@@ -293,10 +294,11 @@ const tenantEscrowRoutes: FastifyPluginAsync = async fastify => {
    * D-022-B: Freeze gate enforced by EscrowService.transitionEscrow().
    * D-020-C: aiTriggered=true requires "HUMAN_CONFIRMED:" prefix (escrow-strict).
    * ENTITY_FROZEN → 423, APPLIED → 200, PENDING_APPROVAL → 202.
+   * MFA-001: step-up required (401 MFA_STEP_UP_REQUIRED) when the user has a factor enrolled.
    */
   fastify.post(
     '/:escrowId/transition',
-    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware], preHandler: requireMfaStepUp },
     async (request, reply) => {
       const dbContext = request.dbContext;
       if (!dbContext) {
@@ -0,0 +1,90 @@
+/**
+ * EVENT-STREAM-001 — Tenant Live Event Stream
+ *
+ * Fastify plugin — registered at /api/tenant/events
+ *
+ * Routes:
+ *   GET /api/tenant/events/stream   — server-sent stream of the tenant's new event_logs rows
+ *
+ * Live notifications for tenant consoles. Reads run through withDbContext, so event_logs
+ * RLS limits the stream to rows of request.dbContext.orgId; the tenant filter is also set
+ * explicitly and is never taken from the query (D-017-A). Optional filters: name_prefix,
+ * realm. Reconnects resume from the Last-Event-ID header (or ?last_event_id=).
+ */
+
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { tenantAuthMiddleware } from '../../middleware/auth.js';
+import { databaseContextMiddleware } from '../../middleware/database-context.middleware.js';
+import { sendError, sendValidationError } from '../../utils/response.js';
+import { createSseStream } from '../../utils/sse.js';
+import { withDbContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import {
+  EVENT_STREAM_RETRY_MS,
+  eventStreamConnections,
+  runEventStream,
+} from '../../services/eventStream/eventStream.service.js';
+import type { EventStreamReader } from '../../services/eventStream/eventStream.types.js';
+
+// ─── Zod Schemas ─────────────────────────────────────────────────────────────
+
+export const tenantEventStreamQuerySchema = z.object({
+  name_prefix:   z.string().min(1).max(100, 'name_prefix too long').optional(),
+  realm:         z.enum(['ADMIN', 'TENANT']).optional(),
+  last_event_id: z.string().uuid('Invalid last_event_id format').optional(),
+});
+
+const lastEventIdHeaderSchema = z.string().uuid('Invalid Last-Event-ID header').optional();
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const tenantEventStreamRoutes: FastifyPluginAsync = async fastify => {
+
+  // ─── GET /api/tenant/events/stream ────────────────────────────────────────
+  fastify.get(
+    '/stream',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const parsed = tenantEventStreamQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return sendValidationError(reply, parsed.error.errors);
+      }
+      const header = lastEventIdHeaderSchema.safeParse(request.headers['last-event-id']);
+      if (!header.success) {
+        return sendValidationError(reply, header.error.errors);
+      }
+      const { name_prefix, realm, last_event_id } = parsed.data;
+      const filter = { namePrefix: name_prefix, tenantId: dbContext.orgId, realm };
+      const lastEventId = header.data ?? last_event_id ?? null;
+
+      const release = eventStreamConnections.acquire(`TENANT:${dbContext.orgId}:${dbContext.actorId}`);
+      if (!release) {
+        return sendError(reply, 'TOO_MANY_STREAMS', 'Too many open event streams', 429);
+      }
+
+      const reader: EventStreamReader = fn => withDbContext(prisma, dbContext, fn);
+      const stream = createSseStream(reply, { retryMs: EVENT_STREAM_RETRY_MS });
+      try {
+        const summary = await runEventStream(stream, reader, filter, lastEventId);
+        request.log.info({ orgId: dbContext.orgId, ...summary }, '[event-stream] tenant stream ended');
+      } catch (err) {
+        request.log.error({ err }, '[event-stream] GET /tenant/events/stream error');
+        if (!stream.opened) {
+          return sendError(reply, 'INTERNAL_ERROR', 'Failed to open event stream', 500);
+        }
+        stream.fail('INTERNAL_ERROR', 'Event stream failed');
+      } finally {
+        release();
+      }
+      return reply;
+    }
+  );
+};
+
+export default tenantEventStreamRoutes;
@@ -46,7 +46,7 @@ function makeTxBoundPrisma(tx: Prisma.TransactionClient): PrismaClient {
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
 // D-017-A: tenantId / org_id must never come from the request body.
-const submitBodySchema = z.object({
+export const submitBodySchema = z.object({
   tenantId: z
     .never({ errorMap: () => ({ message: 'tenantId must not be provided in request body' }) })
     .optional(),
@@ -0,0 +1,472 @@
+/**
+ * CATALOG-INVENTORY-001 — Tenant Inventory Routes
+ *
+ * Fastify plugin — registered at /api/tenant/inventory
+ *
+ * Routes:
+ *   GET   /api/tenant/inventory/locations                 — list stock locations
+ *   POST  /api/tenant/inventory/locations                 — create a location
+ *   PATCH /api/tenant/inventory/locations/:id             — rename / (de)activate a location
+ *   GET   /api/tenant/inventory/items/:catalogItemId      — stock settings, lots and totals for one item
+ *   PATCH /api/tenant/inventory/items/:catalogItemId      — tracking flag and low-stock threshold
+ *   POST  /api/tenant/inventory/lots/receive              — receive stock into an (item, location, batch) lot
+ *   POST  /api/tenant/inventory/lots/:id/adjust           — signed manual correction on one lot
+ *   GET   /api/tenant/inventory/low-stock                 — tracked items at or below their threshold
+ *
+ * Reservations are not managed here: checkout takes them and the order status
+ * route releases (CANCELLED) or consumes (FULFILLED) them.
+ *
+ * D-017-A: tenantId is ALWAYS sourced from request.dbContext.orgId — never from the body.
+ * Writes are OWNER / ADMIN only and audit-logged as inventory.*.
+ */
+
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { tenantAuthMiddleware } from '../../middleware/auth.js';
+import { databaseContextMiddleware } from '../../middleware/database-context.middleware.js';
+import { sendSuccess, sendError, sendNotFound, sendValidationError } from '../../utils/response.js';
+import { withDbContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog } from '../../lib/auditLog.js';
+import {
+  StockAdjustmentError,
+  adjustStockLot,
+  deriveStockAvailability,
+  loadStockTotals,
+  receiveStock,
+} from '../../services/inventory/inventory.service.js';
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
+const uuidSchema = z.string().uuid('Must be a valid UUID');
+
+const INVENTORY_WRITE_ROLES = ['OWNER', 'ADMIN'];
+
+function isPrismaUniqueViolation(err: unknown): boolean {
+  return err instanceof Error && 'code' in err && (err as { code: unknown }).code === 'P2002';
+}
+
+function rejectNonInventoryWriter(request: FastifyRequest, reply: FastifyReply): boolean {
+  if (INVENTORY_WRITE_ROLES.includes(request.userRole ?? '')) return false;
+  sendError(reply, 'FORBIDDEN', 'Only OWNER or ADMIN can change inventory', 403);
+  return true;
+}
+
+// ─── Zod Schemas ─────────────────────────────────────────────────────────────
+
+export const idParamSchema = z.object({ id: uuidSchema });
+export const catalogItemParamSchema = z.object({ catalogItemId: uuidSchema });
+
+export const createLocationBodySchema = z.object({
+  code: z.string().trim().min(1).max(50),
+  name: z.string().trim().min(1).max(255),
+}).strict();
+
+export const updateLocationBodySchema = z.object({
+  name:   z.string().trim().min(1).max(255).optional(),
+  active: z.boolean().optional(),
+}).strict().refine(body => Object.keys(body).length > 0, { message: 'At least one field is required' });
+
+export const updateItemSettingsBodySchema = z.object({
+  inventoryTracked:  z.boolean().optional(),
+  lowStockThreshold: z.number().int().min(0).max(10_000_000).nullable().optional(),
+}).strict().refine(body => Object.keys(body).length > 0, { message: 'At least one field is required' });
+
+export const receiveStockBodySchema = z.object({
+  catalogItemId: uuidSchema,
+  locationId:    uuidSchema,
+  /** Lot / batch id. Links to the TraceabilityNode with the same batchId when one exists. */
+  batchId:       z.string().trim().min(1).max(500).nullable().optional(),
+  quantity:      z.number().int().min(1).max(10_000_000),
+}).strict();
+
+export const adjustStockBodySchema = z.object({
+  delta:  z.number().int().min(-10_000_000).max(10_000_000).refine(v => v !== 0, 'delta must not be 0'),
+  reason: z.string().trim().min(1).max(500),
+}).strict();
+
+export const listLocationsQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).optional().transform(v => v === 'true'),
+});
+
+type LowStockCandidateRow = { id: string; name: string; sku: string | null; lowStockThreshold: number | null };
+
+const LOT_SELECT = {
+  id:                 true,
+  locationId:         true,
+  batchId:            true,
+  traceabilityNodeId: true,
+  onHandQty:          true,
+  reservedQty:        true,
+  updatedAt:          true,
+  location:           { select: { code: true, name: true, active: true } },
+} as const;
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const tenantInventoryRoutes: FastifyPluginAsync = async fastify => {
+
+  // ─── GET /api/tenant/inventory/locations ─────────────────────────────────
+  fastify.get(
+    '/locations',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const queryResult = listLocationsQuerySchema.safeParse(request.query);
+      if (!queryResult.success) {
+        return sendValidationError(reply, queryResult.error.errors);
+      }
+
+      const locations = await withDbContext(prisma, dbContext, async tx => {
+        return tx.inventoryLocation.findMany({
+          where:   queryResult.data.includeInactive ? undefined : { active: true },
+          orderBy: [{ code: 'asc' }],
+        });
+      });
+
+      return sendSuccess(reply, { locations, count: locations.length });
+    },
+  );
+
+  // ─── POST /api/tenant/inventory/locations ────────────────────────────────
+  fastify.post(
+    '/locations',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonInventoryWriter(request, reply)) return;
+
+      const bodyResult = createLocationBodySchema.safeParse(request.body);
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+      const body = bodyResult.data;
+
+      try {
+        const location = await withDbContext(prisma, dbContext, async tx => {
+          const created = await tx.inventoryLocation.create({
+            data: { tenantId: dbContext.orgId, code: body.code, name: body.name },
+          });
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      dbContext.actorId,
+            action:       'inventory.LOCATION_CREATED',
+            entity:       'inventory_location',
+            entityId:     created.id,
+            metadataJson: { code: created.code, name: created.name },
+          });
+          return created;
+        });
+        return sendSuccess(reply, { location }, 201);
+      } catch (err) {
+        if (isPrismaUniqueViolation(err)) {
+          return sendError(reply, 'CONFLICT', `Location code '${body.code}' already exists`, 409);
+        }
+        throw err;
+      }
+    },
+  );
+
+  // ─── PATCH /api/tenant/inventory/locations/:id ───────────────────────────
+  fastify.patch(
+    '/locations/:id',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonInventoryWriter(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const bodyResult = updateLocationBodySchema.safeParse(request.body);
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+      const { id } = paramsResult.data;
+      const body = bodyResult.data;
+
+      const location = await withDbContext(prisma, dbContext, async tx => {
+        const existing = await tx.inventoryLocation.findFirst({ where: { id } });
+        if (!existing) return null;
+
+        const updated = await tx.inventoryLocation.update({ where: { id }, data: body });
+        await writeAuditLog(tx, {
+          realm:        'TENANT',
+          tenantId:     dbContext.orgId,
+          actorType:    'USER',
+          actorId:      dbContext.actorId,
+          action:       'inventory.LOCATION_UPDATED',
+          entity:       'inventory_location',
+          entityId:     id,
+          beforeJson:   { name: existing.name, active: existing.active },
+          afterJson:    { name: updated.name, active: updated.active },
+        });
+        return updated;
+      });
+
+      if (!location) return sendNotFound(reply, 'Location not found');
+      return sendSuccess(reply, { location });
+    },
+  );
+
+  // ─── GET /api/tenant/inventory/items/:catalogItemId ──────────────────────
+  fastify.get(
+    '/items/:catalogItemId',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const paramsResult = catalogItemParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const { catalogItemId } = paramsResult.data;
+
+      const result = await withDbContext(prisma, dbContext, async tx => {
+        const item = await tx.catalogItem.findFirst({
+          where:  { id: catalogItemId },
+          select: { id: true, name: true, sku: true, inventoryTracked: true, lowStockThreshold: true },
+        });
+        if (!item) return null;
+
+        const [lots, totals] = await Promise.all([
+          tx.inventoryStockLot.findMany({
+            where:   { catalogItemId },
+            select:  LOT_SELECT,
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          }),
+          loadStockTotals(tx, [catalogItemId]),
+        ]);
+        return { item, lots, totals: totals.get(catalogItemId) ?? { onHand: 0, reserved: 0, available: 0 } };
+      });
+
+      if (!result) return sendNotFound(reply, 'Catalog item not found');
+
+      return sendSuccess(reply, {
+        item:         result.item,
+        lots:         result.lots,
+        totals:       result.totals,
+        availability: deriveStockAvailability(
+          result.item.inventoryTracked,
+          result.totals.available,
+          result.item.lowStockThreshold,
+        ),
+      });
+    },
+  );
+
+  // ─── PATCH /api/tenant/inventory/items/:catalogItemId ────────────────────
+  fastify.patch(
+    '/items/:catalogItemId',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonInventoryWriter(request, reply)) return;
+
+      const paramsResult = catalogItemParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const bodyResult = updateItemSettingsBodySchema.safeParse(request.body);
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+      const { catalogItemId } = paramsResult.data;
+      const body = bodyResult.data;
+
+      const item = await withDbContext(prisma, dbContext, async tx => {
+        const existing = await tx.catalogItem.findFirst({
+          where:  { id: catalogItemId },
+          select: { id: true, inventoryTracked: true, lowStockThreshold: true },
+        });
+        if (!existing) return null;
+
+        const updated = await tx.catalogItem.update({
+          where:  { id: catalogItemId },
+          data:   body,
+          select: { id: true, name: true, sku: true, inventoryTracked: true, lowStockThreshold: true },
+        });
+        await writeAuditLog(tx, {
+          realm:        'TENANT',
+          tenantId:     dbContext.orgId,
+          actorType:    'USER',
+          actorId:      dbContext.actorId,
+          action:       'inventory.ITEM_SETTINGS_UPDATED',
+          entity:       'catalog_item',
+          entityId:     catalogItemId,
+          beforeJson:   { inventoryTracked: existing.inventoryTracked, lowStockThreshold: existing.lowStockThreshold },
+          afterJson:    { inventoryTracked: updated.inventoryTracked, lowStockThreshold: updated.lowStockThreshold },
+        });
+        return updated;
+      });
+
+      if (!item) return sendNotFound(reply, 'Catalog item not found');
+      return sendSuccess(reply, { item });
+    },
+  );
+
+  // ─── POST /api/tenant/inventory/lots/receive ─────────────────────────────
+  fastify.post(
+    '/lots/receive',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonInventoryWriter(request, reply)) return;
+
+      const bodyResult = receiveStockBodySchema.safeParse(request.body);
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+      const body = bodyResult.data;
+
+      const result = await withDbContext(prisma, dbContext, async tx => {
+        // RLS boundary: both lookups only see the caller's own rows.
+        const item = await tx.catalogItem.findFirst({ where: { id: body.catalogItemId }, select: { id: true } });
+        if (!item) return { error: 'ITEM_NOT_FOUND' as const };
+        const location = await tx.inventoryLocation.findFirst({
+          where:  { id: body.locationId },
+          select: { id: true, active: true },
+        });
+        if (!location) return { error: 'LOCATION_NOT_FOUND' as const };
+        if (!location.active) return { error: 'LOCATION_INACTIVE' as const };
+
+        const lot = await receiveStock(tx, {
+          tenantId:      dbContext.orgId,
+          catalogItemId: body.catalogItemId,
+          locationId:    body.locationId,
+          batchId:       body.batchId ?? null,
+          quantity:      body.quantity,
+        });
+        await writeAuditLog(tx, {
+          realm:        'TENANT',
+          tenantId:     dbContext.orgId,
+          actorType:    'USER',
+          actorId:      dbContext.actorId,
+          action:       'inventory.STOCK_RECEIVED',
+          entity:       'inventory_stock_lot',
+          entityId:     lot.id,
+          metadataJson: {
+            catalogItemId:      body.catalogItemId,
+            locationId:         body.locationId,
+            batchId:            body.batchId ?? null,
+            traceabilityNodeId: lot.traceabilityNodeId,
+            quantity:           body.quantity,
+            onHandQty:          lot.onHandQty,
+          },
+        });
+        return { lot };
+      });
+
+      if ('error' in result) {
+        if (result.error === 'ITEM_NOT_FOUND') return sendNotFound(reply, 'Catalog item not found');
+        if (result.error === 'LOCATION_NOT_FOUND') return sendNotFound(reply, 'Location not found');
+        return sendError(reply, 'LOCATION_INACTIVE', 'Cannot receive stock into an inactive location', 409);
+      }
+
+      return sendSuccess(reply, { lot: result.lot }, 201);
+    },
+  );
+
+  // ─── POST /api/tenant/inventory/lots/:id/adjust ──────────────────────────
+  fastify.post(
+    '/lots/:id/adjust',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonInventoryWriter(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const bodyResult = adjustStockBodySchema.safeParse(request.body);
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+      const { id } = paramsResult.data;
+      const { delta, reason } = bodyResult.data;
+
+      try {
+        const lot = await withDbContext(prisma, dbContext, async tx => {
+          const adjusted = await adjustStockLot(tx, id, delta);
+          if (!adjusted) return null;
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      dbContext.actorId,
+            action:       'inventory.STOCK_ADJUSTED',
+            entity:       'inventory_stock_lot',
+            entityId:     id,
+            metadataJson: { delta, reason, onHandQty: adjusted.onHandQty, reservedQty: adjusted.reservedQty },
+          });
+          return adjusted;
+        });
+
+        if (!lot) return sendNotFound(reply, 'Stock lot not found');
+        return sendSuccess(reply, { lot });
+      } catch (err) {
+        if (err instanceof StockAdjustmentError) {
+          return sendError(reply, 'STOCK_ADJUSTMENT_INVALID', err.message, 409);
+        }
+        throw err;
+      }
+    },
+  );
+
+  // ─── GET /api/tenant/inventory/low-stock ─────────────────────────────────
+  fastify.get(
+    '/low-stock',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const items = await withDbContext(prisma, dbContext, async tx => {
+        const tracked: LowStockCandidateRow[] = await tx.catalogItem.findMany({
+          where:   { inventoryTracked: true, active: true },
+          select:  { id: true, name: true, sku: true, lowStockThreshold: true },
+          orderBy: [{ name: 'asc' }],
+        });
+        const totals = await loadStockTotals(tx, tracked.map(item => item.id));
+
+        return tracked.flatMap(item => {
+          const stock = totals.get(item.id) ?? { onHand: 0, reserved: 0, available: 0 };
+          const availability = deriveStockAvailability(true, stock.available, item.lowStockThreshold);
+          return availability === 'IN_STOCK' ? [] : [{ ...item, ...stock, availability }];
+        });
+      });
+
+      return sendSuccess(reply, { items, count: items.length });
+    },
+  );
+};
+
+export default tenantInventoryRoutes;
@@ -54,11 +54,11 @@ function makeTxBoundPrisma(tx: Prisma.TransactionClient): PrismaClient {
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
 
-const tradeIdParamSchema = z.object({ tradeId: uuidSchema });
-const invoiceIdParamSchema = z.object({ invoiceId: uuidSchema });
+export const tradeIdParamSchema = z.object({ tradeId: uuidSchema });
+export const invoiceIdParamSchema = z.object({ invoiceId: uuidSchema });
 
 // D-017-A: org_id must never come from request body
-const buyerActionBodySchema = z.object({
+export const buyerActionBodySchema = z.object({
   org_id: z
     .never({ errorMap: () => ({ message: 'org_id must not be provided in request body' }) })
     .optional(),
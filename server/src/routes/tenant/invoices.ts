@@ -38,6 +38,8 @@ import {
   InvoiceTerminalStateError,
   InvoiceTransitionNotAllowedError,
 } from '../../services/invoice.service.js';
+import { config } from '../../config/index.js';
+import { FxRateService } from '../../services/fx/fxRate.service.js';
 import { TTP_INVOICE_STATE } from '../../ttp/ttp.constants.js';
 
 // ─── Utilities ────────────────────────────────────────────────────────────────
@@ -58,7 +60,7 @@ function makeTxBoundPrisma(tx: Prisma.TransactionClient): PrismaClient {
 const uuidSchema = z.string().uuid('Must be a valid UUID');
 
 // D-017-A: org_id must never come from request body
-const createBodySchema = z.object({
+export const createBodySchema = z.object({
   org_id: z
     .never({ errorMap: () => ({ message: 'org_id must not be provided in request body' }) })
     .optional(),
@@ -72,16 +74,16 @@ const createBodySchema = z.object({
   notes: z.string().trim().max(5000).optional().nullable(),
 });
 
-const transitionBodySchema = z.object({
+export const transitionBodySchema = z.object({
   to_state_key: z.literal(TTP_INVOICE_STATE.SUBMITTED, {
     errorMap: () => ({ message: `to_state_key must be 'SUBMITTED' for tenant transitions` }),
   }),
   reason: z.string().trim().min(1).max(2000),
 });
 
-const invoiceIdParamSchema = z.object({ invoiceId: uuidSchema });
+export const invoiceIdParamSchema = z.object({ invoiceId: uuidSchema });
 
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   trade_id: uuidSchema.optional(),
   state_key: z.string().optional(),
 });
@@ -108,7 +110,8 @@ const tenantInvoiceRoutes: FastifyPluginAsync = async fastify => {
 
       try {
         const record = await withDbContext(prisma, dbContext, async tx => {
-          const svc = new InvoiceService(makeTxBoundPrisma(tx));
+          const txBound = makeTxBoundPrisma(tx);
+          const svc = new InvoiceService(txBound, new FxRateService(txBound, config.FX_REPORTING_CURRENCY));
           const inv = await svc.createInvoice(orgId, userId, bodyResult.data);
           await writeAuditLog(tx, {
             realm: 'TENANT',
@@ -28,9 +28,9 @@ import {
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
 
-const poolIdParamSchema = z.object({ poolId: uuidSchema });
+export const poolIdParamSchema = z.object({ poolId: uuidSchema });
 
-const poolAndInvoiceParamSchema = z.object({
+export const poolAndInvoiceParamSchema = z.object({
   poolId:    uuidSchema,
   invoiceId: uuidSchema,
 });
@@ -28,9 +28,9 @@ import {
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
 
-const poolIdParamSchema = z.object({ poolId: uuidSchema });
+export const poolIdParamSchema = z.object({ poolId: uuidSchema });
 
-const lifecycleQuerySchema = z.object({
+export const lifecycleQuerySchema = z.object({
   limit:  z.coerce.number().int().min(1).max(100).optional().default(20),
   offset: z.coerce.number().int().min(0).optional().default(0),
 });
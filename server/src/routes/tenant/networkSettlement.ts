@@ -35,7 +35,7 @@ import {
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
 
-const poolIdParamSchema = z.object({ poolId: uuidSchema });
+export const poolIdParamSchema = z.object({ poolId: uuidSchema });
 
 // ─── Error mapper ─────────────────────────────────────────────────────────────
 
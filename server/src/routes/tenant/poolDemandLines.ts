@@ -44,16 +44,16 @@ import {
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
 
-const poolAndLineParamSchema = z.object({
+export const poolAndLineParamSchema = z.object({
   poolId: uuidSchema,
   lineId: uuidSchema,
 });
 
-const poolParamSchema = z.object({
+export const poolParamSchema = z.object({
   poolId: uuidSchema,
 });
 
-const createDemandLineBodySchema = z
+export const createDemandLineBodySchema = z
   .object({
     pool_id: z
       .never({ errorMap: () => ({ message: 'pool_id must not be provided in request body' }) })
@@ -91,7 +91,7 @@ const createDemandLineBodySchema = z
     }
   });
 
-const updateDemandLineBodySchema = z
+export const updateDemandLineBodySchema = z
   .object({
     commodity_category: z.string().trim().min(1).max(100).optional(),
     product_category: z.string().trim().min(1).max(100).optional().nullable(),
@@ -121,7 +121,7 @@ const updateDemandLineBodySchema = z
     }
   });
 
-const listDemandLinesQuerySchema = z.object({
+export const listDemandLinesQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).optional().default(20),
   offset: z.coerce.number().int().min(0).optional().default(0),
   status: z.string().trim().min(1).max(50).optional(),
@@ -129,7 +129,7 @@ const listDemandLinesQuerySchema = z.object({
   source_type: z.string().trim().min(1).max(50).optional(),
 });
 
-const lockDemandLinesBodySchema = z
+export const lockDemandLinesBodySchema = z
   .object({
     captured_reason: z.string().max(1000, 'captured_reason max 1000 chars').nullable().optional(),
     expected_line_ids: z
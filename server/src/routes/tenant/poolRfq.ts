@@ -8,6 +8,10 @@
  *
  * Routes:
  *   POST   /:poolId/rfq/issue   — issue a pool RFQ (AGGREGATING → CLOSED_FOR_BIDS)
+ *   GET    /:poolId/rfq/:rfqId/lines                     — RFQ lines (quote comparison rows)
+ *   GET    /:poolId/rfq/:rfqId/line-awards               — recorded line-level awards
+ *   POST   /:poolId/rfq/:rfqId/line-awards               — direct split award across quotes
+ *   POST   /:poolId/rfq/:rfqId/line-awards/award-request — maker requests split award approval
  *
  * Design: TEXQTIC-NC-PHASE1-POOL-RFQ-ISSUE-DECISION-RECORD-001 (caac5a0)
  * Error mapping: TRANSITION_DENIED → 422 (Q-5 correction from DESIGN-001 §18)
@@ -47,40 +51,41 @@ import {
   NetworkPoolRfqApprovalExpiredError,
   NetworkPoolRfqMakerCheckerSameActorError,
   NetworkPoolRfqQuoteNoLongerSubmittedError,
+  NetworkPoolRfqSplitAwardInvalidError,
 } from '../../services/networkPoolRfq.service.js';
 
 // ─── Param / Body Schemas ─────────────────────────────────────────────────────
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
 
-const poolParamSchema = z.object({
+export const poolParamSchema = z.object({
   poolId: uuidSchema,
 });
 
-const rfqParamSchema = z.object({
+export const rfqParamSchema = z.object({
   poolId: uuidSchema,
   rfqId:  uuidSchema,
 });
 
-const inviteParamSchema = z.object({
+export const inviteParamSchema = z.object({
   poolId:   uuidSchema,
   rfqId:    uuidSchema,
   inviteId: uuidSchema,
 });
 
-const rfqQuoteParamSchema = z.object({
+export const rfqQuoteParamSchema = z.object({
   poolId:  z.string().uuid('poolId must be a valid UUID'),
   rfqId:   z.string().uuid('rfqId must be a valid UUID'),
   quoteId: z.string().uuid('quoteId must be a valid UUID'),
 });
 
-const approvalParamSchema = z.object({
+export const approvalParamSchema = z.object({
   poolId:     uuidSchema,
   rfqId:      uuidSchema,
   approvalId: uuidSchema,
 });
 
-const issueRfqBodySchema = z
+export const issueRfqBodySchema = z
   .object({
     issue_reason: z.string().max(1000, 'issue_reason max 1000 chars').nullable().optional(),
     response_deadline_at: z
@@ -129,14 +134,14 @@ const issueRfqBodySchema = z
   .strict();
 
 // POST accept quote body — strict.
-const acceptQuoteBodySchema = z
+export const acceptQuoteBodySchema = z
   .object({
     request_id: z.string().max(255, 'request_id max 255 chars').nullable().optional(),
   })
   .strict();
 
 // POST reject quote body — strict.
-const rejectQuoteBodySchema = z
+export const rejectQuoteBodySchema = z
   .object({
     reject_reason: z.string().max(5000, 'reject_reason max 5000 chars').nullable().optional(),
     request_id:    z.string().max(255, 'request_id max 255 chars').nullable().optional(),
@@ -144,15 +149,49 @@ const rejectQuoteBodySchema = z
   .strict();
 
 // POST award-request body — strict. MC-021: maker requests award approval.
-const requestAwardBodySchema = z
+export const requestAwardBodySchema = z
   .object({
     request_reason: z.string().max(5000, 'request_reason max 5000 chars'),
     request_id:     z.string().max(255, 'request_id max 255 chars').nullable().optional(),
   })
   .strict();
 
+// Split award allocation — one (RFQ line, quote, qty) triple. Quantity checks happen in the service.
+const splitAwardAllocationSchema = z
+  .object({
+    rfq_line_id: z.string().uuid('rfq_line_id must be a valid UUID'),
+    quote_id:    z.string().uuid('quote_id must be a valid UUID'),
+    awarded_qty: z.union([
+      z.number().positive('awarded_qty must be positive'),
+      z.string().regex(/^\d+(\.\d{1,6})?$/, 'awarded_qty must be a positive decimal with up to 6 places'),
+    ]),
+  })
+  .strict();
+
+const splitAwardAllocationsSchema = z
+  .array(splitAwardAllocationSchema)
+  .min(1, 'allocations must contain at least one entry')
+  .max(500, 'allocations max 500 entries');
+
+// POST line-awards body — strict. Direct split award.
+export const awardLinesBodySchema = z
+  .object({
+    allocations: splitAwardAllocationsSchema,
+    request_id:  z.string().max(255, 'request_id max 255 chars').nullable().optional(),
+  })
+  .strict();
+
+// POST line-awards/award-request body — strict. MC-021: maker requests split award approval.
+export const requestSplitAwardBodySchema = z
+  .object({
+    allocations:    splitAwardAllocationsSchema,
+    request_reason: z.string().max(5000, 'request_reason max 5000 chars'),
+    request_id:     z.string().max(255, 'request_id max 255 chars').nullable().optional(),
+  })
+  .strict();
+
 // POST approve award body — strict. MC-021: checker approves award.
-const approveAwardBodySchema = z
+export const approveAwardBodySchema = z
   .object({
     approve_reason: z.string().max(5000, 'approve_reason max 5000 chars'),
     request_id:     z.string().max(255, 'request_id max 255 chars').nullable().optional(),
@@ -160,7 +199,7 @@ const approveAwardBodySchema = z
   .strict();
 
 // POST reject award approval body — strict. MC-021: checker rejects award.
-const rejectAwardApprovalBodySchema = z
+export const rejectAwardApprovalBodySchema = z
   .object({
     reject_reason: z.string().max(5000, 'reject_reason max 5000 chars'),
     request_id:    z.string().max(255, 'request_id max 255 chars').nullable().optional(),
@@ -168,7 +207,7 @@ const rejectAwardApprovalBodySchema = z
   .strict();
 
 // OD-1: POST create invite body — strict, no system/internal fields.
-const sendInviteBodySchema = z
+export const sendInviteBodySchema = z
   .object({
     supplier_org_id:          z.string().uuid('supplier_org_id must be a valid UUID'),
     expires_at:               z.string().datetime({ offset: true, message: 'expires_at must be a valid ISO datetime string' }).nullable().optional(),
@@ -191,7 +230,7 @@ const sendInviteBodySchema = z
   .strict();
 
 // POST cancel invite body — strict.
-const cancelInviteBodySchema = z
+export const cancelInviteBodySchema = z
   .object({
     cancel_reason:            z.string().max(2000, 'cancel_reason max 2000 chars').nullable().optional(),
     // Forbidden fields.
@@ -313,7 +352,7 @@ function mapSupplierInviteServiceError(
 // ─── Award Error Mapper ─────────────────────────────────────────────────────
 //
 // Maps owner quote award service errors to HTTP responses.
-// Called by all 3 owner award routes.
+// Called by the owner award routes and the line-level split award routes.
 
 function mapAwardRouteError(
   reply: Parameters<typeof sendError>[0],
@@ -343,6 +382,10 @@ function mapAwardRouteError(
     sendError(reply, 'INVALID_TRANSITION', err.message, 422);
     return true;
   }
+  if (err instanceof NetworkPoolRfqSplitAwardInvalidError) {
+    sendError(reply, 'INVALID_SPLIT_AWARD', err.message, 422);
+    return true;
+  }
   if (err instanceof NetworkPoolRfqConflictError) {
     sendError(reply, 'CONFLICT', err.message, 409);
     return true;
@@ -946,7 +989,7 @@ const poolRfqRoutes: FastifyPluginAsync = async fastify => {
   //
   // Body (strict): approve_reason (required, max 5000), request_id? (optional, nullable, max 255).
   // poolId/rfqId validated in params; service validates hierarchy via frozen payload.
-  // Returns 200 AwardApproved DTO { approval, quote }.
+  // Returns 200 AwardApproved DTO { approval, quote } — plus `awards` for split award requests.
   fastify.post(
     '/:poolId/rfq/:rfqId/award-approvals/:approvalId/approve',
     {
@@ -1072,6 +1115,178 @@ const poolRfqRoutes: FastifyPluginAsync = async fastify => {
       }
     },
   );
+
+  // ─── Line-Level Split Award Routes ──────────────────────────────────────────
+  //
+  // An RFQ line may be split across several supplier quotes. All 4 routes use
+  // ownerAwardPreHandler (3-gate chain) and the same role gate as the quote routes.
+  //   GET  /:poolId/rfq/:rfqId/lines
+  //   GET  /:poolId/rfq/:rfqId/line-awards
+  //   POST /:poolId/rfq/:rfqId/line-awards
+  //   POST /:poolId/rfq/:rfqId/line-awards/award-request
+  //
+  // Approval of a split award request goes through the existing
+  // /award-approvals/:approvalId/approve route; the response then carries `awards`.
+
+  // GET /:poolId/rfq/:rfqId/lines — RFQ lines for the quote comparison matrix
+  fastify.get(
+    '/:poolId/rfq/:rfqId/lines',
+    {
+      onRequest: [tenantAuthMiddleware, databaseContextMiddleware],
+      preHandler: ownerAwardPreHandler,
+    },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+
+      const userRole = (request.userRole ?? '').trim().toUpperCase();
+      if (!userRole.includes('ADMIN') && userRole !== 'OWNER') {
+        return sendError(reply, 'FORBIDDEN', 'Only pool owners and admins may list RFQ lines', 403);
+      }
+
+      const paramResult = rfqParamSchema.safeParse(request.params);
+      if (!paramResult.success) return sendValidationError(reply, paramResult.error.errors);
+
+      const { poolId, rfqId } = paramResult.data;
+      const orgId = dbContext.orgId;
+
+      try {
+        const svc = new NetworkPoolRfqService(prisma, new StateMachineService(prisma, null, null));
+        const records = await svc.listRfqLinesForOwner(orgId, poolId, rfqId);
+        return sendSuccess(reply, records, 200);
+      } catch (err) {
+        if (mapAwardRouteError(reply, err)) return;
+        request.log.error(err, 'network-commerce.pool-rfq.lines.list');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to list RFQ lines', 500);
+      }
+    },
+  );
+
+  // GET /:poolId/rfq/:rfqId/line-awards — recorded line awards for an RFQ
+  fastify.get(
+    '/:poolId/rfq/:rfqId/line-awards',
+    {
+      onRequest: [tenantAuthMiddleware, databaseContextMiddleware],
+      preHandler: ownerAwardPreHandler,
+    },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+
+      const userRole = (request.userRole ?? '').trim().toUpperCase();
+      if (!userRole.includes('ADMIN') && userRole !== 'OWNER') {
+        return sendError(reply, 'FORBIDDEN', 'Only pool owners and admins may list line awards', 403);
+      }
+
+      const paramResult = rfqParamSchema.safeParse(request.params);
+      if (!paramResult.success) return sendValidationError(reply, paramResult.error.errors);
+
+      const { poolId, rfqId } = paramResult.data;
+      const orgId = dbContext.orgId;
+
+      try {
+        const svc = new NetworkPoolRfqService(prisma, new StateMachineService(prisma, null, null));
+        const records = await svc.listLineAwardsForOwner(orgId, poolId, rfqId);
+        return sendSuccess(reply, records, 200);
+      } catch (err) {
+        if (mapAwardRouteError(reply, err)) return;
+        request.log.error(err, 'network-commerce.pool-rfq.line-awards.list');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to list line awards', 500);
+      }
+    },
+  );
+
+  // POST /:poolId/rfq/:rfqId/line-awards — direct split award
+  //
+  // Body (strict): allocations (1..500 of { rfq_line_id, quote_id, awarded_qty }),
+  //   request_id? (optional, nullable, max 255).
+  // Same pool/RFQ transitions as /accept. Returns 200 { awards, quotes }.
+  // Errors: as /accept plus INVALID_SPLIT_AWARD(422).
+  fastify.post(
+    '/:poolId/rfq/:rfqId/line-awards',
+    {
+      onRequest: [tenantAuthMiddleware, databaseContextMiddleware],
+      preHandler: ownerAwardPreHandler,
+    },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+
+      const userRole = (request.userRole ?? '').trim().toUpperCase();
+      if (!userRole.includes('ADMIN') && userRole !== 'OWNER') {
+        return sendError(reply, 'FORBIDDEN', 'Only pool owners and admins may award RFQ lines', 403);
+      }
+
+      if (await isOrgVerificationBlocked(dbContext.orgId, reply)) return;
+
+      const paramResult = rfqParamSchema.safeParse(request.params);
+      if (!paramResult.success) return sendValidationError(reply, paramResult.error.errors);
+
+      const body = request.body ?? {};
+      const bodyResult = awardLinesBodySchema.safeParse(body);
+      if (!handleBodyValidation(reply, bodyResult)) return;
+
+      const { poolId, rfqId } = paramResult.data;
+      const orgId  = dbContext.orgId;
+      const userId = request.userId ?? null;
+
+      try {
+        const svc = new NetworkPoolRfqService(prisma, new StateMachineService(prisma, null, null));
+        const result = await svc.awardLines(orgId, userId, poolId, rfqId, bodyResult.data);
+        return sendSuccess(reply, result, 200);
+      } catch (err) {
+        if (mapAwardRouteError(reply, err)) return;
+        request.log.error(err, 'network-commerce.pool-rfq.line-awards.award');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to award RFQ lines', 500);
+      }
+    },
+  );
+
+  // POST /:poolId/rfq/:rfqId/line-awards/award-request — maker requests split award approval
+  //
+  // Body (strict): allocations, request_reason (required, max 5000), request_id?.
+  // Returns 201 AwardApprovalRequest DTO with split_allocations.
+  fastify.post(
+    '/:poolId/rfq/:rfqId/line-awards/award-request',
+    {
+      onRequest: [tenantAuthMiddleware, databaseContextMiddleware],
+      preHandler: ownerAwardPreHandler,
+    },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+
+      const userRole = (request.userRole ?? '').trim().toUpperCase();
+      if (!userRole.includes('ADMIN') && userRole !== 'OWNER') {
+        return sendError(reply, 'FORBIDDEN', 'Only pool owners and admins may request an award', 403);
+      }
+
+      if (await isOrgVerificationBlocked(dbContext.orgId, reply)) return;
+
+      const paramResult = rfqParamSchema.safeParse(request.params);
+      if (!paramResult.success) return sendValidationError(reply, paramResult.error.errors);
+
+      const body = request.body ?? {};
+      const bodyResult = requestSplitAwardBodySchema.safeParse(body);
+      if (!handleBodyValidation(reply, bodyResult)) return;
+
+      const { poolId, rfqId } = paramResult.data;
+      const orgId  = dbContext.orgId;
+      const userId = request.userId;
+      if (!userId) return sendError(reply, 'UNAUTHORIZED', 'User identity required for maker-checker actions', 401);
+
+      try {
+        const svc = new NetworkPoolRfqService(prisma, new StateMachineService(prisma, null, null));
+        const record = await svc.requestSplitAward(orgId, userId, poolId, rfqId, bodyResult.data);
+        return sendSuccess(reply, record, 201);
+      } catch (err) {
+        if (mapMakerCheckerError(reply, err)) return;
+        if (mapAwardRouteError(reply, err)) return;
+        request.log.error(err, 'network-commerce.pool-rfq.line-awards.request');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to request split award approval', 500);
+      }
+    },
+  );
 };
 
 export default poolRfqRoutes;
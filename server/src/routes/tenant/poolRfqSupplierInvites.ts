@@ -14,17 +14,17 @@ import {
   NetworkPoolRfqSupplierInviteInvalidTransitionError,
 } from '../../services/networkPoolRfq.service.js';
 
-const inviteIdParamSchema = z.object({
+export const inviteIdParamSchema = z.object({
   inviteId: z.string().uuid('inviteId must be a valid UUID'),
 });
 
-const acceptBodySchema = z
+export const acceptBodySchema = z
   .object({
     note: z.string().max(2000, 'note max 2000 chars').nullable().optional(),
   })
   .strict();
 
-const declineBodySchema = z
+export const declineBodySchema = z
   .object({
     declineReason: z.string().max(2000, 'declineReason max 2000 chars').nullable().optional(),
   })
@@ -14,23 +14,44 @@ import {
   NetworkPoolRfqSupplierQuoteConflictError,
   NetworkPoolRfqSupplierQuoteInviteNotAcceptedError,
   NetworkPoolRfqSupplierQuoteInvalidInputError,
+  NetworkPoolRfqSupplierQuoteLineInvalidError,
 } from '../../services/networkPoolRfq.service.js';
 
-const inviteIdParamSchema = z.object({
+export const inviteIdParamSchema = z.object({
   inviteId: z.string().uuid('inviteId must be a valid UUID'),
 });
 
+const positiveDecimalSchema = (field: string) =>
+  z.union([
+    z
+      .string()
+      .min(1, `${field} must be non-empty`)
+      .regex(/^\d+(\.\d+)?$/, `${field} must be a positive decimal`),
+    z.number().positive(`${field} must be positive`),
+  ]);
+
+// One priced RFQ line. Line amount is computed server-side (unit_price × quoted_qty).
+const submitQuoteLineSchema = z
+  .object({
+    rfq_line_id:    z.string().uuid('rfq_line_id must be a valid UUID'),
+    unit_price:     positiveDecimalSchema('unit_price'),
+    quoted_qty:     positiveDecimalSchema('quoted_qty'),
+    lead_time_days: z.number().int('lead_time_days must be an integer').min(0, 'lead_time_days must be >= 0').max(3650, 'lead_time_days max 3650').nullable().optional(),
+    line_note:      z.string().max(2000, 'line_note max 2000 chars').nullable().optional(),
+  })
+  .strict();
+
 // QD-5: forbidden fields are never accepted as input.
 // QD-2: no re-submission fields (status, quote_ref) accepted.
-const submitQuoteBodySchema = z
+// Either a lump-sum quote_amount or per-line prices (or both — then they must agree).
+export const submitQuoteBodySchema = z
   .object({
-    quote_amount: z.union([
-      z
-        .string()
-        .min(1, 'quote_amount must be non-empty')
-        .regex(/^\d+(\.\d+)?$/, 'quote_amount must be a positive decimal'),
-      z.number().positive('quote_amount must be positive'),
-    ]),
+    quote_amount: positiveDecimalSchema('quote_amount').nullable().optional(),
+    lines: z
+      .array(submitQuoteLineSchema)
+      .min(1, 'lines must contain at least one entry')
+      .max(500, 'lines max 500 entries')
+      .optional(),
     currency: z.string().min(3, 'currency min 3 chars').max(10, 'currency max 10 chars'),
     validity_until: z
       .string()
@@ -44,7 +65,11 @@ const submitQuoteBodySchema = z
       .optional(),
     request_id: z.string().max(255, 'request_id max 255 chars').nullable().optional(),
   })
-  .strict();
+  .strict()
+  .refine(body => body.quote_amount != null || (body.lines?.length ?? 0) > 0, {
+    message: 'quote_amount or lines is required',
+    path:    ['quote_amount'],
+  });
 
 function mapQuoteRouteError(reply: Parameters<typeof sendError>[0], err: unknown): boolean {
   // Non-leaking 404 for missing/wrong-supplier invite.
@@ -67,6 +92,11 @@ function mapQuoteRouteError(reply: Parameters<typeof sendError>[0], err: unknown
     sendError(reply, 'INVITE_NOT_ACCEPTED', err.message, 422);
     return true;
   }
+  // Quote lines do not match the RFQ lines, or do not add up to quote_amount.
+  if (err instanceof NetworkPoolRfqSupplierQuoteLineInvalidError) {
+    sendError(reply, 'INVALID_INPUT', err.message, 400);
+    return true;
+  }
   // RFQ not in ISSUED/QUOTED state — invalid state for quote submission.
   if (err instanceof NetworkPoolRfqSupplierQuoteInvalidInputError) {
     sendError(reply, 'INVALID_TRANSITION', err.message, 422);
@@ -130,6 +160,34 @@ const poolRfqSupplierQuotesRoutes: FastifyPluginAsync = async fastify => {
     },
   );
 
+  // ─── GET /supplier-rfq-invites/:inviteId/rfq-lines ──────────────────────────
+  // Resolved: GET /api/tenant/network-commerce/supplier-rfq-invites/:inviteId/rfq-lines
+  // RFQ lines the supplier may price. QD-1: invite must be effectively ACCEPTED.
+  fastify.get(
+    '/supplier-rfq-invites/:inviteId/rfq-lines',
+    { onRequest: [...quoteGuards] },
+    async (request, reply) => {
+      const orgId = request.dbContext?.orgId;
+      if (!orgId) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const parsedParams = inviteIdParamSchema.safeParse(request.params);
+      if (!parsedParams.success) {
+        return sendValidationError(reply, parsedParams.error.errors);
+      }
+
+      try {
+        const data = await service.listRfqLinesForSupplierInvite(orgId, parsedParams.data.inviteId);
+        return sendSuccess(reply, data, 200);
+      } catch (err) {
+        if (mapQuoteRouteError(reply, err)) return reply;
+        request.log.error({ err }, 'supplier rfq lines list failed');
+        return sendError(reply, 'INTERNAL_ERROR', 'Failed to list RFQ lines', 500);
+      }
+    },
+  );
+
   // ─── POST /supplier-rfq-invites/:inviteId/quote ─────────────────────────────
   // Resolved: POST /api/tenant/network-commerce/supplier-rfq-invites/:inviteId/quote
   // Returns 201 on success — new quote resource created (QD-2: one per invite).
@@ -160,7 +218,8 @@ const poolRfqSupplierQuotesRoutes: FastifyPluginAsync = async fastify => {
           request.userId ?? null,
           parsedParams.data.inviteId,
           {
-            quote_amount: parsedBody.data.quote_amount,
+            quote_amount: parsedBody.data.quote_amount ?? null,
+            lines:        parsedBody.data.lines ?? null,
             currency:     parsedBody.data.currency,
             validity_until: parsedBody.data.validity_until ?? null,
             supplier_note:  parsedBody.data.supplier_note ?? null,
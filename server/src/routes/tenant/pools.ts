@@ -19,9 +19,9 @@ import {
 } from '../../services/networkPool.service.js';
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
-const poolIdParamSchema = z.object({ poolId: uuidSchema });
+export const poolIdParamSchema = z.object({ poolId: uuidSchema });
 
-const createPoolBodySchema = z.object({
+export const createPoolBodySchema = z.object({
   org_id: z
     .never({ errorMap: () => ({ message: 'org_id must not be provided in request body' }) })
     .optional(),
@@ -34,19 +34,19 @@ const createPoolBodySchema = z.object({
   metadata: z.record(z.unknown()).optional().nullable(),
 });
 
-const openPoolBodySchema = z
+export const openPoolBodySchema = z
   .object({
     reason: z.string().trim().min(1).max(2000, 'reason max 2000 chars'),
   })
   .strict();
 
-const orderPoolBodySchema = z
+export const orderPoolBodySchema = z
   .object({
     reason: z.string().trim().min(1).max(2000, 'reason max 2000 chars'),
   })
   .strict();
 
-const joinPoolBodySchema = z
+export const joinPoolBodySchema = z
   .object({
     member_org_id: z
       .never({ errorMap: () => ({ message: 'member_org_id must not be provided in request body' }) })
@@ -59,7 +59,7 @@ const joinPoolBodySchema = z
   })
   .strict();
 
-const listPoolsQuerySchema = z
+export const listPoolsQuerySchema = z
   .object({
     limit: z.coerce.number().int().min(1).max(100).optional().default(20),
     offset: z.coerce.number().int().min(0).optional().default(0),
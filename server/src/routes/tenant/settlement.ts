@@ -51,6 +51,7 @@ import { TradeService } from '../../services/trade.g017.service.js';
 import { EscalationService } from '../../services/escalation.service.js';
 import { StateMachineService } from '../../services/stateMachine.service.js';
 import { MakerCheckerService } from '../../services/makerChecker.service.js';
+import { FxRateService } from '../../services/fx/fxRate.service.js';
 import {
   SettlementService,
   type WriteAuditLogFn,
@@ -86,7 +87,7 @@ function makeTxBoundPrisma(tx: Prisma.TransactionClient): PrismaClient {
 
 // ─── Zod Schemas ─────────────────────────────────────────────────────────────
 
-const previewBodySchema = z.object({
+export const previewBodySchema = z.object({
   tradeId:  uuidSchema,
   escrowId: uuidSchema,
   amount:   z.number().positive('amount must be a positive number'),
@@ -95,7 +96,7 @@ const previewBodySchema = z.object({
   tenantId: z.never({ message: 'tenantId must not be set in request body' }).optional(),
 });
 
-const settleBodySchema = z.object({
+export const settleBodySchema = z.object({
   tradeId:     uuidSchema,
   escrowId:    uuidSchema,
   amount:      z.number().positive('amount must be a positive number'),
@@ -127,7 +128,10 @@ function settlementErrorToStatus(code: string): number {
       return 409;
     case 'AI_HUMAN_CONFIRMATION_REQUIRED':
     case 'INVALID_AMOUNT':
+    case 'CURRENCY_MISMATCH':
       return 400;
+    case 'FX_RATE_UNAVAILABLE':
+      return 422;
     case 'DB_ERROR':
       return 500;
     default:
@@ -174,7 +178,7 @@ const tenantSettlementRoutes: FastifyPluginAsync = async fastify => {
           const tradeSvc      = new TradeService(txBound, smSvc, escalationSvc);
           const boundAudit: WriteAuditLogFn = (db, entry) => writeAuditLog(db, entry);
           const settlementSvc = new SettlementService(
-            txBound, tradeSvc, escrowSvc, escalationSvc, boundAudit,
+            txBound, tradeSvc, escrowSvc, escalationSvc, boundAudit, new FxRateService(txBound),
           );
 
           return settlementSvc.previewSettlement({
@@ -196,6 +200,7 @@ const tenantSettlementRoutes: FastifyPluginAsync = async fastify => {
           currentBalance:   result.currentBalance,
           projectedBalance: result.projectedBalance,
           wouldSucceed:     result.wouldSucceed,
+          conversion:       result.conversion ?? null,
         });
       } catch (err) {
         fastify.log.error({ err }, '[G-019] POST /tenant/settlements/preview error');
@@ -258,7 +263,7 @@ const tenantSettlementRoutes: FastifyPluginAsync = async fastify => {
           // the SAME Prisma tx, guaranteeing atomicity (Step 10, D-022).
           const boundAudit: WriteAuditLogFn = (db, entry) => writeAuditLog(db, entry);
           const settlementSvc = new SettlementService(
-            txBound, tradeSvc, escrowSvc, escalationSvc, boundAudit,
+            txBound, tradeSvc, escrowSvc, escalationSvc, boundAudit, new FxRateService(txBound),
           );
 
           return settlementSvc.settleTrade({
@@ -283,6 +288,7 @@ const tenantSettlementRoutes: FastifyPluginAsync = async fastify => {
             transactionId:  result.transactionId,
             escrowReleased: result.escrowReleased,
             tradeClosed:    result.tradeClosed,
+            conversion:     result.conversion ?? null,
           }, 200);
         }
 
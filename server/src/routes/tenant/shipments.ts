@@ -0,0 +1,532 @@
+/**
+ * ORDER-FULFILMENT-001 — Tenant Shipment Routes
+ *
+ * Fastify plugin — registered at /api/tenant/shipments
+ *
+ * Routes:
+ *   GET  /api/tenant/shipments                              — list shipments (filter by orderId / tradeId)
+ *   POST /api/tenant/shipments                              — create a PENDING shipment with its packing list
+ *   GET  /api/tenant/shipments/:id                          — shipment detail, lines and document metadata
+ *   POST /api/tenant/shipments/:id/dispatch                 — PENDING → DISPATCHED (records DISPATCH_PROOF evidence)
+ *   POST /api/tenant/shipments/:id/deliver                  — DISPATCHED → DELIVERED (may fulfil the order)
+ *   POST /api/tenant/shipments/:id/cancel                   — PENDING | DISPATCHED → CANCELLED
+ *   POST /api/tenant/shipments/:id/documents?kind=…         — multipart upload (DISPATCH_PROOF | PROOF_OF_DELIVERY)
+ *   GET  /api/tenant/shipments/:id/documents/:documentId    — short-lived signed URL for one document
+ *
+ * D-017-A: tenantId is ALWAYS sourced from request.dbContext.orgId — never from the body.
+ * Writes are OWNER / ADMIN only and audit-logged as shipment.*.
+ * Document storage paths are never returned; reads go through signed URLs.
+ */
+
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { tenantAuthMiddleware } from '../../middleware/auth.js';
+import { databaseContextMiddleware } from '../../middleware/database-context.middleware.js';
+import { sendSuccess, sendError, sendNotFound, sendValidationError } from '../../utils/response.js';
+import { withDbContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog } from '../../lib/auditLog.js';
+import {
+  SHIPMENT_DOCUMENT_KINDS,
+  ShipmentError,
+  cancelShipment,
+  createShipment,
+  deliverShipment,
+  dispatchShipment,
+  isDocumentKindAllowed,
+  loadShipment,
+  recordShipmentDocument,
+} from '../../services/shipment/shipment.service.js';
+import {
+  ShipmentDocumentStorageError,
+  createShipmentDocumentSignedUrl,
+  uploadShipmentDocumentToStorage,
+} from '../../services/storage/shipmentDocument.storage.js';
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
+const uuidSchema = z.string().uuid('Must be a valid UUID');
+
+const SHIPMENT_WRITE_ROLES = ['OWNER', 'ADMIN'];
+
+function rejectNonShipmentWriter(request: FastifyRequest, reply: FastifyReply): boolean {
+  if (SHIPMENT_WRITE_ROLES.includes(request.userRole ?? '')) return false;
+  sendError(reply, 'FORBIDDEN', 'Only OWNER or ADMIN can manage shipments', 403);
+  return true;
+}
+
+function sendShipmentError(reply: FastifyReply, err: unknown) {
+  if (err instanceof ShipmentError || err instanceof ShipmentDocumentStorageError) {
+    return sendError(reply, err.code, err.message, err.statusCode);
+  }
+  throw err;
+}
+
+// ─── Zod Schemas ─────────────────────────────────────────────────────────────
+
+export const idParamSchema = z.object({ id: uuidSchema });
+export const documentParamSchema = z.object({ id: uuidSchema, documentId: uuidSchema });
+
+const shipmentLineSchema = z.object({
+  /** Required for order shipments; must be omitted for trade shipments. */
+  orderItemId: uuidSchema.optional(),
+  /** Defaults to the order item name for order shipments; required for trade shipments. */
+  description: z.string().trim().min(1).max(255).optional(),
+  quantity:    z.number().int().min(1).max(10_000_000),
+  unit:        z.string().trim().min(1).max(20).optional(),
+  packageRef:  z.string().trim().min(1).max(100).optional(),
+  /** Links the line to the TraceabilityNode with the same batchId when one exists. */
+  batchId:     z.string().trim().min(1).max(500).optional(),
+}).strict();
+
+export const createShipmentBodySchema = z.object({
+  orderId:        uuidSchema.optional(),
+  tradeId:        uuidSchema.optional(),
+  carrier:        z.string().trim().min(1).max(100),
+  trackingNumber: z.string().trim().min(1).max(100).optional(),
+  notes:          z.string().trim().max(2000).optional(),
+  lines:          z.array(shipmentLineSchema).min(1).max(200),
+}).strict().refine(body => (body.orderId ? 1 : 0) + (body.tradeId ? 1 : 0) === 1, {
+  message: 'Exactly one of orderId or tradeId is required',
+});
+
+export const listShipmentsQuerySchema = z.object({
+  orderId: uuidSchema.optional(),
+  tradeId: uuidSchema.optional(),
+  status:  z.enum(['PENDING', 'DISPATCHED', 'DELIVERED', 'CANCELLED']).optional(),
+  limit:   z.coerce.number().int().min(1).max(100).default(50),
+  offset:  z.coerce.number().int().min(0).default(0),
+});
+
+export const dispatchBodySchema = z.object({
+  trackingNumber: z.string().trim().min(1).max(100).optional(),
+  dispatchedAt:   z.string().datetime().optional(),
+}).strict();
+
+export const deliverBodySchema = z.object({
+  deliveredAt: z.string().datetime().optional(),
+}).strict();
+
+export const cancelBodySchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+}).strict();
+
+export const uploadDocumentQuerySchema = z.object({
+  kind: z.enum(SHIPMENT_DOCUMENT_KINDS),
+});
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const tenantShipmentRoutes: FastifyPluginAsync = async fastify => {
+
+  // ─── GET /api/tenant/shipments ───────────────────────────────────────────
+  fastify.get(
+    '/',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const queryResult = listShipmentsQuerySchema.safeParse(request.query);
+      if (!queryResult.success) {
+        return sendValidationError(reply, queryResult.error.errors);
+      }
+      const { orderId, tradeId, status, limit, offset } = queryResult.data;
+
+      const shipments = await withDbContext(prisma, dbContext, async tx => {
+        return tx.shipment.findMany({
+          where:   { orderId, tradeId, status },
+          orderBy: [{ createdAt: 'desc' }],
+          take:    limit,
+          skip:    offset,
+          include: { lines: { orderBy: { createdAt: 'asc' } } },
+        });
+      });
+
+      return sendSuccess(reply, { shipments, count: shipments.length });
+    },
+  );
+
+  // ─── POST /api/tenant/shipments ──────────────────────────────────────────
+  fastify.post(
+    '/',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonShipmentWriter(request, reply)) return;
+
+      const bodyResult = createShipmentBodySchema.safeParse(request.body);
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+      const body = bodyResult.data;
+
+      try {
+        const shipment = await withDbContext(prisma, dbContext, async tx => {
+          const created = await createShipment(tx, {
+            tenantId:        dbContext.orgId,
+            orderId:         body.orderId ?? null,
+            tradeId:         body.tradeId ?? null,
+            carrier:         body.carrier,
+            trackingNumber:  body.trackingNumber ?? null,
+            notes:           body.notes ?? null,
+            lines:           body.lines,
+            createdByUserId: dbContext.actorId,
+          });
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      dbContext.actorId,
+            action:       'shipment.CREATED',
+            entity:       'shipment',
+            entityId:     created.id,
+            metadataJson: {
+              orderId:        created.orderId,
+              tradeId:        created.tradeId,
+              carrier:        created.carrier,
+              trackingNumber: created.trackingNumber,
+              lineCount:      created.lines.length,
+            },
+          });
+          return created;
+        });
+        return sendSuccess(reply, { shipment }, 201);
+      } catch (err) {
+        return sendShipmentError(reply, err);
+      }
+    },
+  );
+
+  // ─── GET /api/tenant/shipments/:id ───────────────────────────────────────
+  fastify.get(
+    '/:id',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      const shipment = await withDbContext(prisma, dbContext, async tx => {
+        return loadShipment(tx, paramsResult.data.id);
+      });
+
+      if (!shipment) return sendNotFound(reply, 'Shipment not found');
+      return sendSuccess(reply, { shipment });
+    },
+  );
+
+  // ─── POST /api/tenant/shipments/:id/dispatch ─────────────────────────────
+  fastify.post(
+    '/:id/dispatch',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonShipmentWriter(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const bodyResult = dispatchBodySchema.safeParse(request.body ?? {});
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+      const { id } = paramsResult.data;
+      const body = bodyResult.data;
+
+      try {
+        const result = await withDbContext(prisma, dbContext, async tx => {
+          const dispatched = await dispatchShipment(tx, {
+            tenantId:       dbContext.orgId,
+            shipmentId:     id,
+            trackingNumber: body.trackingNumber ?? null,
+            dispatchedAt:   body.dispatchedAt ? new Date(body.dispatchedAt) : undefined,
+          });
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      dbContext.actorId,
+            action:       'shipment.DISPATCHED',
+            entity:       'shipment',
+            entityId:     id,
+            metadataJson: {
+              carrier:        dispatched.shipment.carrier,
+              trackingNumber: dispatched.shipment.trackingNumber,
+              dispatchedAt:   dispatched.shipment.dispatchedAt?.toISOString() ?? null,
+              evidenceCount:  dispatched.evidenceCount,
+            },
+          });
+          return dispatched;
+        });
+        return sendSuccess(reply, result);
+      } catch (err) {
+        return sendShipmentError(reply, err);
+      }
+    },
+  );
+
+  // ─── POST /api/tenant/shipments/:id/deliver ──────────────────────────────
+  fastify.post(
+    '/:id/deliver',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonShipmentWriter(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const bodyResult = deliverBodySchema.safeParse(request.body ?? {});
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+      const { id } = paramsResult.data;
+      const body = bodyResult.data;
+
+      try {
+        const result = await withDbContext(prisma, dbContext, async tx => {
+          const delivered = await deliverShipment(tx, {
+            tenantId:    dbContext.orgId,
+            shipmentId:  id,
+            deliveredAt: body.deliveredAt ? new Date(body.deliveredAt) : undefined,
+            actorUserId: dbContext.actorId,
+          });
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      dbContext.actorId,
+            action:       'shipment.DELIVERED',
+            entity:       'shipment',
+            entityId:     id,
+            metadataJson: {
+              orderId:     delivered.shipment.orderId,
+              tradeId:     delivered.shipment.tradeId,
+              deliveredAt: delivered.shipment.deliveredAt?.toISOString() ?? null,
+              fulfilment:  delivered.fulfilment?.status ?? null,
+            },
+          });
+          return delivered;
+        });
+        return sendSuccess(reply, result);
+      } catch (err) {
+        return sendShipmentError(reply, err);
+      }
+    },
+  );
+
+  // ─── POST /api/tenant/shipments/:id/cancel ───────────────────────────────
+  fastify.post(
+    '/:id/cancel',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonShipmentWriter(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const bodyResult = cancelBodySchema.safeParse(request.body ?? {});
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+      const { id } = paramsResult.data;
+
+      try {
+        const shipment = await withDbContext(prisma, dbContext, async tx => {
+          const cancelled = await cancelShipment(tx, id);
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      dbContext.actorId,
+            action:       'shipment.CANCELLED',
+            entity:       'shipment',
+            entityId:     id,
+            metadataJson: { reason: bodyResult.data.reason ?? null },
+          });
+          return cancelled;
+        });
+        return sendSuccess(reply, { shipment });
+      } catch (err) {
+        return sendShipmentError(reply, err);
+      }
+    },
+  );
+
+  // ─── POST /api/tenant/shipments/:id/documents ────────────────────────────
+  /**
+   * Upload a dispatch proof (AWB copy, bill of lading) or proof of delivery.
+   * The shipment is checked before the upload so nothing lands in storage for
+   * a shipment the tenant cannot see or that no longer accepts documents.
+   */
+  fastify.post(
+    '/:id/documents',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonShipmentWriter(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const queryResult = uploadDocumentQuerySchema.safeParse(request.query);
+      if (!queryResult.success) {
+        return sendValidationError(reply, queryResult.error.errors);
+      }
+      const { id } = paramsResult.data;
+      const { kind } = queryResult.data;
+
+      const shipment = await withDbContext(prisma, dbContext, async tx => loadShipment(tx, id));
+      if (!shipment) return sendNotFound(reply, 'Shipment not found');
+      if (!isDocumentKindAllowed(shipment.status, kind)) {
+        return sendError(
+          reply,
+          'SHIPMENT_DOCUMENT_NOT_ALLOWED',
+          `A ${shipment.status} shipment does not accept ${kind} documents`,
+          409,
+        );
+      }
+
+      try {
+        const file = await request.file();
+        if (!file) {
+          return sendError(reply, 'FILE_REQUIRED', 'A shipment document file is required.', 400);
+        }
+
+        const fileBuffer = await file.toBuffer();
+        if ((file.file as NodeJS.ReadableStream & { truncated?: boolean }).truncated) {
+          return sendError(reply, 'FILE_TOO_LARGE', 'File exceeds 5 MB upload limit.', 400);
+        }
+
+        const uploadResult = await uploadShipmentDocumentToStorage({
+          orgId:            dbContext.orgId,
+          shipmentId:       id,
+          fileBuffer,
+          declaredMimeType: file.mimetype,
+          originalFilename: file.filename,
+        });
+
+        const recorded = await withDbContext(prisma, dbContext, async tx => {
+          const result = await recordShipmentDocument(tx, {
+            tenantId:         dbContext.orgId,
+            shipment,
+            kind,
+            storagePath:      uploadResult.storagePath,
+            originalName:     uploadResult.originalName,
+            mimeType:         uploadResult.mimeType,
+            sizeBytes:        uploadResult.sizeBytes,
+            uploadedByUserId: dbContext.actorId,
+          });
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      dbContext.actorId,
+            action:       'shipment.DOCUMENT_UPLOADED',
+            entity:       'shipment',
+            entityId:     id,
+            metadataJson: {
+              documentId:    result.documentId,
+              kind,
+              originalName:  uploadResult.originalName,
+              mimeType:      uploadResult.mimeType,
+              sizeBytes:     uploadResult.sizeBytes,
+              evidenceCount: result.evidenceCount,
+            },
+          });
+          return result;
+        });
+
+        return sendSuccess(reply, {
+          shipmentId:    id,
+          documentId:    recorded.documentId,
+          kind,
+          originalName:  uploadResult.originalName,
+          mimeType:      uploadResult.mimeType,
+          sizeBytes:     uploadResult.sizeBytes,
+          evidenceCount: recorded.evidenceCount,
+        }, 201);
+      } catch (err) {
+        if (err instanceof ShipmentDocumentStorageError || err instanceof ShipmentError) {
+          return sendShipmentError(reply, err);
+        }
+
+        const message = err instanceof Error ? err.message : '';
+        if (message.toLowerCase().includes('file too large')) {
+          return sendError(reply, 'FILE_TOO_LARGE', 'File exceeds 5 MB upload limit.', 400);
+        }
+        return sendError(reply, 'UPLOAD_FAILED', 'Shipment document upload failed.', 500);
+      }
+    },
+  );
+
+  // ─── GET /api/tenant/shipments/:id/documents/:documentId ─────────────────
+  fastify.get(
+    '/:id/documents/:documentId',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const paramsResult = documentParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const { id, documentId } = paramsResult.data;
+
+      const document = await withDbContext(prisma, dbContext, async tx => {
+        return tx.shipmentDocument.findFirst({ where: { id: documentId, shipmentId: id } });
+      });
+      if (!document) return sendNotFound(reply, 'Shipment document not found');
+
+      try {
+        const { signedUrl } = await createShipmentDocumentSignedUrl(document.storagePath);
+        return sendSuccess(reply, {
+          shipmentId:   id,
+          documentId:   document.id,
+          kind:         document.kind,
+          signedUrl,
+          originalName: document.originalName,
+          mimeType:     document.mimeType,
+          sizeBytes:    document.sizeBytes,
+          createdAt:    document.createdAt,
+        });
+      } catch (err) {
+        return sendShipmentError(reply, err);
+      }
+    },
+  );
+};
+
+export default tenantShipmentRoutes;
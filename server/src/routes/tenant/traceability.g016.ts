@@ -9,6 +9,10 @@
  *   POST  /api/tenant/traceability/edges              — create edge
  *   GET   /api/tenant/traceability/edges              — list edges (paginated)
  *   GET   /api/tenant/traceability/nodes/:id/neighbors — 1-hop neighbors (tenant-scoped)
+ *   GET   /api/tenant/traceability/nodes/:id/lineage   — multi-hop upstream/downstream lineage
+ *   GET   /api/tenant/traceability/nodes/:id/mass-balance — quantity in vs out across the lineage
+ *
+ * Edge creation rejects self-loops and cycles with 409 CYCLE_DETECTED.
  *
  * Constitutional compliance:
  *   D-017-A  orgId ALWAYS derived from JWT/dbContext — NEVER from request body
@@ -23,7 +27,10 @@ import { databaseContextMiddleware } from '../../middleware/database-context.mid
 import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
 import { withDbContext } from '../../lib/database-context.js';
 import { prisma } from '../../db/prisma.js';
-import { TraceabilityService } from '../../services/traceability.g016.service.js';
+import {
+  LINEAGE_MAX_DEPTH,
+  TraceabilityService,
+} from '../../services/traceability.g016.service.js';
 
 // ─── Utilities ────────────────────────────────────────────────────────────────
 
@@ -56,7 +63,7 @@ function makeTxBoundPrisma(tx: Prisma.TransactionClient): PrismaClient {
 
 // ─── Zod Schemas ─────────────────────────────────────────────────────────────
 
-const createNodeBodySchema = z.object({
+export const createNodeBodySchema = z.object({
   batchId:    z.string().min(1).max(500).trim(),
   nodeType:   z.string().min(1).max(100).trim(),
   meta:       z.record(z.unknown()).optional().default({}),
@@ -66,23 +73,28 @@ const createNodeBodySchema = z.object({
   orgId:      z.never({ message: 'orgId must not be set in request body' }).optional(),
 });
 
-const createEdgeBodySchema = z.object({
+export const createEdgeBodySchema = z.object({
   fromNodeId:       uuidSchema,
   toNodeId:         uuidSchema,
   edgeType:         z.string().min(1).max(100).trim(),
   transformationId: z.string().max(500).trim().optional().nullable(),
+  quantity:         z.number().positive().max(1e14).optional().nullable(),
+  quantityUnit:     z.string().min(1).max(20).trim().optional().nullable(),
   meta:             z.record(z.unknown()).optional().default({}),
   // D-017-A: orgId MUST NOT be in the body
   orgId:            z.never({ message: 'orgId must not be set in request body' }).optional(),
+}).refine(b => (b.quantity == null) === (b.quantityUnit == null), {
+  message: 'quantity and quantityUnit must be provided together',
+  path: ['quantityUnit'],
 });
 
-const listNodesQuerySchema = z.object({
+export const listNodesQuerySchema = z.object({
   nodeType: z.string().max(100).trim().optional(),
   limit:    z.coerce.number().int().min(1).max(200).optional().default(50),
   offset:   z.coerce.number().int().min(0).optional().default(0),
 });
 
-const listEdgesQuerySchema = z.object({
+export const listEdgesQuerySchema = z.object({
   edgeType:   z.string().max(100).trim().optional(),
   fromNodeId: uuidSchema.optional(),
   toNodeId:   uuidSchema.optional(),
@@ -90,7 +102,22 @@ const listEdgesQuerySchema = z.object({
   offset:     z.coerce.number().int().min(0).optional().default(0),
 });
 
-const nodeIdParamSchema = z.object({ id: uuidSchema });
+export const nodeIdParamSchema = z.object({ id: uuidSchema });
+
+export const lineageQuerySchema = z.object({
+  direction: z.enum(['UPSTREAM', 'DOWNSTREAM', 'BOTH']).optional().default('BOTH'),
+  depth:     z.coerce.number().int().min(1).max(LINEAGE_MAX_DEPTH).optional().default(5),
+  // Comma-separated list, e.g. ?edgeTypes=TRANSFORMATION,SHIPMENT
+  edgeTypes: z
+    .string()
+    .max(500)
+    .optional()
+    .transform(v => (v ? v.split(',').map(t => t.trim()).filter(t => t.length > 0) : [])),
+});
+
+export const massBalanceQuerySchema = lineageQuerySchema.extend({
+  tolerancePercent: z.coerce.number().min(0).max(100).optional(),
+});
 
 // ─── Plugin ───────────────────────────────────────────────────────────────────
 
@@ -205,6 +232,102 @@ const tenantTraceabilityRoutes: FastifyPluginAsync = async fastify => {
     },
   );
 
+  // ─── GET /api/tenant/traceability/nodes/:id/lineage ──────────────────────
+  fastify.get(
+    '/nodes/:id/lineage',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const paramResult = nodeIdParamSchema.safeParse(request.params);
+      if (!paramResult.success) {
+        return sendValidationError(reply, paramResult.error.errors);
+      }
+      const queryResult = lineageQuerySchema.safeParse(request.query);
+      if (!queryResult.success) {
+        return sendValidationError(reply, queryResult.error.errors);
+      }
+      const query = queryResult.data;
+
+      return withDbContext(prisma, dbContext, async tx => {
+        const svc = new TraceabilityService(makeTxBoundPrisma(tx));
+        const result = await svc.getLineage({
+          orgId:     dbContext.orgId,
+          nodeId:    paramResult.data.id,
+          direction: query.direction,
+          maxDepth:  query.depth,
+          edgeTypes: query.edgeTypes,
+        });
+
+        if (result.status !== 'OK') {
+          const httpCode = result.code === 'NOT_FOUND' ? 404 : 500;
+          return sendError(reply, result.code, result.message, httpCode);
+        }
+
+        return sendSuccess(reply, {
+          rootId:    result.rootId,
+          direction: query.direction,
+          depth:     query.depth,
+          nodes:     result.nodes,
+          edges:     result.edges,
+          truncated: result.truncated,
+        });
+      });
+    },
+  );
+
+  // ─── GET /api/tenant/traceability/nodes/:id/mass-balance ─────────────────
+  fastify.get(
+    '/nodes/:id/mass-balance',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+
+      const paramResult = nodeIdParamSchema.safeParse(request.params);
+      if (!paramResult.success) {
+        return sendValidationError(reply, paramResult.error.errors);
+      }
+      const queryResult = massBalanceQuerySchema.safeParse(request.query);
+      if (!queryResult.success) {
+        return sendValidationError(reply, queryResult.error.errors);
+      }
+      const query = queryResult.data;
+
+      return withDbContext(prisma, dbContext, async tx => {
+        const svc = new TraceabilityService(makeTxBoundPrisma(tx));
+        const result = await svc.checkMassBalance({
+          orgId:            dbContext.orgId,
+          nodeId:           paramResult.data.id,
+          direction:        query.direction,
+          maxDepth:         query.depth,
+          edgeTypes:        query.edgeTypes,
+          tolerancePercent: query.tolerancePercent,
+        });
+
+        if (result.status !== 'OK') {
+          const httpCode =
+            result.code === 'NOT_FOUND' ? 404 :
+            result.code === 'INVALID_INPUT' ? 400 : 500;
+          return sendError(reply, result.code, result.message, httpCode);
+        }
+
+        return sendSuccess(reply, {
+          rootId:           result.rootId,
+          tolerancePercent: result.tolerancePercent,
+          entries:          result.entries,
+          violations:       result.violations,
+          truncated:        result.truncated,
+        });
+      });
+    },
+  );
+
   // ─── POST /api/tenant/traceability/edges ─────────────────────────────────
   fastify.post(
     '/edges',
@@ -229,12 +352,14 @@ const tenantTraceabilityRoutes: FastifyPluginAsync = async fastify => {
           toNodeId:         body.toNodeId,
           edgeType:         body.edgeType,
           transformationId: body.transformationId ?? null,
+          quantity:         body.quantity ?? null,
+          quantityUnit:     body.quantityUnit ?? null,
           meta:             body.meta as Record<string, unknown>,
         });
 
         if (result.status !== 'CREATED') {
           const httpCode =
-            result.code === 'CONFLICT' ? 409 :
+            result.code === 'CONFLICT' || result.code === 'CYCLE_DETECTED' ? 409 :
             result.code === 'NOT_FOUND' ? 404 :
             result.code === 'INVALID_INPUT' ? 400 : 500;
           return sendError(reply, result.code, result.message, httpCode);
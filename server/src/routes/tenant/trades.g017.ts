@@ -36,6 +36,8 @@ import { EscalationService } from '../../services/escalation.service.js';
 import { StateMachineService } from '../../services/stateMachine.service.js';
 import { MakerCheckerService } from '../../services/makerChecker.service.js';
 import { SanctionsService, SanctionBlockError } from '../../services/sanctions.service.js';
+import { FxRateService } from '../../services/fx/fxRate.service.js';
+import { config } from '../../config/index.js';
 import {
   createTradeCreatedAudit,
   createTradeTransitionAppliedAudit,
@@ -73,7 +75,8 @@ function buildTradeService(tx: Prisma.TransactionClient): TradeService {
   const sanctionsSvc = new SanctionsService(txBound);
   const smSvc = new StateMachineService(txBound, escalationSvc, sanctionsSvc);
 
-  return new TradeService(txBound, smSvc, escalationSvc, undefined, sanctionsSvc);
+  const fxSvc = new FxRateService(txBound, config.FX_REPORTING_CURRENCY);
+  return new TradeService(txBound, smSvc, escalationSvc, undefined, sanctionsSvc, fxSvc);
 }
 
 const routeSanctionsService = new SanctionsService(prisma);
@@ -98,7 +101,7 @@ function getTradeCreateErrorStatusCode(code: string): number {
 
 // ─── Zod schemas ──────────────────────────────────────────────────────────────
 
-const createTradeBodySchema = z.object({
+export const createTradeBodySchema = z.object({
   buyerOrgId:      uuidSchema,
   sellerOrgId:     uuidSchema,
   tradeReference:  z.string().min(1).max(200).trim(),
@@ -111,11 +114,13 @@ const createTradeBodySchema = z.object({
   tenantId:        z.never({ message: 'tenantId must not be set in request body' }).optional(),
 });
 
-const createTradeFromRfqBodySchema = z.object({
+// TECS-RFQ-QUOTE-001: currency/grossAmount are derived from the accepted RFQ quote when one
+// exists; they remain accepted here for RFQs without a quote thread and are cross-checked otherwise.
+export const createTradeFromRfqBodySchema = z.object({
   rfqId:           uuidSchema,
   tradeReference:  z.string().min(1).max(200).trim(),
-  currency:        z.string().length(3, 'Currency must be an ISO 4217 3-letter code').toUpperCase(),
-  grossAmount:     z.number().positive('grossAmount must be > 0'),
+  currency:        z.string().length(3, 'Currency must be an ISO 4217 3-letter code').toUpperCase().optional(),
+  grossAmount:     z.number().positive('grossAmount must be > 0').optional(),
   reason:          z.string().min(1).max(2000).trim(),
   reasoningLogId:  uuidSchema.optional().nullable(),
   createdByUserId: uuidSchema.optional().nullable(),
@@ -124,7 +129,7 @@ const createTradeFromRfqBodySchema = z.object({
   tenantId:        z.never({ message: 'tenantId must not be set in request body' }).optional(),
 }).strict();
 
-const createTradeEscrowBodySchema = z.object({
+export const createTradeEscrowBodySchema = z.object({
   reason:          z.string().min(1).max(2000).trim(),
   createdByUserId: uuidSchema.optional().nullable(),
   tenantId:        z.never({ message: 'tenantId must not be set in request body' }).optional(),
@@ -132,7 +137,7 @@ const createTradeEscrowBodySchema = z.object({
   tradeId:         z.never({ message: 'tradeId is derived from the route path and must not be set in request body' }).optional(),
 }).strict();
 
-const transitionTradeBodySchema = z.object({
+export const transitionTradeBodySchema = z.object({
   toStateKey:  z.string().min(1).max(100).trim().toUpperCase(),
   reason:      z.string().min(1).max(2000).trim(),
   actorRole:   z.string().min(1).max(100).trim(),
@@ -141,9 +146,9 @@ const transitionTradeBodySchema = z.object({
   tenantId:    z.never({ message: 'tenantId must not be set in request body' }).optional(),
 });
 
-const tradeIdParamSchema = z.object({ id: uuidSchema });
+export const tradeIdParamSchema = z.object({ id: uuidSchema });
 
-const listQuerySchema = z.object({
+export const listQuerySchema = z.object({
   status: z.enum(['DRAFT', 'ACTIVE', 'SETTLED', 'DISPUTED', 'CANCELLED']).optional(),
   limit:  z.coerce.number().int().min(1).max(200).optional().default(50),
   offset: z.coerce.number().int().min(0).optional().default(0),
@@ -375,8 +380,9 @@ const tenantTradesRoutes: FastifyPluginAsync = async fastify => {
             tradeId: result.tradeId,
             tradeReference: result.tradeReference,
             rfqId: result.rfqId,
-            grossAmount: body.grossAmount,
-            currency: body.currency,
+            grossAmount: result.grossAmount,
+            currency: result.currency,
+            acceptedQuoteId: result.acceptedQuoteId,
             reason: body.reason,
           },
         });
@@ -385,6 +391,9 @@ const tenantTradesRoutes: FastifyPluginAsync = async fastify => {
           tradeId: result.tradeId,
           tradeReference: result.tradeReference,
           rfqId: result.rfqId,
+          currency: result.currency,
+          grossAmount: result.grossAmount,
+          acceptedQuoteId: result.acceptedQuoteId,
         }, 201);
       } catch (err) {
         fastify.log.error({ err }, '[G-017] POST /tenant/trades/from-rfq error');
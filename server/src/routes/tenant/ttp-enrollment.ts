@@ -61,10 +61,10 @@ function makeTxBoundPrisma(tx: Prisma.TransactionClient): PrismaClient {
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
-const tradeIdParamSchema = z.object({ tradeId: uuidSchema });
+export const tradeIdParamSchema = z.object({ tradeId: uuidSchema });
 
 // D-017-A: org_id is NEVER accepted from request body — use z.never() to block it
-const requestEnrollmentBodySchema = z.object({
+export const requestEnrollmentBodySchema = z.object({
   reason: z.string().max(500).optional(),
   // org_id explicitly blocked at schema level (D-017-A)
   org_id: z.never({ message: 'org_id must not be provided in request body' }).optional(),
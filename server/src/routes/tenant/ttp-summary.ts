@@ -55,7 +55,7 @@ function makeTxBoundPrisma(tx: Prisma.TransactionClient): PrismaClient {
 // ─── Schemas ──────────────────────────────────────────────────────────────────
 
 const uuidSchema = z.string().uuid('Must be a valid UUID');
-const tradeIdParamSchema = z.object({ tradeId: uuidSchema });
+export const tradeIdParamSchema = z.object({ tradeId: uuidSchema });
 
 // ─── Plugin ───────────────────────────────────────────────────────────────────
 
@@ -0,0 +1,387 @@
+/**
+ * TENANT-WEBHOOKS-001 — Tenant Outbound Webhook Routes
+ *
+ * Fastify plugin — registered at /api/tenant/webhooks
+ *
+ * Routes:
+ *   GET    /api/tenant/webhooks                            — subscriptions (secret hint only)
+ *   POST   /api/tenant/webhooks                            — create; returns the signing secret once
+ *   PATCH  /api/tenant/webhooks/:id                        — update url / description / event types / enabled
+ *   DELETE /api/tenant/webhooks/:id                        — delete subscription and its delivery log
+ *   POST   /api/tenant/webhooks/:id/rotate-secret          — new secret (returned once); old one co-signs for 24h
+ *   POST   /api/tenant/webhooks/:id/test                   — queue a signed webhook.test.v1 delivery
+ *   GET    /api/tenant/webhooks/deliveries                 — delivery log (status, attempts, last HTTP status)
+ *   POST   /api/tenant/webhooks/deliveries/:id/redeliver   — re-queue a DEAD_LETTER / DELIVERED delivery
+ *   GET    /api/tenant/webhooks/event-types                — subscribable domain event types
+ *
+ * D-017-A: tenantId is ALWAYS sourced from request.dbContext.orgId — never from the body.
+ * Webhooks are OWNER / ADMIN only. Writes run in withDbContext so the 'webhook.deliver'
+ * jobs they enqueue satisfy background_jobs RLS.
+ */
+
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { tenantAuthMiddleware } from '../../middleware/auth.js';
+import { databaseContextMiddleware } from '../../middleware/database-context.middleware.js';
+import { sendSuccess, sendError, sendValidationError } from '../../utils/response.js';
+import { withDbContext } from '../../lib/database-context.js';
+import { prisma } from '../../db/prisma.js';
+import { writeAuditLog } from '../../lib/auditLog.js';
+import {
+  WebhookDeliveryNotFoundError,
+  WebhookDeliveryStateError,
+  WebhookSubscriptionDisabledError,
+  WebhookSubscriptionLimitError,
+  WebhookSubscriptionNotFoundError,
+  WebhookUrlInvalidError,
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  redeliverWebhookDelivery,
+  rotateWebhookSecret,
+  sendWebhookTestEvent,
+  updateWebhookSubscription,
+} from '../../services/webhooks/webhook.service.js';
+import { WEBHOOK_EVENT_TYPES } from '../../services/webhooks/webhook.types.js';
+
+// ─── Utilities ────────────────────────────────────────────────────────────────
+
+const WEBHOOK_ADMIN_ROLES = ['OWNER', 'ADMIN'];
+
+function rejectNonWebhookAdmin(request: FastifyRequest, reply: FastifyReply): boolean {
+  if (WEBHOOK_ADMIN_ROLES.includes(request.userRole ?? '')) return false;
+  sendError(reply, 'FORBIDDEN', 'Only OWNER or ADMIN can manage webhooks', 403);
+  return true;
+}
+
+function sendWebhookError(reply: FastifyReply, err: unknown) {
+  if (err instanceof WebhookSubscriptionNotFoundError || err instanceof WebhookDeliveryNotFoundError) {
+    return sendError(reply, 'NOT_FOUND', err.message, 404);
+  }
+  if (err instanceof WebhookUrlInvalidError) {
+    return sendError(reply, 'WEBHOOK_URL_INVALID', err.message, 422);
+  }
+  if (err instanceof WebhookSubscriptionLimitError) {
+    return sendError(reply, 'WEBHOOK_SUBSCRIPTION_LIMIT', err.message, 409);
+  }
+  if (err instanceof WebhookSubscriptionDisabledError) {
+    return sendError(reply, 'WEBHOOK_SUBSCRIPTION_DISABLED', err.message, 409);
+  }
+  if (err instanceof WebhookDeliveryStateError) {
+    return sendError(reply, 'WEBHOOK_DELIVERY_PENDING', err.message, 409);
+  }
+  throw err;
+}
+
+// ─── Zod Schemas ─────────────────────────────────────────────────────────────
+
+export const idParamSchema = z.object({ id: z.string().uuid('Must be a valid UUID') });
+
+const eventTypesSchema = z.array(z.enum(WEBHOOK_EVENT_TYPES)).max(WEBHOOK_EVENT_TYPES.length);
+
+export const createBodySchema = z.object({
+  url:         z.string().trim().min(1).max(2048),
+  description: z.string().trim().max(200).nullable().optional(),
+  /** Empty array = every event type. */
+  eventTypes:  eventTypesSchema,
+  enabled:     z.boolean().optional(),
+}).strict();
+
+export const updateBodySchema = z.object({
+  url:         z.string().trim().min(1).max(2048).optional(),
+  description: z.string().trim().max(200).nullable().optional(),
+  eventTypes:  eventTypesSchema.optional(),
+  enabled:     z.boolean().optional(),
+}).strict().refine(body => Object.keys(body).length > 0, { message: 'At least one field is required' });
+
+export const deliveriesQuerySchema = z.object({
+  subscriptionId: z.string().uuid().optional(),
+  status:         z.enum(['PENDING', 'DELIVERED', 'DEAD_LETTER']).optional(),
+  limit:          z.coerce.number().int().min(1).max(100).default(25),
+  cursor:         z.string().uuid().optional(),
+});
+
+// ─── Plugin ───────────────────────────────────────────────────────────────────
+
+const tenantWebhookRoutes: FastifyPluginAsync = async fastify => {
+
+  // ─── GET /api/tenant/webhooks/event-types ─────────────────────────────────
+  fastify.get(
+    '/event-types',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (_request, reply) => {
+      return sendSuccess(reply, { eventTypes: WEBHOOK_EVENT_TYPES });
+    }
+  );
+
+  // ─── GET /api/tenant/webhooks ─────────────────────────────────────────────
+  fastify.get(
+    '/',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonWebhookAdmin(request, reply)) return;
+
+      const subscriptions = await withDbContext(prisma, dbContext, tx =>
+        listWebhookSubscriptions(tx, dbContext.orgId)
+      );
+      return sendSuccess(reply, { subscriptions });
+    }
+  );
+
+  // ─── POST /api/tenant/webhooks ────────────────────────────────────────────
+  fastify.post(
+    '/',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonWebhookAdmin(request, reply)) return;
+
+      const bodyResult = createBodySchema.safeParse(request.body);
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+
+      try {
+        const created = await withDbContext(prisma, dbContext, async tx => {
+          const result = await createWebhookSubscription(
+            tx, dbContext.orgId, request.userId ?? null, bodyResult.data
+          );
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      request.userId ?? null,
+            action:       'webhook.subscription.created',
+            entity:       'webhook_subscription',
+            entityId:     result.subscription.id,
+            metadataJson: {
+              url:        result.subscription.url,
+              eventTypes: result.subscription.eventTypes,
+              enabled:    result.subscription.enabled,
+            },
+          });
+          return result;
+        });
+        return sendSuccess(reply, created, 201);
+      } catch (err) {
+        return sendWebhookError(reply, err);
+      }
+    }
+  );
+
+  // ─── GET /api/tenant/webhooks/deliveries ──────────────────────────────────
+  fastify.get(
+    '/deliveries',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonWebhookAdmin(request, reply)) return;
+
+      const queryResult = deliveriesQuerySchema.safeParse(request.query);
+      if (!queryResult.success) {
+        return sendValidationError(reply, queryResult.error.errors);
+      }
+
+      const page = await withDbContext(prisma, dbContext, tx =>
+        listWebhookDeliveries(tx, dbContext.orgId, queryResult.data)
+      );
+      return sendSuccess(reply, page);
+    }
+  );
+
+  // ─── POST /api/tenant/webhooks/deliveries/:id/redeliver ───────────────────
+  fastify.post(
+    '/deliveries/:id/redeliver',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonWebhookAdmin(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      try {
+        const delivery = await withDbContext(prisma, dbContext, async tx => {
+          const result = await redeliverWebhookDelivery(tx, dbContext.orgId, paramsResult.data.id);
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      request.userId ?? null,
+            action:       'webhook.delivery.redelivered',
+            entity:       'webhook_delivery',
+            entityId:     result.id,
+            metadataJson: { subscriptionId: result.subscriptionId, eventType: result.eventType },
+          });
+          return result;
+        });
+        return sendSuccess(reply, { delivery });
+      } catch (err) {
+        return sendWebhookError(reply, err);
+      }
+    }
+  );
+
+  // ─── PATCH /api/tenant/webhooks/:id ───────────────────────────────────────
+  fastify.patch(
+    '/:id',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonWebhookAdmin(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+      const bodyResult = updateBodySchema.safeParse(request.body);
+      if (!bodyResult.success) {
+        return sendValidationError(reply, bodyResult.error.errors);
+      }
+
+      try {
+        const subscription = await withDbContext(prisma, dbContext, async tx => {
+          const result = await updateWebhookSubscription(
+            tx, dbContext.orgId, paramsResult.data.id, bodyResult.data
+          );
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      request.userId ?? null,
+            action:       'webhook.subscription.updated',
+            entity:       'webhook_subscription',
+            entityId:     result.id,
+            metadataJson: { changedFields: Object.keys(bodyResult.data) },
+          });
+          return result;
+        });
+        return sendSuccess(reply, { subscription });
+      } catch (err) {
+        return sendWebhookError(reply, err);
+      }
+    }
+  );
+
+  // ─── DELETE /api/tenant/webhooks/:id ──────────────────────────────────────
+  fastify.delete(
+    '/:id',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonWebhookAdmin(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      try {
+        await withDbContext(prisma, dbContext, async tx => {
+          await deleteWebhookSubscription(tx, dbContext.orgId, paramsResult.data.id);
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      request.userId ?? null,
+            action:       'webhook.subscription.deleted',
+            entity:       'webhook_subscription',
+            entityId:     paramsResult.data.id,
+          });
+        });
+        return sendSuccess(reply, { deleted: true });
+      } catch (err) {
+        return sendWebhookError(reply, err);
+      }
+    }
+  );
+
+  // ─── POST /api/tenant/webhooks/:id/rotate-secret ──────────────────────────
+  fastify.post(
+    '/:id/rotate-secret',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonWebhookAdmin(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      try {
+        const rotated = await withDbContext(prisma, dbContext, async tx => {
+          const result = await rotateWebhookSecret(tx, dbContext.orgId, paramsResult.data.id);
+          await writeAuditLog(tx, {
+            realm:        'TENANT',
+            tenantId:     dbContext.orgId,
+            actorType:    'USER',
+            actorId:      request.userId ?? null,
+            action:       'webhook.subscription.secret_rotated',
+            entity:       'webhook_subscription',
+            entityId:     result.subscription.id,
+            metadataJson: { previousSecretExpiresAt: result.subscription.previousSecretExpiresAt?.toISOString() ?? null },
+          });
+          return result;
+        });
+        return sendSuccess(reply, rotated);
+      } catch (err) {
+        return sendWebhookError(reply, err);
+      }
+    }
+  );
+
+  // ─── POST /api/tenant/webhooks/:id/test ───────────────────────────────────
+  fastify.post(
+    '/:id/test',
+    { onRequest: [tenantAuthMiddleware, databaseContextMiddleware] },
+    async (request, reply) => {
+      const dbContext = request.dbContext;
+      if (!dbContext) {
+        return sendError(reply, 'UNAUTHORIZED', 'Database context missing', 401);
+      }
+      if (rejectNonWebhookAdmin(request, reply)) return;
+
+      const paramsResult = idParamSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return sendValidationError(reply, paramsResult.error.errors);
+      }
+
+      try {
+        const delivery = await withDbContext(prisma, dbContext, tx =>
+          sendWebhookTestEvent(tx, dbContext.orgId, paramsResult.data.id)
+        );
+        return sendSuccess(reply, { delivery }, 202);
+      } catch (err) {
+        return sendWebhookError(reply, err);
+      }
+    }
+  );
+};
+
+export default tenantWebhookRoutes;
@@ -0,0 +1,401 @@
+/**
+ * aiProviders.test.ts — AI-PROVIDER-001 provider layer
+ *
+ * Covers:
+ * - FixtureProvider: deterministic text, fixture matching, unit-length 768-dim embeddings
+ * - OpenAiCompatibleProvider: request shape, usage parsing, error surfaces
+ * - GeminiProvider: SDK wrapping and token fallback
+ * - AiProviderRegistry: tenant → task override → default resolution
+ * - estimateCostUSD per provider/model
+ * - loadTenantAiProviderChoice: task row over '*' row
+ * - generateEmbedding through the configured embedding provider
+ * - Passport assistant deterministic fallback without a configured provider
+ *
+ * Run:
+ *   pnpm --dir server exec vitest run src/services/ai/__tests__/aiProviders.test.ts
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GoogleGenerativeAI } from '@google/generative-ai';
+import type { PrismaClient } from '@prisma/client';
+import { FixtureProvider } from '../providers/fixtureProvider.js';
+import { GeminiProvider } from '../providers/geminiProvider.js';
+import { OpenAiCompatibleProvider } from '../providers/openAiCompatibleProvider.js';
+import { AiProviderRegistry, parseAiProviderTaskOverrides } from '../providers/registry.js';
+import { loadTenantAiProviderChoice } from '../providers/tenantProviderSettings.js';
+import { _overrideAiProviderRegistryForTests } from '../providers/aiProviderFactory.js';
+import { AiProviderError, type AiProvider, type AiProviderId } from '../providers/types.js';
+import { estimateCostUSD, parseModelPricing } from '../../../lib/aiBudget.js';
+import { generateEmbedding } from '../../vectorEmbeddingClient.js';
+import { runPassportAssistantInference } from '../../passportAssistant.js';
+import { EMBEDDING_DIM } from '../../../lib/vectorStore.js';
+
+// ── Module config mock to prevent env-parse failures ─────────────────────────
+vi.mock('../../../config/index.js', () => ({
+  config: { AI_PROVIDER: 'fixture' },
+}));
+
+// Passport assistant imports only the rate-limit error; the real module opens a Prisma client
+vi.mock('../inferenceService.js', () => ({
+  AiRateLimitExceededError: class AiRateLimitExceededError extends Error {},
+}));
+
+function norm(vector: number[]): number {
+  return Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+}
+
+function stubProvider(id: AiProviderId): AiProvider {
+  return {
+    id,
+    textModel: `${id}-text`,
+    embeddingModel: `${id}-embed`,
+    generateText: vi.fn(),
+    streamText: vi.fn(),
+    embed: vi.fn(),
+  };
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+// ─── FixtureProvider ──────────────────────────────────────────────────────────
+
+describe('FixtureProvider', () => {
+  it('returns the same placeholder text for the same prompt', async () => {
+    const provider = new FixtureProvider();
+    const first = await provider.generateText({ task: 'insights', prompt: 'market trends' });
+    const second = await provider.generateText({ task: 'insights', prompt: 'market trends' });
+    const other = await provider.generateText({ task: 'insights', prompt: 'other prompt' });
+
+    expect(first.text).toBe(second.text);
+    expect(first.text).toMatch(/^\[fixture:insights\] [0-9a-f]{16}$/);
+    expect(other.text).not.toBe(first.text);
+    expect(first.model).toBe('fixture-text');
+  });
+
+  it('serves the first fixture entry matching task and prompt substring', async () => {
+    const provider = new FixtureProvider([
+      { task: 'rfq-assist', promptContains: 'denim', text: 'denim answer' },
+      { task: 'rfq-assist', text: 'generic rfq answer' },
+      { text: 'any task answer' },
+    ]);
+
+    expect((await provider.generateText({ task: 'rfq-assist', prompt: 'need denim' })).text).toBe(
+      'denim answer'
+    );
+    expect((await provider.generateText({ task: 'rfq-assist', prompt: 'need jersey' })).text).toBe(
+      'generic rfq answer'
+    );
+    expect((await provider.generateText({ task: 'insights', prompt: 'need denim' })).text).toBe(
+      'any task answer'
+    );
+  });
+
+  it('produces deterministic unit-length embeddings of EMBEDDING_DIM', async () => {
+    const provider = new FixtureProvider();
+    const first = await provider.embed('organic cotton');
+    const again = await provider.embed('organic cotton');
+    const other = await provider.embed('recycled polyester');
+
+    expect(first).toHaveLength(EMBEDDING_DIM);
+    expect(first).toEqual(again);
+    expect(other).not.toEqual(first);
+    expect(norm(first)).toBeCloseTo(1, 10);
+  });
+});
+
+// ─── OpenAiCompatibleProvider ─────────────────────────────────────────────────
+
+describe('OpenAiCompatibleProvider', () => {
+  it('posts chat completions with system + user messages and reads usage', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      jsonResponse(200, {
+        choices: [{ message: { content: 'local answer' } }],
+        usage: { total_tokens: 42 },
+      })
+    );
+    const provider = new OpenAiCompatibleProvider({
+      baseUrl: 'http://localhost:11434/v1/',
+      apiKey: 'local-key',
+      textModel: 'llama3.1',
+      embeddingModel: 'nomic-embed-text',
+      fetch: fetchMock,
+    });
+
+    const result = await provider.generateText({
+      task: 'insights',
+      prompt: 'hello',
+      systemInstruction: 'be brief',
+    });
+
+    expect(result).toEqual({ text: 'local answer', tokensUsed: 42, model: 'llama3.1' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect((init.headers as Record<string, string>).authorization).toBe('Bearer local-key');
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'llama3.1',
+      messages: [
+        { role: 'system', content: 'be brief' },
+        { role: 'user', content: 'hello' },
+      ],
+    });
+  });
+
+  it('requests EMBEDDING_DIM dimensions and returns the vector', async () => {
+    const vector = Array.from({ length: EMBEDDING_DIM }, () => 0.01);
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      jsonResponse(200, { data: [{ embedding: vector }] })
+    );
+    const provider = new OpenAiCompatibleProvider({
+      baseUrl: 'http://localhost:8000/v1',
+      textModel: 'm',
+      embeddingModel: 'nomic-embed-text',
+      fetch: fetchMock,
+    });
+
+    await expect(provider.embed('chunk')).resolves.toEqual(vector);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8000/v1/embeddings');
+    expect((init.headers as Record<string, string>).authorization).toBeUndefined();
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'nomic-embed-text',
+      input: 'chunk',
+      dimensions: EMBEDDING_DIM,
+    });
+  });
+
+  it('throws AiProviderError with the status only on HTTP failure', async () => {
+    const provider = new OpenAiCompatibleProvider({
+      baseUrl: 'http://localhost:8000/v1',
+      textModel: 'm',
+      embeddingModel: 'e',
+      fetch: async () => jsonResponse(500, { error: 'prompt echo: secret' }),
+    });
+
+    const error = await provider.generateText({ task: 'insights', prompt: 'secret' }).catch(e => e);
+    expect(error).toBeInstanceOf(AiProviderError);
+    expect(error.message).toBe('[openai-compatible] /chat/completions returned HTTP 500');
+  });
+
+  it('throws AiProviderError when the completion has no content', async () => {
+    const provider = new OpenAiCompatibleProvider({
+      baseUrl: 'http://localhost:8000/v1',
+      textModel: 'm',
+      embeddingModel: 'e',
+      fetch: async () => jsonResponse(200, { choices: [] }),
+    });
+
+    await expect(provider.generateText({ task: 'insights', prompt: 'x' })).rejects.toBeInstanceOf(
+      AiProviderError
+    );
+  });
+});
+
+// ─── GeminiProvider ───────────────────────────────────────────────────────────
+
+describe('GeminiProvider', () => {
+  it('passes the system instruction and falls back to the char estimate without usage', async () => {
+    const getGenerativeModel = vi.fn().mockReturnValue({
+      generateContent: vi.fn().mockResolvedValue({ response: { text: () => 'abcd' } }),
+    });
+    const provider = new GeminiProvider({ getGenerativeModel } as unknown as GoogleGenerativeAI);
+
+    const result = await provider.generateText({
+      task: 'insights',
+      prompt: '12345678',
+      systemInstruction: 'sys',
+    });
+
+    expect(getGenerativeModel).toHaveBeenCalledWith({
+      model: 'gemini-2.5-flash',
+      systemInstruction: 'sys',
+    });
+    expect(result).toEqual({ text: 'abcd', tokensUsed: 3, model: 'gemini-2.5-flash' });
+  });
+});
+
+// ─── AiProviderRegistry ───────────────────────────────────────────────────────
+
+describe('AiProviderRegistry', () => {
+  const gemini = stubProvider('gemini');
+  const local = stubProvider('openai-compatible');
+  const fixture = stubProvider('fixture');
+
+  function registry(
+    providers: Partial<Record<AiProviderId, AiProvider>>,
+    taskOverrides = parseAiProviderTaskOverrides('rfq-assist=openai-compatible')
+  ) {
+    return new AiProviderRegistry({
+      defaultProvider: 'gemini',
+      taskOverrides,
+      providers: Object.fromEntries(
+        Object.entries(providers).map(([id, provider]) => [id, () => provider])
+      ),
+    });
+  }
+
+  it('resolves tenant setting, then task override, then default', () => {
+    const reg = registry({ gemini, 'openai-compatible': local, fixture });
+
+    expect(reg.resolve('insights')).toBe(gemini);
+    expect(reg.resolve('rfq-assist')).toBe(local);
+    expect(reg.resolve('rfq-assist', 'fixture')).toBe(fixture);
+  });
+
+  it('ignores tenant settings for embeddings', () => {
+    const reg = registry({ gemini, fixture });
+    expect(reg.resolve('embedding', 'fixture')).toBe(gemini);
+  });
+
+  it('falls back to the deployment selection when the tenant provider is not configured', () => {
+    const reg = registry({ gemini });
+    expect(reg.resolve('insights', 'openai-compatible')).toBe(gemini);
+  });
+
+  it('returns null when the selected provider is not configured', () => {
+    const reg = registry({ gemini });
+    expect(reg.isConfigured('openai-compatible')).toBe(false);
+    expect(reg.resolve('rfq-assist')).toBeNull();
+  });
+
+  it('builds each provider once', () => {
+    const build = vi.fn(() => fixture);
+    const reg = new AiProviderRegistry({
+      defaultProvider: 'fixture',
+      taskOverrides: {},
+      providers: { fixture: build },
+    });
+    reg.resolve('insights');
+    reg.resolve('embedding');
+    expect(build).toHaveBeenCalledTimes(1);
+  });
+
+  it('parses task overrides and rejects unknown tasks or providers', () => {
+    expect(parseAiProviderTaskOverrides(' embedding=fixture , insights=gemini ')).toEqual({
+      embedding: 'fixture',
+      insights: 'gemini',
+    });
+    expect(parseAiProviderTaskOverrides(undefined)).toEqual({});
+    expect(() => parseAiProviderTaskOverrides('insight=gemini')).toThrow(/insight=gemini/);
+    expect(() => parseAiProviderTaskOverrides('insights=openai')).toThrow(/insights=openai/);
+  });
+});
+
+// ─── Cost estimation ──────────────────────────────────────────────────────────
+
+describe('estimateCostUSD per provider', () => {
+  it('keeps the flat Gemini price for existing callers', () => {
+    expect(estimateCostUSD(1000)).toBeCloseTo(0.002, 10);
+    expect(estimateCostUSD(1000, 'gemini-2.5-flash', 'gemini')).toBeCloseTo(0.002, 10);
+  });
+
+  it('charges nothing for the fixture provider or a free local runtime', () => {
+    expect(estimateCostUSD(1000, 'fixture-text', 'fixture')).toBe(0);
+    expect(estimateCostUSD(1000, 'llama3.1', 'openai-compatible')).toBe(0);
+  });
+
+  it('parses provider/model price pairs and skips malformed entries', () => {
+    const pricing = parseModelPricing(
+      'gemini/gemini-2.5-flash=0.0025, openai-compatible/gpt-4o-mini=0.0006,bad=1,gemini/x=-1'
+    );
+    expect([...pricing.entries()]).toEqual([
+      ['gemini/gemini-2.5-flash', 0.0025],
+      ['openai-compatible/gpt-4o-mini', 0.0006],
+    ]);
+  });
+});
+
+// ─── Tenant settings ──────────────────────────────────────────────────────────
+
+describe('loadTenantAiProviderChoice', () => {
+  it('prefers the task row over the * row', async () => {
+    const findMany = vi.fn().mockResolvedValue([
+      { task: '*', provider: 'gemini' },
+      { task: 'rfq-assist', provider: 'openai-compatible' },
+    ]);
+    const db = { tenantAiProviderSetting: { findMany } } as unknown as PrismaClient;
+
+    await expect(loadTenantAiProviderChoice(db, 'tenant-1', 'rfq-assist')).resolves.toBe(
+      'openai-compatible'
+    );
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tenantId: 'tenant-1', task: { in: ['rfq-assist', '*'] } } })
+    );
+  });
+
+  it('does not query for deployment-wide tasks', async () => {
+    const findMany = vi.fn();
+    const db = { tenantAiProviderSetting: { findMany } } as unknown as PrismaClient;
+
+    await expect(loadTenantAiProviderChoice(db, 'tenant-1', 'embedding')).resolves.toBeNull();
+    expect(findMany).not.toHaveBeenCalled();
+  });
+});
+
+// ─── generateEmbedding through the registry ───────────────────────────────────
+
+describe('generateEmbedding with the fixture provider', () => {
+  afterEach(() => {
+    _overrideAiProviderRegistryForTests(null);
+  });
+
+  it('embeds offline through the configured embedding provider', async () => {
+    const embedding = await generateEmbedding('GOTS certified organic cotton');
+    expect(embedding).toHaveLength(EMBEDDING_DIM);
+    expect(embedding).toEqual(await new FixtureProvider().embed('GOTS certified organic cotton'));
+  });
+
+  it('rejects vectors of the wrong dimension after one retry', async () => {
+    const embed = vi.fn().mockResolvedValue([0.1, 0.2]);
+    _overrideAiProviderRegistryForTests(
+      new AiProviderRegistry({
+        defaultProvider: 'openai-compatible',
+        taskOverrides: {},
+        providers: { 'openai-compatible': () => ({ ...stubProvider('openai-compatible'), embed }) },
+      })
+    );
+
+    await expect(generateEmbedding('chunk')).rejects.toThrow(/dimension mismatch/);
+    expect(embed).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ─── Passport assistant without a provider ────────────────────────────────────
+
+describe('runPassportAssistantInference without a configured provider', () => {
+  afterEach(() => {
+    _overrideAiProviderRegistryForTests(null);
+  });
+
+  it('returns the deterministic fallback instead of throwing, even when the settings read fails', async () => {
+    _overrideAiProviderRegistryForTests(
+      new AiProviderRegistry({ defaultProvider: 'gemini', taskOverrides: {}, providers: {} })
+    );
+    const prisma = { $transaction: vi.fn().mockRejectedValue(new Error('db down')) };
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await runPassportAssistantInference({
+      orgId: 'org-1',
+      passportStatus: 'DRAFT',
+      passportMaturity: 'LOCAL_TRUST',
+      approvedCertCount: 0,
+      lineageDepth: 0,
+      aiExtractedClaimsCount: 0,
+      certifications: [],
+      productDetails: null,
+      mode: 'advisory',
+      buyerContext: null,
+      includeExportGuidance: false,
+      monthKey: '2026-06',
+      prisma: prisma as unknown as PrismaClient,
+      dbContext: { orgId: 'org-1', actorId: 'user-1', realm: 'tenant', requestId: 'req-1' },
+    });
+
+    expect(result.assistant.mode).toBe('deterministic_fallback');
+    expect(result.assistant.humanReviewRequired).toBe(true);
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * aiStreaming.test.ts — AI-STREAM-001 streaming, cache and idempotency
+ *
+ * Covers:
+ * - createPiiStreamGuard: holdback of partial matches, cut on first match
+ * - FixtureProvider / OpenAiCompatibleProvider streamText
+ * - buildAiResponseCacheKey, loadCachedAiResponse expiry + hit counting
+ * - coalesceInFlight: concurrent duplicates share one run
+ * - runPassportAssistantIdempotent: stored replay, store after run
+ * - createSseStream: lazy open, header carry-over, error frame
+ *
+ * Run:
+ *   pnpm --dir server exec vitest run src/services/ai/__tests__/aiStreaming.test.ts
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { FastifyReply } from 'fastify';
+import type { PrismaClient } from '@prisma/client';
+import { createPiiStreamGuard } from '../piiGuard.js';
+import { FixtureProvider } from '../providers/fixtureProvider.js';
+import { OpenAiCompatibleProvider } from '../providers/openAiCompatibleProvider.js';
+import {
+  buildAiResponseCacheKey,
+  coalesceInFlight,
+  loadCachedAiResponse,
+} from '../aiResponseCache.js';
+import {
+  runPassportAssistantIdempotent,
+  type PassportAssistantResult,
+} from '../../passportAssistant.js';
+import type { DatabaseContext } from '../../../lib/database-context.js';
+import { createSseStream } from '../../../utils/sse.js';
+
+// ── Module config mock to prevent env-parse failures ─────────────────────────
+vi.mock('../../../config/index.js', () => ({
+  config: { AI_PROVIDER: 'fixture', AI_RESPONSE_CACHE_TTL_SECONDS: 900 },
+}));
+
+vi.mock('../../../db/prisma.js', () => ({
+  prisma: {},
+}));
+
+// withDbContext runs the callback against the fake client passed as `prisma`.
+vi.mock('../../../lib/database-context.js', () => ({
+  withDbContext: (prisma: unknown, _ctx: unknown, fn: (db: unknown) => unknown) => fn(prisma),
+}));
+
+function feed(chunks: string[]): { forwarded: string; blocked: boolean } {
+  const guard = createPiiStreamGuard();
+  let forwarded = '';
+  for (const chunk of chunks) forwarded += guard.push(chunk);
+  forwarded += guard.flush();
+  return { forwarded, blocked: guard.scan.hasMatches };
+}
+
+function fakeCacheDb(row: Record<string, unknown> | null) {
+  return {
+    aiResponseCache: {
+      findUnique: vi.fn().mockResolvedValue(row),
+      update: vi.fn().mockResolvedValue({}),
+      upsert: vi.fn().mockResolvedValue({}),
+    },
+  };
+}
+
+describe('createPiiStreamGuard', () => {
+  it('forwards clean text in full once the stream is flushed', () => {
+    const text = 'Demand for organic cotton jersey is rising across export markets this season.';
+    const chunks = text.match(/.{1,7}/g) ?? [];
+    expect(feed(chunks)).toEqual({ forwarded: text, blocked: false });
+  });
+
+  it('never forwards any part of an email split across chunks', () => {
+    const guard = createPiiStreamGuard();
+    const lead = 'Recommended supplier contact details follow here: ';
+    let forwarded = guard.push(lead) + guard.push('buyer.relations.desk');
+    expect(forwarded).not.toContain('buyer');
+    forwarded += guard.push('@example.com and more text');
+    forwarded += guard.flush();
+    expect(guard.scan.hasMatches).toBe(true);
+    expect(guard.scan.categories).toEqual(['EMAIL']);
+    expect(forwarded).not.toContain('buyer.relations');
+    expect(lead.startsWith(forwarded)).toBe(true);
+  });
+
+  it('holds back a card number arriving digit group by digit group', () => {
+    const { forwarded, blocked } = feed([
+      'Pay the deposit using card ',
+      '4111 ',
+      '1111 ',
+      '1111 ',
+      '1111 today.',
+    ]);
+    expect(blocked).toBe(true);
+    expect(forwarded).not.toMatch(/\d/);
+  });
+});
+
+describe('provider streamText', () => {
+  it('FixtureProvider deltas concatenate to the generateText result', async () => {
+    const provider = new FixtureProvider([{ task: 'insights', text: 'Denim demand is steady in Q3.' }]);
+    const deltas: string[] = [];
+    const result = await provider.streamText({ task: 'insights', prompt: 'trends' }, d => deltas.push(d));
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe(result.text);
+    expect(result.text).toBe('Denim demand is steady in Q3.');
+  });
+
+  it('OpenAiCompatibleProvider parses SSE frames split across reads and reads usage', async () => {
+    const frames = [
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n',
+      '\ndata: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: {"choices":[],"us',
+      'age":{"total_tokens":42}}\n\ndata: [DONE]\n\n',
+    ];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const frame of frames) controller.enqueue(new TextEncoder().encode(frame));
+        controller.close();
+      },
+    });
+    const fetchMock = vi.fn().mockResolvedValue(new Response(body, { status: 200 }));
+    const provider = new OpenAiCompatibleProvider({
+      baseUrl: 'http://local/v1',
+      textModel: 'llama3.1',
+      embeddingModel: 'nomic-embed-text',
+      fetch: fetchMock,
+    });
+
+    const deltas: string[] = [];
+    const result = await provider.streamText({ task: 'insights', prompt: 'hi' }, d => deltas.push(d));
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(result).toEqual({ text: 'Hello', tokensUsed: 42, model: 'llama3.1' });
+    const payload = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+    expect(payload).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+});
+
+describe('response cache', () => {
+  const keyInput = {
+    task: 'insights' as const,
+    provider: 'fixture' as const,
+    model: 'fixture-text',
+    systemInstruction: 'be brief',
+    prompt: 'market trends',
+  };
+
+  it('keys on prompt and context hash', () => {
+    const base = buildAiResponseCacheKey(keyInput);
+    expect(buildAiResponseCacheKey({ ...keyInput })).toBe(base);
+    expect(buildAiResponseCacheKey({ ...keyInput, contextBlock: 'doc A' })).not.toBe(base);
+    expect(buildAiResponseCacheKey({ ...keyInput, contextBlock: 'doc A' })).not.toBe(
+      buildAiResponseCacheKey({ ...keyInput, contextBlock: 'doc B' })
+    );
+    expect(buildAiResponseCacheKey({ ...keyInput, provider: 'gemini' })).not.toBe(base);
+  });
+
+  it('ignores expired rows and counts hits on live ones', async () => {
+    const expired = fakeCacheDb({
+      id: 'c1', responseText: 'old', provider: 'fixture', model: 'fixture-text', tokensUsed: 10,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    expect(await loadCachedAiResponse(expired as never, 't1', 'insights', 'k')).toBeNull();
+    expect(expired.aiResponseCache.update).not.toHaveBeenCalled();
+
+    const live = fakeCacheDb({
+      id: 'c2', responseText: 'fresh', provider: 'fixture', model: 'fixture-text', tokensUsed: 10,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    const hit = await loadCachedAiResponse(live as never, 't1', 'insights', 'k');
+    expect(hit).toEqual({ text: 'fresh', provider: 'fixture', model: 'fixture-text', tokensUsed: 10 });
+    expect(live.aiResponseCache.update).toHaveBeenCalledWith({
+      where: { id: 'c2' },
+      data: { hitCount: { increment: 1 } },
+    });
+  });
+});
+
+describe('coalesceInFlight', () => {
+  it('runs once for concurrent duplicates and again after settling', async () => {
+    let release: (value: string) => void = () => undefined;
+    const run = vi.fn(() => new Promise<string>(resolve => { release = resolve; }));
+
+    const first = coalesceInFlight('k1', run);
+    const second = coalesceInFlight('k1', run);
+    release('answer');
+    expect(await Promise.all([first, second])).toEqual(['answer', 'answer']);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    const third = coalesceInFlight('k1', run);
+    release('again');
+    expect(await third).toBe('again');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('runPassportAssistantIdempotent', () => {
+  const dbContext = { orgId: 't1' } as DatabaseContext;
+  const result = { assistant: { mode: 'deterministic_fallback', summary: 's' } } as PassportAssistantResult;
+
+  it('replays a stored result without running inference', async () => {
+    const db = fakeCacheDb({
+      id: 'i1', responseText: JSON.stringify(result), provider: null, model: null, tokensUsed: 0,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    const run = vi.fn();
+    const replay = await runPassportAssistantIdempotent(
+      { orgId: 't1', prisma: db as unknown as PrismaClient, dbContext, idempotencyKey: 'abc' },
+      run
+    );
+    expect(replay).toEqual(result);
+    expect(run).not.toHaveBeenCalled();
+    expect(db.aiResponseCache.findUnique.mock.calls[0][0].where.tenantId_task_cacheKey.cacheKey).toBe('idem:abc');
+  });
+
+  it('stores the result of the first run under the key', async () => {
+    const db = fakeCacheDb(null);
+    const run = vi.fn().mockResolvedValue(result);
+    await runPassportAssistantIdempotent(
+      { orgId: 't1', prisma: db as unknown as PrismaClient, dbContext, idempotencyKey: 'def' },
+      run
+    );
+    expect(run).toHaveBeenCalledTimes(1);
+    const upsert = db.aiResponseCache.upsert.mock.calls[0][0];
+    expect(upsert.create).toMatchObject({ cacheKey: 'idem:def', responseText: JSON.stringify(result) });
+  });
+});
+
+describe('createSseStream', () => {
+  function fakeReply() {
+    const raw = {
+      writeHead: vi.fn(),
+      write: vi.fn(),
+      end: vi.fn(),
+      on: vi.fn(),
+    };
+    const reply = {
+      raw,
+      hijack: vi.fn(),
+      getHeaders: () => ({ 'access-control-allow-origin': 'https://app.texqtic.com' }),
+    };
+    return { reply: reply as unknown as FastifyReply, raw, hijack: reply.hijack };
+  }
+
+  it('opens lazily on the first event and carries existing headers', () => {
+    const { reply, raw, hijack } = fakeReply();
+    const stream = createSseStream(reply);
+    expect(stream.opened).toBe(false);
+    expect(hijack).not.toHaveBeenCalled();
+
+    stream.send('delta', { text: 'Hi' });
+    expect(stream.opened).toBe(true);
+    expect(raw.writeHead).toHaveBeenCalledWith(
+      200,
+      expect.objectContaining({
+        'access-control-allow-origin': 'https://app.texqtic.com',
+        'content-type': 'text/event-stream; charset=utf-8',
+      })
+    );
+    expect(raw.write).toHaveBeenCalledWith('event: delta\ndata: {"text":"Hi"}\n\n');
+  });
+
+  it('fail() writes an error frame, closes, and ignores later events', () => {
+    const { reply, raw } = fakeReply();
+    const stream = createSseStream(reply);
+    stream.send('delta', { text: 'x' });
+    stream.fail('INTERNAL_ERROR', 'boom');
+    stream.send('delta', { text: 'late' });
+    expect(raw.write).toHaveBeenLastCalledWith(
+      'event: error\ndata: {"code":"INTERNAL_ERROR","message":"boom"}\n\n'
+    );
+    expect(raw.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('close() before any event leaves the reply to Fastify', () => {
+    const { reply, raw, hijack } = fakeReply();
+    createSseStream(reply).close();
+    expect(hijack).not.toHaveBeenCalled();
+    expect(raw.end).not.toHaveBeenCalled();
+  });
+
+  it('writes retry, id and comment frames for long-lived streams', () => {
+    const { reply, raw } = fakeReply();
+    const stream = createSseStream(reply, { retryMs: 3000 });
+    stream.comment('ping');
+    expect(raw.write).not.toHaveBeenCalled();
+
+    stream.send('event_log', { name: 'trade.created' }, 'evt-1');
+    stream.comment('ping');
+    expect(raw.write.mock.calls.map(call => call[0])).toEqual([
+      'retry: 3000\n\n',
+      'id: evt-1\nevent: event_log\ndata: {"name":"trade.created"}\n\n',
+      ': ping\n\n',
+    ]);
+  });
+
+  it('reports closed and runs onClose listeners once on client disconnect', () => {
+    const { reply, raw } = fakeReply();
+    const stream = createSseStream(reply);
+    const listener = vi.fn();
+    stream.onClose(listener);
+    stream.send('delta', { text: 'x' });
+
+    const onClose = raw.on.mock.calls.find(call => call[0] === 'close')?.[1] as () => void;
+    onClose();
+    stream.close();
+    expect(stream.closed).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(raw.end).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,7 @@
 /**
  * supplierMatchSignalBuilder.test.ts — Safe Signal Builder Unit Tests
  *
- * 24-area test suite for TECS-AGG-AI-SUPPLIER-MATCHING-MVP-001 Slice A.
+ * 25-area test suite for TECS-AGG-AI-SUPPLIER-MATCHING-MVP-001 Slice A.
  *
  * Tests cover:
  *   T-01  Empty input → empty output
@@ -28,6 +28,7 @@
  *   T-22  Serialized output forbidden-key check: JSON.stringify contains no forbidden key
  *   T-23  No inference/embedding dependency: builder executes without any AI provider mock
  *   T-24  isSafe brand: every returned signal has isSafe === true
+ *   T-25  SUPPLIER_TRACK_RECORD bands: labels only, gated by TRACK_RECORD_MIN_SAMPLE
  *
  * Run:
  *   pnpm --filter server exec vitest run src/services/ai/__tests__/supplierMatchSignalBuilder.test.ts
@@ -39,12 +40,14 @@ import {
   stripForbiddenSignalInputFields,
   getForbiddenSignalInputFields,
   SIGNAL_VALUE_MAX_LENGTH,
+  TRACK_RECORD_MIN_SAMPLE,
   type SupplierMatchSignalBuilderInput,
   type SafeCatalogItemInput,
   type SafeRelationshipContextInput,
   type SafePublishedDppContextInput,
   type SafePriceDisclosureContextInput,
   type SafeSupplierOrgProfileInput,
+  type SafeSupplierPerformanceInput,
 } from '../supplierMatching/supplierMatchSignalBuilder.service.js';
 
 // ─── T-01: Empty input → empty output ────────────────────────────────────────
@@ -824,3 +827,79 @@ describe('T-24: isSafe brand is always true on every emitted signal', () => {
     expect(typeof signal.isSafe).toBe('boolean');
   });
 });
+
+// ─── T-25: SUPPLIER_TRACK_RECORD bands ───────────────────────────────────────
+
+describe('T-25: SUPPLIER_TRACK_RECORD emitted from performance bands', () => {
+  const strongRecord: SafeSupplierPerformanceInput = {
+    supplierOrgId: 'org-supplier-001',
+    rfqReceivedCount: 10,
+    respondedWithin24hCount: 8,
+    fulfilmentDueCount: 10,
+    fulfilmentOnTimeCount: 9,
+    poolQuoteDecidedCount: 10,
+    poolQuoteWonCount: 3,
+  };
+
+  it('emits one label per band reached, sorted by value', () => {
+    const result = buildSupplierMatchSignals({
+      buyerOrgId: 'org-buyer-001',
+      supplierPerformance: [strongRecord],
+    });
+    expect(result.map(s => [s.signalType, s.value, s.sourceEntity, s.sourceId])).toEqual([
+      ['SUPPLIER_TRACK_RECORD', 'COMPETITIVE_POOL_QUOTES', 'SUPPLIER_PERFORMANCE', 'org-supplier-001'],
+      ['SUPPLIER_TRACK_RECORD', 'ON_TIME_DELIVERY', 'SUPPLIER_PERFORMANCE', 'org-supplier-001'],
+      ['SUPPLIER_TRACK_RECORD', 'RESPONDS_WITHIN_24H', 'SUPPLIER_PERFORMANCE', 'org-supplier-001'],
+    ]);
+  });
+
+  it('emits nothing below a band threshold', () => {
+    const result = buildSupplierMatchSignals({
+      buyerOrgId: 'org-buyer-001',
+      supplierPerformance: [
+        { ...strongRecord, respondedWithin24hCount: 7, fulfilmentOnTimeCount: 8, poolQuoteWonCount: 2 },
+      ],
+    });
+    expect(result).toEqual([]);
+  });
+
+  it('emits nothing below TRACK_RECORD_MIN_SAMPLE outcomes, even at a perfect rate', () => {
+    const n = TRACK_RECORD_MIN_SAMPLE - 1;
+    const result = buildSupplierMatchSignals({
+      buyerOrgId: 'org-buyer-001',
+      supplierPerformance: [
+        {
+          supplierOrgId: 'org-supplier-001',
+          rfqReceivedCount: n,
+          respondedWithin24hCount: n,
+          fulfilmentDueCount: n,
+          fulfilmentOnTimeCount: n,
+          poolQuoteDecidedCount: n,
+          poolQuoteWonCount: n,
+        },
+      ],
+    });
+    expect(result).toEqual([]);
+  });
+
+  it('never exposes counts or rates as signal values', () => {
+    const result = buildSupplierMatchSignals({
+      buyerOrgId: 'org-buyer-001',
+      supplierPerformance: [strongRecord],
+    });
+    for (const signal of result) {
+      expect(['COMPETITIVE_POOL_QUOTES', 'ON_TIME_DELIVERY', 'RESPONDS_WITHIN_24H']).toContain(signal.value);
+    }
+    expect(JSON.stringify(result)).not.toMatch(/Count|Rate/);
+  });
+
+  it('ignores inconsistent counts without throwing', () => {
+    const result = buildSupplierMatchSignals({
+      buyerOrgId: 'org-buyer-001',
+      supplierPerformance: [
+        { ...strongRecord, respondedWithin24hCount: 12, fulfilmentOnTimeCount: Number.NaN, poolQuoteWonCount: -1 },
+      ],
+    });
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * aiResponseCache.ts — AI-STREAM-001
+ *
+ * Per-tenant AI response cache (ai_response_cache) and in-flight request coalescing.
+ *
+ * RULES:
+ * - Keys are hashes: raw prompts and context blocks are never stored, only the
+ *   guarded model output that was returned to the tenant.
+ * - Only clean responses are cached — callers skip degraded, errored and
+ *   PII-blocked output.
+ * - A cache hit makes no model call, so callers meter 0 tokens / $0 against
+ *   AiUsageMeter for it; budget preflight still applies.
+ * - Rows are tenant-scoped under RLS; reads and writes run inside the caller's
+ *   withDbContext transaction.
+ * - AI_RESPONSE_CACHE_TTL_SECONDS = 0 disables caching (idempotency rows still work).
+ */
+
+import { createHash } from 'node:crypto';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../../config/index.js';
+import type { AiProviderId, AiProviderTask } from './providers/types.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface AiResponseCacheKeyInput {
+  task: AiProviderTask;
+  provider: AiProviderId;
+  model: string;
+  systemInstruction?: string;
+  /** Task prompt without the retrieved context block. */
+  prompt: string;
+  /** Retrieved RAG context block, when the task uses one. */
+  contextBlock?: string | null;
+}
+
+export interface CachedAiResponse {
+  text: string;
+  /** Null for idempotency rows, whose text is a serialized result. */
+  provider: string | null;
+  model: string | null;
+  /** Tokens the original model call consumed (informational — hits are metered at 0). */
+  tokensUsed: number;
+}
+
+/** Response cache lifetime in seconds; 0 when caching is disabled. */
+export function aiResponseCacheTtlSeconds(): number {
+  const ttl = config.AI_RESPONSE_CACHE_TTL_SECONDS;
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : 0;
+}
+
+/** SHA-256 over the exact model input: provider, model, instruction, prompt and context hash. */
+export function buildAiResponseCacheKey(input: AiResponseCacheKeyInput): string {
+  const contextHash = input.contextBlock
+    ? createHash('sha256').update(input.contextBlock).digest('hex')
+    : 'none';
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        input.task,
+        input.provider,
+        input.model,
+        input.systemInstruction ?? '',
+        input.prompt,
+        contextHash,
+      ])
+    )
+    .digest('hex');
+}
+
+/** Cache key for a replayable response stored under a client Idempotency-Key. */
+export function idempotencyCacheKey(idempotencyKey: string): string {
+  return `idem:${idempotencyKey}`;
+}
+
+/** The unexpired entry for a key, or null. Counts the hit. */
+export async function loadCachedAiResponse(
+  db: DbClient,
+  tenantId: string,
+  task: AiProviderTask,
+  cacheKey: string
+): Promise<CachedAiResponse | null> {
+  const row = await db.aiResponseCache.findUnique({
+    where: { tenantId_task_cacheKey: { tenantId, task, cacheKey } },
+    select: { id: true, responseText: true, provider: true, model: true, tokensUsed: true, expiresAt: true },
+  });
+  if (!row || row.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  await db.aiResponseCache.update({
+    where: { id: row.id },
+    data: { hitCount: { increment: 1 } },
+  });
+  return {
+    text: row.responseText,
+    provider: row.provider,
+    model: row.model,
+    tokensUsed: row.tokensUsed,
+  };
+}
+
+/** Writes (or refreshes) an entry that expires after ttlSeconds. */
+export async function storeCachedAiResponse(
+  db: DbClient,
+  entry: CachedAiResponse & {
+    tenantId: string;
+    task: AiProviderTask;
+    cacheKey: string;
+    ttlSeconds: number;
+  }
+): Promise<void> {
+  const expiresAt = new Date(Date.now() + entry.ttlSeconds * 1000);
+  const values = {
+    responseText: entry.text,
+    provider: entry.provider,
+    model: entry.model,
+    tokensUsed: entry.tokensUsed,
+    expiresAt,
+  };
+  await db.aiResponseCache.upsert({
+    where: {
+      tenantId_task_cacheKey: { tenantId: entry.tenantId, task: entry.task, cacheKey: entry.cacheKey },
+    },
+    create: { tenantId: entry.tenantId, task: entry.task, cacheKey: entry.cacheKey, ...values },
+    update: { ...values, hitCount: 0, createdAt: new Date() },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// In-flight coalescing
+// ---------------------------------------------------------------------------
+
+const inFlightRequests = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `run` once per key at a time: a duplicate request (double-click, client retry)
+ * arriving while the first is still in flight awaits the first request's result
+ * instead of calling the model and charging the budget again. Stored idempotency
+ * replays only cover requests that arrive after the first has committed.
+ *
+ * Process-local: duplicates routed to another instance fall back to the stored replay.
+ */
+export function coalesceInFlight<T>(key: string, run: () => Promise<T>): Promise<T> {
+  const existing = inFlightRequests.get(key);
+  if (existing) {
+    return existing as Promise<T>;
+  }
+  const promise = run().finally(() => {
+    inFlightRequests.delete(key);
+  });
+  inFlightRequests.set(key, promise);
+  return promise;
+}
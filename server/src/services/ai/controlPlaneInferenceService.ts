@@ -25,21 +25,26 @@
  *   - Reopening or refactoring inferenceService.ts
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { PrismaClient } from '@prisma/client';
 import { createHash } from 'node:crypto';
-import { config } from '../../config/index.js';
 import { writeAuditLog, createAdminAudit } from '../../lib/auditLog.js';
 import { withSuperAdminContext } from '../../lib/database-context.js';
 import { redactPii, scanForPii } from './piiGuard.js';
 import { emitAiControlEventBestEffort } from '../../events/aiEmitter.js';
+import { resolveAiProvider } from './providers/aiProviderFactory.js';
+import { GEMINI_TEXT_MODEL } from './providers/geminiProvider.js';
+import type { AiProvider } from './providers/types.js';
 
 // ---------------------------------------------------------------------------
-// Re-export isGenAiConfigured from tenant TIS for shared health reporting.
-// This is a read-only import of a pure configuration probe — it does NOT
-// collapse control-plane execution into the tenant TIS flow.
+// Provider availability — control-plane task selection (AI-PROVIDER-001).
+// Reported separately from the tenant TIS probe: AI_PROVIDER_TASK_OVERRIDES may
+// route control-plane-insights to a different provider than tenant insights.
 // ---------------------------------------------------------------------------
-export { isGenAiConfigured } from './inferenceService.js';
+
+/** Returns true when the provider selected for control-plane insights is configured. */
+export function isGenAiConfigured(): boolean {
+  return resolveAiProvider('control-plane-insights') !== null;
+}
 
 // ---------------------------------------------------------------------------
 // Constants (control-plane-specific ceiling, not shared with tenant TIS)
@@ -54,21 +59,6 @@ const CP_MAX_PROMPT_CHARS = 2_000;
 /** 15-minute idempotency bucket for pre-execution control-plane deduplication. */
 const CP_FINGERPRINT_BUCKET_MS = 15 * 60 * 1_000;
 
-// ---------------------------------------------------------------------------
-// Module-level Gemini client — control-plane surface.
-// Intentionally separate from the tenant TIS module-level genAI instance to
-// maintain explicit unit boundary (no shared mutable state).
-// ---------------------------------------------------------------------------
-
-let cpGenAI: GoogleGenerativeAI | null = null;
-try {
-  if (config.GEMINI_API_KEY) {
-    cpGenAI = new GoogleGenerativeAI(config.GEMINI_API_KEY);
-  }
-} catch {
-  console.warn('[ControlPlaneAI] Gemini initialization failed — running in fallback mode');
-}
-
 // ---------------------------------------------------------------------------
 // Input / Output types
 // ---------------------------------------------------------------------------
@@ -133,6 +123,9 @@ export interface CpInsightResult {
   /** Wall-clock model latency in milliseconds. */
   inferenceLatencyMs: number;
 
+  /** Model of the provider selected for control-plane insights (AI-PROVIDER-001). */
+  model: string;
+
   /** True when PII was detected and redacted from the prompt before send. */
   piiRedacted: boolean;
 
@@ -145,43 +138,39 @@ export interface CpInsightResult {
 // ---------------------------------------------------------------------------
 
 /**
- * Invoke Gemini with a control-plane system instruction and timeout guard.
+ * Invoke the control-plane provider with a system instruction and timeout guard.
  * Returns a degraded-mode result for any failure rather than throwing.
  */
 async function cpGenerateContent(
+  provider: AiProvider | null,
   prompt: string,
   timeoutMs: number = CP_INFERENCE_TIMEOUT_MS
 ): Promise<{ text: string; tokensUsed: number; hadInferenceError: boolean }> {
-  if (!cpGenAI) {
+  if (!provider) {
     return {
-      text: 'AI service temporarily unavailable. GEMINI_API_KEY not configured.',
+      text: 'AI service temporarily unavailable. No AI provider configured for control-plane insights.',
       tokensUsed: 0,
       hadInferenceError: false,
     };
   }
 
   try {
-    const model = cpGenAI.getGenerativeModel({
-      model: 'gemini-2.5-flash',
+    const aiPromise = provider.generateText({
+      task: 'control-plane-insights',
+      prompt,
       systemInstruction:
         'You are a strategic AI advisor for the TexQtic platform control plane. ' +
         'Provide concise, factual platform-level insights for platform administrators. ' +
         'Do not speculate on or reveal individual tenant data. ' +
         'Keep responses focused and under 5 sentences.',
     });
-
-    const aiPromise = model.generateContent(prompt);
     const timeoutPromise = new Promise<never>((_, reject) =>
       setTimeout(() => reject(new Error('Control-plane AI request timeout')), timeoutMs)
     );
 
     const result = await Promise.race([aiPromise, timeoutPromise]);
-    const text = result.response.text();
-
-    // Rough estimate: 1 token ≈ 4 characters (mirrors tenant TIS heuristic)
-    const estimatedTokens = Math.ceil((prompt.length + text.length) / 4);
 
-    return { text, tokensUsed: estimatedTokens, hadInferenceError: false };
+    return { text: result.text, tokensUsed: result.tokensUsed, hadInferenceError: false };
   } catch (error) {
     console.error('[ControlPlaneAI] Generation error:', error);
     return {
@@ -222,6 +211,8 @@ async function cpGenerateContent(
  */
 export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpInsightResult> {
   const { prompt: rawPrompt, focus, adminId, requestId, prisma, targetOrgMeta } = input;
+  const provider = resolveAiProvider('control-plane-insights');
+  const model = provider?.textModel ?? GEMINI_TEXT_MODEL;
 
   // ── 1. Input ceiling guard ─────────────────────────────────────────────────
   const truncatedPrompt = rawPrompt.slice(0, CP_MAX_PROMPT_CHARS);
@@ -244,7 +235,7 @@ export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpI
       {
         adminActorId: adminId,
         taskType: 'control-plane-insights',
-        model: 'gemini-2.5-flash',
+        model,
         fieldCount: piiResult.matchCount,
         requestId,
       },
@@ -322,7 +313,7 @@ export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpI
         'ai',
         {
           requestId,
-          model: 'gemini-2.5-flash',
+          model,
           tokensUsed: 0,
           inferenceLatencyMs: 0,
           hadInferenceError: false,
@@ -347,7 +338,7 @@ export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpI
         {
           adminActorId: adminId,
           taskType: 'control-plane-insights',
-          model: 'gemini-2.5-flash',
+          model,
           latencyMs: 0,
           requestId,
           ...(targetOrgMeta?.id !== undefined ? { targetOrgId: targetOrgMeta.id } : {}),
@@ -361,6 +352,7 @@ export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpI
         tokensUsed: 0,
         hadInferenceError: false,
         inferenceLatencyMs: 0,
+        model,
         piiRedacted,
         outputPiiDetected: false,
       };
@@ -382,7 +374,7 @@ export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpI
 
   // ── C4. Model invocation (miss path only) ──────────────────────────────────
   const inferenceStart = Date.now();
-  const generation = await cpGenerateContent(finalPrompt);
+  const generation = await cpGenerateContent(provider, finalPrompt);
   const inferenceLatencyMs = Date.now() - inferenceStart;
 
   // ── 5. Output PII scan ─────────────────────────────────────────────────────
@@ -404,7 +396,7 @@ export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpI
       {
         adminActorId: adminId,
         taskType: 'control-plane-insights',
-        model: 'gemini-2.5-flash',
+        model,
         leakType: outputScan.categories.join(','),
         requestId,
       },
@@ -434,7 +426,7 @@ export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpI
           requestFingerprint,
           requestBucketStart,
           reasoningHash,
-          model: 'gemini-2.5-flash',
+          model,
           promptSummary: safePrompt.slice(0, 200),
           responseSummary: generation.text.slice(0, 500),
           tokensUsed: generation.tokensUsed,
@@ -498,7 +490,7 @@ export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpI
     'ai',
     {
       requestId,
-      model: 'gemini-2.5-flash',
+      model,
       tokensUsed: generation.tokensUsed,
       inferenceLatencyMs,
       hadInferenceError: generation.hadInferenceError,
@@ -525,7 +517,7 @@ export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpI
       {
         adminActorId: adminId,
         taskType: 'control-plane-insights',
-        model: 'gemini-2.5-flash',
+        model,
         latencyMs: inferenceLatencyMs,
         requestId,
         ...(targetOrgMeta?.id !== undefined ? { targetOrgId: targetOrgMeta.id } : {}),
@@ -539,7 +531,7 @@ export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpI
       {
         adminActorId: adminId,
         taskType: 'control-plane-insights',
-        model: 'gemini-2.5-flash',
+        model,
         errorCode: 'CP_AI_INFERENCE_ERROR',
         errorMessage: generation.text,
         requestId,
@@ -554,6 +546,7 @@ export async function runControlPlaneInsight(input: CpInsightInput): Promise<CpI
     tokensUsed: generation.tokensUsed,
     hadInferenceError: generation.hadInferenceError,
     inferenceLatencyMs,
+    model,
     piiRedacted,
     outputPiiDetected,
   };
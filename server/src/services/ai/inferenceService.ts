@@ -7,7 +7,12 @@
  *   - Budget enforcement (load policy, check preflight, upsert usage)
  *   - RAG retrieval + prompt augmentation  (insights + negotiation-advice tasks)
  *   - Latency instrumentation (ragMetrics)
- *   - Gemini model invocation (generateContent)
+ *   - Model invocation through the tenant's AI provider (generateContent, AI-PROVIDER-001),
+ *     optionally streamed to the caller via onDelta (AI-STREAM-001)
+ *   - PII guard: pre-send redaction, post-receive leak blocking, per-chunk stream guard
+ *   - Idempotency-Key replay (reasoning_logs) and in-flight duplicate coalescing
+ *   - Per-tenant response cache (aiResponseCache.ts): hits skip the model call and
+ *     meter 0 tokens
  *   - Reasoning log + audit log writes (atomic within Prisma transaction)
  *   - AI event emission via aiEmitter.ts (best-effort, non-blocking, post-tx)
  *
@@ -15,17 +20,15 @@
  *   - No behavioral changes from the original ai.ts orchestration logic
  *   - Reasoning log + audit log writes remain atomic (single Prisma transaction)
  *   - Event emission is always best-effort and never blocks the primary flow
- *   - No PII redaction, idempotency, or caching in this unit
+ *   - Streamed deltas are PII-guarded; the final result text stays authoritative
  *   - Export:  runAiInference()
  *              isGenAiConfigured()
  *
  * SCOPE: PW5-AI-TIS-EXTRACT only.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { createHash } from 'node:crypto';
 import { PrismaClient } from '@prisma/client';
-import { config } from '../../config/index.js';
 import { withDbContext, type DatabaseContext } from '../../lib/database-context.js';
 import {
   loadTenantBudget,
@@ -50,7 +53,16 @@ import {
   recordTotalLatency,
 } from './ragMetrics.js';
 import { emitAiEventBestEffort } from '../../events/aiEmitter.js';
-import { redactPii, scanForPii } from './piiGuard.js';
+import { createPiiStreamGuard, redactPii, scanForPii } from './piiGuard.js';
+import {
+  aiResponseCacheTtlSeconds,
+  buildAiResponseCacheKey,
+  coalesceInFlight,
+  loadCachedAiResponse,
+  storeCachedAiResponse,
+} from './aiResponseCache.js';
+import { resolveAiProvider, resolveTenantAiProvider } from './providers/aiProviderFactory.js';
+import type { AiProvider, AiProviderId } from './providers/types.js';
 
 const AI_RATE_LIMIT_PER_MINUTE = 60;
 const AI_RATE_LIMIT_WINDOW_MS = 60_000;
@@ -95,87 +107,166 @@ function enforceTenantRateLimit(orgId: string): void {
 }
 
 // ---------------------------------------------------------------------------
-// Gemini client — initialised once at module load (server-side only)
+// Provider availability
 // ---------------------------------------------------------------------------
 
-let genAI: GoogleGenerativeAI | null = null;
-try {
-  if (config.GEMINI_API_KEY) {
-    genAI = new GoogleGenerativeAI(config.GEMINI_API_KEY);
-  }
-} catch (error) {
-  console.warn('Gemini AI initialization failed - using fallback mode', error);
-}
-
 /**
- * Returns true when the Gemini client is configured and operational.
+ * Returns true when the deployment-level provider for tenant insights is configured.
  * Used by the /api/ai/health route to report status.
  */
 export function isGenAiConfigured(): boolean {
-  return genAI !== null;
+  return resolveAiProvider('insights') !== null;
 }
 
 // ---------------------------------------------------------------------------
 // Internal helpers
 // ---------------------------------------------------------------------------
 
+/** Model output (or cached response) before the post-receive PII check. */
+type GeneratedContent = {
+  text: string;
+  tokensUsed: number;
+  hadInferenceError: boolean;
+  cacheHit: boolean;
+};
+
 /**
- * generateContent — wraps Gemini model invocation with timeout guard.
+ * generateContent — wraps provider model invocation with timeout guard.
  *
- * Returns a degraded-mode result if genAI is not configured rather than
+ * Returns a degraded-mode result if no provider is configured rather than
  * throwing, preserving the original degraded-mode semantics.
  *
  * Errors from the model call are caught and surfaced via hadInferenceError.
+ *
+ * With onDelta the provider streams; fragments pass through a PiiStreamGuard and
+ * stop at the first match, on error or on timeout (AI-STREAM-001).
  */
 async function generateContent(
+  provider: AiProvider | null,
+  taskType: AiTaskType,
   prompt: string,
   systemInstruction?: string,
-  timeoutMs: number = 8000
-): Promise<{ text: string; tokensUsed: number; hadInferenceError: boolean }> {
-  if (!genAI) {
+  timeoutMs: number = 8000,
+  onDelta?: (delta: string) => void
+): Promise<GeneratedContent> {
+  if (!provider) {
     return {
-      text: 'AI service temporarily unavailable. Please configure GEMINI_API_KEY.',
+      text: 'AI service temporarily unavailable. Please configure an AI provider.',
       tokensUsed: 0,
       hadInferenceError: false,
+      cacheHit: false,
     };
   }
 
-  try {
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-2.5-flash',
-      systemInstruction: systemInstruction,
-    });
+  const streamGuard = onDelta ? createPiiStreamGuard() : null;
+  let forwarding = true;
 
+  try {
     // Race between AI call and timeout
-    const aiPromise = model.generateContent(prompt);
+    const request = { task: taskType, prompt, systemInstruction };
+    const aiPromise =
+      onDelta && streamGuard
+        ? provider.streamText(request, delta => {
+            const safe = forwarding ? streamGuard.push(delta) : '';
+            if (safe) onDelta(safe);
+          })
+        : provider.generateText(request);
     const timeoutPromise = new Promise<never>((_, reject) =>
       setTimeout(() => reject(new Error('AI request timeout')), timeoutMs)
     );
 
     const result = await Promise.race([aiPromise, timeoutPromise]);
-    const response = result.response;
-    const text = response.text();
+    forwarding = false;
 
-    // Estimate tokens used based on response length
-    // Gemini SDK doesn't always provide usage metadata
-    // Rough estimate: 1 token ≈ 4 characters
-    const estimatedTokens = Math.ceil((prompt.length + text.length) / 4);
+    const tail = streamGuard?.flush();
+    if (onDelta && tail) onDelta(tail);
 
     return {
-      text,
-      tokensUsed: estimatedTokens,
+      text: result.text,
+      tokensUsed: result.tokensUsed,
       hadInferenceError: false,
+      cacheHit: false,
     };
   } catch (error) {
+    forwarding = false;
     console.error('AI generation error:', error);
     return {
       text: 'AI service encountered an error. Please try again later.',
       tokensUsed: 0,
       hadInferenceError: true,
+      cacheHit: false,
     };
   }
 }
 
+/** Cache key for a task's model input, or null when caching is off or no provider is configured. */
+function responseCacheKey(
+  provider: AiProvider | null,
+  model: string,
+  taskType: AiTaskType,
+  systemInstruction: string,
+  prompt: string,
+  contextBlock: string | null
+): string | null {
+  if (!provider || aiResponseCacheTtlSeconds() === 0) {
+    return null;
+  }
+  return buildAiResponseCacheKey({
+    task: taskType,
+    provider: provider.id,
+    model,
+    systemInstruction,
+    prompt,
+    contextBlock,
+  });
+}
+
+/** A cache hit shaped like generateContent() output; streamed to onDelta as one fragment. */
+async function lookupCachedContent(
+  db: Parameters<typeof loadCachedAiResponse>[0],
+  orgId: string,
+  taskType: AiTaskType,
+  cacheKey: string | null,
+  onDelta?: (delta: string) => void
+): Promise<GeneratedContent | null> {
+  if (!cacheKey) {
+    return null;
+  }
+  const cached = await loadCachedAiResponse(db, orgId, taskType, cacheKey);
+  if (!cached) {
+    return null;
+  }
+  onDelta?.(cached.text);
+  return { text: cached.text, tokensUsed: 0, hadInferenceError: false, cacheHit: true };
+}
+
+/** Caches clean model output; hits, errors and PII-blocked responses are never written. */
+async function cacheGeneratedContent(
+  db: Parameters<typeof storeCachedAiResponse>[0],
+  orgId: string,
+  taskType: AiTaskType,
+  cacheKey: string | null,
+  generated: GeneratedContent,
+  finalText: string,
+  hadInferenceError: boolean,
+  providerId: AiProviderId,
+  model: string
+): Promise<void> {
+  if (!cacheKey || generated.cacheHit || hadInferenceError || finalText !== generated.text) {
+    return;
+  }
+  await storeCachedAiResponse(db, {
+    tenantId: orgId,
+    task: taskType,
+    cacheKey,
+    text: finalText,
+    provider: providerId,
+    model,
+    tokensUsed: generated.tokensUsed,
+    ttlSeconds: aiResponseCacheTtlSeconds(),
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -188,12 +279,18 @@ export type AiTaskType = 'insights' | 'negotiation-advice' | 'rfq-assist' | 'sup
  *
  * orgId          — contextTenantId (dbContext.orgId)
  * taskType       — determines orchestration path (RAG, audit builder, risk flags)
- * model          — Gemini model name (e.g. 'gemini-2.5-flash')
+ * model          — Gemini model label (e.g. 'gemini-2.5-flash'); when the resolved
+ *                  provider is not Gemini its own model is recorded instead
  * prompt         — assembled user/task prompt (without RAG context block)
  * systemInstruction — system-role instruction for the model
  * preflightTokens   — conservative token estimate used for budget preflight
  * monthKey       — YYYY-MM budget period (getMonthKey() from aiBudget)
  * requestId      — caller-generated trace ID
+ * idempotencyKey — optional client Idempotency-Key; replays the stored response for 24 h
+ *                  and coalesces concurrent duplicates
+ * onDelta        — optional; streams PII-guarded text fragments as the model produces
+ *                  them (AI-STREAM-001). Cache hits and replays arrive as one fragment
+ *                  or none; the returned text is authoritative.
  * userId         — authenticated actor UUID (nullable)
  * prisma         — non-transactional PrismaClient (owns withDbContext + event persistence)
  * dbContext      — RLS database context (injected by databaseContextMiddleware)
@@ -220,6 +317,7 @@ export interface AiInferenceInput {
   userId: string | null;
   prisma: PrismaClient;
   dbContext: DatabaseContext;
+  onDelta?: (delta: string) => void;
 
   // insights-specific
   tenantType?: string;
@@ -255,6 +353,7 @@ export interface AiInferenceInput {
  * inferenceLatencyMs — wall-clock model latency in milliseconds
  * hadInferenceError — true when model call failed (degraded response returned)
  * riskFlags         — populated for negotiation-advice task only
+ * cacheHit          — served from ai_response_cache (no model call, 0 tokens metered)
  */
 export interface AiInferenceResult {
   text: string;
@@ -265,6 +364,7 @@ export interface AiInferenceResult {
   inferenceLatencyMs: number;
   hadInferenceError: boolean;
   riskFlags?: string[];
+  cacheHit?: boolean;
 }
 
 function normalizeIdempotencyKey(idempotencyKey?: string): string | undefined {
@@ -354,6 +454,7 @@ async function findIdempotentReplay(
       auditLogId: linkedAudit?.id ?? '',
       inferenceLatencyMs: 0,
       hadInferenceError: false,
+      cacheHit: false,
     };
 
     if (input.taskType === 'negotiation-advice') {
@@ -383,12 +484,24 @@ async function findIdempotentReplay(
  * callers should catch this and return HTTP 429.
  *
  * All other errors propagate to the caller for HTTP 500 handling.
+ *
+ * Requests sharing an Idempotency-Key while one is in flight share its result.
  */
 export async function runAiInference(input: AiInferenceInput): Promise<AiInferenceResult> {
+  const normalizedIdempotencyKey = normalizeIdempotencyKey(input.idempotencyKey);
+  if (!normalizedIdempotencyKey) {
+    return runAiInferenceOnce(input);
+  }
+  return coalesceInFlight(
+    `inference:${input.orgId}:${input.taskType}:${normalizedIdempotencyKey}`,
+    () => runAiInferenceOnce(input)
+  );
+}
+
+async function runAiInferenceOnce(input: AiInferenceInput): Promise<AiInferenceResult> {
   const {
     orgId,
     taskType,
-    model,
     prompt,
     systemInstruction,
     preflightTokens,
@@ -398,6 +511,7 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
     userId,
     prisma,
     dbContext,
+    onDelta,
   } = input;
 
   const normalizedIdempotencyKey = normalizeIdempotencyKey(idempotencyKey);
@@ -406,11 +520,18 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
 
   const existingResult = await findIdempotentReplay(input, normalizedIdempotencyKey);
   if (existingResult) {
+    onDelta?.(existingResult.text);
     return existingResult;
   }
 
   const reasoningRequestId = buildReasoningRequestId(requestId, normalizedIdempotencyKey);
 
+  // AI-PROVIDER-001: resolved before any transaction opens (the settings lookup runs its own).
+  const provider = await resolveTenantAiProvider(prisma, dbContext, taskType);
+  const providerId = provider?.id ?? 'gemini';
+  // Gemini keeps the caller's model label; other providers record the model they run.
+  const model = provider && provider.id !== 'gemini' ? provider.textModel : input.model;
+
   // Pre-compute AI call for rfq-assist OUTSIDE the transaction (HOTFIX-MODEL-TX-001)
   // Prevents P2028 tx timeout: gemini-2.5-flash latency can exceed the 5 s Prisma
   // interactive transaction default, causing the entire orchestration to abort.
@@ -418,8 +539,9 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
   // Budget check + DB writes remain inside the transaction; only the AI call moves out.
   let rfqAiPrecomputed: {
     promptForModel: string;
-    result: { text: string; tokensUsed: number; hadInferenceError: boolean };
+    result: GeneratedContent;
     inferenceLatencyMs: number;
+    cacheKey: string | null;
   } | null = null;
 
   // supplier-profile-completeness: AI call pre-computed outside tx (HOTFIX-MODEL-TX-001).
@@ -427,8 +549,9 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
   // budget check + audit/reasoning writes remain inside withDbContext.
   let supplierProfileAiPrecomputed: {
     promptForModel: string;
-    result: { text: string; tokensUsed: number; hadInferenceError: boolean };
+    result: GeneratedContent;
     inferenceLatencyMs: number;
+    cacheKey: string | null;
   } | null = null;
 
   if (taskType === 'rfq-assist') {
@@ -447,12 +570,24 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
       );
     }
 
+    const cacheKeyRfq = responseCacheKey(
+      provider, model, taskType, systemInstruction, prompt, precomputedContextBlock
+    );
+    const cachedRfq = cacheKeyRfq
+      ? await withDbContext(prisma, dbContext, tx =>
+          lookupCachedContent(tx, orgId, taskType, cacheKeyRfq, onDelta)
+        )
+      : null;
+
     const aiCallStart = Date.now();
-    const aiResult = await generateContent(promptForModelRfq, systemInstruction, 10000);
+    const aiResult =
+      cachedRfq ??
+      (await generateContent(provider, taskType, promptForModelRfq, systemInstruction, 10000, onDelta));
     rfqAiPrecomputed = {
       promptForModel: promptForModelRfq,
       result: aiResult,
       inferenceLatencyMs: Date.now() - aiCallStart,
+      cacheKey: cacheKeyRfq,
     };
   }
 
@@ -468,12 +603,22 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
       );
     }
 
+    const cacheKeySpc = responseCacheKey(provider, model, taskType, systemInstruction, prompt, null);
+    const cachedSpc = cacheKeySpc
+      ? await withDbContext(prisma, dbContext, tx =>
+          lookupCachedContent(tx, orgId, taskType, cacheKeySpc, onDelta)
+        )
+      : null;
+
     const aiCallStart = Date.now();
-    const aiResult = await generateContent(promptForModelSpc, systemInstruction, 12000);
+    const aiResult =
+      cachedSpc ??
+      (await generateContent(provider, taskType, promptForModelSpc, systemInstruction, 12000, onDelta));
     supplierProfileAiPrecomputed = {
       promptForModel: promptForModelSpc,
       result: aiResult,
       inferenceLatencyMs: Date.now() - aiCallStart,
+      cacheKey: cacheKeySpc,
     };
   }
 
@@ -489,7 +634,7 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
       const usage = await getUsage(tx, orgId, monthKey);
 
       // 3. Preflight budget check (conservative estimate)
-      const preflightCost = estimateCostUSD(preflightTokens, model);
+      const preflightCost = estimateCostUSD(preflightTokens, model, providerId);
       enforceBudgetOrThrow(budget, usage, preflightTokens, preflightCost);
 
       if (taskType === 'insights') {
@@ -524,10 +669,16 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
           );
         }
 
-        // 5. Generate content (AI call — uses augmented prompt when RAG is active)
+        // 5. Generate content (AI call — uses augmented prompt when RAG is active).
+        //    AI-STREAM-001: an unexpired cached response for the same prompt + context skips it.
+        const cacheKey = responseCacheKey(
+          provider, model, taskType, systemInstruction, prompt, ragResult.contextBlock
+        );
         markInferenceStart(metricsHandle);
         const aiCallStart = Date.now();
-        const aiResult = await generateContent(promptForModel, systemInstruction);
+        const aiResult =
+          (await lookupCachedContent(tx, orgId, taskType, cacheKey, onDelta)) ??
+          (await generateContent(provider, taskType, promptForModel, systemInstruction, 8000, onDelta));
         const inferenceLatencyMs = Date.now() - aiCallStart;
         recordInferenceLatency(metricsHandle);
         recordTotalLatency(metricsHandle);
@@ -549,8 +700,12 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
           hadInferenceError = true;
         }
 
-        // 6. Calculate actual cost
-        const actualCost = estimateCostUSD(tokensUsed, model);
+        await cacheGeneratedContent(
+          tx, orgId, taskType, cacheKey, aiResult, text, hadInferenceError, providerId, model
+        );
+
+        // 6. Calculate actual cost (0 on a cache hit)
+        const actualCost = estimateCostUSD(tokensUsed, model, providerId);
 
         // 7. Update usage meter
         await upsertUsage(tx, orgId, monthKey, tokensUsed, actualCost);
@@ -592,6 +747,7 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
           auditLogId: auditLog.id,
           inferenceLatencyMs,
           hadInferenceError,
+          cacheHit: aiResult.cacheHit,
         };
       } else if (taskType === 'negotiation-advice') {
         // -----------------------------------------------------------------
@@ -626,9 +782,14 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
         }
 
         // 5. Generate content (AI call — uses augmented prompt when RAG is active, extended timeout)
+        const cacheKeyNeg = responseCacheKey(
+          provider, model, taskType, systemInstruction, prompt, ragResult.contextBlock
+        );
         markInferenceStart(metricsHandle);
         const aiCallStart = Date.now();
-        const aiResult = await generateContent(promptForModelNeg, systemInstruction, 10000);
+        const aiResult =
+          (await lookupCachedContent(tx, orgId, taskType, cacheKeyNeg, onDelta)) ??
+          (await generateContent(provider, taskType, promptForModelNeg, systemInstruction, 10000, onDelta));
         const inferenceLatencyMs = Date.now() - aiCallStart;
         recordInferenceLatency(metricsHandle);
         recordTotalLatency(metricsHandle);
@@ -650,8 +811,12 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
           hadInferenceError = true;
         }
 
-        // 6. Calculate actual cost
-        const actualCost = estimateCostUSD(tokensUsed, model);
+        await cacheGeneratedContent(
+          tx, orgId, taskType, cacheKeyNeg, aiResult, text, hadInferenceError, providerId, model
+        );
+
+        // 6. Calculate actual cost (0 on a cache hit)
+        const actualCost = estimateCostUSD(tokensUsed, model, providerId);
 
         // 7. Update usage meter
         await upsertUsage(tx, orgId, monthKey, tokensUsed, actualCost);
@@ -705,6 +870,7 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
           inferenceLatencyMs,
           hadInferenceError,
           riskFlags,
+          cacheHit: aiResult.cacheHit,
         };
       } else if (taskType === 'rfq-assist') {
         // -----------------------------------------------------------------
@@ -715,7 +881,12 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
         //      Prevents P2028 tx timeout: gemini-2.5-flash latency > 5 s Prisma default.
         //      Prompt assembly + PII pre-send scan + AI call executed before withDbContext().
         //      Only DB writes (usage meter, reasoning log, audit log) run inside the tx.
-        const { promptForModel: promptForModelRfq, result: aiResultRfq, inferenceLatencyMs } = rfqAiPrecomputed!;
+        const {
+          promptForModel: promptForModelRfq,
+          result: aiResultRfq,
+          inferenceLatencyMs,
+          cacheKey: cacheKeyRfq,
+        } = rfqAiPrecomputed!;
 
         const { text: rawTextRfq, tokensUsed, hadInferenceError: rawHadInferenceErrorRfq } = aiResultRfq;
 
@@ -733,8 +904,12 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
           hadInferenceError = true;
         }
 
-        // 6. Calculate actual cost
-        const actualCost = estimateCostUSD(tokensUsed, model);
+        await cacheGeneratedContent(
+          tx, orgId, taskType, cacheKeyRfq, aiResultRfq, text, hadInferenceError, providerId, model
+        );
+
+        // 6. Calculate actual cost (0 on a cache hit)
+        const actualCost = estimateCostUSD(tokensUsed, model, providerId);
 
         // 7. Update usage meter
         await upsertUsage(tx, orgId, monthKey, tokensUsed, actualCost);
@@ -776,6 +951,7 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
           auditLogId: auditLog.id,
           inferenceLatencyMs,
           hadInferenceError,
+          cacheHit: aiResultRfq.cacheHit,
         };
       } else {
         // -----------------------------------------------------------------
@@ -793,6 +969,7 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
           promptForModel: promptForModelSpc,
           result: aiResultSpc,
           inferenceLatencyMs,
+          cacheKey: cacheKeySpc,
         } = supplierProfileAiPrecomputed;
 
         const { text: rawTextSpc, tokensUsed, hadInferenceError: rawHadSpc } = aiResultSpc;
@@ -811,8 +988,12 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
           hadInferenceError = true;
         }
 
-        // 6. Calculate actual cost
-        const actualCost = estimateCostUSD(tokensUsed, model);
+        await cacheGeneratedContent(
+          tx, orgId, taskType, cacheKeySpc, aiResultSpc, text, hadInferenceError, providerId, model
+        );
+
+        // 6. Calculate actual cost (0 on a cache hit)
+        const actualCost = estimateCostUSD(tokensUsed, model, providerId);
 
         // 7. Update usage meter
         await upsertUsage(tx, orgId, monthKey, tokensUsed, actualCost);
@@ -865,6 +1046,7 @@ export async function runAiInference(input: AiInferenceInput): Promise<AiInferen
           auditLogId: auditLog.id,
           inferenceLatencyMs,
           hadInferenceError,
+          cacheHit: aiResultSpc.cacheHit,
         };
       }
     });
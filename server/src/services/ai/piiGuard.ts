@@ -4,8 +4,9 @@
  * TIS-local PII scanning and redaction helper.
  *
  * Implements deterministic, regex-based PII detection for the TIS boundary.
- * Used exclusively by inferenceService.ts for pre-send redaction and
- * post-receive leak blocking.
+ * Used by inferenceService.ts and passportAssistant.ts for pre-send redaction,
+ * post-receive leak blocking and, for streamed responses, per-chunk leak
+ * blocking (createPiiStreamGuard, AI-STREAM-001).
  *
  * RULES:
  * - Pattern-based only. No external services. No LLM classification.
@@ -151,3 +152,65 @@ export function redactPii(text: string): PiiRedactResult {
     redacted,
   };
 }
+
+// ---------------------------------------------------------------------------
+// Streaming guard (AI-STREAM-001)
+// ---------------------------------------------------------------------------
+
+/**
+ * Characters held back from the end of a stream before they are forwarded.
+ * Covers the longest whitespace-containing pattern (CARD, 19 chars) with margin;
+ * patterns without whitespace are held whole by the word-boundary rule below.
+ */
+export const PII_STREAM_HOLDBACK_CHARS = 32;
+
+/**
+ * Incremental post-receive guard for streamed model output.
+ *
+ * push() rescans everything received so far and returns only the text that can no
+ * longer become part of a match: the tail is held back by PII_STREAM_HOLDBACK_CHARS
+ * and then to the previous whitespace, so a partially received email or ID is never
+ * forwarded. On the first match the stream is cut — push() and flush() return '' from
+ * then on, and the caller replaces the final response exactly as for non-streamed output.
+ */
+export interface PiiStreamGuard {
+  /** Feeds a model fragment; returns the text now safe to forward (may be ''). */
+  push(delta: string): string;
+  /** Releases the held-back tail once the model has finished. */
+  flush(): string;
+  /** Scan of everything pushed so far; hasMatches means the stream was cut. */
+  readonly scan: PiiScanResult;
+}
+
+export function createPiiStreamGuard(): PiiStreamGuard {
+  let received = '';
+  let forwarded = 0;
+  let scan: PiiScanResult = { hasMatches: false, categories: [], matchCount: 0 };
+
+  return {
+    push(delta: string): string {
+      if (scan.hasMatches) return '';
+      received += delta;
+      scan = scanForPii(received);
+      if (scan.hasMatches) return '';
+
+      let safeEnd = received.length - PII_STREAM_HOLDBACK_CHARS;
+      while (safeEnd > forwarded && /\S/.test(received[safeEnd - 1] ?? '')) {
+        safeEnd -= 1;
+      }
+      if (safeEnd <= forwarded) return '';
+      const safe = received.slice(forwarded, safeEnd);
+      forwarded = safeEnd;
+      return safe;
+    },
+    flush(): string {
+      if (scan.hasMatches) return '';
+      const rest = received.slice(forwarded);
+      forwarded = received.length;
+      return rest;
+    },
+    get scan(): PiiScanResult {
+      return scan;
+    },
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * AI-PROVIDER-001 — Provider registry wired from server config.
+ *
+ * Call sites use resolveAiProvider() (deployment selection) or resolveTenantAiProvider()
+ * (tenant setting first). Unit tests construct AiProviderRegistry directly, or swap the
+ * process-wide registry with _overrideAiProviderRegistryForTests().
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { config } from '../../../config/index.js';
+import { withDbContext, type DatabaseContext } from '../../../lib/database-context.js';
+import { FixtureProvider, loadAiFixtureFile } from './fixtureProvider.js';
+import { GeminiProvider } from './geminiProvider.js';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider.js';
+import {
+  AiProviderRegistry,
+  parseAiProviderTaskOverrides,
+  type AiProviderRegistryOptions,
+} from './registry.js';
+import { loadTenantAiProviderChoice } from './tenantProviderSettings.js';
+import type { AiProvider, AiProviderTask } from './types.js';
+
+function buildRegistryFromConfig(): AiProviderRegistry {
+  const providers: AiProviderRegistryOptions['providers'] = {
+    fixture: () =>
+      new FixtureProvider(config.AI_FIXTURE_FILE ? loadAiFixtureFile(config.AI_FIXTURE_FILE) : []),
+  };
+
+  const geminiApiKey = config.GEMINI_API_KEY;
+  if (geminiApiKey) {
+    providers.gemini = () => GeminiProvider.fromApiKey(geminiApiKey);
+  }
+
+  const openAiBaseUrl = config.AI_OPENAI_COMPAT_BASE_URL;
+  if (openAiBaseUrl) {
+    providers['openai-compatible'] = () =>
+      new OpenAiCompatibleProvider({
+        baseUrl: openAiBaseUrl,
+        apiKey: config.AI_OPENAI_COMPAT_API_KEY,
+        textModel: config.AI_OPENAI_COMPAT_MODEL,
+        embeddingModel: config.AI_OPENAI_COMPAT_EMBEDDING_MODEL,
+        fetch: (url, init) => fetch(url, init),
+      });
+  }
+
+  return new AiProviderRegistry({
+    defaultProvider: config.AI_PROVIDER,
+    taskOverrides: parseAiProviderTaskOverrides(config.AI_PROVIDER_TASK_OVERRIDES),
+    providers,
+  });
+}
+
+let registry: AiProviderRegistry | null = null;
+
+export function getAiProviderRegistry(): AiProviderRegistry {
+  if (!registry) {
+    registry = buildRegistryFromConfig();
+  }
+  return registry;
+}
+
+/**
+ * Replace the process-wide registry for tests. Pass `null` to rebuild from config.
+ * MUST be called in beforeEach / afterEach to avoid cross-test pollution.
+ */
+export function _overrideAiProviderRegistryForTests(instance: AiProviderRegistry | null): void {
+  registry = instance;
+}
+
+/** Deployment-level provider for a task, or null when it is not configured (degraded mode). */
+export function resolveAiProvider(task: AiProviderTask): AiProvider | null {
+  return getAiProviderRegistry().resolve(task);
+}
+
+/**
+ * Provider for a tenant-scoped task: the tenant's setting when its provider is configured,
+ * else the deployment selection. A failed settings read falls back to the deployment
+ * selection — provider choice never fails the AI request.
+ *
+ * MUST be called outside any open transaction (opens its own withDbContext).
+ */
+export async function resolveTenantAiProvider(
+  prisma: PrismaClient,
+  dbContext: DatabaseContext,
+  task: AiProviderTask
+): Promise<AiProvider | null> {
+  let tenantChoice = null;
+  try {
+    tenantChoice = await withDbContext(prisma, dbContext, tx =>
+      loadTenantAiProviderChoice(tx, dbContext.orgId, task)
+    );
+  } catch (error) {
+    console.warn('[AiProvider] tenant provider setting lookup failed — using deployment default', error);
+  }
+  return getAiProviderRegistry().resolve(task, tenantChoice);
+}
@@ -0,0 +1,101 @@
+/**
+ * AI-PROVIDER-001 — Deterministic offline provider for development and CI.
+ *
+ * Text: the first fixture entry whose task and promptContains match, else a stable
+ * placeholder derived from a hash of the prompt. Callers that expect JSON output fall
+ * back to their deterministic paths on the placeholder, exactly as on a model error.
+ *
+ * Streaming replays the same text in word-sized deltas.
+ *
+ * Embeddings: a unit-length EMBEDDING_DIM vector seeded by SHA-256 of the text, so the
+ * same text always maps to the same vector and similarity search is reproducible.
+ *
+ * Fixture file (AI_FIXTURE_FILE), JSON:
+ *   { "responses": [ { "task": "passport-assistant", "promptContains": "GOTS", "text": "{…}" } ] }
+ * task and promptContains are optional filters.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { EMBEDDING_DIM } from '../../../lib/vectorStore.js';
+import {
+  AI_PROVIDER_TASKS,
+  estimateTokens,
+  type AiProvider,
+  type AiTextRequest,
+  type AiTextResult,
+} from './types.js';
+
+export const FIXTURE_TEXT_MODEL = 'fixture-text' as const;
+export const FIXTURE_EMBEDDING_MODEL = 'fixture-embedding' as const;
+
+const fixtureFileSchema = z.object({
+  responses: z
+    .array(
+      z.object({
+        task: z.enum(AI_PROVIDER_TASKS).optional(),
+        promptContains: z.string().min(1).optional(),
+        text: z.string(),
+      })
+    )
+    .default([]),
+});
+
+export type AiFixtureResponse = z.infer<typeof fixtureFileSchema>['responses'][number];
+
+/** Reads and validates a fixture file. Throws when the file is missing or malformed. */
+export function loadAiFixtureFile(path: string): AiFixtureResponse[] {
+  const parsed = fixtureFileSchema.safeParse(JSON.parse(readFileSync(path, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid AI fixture file ${path}: ${parsed.error.errors[0]?.message ?? 'bad shape'}`);
+  }
+  return parsed.data.responses;
+}
+
+export class FixtureProvider implements AiProvider {
+  readonly id = 'fixture' as const;
+  readonly textModel = FIXTURE_TEXT_MODEL;
+  readonly embeddingModel = FIXTURE_EMBEDDING_MODEL;
+
+  constructor(private readonly responses: readonly AiFixtureResponse[] = []) {}
+
+  async generateText(request: AiTextRequest): Promise<AiTextResult> {
+    const match = this.responses.find(
+      entry =>
+        (entry.task === undefined || entry.task === request.task) &&
+        (entry.promptContains === undefined || request.prompt.includes(entry.promptContains))
+    );
+    const text =
+      match?.text ??
+      `[fixture:${request.task}] ${createHash('sha256')
+        .update(`${request.systemInstruction ?? ''}\n${request.prompt}`)
+        .digest('hex')
+        .slice(0, 16)}`;
+    return { text, tokensUsed: estimateTokens(request.prompt, text), model: this.textModel };
+  }
+
+  /** Replays generateText output word by word so streaming consumers see several deltas. */
+  async streamText(
+    request: AiTextRequest,
+    onDelta: (delta: string) => void
+  ): Promise<AiTextResult> {
+    const result = await this.generateText(request);
+    for (const delta of result.text.match(/\S+\s*|\s+/g) ?? []) {
+      onDelta(delta);
+    }
+    return result;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const values: number[] = [];
+    for (let block = 0; values.length < EMBEDDING_DIM; block++) {
+      const digest = createHash('sha256').update(`${block}:${text}`).digest();
+      for (let offset = 0; offset < digest.length && values.length < EMBEDDING_DIM; offset += 2) {
+        values.push(digest.readUInt16BE(offset) / 32767.5 - 1);
+      }
+    }
+    const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return values.map(value => value / norm);
+  }
+}
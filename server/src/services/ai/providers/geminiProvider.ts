@@ -0,0 +1,71 @@
+/**
+ * AI-PROVIDER-001 — Google Gemini provider (@google/generative-ai).
+ *
+ * Models are pinned: gemini-2.5-flash for text, text-embedding-004 (768 dims,
+ * ADR-028 §5.1) for embeddings.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  estimateTokens,
+  type AiProvider,
+  type AiTextRequest,
+  type AiTextResult,
+} from './types.js';
+
+export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash' as const;
+export const GEMINI_EMBEDDING_MODEL = 'text-embedding-004' as const;
+
+export class GeminiProvider implements AiProvider {
+  readonly id = 'gemini' as const;
+  readonly textModel = GEMINI_TEXT_MODEL;
+  readonly embeddingModel = GEMINI_EMBEDDING_MODEL;
+
+  constructor(private readonly client: GoogleGenerativeAI) {}
+
+  static fromApiKey(apiKey: string): GeminiProvider {
+    return new GeminiProvider(new GoogleGenerativeAI(apiKey));
+  }
+
+  async generateText(request: AiTextRequest): Promise<AiTextResult> {
+    const model = this.client.getGenerativeModel({
+      model: this.textModel,
+      systemInstruction: request.systemInstruction,
+    });
+    const result = await model.generateContent(request.prompt);
+    const text = result.response.text();
+    // The SDK does not always return usageMetadata; fall back to the char heuristic.
+    const tokensUsed =
+      result.response.usageMetadata?.totalTokenCount ?? estimateTokens(request.prompt, text);
+    return { text, tokensUsed, model: this.textModel };
+  }
+
+  async streamText(
+    request: AiTextRequest,
+    onDelta: (delta: string) => void
+  ): Promise<AiTextResult> {
+    const model = this.client.getGenerativeModel({
+      model: this.textModel,
+      systemInstruction: request.systemInstruction,
+    });
+    const result = await model.generateContentStream(request.prompt);
+    let text = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    }
+    const response = await result.response;
+    const tokensUsed = response.usageMetadata?.totalTokenCount ?? estimateTokens(request.prompt, text);
+    return { text, tokensUsed, model: this.textModel };
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const model = this.client.getGenerativeModel({ model: this.embeddingModel });
+    const result = await model.embedContent(text);
+    // Spread Float32Array (or number[]) into plain number[]
+    return Array.from(result.embedding.values ?? []);
+  }
+}
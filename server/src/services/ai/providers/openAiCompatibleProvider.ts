@@ -0,0 +1,188 @@
+/**
+ * AI-PROVIDER-001 — OpenAI-compatible HTTP provider.
+ *
+ * Speaks POST {baseUrl}/chat/completions and POST {baseUrl}/embeddings, the API shape
+ * served by local runtimes (Ollama, vLLM, llama.cpp server, LM Studio) as well as hosted
+ * gateways. baseUrl includes the version segment, e.g. http://localhost:11434/v1.
+ *
+ * streamText() sets `stream: true` and reads the `data:` lines of the SSE response; usage is
+ * requested via `stream_options.include_usage` and estimated when the server omits it.
+ *
+ * Embeddings request `dimensions: EMBEDDING_DIM`; models that ignore the parameter must
+ * natively produce 768-dim vectors or generateEmbedding() rejects them.
+ */
+
+import { EMBEDDING_DIM } from '../../../lib/vectorStore.js';
+import {
+  AiProviderError,
+  estimateTokens,
+  type AiProvider,
+  type AiTextRequest,
+  type AiTextResult,
+} from './types.js';
+
+export interface OpenAiCompatibleProviderOptions {
+  baseUrl: string;
+  /** Sent as a Bearer token when set; local runtimes usually need none. */
+  apiKey?: string;
+  textModel: string;
+  embeddingModel: string;
+  fetch: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { total_tokens?: number };
+  model?: string;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: { total_tokens?: number } | null;
+}
+
+interface EmbeddingResponse {
+  data?: Array<{ embedding?: number[] }>;
+}
+
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly id = 'openai-compatible' as const;
+  readonly textModel: string;
+  readonly embeddingModel: string;
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: OpenAiCompatibleProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.textModel = options.textModel;
+    this.embeddingModel = options.embeddingModel;
+  }
+
+  async generateText(request: AiTextRequest): Promise<AiTextResult> {
+    const body = await this.post<ChatCompletionResponse>('/chat/completions', {
+      model: this.textModel,
+      messages: chatMessages(request),
+    });
+    const text = body.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new AiProviderError(this.id, 'chat completion response has no message content');
+    }
+    return {
+      text,
+      tokensUsed: body.usage?.total_tokens ?? estimateTokens(request.prompt, text),
+      model: this.textModel,
+    };
+  }
+
+  async streamText(
+    request: AiTextRequest,
+    onDelta: (delta: string) => void
+  ): Promise<AiTextResult> {
+    const response = await this.send('/chat/completions', {
+      model: this.textModel,
+      messages: chatMessages(request),
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    if (!response.body) {
+      throw new AiProviderError(this.id, '/chat/completions returned no stream body');
+    }
+
+    let text = '';
+    let reportedTokens: number | undefined;
+    const handleLine = (line: string): void => {
+      if (!line.startsWith('data:')) return;
+      const data = line.slice(5).trim();
+      if (!data || data === '[DONE]') return;
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data) as ChatCompletionChunk;
+      } catch {
+        throw new AiProviderError(this.id, '/chat/completions stream contained a non-JSON event');
+      }
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta.length > 0) {
+        text += delta;
+        onDelta(delta);
+      }
+      if (typeof chunk.usage?.total_tokens === 'number') {
+        reportedTokens = chunk.usage.total_tokens;
+      }
+    };
+
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+    let buffered = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += decoder.decode(value, { stream: true });
+      const lines = buffered.split(/\r?\n/);
+      buffered = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    handleLine((buffered + decoder.decode()).trim());
+
+    return {
+      text,
+      tokensUsed: reportedTokens ?? estimateTokens(request.prompt, text),
+      model: this.textModel,
+    };
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const body = await this.post<EmbeddingResponse>('/embeddings', {
+      model: this.embeddingModel,
+      input: text,
+      dimensions: EMBEDDING_DIM,
+    });
+    const embedding = body.data?.[0]?.embedding;
+    if (!Array.isArray(embedding)) {
+      throw new AiProviderError(this.id, 'embedding response has no vector');
+    }
+    return embedding;
+  }
+
+  private async post<T>(path: string, payload: unknown): Promise<T> {
+    const response = await this.send(path, payload);
+    try {
+      return (await response.json()) as T;
+    } catch {
+      throw new AiProviderError(this.id, `${path} returned a non-JSON body`);
+    }
+  }
+
+  private async send(path: string, payload: unknown): Promise<Response> {
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await this.options.fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(payload),
+      });
+    } catch (error) {
+      throw new AiProviderError(
+        this.id,
+        `request to ${path} failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!response.ok) {
+      // Response bodies can echo prompt content — report the status only.
+      throw new AiProviderError(this.id, `${path} returned HTTP ${response.status}`);
+    }
+    return response;
+  }
+}
+
+function chatMessages(request: AiTextRequest): Array<{ role: 'system' | 'user'; content: string }> {
+  const messages: Array<{ role: 'system' | 'user'; content: string }> = [];
+  if (request.systemInstruction) {
+    messages.push({ role: 'system', content: request.systemInstruction });
+  }
+  messages.push({ role: 'user', content: request.prompt });
+  return messages;
+}
@@ -0,0 +1,91 @@
+/**
+ * AI-PROVIDER-001 — Provider selection.
+ *
+ * Resolution order for a task:
+ *   1. the tenant's setting (tenant_ai_provider_settings), when that provider is
+ *      configured on this deployment — text tasks only, never 'embedding';
+ *   2. the deployment task override (AI_PROVIDER_TASK_OVERRIDES);
+ *   3. the deployment default (AI_PROVIDER).
+ * resolve() returns null when the selected provider is not configured, and callers keep
+ * their existing degraded-mode behaviour.
+ *
+ * Embeddings are never selected per tenant: every vector in document_embeddings must come
+ * from the same model for similarity scores to be comparable.
+ */
+
+import {
+  AI_PROVIDER_IDS,
+  AI_PROVIDER_TASKS,
+  type AiProvider,
+  type AiProviderId,
+  type AiProviderTask,
+} from './types.js';
+
+export type AiProviderTaskOverrides = Partial<Record<AiProviderTask, AiProviderId>>;
+
+export interface AiProviderRegistryOptions {
+  defaultProvider: AiProviderId;
+  taskOverrides: AiProviderTaskOverrides;
+  /** Builders for the providers configured on this deployment; each runs at most once. */
+  providers: Partial<Record<AiProviderId, () => AiProvider>>;
+}
+
+function isProviderId(value: string): value is AiProviderId {
+  return (AI_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+function isProviderTask(value: string): value is AiProviderTask {
+  return (AI_PROVIDER_TASKS as readonly string[]).includes(value);
+}
+
+/**
+ * Parses AI_PROVIDER_TASK_OVERRIDES, e.g. "rfq-assist=openai-compatible,embedding=fixture".
+ * Throws on unknown tasks or providers so a typo fails at boot rather than silently
+ * falling back to the default.
+ */
+export function parseAiProviderTaskOverrides(raw: string | undefined): AiProviderTaskOverrides {
+  const overrides: AiProviderTaskOverrides = {};
+  for (const entry of (raw ?? '').split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const [task, provider, ...rest] = trimmed.split('=').map(part => part.trim());
+    if (!task || !provider || rest.length > 0 || !isProviderTask(task) || !isProviderId(provider)) {
+      throw new Error(`Invalid AI_PROVIDER_TASK_OVERRIDES entry "${trimmed}"`);
+    }
+    overrides[task] = provider;
+  }
+  return overrides;
+}
+
+export class AiProviderRegistry {
+  private readonly instances = new Map<AiProviderId, AiProvider>();
+
+  constructor(private readonly options: AiProviderRegistryOptions) {}
+
+  isConfigured(id: AiProviderId): boolean {
+    return this.options.providers[id] !== undefined;
+  }
+
+  /** The configured provider instance, or null when this deployment has no credentials for it. */
+  get(id: AiProviderId): AiProvider | null {
+    const existing = this.instances.get(id);
+    if (existing) return existing;
+    const build = this.options.providers[id];
+    if (!build) return null;
+    const provider = build();
+    this.instances.set(id, provider);
+    return provider;
+  }
+
+  /** Deployment-level choice for a task (override, else default), ignoring tenant settings. */
+  deploymentProviderId(task: AiProviderTask): AiProviderId {
+    return this.options.taskOverrides[task] ?? this.options.defaultProvider;
+  }
+
+  resolve(task: AiProviderTask, tenantChoice: AiProviderId | null = null): AiProvider | null {
+    if (tenantChoice && task !== 'embedding' && this.isConfigured(tenantChoice)) {
+      return this.get(tenantChoice);
+    }
+    return this.get(this.deploymentProviderId(task));
+  }
+}
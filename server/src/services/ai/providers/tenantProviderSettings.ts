@@ -0,0 +1,99 @@
+/**
+ * AI-PROVIDER-001 — Per-tenant provider settings (tenant_ai_provider_settings).
+ *
+ * Reads run under the tenant's RLS context; writes require app.is_admin (control plane).
+ * A '*' row applies to every text task without a task-specific row.
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { AI_PROVIDER_IDS, type AiProviderId, type AiProviderTask } from './types.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+/** Tasks a tenant can be pinned for. Embeddings and control-plane insights are deployment-wide. */
+export const TENANT_AI_PROVIDER_TASKS = [
+  '*',
+  'insights',
+  'negotiation-advice',
+  'rfq-assist',
+  'supplier-profile-completeness',
+  'passport-assistant',
+  'document-extraction',
+] as const;
+export type TenantAiProviderTask = (typeof TENANT_AI_PROVIDER_TASKS)[number];
+
+export interface TenantAiProviderSettingRecord {
+  task: TenantAiProviderTask;
+  provider: AiProviderId;
+  updatedByAdminId: string | null;
+  updatedAt: Date;
+}
+
+function isProviderId(value: string): value is AiProviderId {
+  return (AI_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+/** The tenant's provider for a task (task row, else '*' row), or null when unset. */
+export async function loadTenantAiProviderChoice(
+  db: DbClient,
+  tenantId: string,
+  task: AiProviderTask
+): Promise<AiProviderId | null> {
+  if (task === 'embedding' || task === 'control-plane-insights') return null;
+  const rows = await db.tenantAiProviderSetting.findMany({
+    where: { tenantId, task: { in: [task, '*'] } },
+    select: { task: true, provider: true },
+  });
+  const chosen = rows.find(row => row.task === task) ?? rows.find(row => row.task === '*');
+  return chosen && isProviderId(chosen.provider) ? chosen.provider : null;
+}
+
+export async function listTenantAiProviderSettings(
+  db: DbClient,
+  tenantId: string
+): Promise<TenantAiProviderSettingRecord[]> {
+  const rows = await db.tenantAiProviderSetting.findMany({
+    where: { tenantId },
+    orderBy: { task: 'asc' },
+    select: { task: true, provider: true, updatedByAdminId: true, updatedAt: true },
+  });
+  return rows.map(row => ({
+    task: row.task as TenantAiProviderTask,
+    provider: row.provider as AiProviderId,
+    updatedByAdminId: row.updatedByAdminId,
+    updatedAt: row.updatedAt,
+  }));
+}
+
+export async function upsertTenantAiProviderSetting(
+  db: DbClient,
+  input: { tenantId: string; task: TenantAiProviderTask; provider: AiProviderId; adminId: string }
+): Promise<TenantAiProviderSettingRecord> {
+  const row = await db.tenantAiProviderSetting.upsert({
+    where: { tenantId_task: { tenantId: input.tenantId, task: input.task } },
+    create: {
+      tenantId: input.tenantId,
+      task: input.task,
+      provider: input.provider,
+      updatedByAdminId: input.adminId,
+    },
+    update: { provider: input.provider, updatedByAdminId: input.adminId },
+    select: { task: true, provider: true, updatedByAdminId: true, updatedAt: true },
+  });
+  return {
+    task: row.task as TenantAiProviderTask,
+    provider: row.provider as AiProviderId,
+    updatedByAdminId: row.updatedByAdminId,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/** Returns false when the tenant had no setting for the task. */
+export async function deleteTenantAiProviderSetting(
+  db: DbClient,
+  tenantId: string,
+  task: TenantAiProviderTask
+): Promise<boolean> {
+  const { count } = await db.tenantAiProviderSetting.deleteMany({ where: { tenantId, task } });
+  return count > 0;
+}
@@ -0,0 +1,72 @@
+/**
+ * AI-PROVIDER-001 — Provider contracts shared by every model call site.
+ *
+ * A provider turns a prompt into text and a chunk into a 768-dim embedding. Call
+ * sites keep their own timeout guards, PII guards, budget checks and degraded-mode
+ * fallbacks; providers only perform the model call and throw on failure.
+ */
+
+/** Provider implementations selectable per deployment, tenant and task. */
+export const AI_PROVIDER_IDS = ['gemini', 'openai-compatible', 'fixture'] as const;
+export type AiProviderId = (typeof AI_PROVIDER_IDS)[number];
+
+/**
+ * Model call sites a provider can be selected for. The first four match
+ * AiTaskType in inferenceService.ts.
+ */
+export const AI_PROVIDER_TASKS = [
+  'insights',
+  'negotiation-advice',
+  'rfq-assist',
+  'supplier-profile-completeness',
+  'passport-assistant',
+  'document-extraction',
+  'control-plane-insights',
+  'embedding',
+] as const;
+export type AiProviderTask = (typeof AI_PROVIDER_TASKS)[number];
+
+export interface AiTextRequest {
+  task: AiProviderTask;
+  prompt: string;
+  systemInstruction?: string;
+}
+
+export interface AiTextResult {
+  text: string;
+  /** Provider-reported usage when available, else the 1 token ≈ 4 chars estimate. */
+  tokensUsed: number;
+  /** Model that produced the text (for reasoning logs and cost estimation). */
+  model: string;
+}
+
+export interface AiProvider {
+  readonly id: AiProviderId;
+  readonly textModel: string;
+  readonly embeddingModel: string;
+  generateText(request: AiTextRequest): Promise<AiTextResult>;
+  /**
+   * Same contract as generateText, but calls onDelta with each text fragment as the model
+   * produces it (AI-STREAM-001). The resolved result carries the full text; fragments are
+   * unguarded model output and callers MUST pass them through a PiiStreamGuard.
+   */
+  streamText(request: AiTextRequest, onDelta: (delta: string) => void): Promise<AiTextResult>;
+  /** Returns the raw vector; generateEmbedding() validates its length against EMBEDDING_DIM. */
+  embed(text: string): Promise<number[]>;
+}
+
+/** A provider call failed (transport, HTTP status or malformed response). */
+export class AiProviderError extends Error {
+  constructor(
+    public readonly provider: AiProviderId,
+    message: string
+  ) {
+    super(`[${provider}] ${message}`);
+    this.name = 'AiProviderError';
+  }
+}
+
+/** Token estimate used when a provider does not report usage: 1 token ≈ 4 characters. */
+export function estimateTokens(...texts: string[]): number {
+  return Math.ceil(texts.reduce((sum, text) => sum + text.length, 0) / 4);
+}
@@ -54,6 +54,8 @@ export interface RfqAssistServiceInput {
   prisma: PrismaClient;
   /** RLS database context (injected by databaseContextMiddleware) */
   dbContext: DatabaseContext;
+  /** Streams PII-guarded fragments of the raw model output (AI-STREAM-001) */
+  onDelta?: (delta: string) => void;
 }
 
 export type RfqAssistServiceOk = {
@@ -134,7 +136,7 @@ function buildRfqAssistPrompt(ctx: RFQAssistantContext): { prompt: string; syste
 export async function runRfqAssistInference(
   input: RfqAssistServiceInput,
 ): Promise<RfqAssistServiceResult> {
-  const { context, monthKey, requestId, idempotencyKey, userId, prisma, dbContext } = input;
+  const { context, monthKey, requestId, idempotencyKey, userId, prisma, dbContext, onDelta } = input;
 
   const { prompt, systemInstruction } = buildRfqAssistPrompt(context);
 
@@ -172,6 +174,7 @@ export async function runRfqAssistInference(
     catalogItemId: context.catalogItemId,
     catalogItemStage: context.catalogItemStage,
     precomputedRagContextBlock: ragContextBlock,
+    onDelta,
   });
 
   const parseResult = parseRfqAssistSuggestions(inferenceResult.text);
@@ -27,7 +27,8 @@ import type {
 
 /**
  * Discriminator for each safe matching signal.
- * Mirrors the 14 permitted signal types from design §5.
+ * Mirrors the 14 permitted signal types from design §5, plus SUPPLIER_TRACK_RECORD
+ * (banded performance labels from the analytics projection — never counts or rates).
  */
 export type SupplierMatchSignalType =
   | 'CATALOG_STAGE'
@@ -43,7 +44,8 @@ export type SupplierMatchSignalType =
   | 'RELATIONSHIP_APPROVED'
   | 'SUPPLIER_CAPABILITY'
   | 'DPP_PUBLISHED'
-  | 'PRICE_DISCLOSURE_METADATA';
+  | 'PRICE_DISCLOSURE_METADATA'
+  | 'SUPPLIER_TRACK_RECORD';
 
 // ─── Source Entity ────────────────────────────────────────────────────────────
 
@@ -57,7 +59,8 @@ export type SupplierMatchSourceEntity =
   | 'ORG_PROFILE'
   | 'DPP_PUBLISHED'
   | 'RELATIONSHIP_ACCESS'
-  | 'PRICE_DISCLOSURE';
+  | 'PRICE_DISCLOSURE'
+  | 'SUPPLIER_PERFORMANCE';
 
 // ─── Match Category ───────────────────────────────────────────────────────────
 
@@ -72,7 +75,8 @@ export type SupplierMatchCategory =
   | 'RFQ_FIT'
   | 'GEOGRAPHY_FIT'
   | 'MOQ_FIT'
-  | 'RELATIONSHIP_APPROVED';
+  | 'RELATIONSHIP_APPROVED'
+  | 'TRACK_RECORD_FIT';
 
 // ─── Core Signal ──────────────────────────────────────────────────────────────
 
@@ -91,7 +95,7 @@ export type SupplierMatchCategory =
  * - audit metadata, private notes, relationship graph — internal only
  */
 export interface SupplierMatchSignal {
-  /** Signal discriminator — 14-value union. */
+  /** Signal discriminator — 15-value union. */
   signalType: SupplierMatchSignalType;
   /** Normalized, length-bounded text value (trimmed, max SIGNAL_VALUE_MAX_LENGTH chars). */
   value: string;
@@ -366,6 +370,8 @@ export interface SupplierMatchScoreBreakdown {
   geographyScore: number;
   /** Sum of RELATIONSHIP_APPROVED signal weights (small boost; never overrides gates). */
   relationshipBoost: number;
+  /** Sum of SUPPLIER_TRACK_RECORD signal weights. */
+  trackRecordScore: number;
   /** Total deterministic score (sum of all sub-scores). INTERNAL ONLY. */
   totalScore: number;
   /** Count of distinct match categories present in this candidate. */
@@ -62,6 +62,7 @@ export const CATEGORY_LABEL_MAP: Readonly<Record<SupplierMatchCategory, string>>
   GEOGRAPHY_FIT:        'Geography fit',
   MOQ_FIT:              'MOQ compatible',
   RELATIONSHIP_APPROVED: 'Connected supplier',
+  TRACK_RECORD_FIT:     'Reliable track record',
 } as const;
 
 /**
@@ -77,6 +78,7 @@ const CATEGORY_PRIORITY: Readonly<Record<SupplierMatchCategory, number>> = {
   GEOGRAPHY_FIT:        5,
   MOQ_FIT:              6,
   RELATIONSHIP_APPROVED: 7,
+  TRACK_RECORD_FIT:     8,
 } as const;
 
 // ─── Fallback Explanation ─────────────────────────────────────────────────────
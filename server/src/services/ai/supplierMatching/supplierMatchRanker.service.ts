@@ -32,6 +32,7 @@
  *   GEOGRAPHY:                 3  (geography fit)
  *   GSM:                       2  (supplementary textile spec)
  *   RELATIONSHIP_APPROVED:     2  (small boost; never overrides policy gates)
+ *   SUPPLIER_TRACK_RECORD:     2  (per banded label; supplementary)
  *   PRICE_DISCLOSURE_METADATA: 0  (neutral; no scoring benefit — constitutionally 0)
  *
  * Tie-breaking order (stable):
@@ -95,6 +96,7 @@ export const SIGNAL_SCORE_WEIGHTS: Readonly<Record<SupplierMatchSignalType, numb
   GEOGRAPHY:                 3,
   GSM:                       2,
   RELATIONSHIP_APPROVED:     2,
+  SUPPLIER_TRACK_RECORD:     2,
   PRICE_DISCLOSURE_METADATA: 0,
 } as const;
 
@@ -116,6 +118,7 @@ const SIGNAL_CATEGORY_MAP: Readonly<Partial<Record<SupplierMatchSignalType, Supp
   GEOGRAPHY:             'GEOGRAPHY_FIT',
   MOQ:                   'MOQ_FIT',
   RELATIONSHIP_APPROVED: 'RELATIONSHIP_APPROVED',
+  SUPPLIER_TRACK_RECORD: 'TRACK_RECORD_FIT',
   // PRICE_DISCLOSURE_METADATA: intentionally absent — no category
 } as const;
 
@@ -212,6 +215,7 @@ function scoreCandidateDraft(draft: SupplierMatchCandidateDraft): SupplierMatchS
   let moqScore = 0;
   let geographyScore = 0;
   let relationshipBoost = 0;
+  let trackRecordScore = 0;
   const categorySet = new Set<SupplierMatchCategory>();
 
   for (const signal of draft.signals) {
@@ -252,6 +256,9 @@ function scoreCandidateDraft(draft: SupplierMatchCandidateDraft): SupplierMatchS
       case 'RELATIONSHIP_APPROVED':
         relationshipBoost += weight;
         break;
+      case 'SUPPLIER_TRACK_RECORD':
+        trackRecordScore += weight;
+        break;
       case 'PRICE_DISCLOSURE_METADATA':
         // Constitutionally 0 — no scoring benefit; weight is already 0
         break;
@@ -268,7 +275,8 @@ function scoreCandidateDraft(draft: SupplierMatchCandidateDraft): SupplierMatchS
     certificationScore +
     moqScore +
     geographyScore +
-    relationshipBoost;
+    relationshipBoost +
+    trackRecordScore;
 
   return {
     rfqIntentScore,
@@ -278,6 +286,7 @@ function scoreCandidateDraft(draft: SupplierMatchCandidateDraft): SupplierMatchS
     moqScore,
     geographyScore,
     relationshipBoost,
+    trackRecordScore,
     totalScore,
     signalCategoryCount: categorySet.size,
   };
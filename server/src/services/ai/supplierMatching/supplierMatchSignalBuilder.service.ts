@@ -19,8 +19,8 @@
  * Deterministic signal type ordering (per design §Slice A):
  *   RFQ_INTENT → CATALOG_STAGE → PRODUCT_CATEGORY → MATERIAL → FABRIC_TYPE →
  *   COMPOSITION → GSM → CERTIFICATION → GEOGRAPHY → MOQ →
- *   RELATIONSHIP_APPROVED → SUPPLIER_CAPABILITY → PRICE_DISCLOSURE_METADATA →
- *   DPP_PUBLISHED
+ *   RELATIONSHIP_APPROVED → SUPPLIER_CAPABILITY → SUPPLIER_TRACK_RECORD →
+ *   PRICE_DISCLOSURE_METADATA → DPP_PUBLISHED
  *
  * FORBIDDEN IMPORTS — NEVER add these to this file:
  * - inferenceService  (no AI model calls in this layer)
@@ -59,10 +59,23 @@ const SIGNAL_TYPE_ORDER: readonly SupplierMatchSignalType[] = [
   'MOQ',
   'RELATIONSHIP_APPROVED',
   'SUPPLIER_CAPABILITY',
+  'SUPPLIER_TRACK_RECORD',
   'PRICE_DISCLOSURE_METADATA',
   'DPP_PUBLISHED',
 ] as const;
 
+/**
+ * Supplier track record bands (SUPPLIER_TRACK_RECORD). A label is emitted only when
+ * its rate reaches the threshold over at least TRACK_RECORD_MIN_SAMPLE outcomes —
+ * the signal value is the label, never the count or the rate.
+ */
+export const TRACK_RECORD_MIN_SAMPLE = 5 as const;
+const TRACK_RECORD_BANDS = {
+  RESPONDS_WITHIN_24H: 0.8,
+  ON_TIME_DELIVERY: 0.9,
+  COMPETITIVE_POOL_QUOTES: 0.3,
+} as const;
+
 /**
  * Forbidden field names that MUST be excluded from any signal input.
  * These are checked at runtime as a defense-in-depth layer on top of
@@ -263,6 +276,25 @@ export interface SafePublishedDppContextInput {
   // aiDraftData: EXCLUDED — AI extraction data must not feed back into signals
 }
 
+/**
+ * AI-safe supplier performance input, from the supplier_performance_summaries
+ * projection (outcome counts over its trailing window).
+ *
+ * Excluded:
+ * - spend / trade amounts / quote amounts — monetary values never enter AI paths
+ * - response minutes — only the banded within-24h label is signalled
+ */
+export interface SafeSupplierPerformanceInput {
+  supplierOrgId?: string;
+  rfqReceivedCount?: number;
+  respondedWithin24hCount?: number;
+  fulfilmentDueCount?: number;
+  fulfilmentOnTimeCount?: number;
+  poolQuoteDecidedCount?: number;
+  poolQuoteWonCount?: number;
+  // totalAmount / grossAmount / quoteAmount: EXCLUDED — constitutionally forbidden
+}
+
 // ─── Builder Input ────────────────────────────────────────────────────────────
 
 /**
@@ -287,6 +319,8 @@ export interface SupplierMatchSignalBuilderInput {
   priceDisclosureContexts?: SafePriceDisclosureContextInput[];
   /** Server-validated published DPP contexts. */
   publishedDppContexts?: SafePublishedDppContextInput[];
+  /** Supplier performance summaries (outcome counts only). */
+  supplierPerformance?: SafeSupplierPerformanceInput[];
 }
 
 // ─── Internal helpers ─────────────────────────────────────────────────────────
@@ -498,6 +532,35 @@ function extractPublishedDppContextSignals(dpp: SafePublishedDppContextInput): S
   return [makeSignal('DPP_PUBLISHED', publishedRef, 'DPP_PUBLISHED', sourceId)];
 }
 
+/** True when `part / whole` reaches `threshold` over at least TRACK_RECORD_MIN_SAMPLE outcomes. */
+function meetsBand(part: unknown, whole: unknown, threshold: number): boolean {
+  if (typeof part !== 'number' || typeof whole !== 'number') return false;
+  if (!Number.isFinite(part) || !Number.isFinite(whole)) return false;
+  if (whole < TRACK_RECORD_MIN_SAMPLE || part < 0 || part > whole) return false;
+  return part / whole >= threshold;
+}
+
+/**
+ * Extract banded track record labels from a supplier performance input.
+ * Below the minimum sample a rate is not signalled at all.
+ */
+function extractSupplierPerformanceSignals(perf: SafeSupplierPerformanceInput): SupplierMatchSignal[] {
+  const signals: SupplierMatchSignal[] = [];
+  const sourceId = typeof perf.supplierOrgId === 'string' ? perf.supplierOrgId : undefined;
+
+  if (meetsBand(perf.respondedWithin24hCount, perf.rfqReceivedCount, TRACK_RECORD_BANDS.RESPONDS_WITHIN_24H)) {
+    signals.push(makeSignal('SUPPLIER_TRACK_RECORD', 'RESPONDS_WITHIN_24H', 'SUPPLIER_PERFORMANCE', sourceId));
+  }
+  if (meetsBand(perf.fulfilmentOnTimeCount, perf.fulfilmentDueCount, TRACK_RECORD_BANDS.ON_TIME_DELIVERY)) {
+    signals.push(makeSignal('SUPPLIER_TRACK_RECORD', 'ON_TIME_DELIVERY', 'SUPPLIER_PERFORMANCE', sourceId));
+  }
+  if (meetsBand(perf.poolQuoteWonCount, perf.poolQuoteDecidedCount, TRACK_RECORD_BANDS.COMPETITIVE_POOL_QUOTES)) {
+    signals.push(makeSignal('SUPPLIER_TRACK_RECORD', 'COMPETITIVE_POOL_QUOTES', 'SUPPLIER_PERFORMANCE', sourceId));
+  }
+
+  return signals;
+}
+
 // ─── Public API ───────────────────────────────────────────────────────────────
 
 /**
@@ -588,6 +651,18 @@ export function buildSupplierMatchSignals(
     }
   }
 
+  // 7. Supplier track record signals (banded labels, minimum sample gate)
+  if (Array.isArray(input.supplierPerformance)) {
+    for (const perf of input.supplierPerformance) {
+      if (perf == null || typeof perf !== 'object') continue;
+      try {
+        rawSignals.push(...extractSupplierPerformanceSignals(perf));
+      } catch {
+        // Skip malformed input — never throw
+      }
+    }
+  }
+
   // Deduplicate by (signalType, sourceEntity, value)
   const seen = new Set<string>();
   const deduplicated: SupplierMatchSignal[] = [];
@@ -0,0 +1,652 @@
+/**
+ * Audit Log Chain — Seal, Verify, Export
+ * Task ID: AUDIT-CHAIN-001
+ *
+ * audit_logs stays exactly as writeAuditLog() writes it; tamper evidence is layered on
+ * top in two append-only tables:
+ *
+ *   sealAuditChains()   'audit.chain.seal' job — appends every not-yet-sealed audit row to
+ *                       its (realm, tenant) chain in audit_log_chain_entries, linking it to
+ *                       the previous entry's hash, and at most every
+ *                       AUDIT_CHAIN_CHECKPOINT_INTERVAL_MS signs the chain head into
+ *                       audit_log_chain_checkpoints.
+ *   verifyAuditChain()  walks a chain and reports seq gaps, broken links, deleted or edited
+ *                       audit rows, bad or truncated checkpoints and stale unsealed rows.
+ *   buildAuditExportBundle()  ZIP of audit-log.jsonl + checkpoints.jsonl + manifest.json +
+ *                       manifest.sig (Ed25519) for an audit created_at range.
+ *
+ * Sealing is asynchronous so the audit write path gains no lock or extra query. Seal order
+ * is commit-visible order, not created_at order: a row from a long transaction is simply
+ * sealed later. A row inserted behind the seal watermark (e.g. backdated by hand) is never
+ * sealed and is reported as UNSEALED_ROWS.
+ *
+ * CONSTRAINTS:
+ *   - The seal job runs under withAdminContext — audit_logs is RLS-protected.
+ *   - One chain is extended by one transaction at a time (pg_advisory_xact_lock per chain key).
+ *   - Verification and export read through the caller's context; tenant callers pass their
+ *     own TENANT chain only.
+ *
+ * @module auditChain.service
+ */
+
+import type { AuditLog, Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../../config/index.js';
+import { withAdminContext } from '../../lib/database-context.js';
+import {
+  AUDIT_CHAIN_GENESIS_HASH,
+  AUDIT_CHAIN_SIGNATURE_ALGORITHM,
+  canonicalJson,
+  computeAuditChainHash,
+  getAuditChainSigningKey,
+  sha256Hex,
+  signAuditCheckpoint,
+  signAuditManifest,
+  verifyAuditCheckpoint,
+} from '../../lib/auditChainSigning.js';
+import { writeZipArchive } from '../../lib/zipArchive.js';
+import {
+  AUDIT_EXPORT_FORMAT,
+  type AuditChainIssue,
+  type AuditChainRecord,
+  type AuditChainRef,
+  type AuditChainSealResult,
+  type AuditChainStatus,
+  type AuditChainVerification,
+  type AuditExportBundle,
+  type AuditExportManifest,
+} from './auditChain.types.js';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const SEAL_BATCH_SIZE = 500;
+const SEAL_MAX_BATCHES_PER_RUN = 20;
+/** Rows created this long before the newest sealed row are still picked up by the sealer. */
+const SEAL_LOOKBACK_SECONDS = 60 * 60;
+const CHAIN_PAGE_SIZE = 1_000;
+const MAX_REPORTED_ISSUES = 100;
+
+/** Unsealed rows younger than this are in flight, not suspicious. */
+export const AUDIT_CHAIN_UNSEALED_GRACE_MS = 10 * 60_000;
+export const AUDIT_EXPORT_MAX_ENTRIES = 100_000;
+export const AUDIT_EXPORT_MAX_RANGE_DAYS = 366;
+
+const AUDIT_EXPORT_LOG_FILE = 'audit-log.jsonl';
+const AUDIT_EXPORT_CHECKPOINT_FILE = 'checkpoints.jsonl';
+const AUDIT_EXPORT_MANIFEST_FILE = 'manifest.json';
+const AUDIT_EXPORT_SIGNATURE_FILE = 'manifest.sig';
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class AuditExportRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditExportRangeError';
+  }
+}
+
+// ─── Records ──────────────────────────────────────────────────────────────────
+
+export function auditChainKey(ref: AuditChainRef): string {
+  return `${ref.realm}:${ref.tenantId ?? 'platform'}`;
+}
+
+export function toAuditChainRecord(row: AuditLog): AuditChainRecord {
+  return {
+    id: row.id,
+    realm: row.realm,
+    tenantId: row.tenantId,
+    actorType: row.actorType,
+    actorId: row.actorId,
+    action: row.action,
+    entity: row.entity,
+    entityId: row.entityId,
+    beforeJson: row.beforeJson,
+    afterJson: row.afterJson,
+    metadataJson: row.metadataJson,
+    reasoningLogId: row.reasoningLogId,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// ─── Sealing ──────────────────────────────────────────────────────────────────
+
+interface UnsealedAuditRow {
+  id: string;
+  realm: AuditChainRef['realm'];
+  tenantId: string | null;
+}
+
+async function findUnsealedAuditRows(tx: DbClient, limit: number): Promise<UnsealedAuditRow[]> {
+  return tx.$queryRaw<UnsealedAuditRow[]>`
+    SELECT a.id, a.realm::text AS realm, a.tenant_id AS "tenantId"
+    FROM public.audit_logs a
+    WHERE a.created_at >= COALESCE(
+        (SELECT max(e.audit_created_at) FROM public.audit_log_chain_entries e),
+        '-infinity'::timestamptz
+      ) - make_interval(secs => ${SEAL_LOOKBACK_SECONDS})
+      AND NOT EXISTS (SELECT 1 FROM public.audit_log_chain_entries e WHERE e.audit_log_id = a.id)
+    ORDER BY a.created_at, a.id
+    LIMIT ${limit}
+  `;
+}
+
+/**
+ * Append the given audit rows to one chain. Rows already sealed by a concurrent run are
+ * skipped. Returns the number of entries written and whether a checkpoint was signed.
+ */
+export async function sealAuditChainBatch(
+  tx: DbClient,
+  ref: AuditChainRef,
+  auditLogIds: readonly string[],
+  options: { now?: Date; checkpointIntervalMs?: number } = {},
+): Promise<{ sealed: number; checkpointed: boolean }> {
+  const chainKey = auditChainKey(ref);
+  const now = options.now ?? new Date();
+  const checkpointIntervalMs = options.checkpointIntervalMs ?? config.AUDIT_CHAIN_CHECKPOINT_INTERVAL_MS;
+
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`audit_chain:${chainKey}`}))`;
+
+  const alreadySealed = await tx.auditLogChainEntry.findMany({
+    where: { auditLogId: { in: [...auditLogIds] } },
+    select: { auditLogId: true },
+  });
+  const sealedIds = new Set(alreadySealed.map(entry => entry.auditLogId));
+  const pendingIds = auditLogIds.filter(id => !sealedIds.has(id));
+  if (pendingIds.length === 0) return { sealed: 0, checkpointed: false };
+
+  const rows = await tx.auditLog.findMany({ where: { id: { in: pendingIds } } });
+  rows.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id));
+
+  const head = await tx.auditLogChainEntry.findFirst({
+    where: { chainKey },
+    orderBy: { seq: 'desc' },
+    select: { seq: true, entryHash: true },
+  });
+  let seq = head?.seq ?? 0;
+  let prevHash = head?.entryHash ?? AUDIT_CHAIN_GENESIS_HASH;
+
+  const entries = rows.map(row => {
+    seq += 1;
+    const entryHash = computeAuditChainHash(prevHash, toAuditChainRecord(row));
+    const entry = {
+      chainKey,
+      realm: ref.realm,
+      tenantId: ref.tenantId,
+      seq,
+      auditLogId: row.id,
+      auditCreatedAt: row.createdAt,
+      prevHash,
+      entryHash,
+      sealedAt: now,
+    };
+    prevHash = entryHash;
+    return entry;
+  });
+  if (entries.length === 0) return { sealed: 0, checkpointed: false };
+
+  await tx.auditLogChainEntry.createMany({ data: entries });
+
+  const lastCheckpoint = await tx.auditLogChainCheckpoint.findFirst({
+    where: { chainKey },
+    orderBy: { seq: 'desc' },
+    select: { createdAt: true },
+  });
+  if (lastCheckpoint && now.getTime() - lastCheckpoint.createdAt.getTime() < checkpointIntervalMs) {
+    return { sealed: entries.length, checkpointed: false };
+  }
+
+  const { keyId, signature } = signAuditCheckpoint({ chainKey, seq, headHash: prevHash });
+  await tx.auditLogChainCheckpoint.create({
+    data: { chainKey, seq, headHash: prevHash, keyId, signature, createdAt: now },
+  });
+  return { sealed: entries.length, checkpointed: true };
+}
+
+/**
+ * Seal every unsealed audit row, oldest first, in batches. Each chain of a batch is
+ * extended in its own admin-context transaction so one failing chain does not hold
+ * back the others on the next run.
+ */
+export async function sealAuditChains(
+  db: PrismaClient,
+  options: { now?: Date; checkpointIntervalMs?: number; batchSize?: number } = {},
+): Promise<AuditChainSealResult> {
+  const batchSize = options.batchSize ?? SEAL_BATCH_SIZE;
+  const result: AuditChainSealResult = {
+    chainsAdvanced: 0,
+    entriesSealed: 0,
+    checkpointsWritten: 0,
+    moreRemaining: false,
+  };
+
+  for (let batch = 0; batch < SEAL_MAX_BATCHES_PER_RUN; batch += 1) {
+    const pending = await withAdminContext(db, tx => findUnsealedAuditRows(tx, batchSize));
+    if (pending.length === 0) break;
+
+    const chains = new Map<string, { ref: AuditChainRef; ids: string[] }>();
+    for (const row of pending) {
+      const ref: AuditChainRef = { realm: row.realm, tenantId: row.tenantId };
+      const key = auditChainKey(ref);
+      const chain = chains.get(key) ?? { ref, ids: [] };
+      chain.ids.push(row.id);
+      chains.set(key, chain);
+    }
+
+    for (const { ref, ids } of chains.values()) {
+      const sealed = await withAdminContext(db, tx => sealAuditChainBatch(tx, ref, ids, options));
+      if (sealed.sealed > 0) result.chainsAdvanced += 1;
+      result.entriesSealed += sealed.sealed;
+      if (sealed.checkpointed) result.checkpointsWritten += 1;
+    }
+
+    if (pending.length < batchSize) break;
+    result.moreRemaining = batch === SEAL_MAX_BATCHES_PER_RUN - 1;
+  }
+
+  return result;
+}
+
+// ─── Chain walking ────────────────────────────────────────────────────────────
+
+interface ChainEntryRow {
+  seq: number;
+  auditLogId: string;
+  prevHash: string;
+  entryHash: string;
+  sealedAt: Date;
+}
+
+interface ChainCheckpointRow {
+  seq: number;
+  headHash: string;
+  keyId: string;
+  signature: string;
+  createdAt: Date;
+}
+
+/** Chain entries in seq order within [fromSeq, toSeq], each with its audit row (null when deleted). */
+async function* readChainEntries(
+  tx: DbClient,
+  chainKey: string,
+  fromSeq: number,
+  toSeq?: number,
+): AsyncGenerator<{ entry: ChainEntryRow; row: AuditLog | null }> {
+  let cursor = fromSeq - 1;
+  for (;;) {
+    const entries: ChainEntryRow[] = await tx.auditLogChainEntry.findMany({
+      where: { chainKey, seq: { gt: cursor, ...(toSeq !== undefined && { lte: toSeq }) } },
+      orderBy: { seq: 'asc' },
+      take: CHAIN_PAGE_SIZE,
+      select: { seq: true, auditLogId: true, prevHash: true, entryHash: true, sealedAt: true },
+    });
+    if (entries.length === 0) return;
+
+    const rows = await tx.auditLog.findMany({ where: { id: { in: entries.map(entry => entry.auditLogId) } } });
+    const rowsById = new Map(rows.map(row => [row.id, row]));
+    for (const entry of entries) {
+      yield { entry, row: rowsById.get(entry.auditLogId) ?? null };
+    }
+
+    cursor = entries[entries.length - 1].seq;
+    if (entries.length < CHAIN_PAGE_SIZE) return;
+  }
+}
+
+/** Accumulates issues while a chain (or a seq range of it) is walked in order. */
+class AuditChainChecker {
+  readonly issues: AuditChainIssue[] = [];
+  issueCount = 0;
+  entriesChecked = 0;
+  lastEntry: ChainEntryRow | null = null;
+
+  private expectedSeq: number;
+  private expectedPrevHash: string | null;
+  private readonly checkpointsBySeq = new Map<number, ChainCheckpointRow[]>();
+
+  /**
+   * @param expectedPrevHash genesis hash for a whole chain; null for a range whose
+   *        first link cannot be checked.
+   */
+  constructor(
+    chainKey: string,
+    startSeq: number,
+    expectedPrevHash: string | null,
+    checkpoints: readonly ChainCheckpointRow[],
+  ) {
+    this.expectedSeq = startSeq;
+    this.expectedPrevHash = expectedPrevHash;
+    const currentKeyId = getAuditChainSigningKey().keyId;
+
+    for (const checkpoint of checkpoints) {
+      const list = this.checkpointsBySeq.get(checkpoint.seq) ?? [];
+      list.push(checkpoint);
+      this.checkpointsBySeq.set(checkpoint.seq, list);
+
+      if (checkpoint.keyId !== currentKeyId) {
+        this.report({
+          code: 'CHECKPOINT_KEY_UNKNOWN',
+          severity: 'warning',
+          seq: checkpoint.seq,
+          auditLogId: null,
+          detail: `Checkpoint signed by key ${checkpoint.keyId}; current key is ${currentKeyId}`,
+        });
+      } else if (!verifyAuditCheckpoint({ chainKey, seq: checkpoint.seq, headHash: checkpoint.headHash }, checkpoint.signature)) {
+        this.report({
+          code: 'CHECKPOINT_SIGNATURE_INVALID',
+          severity: 'error',
+          seq: checkpoint.seq,
+          auditLogId: null,
+          detail: 'Checkpoint signature does not verify',
+        });
+      }
+    }
+  }
+
+  report(issue: AuditChainIssue): void {
+    this.issueCount += 1;
+    if (this.issues.length < MAX_REPORTED_ISSUES) this.issues.push(issue);
+  }
+
+  check(entry: ChainEntryRow, row: AuditLog | null): void {
+    this.entriesChecked += 1;
+
+    if (entry.seq !== this.expectedSeq) {
+      this.report({
+        code: 'SEQUENCE_GAP',
+        severity: 'error',
+        seq: entry.seq,
+        auditLogId: entry.auditLogId,
+        detail: `Expected seq ${this.expectedSeq}, found ${entry.seq}`,
+      });
+    } else if (this.expectedPrevHash !== null && entry.prevHash !== this.expectedPrevHash) {
+      this.report({
+        code: 'LINK_MISMATCH',
+        severity: 'error',
+        seq: entry.seq,
+        auditLogId: entry.auditLogId,
+        detail: 'prevHash does not match the previous entry hash',
+      });
+    }
+
+    if (!row) {
+      this.report({
+        code: 'ROW_MISSING',
+        severity: 'error',
+        seq: entry.seq,
+        auditLogId: entry.auditLogId,
+        detail: 'Sealed audit row no longer exists',
+      });
+    } else if (computeAuditChainHash(entry.prevHash, toAuditChainRecord(row)) !== entry.entryHash) {
+      this.report({
+        code: 'ROW_MODIFIED',
+        severity: 'error',
+        seq: entry.seq,
+        auditLogId: entry.auditLogId,
+        detail: 'Audit row content does not match its sealed hash',
+      });
+    }
+
+    for (const checkpoint of this.checkpointsBySeq.get(entry.seq) ?? []) {
+      if (checkpoint.headHash !== entry.entryHash) {
+        this.report({
+          code: 'CHECKPOINT_MISMATCH',
+          severity: 'error',
+          seq: entry.seq,
+          auditLogId: entry.auditLogId,
+          detail: 'Entry hash differs from the signed checkpoint head',
+        });
+      }
+    }
+
+    this.expectedSeq = entry.seq + 1;
+    this.expectedPrevHash = entry.entryHash;
+    this.lastEntry = entry;
+  }
+
+  /** Report checkpoints past the last walked entry (call once the walk is complete). */
+  finish(): void {
+    const headSeq = this.lastEntry?.seq ?? 0;
+    for (const [seq, checkpoints] of this.checkpointsBySeq) {
+      if (seq <= headSeq) continue;
+      for (let i = 0; i < checkpoints.length; i += 1) {
+        this.report({
+          code: 'CHECKPOINT_BEYOND_HEAD',
+          severity: 'error',
+          seq,
+          auditLogId: null,
+          detail: `Signed checkpoint at seq ${seq} is past the chain head (${headSeq}) — entries were removed`,
+        });
+      }
+    }
+  }
+
+  status(): AuditChainStatus {
+    if (this.issues.some(issue => issue.severity === 'error')) return 'BROKEN';
+    return this.entriesChecked === 0 ? 'EMPTY' : 'INTACT';
+  }
+}
+
+// ─── Verification ─────────────────────────────────────────────────────────────
+
+async function countUnsealedAuditRows(tx: DbClient, ref: AuditChainRef, before: Date): Promise<number> {
+  const [result] = await tx.$queryRaw<Array<{ count: number }>>`
+    SELECT count(*)::int AS count
+    FROM public.audit_logs a
+    WHERE a.realm = ${ref.realm}::audit_realm
+      AND a.tenant_id IS NOT DISTINCT FROM ${ref.tenantId}::uuid
+      AND a.created_at < ${before}
+      AND NOT EXISTS (SELECT 1 FROM public.audit_log_chain_entries e WHERE e.audit_log_id = a.id)
+  `;
+  return result?.count ?? 0;
+}
+
+/**
+ * Walk a whole chain from seq 1 and check every link, audit row and checkpoint.
+ * `tx` must be able to read the chain's audit rows (admin context, or the tenant's own context).
+ */
+export async function verifyAuditChain(
+  tx: DbClient,
+  ref: AuditChainRef,
+  options: { now?: Date } = {},
+): Promise<AuditChainVerification> {
+  const chainKey = auditChainKey(ref);
+  const now = options.now ?? new Date();
+
+  const checkpoints: ChainCheckpointRow[] = await tx.auditLogChainCheckpoint.findMany({
+    where: { chainKey },
+    orderBy: { seq: 'asc' },
+    select: { seq: true, headHash: true, keyId: true, signature: true, createdAt: true },
+  });
+
+  const checker = new AuditChainChecker(chainKey, 1, AUDIT_CHAIN_GENESIS_HASH, checkpoints);
+  for await (const { entry, row } of readChainEntries(tx, chainKey, 1)) {
+    checker.check(entry, row);
+  }
+  checker.finish();
+
+  const unsealedRows = await countUnsealedAuditRows(tx, ref, new Date(now.getTime() - AUDIT_CHAIN_UNSEALED_GRACE_MS));
+  if (unsealedRows > 0) {
+    checker.report({
+      code: 'UNSEALED_ROWS',
+      severity: 'warning',
+      seq: null,
+      auditLogId: null,
+      detail: `${unsealedRows} audit row(s) older than ${AUDIT_CHAIN_UNSEALED_GRACE_MS / 60_000} minutes are not sealed`,
+    });
+  }
+
+  const head = checker.lastEntry;
+  const lastCheckpoint = checkpoints.length > 0 ? checkpoints[checkpoints.length - 1] : null;
+
+  return {
+    chainKey,
+    realm: ref.realm,
+    tenantId: ref.tenantId,
+    status: checker.status(),
+    verifiedAt: now.toISOString(),
+    entriesChecked: checker.entriesChecked,
+    head: head ? { seq: head.seq, entryHash: head.entryHash, sealedAt: head.sealedAt.toISOString() } : null,
+    checkpointsChecked: checkpoints.length,
+    lastCheckpoint: lastCheckpoint
+      ? {
+          seq: lastCheckpoint.seq,
+          headHash: lastCheckpoint.headHash,
+          keyId: lastCheckpoint.keyId,
+          createdAt: lastCheckpoint.createdAt.toISOString(),
+        }
+      : null,
+    unsealedRows,
+    issueCount: checker.issueCount,
+    issues: checker.issues,
+  };
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+function exportFileSlug(ref: AuditChainRef): string {
+  return `${ref.realm.toLowerCase()}-${ref.tenantId ?? 'platform'}`;
+}
+
+/**
+ * Build the signed export bundle for the audit rows of one chain created in [from, to).
+ *
+ * audit-log.jsonl    one line per entry: { seq, prevHash, entryHash, sealedAt, record }
+ *                    (record null when the audit row was deleted)
+ * checkpoints.jsonl  signed chain heads within the exported seq range
+ * manifest.json      chain, range, file digests, hashing rules, verification result, public key
+ * manifest.sig       base64 Ed25519 signature of the manifest.json bytes
+ *
+ * @throws AuditExportRangeError when the range is inverted, too long or holds too many entries.
+ */
+export async function buildAuditExportBundle(
+  tx: DbClient,
+  ref: AuditChainRef,
+  range: { from: Date; to: Date },
+  generatedBy: { realm: AuditChainRef['realm']; actorId: string | null },
+  now: Date = new Date(),
+): Promise<AuditExportBundle> {
+  if (range.to.getTime() <= range.from.getTime()) {
+    throw new AuditExportRangeError('"to" must be after "from"');
+  }
+  if (range.to.getTime() - range.from.getTime() > AUDIT_EXPORT_MAX_RANGE_DAYS * 24 * 60 * 60_000) {
+    throw new AuditExportRangeError(`An export covers at most ${AUDIT_EXPORT_MAX_RANGE_DAYS} days`);
+  }
+
+  const chainKey = auditChainKey(ref);
+  const bounds = await tx.auditLogChainEntry.aggregate({
+    where: { chainKey, auditCreatedAt: { gte: range.from, lt: range.to } },
+    _min: { seq: true },
+    _max: { seq: true },
+  });
+  const firstSeq = bounds._min.seq;
+  const lastSeq = bounds._max.seq;
+  if (firstSeq !== null && lastSeq !== null && lastSeq - firstSeq + 1 > AUDIT_EXPORT_MAX_ENTRIES) {
+    throw new AuditExportRangeError(
+      `The range holds more than ${AUDIT_EXPORT_MAX_ENTRIES} audit entries; export a shorter range`,
+    );
+  }
+
+  const checkpoints: ChainCheckpointRow[] =
+    firstSeq !== null && lastSeq !== null
+      ? await tx.auditLogChainCheckpoint.findMany({
+          where: { chainKey, seq: { gte: firstSeq, lte: lastSeq } },
+          orderBy: { seq: 'asc' },
+          select: { seq: true, headHash: true, keyId: true, signature: true, createdAt: true },
+        })
+      : [];
+
+  const checker = new AuditChainChecker(chainKey, firstSeq ?? 1, null, checkpoints);
+  const logLines: string[] = [];
+  let firstPrevHash: string | null = null;
+
+  if (firstSeq !== null && lastSeq !== null) {
+    for await (const { entry, row } of readChainEntries(tx, chainKey, firstSeq, lastSeq)) {
+      checker.check(entry, row);
+      firstPrevHash ??= entry.prevHash;
+      logLines.push(
+        canonicalJson({
+          seq: entry.seq,
+          prevHash: entry.prevHash,
+          entryHash: entry.entryHash,
+          sealedAt: entry.sealedAt.toISOString(),
+          record: row ? toAuditChainRecord(row) : null,
+        }),
+      );
+    }
+  }
+  checker.finish();
+
+  const checkpointLines = checkpoints.map(checkpoint =>
+    canonicalJson({
+      chainKey,
+      seq: checkpoint.seq,
+      headHash: checkpoint.headHash,
+      keyId: checkpoint.keyId,
+      signature: checkpoint.signature,
+      createdAt: checkpoint.createdAt.toISOString(),
+    }),
+  );
+
+  const logContent = logLines.map(line => `${line}\n`).join('');
+  const checkpointContent = checkpointLines.map(line => `${line}\n`).join('');
+  const signingKey = getAuditChainSigningKey();
+
+  const manifest: AuditExportManifest = {
+    format: AUDIT_EXPORT_FORMAT,
+    generatedAt: now.toISOString(),
+    generatedBy,
+    chain: { key: chainKey, realm: ref.realm, tenantId: ref.tenantId },
+    range: { from: range.from.toISOString(), to: range.to.toISOString() },
+    entries: {
+      count: logLines.length,
+      firstSeq: checker.entriesChecked > 0 ? firstSeq : null,
+      lastSeq: checker.lastEntry?.seq ?? null,
+      firstPrevHash,
+      lastEntryHash: checker.lastEntry?.entryHash ?? null,
+    },
+    hashing: {
+      algorithm: 'sha256',
+      entryHash: 'sha256_hex(prevHash + "\\n" + canonicalJson(record))',
+      canonicalJson: 'JSON with object keys sorted recursively, no insignificant whitespace, undefined members omitted',
+      genesisHash: AUDIT_CHAIN_GENESIS_HASH,
+    },
+    files: [
+      {
+        name: AUDIT_EXPORT_LOG_FILE,
+        sha256: sha256Hex(logContent),
+        bytes: Buffer.byteLength(logContent),
+        lines: logLines.length,
+      },
+      {
+        name: AUDIT_EXPORT_CHECKPOINT_FILE,
+        sha256: sha256Hex(checkpointContent),
+        bytes: Buffer.byteLength(checkpointContent),
+        lines: checkpointLines.length,
+      },
+    ],
+    verification: { status: checker.status(), issueCount: checker.issueCount, issues: checker.issues },
+    signing: {
+      algorithm: AUDIT_CHAIN_SIGNATURE_ALGORITHM,
+      keyId: signingKey.keyId,
+      publicKey: signingKey.publicKeyPem,
+      signatureFile: AUDIT_EXPORT_SIGNATURE_FILE,
+    },
+  };
+
+  const manifestContent = `${JSON.stringify(manifest, null, 2)}\n`;
+  const archive = writeZipArchive([
+    { name: AUDIT_EXPORT_MANIFEST_FILE, content: manifestContent },
+    { name: AUDIT_EXPORT_SIGNATURE_FILE, content: `${signAuditManifest(manifestContent)}\n` },
+    { name: AUDIT_EXPORT_LOG_FILE, content: logContent },
+    { name: AUDIT_EXPORT_CHECKPOINT_FILE, content: checkpointContent },
+  ]);
+
+  const day = (date: Date) => date.toISOString().slice(0, 10);
+  return {
+    fileName: `audit-log-${exportFileSlug(ref)}-${day(range.from)}_${day(range.to)}.zip`,
+    archive,
+    manifest,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Audit Log Chain — Types
+ * Task ID: AUDIT-CHAIN-001
+ *
+ * See auditChain.service.ts for the sealing, verification and export flow.
+ */
+
+import type { AuditRealm } from '../../lib/auditLog.js';
+
+export const AUDIT_CHAIN_SEAL_JOB_TYPE = 'audit.chain.seal' as const;
+
+export const AUDIT_EXPORT_FORMAT = 'texqtic.audit-export.v1' as const;
+
+export interface AuditChainSealJobPayload {
+  slot: number;
+}
+
+/** One chain per (realm, tenant). ADMIN rows without a tenant share the "platform" chain. */
+export interface AuditChainRef {
+  realm: AuditRealm;
+  tenantId: string | null;
+}
+
+/**
+ * The hashed form of an audit_logs row. Field set and names are part of the
+ * export format — adding a column to AuditLog does not change existing hashes.
+ */
+export interface AuditChainRecord {
+  id: string;
+  realm: AuditRealm;
+  tenantId: string | null;
+  actorType: string;
+  actorId: string | null;
+  action: string;
+  entity: string;
+  entityId: string | null;
+  beforeJson: unknown;
+  afterJson: unknown;
+  metadataJson: unknown;
+  reasoningLogId: string | null;
+  createdAt: string;
+}
+
+// ─── Sealing ──────────────────────────────────────────────────────────────────
+
+export interface AuditChainSealResult {
+  chainsAdvanced: number;
+  entriesSealed: number;
+  checkpointsWritten: number;
+  /** True when the run stopped at its batch cap with unsealed rows left for the next slot. */
+  moreRemaining: boolean;
+}
+
+// ─── Verification ─────────────────────────────────────────────────────────────
+
+export type AuditChainIssueCode =
+  /** An entry seq is missing — chain rows were deleted. */
+  | 'SEQUENCE_GAP'
+  /** prevHash does not match the previous entry — entries were rewritten or reordered. */
+  | 'LINK_MISMATCH'
+  /** The sealed audit row no longer exists. */
+  | 'ROW_MISSING'
+  /** The audit row no longer hashes to its sealed entryHash — it was edited. */
+  | 'ROW_MODIFIED'
+  /** A checkpoint signature does not verify against the signing key. */
+  | 'CHECKPOINT_SIGNATURE_INVALID'
+  /** The entry at a checkpoint seq has a different hash than the signed head. */
+  | 'CHECKPOINT_MISMATCH'
+  /** A signed checkpoint is ahead of the chain head — the chain was truncated. */
+  | 'CHECKPOINT_BEYOND_HEAD'
+  /** A checkpoint was signed by a key other than the current one (warning). */
+  | 'CHECKPOINT_KEY_UNKNOWN'
+  /** Audit rows older than the grace period were never sealed (warning). */
+  | 'UNSEALED_ROWS';
+
+export interface AuditChainIssue {
+  code: AuditChainIssueCode;
+  severity: 'error' | 'warning';
+  seq: number | null;
+  auditLogId: string | null;
+  detail: string;
+}
+
+export type AuditChainStatus = 'INTACT' | 'BROKEN' | 'EMPTY';
+
+export interface AuditChainVerification {
+  chainKey: string;
+  realm: AuditRealm;
+  tenantId: string | null;
+  status: AuditChainStatus;
+  verifiedAt: string;
+  entriesChecked: number;
+  head: { seq: number; entryHash: string; sealedAt: string } | null;
+  checkpointsChecked: number;
+  lastCheckpoint: { seq: number; headHash: string; keyId: string; createdAt: string } | null;
+  unsealedRows: number;
+  issueCount: number;
+  /** First issues found, in chain order; see issueCount for the total. */
+  issues: AuditChainIssue[];
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+export interface AuditExportFile {
+  name: string;
+  sha256: string;
+  bytes: number;
+  lines: number;
+}
+
+export interface AuditExportManifest {
+  format: typeof AUDIT_EXPORT_FORMAT;
+  generatedAt: string;
+  generatedBy: { realm: AuditRealm; actorId: string | null };
+  chain: { key: string; realm: AuditRealm; tenantId: string | null };
+  /**
+   * Requested audit created_at range. The bundle holds the contiguous seq range
+   * spanning it, so a row sealed late may fall just outside [from, to).
+   */
+  range: { from: string; to: string };
+  entries: {
+    count: number;
+    firstSeq: number | null;
+    lastSeq: number | null;
+    firstPrevHash: string | null;
+    lastEntryHash: string | null;
+  };
+  hashing: {
+    algorithm: 'sha256';
+    entryHash: string;
+    canonicalJson: string;
+    genesisHash: string;
+  };
+  files: AuditExportFile[];
+  verification: { status: AuditChainStatus; issueCount: number; issues: AuditChainIssue[] };
+  signing: { algorithm: 'Ed25519'; keyId: string; publicKey: string; signatureFile: string };
+}
+
+export interface AuditExportBundle {
+  fileName: string;
+  archive: Buffer;
+  manifest: AuditExportManifest;
+}
@@ -0,0 +1,998 @@
+/**
+ * catalogImport.service.ts — Bulk catalog import (CSV / XLSX) and catalog export
+ * Task ID: CATALOG-IMPORT-001
+ *
+ * Import lifecycle (catalog_imports.status):
+ *   upload → PREVIEWED ──(remap: re-validated, stays PREVIEWED)
+ *          → apply → QUEUED → RUNNING → COMPLETED
+ *                                     └─ FAILED (apply job dead-lettered)
+ *
+ * Preview is a dry run: every row is validated with the same rules as
+ * POST /tenant/catalog/items (catalogItemValidation.ts) and reported as CREATE,
+ * UPDATE or INVALID. Nothing is written to catalog_items.
+ *
+ * Apply runs as the 'catalog.import.apply' background job. Rows are upserted by SKU
+ * in chunks of CATALOG_IMPORT_CHUNK_SIZE; each chunk commits its catalog writes and
+ * the progress counters in one transaction, so a retried job resumes after the last
+ * committed chunk. Image URLs are copied into catalog storage (catalogImage.storage)
+ * before the chunk transaction opens.
+ *
+ * Update semantics: only columns present in the sheet are written, and a blank cell
+ * leaves the existing value unchanged. Stage attribute columns replace the item's
+ * stageAttributes object for that row.
+ *
+ * Export writes the tenant's full catalog with the same column names, so an export
+ * can be edited and imported back without a mapping.
+ *
+ * D-017-A: tenantId always comes from the authenticated org context (routes) or the
+ * job row (worker) — never from the uploaded file.
+ *
+ * @module catalogImport.service
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { withDbContext } from '../../lib/database-context.js';
+import { writeAuditLog } from '../../lib/auditLog.js';
+import { enqueueJob } from '../jobQueue/jobQueue.service.js';
+import { enqueueSourceIngestion } from '../vectorIngestion.js';
+import { buildCatalogItemVectorText, type CatalogItemForVectorText } from '../catalogItemText.js';
+import {
+  CATALOG_STAGE_VALUES,
+  catalogItemCreateSchema,
+  mapCatalogVisibilityModeToPublicationPosture,
+  stageAttributesSchemas,
+  validateCatalogStageAttributes,
+  type CatalogItemCreateInput,
+} from '../catalogItemValidation.js';
+import {
+  CatalogImageUploadError,
+  importCatalogImageFromUrl,
+} from '../storage/catalogImage.storage.js';
+import type { CatalogSpreadsheetFormat } from './catalogSpreadsheet.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** background_jobs.job_type for applying a previewed import. */
+export const CATALOG_IMPORT_APPLY_JOB_TYPE = 'catalog.import.apply' as const;
+
+/** Data rows accepted per file (header row excluded). */
+export const CATALOG_IMPORT_MAX_ROWS = 5_000 as const;
+
+/** Rows written per apply transaction. */
+export const CATALOG_IMPORT_CHUNK_SIZE = 50 as const;
+
+/** Apply errors kept on the import row; later failures are only counted. */
+const APPLY_ERRORS_MAX = 500 as const;
+
+export const CATALOG_IMPORT_STATUSES = ['PREVIEWED', 'QUEUED', 'RUNNING', 'COMPLETED', 'FAILED'] as const;
+export type CatalogImportStatus = (typeof CATALOG_IMPORT_STATUSES)[number];
+
+/** CatalogItem fields a sheet column can map to, in export column order. */
+export const CATALOG_IMPORT_FIELDS = [
+  'sku', 'name', 'description', 'price', 'moq', 'imageUrl',
+  'productCategory', 'fabricType', 'gsm', 'material', 'composition', 'color',
+  'widthCm', 'construction', 'certifications', 'catalogStage', 'catalogVisibilityPolicyMode',
+] as const;
+export type CatalogImportField = (typeof CATALOG_IMPORT_FIELDS)[number];
+
+/** Column target for a JSON object of stage attributes (one cell per row). */
+const STAGE_ATTRIBUTES_TARGET = 'stageAttributes';
+/** Column target prefix for a single stage attribute, e.g. stageAttributes.yarnCount. */
+const STAGE_ATTRIBUTE_PREFIX = 'stageAttributes.';
+
+const REQUIRED_IMPORT_FIELDS: readonly CatalogImportField[] = ['sku', 'name', 'price'];
+
+const NUMERIC_FIELDS = new Set<CatalogImportField>(['price', 'moq', 'gsm', 'widthCm']);
+const ENUM_FIELDS = new Set<CatalogImportField>([
+  'productCategory', 'fabricType', 'material', 'construction', 'catalogStage', 'catalogVisibilityPolicyMode',
+]);
+
+/** Common header spellings (normalized: lower case, letters and digits only). */
+const FIELD_ALIASES: Record<string, CatalogImportField> = {
+  productname: 'name',
+  itemname: 'name',
+  title: 'name',
+  unitprice: 'price',
+  minimumorderquantity: 'moq',
+  minorderqty: 'moq',
+  image: 'imageUrl',
+  imagelink: 'imageUrl',
+  width: 'widthCm',
+  category: 'productCategory',
+  stage: 'catalogStage',
+  visibility: 'catalogVisibilityPolicyMode',
+  certification: 'certifications',
+};
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export type CatalogImportErrorCode =
+  | 'EMPTY_FILE'
+  | 'TOO_MANY_ROWS'
+  | 'INVALID_MAPPING'
+  | 'NOT_FOUND'
+  | 'INVALID_STATE';
+
+export class CatalogImportError extends Error {
+  readonly code: CatalogImportErrorCode;
+  readonly statusCode: number;
+
+  constructor(code: CatalogImportErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.name = 'CatalogImportError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Sheet header → target field; null ignores the column. */
+export type CatalogImportColumnMapping = Record<string, string | null>;
+
+export const catalogImportColumnMappingSchema = z.record(z.string().max(200).nullable());
+
+export interface CatalogImportColumn {
+  index: number;
+  header: string;
+  target: string | null;
+}
+
+export interface CatalogImportRowIssue {
+  field: string;
+  message: string;
+}
+
+export interface CatalogImportRowResult {
+  /** 1-based sheet row number (the header is row 1). */
+  rowNumber: number;
+  sku: string | null;
+  name: string | null;
+  action: 'CREATE' | 'UPDATE' | 'INVALID';
+  errors: CatalogImportRowIssue[];
+}
+
+export interface CatalogImportReport {
+  columns: Array<{ header: string; target: string | null }>;
+  /** Required fields no column maps to — every row is invalid until they are mapped. */
+  missingFields: string[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  createCount: number;
+  updateCount: number;
+  rows: CatalogImportRowResult[];
+}
+
+export interface CatalogImportApplyError {
+  rowNumber: number;
+  sku: string | null;
+  message: string;
+}
+
+/** Public view of a catalog_imports row (source rows are never returned). */
+export interface CatalogImportView {
+  id: string;
+  status: CatalogImportStatus;
+  fileName: string | null;
+  format: CatalogSpreadsheetFormat;
+  columnMapping: CatalogImportColumnMapping;
+  totalRows: number;
+  validRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  failedCount: number;
+  applyErrors: CatalogImportApplyError[];
+  createdAt: Date;
+  queuedAt: Date | null;
+  completedAt: Date | null;
+}
+
+interface ValidatedImportRow {
+  rowNumber: number;
+  sku: string;
+  data: CatalogItemCreateInput;
+  /** Fields present in the row (blank cells excluded) — the update write set. */
+  presentFields: Set<string>;
+  stageAttributes: Record<string, unknown> | null;
+}
+
+type AnalyzedImportRow =
+  | { valid: true; row: ValidatedImportRow }
+  | { valid: false; rowNumber: number; sku: string | null; name: string | null; errors: CatalogImportRowIssue[] };
+
+type CatalogImportRecord = {
+  id: string;
+  tenantId: string;
+  status: string;
+  fileName: string | null;
+  format: string;
+  sourceRows: Prisma.JsonValue;
+  columnMapping: Prisma.JsonValue;
+  totalRows: number;
+  validRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  failedCount: number;
+  applyErrors: Prisma.JsonValue;
+  createdBy: string | null;
+  createdAt: Date;
+  queuedAt: Date | null;
+  completedAt: Date | null;
+};
+
+// ─── Column mapping ───────────────────────────────────────────────────────────
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const FIELD_BY_NORMALIZED_NAME = new Map<string, CatalogImportField>(
+  CATALOG_IMPORT_FIELDS.map(field => [normalizeHeader(field), field]),
+);
+
+function isValidTarget(target: string): boolean {
+  return (CATALOG_IMPORT_FIELDS as readonly string[]).includes(target)
+    || target === STAGE_ATTRIBUTES_TARGET
+    || (target.startsWith(STAGE_ATTRIBUTE_PREFIX) && target.length > STAGE_ATTRIBUTE_PREFIX.length);
+}
+
+/** Guess the target for a header: exact field name, alias, or stage attribute column. */
+export function suggestCatalogImportTarget(header: string): string | null {
+  const stageColumn = /^(?:stageattributes|stage)\s*[.:]\s*(.+)$/i.exec(header.trim());
+  if (stageColumn) {
+    return `${STAGE_ATTRIBUTE_PREFIX}${stageColumn[1].trim()}`;
+  }
+  const normalized = normalizeHeader(header);
+  if (normalized === normalizeHeader(STAGE_ATTRIBUTES_TARGET)) {
+    return STAGE_ATTRIBUTES_TARGET;
+  }
+  return FIELD_BY_NORMALIZED_NAME.get(normalized) ?? FIELD_ALIASES[normalized] ?? null;
+}
+
+/**
+ * Resolve each header to a target. Explicit mapping entries win over suggestions;
+ * headers not named in the mapping fall back to suggestCatalogImportTarget().
+ */
+export function resolveCatalogImportColumns(
+  headers: readonly string[],
+  mapping: CatalogImportColumnMapping = {},
+): CatalogImportColumn[] {
+  for (const [header, target] of Object.entries(mapping)) {
+    if (!headers.includes(header)) {
+      throw new CatalogImportError('INVALID_MAPPING', `Column "${header}" is not in the file.`, 400);
+    }
+    if (target !== null && !isValidTarget(target)) {
+      throw new CatalogImportError('INVALID_MAPPING', `"${target}" is not an importable catalog field.`, 400);
+    }
+  }
+
+  const columns = headers.map((header, index) => ({
+    index,
+    header,
+    target: Object.prototype.hasOwnProperty.call(mapping, header)
+      ? mapping[header]
+      : suggestCatalogImportTarget(header),
+  }));
+
+  const seen = new Map<string, string>();
+  for (const column of columns) {
+    if (column.target === null) continue;
+    const previous = seen.get(column.target);
+    if (previous !== undefined) {
+      throw new CatalogImportError(
+        'INVALID_MAPPING',
+        `Columns "${previous}" and "${column.header}" both map to ${column.target}.`,
+        400,
+      );
+    }
+    seen.set(column.target, column.header);
+  }
+  return columns;
+}
+
+// ─── Cell coercion ────────────────────────────────────────────────────────────
+
+/** "1,250.50" → 1250.5. Unparseable input is returned as-is so validation reports it. */
+function parseNumberCell(raw: string): number | string {
+  const compact = raw.replace(/\s/g, '');
+  const normalized = /^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(compact) ? compact.replace(/,/g, '') : compact;
+  const value = Number(normalized);
+  return normalized !== '' && Number.isFinite(value) ? value : raw;
+}
+
+/** "Plain weave" / "plain-weave" → PLAIN_WEAVE. */
+function normalizeEnumCell(raw: string): string {
+  return raw.trim().toUpperCase().replace(/[\s\-/]+/g, '_');
+}
+
+function parseBooleanCell(raw: string): boolean | string {
+  const value = raw.trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(value)) return true;
+  if (['false', 'no', 'n', '0'].includes(value)) return false;
+  return raw;
+}
+
+function splitListCell(raw: string): string[] {
+  return raw.split(/[;|\n]/).map(part => part.trim()).filter(Boolean);
+}
+
+/** "GOTS:GOTS-123; OEKO_TEX_STANDARD_100" → [{ standard, certNumber }, { standard }]. */
+function parseCertificationsCell(raw: string): Array<{ standard: string; certNumber?: string }> {
+  return splitListCell(raw).map(entry => {
+    const separator = entry.indexOf(':');
+    if (separator < 0) {
+      return { standard: normalizeEnumCell(entry) };
+    }
+    const certNumber = entry.slice(separator + 1).trim();
+    return {
+      standard: normalizeEnumCell(entry.slice(0, separator)),
+      ...(certNumber ? { certNumber } : {}),
+    };
+  });
+}
+
+function unwrapZodType(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current = schema;
+  while (
+    current instanceof z.ZodOptional
+    || current instanceof z.ZodNullable
+    || current instanceof z.ZodDefault
+  ) {
+    current = current._def.innerType;
+  }
+  return current;
+}
+
+/**
+ * Coerce one stage attribute cell using the stage schema's declared type for the key.
+ * Keys the schema does not declare (passthrough / OTHER) stay strings.
+ */
+function coerceStageAttributeCell(stage: string | undefined, key: string, raw: string): unknown {
+  const schema = stage ? stageAttributesSchemas[stage as (typeof CATALOG_STAGE_VALUES)[number]] : undefined;
+  const fieldSchema = schema instanceof z.ZodObject ? (schema.shape as Record<string, z.ZodTypeAny>)[key] : undefined;
+  if (!fieldSchema) {
+    return raw;
+  }
+  const type = unwrapZodType(fieldSchema);
+  if (type instanceof z.ZodNumber) return parseNumberCell(raw);
+  if (type instanceof z.ZodBoolean) return parseBooleanCell(raw);
+  if (type instanceof z.ZodArray) return splitListCell(raw);
+  if (type instanceof z.ZodEnum) return normalizeEnumCell(raw);
+  return raw;
+}
+
+function coerceFieldCell(field: CatalogImportField, raw: string): unknown {
+  if (NUMERIC_FIELDS.has(field)) return parseNumberCell(raw);
+  if (ENUM_FIELDS.has(field)) return normalizeEnumCell(raw);
+  if (field === 'certifications') return parseCertificationsCell(raw);
+  return raw;
+}
+
+// ─── Row validation ───────────────────────────────────────────────────────────
+
+function issuesFromZod(error: z.ZodError, prefix = ''): CatalogImportRowIssue[] {
+  return error.errors.map(issue => ({
+    field: `${prefix}${issue.path.join('.')}` || prefix.replace(/\.$/, '') || 'row',
+    message: issue.message,
+  }));
+}
+
+/** Validate one data row against the POST /tenant/catalog/items rules plus the import rules. */
+export function validateCatalogImportRow(
+  cells: readonly string[],
+  columns: readonly CatalogImportColumn[],
+  rowNumber: number,
+): AnalyzedImportRow {
+  const raw: Record<string, unknown> = {};
+  const stageCells: Array<[string, string]> = [];
+  const errors: CatalogImportRowIssue[] = [];
+  let stageAttributesJson: Record<string, unknown> | undefined;
+
+  for (const column of columns) {
+    const cell = (cells[column.index] ?? '').trim();
+    if (column.target === null || cell === '') continue;
+
+    if (column.target === STAGE_ATTRIBUTES_TARGET) {
+      try {
+        const parsed: unknown = JSON.parse(cell);
+        if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error();
+        stageAttributesJson = parsed as Record<string, unknown>;
+      } catch {
+        errors.push({ field: STAGE_ATTRIBUTES_TARGET, message: 'Must be a JSON object' });
+      }
+    } else if (column.target.startsWith(STAGE_ATTRIBUTE_PREFIX)) {
+      stageCells.push([column.target.slice(STAGE_ATTRIBUTE_PREFIX.length), cell]);
+    } else {
+      raw[column.target] = coerceFieldCell(column.target as CatalogImportField, cell);
+    }
+  }
+
+  const sku = typeof raw.sku === 'string' ? raw.sku : null;
+  const name = typeof raw.name === 'string' ? raw.name : null;
+
+  const stageAttributes: Record<string, unknown> | undefined =
+    stageAttributesJson !== undefined || stageCells.length > 0
+      ? {
+        ...stageAttributesJson,
+        ...Object.fromEntries(
+          stageCells.map(([key, cell]) => [key, coerceStageAttributeCell(raw.catalogStage as string | undefined, key, cell)]),
+        ),
+      }
+      : undefined;
+  if (stageAttributes !== undefined) {
+    raw.stageAttributes = stageAttributes;
+  }
+
+  const parsed = catalogItemCreateSchema.safeParse(raw);
+  if (!parsed.success) {
+    errors.push(...issuesFromZod(parsed.error));
+  }
+  if (!sku) {
+    errors.push({ field: 'sku', message: 'SKU is required to import (items are matched by SKU)' });
+  }
+  if (stageAttributes !== undefined && raw.catalogStage === undefined) {
+    errors.push({ field: 'catalogStage', message: 'catalogStage is required when stage attributes are set' });
+  }
+
+  let validatedStageAttributes: Record<string, unknown> | null = null;
+  if (parsed.success) {
+    const attrResult = validateCatalogStageAttributes(parsed.data.catalogStage, parsed.data.stageAttributes);
+    if (attrResult.success) {
+      validatedStageAttributes = attrResult.data;
+    } else {
+      errors.push(...issuesFromZod(attrResult.error, `${STAGE_ATTRIBUTES_TARGET}.`));
+    }
+  }
+
+  if (errors.length > 0 || !parsed.success || !sku) {
+    return { valid: false, rowNumber, sku, name, errors };
+  }
+  return {
+    valid: true,
+    row: {
+      rowNumber,
+      sku,
+      data: parsed.data,
+      presentFields: new Set(Object.keys(raw)),
+      stageAttributes: validatedStageAttributes,
+    },
+  };
+}
+
+/**
+ * Validate a whole sheet (header row first). Duplicate SKUs inside the file are
+ * rejected on every occurrence after the first.
+ */
+export function analyzeCatalogImport(
+  grid: readonly (readonly string[])[],
+  mapping: CatalogImportColumnMapping = {},
+): { columns: CatalogImportColumn[]; missingFields: string[]; rows: AnalyzedImportRow[] } {
+  const [headerRow, ...dataRows] = grid;
+  if (!headerRow || dataRows.length === 0) {
+    throw new CatalogImportError('EMPTY_FILE', 'The file needs a header row and at least one data row.', 400);
+  }
+  if (dataRows.length > CATALOG_IMPORT_MAX_ROWS) {
+    throw new CatalogImportError(
+      'TOO_MANY_ROWS',
+      `A file may contain at most ${CATALOG_IMPORT_MAX_ROWS} rows; split larger catalogs into several imports.`,
+      400,
+    );
+  }
+
+  const columns = resolveCatalogImportColumns(headerRow, mapping);
+  const mappedTargets = new Set(columns.map(column => column.target));
+  const missingFields = REQUIRED_IMPORT_FIELDS.filter(field => !mappedTargets.has(field));
+
+  const firstRowBySku = new Map<string, number>();
+  const rows = dataRows.map((cells, index): AnalyzedImportRow => {
+    const result = validateCatalogImportRow(cells, columns, index + 2);
+    const sku = result.valid ? result.row.sku : result.sku;
+    if (!sku) return result;
+
+    const firstRow = firstRowBySku.get(sku);
+    if (firstRow === undefined) {
+      firstRowBySku.set(sku, index + 2);
+      return result;
+    }
+    const duplicate = { field: 'sku', message: `Duplicate SKU in file (first used on row ${firstRow})` };
+    return result.valid
+      ? { valid: false, rowNumber: result.row.rowNumber, sku, name: result.row.data.name, errors: [duplicate] }
+      : { ...result, errors: [...result.errors, duplicate] };
+  });
+
+  return { columns, missingFields, rows };
+}
+
+// ─── Persistence helpers ──────────────────────────────────────────────────────
+
+async function findExistingItemIdsBySku(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  skus: string[],
+): Promise<Map<string, string>> {
+  if (skus.length === 0) return new Map();
+  const existing = await tx.catalogItem.findMany({
+    where: { tenantId, sku: { in: skus } },
+    select: { id: true, sku: true },
+    // Ascending: with legacy duplicate SKUs the most recently updated item is kept.
+    orderBy: { updatedAt: 'asc' },
+  });
+  return new Map(existing.map(item => [item.sku as string, item.id]));
+}
+
+async function buildCatalogImportReport(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  grid: readonly (readonly string[])[],
+  mapping: CatalogImportColumnMapping,
+): Promise<CatalogImportReport> {
+  const analysis = analyzeCatalogImport(grid, mapping);
+  const validSkus = analysis.rows.flatMap(row => (row.valid ? [row.row.sku] : []));
+  const existing = await findExistingItemIdsBySku(tx, tenantId, validSkus);
+
+  const rows = analysis.rows.map((row): CatalogImportRowResult => (
+    row.valid
+      ? {
+        rowNumber: row.row.rowNumber,
+        sku: row.row.sku,
+        name: row.row.data.name,
+        action: existing.has(row.row.sku) ? 'UPDATE' : 'CREATE',
+        errors: [],
+      }
+      : { rowNumber: row.rowNumber, sku: row.sku, name: row.name, action: 'INVALID', errors: row.errors }
+  ));
+
+  return {
+    columns: analysis.columns.map(({ header, target }) => ({ header, target })),
+    missingFields: analysis.missingFields,
+    totalRows: rows.length,
+    validRows: rows.filter(row => row.action !== 'INVALID').length,
+    invalidRows: rows.filter(row => row.action === 'INVALID').length,
+    createCount: rows.filter(row => row.action === 'CREATE').length,
+    updateCount: rows.filter(row => row.action === 'UPDATE').length,
+    rows,
+  };
+}
+
+/** Persisted mapping: the effective target of every header, so apply sees exactly what was previewed. */
+function toStoredMapping(report: CatalogImportReport): CatalogImportColumnMapping {
+  return Object.fromEntries(report.columns.map(column => [column.header, column.target]));
+}
+
+export function toCatalogImportView(record: CatalogImportRecord): CatalogImportView {
+  return {
+    id: record.id,
+    status: record.status as CatalogImportStatus,
+    fileName: record.fileName,
+    format: record.format as CatalogSpreadsheetFormat,
+    columnMapping: (record.columnMapping ?? {}) as CatalogImportColumnMapping,
+    totalRows: record.totalRows,
+    validRows: record.validRows,
+    processedRows: record.processedRows,
+    createdCount: record.createdCount,
+    updatedCount: record.updatedCount,
+    failedCount: record.failedCount,
+    applyErrors: (record.applyErrors ?? []) as unknown as CatalogImportApplyError[],
+    createdAt: record.createdAt,
+    queuedAt: record.queuedAt,
+    completedAt: record.completedAt,
+  };
+}
+
+async function loadCatalogImport(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  importId: string,
+): Promise<CatalogImportRecord> {
+  const record = await tx.catalogImport.findFirst({ where: { id: importId, tenantId } });
+  if (!record) {
+    throw new CatalogImportError('NOT_FOUND', 'Catalog import not found', 404);
+  }
+  return record;
+}
+
+// ─── Preview / remap / queue (route side, caller's withDbContext tx) ─────────
+
+/** Dry-run an uploaded sheet and store it as a PREVIEWED import. */
+export async function createCatalogImportPreview(
+  tx: Prisma.TransactionClient,
+  input: {
+    tenantId: string;
+    userId: string | null;
+    fileName: string | null;
+    format: CatalogSpreadsheetFormat;
+    grid: string[][];
+    mapping?: CatalogImportColumnMapping;
+  },
+): Promise<{ import: CatalogImportView; report: CatalogImportReport }> {
+  const report = await buildCatalogImportReport(tx, input.tenantId, input.grid, input.mapping ?? {});
+  const record = await tx.catalogImport.create({
+    data: {
+      tenantId: input.tenantId,
+      fileName: input.fileName,
+      format: input.format,
+      sourceRows: input.grid,
+      columnMapping: toStoredMapping(report),
+      report: report as unknown as Prisma.InputJsonValue,
+      totalRows: report.totalRows,
+      validRows: report.validRows,
+      createdBy: input.userId,
+    },
+  });
+  return { import: toCatalogImportView(record), report };
+}
+
+/** Re-validate a PREVIEWED import against a new column mapping. */
+export async function remapCatalogImport(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  importId: string,
+  mapping: CatalogImportColumnMapping,
+): Promise<{ import: CatalogImportView; report: CatalogImportReport }> {
+  const record = await loadCatalogImport(tx, tenantId, importId);
+  if (record.status !== 'PREVIEWED') {
+    throw new CatalogImportError('INVALID_STATE', `Import is ${record.status}; only a previewed import can be remapped`, 409);
+  }
+  const report = await buildCatalogImportReport(tx, tenantId, record.sourceRows as string[][], mapping);
+  const updated = await tx.catalogImport.update({
+    where: { id: record.id },
+    data: {
+      columnMapping: toStoredMapping(report),
+      report: report as unknown as Prisma.InputJsonValue,
+      totalRows: report.totalRows,
+      validRows: report.validRows,
+    },
+  });
+  return { import: toCatalogImportView(updated), report };
+}
+
+export async function getCatalogImport(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  importId: string,
+): Promise<{ import: CatalogImportView; report: CatalogImportReport }> {
+  const record = await tx.catalogImport.findFirst({ where: { id: importId, tenantId } });
+  if (!record) {
+    throw new CatalogImportError('NOT_FOUND', 'Catalog import not found', 404);
+  }
+  return { import: toCatalogImportView(record), report: record.report as unknown as CatalogImportReport };
+}
+
+/**
+ * PREVIEWED → QUEUED and enqueue the apply job in the same transaction.
+ * The job payload carries only the import id; orgId lives on the job row.
+ */
+export async function queueCatalogImport(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  importId: string,
+): Promise<CatalogImportView> {
+  const record = await loadCatalogImport(tx, tenantId, importId);
+  if (record.status !== 'PREVIEWED') {
+    throw new CatalogImportError('INVALID_STATE', `Import is already ${record.status}`, 409);
+  }
+  if (record.validRows === 0) {
+    throw new CatalogImportError('INVALID_STATE', 'Import has no valid rows to apply', 409);
+  }
+
+  const job = await enqueueJob(tx as unknown as PrismaClient, {
+    jobType: CATALOG_IMPORT_APPLY_JOB_TYPE,
+    orgId: tenantId,
+    payload: { importId },
+    dedupeKey: `catalog-import:${importId}`,
+  });
+  const updated = await tx.catalogImport.update({
+    where: { id: record.id },
+    data: { status: 'QUEUED', queuedAt: new Date(), backgroundJobId: job.id },
+  });
+  return toCatalogImportView(updated);
+}
+
+// ─── Apply (job worker side) ──────────────────────────────────────────────────
+
+export interface CatalogImportApplyOptions {
+  /** Job execution trace id (app.request_id). */
+  requestId: string;
+  /** Service actor used when the import has no recorded creator. */
+  fallbackActorId: string;
+  /** Copies a source image into catalog storage. Defaults to importCatalogImageFromUrl. */
+  rehostImage?: (orgId: string, sourceUrl: string) => Promise<string>;
+}
+
+async function defaultRehostImage(orgId: string, sourceUrl: string): Promise<string> {
+  const { imageUrl } = await importCatalogImageFromUrl({ orgId, sourceUrl });
+  return imageUrl;
+}
+
+function buildItemWriteData(row: ValidatedImportRow, imageUrl: string | undefined) {
+  const { data, presentFields } = row;
+  const write: Record<string, unknown> = {};
+  for (const field of CATALOG_IMPORT_FIELDS) {
+    if (field === 'imageUrl' || field === 'catalogVisibilityPolicyMode' || !presentFields.has(field)) continue;
+    const value = data[field as keyof CatalogItemCreateInput];
+    write[field] = field === 'certifications' ? (value as Prisma.InputJsonValue) : value;
+  }
+  if (imageUrl !== undefined) {
+    write.imageUrl = imageUrl;
+  }
+  if (presentFields.has('stageAttributes')) {
+    write.stageAttributes = row.stageAttributes as Prisma.InputJsonValue;
+  }
+  if (presentFields.has('catalogVisibilityPolicyMode')) {
+    write.catalogVisibilityPolicyMode = data.catalogVisibilityPolicyMode ?? null;
+    const posture = mapCatalogVisibilityModeToPublicationPosture(data.catalogVisibilityPolicyMode);
+    if (posture !== undefined) {
+      write.publicationPosture = posture;
+    }
+  }
+  return write;
+}
+
+async function markCatalogImportFailed(
+  db: PrismaClient,
+  tenantId: string,
+  actorId: string,
+  requestId: string,
+  importId: string,
+): Promise<void> {
+  await withDbContext(db, { orgId: tenantId, actorId, realm: 'tenant', requestId }, async tx => {
+    await tx.catalogImport.updateMany({
+      where: { id: importId, tenantId, status: { in: ['QUEUED', 'RUNNING'] } },
+      data: { status: 'FAILED', completedAt: new Date(), sourceRows: [] },
+    });
+  });
+}
+
+/**
+ * Apply a QUEUED / RUNNING import. Idempotent per chunk: progress and catalog writes
+ * commit together, and a rerun starts at processedRows. An image copied for a chunk
+ * whose transaction then failed is copied again on retry (orphaned storage object,
+ * no catalog effect).
+ *
+ * @param db Root PrismaClient — each chunk opens its own tenant context.
+ */
+export async function applyCatalogImport(
+  db: PrismaClient,
+  tenantId: string,
+  importId: string,
+  options: CatalogImportApplyOptions,
+): Promise<CatalogImportView> {
+  const rehostImage = options.rehostImage ?? defaultRehostImage;
+  const context = (actorId: string) => ({ orgId: tenantId, actorId, realm: 'tenant' as const, requestId: options.requestId });
+
+  const record: CatalogImportRecord = await withDbContext(db, context(options.fallbackActorId), async tx => {
+    const current = await loadCatalogImport(tx, tenantId, importId);
+    if (current.status === 'QUEUED') {
+      return tx.catalogImport.update({ where: { id: current.id }, data: { status: 'RUNNING' } });
+    }
+    return current;
+  });
+  if (record.status !== 'RUNNING') {
+    // COMPLETED / FAILED: a duplicate or late delivery — nothing to do.
+    return toCatalogImportView(record);
+  }
+
+  const actorId = record.createdBy ?? options.fallbackActorId;
+  const actorType = record.createdBy ? 'USER' as const : 'SYSTEM' as const;
+  const analysis = analyzeCatalogImport(
+    record.sourceRows as string[][],
+    (record.columnMapping ?? {}) as CatalogImportColumnMapping,
+  );
+
+  let processed = record.processedRows;
+  let applyErrorCount = ((record.applyErrors ?? []) as unknown[]).length;
+
+  while (processed < analysis.rows.length) {
+    const chunk = analysis.rows.slice(processed, processed + CATALOG_IMPORT_CHUNK_SIZE);
+    const chunkErrors: CatalogImportApplyError[] = [];
+    const writable: Array<{ row: ValidatedImportRow; imageUrl: string | undefined }> = [];
+
+    for (const entry of chunk) {
+      if (!entry.valid) {
+        chunkErrors.push({ rowNumber: entry.rowNumber, sku: entry.sku, message: entry.errors.map(e => `${e.field}: ${e.message}`).join('; ') });
+        continue;
+      }
+      let imageUrl: string | undefined;
+      if (entry.row.data.imageUrl) {
+        try {
+          imageUrl = await rehostImage(tenantId, entry.row.data.imageUrl);
+        } catch (err) {
+          const message = err instanceof CatalogImageUploadError ? err.message : 'Image could not be imported.';
+          chunkErrors.push({ rowNumber: entry.row.rowNumber, sku: entry.row.sku, message: `imageUrl: ${message}` });
+          continue;
+        }
+      }
+      writable.push({ row: entry.row, imageUrl });
+    }
+
+    const written = await withDbContext(db, context(actorId), async tx => {
+      const existing = await findExistingItemIdsBySku(tx, tenantId, writable.map(entry => entry.row.sku));
+      const items: Array<CatalogItemForVectorText & { id: string }> = [];
+      let created = 0;
+      let updated = 0;
+
+      for (const { row, imageUrl } of writable) {
+        const data = buildItemWriteData(row, imageUrl);
+        const existingId = existing.get(row.sku);
+        const item = existingId
+          ? await tx.catalogItem.update({ where: { id: existingId }, data: data as Prisma.CatalogItemUncheckedUpdateInput })
+          : await tx.catalogItem.create({
+            data: {
+              ...data,
+              tenantId,
+              sku: row.sku,
+              name: row.data.name,
+              price: row.data.price,
+              moq: row.data.moq,
+              active: true,
+            } as Prisma.CatalogItemUncheckedCreateInput,
+          });
+        if (existingId) updated += 1; else created += 1;
+        items.push(item);
+
+        await writeAuditLog(tx, {
+          realm: 'TENANT',
+          tenantId,
+          actorType,
+          actorId,
+          action: existingId ? 'catalog.item.updated' : 'catalog.item.created',
+          entity: 'catalog_item',
+          entityId: item.id,
+          metadataJson: { source: 'catalog_import', importId, rowNumber: row.rowNumber, sku: row.sku },
+        });
+      }
+
+      const keptErrors = chunkErrors.slice(0, Math.max(0, APPLY_ERRORS_MAX - applyErrorCount));
+      const current = await loadCatalogImport(tx, tenantId, importId);
+      await tx.catalogImport.update({
+        where: { id: importId },
+        data: {
+          processedRows: processed + chunk.length,
+          createdCount: { increment: created },
+          updatedCount: { increment: updated },
+          failedCount: { increment: chunkErrors.length },
+          applyErrors: [...((current.applyErrors ?? []) as unknown as CatalogImportApplyError[]), ...keptErrors] as unknown as Prisma.InputJsonValue,
+        },
+      });
+      applyErrorCount += keptErrors.length;
+      return items;
+    });
+
+    // G-028: best-effort vector indexing after the chunk commits (as the create route does).
+    for (const item of written) {
+      const result = await enqueueSourceIngestion(tenantId, 'CATALOG_ITEM', item.id, buildCatalogItemVectorText(item), {
+        name: item.name,
+        productCategory: item.productCategory ?? undefined,
+        fabricType: item.fabricType ?? undefined,
+        material: item.material ?? undefined,
+        gsm: item.gsm != null ? Number(item.gsm) : undefined,
+        hasCertifications: Array.isArray(item.certifications) && item.certifications.length > 0,
+      });
+      if (!result.accepted) {
+        console.warn('[CATALOG-IMPORT][vector_enqueue_rejected]', { importId, sourceId: item.id, reason: result.reason });
+      }
+    }
+
+    processed += chunk.length;
+  }
+
+  const finished = await withDbContext(db, context(actorId), async tx => {
+    const completed = await tx.catalogImport.update({
+      where: { id: importId },
+      data: { status: 'COMPLETED', completedAt: new Date(), sourceRows: [] },
+    });
+    await writeAuditLog(tx, {
+      realm: 'TENANT',
+      tenantId,
+      actorType,
+      actorId,
+      action: 'catalog.import.completed',
+      entity: 'catalog_import',
+      entityId: importId,
+      metadataJson: {
+        totalRows: completed.totalRows,
+        createdCount: completed.createdCount,
+        updatedCount: completed.updatedCount,
+        failedCount: completed.failedCount,
+      },
+    });
+    return completed;
+  });
+  return toCatalogImportView(finished);
+}
+
+/**
+ * Job entry point: apply, and mark the import FAILED when the final attempt fails
+ * so the tenant sees a terminal state instead of a stuck RUNNING import.
+ */
+export async function runCatalogImportJob(
+  db: PrismaClient,
+  tenantId: string,
+  importId: string,
+  options: CatalogImportApplyOptions & { attempt: number; maxAttempts: number },
+): Promise<void> {
+  try {
+    await applyCatalogImport(db, tenantId, importId, options);
+  } catch (err) {
+    if (options.attempt >= options.maxAttempts || err instanceof CatalogImportError) {
+      await markCatalogImportFailed(db, tenantId, options.fallbackActorId, options.requestId, importId);
+    }
+    throw err;
+  }
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+const CATALOG_EXPORT_SELECT = {
+  sku: true,
+  name: true,
+  description: true,
+  price: true,
+  moq: true,
+  imageUrl: true,
+  productCategory: true,
+  fabricType: true,
+  gsm: true,
+  material: true,
+  composition: true,
+  color: true,
+  widthCm: true,
+  construction: true,
+  certifications: true,
+  catalogStage: true,
+  catalogVisibilityPolicyMode: true,
+  stageAttributes: true,
+} as const;
+
+function formatExportCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(formatExportCell).join('; ');
+  if (typeof value === 'object' && 'toFixed' in (value as object)) return String(value); // Prisma.Decimal
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatCertificationsCell(value: unknown): string {
+  if (!Array.isArray(value)) return '';
+  return value
+    .map(entry => {
+      const { standard, certNumber } = (entry ?? {}) as { standard?: string; certNumber?: string };
+      return certNumber ? `${standard}:${certNumber}` : standard ?? '';
+    })
+    .filter(Boolean)
+    .join('; ');
+}
+
+/**
+ * Build the export grid (header row first) for the tenant's full catalog. Stage
+ * attributes become one stageAttributes.<key> column per key in use.
+ */
+export async function buildCatalogExportGrid(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+): Promise<string[][]> {
+  const items = await tx.catalogItem.findMany({
+    where: { tenantId },
+    select: CATALOG_EXPORT_SELECT,
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  const stageKeys = Array.from(
+    new Set(items.flatMap(item => Object.keys((item.stageAttributes ?? {}) as Record<string, unknown>))),
+  ).sort((left, right) => left.localeCompare(right));
+
+  const header = [...CATALOG_IMPORT_FIELDS, ...stageKeys.map(key => `${STAGE_ATTRIBUTE_PREFIX}${key}`)];
+  const rows = items.map(item => {
+    const attrs = (item.stageAttributes ?? {}) as Record<string, unknown>;
+    return [
+      ...CATALOG_IMPORT_FIELDS.map(field =>
+        field === 'certifications' ? formatCertificationsCell(item.certifications) : formatExportCell(item[field])),
+      ...stageKeys.map(key => formatExportCell(attrs[key])),
+    ];
+  });
+  return [header, ...rows];
+}
@@ -0,0 +1,396 @@
+/**
+ * catalogSpreadsheet.ts — CSV / XLSX codec for bulk catalog import and export
+ * Task ID: CATALOG-IMPORT-001
+ *
+ * Reads an uploaded sheet into a grid of strings and writes a grid back out.
+ * XLSX support covers what catalog sheets need: the first worksheet, shared and
+ * inline strings, numbers and booleans. Formulas are read as their cached value;
+ * styles, dates and merged cells are not interpreted.
+ *
+ * The ZIP container is read here and written by lib/zipArchive.ts, both on
+ * node:zlib (stored and deflated entries), so no spreadsheet dependency is needed.
+ *
+ * SECURITY:
+ *   - Inflated entries are capped (XLSX_MAX_ENTRY_BYTES) to defuse zip bombs.
+ *   - Exported text cells that start with = + - @ are prefixed with an apostrophe
+ *     so spreadsheet apps do not evaluate them as formulas; import strips it again.
+ *
+ * @module catalogSpreadsheet
+ */
+
+import { inflateRawSync } from 'node:zlib';
+import {
+  ZIP_CENTRAL_HEADER_SIG,
+  ZIP_END_OF_CENTRAL_DIR_SIG,
+  ZIP_LOCAL_HEADER_SIG,
+  writeZipArchive,
+} from '../../lib/zipArchive.js';
+
+// ─── Types / constants ────────────────────────────────────────────────────────
+
+export type CatalogSpreadsheetFormat = 'csv' | 'xlsx';
+
+export const CATALOG_SPREADSHEET_FORMATS = ['csv', 'xlsx'] as const;
+
+export const CATALOG_SPREADSHEET_CONTENT_TYPES: Record<CatalogSpreadsheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** Upper bound for any single inflated XLSX part. */
+const XLSX_MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+export type CatalogSpreadsheetErrorCode = 'UNSUPPORTED_FORMAT' | 'MALFORMED_FILE';
+
+export class CatalogSpreadsheetError extends Error {
+  readonly code: CatalogSpreadsheetErrorCode;
+  readonly statusCode = 400;
+
+  constructor(code: CatalogSpreadsheetErrorCode, message: string) {
+    super(message);
+    this.name = 'CatalogSpreadsheetError';
+    this.code = code;
+  }
+}
+
+// ─── Format detection ─────────────────────────────────────────────────────────
+
+/**
+ * Resolve the sheet format from file content, falling back to the file extension.
+ * XLSX is a ZIP container (PK\x03\x04); anything else with a .csv / .txt name or
+ * a text MIME type is read as CSV.
+ */
+export function detectCatalogSpreadsheetFormat(
+  buffer: Buffer,
+  fileName?: string | null,
+  mimeType?: string | null,
+): CatalogSpreadsheetFormat {
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER_SIG) {
+    return 'xlsx';
+  }
+  const extension = fileName?.toLowerCase().split('.').pop() ?? '';
+  if (extension === 'xlsx') {
+    throw new CatalogSpreadsheetError('MALFORMED_FILE', 'The .xlsx file is not a valid workbook.');
+  }
+  if (extension === 'csv' || extension === 'txt' || mimeType?.startsWith('text/')) {
+    return 'csv';
+  }
+  throw new CatalogSpreadsheetError('UNSUPPORTED_FORMAT', 'Only CSV and XLSX files can be imported.');
+}
+
+/**
+ * Read the first sheet of an uploaded file. Trailing empty cells and fully empty
+ * rows are dropped; row order is preserved.
+ */
+export function readCatalogSpreadsheet(buffer: Buffer, format: CatalogSpreadsheetFormat): string[][] {
+  const grid = format === 'xlsx' ? readXlsxSheet(buffer) : parseCsv(buffer.toString('utf8'));
+  return grid
+    .map(row => {
+      const cells = row.map(cell => unescapeFormulaCell(cell.trim()));
+      while (cells.length > 0 && cells[cells.length - 1] === '') cells.pop();
+      return cells;
+    })
+    .filter(row => row.length > 0);
+}
+
+/** Serialize a grid (header row first) in the requested format. */
+export function writeCatalogSpreadsheet(
+  rows: readonly (readonly string[])[],
+  format: CatalogSpreadsheetFormat,
+  sheetName = 'Catalog',
+): Buffer {
+  const safeRows = rows.map(row => row.map(escapeFormulaCell));
+  return format === 'xlsx'
+    ? writeXlsxSheet(safeRows, sheetName)
+    : Buffer.from(`\uFEFF${serializeCsv(safeRows)}`, 'utf8');
+}
+
+function escapeFormulaCell(value: string): string {
+  // Numbers such as -12.5 are data, not formulas.
+  if (FORMULA_PREFIX.test(value) && Number.isNaN(Number(value))) {
+    return `'${value}`;
+  }
+  return value;
+}
+
+function unescapeFormulaCell(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+// ─── CSV ──────────────────────────────────────────────────────────────────────
+
+/** RFC 4180 parser: quoted fields, doubled quotes, embedded newlines, CRLF / LF, BOM. */
+export function parseCsv(text: string): string[][] {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CatalogSpreadsheetError('MALFORMED_FILE', 'CSV file has an unterminated quoted field.');
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function serializeCsv(rows: readonly (readonly string[])[]): string {
+  return rows
+    .map(row => row.map(cell => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+// ─── ZIP container ────────────────────────────────────────────────────────────
+
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i -= 1) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIR_SIG) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new CatalogSpreadsheetError('MALFORMED_FILE', 'The .xlsx file is not a valid workbook.');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, Buffer>();
+
+  for (let n = 0; n < entryCount; n += 1) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER_SIG) {
+      throw new CatalogSpreadsheetError('MALFORMED_FILE', 'The .xlsx file is not a valid workbook.');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER_SIG) {
+      throw new CatalogSpreadsheetError('MALFORMED_FILE', 'The .xlsx file is not a valid workbook.');
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, data);
+    } else if (method === 8) {
+      try {
+        entries.set(name, inflateRawSync(data, { maxOutputLength: XLSX_MAX_ENTRY_BYTES }));
+      } catch {
+        throw new CatalogSpreadsheetError('MALFORMED_FILE', 'The .xlsx file could not be decompressed.');
+      }
+    }
+  }
+  return entries;
+}
+
+// ─── XLSX ─────────────────────────────────────────────────────────────────────
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10),
+        );
+    }
+  });
+}
+
+function encodeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0 text.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function readXmlText(fragment: string): string {
+  let text = '';
+  for (const match of fragment.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += decodeXml(match[1]);
+  }
+  return text;
+}
+
+function columnIndex(cellRef: string): number {
+  let index = 0;
+  for (const char of cellRef.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function resolveFirstWorksheetPath(entries: Map<string, Buffer>): string {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8') ?? '';
+  const rels = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8') ?? '';
+  const sheetRelId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  if (sheetRelId) {
+    for (const rel of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+      if (rel[0].includes(`Id="${sheetRelId}"`)) {
+        const target = /Target="([^"]+)"/.exec(rel[0])?.[1];
+        if (target) {
+          return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+        }
+      }
+    }
+  }
+  const fallback = [...entries.keys()].filter(name => /^xl\/worksheets\/[^/]+\.xml$/.test(name)).sort()[0];
+  if (!fallback) {
+    throw new CatalogSpreadsheetError('MALFORMED_FILE', 'The workbook has no worksheet.');
+  }
+  return fallback;
+}
+
+export function readXlsxSheet(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer);
+  const sheetXml = entries.get(resolveFirstWorksheetPath(entries))?.toString('utf8');
+  if (!sheetXml) {
+    throw new CatalogSpreadsheetError('MALFORMED_FILE', 'The workbook has no worksheet.');
+  }
+
+  const sharedStrings: string[] = [];
+  const sharedXml = entries.get('xl/sharedStrings.xml')?.toString('utf8') ?? '';
+  for (const item of sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+    sharedStrings.push(readXmlText(item[1]));
+  }
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(/\br="(\d+)"/.exec(rowMatch[1])?.[1] ?? rows.length + 1);
+    const cells: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const ref = /\br="([A-Z]+\d*)"/i.exec(attrs)?.[1];
+      const type = /\bt="([^"]+)"/.exec(attrs)?.[1] ?? 'n';
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let value = '';
+      if (type === 's') {
+        value = rawValue !== undefined ? sharedStrings[Number(rawValue)] ?? '' : '';
+      } else if (type === 'inlineStr') {
+        value = readXmlText(body);
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+      }
+
+      const index = ref ? columnIndex(ref) : cells.length;
+      while (cells.length < index) cells.push('');
+      cells[index] = value;
+    }
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  }
+  return rows;
+}
+
+export function writeXlsxSheet(rows: readonly (readonly string[])[], sheetName: string): Buffer {
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, colIndex) => {
+          if (value === '') return '';
+          const ref = `${columnName(colIndex)}${rowIndex + 1}`;
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(value)}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  return writeZipArchive([
+    {
+      name: '[Content_Types].xml',
+      content: `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`
+        + `<sheets><sheet name="${encodeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+        + `<sheetData>${sheetRows}</sheetData></worksheet>`,
+    },
+  ]);
+}
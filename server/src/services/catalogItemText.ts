@@ -0,0 +1,231 @@
+/**
+ * catalogItemText.ts — Plain-text rendering of catalog items for AI and vector search
+ *
+ * Used by the tenant catalog routes (vector indexing, AI context) and the bulk
+ * catalog import worker (CATALOG-IMPORT-001) so every write path indexes items
+ * identically.
+ *
+ * @module catalogItemText
+ */
+
+// =============================================================================
+// Pure helpers: vector text and attribute completeness
+// =============================================================================
+
+export interface CatalogItemForVectorText {
+  name: string;
+  sku?: string | null;
+  description?: string | null;
+  productCategory?: string | null;
+  fabricType?: string | null;
+  material?: string | null;
+  composition?: string | null;
+  construction?: string | null;
+  color?: string | null;
+  gsm?: unknown;
+  widthCm?: unknown;
+  certifications?: Array<{ standard: string }> | null;
+  // Stage attributes (TECS-B2B-CATALOG-MATERIAL-STAGE-ATTRIBUTES-001)
+  catalogStage?: string | null;
+  stageAttributes?: Record<string, unknown> | null;
+}
+
+/**
+ * Build a rich plain-text document for vector ingestion from a catalog item.
+ * Stage-aware dispatch: uses catalogStage to select the relevant field set.
+ * DOES NOT include price or publicationPosture (intentional).
+ */
+export function buildCatalogItemVectorText(item: CatalogItemForVectorText): string {
+  const attrs = (item.stageAttributes ?? {}) as Record<string, unknown>;
+
+  function strOf(key: string): string | null {
+    const v = attrs[key];
+    return typeof v === 'string' && v.length > 0 ? v : null;
+  }
+  function numOf(key: string): number | null {
+    const v = attrs[key];
+    return v != null && !isNaN(Number(v)) ? Number(v) : null;
+  }
+  function arrOf(key: string): string[] {
+    const v = attrs[key];
+    return Array.isArray(v) ? v.filter((x): x is string => typeof x === 'string') : [];
+  }
+
+  const certStr =
+    item.certifications && item.certifications.length > 0
+      ? `Certifications: ${item.certifications.map(c => c.standard).join(', ')}`
+      : null;
+
+  const parts: string[] = [item.name];
+  if (item.sku) parts.push(`SKU: ${item.sku}`);
+  if (item.description) parts.push(item.description);
+
+  switch (item.catalogStage) {
+    case 'YARN': {
+      if (strOf('yarnType')) parts.push(`Yarn type: ${strOf('yarnType')}`);
+      if (strOf('yarnCount')) parts.push(`Yarn count: ${strOf('yarnCount')}`);
+      if (strOf('countSystem')) parts.push(`Count system: ${strOf('countSystem')}`);
+      if (strOf('fiber')) parts.push(`Fiber: ${strOf('fiber')}`);
+      if (item.composition) parts.push(`Composition: ${item.composition}`);
+      if (strOf('spinningType')) parts.push(`Spinning type: ${strOf('spinningType')}`);
+      if (certStr) parts.push(certStr);
+      break;
+    }
+    case 'FIBER': {
+      if (strOf('fiberType')) parts.push(`Fiber type: ${strOf('fiberType')}`);
+      if (strOf('fiberGrade')) parts.push(`Grade: ${strOf('fiberGrade')}`);
+      if (strOf('origin')) parts.push(`Origin: ${strOf('origin')}`);
+      if (strOf('organicStatus')) parts.push(`Organic status: ${strOf('organicStatus')}`);
+      if (certStr) parts.push(certStr);
+      break;
+    }
+    case 'FABRIC_KNIT': {
+      if (strOf('knitType')) parts.push(`Knit type: ${strOf('knitType')}`);
+      const gauge = numOf('gauge');
+      if (gauge != null) parts.push(`Gauge: ${gauge}`);
+      if (strOf('stretch')) parts.push(`Stretch: ${strOf('stretch')}`);
+      if (item.material) parts.push(`Material: ${item.material}`);
+      if (item.composition) parts.push(`Composition: ${item.composition}`);
+      if (certStr) parts.push(certStr);
+      break;
+    }
+    case 'GARMENT': {
+      if (strOf('garmentType')) parts.push(`Garment type: ${strOf('garmentType')}`);
+      if (strOf('gender')) parts.push(`Gender: ${strOf('gender')}`);
+      if (strOf('fabricComposition')) parts.push(`Fabric composition: ${strOf('fabricComposition')}`);
+      if (strOf('stitchingType')) parts.push(`Stitching: ${strOf('stitchingType')}`);
+      const cap = numOf('monthlyCapacity');
+      if (cap != null) parts.push(`Monthly capacity: ${cap}`);
+      if (certStr) parts.push(certStr);
+      break;
+    }
+    case 'MACHINE': {
+      if (strOf('machineType')) parts.push(`Machine type: ${strOf('machineType')}`);
+      if (strOf('brand')) parts.push(`Brand: ${strOf('brand')}`);
+      if (strOf('model')) parts.push(`Model: ${strOf('model')}`);
+      const year = numOf('year');
+      if (year != null) parts.push(`Year: ${year}`);
+      if (strOf('condition')) parts.push(`Condition: ${strOf('condition')}`);
+      const svc = attrs['serviceSupport'];
+      if (svc != null) parts.push(`Service support: ${svc}`);
+      break;
+    }
+    case 'SERVICE': {
+      if (strOf('serviceType')) parts.push(`Service type: ${strOf('serviceType')}`);
+      if (strOf('specialization')) parts.push(`Specialization: ${strOf('specialization')}`);
+      const industries = arrOf('industryFocus');
+      if (industries.length > 0) parts.push(`Industry focus: ${industries.join(', ')}`);
+      if (strOf('locationCoverage')) parts.push(`Location coverage: ${strOf('locationCoverage')}`);
+      if (certStr) parts.push(certStr);
+      break;
+    }
+    case 'SOFTWARE_SAAS': {
+      if (strOf('softwareCategory')) parts.push(`Software category: ${strOf('softwareCategory')}`);
+      if (strOf('deploymentModel')) parts.push(`Deployment: ${strOf('deploymentModel')}`);
+      const mods = arrOf('modules');
+      if (mods.length > 0) parts.push(`Modules: ${mods.join(', ')}`);
+      const secCerts = arrOf('securityCertifications');
+      if (secCerts.length > 0) parts.push(`Security certifications: ${secCerts.join(', ')}`);
+      break;
+    }
+    default: {
+      // FABRIC_WOVEN, FABRIC_PROCESSED, ACCESSORY_TRIM, CHEMICAL_AUXILIARY,
+      // MACHINE_SPARE, PACKAGING, OTHER, or null — use existing fabric field path.
+      if (item.productCategory) parts.push(`Category: ${item.productCategory}`);
+      if (item.fabricType) parts.push(`Fabric type: ${item.fabricType}`);
+      if (item.material) parts.push(`Material: ${item.material}`);
+      if (item.composition) parts.push(`Composition: ${item.composition}`);
+      if (item.construction) parts.push(`Construction: ${item.construction}`);
+      if (item.color) parts.push(`Color: ${item.color}`);
+      if (item.gsm != null) parts.push(`GSM: ${Number(item.gsm)}`);
+      if (item.widthCm != null) parts.push(`Width: ${Number(item.widthCm)}cm`);
+      if (certStr) parts.push(certStr);
+      break;
+    }
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Compute what fraction of the relevant attribute fields are non-null/non-empty.
+ * Stage-aware: uses catalogStage to determine the expected field set.
+ * Returns a value in [0, 1]. Intended for AI context metadata only — not stored.
+ */
+export function catalogItemAttributeCompleteness(item: Partial<CatalogItemForVectorText>): number {
+  const attrs = (item.stageAttributes ?? {}) as Record<string, unknown>;
+
+  function hasAttr(key: string): boolean {
+    const v = attrs[key];
+    if (v == null || v === '') return false;
+    if (Array.isArray(v) && v.length === 0) return false;
+    return true;
+  }
+  function hasField(key: keyof CatalogItemForVectorText): boolean {
+    const v = item[key];
+    if (v == null || v === '') return false;
+    if (Array.isArray(v) && (v as unknown[]).length === 0) return false;
+    return true;
+  }
+
+  switch (item.catalogStage) {
+    case 'YARN': {
+      // 11 fields
+      const count = [
+        hasField('name'), hasAttr('yarnType'), hasAttr('yarnCount'), hasAttr('countSystem'),
+        hasAttr('ply'), hasAttr('fiber'), hasField('composition'), hasAttr('spinningType'),
+        hasAttr('coneWeight'), hasAttr('endUse'), hasField('certifications'),
+      ].filter(Boolean).length;
+      return count / 11;
+    }
+    case 'FABRIC_KNIT': {
+      // 9 fields
+      const count = [
+        hasField('name'), hasAttr('knitType'), hasAttr('gauge'), hasAttr('loopLength'),
+        hasAttr('stretch'), hasField('material'), hasField('composition'), hasAttr('finish'),
+        hasField('certifications'),
+      ].filter(Boolean).length;
+      return count / 9;
+    }
+    case 'GARMENT': {
+      // 10 fields
+      const count = [
+        hasField('name'), hasAttr('garmentType'), hasAttr('gender'), hasAttr('ageGroup'),
+        hasAttr('fabricComposition'), hasAttr('trims'), hasAttr('stitchingType'),
+        hasAttr('washCare'), hasAttr('monthlyCapacity'), hasAttr('complianceCertifications'),
+      ].filter(Boolean).length;
+      return count / 10;
+    }
+    case 'MACHINE': {
+      // 8 fields
+      const count = [
+        hasField('name'), hasAttr('machineType'), hasAttr('brand'), hasAttr('model'),
+        hasAttr('year'), hasAttr('condition'), hasAttr('capacity'), hasAttr('serviceSupport'),
+      ].filter(Boolean).length;
+      return count / 8;
+    }
+    case 'SERVICE': {
+      // 7 fields
+      const count = [
+        hasField('name'), hasAttr('serviceType'), hasAttr('specialization'),
+        hasAttr('industryFocus'), hasAttr('locationCoverage'), hasAttr('turnaroundTimeDays'),
+        hasField('certifications'),
+      ].filter(Boolean).length;
+      return count / 7;
+    }
+    default: {
+      // FABRIC_WOVEN, null, or any other stage: 9 textile fields (legacy/unchanged)
+      const fields = [
+        'productCategory', 'fabricType', 'gsm', 'material', 'composition',
+        'color', 'widthCm', 'construction', 'certifications',
+      ] as const;
+      const filled = fields.filter(f => {
+        const v = (item as Record<string, unknown>)[f];
+        if (v == null || v === '') return false;
+        if (Array.isArray(v) && v.length === 0) return false;
+        return true;
+      }).length;
+      return filled / 9;
+    }
+  }
+}
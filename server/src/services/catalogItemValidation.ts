@@ -0,0 +1,277 @@
+/**
+ * catalogItemValidation.ts — Catalog item field vocabulary and write validation
+ *
+ * Shared by the tenant catalog create / update / filter routes and the bulk
+ * catalog import (CATALOG-IMPORT-001), so a row imported from a spreadsheet is
+ * held to exactly the rules of POST /tenant/catalog/items.
+ *
+ * @module catalogItemValidation
+ */
+
+import { z } from 'zod';
+import { CATALOG_VISIBILITY_POLICY_MODES } from './catalogVisibilityPolicyResolver.js';
+
+// =============================================================================
+// TECS-B2B-BUYER-CATALOG-TEXTILE-ATTRIBUTES-FILTERS-001
+// Textile attribute controlled-vocabulary constants (shared by create/update/filter routes)
+// =============================================================================
+
+export const PRODUCT_CATEGORY_VALUES = [
+  'APPAREL_FABRIC', 'HOME_TEXTILE', 'TECHNICAL_FABRIC', 'INDUSTRIAL_FABRIC',
+  'LINING', 'INTERLINING', 'TRIMMING', 'ACCESSORY', 'OTHER',
+] as const;
+
+export const FABRIC_TYPE_VALUES = [
+  'WOVEN', 'KNIT', 'NON_WOVEN', 'LACE', 'EMBROIDERED',
+  'TECHNICAL_COMPOSITE', 'FLEECE', 'OTHER',
+] as const;
+
+export const MATERIAL_VALUES = [
+  'COTTON', 'POLYESTER', 'SILK', 'WOOL', 'LINEN', 'VISCOSE', 'MODAL',
+  'TENCEL_LYOCELL', 'NYLON', 'ACRYLIC', 'HEMP', 'BAMBOO',
+  'RECYCLED_POLYESTER', 'RECYCLED_COTTON', 'BLENDED', 'OTHER',
+] as const;
+
+export const CONSTRUCTION_VALUES = [
+  'PLAIN_WEAVE', 'TWILL', 'SATIN', 'DOBBY', 'JACQUARD', 'TERRY', 'VELVET',
+  'JERSEY', 'RIB', 'INTERLOCK', 'FLEECE_KNIT', 'MESH', 'OTHER',
+] as const;
+
+export const CERT_STANDARD_VALUES = [
+  'OEKO_TEX_STANDARD_100', 'OEKO_TEX_LEATHER_STANDARD', 'GOTS', 'BCI', 'FAIR_TRADE',
+  'BLUESIGN', 'HIGG_INDEX', 'RECYCLED_CLAIM_STANDARD', 'GLOBAL_RECYCLE_STANDARD',
+  'ISO_9001', 'SEDEX_SMETA', 'OTHER',
+] as const;
+
+/** Zod schema for a single certification entry stored in the certifications JSONB column. */
+export const certificationEntrySchema = z.object({
+  standard: z.enum(CERT_STANDARD_VALUES),
+  certNumber: z.string().max(100).optional(),
+  issuedBy: z.string().max(200).optional(),
+  validUntil: z.string().max(50).optional(),
+});
+
+/** Zod schema for the certifications JSONB array (create path — no null). */
+export const certificationsCreateSchema = z.array(certificationEntrySchema).optional();
+
+/** Zod schema for the certifications JSONB array (update path — nullable to clear). */
+export const certificationsUpdateSchema = z.array(certificationEntrySchema).nullable().optional();
+
+// Catalog stage taxonomy (TECS-B2B-CATALOG-MATERIAL-STAGE-ATTRIBUTES-001)
+export const CATALOG_STAGE_VALUES = [
+  'YARN', 'FIBER', 'FABRIC_WOVEN', 'FABRIC_KNIT', 'FABRIC_PROCESSED',
+  'GARMENT', 'ACCESSORY_TRIM', 'CHEMICAL_AUXILIARY', 'MACHINE', 'MACHINE_SPARE',
+  'PACKAGING', 'SERVICE', 'SOFTWARE_SAAS', 'OTHER',
+] as const;
+
+export const SERVICE_TYPE_VALUES = [
+  'FASHION_DESIGN', 'FABRIC_DESIGN_DOBBY', 'FABRIC_DESIGN_JACQUARD', 'FABRIC_DESIGN_PRINT',
+  'TECHNICAL_CONSULTING', 'BUSINESS_CONSULTING', 'TESTING_LAB', 'LOGISTICS_PROVIDER',
+  'CERTIFICATION_PROVIDER', 'MANUFACTURING_SERVICE', 'TEXTILE_SOFTWARE_SAAS', 'OTHER_SERVICE',
+] as const;
+
+// Stage-specific stageAttributes Zod schemas.
+// Use .passthrough() so extra JSONB keys beyond defined fields are preserved.
+export const stageAttributesSchemas: Partial<Record<typeof CATALOG_STAGE_VALUES[number], z.ZodTypeAny>> = {
+  YARN: z.object({
+    yarnType: z.enum(['SPUN', 'FILAMENT', 'TEXTURED', 'CORE_SPUN', 'FANCY', 'OTHER']).optional(),
+    yarnCount: z.string().max(50).optional(),
+    countSystem: z.enum(['NE', 'NM', 'TEX', 'DENIER']).optional(),
+    ply: z.number().int().min(1).max(12).optional(),
+    twist: z.number().optional(),
+    twistDirection: z.enum(['S', 'Z']).optional(),
+    fiber: z.string().max(100).optional(),
+    composition: z.string().max(500).optional(),
+    denier: z.number().optional(),
+    filamentType: z.string().max(100).optional(),
+    spinningType: z.enum(['RING', 'OPEN_END', 'AIR_JET', 'COMPACT', 'VORTEX', 'OTHER']).optional(),
+    coneWeight: z.number().optional(),
+    endUse: z.enum(['WEAVING', 'KNITTING', 'EMBROIDERY', 'SEWING_THREAD', 'OTHER']).optional(),
+    certifications: z.array(z.string().max(100)).optional(),
+  }).passthrough(),
+  FIBER: z.object({
+    fiberType: z.string().max(50).optional(),
+    fiberGrade: z.string().max(50).optional(),
+    stapleLength: z.number().optional(),
+    micronaire: z.number().optional(),
+    strength: z.number().optional(),
+    origin: z.string().max(100).optional(),
+    organicStatus: z.enum(['ORGANIC', 'CONVENTIONAL', 'TRANSITIONAL']).optional(),
+    moistureContent: z.number().optional(),
+    trashContent: z.number().optional(),
+    certifications: z.array(z.string().max(100)).optional(),
+  }).passthrough(),
+  FABRIC_WOVEN: z.object({
+    weaveType: z.string().max(50).optional(),
+    finish: z.string().max(100).optional(),
+    endUse: z.enum(['APPAREL', 'HOME_TEXTILE', 'INDUSTRIAL', 'TECHNICAL']).optional(),
+  }).passthrough(),
+  FABRIC_KNIT: z.object({
+    knitType: z.string().max(50).optional(),
+    gauge: z.number().optional(),
+    loopLength: z.number().optional(),
+    stretch: z.enum(['TWO_WAY', 'FOUR_WAY', 'NONE']).optional(),
+    finish: z.string().max(100).optional(),
+    endUse: z.enum(['APPAREL', 'HOME_TEXTILE', 'INDUSTRIAL', 'TECHNICAL']).optional(),
+  }).passthrough(),
+  FABRIC_PROCESSED: z.object({
+    processType: z.string().max(100).optional(),
+    dyeingMethod: z.string().max(100).optional(),
+    printingMethod: z.string().max(100).optional(),
+    baseConstruction: z.string().max(100).optional(),
+    finish: z.string().max(100).optional(),
+  }).passthrough(),
+  GARMENT: z.object({
+    garmentType: z.string().max(100).optional(),
+    sizeRange: z.string().max(100).optional(),
+    fit: z.string().max(50).optional(),
+    gender: z.string().max(50).optional(),
+    ageGroup: z.string().max(50).optional(),
+    fabricComposition: z.string().max(500).optional(),
+    trims: z.string().max(500).optional(),
+    stitchingType: z.string().max(100).optional(),
+    washCare: z.string().max(200).optional(),
+    monthlyCapacity: z.number().int().optional(),
+    complianceCertifications: z.array(z.string().max(100)).optional(),
+  }).passthrough(),
+  ACCESSORY_TRIM: z.object({
+    trimType: z.string().max(100).optional(),
+    material: z.string().max(100).optional(),
+    size: z.string().max(50).optional(),
+    color: z.string().max(100).optional(),
+    finish: z.string().max(100).optional(),
+    usage: z.string().max(200).optional(),
+    certifications: z.array(z.string().max(100)).optional(),
+  }).passthrough(),
+  CHEMICAL_AUXILIARY: z.object({
+    chemicalType: z.string().max(100).optional(),
+    applicationStage: z.string().max(100).optional(),
+    form: z.string().max(50).optional(),
+    concentration: z.string().max(50).optional(),
+    compatibility: z.string().max(200).optional(),
+    hazardClass: z.string().max(50).optional(),
+    packSize: z.string().max(100).optional(),
+    compliance: z.string().max(200).optional(),
+    sdsAvailable: z.boolean().optional(),
+  }).passthrough(),
+  MACHINE: z.object({
+    machineType: z.string().max(100).optional(),
+    brand: z.string().max(100).optional(),
+    model: z.string().max(100).optional(),
+    year: z.number().int().min(1900).max(2100).optional(),
+    capacity: z.string().max(100).optional(),
+    automationLevel: z.string().max(50).optional(),
+    powerRequirement: z.string().max(100).optional(),
+    condition: z.string().max(50).optional(),
+    warranty: z.string().max(100).optional(),
+    serviceSupport: z.boolean().optional(),
+  }).passthrough(),
+  MACHINE_SPARE: z.object({
+    spareType: z.string().max(100).optional(),
+    compatibleMachine: z.string().max(100).optional(),
+    partNumber: z.string().max(100).optional(),
+    material: z.string().max(100).optional(),
+    dimension: z.string().max(100).optional(),
+    brand: z.string().max(100).optional(),
+    condition: z.string().max(50).optional(),
+    stockAvailability: z.string().max(50).optional(),
+    leadTimeDays: z.number().int().optional(),
+  }).passthrough(),
+  PACKAGING: z.object({
+    packagingType: z.string().max(100).optional(),
+    material: z.string().max(100).optional(),
+    size: z.string().max(100).optional(),
+    gsmOrThickness: z.string().max(50).optional(),
+    printCompatibility: z.string().max(100).optional(),
+    foodGrade: z.boolean().optional(),
+    recyclable: z.boolean().optional(),
+    compliance: z.string().max(200).optional(),
+  }).passthrough(),
+  SERVICE: z.object({
+    serviceType: z.enum(SERVICE_TYPE_VALUES).optional(),
+    specialization: z.string().max(200).optional(),
+    industryFocus: z.array(z.string().max(100)).optional(),
+    softwareTools: z.string().max(200).optional(),
+    locationCoverage: z.string().max(200).optional(),
+    turnaroundTimeDays: z.number().int().optional(),
+    portfolioAvailable: z.boolean().optional(),
+    certifications: z.array(z.string().max(100)).optional(),
+    pricingModel: z.enum(['PER_PROJECT', 'HOURLY', 'RETAINER', 'SUBSCRIPTION']).optional(),
+  }).passthrough(),
+  SOFTWARE_SAAS: z.object({
+    softwareCategory: z.string().max(100).optional(),
+    deploymentModel: z.string().max(100).optional(),
+    modules: z.array(z.string().max(100)).optional(),
+    integrations: z.string().max(500).optional(),
+    userSeats: z.string().max(100).optional(),
+    supportLevel: z.string().max(100).optional(),
+    securityCertifications: z.array(z.string().max(100)).optional(),
+    trialAvailable: z.boolean().optional(),
+  }).passthrough(),
+  OTHER: z.record(z.unknown()),
+};
+
+// =============================================================================
+// Create payload (POST /tenant/catalog/items, bulk import rows)
+// =============================================================================
+
+export const catalogItemCreateSchema = z.object({
+  name: z.string().min(1).max(255),
+  sku: z.string().min(1).max(100).optional(),
+  imageUrl: z.string().url().max(2048).optional(),
+  description: z.string().optional(),
+  price: z.number().positive(),
+  moq: z.number().int().min(1).default(1),
+  // Textile attributes (TECS-B2B-BUYER-CATALOG-TEXTILE-ATTRIBUTES-FILTERS-001)
+  productCategory: z.enum(PRODUCT_CATEGORY_VALUES).optional(),
+  fabricType: z.enum(FABRIC_TYPE_VALUES).optional(),
+  gsm: z.number().min(10).max(2000).optional(),
+  material: z.enum(MATERIAL_VALUES).optional(),
+  composition: z.string().max(500).optional(),
+  color: z.string().max(100).optional(),
+  widthCm: z.number().min(1).max(999.99).optional(),
+  construction: z.enum(CONSTRUCTION_VALUES).optional(),
+  certifications: certificationsCreateSchema,
+  // Stage attributes (TECS-B2B-CATALOG-MATERIAL-STAGE-ATTRIBUTES-001)
+  catalogStage: z.enum(CATALOG_STAGE_VALUES).optional(),
+  stageAttributes: z.record(z.unknown()).optional(),
+  // Catalog visibility policy (TECS-CATALOG-VISIBILITY-POLICY-STORAGE-001)
+  catalogVisibilityPolicyMode: z.enum(CATALOG_VISIBILITY_POLICY_MODES).nullable().optional(),
+});
+
+export type CatalogItemCreateInput = z.infer<typeof catalogItemCreateSchema>;
+
+/**
+ * Validate stageAttributes against the schema for catalogStage.
+ * Returns null data when either side is absent (nothing to store); stages without a
+ * dedicated schema keep their attributes as given.
+ */
+export function validateCatalogStageAttributes(
+  catalogStage: typeof CATALOG_STAGE_VALUES[number] | undefined,
+  stageAttributes: Record<string, unknown> | undefined,
+): { success: true; data: Record<string, unknown> | null } | { success: false; error: z.ZodError } {
+  if (!catalogStage || !stageAttributes) {
+    return { success: true, data: null };
+  }
+  const stageSchema = stageAttributesSchemas[catalogStage];
+  if (!stageSchema) {
+    return { success: true, data: stageAttributes };
+  }
+  const attrResult = stageSchema.safeParse(stageAttributes);
+  if (!attrResult.success) {
+    return { success: false, error: attrResult.error };
+  }
+  return { success: true, data: attrResult.data as Record<string, unknown> };
+}
+
+export function mapCatalogVisibilityModeToPublicationPosture(
+  mode: unknown,
+): 'B2B_PUBLIC' | 'PRIVATE_OR_AUTH_ONLY' | undefined {
+  if (mode === 'PUBLIC') {
+    return 'B2B_PUBLIC';
+  }
+  if (mode === 'APPROVED_BUYER_ONLY' || mode === 'HIDDEN') {
+    return 'PRIVATE_OR_AUTH_ONLY';
+  }
+  return undefined;
+}
@@ -0,0 +1,461 @@
+/**
+ * catalogSearch.service.ts — CATALOG-SEARCH-001 faceted textile catalog search
+ *
+ * One search engine behind every catalog listing surface:
+ *   GET /api/tenant/catalog/items                       (own catalog — WL storefront search)
+ *   GET /api/tenant/catalog/supplier/:supplierOrgId/items (authenticated B2B buyer browse)
+ *   GET /api/public/b2b/suppliers                       (public B2B discovery — catalog match)
+ *
+ * Pipeline:
+ *   1. Text match (only when `q` is present): Postgres FTS over catalog_items.search_vector
+ *      plus pg_trgm similarity on name, ranked by ts_rank_cd + similarity.
+ *   2. Attribute filters as a Prisma where (exact / range / JSONB containment), AND-composed.
+ *   3. Composition percentage filters ("≥ 95% cotton") against the parsed composition text.
+ *   4. Caller visibility filter — callers pass their resolveCatalogVisibilityPolicy-based
+ *      gate so hidden items never reach results or facet counts.
+ *   5. Facet counts over the visible matches, then cursor pagination (cursor = last item id).
+ *
+ * RULES:
+ * - Runs on the caller's transaction client: RLS context (withDbContext) or the
+ *   cross-tenant read role set by the route stays in force for every query.
+ * - The scope (tenant ids, publication postures) is applied in SQL; it is never
+ *   derived from client input.
+ * - At most CATALOG_SEARCH_CANDIDATE_LIMIT candidates are considered per search; totals
+ *   and facets describe that candidate window.
+ */
+
+import { Prisma, type PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export const CATALOG_SEARCH_CANDIDATE_LIMIT = 1000;
+
+// ─── Query schema ─────────────────────────────────────────────────────────────
+
+const stringList = (max: number) =>
+  z.union([z.array(z.string().min(1).max(max)), z.string().min(1).max(max).transform(v => [v])]);
+
+/** "cotton:95" → at least 95% cotton; "cotton" → any cotton content. */
+const compositionFilterSchema = z
+  .string()
+  .max(60)
+  .regex(/^[a-zA-Z][a-zA-Z \-]*(?::\d{1,3}(?:\.\d+)?)?$/, 'Expected <fiber> or <fiber>:<minPercent>')
+  .transform(value => {
+    const [fiber, minPercent] = value.split(':');
+    return { fiber: fiber.trim().toLowerCase(), minPercent: minPercent ? Number(minPercent) : 0 };
+  })
+  .refine(filter => filter.minPercent <= 100, 'Composition percentage must be between 0 and 100');
+
+export const catalogSearchFiltersSchema = z.object({
+  q: z.string().max(100).optional(),
+  productCategory: z.string().max(50).optional(),
+  fabricType: z.string().max(50).optional(),
+  material: stringList(50).optional(),
+  construction: z.string().max(50).optional(),
+  color: z.string().max(100).optional(),
+  gsmMin: z.coerce.number().min(10).max(2000).optional(),
+  gsmMax: z.coerce.number().min(10).max(2000).optional(),
+  widthMin: z.coerce.number().min(1).max(999.99).optional(),
+  widthMax: z.coerce.number().min(1).max(999.99).optional(),
+  moqMax: z.coerce.number().int().min(1).optional(),
+  // Every listed standard must be present on the item.
+  certification: stringList(50).optional(),
+  composition: z
+    .union([z.array(compositionFilterSchema), compositionFilterSchema.transform(v => [v])])
+    .optional(),
+  catalogStage: z.string().max(50).optional(),
+});
+
+export type CatalogSearchFilters = z.infer<typeof catalogSearchFiltersSchema>;
+
+export type CompositionFilter = { fiber: string; minPercent: number };
+
+/** True when any filter beyond pagination is set. */
+export function hasCatalogSearchCriteria(filters: CatalogSearchFilters): boolean {
+  return Object.values(filters).some(value =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined && value !== ''
+  );
+}
+
+// ─── Scope ────────────────────────────────────────────────────────────────────
+
+export type CatalogSearchScope = {
+  /** Restrict to these tenants. Omit to rely on the caller's RLS tenant context. */
+  tenantIds?: string[];
+  /** Only items whose publication_posture is in this list. */
+  publicationPostures?: readonly string[];
+  /** Exclude items whose publication_posture is in this list. */
+  excludedPublicationPostures?: readonly string[];
+};
+
+function buildScopeWhere(scope: CatalogSearchScope): Prisma.CatalogItemWhereInput[] {
+  const clauses: Prisma.CatalogItemWhereInput[] = [{ active: true }];
+  if (scope.tenantIds) {
+    clauses.push({ tenantId: { in: scope.tenantIds } });
+  }
+  if (scope.publicationPostures) {
+    clauses.push({ publicationPosture: { in: [...scope.publicationPostures] } });
+  }
+  if (scope.excludedPublicationPostures) {
+    clauses.push({ publicationPosture: { notIn: [...scope.excludedPublicationPostures] } });
+  }
+  return clauses;
+}
+
+function buildScopeSql(scope: CatalogSearchScope): Prisma.Sql[] {
+  const clauses: Prisma.Sql[] = [Prisma.sql`active = true`];
+  if (scope.tenantIds) {
+    clauses.push(Prisma.sql`tenant_id = ANY(${scope.tenantIds}::uuid[])`);
+  }
+  if (scope.publicationPostures) {
+    clauses.push(Prisma.sql`publication_posture = ANY(${[...scope.publicationPostures]}::text[])`);
+  }
+  if (scope.excludedPublicationPostures) {
+    clauses.push(
+      Prisma.sql`publication_posture <> ALL(${[...scope.excludedPublicationPostures]}::text[])`
+    );
+  }
+  return clauses;
+}
+
+// ─── Attribute filters ────────────────────────────────────────────────────────
+
+/** AND-composed Prisma clauses for the structured attribute filters (not `q`). */
+export function buildCatalogSearchWhere(filters: CatalogSearchFilters): Prisma.CatalogItemWhereInput[] {
+  const clauses: Prisma.CatalogItemWhereInput[] = [];
+
+  if (filters.productCategory) {
+    clauses.push({ productCategory: { equals: filters.productCategory, mode: 'insensitive' } });
+  }
+  if (filters.fabricType) {
+    clauses.push({ fabricType: { equals: filters.fabricType, mode: 'insensitive' } });
+  }
+  if (filters.material && filters.material.length > 0) {
+    clauses.push({ material: { in: filters.material, mode: 'insensitive' } });
+  }
+  if (filters.construction) {
+    clauses.push({ construction: { equals: filters.construction, mode: 'insensitive' } });
+  }
+  if (filters.color) {
+    clauses.push({ color: { contains: filters.color, mode: 'insensitive' } });
+  }
+  if (filters.gsmMin !== undefined) {
+    clauses.push({ gsm: { gte: filters.gsmMin } });
+  }
+  if (filters.gsmMax !== undefined) {
+    clauses.push({ gsm: { lte: filters.gsmMax } });
+  }
+  if (filters.widthMin !== undefined) {
+    clauses.push({ widthCm: { gte: filters.widthMin } });
+  }
+  if (filters.widthMax !== undefined) {
+    clauses.push({ widthCm: { lte: filters.widthMax } });
+  }
+  if (filters.moqMax !== undefined) {
+    clauses.push({ moq: { lte: filters.moqMax } });
+  }
+  for (const standard of filters.certification ?? []) {
+    // Parameterized JSONB containment (certifications @> '[{"standard": ...}]').
+    clauses.push({ certifications: { array_contains: [{ standard }] } });
+  }
+  for (const { fiber } of filters.composition ?? []) {
+    // Narrows candidates; the percentage threshold is checked on the parsed text.
+    clauses.push({ composition: { contains: fiber, mode: 'insensitive' } });
+  }
+  if (filters.catalogStage) {
+    clauses.push({ catalogStage: { equals: filters.catalogStage } });
+  }
+
+  return clauses;
+}
+
+// ─── Composition ──────────────────────────────────────────────────────────────
+
+const COMPOSITION_SEGMENT_SEPARATOR = /[,;/+&]|\band\b/i;
+const COMPOSITION_PERCENT = /(\d{1,3}(?:\.\d+)?)\s*%/;
+
+/**
+ * Parses free-text composition ("95% Organic Cotton, 5% Elastane", "Cotton 60% / Poly 40%")
+ * into fiber → percentage. Segments without a percentage are ignored; repeated fibers sum.
+ */
+export function parseComposition(text: string | null | undefined): Map<string, number> {
+  const fibers = new Map<string, number>();
+  if (!text) return fibers;
+
+  for (const segment of text.split(COMPOSITION_SEGMENT_SEPARATOR)) {
+    const match = COMPOSITION_PERCENT.exec(segment);
+    if (!match) continue;
+    const fiber = segment
+      .replace(match[0], ' ')
+      .replace(/[^a-zA-Z \-]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase();
+    if (!fiber) continue;
+    fibers.set(fiber, (fibers.get(fiber) ?? 0) + Number(match[1]));
+  }
+
+  return fibers;
+}
+
+/** Share of a fiber in the composition; "cotton" also counts "organic cotton". */
+export function compositionPercent(fibers: Map<string, number>, fiber: string): number {
+  let total = 0;
+  for (const [name, percent] of fibers) {
+    if (name === fiber || name.split(' ').includes(fiber)) {
+      total += percent;
+    }
+  }
+  return total;
+}
+
+function matchesCompositionFilters(
+  composition: string | null,
+  filters: readonly CompositionFilter[]
+): boolean {
+  if (filters.length === 0) return true;
+  const fibers = parseComposition(composition);
+  return filters.every(filter => {
+    const percent = compositionPercent(fibers, filter.fiber);
+    return filter.minPercent > 0 ? percent >= filter.minPercent : percent > 0;
+  });
+}
+
+// ─── Facets ───────────────────────────────────────────────────────────────────
+
+export const CATALOG_SEARCH_FACET_SELECT = {
+  id: true,
+  productCategory: true,
+  fabricType: true,
+  gsm: true,
+  material: true,
+  composition: true,
+  color: true,
+  widthCm: true,
+  construction: true,
+  certifications: true,
+  catalogStage: true,
+} satisfies Prisma.CatalogItemSelect;
+
+export type CatalogSearchFacetFields = Prisma.CatalogItemGetPayload<{
+  select: typeof CATALOG_SEARCH_FACET_SELECT;
+}>;
+
+export type CatalogSearchFacetBucket = { value: string; count: number };
+
+export type CatalogSearchRangeFacet = { min: number | null; max: number | null };
+
+export type CatalogSearchFacets = {
+  productCategory: CatalogSearchFacetBucket[];
+  fabricType: CatalogSearchFacetBucket[];
+  material: CatalogSearchFacetBucket[];
+  construction: CatalogSearchFacetBucket[];
+  color: CatalogSearchFacetBucket[];
+  catalogStage: CatalogSearchFacetBucket[];
+  certification: CatalogSearchFacetBucket[];
+  /** Fibers named in the parsed composition text, lower-cased. */
+  fiber: CatalogSearchFacetBucket[];
+  gsm: CatalogSearchRangeFacet;
+  widthCm: CatalogSearchRangeFacet;
+};
+
+function toBuckets(counts: Map<string, number>): CatalogSearchFacetBucket[] {
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+function certificationStandards(value: Prisma.JsonValue | null): string[] {
+  if (!Array.isArray(value)) return [];
+  const standards = new Set<string>();
+  for (const entry of value) {
+    if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+      const standard = (entry as Record<string, unknown>).standard;
+      if (typeof standard === 'string' && standard.length > 0) standards.add(standard);
+    }
+  }
+  return [...standards];
+}
+
+/** Facet counts over a result set; each item counts once per distinct value. */
+export function computeCatalogSearchFacets(rows: readonly CatalogSearchFacetFields[]): CatalogSearchFacets {
+  const counters = {
+    productCategory: new Map<string, number>(),
+    fabricType: new Map<string, number>(),
+    material: new Map<string, number>(),
+    construction: new Map<string, number>(),
+    color: new Map<string, number>(),
+    catalogStage: new Map<string, number>(),
+    certification: new Map<string, number>(),
+    fiber: new Map<string, number>(),
+  };
+  const gsm: CatalogSearchRangeFacet = { min: null, max: null };
+  const widthCm: CatalogSearchRangeFacet = { min: null, max: null };
+
+  const bump = (counter: Map<string, number>, value: string | null) => {
+    if (!value) return;
+    counter.set(value, (counter.get(value) ?? 0) + 1);
+  };
+  const extend = (range: CatalogSearchRangeFacet, value: Prisma.Decimal | number | null) => {
+    if (value === null || value === undefined) return;
+    const n = Number(value);
+    range.min = range.min === null ? n : Math.min(range.min, n);
+    range.max = range.max === null ? n : Math.max(range.max, n);
+  };
+
+  for (const row of rows) {
+    bump(counters.productCategory, row.productCategory);
+    bump(counters.fabricType, row.fabricType);
+    bump(counters.material, row.material);
+    bump(counters.construction, row.construction);
+    bump(counters.color, row.color);
+    bump(counters.catalogStage, row.catalogStage);
+    certificationStandards(row.certifications).forEach(standard => bump(counters.certification, standard));
+    for (const fiber of parseComposition(row.composition).keys()) {
+      bump(counters.fiber, fiber);
+    }
+    extend(gsm, row.gsm);
+    extend(widthCm, row.widthCm);
+  }
+
+  return {
+    productCategory: toBuckets(counters.productCategory),
+    fabricType: toBuckets(counters.fabricType),
+    material: toBuckets(counters.material),
+    construction: toBuckets(counters.construction),
+    color: toBuckets(counters.color),
+    catalogStage: toBuckets(counters.catalogStage),
+    certification: toBuckets(counters.certification),
+    fiber: toBuckets(counters.fiber),
+    gsm,
+    widthCm,
+  };
+}
+
+// ─── Text match ───────────────────────────────────────────────────────────────
+
+type TextMatchRow = { id: string; rank: number };
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * Ids of in-scope items matching `q`, best first. Matches the weighted tsvector
+ * (name > sku/fabric/material > composition/color/construction > description) with
+ * websearch syntax, plus trigram similarity and substring on name/sku so partial
+ * words and typos still hit.
+ */
+async function matchCatalogSearchText(
+  db: DbClient,
+  scope: CatalogSearchScope,
+  q: string
+): Promise<TextMatchRow[]> {
+  const pattern = `%${escapeLikePattern(q)}%`;
+  const rows = await db.$queryRaw<TextMatchRow[]>`
+    SELECT id,
+           (ts_rank_cd(search_vector, query) + similarity(name, ${q}))::float8 AS rank
+    FROM catalog_items, websearch_to_tsquery('simple', ${q}) AS query
+    WHERE ${Prisma.join(buildScopeSql(scope), ' AND ')}
+      AND (
+        search_vector @@ query
+        OR name % ${q}
+        OR name ILIKE ${pattern}
+        OR sku ILIKE ${pattern}
+      )
+    ORDER BY rank DESC, updated_at DESC, id DESC
+    LIMIT ${CATALOG_SEARCH_CANDIDATE_LIMIT}
+  `;
+  return rows.map(row => ({ id: row.id, rank: Number(row.rank) }));
+}
+
+// ─── Search ───────────────────────────────────────────────────────────────────
+
+export type CatalogSearchInput<Row extends CatalogSearchFacetFields> = {
+  scope: CatalogSearchScope;
+  filters: CatalogSearchFilters;
+  /** Fields to return; facet fields are always added. */
+  select: Prisma.CatalogItemSelect;
+  limit: number;
+  cursor?: string;
+  /** Caller's visibility gate, applied before facets and pagination. */
+  filterVisible?: (rows: Row[]) => Row[];
+};
+
+export type CatalogSearchResult<Row> = {
+  items: Row[];
+  /** Visible matches within the candidate window. */
+  total: number;
+  nextCursor: string | null;
+  facets: CatalogSearchFacets;
+  /** Relevance per item id; empty when no `q` was given. */
+  ranks: Map<string, number>;
+};
+
+/** Cursor pagination over an ordered list; the cursor is the id of the last item seen. */
+export function paginateCatalogSearchResults<Row extends { id: string }>(
+  rows: readonly Row[],
+  limit: number,
+  cursor?: string
+): { items: Row[]; nextCursor: string | null } {
+  let start = 0;
+  if (cursor) {
+    const index = rows.findIndex(row => row.id === cursor);
+    if (index !== -1) start = index + 1;
+  }
+  const items = rows.slice(start, start + limit);
+  const hasMore = rows.length > start + limit;
+  return { items, nextCursor: hasMore ? (items[items.length - 1]?.id ?? null) : null };
+}
+
+export async function searchCatalogItems<Row extends CatalogSearchFacetFields>(
+  db: DbClient,
+  input: CatalogSearchInput<Row>
+): Promise<CatalogSearchResult<Row>> {
+  const q = input.filters.q?.trim() ?? '';
+  const where: Prisma.CatalogItemWhereInput[] = [
+    ...buildScopeWhere(input.scope),
+    ...buildCatalogSearchWhere(input.filters),
+  ];
+  const select = { ...input.select, ...CATALOG_SEARCH_FACET_SELECT };
+
+  let rows: Row[];
+  const ranks = new Map<string, number>();
+
+  if (q.length > 0) {
+    const matches = await matchCatalogSearchText(db, input.scope, q);
+    if (matches.length === 0) {
+      return { items: [], total: 0, nextCursor: null, facets: computeCatalogSearchFacets([]), ranks };
+    }
+    matches.forEach((match, index) => ranks.set(match.id, index));
+    const found = (await db.catalogItem.findMany({
+      where: { AND: [{ id: { in: matches.map(match => match.id) } }, ...where] },
+      select,
+    })) as unknown as Row[];
+    rows = found.sort((a, b) => (ranks.get(a.id) ?? 0) - (ranks.get(b.id) ?? 0));
+    for (const match of matches) ranks.set(match.id, match.rank);
+  } else {
+    rows = (await db.catalogItem.findMany({
+      where: { AND: where },
+      select,
+      orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+      take: CATALOG_SEARCH_CANDIDATE_LIMIT,
+    })) as unknown as Row[];
+  }
+
+  const compositionFilters = input.filters.composition ?? [];
+  rows = rows.filter(row => matchesCompositionFilters(row.composition, compositionFilters));
+  if (input.filterVisible) {
+    rows = input.filterVisible(rows);
+  }
+
+  const page = paginateCatalogSearchResults(rows, input.limit, input.cursor);
+  return {
+    items: page.items,
+    total: rows.length,
+    nextCursor: page.nextCursor,
+    facets: computeCatalogSearchFacets(rows),
+    ranks,
+  };
+}
@@ -0,0 +1,446 @@
+/**
+ * catalogVariant.service.ts — Product variants under a parent catalog item
+ * Task ID: CATALOG-VARIANTS-001
+ *
+ * A variant is one orderable colourway / width / finish of a parent catalog item.
+ * It carries its own SKU (unique per tenant), label, image and free-form attributes,
+ * and may override the parent's price and MOQ:
+ *
+ *   effective price = variant.price ?? parent.price
+ *   effective MOQ   = variant.moq   ?? parent.moq
+ *
+ * Visibility and price disclosure are never stored on a variant. A variant is only
+ * reachable through its parent, so every catalog visibility, publication and
+ * price-disclosure gate evaluated for the parent applies to all of its variants.
+ * Buyer-facing summaries therefore never include a price field.
+ *
+ * Cart lines, order lines and RFQs reference a variant through a nullable variant_id;
+ * NULL means the parent item itself. Order lines snapshot the effective SKU, name and
+ * unit price at checkout (resolveEffectiveLineTerms).
+ *
+ * Cross-tenant reads (buyer PDP, RFQ helpers) run under the bounded texqtic_rfq_read
+ * role, which holds SELECT on catalog_item_variants alongside catalog_items.
+ *
+ * @module catalogVariant.service
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import type { BuyerCatalogVariantSummary } from '../types/index.js';
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export type CatalogVariantErrorCode =
+  | 'CATALOG_ITEM_NOT_FOUND'
+  | 'VARIANT_NOT_FOUND'
+  | 'VARIANT_INACTIVE'
+  | 'DUPLICATE_VARIANT_SKU';
+
+export class CatalogVariantError extends Error {
+  readonly code: CatalogVariantErrorCode;
+  readonly statusCode: number;
+
+  constructor(code: CatalogVariantErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.name = 'CatalogVariantError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+/** Free-form variant attributes (e.g. { pantone: '19-4052', handFeel: 'soft' }). */
+const variantAttributesSchema = z
+  .record(z.string().min(1).max(50), z.union([z.string().max(200), z.number(), z.boolean()]))
+  .refine(value => Object.keys(value).length <= 30, 'At most 30 attributes are allowed');
+
+export const catalogVariantCreateSchema = z.object({
+  sku: z.string().trim().min(1).max(100),
+  label: z.string().trim().min(1).max(255),
+  color: z.string().max(100).nullable().optional(),
+  widthCm: z.number().min(1).max(999.99).nullable().optional(),
+  finish: z.string().max(100).nullable().optional(),
+  /** null / omitted = inherit the parent item's price. */
+  price: z.number().positive().nullable().optional(),
+  /** null / omitted = inherit the parent item's MOQ. */
+  moq: z.number().int().min(1).nullable().optional(),
+  imageUrl: z.string().url().max(2048).nullable().optional(),
+  attributes: variantAttributesSchema.optional(),
+  active: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).max(10000).optional(),
+}).strict();
+
+export const catalogVariantUpdateSchema = catalogVariantCreateSchema
+  .partial()
+  .strict()
+  .refine(value => Object.keys(value).length > 0, 'At least one field must be provided');
+
+export type CatalogVariantCreateInput = z.infer<typeof catalogVariantCreateSchema>;
+export type CatalogVariantUpdateInput = z.infer<typeof catalogVariantUpdateSchema>;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export const CATALOG_VARIANT_SELECT = {
+  id: true,
+  catalogItemId: true,
+  sku: true,
+  label: true,
+  color: true,
+  widthCm: true,
+  finish: true,
+  price: true,
+  moq: true,
+  imageUrl: true,
+  attributes: true,
+  active: true,
+  sortOrder: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.CatalogItemVariantSelect;
+
+/** Variant columns joined onto cart lines. */
+export const CART_LINE_VARIANT_SELECT = {
+  id: true,
+  sku: true,
+  label: true,
+  color: true,
+  widthCm: true,
+  finish: true,
+  price: true,
+  moq: true,
+  imageUrl: true,
+  active: true,
+} satisfies Prisma.CatalogItemVariantSelect;
+
+type CatalogVariantRow = Prisma.CatalogItemVariantGetPayload<{ select: typeof CATALOG_VARIANT_SELECT }>;
+
+/** Supplier-side variant view: raw overrides (null = inherited) with numeric decimals. */
+export interface CatalogVariantView {
+  id: string;
+  catalogItemId: string;
+  sku: string;
+  label: string;
+  color: string | null;
+  widthCm: number | null;
+  finish: string | null;
+  price: number | null;
+  moq: number | null;
+  imageUrl: string | null;
+  attributes: Record<string, unknown>;
+  active: boolean;
+  sortOrder: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Parent item fields a variant inherits from or combines with. */
+export interface VariantParentTerms {
+  name: string;
+  sku: string | null;
+  price: unknown;
+  moq: number;
+  imageUrl?: string | null;
+}
+
+/** Variant fields that override the parent on an orderable line. */
+export interface VariantLineOverrides {
+  sku: string;
+  label: string;
+  price: unknown;
+  moq: number | null;
+  imageUrl?: string | null;
+}
+
+export interface EffectiveLineTerms {
+  name: string;
+  sku: string | null;
+  unitPrice: number;
+  moq: number;
+  imageUrl: string | null;
+}
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+function toNumberOrNull(value: unknown): number | null {
+  return value == null ? null : Number(value);
+}
+
+function toAttributes(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+export function serializeCatalogVariant(row: CatalogVariantRow): CatalogVariantView {
+  return {
+    ...row,
+    widthCm: toNumberOrNull(row.widthCm),
+    price: toNumberOrNull(row.price),
+    attributes: toAttributes(row.attributes),
+  };
+}
+
+export function toBuyerVariantSummary(
+  row: Pick<CatalogVariantRow, 'id' | 'sku' | 'label' | 'color' | 'widthCm' | 'finish' | 'moq' | 'imageUrl' | 'attributes'>,
+  parentMoq: number,
+): BuyerCatalogVariantSummary {
+  return {
+    id: row.id,
+    sku: row.sku,
+    label: row.label,
+    color: row.color,
+    widthCm: toNumberOrNull(row.widthCm),
+    finish: row.finish,
+    moq: row.moq ?? parentMoq,
+    imageUrl: row.imageUrl,
+    attributes: toAttributes(row.attributes),
+  };
+}
+
+/**
+ * Resolves the SKU, name, unit price, MOQ and image an orderable line uses.
+ * Without a variant the parent's values are returned unchanged.
+ */
+export function resolveEffectiveLineTerms(
+  parent: VariantParentTerms,
+  variant: VariantLineOverrides | null | undefined,
+): EffectiveLineTerms {
+  if (!variant) {
+    return {
+      name: parent.name,
+      sku: parent.sku,
+      unitPrice: Number(parent.price),
+      moq: parent.moq,
+      imageUrl: parent.imageUrl ?? null,
+    };
+  }
+  return {
+    name: `${parent.name} — ${variant.label}`.slice(0, 255),
+    sku: variant.sku,
+    unitPrice: Number(variant.price ?? parent.price),
+    moq: variant.moq ?? parent.moq,
+    imageUrl: variant.imageUrl ?? parent.imageUrl ?? null,
+  };
+}
+
+function isPrismaUniqueViolation(err: unknown): boolean {
+  return err instanceof Error && 'code' in err && (err as { code: unknown }).code === 'P2002';
+}
+
+// ─── Tenant-scoped CRUD (caller supplies the org-context transaction) ─────────
+
+async function assertOwnedCatalogItem(tx: Prisma.TransactionClient, tenantId: string, catalogItemId: string) {
+  const item = await tx.catalogItem.findFirst({
+    where: { id: catalogItemId, tenantId },
+    select: { id: true },
+  });
+  if (!item) {
+    throw new CatalogVariantError('CATALOG_ITEM_NOT_FOUND', 'Catalog item not found', 404);
+  }
+}
+
+async function findOwnedVariant(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  catalogItemId: string,
+  variantId: string,
+): Promise<CatalogVariantRow> {
+  const variant = await tx.catalogItemVariant.findFirst({
+    where: { id: variantId, catalogItemId, tenantId },
+    select: CATALOG_VARIANT_SELECT,
+  });
+  if (!variant) {
+    throw new CatalogVariantError('VARIANT_NOT_FOUND', 'Variant not found', 404);
+  }
+  return variant;
+}
+
+async function assertVariantSkuAvailable(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  sku: string,
+  exceptVariantId?: string,
+) {
+  // Pre-checked so the org-context transaction is not aborted by a unique violation.
+  const clash = await tx.catalogItemVariant.findFirst({
+    where: { tenantId, sku, ...(exceptVariantId ? { NOT: { id: exceptVariantId } } : {}) },
+    select: { id: true },
+  });
+  if (clash) {
+    throw new CatalogVariantError('DUPLICATE_VARIANT_SKU', `Variant SKU "${sku}" is already in use`, 409);
+  }
+}
+
+export async function listCatalogItemVariants(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  catalogItemId: string,
+): Promise<CatalogVariantView[]> {
+  await assertOwnedCatalogItem(tx, tenantId, catalogItemId);
+  const rows = await tx.catalogItemVariant.findMany({
+    where: { catalogItemId, tenantId },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    select: CATALOG_VARIANT_SELECT,
+  });
+  return rows.map(serializeCatalogVariant);
+}
+
+/** Variants for a page of the tenant's own catalog items, grouped by parent id. */
+export async function loadVariantsByCatalogItem(
+  tx: Prisma.TransactionClient,
+  catalogItemIds: string[],
+): Promise<Map<string, CatalogVariantView[]>> {
+  const grouped = new Map<string, CatalogVariantView[]>();
+  if (catalogItemIds.length === 0) return grouped;
+
+  const rows = await tx.catalogItemVariant.findMany({
+    where: { catalogItemId: { in: catalogItemIds } },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    select: CATALOG_VARIANT_SELECT,
+  });
+  for (const row of rows) {
+    const list = grouped.get(row.catalogItemId) ?? [];
+    list.push(serializeCatalogVariant(row));
+    grouped.set(row.catalogItemId, list);
+  }
+  return grouped;
+}
+
+export async function createCatalogItemVariant(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  catalogItemId: string,
+  input: CatalogVariantCreateInput,
+): Promise<CatalogVariantView> {
+  await assertOwnedCatalogItem(tx, tenantId, catalogItemId);
+  await assertVariantSkuAvailable(tx, tenantId, input.sku);
+
+  try {
+    const row = await tx.catalogItemVariant.create({
+      data: {
+        tenantId,
+        catalogItemId,
+        sku: input.sku,
+        label: input.label,
+        color: input.color ?? null,
+        widthCm: input.widthCm ?? null,
+        finish: input.finish ?? null,
+        price: input.price ?? null,
+        moq: input.moq ?? null,
+        imageUrl: input.imageUrl ?? null,
+        attributes: (input.attributes ?? {}) as Prisma.InputJsonValue,
+        active: input.active ?? true,
+        sortOrder: input.sortOrder ?? 0,
+      },
+      select: CATALOG_VARIANT_SELECT,
+    });
+    return serializeCatalogVariant(row);
+  } catch (err) {
+    if (isPrismaUniqueViolation(err)) {
+      throw new CatalogVariantError('DUPLICATE_VARIANT_SKU', `Variant SKU "${input.sku}" is already in use`, 409);
+    }
+    throw err;
+  }
+}
+
+export async function updateCatalogItemVariant(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  catalogItemId: string,
+  variantId: string,
+  input: CatalogVariantUpdateInput,
+): Promise<{ before: CatalogVariantView; after: CatalogVariantView }> {
+  const before = await findOwnedVariant(tx, tenantId, catalogItemId, variantId);
+  if (input.sku !== undefined && input.sku !== before.sku) {
+    await assertVariantSkuAvailable(tx, tenantId, input.sku, variantId);
+  }
+
+  const { attributes, ...fields } = input;
+  const after = await tx.catalogItemVariant.update({
+    where: { id: variantId },
+    data: {
+      ...fields,
+      ...(attributes !== undefined ? { attributes: attributes as Prisma.InputJsonValue } : {}),
+    },
+    select: CATALOG_VARIANT_SELECT,
+  });
+  return { before: serializeCatalogVariant(before), after: serializeCatalogVariant(after) };
+}
+
+export async function deleteCatalogItemVariant(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  catalogItemId: string,
+  variantId: string,
+): Promise<CatalogVariantView> {
+  const existing = await findOwnedVariant(tx, tenantId, catalogItemId, variantId);
+  await tx.catalogItemVariant.delete({ where: { id: variantId } });
+  return serializeCatalogVariant(existing);
+}
+
+/**
+ * Loads a variant for a new cart line. The variant must belong to the given parent
+ * item and be active; RLS keeps the lookup inside the caller's tenant.
+ */
+export async function loadOrderableVariant(
+  tx: Prisma.TransactionClient,
+  catalogItemId: string,
+  variantId: string,
+) {
+  const variant = await tx.catalogItemVariant.findFirst({
+    where: { id: variantId, catalogItemId },
+    select: CART_LINE_VARIANT_SELECT,
+  });
+  if (!variant) {
+    throw new CatalogVariantError('VARIANT_NOT_FOUND', 'Variant not found for this catalog item', 404);
+  }
+  if (!variant.active) {
+    throw new CatalogVariantError('VARIANT_INACTIVE', 'Variant is not available', 422);
+  }
+  return variant;
+}
+
+// ─── Cross-tenant buyer reads (texqtic_rfq_read) ──────────────────────────────
+
+/**
+ * Active variants of a supplier item for the buyer PDP. Callers must already have
+ * passed the parent item's visibility gates; the result carries no price.
+ */
+export async function loadBuyerVariantSummaries(
+  db: PrismaClient,
+  catalogItemId: string,
+  parentMoq: number,
+): Promise<BuyerCatalogVariantSummary[]> {
+  const rows = await db.$transaction(async tx => {
+    await tx.$executeRaw`SET LOCAL ROLE texqtic_rfq_read`;
+    return tx.catalogItemVariant.findMany({
+      where: { catalogItemId, active: true },
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+      select: {
+        id: true, sku: true, label: true, color: true, widthCm: true,
+        finish: true, moq: true, imageUrl: true, attributes: true,
+      },
+    });
+  });
+  return rows.map(row => toBuyerVariantSummary(row, parentMoq));
+}
+
+/**
+ * Resolves an active variant of a supplier item for an RFQ. Returns null when the
+ * variant does not exist, belongs to another item, or is inactive.
+ */
+export async function resolveRfqVariantTarget(
+  db: PrismaClient,
+  catalogItemId: string,
+  variantId: string,
+): Promise<{ id: string; sku: string; label: string; moq: number | null } | null> {
+  return db.$transaction(async tx => {
+    await tx.$executeRaw`SET LOCAL ROLE texqtic_rfq_read`;
+    const variant = await tx.catalogItemVariant.findFirst({
+      where: { id: variantId, catalogItemId, active: true },
+      select: { id: true, sku: true, label: true, moq: true },
+    });
+    return variant ?? null;
+  });
+}
@@ -1,36 +1,43 @@
 /**
  * CRM Lifecycle Notify Client
  *
- * Fire-and-forget dispatcher for Main App → CRM lifecycle events.
+ * Outbox-backed dispatcher for Main App → CRM lifecycle events.
  * Noop-safe when CRM_LIFECYCLE_BASE_URL is unset.
  *
  * Design authority:  DESIGN-CRM-LIFECYCLE-SYNC-EVENT-MAP-FROM-MAINAPP-01  (commit 034bf8da)
  * Decision authority: DECIDE-CRM-LIFECYCLE-SYNC-PAYLOAD-PRIVACY-AND-FIELD-CONTRACT-01 (commit 2ef22038)
+ * Delivery:          CRM-NOTIFY-OUTBOX-001 (services/crmOutbox)
  *
  * Security rules:
  *   - Full CRM payload MUST NOT appear in logs.
  *   - email MUST NOT appear in logs, even in error context.
  *   - GSTIN is excluded in v1 (GSTIN_EXCLUDED_IN_V1); must not be passed to these functions.
  *   - CRM_LIFECYCLE_INGESTION_SECRET MUST NOT appear in logs.
- *   - These functions MUST NOT throw into the caller.
  *   - This client does not create accounts, tenants, memberships, or invites.
- *   - v1 delivery posture: FIRE_AND_FORGET_V1.
- *   - v1 does not write to any DB table (no outbox).
+ *   - Delivery posture: TRANSACTIONAL_OUTBOX. notify*() writes the event to
+ *     crm_outbox_events using the caller's transaction client; the v1 field
+ *     contract is enforced on the persisted payload. Outbox write errors propagate
+ *     so the triggering state change rolls back with its event.
+ *   - sendCrmLifecycleEvent() (used only by the outbox dispatcher) MUST NOT throw.
  */
 
+import type { PrismaClient } from '@prisma/client';
+import { signCrmNotifyBody } from '../lib/crmOutboxHmac.js';
+import { enqueueCrmOutboxEvent } from './crmOutbox/crmOutbox.service.js';
+import type { CrmSendResult } from './crmOutbox/crmOutbox.types.js';
+
 const NOTIFY_TIMEOUT_MS = 8000;
 const CRM_LIFECYCLE_ENDPOINT_PATH = '/api/webhooks/mainapp-lifecycle-events';
 
 // ─── Result type ──────────────────────────────────────────────────────────────
 
 export type CrmLifecycleDispatchResult =
-  | { dispatch_status: 'SENT'; http_status: number }
-  | { dispatch_status: 'NOOP_SKIPPED' }
-  | { dispatch_status: 'FAILED'; http_status?: number; error_message: string };
+  | { dispatch_status: 'QUEUED'; outbox_event_id: string }
+  | { dispatch_status: 'NOOP_SKIPPED' };
 
 // ─── Config helper ────────────────────────────────────────────────────────────
 
-function getCrmLifecycleConfig(): { baseUrl: string; secret: string } | null {
+export function getCrmLifecycleConfig(): { baseUrl: string; secret: string } | null {
   const baseUrl = process.env.CRM_LIFECYCLE_BASE_URL;
   if (!baseUrl) {
     return null;
@@ -53,31 +60,30 @@ function buildIdempotencyKey(event: string, orgId: string, epochMs: number): str
   return `${event}:${orgId}:${epochMs}`;
 }
 
-// ─── Internal sender ──────────────────────────────────────────────────────────
+// ─── Sender (outbox dispatcher only) ──────────────────────────────────────────
 
 /**
- * Internal: POST the payload to the CRM lifecycle endpoint.
- * On any failure: logs safe fields only, returns FAILED status, never throws.
+ * POST a persisted lifecycle payload to the CRM lifecycle endpoint, HMAC-signed.
+ * On network failure / timeout: logs safe fields only, returns FAILED, never throws.
+ * Any HTTP response (including non-2xx) is returned as SENT with its status.
  */
-async function sendLifecycleEvent(
-  baseUrl: string,
-  secret: string,
-  event: string,
-  orgId: string,
-  idempotencyKey: string,
+export async function sendCrmLifecycleEvent(
+  cfg: { baseUrl: string; secret: string },
   payload: Record<string, unknown>,
-): Promise<CrmLifecycleDispatchResult> {
+): Promise<CrmSendResult> {
   const controller = new AbortController();
   const timeoutId = globalThis.setTimeout(() => controller.abort(), NOTIFY_TIMEOUT_MS);
+  const body = JSON.stringify(payload);
 
   try {
-    const response = await fetch(`${baseUrl}${CRM_LIFECYCLE_ENDPOINT_PATH}`, {
+    const response = await fetch(`${cfg.baseUrl}${CRM_LIFECYCLE_ENDPOINT_PATH}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-crm-mainapp-lifecycle-secret': secret,
+        'x-crm-mainapp-lifecycle-secret': cfg.secret,
+        ...signCrmNotifyBody(body, cfg.secret),
       },
-      body: JSON.stringify(payload),
+      body,
       signal: controller.signal,
     });
 
@@ -93,9 +99,9 @@ async function sendLifecycleEvent(
 
     // Log only safe fields — never log full payload, email, GSTIN, or secret.
     console.warn('[crm-lifecycle] dispatch failed', {
-      event,
-      org_id: orgId,
-      idempotency_key: idempotencyKey,
+      event: payload.event,
+      org_id: payload.org_id,
+      idempotency_key: payload.idempotency_key,
       dispatch_status: 'FAILED',
       error_message: errorMessage,
     });
@@ -104,6 +110,45 @@ async function sendLifecycleEvent(
   }
 }
 
+// ─── Internal enqueue ─────────────────────────────────────────────────────────
+
+/**
+ * Internal: build the v1 envelope and write the event to the outbox.
+ * Returns NOOP_SKIPPED (nothing written) when the CRM is not configured.
+ */
+async function queueLifecycleEvent(
+  db: PrismaClient,
+  event: string,
+  params: { orgId: string; tenantId: string },
+  fields: Record<string, unknown>,
+): Promise<CrmLifecycleDispatchResult> {
+  const cfg = getCrmLifecycleConfig();
+  if (!cfg) return { dispatch_status: 'NOOP_SKIPPED' };
+
+  const epochMs = Date.now();
+  const idempotencyKey = buildIdempotencyKey(event, params.orgId, epochMs);
+
+  const payload: Record<string, unknown> = {
+    event,
+    idempotency_key: idempotencyKey,
+    occurred_at: new Date(epochMs).toISOString(),
+    org_id: params.orgId,
+    tenant_id: params.tenantId,
+    schema_version: '1.0',
+    ...fields,
+  };
+
+  const outboxEvent = await enqueueCrmOutboxEvent(db, {
+    channel: 'CRM_LIFECYCLE',
+    eventType: event,
+    orgId: params.orgId,
+    idempotencyKey,
+    payload,
+  });
+
+  return { dispatch_status: 'QUEUED', outbox_event_id: outboxEvent.id };
+}
+
 // ─── Param types ──────────────────────────────────────────────────────────────
 
 export interface CrmAttributionPayload {
@@ -163,6 +208,9 @@ export interface NotifyAdminReviewNeedsMoreInfoParams {
 }
 
 // ─── Notify functions ─────────────────────────────────────────────────────────
+//
+// Each notify*() takes the transaction client of the triggering state change as
+// `db`, so the outbox row commits atomically with it.
 
 /**
  * Emit org.registration.submitted.v1
@@ -171,21 +219,9 @@ export interface NotifyAdminReviewNeedsMoreInfoParams {
  */
 export async function notifyRegistrationSubmitted(
   params: NotifyRegistrationSubmittedParams,
+  db: PrismaClient,
 ): Promise<CrmLifecycleDispatchResult> {
-  const cfg = getCrmLifecycleConfig();
-  if (!cfg) return { dispatch_status: 'NOOP_SKIPPED' };
-
-  const event = 'org.registration.submitted.v1';
-  const epochMs = Date.now();
-  const idempotencyKey = buildIdempotencyKey(event, params.orgId, epochMs);
-
-  const payload: Record<string, unknown> = {
-    event,
-    idempotency_key: idempotencyKey,
-    occurred_at: new Date(epochMs).toISOString(),
-    org_id: params.orgId,
-    tenant_id: params.tenantId,
-    schema_version: '1.0',
+  return queueLifecycleEvent(db, 'org.registration.submitted.v1', params, {
     email: params.email,
     legal_name: params.legalName,
     role_intent: params.roleIntent,
@@ -194,9 +230,7 @@ export async function notifyRegistrationSubmitted(
     org_status: params.orgStatus,
     external_orchestration_ref: params.externalOrchestrationRef,
     attribution: params.attribution,
-  };
-
-  return sendLifecycleEvent(cfg.baseUrl, cfg.secret, event, params.orgId, idempotencyKey, payload);
+  });
 }
 
 /**
@@ -205,28 +239,14 @@ export async function notifyRegistrationSubmitted(
  */
 export async function notifyGstSubmitted(
   params: NotifyGstEventParams,
+  db: PrismaClient,
 ): Promise<CrmLifecycleDispatchResult> {
-  const cfg = getCrmLifecycleConfig();
-  if (!cfg) return { dispatch_status: 'NOOP_SKIPPED' };
-
-  const event = 'org.gst.submitted.v1';
-  const epochMs = Date.now();
-  const idempotencyKey = buildIdempotencyKey(event, params.orgId, epochMs);
-
-  const payload: Record<string, unknown> = {
-    event,
-    idempotency_key: idempotencyKey,
-    occurred_at: new Date(epochMs).toISOString(),
-    org_id: params.orgId,
-    tenant_id: params.tenantId,
-    schema_version: '1.0',
+  return queueLifecycleEvent(db, 'org.gst.submitted.v1', params, {
     org_status: params.orgStatus,
     registration_type: params.registrationType,
     state_code: params.stateCode,
     gstin: null, // GSTIN_EXCLUDED_IN_V1
-  };
-
-  return sendLifecycleEvent(cfg.baseUrl, cfg.secret, event, params.orgId, idempotencyKey, payload);
+  });
 }
 
 /**
@@ -235,28 +255,14 @@ export async function notifyGstSubmitted(
  */
 export async function notifyGstResubmitted(
   params: NotifyGstEventParams,
+  db: PrismaClient,
 ): Promise<CrmLifecycleDispatchResult> {
-  const cfg = getCrmLifecycleConfig();
-  if (!cfg) return { dispatch_status: 'NOOP_SKIPPED' };
-
-  const event = 'org.gst.resubmitted.v1';
-  const epochMs = Date.now();
-  const idempotencyKey = buildIdempotencyKey(event, params.orgId, epochMs);
-
-  const payload: Record<string, unknown> = {
-    event,
-    idempotency_key: idempotencyKey,
-    occurred_at: new Date(epochMs).toISOString(),
-    org_id: params.orgId,
-    tenant_id: params.tenantId,
-    schema_version: '1.0',
+  return queueLifecycleEvent(db, 'org.gst.resubmitted.v1', params, {
     org_status: params.orgStatus,
     registration_type: params.registrationType,
     state_code: params.stateCode,
     gstin: null, // GSTIN_EXCLUDED_IN_V1
-  };
-
-  return sendLifecycleEvent(cfg.baseUrl, cfg.secret, event, params.orgId, idempotencyKey, payload);
+  });
 }
 
 /**
@@ -266,28 +272,14 @@ export async function notifyGstResubmitted(
  */
 export async function notifyProviderCheckCompleted(
   params: NotifyProviderCheckParams,
+  db: PrismaClient,
 ): Promise<CrmLifecycleDispatchResult> {
-  const cfg = getCrmLifecycleConfig();
-  if (!cfg) return { dispatch_status: 'NOOP_SKIPPED' };
-
-  const event = 'org.gst.provider_check.completed.v1';
-  const epochMs = Date.now();
-  const idempotencyKey = buildIdempotencyKey(event, params.orgId, epochMs);
-
-  const payload: Record<string, unknown> = {
-    event,
-    idempotency_key: idempotencyKey,
-    occurred_at: new Date(epochMs).toISOString(),
-    org_id: params.orgId,
-    tenant_id: params.tenantId,
-    schema_version: '1.0',
+  return queueLifecycleEvent(db, 'org.gst.provider_check.completed.v1', params, {
     provider_result: params.providerResult,
     provider_name: params.providerName,
     auto_approved: params.autoApproved,
     org_status: params.orgStatus,
-  };
-
-  return sendLifecycleEvent(cfg.baseUrl, cfg.secret, event, params.orgId, idempotencyKey, payload);
+  });
 }
 
 /**
@@ -296,27 +288,13 @@ export async function notifyProviderCheckCompleted(
  */
 export async function notifyAdminReviewedApproved(
   params: NotifyAdminReviewApprovedParams,
+  db: PrismaClient,
 ): Promise<CrmLifecycleDispatchResult> {
-  const cfg = getCrmLifecycleConfig();
-  if (!cfg) return { dispatch_status: 'NOOP_SKIPPED' };
-
-  const event = 'org.gst.admin_reviewed.approved.v1';
-  const epochMs = Date.now();
-  const idempotencyKey = buildIdempotencyKey(event, params.orgId, epochMs);
-
-  const payload: Record<string, unknown> = {
-    event,
-    idempotency_key: idempotencyKey,
-    occurred_at: new Date(epochMs).toISOString(),
-    org_id: params.orgId,
-    tenant_id: params.tenantId,
-    schema_version: '1.0',
+  return queueLifecycleEvent(db, 'org.gst.admin_reviewed.approved.v1', params, {
     review_outcome: 'APPROVED',
     org_status: 'VERIFICATION_APPROVED',
     review_notes_category: params.reviewNotesCategory ?? 'ADMIN_MANUAL_APPROVAL',
-  };
-
-  return sendLifecycleEvent(cfg.baseUrl, cfg.secret, event, params.orgId, idempotencyKey, payload);
+  });
 }
 
 /**
@@ -325,27 +303,13 @@ export async function notifyAdminReviewedApproved(
  */
 export async function notifyAdminReviewedRejected(
   params: NotifyAdminReviewRejectedParams,
+  db: PrismaClient,
 ): Promise<CrmLifecycleDispatchResult> {
-  const cfg = getCrmLifecycleConfig();
-  if (!cfg) return { dispatch_status: 'NOOP_SKIPPED' };
-
-  const event = 'org.gst.admin_reviewed.rejected.v1';
-  const epochMs = Date.now();
-  const idempotencyKey = buildIdempotencyKey(event, params.orgId, epochMs);
-
-  const payload: Record<string, unknown> = {
-    event,
-    idempotency_key: idempotencyKey,
-    occurred_at: new Date(epochMs).toISOString(),
-    org_id: params.orgId,
-    tenant_id: params.tenantId,
-    schema_version: '1.0',
+  return queueLifecycleEvent(db, 'org.gst.admin_reviewed.rejected.v1', params, {
     review_outcome: 'REJECTED',
     org_status: 'VERIFICATION_REJECTED',
     rejection_reason_category: params.rejectionReasonCategory ?? 'OTHER_REVIEW_REQUIRED',
-  };
-
-  return sendLifecycleEvent(cfg.baseUrl, cfg.secret, event, params.orgId, idempotencyKey, payload);
+  });
 }
 
 /**
@@ -354,25 +318,11 @@ export async function notifyAdminReviewedRejected(
  */
 export async function notifyAdminReviewedNeedsMoreInfo(
   params: NotifyAdminReviewNeedsMoreInfoParams,
+  db: PrismaClient,
 ): Promise<CrmLifecycleDispatchResult> {
-  const cfg = getCrmLifecycleConfig();
-  if (!cfg) return { dispatch_status: 'NOOP_SKIPPED' };
-
-  const event = 'org.gst.admin_reviewed.needs_more_info.v1';
-  const epochMs = Date.now();
-  const idempotencyKey = buildIdempotencyKey(event, params.orgId, epochMs);
-
-  const payload: Record<string, unknown> = {
-    event,
-    idempotency_key: idempotencyKey,
-    occurred_at: new Date(epochMs).toISOString(),
-    org_id: params.orgId,
-    tenant_id: params.tenantId,
-    schema_version: '1.0',
+  return queueLifecycleEvent(db, 'org.gst.admin_reviewed.needs_more_info.v1', params, {
     review_outcome: 'NEEDS_MORE_INFO',
     org_status: 'VERIFICATION_NEEDS_MORE_INFO',
     review_notes_category: params.reviewNotesCategory ?? 'OTHER_REVIEW_REQUIRED',
-  };
-
-  return sendLifecycleEvent(cfg.baseUrl, cfg.secret, event, params.orgId, idempotencyKey, payload);
+  });
 }
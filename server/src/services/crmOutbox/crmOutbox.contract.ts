@@ -0,0 +1,229 @@
+/**
+ * CRM Notify Outbox — Persisted Payload Field Contract
+ * Task ID: CRM-NOTIFY-OUTBOX-001
+ *
+ * Every outbox payload is checked here BEFORE it is written, so the privacy rules
+ * that used to apply only to the in-flight request also hold for data at rest.
+ *
+ * Decision authority (lifecycle): DECIDE-CRM-LIFECYCLE-SYNC-PAYLOAD-PRIVACY-AND-FIELD-CONTRACT-01
+ * Design authority (Tier 0):      DESIGN-MAINAPP-TIER0-REQUEST-ACCESS-AND-CRM-NOTIFY-01
+ *
+ * Rules:
+ *   - Exact v1 key set per event — unknown keys (raw_verification_json, review_notes,
+ *     reviewed_by_admin_id, provider_request_id …) are rejected, missing keys too.
+ *   - email only in org.registration.submitted.v1 (EMAIL_INCLUDED_IN_V1) and Tier 0 captures.
+ *   - gstin must be null (GSTIN_EXCLUDED_IN_V1); no GSTIN-shaped value anywhere.
+ *   - Values are scalars (attribution is the only nested object, with a fixed key set).
+ *   - Tier 0: cross-system token fields are forbidden (mirrors CRM FORBIDDEN_TOP_LEVEL_FIELDS).
+ *
+ * Error messages name keys only — never values.
+ */
+
+import type { CrmOutboxChannel } from './crmOutbox.types.js';
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class CrmOutboxContractError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CrmOutboxContractError';
+  }
+}
+
+// ─── Lifecycle v1 ─────────────────────────────────────────────────────────────
+
+const LIFECYCLE_ENVELOPE_FIELDS = [
+  'event',
+  'idempotency_key',
+  'occurred_at',
+  'org_id',
+  'tenant_id',
+  'schema_version',
+] as const;
+
+/** Event-specific v1 fields (in addition to the envelope). */
+export const CRM_LIFECYCLE_V1_FIELDS: Readonly<Record<string, readonly string[]>> = {
+  'org.registration.submitted.v1': [
+    'email',
+    'legal_name',
+    'role_intent',
+    'jurisdiction',
+    'plan',
+    'org_status',
+    'external_orchestration_ref',
+    'attribution',
+  ],
+  'org.gst.submitted.v1': ['org_status', 'registration_type', 'state_code', 'gstin'],
+  'org.gst.resubmitted.v1': ['org_status', 'registration_type', 'state_code', 'gstin'],
+  'org.gst.provider_check.completed.v1': ['provider_result', 'provider_name', 'auto_approved', 'org_status'],
+  'org.gst.admin_reviewed.approved.v1': ['review_outcome', 'org_status', 'review_notes_category'],
+  'org.gst.admin_reviewed.rejected.v1': ['review_outcome', 'org_status', 'rejection_reason_category'],
+  'org.gst.admin_reviewed.needs_more_info.v1': ['review_outcome', 'org_status', 'review_notes_category'],
+};
+
+const ATTRIBUTION_FIELDS = ['source_channel', 'utm_source', 'utm_medium', 'utm_campaign'] as const;
+
+// ─── Tier 0 ───────────────────────────────────────────────────────────────────
+
+export const CRM_TIER0_CAPTURE_EVENT = 'tier0.capture.v1' as const;
+
+const TIER0_REQUIRED_FIELDS = [
+  'mainAppTier0RequestId',
+  'roleIntent',
+  'name',
+  'sourceChannel',
+  'firstTouchTimestamp',
+] as const;
+
+const TIER0_OPTIONAL_FIELDS = [
+  'email',
+  'phone',
+  'companyName',
+  'city',
+  'state',
+  'campaignId',
+  'acquisitionContext',
+  'referrerUrl',
+  'utmSource',
+  'utmMedium',
+  'utmCampaign',
+  'landingPage',
+  'consentToContact',
+  'referralCode',
+  'productCategoryInterest',
+  'notes',
+] as const;
+
+/** Mirrors TIER0_FORBIDDEN_FIELDS in routes/public.ts (minus the server-generated request id). */
+const TIER0_FORBIDDEN_FIELDS = new Set<string>([
+  'inviteToken', 'mainAppSessionToken', 'sessionToken',
+  'authToken', 'accessToken', 'refreshToken', 'idToken',
+  'privateInviteUrl', 'inviteUrl', 'token', 'tokenHash',
+]);
+
+// ─── Value checks ─────────────────────────────────────────────────────────────
+
+const GSTIN_VALUE_PATTERN = /[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]/;
+const EMAIL_VALUE_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
+
+function isScalar(value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function assertExactKeys(label: string, payload: Record<string, unknown>, required: readonly string[], optional: readonly string[] = []): void {
+  const allowed = new Set([...required, ...optional]);
+  const unknown = Object.keys(payload).filter(k => !allowed.has(k));
+  if (unknown.length > 0) {
+    throw new CrmOutboxContractError(`${label}: fields not in v1 contract: ${unknown.join(', ')}`);
+  }
+  const missing = required.filter(k => !(k in payload));
+  if (missing.length > 0) {
+    throw new CrmOutboxContractError(`${label}: required v1 fields missing: ${missing.join(', ')}`);
+  }
+}
+
+/** Reject GSTIN-shaped values, and email-shaped values outside the fields allowed to carry email. */
+function assertNoSensitiveValues(label: string, payload: Record<string, unknown>, emailKeys: ReadonlySet<string>): void {
+  for (const [key, value] of Object.entries(payload)) {
+    if (typeof value !== 'string') continue;
+    if (GSTIN_VALUE_PATTERN.test(value)) {
+      throw new CrmOutboxContractError(`${label}: field ${key} carries a GSTIN-shaped value (GSTIN_EXCLUDED_IN_V1)`);
+    }
+    if (!emailKeys.has(key) && EMAIL_VALUE_PATTERN.test(value)) {
+      throw new CrmOutboxContractError(`${label}: field ${key} carries an email-shaped value`);
+    }
+  }
+}
+
+// ─── Channel validators ───────────────────────────────────────────────────────
+
+function assertLifecyclePayload(eventType: string, orgId: string | null, payload: Record<string, unknown>): void {
+  const eventFields = CRM_LIFECYCLE_V1_FIELDS[eventType];
+  if (!eventFields) {
+    throw new CrmOutboxContractError(`Unknown CRM lifecycle event type: ${eventType}`);
+  }
+  assertExactKeys(eventType, payload, [...LIFECYCLE_ENVELOPE_FIELDS, ...eventFields]);
+
+  if (payload.event !== eventType) {
+    throw new CrmOutboxContractError(`${eventType}: payload.event does not match event type`);
+  }
+  if (payload.schema_version !== '1.0') {
+    throw new CrmOutboxContractError(`${eventType}: schema_version must be '1.0'`);
+  }
+  if (!orgId || payload.org_id !== orgId) {
+    throw new CrmOutboxContractError(`${eventType}: payload.org_id must match the outbox org`);
+  }
+  if ('gstin' in payload && payload.gstin !== null) {
+    throw new CrmOutboxContractError(`${eventType}: gstin must be null (GSTIN_EXCLUDED_IN_V1)`);
+  }
+
+  for (const [key, value] of Object.entries(payload)) {
+    if (key === 'attribution' && value !== null) {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new CrmOutboxContractError(`${eventType}: attribution must be an object or null`);
+      }
+      const attribution = value as Record<string, unknown>;
+      assertExactKeys(`${eventType}.attribution`, attribution, ATTRIBUTION_FIELDS);
+      if (!Object.values(attribution).every(v => v === null || typeof v === 'string')) {
+        throw new CrmOutboxContractError(`${eventType}.attribution: values must be strings or null`);
+      }
+      assertNoSensitiveValues(`${eventType}.attribution`, attribution, new Set());
+      continue;
+    }
+    if (!isScalar(value)) {
+      throw new CrmOutboxContractError(`${eventType}: field ${key} must be a scalar`);
+    }
+  }
+
+  assertNoSensitiveValues(
+    eventType,
+    payload,
+    new Set(eventType === 'org.registration.submitted.v1' ? ['email'] : []),
+  );
+}
+
+function assertTier0Payload(eventType: string, payload: Record<string, unknown>): void {
+  if (eventType !== CRM_TIER0_CAPTURE_EVENT) {
+    throw new CrmOutboxContractError(`Unknown CRM Tier 0 event type: ${eventType}`);
+  }
+  const forbidden = Object.keys(payload).filter(k => TIER0_FORBIDDEN_FIELDS.has(k));
+  if (forbidden.length > 0) {
+    throw new CrmOutboxContractError(`${eventType}: forbidden cross-system fields: ${forbidden.join(', ')}`);
+  }
+  assertExactKeys(eventType, payload, TIER0_REQUIRED_FIELDS, TIER0_OPTIONAL_FIELDS);
+  for (const [key, value] of Object.entries(payload)) {
+    if (!isScalar(value)) {
+      throw new CrmOutboxContractError(`${eventType}: field ${key} must be a scalar`);
+    }
+  }
+  assertNoSensitiveValues(eventType, payload, new Set(['email']));
+}
+
+/**
+ * Validate an outbox payload against its channel's v1 field contract.
+ * @throws CrmOutboxContractError — the caller's transaction must not commit the event.
+ */
+export function assertCrmOutboxPayloadContract(
+  channel: CrmOutboxChannel,
+  eventType: string,
+  orgId: string | null,
+  payload: Record<string, unknown>,
+): void {
+  if (channel === 'CRM_LIFECYCLE') {
+    assertLifecyclePayload(eventType, orgId, payload);
+  } else {
+    assertTier0Payload(eventType, payload);
+  }
+}
+
+/** Fields masked when control-plane staff inspect a persisted payload. */
+const INSPECTION_MASKED_FIELDS = new Set(['email', 'phone', 'name']);
+
+/** Copy of a persisted payload safe for control-plane inspection (contact PII masked). */
+export function maskCrmOutboxPayload(payload: Record<string, unknown>): Record<string, unknown> {
+  const masked: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(payload)) {
+    masked[key] = INSPECTION_MASKED_FIELDS.has(key) && value !== null && value !== undefined ? '[REDACTED]' : value;
+  }
+  return masked;
+}
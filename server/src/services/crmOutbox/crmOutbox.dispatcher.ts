@@ -0,0 +1,169 @@
+/**
+ * CRM Notify Outbox — Dispatcher
+ * Task ID: CRM-NOTIFY-OUTBOX-001
+ *
+ * Delivers one crm_outbox_events row. Invoked by the 'crm.outbox.deliver' job
+ * handler (workers/crmOutboxWorker.ts); the job queue provides exponential
+ * backoff and the attempt budget.
+ *
+ * Outcome classification:
+ *   2xx                         → DELIVERED
+ *   408 / 429 / 5xx / network   → RETRYABLE_FAILURE (PENDING; job retried with backoff)
+ *   other 4xx                   → PERMANENT_FAILURE (DEAD_LETTER; replay after fixing the cause)
+ *   channel not configured      → RETRYABLE_FAILURE (delivered once configuration is restored)
+ *   retryable on final attempt  → DEAD_LETTER
+ *
+ * Every attempt is recorded in crm_outbox_delivery_attempts together with the
+ * event status update (one transaction). Only safe category strings are stored
+ * or logged — never payload content, email, GSTIN or secrets.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { config } from '../../config/index.js';
+import { NonRetryableJobError } from '../jobQueue/jobQueue.service.js';
+import { getCrmLifecycleConfig, sendCrmLifecycleEvent } from '../crmLifecycleNotifyClient.js';
+import { notifyCrmTier0Capture } from '../crmTier0NotifyClient.js';
+import type {
+  CrmDeliveryOutcome,
+  CrmOutboxEventRecord,
+  CrmSendResult,
+} from './crmOutbox.types.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type CrmOutboxDeliveryResult = CrmDeliveryOutcome | 'SKIPPED';
+
+// ─── Classification ───────────────────────────────────────────────────────────
+
+/** Classify one send result. Exported for the Tier 0 inline path in routes/public.ts. */
+export function classifyCrmSendResult(result: CrmSendResult): {
+  outcome: CrmDeliveryOutcome;
+  httpStatus: number | null;
+  errorMessage: string | null;
+} {
+  if (result.dispatch_status === 'FAILED') {
+    return { outcome: 'RETRYABLE_FAILURE', httpStatus: null, errorMessage: result.error_message };
+  }
+  const status = result.http_status;
+  if (status >= 200 && status < 300) {
+    return { outcome: 'DELIVERED', httpStatus: status, errorMessage: null };
+  }
+  if (status === 408 || status === 429 || status >= 500) {
+    return { outcome: 'RETRYABLE_FAILURE', httpStatus: status, errorMessage: `CRM responded HTTP ${status}` };
+  }
+  return { outcome: 'PERMANENT_FAILURE', httpStatus: status, errorMessage: `CRM rejected event with HTTP ${status}` };
+}
+
+// ─── Channel senders ──────────────────────────────────────────────────────────
+
+async function sendForChannel(event: CrmOutboxEventRecord): Promise<CrmSendResult | null> {
+  if (event.channel === 'CRM_LIFECYCLE') {
+    const cfg = getCrmLifecycleConfig();
+    return cfg ? sendCrmLifecycleEvent(cfg, event.payload) : null;
+  }
+
+  const baseUrl = config.CRM_MAINAPP_TIER0_BASE_URL;
+  const secret = config.CRM_MAINAPP_TIER0_INGESTION_SECRET;
+  if (!baseUrl || !secret) return null;
+  try {
+    const { status } = await notifyCrmTier0Capture(baseUrl, secret, event.payload);
+    return { dispatch_status: 'SENT', http_status: status };
+  } catch (err: unknown) {
+    const isAbort = err instanceof Error && err.name === 'AbortError';
+    return {
+      dispatch_status: 'FAILED',
+      error_message: isAbort ? 'CRM Tier 0 notify timed out' : 'CRM Tier 0 notify network error',
+    };
+  }
+}
+
+// ─── deliverCrmOutboxEvent ────────────────────────────────────────────────────
+
+/**
+ * Attempt delivery of one outbox event.
+ *
+ * @param db   Service connection.
+ * @param ctx  Job attempt counters — the final job attempt dead-letters the event.
+ * @returns 'SKIPPED' when the event is no longer PENDING (delivered, or dead-lettered
+ *          from the control plane); 'DELIVERED' on success.
+ * @throws NonRetryableJobError on permanent failure; Error on retryable failure
+ *         (the job queue schedules the retry).
+ */
+export async function deliverCrmOutboxEvent(
+  db: PrismaClient,
+  eventId: string,
+  ctx: { attempt: number; maxAttempts: number },
+): Promise<CrmOutboxDeliveryResult> {
+  const event = (await db.crmOutboxEvent.findUnique({ where: { id: eventId } })) as
+    | CrmOutboxEventRecord
+    | null;
+  if (!event) throw new NonRetryableJobError(`CRM outbox event not found: ${eventId}`);
+  if (event.status !== 'PENDING') return 'SKIPPED';
+
+  const start = Date.now();
+  const sendResult = await sendForChannel(event);
+  const durationMs = Date.now() - start;
+
+  const { outcome, httpStatus, errorMessage } = sendResult
+    ? classifyCrmSendResult(sendResult)
+    : {
+        outcome: 'RETRYABLE_FAILURE' as const,
+        httpStatus: null,
+        errorMessage: `CRM channel ${event.channel} not configured`,
+      };
+
+  const deadLetter =
+    outcome === 'PERMANENT_FAILURE' ||
+    (outcome === 'RETRYABLE_FAILURE' && ctx.attempt >= ctx.maxAttempts);
+  const now = new Date();
+
+  let nextStatus: 'PENDING' | 'DELIVERED' | 'DEAD_LETTER' = 'PENDING';
+  if (outcome === 'DELIVERED') nextStatus = 'DELIVERED';
+  else if (deadLetter) nextStatus = 'DEAD_LETTER';
+
+  await db.$transaction(async tx => {
+    await tx.crmOutboxDeliveryAttempt.create({
+      data: {
+        eventId,
+        attemptNo:    event.attempts + 1,
+        outcome,
+        httpStatus,
+        errorMessage,
+        durationMs,
+      },
+    });
+    await tx.crmOutboxEvent.updateMany({
+      where: { id: eventId, status: 'PENDING' },
+      data: {
+        status:         nextStatus,
+        attempts:       { increment: 1 },
+        lastHttpStatus: httpStatus,
+        lastError:      errorMessage,
+        lastAttemptAt:  now,
+        ...(nextStatus === 'DELIVERED' ? { deliveredAt: now } : {}),
+        ...(nextStatus === 'DEAD_LETTER' ? { deadLetteredAt: now } : {}),
+      },
+    });
+  }, { timeout: 30000 });
+
+  const logFields = {
+    eventId,
+    channel:   event.channel,
+    eventType: event.eventType,
+    orgId:     event.orgId,
+    attempt:   event.attempts + 1,
+    outcome,
+    status:    nextStatus,
+    httpStatus,
+    durationMs,
+  };
+
+  if (outcome === 'DELIVERED') {
+    console.info('[crm-outbox] delivered', logFields);
+    return 'DELIVERED';
+  }
+
+  console.warn('[crm-outbox] delivery failed', { ...logFields, error_message: errorMessage });
+  if (outcome === 'PERMANENT_FAILURE') throw new NonRetryableJobError(errorMessage ?? 'CRM rejected event');
+  throw new Error(errorMessage ?? 'CRM delivery failed');
+}
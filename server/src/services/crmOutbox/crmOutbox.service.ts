@@ -0,0 +1,238 @@
+/**
+ * CRM Notify Outbox — Service
+ * Task ID: CRM-NOTIFY-OUTBOX-001
+ *
+ * Transactional outbox for Main App → CRM notifications (public.crm_outbox_events).
+ * Replaces the FIRE_AND_FORGET_V1 posture: a CRM outage no longer loses the event.
+ *
+ * Write path:
+ *   state change + enqueueCrmOutboxEvent(tx, …) in ONE transaction
+ *     → crm_outbox_events row (PENDING) + background_jobs row ('crm.outbox.deliver')
+ *   If the transaction rolls back, neither the state change nor the event exists.
+ *
+ * Delivery (crmOutbox.dispatcher.ts, run by the job worker):
+ *   HMAC-signed POST → crm_outbox_delivery_attempts row → DELIVERED | PENDING (retry) | DEAD_LETTER
+ *
+ * Control plane: list / inspect / replay / dead-letter (routes/control/crm-outbox.ts).
+ *
+ * Privacy:
+ *   - Payloads are validated against the v1 field contract BEFORE insert
+ *     (crmOutbox.contract.ts) — a violation throws and the caller's transaction rolls back.
+ *   - Payload content is never logged; logs carry event id / type / org / status only.
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { enqueueJob } from '../jobQueue/jobQueue.service.js';
+import { assertCrmOutboxPayloadContract } from './crmOutbox.contract.js';
+import type {
+  CrmOutboxDeliverJobPayload,
+  CrmOutboxDeliveryAttemptRecord,
+  CrmOutboxEventRecord,
+  EnqueueCrmOutboxEventInput,
+  InlineDeliveryAttempt,
+  ListCrmOutboxEventsOptions,
+} from './crmOutbox.types.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** background_jobs.job_type for outbox deliveries. */
+export const CRM_OUTBOX_DELIVER_JOB_TYPE = 'crm.outbox.deliver' as const;
+
+/** Delivery attempts per enqueue / replay before the event is dead-lettered. */
+export const CRM_OUTBOX_MAX_ATTEMPTS = 8 as const;
+
+const DEFAULT_LIST_LIMIT = 25 as const;
+const MAX_LIST_LIMIT = 100 as const;
+
+/** crm_outbox_events.last_error marker for events dead-lettered from the control plane. */
+export const CRM_OUTBOX_MANUAL_DEAD_LETTER_REASON = 'DEAD_LETTERED_BY_ADMIN' as const;
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class CrmOutboxEventNotFoundError extends Error {
+  constructor(eventId: string) {
+    super(`CRM outbox event not found: ${eventId}`);
+    this.name = 'CrmOutboxEventNotFoundError';
+  }
+}
+
+export class CrmOutboxEventStateError extends Error {
+  constructor(eventId: string, status: string, action: 'replay' | 'dead-letter') {
+    super(`CRM outbox event ${eventId} is ${status}; cannot ${action}`);
+    this.name = 'CrmOutboxEventStateError';
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function dedupeKeyFor(eventId: string): string {
+  return `crm-outbox:${eventId}`;
+}
+
+async function enqueueDeliveryJob(db: Prisma.TransactionClient, eventId: string, orgId: string | null, runAt?: Date): Promise<void> {
+  await enqueueJob<CrmOutboxDeliverJobPayload>(db, {
+    jobType:     CRM_OUTBOX_DELIVER_JOB_TYPE,
+    orgId,
+    payload:     { eventId },
+    maxAttempts: CRM_OUTBOX_MAX_ATTEMPTS,
+    dedupeKey:   dedupeKeyFor(eventId),
+    ...(runAt ? { runAt } : {}),
+  });
+}
+
+// ─── enqueueCrmOutboxEvent ────────────────────────────────────────────────────
+
+/**
+ * Persist a CRM event and schedule its delivery.
+ *
+ * MUST be called with the transaction client of the triggering state change so
+ * the event commits (or rolls back) with it. Throws on contract violation or DB
+ * error — callers must let the error abort their transaction.
+ *
+ * @param inlineAttempt  A delivery already attempted before persisting (Tier 0 inline
+ *                       call). Recorded as attempt 1; requires the service connection.
+ */
+export async function enqueueCrmOutboxEvent(
+  db: Prisma.TransactionClient,
+  input: EnqueueCrmOutboxEventInput,
+  inlineAttempt?: InlineDeliveryAttempt,
+): Promise<CrmOutboxEventRecord> {
+  assertCrmOutboxPayloadContract(input.channel, input.eventType, input.orgId, input.payload);
+
+  const now = new Date();
+  const event = (await db.crmOutboxEvent.create({
+    data: {
+      channel:        input.channel,
+      eventType:      input.eventType,
+      orgId:          input.orgId,
+      idempotencyKey: input.idempotencyKey,
+      payload:        input.payload as Prisma.InputJsonObject,
+      ...(inlineAttempt
+        ? {
+            attempts:       1,
+            lastHttpStatus: inlineAttempt.httpStatus,
+            lastError:      inlineAttempt.errorMessage,
+            lastAttemptAt:  now,
+          }
+        : {}),
+    },
+  })) as CrmOutboxEventRecord;
+
+  if (inlineAttempt) {
+    await db.crmOutboxDeliveryAttempt.create({
+      data: {
+        eventId:      event.id,
+        attemptNo:    1,
+        outcome:      inlineAttempt.outcome,
+        httpStatus:   inlineAttempt.httpStatus,
+        errorMessage: inlineAttempt.errorMessage,
+        durationMs:   inlineAttempt.durationMs,
+      },
+    });
+  }
+
+  await enqueueDeliveryJob(db, event.id, input.orgId);
+  return event;
+}
+
+// ─── Control-plane reads ──────────────────────────────────────────────────────
+
+/** List outbox events, newest first, with cursor pagination. */
+export async function listCrmOutboxEvents(
+  db: PrismaClient,
+  opts: ListCrmOutboxEventsOptions = {},
+): Promise<{ events: CrmOutboxEventRecord[]; nextCursor: string | null }> {
+  const limit = Math.min(opts.limit ?? DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+  const rows = (await db.crmOutboxEvent.findMany({
+    where: {
+      ...(opts.status ? { status: opts.status } : {}),
+      ...(opts.channel ? { channel: opts.channel } : {}),
+      ...(opts.orgId ? { orgId: opts.orgId } : {}),
+      ...(opts.eventType ? { eventType: opts.eventType } : {}),
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take:    limit + 1,
+    ...(opts.cursor ? { cursor: { id: opts.cursor }, skip: 1 } : {}),
+  })) as CrmOutboxEventRecord[];
+
+  const hasMore = rows.length > limit;
+  const events = hasMore ? rows.slice(0, limit) : rows;
+  return { events, nextCursor: hasMore ? events[events.length - 1].id : null };
+}
+
+/** Load one event with its delivery attempts (oldest first). */
+export async function getCrmOutboxEvent(
+  db: PrismaClient,
+  eventId: string,
+): Promise<{ event: CrmOutboxEventRecord; attempts: CrmOutboxDeliveryAttemptRecord[] }> {
+  const event = (await db.crmOutboxEvent.findUnique({ where: { id: eventId } })) as
+    | CrmOutboxEventRecord
+    | null;
+  if (!event) throw new CrmOutboxEventNotFoundError(eventId);
+
+  const attempts = (await db.crmOutboxDeliveryAttempt.findMany({
+    where:   { eventId },
+    orderBy: { attemptedAt: 'asc' },
+  })) as CrmOutboxDeliveryAttemptRecord[];
+
+  return { event, attempts };
+}
+
+// ─── Control-plane mutations ──────────────────────────────────────────────────
+
+/**
+ * Re-deliver a DEAD_LETTER or DELIVERED event with a fresh attempt budget.
+ * The original idempotency_key is reused so the CRM receiver can de-duplicate.
+ *
+ * @param db Service connection (texqtic_app has no UPDATE grant on the outbox).
+ */
+export async function replayCrmOutboxEvent(
+  db: PrismaClient,
+  eventId: string,
+): Promise<CrmOutboxEventRecord> {
+  return db.$transaction(async tx => {
+    const event = (await tx.crmOutboxEvent.findUnique({ where: { id: eventId } })) as
+      | CrmOutboxEventRecord
+      | null;
+    if (!event) throw new CrmOutboxEventNotFoundError(eventId);
+    if (event.status === 'PENDING') throw new CrmOutboxEventStateError(eventId, event.status, 'replay');
+
+    const result = await tx.crmOutboxEvent.updateMany({
+      where: { id: eventId, status: { in: ['DEAD_LETTER', 'DELIVERED'] } },
+      data:  { status: 'PENDING', deadLetteredAt: null },
+    });
+    if (result.count !== 1) throw new CrmOutboxEventStateError(eventId, 'PENDING', 'replay');
+
+    await enqueueDeliveryJob(tx, eventId, event.orgId);
+    return (await tx.crmOutboxEvent.findUnique({ where: { id: eventId } })) as CrmOutboxEventRecord;
+  }, { timeout: 30000 });
+}
+
+/**
+ * Stop delivering a PENDING event. Its queued delivery job finds the event no
+ * longer PENDING and completes without sending.
+ *
+ * @param db Service connection (texqtic_app has no UPDATE grant on the outbox).
+ */
+export async function deadLetterCrmOutboxEvent(
+  db: PrismaClient,
+  eventId: string,
+): Promise<CrmOutboxEventRecord> {
+  const event = (await db.crmOutboxEvent.findUnique({ where: { id: eventId } })) as
+    | CrmOutboxEventRecord
+    | null;
+  if (!event) throw new CrmOutboxEventNotFoundError(eventId);
+  if (event.status !== 'PENDING') throw new CrmOutboxEventStateError(eventId, event.status, 'dead-letter');
+
+  const result = await db.crmOutboxEvent.updateMany({
+    where: { id: eventId, status: 'PENDING' },
+    data: {
+      status:         'DEAD_LETTER',
+      deadLetteredAt: new Date(),
+      lastError:      CRM_OUTBOX_MANUAL_DEAD_LETTER_REASON,
+    },
+  });
+  if (result.count !== 1) throw new CrmOutboxEventStateError(eventId, 'no longer PENDING', 'dead-letter');
+
+  return (await db.crmOutboxEvent.findUnique({ where: { id: eventId } })) as CrmOutboxEventRecord;
+}
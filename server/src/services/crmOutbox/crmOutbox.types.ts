@@ -0,0 +1,109 @@
+/**
+ * CRM Notify Outbox — Types
+ * Task ID: CRM-NOTIFY-OUTBOX-001
+ *
+ * Public contract for the transactional outbox behind the CRM lifecycle and
+ * Tier 0 notify clients. Types only — no DB imports.
+ *
+ * Lifecycle:
+ *   PENDING ──delivered (2xx)──▶ DELIVERED
+ *      │
+ *      ├──retryable failure──▶ PENDING (retried by the 'crm.outbox.deliver' job with backoff)
+ *      ├──permanent failure / attempts exhausted──▶ DEAD_LETTER
+ *      └──control-plane dead-letter──▶ DEAD_LETTER
+ *   DEAD_LETTER | DELIVERED ──control-plane replay──▶ PENDING
+ */
+
+// ─── Enumerations ─────────────────────────────────────────────────────────────
+
+/** Legal crm_outbox_events.channel values (enforced by SQL check constraint). */
+export type CrmOutboxChannel = 'CRM_LIFECYCLE' | 'CRM_TIER0';
+
+/** Legal crm_outbox_events.status values (enforced by SQL check constraint). */
+export type CrmOutboxStatus = 'PENDING' | 'DELIVERED' | 'DEAD_LETTER';
+
+/** Legal crm_outbox_delivery_attempts.outcome values (enforced by SQL check constraint). */
+export type CrmDeliveryOutcome = 'DELIVERED' | 'RETRYABLE_FAILURE' | 'PERMANENT_FAILURE';
+
+// ─── Records ──────────────────────────────────────────────────────────────────
+
+/** One crm_outbox_events row as returned by Prisma. */
+export interface CrmOutboxEventRecord {
+  id: string;
+  channel: CrmOutboxChannel;
+  eventType: string;
+  /** Org the event concerns; null for pre-account Tier 0 captures. */
+  orgId: string | null;
+  idempotencyKey: string;
+  /** Exact v1 wire body. Contains PII (email) for some events — never log it. */
+  payload: Record<string, unknown>;
+  status: CrmOutboxStatus;
+  attempts: number;
+  lastHttpStatus: number | null;
+  lastError: string | null;
+  lastAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  deadLetteredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** One crm_outbox_delivery_attempts row as returned by Prisma. */
+export interface CrmOutboxDeliveryAttemptRecord {
+  id: string;
+  eventId: string;
+  attemptNo: number;
+  outcome: CrmDeliveryOutcome;
+  httpStatus: number | null;
+  /** Safe category string — never payload content. */
+  errorMessage: string | null;
+  durationMs: number;
+  attemptedAt: Date;
+}
+
+// ─── Inputs ───────────────────────────────────────────────────────────────────
+
+export interface EnqueueCrmOutboxEventInput {
+  channel: CrmOutboxChannel;
+  /** Versioned event name, e.g. 'org.gst.submitted.v1' or 'tier0.capture.v1'. */
+  eventType: string;
+  /** MUST come from the server-side auth / transaction context — never request input. */
+  orgId: string | null;
+  idempotencyKey: string;
+  /** Exact wire body; validated against the channel field contract before insert. */
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Delivery attempt made before the event was persisted (Tier 0 inline call).
+ * Recorded as attempt 1 so the delivery history is complete.
+ */
+export interface InlineDeliveryAttempt {
+  outcome: Exclude<CrmDeliveryOutcome, 'DELIVERED'>;
+  httpStatus: number | null;
+  errorMessage: string;
+  durationMs: number;
+}
+
+export interface ListCrmOutboxEventsOptions {
+  status?: CrmOutboxStatus;
+  channel?: CrmOutboxChannel;
+  orgId?: string;
+  eventType?: string;
+  /** Defaults to 25, max 100. */
+  limit?: number;
+  /** id of the last row of the previous page (createdAt DESC, id DESC). */
+  cursor?: string;
+}
+
+// ─── Delivery ─────────────────────────────────────────────────────────────────
+
+/** Result of one HTTP send to a CRM receiver. Never contains payload content. */
+export type CrmSendResult =
+  | { dispatch_status: 'SENT'; http_status: number }
+  | { dispatch_status: 'FAILED'; error_message: string };
+
+/** Job payload of 'crm.outbox.deliver'. The event row is the source of truth. */
+export interface CrmOutboxDeliverJobPayload {
+  eventId: string;
+}
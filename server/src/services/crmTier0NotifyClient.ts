@@ -14,8 +14,13 @@
  *   - Call site is responsible for validating/stripping forbidden fields before invoking this function.
  *   - This client does NOT create accounts, tenants, memberships, or invites.
  *   - Response shape is CRM-dictated; only safe fields (crmReceiptId, intakeStatus) are forwarded to caller.
+ *   - Bodies are HMAC-signed (x-texqtic-crm-hmac / x-texqtic-crm-ts, lib/crmOutboxHmac.ts).
+ *   - Captures whose inline call fails are persisted to the CRM outbox (CRM-NOTIFY-OUTBOX-001)
+ *     and re-sent through this function by the outbox dispatcher.
  */
 
+import { signCrmNotifyBody } from '../lib/crmOutboxHmac.js';
+
 const NOTIFY_TIMEOUT_MS = 8000;
 const CRM_TIER0_ENDPOINT_PATH = '/api/webhooks/mainapp-tier0-captures';
 
@@ -41,6 +46,7 @@ export async function notifyCrmTier0Capture(
 ): Promise<CrmTier0NotifyResult> {
   const controller = new AbortController();
   const timeoutId = globalThis.setTimeout(() => controller.abort(), NOTIFY_TIMEOUT_MS);
+  const body = JSON.stringify(payload);
 
   try {
     const response = await fetch(`${crmBaseUrl}${CRM_TIER0_ENDPOINT_PATH}`, {
@@ -48,8 +54,9 @@ export async function notifyCrmTier0Capture(
       headers: {
         'Content-Type': 'application/json',
         'x-crm-mainapp-tier0-secret': crmSecret,
+        ...signCrmNotifyBody(body, crmSecret),
       },
-      body: JSON.stringify(payload),
+      body,
       signal: controller.signal,
     });
 
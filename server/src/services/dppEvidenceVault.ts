@@ -60,6 +60,8 @@ const ALLOWED_SOURCE_TABLES = new Set([
   'traceability_nodes',
   'invoices',
   'purchase_orders',
+  'shipments',
+  'shipment_documents',
 ]);
 
 export function isAllowedSourceTable(table: string): boolean {
@@ -198,7 +200,7 @@ export async function createDppEvidenceItem(
        visibility, review_state)
     VALUES
       (${orgId}::uuid, ${nodeId}::uuid, ${input.evidenceType}, ${input.title},
-       ${input.sourceTable ?? null}, ${input.sourceId ? input.sourceId + '::uuid' : null}::uuid,
+       ${input.sourceTable ?? null}, ${input.sourceId ?? null}::uuid,
        ${input.documentUrl ?? null},
        ${input.issuingBody ?? null}, ${input.referenceNumber ?? null},
        ${input.issuedAt ?? null}, ${input.expiresAt ?? null},
@@ -237,3 +239,57 @@ export async function listDppEvidenceItemsForNode(
     ORDER BY created_at ASC
   `;
 }
+
+// ─── Shipment dispatch proofs ─────────────────────────────────────────────────
+
+export interface DispatchProofEvidenceInput {
+  sourceTable: 'shipments' | 'shipment_documents';
+  sourceId: string;
+  title: string;
+  carrier: string;
+  trackingNumber: string | null;
+  dispatchedAt: Date | null;
+  documentUrl?: string | null;
+}
+
+/**
+ * Attach a DISPATCH_PROOF evidence item to every traceability node shipped in a
+ * consignment. Idempotent per (node, source): nodes that already carry evidence
+ * for this source row are skipped, so re-dispatch or retry never duplicates.
+ * Items start PRIVATE / PENDING like any other evidence awaiting review.
+ */
+export async function recordDispatchProofEvidence(
+  tx: TxClient,
+  orgId: string,
+  nodeIds: string[],
+  input: DispatchProofEvidenceInput,
+): Promise<DppEvidenceItemRow[]> {
+  const uniqueNodeIds = [...new Set(nodeIds)];
+  if (uniqueNodeIds.length === 0) return [];
+
+  const existing = await tx.$queryRaw<Array<{ node_id: string }>>`
+    SELECT node_id FROM dpp_evidence_items
+    WHERE evidence_type = 'DISPATCH_PROOF'
+      AND source_table = ${input.sourceTable}
+      AND source_id = ${input.sourceId}::uuid
+  `;
+  const covered = new Set(existing.map(row => row.node_id));
+
+  const created: DppEvidenceItemRow[] = [];
+  for (const nodeId of uniqueNodeIds) {
+    if (covered.has(nodeId)) continue;
+    created.push(
+      await createDppEvidenceItem(tx, orgId, nodeId, {
+        evidenceType: 'DISPATCH_PROOF',
+        title: input.title,
+        sourceTable: input.sourceTable,
+        sourceId: input.sourceId,
+        documentUrl: input.documentUrl ?? null,
+        issuingBody: input.carrier,
+        referenceNumber: input.trackingNumber,
+        issuedAt: input.dispatchedAt,
+      }),
+    );
+  }
+  return created;
+}
@@ -0,0 +1,406 @@
+/**
+ * DPP-PASSPORT-FORMATS-001 — Machine-readable passport formats
+ *
+ * Pure builders behind the tenant passport format routes
+ * (routes/tenant/dppPassportFormats.ts) and the public GS1 Digital Link resolver:
+ *   - schema.org Product JSON-LD document
+ *   - GS1 Digital Link URI  {APP_PUBLIC_URL}/api/public/dpp/dl/01/{gtin}/21/{publicPassportId}
+ *   - printable QR label descriptor honouring dpp_passport_label_config
+ *   - ESPR textile readiness report (fields the delegated-act drafts require)
+ *
+ * No I/O here: callers load rows inside withDbContext and pass a
+ * DppPassportFormatSource in. The QR image itself is rendered client-side.
+ */
+
+import type { DppProductDetailsDto } from './dppProductDetails.js';
+
+// ─── Shared types ─────────────────────────────────────────────────────────────
+
+export type DppPassportStatus = 'DRAFT' | 'INTERNAL' | 'TRADE_READY' | 'PUBLISHED';
+
+export interface DppPassportFormatCertification {
+  certificationType: string | null;
+  lifecycleStateName: string | null;
+  issuedAt: Date | null;
+  expiryDate: Date | null;
+}
+
+/** Everything the format builders need, already loaded and RLS-scoped. */
+export interface DppPassportFormatSource {
+  nodeId: string;
+  batchId: string | null;
+  nodeType: string | null;
+  manufacturerName: string | null;
+  manufacturerJurisdiction: string | null;
+  manufacturerRegistrationNo: string | null;
+  passportStatus: DppPassportStatus;
+  publicPassportId: string | null;
+  productDetails: DppProductDetailsDto | null;
+  certifications: DppPassportFormatCertification[];
+}
+
+export interface DppPassportLabelConfig {
+  publicTitle: string | null;
+  buyerFacingLabel: string;
+  subtitle: string | null;
+  showTexqticBrand: boolean;
+}
+
+/** Same fallback the public passport page uses when an org has no label config row. */
+export const DEFAULT_DPP_PASSPORT_LABEL_CONFIG: DppPassportLabelConfig = {
+  publicTitle: null,
+  buyerFacingLabel: 'Verified Supply Chain Passport',
+  subtitle: null,
+  showTexqticBrand: true,
+};
+
+/** Path prefix of the public resolver that GS1 Digital Link URIs point at. */
+export const DPP_DIGITAL_LINK_PATH = '/api/public/dpp/dl';
+
+export function getAppPublicUrl(): string {
+  return (process.env['APP_PUBLIC_URL'] ?? 'https://app.texqtic.com').replace(/\/+$/, '');
+}
+
+// ─── Links ────────────────────────────────────────────────────────────────────
+
+export function buildPassportUrl(baseUrl: string, publicPassportId: string): string {
+  return `${baseUrl}/passport/${encodeURIComponent(publicPassportId)}`;
+}
+
+/** GS1 Digital Link: AI 01 (GTIN-14) is the primary key, AI 21 carries the public passport token. */
+export function buildGs1DigitalLinkUri(baseUrl: string, gtin: string, publicPassportId: string): string {
+  return `${baseUrl}${DPP_DIGITAL_LINK_PATH}/01/${gtin}/21/${encodeURIComponent(publicPassportId)}`;
+}
+
+export type DppDigitalLinkResult =
+  | { available: true; digitalLinkUri: string; passportUrl: string; gtin: string; publicPassportId: string }
+  | { available: false; reason: 'NOT_PUBLISHED' | 'GTIN_MISSING'; passportUrl: string | null };
+
+function publishedPassportId(source: DppPassportFormatSource): string | null {
+  return source.passportStatus === 'PUBLISHED' ? source.publicPassportId : null;
+}
+
+/**
+ * A Digital Link only resolves once the passport is PUBLISHED (the public resolver
+ * serves nothing else) and needs a GTIN as its GS1 primary key.
+ */
+export function resolveDigitalLink(source: DppPassportFormatSource, baseUrl: string): DppDigitalLinkResult {
+  const publicPassportId = publishedPassportId(source);
+  if (!publicPassportId) {
+    return { available: false, reason: 'NOT_PUBLISHED', passportUrl: null };
+  }
+  const passportUrl = buildPassportUrl(baseUrl, publicPassportId);
+  const gtin = source.productDetails?.gtin ?? null;
+  if (!gtin) {
+    return { available: false, reason: 'GTIN_MISSING', passportUrl };
+  }
+  return {
+    available: true,
+    digitalLinkUri: buildGs1DigitalLinkUri(baseUrl, gtin, publicPassportId),
+    passportUrl,
+    gtin,
+    publicPassportId,
+  };
+}
+
+// ─── JSON-LD ──────────────────────────────────────────────────────────────────
+
+function productName(source: DppPassportFormatSource): string | null {
+  const details = source.productDetails;
+  return details?.styleCode ?? details?.sku ?? source.batchId;
+}
+
+function compact<T extends Record<string, unknown>>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== null && v !== undefined && !(Array.isArray(v) && v.length === 0)),
+  ) as Partial<T>;
+}
+
+function propertyValue(name: string, value: string | number | boolean | null, unitText?: string) {
+  return value === null ? null : compact({ '@type': 'PropertyValue', name, value, unitText });
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function isActiveCertification(cert: DppPassportFormatCertification, today: Date): boolean {
+  return cert.lifecycleStateName === 'APPROVED' && (cert.expiryDate === null || cert.expiryDate >= today);
+}
+
+/**
+ * schema.org Product document. Tenant-side export, so it covers every passport
+ * status; the public resolver only ever links to PUBLISHED passports.
+ */
+export function buildPassportJsonLd(
+  source: DppPassportFormatSource,
+  baseUrl: string,
+  generatedAt: Date,
+): Record<string, unknown> {
+  const details = source.productDetails;
+  const link = resolveDigitalLink(source, baseUrl);
+  const id = link.available
+    ? link.digitalLinkUri
+    : link.passportUrl ?? `urn:uuid:${source.nodeId}`;
+
+  const additionalProperty = [
+    propertyValue('batchLotNumber', details?.batchLotNumber ?? source.batchId),
+    propertyValue('seasonOrModelYear', details?.seasonOrModelYear ?? null),
+    propertyValue('manufacturingFacility', details?.facilityName ?? null),
+    propertyValue('recycledContent', details?.recycledContentPercent ?? null, 'PERCENT'),
+    propertyValue('organicContent', details?.organicContentPercent ?? null, 'PERCENT'),
+    propertyValue('dyeFinishCategory', details?.dyeFinishCategory ?? null),
+    propertyValue('restrictedSubstancesDeclared', details?.restrictedSubstancesDeclared ?? null),
+  ].filter(p => p !== null);
+
+  return compact({
+    '@context': {
+      '@vocab': 'https://schema.org/',
+      texqtic: 'https://texqtic.com/dpp/v1#',
+    },
+    '@type': 'Product',
+    '@id': id,
+    url: link.passportUrl,
+    name: productName(source),
+    description: details?.productDescription ?? null,
+    sku: details?.sku ?? null,
+    gtin14: details?.gtin ?? null,
+    category: source.nodeType,
+    countryOfOrigin: details?.countryOfOrigin
+      ? { '@type': 'Country', name: details.countryOfOrigin }
+      : null,
+    material: (details?.materialComposition ?? []).map(m => `${m.percentage}% ${m.material}`),
+    manufacturer: source.manufacturerName
+      ? compact({
+          '@type': 'Organization',
+          name: source.manufacturerName,
+          identifier: source.manufacturerRegistrationNo,
+          address: source.manufacturerJurisdiction
+            ? { '@type': 'PostalAddress', addressCountry: source.manufacturerJurisdiction }
+            : null,
+        })
+      : null,
+    hasCertification: source.certifications
+      .filter(cert => isActiveCertification(cert, startOfDay(generatedAt)))
+      .map(cert => compact({
+        '@type': 'Certification',
+        name: cert.certificationType,
+        validFrom: cert.issuedAt?.toISOString() ?? null,
+        expires: cert.expiryDate?.toISOString() ?? null,
+      })),
+    additionalProperty,
+    'texqtic:passportStatus': source.passportStatus,
+    'texqtic:publicPassportId': publishedPassportId(source),
+    'texqtic:generatedAt': generatedAt.toISOString(),
+  });
+}
+
+// ─── QR label ─────────────────────────────────────────────────────────────────
+
+export interface DppPassportQrLabel {
+  /** What the QR encodes: the Digital Link when a GTIN exists, else the public passport URL. */
+  payloadUrl: string;
+  digitalLinkUri: string | null;
+  passportUrl: string;
+  title: string;
+  buyerFacingLabel: string;
+  subtitle: string | null;
+  showTexqticBrand: boolean;
+  productName: string | null;
+  batchId: string | null;
+  gtin: string | null;
+}
+
+/** Returns null while the passport is unpublished — a label would encode a dead link. */
+export function buildPassportQrLabel(
+  source: DppPassportFormatSource,
+  labelConfig: DppPassportLabelConfig,
+  baseUrl: string,
+): DppPassportQrLabel | null {
+  const link = resolveDigitalLink(source, baseUrl);
+  if (!link.passportUrl) return null;
+  const name = productName(source);
+  const digitalLinkUri = link.available ? link.digitalLinkUri : null;
+  return {
+    payloadUrl: digitalLinkUri ?? link.passportUrl,
+    digitalLinkUri,
+    passportUrl: link.passportUrl,
+    title: labelConfig.publicTitle ?? name ?? 'Digital Product Passport',
+    buyerFacingLabel: labelConfig.buyerFacingLabel,
+    subtitle: labelConfig.subtitle,
+    showTexqticBrand: labelConfig.showTexqticBrand,
+    productName: name,
+    batchId: source.productDetails?.batchLotNumber ?? source.batchId,
+    gtin: source.productDetails?.gtin ?? null,
+  };
+}
+
+// ─── ESPR textile readiness ───────────────────────────────────────────────────
+
+export type EsprRequirementLevel = 'REQUIRED' | 'RECOMMENDED';
+
+export interface EsprFieldCheck {
+  key: string;
+  label: string;
+  level: EsprRequirementLevel;
+  satisfied: boolean;
+  detail: string | null;
+}
+
+export interface EsprTextileReport {
+  framework: 'ESPR_TEXTILES_DRAFT';
+  frameworkNote: string;
+  evaluatedAt: string;
+  ready: boolean;
+  requiredMissing: string[];
+  recommendedMissing: string[];
+  checks: EsprFieldCheck[];
+}
+
+interface EsprRequirement {
+  key: string;
+  label: string;
+  level: EsprRequirementLevel;
+  /** Returns null when satisfied, otherwise a short reason. */
+  check: (source: DppPassportFormatSource, today: Date) => string | null;
+}
+
+function present(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function requirePresent(value: string | null | undefined): string | null {
+  return present(value) ? null : 'Not provided';
+}
+
+/**
+ * Information requirements from the ESPR textile delegated-act drafts, mapped
+ * onto fields the platform stores. Drafts are not final: keep this list as the
+ * single place to adjust when the adopted act lands.
+ */
+const ESPR_TEXTILE_REQUIREMENTS: readonly EsprRequirement[] = [
+  {
+    key: 'unique_product_identifier',
+    label: 'Unique product identifier (GS1 GTIN)',
+    level: 'REQUIRED',
+    check: s => requirePresent(s.productDetails?.gtin),
+  },
+  {
+    key: 'data_carrier',
+    label: 'Published passport reachable from a data carrier',
+    level: 'REQUIRED',
+    check: s => (publishedPassportId(s) ? null : 'Passport is not PUBLISHED'),
+  },
+  {
+    key: 'product_description',
+    label: 'Product description',
+    level: 'REQUIRED',
+    check: s => requirePresent(s.productDetails?.productDescription),
+  },
+  {
+    key: 'batch_lot_number',
+    label: 'Batch / lot number',
+    level: 'REQUIRED',
+    check: s => requirePresent(s.productDetails?.batchLotNumber ?? s.batchId),
+  },
+  {
+    key: 'manufacturer_name',
+    label: 'Manufacturer name',
+    level: 'REQUIRED',
+    check: s => requirePresent(s.manufacturerName),
+  },
+  {
+    key: 'manufacturer_address',
+    label: 'Manufacturer jurisdiction',
+    level: 'REQUIRED',
+    check: s => requirePresent(s.manufacturerJurisdiction),
+  },
+  {
+    key: 'operator_identifier',
+    label: 'Economic operator registration number',
+    level: 'REQUIRED',
+    check: s => requirePresent(s.manufacturerRegistrationNo),
+  },
+  {
+    key: 'manufacturing_facility',
+    label: 'Manufacturing facility',
+    level: 'REQUIRED',
+    check: s => requirePresent(s.productDetails?.facilityName),
+  },
+  {
+    key: 'country_of_origin',
+    label: 'Country of origin',
+    level: 'REQUIRED',
+    check: s => requirePresent(s.productDetails?.countryOfOrigin),
+  },
+  {
+    key: 'fibre_composition',
+    label: 'Fibre composition totalling 100%',
+    level: 'REQUIRED',
+    check: s => {
+      const items = s.productDetails?.materialComposition ?? [];
+      if (items.length === 0) return 'Not provided';
+      const total = items.reduce((sum, item) => sum + item.percentage, 0);
+      return Math.abs(total - 100) < 0.01 ? null : `Composition totals ${total.toFixed(2)}%`;
+    },
+  },
+  {
+    key: 'substances_of_concern',
+    label: 'Substances of concern declaration',
+    level: 'REQUIRED',
+    check: s => (s.productDetails?.restrictedSubstancesDeclared == null ? 'Not declared' : null),
+  },
+  {
+    key: 'recycled_content',
+    label: 'Recycled content share',
+    level: 'RECOMMENDED',
+    check: s => (s.productDetails?.recycledContentPercent == null ? 'Not provided' : null),
+  },
+  {
+    key: 'dye_finish_category',
+    label: 'Dye / finish category',
+    level: 'RECOMMENDED',
+    check: s => requirePresent(s.productDetails?.dyeFinishCategory),
+  },
+  {
+    key: 'model_reference',
+    label: 'Style code or season / model year',
+    level: 'RECOMMENDED',
+    check: s =>
+      present(s.productDetails?.styleCode) || present(s.productDetails?.seasonOrModelYear)
+        ? null
+        : 'Not provided',
+  },
+  {
+    key: 'certifications',
+    label: 'At least one active approved certification',
+    level: 'RECOMMENDED',
+    check: (s, today) =>
+      s.certifications.some(cert => isActiveCertification(cert, today)) ? null : 'None active',
+  },
+];
+
+/** Lists which ESPR-draft fields are still missing. Readiness only — not a conformity assessment. */
+export function buildEsprTextileReport(source: DppPassportFormatSource, evaluatedAt: Date): EsprTextileReport {
+  const today = startOfDay(evaluatedAt);
+  const checks = ESPR_TEXTILE_REQUIREMENTS.map(req => {
+    const detail = req.check(source, today);
+    return { key: req.key, label: req.label, level: req.level, satisfied: detail === null, detail };
+  });
+  const missing = (level: EsprRequirementLevel) =>
+    checks.filter(c => c.level === level && !c.satisfied).map(c => c.key);
+  const requiredMissing = missing('REQUIRED');
+
+  return {
+    framework: 'ESPR_TEXTILES_DRAFT',
+    frameworkNote:
+      'Checked against the ESPR textile delegated-act drafts; requirements may change before adoption.',
+    evaluatedAt: evaluatedAt.toISOString(),
+    ready: requiredMissing.length === 0,
+    requiredMissing,
+    recommendedMissing: missing('RECOMMENDED'),
+    checks,
+  };
+}
@@ -52,6 +52,7 @@ export interface DppProductDetailsRow {
   dye_finish_category: string | null;
   restricted_substances_declared: boolean | null;
   product_photo_evidence_item_id: string | null;
+  gtin: string | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -75,6 +76,8 @@ export interface DppProductDetailsDto {
   dyeFinishCategory: string | null;
   restrictedSubstancesDeclared: boolean | null;
   productPhotoEvidenceItemId: string | null;
+  /** GS1 GTIN, normalised to 14 digits. */
+  gtin: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -122,6 +125,7 @@ export function toDppProductDetailsDto(row: DppProductDetailsRow): DppProductDet
     dyeFinishCategory: row.dye_finish_category,
     restrictedSubstancesDeclared: row.restricted_substances_declared,
     productPhotoEvidenceItemId: row.product_photo_evidence_item_id,
+    gtin: row.gtin,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -143,6 +147,8 @@ export interface UpsertDppProductDetailsInput {
   dyeFinishCategory?: string | null;
   restrictedSubstancesDeclared?: boolean | null;
   productPhotoEvidenceItemId?: string | null;
+  /** Must already be normalised via normalizeGtin(). */
+  gtin?: string | null;
 }
 
 // ─── Validation ───────────────────────────────────────────────────────────────
@@ -191,6 +197,23 @@ export function validateMaterialComposition(
   return { valid: true };
 }
 
+/**
+ * Normalise a GS1 GTIN-8/12/13/14 to its 14-digit form.
+ * Returns null when the value is not all digits, has an unsupported length, or
+ * fails the GS1 mod-10 check digit.
+ */
+export function normalizeGtin(value: string): string | null {
+  const digits = value.trim();
+  if (!/^[0-9]+$/.test(digits) || ![8, 12, 13, 14].includes(digits.length)) return null;
+  const gtin14 = digits.padStart(14, '0');
+  let sum = 0;
+  for (let i = 0; i < 13; i++) {
+    sum += Number(gtin14[i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  const checkDigit = (10 - (sum % 10)) % 10;
+  return checkDigit === Number(gtin14[13]) ? gtin14 : null;
+}
+
 // ─── Service functions ────────────────────────────────────────────────────────
 
 type TxClient = Parameters<Parameters<PrismaClient['$transaction']>[0]>[0];
@@ -207,7 +230,7 @@ export async function getDppProductDetailsForNode(
       id, org_id, node_id, sku, style_code, batch_lot_number, product_description,
       season_or_model_year, facility_name, country_of_origin, material_composition,
       recycled_content_percent, organic_content_percent, dye_finish_category,
-      restricted_substances_declared, product_photo_evidence_item_id,
+      restricted_substances_declared, product_photo_evidence_item_id, gtin,
       created_at, updated_at
     FROM dpp_product_details
     WHERE node_id = ${nodeId}::uuid
@@ -239,7 +262,7 @@ export async function upsertDppProductDetailsForNode(
        material_composition,
        recycled_content_percent, organic_content_percent,
        dye_finish_category, restricted_substances_declared,
-       product_photo_evidence_item_id)
+       product_photo_evidence_item_id, gtin)
     VALUES
       (${orgId}::uuid, ${nodeId}::uuid,
        ${input.sku ?? null},
@@ -254,7 +277,8 @@ export async function upsertDppProductDetailsForNode(
        ${input.organicContentPercent ?? null},
        ${input.dyeFinishCategory ?? null},
        ${input.restrictedSubstancesDeclared ?? null},
-       ${input.productPhotoEvidenceItemId ?? null}::uuid)
+       ${input.productPhotoEvidenceItemId ?? null}::uuid,
+       ${input.gtin ?? null})
     ON CONFLICT (org_id, node_id) DO UPDATE SET
       sku                             = EXCLUDED.sku,
       style_code                      = EXCLUDED.style_code,
@@ -269,12 +293,13 @@ export async function upsertDppProductDetailsForNode(
       dye_finish_category             = EXCLUDED.dye_finish_category,
       restricted_substances_declared  = EXCLUDED.restricted_substances_declared,
       product_photo_evidence_item_id  = EXCLUDED.product_photo_evidence_item_id,
+      gtin                            = EXCLUDED.gtin,
       updated_at                      = now()
     RETURNING
       id, org_id, node_id, sku, style_code, batch_lot_number, product_description,
       season_or_model_year, facility_name, country_of_origin, material_composition,
       recycled_content_percent, organic_content_percent, dye_finish_category,
-      restricted_substances_declared, product_photo_evidence_item_id,
+      restricted_substances_declared, product_photo_evidence_item_id, gtin,
       created_at, updated_at
   `;
   return rows[0];
@@ -397,3 +397,47 @@ export async function sendAdminInquiryAlertEmail(
     context
   );
 }
+
+export interface ApprovalExpiredNotificationContext {
+  approvalId: string;
+  entityType: string;
+  fromStateKey: string;
+  toStateKey: string;
+  expiredAt: Date;
+}
+
+/**
+ * Notify the maker that their maker-checker approval request expired before a
+ * checker signed it (GOV-EXPIRY-SWEEP-001). The transition was not applied.
+ */
+export async function sendApprovalExpiredEmail(
+  to: string,
+  ctx: ApprovalExpiredNotificationContext,
+  context: EmailContext = {}
+): Promise<EmailDispatchOutcome> {
+  const lines = [
+    'Your approval request expired before a checker signed it.',
+    `Transition: ${ctx.entityType} ${ctx.fromStateKey} → ${ctx.toStateKey}.`,
+    `Expired at: ${ctx.expiredAt.toISOString()}.`,
+    'The transition was not applied. Contact your TexQtic administrator if it is still required.',
+  ];
+  const { html, text } = buildInquiryEmailBodies({
+    heading: 'Approval request expired',
+    lines,
+    logoUrl: `${FRONTEND_URL}/brand/texqtic-logo.png`,
+  });
+  return sendEmail(
+    {
+      to,
+      subject: 'Your TexQtic approval request expired',
+      html,
+      text,
+      metadata: {
+        flow: 'approval_expired',
+        approval_id: ctx.approvalId,
+        entity_type: ctx.entityType,
+      },
+    },
+    context
+  );
+}
@@ -26,7 +26,9 @@
  *   - Kill switch config toggle (config.KILL_SWITCH_ALL) → explicit PLATFORM_ADMIN route.
  *   - Sanction enforcement → G-024.
  *   - Reasoning log linkage → G-023.
- *   - Expiry sweeping / TTL resolution → G-023 cron job.
+ *
+ * Expiry sweeping (approval TTLs, sanction decays_at) is handled by the
+ * 'governance.expiry.sweep' job — see GovernanceExpiryService.
  */
 
 import type { PrismaClient } from '@prisma/client';
@@ -0,0 +1,325 @@
+/**
+ * Live Event Stream Service
+ * Task ID: EVENT-STREAM-001
+ *
+ * Pushes event_logs rows to an SSE client as they are written. Events are stored
+ * by lib/events.ts from any request or worker process and there is no shared bus,
+ * so the stream polls event_logs on a short interval through the caller's
+ * database context (EventStreamReader) — RLS decides which rows a stream can see.
+ *
+ * Ordering and delivery:
+ *   - Rows are read in (created_at, id) order. created_at is the start time of the
+ *     inserting transaction, so a row can commit after rows with a later created_at.
+ *     Every poll re-reads an overlap window behind the database clock and skips the
+ *     ids already sent in that window (EventLogCursor).
+ *   - Each event_log frame carries the event id. Delivery is at-least-once across
+ *     reconnects; clients dedupe by id.
+ *   - Last-Event-ID resumes after that row when the reader can see it and it is
+ *     younger than maxResumeAgeMs. Otherwise the stream starts at "now" and the
+ *     `ready` event reports resumed: false, so the client reloads its list.
+ *
+ * Backpressure: once the socket write buffer exceeds maxBufferedBytes the loop stops
+ * reading until it drains. A client that does not drain within drainTimeoutMs gets a
+ * SLOW_CONSUMER error and is disconnected. Open streams are capped globally and per
+ * principal (EventStreamConnectionLimiter).
+ *
+ * SSE events: ready, event_log, reconnect, error — plus `: ping` comment heartbeats.
+ */
+
+import type { EventLog, Prisma } from '@prisma/client';
+import { config } from '../../config/index.js';
+import type { SseStream } from '../../utils/sse.js';
+import type {
+  EventStreamEndReason,
+  EventStreamFilter,
+  EventStreamOptions,
+  EventStreamReader,
+  EventStreamSummary,
+} from './eventStream.types.js';
+
+/** Open streams allowed per admin / tenant user. */
+export const EVENT_STREAM_MAX_PER_PRINCIPAL = 5;
+
+/** Reconnect delay hint sent to clients (SSE `retry:`). */
+export const EVENT_STREAM_RETRY_MS = 3_000;
+
+export const DEFAULT_EVENT_STREAM_OPTIONS: EventStreamOptions = {
+  pollIntervalMs: config.EVENT_STREAM_POLL_INTERVAL_MS,
+  batchSize: 100,
+  heartbeatMs: 15_000,
+  maxLifetimeMs: 15 * 60_000,
+  maxBufferedBytes: 256 * 1024,
+  drainTimeoutMs: 30_000,
+  overlapMs: 10_000,
+  maxSeenIds: 1_000,
+  maxResumeAgeMs: 60 * 60_000,
+};
+
+type CursorRow = Pick<EventLog, 'id' | 'createdAt'>;
+
+// ─── Filters ──────────────────────────────────────────────────────────────────
+
+export function eventStreamWhere(filter: EventStreamFilter): Prisma.EventLogWhereInput {
+  const where: Prisma.EventLogWhereInput = {};
+  if (filter.namePrefix) where.name = { startsWith: filter.namePrefix };
+  if (filter.tenantId) where.tenantId = filter.tenantId;
+  if (filter.realm) where.realm = filter.realm;
+  return where;
+}
+
+// ─── Cursor ───────────────────────────────────────────────────────────────────
+
+/**
+ * Read position of one stream: a created_at floor plus the ids already sent at or
+ * after it. The floor trails the database clock by overlapMs, but never passes the
+ * last row of a full batch (the rest of that backlog has not been read yet).
+ */
+export class EventLogCursor {
+  private floorMs: number;
+  private readonly seen = new Map<string, number>();
+
+  constructor(
+    floor: Date,
+    private readonly options: Pick<EventStreamOptions, 'overlapMs' | 'maxSeenIds'>,
+    seen: CursorRow[] = [],
+  ) {
+    this.floorMs = floor.getTime();
+    for (const row of seen) this.seen.set(row.id, row.createdAt.getTime());
+    this.prune();
+  }
+
+  get floor(): Date {
+    return new Date(this.floorMs);
+  }
+
+  get seenCount(): number {
+    return this.seen.size;
+  }
+
+  where(base: Prisma.EventLogWhereInput): Prisma.EventLogWhereInput {
+    const conditions: Prisma.EventLogWhereInput[] = [base, { createdAt: { gte: this.floor } }];
+    if (this.seen.size > 0) conditions.push({ id: { notIn: [...this.seen.keys()] } });
+    return { AND: conditions };
+  }
+
+  /** Records delivered rows and moves the floor up. */
+  advance(rows: CursorRow[], dbNow: Date, batchFull: boolean): void {
+    for (const row of rows) this.seen.set(row.id, row.createdAt.getTime());
+
+    let target = dbNow.getTime() - this.options.overlapMs;
+    if (batchFull && rows.length > 0) {
+      target = Math.min(target, rows[rows.length - 1].createdAt.getTime());
+    }
+    if (target > this.floorMs) this.floorMs = target;
+    this.prune();
+  }
+
+  /**
+   * Drops ids below the floor. Past maxSeenIds the floor is raised above the oldest
+   * ids instead — late commits in that slice are then no longer picked up.
+   */
+  private prune(): void {
+    this.dropBelowFloor();
+    if (this.seen.size <= this.options.maxSeenIds) return;
+
+    const times = [...this.seen.values()].sort((a, b) => a - b);
+    const cutoff = times[times.length - this.options.maxSeenIds - 1];
+    // All remaining ids share one timestamp — raising the floor would skip them.
+    if (cutoff >= times[times.length - 1]) return;
+    this.floorMs = cutoff + 1;
+    this.dropBelowFloor();
+  }
+
+  private dropBelowFloor(): void {
+    for (const [id, createdAtMs] of this.seen) {
+      if (createdAtMs < this.floorMs) this.seen.delete(id);
+    }
+  }
+}
+
+async function readDbNow(tx: Prisma.TransactionClient): Promise<Date> {
+  const rows = await tx.$queryRaw<Array<{ now: Date }>>`SELECT now() AS now`;
+  return rows[0].now;
+}
+
+/**
+ * Initial cursor: right after `lastEventId` when it can be resumed, else the
+ * database clock minus the overlap window (rows already committed in that window
+ * are marked as seen, so only late commits from it are sent).
+ */
+export async function openEventLogCursor(
+  reader: EventStreamReader,
+  lastEventId: string | null,
+  options: EventStreamOptions,
+): Promise<{ cursor: EventLogCursor; resumed: boolean }> {
+  return reader(async tx => {
+    const now = await readDbNow(tx);
+    const select = { id: true, createdAt: true } as const;
+
+    const last = lastEventId
+      ? await tx.eventLog.findUnique({ where: { id: lastEventId }, select })
+      : null;
+    if (last && now.getTime() - last.createdAt.getTime() <= options.maxResumeAgeMs) {
+      const ties = await tx.eventLog.findMany({
+        where: { createdAt: last.createdAt, id: { lte: last.id } },
+        select,
+      });
+      return { cursor: new EventLogCursor(last.createdAt, options, ties), resumed: true };
+    }
+
+    const windowStart = new Date(now.getTime() - options.overlapMs);
+    const recent = await tx.eventLog.findMany({
+      where: { createdAt: { gte: windowStart } },
+      select,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: options.maxSeenIds,
+    });
+    const cursor = recent.length < options.maxSeenIds
+      ? new EventLogCursor(windowStart, options, recent)
+      : new EventLogCursor(now, options, recent);
+    return { cursor, resumed: false };
+  });
+}
+
+// ─── Stream loop ──────────────────────────────────────────────────────────────
+
+function pause(ms: number, closed: Promise<void>): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const elapsed = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, ms);
+  });
+  return Promise.race([elapsed, closed]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Serves one stream until the client disconnects, the lifetime ends, the client
+ * falls behind or a read fails. Errors opening the cursor are thrown before anything
+ * is written, so the route can still answer with a JSON error.
+ */
+export async function runEventStream(
+  stream: SseStream,
+  reader: EventStreamReader,
+  filter: EventStreamFilter,
+  lastEventId: string | null,
+  overrides: Partial<EventStreamOptions> = {},
+): Promise<EventStreamSummary> {
+  const options: EventStreamOptions = { ...DEFAULT_EVENT_STREAM_OPTIONS, ...overrides };
+  const startedAt = Date.now();
+  const { cursor, resumed } = await openEventLogCursor(reader, lastEventId, options);
+  const base = eventStreamWhere(filter);
+  const closed = new Promise<void>(resolve => stream.onClose(resolve));
+
+  let delivered = 0;
+  let lastWriteAt = Date.now();
+  const end = (reason: EventStreamEndReason): EventStreamSummary => ({
+    delivered,
+    resumed,
+    reason,
+    durationMs: Date.now() - startedAt,
+  });
+
+  stream.send('ready', {
+    resumed,
+    lastEventId: resumed ? lastEventId : null,
+    filter: {
+      namePrefix: filter.namePrefix ?? null,
+      tenantId: filter.tenantId ?? null,
+      realm: filter.realm ?? null,
+    },
+    pollIntervalMs: options.pollIntervalMs,
+  });
+
+  while (!stream.closed) {
+    if (Date.now() - startedAt >= options.maxLifetimeMs) {
+      stream.send('reconnect', { reason: 'MAX_LIFETIME' });
+      stream.close();
+      return end('MAX_LIFETIME');
+    }
+
+    let rows: EventLog[];
+    try {
+      const batch = await reader(async tx => {
+        const now = await readDbNow(tx);
+        const found: EventLog[] = await tx.eventLog.findMany({
+          where: cursor.where(base),
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          take: options.batchSize,
+        });
+        return { now, found };
+      });
+      rows = batch.found;
+      cursor.advance(rows, batch.now, rows.length === options.batchSize);
+    } catch {
+      stream.fail('INTERNAL_ERROR', 'Event stream read failed');
+      return end('ERROR');
+    }
+
+    for (const row of rows) {
+      if (stream.closed) break;
+      stream.send('event_log', row, row.id);
+      delivered += 1;
+      lastWriteAt = Date.now();
+    }
+
+    if (stream.bufferedBytes > options.maxBufferedBytes) {
+      const drained = await stream.drained(options.drainTimeoutMs);
+      if (!drained) {
+        if (stream.closed) break;
+        stream.fail('SLOW_CONSUMER', 'Client is not reading the event stream fast enough');
+        return end('SLOW_CONSUMER');
+      }
+    }
+
+    if (Date.now() - lastWriteAt >= options.heartbeatMs) {
+      stream.comment('ping');
+      lastWriteAt = Date.now();
+    }
+
+    if (rows.length < options.batchSize) {
+      await pause(options.pollIntervalMs, closed);
+    }
+  }
+
+  return end('CLIENT_CLOSED');
+}
+
+// ─── Connection limits ────────────────────────────────────────────────────────
+
+export class EventStreamConnectionLimiter {
+  private total = 0;
+  private readonly perPrincipal = new Map<string, number>();
+
+  constructor(
+    private readonly maxTotal: number,
+    private readonly maxPerPrincipal: number,
+  ) {}
+
+  get activeConnections(): number {
+    return this.total;
+  }
+
+  /** Reserves a slot; returns its release function, or null when a limit is reached. */
+  acquire(principal: string): (() => void) | null {
+    const current = this.perPrincipal.get(principal) ?? 0;
+    if (this.total >= this.maxTotal || current >= this.maxPerPrincipal) return null;
+
+    this.total += 1;
+    this.perPrincipal.set(principal, current + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.total -= 1;
+      const remaining = (this.perPrincipal.get(principal) ?? 1) - 1;
+      if (remaining > 0) this.perPrincipal.set(principal, remaining);
+      else this.perPrincipal.delete(principal);
+    };
+  }
+}
+
+/** Process-wide limiter shared by the control and tenant stream routes. */
+export const eventStreamConnections = new EventStreamConnectionLimiter(
+  config.EVENT_STREAM_MAX_CONNECTIONS,
+  EVENT_STREAM_MAX_PER_PRINCIPAL,
+);
@@ -0,0 +1,55 @@
+/**
+ * Live Event Stream — Types
+ * Task ID: EVENT-STREAM-001
+ *
+ * See eventStream.service.ts for the cursor, resume and backpressure rules.
+ */
+
+import type { Prisma } from '@prisma/client';
+
+export type EventStreamRealm = 'ADMIN' | 'TENANT';
+
+/** Filters applied on top of the reader's RLS scope. All optional, combined with AND. */
+export interface EventStreamFilter {
+  /** Matches event names starting with this value (e.g. "trade." or "org.member"). */
+  namePrefix?: string;
+  tenantId?: string;
+  realm?: EventStreamRealm;
+}
+
+/**
+ * Runs one read inside the caller's database context. The control plane passes
+ * withAdminContext; the tenant plane passes withDbContext, so event_logs RLS limits
+ * the stream to the tenant's own rows.
+ */
+export type EventStreamReader = <T>(fn: (tx: Prisma.TransactionClient) => Promise<T>) => Promise<T>;
+
+export interface EventStreamOptions {
+  /** Delay between polls when the previous poll returned less than a full batch. */
+  pollIntervalMs: number;
+  /** Rows read per poll. */
+  batchSize: number;
+  /** Comment heartbeat interval — keeps proxies from closing an idle stream. */
+  heartbeatMs: number;
+  /** Stream lifetime; afterwards a `reconnect` event is sent and the stream closes. */
+  maxLifetimeMs: number;
+  /** Write buffer above which the stream stops reading until the client catches up. */
+  maxBufferedBytes: number;
+  /** How long a backed-up client may take to drain before it is disconnected. */
+  drainTimeoutMs: number;
+  /** created_at window re-read on every poll so late-committed rows are still delivered. */
+  overlapMs: number;
+  /** Upper bound on event ids remembered inside the overlap window. */
+  maxSeenIds: number;
+  /** Last-Event-ID values older than this are not resumed (the client reloads instead). */
+  maxResumeAgeMs: number;
+}
+
+export type EventStreamEndReason = 'CLIENT_CLOSED' | 'MAX_LIFETIME' | 'SLOW_CONSUMER' | 'ERROR';
+
+export interface EventStreamSummary {
+  delivered: number;
+  resumed: boolean;
+  reason: EventStreamEndReason;
+  durationMs: number;
+}
@@ -0,0 +1,530 @@
+/**
+ * FX-RATES-001 — FX rate table, conversion and rate snapshots.
+ *
+ * fx_rates holds platform rates: 1 base = rate quote, effective from effective_date
+ * until the next effective_date for the same pair. Rows are insert-only; every
+ * conversion carries an FxRateReference (fx_rates.id + applied rate + effective date)
+ * so a converted figure can always be traced back to the row that produced it.
+ *
+ * Resolution for (from, to, asOf):
+ *   IDENTITY  from === to                       → rate 1, no row
+ *   DIRECT    latest from→to row on/before asOf → rate
+ *   INVERSE   latest to→from row on/before asOf → 1 / rate
+ * When both directions exist the more recent effective_date wins (DIRECT on a tie).
+ * There is no triangulation through a third currency — missing pairs must be loaded.
+ *
+ * Consumers:
+ *   TradeService / InvoiceService — snapshot() into the reporting currency at creation
+ *   SettlementService             — convert() into the escrow denomination
+ *   VpcService                    — convert() invoice amount into the TTP cap currency
+ *
+ * Writes (recordRates) run under the caller's admin context (app.is_admin = 'true').
+ */
+
+import { Prisma, type PrismaClient } from '@prisma/client';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export const FX_RATE_SOURCES = ['MANUAL', 'FILE_FEED'] as const;
+
+export type FxRateSource = (typeof FX_RATE_SOURCES)[number];
+
+/** SNAPSHOT = rate reused from a trade / invoice creation snapshot (see convertWithSnapshot). */
+export type FxConversionMethod = 'IDENTITY' | 'DIRECT' | 'INVERSE' | 'SNAPSHOT';
+
+/** Decimal places kept on applied rates (matches NUMERIC(24,10)). */
+export const FX_RATE_SCALE = 10;
+
+/** Decimal places kept on converted amounts (matches gross_amount NUMERIC(18,6)). */
+export const FX_AMOUNT_SCALE = 6;
+
+/** Upper bound on rows accepted by one recordRates() call (upload or feed file). */
+export const FX_RATE_MAX_ROWS_PER_LOAD = 5000;
+
+export type FxRateInput = {
+  baseCurrency: string;
+  quoteCurrency: string;
+  /** Decimal string or number; must be > 0. */
+  rate: string | number;
+  /** YYYY-MM-DD. */
+  effectiveDate: string;
+};
+
+export type FxRateRow = {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: string;
+  effectiveDate: string;
+  source: FxRateSource;
+  sourceReference: string | null;
+  createdByAdminId: string | null;
+  createdAt: string;
+};
+
+/** Auditable reference to the rate applied by a conversion. */
+export type FxRateReference = {
+  /** fx_rates.id of the stored row; null for IDENTITY. */
+  fxRateId: string | null;
+  fromCurrency: string;
+  toCurrency: string;
+  /** Applied rate: 1 fromCurrency = rate toCurrency (inverted for INVERSE). */
+  rate: string;
+  method: FxConversionMethod;
+  /** effective_date of the stored row (YYYY-MM-DD); null for IDENTITY. */
+  effectiveDate: string | null;
+};
+
+export type FxConversion = {
+  amount: string;
+  convertedAmount: string;
+  reference: FxRateReference;
+};
+
+/** Column values written to trades.fx_* / invoices.fx_* at creation (and read back). */
+export type FxSnapshot = {
+  reportingCurrency: string;
+  rate: Prisma.Decimal;
+  fxRateId: string | null;
+  effectiveDate: Date | null;
+};
+
+export type FxRateListFilters = {
+  baseCurrency?: string;
+  quoteCurrency?: string;
+  limit?: number;
+  offset?: number;
+};
+
+export type RecordFxRatesInput = {
+  rows: FxRateInput[];
+  source: FxRateSource;
+  sourceReference?: string | null;
+  createdByAdminId?: string | null;
+};
+
+export type RecordFxRatesResult = {
+  inserted: FxRateRow[];
+  /** Rows identical (same pair, date and rate) to an existing row — re-loads are no-ops. */
+  unchanged: number;
+};
+
+export type FxCsvParseResult = {
+  rows: FxRateInput[];
+  errors: Array<{ line: number; message: string }>;
+};
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class FxRateUnavailableError extends Error {
+  constructor(
+    public readonly fromCurrency: string,
+    public readonly toCurrency: string,
+    public readonly asOf: string,
+  ) {
+    super(`No FX rate for ${fromCurrency}/${toCurrency} effective on or before ${asOf}`);
+    this.name = 'FxRateUnavailableError';
+  }
+}
+
+export class FxRateValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FxRateValidationError';
+  }
+}
+
+/** A row for the same pair and effective_date already exists with a different rate. */
+export class FxRateConflictError extends Error {
+  constructor(
+    public readonly conflicts: Array<{ baseCurrency: string; quoteCurrency: string; effectiveDate: string }>,
+  ) {
+    super(
+      `FX rates are insert-only; ${conflicts.length} row(s) conflict with an existing rate ` +
+        `(first: ${conflicts[0]?.baseCurrency}/${conflicts[0]?.quoteCurrency} ${conflicts[0]?.effectiveDate}). ` +
+        'Load a correction on a later effective date.',
+    );
+    this.name = 'FxRateConflictError';
+  }
+}
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+/** Uppercase, trimmed ISO 4217 alpha code, or null when not three letters. */
+export function normalizeCurrencyCode(code: string | null | undefined): string | null {
+  const normalized = (code ?? '').trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(normalized) ? normalized : null;
+}
+
+/** YYYY-MM-DD (UTC) for a Date. */
+export function toFxDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseFxDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) || toFxDateString(date) !== value ? null : date;
+}
+
+function parseRate(value: string | number): Prisma.Decimal | null {
+  try {
+    const rate = new Prisma.Decimal(typeof value === 'string' ? value.trim() : value);
+    return rate.isFinite() && rate.greaterThan(0) ? rate : null;
+  } catch {
+    return null;
+  }
+}
+
+const FX_CSV_COLUMNS = ['base_currency', 'quote_currency', 'rate', 'effective_date'] as const;
+
+/**
+ * Parses a rate feed file. Expected header (any column order, case-insensitive):
+ *   base_currency,quote_currency,rate,effective_date
+ * Blank lines and lines starting with '#' are skipped. Invalid lines are reported
+ * with their 1-based line number; valid lines are still returned.
+ */
+export function parseFxRateCsv(text: string): FxCsvParseResult {
+  const rows: FxRateInput[] = [];
+  const errors: FxCsvParseResult['errors'] = [];
+  let header: string[] | null = null;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index].trim();
+    if (line.length === 0 || line.startsWith('#')) continue;
+    const cells = line.split(',').map(cell => cell.trim());
+
+    if (!header) {
+      header = cells.map(cell => cell.toLowerCase());
+      const missing = FX_CSV_COLUMNS.filter(column => !header?.includes(column));
+      if (missing.length > 0) {
+        return { rows: [], errors: [{ line: index + 1, message: `Header is missing column(s): ${missing.join(', ')}` }] };
+      }
+      continue;
+    }
+
+    const columns = header;
+    const cell = (column: string) => cells[columns.indexOf(column)] ?? '';
+    const row: FxRateInput = {
+      baseCurrency: cell('base_currency'),
+      quoteCurrency: cell('quote_currency'),
+      rate: cell('rate'),
+      effectiveDate: cell('effective_date'),
+    };
+    const problem = validateFxRateInput(row);
+    if (problem) {
+      errors.push({ line: index + 1, message: problem });
+    } else {
+      rows.push(row);
+    }
+  }
+
+  if (!header) errors.push({ line: 1, message: 'File is empty' });
+  return { rows, errors };
+}
+
+/** Returns a human-readable problem with one rate row, or null when it is valid. */
+export function validateFxRateInput(row: FxRateInput): string | null {
+  const base = normalizeCurrencyCode(row.baseCurrency);
+  const quote = normalizeCurrencyCode(row.quoteCurrency);
+  if (!base) return `Invalid base currency '${row.baseCurrency}'`;
+  if (!quote) return `Invalid quote currency '${row.quoteCurrency}'`;
+  if (base === quote) return `Base and quote currency are both ${base}`;
+  if (!parseRate(row.rate)) return `Rate must be a positive number (got '${row.rate}')`;
+  if (!parseFxDate(row.effectiveDate)) return `Effective date must be YYYY-MM-DD (got '${row.effectiveDate}')`;
+  return null;
+}
+
+/** amount × rate, rounded half-up to FX_AMOUNT_SCALE. */
+export function applyFxRate(amount: Prisma.Decimal.Value, rate: Prisma.Decimal.Value): Prisma.Decimal {
+  return new Prisma.Decimal(amount)
+    .times(rate)
+    .toDecimalPlaces(FX_AMOUNT_SCALE, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+/** Reads invoices.fx_* back into an FxSnapshot; null when the row has none. */
+export function invoiceFxSnapshot(row: {
+  fx_reporting_currency?: string | null;
+  fx_rate?: Prisma.Decimal.Value | null;
+  fx_rate_id?: string | null;
+  fx_rate_effective_date?: Date | null;
+}): FxSnapshot | null {
+  if (!row.fx_reporting_currency || row.fx_rate === null || row.fx_rate === undefined) return null;
+  return {
+    reportingCurrency: row.fx_reporting_currency,
+    rate: new Prisma.Decimal(row.fx_rate),
+    fxRateId: row.fx_rate_id ?? null,
+    effectiveDate: row.fx_rate_effective_date ?? null,
+  };
+}
+
+type FxRateRecord = {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: Prisma.Decimal;
+  effectiveDate: Date;
+  source: string;
+  sourceReference: string | null;
+  createdByAdminId: string | null;
+  createdAt: Date;
+};
+
+function toFxRateRow(record: FxRateRecord): FxRateRow {
+  return {
+    id: record.id,
+    baseCurrency: record.baseCurrency,
+    quoteCurrency: record.quoteCurrency,
+    rate: record.rate.toString(),
+    effectiveDate: toFxDateString(record.effectiveDate),
+    source: record.source as FxRateSource,
+    sourceReference: record.sourceReference,
+    createdByAdminId: record.createdByAdminId,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class FxRateService {
+  /**
+   * @param db                 - PrismaClient (or tx-bound from withDbContext).
+   * @param reportingCurrency  - Snapshot target currency (config.FX_REPORTING_CURRENCY).
+   */
+  constructor(
+    private readonly db: PrismaClient,
+    readonly reportingCurrency: string = 'INR',
+  ) {}
+
+  /**
+   * Rate to convert `from` into `to` as of `asOf`, or null when no stored row applies.
+   */
+  async resolveRate(from: string, to: string, asOf: Date = new Date()): Promise<FxRateReference | null> {
+    const fromCurrency = normalizeCurrencyCode(from);
+    const toCurrency = normalizeCurrencyCode(to);
+    if (!fromCurrency || !toCurrency) {
+      throw new FxRateValidationError(`Invalid currency pair '${from}/${to}'`);
+    }
+
+    if (fromCurrency === toCurrency) {
+      return { fxRateId: null, fromCurrency, toCurrency, rate: '1', method: 'IDENTITY', effectiveDate: null };
+    }
+
+    const onOrBefore = new Date(`${toFxDateString(asOf)}T00:00:00.000Z`);
+    const select = { id: true, rate: true, effectiveDate: true } as const;
+    const [direct, inverse] = await Promise.all([
+      this.db.fxRate.findFirst({
+        where: { baseCurrency: fromCurrency, quoteCurrency: toCurrency, effectiveDate: { lte: onOrBefore } },
+        orderBy: { effectiveDate: 'desc' },
+        select,
+      }),
+      this.db.fxRate.findFirst({
+        where: { baseCurrency: toCurrency, quoteCurrency: fromCurrency, effectiveDate: { lte: onOrBefore } },
+        orderBy: { effectiveDate: 'desc' },
+        select,
+      }),
+    ]);
+
+    if (direct && (!inverse || direct.effectiveDate >= inverse.effectiveDate)) {
+      return {
+        fxRateId: direct.id,
+        fromCurrency,
+        toCurrency,
+        rate: new Prisma.Decimal(direct.rate).toString(),
+        method: 'DIRECT',
+        effectiveDate: toFxDateString(direct.effectiveDate),
+      };
+    }
+
+    if (inverse) {
+      return {
+        fxRateId: inverse.id,
+        fromCurrency,
+        toCurrency,
+        rate: new Prisma.Decimal(1)
+          .dividedBy(inverse.rate)
+          .toDecimalPlaces(FX_RATE_SCALE, Prisma.Decimal.ROUND_HALF_UP)
+          .toString(),
+        method: 'INVERSE',
+        effectiveDate: toFxDateString(inverse.effectiveDate),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Converts `amount` from one currency into another.
+   * @throws FxRateUnavailableError when no rate applies as of `asOf`.
+   */
+  async convert(
+    amount: Prisma.Decimal.Value,
+    from: string,
+    to: string,
+    asOf: Date = new Date(),
+  ): Promise<FxConversion> {
+    const reference = await this.resolveRate(from, to, asOf);
+    if (!reference) {
+      throw new FxRateUnavailableError(
+        normalizeCurrencyCode(from) ?? from,
+        normalizeCurrencyCode(to) ?? to,
+        toFxDateString(asOf),
+      );
+    }
+    return {
+      amount: new Prisma.Decimal(amount).toString(),
+      convertedAmount: applyFxRate(amount, reference.rate).toString(),
+      reference,
+    };
+  }
+
+  /**
+   * Converts a document amount (trade / invoice) that may already carry a creation
+   * snapshot. When the snapshot targets `to`, its rate is reused so the figure matches
+   * what was recorded at creation; otherwise the rate is resolved as of `asOf`.
+   * @throws FxRateUnavailableError when neither applies.
+   */
+  async convertWithSnapshot(
+    amount: Prisma.Decimal.Value,
+    currency: string,
+    snapshot: FxSnapshot | null,
+    to: string,
+    asOf: Date = new Date(),
+  ): Promise<FxConversion> {
+    const fromCurrency = normalizeCurrencyCode(currency);
+    const toCurrency = normalizeCurrencyCode(to);
+    if (snapshot && fromCurrency && fromCurrency !== toCurrency && snapshot.reportingCurrency === toCurrency) {
+      return {
+        amount: new Prisma.Decimal(amount).toString(),
+        convertedAmount: applyFxRate(amount, snapshot.rate).toString(),
+        reference: {
+          fxRateId: snapshot.fxRateId,
+          fromCurrency,
+          toCurrency,
+          rate: snapshot.rate.toString(),
+          method: 'SNAPSHOT',
+          effectiveDate: snapshot.effectiveDate ? toFxDateString(snapshot.effectiveDate) : null,
+        },
+      };
+    }
+    return this.convert(amount, currency, to, asOf);
+  }
+
+  /**
+   * Snapshot of `currency` → reporting currency for a trade or invoice being created.
+   * Returns null when no rate is loaded yet; creation is never blocked on FX data and
+   * the row simply carries no snapshot.
+   */
+  async snapshot(currency: string, asOf: Date = new Date()): Promise<FxSnapshot | null> {
+    if (!normalizeCurrencyCode(currency)) return null;
+    const reference = await this.resolveRate(currency, this.reportingCurrency, asOf);
+    if (!reference) return null;
+    return {
+      reportingCurrency: reference.toCurrency,
+      rate: new Prisma.Decimal(reference.rate),
+      fxRateId: reference.fxRateId,
+      effectiveDate: reference.effectiveDate ? new Date(`${reference.effectiveDate}T00:00:00.000Z`) : null,
+    };
+  }
+
+  async listRates(filters: FxRateListFilters = {}): Promise<FxRateRow[]> {
+    const base = filters.baseCurrency ? normalizeCurrencyCode(filters.baseCurrency) : undefined;
+    const quote = filters.quoteCurrency ? normalizeCurrencyCode(filters.quoteCurrency) : undefined;
+    const records = await this.db.fxRate.findMany({
+      where: {
+        ...(base ? { baseCurrency: base } : {}),
+        ...(quote ? { quoteCurrency: quote } : {}),
+      },
+      orderBy: [{ effectiveDate: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+      take: Math.min(filters.limit ?? 100, 500),
+      skip: filters.offset ?? 0,
+    });
+    return records.map(toFxRateRow);
+  }
+
+  /**
+   * Inserts a batch of rates. All rows are validated first; nothing is written if any
+   * row is invalid or conflicts with a stored rate for the same pair and date.
+   * Rows identical to a stored rate are skipped, so re-loading a feed file is safe.
+   *
+   * @throws FxRateValidationError | FxRateConflictError
+   */
+  async recordRates(input: RecordFxRatesInput): Promise<RecordFxRatesResult> {
+    if (input.rows.length === 0) throw new FxRateValidationError('No FX rates supplied');
+    if (input.rows.length > FX_RATE_MAX_ROWS_PER_LOAD) {
+      throw new FxRateValidationError(`At most ${FX_RATE_MAX_ROWS_PER_LOAD} FX rates per load`);
+    }
+
+    const normalized = input.rows.map((row, index) => {
+      const problem = validateFxRateInput(row);
+      if (problem) throw new FxRateValidationError(`Row ${index + 1}: ${problem}`);
+      return {
+        baseCurrency: normalizeCurrencyCode(row.baseCurrency) as string,
+        quoteCurrency: normalizeCurrencyCode(row.quoteCurrency) as string,
+        rate: parseRate(row.rate) as Prisma.Decimal,
+        effectiveDate: parseFxDate(row.effectiveDate) as Date,
+        effectiveDateText: row.effectiveDate,
+      };
+    });
+
+    const keyOf = (row: { baseCurrency: string; quoteCurrency: string; effectiveDateText: string }) =>
+      `${row.baseCurrency}/${row.quoteCurrency}/${row.effectiveDateText}`;
+    const seen = new Set<string>();
+    for (const row of normalized) {
+      if (seen.has(keyOf(row))) {
+        throw new FxRateValidationError(`Duplicate rate for ${keyOf(row)} in the same load`);
+      }
+      seen.add(keyOf(row));
+    }
+
+    const existing = await this.db.fxRate.findMany({
+      where: {
+        OR: normalized.map(row => ({
+          baseCurrency: row.baseCurrency,
+          quoteCurrency: row.quoteCurrency,
+          effectiveDate: row.effectiveDate,
+        })),
+      },
+      select: { baseCurrency: true, quoteCurrency: true, effectiveDate: true, rate: true },
+    });
+    const existingByKey = new Map(
+      existing.map(row => [
+        keyOf({ ...row, effectiveDateText: toFxDateString(row.effectiveDate) }),
+        new Prisma.Decimal(row.rate),
+      ]),
+    );
+
+    const conflicts = normalized.filter(row => {
+      const stored = existingByKey.get(keyOf(row));
+      return stored !== undefined && !stored.equals(row.rate);
+    });
+    if (conflicts.length > 0) {
+      throw new FxRateConflictError(
+        conflicts.map(row => ({
+          baseCurrency: row.baseCurrency,
+          quoteCurrency: row.quoteCurrency,
+          effectiveDate: row.effectiveDateText,
+        })),
+      );
+    }
+
+    const inserted: FxRateRow[] = [];
+    for (const row of normalized.filter(r => !existingByKey.has(keyOf(r)))) {
+      const record = await this.db.fxRate.create({
+        data: {
+          baseCurrency: row.baseCurrency,
+          quoteCurrency: row.quoteCurrency,
+          rate: row.rate,
+          effectiveDate: row.effectiveDate,
+          source: input.source,
+          sourceReference: input.sourceReference?.trim() || null,
+          createdByAdminId: input.createdByAdminId ?? null,
+        },
+      });
+      inserted.push(toFxRateRow(record));
+    }
+
+    return { inserted, unchanged: normalized.length - inserted.length };
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * GOV-EXPIRY-SWEEP-001 — GovernanceExpiryService
+ * Closes the "Expiry sweeping → G-023 cron job" deferral of MakerCheckerService
+ * and EscalationService.
+ *
+ * Implements the scheduled governance sweep:
+ *   1. planSweep  — Dry run: list approvals past expires_at and sanctions past decays_at.
+ *   2. runSweep   — Record each outcome as an append-only event row, audit it, and
+ *                   notify the maker of every expired approval.
+ *
+ * Constitutional guarantees:
+ *   G-021 / G-022 doctrine: pending_approvals and sanctions are NEVER updated.
+ *     Expiry → approval_expiry_events INSERT. Decay → sanction_decay_events INSERT.
+ *     Both tables are immutable (DB trigger, P0001).
+ *   Idempotent: UNIQUE (approval_id) / UNIQUE (sanction_id). A row recorded by a
+ *     concurrent or earlier sweep surfaces as P2002 and is counted as skipped.
+ *   Atomic: each event INSERT and its audit entry share one transaction.
+ *   Notification is best-effort and runs after commit — a mail failure never
+ *     rolls back or retries an expiry.
+ *
+ * Effect of the event rows:
+ *   - MakerCheckerService.getPendingQueue hides expired approvals; the control-plane
+ *     queue reports them as EXPIRED. signApproval / verifyAndReplay already reject
+ *     them via the lazy expires_at check.
+ *   - An expired approval no longer holds its D-021-B slot: the slot trigger
+ *     (enforce_pending_approval_active_slot) skips requests with an expiry event, so
+ *     the maker can resubmit; createApprovalRequest carries attempt_count + 1.
+ *   - is_org_sanctioned / is_entity_sanctioned ignore decayed sanctions, so
+ *     SanctionsService stops blocking on them.
+ *
+ * Scheduling: 'governance.expiry.sweep' job (workers/governanceExpiryWorker.ts).
+ * The injected client must be the service connection — the sweep spans all orgs.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { PrismaClient } from '@prisma/client';
+import { writeAuditLog } from '../lib/auditLog.js';
+import { createApprovalExpiredAudit, createSanctionDecayedAudit } from '../utils/audit.js';
+import { sendApprovalExpiredEmail } from './email/email.service.js';
+import type {
+  ApprovalExpiryCandidate,
+  GovernanceSweepPlan,
+  GovernanceSweepResult,
+  MakerNotificationStatus,
+  SanctionDecayCandidate,
+} from './governanceExpiry.types.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** Max approvals and max sanctions handled per sweep. Remaining rows roll to the next sweep. */
+export const GOVERNANCE_SWEEP_BATCH_LIMIT = 500;
+
+const SWEEPABLE_APPROVAL_STATUSES = ['REQUESTED', 'ESCALATED'];
+
+// ─── Internal helpers ─────────────────────────────────────────────────────────
+
+function isPrismaUniqueViolation(err: unknown): boolean {
+  return (
+    err instanceof Error &&
+    'code' in err &&
+    (err as { code: unknown }).code === 'P2002'
+  );
+}
+
+// ─── GovernanceExpiryService ──────────────────────────────────────────────────
+
+export class GovernanceExpiryService {
+  /**
+   * @param db - Prisma service connection (injected for testability).
+   */
+  constructor(private readonly db: PrismaClient) {}
+
+  // ─── Method 1: planSweep ───────────────────────────────────────────────────
+
+  /**
+   * Dry run: what a sweep at `asOf` would record. Writes nothing.
+   *
+   * @param asOf  - Sweep reference time (default now).
+   * @param limit - Max rows per category (default GOVERNANCE_SWEEP_BATCH_LIMIT).
+   */
+  async planSweep(
+    asOf: Date = new Date(),
+    limit: number = GOVERNANCE_SWEEP_BATCH_LIMIT,
+  ): Promise<GovernanceSweepPlan> {
+    const [approvalRows, sanctionRows] = await Promise.all([
+      this.db.pendingApproval.findMany({
+        where: {
+          status:      { in: SWEEPABLE_APPROVAL_STATUSES },
+          expiresAt:   { lte: asOf },
+          expiryEvent: { is: null },
+        },
+        orderBy: { expiresAt: 'asc' },
+        take:    limit + 1,
+        select: {
+          id:                   true,
+          orgId:                true,
+          entityType:           true,
+          entityId:             true,
+          fromStateKey:         true,
+          toStateKey:           true,
+          status:               true,
+          expiresAt:            true,
+          requestedByActorType: true,
+          requestedByUserId:    true,
+          requestedByAdminId:   true,
+        },
+      }),
+      this.db.sanction.findMany({
+        where: {
+          status:     'ACTIVE',
+          decaysAt:   { not: null, lte: asOf },
+          decayEvent: { is: null },
+        },
+        orderBy: { decaysAt: 'asc' },
+        take:    limit + 1,
+        select: {
+          id:           true,
+          orgId:        true,
+          entityType:   true,
+          entityId:     true,
+          sanctionType: true,
+          severity:     true,
+          decaysAt:     true,
+        },
+      }),
+    ]);
+
+    const approvals: ApprovalExpiryCandidate[] = approvalRows.slice(0, limit).map(row => ({
+      approvalId:           row.id,
+      orgId:                row.orgId,
+      entityType:           row.entityType,
+      entityId:             row.entityId,
+      fromStateKey:         row.fromStateKey,
+      toStateKey:           row.toStateKey,
+      status:               row.status,
+      expiresAt:            row.expiresAt,
+      requestedByActorType: row.requestedByActorType,
+      requestedByUserId:    row.requestedByUserId,
+      requestedByAdminId:   row.requestedByAdminId,
+    }));
+
+    const sanctions: SanctionDecayCandidate[] = sanctionRows.slice(0, limit).map(row => ({
+      sanctionId:   row.id,
+      orgId:        row.orgId,
+      entityType:   row.entityType,
+      entityId:     row.entityId,
+      sanctionType: row.sanctionType,
+      severity:     row.severity,
+      // Non-null by the where clause.
+      decaysAt:     row.decaysAt as Date,
+    }));
+
+    return {
+      asOf,
+      approvals,
+      sanctions,
+      truncated: approvalRows.length > limit || sanctionRows.length > limit,
+    };
+  }
+
+  // ─── Method 2: runSweep ────────────────────────────────────────────────────
+
+  /**
+   * Expire due approvals and decay due sanctions as of `asOf`.
+   * Safe to run concurrently and to re-run: already-recorded rows are skipped.
+   *
+   * @param asOf  - Sweep reference time (default now).
+   * @param limit - Max rows per category (default GOVERNANCE_SWEEP_BATCH_LIMIT).
+   */
+  async runSweep(
+    asOf: Date = new Date(),
+    limit: number = GOVERNANCE_SWEEP_BATCH_LIMIT,
+  ): Promise<GovernanceSweepResult> {
+    const plan = await this.planSweep(asOf, limit);
+    const sweepRunId = randomUUID();
+
+    const result: GovernanceSweepResult = {
+      sweepRunId,
+      asOf,
+      approvalsExpired: 0,
+      sanctionsDecayed: 0,
+      skipped:          0,
+      notifications:    { SENT: 0, NO_RECIPIENT: 0, FAILED: 0 },
+      truncated:        plan.truncated,
+    };
+
+    for (const approval of plan.approvals) {
+      const recorded = await this.recordApprovalExpiry(approval, sweepRunId);
+      if (!recorded) {
+        result.skipped += 1;
+        continue;
+      }
+      result.approvalsExpired += 1;
+      result.notifications[await this.notifyMaker(approval)] += 1;
+    }
+
+    for (const sanction of plan.sanctions) {
+      const recorded = await this.recordSanctionDecay(sanction, sweepRunId);
+      if (recorded) {
+        result.sanctionsDecayed += 1;
+      } else {
+        result.skipped += 1;
+      }
+    }
+
+    return result;
+  }
+
+  // ─── Internal: event writers ───────────────────────────────────────────────
+
+  /** @returns false when the approval already has an expiry event (P2002). */
+  private async recordApprovalExpiry(
+    approval: ApprovalExpiryCandidate,
+    sweepRunId: string,
+  ): Promise<boolean> {
+    try {
+      await this.db.$transaction(async tx => {
+        await tx.approvalExpiryEvent.create({
+          data: {
+            approvalId:     approval.approvalId,
+            orgId:          approval.orgId,
+            expiredAtDue:   approval.expiresAt,
+            statusAtExpiry: approval.status,
+            sweepRunId,
+          },
+        });
+        await writeAuditLog(tx, createApprovalExpiredAudit({
+          orgId:          approval.orgId,
+          approvalId:     approval.approvalId,
+          entityType:     approval.entityType,
+          entityId:       approval.entityId,
+          fromStateKey:   approval.fromStateKey,
+          toStateKey:     approval.toStateKey,
+          statusAtExpiry: approval.status,
+          expiresAt:      approval.expiresAt,
+          sweepRunId,
+        }));
+      }, { timeout: 30000 });
+      return true;
+    } catch (err) {
+      if (isPrismaUniqueViolation(err)) return false;
+      throw err;
+    }
+  }
+
+  /** @returns false when the sanction already has a decay event (P2002). */
+  private async recordSanctionDecay(
+    sanction: SanctionDecayCandidate,
+    sweepRunId: string,
+  ): Promise<boolean> {
+    try {
+      await this.db.$transaction(async tx => {
+        await tx.sanctionDecayEvent.create({
+          data: {
+            sanctionId: sanction.sanctionId,
+            orgId:      sanction.orgId,
+            decaysAt:   sanction.decaysAt,
+            sweepRunId,
+          },
+        });
+        await writeAuditLog(tx, createSanctionDecayedAudit({
+          orgId:        sanction.orgId,
+          sanctionId:   sanction.sanctionId,
+          entityType:   sanction.entityType,
+          entityId:     sanction.entityId,
+          sanctionType: sanction.sanctionType,
+          severity:     sanction.severity,
+          decaysAt:     sanction.decaysAt,
+          sweepRunId,
+        }));
+      }, { timeout: 30000 });
+      return true;
+    } catch (err) {
+      if (isPrismaUniqueViolation(err)) return false;
+      throw err;
+    }
+  }
+
+  // ─── Internal: maker notification ──────────────────────────────────────────
+
+  /**
+   * Email the maker (tenant user or platform admin) that the request expired.
+   * Best-effort: failures are logged and counted, never thrown.
+   */
+  private async notifyMaker(approval: ApprovalExpiryCandidate): Promise<MakerNotificationStatus> {
+    try {
+      let email: string | null = null;
+      if (approval.requestedByUserId) {
+        const user = await this.db.user.findUnique({
+          where:  { id: approval.requestedByUserId },
+          select: { email: true },
+        });
+        email = user?.email ?? null;
+      } else if (approval.requestedByAdminId) {
+        const admin = await this.db.adminUser.findUnique({
+          where:  { id: approval.requestedByAdminId },
+          select: { email: true },
+        });
+        email = admin?.email ?? null;
+      }
+      if (!email) return 'NO_RECIPIENT';
+
+      await sendApprovalExpiredEmail(
+        email,
+        {
+          approvalId:   approval.approvalId,
+          entityType:   approval.entityType,
+          fromStateKey: approval.fromStateKey,
+          toStateKey:   approval.toStateKey,
+          expiredAt:    approval.expiresAt,
+        },
+        {
+          tenantId:    approval.orgId,
+          triggeredBy: 'system',
+          actorId:     approval.requestedByUserId ?? approval.requestedByAdminId,
+        },
+      );
+      return 'SENT';
+    } catch (err) {
+      console.warn('[gov-expiry] maker notification failed', {
+        approvalId: approval.approvalId,
+        orgId:      approval.orgId,
+        error:      err instanceof Error ? err.message : String(err),
+      });
+      return 'FAILED';
+    }
+  }
+}
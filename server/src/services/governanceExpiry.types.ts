@@ -0,0 +1,70 @@
+/**
+ * GOV-EXPIRY-SWEEP-001 — GovernanceExpiryService Types
+ *
+ * Public API contract for the governance expiry sweeper — types only, no DB imports.
+ * The sweeper records outcomes as append-only rows (approval_expiry_events,
+ * sanction_decay_events); pending_approvals and sanctions are never updated.
+ */
+
+// ─── Candidates ───────────────────────────────────────────────────────────────
+
+/** A REQUESTED / ESCALATED approval whose expires_at has passed and has no expiry event. */
+export type ApprovalExpiryCandidate = {
+  approvalId: string;
+  orgId: string;
+  entityType: string;
+  entityId: string;
+  fromStateKey: string;
+  toStateKey: string;
+  status: string;
+  expiresAt: Date;
+  requestedByActorType: string;
+  requestedByUserId: string | null;
+  requestedByAdminId: string | null;
+};
+
+/** An ACTIVE sanction whose decays_at has passed and has no decay event. */
+export type SanctionDecayCandidate = {
+  sanctionId: string;
+  orgId: string;
+  entityType: string | null;
+  entityId: string | null;
+  sanctionType: string;
+  severity: number;
+  decaysAt: Date;
+};
+
+// ─── Dry run ──────────────────────────────────────────────────────────────────
+
+/**
+ * What a sweep at `asOf` would change. Returned by planSweep() (admin dry-run report)
+ * and used by runSweep() as its work list.
+ */
+export type GovernanceSweepPlan = {
+  asOf: Date;
+  approvals: ApprovalExpiryCandidate[];
+  sanctions: SanctionDecayCandidate[];
+  /** True when more due rows exist than the batch limit; the next sweep continues. */
+  truncated: boolean;
+};
+
+// ─── Run ──────────────────────────────────────────────────────────────────────
+
+export type MakerNotificationStatus = 'SENT' | 'NO_RECIPIENT' | 'FAILED';
+
+export type GovernanceSweepResult = {
+  sweepRunId: string;
+  asOf: Date;
+  approvalsExpired: number;
+  sanctionsDecayed: number;
+  /** Rows already recorded by a concurrent or earlier sweep (unique violation). */
+  skipped: number;
+  notifications: Record<MakerNotificationStatus, number>;
+  truncated: boolean;
+};
+
+/** Payload of the 'governance.expiry.sweep' job. */
+export type GovernanceExpirySweepJobPayload = {
+  /** Schedule slot index (floor(epochMs / interval)); also the dedupe key suffix. */
+  slot: number;
+};
@@ -220,7 +220,7 @@ export class GstVerificationService {
       });
     }
 
-    // Emit GST submit / resubmit lifecycle event — awaited-safe, timeout-bounded.
+    // Emit GST submit / resubmit lifecycle event — written to the CRM outbox in this transaction.
     const gstCrmParams = {
       orgId,
       tenantId: orgId, // org_id === tenant_id in current schema
@@ -229,9 +229,9 @@ export class GstVerificationService {
       orgStatus: 'PENDING_VERIFICATION',
     };
     if (isResubmit) {
-      await notifyGstResubmitted(gstCrmParams).catch(() => undefined);
+      await notifyGstResubmitted(gstCrmParams, this.db);
     } else {
-      await notifyGstSubmitted(gstCrmParams).catch(() => undefined);
+      await notifyGstSubmitted(gstCrmParams, this.db);
     }
 
     // Provider check — if configured, runs inline and updates record with evidence.
@@ -244,7 +244,7 @@ export class GstVerificationService {
         data.state_code,
       );
 
-      // Emit provider check event if provider ran — awaited-safe, timeout-bounded.
+      // Emit provider check event if provider ran — written to the CRM outbox in this transaction.
       if (providerCheckResult) {
         await notifyProviderCheckCompleted({
           orgId,
@@ -253,7 +253,7 @@ export class GstVerificationService {
           providerName: providerCheckResult.provider_name,
           autoApproved: providerCheckResult.auto_approved,
           orgStatus: providerCheckResult.org_status,
-        }).catch(() => undefined);
+        }, this.db);
       }
 
       // Return the definitively updated record
@@ -341,12 +341,12 @@ export class GstVerificationService {
         where: { id: orgId, status: 'PENDING_VERIFICATION' },
         data: { status: 'VERIFICATION_APPROVED' },
       });
-      // Emit admin-approved lifecycle event — awaited-safe, timeout-bounded.
+      // Emit admin-approved lifecycle event — written to the CRM outbox in this transaction.
       await notifyAdminReviewedApproved({
         orgId,
         tenantId: orgId,
         reviewNotesCategory: null, // safe default; admin category UI is a future unit
-      }).catch(() => undefined);
+      }, this.db);
       // Feature-flagged Zoho Books contact sync — disabled by default.
       // Flag: ZOHO_POST_ACTIVATION_CONTACT_SYNC_ENABLED=true to enable.
       // Never throws; failure does not affect lifecycle transition.
@@ -356,23 +356,23 @@ export class GstVerificationService {
         where: { id: orgId, status: 'PENDING_VERIFICATION' },
         data: { status: 'VERIFICATION_REJECTED' },
       });
-      // Emit admin-rejected lifecycle event — awaited-safe, timeout-bounded.
+      // Emit admin-rejected lifecycle event — written to the CRM outbox in this transaction.
       await notifyAdminReviewedRejected({
         orgId,
         tenantId: orgId,
         rejectionReasonCategory: null, // safe default; admin category UI is a future unit
-      }).catch(() => undefined);
+      }, this.db);
     } else if (data.review_outcome === TTP_GST_REVIEW_OUTCOME.NEEDS_MORE_INFO) {
       await (this.db as any).organizations.updateMany({
         where: { id: orgId, status: 'PENDING_VERIFICATION' },
         data: { status: 'VERIFICATION_NEEDS_MORE_INFO' },
       });
-      // Emit admin-needs-more-info lifecycle event — awaited-safe, timeout-bounded.
+      // Emit admin-needs-more-info lifecycle event — written to the CRM outbox in this transaction.
       await notifyAdminReviewedNeedsMoreInfo({
         orgId,
         tenantId: orgId,
         reviewNotesCategory: null, // safe default; admin category UI is a future unit
-      }).catch(() => undefined);
+      }, this.db);
     }
 
     return this.toAdminRecord(updated);
@@ -503,7 +503,7 @@ export class GstVerificationService {
           where: { id: orgId, status: 'PENDING_VERIFICATION' },
           data: { status: 'VERIFICATION_APPROVED' },
         });
-        // Emit provider auto-approved lifecycle event — awaited-safe, timeout-bounded.
+        // Emit provider auto-approved lifecycle event — written to the CRM outbox in this transaction.
         // review_notes_category 'AUTO_APPROVED' is from controlled taxonomy §8.1 of
         // DECIDE-CRM-LIFECYCLE-SYNC-PAYLOAD-PRIVACY-AND-FIELD-CONTRACT-01.
         // Aligns with org.gst.admin_reviewed.approved.v1 parity contract (design doc line 393).
@@ -511,7 +511,7 @@ export class GstVerificationService {
           orgId,
           tenantId: orgId,
           reviewNotesCategory: 'AUTO_APPROVED',
-        }).catch(() => undefined);
+        }, this.db);
         // Feature-flagged Zoho Books contact sync — disabled by default.
         // Flag: ZOHO_POST_ACTIVATION_CONTACT_SYNC_ENABLED=true to enable.
         // Never throws; failure does not affect lifecycle transition.
@@ -5,10 +5,10 @@
  * postgres/BYPASSRLS role (control-plane writes). No SET LOCAL ROLE texqtic_app
  * — impersonation_sessions is a control-plane table protected by admin-only RLS.
  *
- * Revocation note: The stop() method marks endedAt in DB and emits an audit event.
- * The issued JWT's validity is bounded by exp (30 min TTL). Server-side revocation
- * check in tenantAuthMiddleware is out-of-scope for G-011 (middleware is outside
- * allowlist). Revocation is therefore exp-based + audit-documented.
+ * Revocation note: each session is registered in auth_sessions (SESSION-REGISTRY-001)
+ * and its id is carried in the token as `sid`. stop() marks endedAt and revokes the
+ * auth_sessions row in the same transaction, so tenantAuthMiddleware rejects the token
+ * on its next request. exp (30 min TTL) remains the upper bound.
  */
 
 import type { PrismaClient } from '@prisma/client';
@@ -19,6 +19,7 @@ import type {
 } from '../types/impersonation.types.js';
 import { writeAuditLog } from '../lib/auditLog.js';
 import { withAdminContext, withSuperAdminContext } from '../lib/database-context.js';
+import { SessionRegistryService } from './sessions/sessionRegistry.service.js';
 
 /** TTL in minutes for impersonation tokens */
 const IMPERSONATION_TTL_MINUTES = 30;
@@ -42,6 +43,7 @@ export class ImpersonationAbortError extends Error {
  *
  * Creates:
  *  - ImpersonationSession row (control-plane, postgres BYPASSRLS)
+ *  - auth_sessions row whose id the route embeds in the token as `sid`
  *  - IMPERSONATION_START audit log entry after the session row persists
  *
  * Returns StartImpersonationResult (JWT signing deferred to route — G-008 pattern).
@@ -97,8 +99,16 @@ export async function startImpersonation(
       select: { id: true, expiresAt: true },
     });
 
+    const sessionId = await new SessionRegistryService(tx).recordImpersonationSession({
+      impersonationId: session.id,
+      userId,
+      tenantId: orgId,
+      expiresAt: session.expiresAt,
+    });
+
     return {
       impersonationId: session.id,
+      sessionId,
       userId,
       orgId,
       membershipRole: membership.role,
@@ -138,7 +148,8 @@ export async function startImpersonation(
  *  - Session is not already ended
  *  - Session is not expired
  *
- * Sets endedAt = now (control-plane DB state update).
+ * Sets endedAt = now (control-plane DB state update) and revokes the auth_sessions row,
+ * which invalidates the issued token on its next request.
  * Writes IMPERSONATION_STOP audit log entry after the session row update succeeds.
  *
  * Note: stop reason is written only to the audit log —
@@ -198,6 +209,7 @@ export async function stopImpersonation(
       where: { id: impersonationId },
       data: { endedAt },
     });
+    await new SessionRegistryService(tx).revokeImpersonation(impersonationId, endedAt);
 
     return {
       impersonationId: session.id,
@@ -0,0 +1,454 @@
+/**
+ * CATALOG-INVENTORY-001 — Stock on hand, checkout reservations, availability.
+ *
+ * Stock lives in inventory_stock_lots: one row per (catalog item, location, batch).
+ * A lot's batch_id may match a TraceabilityNode.batchId in the same org; the node
+ * is linked at receive time so stock can be traced back to its supply-chain batch.
+ *
+ * Reservation lifecycle (one inventory_reservations row per order line × lot):
+ *   checkout          → ACTIVE    (reserved_qty += q)
+ *   order CANCELLED   → RELEASED  (reserved_qty -= q)
+ *   order FULFILLED   → CONSUMED  (on_hand_qty -= q, reserved_qty -= q)
+ *
+ * Only items with inventory_tracked = true take part; untracked items check out
+ * exactly as before. Lots are allocated FIFO (oldest lot first) and locked
+ * FOR UPDATE in lot id order so concurrent checkouts can neither oversell nor
+ * deadlock; settlement takes the same locks before it moves stock.
+ *
+ * Persistence helpers take the caller's transaction client so RLS context and
+ * audit writes stay inside the same withDbContext transaction as the route.
+ * Public projections only ever see deriveStockAvailability() — never quantities.
+ */
+
+import { Prisma } from '@prisma/client';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type StockAvailability = 'IN_STOCK' | 'LOW_STOCK' | 'OUT_OF_STOCK';
+
+export type InventoryReservationStatus = 'ACTIVE' | 'RELEASED' | 'CONSUMED';
+
+export type StockTotals = {
+  onHand: number;
+  reserved: number;
+  available: number;
+};
+
+export type ReservationLineInput = {
+  orderItemId: string;
+  catalogItemId: string | null;
+  quantity: number;
+};
+
+export type ReservationAllocation = {
+  orderItemId: string;
+  catalogItemId: string;
+  stockLotId: string;
+  quantity: number;
+};
+
+export type ReservationSettlement = {
+  reservationCount: number;
+  quantity: number;
+};
+
+type LockedLotRow = {
+  id: string;
+  on_hand_qty: number;
+  reserved_qty: number;
+};
+
+type LockedItemLotRow = LockedLotRow & {
+  catalog_item_id: string;
+  created_at: Date;
+};
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+/** Checkout asked for more of a tracked item than its lots can supply. */
+export class InsufficientStockError extends Error {
+  constructor(
+    public readonly catalogItemId: string,
+    public readonly requested: number,
+    public readonly available: number,
+  ) {
+    super(`Insufficient stock for catalog item ${catalogItemId}: requested ${requested}, available ${available}`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+/** A manual adjustment would take on-hand below zero or below the reserved quantity. */
+export class StockAdjustmentError extends Error {
+  constructor(
+    public readonly stockLotId: string,
+    public readonly onHand: number,
+    public readonly reserved: number,
+    public readonly delta: number,
+  ) {
+    super(`Adjustment ${delta} would leave lot ${stockLotId} below its reserved quantity (on hand ${onHand}, reserved ${reserved})`);
+    this.name = 'StockAdjustmentError';
+  }
+}
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * Public availability flag for a catalog item.
+ * Returns null for untracked items so projections can omit the signal entirely.
+ */
+export function deriveStockAvailability(
+  inventoryTracked: boolean,
+  available: number,
+  lowStockThreshold: number | null,
+): StockAvailability | null {
+  if (!inventoryTracked) return null;
+  if (available <= 0) return 'OUT_OF_STOCK';
+  if (lowStockThreshold != null && available <= lowStockThreshold) return 'LOW_STOCK';
+  return 'IN_STOCK';
+}
+
+/**
+ * FIFO allocation of `quantity` across locked lots. Returns null when the lots
+ * cannot cover the request. Mutates nothing.
+ */
+export function allocateFromLots(
+  lots: Array<{ id: string; available: number }>,
+  quantity: number,
+): Array<{ stockLotId: string; quantity: number }> | null {
+  const allocations: Array<{ stockLotId: string; quantity: number }> = [];
+  let remaining = quantity;
+  for (const lot of lots) {
+    if (remaining === 0) break;
+    const take = Math.min(lot.available, remaining);
+    if (take <= 0) continue;
+    allocations.push({ stockLotId: lot.id, quantity: take });
+    remaining -= take;
+  }
+  return remaining === 0 ? allocations : null;
+}
+
+// ─── Reads ────────────────────────────────────────────────────────────────────
+
+/**
+ * Sum stock per catalog item across lots at active locations.
+ * Items with no lots are absent from the map (callers treat them as 0 available).
+ */
+export async function loadStockTotals(
+  tx: Prisma.TransactionClient,
+  catalogItemIds: string[],
+): Promise<Map<string, StockTotals>> {
+  const totals = new Map<string, StockTotals>();
+  if (catalogItemIds.length === 0) return totals;
+
+  const rows = await tx.inventoryStockLot.groupBy({
+    by: ['catalogItemId'],
+    where: {
+      catalogItemId: { in: catalogItemIds },
+      location: { active: true },
+    },
+    _sum: { onHandQty: true, reservedQty: true },
+  });
+
+  for (const row of rows) {
+    const onHand = row._sum.onHandQty ?? 0;
+    const reserved = row._sum.reservedQty ?? 0;
+    totals.set(row.catalogItemId, { onHand, reserved, available: onHand - reserved });
+  }
+  return totals;
+}
+
+/**
+ * Availability flag per catalog item for the public projections.
+ * Skips the stock query entirely when none of the rows are tracked.
+ */
+export async function loadCatalogAvailability(
+  tx: Prisma.TransactionClient,
+  items: Array<{ id: string; inventoryTracked?: boolean | null; lowStockThreshold?: number | null }>,
+): Promise<Map<string, StockAvailability | null>> {
+  const availability = new Map<string, StockAvailability | null>();
+  const trackedIds = items.filter(item => item.inventoryTracked).map(item => item.id);
+  const totals = trackedIds.length > 0 ? await loadStockTotals(tx, trackedIds) : new Map<string, StockTotals>();
+
+  for (const item of items) {
+    availability.set(
+      item.id,
+      deriveStockAvailability(
+        Boolean(item.inventoryTracked),
+        totals.get(item.id)?.available ?? 0,
+        item.lowStockThreshold ?? null,
+      ),
+    );
+  }
+  return availability;
+}
+
+/**
+ * Resolve the TraceabilityNode that carries `batchId` for this org, if any.
+ * traceability_nodes is UNIQUE (org_id, batch_id), so at most one matches.
+ */
+export async function resolveTraceabilityNodeId(
+  tx: Prisma.TransactionClient,
+  orgId: string,
+  batchId: string | null,
+): Promise<string | null> {
+  if (!batchId) return null;
+  const node = await tx.traceabilityNode.findFirst({
+    where: { orgId, batchId },
+    select: { id: true },
+  });
+  return node?.id ?? null;
+}
+
+// ─── Stock movements ──────────────────────────────────────────────────────────
+
+export type ReceiveStockInput = {
+  tenantId: string;
+  catalogItemId: string;
+  locationId: string;
+  batchId: string | null;
+  quantity: number;
+};
+
+/**
+ * Add received stock to the (item, location, batch) lot, creating it on first receipt.
+ * (Re)links the lot to the batch's TraceabilityNode when one exists.
+ */
+export async function receiveStock(
+  tx: Prisma.TransactionClient,
+  input: ReceiveStockInput,
+) {
+  const traceabilityNodeId = await resolveTraceabilityNodeId(tx, input.tenantId, input.batchId);
+
+  const existing = await tx.inventoryStockLot.findFirst({
+    where: {
+      catalogItemId: input.catalogItemId,
+      locationId: input.locationId,
+      batchId: input.batchId,
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    return tx.inventoryStockLot.update({
+      where: { id: existing.id },
+      data: {
+        onHandQty: { increment: input.quantity },
+        ...(traceabilityNodeId ? { traceabilityNodeId } : {}),
+      },
+    });
+  }
+
+  return tx.inventoryStockLot.create({
+    data: {
+      tenantId: input.tenantId,
+      catalogItemId: input.catalogItemId,
+      locationId: input.locationId,
+      batchId: input.batchId,
+      traceabilityNodeId,
+      onHandQty: input.quantity,
+    },
+  });
+}
+
+/**
+ * Apply a signed manual correction (count, damage, write-off) to one lot.
+ * @throws StockAdjustmentError when on-hand would drop below the reserved quantity.
+ */
+export async function adjustStockLot(
+  tx: Prisma.TransactionClient,
+  stockLotId: string,
+  delta: number,
+) {
+  const [lot] = await tx.$queryRaw<LockedLotRow[]>(Prisma.sql`
+    SELECT id, on_hand_qty, reserved_qty
+    FROM inventory_stock_lots
+    WHERE id = ${stockLotId}::uuid
+    FOR UPDATE
+  `);
+  if (!lot) return null;
+
+  if (lot.on_hand_qty + delta < lot.reserved_qty) {
+    throw new StockAdjustmentError(stockLotId, lot.on_hand_qty, lot.reserved_qty, delta);
+  }
+
+  return tx.inventoryStockLot.update({
+    where: { id: stockLotId },
+    data: { onHandQty: { increment: delta } },
+  });
+}
+
+// ─── Lot locking ──────────────────────────────────────────────────────────────
+// Every multi-lot lock takes rows in lot id order so checkout and settlement
+// cannot deadlock against each other.
+
+async function lockActiveLotsForItems(
+  tx: Prisma.TransactionClient,
+  catalogItemIds: string[],
+): Promise<LockedItemLotRow[]> {
+  return tx.$queryRaw<LockedItemLotRow[]>(Prisma.sql`
+    SELECT l.id, l.catalog_item_id, l.created_at, l.on_hand_qty, l.reserved_qty
+    FROM inventory_stock_lots l
+    JOIN inventory_locations loc ON loc.id = l.location_id
+    WHERE l.catalog_item_id = ANY(${catalogItemIds}::uuid[])
+      AND loc.active = true
+    ORDER BY l.id ASC
+    FOR UPDATE OF l
+  `);
+}
+
+async function lockLotsById(tx: Prisma.TransactionClient, stockLotIds: string[]): Promise<void> {
+  await tx.$queryRaw<Array<{ id: string }>>(Prisma.sql`
+    SELECT id
+    FROM inventory_stock_lots
+    WHERE id = ANY(${stockLotIds}::uuid[])
+    ORDER BY id ASC
+    FOR UPDATE
+  `);
+}
+
+/** FIFO allocation order: oldest lot first, lot id as tie-break. */
+function sortLotsFifo(rows: LockedItemLotRow[]): LockedItemLotRow[] {
+  return [...rows].sort((a, b) =>
+    a.created_at.getTime() - b.created_at.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+  );
+}
+
+// ─── Reservations ─────────────────────────────────────────────────────────────
+
+/**
+ * Reserve stock for every tracked line of a new order. Call inside the checkout
+ * transaction after the order and its items are created.
+ *
+ * @throws InsufficientStockError — the caller must let the transaction roll back.
+ */
+export async function reserveStockForOrder(
+  tx: Prisma.TransactionClient,
+  params: { tenantId: string; orderId: string; lines: ReservationLineInput[] },
+): Promise<ReservationAllocation[]> {
+  const candidateIds = [
+    ...new Set(params.lines.map(line => line.catalogItemId).filter((id): id is string => id != null)),
+  ];
+  if (candidateIds.length === 0) return [];
+
+  const trackedRows = await tx.catalogItem.findMany({
+    where: { id: { in: candidateIds }, inventoryTracked: true },
+    select: { id: true },
+  });
+  const trackedIds = new Set(trackedRows.map(row => row.id));
+  if (trackedIds.size === 0) return [];
+
+  // Lock every tracked item's lots once, in one statement ordered by lot id, so
+  // concurrent checkouts over the same items always lock in the same order.
+  // Several lines may draw on the same item.
+  const locked = await lockActiveLotsForItems(tx, [...trackedIds]);
+  const lotsByItem = new Map<string, Array<{ id: string; available: number }>>();
+  for (const row of sortLotsFifo(locked)) {
+    const lots = lotsByItem.get(row.catalog_item_id) ?? [];
+    lots.push({ id: row.id, available: row.on_hand_qty - row.reserved_qty });
+    lotsByItem.set(row.catalog_item_id, lots);
+  }
+
+  const allocations: ReservationAllocation[] = [];
+  for (const line of params.lines) {
+    if (!line.catalogItemId || !trackedIds.has(line.catalogItemId)) continue;
+
+    const lots = lotsByItem.get(line.catalogItemId) ?? [];
+    const picked = allocateFromLots(lots, line.quantity);
+    if (!picked) {
+      const available = lots.reduce((sum, lot) => sum + Math.max(lot.available, 0), 0);
+      throw new InsufficientStockError(line.catalogItemId, line.quantity, available);
+    }
+
+    for (const pick of picked) {
+      const lot = lots.find(candidate => candidate.id === pick.stockLotId);
+      if (lot) lot.available -= pick.quantity;
+      allocations.push({
+        orderItemId: line.orderItemId,
+        catalogItemId: line.catalogItemId,
+        stockLotId: pick.stockLotId,
+        quantity: pick.quantity,
+      });
+    }
+  }
+
+  for (const allocation of allocations) {
+    await tx.inventoryStockLot.update({
+      where: { id: allocation.stockLotId },
+      data: { reservedQty: { increment: allocation.quantity } },
+    });
+    await tx.inventoryReservation.create({
+      data: {
+        tenantId: params.tenantId,
+        orderId: params.orderId,
+        orderItemId: allocation.orderItemId,
+        catalogItemId: allocation.catalogItemId,
+        stockLotId: allocation.stockLotId,
+        quantity: allocation.quantity,
+      },
+    });
+  }
+
+  return allocations;
+}
+
+/**
+ * Return an order's ACTIVE reservations to available stock (order CANCELLED).
+ * Idempotent: an order with no ACTIVE reservations is a no-op.
+ */
+export async function releaseOrderReservations(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  now: Date = new Date(),
+): Promise<ReservationSettlement> {
+  return settleOrderReservations(tx, orderId, 'RELEASED', now);
+}
+
+/**
+ * Ship an order's ACTIVE reservations out of on-hand stock (order FULFILLED).
+ * Idempotent: an order with no ACTIVE reservations is a no-op.
+ */
+export async function consumeOrderReservations(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  now: Date = new Date(),
+): Promise<ReservationSettlement> {
+  return settleOrderReservations(tx, orderId, 'CONSUMED', now);
+}
+
+async function settleOrderReservations(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  outcome: Exclude<InventoryReservationStatus, 'ACTIVE'>,
+  now: Date,
+): Promise<ReservationSettlement> {
+  const reservations = await tx.inventoryReservation.findMany({
+    where: { orderId, status: 'ACTIVE' },
+    select: { id: true, stockLotId: true, quantity: true },
+  });
+
+  // Same lock order as reserveStockForOrder: lot rows by id, before any write.
+  const lotIds = [...new Set(reservations.map(reservation => reservation.stockLotId))];
+  if (lotIds.length > 0) await lockLotsById(tx, lotIds);
+
+  let quantity = 0;
+  for (const reservation of reservations) {
+    await tx.inventoryStockLot.update({
+      where: { id: reservation.stockLotId },
+      data: outcome === 'CONSUMED'
+        ? {
+            onHandQty: { decrement: reservation.quantity },
+            reservedQty: { decrement: reservation.quantity },
+          }
+        : { reservedQty: { decrement: reservation.quantity } },
+    });
+    await tx.inventoryReservation.update({
+      where: { id: reservation.id },
+      data: outcome === 'CONSUMED'
+        ? { status: 'CONSUMED', consumedAt: now }
+        : { status: 'RELEASED', releasedAt: now },
+    });
+    quantity += reservation.quantity;
+  }
+
+  return { reservationCount: reservations.length, quantity };
+}
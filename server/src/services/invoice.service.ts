@@ -12,6 +12,10 @@
  *
  * D-017-A: org_id is ALWAYS from JWT/dbContext — never from caller body.
  * D-020-C: ai_triggered=true requires reason starting with 'HUMAN_CONFIRMED:'.
+ *
+ * FX-RATES-001: with an FxRateService injected, createInvoice snapshots the rate into
+ * the reporting currency as of invoice_date, and the INR maker-checker threshold is
+ * compared against the converted amount (fail-closed: no rate → maker-checker required).
  */
 
 import { randomUUID } from 'crypto';
@@ -22,6 +26,7 @@ import {
   TTP_FEATURE_FLAG,
   TTP_ENTITY_TYPE,
 } from '../ttp/ttp.constants.js';
+import { type FxRateService, FxRateUnavailableError, invoiceFxSnapshot } from './fx/fxRate.service.js';
 
 // ─── Error Classes ──────────────────────────────────────────────────────────────
 
@@ -110,6 +115,13 @@ export interface CreateInvoiceInput {
   notes?: string | null;
 }
 
+export interface InvoiceFxSnapshotRecord {
+  reporting_currency: string;
+  rate: string;
+  fx_rate_id: string | null;
+  effective_date: string | null;
+}
+
 /** Seller-visible invoice record. No credit/risk/admin internals. */
 export interface TenantInvoiceRecord {
   id: string;
@@ -125,6 +137,8 @@ export interface TenantInvoiceRecord {
   document_url: string | null;
   notes: string | null;
   created_by_user_id: string | null;
+  /** Rate snapshot into the reporting currency taken at creation (FX-RATES-001). */
+  fx_snapshot: InvoiceFxSnapshotRecord | null;
   created_at: string;
   updated_at: string;
 }
@@ -163,6 +177,8 @@ export interface AdminInvoiceRecord {
   document_url: string | null;
   notes: string | null;
   created_by_user_id: string | null;
+  /** Rate snapshot into the reporting currency taken at creation (FX-RATES-001). */
+  fx_snapshot: InvoiceFxSnapshotRecord | null;
   created_at: string;
   updated_at: string;
 }
@@ -213,7 +229,15 @@ const DEFAULT_MC_THRESHOLD_INR = 500_000;
 // ─── Service ────────────────────────────────────────────────────────────────────
 
 export class InvoiceService {
-  constructor(private readonly db: PrismaClient) {}
+  /**
+   * @param db  PrismaClient (or tx-bound from withDbContext)
+   * @param fx  Optional FxRateService — rate snapshots + INR threshold conversion.
+   *            Without it amounts are compared as-is (pre-FX behaviour).
+   */
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly fx?: FxRateService | null,
+  ) {}
 
   // ── Private helpers ─────────────────────────────────────────────────────────
 
@@ -252,6 +276,40 @@ export class InvoiceService {
     }
   }
 
+  /**
+   * Invoice gross_amount in INR for threshold checks. Reuses the creation snapshot when
+   * it is INR-denominated. Returns null when the invoice is in another currency and no
+   * rate is available — callers treat that as "over threshold".
+   */
+  private async grossAmountInInr(inv: Record<string, unknown>): Promise<number | null> {
+    const grossAmount = parseFloat(String(inv['gross_amount']));
+    if (!this.fx || String(inv['currency']).toUpperCase() === 'INR') return grossAmount;
+    try {
+      const conversion = await this.fx.convertWithSnapshot(
+        String(inv['gross_amount']),
+        String(inv['currency']),
+        invoiceFxSnapshot(inv as Parameters<typeof invoiceFxSnapshot>[0]),
+        'INR',
+        inv['invoice_date'] as Date,
+      );
+      return parseFloat(conversion.convertedAmount);
+    } catch (err) {
+      if (err instanceof FxRateUnavailableError) return null;
+      throw err;
+    }
+  }
+
+  private toFxSnapshotRecord(inv: Record<string, unknown>): InvoiceFxSnapshotRecord | null {
+    const snapshot = invoiceFxSnapshot(inv as Parameters<typeof invoiceFxSnapshot>[0]);
+    if (!snapshot) return null;
+    return {
+      reporting_currency: snapshot.reportingCurrency,
+      rate: snapshot.rate.toString(),
+      fx_rate_id: snapshot.fxRateId,
+      effective_date: snapshot.effectiveDate ? snapshot.effectiveDate.toISOString().slice(0, 10) : null,
+    };
+  }
+
   private toTenantRecord(inv: Record<string, unknown>, stateKey: string): TenantInvoiceRecord {
     return {
       id: String(inv['id']),
@@ -269,6 +327,7 @@ export class InvoiceService {
       created_by_user_id: inv['created_by_user_id']
         ? String(inv['created_by_user_id'])
         : null,
+      fx_snapshot: this.toFxSnapshotRecord(inv),
       created_at: (inv['created_at'] as Date).toISOString(),
       updated_at: (inv['updated_at'] as Date).toISOString(),
     };
@@ -307,6 +366,7 @@ export class InvoiceService {
       created_by_user_id: inv['created_by_user_id']
         ? String(inv['created_by_user_id'])
         : null,
+      fx_snapshot: this.toFxSnapshotRecord(inv),
       created_at: (inv['created_at'] as Date).toISOString(),
       updated_at: (inv['updated_at'] as Date).toISOString(),
     };
@@ -377,7 +437,12 @@ export class InvoiceService {
     // 4. Resolve DRAFT lifecycle state id
     const draftStateId = await this.resolveLifecycleStateId(TTP_INVOICE_STATE.DRAFT);
 
-    // 5. Create invoice
+    // 5. FX snapshot into the reporting currency as of invoice_date (null when no rate)
+    const fxSnapshot = this.fx
+      ? await this.fx.snapshot(data.currency, new Date(data.invoice_date))
+      : null;
+
+    // 6. Create invoice
     const inv = await (this.db as any).invoices.create({
       data: {
         id: randomUUID(),
@@ -395,10 +460,18 @@ export class InvoiceService {
         created_by_user_id: userId ?? null,
         created_at: new Date(),
         updated_at: new Date(),
+        ...(fxSnapshot
+          ? {
+              fx_reporting_currency: fxSnapshot.reportingCurrency,
+              fx_rate: fxSnapshot.rate,
+              fx_rate_id: fxSnapshot.fxRateId,
+              fx_rate_effective_date: fxSnapshot.effectiveDate,
+            }
+          : {}),
       },
     });
 
-    // 6. Write creation log
+    // 7. Write creation log
     await this.writeLifecycleLog({
       orgId,
       invoiceId: inv.id,
@@ -689,8 +762,8 @@ export class InvoiceService {
     // 4. Maker-checker gate for UNDER_REVIEW → VERIFIED (OQ-TTP-003)
     if (to_state_key === TTP_INVOICE_STATE.VERIFIED) {
       const threshold = await this.resolveMcThresholdInr();
-      const grossAmount = parseFloat(String(inv['gross_amount']));
-      if (grossAmount >= threshold) {
+      const grossAmount = await this.grossAmountInInr(inv);
+      if (grossAmount === null || grossAmount >= threshold) {
         if (!maker_user_id || !checker_user_id) {
           throw new InvoiceMakerCheckerRequiredError();
         }
@@ -0,0 +1,398 @@
+/**
+ * Background Job Queue — Service
+ * Task ID: OPS-BACKGROUND-JOB-QUEUE-001
+ *
+ * Durable, multi-instance job queue on public.background_jobs.
+ *
+ * Guarantees:
+ *   - Jobs survive restarts (rows, not memory).
+ *   - A job is executed by one worker at a time: claims use FOR UPDATE SKIP LOCKED
+ *     and record a lease (locked_by / locked_until). Every state transition after
+ *     the claim is guarded by locked_by, so a worker whose lease was reclaimed
+ *     cannot overwrite the new owner's result.
+ *   - Claims for one job type are serialised with a transaction-scoped advisory
+ *     lock, which makes the per-org concurrency limit exact across instances.
+ *   - Crashed workers: expired leases are reclaimed; attempts count every claim,
+ *     so a job that keeps crashing its worker is dead-lettered at maxAttempts.
+ *
+ * Tenant safety:
+ *   - enqueueJob() may run inside a tenant withDbContext transaction (RLS allows
+ *     INSERT / SELECT of the caller's own org rows), making enqueue atomic with
+ *     the mutation that caused it.
+ *   - Claim / complete / fail / requeue run on the service connection and never
+ *     read tenant tables; tenant work happens in the handler under withDbContext
+ *     (see jobQueue.worker.ts).
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type {
+  BackgroundJobRecord,
+  BackoffPolicy,
+  ClaimJobsOptions,
+  EnqueueJobInput,
+} from './jobQueue.types.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const DEFAULT_MAX_ATTEMPTS = 5 as const;
+export const DEFAULT_LEASE_MS = 60_000 as const;
+export const DEFAULT_PER_ORG_CONCURRENCY = 2 as const;
+export const DEFAULT_BACKOFF: Readonly<BackoffPolicy> = { baseMs: 5_000, maxMs: 15 * 60_000 };
+
+/** Candidate rows scanned per claim, as a multiple of the claim limit (rows skipped by the per-org limit). */
+const CANDIDATE_OVERSCAN = 4 as const;
+
+/** background_jobs.last_error column width. */
+const LAST_ERROR_MAX_LENGTH = 2_000 as const;
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class BackgroundJobInvalidError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackgroundJobInvalidError';
+  }
+}
+
+export class BackgroundJobNotFoundError extends Error {
+  constructor(jobId: string) {
+    super(`Background job not found: ${jobId}`);
+    this.name = 'BackgroundJobNotFoundError';
+  }
+}
+
+export class BackgroundJobNotDeadLetteredError extends Error {
+  constructor(jobId: string, status: string) {
+    super(`Background job ${jobId} is ${status}; only DEAD_LETTER jobs can be requeued`);
+    this.name = 'BackgroundJobNotDeadLetteredError';
+  }
+}
+
+/**
+ * Thrown by handlers for failures that retrying cannot fix (malformed payload,
+ * missing source entity). The job is dead-lettered immediately.
+ */
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonRetryableJobError';
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Exponential backoff: baseMs × 2^(attempt − 1), capped at maxMs.
+ * `attempt` is the 1-based number of the attempt that just failed.
+ */
+export function computeBackoffMs(attempt: number, policy: BackoffPolicy = DEFAULT_BACKOFF): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(policy.maxMs, policy.baseMs * 2 ** exponent);
+}
+
+function truncateError(error: unknown): string {
+  const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  return message.length > LAST_ERROR_MAX_LENGTH ? message.slice(0, LAST_ERROR_MAX_LENGTH) : message;
+}
+
+function isUniqueViolation(err: unknown): boolean {
+  return typeof err === 'object' && err !== null && (err as { code?: unknown }).code === 'P2002';
+}
+
+// ─── enqueueJob ───────────────────────────────────────────────────────────────
+
+/**
+ * Persist a job. Returns the created row, or — when `dedupeKey` matches an active
+ * (PENDING / RUNNING) job of the same type — the existing row.
+ *
+ * @param db PrismaClient or a withDbContext transaction client (tenant jobs only).
+ */
+export async function enqueueJob<P>(
+  db: Prisma.TransactionClient,
+  input: EnqueueJobInput<P>,
+): Promise<BackgroundJobRecord> {
+  if (!input.jobType || input.jobType.length > 100) {
+    throw new BackgroundJobInvalidError('jobType must be 1-100 characters');
+  }
+  const maxAttempts = input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new BackgroundJobInvalidError('maxAttempts must be a positive integer');
+  }
+  const dedupeKey = input.dedupeKey ?? null;
+
+  const findActiveDuplicate = async (): Promise<BackgroundJobRecord | null> =>
+    (await db.backgroundJob.findFirst({
+      where: { jobType: input.jobType, dedupeKey, status: { in: ['PENDING', 'RUNNING'] } },
+    })) as BackgroundJobRecord | null;
+
+  if (dedupeKey !== null) {
+    const existing = await findActiveDuplicate();
+    if (existing) return existing;
+  }
+
+  try {
+    return (await db.backgroundJob.create({
+      data: {
+        jobType:   input.jobType,
+        orgId:     input.orgId,
+        payload:   (input.payload ?? {}) as Prisma.InputJsonValue,
+        maxAttempts,
+        dedupeKey,
+        ...(input.runAt ? { runAt: input.runAt } : {}),
+      },
+    })) as BackgroundJobRecord;
+  } catch (err) {
+    // Concurrent enqueue won the background_jobs_active_dedupe_key race.
+    if (dedupeKey !== null && isUniqueViolation(err)) {
+      const existing = await findActiveDuplicate();
+      if (existing) return existing;
+    }
+    throw err;
+  }
+}
+
+// ─── claimJobs ────────────────────────────────────────────────────────────────
+
+interface DbNowRow {
+  now: Date;
+}
+
+interface ClaimCandidateRow {
+  id: string;
+  orgId: string | null;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+}
+
+/**
+ * Claim up to `limit` due jobs of one type for `workerId`.
+ *
+ * Due = PENDING with run_at ≤ now, or RUNNING with an expired lease.
+ * - Expired leases already at maxAttempts are dead-lettered instead of claimed.
+ * - Orgs already running `perOrgConcurrency` jobs of this type are skipped.
+ * - Claimed rows become RUNNING with attempts + 1 and a fresh lease.
+ *
+ * @param db Root PrismaClient (service connection) — never a tenant transaction.
+ */
+export async function claimJobs(
+  db: PrismaClient,
+  opts: ClaimJobsOptions,
+): Promise<BackgroundJobRecord[]> {
+  return db.$transaction(async tx => {
+    // Serialise claims per job type so per-org running counts cannot race.
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`background_jobs:${opts.jobType}`}))`;
+
+    // DB clock for every lease comparison — instances may disagree on wall time.
+    const [{ now }] = await tx.$queryRaw<DbNowRow[]>`SELECT now() AS now`;
+
+    const candidates = await tx.$queryRaw<ClaimCandidateRow[]>`
+      SELECT id, org_id AS "orgId", status, attempts, max_attempts AS "maxAttempts"
+      FROM public.background_jobs
+      WHERE job_type = ${opts.jobType}
+        AND (
+          (status = 'PENDING' AND run_at <= ${now})
+          OR (status = 'RUNNING' AND locked_until <= ${now})
+        )
+      ORDER BY run_at, created_at
+      LIMIT ${opts.limit * CANDIDATE_OVERSCAN}
+      FOR UPDATE SKIP LOCKED
+    `;
+
+    if (candidates.length === 0) return [];
+
+    const runningGroups = await tx.backgroundJob.groupBy({
+      by: ['orgId'],
+      where: {
+        jobType:     opts.jobType,
+        status:      'RUNNING',
+        lockedUntil: { gt: now },
+        orgId:       { not: null },
+      },
+      _count: { _all: true },
+    });
+
+    const runningByOrg = new Map<string, number>();
+    for (const group of runningGroups) {
+      if (group.orgId) runningByOrg.set(group.orgId, group._count._all);
+    }
+
+    const exhaustedIds: string[] = [];
+    const claimIds: string[] = [];
+    for (const row of candidates) {
+      if (row.status === 'RUNNING' && row.attempts >= row.maxAttempts) {
+        exhaustedIds.push(row.id);
+        continue;
+      }
+      if (claimIds.length >= opts.limit) continue;
+      if (row.orgId !== null) {
+        const running = runningByOrg.get(row.orgId) ?? 0;
+        if (running >= opts.perOrgConcurrency) continue;
+        runningByOrg.set(row.orgId, running + 1);
+      }
+      claimIds.push(row.id);
+    }
+
+    if (exhaustedIds.length > 0) {
+      await tx.backgroundJob.updateMany({
+        where: { id: { in: exhaustedIds } },
+        data: {
+          status:         'DEAD_LETTER',
+          deadLetteredAt: now,
+          lockedBy:       null,
+          lockedUntil:    null,
+          lastError:      'Lease expired on final attempt (worker crashed or timed out)',
+        },
+      });
+      console.error('[JOBQ][dead_lettered_lease_expired]', {
+        jobType: opts.jobType,
+        jobIds:  exhaustedIds,
+      });
+    }
+
+    if (claimIds.length === 0) return [];
+
+    await tx.backgroundJob.updateMany({
+      where: { id: { in: claimIds } },
+      data: {
+        status:      'RUNNING',
+        lockedBy:    opts.workerId,
+        lockedUntil: new Date(now.getTime() + opts.leaseMs),
+        attempts:    { increment: 1 },
+      },
+    });
+
+    return (await tx.backgroundJob.findMany({
+      where:   { id: { in: claimIds } },
+      orderBy: [{ runAt: 'asc' }, { createdAt: 'asc' }],
+    })) as BackgroundJobRecord[];
+  }, { timeout: 30000 });
+}
+
+// ─── Lease-guarded transitions ────────────────────────────────────────────────
+
+/**
+ * Extend the lease of a RUNNING job still owned by `workerId`.
+ * @returns false when the lease was lost (job reclaimed or finished elsewhere).
+ */
+export async function extendJobLease(
+  db: PrismaClient,
+  jobId: string,
+  workerId: string,
+  leaseMs: number,
+): Promise<boolean> {
+  const result = await db.backgroundJob.updateMany({
+    where: { id: jobId, status: 'RUNNING', lockedBy: workerId },
+    data:  { lockedUntil: new Date(Date.now() + leaseMs) },
+  });
+  return result.count === 1;
+}
+
+/**
+ * Mark a RUNNING job as SUCCEEDED.
+ * @returns false when the lease was lost before completion.
+ */
+export async function completeJob(
+  db: PrismaClient,
+  jobId: string,
+  workerId: string,
+  opts: { clearPayload?: boolean } = {},
+): Promise<boolean> {
+  const result = await db.backgroundJob.updateMany({
+    where: { id: jobId, status: 'RUNNING', lockedBy: workerId },
+    data: {
+      status:      'SUCCEEDED',
+      completedAt: new Date(),
+      lockedBy:    null,
+      lockedUntil: null,
+      ...(opts.clearPayload ? { payload: {} } : {}),
+    },
+  });
+  return result.count === 1;
+}
+
+export type FailJobOutcome = 'RETRY_SCHEDULED' | 'DEAD_LETTERED' | 'LEASE_LOST';
+
+/**
+ * Record a failed attempt. Schedules a retry with backoff, or dead-letters the job
+ * when attempts are exhausted or the failure is not retryable.
+ */
+export async function failJob(
+  db: PrismaClient,
+  job: Pick<BackgroundJobRecord, 'id' | 'attempts' | 'maxAttempts'>,
+  workerId: string,
+  error: unknown,
+  opts: { backoff?: BackoffPolicy; retryable?: boolean } = {},
+): Promise<FailJobOutcome> {
+  const lastError = truncateError(error);
+  const exhausted = opts.retryable === false || job.attempts >= job.maxAttempts;
+  const now = new Date();
+
+  const data: Prisma.BackgroundJobUpdateManyMutationInput = exhausted
+    ? {
+        status:         'DEAD_LETTER',
+        deadLetteredAt: now,
+        lockedBy:       null,
+        lockedUntil:    null,
+        lastError,
+      }
+    : {
+        status:      'PENDING',
+        runAt:       new Date(now.getTime() + computeBackoffMs(job.attempts, opts.backoff)),
+        lockedBy:    null,
+        lockedUntil: null,
+        lastError,
+      };
+
+  const result = await db.backgroundJob.updateMany({
+    where: { id: job.id, status: 'RUNNING', lockedBy: workerId },
+    data,
+  });
+  if (result.count !== 1) return 'LEASE_LOST';
+  return exhausted ? 'DEAD_LETTERED' : 'RETRY_SCHEDULED';
+}
+
+// ─── Dead-letter operations ───────────────────────────────────────────────────
+
+/** List dead-lettered jobs, most recent first. */
+export async function listDeadLetterJobs(
+  db: PrismaClient,
+  opts: { jobType?: string; limit?: number } = {},
+): Promise<BackgroundJobRecord[]> {
+  return (await db.backgroundJob.findMany({
+    where: {
+      status: 'DEAD_LETTER',
+      ...(opts.jobType ? { jobType: opts.jobType } : {}),
+    },
+    orderBy: { deadLetteredAt: 'desc' },
+    take:    Math.min(opts.limit ?? 100, 500),
+  })) as BackgroundJobRecord[];
+}
+
+/**
+ * Move a DEAD_LETTER job back to PENDING with a fresh attempt budget.
+ * last_error is kept for history until the next failure overwrites it.
+ */
+export async function requeueDeadLetterJob(
+  db: PrismaClient,
+  jobId: string,
+): Promise<BackgroundJobRecord> {
+  const job = (await db.backgroundJob.findUnique({ where: { id: jobId } })) as
+    | BackgroundJobRecord
+    | null;
+  if (!job) throw new BackgroundJobNotFoundError(jobId);
+  if (job.status !== 'DEAD_LETTER') throw new BackgroundJobNotDeadLetteredError(jobId, job.status);
+
+  const result = await db.backgroundJob.updateMany({
+    where: { id: jobId, status: 'DEAD_LETTER' },
+    data: {
+      status:         'PENDING',
+      attempts:       0,
+      runAt:          new Date(),
+      deadLetteredAt: null,
+    },
+  });
+  if (result.count !== 1) throw new BackgroundJobNotDeadLetteredError(jobId, 'no longer DEAD_LETTER');
+
+  return (await db.backgroundJob.findUnique({ where: { id: jobId } })) as BackgroundJobRecord;
+}
@@ -0,0 +1,163 @@
+/**
+ * Background Job Queue — Types
+ * Task ID: OPS-BACKGROUND-JOB-QUEUE-001
+ *
+ * Public contract for the durable, Postgres-backed job queue (background_jobs).
+ * Types only — no DB imports.
+ *
+ * Lifecycle:
+ *   PENDING ──claim──▶ RUNNING ──success──▶ SUCCEEDED
+ *                         │
+ *                         ├──failure (attempts < maxAttempts)──▶ PENDING (runAt += backoff)
+ *                         ├──failure (attempts ≥ maxAttempts)──▶ DEAD_LETTER
+ *                         └──lease expired──▶ reclaimable by any worker instance
+ *   DEAD_LETTER ──requeueDeadLetterJob──▶ PENDING
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+// ─── Status ───────────────────────────────────────────────────────────────────
+
+/** Legal background_jobs.status values (enforced by SQL check constraint). */
+export type BackgroundJobStatus = 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'DEAD_LETTER';
+
+// ─── Records ──────────────────────────────────────────────────────────────────
+
+/** One background_jobs row as returned by Prisma. */
+export interface BackgroundJobRecord {
+  id: string;
+  jobType: string;
+  /** Tenant org for tenant-scoped jobs; null for system jobs. */
+  orgId: string | null;
+  payload: unknown;
+  status: BackgroundJobStatus;
+  /** Number of claims so far (including the current one while RUNNING). */
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  lastError: string | null;
+  dedupeKey: string | null;
+  completedAt: Date | null;
+  deadLetteredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ─── Enqueue ──────────────────────────────────────────────────────────────────
+
+export interface EnqueueJobInput<P = unknown> {
+  /** Registered job type, e.g. 'vector.index'. */
+  jobType: string;
+  /**
+   * Tenant org the job runs for. MUST come from req.dbContext.orgId (never request body).
+   * null for system jobs.
+   */
+  orgId: string | null;
+  /** JSON-serialisable payload. */
+  payload: P;
+  /** Earliest execution time. Defaults to now. */
+  runAt?: Date;
+  /** Defaults to DEFAULT_MAX_ATTEMPTS. */
+  maxAttempts?: number;
+  /**
+   * When set, at most one PENDING / RUNNING job exists per (jobType, dedupeKey);
+   * enqueueing a duplicate returns the existing job.
+   */
+  dedupeKey?: string | null;
+}
+
+// ─── Handlers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Execution scope of a job type.
+ * - 'tenant': job MUST carry orgId; the handler runs inside withDbContext(orgId)
+ *   and receives the RLS-scoped transaction client.
+ * - 'system': job has no orgId; the handler receives the root PrismaClient and is
+ *   responsible for opening its own contexts.
+ */
+export type JobScope = 'tenant' | 'system';
+
+/**
+ * Client a handler receives: the withDbContext transaction for tenant jobs, the
+ * service client for system jobs. JobHandlerDb<JobScope> is either.
+ */
+export type JobHandlerDb<S extends JobScope = JobScope> =
+  S extends 'system' ? PrismaClient : Prisma.TransactionClient;
+
+export interface BackoffPolicy {
+  /** Delay before the first retry. */
+  baseMs: number;
+  /** Upper bound for any single delay. */
+  maxMs: number;
+}
+
+/** Metadata passed to every handler invocation. */
+export interface JobHandlerContext {
+  jobId: string;
+  jobType: string;
+  orgId: string | null;
+  /** 1-based attempt number of this execution. */
+  attempt: number;
+  maxAttempts: number;
+  /** Trace ID for this execution (also set as app.request_id for tenant jobs). */
+  requestId: string;
+}
+
+/**
+ * Registration for one job type. Handlers MUST be idempotent: a job whose lease
+ * expires mid-run (e.g. instance crash) is re-executed by another worker.
+ */
+export interface JobHandlerDefinition<P = unknown, S extends JobScope = JobScope> {
+  jobType: string;
+  scope: S;
+  /**
+   * Service actor recorded as app.actor_id for tenant jobs.
+   * Defaults to JOB_WORKER_ACTOR_ID.
+   */
+  actorId?: string;
+  /** Lease length per claim. Extended by heartbeat while the handler runs. */
+  leaseMs?: number;
+  backoff?: BackoffPolicy;
+  /** Max RUNNING jobs of this type per org across all instances. */
+  perOrgConcurrency?: number;
+  /** Max jobs of this type claimed per worker tick. */
+  batchSize?: number;
+  /** Replace the payload with {} once the job succeeds (for payloads carrying content). */
+  clearPayloadOnSuccess?: boolean;
+  /** Method syntax keeps handlers of any payload or scope assignable to JobHandlerDefinition. */
+  handle(db: JobHandlerDb<S>, payload: P, ctx: JobHandlerContext): Promise<void>;
+}
+
+// ─── Worker ───────────────────────────────────────────────────────────────────
+
+export interface ClaimJobsOptions {
+  jobType: string;
+  workerId: string;
+  limit: number;
+  leaseMs: number;
+  perOrgConcurrency: number;
+}
+
+/** Counts returned by one worker tick (observability / tests). */
+export interface JobWorkerTickResult {
+  claimed: number;
+  succeeded: number;
+  retried: number;
+  deadLettered: number;
+}
+
+export interface JobWorkerOptions {
+  /** Poll interval between ticks. */
+  pollIntervalMs?: number;
+  /** Stable identity written to locked_by. Defaults to host:pid:random. */
+  workerId?: string;
+}
+
+export interface JobWorkerHandle {
+  /** Run one claim/execute cycle immediately (used by tests and shutdown drains). */
+  tick: () => Promise<JobWorkerTickResult>;
+  /** Stop polling and wait for the in-flight tick to finish. */
+  stop: () => Promise<void>;
+}
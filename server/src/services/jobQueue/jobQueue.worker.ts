@@ -0,0 +1,251 @@
+/**
+ * Background Job Queue — Worker
+ * Task ID: OPS-BACKGROUND-JOB-QUEUE-001
+ *
+ * Polls background_jobs for every registered job type, executes claimed jobs and
+ * records the outcome. Safe to run on every API instance at once.
+ *
+ * Per-job execution:
+ *   claimJobs → handler
+ *     tenant scope: withDbContext(prisma, { orgId: job.orgId, actorId, realm: 'tenant' }, tx => handle(tx, …))
+ *     system scope: handle(prisma, …)
+ *   → completeJob | failJob (retry with backoff, or DEAD_LETTER)
+ *
+ * While a handler runs, its lease is extended every leaseMs / 2 so long jobs are
+ * not reclaimed by another instance.
+ *
+ * CONSTITUTIONAL CONSTRAINTS:
+ *   - Tenant jobs run ONLY under withDbContext with orgId taken from the job row
+ *     (set at enqueue from req.dbContext.orgId) — never from the payload.
+ *   - A tenant-scoped job without orgId is dead-lettered, never run unscoped.
+ *   - Payload content is never logged — only job id / type / org / attempt.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+import type { PrismaClient } from '@prisma/client';
+import { withDbContext } from '../../lib/database-context.js';
+import {
+  claimJobs,
+  completeJob,
+  DEFAULT_BACKOFF,
+  DEFAULT_LEASE_MS,
+  DEFAULT_PER_ORG_CONCURRENCY,
+  extendJobLease,
+  failJob,
+  NonRetryableJobError,
+} from './jobQueue.service.js';
+import type {
+  BackgroundJobRecord,
+  JobHandlerContext,
+  JobHandlerDefinition,
+  JobWorkerHandle,
+  JobWorkerOptions,
+  JobWorkerTickResult,
+} from './jobQueue.types.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/**
+ * Default app.actor_id for tenant jobs whose handler does not name its own
+ * service identity. A named system service principal — not a real user account.
+ */
+export const JOB_WORKER_ACTOR_ID = '00000000-0000-0000-0000-000000000003' as const;
+
+const DEFAULT_POLL_INTERVAL_MS = 1_000 as const;
+const DEFAULT_BATCH_SIZE = 5 as const;
+
+// ─── Execution ────────────────────────────────────────────────────────────────
+
+type JobOutcome = 'SUCCEEDED' | 'RETRY_SCHEDULED' | 'DEAD_LETTERED' | 'LEASE_LOST';
+
+function defaultWorkerId(): string {
+  return `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+async function executeJob(
+  db: PrismaClient,
+  def: JobHandlerDefinition,
+  job: BackgroundJobRecord,
+  workerId: string,
+): Promise<JobOutcome> {
+  const leaseMs = def.leaseMs ?? DEFAULT_LEASE_MS;
+  const ctx: JobHandlerContext = {
+    jobId:       job.id,
+    jobType:     job.jobType,
+    orgId:       job.orgId,
+    attempt:     job.attempts,
+    maxAttempts: job.maxAttempts,
+    requestId:   randomUUID(),
+  };
+  const start = Date.now();
+
+  const heartbeat = setInterval(() => {
+    extendJobLease(db, job.id, workerId, leaseMs).catch(err => {
+      console.error('[JOBQ][lease_extend_error]', { jobId: job.id, jobType: job.jobType, error: String(err) });
+    });
+  }, Math.max(1_000, Math.floor(leaseMs / 2)));
+  heartbeat.unref?.();
+
+  try {
+    if (def.scope === 'tenant') {
+      if (!job.orgId) {
+        throw new NonRetryableJobError(`Tenant-scoped job type ${job.jobType} requires orgId`);
+      }
+      await withDbContext(
+        db,
+        {
+          orgId:     job.orgId,
+          actorId:   def.actorId ?? JOB_WORKER_ACTOR_ID,
+          realm:     'tenant',
+          requestId: ctx.requestId,
+        },
+        async tx => {
+          await def.handle(tx, job.payload, ctx);
+        },
+      );
+    } else {
+      await def.handle(db, job.payload, ctx);
+    }
+  } catch (err) {
+    clearInterval(heartbeat);
+    const outcome = await failJob(db, job, workerId, err, {
+      backoff:   def.backoff ?? DEFAULT_BACKOFF,
+      retryable: !(err instanceof NonRetryableJobError),
+    });
+    console.error('[JOBQ][job_failed]', {
+      jobId:     job.id,
+      jobType:   job.jobType,
+      orgId:     job.orgId,
+      attempt:   job.attempts,
+      outcome,
+      latencyMs: Date.now() - start,
+      error:     String(err),
+    });
+    return outcome;
+  }
+
+  clearInterval(heartbeat);
+  const completed = await completeJob(db, job.id, workerId, { clearPayload: def.clearPayloadOnSuccess });
+  if (!completed) {
+    console.warn('[JOBQ][lease_lost_before_complete]', { jobId: job.id, jobType: job.jobType });
+    return 'LEASE_LOST';
+  }
+  console.info('[JOBQ][job_succeeded]', {
+    jobId:     job.id,
+    jobType:   job.jobType,
+    orgId:     job.orgId,
+    attempt:   job.attempts,
+    latencyMs: Date.now() - start,
+  });
+  return 'SUCCEEDED';
+}
+
+// ─── Tick ─────────────────────────────────────────────────────────────────────
+
+/**
+ * One claim/execute cycle across all handlers. Jobs claimed in a tick run
+ * concurrently; a failing job never affects the others.
+ */
+export async function runJobWorkerTick(
+  db: PrismaClient,
+  handlers: readonly JobHandlerDefinition[],
+  workerId: string,
+): Promise<JobWorkerTickResult> {
+  const result: JobWorkerTickResult = { claimed: 0, succeeded: 0, retried: 0, deadLettered: 0 };
+
+  for (const def of handlers) {
+    let jobs: BackgroundJobRecord[];
+    try {
+      jobs = await claimJobs(db, {
+        jobType:           def.jobType,
+        workerId,
+        limit:             def.batchSize ?? DEFAULT_BATCH_SIZE,
+        leaseMs:           def.leaseMs ?? DEFAULT_LEASE_MS,
+        perOrgConcurrency: def.perOrgConcurrency ?? DEFAULT_PER_ORG_CONCURRENCY,
+      });
+    } catch (err) {
+      console.error('[JOBQ][claim_error]', { jobType: def.jobType, error: String(err) });
+      continue;
+    }
+    result.claimed += jobs.length;
+
+    const outcomes = await Promise.allSettled(jobs.map(job => executeJob(db, def, job, workerId)));
+    for (const outcome of outcomes) {
+      if (outcome.status === 'rejected') {
+        // failJob / completeJob itself failed — the lease will expire and the job is reclaimed.
+        console.error('[JOBQ][outcome_record_error]', { jobType: def.jobType, error: String(outcome.reason) });
+        continue;
+      }
+      if (outcome.value === 'SUCCEEDED') result.succeeded++;
+      else if (outcome.value === 'RETRY_SCHEDULED') result.retried++;
+      else if (outcome.value === 'DEAD_LETTERED') result.deadLettered++;
+    }
+  }
+
+  return result;
+}
+
+// ─── startJobQueueWorker ──────────────────────────────────────────────────────
+
+/**
+ * Start polling for the given handlers. Job types must be unique.
+ *
+ * Ticks never overlap: the next tick is scheduled only after the previous one
+ * finishes. The timer is unref()'d so it never keeps the process alive.
+ *
+ * @returns handle with tick() (run a cycle now) and stop() (stop and drain).
+ */
+export function startJobQueueWorker(
+  db: PrismaClient,
+  handlers: readonly JobHandlerDefinition[],
+  opts: JobWorkerOptions = {},
+): JobWorkerHandle {
+  const jobTypes = handlers.map(h => h.jobType);
+  if (new Set(jobTypes).size !== jobTypes.length) {
+    throw new Error(`Duplicate job type registration: ${jobTypes.join(', ')}`);
+  }
+
+  const workerId = opts.workerId ?? defaultWorkerId();
+  const pollIntervalMs = opts.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<JobWorkerTickResult> | null = null;
+
+  const tick = (): Promise<JobWorkerTickResult> => {
+    if (!inFlight) {
+      inFlight = runJobWorkerTick(db, handlers, workerId).finally(() => {
+        inFlight = null;
+      });
+    }
+    return inFlight;
+  };
+
+  const schedule = (): void => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      tick()
+        .catch(err => {
+          console.error('[JOBQ][tick_error]', { error: String(err) });
+        })
+        .finally(schedule);
+    }, pollIntervalMs);
+    timer.unref?.();
+  };
+
+  schedule();
+  console.info('[JOBQ][worker_started]', { workerId, jobTypes, pollIntervalMs });
+
+  return {
+    tick,
+    stop: async () => {
+      stopped = true;
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (inFlight) await inFlight.catch(() => undefined);
+      console.info('[JOBQ][worker_stopped]', { workerId });
+    },
+  };
+}
@@ -6,20 +6,27 @@
  *   1. createApprovalRequest  — Maker submits a pending approval for a PENDING_APPROVAL transition.
  *   2. signApproval           — Checker records an APPROVE or REJECT decision.
  *   3. verifyAndReplay        — Replay an APPROVED transition through StateMachineService.
- *   4. getPendingQueue        — List REQUESTED + ESCALATED approvals for an org.
+ *   4. getPendingQueue        — List REQUESTED + ESCALATED approvals for an org
+ *                               (excluding requests expired by the governance sweep).
  *
  * Constitutional guarantees (this service = Layer 1; DB = Layers 2–3):
  *   D-021-A: Payload hash computed at request creation, verified before replay.
  *            Mismatch → PAYLOAD_INTEGRITY_VIOLATION (replay is blocked).
  *   D-021-B: Duplicate active requests caught as ACTIVE_REQUEST_EXISTS (P2002 from DB).
- *            DB unique partial index is the backstop.
+ *            DB trigger enforce_pending_approval_active_slot is the backstop; it
+ *            raises 23505 (P2002) and skips requests expired by the governance sweep.
  *   D-021-C: Maker≠Checker enforced here (fingerprint comparison) AND by DB trigger
  *            check_maker_checker_separation (AFTER INSERT on approval_signatures, P0002).
  *            Even if this check is bypassed, the DB trigger fires unconditionally.
  *
+ * Expiry (GOV-EXPIRY-SWEEP-001):
+ *   signApproval / verifyAndReplay check expires_at lazily. The 'governance.expiry.sweep'
+ *   job (GovernanceExpiryService) records expiry as an approval_expiry_events row —
+ *   the sweep never updates status. Queue reads treat a row with an expiry event as
+ *   EXPIRED, and the D-021-B slot trigger ignores it, so the maker can resubmit.
+ *
  * Not implemented here (deferred):
  *   - Escalation creation → G-022 (EscalationService).
- *   - Expiry sweeping → G-023 cron job.
  *   - CERTIFICATION log writes → G-023.
  */
 
@@ -119,8 +126,13 @@ export class MakerCheckerService {
    *   1. Compute D-021-A frozen_payload_hash from canonical fields.
    *   2. Compute D-021-C maker_principal_fingerprint.
    *   3. Compute expires_at from severityLevel TTL.
-   *   4. Write pending_approvals row via Prisma.
-   *   5. On P2002 → ACTIVE_REQUEST_EXISTS (D-021-B backstop triggered).
+   *   4. Find a request for the same entity+transition that the governance sweep
+   *      expired; a resubmission carries its attempt_count + 1.
+   *   5. Write pending_approvals row via Prisma.
+   *   6. On P2002 → ACTIVE_REQUEST_EXISTS (D-021-B backstop triggered).
+   *
+   * No query follows the INSERT: when this.db is bound to the caller's transaction,
+   * a P2002 has already aborted that transaction.
    *
    * @returns CreateApprovalResult (CREATED | ACTIVE_REQUEST_EXISTS | ERROR)
    */
@@ -137,13 +149,31 @@ export class MakerCheckerService {
       // TTL
       const expiresAt = computeExpiresAt(input.severityLevel);
 
+      const fromStateKey = input.fromStateKey.toUpperCase();
+      const toStateKey = input.toStateKey.toUpperCase();
+
+      // GOV-EXPIRY-SWEEP-001: an expired request no longer holds the slot
+      const expired = await this.db.pendingApproval.findFirst({
+        where: {
+          orgId:       input.orgId,
+          entityType:  input.entityType,
+          entityId:    input.entityId,
+          fromStateKey,
+          toStateKey,
+          status:      { in: ['REQUESTED', 'ESCALATED'] },
+          expiryEvent: { isNot: null },
+        },
+        orderBy: { attemptCount: 'desc' },
+        select:  { attemptCount: true },
+      });
+
       const row = await this.db.pendingApproval.create({
         data: {
           orgId:                    input.orgId,
           entityType:               input.entityType,
           entityId:                 input.entityId,
-          fromStateKey:             input.fromStateKey.toUpperCase(),
-          toStateKey:               input.toStateKey.toUpperCase(),
+          fromStateKey,
+          toStateKey,
           requestedByUserId:        input.requestedByUserId ?? null,
           requestedByAdminId:       input.requestedByAdminId ?? null,
           requestedByActorType:     input.requestedByActorType,
@@ -154,7 +184,7 @@ export class MakerCheckerService {
           frozenPayloadHash,
           makerPrincipalFingerprint,
           frozenPayload:            input.frozenPayload as object,
-          attemptCount:             1,
+          attemptCount:             (expired?.attemptCount ?? 0) + 1,
           aiTriggered:              input.aiTriggered ?? false,
           impersonationId:          input.impersonationId ?? null,
           requestId:                input.requestId ?? null,
@@ -648,6 +678,7 @@ export class MakerCheckerService {
 
   /**
    * List all REQUESTED and ESCALATED approval requests for an org (tenant scope).
+   * Requests with an approval_expiry_events row are excluded.
    * Ordered by expires_at ASC (most urgent first).
    *
    * @param orgId - Tenant org UUID (caller must supply authenticated org_id).
@@ -655,7 +686,7 @@ export class MakerCheckerService {
    */
   async getPendingQueue(orgId: string): Promise<PendingApprovalRow[]> {
     const rows = await this.db.pendingApproval.findMany({
-      where:   { orgId, status: { in: ['REQUESTED', 'ESCALATED'] } },
+      where:   { orgId, status: { in: ['REQUESTED', 'ESCALATED'] }, expiryEvent: { is: null } },
       orderBy: { expiresAt: 'asc' },
     });
     return rows as PendingApprovalRow[];
@@ -695,6 +726,8 @@ export class MakerCheckerService {
    * For TENANT scope: orgId is required (same as getPendingQueue, plus optional filters).
    * For CONTROL_PLANE scope: orgId is optional — if omitted, returns across all orgs.
    *
+   * Requests expired by the governance sweep are returned with status 'EXPIRED'.
+   *
    * Ordered by expires_at ASC (most urgent first).
    *
    * @param query - ApprovalQueueQuery filter set.
@@ -706,9 +739,24 @@ export class MakerCheckerService {
         ? query.status
         : ['REQUESTED', 'ESCALATED'];
 
+    // GOV-EXPIRY-SWEEP-001: REQUESTED / ESCALATED rows with an expiry event are
+    // reported as EXPIRED (nothing updates status on expiry).
+    const liveStatuses = effectiveStatuses.filter(s => s === 'REQUESTED' || s === 'ESCALATED');
+    const otherStatuses = effectiveStatuses.filter(s => s !== 'REQUESTED' && s !== 'ESCALATED');
+    const statusFilters: Record<string, unknown>[] = [];
+    if (liveStatuses.length > 0) {
+      statusFilters.push({ status: { in: liveStatuses }, expiryEvent: { is: null } });
+    }
+    if (otherStatuses.length > 0) {
+      statusFilters.push({ status: { in: otherStatuses } });
+    }
+    if (otherStatuses.includes('EXPIRED')) {
+      statusFilters.push({ status: { in: ['REQUESTED', 'ESCALATED'] }, expiryEvent: { isNot: null } });
+    }
+
     // Build where clause dynamically
     const where: Record<string, unknown> = {
-      status: { in: effectiveStatuses },
+      OR: statusFilters,
     };
 
     if (query.orgId) {
@@ -722,8 +770,12 @@ export class MakerCheckerService {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       where:   where as any,
       orderBy: { expiresAt: 'asc' },
+      include: { expiryEvent: { select: { id: true } } },
     });
 
-    return rows as PendingApprovalRow[];
+    return rows.map(({ expiryEvent, ...row }) => ({
+      ...row,
+      status: expiryEvent ? 'EXPIRED' : row.status,
+    })) as PendingApprovalRow[];
   }
 }
@@ -0,0 +1,49 @@
+/**
+ * MFA-001 — MfaService wired from server config.
+ *
+ * Routes and middleware use createMfaService(); unit tests construct MfaService
+ * directly with explicit options.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { config } from '../../config/index.js';
+import { prisma } from '../../db/prisma.js';
+import { MfaService, deriveMfaEncryptionKey } from './mfa.service.js';
+
+interface MfaConfig {
+  frontendUrl: URL;
+  encryptionKey: Buffer;
+  origins: string[];
+}
+
+let mfaConfig: MfaConfig | null = null;
+
+/** Config-derived options, resolved on first use so importing this module reads no config. */
+function getMfaConfig(): MfaConfig {
+  if (!mfaConfig) {
+    const frontendUrl = new URL(config.FRONTEND_URL);
+    mfaConfig = {
+      frontendUrl,
+      encryptionKey: deriveMfaEncryptionKey(config.MFA_SECRET_ENCRYPTION_KEY ?? config.JWT_ACCESS_SECRET),
+      origins: config.WEBAUTHN_ORIGINS
+        ? config.WEBAUTHN_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+        : [frontendUrl.origin],
+    };
+  }
+  return mfaConfig;
+}
+
+export function createMfaService(db: PrismaClient = prisma): MfaService {
+  const { frontendUrl, encryptionKey, origins } = getMfaConfig();
+  return new MfaService(db, {
+    issuer: config.MFA_TOTP_ISSUER,
+    encryptionKey,
+    rp: {
+      id: config.WEBAUTHN_RP_ID ?? frontendUrl.hostname,
+      name: config.WEBAUTHN_RP_NAME,
+      origins,
+    },
+    adminRequired: config.MFA_ADMIN_REQUIRED,
+    stepUpMaxAgeSeconds: config.MFA_STEP_UP_MAX_AGE_SECONDS,
+  });
+}
@@ -0,0 +1,642 @@
+/**
+ * MFA-001 — Multi-factor authentication for tenant users and platform admins.
+ *
+ * Factors (mfa_factors):
+ *   TOTP      RFC 6238 authenticator app. Enrolled PENDING, ACTIVE after the first valid code.
+ *   WEBAUTHN  Security key / platform authenticator. ACTIVE once the registration verifies.
+ * Recovery codes (mfa_recovery_codes): ten single-use codes, issued with the first factor.
+ * Challenges (mfa_challenges): server-issued WebAuthn challenges, single use, 5 minutes.
+ *
+ * Requirement for a principal (login and step-up):
+ *   VERIFY  has ≥1 ACTIVE factor                          → must present one
+ *   ENROLL  no factor, but MFA is required for them       → must enroll first
+ *   NONE    no factor, not required                       → password alone suffices
+ * "Required" = tenants.mfa_required for tenant users; MFA_ADMIN_REQUIRED for admins.
+ *
+ * Step-up: sensitive routes accept the request only if the access token carries an
+ * mfaAt claim no older than stepUpMaxAgeSeconds (see middleware/mfaStepUp.ts).
+ *
+ * Tables carry no RLS (same posture as refresh_tokens); every query here is keyed by
+ * the principal's user_id / admin_id, which the caller takes from a verified token.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import type { PrismaClient } from '@prisma/client';
+import { deriveEnvelopeKey, openSecret, sealSecret } from '../../lib/secretEnvelope.js';
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotpCode } from './totp.js';
+import {
+  SUPPORTED_COSE_ALGORITHMS,
+  WebAuthnVerificationError,
+  verifyAssertionResponse,
+  verifyRegistrationResponse,
+  type AssertionCredentialJSON,
+  type RegistrationCredentialJSON,
+  type RelyingParty,
+} from './webauthn.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type MfaRealm = 'TENANT' | 'ADMIN';
+
+export type MfaPrincipal =
+  | { realm: 'TENANT'; userId: string; tenantId: string }
+  | { realm: 'ADMIN'; adminId: string };
+
+export type MfaFactorType = 'TOTP' | 'WEBAUTHN';
+
+export type MfaMethod = MfaFactorType | 'RECOVERY_CODE';
+
+export type MfaRequirement = 'NONE' | 'VERIFY' | 'ENROLL';
+
+export type MfaFailureReason =
+  | 'INVALID_CODE'
+  | 'REPLAY'
+  | 'CHALLENGE_EXPIRED'
+  | 'INVALID_CREDENTIAL'
+  | 'NO_FACTOR';
+
+export type MfaProof =
+  | { method: 'TOTP'; code: string }
+  | { method: 'RECOVERY_CODE'; code: string }
+  | { method: 'WEBAUTHN'; challengeId: string; credential: AssertionCredentialJSON };
+
+export interface MfaServiceOptions {
+  /** Issuer shown in authenticator apps. */
+  issuer: string;
+  /** 32-byte AES-256-GCM key for TOTP secrets at rest. */
+  encryptionKey: Buffer;
+  rp: RelyingParty;
+  adminRequired: boolean;
+  stepUpMaxAgeSeconds: number;
+}
+
+export interface MfaFactorRecord {
+  id: string;
+  type: MfaFactorType;
+  status: 'PENDING' | 'ACTIVE';
+  label: string | null;
+  transports: string[];
+  createdAt: string;
+  confirmedAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export interface MfaStatus {
+  required: boolean;
+  requirement: MfaRequirement;
+  factors: MfaFactorRecord[];
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaRequirementResult {
+  requirement: MfaRequirement;
+  /** Methods the principal can present; empty unless requirement is VERIFY. */
+  methods: MfaMethod[];
+}
+
+export type MfaStepUpResult =
+  | { ok: true }
+  | { ok: false; code: 'MFA_STEP_UP_REQUIRED' | 'MFA_ENROLLMENT_REQUIRED' };
+
+export interface MfaEnrollmentResult {
+  factor: MfaFactorRecord;
+  /** Plaintext recovery codes — returned once, when the first factor is enrolled. */
+  recoveryCodes: string[] | null;
+}
+
+export interface MfaVerificationResult {
+  method: MfaMethod;
+  factorId: string | null;
+  /** Unused recovery codes left; set only when a recovery code was consumed. */
+  recoveryCodesRemaining: number | null;
+}
+
+export interface WebAuthnCreationOptions {
+  challengeId: string;
+  publicKey: {
+    challenge: string;
+    rp: { id: string; name: string };
+    user: { id: string; name: string; displayName: string };
+    pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+    timeout: number;
+    attestation: 'none';
+    authenticatorSelection: { residentKey: 'discouraged'; userVerification: 'preferred' };
+    excludeCredentials: Array<{ type: 'public-key'; id: string; transports: string[] }>;
+  };
+}
+
+export interface WebAuthnRequestOptions {
+  challengeId: string;
+  publicKey: {
+    challenge: string;
+    rpId: string;
+    timeout: number;
+    userVerification: 'preferred';
+    allowCredentials: Array<{ type: 'public-key'; id: string; transports: string[] }>;
+  };
+}
+
+export const MFA_RECOVERY_CODE_COUNT = 10;
+export const MFA_CHALLENGE_TTL_SECONDS = 300;
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class MfaVerificationError extends Error {
+  constructor(
+    public readonly reason: MfaFailureReason,
+    message?: string,
+  ) {
+    super(message ?? `MFA verification failed: ${reason}`);
+    this.name = 'MfaVerificationError';
+  }
+}
+
+export class MfaFactorNotFoundError extends Error {
+  constructor(factorId: string) {
+    super(`MFA factor ${factorId} not found`);
+    this.name = 'MfaFactorNotFoundError';
+  }
+}
+
+/** The operation would break an MFA invariant (last factor while required, duplicate key, …). */
+export class MfaPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MfaPolicyError';
+  }
+}
+
+// ─── Secrets at rest ─────────────────────────────────────────────────────────
+
+/** Derives the 32-byte TOTP secret key from a configured secret string. */
+export function deriveMfaEncryptionKey(secret: string): Buffer {
+  return deriveEnvelopeKey(secret, 'texqtic-mfa', 'totp-secret-v1');
+}
+
+// ─── Recovery codes ──────────────────────────────────────────────────────────
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/** 50 bits each, shown as xxxxx-xxxxx. */
+function generateRecoveryCode(): string {
+  const raw = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+type FactorRow = {
+  id: string;
+  type: string;
+  status: string;
+  label: string | null;
+  webauthnTransports: string[];
+  createdAt: Date;
+  confirmedAt: Date | null;
+  lastUsedAt: Date | null;
+};
+
+function toFactorRecord(row: FactorRow): MfaFactorRecord {
+  return {
+    id: row.id,
+    type: row.type as MfaFactorType,
+    status: row.status as MfaFactorRecord['status'],
+    label: row.label,
+    transports: row.webauthnTransports,
+    createdAt: row.createdAt.toISOString(),
+    confirmedAt: row.confirmedAt?.toISOString() ?? null,
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+  };
+}
+
+function ownerWhere(principal: MfaPrincipal): { userId: string } | { adminId: string } {
+  return principal.realm === 'TENANT' ? { userId: principal.userId } : { adminId: principal.adminId };
+}
+
+function principalId(principal: MfaPrincipal): string {
+  return principal.realm === 'TENANT' ? principal.userId : principal.adminId;
+}
+
+const FACTOR_SELECT = {
+  id: true,
+  type: true,
+  status: true,
+  label: true,
+  webauthnTransports: true,
+  createdAt: true,
+  confirmedAt: true,
+  lastUsedAt: true,
+} as const;
+
+// ─── Service ─────────────────────────────────────────────────────────────────
+
+export class MfaService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly options: MfaServiceOptions,
+  ) {}
+
+  // ── Policy ──────────────────────────────────────────────────────────────────
+
+  async isRequired(principal: MfaPrincipal): Promise<boolean> {
+    if (principal.realm === 'ADMIN') return this.options.adminRequired;
+    const tenant = await this.db.tenant.findUnique({
+      where: { id: principal.tenantId },
+      select: { mfaRequired: true },
+    });
+    return tenant?.mfaRequired ?? false;
+  }
+
+  async getRequirement(principal: MfaPrincipal): Promise<MfaRequirementResult> {
+    const active = await this.db.mfaFactor.findMany({
+      where: { ...ownerWhere(principal), status: 'ACTIVE' },
+      select: { type: true },
+    });
+
+    if (active.length > 0) {
+      const types = [...new Set(active.map(f => f.type as MfaFactorType))].sort();
+      return { requirement: 'VERIFY', methods: [...types, 'RECOVERY_CODE'] };
+    }
+
+    return { requirement: (await this.isRequired(principal)) ? 'ENROLL' : 'NONE', methods: [] };
+  }
+
+  /**
+   * mfaVerifiedAt is the token's mfaAt claim (unix seconds). A principal with no
+   * factor and no requirement passes — step-up applies to those who can perform it.
+   */
+  async checkStepUp(
+    principal: MfaPrincipal,
+    mfaVerifiedAt: number | null | undefined,
+    now: Date = new Date(),
+  ): Promise<MfaStepUpResult> {
+    const { requirement } = await this.getRequirement(principal);
+    if (requirement === 'NONE') return { ok: true };
+    if (requirement === 'ENROLL') return { ok: false, code: 'MFA_ENROLLMENT_REQUIRED' };
+
+    const fresh =
+      typeof mfaVerifiedAt === 'number' &&
+      now.getTime() - mfaVerifiedAt * 1000 <= this.options.stepUpMaxAgeSeconds * 1000;
+    return fresh ? { ok: true } : { ok: false, code: 'MFA_STEP_UP_REQUIRED' };
+  }
+
+  async getStatus(principal: MfaPrincipal): Promise<MfaStatus> {
+    const [factors, recoveryCodesRemaining, required] = await Promise.all([
+      this.db.mfaFactor.findMany({
+        where: ownerWhere(principal),
+        select: FACTOR_SELECT,
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.db.mfaRecoveryCode.count({ where: { ...ownerWhere(principal), usedAt: null } }),
+      this.isRequired(principal),
+    ]);
+
+    const hasActive = factors.some(f => f.status === 'ACTIVE');
+    return {
+      required,
+      requirement: hasActive ? 'VERIFY' : required ? 'ENROLL' : 'NONE',
+      factors: factors.map(toFactorRecord),
+      recoveryCodesRemaining,
+    };
+  }
+
+  async setTenantMfaRequired(tenantId: string, required: boolean): Promise<void> {
+    await this.db.tenant.update({ where: { id: tenantId }, data: { mfaRequired: required } });
+  }
+
+  // ── TOTP enrollment ─────────────────────────────────────────────────────────
+
+  /** Replaces any unconfirmed TOTP enrollment. The secret is returned once. */
+  async startTotpEnrollment(
+    principal: MfaPrincipal,
+    params: { accountName: string; label?: string | null },
+  ): Promise<{ factorId: string; secret: string; otpauthUri: string }> {
+    const secret = generateTotpSecret();
+
+    await this.db.mfaFactor.deleteMany({
+      where: { ...ownerWhere(principal), type: 'TOTP', status: 'PENDING' },
+    });
+    const factor = await this.db.mfaFactor.create({
+      data: {
+        ...ownerWhere(principal),
+        type: 'TOTP',
+        status: 'PENDING',
+        label: params.label ?? 'Authenticator app',
+        totpSecretEncrypted: sealSecret(secret, this.options.encryptionKey),
+      },
+      select: { id: true },
+    });
+
+    return {
+      factorId: factor.id,
+      secret,
+      otpauthUri: buildOtpauthUri({ issuer: this.options.issuer, accountName: params.accountName, secret }),
+    };
+  }
+
+  async confirmTotpEnrollment(
+    principal: MfaPrincipal,
+    factorId: string,
+    code: string,
+    now: Date = new Date(),
+  ): Promise<MfaEnrollmentResult> {
+    const factor = await this.db.mfaFactor.findFirst({
+      where: { id: factorId, ...ownerWhere(principal), type: 'TOTP', status: 'PENDING' },
+      select: { id: true, totpSecretEncrypted: true },
+    });
+    if (!factor?.totpSecretEncrypted) throw new MfaFactorNotFoundError(factorId);
+
+    const secret = openSecret(factor.totpSecretEncrypted, this.options.encryptionKey);
+    const step = verifyTotpCode(secret, code, { at: now });
+    if (step === null) throw new MfaVerificationError('INVALID_CODE');
+
+    const activated = await this.db.mfaFactor.update({
+      where: { id: factor.id },
+      data: { status: 'ACTIVE', confirmedAt: now, lastUsedAt: now, totpLastUsedStep: step },
+      select: FACTOR_SELECT,
+    });
+
+    return { factor: toFactorRecord(activated), recoveryCodes: await this.issueInitialRecoveryCodes(principal) };
+  }
+
+  // ── WebAuthn enrollment ─────────────────────────────────────────────────────
+
+  async createWebAuthnRegistrationOptions(
+    principal: MfaPrincipal,
+    params: { userName: string; displayName?: string },
+  ): Promise<WebAuthnCreationOptions> {
+    const [challenge, existing] = await Promise.all([
+      this.issueChallenge(principal, 'WEBAUTHN_REGISTER'),
+      this.db.mfaFactor.findMany({
+        where: { ...ownerWhere(principal), type: 'WEBAUTHN', status: 'ACTIVE' },
+        select: { webauthnCredentialId: true, webauthnTransports: true },
+      }),
+    ]);
+
+    return {
+      challengeId: challenge.id,
+      publicKey: {
+        challenge: challenge.challenge,
+        rp: { id: this.options.rp.id, name: this.options.rp.name },
+        user: {
+          id: Buffer.from(principalId(principal)).toString('base64url'),
+          name: params.userName,
+          displayName: params.displayName ?? params.userName,
+        },
+        pubKeyCredParams: SUPPORTED_COSE_ALGORITHMS.map(alg => ({ type: 'public-key' as const, alg })),
+        timeout: MFA_CHALLENGE_TTL_SECONDS * 1000,
+        attestation: 'none',
+        authenticatorSelection: { residentKey: 'discouraged', userVerification: 'preferred' },
+        excludeCredentials: existing
+          .filter(f => f.webauthnCredentialId !== null)
+          .map(f => ({ type: 'public-key' as const, id: f.webauthnCredentialId as string, transports: f.webauthnTransports })),
+      },
+    };
+  }
+
+  async completeWebAuthnRegistration(
+    principal: MfaPrincipal,
+    params: { challengeId: string; credential: RegistrationCredentialJSON; label?: string | null },
+    now: Date = new Date(),
+  ): Promise<MfaEnrollmentResult> {
+    const challenge = await this.consumeChallenge(principal, params.challengeId, 'WEBAUTHN_REGISTER', now);
+
+    let verified;
+    try {
+      verified = verifyRegistrationResponse({
+        credential: params.credential,
+        expectedChallenge: challenge,
+        rp: this.options.rp,
+      });
+    } catch (err) {
+      if (err instanceof WebAuthnVerificationError) {
+        throw new MfaVerificationError('INVALID_CREDENTIAL', err.message);
+      }
+      throw err;
+    }
+
+    const duplicate = await this.db.mfaFactor.findUnique({
+      where: { webauthnCredentialId: verified.credentialId },
+      select: { id: true },
+    });
+    if (duplicate) throw new MfaPolicyError('This security key is already registered');
+
+    const factor = await this.db.mfaFactor.create({
+      data: {
+        ...ownerWhere(principal),
+        type: 'WEBAUTHN',
+        status: 'ACTIVE',
+        label: params.label ?? 'Security key',
+        webauthnCredentialId: verified.credentialId,
+        webauthnPublicKey: verified.publicKey,
+        webauthnAlgorithm: verified.algorithm,
+        webauthnSignCount: BigInt(verified.signCount),
+        webauthnTransports: (params.credential.response.transports ?? []).slice(0, 10),
+        confirmedAt: now,
+      },
+      select: FACTOR_SELECT,
+    });
+
+    return { factor: toFactorRecord(factor), recoveryCodes: await this.issueInitialRecoveryCodes(principal) };
+  }
+
+  // ── Verification (login challenge and step-up) ─────────────────────────────
+
+  async createWebAuthnAssertionOptions(principal: MfaPrincipal): Promise<WebAuthnRequestOptions> {
+    const factors = await this.db.mfaFactor.findMany({
+      where: { ...ownerWhere(principal), type: 'WEBAUTHN', status: 'ACTIVE' },
+      select: { webauthnCredentialId: true, webauthnTransports: true },
+    });
+    if (factors.length === 0) throw new MfaVerificationError('NO_FACTOR', 'No security key registered');
+
+    const challenge = await this.issueChallenge(principal, 'WEBAUTHN_AUTHENTICATE');
+    return {
+      challengeId: challenge.id,
+      publicKey: {
+        challenge: challenge.challenge,
+        rpId: this.options.rp.id,
+        timeout: MFA_CHALLENGE_TTL_SECONDS * 1000,
+        userVerification: 'preferred',
+        allowCredentials: factors
+          .filter(f => f.webauthnCredentialId !== null)
+          .map(f => ({ type: 'public-key' as const, id: f.webauthnCredentialId as string, transports: f.webauthnTransports })),
+      },
+    };
+  }
+
+  async verify(principal: MfaPrincipal, proof: MfaProof, now: Date = new Date()): Promise<MfaVerificationResult> {
+    switch (proof.method) {
+      case 'TOTP':
+        return this.verifyTotp(principal, proof.code, now);
+      case 'RECOVERY_CODE':
+        return this.verifyRecoveryCode(principal, proof.code, now);
+      case 'WEBAUTHN':
+        return this.verifyWebAuthn(principal, proof.challengeId, proof.credential, now);
+    }
+  }
+
+  private async verifyTotp(principal: MfaPrincipal, code: string, now: Date): Promise<MfaVerificationResult> {
+    const factors = await this.db.mfaFactor.findMany({
+      where: { ...ownerWhere(principal), type: 'TOTP', status: 'ACTIVE' },
+      select: { id: true, totpSecretEncrypted: true, totpLastUsedStep: true },
+    });
+    if (factors.length === 0) throw new MfaVerificationError('NO_FACTOR', 'No authenticator app enrolled');
+
+    for (const factor of factors) {
+      if (!factor.totpSecretEncrypted) continue;
+      const secret = openSecret(factor.totpSecretEncrypted, this.options.encryptionKey);
+      const step = verifyTotpCode(secret, code, { at: now, lastUsedStep: factor.totpLastUsedStep });
+      if (step === null) continue;
+
+      // Conditional write: a concurrent request that already used this step loses.
+      const claimed = await this.db.mfaFactor.updateMany({
+        where: {
+          id: factor.id,
+          OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+        },
+        data: { totpLastUsedStep: step, lastUsedAt: now },
+      });
+      if (claimed.count === 0) throw new MfaVerificationError('REPLAY');
+      return { method: 'TOTP', factorId: factor.id, recoveryCodesRemaining: null };
+    }
+
+    throw new MfaVerificationError('INVALID_CODE');
+  }
+
+  private async verifyRecoveryCode(principal: MfaPrincipal, code: string, now: Date): Promise<MfaVerificationResult> {
+    const consumed = await this.db.mfaRecoveryCode.updateMany({
+      where: { ...ownerWhere(principal), codeHash: hashRecoveryCode(code), usedAt: null },
+      data: { usedAt: now },
+    });
+    if (consumed.count === 0) throw new MfaVerificationError('INVALID_CODE');
+
+    const remaining = await this.db.mfaRecoveryCode.count({ where: { ...ownerWhere(principal), usedAt: null } });
+    return { method: 'RECOVERY_CODE', factorId: null, recoveryCodesRemaining: remaining };
+  }
+
+  private async verifyWebAuthn(
+    principal: MfaPrincipal,
+    challengeId: string,
+    credential: AssertionCredentialJSON,
+    now: Date,
+  ): Promise<MfaVerificationResult> {
+    const challenge = await this.consumeChallenge(principal, challengeId, 'WEBAUTHN_AUTHENTICATE', now);
+
+    const factor = await this.db.mfaFactor.findFirst({
+      where: { ...ownerWhere(principal), type: 'WEBAUTHN', status: 'ACTIVE', webauthnCredentialId: credential.rawId },
+      select: { id: true, webauthnPublicKey: true, webauthnAlgorithm: true, webauthnSignCount: true },
+    });
+    if (!factor?.webauthnPublicKey || factor.webauthnAlgorithm === null) {
+      throw new MfaVerificationError('INVALID_CREDENTIAL', 'Unknown security key');
+    }
+
+    let verified;
+    try {
+      verified = verifyAssertionResponse({
+        credential,
+        expectedChallenge: challenge,
+        rp: this.options.rp,
+        publicKey: factor.webauthnPublicKey,
+        algorithm: factor.webauthnAlgorithm,
+        storedSignCount: Number(factor.webauthnSignCount),
+      });
+    } catch (err) {
+      if (err instanceof WebAuthnVerificationError) {
+        throw new MfaVerificationError('INVALID_CREDENTIAL', err.message);
+      }
+      throw err;
+    }
+
+    await this.db.mfaFactor.update({
+      where: { id: factor.id },
+      data: { webauthnSignCount: BigInt(verified.signCount), lastUsedAt: now },
+    });
+    return { method: 'WEBAUTHN', factorId: factor.id, recoveryCodesRemaining: null };
+  }
+
+  // ── Factor management ──────────────────────────────────────────────────────
+
+  async regenerateRecoveryCodes(principal: MfaPrincipal): Promise<string[]> {
+    const active = await this.db.mfaFactor.count({ where: { ...ownerWhere(principal), status: 'ACTIVE' } });
+    if (active === 0) throw new MfaPolicyError('Enroll a factor before generating recovery codes');
+    return this.replaceRecoveryCodes(principal);
+  }
+
+  /** Removing the last ACTIVE factor is refused while MFA is required for the principal. */
+  async removeFactor(principal: MfaPrincipal, factorId: string): Promise<MfaFactorRecord> {
+    const factor = await this.db.mfaFactor.findFirst({
+      where: { id: factorId, ...ownerWhere(principal) },
+      select: FACTOR_SELECT,
+    });
+    if (!factor) throw new MfaFactorNotFoundError(factorId);
+
+    const otherActive = await this.db.mfaFactor.count({
+      where: { ...ownerWhere(principal), status: 'ACTIVE', id: { not: factorId } },
+    });
+    if (factor.status === 'ACTIVE' && otherActive === 0 && (await this.isRequired(principal))) {
+      throw new MfaPolicyError('MFA is required: enroll another factor before removing the last one');
+    }
+
+    await this.db.mfaFactor.delete({ where: { id: factor.id } });
+    if (otherActive === 0) {
+      // Recovery codes stand in for a factor; without any factor they must not linger.
+      await this.db.mfaRecoveryCode.deleteMany({ where: ownerWhere(principal) });
+    }
+    return toFactorRecord(factor);
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────────────
+
+  private async issueInitialRecoveryCodes(principal: MfaPrincipal): Promise<string[] | null> {
+    const existing = await this.db.mfaRecoveryCode.count({ where: { ...ownerWhere(principal), usedAt: null } });
+    return existing > 0 ? null : this.replaceRecoveryCodes(principal);
+  }
+
+  private async replaceRecoveryCodes(principal: MfaPrincipal): Promise<string[]> {
+    const codes = Array.from({ length: MFA_RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await this.db.mfaRecoveryCode.deleteMany({ where: ownerWhere(principal) });
+    await this.db.mfaRecoveryCode.createMany({
+      data: codes.map(code => ({ ...ownerWhere(principal), codeHash: hashRecoveryCode(code) })),
+    });
+    return codes;
+  }
+
+  private async issueChallenge(
+    principal: MfaPrincipal,
+    purpose: 'WEBAUTHN_REGISTER' | 'WEBAUTHN_AUTHENTICATE',
+  ): Promise<{ id: string; challenge: string }> {
+    return this.db.mfaChallenge.create({
+      data: {
+        ...ownerWhere(principal),
+        purpose,
+        challenge: randomBytes(32).toString('base64url'),
+        expiresAt: new Date(Date.now() + MFA_CHALLENGE_TTL_SECONDS * 1000),
+      },
+      select: { id: true, challenge: true },
+    });
+  }
+
+  /** Marks the challenge used (first use wins) and returns its value. */
+  private async consumeChallenge(
+    principal: MfaPrincipal,
+    challengeId: string,
+    purpose: 'WEBAUTHN_REGISTER' | 'WEBAUTHN_AUTHENTICATE',
+    now: Date,
+  ): Promise<string> {
+    const consumed = await this.db.mfaChallenge.updateMany({
+      where: { id: challengeId, ...ownerWhere(principal), purpose, consumedAt: null, expiresAt: { gt: now } },
+      data: { consumedAt: now },
+    });
+    if (consumed.count === 0) throw new MfaVerificationError('CHALLENGE_EXPIRED');
+
+    const row = await this.db.mfaChallenge.findUnique({ where: { id: challengeId }, select: { challenge: true } });
+    if (!row) throw new MfaVerificationError('CHALLENGE_EXPIRED');
+    return row.challenge;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * TOTP (RFC 6238) — MFA-001
+ *
+ * HMAC-SHA1, 6 digits, 30-second steps: the parameters every authenticator app
+ * understands from an otpauth:// URI. Pure functions; no DB access.
+ *
+ * Replay protection is the caller's job: verifyTotpCode() returns the matched
+ * time step, and mfa_factors.totp_last_used_step rejects any step at or below it.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+/** Accept one step either side of now to absorb clock drift. */
+export const TOTP_DRIFT_STEPS = 1;
+const TOTP_SECRET_BYTES = 20;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// ─── Base32 (RFC 4648, unpadded) ──────────────────────────────────────────────
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.replace(/[\s=-]/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character '${char}'`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// ─── TOTP ─────────────────────────────────────────────────────────────────────
+
+/** New random secret, base32-encoded (160 bits, as RFC 4226 recommends). */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(TOTP_SECRET_BYTES));
+}
+
+export function totpStep(at: Date): number {
+  return Math.floor(at.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/** HOTP value for one time step (RFC 4226 §5.3 dynamic truncation). */
+export function generateTotpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Returns the matched time step, or null when the code is wrong, outside the
+ * drift window, or not newer than lastUsedStep (replay).
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  options: { at?: Date; lastUsedStep?: number | null } = {},
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const current = totpStep(options.at ?? new Date());
+  const candidate = Buffer.from(normalized);
+  let matched: number | null = null;
+
+  // Check every step in the window so timing does not reveal which one matched.
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    const expected = Buffer.from(generateTotpCode(secret, step));
+    if (timingSafeEqual(expected, candidate) && matched === null) {
+      matched = step;
+    }
+  }
+
+  if (matched === null) return null;
+  if (options.lastUsedStep != null && matched <= options.lastUsedStep) return null;
+  return matched;
+}
+
+/** otpauth:// URI for QR enrollment (Key Uri Format). */
+export function buildOtpauthUri(params: {
+  issuer: string;
+  accountName: string;
+  secret: string;
+}): string {
+  const label = encodeURIComponent(`${params.issuer}:${params.accountName}`);
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${query.toString()}`;
+}
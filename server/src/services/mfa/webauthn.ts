@@ -0,0 +1,348 @@
+/**
+ * WebAuthn relying-party verification — MFA-001
+ *
+ * Verifies navigator.credentials.create() (registration) and .get() (assertion)
+ * responses with node:crypto. Pure functions; challenge storage and sign-count
+ * persistence live in MfaService.
+ *
+ * Scope:
+ *   - Attestation conveyance is 'none': the authenticator's attestation statement is
+ *     not verified, only the credential public key it carries. We authenticate
+ *     possession of a key, not the make/model of the device.
+ *   - Algorithms: ES256 (-7), EdDSA (-8), RS256 (-257). Those cover platform
+ *     authenticators and current security keys.
+ *   - Client data must name one of the configured origins; authenticator data must
+ *     carry SHA-256(rpId) and the user-presence flag.
+ */
+
+import { createHash, createPublicKey, timingSafeEqual, verify as cryptoVerify } from 'node:crypto';
+
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_EDDSA = -8;
+export const COSE_ALG_RS256 = -257;
+export const SUPPORTED_COSE_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256] as const;
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+export class WebAuthnVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnVerificationError';
+  }
+}
+
+// ─── Wire types (JSON-serialised PublicKeyCredential, base64url fields) ───────
+
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AssertionCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface RelyingParty {
+  id: string;
+  name: string;
+  origins: string[];
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  /** SPKI DER, base64url. */
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  userVerified: boolean;
+}
+
+export interface VerifiedAssertion {
+  signCount: number;
+  userVerified: boolean;
+}
+
+// ─── Minimal CBOR decoder (RFC 8949 subset used by WebAuthn) ──────────────────
+
+type CborValue = number | bigint | string | boolean | null | Buffer | CborValue[] | Map<CborValue, CborValue>;
+
+function decodeCborItem(buf: Buffer, offset: number): { value: CborValue; offset: number } {
+  if (offset >= buf.length) throw new WebAuthnVerificationError('Truncated CBOR');
+  const initial = buf[offset];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  let cursor = offset + 1;
+
+  let length: number;
+  if (info < 24) {
+    length = info;
+  } else if (info === 24) {
+    length = buf.readUInt8(cursor);
+    cursor += 1;
+  } else if (info === 25) {
+    length = buf.readUInt16BE(cursor);
+    cursor += 2;
+  } else if (info === 26) {
+    length = buf.readUInt32BE(cursor);
+    cursor += 4;
+  } else if (info === 27 && major <= 1) {
+    const big = buf.readBigUInt64BE(cursor);
+    cursor += 8;
+    return { value: major === 0 ? big : -1n - big, offset: cursor };
+  } else {
+    throw new WebAuthnVerificationError('Unsupported CBOR encoding');
+  }
+
+  switch (major) {
+    case 0:
+      return { value: length, offset: cursor };
+    case 1:
+      return { value: -1 - length, offset: cursor };
+    case 2:
+    case 3: {
+      if (cursor + length > buf.length) throw new WebAuthnVerificationError('Truncated CBOR');
+      const slice = buf.subarray(cursor, cursor + length);
+      return { value: major === 2 ? Buffer.from(slice) : slice.toString('utf8'), offset: cursor + length };
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCborItem(buf, cursor);
+        items.push(item.value);
+        cursor = item.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCborItem(buf, cursor);
+        const val = decodeCborItem(buf, key.offset);
+        map.set(key.value, val.value);
+        cursor = val.offset;
+      }
+      return { value: map, offset: cursor };
+    }
+    case 7:
+      if (info === 20) return { value: false, offset: cursor };
+      if (info === 21) return { value: true, offset: cursor };
+      if (info === 22) return { value: null, offset: cursor };
+      throw new WebAuthnVerificationError('Unsupported CBOR simple value');
+    default:
+      throw new WebAuthnVerificationError('Unsupported CBOR major type');
+  }
+}
+
+export function decodeCbor(buf: Buffer): CborValue {
+  return decodeCborItem(buf, 0).value;
+}
+
+// ─── Authenticator data ──────────────────────────────────────────────────────
+
+interface ParsedAuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<CborValue, CborValue>;
+}
+
+function parseAuthenticatorData(authData: Buffer): ParsedAuthenticatorData {
+  if (authData.length < 37) throw new WebAuthnVerificationError('Authenticator data too short');
+  const parsed: ParsedAuthenticatorData = {
+    rpIdHash: authData.subarray(0, 32),
+    flags: authData[32],
+    signCount: authData.readUInt32BE(33),
+  };
+
+  if (parsed.flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    // aaguid (16) | credentialIdLength (2) | credentialId | credentialPublicKey (CBOR)
+    let cursor = 37 + 16;
+    const idLength = authData.readUInt16BE(cursor);
+    cursor += 2;
+    parsed.credentialId = authData.subarray(cursor, cursor + idLength);
+    cursor += idLength;
+    const key = decodeCborItem(authData, cursor).value;
+    if (!(key instanceof Map)) throw new WebAuthnVerificationError('Credential public key is not a COSE map');
+    parsed.credentialPublicKey = key;
+  }
+
+  return parsed;
+}
+
+// ─── COSE key → SPKI ─────────────────────────────────────────────────────────
+
+function coseBytes(key: Map<CborValue, CborValue>, label: number): string {
+  const value = key.get(label);
+  if (!Buffer.isBuffer(value)) throw new WebAuthnVerificationError(`COSE key parameter ${label} missing`);
+  return value.toString('base64url');
+}
+
+function coseKeyToSpki(key: Map<CborValue, CborValue>): { publicKey: string; algorithm: number } {
+  const kty = key.get(1);
+  const alg = key.get(3);
+
+  let jwk: Record<string, string>;
+  if (kty === 2 && alg === COSE_ALG_ES256 && key.get(-1) === 1) {
+    jwk = { kty: 'EC', crv: 'P-256', x: coseBytes(key, -2), y: coseBytes(key, -3) };
+  } else if (kty === 1 && alg === COSE_ALG_EDDSA && key.get(-1) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: coseBytes(key, -2) };
+  } else if (kty === 3 && alg === COSE_ALG_RS256) {
+    jwk = { kty: 'RSA', n: coseBytes(key, -1), e: coseBytes(key, -2) };
+  } else {
+    throw new WebAuthnVerificationError('Unsupported credential algorithm');
+  }
+
+  const der = createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'der' });
+  return { publicKey: der.toString('base64url'), algorithm: alg as number };
+}
+
+// ─── Shared checks ───────────────────────────────────────────────────────────
+
+function sha256(data: Buffer | string): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+function checkClientData(
+  clientDataJSON: Buffer,
+  expectedType: 'webauthn.create' | 'webauthn.get',
+  expectedChallenge: string,
+  rp: RelyingParty,
+): void {
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown };
+  try {
+    clientData = JSON.parse(clientDataJSON.toString('utf8'));
+  } catch {
+    throw new WebAuthnVerificationError('clientDataJSON is not valid JSON');
+  }
+  if (clientData.type !== expectedType) {
+    throw new WebAuthnVerificationError(`Unexpected client data type (expected ${expectedType})`);
+  }
+  if (clientData.challenge !== expectedChallenge) {
+    throw new WebAuthnVerificationError('Challenge mismatch');
+  }
+  if (typeof clientData.origin !== 'string' || !rp.origins.includes(clientData.origin)) {
+    throw new WebAuthnVerificationError('Origin not allowed');
+  }
+}
+
+function checkAuthenticatorFlags(
+  authData: ParsedAuthenticatorData,
+  rp: RelyingParty,
+  requireUserVerification: boolean,
+): void {
+  if (!timingSafeEqual(authData.rpIdHash, sha256(rp.id))) {
+    throw new WebAuthnVerificationError('RP ID hash mismatch');
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw new WebAuthnVerificationError('User presence flag not set');
+  }
+  if (requireUserVerification && !(authData.flags & FLAG_USER_VERIFIED)) {
+    throw new WebAuthnVerificationError('User verification required');
+  }
+}
+
+function decodeBase64Url(value: string, field: string): Buffer {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new WebAuthnVerificationError(`${field} must be base64url`);
+  }
+  return Buffer.from(value, 'base64url');
+}
+
+// ─── Registration ────────────────────────────────────────────────────────────
+
+export function verifyRegistrationResponse(params: {
+  credential: RegistrationCredentialJSON;
+  expectedChallenge: string;
+  rp: RelyingParty;
+  requireUserVerification?: boolean;
+}): VerifiedRegistration {
+  const { credential, expectedChallenge, rp } = params;
+  if (credential.type !== 'public-key') throw new WebAuthnVerificationError('Unexpected credential type');
+
+  const clientDataJSON = decodeBase64Url(credential.response.clientDataJSON, 'clientDataJSON');
+  checkClientData(clientDataJSON, 'webauthn.create', expectedChallenge, rp);
+
+  const attestation = decodeCbor(decodeBase64Url(credential.response.attestationObject, 'attestationObject'));
+  if (!(attestation instanceof Map) || !Buffer.isBuffer(attestation.get('authData'))) {
+    throw new WebAuthnVerificationError('attestationObject has no authData');
+  }
+
+  const authData = parseAuthenticatorData(attestation.get('authData') as Buffer);
+  checkAuthenticatorFlags(authData, rp, params.requireUserVerification ?? false);
+
+  if (!authData.credentialId || !authData.credentialPublicKey) {
+    throw new WebAuthnVerificationError('Attested credential data missing');
+  }
+  const credentialId = authData.credentialId.toString('base64url');
+  if (credentialId !== credential.rawId) {
+    throw new WebAuthnVerificationError('Credential ID mismatch');
+  }
+
+  const { publicKey, algorithm } = coseKeyToSpki(authData.credentialPublicKey);
+  return {
+    credentialId,
+    publicKey,
+    algorithm,
+    signCount: authData.signCount,
+    userVerified: Boolean(authData.flags & FLAG_USER_VERIFIED),
+  };
+}
+
+// ─── Assertion ───────────────────────────────────────────────────────────────
+
+export function verifyAssertionResponse(params: {
+  credential: AssertionCredentialJSON;
+  expectedChallenge: string;
+  rp: RelyingParty;
+  publicKey: string;
+  algorithm: number;
+  storedSignCount: number;
+  requireUserVerification?: boolean;
+}): VerifiedAssertion {
+  const { credential, expectedChallenge, rp } = params;
+  if (credential.type !== 'public-key') throw new WebAuthnVerificationError('Unexpected credential type');
+
+  const clientDataJSON = decodeBase64Url(credential.response.clientDataJSON, 'clientDataJSON');
+  checkClientData(clientDataJSON, 'webauthn.get', expectedChallenge, rp);
+
+  const rawAuthData = decodeBase64Url(credential.response.authenticatorData, 'authenticatorData');
+  const authData = parseAuthenticatorData(rawAuthData);
+  checkAuthenticatorFlags(authData, rp, params.requireUserVerification ?? false);
+
+  const key = createPublicKey({ key: Buffer.from(params.publicKey, 'base64url'), format: 'der', type: 'spki' });
+  const signedData = Buffer.concat([rawAuthData, sha256(clientDataJSON)]);
+  const signature = decodeBase64Url(credential.response.signature, 'signature');
+  const digest = params.algorithm === COSE_ALG_EDDSA ? null : 'sha256';
+
+  if (!cryptoVerify(digest, signedData, key, signature)) {
+    throw new WebAuthnVerificationError('Signature verification failed');
+  }
+
+  // Counters that stop increasing indicate a cloned authenticator. Authenticators
+  // that do not implement counters always report 0, which is accepted.
+  if ((authData.signCount !== 0 || params.storedSignCount !== 0) && authData.signCount <= params.storedSignCount) {
+    throw new WebAuthnVerificationError('Signature counter did not increase');
+  }
+
+  return {
+    signCount: authData.signCount,
+    userVerified: Boolean(authData.flags & FLAG_USER_VERIFIED),
+  };
+}
@@ -25,6 +25,7 @@ import { createHash, randomUUID } from 'crypto';
 import { Prisma } from '@prisma/client';
 import type { PrismaClient } from '@prisma/client';
 import type { StateMachineService } from './stateMachine.service.js';
+import { publishDomainEvent } from '../events/domainEmitter.js';
 
 // ─── Error Classes ────────────────────────────────────────────────────────────
 
@@ -220,6 +221,22 @@ export class NetworkPoolRfqQuoteNoLongerSubmittedError extends Error {
   }
 }
 
+// ─── Line-Level Quote / Split Award Error Classes ─────────────────────────────
+
+export class NetworkPoolRfqSupplierQuoteLineInvalidError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkPoolRfqSupplierQuoteLineInvalidError';
+  }
+}
+
+export class NetworkPoolRfqSplitAwardInvalidError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkPoolRfqSplitAwardInvalidError';
+  }
+}
+
 // ─── Input / Record Types ─────────────────────────────────────────────────────
 
 export interface IssueNetworkPoolRfqInput {
@@ -316,20 +333,72 @@ export interface NetworkPoolRfqSupplierInviteSupplierRecord {
   updated_at:           string;
 }
 
+/** One priced RFQ line inside a line-level supplier quote. */
+export interface SubmitQuoteLineInput {
+  /** RFQ line being quoted. Must belong to the invite's RFQ. */
+  rfq_line_id:     string;
+  /** Positive unit price in the quote currency. */
+  unit_price:      string | number;
+  /** Positive quantity offered, in the RFQ line qty_unit. Must not exceed the RFQ line qty. */
+  quoted_qty:      string | number;
+  lead_time_days?: number | null;
+  line_note?:      string | null;
+}
+
 /** Input for submitting a supplier quote against an accepted invite. */
 export interface SubmitQuoteInput {
-  /** Required. Positive decimal (validated at route layer by Zod). */
-  quote_amount:    string | number;
+  /**
+   * Positive decimal (validated at route layer by Zod). Required unless `lines` is given;
+   * with lines it is optional and, when present, must equal the sum of the line amounts.
+   */
+  quote_amount?:   string | number | null;
   /** Required. ISO 4217 currency code (3–10 chars). */
   currency:        string;
   /** Optional. ISO datetime string or Date. QD-3: stored but not enforced in Phase 1C. */
   validity_until?: string | Date | null;
   /** Optional. Free-text supplier note. Max 5000 chars (validated at route layer). */
   supplier_note?:  string | null;
+  /** Optional. Per-line prices; a supplier may quote a subset of the RFQ lines. */
+  lines?:          SubmitQuoteLineInput[] | null;
   /** Optional Fastify request ID for log correlation. */
   request_id?:     string | null;
 }
 
+/** Priced quote line — shared by the supplier and owner quote DTOs. Decimals as strings. */
+export interface NetworkPoolRfqSupplierQuoteLineRecord {
+  id:             string;
+  rfq_line_id:    string;
+  unit_price:     string;
+  quoted_qty:     string;
+  line_amount:    string;
+  lead_time_days: number | null;
+  line_note:      string | null;
+  created_at:     string;
+}
+
+/**
+ * RFQ line as shown to the pool owner and to invited suppliers.
+ * Excludes snapshot/demand lineage ids — member demand breakdown is never exposed.
+ */
+export interface NetworkPoolRfqLineRecord {
+  id:                         string;
+  rfq_id:                     string;
+  source_line_ref:            string;
+  commodity_category:         string;
+  product_category:           string | null;
+  product_spec_summary:       string | null;
+  qty:                        string;
+  qty_unit:                   string;
+  quality_requirements:       unknown;
+  certification_requirements: unknown;
+  packaging_requirements:     unknown;
+  delivery_location:          string | null;
+  delivery_window_start:      string | null;
+  delivery_window_end:        string | null;
+  tolerance_pct:              string | null;
+  priority:                   number | null;
+}
+
 /**
  * Supplier-safe quote record. QD-5: metadataInternalJson, ownerOrgId, rfqId, poolId
  * and supplierOrgId are NEVER exposed to the supplier.
@@ -349,6 +418,8 @@ export interface NetworkPoolRfqSupplierQuoteSupplierRecord {
   submitted_by_user_id: string | null;
   withdrawn_at:         string | null;
   withdraw_reason:      string | null;
+  /** Per-line prices. Empty for whole-RFQ (amount-only) quotes. */
+  lines:                NetworkPoolRfqSupplierQuoteLineRecord[];
   created_at:           string;
   updated_at:           string;
 }
@@ -373,6 +444,8 @@ export interface NetworkPoolRfqSupplierQuoteOwnerRecord {
   accepted_at:          string | null;
   rejected_at:          string | null;
   reject_reason:        string | null;
+  /** Per-line prices. Empty for whole-RFQ (amount-only) quotes. */
+  lines:                NetworkPoolRfqSupplierQuoteLineRecord[];
   created_at:           string;
   updated_at:           string;
 }
@@ -386,6 +459,59 @@ export interface RejectQuoteInput {
   request_id?:    string | null;
 }
 
+// ─── Split Award Input / Record Types ────────────────────────────────────────
+
+/** One allocation of (part of) an RFQ line to a supplier quote. */
+export interface SplitAwardAllocationInput {
+  rfq_line_id: string;
+  quote_id:    string;
+  /** Positive quantity; must not exceed the quoted_qty on the matching quote line. */
+  awarded_qty: string | number;
+}
+
+/** Canonical allocation as frozen into a G-021 split award request. */
+export interface SplitAwardAllocation {
+  rfq_line_id: string;
+  quote_id:    string;
+  awarded_qty: string;
+}
+
+export interface AwardLinesInput {
+  allocations: SplitAwardAllocationInput[];
+  request_id?: string | null;
+}
+
+export interface RequestSplitAwardInput {
+  allocations:    SplitAwardAllocationInput[];
+  request_reason: string;
+  request_id?:    string | null;
+}
+
+/** Owner-facing line award DTO. Decimals serialised as strings. */
+export interface NetworkPoolRfqLineAwardRecord {
+  id:                 string;
+  rfq_id:             string;
+  pool_id:            string;
+  rfq_line_id:        string;
+  quote_id:           string;
+  quote_line_id:      string;
+  supplier_org_id:    string;
+  awarded_qty:        string;
+  unit_price:         string;
+  award_amount:       string;
+  currency:           string;
+  approval_id:        string | null;
+  awarded_by_user_id: string | null;
+  awarded_at:         string;
+  created_at:         string;
+}
+
+export interface SplitAwardResult {
+  awards: NetworkPoolRfqLineAwardRecord[];
+  /** Quotes that received at least one allocation — all now ACCEPTED. */
+  quotes: NetworkPoolRfqSupplierQuoteOwnerRecord[];
+}
+
 // ─── G-021: Award Maker-Checker Input / Record Types ─────────────────────────
 
 export interface RequestAwardInput {
@@ -414,12 +540,17 @@ export interface AwardApprovalRequest {
   to_state_key:         string;
   requested_by_user_id: string | null;
   request_reason:       string | null;
+  /** Present only on split award requests — the frozen line allocations. */
+  split_allocations?:   SplitAwardAllocation[];
   created_at:           string;
 }
 
 export interface AwardApproved {
   approval: AwardApprovalRequest;
+  /** Accepted quote. For a split award: the quote of the first frozen allocation. */
   quote:    NetworkPoolRfqSupplierQuoteOwnerRecord;
+  /** Present only when a split award was approved. */
+  awards?:  NetworkPoolRfqLineAwardRecord[];
 }
 
 export interface AwardRejected {
@@ -429,6 +560,37 @@ export interface AwardRejected {
 /** TTL for award approval requests. D-021-A. */
 const AWARD_APPROVAL_TTL_MS = 72 * 60 * 60 * 1000; // 72 hours
 
+/** Quote line include — quote DTOs always carry their priced lines. */
+const QUOTE_LINES_INCLUDE = { lines: { orderBy: { createdAt: 'asc' } } } as const;
+
+/** Internal: one validated allocation ready to be written as a line award row. */
+interface PlannedLineAward {
+  rfqLineId:     string;
+  quoteId:       string;
+  quoteLineId:   string;
+  supplierOrgId: string;
+  awardedQty:    Prisma.Decimal;
+  unitPrice:     Prisma.Decimal;
+  awardAmount:   Prisma.Decimal;
+  currency:      string;
+}
+
+/** unit price × qty, rounded half-up to 2 dp (DECIMAL(18,2) money columns). */
+function computeLineAmount(unitPrice: Prisma.Decimal, qty: Prisma.Decimal): Prisma.Decimal {
+  return unitPrice.times(qty).toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+/** Parse a positive decimal; returns null for non-numeric or non-positive values. */
+function parsePositiveDecimal(value: string | number | null | undefined): Prisma.Decimal | null {
+  if (value == null || value === '') return null;
+  try {
+    const d = new Prisma.Decimal(String(value));
+    return d.isFinite() && d.greaterThan(0) ? d : null;
+  } catch {
+    return null;
+  }
+}
+
 // ─── Service ──────────────────────────────────────────────────────────────────
 
 export class NetworkPoolRfqService {
@@ -1345,6 +1507,7 @@ export class NetworkPoolRfqService {
         ? new Date(row['withdrawnAt'] as string | Date).toISOString()
         : null,
       withdraw_reason:      row['withdrawReason'] != null ? String(row['withdrawReason']) : null,
+      lines:                this.toQuoteLineRecords(row['lines']),
       created_at:           new Date(row['createdAt'] as string | Date).toISOString(),
       updated_at:           new Date(row['updatedAt'] as string | Date).toISOString(),
     };
@@ -1389,11 +1552,78 @@ export class NetworkPoolRfqService {
         ? new Date(row['rejectedAt'] as string | Date).toISOString()
         : null,
       reject_reason:        row['rejectReason'] != null ? String(row['rejectReason']) : null,
+      lines:                this.toQuoteLineRecords(row['lines']),
       created_at:           new Date(row['createdAt'] as string | Date).toISOString(),
       updated_at:           new Date(row['updatedAt'] as string | Date).toISOString(),
     };
   }
 
+  // ── toQuoteLineRecords ────────────────────────────────────────────────────
+
+  /** Maps included quote line rows; absent include (e.g. plain update result) → []. */
+  private toQuoteLineRecords(rows: unknown): NetworkPoolRfqSupplierQuoteLineRecord[] {
+    if (!Array.isArray(rows)) return [];
+    return (rows as Record<string, unknown>[]).map((row) => ({
+      id:             String(row['id']),
+      rfq_line_id:    String(row['rfqLineId']),
+      unit_price:     String(row['unitPrice']),
+      quoted_qty:     String(row['quotedQty']),
+      line_amount:    String(row['lineAmount']),
+      lead_time_days: row['leadTimeDays'] != null ? Number(row['leadTimeDays']) : null,
+      line_note:      row['lineNote'] != null ? String(row['lineNote']) : null,
+      created_at:     new Date(row['createdAt'] as string | Date).toISOString(),
+    }));
+  }
+
+  // ── toRfqLineRecord ───────────────────────────────────────────────────────
+
+  private toRfqLineRecord(row: Record<string, unknown>): NetworkPoolRfqLineRecord {
+    return {
+      id:                         String(row['id']),
+      rfq_id:                     String(row['rfqId']),
+      source_line_ref:            String(row['sourceLineRef']),
+      commodity_category:         String(row['commodityCategory']),
+      product_category:           row['productCategory'] != null ? String(row['productCategory']) : null,
+      product_spec_summary:       row['productSpecSummary'] != null ? String(row['productSpecSummary']) : null,
+      qty:                        String(row['qty']),
+      qty_unit:                   String(row['qtyUnit']),
+      quality_requirements:       row['qualityRequirementsJson'] ?? null,
+      certification_requirements: row['certificationRequirementsJson'] ?? null,
+      packaging_requirements:     row['packagingRequirementsJson'] ?? null,
+      delivery_location:          row['deliveryLocation'] != null ? String(row['deliveryLocation']) : null,
+      delivery_window_start:      row['deliveryWindowStart'] != null
+        ? new Date(row['deliveryWindowStart'] as string | Date).toISOString()
+        : null,
+      delivery_window_end:        row['deliveryWindowEnd'] != null
+        ? new Date(row['deliveryWindowEnd'] as string | Date).toISOString()
+        : null,
+      tolerance_pct:              row['tolerancePct'] != null ? String(row['tolerancePct']) : null,
+      priority:                   row['priority'] != null ? Number(row['priority']) : null,
+    };
+  }
+
+  // ── toLineAwardRecord ─────────────────────────────────────────────────────
+
+  private toLineAwardRecord(row: Record<string, unknown>): NetworkPoolRfqLineAwardRecord {
+    return {
+      id:                 String(row['id']),
+      rfq_id:             String(row['rfqId']),
+      pool_id:            String(row['poolId']),
+      rfq_line_id:        String(row['rfqLineId']),
+      quote_id:           String(row['quoteId']),
+      quote_line_id:      String(row['quoteLineId']),
+      supplier_org_id:    String(row['supplierOrgId']),
+      awarded_qty:        String(row['awardedQty']),
+      unit_price:         String(row['unitPrice']),
+      award_amount:       String(row['awardAmount']),
+      currency:           String(row['currency']),
+      approval_id:        row['approvalId'] != null ? String(row['approvalId']) : null,
+      awarded_by_user_id: row['awardedByUserId'] != null ? String(row['awardedByUserId']) : null,
+      awarded_at:         new Date(row['awardedAt'] as string | Date).toISOString(),
+      created_at:         new Date(row['createdAt'] as string | Date).toISOString(),
+    };
+  }
+
   // ── getSupplierQuote ──────────────────────────────────────────────────────
 
   /**
@@ -1408,7 +1638,8 @@ export class NetworkPoolRfqService {
     inviteId: string,
   ): Promise<NetworkPoolRfqSupplierQuoteSupplierRecord> {
     const row = await (this.db as any).networkPoolRfqSupplierQuote.findFirst({
-      where: { inviteId, supplierOrgId: orgId },
+      where:   { inviteId, supplierOrgId: orgId },
+      include: QUOTE_LINES_INCLUDE,
     });
 
     if (!row) {
@@ -1432,6 +1663,10 @@ export class NetworkPoolRfqService {
    * QD-8: If RFQ status === 'ISSUED', update to 'QUOTED' and write a second lifecycle log.
    *        If RFQ status === 'QUOTED', skip the RFQ update (already in target state).
    *        If CANCELLED / EXPIRED / ACCEPTED / REJECTED → throw NetworkPoolRfqSupplierQuoteInvalidInputError.
+   * Line-level quotes: when `lines` is given each line must reference a distinct line of the
+   *        invite's RFQ with 0 < quoted_qty <= line qty. quoteAmount is stored as the sum of the
+   *        line amounts; a caller-supplied quote_amount must match it.
+   *        → NetworkPoolRfqSupplierQuoteLineInvalidError.
    */
   async submitQuote(
     orgId:    string,
@@ -1477,6 +1712,33 @@ export class NetworkPoolRfqService {
         );
       }
 
+      // 4b. Line-level quote: validate against the RFQ lines and derive the aggregate amount
+      const plannedLines = input.lines && input.lines.length > 0
+        ? await this.planQuoteLines(tx, String(invite.rfqId), input.lines)
+        : null;
+      let quoteAmount: string | number;
+      if (plannedLines) {
+        const total = plannedLines.reduce(
+          (sum, line) => sum.plus(line.lineAmount),
+          new Prisma.Decimal(0),
+        );
+        if (input.quote_amount != null) {
+          const declared = parsePositiveDecimal(input.quote_amount);
+          if (!declared || !declared.toDecimalPlaces(2).equals(total)) {
+            throw new NetworkPoolRfqSupplierQuoteLineInvalidError(
+              `quote_amount ${String(input.quote_amount)} does not match the sum of line amounts ${total.toFixed(2)}.`,
+            );
+          }
+        }
+        quoteAmount = total.toFixed(2);
+      } else if (input.quote_amount != null) {
+        quoteAmount = input.quote_amount;
+      } else {
+        throw new NetworkPoolRfqSupplierQuoteLineInvalidError(
+          'Either quote_amount or at least one quote line is required.',
+        );
+      }
+
       // 5. Generate quoteRef — design §13.1 format: 'SQ-' + 16 hex chars uppercased
       const quoteRef = 'SQ-' + randomUUID().replace(/-/g, '').slice(0, 16).toUpperCase();
 
@@ -1492,7 +1754,7 @@ export class NetworkPoolRfqService {
           inviteId:          inviteId,
           quoteRef:          quoteRef,
           status:            'SUBMITTED',
-          quoteAmount:       input.quote_amount,
+          quoteAmount:       quoteAmount,
           currency:          input.currency,
           validityUntil:     input.validity_until != null
             ? new Date(input.validity_until as string)
@@ -1505,6 +1767,29 @@ export class NetworkPoolRfqService {
         },
       });
 
+      // 6b. Insert priced quote lines (immutable children of the quote)
+      const createdLines: unknown[] = [];
+      for (const line of plannedLines ?? []) {
+        createdLines.push(
+          await tx.networkPoolRfqSupplierQuoteLine.create({
+            data: {
+              quoteId:       String(created.id),
+              rfqLineId:     line.rfqLineId,
+              ownerOrgId:    String(invite.ownerOrgId),
+              supplierOrgId: orgId,
+              rfqId:         String(invite.rfqId),
+              poolId:        String(invite.poolId),
+              unitPrice:     line.unitPrice.toString(),
+              quotedQty:     line.quotedQty.toString(),
+              lineAmount:    line.lineAmount.toFixed(2),
+              leadTimeDays:  line.leadTimeDays,
+              lineNote:      line.lineNote,
+              createdAt:     now,
+            },
+          }),
+        );
+      }
+
       // 7. QD-7: Write lifecycle log for quote_submitted
       //    entityType/entityId follow the existing POOL-anchored pattern (schema constraint:
       //    fromStateKey and toStateKey are non-nullable; pool state is unchanged).
@@ -1558,12 +1843,108 @@ export class NetworkPoolRfqService {
         });
       }
 
-      return created;
+      return { ...created, lines: createdLines };
     });
 
     return this.toQuoteSupplierRecord(createdRow as Record<string, unknown>);
   }
 
+  // ── planQuoteLines ────────────────────────────────────────────────────────
+
+  /**
+   * Validates submitted quote lines against the RFQ lines and computes line amounts.
+   * Runs inside the submitQuote transaction under the supplier org context — the
+   * invited-supplier RLS policy on network_pool_rfq_lines makes the lines visible.
+   */
+  private async planQuoteLines(
+    tx:    Prisma.TransactionClient,
+    rfqId: string,
+    lines: SubmitQuoteLineInput[],
+  ): Promise<Array<{
+    rfqLineId:    string;
+    unitPrice:    Prisma.Decimal;
+    quotedQty:    Prisma.Decimal;
+    lineAmount:   Prisma.Decimal;
+    leadTimeDays: number | null;
+    lineNote:     string | null;
+  }>> {
+    const rfqLines = await tx.networkPoolRfqLine.findMany({
+      where:  { rfqId },
+      select: { id: true, qty: true },
+    }) as Array<{ id: string; qty: unknown }>;
+    const lineQtyById = new Map(rfqLines.map((l) => [String(l.id), new Prisma.Decimal(String(l.qty))]));
+
+    const seen = new Set<string>();
+    return lines.map((line) => {
+      const lineQty = lineQtyById.get(line.rfq_line_id);
+      if (!lineQty) {
+        throw new NetworkPoolRfqSupplierQuoteLineInvalidError(
+          `RFQ line ${line.rfq_line_id} does not belong to this RFQ.`,
+        );
+      }
+      if (seen.has(line.rfq_line_id)) {
+        throw new NetworkPoolRfqSupplierQuoteLineInvalidError(
+          `RFQ line ${line.rfq_line_id} is quoted more than once.`,
+        );
+      }
+      seen.add(line.rfq_line_id);
+
+      const unitPrice = parsePositiveDecimal(line.unit_price);
+      const quotedQty = parsePositiveDecimal(line.quoted_qty);
+      if (!unitPrice || !quotedQty) {
+        throw new NetworkPoolRfqSupplierQuoteLineInvalidError(
+          `RFQ line ${line.rfq_line_id}: unit_price and quoted_qty must be positive decimals.`,
+        );
+      }
+      if (quotedQty.greaterThan(lineQty)) {
+        throw new NetworkPoolRfqSupplierQuoteLineInvalidError(
+          `RFQ line ${line.rfq_line_id}: quoted_qty ${quotedQty.toString()} exceeds the requested qty ${lineQty.toString()}.`,
+        );
+      }
+
+      return {
+        rfqLineId:    line.rfq_line_id,
+        unitPrice,
+        quotedQty,
+        lineAmount:   computeLineAmount(unitPrice, quotedQty),
+        leadTimeDays: line.lead_time_days ?? null,
+        lineNote:     line.line_note ?? null,
+      };
+    });
+  }
+
+  // ── listRfqLinesForSupplierInvite ─────────────────────────────────────────
+
+  /**
+   * Supplier lists the lines of the RFQ behind an ACCEPTED invite, so it can quote per line.
+   * Non-ACCEPTED invites → NetworkPoolRfqSupplierQuoteInviteNotAcceptedError (same rule as QD-1).
+   */
+  async listRfqLinesForSupplierInvite(
+    orgId:    string,
+    inviteId: string,
+  ): Promise<NetworkPoolRfqLineRecord[]> {
+    const invite = await this.db.networkPoolRfqSupplierInvite.findFirst({
+      where: { id: inviteId, supplierOrgId: orgId },
+    });
+    if (!invite) {
+      throw new NetworkPoolRfqSupplierInviteNotFoundError();
+    }
+
+    const effectiveStatus = this.computeEffectiveInviteStatus(
+      String(invite.status),
+      invite.expiresAt ?? null,
+    );
+    if (effectiveStatus !== 'ACCEPTED') {
+      throw new NetworkPoolRfqSupplierQuoteInviteNotAcceptedError(effectiveStatus);
+    }
+
+    const rows = await this.db.networkPoolRfqLine.findMany({
+      where:   { rfqId: String(invite.rfqId) },
+      orderBy: [{ priority: 'asc' }, { sourceLineRef: 'asc' }],
+    });
+    return (rows as Record<string, unknown>[]).map((r) => this.toRfqLineRecord(r));
+  }
+
   // ── listOwnerQuotes ───────────────────────────────────────────────────────
 
   /**
@@ -1578,6 +1959,7 @@ export class NetworkPoolRfqService {
     const rows = await (this.db as any).networkPoolRfqSupplierQuote.findMany({
       where:   { ownerOrgId, poolId, rfqId },
       orderBy: { submittedAt: 'desc' },
+      include: QUOTE_LINES_INCLUDE,
     });
     return (rows as Record<string, unknown>[]).map((r) => this.toQuoteOwnerRecord(r));
   }
@@ -1768,6 +2150,10 @@ export class NetworkPoolRfqService {
         },
       });
 
+      await this.publishQuoteAwarded(tx, {
+        ownerOrgId, poolId, rfqId, awardType: 'FULL', quotes: [updatedQuote], actorUserId: userId ?? null,
+      });
+
       return updatedQuote;
       },
       { timeout: 30000 },
@@ -1911,6 +2297,7 @@ export class NetworkPoolRfqService {
 
   /** Map pending_approvals DB row → AwardApprovalRequest DTO. */
   private toAwardApprovalRequest(row: Record<string, unknown>): AwardApprovalRequest {
+    const payload = row['frozenPayload'] as Record<string, unknown> | null | undefined;
     return {
       id:                   String(row['id']),
       status:               String(row['status']),
@@ -1921,6 +2308,12 @@ export class NetworkPoolRfqService {
       to_state_key:         String(row['toStateKey']),
       requested_by_user_id: row['requestedByUserId'] != null ? String(row['requestedByUserId']) : null,
       request_reason:       row['requestReason'] != null ? String(row['requestReason']) : null,
+      ...(Array.isArray(payload?.['allocations'])
+        ? {
+            split_allocations: (payload['allocations'] as unknown[])
+              .map((a) => this.decodeAllocation(String(a))),
+          }
+        : {}),
       created_at:           new Date(row['createdAt'] as Date | string).toISOString(),
     };
   }
@@ -2139,6 +2532,8 @@ export class NetworkPoolRfqService {
    * G-021 §4: SM QUOTED→ACCEPTED with CHECKER + makerUserId returns APPLIED.
    * Advances pool to ACCEPTED, accepts quote, mass-rejects others, closes RFQ.
    * Inserts ApprovalSignature; D-021-C DB trigger enforces maker ≠ checker at DB layer.
+   * Split award payloads (frozen `allocations`) re-validate the allocations and write
+   * line award rows instead of accepting a single quote — see approveSplitAwardInTx.
    *
    * @throws NetworkPoolRfqApprovalNotFoundError if approval not found or tampered.
    * @throws NetworkPoolRfqApprovalAlreadyDecidedError if not REQUESTED.
@@ -2185,11 +2580,19 @@ export class NetworkPoolRfqService {
       // 4. Enforce checker ≠ maker
       this.assertMakerCheckerSeparated(approval as Record<string, unknown>, checkerUserId);
 
+      const makerUserId = approval.requestedByUserId as string | null;
+
+      // Split award payloads carry allocations instead of a single quoteId
+      if (Array.isArray(storedPayload['allocations'])) {
+        return this.approveSplitAwardInTx(tx, {
+          orgId, checkerUserId, approvalId, storedPayload, makerUserId, acceptedState, input,
+        });
+      }
+
       // Extract coordinates from frozen payload
       const poolId      = String(storedPayload['poolId']);
       const rfqId       = String(storedPayload['rfqId']);
       const quoteId     = String(storedPayload['quoteId']);
-      const makerUserId = (approval as any).requestedByUserId as string | null;
 
       // 5. Re-load quote; verify still SUBMITTED
       const quote = await (tx as any).networkPoolRfqSupplierQuote.findFirst({
@@ -2276,15 +2679,26 @@ export class NetworkPoolRfqService {
         },
       });
 
+      await this.publishQuoteAwarded(tx, {
+        ownerOrgId: orgId, poolId, rfqId, awardType: 'FULL', quotes: [updatedQuote], actorUserId: checkerUserId,
+      });
+
       return {
         approval: updatedApproval as Record<string, unknown>,
         quote:    updatedQuote   as Record<string, unknown>,
+      } as {
+        approval: Record<string, unknown>;
+        quote:    Record<string, unknown>;
+        awards?:  Record<string, unknown>[];
       };
     }, { timeout: 30000 });
 
     return {
       approval: this.toAwardApprovalRequest(txResult.approval),
       quote:    this.toQuoteOwnerRecord(txResult.quote),
+      ...(txResult.awards
+        ? { awards: txResult.awards.map((r) => this.toLineAwardRecord(r)) }
+        : {}),
     };
   }
 
@@ -2439,4 +2853,762 @@ export class NetworkPoolRfqService {
     }
     return this.toRfqRecord(row as Record<string, unknown>);
   }
+
+  // ── Line-level split awards ───────────────────────────────────────────────
+  //
+  // An RFQ line may be split across several SUBMITTED quotes. Each allocation
+  // (rfq_line_id, quote_id, awarded_qty) becomes one immutable
+  // network_pool_rfq_line_awards row pricing the awarded qty at the quote line's
+  // unit price. Every quote that receives an allocation is ACCEPTED; the other
+  // SUBMITTED quotes are REJECTED (AD-1 equivalent). RFQ → ACCEPTED (QD-8) and the
+  // pool follows the same AD-4 transitions as acceptQuote.
+
+  /** Canonical frozen-payload encoding of one allocation: "{rfqLineId}|{quoteId}|{qty}". */
+  private encodeAllocation(a: SplitAwardAllocation): string {
+    return `${a.rfq_line_id}|${a.quote_id}|${a.awarded_qty}`;
+  }
+
+  private decodeAllocation(encoded: string): SplitAwardAllocation {
+    const [rfqLineId, quoteId, awardedQty] = encoded.split('|');
+    return { rfq_line_id: rfqLineId ?? '', quote_id: quoteId ?? '', awarded_qty: awardedQty ?? '' };
+  }
+
+  /**
+   * Validate allocation shape and normalise quantities.
+   * Non-empty, positive qty, no duplicate (rfq_line_id, quote_id) pair.
+   * Returned allocations are sorted so the frozen payload is order-independent.
+   */
+  private normaliseAllocations(allocations: SplitAwardAllocationInput[]): SplitAwardAllocation[] {
+    if (!Array.isArray(allocations) || allocations.length === 0) {
+      throw new NetworkPoolRfqSplitAwardInvalidError('At least one allocation is required.');
+    }
+    const seen = new Set<string>();
+    const normalised = allocations.map((a) => {
+      const qty = parsePositiveDecimal(a.awarded_qty);
+      if (!qty) {
+        throw new NetworkPoolRfqSplitAwardInvalidError(
+          `Allocation for RFQ line ${a.rfq_line_id}: awarded_qty must be a positive decimal.`,
+        );
+      }
+      const pairKey = `${a.rfq_line_id}|${a.quote_id}`;
+      if (seen.has(pairKey)) {
+        throw new NetworkPoolRfqSplitAwardInvalidError(
+          `RFQ line ${a.rfq_line_id} is allocated to quote ${a.quote_id} more than once.`,
+        );
+      }
+      seen.add(pairKey);
+      return { rfq_line_id: a.rfq_line_id, quote_id: a.quote_id, awarded_qty: qty.toString() };
+    });
+    return normalised.sort((x, y) =>
+      this.encodeAllocation(x).localeCompare(this.encodeAllocation(y)),
+    );
+  }
+
+  /**
+   * Resolve allocations against the RFQ lines and the quotes' priced lines.
+   *
+   * Each quote must exist for this RFQ/owner and be SUBMITTED (else `onNotSubmitted`),
+   * must carry a line for the allocated RFQ line, and awarded_qty ≤ quoted_qty.
+   * Per RFQ line, the sum of awarded_qty must not exceed the requested line qty.
+   */
+  private async loadSplitAwardPlan(
+    tx:             Prisma.TransactionClient,
+    ownerOrgId:     string,
+    rfqId:          string,
+    allocations:    SplitAwardAllocation[],
+    onNotSubmitted: (status: string) => Error,
+  ): Promise<PlannedLineAward[]> {
+    const rfqLines = await tx.networkPoolRfqLine.findMany({
+      where:  { rfqId, ownerOrgId },
+      select: { id: true, qty: true },
+    }) as Array<{ id: string; qty: unknown }>;
+    const lineQtyById = new Map(rfqLines.map((l) => [String(l.id), new Prisma.Decimal(String(l.qty))]));
+
+    const quoteIds = [...new Set(allocations.map((a) => a.quote_id))];
+    const quotes = await tx.networkPoolRfqSupplierQuote.findMany({
+      where:   { id: { in: quoteIds }, rfqId, ownerOrgId },
+      include: QUOTE_LINES_INCLUDE,
+    }) as Array<Record<string, unknown>>;
+    const quoteById = new Map(quotes.map((q) => [String(q['id']), q]));
+
+    const allocatedByLine = new Map<string, Prisma.Decimal>();
+    const plan: PlannedLineAward[] = [];
+
+    for (const allocation of allocations) {
+      const lineQty = lineQtyById.get(allocation.rfq_line_id);
+      if (!lineQty) {
+        throw new NetworkPoolRfqSplitAwardInvalidError(
+          `RFQ line ${allocation.rfq_line_id} does not belong to this RFQ.`,
+        );
+      }
+
+      const quote = quoteById.get(allocation.quote_id);
+      if (!quote) {
+        throw new NetworkPoolRfqOwnerQuoteNotFoundError();
+      }
+      if (String(quote['status']) !== 'SUBMITTED') {
+        throw onNotSubmitted(String(quote['status']));
+      }
+
+      const quoteLines = Array.isArray(quote['lines'])
+        ? quote['lines'] as Array<Record<string, unknown>>
+        : [];
+      const quoteLine = quoteLines.find((l) => String(l['rfqLineId']) === allocation.rfq_line_id);
+      if (!quoteLine) {
+        throw new NetworkPoolRfqSplitAwardInvalidError(
+          `Quote ${allocation.quote_id} has no price for RFQ line ${allocation.rfq_line_id}.`,
+        );
+      }
+
+      const awardedQty = new Prisma.Decimal(allocation.awarded_qty);
+      const quotedQty  = new Prisma.Decimal(String(quoteLine['quotedQty']));
+      if (awardedQty.greaterThan(quotedQty)) {
+        throw new NetworkPoolRfqSplitAwardInvalidError(
+          `Allocation of ${awardedQty.toString()} on RFQ line ${allocation.rfq_line_id} exceeds the ${quotedQty.toString()} quoted by quote ${allocation.quote_id}.`,
+        );
+      }
+
+      const lineTotal = (allocatedByLine.get(allocation.rfq_line_id) ?? new Prisma.Decimal(0)).plus(awardedQty);
+      if (lineTotal.greaterThan(lineQty)) {
+        throw new NetworkPoolRfqSplitAwardInvalidError(
+          `Allocations on RFQ line ${allocation.rfq_line_id} total ${lineTotal.toString()}, exceeding the requested qty ${lineQty.toString()}.`,
+        );
+      }
+      allocatedByLine.set(allocation.rfq_line_id, lineTotal);
+
+      const unitPrice = new Prisma.Decimal(String(quoteLine['unitPrice']));
+      plan.push({
+        rfqLineId:     allocation.rfq_line_id,
+        quoteId:       allocation.quote_id,
+        quoteLineId:   String(quoteLine['id']),
+        supplierOrgId: String(quote['supplierOrgId']),
+        awardedQty,
+        unitPrice,
+        awardAmount:   computeLineAmount(unitPrice, awardedQty),
+        currency:      String(quote['currency']),
+      });
+    }
+
+    return plan;
+  }
+
+  /**
+   * Write line award rows, ACCEPT every allocated quote and REJECT the remaining
+   * SUBMITTED quotes for the RFQ. Caller handles RFQ/pool state.
+   */
+  private async applySplitAward(
+    tx: Prisma.TransactionClient,
+    params: {
+      ownerOrgId: string;
+      poolId:     string;
+      rfqId:      string;
+      plan:       PlannedLineAward[];
+      userId:     string | null;
+      approvalId: string | null;
+      now:        Date;
+    },
+  ): Promise<{ awards: Record<string, unknown>[]; quotes: Record<string, unknown>[] }> {
+    const { ownerOrgId, poolId, rfqId, plan, userId, approvalId, now } = params;
+
+    const awards: Record<string, unknown>[] = [];
+    for (const item of plan) {
+      awards.push(
+        await tx.networkPoolRfqLineAward.create({
+          data: {
+            ownerOrgId,
+            supplierOrgId:   item.supplierOrgId,
+            rfqId,
+            poolId,
+            rfqLineId:       item.rfqLineId,
+            quoteId:         item.quoteId,
+            quoteLineId:     item.quoteLineId,
+            awardedQty:      item.awardedQty.toString(),
+            unitPrice:       item.unitPrice.toString(),
+            awardAmount:     item.awardAmount.toFixed(2),
+            currency:        item.currency,
+            approvalId,
+            awardedByUserId: userId,
+            awardedAt:       now,
+            createdAt:       now,
+          },
+        }),
+      );
+    }
+
+    const awardedQuoteIds = [...new Set(plan.map((p) => p.quoteId))];
+    const quotes: Record<string, unknown>[] = [];
+    for (const quoteId of awardedQuoteIds) {
+      quotes.push(
+        await tx.networkPoolRfqSupplierQuote.update({
+          where:   { id: quoteId },
+          data:    { status: 'ACCEPTED', acceptedAt: now, updatedAt: now },
+          include: QUOTE_LINES_INCLUDE,
+        }),
+      );
+    }
+
+    await tx.networkPoolRfqSupplierQuote.updateMany({
+      where: { rfqId, ownerOrgId, status: 'SUBMITTED', id: { notIn: awardedQuoteIds } },
+      data:  { status: 'REJECTED', rejectedAt: now, updatedAt: now },
+    });
+
+    return { awards, quotes };
+  }
+
+  /**
+   * Publish pool.quote.awarded.v1 to the pool owner and every awarded supplier.
+   * Best-effort — runs in the award transaction so the webhook fan-out commits with it.
+   */
+  private async publishQuoteAwarded(
+    tx: Prisma.TransactionClient,
+    params: {
+      ownerOrgId:  string;
+      poolId:      string;
+      rfqId:       string;
+      awardType:   'FULL' | 'SPLIT';
+      quotes:      Record<string, unknown>[];
+      actorUserId: string | null;
+    },
+  ): Promise<void> {
+    const { ownerOrgId, poolId, rfqId, awardType, quotes, actorUserId } = params;
+    const awards = quotes.map((q) => ({
+      quoteId:       String(q['id']),
+      supplierOrgId: String(q['supplierOrgId']),
+    }));
+    await publishDomainEvent(
+      'pool.quote.awarded.v1',
+      { poolId, rfqId, awardType, awards },
+      {
+        orgId:          ownerOrgId,
+        audienceOrgIds: [ownerOrgId, ...new Set(awards.map((a) => a.supplierOrgId))],
+        actor:          actorUserId ? { type: 'USER', id: actorUserId } : { type: 'SYSTEM', id: null },
+        entity:         { type: 'pool', id: poolId },
+        db:             tx as PrismaClient,
+      },
+    );
+  }
+
+  // ── awardLines ────────────────────────────────────────────────────────────
+
+  /**
+   * Pool owner directly awards RFQ lines across one or more SUBMITTED quotes.
+   *
+   * Same preconditions and pool transitions as acceptQuote (AD-4, QD-8).
+   *
+   * @throws NetworkPoolRfqSplitAwardInvalidError on any allocation rule violation.
+   */
+  async awardLines(
+    ownerOrgId: string,
+    userId:     string | null,
+    poolId:     string,
+    rfqId:      string,
+    input:      AwardLinesInput,
+  ): Promise<SplitAwardResult> {
+    const allocations = this.normaliseAllocations(input.allocations);
+
+    const [quotedState, acceptedState] = await Promise.all([
+      this.db.lifecycleState.findUnique({
+        where:  { entityType_stateKey: { entityType: 'POOL', stateKey: 'QUOTED' } },
+        select: { id: true, stateKey: true },
+      }) as Promise<{ id: string; stateKey: string } | null>,
+      this.db.lifecycleState.findUnique({
+        where:  { entityType_stateKey: { entityType: 'POOL', stateKey: 'ACCEPTED' } },
+        select: { id: true, stateKey: true },
+      }) as Promise<{ id: string; stateKey: string } | null>,
+    ]);
+
+    if (!quotedState) {
+      throw new NetworkPoolRfqInvalidPoolStateError(
+        'POOL lifecycle state QUOTED not found in database.',
+      );
+    }
+    if (!acceptedState) {
+      throw new NetworkPoolRfqInvalidPoolStateError(
+        'POOL lifecycle state ACCEPTED not found in database.',
+      );
+    }
+
+    const result = await this.db.$transaction(
+      async (tx) => {
+        // 1. Load pool; must be CLOSED_FOR_BIDS or QUOTED
+        const pool = await tx.networkPool.findFirst({
+          where:   { id: poolId, orgId: ownerOrgId },
+          include: { lifecycleState: { select: { stateKey: true, id: true } } },
+        });
+        if (!pool) {
+          throw new NetworkPoolRfqPoolNotFoundError();
+        }
+        const poolStateKey: string = pool.lifecycleState.stateKey;
+        if (poolStateKey !== 'CLOSED_FOR_BIDS' && poolStateKey !== 'QUOTED') {
+          throw new NetworkPoolRfqInvalidPoolStateError(
+            `Pool must be in CLOSED_FOR_BIDS or QUOTED state to award lines. Current: '${poolStateKey}'.`,
+          );
+        }
+
+        // 2. Load RFQ; must be QUOTED
+        const rfq = await tx.networkPoolRfq.findFirst({
+          where: { id: rfqId, poolId, ownerOrgId },
+        });
+        if (!rfq) {
+          throw new NetworkPoolRfqRfqNotFoundError();
+        }
+        if (rfq.status !== 'QUOTED') {
+          throw new NetworkPoolRfqTransitionDeniedError(
+            'RFQ_NOT_QUOTED',
+            `RFQ status must be QUOTED to award lines. Current: '${rfq.status}'.`,
+          );
+        }
+
+        // 3. Resolve allocations
+        const plan = await this.loadSplitAwardPlan(
+          tx, ownerOrgId, rfqId, allocations,
+          (status) => new NetworkPoolRfqSupplierQuoteNotInSubmittedError(status),
+        );
+
+        const now = new Date();
+
+        // 4. Award rows + quote status changes
+        const applied = await this.applySplitAward(tx, {
+          ownerOrgId, poolId, rfqId, plan, userId: userId ?? null, approvalId: null, now,
+        });
+
+        // 5. QD-8: RFQ → ACCEPTED (direct DB update)
+        await tx.networkPoolRfq.update({
+          where: { id: rfqId },
+          data:  { status: 'ACCEPTED', updatedAt: now },
+        });
+
+        // 6. AD-4: Pool CLOSED_FOR_BIDS → QUOTED (only if not already QUOTED)
+        if (poolStateKey === 'CLOSED_FOR_BIDS') {
+          const sm1Result = await this.stateMachine.transition(
+            {
+              entityType:   'POOL',
+              entityId:     poolId,
+              orgId:        ownerOrgId,
+              fromStateKey: 'CLOSED_FOR_BIDS',
+              toStateKey:   'QUOTED',
+              actorType:    'TENANT_ADMIN',
+              actorUserId:  userId ?? null,
+              actorAdminId: null,
+              actorRole:    'NC_POOL_ADMIN',
+              reason:       `nc_pool_rfq_split_award_pool_to_quoted: rfq=${rfqId}`,
+              requestId:    input.request_id ?? null,
+            },
+            { db: tx as unknown as PrismaClient },
+          );
+          if (sm1Result.status !== 'APPLIED') {
+            const denied = sm1Result as { status: string; code?: string; message?: string };
+            throw new NetworkPoolRfqTransitionDeniedError(
+              denied.code ?? sm1Result.status,
+              denied.message ?? `SM returned status '${sm1Result.status}'`,
+            );
+          }
+          await tx.networkPool.update({
+            where: { id: poolId },
+            data:  { lifecycleStateId: quotedState.id, updatedAt: now },
+          });
+        }
+
+        // 7. AD-4: Pool QUOTED → ACCEPTED
+        const sm2Result = await this.stateMachine.transition(
+          {
+            entityType:   'POOL',
+            entityId:     poolId,
+            orgId:        ownerOrgId,
+            fromStateKey: 'QUOTED',
+            toStateKey:   'ACCEPTED',
+            actorType:    'TENANT_ADMIN',
+            actorUserId:  userId ?? null,
+            actorAdminId: null,
+            actorRole:    'NC_POOL_ADMIN',
+            reason:       `nc_pool_rfq_split_award_pool_to_accepted: rfq=${rfqId}`,
+            requestId:    input.request_id ?? null,
+          },
+          { db: tx as unknown as PrismaClient },
+        );
+        if (sm2Result.status !== 'APPLIED') {
+          const denied = sm2Result as { status: string; code?: string; message?: string };
+          throw new NetworkPoolRfqTransitionDeniedError(
+            denied.code ?? sm2Result.status,
+            denied.message ?? `SM returned status '${sm2Result.status}'`,
+          );
+        }
+        await tx.networkPool.update({
+          where: { id: poolId },
+          data:  { lifecycleStateId: acceptedState.id, updatedAt: now },
+        });
+
+        // 8. Award event log (ACCEPTED → ACCEPTED)
+        await tx.networkLifecycleLog.create({
+          data: {
+            orgId:           ownerOrgId,
+            entityType:      'POOL',
+            entityId:        poolId,
+            fromStateKey:    'ACCEPTED',
+            toStateKey:      'ACCEPTED',
+            actorUserId:     userId ?? null,
+            actorAdminId:    null,
+            actorType:       'TENANT_ADMIN',
+            actorRole:       'NC_POOL_ADMIN',
+            escalationLevel: null,
+            makerUserId:     null,
+            checkerUserId:   null,
+            aiTriggered:     false,
+            impersonationId: null,
+            reason:          `nc_pool_rfq_split_award_applied: rfq=${rfqId}, pool=${poolId}, awards=${applied.awards.length}, quotes=${applied.quotes.length}`,
+            requestId:       input.request_id ?? null,
+          },
+        });
+
+        await this.publishQuoteAwarded(tx, {
+          ownerOrgId, poolId, rfqId, awardType: 'SPLIT', quotes: applied.quotes, actorUserId: userId ?? null,
+        });
+
+        return applied;
+      },
+      { timeout: 30000 },
+    );
+
+    return {
+      awards: result.awards.map((r) => this.toLineAwardRecord(r)),
+      quotes: result.quotes.map((r) => this.toQuoteOwnerRecord(r)),
+    };
+  }
+
+  // ── requestSplitAward ─────────────────────────────────────────────────────
+
+  /**
+   * Maker requests G-021 approval for a split award.
+   *
+   * Same flow as requestAward; the frozen payload carries the sorted canonical
+   * allocations instead of a single quoteId. Allocations are validated up front
+   * and re-validated by the checker at approval time.
+   *
+   * @throws NetworkPoolRfqAwardRequestAlreadyPendingError on P2002 unique violation.
+   * @throws NetworkPoolRfqSplitAwardInvalidError on any allocation rule violation.
+   */
+  async requestSplitAward(
+    orgId:       string,
+    makerUserId: string,
+    poolId:      string,
+    rfqId:       string,
+    input:       RequestSplitAwardInput,
+  ): Promise<AwardApprovalRequest> {
+    const allocations = this.normaliseAllocations(input.allocations);
+
+    const quotedState = await this.db.lifecycleState.findUnique({
+      where:  { entityType_stateKey: { entityType: 'POOL', stateKey: 'QUOTED' } },
+      select: { id: true, stateKey: true },
+    }) as { id: string; stateKey: string } | null;
+
+    try {
+      const approvalRow = await this.db.$transaction(async (tx) => {
+        // 1. Verify pool ownership
+        const pool = await tx.networkPool.findFirst({
+          where:   { id: poolId, orgId },
+          include: { lifecycleState: { select: { stateKey: true, id: true } } },
+        });
+        if (!pool) {
+          throw new NetworkPoolRfqPoolNotFoundError();
+        }
+        const poolStateKey: string = pool.lifecycleState.stateKey;
+
+        // 2. Verify RFQ is QUOTED
+        const rfq = await tx.networkPoolRfq.findFirst({
+          where: { id: rfqId, poolId, ownerOrgId: orgId },
+        });
+        if (!rfq) {
+          throw new NetworkPoolRfqRfqNotFoundError();
+        }
+        if (rfq.status !== 'QUOTED') {
+          throw new NetworkPoolRfqTransitionDeniedError(
+            'RFQ_NOT_QUOTED',
+            `RFQ status must be QUOTED to request award. Current: '${rfq.status}'.`,
+          );
+        }
+
+        // 3. Validate allocations against current quotes
+        await this.loadSplitAwardPlan(
+          tx, orgId, rfqId, allocations,
+          (status) => new NetworkPoolRfqSupplierQuoteNotInSubmittedError(status),
+        );
+
+        const now = new Date();
+
+        // 4. If pool is CLOSED_FOR_BIDS, advance to QUOTED first
+        if (poolStateKey === 'CLOSED_FOR_BIDS') {
+          if (!quotedState) {
+            throw new NetworkPoolRfqInvalidPoolStateError(
+              'POOL lifecycle state QUOTED not found in database.',
+            );
+          }
+          const sm1Result = await this.stateMachine.transition(
+            {
+              entityType:   'POOL',
+              entityId:     poolId,
+              orgId,
+              fromStateKey: 'CLOSED_FOR_BIDS',
+              toStateKey:   'QUOTED',
+              actorType:    'TENANT_ADMIN',
+              actorUserId:  makerUserId,
+              actorAdminId: null,
+              actorRole:    'NC_POOL_ADMIN',
+              reason:       `nc_pool_rfq_split_award_request_pool_to_quoted: rfq=${rfqId}`,
+              requestId:    input.request_id ?? null,
+            },
+            { db: tx as unknown as PrismaClient },
+          );
+          if (sm1Result.status !== 'APPLIED') {
+            const denied = sm1Result as { status: string; code?: string; message?: string };
+            throw new NetworkPoolRfqTransitionDeniedError(
+              denied.code ?? sm1Result.status,
+              denied.message ?? `SM returned status '${sm1Result.status}'`,
+            );
+          }
+          await tx.networkPool.update({
+            where: { id: poolId },
+            data:  { lifecycleStateId: quotedState.id, updatedAt: now },
+          });
+        } else if (poolStateKey !== 'QUOTED') {
+          throw new NetworkPoolRfqInvalidPoolStateError(
+            `Pool must be in CLOSED_FOR_BIDS or QUOTED state to request award. Current: '${poolStateKey}'.`,
+          );
+        }
+
+        // 5. SM QUOTED→ACCEPTED with TENANT_ADMIN actor → expect PENDING_APPROVAL
+        const smResult = await this.stateMachine.transition(
+          {
+            entityType:   'POOL',
+            entityId:     poolId,
+            orgId,
+            fromStateKey: 'QUOTED',
+            toStateKey:   'ACCEPTED',
+            actorType:    'TENANT_ADMIN',
+            actorUserId:  makerUserId,
+            actorAdminId: null,
+            actorRole:    'NC_POOL_ADMIN',
+            reason:       `nc_pool_rfq_split_award_approval_requested: maker=${makerUserId}, rfq=${rfqId}, allocations=${allocations.length}`,
+            requestId:    input.request_id ?? null,
+          },
+          { db: tx as unknown as PrismaClient },
+        );
+        if (smResult.status !== 'PENDING_APPROVAL') {
+          const denied = smResult as { status: string; code?: string; message?: string };
+          throw new NetworkPoolRfqTransitionDeniedError(
+            denied.code ?? smResult.status,
+            denied.message ?? `SM returned status '${smResult.status}' — expected PENDING_APPROVAL`,
+          );
+        }
+
+        // 6. INSERT pending_approvals row — allocations frozen as sorted canonical strings
+        //    (flat array survives the jsonb round-trip unchanged, so the hash stays stable)
+        const frozenPayload = {
+          orgId,
+          poolId,
+          rfqId,
+          allocations: allocations.map((a) => this.encodeAllocation(a)),
+        };
+        const frozenPayloadHash         = this.hashFrozenPayload(frozenPayload);
+        const makerPrincipalFingerprint = this.buildMakerPrincipalFingerprint('TENANT_ADMIN', makerUserId);
+        const expiresAt                 = new Date(now.getTime() + AWARD_APPROVAL_TTL_MS);
+
+        return await tx.pendingApproval.create({
+          data: {
+            orgId,
+            entityType:                'POOL',
+            entityId:                 poolId,
+            fromStateKey:             'QUOTED',
+            toStateKey:               'ACCEPTED',
+            requestedByUserId:        makerUserId,
+            requestedByAdminId:       null,
+            requestedByActorType:     'TENANT_ADMIN',
+            requestedByRole:          'NC_POOL_ADMIN',
+            requestReason:            input.request_reason,
+            frozenPayload,
+            frozenPayloadHash,
+            makerPrincipalFingerprint,
+            status:                   'REQUESTED',
+            attemptCount:             1,
+            expiresAt,
+            escalationId:             null,
+            aiTriggered:              false,
+            impersonationId:          null,
+            requestId:                input.request_id ?? null,
+          },
+        });
+      }, { timeout: 30000 });
+
+      return this.toAwardApprovalRequest(approvalRow as Record<string, unknown>);
+    } catch (err) {
+      if (
+        err instanceof NetworkPoolRfqPoolNotFoundError              ||
+        err instanceof NetworkPoolRfqInvalidPoolStateError          ||
+        err instanceof NetworkPoolRfqRfqNotFoundError               ||
+        err instanceof NetworkPoolRfqOwnerQuoteNotFoundError        ||
+        err instanceof NetworkPoolRfqSupplierQuoteNotInSubmittedError ||
+        err instanceof NetworkPoolRfqSplitAwardInvalidError         ||
+        err instanceof NetworkPoolRfqTransitionDeniedError
+      ) {
+        throw err;
+      }
+      // Shares the partial unique index with requestAward — one pending POOL award at a time
+      if (
+        err instanceof Prisma.PrismaClientKnownRequestError &&
+        err.code === 'P2002'
+      ) {
+        throw new NetworkPoolRfqAwardRequestAlreadyPendingError();
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * approveAward branch for split award payloads. Runs inside the approveAward
+   * transaction after hash, TTL and maker ≠ checker checks have passed.
+   */
+  private async approveSplitAwardInTx(
+    tx: Prisma.TransactionClient,
+    params: {
+      orgId:         string;
+      checkerUserId: string;
+      approvalId:    string;
+      storedPayload: Record<string, unknown>;
+      makerUserId:   string | null;
+      acceptedState: { id: string };
+      input:         ApproveAwardInput;
+    },
+  ): Promise<{
+    approval: Record<string, unknown>;
+    quote:    Record<string, unknown>;
+    awards:   Record<string, unknown>[];
+  }> {
+    const { orgId, checkerUserId, approvalId, storedPayload, makerUserId, acceptedState, input } = params;
+    const poolId      = String(storedPayload['poolId']);
+    const rfqId       = String(storedPayload['rfqId']);
+    const allocations = (storedPayload['allocations'] as unknown[]).map((a) => this.decodeAllocation(String(a)));
+
+    // 5. Re-validate allocations; every allocated quote must still be SUBMITTED
+    const plan = await this.loadSplitAwardPlan(
+      tx, orgId, rfqId, allocations,
+      (status) => new NetworkPoolRfqQuoteNoLongerSubmittedError(status),
+    );
+
+    const now = new Date();
+
+    // 6. SM QUOTED→ACCEPTED with CHECKER actor → expect APPLIED
+    const smResult = await this.stateMachine.transition(
+      {
+        entityType:    'POOL',
+        entityId:      poolId,
+        orgId,
+        fromStateKey:  'QUOTED',
+        toStateKey:    'ACCEPTED',
+        actorType:     'CHECKER',
+        actorUserId:   checkerUserId,
+        actorAdminId:  null,
+        actorRole:     'NC_POOL_ADMIN',
+        makerUserId:   makerUserId ?? undefined,
+        checkerUserId: checkerUserId,
+        reason:        `nc_pool_rfq_split_award_approved: checker=${checkerUserId}, maker=${makerUserId ?? 'unknown'}, rfq=${rfqId}, allocations=${allocations.length}`,
+        requestId:     input.request_id ?? null,
+      },
+      { db: tx as unknown as PrismaClient },
+    );
+    if (smResult.status !== 'APPLIED') {
+      const denied = smResult as { status: string; code?: string; message?: string };
+      throw new NetworkPoolRfqTransitionDeniedError(
+        denied.code ?? smResult.status,
+        denied.message ?? `SM returned status '${smResult.status}' — expected APPLIED`,
+      );
+    }
+
+    await tx.networkPool.update({
+      where: { id: poolId },
+      data:  { lifecycleStateId: acceptedState.id, updatedAt: now },
+    });
+
+    // 7–8. Award rows, accept allocated quotes, reject the rest
+    const applied = await this.applySplitAward(tx, {
+      ownerOrgId: orgId, poolId, rfqId, plan, userId: checkerUserId, approvalId, now,
+    });
+
+    // 9. QD-8: RFQ → ACCEPTED
+    await tx.networkPoolRfq.update({
+      where: { id: rfqId },
+      data:  { status: 'ACCEPTED', updatedAt: now },
+    });
+
+    // 10. pending_approvals → APPROVED
+    const updatedApproval = await tx.pendingApproval.update({
+      where: { id: approvalId },
+      data:  { status: 'APPROVED', updatedAt: now },
+    });
+
+    // 11. ApprovalSignature (decision='APPROVE')
+    await tx.approvalSignature.create({
+      data: {
+        approvalId,
+        orgId,
+        signerUserId:    checkerUserId,
+        signerAdminId:   null,
+        signerActorType: 'CHECKER',
+        signerRole:      'NC_POOL_ADMIN',
+        decision:        'APPROVE',
+        reason:          input.approve_reason,
+        impersonationId: null,
+      },
+    });
+
+    await this.publishQuoteAwarded(tx, {
+      ownerOrgId: orgId, poolId, rfqId, awardType: 'SPLIT', quotes: applied.quotes, actorUserId: checkerUserId,
+    });
+
+    return {
+      approval: updatedApproval as Record<string, unknown>,
+      quote:    applied.quotes[0] as Record<string, unknown>,
+      awards:   applied.awards,
+    };
+  }
+
+  // ── listRfqLinesForOwner ──────────────────────────────────────────────────
+
+  /**
+   * Owner lists the lines of an RFQ they own (quote comparison matrix rows).
+   * Non-leaking: wrong org/pool/rfq → NetworkPoolRfqRfqNotFoundError.
+   */
+  async listRfqLinesForOwner(
+    ownerOrgId: string,
+    poolId:     string,
+    rfqId:      string,
+  ): Promise<NetworkPoolRfqLineRecord[]> {
+    const rfq = await this.db.networkPoolRfq.findFirst({
+      where:  { id: rfqId, ownerOrgId, poolId },
+      select: { id: true },
+    });
+    if (!rfq) {
+      throw new NetworkPoolRfqRfqNotFoundError();
+    }
+    const rows = await this.db.networkPoolRfqLine.findMany({
+      where:   { rfqId, ownerOrgId },
+      orderBy: [{ priority: 'asc' }, { sourceLineRef: 'asc' }],
+    });
+    return (rows as Record<string, unknown>[]).map((r) => this.toRfqLineRecord(r));
+  }
+
+  // ── listLineAwardsForOwner ────────────────────────────────────────────────
+
+  /**
+   * Owner lists line awards recorded for an RFQ. Returns [] when none exist.
+   */
+  async listLineAwardsForOwner(
+    ownerOrgId: string,
+    poolId:     string,
+    rfqId:      string,
+  ): Promise<NetworkPoolRfqLineAwardRecord[]> {
+    const rows = await this.db.networkPoolRfqLineAward.findMany({
+      where:   { ownerOrgId, poolId, rfqId },
+      orderBy: [{ awardedAt: 'asc' }, { rfqLineId: 'asc' }],
+    });
+    return (rows as Record<string, unknown>[]).map((r) => this.toLineAwardRecord(r));
+  }
 }
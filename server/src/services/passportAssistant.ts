@@ -11,15 +11,16 @@
  *   the system instruction contains an explicit anti-injection directive
  * - On any failure (timeout, budget exhausted, parse error) → deterministic_fallback mode
  * - No retry storm — single model call per request
- * - No streaming
+ * - Streaming (AI-STREAM-001): onDelta receives PII-guarded fragments of the raw
+ *   model output; the returned result is authoritative. Identical prompts are served
+ *   from the tenant response cache (0 tokens); Idempotency-Key replays go through
+ *   runPassportAssistantIdempotent
  *
  * @module passportAssistant
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { z } from 'zod';
 import type { PrismaClient } from '@prisma/client';
-import { config } from '../config/index.js';
 import { withDbContext, type DatabaseContext } from '../lib/database-context.js';
 import {
   loadTenantBudget,
@@ -30,30 +31,35 @@ import {
   BudgetExceededError,
 } from '../lib/aiBudget.js';
 import { AiRateLimitExceededError } from './ai/inferenceService.js';
+import { resolveAiProvider, resolveTenantAiProvider } from './ai/providers/aiProviderFactory.js';
+import type { AiProvider, AiTextResult } from './ai/providers/types.js';
+import { createPiiStreamGuard, scanForPii } from './ai/piiGuard.js';
+import {
+  aiResponseCacheTtlSeconds,
+  buildAiResponseCacheKey,
+  coalesceInFlight,
+  idempotencyCacheKey,
+  loadCachedAiResponse,
+  storeCachedAiResponse,
+} from './ai/aiResponseCache.js';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
+/** Model run by the Gemini provider (GEMINI_TEXT_MODEL); other providers report their own. */
 export const PASSPORT_ASSISTANT_MODEL = 'gemini-2.5-flash' as const;
 export const PASSPORT_ASSISTANT_TIMEOUT_MS = 10_000 as const;
 export const PASSPORT_ASSISTANT_PREFLIGHT_TOKENS = 1500 as const;
+const IDEMPOTENCY_WINDOW_SECONDS = 24 * 60 * 60;
 const RATE_LIMIT_PER_MINUTE = 20 as const;
 const RATE_LIMIT_WINDOW_MS = 60_000 as const;
 const DESCRIPTION_MAX_CHARS = 400 as const;
 
-// ─── TECS-DPP-PASSPORT-NETWORK-019: Gemini client (initialised once) ─────────
-
-let passportGenAI: GoogleGenerativeAI | null = null;
-try {
-  if (config.GEMINI_API_KEY) {
-    passportGenAI = new GoogleGenerativeAI(config.GEMINI_API_KEY);
-  }
-} catch {
-  passportGenAI = null;
-}
-
-/** Returns true when the Gemini client is configured and operational for passport assistant. */
+/**
+ * Returns true when the deployment-level provider for the passport assistant is configured
+ * (AI-PROVIDER-001). A tenant setting can still select a different configured provider.
+ */
 export function isPassportAssistantConfigured(): boolean {
-  return passportGenAI !== null;
+  return resolveAiProvider('passport-assistant') !== null;
 }
 
 // ─── Rate limit (per-tenant, in-memory window) ────────────────────────────────
@@ -106,6 +112,8 @@ export interface PassportAssistantInput {
   monthKey: string;
   prisma: PrismaClient;
   dbContext: DatabaseContext;
+  /** Streams PII-guarded fragments of the raw model output (AI-STREAM-001). */
+  onDelta?: (delta: string) => void;
 }
 
 export interface PassportAssistantRecommendation {
@@ -487,8 +495,125 @@ function parseAiOutput(
   return result.data;
 }
 
+// ─── Model call: response cache + guarded streaming (AI-STREAM-001) ──────────
+
+/**
+ * Serves an unexpired cached response for the same provider, model and prompt, else
+ * makes one model call — streamed through a PiiStreamGuard when input.onDelta is set.
+ * Output containing PII is rejected so the caller falls back. Clean output is cached;
+ * a hit reports 0 tokens, so nothing is metered for it. Cache I/O is best-effort.
+ */
+async function generatePassportAssistantText(
+  provider: AiProvider,
+  input: PassportAssistantInput,
+  prompt: string,
+  systemInstruction: string,
+): Promise<AiTextResult> {
+  const { orgId, prisma, dbContext, onDelta } = input;
+  const ttlSeconds = aiResponseCacheTtlSeconds();
+  const cacheKey =
+    ttlSeconds > 0
+      ? buildAiResponseCacheKey({
+          task: 'passport-assistant',
+          provider: provider.id,
+          model: provider.textModel,
+          systemInstruction,
+          prompt,
+        })
+      : null;
+
+  if (cacheKey) {
+    const cached = await withDbContext(prisma, dbContext, (db) =>
+      loadCachedAiResponse(db, orgId, 'passport-assistant', cacheKey),
+    ).catch(() => null);
+    if (cached) {
+      onDelta?.(cached.text);
+      return { text: cached.text, tokensUsed: 0, model: cached.model ?? provider.textModel };
+    }
+  }
+
+  const request = { task: 'passport-assistant' as const, prompt, systemInstruction };
+  const guard = onDelta ? createPiiStreamGuard() : null;
+  const result =
+    onDelta && guard
+      ? await provider.streamText(request, (delta) => {
+          const safe = guard.push(delta);
+          if (safe) onDelta(safe);
+        })
+      : await provider.generateText(request);
+
+  if (guard?.scan.hasMatches || scanForPii(result.text).hasMatches) {
+    throw new Error('Passport assistant output contained sensitive content');
+  }
+  const tail = guard?.flush();
+  if (onDelta && tail) onDelta(tail);
+
+  if (cacheKey) {
+    await withDbContext(prisma, dbContext, (db) =>
+      storeCachedAiResponse(db, {
+        tenantId: orgId,
+        task: 'passport-assistant',
+        cacheKey,
+        text: result.text,
+        provider: provider.id,
+        model: result.model,
+        tokensUsed: result.tokensUsed,
+        ttlSeconds,
+      }),
+    ).catch(() => undefined);
+  }
+  return result;
+}
+
 // ─── Public API ───────────────────────────────────────────────────────────────
 
+/**
+ * Idempotency wrapper for runPassportAssistantInference (AI-STREAM-001).
+ *
+ * With a key, a stored result from the last 24 h is replayed without running
+ * inference, and a duplicate arriving while the first is in flight shares its
+ * result. Every result is stored, fallbacks included, so a retry never meters the
+ * budget twice. Without a key, `run` is called directly.
+ */
+export async function runPassportAssistantIdempotent(
+  ctx: Pick<PassportAssistantInput, 'orgId' | 'prisma' | 'dbContext'> & {
+    idempotencyKey?: string;
+  },
+  run: () => Promise<PassportAssistantResult>,
+): Promise<PassportAssistantResult> {
+  const idempotencyKey = ctx.idempotencyKey?.trim();
+  if (!idempotencyKey) {
+    return run();
+  }
+  const { orgId, prisma, dbContext } = ctx;
+  const cacheKey = idempotencyCacheKey(idempotencyKey);
+
+  return coalesceInFlight(`passport-assistant:${orgId}:${idempotencyKey}`, async () => {
+    const stored = await withDbContext(prisma, dbContext, (db) =>
+      loadCachedAiResponse(db, orgId, 'passport-assistant', cacheKey),
+    ).catch(() => null);
+    if (stored) {
+      return JSON.parse(stored.text) as PassportAssistantResult;
+    }
+
+    const result = await run();
+    await withDbContext(prisma, dbContext, (db) =>
+      storeCachedAiResponse(db, {
+        tenantId: orgId,
+        task: 'passport-assistant',
+        cacheKey,
+        text: JSON.stringify(result),
+        provider: null,
+        model: null,
+        tokensUsed: 0,
+        ttlSeconds: IDEMPOTENCY_WINDOW_SECONDS,
+      }),
+    ).catch(() => undefined);
+    return result;
+  });
+}
+
+
 /**
  * Run AI-assisted passport quality guidance.
  *
@@ -496,7 +621,7 @@ function parseAiOutput(
  * BudgetExceededError and AiRateLimitExceededError (re-thrown for
  * the route layer to convert to HTTP 429).
  *
- * All other failures (timeout, Gemini error, parse failure, DB error
+ * All other failures (timeout, provider error, parse failure, DB error
  * during budget check) → deterministic_fallback mode.
  *
  * humanReviewRequired: true is ALWAYS set in the returned assistant object.
@@ -517,8 +642,9 @@ export async function runPassportAssistantInference(
     dbContext,
   } = input;
 
-  // ── Provider availability check ──
-  if (!passportGenAI) {
+  // ── Provider availability check (tenant setting first) ──
+  const passportProvider = await resolveTenantAiProvider(prisma, dbContext, 'passport-assistant');
+  if (!passportProvider) {
     return buildDeterministicFallback(
       passportStatus,
       passportMaturity,
@@ -538,7 +664,11 @@ export async function runPassportAssistantInference(
       const u = await getUsage(tx, orgId, monthKey);
       return [b, u] as const;
     });
-    const preflightCost = estimateCostUSD(PASSPORT_ASSISTANT_PREFLIGHT_TOKENS);
+    const preflightCost = estimateCostUSD(
+      PASSPORT_ASSISTANT_PREFLIGHT_TOKENS,
+      passportProvider.textModel,
+      passportProvider.id,
+    );
     enforceBudgetOrThrow(budget, usage, PASSPORT_ASSISTANT_PREFLIGHT_TOKENS, preflightCost);
   } catch (err) {
     if (err instanceof BudgetExceededError) throw err;
@@ -555,18 +685,13 @@ export async function runPassportAssistantInference(
   // ── Build prompt ──
   const { prompt, systemInstruction } = buildPassportAssistantPrompt(input);
 
-  // ── Gemini call with timeout ──
+  // ── Model call with timeout ──
   let rawText = '';
   let tokensUsed = 0;
   let hadInferenceError = false;
 
   try {
-    const model = passportGenAI.getGenerativeModel({
-      model: PASSPORT_ASSISTANT_MODEL,
-      systemInstruction,
-    });
-
-    const aiPromise = model.generateContent(prompt);
+    const aiPromise = generatePassportAssistantText(passportProvider, input, prompt, systemInstruction);
     const timeoutPromise = new Promise<never>((_, reject) =>
       setTimeout(
         () => reject(new Error('Passport assistant AI request timeout')),
@@ -575,8 +700,8 @@ export async function runPassportAssistantInference(
     );
 
     const result = await Promise.race([aiPromise, timeoutPromise]);
-    rawText = result.response.text();
-    tokensUsed = Math.ceil((prompt.length + rawText.length) / 4);
+    rawText = result.text;
+    tokensUsed = result.tokensUsed;
   } catch {
     hadInferenceError = true;
     // Partial token estimate for metering even on error
@@ -585,7 +710,7 @@ export async function runPassportAssistantInference(
 
   // ── Usage metering (best-effort — never block response) ──
   if (tokensUsed > 0) {
-    const cost = estimateCostUSD(tokensUsed);
+    const cost = estimateCostUSD(tokensUsed, passportProvider.textModel, passportProvider.id);
     withDbContext(prisma, dbContext, async (tx) => {
       await upsertUsage(tx, orgId, monthKey, tokensUsed, cost);
     }).catch(() => {
@@ -17,7 +17,7 @@
  *   Output gate: prohibited fields never appear in public payload
  *
  * PROHIBITED IN PUBLIC PAYLOAD (§C of design):
- *   price/pricing, org UUIDs, negotiation state, order/trade state,
+ *   price/pricing, org UUIDs, negotiation state, order/trade state, stock quantities,
  *   admin/governance fields, risk_score, plan, registration_no,
  *   external_orchestration_ref, draft/unpublished data
  *
@@ -25,10 +25,29 @@
  *   Service-role via withAdminContext / withOrgAdminContext (no caller auth token).
  *   Organizations table requires withOrgAdminContext (organizations_control_plane_select RLS
  *   requires app.current_realm() = 'admin').
+ *
+ * CATALOG SEARCH (CATALOG-SEARCH-001):
+ *   Discovery accepts the shared catalog search filters. When any are set, only suppliers
+ *   with at least one matching item whose resolved visibility policy is PUBLIC are listed,
+ *   best match first, with matching items leading the offering preview. Facet counts cover
+ *   public items only and carry no supplier identifiers.
  */
 
 import { PrismaClient } from '@prisma/client';
 import { withAdminContext, withOrgAdminContext } from '../lib/database-context.js';
+import {
+  loadCatalogAvailability,
+  type StockAvailability,
+} from './inventory/inventory.service.js';
+import { resolveCatalogVisibilityPolicy } from './catalogVisibilityPolicyResolver.js';
+import {
+  CATALOG_SEARCH_CANDIDATE_LIMIT,
+  hasCatalogSearchCriteria,
+  searchCatalogItems,
+  type CatalogSearchFacetFields,
+  type CatalogSearchFacets,
+  type CatalogSearchFilters,
+} from './catalogSearch.service.js';
 
 // ── constants ─────────────────────────────────────────────────────────────────
 
@@ -58,6 +77,8 @@ export type PublicB2BOfferingPreviewItem = {
   name: string;
   moq: number;
   imageUrl: string | null;
+  // CATALOG-INVENTORY-001: null when the supplier does not track stock for the item.
+  availability: StockAvailability | null;
 };
 
 export type PublicB2BSupplierEntry = {
@@ -85,6 +106,8 @@ export type PublicB2BDiscoveryResponse = {
   total: number;
   page: number;
   limit: number;
+  /** Present only when catalog search filters were given. */
+  catalogFacets?: CatalogSearchFacets;
 };
 
 export type PublicB2BDiscoveryParams = {
@@ -92,6 +115,7 @@ export type PublicB2BDiscoveryParams = {
   geo?: string;
   page?: number;
   limit?: number;
+  catalog?: CatalogSearchFilters;
 };
 
 // ── internal row types ────────────────────────────────────────────────────────
@@ -138,12 +162,16 @@ type TraceabilityRow = {
 };
 
 type CatalogItemRow = {
+  id: string;
   tenantId: string;
   name: string;
   moq: number;
   imageUrl: string | null;
   publicationPosture: string;
   catalogVisibilityPolicyMode: string | null;
+  /** Read only by loadPreviewAvailability(); the preview DTO carries just the flag. */
+  inventoryTracked: boolean;
+  lowStockThreshold: number | null;
 };
 
 type BrandingRow = {
@@ -151,6 +179,74 @@ type BrandingRow = {
   logoUrl: string | null;
 };
 
+type PublicCatalogSearchRow = CatalogSearchFacetFields & {
+  tenantId: string;
+  publicationPosture: string;
+  catalogVisibilityPolicyMode: string | null;
+};
+
+type PublicCatalogMatch = {
+  /** Matching item ids, best first. */
+  itemOrder: Map<string, number>;
+  /** Supplier org ids, ordered by their best matching item. */
+  orgOrder: Map<string, number>;
+  facets: CatalogSearchFacets;
+};
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+/**
+ * CATALOG-INVENTORY-001: availability flag per preview item. Quantities stay
+ * inside this helper; skips the stock query when no previewed item is tracked.
+ */
+async function loadPreviewAvailability(
+  prismaClient: PrismaClient,
+  rows: CatalogItemRow[],
+): Promise<Map<string, StockAvailability | null>> {
+  if (!rows.some((r) => r.inventoryTracked)) {
+    return new Map();
+  }
+  return withAdminContext(prismaClient, async tx => loadCatalogAvailability(tx, rows));
+}
+
+/**
+ * CATALOG-SEARCH-001: runs the catalog search engine over the eligible suppliers'
+ * public-posture items, keeping only items whose resolved visibility policy is PUBLIC.
+ */
+async function matchPublicCatalog(
+  prismaClient: PrismaClient,
+  orgIds: string[],
+  filters: CatalogSearchFilters,
+): Promise<PublicCatalogMatch> {
+  const result = await withAdminContext(prismaClient, async tx => {
+    return searchCatalogItems<PublicCatalogSearchRow>(tx, {
+      scope: { tenantIds: orgIds, publicationPostures: PUBLICATION_POSTURE_PUBLIC },
+      filters,
+      select: { tenantId: true, publicationPosture: true, catalogVisibilityPolicyMode: true },
+      limit: CATALOG_SEARCH_CANDIDATE_LIMIT,
+      filterVisible: rows =>
+        rows.filter(
+          (row) =>
+            resolveCatalogVisibilityPolicy({
+              catalogVisibilityPolicyMode: row.catalogVisibilityPolicyMode,
+              publicationPosture: row.publicationPosture,
+            }).policy === 'PUBLIC',
+        ),
+    });
+  });
+
+  const itemOrder = new Map<string, number>();
+  const orgOrder = new Map<string, number>();
+  for (const row of result.items) {
+    itemOrder.set(row.id, itemOrder.size);
+    if (!orgOrder.has(row.tenantId)) {
+      orgOrder.set(row.tenantId, orgOrder.size);
+    }
+  }
+
+  return { itemOrder, orgOrder, facets: result.facets };
+}
+
 // ── main service function ─────────────────────────────────────────────────────
 
 export async function listPublicB2BSuppliers(
@@ -234,12 +330,27 @@ export async function listPublicB2BSuppliers(
   const eligibleTenantIds = new Set(tenantRows.map((t) => t.id));
 
   // Apply gate A: retain only orgs whose tenant is PUBLICATION_ELIGIBLE
-  const eligibleOrgs = orgRows.filter((o) => eligibleTenantIds.has(o.id));
+  const gatedOrgs = orgRows.filter((o) => eligibleTenantIds.has(o.id));
 
-  if (eligibleOrgs.length === 0) {
+  if (gatedOrgs.length === 0) {
     return { items: [], total: 0, page, limit };
   }
 
+  // ── Catalog search: keep suppliers with a matching public item, best match first ──
+  const catalogMatch = params.catalog && hasCatalogSearchCriteria(params.catalog)
+    ? await matchPublicCatalog(prismaClient, gatedOrgs.map((o) => o.id), params.catalog)
+    : null;
+
+  const eligibleOrgs = catalogMatch
+    ? gatedOrgs
+        .filter((o) => catalogMatch.orgOrder.has(o.id))
+        .sort((a, b) => (catalogMatch.orgOrder.get(a.id) ?? 0) - (catalogMatch.orgOrder.get(b.id) ?? 0))
+    : gatedOrgs;
+
+  if (eligibleOrgs.length === 0) {
+    return { items: [], total: 0, page, limit, ...(catalogMatch && { catalogFacets: catalogMatch.facets }) };
+  }
+
   const eligibleOrgIds = eligibleOrgs.map((o) => o.id);
 
   // ── Approved company profile fields from tenant_profile_details ──────────────
@@ -323,12 +434,15 @@ export async function listPublicB2BSuppliers(
         ],
       },
       select: {
+        id: true,
         tenantId: true,
         name: true,
         moq: true,
         imageUrl: true,
         publicationPosture: true,
         catalogVisibilityPolicyMode: true,
+        inventoryTracked: true,
+        lowStockThreshold: true,
         // price: explicitly NOT selected (Gate E prohibition)
       },
       orderBy: [{ tenantId: 'asc' }, { createdAt: 'asc' }],
@@ -349,8 +463,15 @@ export async function listPublicB2BSuppliers(
 
   const hasEvidenceByOrgId = new Set(evidenceRows.map((r) => r.orgId));
 
+  // Matching items lead each supplier's preview when a catalog search is active.
+  const previewRows = catalogMatch
+    ? [...catalogRows].sort((a, b) =>
+        (catalogMatch.itemOrder.get(a.id) ?? Number.MAX_SAFE_INTEGER)
+        - (catalogMatch.itemOrder.get(b.id) ?? Number.MAX_SAFE_INTEGER))
+    : catalogRows;
+
   const catalogByTenantId = new Map<string, CatalogItemRow[]>();
-  for (const row of catalogRows) {
+  for (const row of previewRows) {
     const items = catalogByTenantId.get(row.tenantId) ?? [];
     if (items.length < MAX_OFFERING_PREVIEW) {
       items.push(row);
@@ -358,6 +479,11 @@ export async function listPublicB2BSuppliers(
     }
   }
 
+  const availabilityByItemId = await loadPreviewAvailability(
+    prismaClient,
+    [...catalogByTenantId.values()].flat(),
+  );
+
   const logoByTenantId = new Map<string, string | null>();
   for (const row of brandingRows) {
     logoByTenantId.set(row.tenantId, row.logoUrl ?? null);
@@ -396,6 +522,7 @@ export async function listPublicB2BSuppliers(
         name: c.name,
         moq: c.moq,
         imageUrl: c.imageUrl,
+        availability: availabilityByItemId.get(c.id) ?? null,
       })),
       publicationPosture: posture,
       eligibilityPosture: 'PUBLICATION_ELIGIBLE',
@@ -410,7 +537,7 @@ export async function listPublicB2BSuppliers(
   const total = allItems.length;
   const items = allItems.slice(offset, offset + limit);
 
-  return { items, total, page, limit };
+  return { items, total, page, limit, ...(catalogMatch && { catalogFacets: catalogMatch.facets }) };
 }
 
 // ── ROUTE-001: Single supplier profile by slug ────────────────────────────────
@@ -561,12 +688,15 @@ export async function getPublicB2BSupplierBySlug(
         ],
       },
       select: {
+        id: true,
         tenantId: true,
         name: true,
         moq: true,
         imageUrl: true,
         publicationPosture: true,
         catalogVisibilityPolicyMode: true,
+        inventoryTracked: true,
+        lowStockThreshold: true,
         // price: explicitly NOT selected (Gate E prohibition)
       },
       orderBy: [{ createdAt: 'asc' }],
@@ -574,6 +704,8 @@ export async function getPublicB2BSupplierBySlug(
     });
   });
 
+  const availabilityByItemId = await loadPreviewAvailability(prismaClient, catalogRows);
+
   // ── Gate E: build public-safe projection (prohibited fields excluded) ─────────
   const posture = org.publication_posture as 'B2B_PUBLIC' | 'BOTH';
 
@@ -595,6 +727,7 @@ export async function getPublicB2BSupplierBySlug(
       name: c.name,
       moq: c.moq,
       imageUrl: c.imageUrl,
+      availability: availabilityByItemId.get(c.id) ?? null,
     })),
     publicationPosture: posture,
     eligibilityPosture: 'PUBLICATION_ELIGIBLE',
@@ -606,3 +739,53 @@ export async function getPublicB2BSupplierBySlug(
 
   return { profile, orgId: org.id };
 }
+
+// ── sitemap entries (PUBLIC-SEO-SITEMAP-SERVER-001) ───────────────────────────
+
+export type PublicB2BSupplierSitemapEntry = {
+  slug: string;
+  updatedAt: Date;
+};
+
+/**
+ * Supplier profiles that resolve through getPublicB2BSupplierBySlug, for the
+ * public sitemap. Applies the same gates A–E; `tenantId` narrows the result to a
+ * single white-label tenant. Only slug and last-modified time leave this function.
+ */
+export async function listPublicB2BSupplierSitemapEntries(
+  prismaClient: PrismaClient,
+  params: { tenantId?: string } = {},
+): Promise<PublicB2BSupplierSitemapEntry[]> {
+  const orgRows: Array<{ id: string; slug: string; updated_at: Date }> = await withOrgAdminContext(prismaClient, async tx => {
+    return tx.organizations.findMany({
+      where: {
+        ...(params.tenantId ? { id: params.tenantId } : {}),
+        org_type: ELIGIBLE_ORG_TYPE,
+        status: { in: [...ELIGIBLE_ORG_STATUSES] },
+        publication_posture: { in: [...PUBLICATION_POSTURE_PUBLIC] },
+        is_qa_sentinel: false,
+      },
+      select: { id: true, slug: true, updated_at: true },
+      orderBy: [{ slug: 'asc' }],
+    });
+  });
+
+  if (orgRows.length === 0) {
+    return [];
+  }
+
+  const tenantRows: EligibleTenantRow[] = await withAdminContext(prismaClient, async tx => {
+    return tx.tenant.findMany({
+      where: {
+        id: { in: orgRows.map((o) => o.id) },
+        publicEligibilityPosture: ELIGIBLE_TENANT_POSTURE,
+      },
+      select: { id: true, publicEligibilityPosture: true },
+    });
+  });
+
+  const eligibleTenantIds = new Set(tenantRows.map((t) => t.id));
+  return orgRows
+    .filter((o) => eligibleTenantIds.has(o.id))
+    .map((o) => ({ slug: o.slug, updatedAt: o.updated_at }));
+}
@@ -21,12 +21,13 @@
  * PROHIBITED IN PUBLIC PAYLOAD (Gate E):
  *   org UUIDs (id field), risk_score, plan, registration_no,
  *   external_orchestration_ref, admin/governance fields,
- *   negotiation state, order/trade state, draft/unpublished data,
+ *   negotiation state, order/trade state, stock quantities, draft/unpublished data,
  *   authenticated checkout or account continuity
  *
  * ALLOWED PER BOUNDARY DECISION §3.1:
  *   storefront identity, catalog browse metadata, public pricing visibility,
- *   shopper-facing trust signals, publication posture
+ *   shopper-facing trust signals, publication posture,
+ *   stock availability flag (IN_STOCK / LOW_STOCK / OUT_OF_STOCK — CATALOG-INVENTORY-001)
  *
  * DB ACCESS PATTERN:
  *   Service-role via withAdminContext / withOrgAdminContext (no caller auth token).
@@ -41,10 +42,16 @@
 import { PrismaClient } from '@prisma/client';
 import { createHash } from 'node:crypto';
 import { withAdminContext, withOrgAdminContext } from '../lib/database-context.js';
+import {
+  loadCatalogAvailability,
+  type StockAvailability,
+} from './inventory/inventory.service.js';
 
 // ── constants ─────────────────────────────────────────────────────────────────
 
 const MAX_PRODUCT_PREVIEW = 5;
+// Product detail slugs resolve within the first N active public items of a storefront.
+const MAX_STOREFRONT_DETAIL_ITEMS = 25;
 const DEFAULT_PAGE = 1;
 const DEFAULT_LIMIT = 20;
 const MAX_LIMIT = 100;
@@ -71,6 +78,8 @@ export type PublicB2CProductPreviewItem = {
   category: string | null;
   material: string | null;
   fabricType: string | null;
+  // CATALOG-INVENTORY-001: null when the storefront does not track stock for the item.
+  availability: StockAvailability | null;
 };
 
 export type PublicB2CStorefrontEntry = {
@@ -117,6 +126,7 @@ export type PublicB2CProductDetail = {
   publicSupplierSlug: string;
   publicPriceLabel: string | null;
   publicMoqLabel: string | null;
+  availability: StockAvailability | null;
   trustSignals: string[];
   hasTraceabilityEvidence: boolean;
   hasPassport: boolean;
@@ -155,6 +165,9 @@ type B2CCatalogItemRow = {
   productCategory: string | null;
   material: string | null;
   fabricType: string | null;
+  /** Stock inputs for loadPreviewAvailability(); neither field reaches a storefront DTO. */
+  inventoryTracked: boolean;
+  lowStockThreshold: number | null;
 };
 
 type TraceabilityEvidenceRow = {
@@ -194,6 +207,20 @@ function buildSummary(description: string | null): string | null {
   return trimmed.length > 180 ? `${trimmed.slice(0, 177)}...` : trimmed;
 }
 
+/**
+ * CATALOG-INVENTORY-001: availability flag per catalog row. Quantities stay
+ * inside this helper; skips the stock query when no row is tracked.
+ */
+async function loadPreviewAvailability(
+  prismaClient: PrismaClient,
+  rows: B2CCatalogItemRow[],
+): Promise<Map<string, StockAvailability | null>> {
+  if (!rows.some((r) => r.inventoryTracked)) {
+    return new Map();
+  }
+  return withAdminContext(prismaClient, async tx => loadCatalogAvailability(tx, rows));
+}
+
 // ── main service function ─────────────────────────────────────────────────────
 
 export async function listPublicB2CProducts(
@@ -289,6 +316,8 @@ export async function listPublicB2CProducts(
         productCategory: true,
         material: true,
         fabricType: true,
+        inventoryTracked: true,
+        lowStockThreshold: true,
         // sku, description, composition, certifications, catalogStage: excluded (detail-level / internal, not browse-level)
         // Gate E: id (catalog item UUID), createdAt, updatedAt NOT selected
       },
@@ -307,6 +336,11 @@ export async function listPublicB2CProducts(
     }
   }
 
+  const availabilityByItemId = await loadPreviewAvailability(
+    prismaClient,
+    [...catalogByTenantId.values()].flat(),
+  );
+
   // ── build projection entries ──────────────────────────────────────────────────
 
   const allItems: PublicB2CStorefrontEntry[] = eligibleOrgs.map((org) => {
@@ -331,6 +365,7 @@ export async function listPublicB2CProducts(
         category: c.productCategory ?? null,
         material: c.material ?? null,
         fabricType: c.fabricType ?? null,
+        availability: availabilityByItemId.get(c.id) ?? null,
       })),
       publicationPosture: posture,
       eligibilityPosture: 'PUBLICATION_ELIGIBLE',
@@ -421,9 +456,11 @@ export async function getPublicB2CProductBySlug(
         productCategory: true,
         material: true,
         fabricType: true,
+        inventoryTracked: true,
+        lowStockThreshold: true,
       },
       orderBy: [{ createdAt: 'asc' }],
-      take: 25,
+      take: MAX_STOREFRONT_DETAIL_ITEMS,
     });
   });
 
@@ -471,6 +508,8 @@ export async function getPublicB2CProductBySlug(
     publicPassportId = passportRows[0].public_token;
   }
 
+  const availabilityByItemId = await loadPreviewAvailability(prismaClient, [activeItem.row]);
+
   const trustSignals = ['Public-safe projection only'];
   if (hasTraceabilityEvidence) {
     trustSignals.push('Traceability evidence available');
@@ -506,6 +545,7 @@ export async function getPublicB2CProductBySlug(
     publicSupplierSlug: org.slug,
     publicPriceLabel: activeItem.row.price != null ? String(activeItem.row.price) : null,
     publicMoqLabel: buildPublicMoqLabel(activeItem.row.moq),
+    availability: availabilityByItemId.get(activeItem.row.id) ?? null,
     trustSignals,
     hasTraceabilityEvidence,
     hasPassport,
@@ -515,3 +555,89 @@ export async function getPublicB2CProductBySlug(
     relatedProducts,
   };
 }
+
+// ── sitemap entries (PUBLIC-SEO-SITEMAP-SERVER-001) ───────────────────────────
+
+export type PublicB2CProductSitemapEntry = {
+  slug: string;
+  updatedAt: Date;
+};
+
+type SitemapCatalogItemRow = {
+  id: string;
+  tenantId: string;
+  name: string;
+  updatedAt: Date;
+};
+
+/**
+ * Product detail pages that resolve through getPublicB2CProductBySlug, for the
+ * public sitemap. Applies the same gates A–E and the same per-storefront detail
+ * window; `tenantId` narrows the result to a single white-label tenant.
+ */
+export async function listPublicB2CProductSitemapEntries(
+  prismaClient: PrismaClient,
+  params: { tenantId?: string } = {},
+): Promise<PublicB2CProductSitemapEntry[]> {
+  const orgRows: Array<{ id: string; slug: string }> = await withOrgAdminContext(prismaClient, async tx => {
+    return tx.organizations.findMany({
+      where: {
+        ...(params.tenantId ? { id: params.tenantId } : {}),
+        org_type: ELIGIBLE_ORG_TYPE,
+        status: { in: [...ELIGIBLE_ORG_STATUSES] },
+        publication_posture: { in: [...PUBLICATION_POSTURE_B2C_PUBLIC] },
+        is_qa_sentinel: false,
+      },
+      select: { id: true, slug: true },
+      orderBy: [{ slug: 'asc' }],
+    });
+  });
+
+  if (orgRows.length === 0) {
+    return [];
+  }
+
+  const tenantRows: EligibleTenantRow[] = await withAdminContext(prismaClient, async tx => {
+    return tx.tenant.findMany({
+      where: {
+        id: { in: orgRows.map((o) => o.id) },
+        publicEligibilityPosture: ELIGIBLE_TENANT_POSTURE,
+      },
+      select: { id: true, publicEligibilityPosture: true },
+    });
+  });
+
+  const eligibleTenantIds = new Set(tenantRows.map((t) => t.id));
+  const eligibleOrgs = orgRows.filter((o) => eligibleTenantIds.has(o.id));
+  if (eligibleOrgs.length === 0) {
+    return [];
+  }
+
+  const catalogRows: SitemapCatalogItemRow[] = await withAdminContext(prismaClient, async tx => {
+    return tx.catalogItem.findMany({
+      where: {
+        tenantId: { in: eligibleOrgs.map((o) => o.id) },
+        active: true,
+        publicationPosture: { in: [...PUBLICATION_POSTURE_B2C_PUBLIC] },
+      },
+      select: { id: true, tenantId: true, name: true, updatedAt: true },
+      orderBy: [{ tenantId: 'asc' }, { createdAt: 'asc' }],
+    });
+  });
+
+  const rowsByTenantId = new Map<string, SitemapCatalogItemRow[]>();
+  for (const row of catalogRows) {
+    const rows = rowsByTenantId.get(row.tenantId) ?? [];
+    if (rows.length < MAX_STOREFRONT_DETAIL_ITEMS) {
+      rows.push(row);
+      rowsByTenantId.set(row.tenantId, rows);
+    }
+  }
+
+  return eligibleOrgs.flatMap((org) =>
+    (rowsByTenantId.get(org.id) ?? []).map((row) => ({
+      slug: buildPublicProductSlug(org.slug, row.name, row.id),
+      updatedAt: row.updatedAt,
+    })),
+  );
+}
@@ -1,6 +1,6 @@
 import bcrypt from 'bcryptjs';
 import { randomUUID } from 'node:crypto';
-import type { Prisma } from '@prisma/client';
+import type { Prisma, PrismaClient } from '@prisma/client';
 import { prisma } from '../db/prisma.js';
 import { writeAuditLog } from '../lib/auditLog.js';
 import {
@@ -221,6 +221,35 @@ export async function registerDirectProvisionalAccount(
           } as Prisma.JsonValue,
         });
 
+        // CRM lifecycle event — written to the CRM outbox in this transaction so the
+        // registration never commits without it (delivered by the outbox dispatcher).
+        // Email is included only in this event (EMAIL_INCLUDED_IN_V1).
+        // externalOrchestrationRef is always null for direct-registration orgs.
+        const crmAttribution: CrmAttributionPayload | null = payload.attribution
+          ? {
+              source_channel: payload.attribution.sourceChannel ?? null,
+              utm_source: payload.attribution.utmSource ?? null,
+              utm_medium: payload.attribution.utmMedium ?? null,
+              utm_campaign: payload.attribution.utmCampaign ?? null,
+            }
+          : null;
+
+        await notifyRegistrationSubmitted(
+          {
+            orgId: tenant.id,
+            tenantId: tenant.id,
+            email: normalizedEmail,
+            legalName: normalizedCompanyName,
+            roleIntent: payload.roleIntent,
+            jurisdiction: payload.country?.trim() || 'UNKNOWN',
+            plan: 'FREE',
+            orgStatus: 'PENDING_VERIFICATION',
+            externalOrchestrationRef: null,
+            attribution: crmAttribution,
+          },
+          tx as unknown as PrismaClient,
+        );
+
         return {
           success: true,
           provisional: true,
@@ -232,30 +261,6 @@ export async function registerDirectProvisionalAccount(
           nextStep: 'SIGN_IN_TO_CONTINUE_ONBOARDING',
         };
       });
-      // Await CRM lifecycle event — timeout-bounded (8s AbortController), never throws into registration.
-      // Email is included only in this event (EMAIL_INCLUDED_IN_V1).
-      // externalOrchestrationRef is always null for direct-registration orgs.
-      const crmAttribution: CrmAttributionPayload | null = payload.attribution
-        ? {
-            source_channel: payload.attribution.sourceChannel ?? null,
-            utm_source: payload.attribution.utmSource ?? null,
-            utm_medium: payload.attribution.utmMedium ?? null,
-            utm_campaign: payload.attribution.utmCampaign ?? null,
-          }
-        : null;
-
-      await notifyRegistrationSubmitted({
-        orgId: result.tenantId,
-        tenantId: result.tenantId,
-        email: normalizedEmail,
-        legalName: normalizedCompanyName,
-        roleIntent: payload.roleIntent,
-        jurisdiction: payload.country?.trim() || 'UNKNOWN',
-        plan: 'FREE',
-        orgStatus: 'PENDING_VERIFICATION',
-        externalOrchestrationRef: null,
-        attribution: crmAttribution,
-      }).catch(() => undefined);
 
       return result;    } catch (error: unknown) {
       const code = (error as { code?: string }).code;
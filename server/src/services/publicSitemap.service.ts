@@ -0,0 +1,393 @@
+/**
+ * PublicSitemapService — PUBLIC-SEO-SITEMAP-SERVER-001
+ *
+ * Server-generated XML sitemaps and robots.txt for the platform host and for each
+ * white-label host (verified TenantDomain custom domains and <slug>.texqtic.app).
+ *
+ * SITEMAP TYPES (one urlset each, listed by the sitemap index):
+ *   pages      — static public surfaces (platform) / storefront root (white-label)
+ *   suppliers  — /supplier/:slug  — PublicB2BProjectionService gates A–E
+ *   products   — /product/:slug   — PublicB2CProjectionService gates A–E
+ *   passports  — /passport/:id    — PUBLISHED DPPs of PUBLICATION_ELIGIBLE tenants
+ *
+ * SCOPE:
+ *   PLATFORM — every PUBLICATION_ELIGIBLE tenant, canonical origin APP_PUBLIC_URL.
+ *   TENANT   — one tenant, origin = the requesting white-label host. A tenant that is
+ *              not PUBLICATION_ELIGIBLE gets an empty index and `Disallow: /`.
+ *
+ * lastmod is the entity's updated-at column; static pages carry none. No org IDs,
+ * tenant IDs or catalog item IDs appear in any <loc>.
+ *
+ * CACHE:
+ *   Entry lists and robots policies are cached per host for SITEMAP_CACHE_TTL_MS and
+ *   evicted through the cache-invalidate emitter (lib/cacheInvalidateEmitter.ts).
+ *   'public_content_change' and 'tenant_status_change' also evict the platform scope,
+ *   which aggregates every tenant.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { withAdminContext, withOrgAdminContext } from '../lib/database-context.js';
+import {
+  emitCacheInvalidate,
+  type EmitterLogger,
+  type InvalidationReason,
+} from '../lib/cacheInvalidateEmitter.js';
+import { APPROVED_CATEGORY_SLUGS } from '../config/publicB2CCategoryPageSlugs.js';
+import { APPROVED_COLLECTION_SLUGS } from '../config/publicCollectionSlugs.js';
+import { listPublicB2BSupplierSitemapEntries } from './publicB2BProjection.service.js';
+import { listPublicB2CProductSitemapEntries } from './publicB2CProjection.service.js';
+
+// ── constants ─────────────────────────────────────────────────────────────────
+
+export const PUBLIC_SITEMAP_TYPES = ['pages', 'suppliers', 'products', 'passports'] as const;
+
+/** sitemaps.org limit per urlset. */
+const SITEMAP_MAX_URLS = 50_000;
+const SITEMAP_CACHE_TTL_MS = 15 * 60_000;
+const PLATFORM_CACHE_KEY = '@platform';
+
+const ELIGIBLE_ORG_STATUSES = ['ACTIVE', 'VERIFICATION_APPROVED'] as const;
+const ELIGIBLE_TENANT_POSTURE = 'PUBLICATION_ELIGIBLE' as const;
+
+/** Kept in line with public/robots.txt; auth-gated and stub surfaces stay out of the index. */
+const ROBOTS_DISALLOWED_PATHS = [
+  '/api/',
+  '/join/',
+  '/trust',
+  '/industries',
+  '/aggregator',
+  '/auth',
+  '/dashboard',
+  '/control-plane',
+  '/tenant',
+  '/workspace',
+  '/onboarding',
+  '/token-handler',
+  '/login',
+  // Signed-in app shells (runtime/runtimeUrlRoutes.ts); '/w$' is the workspace home.
+  '/w$',
+  '/w/',
+  '/wl-admin',
+  '/cp/',
+] as const;
+
+// ── types ─────────────────────────────────────────────────────────────────────
+
+export type PublicSitemapType = typeof PUBLIC_SITEMAP_TYPES[number];
+
+export type PublicSitemapScope =
+  | { kind: 'PLATFORM'; origin: string }
+  | { kind: 'TENANT'; origin: string; host: string; tenantId: string };
+
+export type PublicSitemapEntry = {
+  path: string;
+  lastmod: Date | null;
+  changefreq: 'daily' | 'weekly' | 'monthly';
+  priority: string;
+};
+
+type PassportStateRow = {
+  org_id: string;
+  public_token: string;
+  updated_at: Date;
+};
+
+// ── rendering ─────────────────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function latestLastmod(entries: PublicSitemapEntry[]): Date | null {
+  let latest: Date | null = null;
+  for (const entry of entries) {
+    if (entry.lastmod && (!latest || entry.lastmod > latest)) latest = entry.lastmod;
+  }
+  return latest;
+}
+
+export function renderSitemapUrlset(origin: string, entries: PublicSitemapEntry[]): string {
+  const urlBlocks = entries.map(entry => [
+    '  <url>',
+    `    <loc>${escapeXml(`${origin}${entry.path}`)}</loc>`,
+    ...(entry.lastmod ? [`    <lastmod>${entry.lastmod.toISOString()}</lastmod>`] : []),
+    `    <changefreq>${entry.changefreq}</changefreq>`,
+    `    <priority>${entry.priority}</priority>`,
+    '  </url>',
+  ].join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urlBlocks,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+export function renderSitemapIndex(
+  origin: string,
+  sitemaps: Array<{ type: PublicSitemapType; lastmod: Date | null }>,
+): string {
+  const sitemapBlocks = sitemaps.map(sitemap => [
+    '  <sitemap>',
+    `    <loc>${escapeXml(`${origin}/sitemaps/${sitemap.type}.xml`)}</loc>`,
+    ...(sitemap.lastmod ? [`    <lastmod>${sitemap.lastmod.toISOString()}</lastmod>`] : []),
+    '  </sitemap>',
+  ].join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemapBlocks,
+    '</sitemapindex>',
+    '',
+  ].join('\n');
+}
+
+export function renderRobotsTxt(scope: PublicSitemapScope, indexable: boolean): string {
+  const header = [
+    '# TexQtic — robots.txt (server-generated, PUBLIC-SEO-SITEMAP-SERVER-001)',
+    `# Host: ${scope.origin}`,
+    '',
+    'User-agent: *',
+  ];
+  if (!indexable) {
+    return [...header, 'Disallow: /', ''].join('\n');
+  }
+  return [
+    ...header,
+    ...ROBOTS_DISALLOWED_PATHS.map(path => `Disallow: ${path}`),
+    '',
+    `Sitemap: ${scope.origin}/sitemap.xml`,
+    '',
+  ].join('\n');
+}
+
+// ── cache ─────────────────────────────────────────────────────────────────────
+
+const sitemapCache = new Map<string, { value: unknown; expiresAt: number }>();
+
+function scopeCacheKey(scope: PublicSitemapScope): string {
+  return scope.kind === 'PLATFORM' ? PLATFORM_CACHE_KEY : scope.host;
+}
+
+async function cached<T>(scope: PublicSitemapScope, name: string, load: () => Promise<T>): Promise<T> {
+  const key = `${scopeCacheKey(scope)}|${name}`;
+  const hit = sitemapCache.get(key);
+  if (hit && hit.expiresAt > Date.now()) {
+    return hit.value as T;
+  }
+  const value = await load();
+  sitemapCache.set(key, { value, expiresAt: Date.now() + SITEMAP_CACHE_TTL_MS });
+  return value;
+}
+
+/**
+ * Cache-invalidate listener: drops every cached document of the given hosts.
+ * Tenant content and status changes also drop the aggregated platform scope.
+ */
+export function invalidatePublicSitemapCache(hosts: string[], reason: InvalidationReason): void {
+  const prefixes = hosts.map(host => `${host}|`);
+  if (reason === 'public_content_change' || reason === 'tenant_status_change') {
+    prefixes.push(`${PLATFORM_CACHE_KEY}|`);
+  }
+  for (const key of [...sitemapCache.keys()]) {
+    if (prefixes.some(prefix => key.startsWith(prefix))) sitemapCache.delete(key);
+  }
+}
+
+// ── loaders ───────────────────────────────────────────────────────────────────
+
+/** Org IDs that pass gate A (tenant posture) and gates D/E (org status, not a QA sentinel). */
+async function loadPublicationEligibleOrgIds(
+  prismaClient: PrismaClient,
+  orgIds: string[],
+): Promise<Set<string>> {
+  if (orgIds.length === 0) {
+    return new Set();
+  }
+  const tenantRows: Array<{ id: string }> = await withAdminContext(prismaClient, async tx => {
+    return tx.tenant.findMany({
+      where: { id: { in: orgIds }, publicEligibilityPosture: ELIGIBLE_TENANT_POSTURE },
+      select: { id: true },
+    });
+  });
+  if (tenantRows.length === 0) {
+    return new Set();
+  }
+  const orgRows: Array<{ id: string }> = await withOrgAdminContext(prismaClient, async tx => {
+    return tx.organizations.findMany({
+      where: {
+        id: { in: tenantRows.map(t => t.id) },
+        status: { in: [...ELIGIBLE_ORG_STATUSES] },
+        is_qa_sentinel: false,
+      },
+      select: { id: true },
+    });
+  });
+  return new Set(orgRows.map(o => o.id));
+}
+
+async function loadPassportEntries(
+  prismaClient: PrismaClient,
+  tenantId: string | undefined,
+): Promise<PublicSitemapEntry[]> {
+  // Same lookup role as the public DPP read (routes/public.ts, TECS-DPP-PUBLIC-QR-001 D-6).
+  const rows = await prismaClient.$transaction(async tx => {
+    await tx.$executeRaw`SET LOCAL ROLE texqtic_public_lookup`;
+    return tx.$queryRaw<PassportStateRow[]>`
+      SELECT org_id, public_token, updated_at
+      FROM dpp_passport_states
+      WHERE status = 'PUBLISHED'
+        AND public_token IS NOT NULL
+        ${tenantId ? Prisma.sql`AND org_id = ${tenantId}::uuid` : Prisma.empty}
+      ORDER BY updated_at DESC
+      LIMIT ${SITEMAP_MAX_URLS}
+    `;
+  });
+
+  const eligibleOrgIds = await loadPublicationEligibleOrgIds(
+    prismaClient,
+    [...new Set(rows.map(row => row.org_id))],
+  );
+  return rows
+    .filter(row => eligibleOrgIds.has(row.org_id))
+    .map(row => ({
+      path: `/passport/${row.public_token}`,
+      lastmod: row.updated_at,
+      changefreq: 'monthly',
+      priority: '0.5',
+    }));
+}
+
+function buildStaticPageEntries(scope: PublicSitemapScope): PublicSitemapEntry[] {
+  if (scope.kind === 'TENANT') {
+    return [{ path: '/', lastmod: null, changefreq: 'weekly', priority: '0.8' }];
+  }
+  return [
+    { path: '/products', lastmod: null, changefreq: 'weekly', priority: '0.8' },
+    ...[...APPROVED_CATEGORY_SLUGS].map((slug): PublicSitemapEntry => (
+      { path: `/products/category/${slug}`, lastmod: null, changefreq: 'weekly', priority: '0.7' }
+    )),
+    { path: '/collections', lastmod: null, changefreq: 'weekly', priority: '0.8' },
+    ...[...APPROVED_COLLECTION_SLUGS].map((slug): PublicSitemapEntry => (
+      { path: `/collections/${slug}`, lastmod: null, changefreq: 'weekly', priority: '0.7' }
+    )),
+    { path: '/b2b', lastmod: null, changefreq: 'daily', priority: '0.7' },
+    { path: '/inquiry', lastmod: null, changefreq: 'monthly', priority: '0.5' },
+  ];
+}
+
+async function isScopeIndexable(prismaClient: PrismaClient, scope: PublicSitemapScope): Promise<boolean> {
+  if (scope.kind === 'PLATFORM') {
+    return true;
+  }
+  return cached(scope, 'eligible', async () =>
+    (await loadPublicationEligibleOrgIds(prismaClient, [scope.tenantId])).has(scope.tenantId));
+}
+
+async function loadSitemapEntries(
+  prismaClient: PrismaClient,
+  scope: PublicSitemapScope,
+  type: PublicSitemapType,
+): Promise<PublicSitemapEntry[]> {
+  if (!(await isScopeIndexable(prismaClient, scope))) {
+    return [];
+  }
+  const tenantId = scope.kind === 'TENANT' ? scope.tenantId : undefined;
+
+  return cached(scope, type, async () => {
+    switch (type) {
+      case 'pages':
+        return buildStaticPageEntries(scope);
+      case 'suppliers':
+        return (await listPublicB2BSupplierSitemapEntries(prismaClient, { tenantId }))
+          .slice(0, SITEMAP_MAX_URLS)
+          .map((supplier): PublicSitemapEntry => ({
+            path: `/supplier/${supplier.slug}`,
+            lastmod: supplier.updatedAt,
+            changefreq: 'weekly',
+            priority: '0.6',
+          }));
+      case 'products':
+        return (await listPublicB2CProductSitemapEntries(prismaClient, { tenantId }))
+          .slice(0, SITEMAP_MAX_URLS)
+          .map((product): PublicSitemapEntry => ({
+            path: `/product/${product.slug}`,
+            lastmod: product.updatedAt,
+            changefreq: 'weekly',
+            priority: '0.6',
+          }));
+      case 'passports':
+        return loadPassportEntries(prismaClient, tenantId);
+    }
+  });
+}
+
+// ── public API ────────────────────────────────────────────────────────────────
+
+export function isPublicSitemapType(value: string): value is PublicSitemapType {
+  return (PUBLIC_SITEMAP_TYPES as readonly string[]).includes(value);
+}
+
+/** Sitemap index listing every non-empty sitemap type of the scope. */
+export async function getPublicSitemapIndexXml(
+  prismaClient: PrismaClient,
+  scope: PublicSitemapScope,
+): Promise<string> {
+  const sitemaps: Array<{ type: PublicSitemapType; lastmod: Date | null }> = [];
+  for (const type of PUBLIC_SITEMAP_TYPES) {
+    const entries = await loadSitemapEntries(prismaClient, scope, type);
+    if (entries.length > 0) {
+      sitemaps.push({ type, lastmod: latestLastmod(entries) });
+    }
+  }
+  return renderSitemapIndex(scope.origin, sitemaps);
+}
+
+export async function getPublicSitemapXml(
+  prismaClient: PrismaClient,
+  scope: PublicSitemapScope,
+  type: PublicSitemapType,
+): Promise<string> {
+  return renderSitemapUrlset(scope.origin, await loadSitemapEntries(prismaClient, scope, type));
+}
+
+export async function getPublicRobotsTxt(
+  prismaClient: PrismaClient,
+  scope: PublicSitemapScope,
+): Promise<string> {
+  return renderRobotsTxt(scope, await isScopeIndexable(prismaClient, scope));
+}
+
+/**
+ * Best-effort: signal that a tenant's public projection changed. Emits a
+ * 'public_content_change' invalidation for the tenant's platform subdomain and its
+ * verified custom domains (and, through the listener, the platform scope).
+ * Never throws — sitemap freshness must not fail the caller's write.
+ */
+export async function emitPublicContentInvalidate(
+  prismaClient: PrismaClient,
+  tenantId: string,
+  log: EmitterLogger,
+): Promise<void> {
+  try {
+    const hosts = await prismaClient.$transaction(async tx => {
+      // texqtic_service (BYPASSRLS) — same lookup role as resolveHostToTenant.
+      await tx.$executeRaw`SET LOCAL ROLE texqtic_service`;
+      const tenant = await tx.tenant.findUnique({
+        where: { id: tenantId },
+        select: { slug: true, domains: { where: { verified: true }, select: { domain: true } } },
+      });
+      if (!tenant) return [];
+      return [`${tenant.slug}.texqtic.app`, ...tenant.domains.map(d => d.domain)];
+    });
+    emitCacheInvalidate(hosts, 'public_content_change', log);
+  } catch (err) {
+    log.warn({ err, tenantId }, 'public-sitemap: content invalidation failed (non-blocking)');
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * TECS-RFQ-QUOTE-001 — Structured quote negotiation for direct RFQs.
+ *
+ * A quote thread is an ordered list of rfq_quotes revisions. Supplier revisions are
+ * offers; buyer revisions are counter-offers. Each new revision supersedes the
+ * previous ACTIVE row, so at most one revision is on the table at any time.
+ *
+ * Acceptance rules:
+ *   - Only the buyer accepts, and only the current ACTIVE SUPPLIER revision.
+ *   - An expired revision (valid_until in the past) cannot be accepted.
+ *   - Acceptance is terminal: no further revisions once a quote is ACCEPTED.
+ *   - A supplier "accepts" a buyer counter-offer by re-issuing it as a supplier revision.
+ *
+ * Pure helpers (pricing, best terms, acceptance evaluation) take no DB handle.
+ * Persistence helpers take the caller's transaction client so RLS context and
+ * audit writes stay inside the same withDbContext transaction as the route.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+export const RFQ_QUOTE_INCOTERM_VALUES = [
+  'EXW', 'FCA', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP', 'FAS', 'FOB', 'CFR', 'CIF',
+] as const;
+
+export const RFQ_QUOTE_MAX_QUANTITY_BREAKS = 10;
+
+export type RfqQuoteAuthorSide = 'SUPPLIER' | 'BUYER';
+export type RfqQuoteStatus = 'ACTIVE' | 'SUPERSEDED' | 'ACCEPTED';
+
+export type RfqQuoteQuantityBreak = {
+  min_quantity: number;
+  unit_price: number;
+};
+
+const quantityBreakSchema = z.object({
+  min_quantity: z.number().int().min(1),
+  unit_price: z.number().positive(),
+}).strict();
+
+/** True when a YYYY-MM-DD string names a real UTC calendar date (rejects 2026-13-45, 2026-02-30). */
+function isUtcCalendarDate(value: string): boolean {
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/** Body contract shared by supplier revisions and buyer counter-offers. */
+export const rfqQuoteTermsSchema = z.object({
+  unit_price: z.number().positive(),
+  currency: z.string().trim().length(3, 'Currency must be an ISO 4217 3-letter code').toUpperCase(),
+  quantity: z.number().int().min(1).optional(),
+  quantity_breaks: z.array(quantityBreakSchema).max(RFQ_QUOTE_MAX_QUANTITY_BREAKS).optional().default([]),
+  lead_time_days: z.number().int().min(0).max(730).nullable().optional(),
+  incoterm: z.enum(RFQ_QUOTE_INCOTERM_VALUES).nullable().optional(),
+  valid_until: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'valid_until must be YYYY-MM-DD')
+    .refine(isUtcCalendarDate, 'valid_until must be a real calendar date')
+    .nullable()
+    .optional(),
+  payment_terms: z.string().trim().min(1).max(200).nullable().optional(),
+  note: z.string().trim().min(1).max(1000).nullable().optional(),
+}).strict().superRefine((terms, ctx) => {
+  const minimums = terms.quantity_breaks.map(tier => tier.min_quantity);
+  for (let i = 1; i < minimums.length; i += 1) {
+    if (minimums[i] <= minimums[i - 1]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['quantity_breaks', i, 'min_quantity'],
+        message: 'quantity_breaks must be strictly ascending by min_quantity',
+      });
+    }
+  }
+});
+
+export type RfqQuoteTermsInput = z.infer<typeof rfqQuoteTermsSchema>;
+
+export type RfqQuoteRecord = {
+  id: string;
+  rfqId: string;
+  buyerOrgId: string;
+  supplierOrgId: string;
+  revision: number;
+  authorSide: RfqQuoteAuthorSide;
+  status: RfqQuoteStatus;
+  currency: string;
+  unitPrice: number;
+  quantity: number;
+  quantityBreaks: RfqQuoteQuantityBreak[];
+  leadTimeDays: number | null;
+  incoterm: string | null;
+  validUntil: Date | null;
+  paymentTerms: string | null;
+  note: string | null;
+  createdByUserId: string;
+  createdAt: Date;
+  acceptedAt: Date | null;
+  acceptedByUserId: string | null;
+};
+
+export const RFQ_QUOTE_SELECT = {
+  id: true,
+  rfqId: true,
+  buyerOrgId: true,
+  supplierOrgId: true,
+  revision: true,
+  authorSide: true,
+  status: true,
+  currency: true,
+  unitPrice: true,
+  quantity: true,
+  quantityBreaks: true,
+  leadTimeDays: true,
+  incoterm: true,
+  validUntil: true,
+  paymentTerms: true,
+  note: true,
+  createdByUserId: true,
+  createdAt: true,
+  acceptedAt: true,
+  acceptedByUserId: true,
+} as const satisfies Prisma.RfqQuoteSelect;
+
+type RfqQuoteSelectedRow = Prisma.RfqQuoteGetPayload<{ select: typeof RFQ_QUOTE_SELECT }>;
+
+function parseQuantityBreaks(value: Prisma.JsonValue): RfqQuoteQuantityBreak[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((tier): tier is Prisma.JsonObject => typeof tier === 'object' && tier !== null && !Array.isArray(tier))
+    .map(tier => ({
+      min_quantity: Number(tier.min_quantity),
+      unit_price: Number(tier.unit_price),
+    }))
+    .filter(tier => Number.isFinite(tier.min_quantity) && Number.isFinite(tier.unit_price))
+    .sort((a, b) => a.min_quantity - b.min_quantity);
+}
+
+export function toRfqQuoteRecord(row: RfqQuoteSelectedRow): RfqQuoteRecord {
+  return {
+    ...row,
+    unitPrice: Number(row.unitPrice),
+    quantityBreaks: parseQuantityBreaks(row.quantityBreaks),
+  };
+}
+
+// ─── Pure pricing helpers ─────────────────────────────────────────────────────
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Unit price that applies at `quantity`: the highest quantity break whose
+ * min_quantity is met, otherwise the base unit price.
+ */
+export function resolveEffectiveUnitPrice(
+  quote: Pick<RfqQuoteRecord, 'unitPrice' | 'quantityBreaks'>,
+  quantity: number,
+): number {
+  let unitPrice = quote.unitPrice;
+  for (const tier of quote.quantityBreaks) {
+    if (quantity >= tier.min_quantity) {
+      unitPrice = tier.unit_price;
+    }
+  }
+  return unitPrice;
+}
+
+export function computeRfqQuoteTotal(
+  quote: Pick<RfqQuoteRecord, 'unitPrice' | 'quantityBreaks' | 'quantity'>,
+): number {
+  return round2(resolveEffectiveUnitPrice(quote, quote.quantity) * quote.quantity);
+}
+
+/** valid_until is an inclusive calendar date (UTC). */
+export function isRfqQuoteExpired(quote: Pick<RfqQuoteRecord, 'validUntil'>, now: Date): boolean {
+  if (!quote.validUntil) {
+    return false;
+  }
+
+  const endOfValidDay = Date.UTC(
+    quote.validUntil.getUTCFullYear(),
+    quote.validUntil.getUTCMonth(),
+    quote.validUntil.getUTCDate(),
+    23, 59, 59, 999,
+  );
+  return now.getTime() > endOfValidDay;
+}
+
+/**
+ * Current best terms for the buyer: the ACCEPTED revision if one exists, otherwise
+ * the ACTIVE supplier revision when it has not expired. Buyer counter-offers are
+ * never "terms" — they are proposals awaiting a supplier revision.
+ */
+export function resolveRfqQuoteBestTerms(thread: RfqQuoteRecord[], now: Date): RfqQuoteRecord | null {
+  const accepted = thread.find(quote => quote.status === 'ACCEPTED');
+  if (accepted) {
+    return accepted;
+  }
+
+  const active = thread.find(quote => quote.status === 'ACTIVE');
+  if (active?.authorSide === 'SUPPLIER' && !isRfqQuoteExpired(active, now)) {
+    return active;
+  }
+
+  return null;
+}
+
+export type RfqQuoteAcceptanceDecision =
+  | { ok: true; quote: RfqQuoteRecord }
+  | {
+      ok: false;
+      code:
+        | 'QUOTE_NOT_FOUND'
+        | 'QUOTE_ALREADY_ACCEPTED'
+        | 'QUOTE_NOT_ACTIVE'
+        | 'QUOTE_NOT_SUPPLIER_OFFER'
+        | 'QUOTE_EXPIRED';
+    };
+
+export function evaluateRfqQuoteAcceptance(
+  thread: RfqQuoteRecord[],
+  quoteId: string,
+  now: Date,
+): RfqQuoteAcceptanceDecision {
+  if (thread.some(quote => quote.status === 'ACCEPTED')) {
+    return { ok: false, code: 'QUOTE_ALREADY_ACCEPTED' };
+  }
+
+  const quote = thread.find(candidate => candidate.id === quoteId);
+  if (!quote) {
+    return { ok: false, code: 'QUOTE_NOT_FOUND' };
+  }
+
+  if (quote.status !== 'ACTIVE') {
+    return { ok: false, code: 'QUOTE_NOT_ACTIVE' };
+  }
+
+  if (quote.authorSide !== 'SUPPLIER') {
+    return { ok: false, code: 'QUOTE_NOT_SUPPLIER_OFFER' };
+  }
+
+  if (isRfqQuoteExpired(quote, now)) {
+    return { ok: false, code: 'QUOTE_EXPIRED' };
+  }
+
+  return { ok: true, quote };
+}
+
+export type RfqQuoteRevisionDecision =
+  | { ok: true; nextRevision: number }
+  | { ok: false; code: 'QUOTE_ALREADY_ACCEPTED' | 'COUNTER_OFFER_REQUIRES_SUPPLIER_QUOTE' };
+
+/** Buyers may only counter once the supplier has put a priced offer on the table. */
+export function evaluateRfqQuoteRevision(
+  thread: RfqQuoteRecord[],
+  authorSide: RfqQuoteAuthorSide,
+): RfqQuoteRevisionDecision {
+  if (thread.some(quote => quote.status === 'ACCEPTED')) {
+    return { ok: false, code: 'QUOTE_ALREADY_ACCEPTED' };
+  }
+
+  if (authorSide === 'BUYER' && !thread.some(quote => quote.authorSide === 'SUPPLIER')) {
+    return { ok: false, code: 'COUNTER_OFFER_REQUIRES_SUPPLIER_QUOTE' };
+  }
+
+  const latestRevision = thread.reduce((max, quote) => Math.max(max, quote.revision), 0);
+  return { ok: true, nextRevision: latestRevision + 1 };
+}
+
+// ─── DTO mapping ──────────────────────────────────────────────────────────────
+
+function formatDateOnly(value: Date | null): string | null {
+  return value ? value.toISOString().slice(0, 10) : null;
+}
+
+export function mapRfqQuote(quote: RfqQuoteRecord, now: Date) {
+  return {
+    id: quote.id,
+    rfq_id: quote.rfqId,
+    revision: quote.revision,
+    author_side: quote.authorSide,
+    status: quote.status,
+    currency: quote.currency,
+    unit_price: quote.unitPrice,
+    quantity: quote.quantity,
+    quantity_breaks: quote.quantityBreaks,
+    effective_unit_price: resolveEffectiveUnitPrice(quote, quote.quantity),
+    total_amount: computeRfqQuoteTotal(quote),
+    lead_time_days: quote.leadTimeDays,
+    incoterm: quote.incoterm,
+    valid_until: formatDateOnly(quote.validUntil),
+    expired: isRfqQuoteExpired(quote, now),
+    payment_terms: quote.paymentTerms,
+    note: quote.note,
+    created_by_user_id: quote.createdByUserId,
+    created_at: quote.createdAt,
+    accepted_at: quote.acceptedAt,
+  };
+}
+
+export function mapRfqQuoteNegotiation(thread: RfqQuoteRecord[], now: Date) {
+  const bestTerms = resolveRfqQuoteBestTerms(thread, now);
+  return {
+    quote_thread: thread.map(quote => mapRfqQuote(quote, now)),
+    best_terms: bestTerms ? mapRfqQuote(bestTerms, now) : null,
+    accepted_quote_id: thread.find(quote => quote.status === 'ACCEPTED')?.id ?? null,
+  };
+}
+
+// ─── Persistence helpers (caller-owned transaction) ───────────────────────────
+
+export async function loadRfqQuoteThread(
+  tx: Prisma.TransactionClient,
+  rfqId: string,
+): Promise<RfqQuoteRecord[]> {
+  const rows = await tx.rfqQuote.findMany({
+    where: { rfqId },
+    select: RFQ_QUOTE_SELECT,
+    orderBy: { revision: 'asc' },
+  });
+  return rows.map(toRfqQuoteRecord);
+}
+
+export type AppendRfqQuoteRevisionInput = {
+  rfq: { id: string; orgId: string; supplierOrgId: string; quantity: number };
+  authorSide: RfqQuoteAuthorSide;
+  revision: number;
+  terms: RfqQuoteTermsInput;
+  createdByUserId: string;
+};
+
+/** Supersedes the current ACTIVE revision (if any) and inserts the next one. */
+export async function appendRfqQuoteRevision(
+  tx: Prisma.TransactionClient,
+  input: AppendRfqQuoteRevisionInput,
+): Promise<RfqQuoteRecord> {
+  await tx.rfqQuote.updateMany({
+    where: { rfqId: input.rfq.id, status: 'ACTIVE' },
+    data: { status: 'SUPERSEDED' },
+  });
+
+  const row = await tx.rfqQuote.create({
+    data: {
+      rfqId: input.rfq.id,
+      buyerOrgId: input.rfq.orgId,
+      supplierOrgId: input.rfq.supplierOrgId,
+      revision: input.revision,
+      authorSide: input.authorSide,
+      currency: input.terms.currency,
+      unitPrice: input.terms.unit_price,
+      quantity: input.terms.quantity ?? input.rfq.quantity,
+      quantityBreaks: input.terms.quantity_breaks,
+      leadTimeDays: input.terms.lead_time_days ?? null,
+      incoterm: input.terms.incoterm ?? null,
+      validUntil: input.terms.valid_until ? new Date(`${input.terms.valid_until}T00:00:00.000Z`) : null,
+      paymentTerms: input.terms.payment_terms ?? null,
+      note: input.terms.note ?? null,
+      createdByUserId: input.createdByUserId,
+    },
+    select: RFQ_QUOTE_SELECT,
+  });
+
+  return toRfqQuoteRecord(row);
+}
+
+/**
+ * Accept a revision only while it is still ACTIVE. Returns null when a concurrent
+ * revision or acceptance changed its status after the thread was evaluated.
+ */
+export async function markRfqQuoteAccepted(
+  tx: Prisma.TransactionClient,
+  quoteId: string,
+  acceptedByUserId: string,
+): Promise<RfqQuoteRecord | null> {
+  const { count } = await tx.rfqQuote.updateMany({
+    where: { id: quoteId, status: 'ACTIVE' },
+    data: {
+      status: 'ACCEPTED',
+      acceptedAt: new Date(),
+      acceptedByUserId,
+    },
+  });
+  if (count !== 1) {
+    return null;
+  }
+
+  const row = await tx.rfqQuote.findUniqueOrThrow({
+    where: { id: quoteId },
+    select: RFQ_QUOTE_SELECT,
+  });
+
+  return toRfqQuoteRecord(row);
+}
+
+/** Audit-safe snapshot of a revision's commercial terms. */
+export function buildRfqQuoteAuditSnapshot(quote: RfqQuoteRecord) {
+  return {
+    id: quote.id,
+    rfqId: quote.rfqId,
+    revision: quote.revision,
+    authorSide: quote.authorSide,
+    status: quote.status,
+    currency: quote.currency,
+    unitPrice: quote.unitPrice,
+    quantity: quote.quantity,
+    quantityBreaks: quote.quantityBreaks,
+    totalAmount: computeRfqQuoteTotal(quote),
+    leadTimeDays: quote.leadTimeDays,
+    incoterm: quote.incoterm,
+    validUntil: formatDateOnly(quote.validUntil),
+    paymentTerms: quote.paymentTerms,
+  };
+}
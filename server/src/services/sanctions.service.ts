@@ -6,7 +6,9 @@
  *
  * Constitutional guarantees:
  *   G-024-A: Blocking threshold is severity >= 2. severity=1 (FRICTION) is non-blocking.
- *   G-024-B: Only status='ACTIVE' sanctions are considered blocking.
+ *   G-024-B: Only status='ACTIVE' sanctions are considered blocking. A sanction past
+ *            decays_at stops blocking once the governance expiry sweep records its
+ *            sanction_decay_events row (GOV-EXPIRY-SWEEP-001; status is not updated).
  *   G-024-C: Enforcement bypasses tenant RLS via SECURITY DEFINER DB functions
  *            (public.is_org_sanctioned, public.is_entity_sanctioned). This is required
  *            because the enforcement checks must see sanctions on ANY org involved in a
@@ -0,0 +1,410 @@
+/**
+ * SESSION-REGISTRY-001 — Server-side session registry and revocation
+ *
+ * Access tokens are stateless JWTs; this registry is what lets the server take one
+ * back before it expires. Two mechanisms, both checked by the auth middleware on
+ * every request (no caching — revocation applies to the next request):
+ *
+ *   auth_sessions        one row per signed-in device (id = refresh-token family id)
+ *                        or impersonation session; tokens carry it as `sid`.
+ *                        Per-device sign-out and impersonation stop revoke the row.
+ *   session_revocations  force-logout watermark per USER or TENANT; any token for the
+ *                        subject issued at or before the watermark is rejected, which
+ *                        also covers tokens minted before `sid` existed.
+ *
+ * Revoking a LOGIN session also revokes its refresh-token family, so the device cannot
+ * mint a new access token. Refresh re-checks both mechanisms (see checkRefresh).
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { Prisma } from '@prisma/client';
+
+type SessionDb = Prisma.TransactionClient;
+
+export type SessionKind = 'LOGIN' | 'IMPERSONATION';
+
+export type SessionOwner = { userId: string } | { adminId: string };
+
+export type ForceLogoutScope = 'USER' | 'TENANT';
+
+export type SessionRejectReason = 'SESSION_REVOKED' | 'SESSION_EXPIRED' | 'SESSION_REQUIRED' | 'FORCED_LOGOUT';
+
+export type SessionCheckResult = { ok: true } | { ok: false; reason: SessionRejectReason };
+
+/** Claims of a verified access token that the registry looks at. */
+export interface AccessTokenClaims {
+  sid?: string;
+  userId?: string;
+  tenantId?: string;
+  adminId?: string;
+  /** Unix seconds, set by @fastify/jwt on sign. */
+  iat?: number;
+  isImpersonation?: boolean;
+}
+
+export interface SessionRecord {
+  id: string;
+  kind: SessionKind;
+  userId: string | null;
+  adminId: string | null;
+  tenantId: string | null;
+  impersonationId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string | null;
+}
+
+export interface ForceLogoutResult {
+  scope: ForceLogoutScope;
+  subjectId: string;
+  revokedBefore: string;
+  sessionsRevoked: number;
+  refreshTokensRevoked: number;
+}
+
+export class SessionNotFoundError extends Error {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} not found or already signed out`);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+const SESSION_SELECT = {
+  id: true,
+  kind: true,
+  userId: true,
+  adminId: true,
+  tenantId: true,
+  impersonationId: true,
+  ip: true,
+  userAgent: true,
+  createdAt: true,
+  lastSeenAt: true,
+  expiresAt: true,
+} as const;
+
+type SessionRow = {
+  id: string;
+  kind: string;
+  userId: string | null;
+  adminId: string | null;
+  tenantId: string | null;
+  impersonationId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date | null;
+};
+
+function toSessionRecord(row: SessionRow): SessionRecord {
+  return {
+    id: row.id,
+    kind: row.kind as SessionKind,
+    userId: row.userId,
+    adminId: row.adminId,
+    tenantId: row.tenantId,
+    impersonationId: row.impersonationId,
+    ip: row.ip,
+    userAgent: row.userAgent,
+    createdAt: row.createdAt.toISOString(),
+    lastSeenAt: row.lastSeenAt.toISOString(),
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+  };
+}
+
+function activeWhere(now: Date): Prisma.AuthSessionWhereInput {
+  return { revokedAt: null, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] };
+}
+
+/** Watermarks are compared at second precision: a token issued in the revoking second is rejected. */
+function issuedAtOrBefore(issuedAt: Date | number | undefined, watermark: Date): boolean {
+  if (issuedAt === undefined) return true;
+  const ms = typeof issuedAt === 'number' ? issuedAt * 1000 : issuedAt.getTime();
+  return ms <= watermark.getTime();
+}
+
+export class SessionRegistryService {
+  constructor(private readonly db: SessionDb) {}
+
+  // ── Registration ────────────────────────────────────────────────────────────
+
+  /** Called at login with the id used as the refresh-token familyId and the token `sid`. */
+  async recordLoginSession(params: {
+    sessionId: string;
+    owner: SessionOwner;
+    tenantId: string | null;
+    ip?: string | null;
+    userAgent?: string | null;
+  }): Promise<void> {
+    await this.db.authSession.create({
+      data: {
+        id: params.sessionId,
+        kind: 'LOGIN',
+        ...params.owner,
+        tenantId: params.tenantId,
+        ip: params.ip ?? null,
+        userAgent: params.userAgent?.slice(0, 500) ?? null,
+      },
+    });
+  }
+
+  /** Returns the `sid` to embed in the impersonation token. */
+  async recordImpersonationSession(params: {
+    impersonationId: string;
+    userId: string;
+    tenantId: string;
+    expiresAt: Date;
+    ip?: string | null;
+    userAgent?: string | null;
+  }): Promise<string> {
+    const session = await this.db.authSession.create({
+      data: {
+        id: randomUUID(),
+        kind: 'IMPERSONATION',
+        userId: params.userId,
+        tenantId: params.tenantId,
+        impersonationId: params.impersonationId,
+        expiresAt: params.expiresAt,
+        ip: params.ip ?? null,
+        userAgent: params.userAgent?.slice(0, 500) ?? null,
+      },
+      select: { id: true },
+    });
+    return session.id;
+  }
+
+  // ── Checks ──────────────────────────────────────────────────────────────────
+
+  /**
+   * Access-token check for the auth middleware. Tokens without `sid` (issued before the
+   * registry, or by tests) are subject to the watermark only; impersonation tokens must
+   * have a registered session.
+   */
+  async checkAccess(claims: AccessTokenClaims, now: Date = new Date()): Promise<SessionCheckResult> {
+    const subjects: Prisma.SessionRevocationWhereInput[] = [];
+    if (claims.userId) subjects.push({ subjectType: 'USER', subjectId: claims.userId });
+    if (claims.tenantId) subjects.push({ subjectType: 'TENANT', subjectId: claims.tenantId });
+
+    const [session, watermarks] = await Promise.all([
+      claims.sid
+        ? this.db.authSession.findUnique({
+            where: { id: claims.sid },
+            select: { revokedAt: true, expiresAt: true },
+          })
+        : null,
+      subjects.length > 0
+        ? this.db.sessionRevocation.findMany({ where: { OR: subjects }, select: { revokedBefore: true } })
+        : [],
+    ]);
+
+    if (claims.isImpersonation && !session) return { ok: false, reason: 'SESSION_REQUIRED' };
+    if (session?.revokedAt) return { ok: false, reason: 'SESSION_REVOKED' };
+    if (session?.expiresAt && session.expiresAt <= now) return { ok: false, reason: 'SESSION_EXPIRED' };
+    if (watermarks.some(w => issuedAtOrBefore(claims.iat, w.revokedBefore))) {
+      return { ok: false, reason: 'FORCED_LOGOUT' };
+    }
+    return { ok: true };
+  }
+
+  /**
+   * Refresh check. refreshIssuedAt is the createdAt of the presented refresh token: a
+   * force-logout watermark after it means the device was signed out, even when its
+   * family predates the registry and has no session row to revoke.
+   */
+  async checkRefresh(params: {
+    familyId: string;
+    owner: SessionOwner;
+    refreshIssuedAt: Date;
+  }): Promise<SessionCheckResult> {
+    const session = await this.db.authSession.findUnique({
+      where: { id: params.familyId },
+      select: { revokedAt: true, tenantId: true },
+    });
+    if (session?.revokedAt) return { ok: false, reason: 'SESSION_REVOKED' };
+
+    if ('userId' in params.owner) {
+      const subjects: Prisma.SessionRevocationWhereInput[] = [
+        { subjectType: 'USER', subjectId: params.owner.userId },
+      ];
+      if (session?.tenantId) subjects.push({ subjectType: 'TENANT', subjectId: session.tenantId });
+      const watermarks = await this.db.sessionRevocation.findMany({
+        where: { OR: subjects },
+        select: { revokedBefore: true },
+      });
+      if (watermarks.some(w => issuedAtOrBefore(params.refreshIssuedAt, w.revokedBefore))) {
+        return { ok: false, reason: 'FORCED_LOGOUT' };
+      }
+    }
+    return { ok: true };
+  }
+
+  /** After a successful refresh: registers families that predate the registry, else updates lastSeenAt. */
+  async touchRefreshedSession(params: {
+    sessionId: string;
+    owner: SessionOwner;
+    tenantId: string | null;
+    ip?: string | null;
+    userAgent?: string | null;
+    now?: Date;
+  }): Promise<void> {
+    const now = params.now ?? new Date();
+    const ip = params.ip ?? null;
+    const userAgent = params.userAgent?.slice(0, 500) ?? null;
+    await this.db.authSession.upsert({
+      where: { id: params.sessionId },
+      create: {
+        id: params.sessionId,
+        kind: 'LOGIN',
+        ...params.owner,
+        tenantId: params.tenantId,
+        ip,
+        userAgent,
+        lastSeenAt: now,
+      },
+      update: { lastSeenAt: now, ip, userAgent, tenantId: params.tenantId },
+    });
+  }
+
+  // ── Listing ─────────────────────────────────────────────────────────────────
+
+  /** The owner's signed-in devices (LOGIN sessions), most recently seen first. */
+  async listOwnSessions(owner: SessionOwner, now: Date = new Date()): Promise<SessionRecord[]> {
+    const rows = await this.db.authSession.findMany({
+      where: { ...owner, kind: 'LOGIN', ...activeWhere(now) },
+      select: SESSION_SELECT,
+      orderBy: { lastSeenAt: 'desc' },
+    });
+    return rows.map(toSessionRecord);
+  }
+
+  /** Active sessions of every kind for a tenant or user (control plane). */
+  async listSubjectSessions(
+    scope: ForceLogoutScope,
+    subjectId: string,
+    now: Date = new Date(),
+  ): Promise<SessionRecord[]> {
+    const rows = await this.db.authSession.findMany({
+      where: { ...(scope === 'USER' ? { userId: subjectId } : { tenantId: subjectId }), ...activeWhere(now) },
+      select: SESSION_SELECT,
+      orderBy: { lastSeenAt: 'desc' },
+      take: 500,
+    });
+    return rows.map(toSessionRecord);
+  }
+
+  // ── Revocation ──────────────────────────────────────────────────────────────
+
+  /** Per-device sign-out. Only the owner's own sessions can be revoked this way. */
+  async revokeSession(owner: SessionOwner, sessionId: string, now: Date = new Date()): Promise<void> {
+    const revoked = await this.db.authSession.updateMany({
+      where: { id: sessionId, ...owner, revokedAt: null },
+      data: { revokedAt: now, revokedReason: 'SIGNED_OUT' },
+    });
+    if (revoked.count === 0) throw new SessionNotFoundError(sessionId);
+    await this.revokeRefreshFamilies([sessionId], now);
+  }
+
+  /** Logout from the device itself (refresh cookie presented); no-op for unregistered families. */
+  async endLoginSession(sessionId: string, now: Date = new Date()): Promise<void> {
+    await this.db.authSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: now, revokedReason: 'LOGGED_OUT' },
+    });
+  }
+
+  /** "Sign out everywhere else". Returns the number of sessions revoked. */
+  async revokeOtherSessions(owner: SessionOwner, keepSessionId: string | null, now: Date = new Date()): Promise<number> {
+    const others = await this.db.authSession.findMany({
+      where: {
+        ...owner,
+        kind: 'LOGIN',
+        revokedAt: null,
+        ...(keepSessionId ? { id: { not: keepSessionId } } : {}),
+      },
+      select: { id: true },
+    });
+    const ids = others.map(s => s.id);
+    if (ids.length === 0) return 0;
+
+    await this.db.authSession.updateMany({
+      where: { id: { in: ids }, revokedAt: null },
+      data: { revokedAt: now, revokedReason: 'SIGNED_OUT_ELSEWHERE' },
+    });
+    await this.revokeRefreshFamilies(ids, now);
+    return ids.length;
+  }
+
+  /** Called when an impersonation session is stopped. */
+  async revokeImpersonation(impersonationId: string, now: Date = new Date()): Promise<void> {
+    await this.db.authSession.updateMany({
+      where: { impersonationId, revokedAt: null },
+      data: { revokedAt: now, revokedReason: 'IMPERSONATION_STOPPED' },
+    });
+  }
+
+  /**
+   * Admin force-logout of every session for a tenant or user. Sets the watermark (so
+   * unregistered tokens die too), revokes registered sessions and their refresh families.
+   * A USER force-logout revokes all of the user's refresh tokens, across tenants.
+   */
+  async forceLogout(params: {
+    scope: ForceLogoutScope;
+    subjectId: string;
+    reason: string;
+    adminId: string;
+    now?: Date;
+  }): Promise<ForceLogoutResult> {
+    const now = params.now ?? new Date();
+    const subjectWhere = params.scope === 'USER' ? { userId: params.subjectId } : { tenantId: params.subjectId };
+
+    await this.db.sessionRevocation.upsert({
+      where: { subjectType_subjectId: { subjectType: params.scope, subjectId: params.subjectId } },
+      create: {
+        subjectType: params.scope,
+        subjectId: params.subjectId,
+        revokedBefore: now,
+        reason: params.reason,
+        revokedByAdminId: params.adminId,
+      },
+      update: { revokedBefore: now, reason: params.reason, revokedByAdminId: params.adminId },
+    });
+
+    const live = await this.db.authSession.findMany({
+      where: { ...subjectWhere, revokedAt: null },
+      select: { id: true, kind: true },
+    });
+    const sessions = await this.db.authSession.updateMany({
+      where: { id: { in: live.map(s => s.id) }, revokedAt: null },
+      data: { revokedAt: now, revokedReason: 'FORCE_LOGOUT', revokedByAdminId: params.adminId },
+    });
+
+    const refresh =
+      params.scope === 'USER'
+        ? await this.db.refreshToken.updateMany({
+            where: { userId: params.subjectId, revokedAt: null },
+            data: { revokedAt: now },
+          })
+        : await this.db.refreshToken.updateMany({
+            where: { familyId: { in: live.filter(s => s.kind === 'LOGIN').map(s => s.id) }, revokedAt: null },
+            data: { revokedAt: now },
+          });
+
+    return {
+      scope: params.scope,
+      subjectId: params.subjectId,
+      revokedBefore: now.toISOString(),
+      sessionsRevoked: sessions.count,
+      refreshTokensRevoked: refresh.count,
+    };
+  }
+
+  private async revokeRefreshFamilies(familyIds: string[], now: Date): Promise<void> {
+    await this.db.refreshToken.updateMany({
+      where: { familyId: { in: familyIds }, revokedAt: null },
+      data: { revokedAt: now },
+    });
+  }
+}
@@ -37,6 +37,9 @@
  *   Step 6:  Maker-checker pre-check [G-021]
  *              Query allowed_transitions; if requiresMakerChecker=true and actor not MAKER|CHECKER
  *              → return PENDING_APPROVAL WITHOUT any ledger writes or state changes.
+ *   Step 6b: Currency conversion [FX-RATES-001]
+ *              input.currency ≠ escrow.currency → convert via FxRateService (today's rate);
+ *              Steps 7–8 then use the escrow-currency amount. No FxRateService → CURRENCY_MISMATCH.
  *   Step 7:  Balance sufficiency [TOGGLE_B=B1, D-020-B]
  *              escrowSvc.computeDerivedBalance(escrowId) < amount → INSUFFICIENT_ESCROW_FUNDS
  *   Step 8:  Ledger insert — append-only [TOGGLE_B=B1]
@@ -55,6 +58,12 @@ import type { EscrowService } from '../escrow.service.js';
 import type { EscalationService } from '../escalation.service.js';
 import { GovError } from '../escalation.types.js';
 import type { EscrowAccountRow } from '../escrow.types.js';
+import {
+  type FxRateService,
+  FxRateUnavailableError,
+  FxRateValidationError,
+  normalizeCurrencyCode,
+} from '../fx/fxRate.service.js';
 import type { AuditEntry } from '../../lib/auditLog.js';
 import {
   validateAmount,
@@ -69,6 +78,7 @@ import type {
   SettleTradeResult,
   PreviewSettlementInput,
   PreviewSettlementResult,
+  SettlementFxConversion,
 } from './settlement.types.js';
 
 // ─── Audit injection type ─────────────────────────────────────────────────────
@@ -92,6 +102,9 @@ export class SettlementService {
    * @param escalation   - EscalationService. Must be constructed with the same db tx.
    * @param writeAudit   - Bound writeAuditLog function for the current tx.
    *                       Injected to enable isolated unit testing (S-06).
+   * @param fx           - FxRateService (FX-RATES-001). Optional for backward compat;
+   *                       without it a settlement currency that differs from the escrow
+   *                       denomination is rejected with CURRENCY_MISMATCH.
    */
   constructor(
     private readonly db: PrismaClient,
@@ -99,8 +112,73 @@ export class SettlementService {
     private readonly escrowSvc: EscrowService,
     private readonly escalation: EscalationService,
     private readonly writeAudit: WriteAuditLogFn,
+    private readonly fx?: FxRateService | null,
   ) {}
 
+  /**
+   * Express the settlement amount in the escrow denomination.
+   * Same currency → amount unchanged, no conversion and no DB access.
+   */
+  private async convertToEscrowCurrency(
+    amount: number,
+    currency: string,
+    escrowCurrency: string,
+  ): Promise<
+    | { status: 'OK'; amount: number; conversion?: SettlementFxConversion }
+    | { status: 'ERROR'; code: SettlementErrorCode; message: string }
+  > {
+    const requested = normalizeCurrencyCode(currency) ?? currency.trim();
+    const denomination = normalizeCurrencyCode(escrowCurrency) ?? escrowCurrency.trim();
+    if (requested === denomination) {
+      return { status: 'OK', amount };
+    }
+
+    if (!this.fx) {
+      return {
+        status:  'ERROR',
+        code:    'CURRENCY_MISMATCH',
+        message: `Settlement currency '${currency}' does not match escrow currency '${escrowCurrency}'.`,
+      };
+    }
+
+    try {
+      const converted = await this.fx.convert(amount, requested, denomination);
+      const escrowAmount = Number(converted.convertedAmount);
+      if (!validateAmount(escrowAmount)) {
+        return {
+          status:  'ERROR',
+          code:    'INVALID_AMOUNT',
+          message: `amount converts to ${converted.convertedAmount} ${denomination}, which is not settleable.`,
+        };
+      }
+      return {
+        status: 'OK',
+        amount: escrowAmount,
+        conversion: {
+          requestedAmount:   amount,
+          requestedCurrency: requested,
+          escrowAmount,
+          escrowCurrency:    denomination,
+          rate:              converted.reference,
+        },
+      };
+    } catch (err) {
+      if (err instanceof FxRateUnavailableError) {
+        return { status: 'ERROR', code: 'FX_RATE_UNAVAILABLE', message: err.message };
+      }
+      if (err instanceof FxRateValidationError) {
+        return { status: 'ERROR', code: 'CURRENCY_MISMATCH', message: err.message };
+      }
+      return {
+        status:  'ERROR',
+        code:    'DB_ERROR',
+        message: err instanceof Error
+          ? `FX rate lookup failed: ${err.message}`
+          : 'Unknown error during FX rate lookup.',
+      };
+    }
+  }
+
   private async loadTradeAndEscrowPair(
     tradeId: string,
     escrowId: string,
@@ -218,11 +296,31 @@ export class SettlementService {
       };
     }
 
+    let escrowCurrency: string | null = null;
     if (input.tradeId) {
       const pairResult = await this.loadTradeAndEscrowPair(input.tradeId, input.escrowId, input.tenantId);
       if (pairResult.status !== 'OK') {
         return pairResult;
       }
+      escrowCurrency = pairResult.escrow.currency;
+    } else if (this.fx) {
+      const escrowDetail = await this.escrowSvc.getEscrowAccountDetail(input.escrowId, input.tenantId);
+      if (escrowDetail.status !== 'OK') {
+        return { status: 'ERROR', code: 'ESCROW_NOT_FOUND', message: escrowDetail.message };
+      }
+      escrowCurrency = escrowDetail.escrow.currency;
+    }
+
+    // FX-RATES-001: preview in the escrow denomination (same conversion settleTrade applies).
+    let amount = input.amount;
+    let conversion: SettlementFxConversion | undefined;
+    if (escrowCurrency !== null) {
+      const converted = await this.convertToEscrowCurrency(input.amount, input.currency, escrowCurrency);
+      if (converted.status !== 'OK') {
+        return converted;
+      }
+      amount = converted.amount;
+      conversion = converted.conversion;
     }
 
     const balanceResult = await this.escrowSvc.computeDerivedBalance(input.escrowId);
@@ -235,10 +333,12 @@ export class SettlementService {
     }
 
     const currentBalance   = balanceResult.balance;
-    const projectedBalance = currentBalance - input.amount;
+    const projectedBalance = currentBalance - amount;
     const wouldSucceed     = projectedBalance >= 0;
 
-    return { status: 'OK', currentBalance, projectedBalance, wouldSucceed };
+    return conversion
+      ? { status: 'OK', currentBalance, projectedBalance, wouldSucceed, conversion }
+      : { status: 'OK', currentBalance, projectedBalance, wouldSucceed };
   }
 
   // ─── Method 2: settleTrade ─────────────────────────────────────────────────
@@ -379,6 +479,17 @@ export class SettlementService {
       }
     }
 
+    // ── Step 6b: Currency conversion [FX-RATES-001] ──────────────────────────
+    // The ledger is denominated in the escrow currency. A settlement requested in
+    // another currency is converted once here; Steps 7–8 use the converted amount and
+    // the rate reference is recorded on the ledger row and in the audit entry.
+    const converted = await this.convertToEscrowCurrency(input.amount, input.currency, escrow.currency);
+    if (converted.status !== 'OK') {
+      return converted;
+    }
+    const escrowAmount = converted.amount;
+    const conversion   = converted.conversion;
+
     // ── Step 7: Balance sufficiency [TOGGLE_B=B1, D-020-B] ───────────────────
     // D-020-B: balance is NEVER stored; always derived from ledger SUM.
     // Block settlement if the computed balance is less than the requested amount.
@@ -391,13 +502,13 @@ export class SettlementService {
       };
     }
 
-    if (balanceResult.balance < input.amount) {
+    if (balanceResult.balance < escrowAmount) {
       return {
         status: 'ERROR',
         code:    'INSUFFICIENT_ESCROW_FUNDS',
         message:
           `Escrow derived balance (${balanceResult.balance}) is less than settlement amount ` +
-          `(${input.amount}). Insufficient funds. [G-019 B1, D-020-B]`,
+          `(${escrowAmount}). Insufficient funds. [G-019 B1, D-020-B]`,
       };
     }
 
@@ -415,14 +526,15 @@ export class SettlementService {
       escrowId:        input.escrowId,
       entryType:       'RELEASE',
       direction:       'DEBIT',
-      amount:          input.amount,
-      currency:        input.currency,
+      amount:          escrowAmount,
+      currency:        conversion ? escrow.currency : input.currency,
       referenceId:     input.referenceId,
       metadata: {
         settlementReason: input.reason,
         tradeId:          input.tradeId,
         actorType:        input.actorType,
         actorUserId:      input.actorUserId ?? null,
+        ...(conversion ? { fxConversion: conversion } : {}),
       },
       createdByUserId: input.actorUserId ?? null,
     });
@@ -558,6 +670,7 @@ export class SettlementService {
         referenceId:   input.referenceId,
         amount:        input.amount,
         currency:      input.currency,
+        ...(conversion ? { fxConversion: conversion } : {}),
         escrowReleased,
         tradeClosed,
         reason:        input.reason,
@@ -571,6 +684,7 @@ export class SettlementService {
       transactionId,
       escrowReleased,
       tradeClosed,
+      ...(conversion ? { conversion } : {}),
     };
   }
 }
@@ -13,6 +13,7 @@
  */
 
 import type { ActorType } from '../stateMachine.types.js';
+import type { FxRateReference } from '../fx/fxRate.service.js';
 
 export type { ActorType } from '../stateMachine.types.js';
 
@@ -54,6 +55,13 @@ export type SettlementErrorCode =
   | 'DUPLICATE_REFERENCE'
   /** StateMachineService returned DENIED or ESCALATION_REQUIRED. */
   | 'STATE_MACHINE_DENIED'
+  /**
+   * FX-RATES-001: settlement currency differs from the escrow denomination and no
+   * FxRateService is available to convert it.
+   */
+  | 'CURRENCY_MISMATCH'
+  /** FX-RATES-001: no stored rate converts the settlement currency into the escrow currency. */
+  | 'FX_RATE_UNAVAILABLE'
   /** Prisma/DB write or read failed; cause included in message. */
   | 'DB_ERROR';
 
@@ -74,10 +82,28 @@ export type PreviewSettlementInput = {
   tenantId: string;
   /** Amount to be settled (RELEASE DEBIT). Must be > 0. */
   amount: number;
-  /** ISO 4217 currency code. Must match the escrow account denomination. */
+  /**
+   * ISO 4217 currency code. When it differs from the escrow denomination the amount is
+   * converted at today's rate (FX-RATES-001); the preview reports the rate used.
+   */
   currency: string;
 };
 
+/**
+ * FX-RATES-001: conversion applied when the settlement currency differs from the escrow
+ * denomination. The ledger is always written in the escrow currency.
+ */
+export type SettlementFxConversion = {
+  /** Amount and currency as requested by the caller. */
+  requestedAmount: number;
+  requestedCurrency: string;
+  /** Amount debited from / compared against the escrow ledger. */
+  escrowAmount: number;
+  escrowCurrency: string;
+  /** Auditable rate reference (fx_rates.id, applied rate, effective date). */
+  rate: FxRateReference;
+};
+
 export type PreviewSettlementResult =
   | {
       status: 'OK';
@@ -87,6 +113,8 @@ export type PreviewSettlementResult =
       projectedBalance: number;
       /** true if currentBalance >= amount (ledger can support the settlement). */
       wouldSucceed: boolean;
+      /** Present when the amount was converted into the escrow currency. */
+      conversion?: SettlementFxConversion;
     }
   | { status: 'ERROR'; code: SettlementErrorCode; message: string };
 
@@ -119,7 +147,10 @@ export type SettleTradeInput = {
    * Must be > 0. Validated before any DB write.
    */
   amount: number;
-  /** ISO 4217 currency code. Must match escrow account denomination. */
+  /**
+   * ISO 4217 currency code. When it differs from the escrow denomination the amount is
+   * converted into it at today's rate (requires an injected FxRateService).
+   */
   currency: string;
   /**
    * Idempotency / reconciliation key (TOGGLE_B = B1).
@@ -158,6 +189,8 @@ export type SettleTradeResult =
        * Only true when escrowReleased=true AND trade reached SETTLEMENT_ACKNOWLEDGED.
        */
       tradeClosed: boolean;
+      /** Present when the amount was converted into the escrow currency. */
+      conversion?: SettlementFxConversion;
     }
   | {
       status: 'PENDING_APPROVAL';
@@ -0,0 +1,513 @@
+/**
+ * ORDER-FULFILMENT-001 — Shipments, packing lists, proof of delivery.
+ *
+ * A shipment is one physical consignment against exactly one order or trade.
+ * Orders and trades may be split across several partial shipments.
+ *
+ * Shipment lifecycle (shipments.status, trigger-guarded in the DB):
+ *   PENDING → DISPATCHED → DELIVERED
+ *   PENDING | DISPATCHED → CANCELLED
+ *
+ * Side effects:
+ *   dispatch  → DISPATCH_PROOF evidence on every traceability node in the packing list
+ *   deliver   → order: once every order line is covered by DELIVERED shipments and the
+ *               order is CONFIRMED, StateMachineService moves it to FULFILLED as
+ *               SYSTEM_AUTOMATION and checkout reservations are consumed.
+ *             → trade: a SHIPMENT_DELIVERED trade event only. Trade lifecycle moves
+ *               (FULFILLMENT → SETTLEMENT_PENDING) stay human-driven because they are
+ *               value-bearing and gated by Maker-Checker.
+ *
+ * Persistence helpers take the caller's transaction client so RLS context and
+ * audit writes stay inside the same withDbContext transaction as the route.
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { StateMachineService } from '../stateMachine.service.js';
+import { recordDispatchProofEvidence } from '../dppEvidenceVault.js';
+import { consumeOrderReservations, resolveTraceabilityNodeId } from '../inventory/inventory.service.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type ShipmentStatus = 'PENDING' | 'DISPATCHED' | 'DELIVERED' | 'CANCELLED';
+
+export const SHIPMENT_DOCUMENT_KINDS = ['DISPATCH_PROOF', 'PROOF_OF_DELIVERY'] as const;
+
+export type ShipmentDocumentKind = (typeof SHIPMENT_DOCUMENT_KINDS)[number];
+
+export type ShipmentLineInput = {
+  orderItemId?: string | null;
+  description?: string | null;
+  quantity: number;
+  unit?: string | null;
+  packageRef?: string | null;
+  batchId?: string | null;
+};
+
+export type CreateShipmentInput = {
+  tenantId: string;
+  orderId?: string | null;
+  tradeId?: string | null;
+  carrier: string;
+  trackingNumber?: string | null;
+  notes?: string | null;
+  lines: ShipmentLineInput[];
+  createdByUserId: string | null;
+};
+
+export type OrderLineProgress = {
+  orderItemId: string;
+  ordered: number;
+  shipped: number;
+  delivered: number;
+};
+
+export type OrderFulfilmentOutcome =
+  | { status: 'FULFILLED'; transitionId: string; consumedReservations: number }
+  | { status: 'PARTIAL' }
+  | { status: 'SKIPPED'; canonicalState: string }
+  | { status: 'DENIED'; code: string };
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export type ShipmentErrorCode =
+  | 'SHIPMENT_NOT_FOUND'
+  | 'SHIPMENT_PARENT_NOT_FOUND'
+  | 'SHIPMENT_PARENT_CLOSED'
+  | 'SHIPMENT_LINE_INVALID'
+  | 'SHIPMENT_QUANTITY_EXCEEDED'
+  | 'SHIPMENT_INVALID_TRANSITION'
+  | 'SHIPMENT_DOCUMENT_NOT_ALLOWED';
+
+export class ShipmentError extends Error {
+  readonly code: ShipmentErrorCode;
+  readonly statusCode: number;
+
+  constructor(code: ShipmentErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.name = 'ShipmentError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+const SHIPMENT_TRANSITIONS: Record<ShipmentStatus, readonly ShipmentStatus[]> = {
+  PENDING: ['DISPATCHED', 'CANCELLED'],
+  DISPATCHED: ['DELIVERED', 'CANCELLED'],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+export function canTransitionShipment(from: string, to: ShipmentStatus): boolean {
+  return (SHIPMENT_TRANSITIONS[from as ShipmentStatus] ?? []).includes(to);
+}
+
+/**
+ * Which documents a shipment in `status` accepts. Proof of delivery only makes
+ * sense once goods are on the way; nothing is attached to a cancelled shipment.
+ */
+export function isDocumentKindAllowed(status: string, kind: ShipmentDocumentKind): boolean {
+  if (status === 'CANCELLED') return false;
+  if (kind === 'PROOF_OF_DELIVERY') return status === 'DISPATCHED' || status === 'DELIVERED';
+  return true;
+}
+
+/**
+ * Per order line: ordered quantity, quantity on non-cancelled shipments, and
+ * quantity on DELIVERED shipments. Lines without an orderItemId are ignored.
+ */
+export function summarizeOrderShipmentProgress(
+  orderItems: Array<{ id: string; quantity: number }>,
+  shipmentLines: Array<{ orderItemId: string | null; quantity: number; status: string }>,
+): OrderLineProgress[] {
+  const progress = new Map<string, OrderLineProgress>();
+  for (const item of orderItems) {
+    progress.set(item.id, { orderItemId: item.id, ordered: item.quantity, shipped: 0, delivered: 0 });
+  }
+  for (const line of shipmentLines) {
+    const entry = line.orderItemId ? progress.get(line.orderItemId) : undefined;
+    if (!entry || line.status === 'CANCELLED') continue;
+    entry.shipped += line.quantity;
+    if (line.status === 'DELIVERED') entry.delivered += line.quantity;
+  }
+  return [...progress.values()];
+}
+
+export function isOrderFullyDelivered(progress: OrderLineProgress[]): boolean {
+  return progress.length > 0 && progress.every(line => line.delivered >= line.ordered);
+}
+
+/**
+ * Reject packing list lines that do not belong to the order or that would ship
+ * more than was ordered once combined with existing non-cancelled shipments.
+ */
+export function validateOrderShipmentLines(
+  progress: OrderLineProgress[],
+  lines: ShipmentLineInput[],
+): void {
+  const byItem = new Map(progress.map(line => [line.orderItemId, line]));
+  const requested = new Map<string, number>();
+
+  for (const line of lines) {
+    if (!line.orderItemId || !byItem.has(line.orderItemId)) {
+      throw new ShipmentError(
+        'SHIPMENT_LINE_INVALID',
+        'Every order shipment line must reference an item of that order.',
+        400,
+      );
+    }
+    requested.set(line.orderItemId, (requested.get(line.orderItemId) ?? 0) + line.quantity);
+  }
+
+  for (const entry of progress) {
+    const quantity = requested.get(entry.orderItemId) ?? 0;
+    const remaining = entry.ordered - entry.shipped;
+    if (quantity > remaining) {
+      throw new ShipmentError(
+        'SHIPMENT_QUANTITY_EXCEEDED',
+        `Order item ${entry.orderItemId}: requested ${quantity}, remaining to ship ${remaining}.`,
+        409,
+      );
+    }
+  }
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────────
+
+const SHIPMENT_INCLUDE = {
+  lines: { orderBy: { createdAt: 'asc' } },
+  documents: {
+    orderBy: { createdAt: 'asc' },
+    select: {
+      id: true,
+      kind: true,
+      originalName: true,
+      mimeType: true,
+      sizeBytes: true,
+      uploadedByUserId: true,
+      createdAt: true,
+    },
+  },
+} satisfies Prisma.ShipmentInclude;
+
+export type ShipmentWithDetails = Prisma.ShipmentGetPayload<{ include: typeof SHIPMENT_INCLUDE }>;
+
+/**
+ * Wraps a Prisma TransactionClient as PrismaClient for StateMachineService.
+ * Redirects $transaction() to execute the callback in the current tx.
+ */
+function makeTxBoundPrisma(tx: Prisma.TransactionClient): PrismaClient {
+  return new Proxy(tx as unknown as PrismaClient, {
+    get(target, prop) {
+      if (prop === '$transaction') {
+        return (cb: (client: Prisma.TransactionClient) => Promise<unknown>) => cb(tx);
+      }
+      return (target as unknown as Record<string | symbol, unknown>)[prop];
+    },
+  });
+}
+
+export async function loadShipment(
+  tx: Prisma.TransactionClient,
+  shipmentId: string,
+): Promise<ShipmentWithDetails | null> {
+  return tx.shipment.findUnique({ where: { id: shipmentId }, include: SHIPMENT_INCLUDE });
+}
+
+/** Create a PENDING shipment with its packing list against an order or a trade. */
+export async function createShipment(
+  tx: Prisma.TransactionClient,
+  input: CreateShipmentInput,
+): Promise<ShipmentWithDetails> {
+  const orderItems = new Map<string, { name: string; catalogItemId: string | null }>();
+
+  if (input.orderId) {
+    const order = await tx.order.findUnique({
+      where: { id: input.orderId },
+      select: { status: true, items: { select: { id: true, name: true, quantity: true, catalogItemId: true } } },
+    });
+    if (!order) throw new ShipmentError('SHIPMENT_PARENT_NOT_FOUND', 'Order not found.', 404);
+    if (order.status === 'CANCELLED') {
+      throw new ShipmentError('SHIPMENT_PARENT_CLOSED', 'Cannot ship a cancelled order.', 409);
+    }
+
+    const existing = await tx.shipmentLine.findMany({
+      where: { shipment: { orderId: input.orderId, status: { not: 'CANCELLED' } } },
+      select: { orderItemId: true, quantity: true, shipment: { select: { status: true } } },
+    });
+    const progress = summarizeOrderShipmentProgress(
+      order.items,
+      existing.map(line => ({ orderItemId: line.orderItemId, quantity: line.quantity, status: line.shipment.status })),
+    );
+    validateOrderShipmentLines(progress, input.lines);
+    for (const item of order.items) {
+      orderItems.set(item.id, { name: item.name, catalogItemId: item.catalogItemId });
+    }
+  } else if (input.tradeId) {
+    const trade = await tx.trade.findUnique({
+      where: { id: input.tradeId },
+      select: { lifecycleState: { select: { stateKey: true } } },
+    });
+    if (!trade) throw new ShipmentError('SHIPMENT_PARENT_NOT_FOUND', 'Trade not found.', 404);
+    if (['CLOSED', 'CANCELLED'].includes(trade.lifecycleState.stateKey)) {
+      throw new ShipmentError('SHIPMENT_PARENT_CLOSED', `Cannot ship a ${trade.lifecycleState.stateKey} trade.`, 409);
+    }
+    if (input.lines.some(line => line.orderItemId || !line.description?.trim())) {
+      throw new ShipmentError(
+        'SHIPMENT_LINE_INVALID',
+        'Trade shipment lines need a description and cannot reference order items.',
+        400,
+      );
+    }
+  } else {
+    throw new ShipmentError('SHIPMENT_PARENT_NOT_FOUND', 'A shipment needs an orderId or a tradeId.', 400);
+  }
+
+  const lines: Prisma.ShipmentLineUncheckedCreateWithoutShipmentInput[] = [];
+  for (const line of input.lines) {
+    const orderItem = line.orderItemId ? orderItems.get(line.orderItemId) : undefined;
+    lines.push({
+      tenantId: input.tenantId,
+      orderItemId: line.orderItemId ?? null,
+      catalogItemId: orderItem?.catalogItemId ?? null,
+      description: line.description?.trim() || orderItem?.name || '',
+      quantity: line.quantity,
+      unit: line.unit ?? null,
+      packageRef: line.packageRef ?? null,
+      batchId: line.batchId ?? null,
+      traceabilityNodeId: await resolveTraceabilityNodeId(tx, input.tenantId, line.batchId ?? null),
+    });
+  }
+
+  return tx.shipment.create({
+    data: {
+      tenantId: input.tenantId,
+      orderId: input.orderId ?? null,
+      tradeId: input.tradeId ?? null,
+      carrier: input.carrier,
+      trackingNumber: input.trackingNumber ?? null,
+      notes: input.notes ?? null,
+      createdByUserId: input.createdByUserId,
+      lines: { create: lines },
+    },
+    include: SHIPMENT_INCLUDE,
+  });
+}
+
+/**
+ * Compare-and-set status change. Fails if another request moved the shipment
+ * first, so two concurrent deliveries cannot both run their side effects.
+ */
+async function transitionShipment(
+  tx: Prisma.TransactionClient,
+  shipmentId: string,
+  to: ShipmentStatus,
+  data: Prisma.ShipmentUpdateManyMutationInput,
+): Promise<ShipmentWithDetails> {
+  const current = await tx.shipment.findUnique({ where: { id: shipmentId }, select: { status: true } });
+  if (!current) throw new ShipmentError('SHIPMENT_NOT_FOUND', 'Shipment not found.', 404);
+  if (!canTransitionShipment(current.status, to)) {
+    throw new ShipmentError(
+      'SHIPMENT_INVALID_TRANSITION',
+      `Shipment cannot move from ${current.status} to ${to}.`,
+      409,
+    );
+  }
+
+  const { count } = await tx.shipment.updateMany({
+    where: { id: shipmentId, status: current.status },
+    data: { ...data, status: to },
+  });
+  if (count === 0) {
+    throw new ShipmentError('SHIPMENT_INVALID_TRANSITION', 'Shipment status changed concurrently.', 409);
+  }
+  const shipment = await loadShipment(tx, shipmentId);
+  if (!shipment) throw new ShipmentError('SHIPMENT_NOT_FOUND', 'Shipment not found.', 404);
+  return shipment;
+}
+
+function distinctNodeIds(shipment: { lines: Array<{ traceabilityNodeId: string | null }> }): string[] {
+  return [...new Set(shipment.lines.map(line => line.traceabilityNodeId).filter((id): id is string => !!id))];
+}
+
+export function dispatchProofTitle(shipment: { carrier: string; trackingNumber: string | null }): string {
+  return shipment.trackingNumber
+    ? `Dispatch proof — ${shipment.carrier} ${shipment.trackingNumber}`
+    : `Dispatch proof — ${shipment.carrier}`;
+}
+
+/** PENDING → DISPATCHED; records DISPATCH_PROOF evidence for each shipped batch. */
+export async function dispatchShipment(
+  tx: Prisma.TransactionClient,
+  input: { tenantId: string; shipmentId: string; trackingNumber?: string | null; dispatchedAt?: Date },
+): Promise<{ shipment: ShipmentWithDetails; evidenceCount: number }> {
+  const shipment = await transitionShipment(tx, input.shipmentId, 'DISPATCHED', {
+    dispatchedAt: input.dispatchedAt ?? new Date(),
+    ...(input.trackingNumber ? { trackingNumber: input.trackingNumber } : {}),
+  });
+
+  const evidence = await recordDispatchProofEvidence(tx, input.tenantId, distinctNodeIds(shipment), {
+    sourceTable: 'shipments',
+    sourceId: shipment.id,
+    title: dispatchProofTitle(shipment),
+    carrier: shipment.carrier,
+    trackingNumber: shipment.trackingNumber,
+    dispatchedAt: shipment.dispatchedAt,
+  });
+
+  return { shipment, evidenceCount: evidence.length };
+}
+
+/**
+ * DISPATCHED → DELIVERED. For order shipments, attempts the FULFILLED transition;
+ * for trade shipments, appends a SHIPMENT_DELIVERED trade event.
+ */
+export async function deliverShipment(
+  tx: Prisma.TransactionClient,
+  input: { tenantId: string; shipmentId: string; deliveredAt?: Date; actorUserId: string | null },
+): Promise<{ shipment: ShipmentWithDetails; fulfilment: OrderFulfilmentOutcome | null }> {
+  const deliveredAt = input.deliveredAt ?? new Date();
+  const shipment = await transitionShipment(tx, input.shipmentId, 'DELIVERED', { deliveredAt });
+
+  if (shipment.orderId) {
+    const fulfilment = await fulfilOrderIfDelivered(tx, input.tenantId, shipment.orderId, shipment.id, deliveredAt);
+    return { shipment, fulfilment };
+  }
+  if (!shipment.tradeId) return { shipment, fulfilment: null };
+
+  await tx.tradeEvent.create({
+    data: {
+      tenantId: input.tenantId,
+      tradeId: shipment.tradeId,
+      eventType: 'SHIPMENT_DELIVERED',
+      metadata: {
+        shipmentId: shipment.id,
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+        deliveredAt: deliveredAt.toISOString(),
+      },
+      createdByUserId: input.actorUserId,
+    },
+  });
+  return { shipment, fulfilment: null };
+}
+
+/** PENDING | DISPATCHED → CANCELLED. Cancelled quantities become shippable again. */
+export async function cancelShipment(
+  tx: Prisma.TransactionClient,
+  shipmentId: string,
+): Promise<ShipmentWithDetails> {
+  return transitionShipment(tx, shipmentId, 'CANCELLED', { cancelledAt: new Date() });
+}
+
+/**
+ * Move a CONFIRMED order to FULFILLED once every line is covered by DELIVERED
+ * shipments. Mirrors PATCH /tenant/orders/:id/status: canonical from-state comes
+ * from order_lifecycle_logs, DB status is written as PLACED (Option A).
+ * A state machine denial is reported, not thrown — the delivery itself stands.
+ */
+export async function fulfilOrderIfDelivered(
+  tx: Prisma.TransactionClient,
+  orgId: string,
+  orderId: string,
+  shipmentId: string,
+  now: Date = new Date(),
+): Promise<OrderFulfilmentOutcome> {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: { status: true, items: { select: { id: true, quantity: true } } },
+  });
+  if (!order) return { status: 'SKIPPED', canonicalState: 'UNKNOWN' };
+
+  const delivered = await tx.shipmentLine.findMany({
+    where: { shipment: { orderId, status: 'DELIVERED' } },
+    select: { orderItemId: true, quantity: true },
+  });
+  const progress = summarizeOrderShipmentProgress(
+    order.items,
+    delivered.map(line => ({ ...line, status: 'DELIVERED' })),
+  );
+  if (!isOrderFullyDelivered(progress)) return { status: 'PARTIAL' };
+
+  const latestLog = await tx.order_lifecycle_logs.findFirst({
+    where: { order_id: orderId },
+    orderBy: { created_at: 'desc' },
+  });
+  const canonicalState: string = latestLog?.to_state ?? order.status;
+  if (canonicalState !== 'CONFIRMED') return { status: 'SKIPPED', canonicalState };
+
+  const txBound = makeTxBoundPrisma(tx);
+  const smResult = await new StateMachineService(txBound).transition({
+    entityType: 'ORDER',
+    entityId: orderId,
+    orgId,
+    fromStateKey: canonicalState,
+    toStateKey: 'FULFILLED',
+    actorType: 'SYSTEM_AUTOMATION',
+    actorUserId: null,
+    actorRole: 'SYSTEM',
+    reason: `All order lines delivered (shipment ${shipmentId})`,
+    requestId: null,
+  }, { db: txBound });
+
+  if (smResult.status !== 'APPLIED') {
+    return { status: 'DENIED', code: smResult.status === 'DENIED' ? smResult.code : smResult.status };
+  }
+
+  await tx.order.update({ where: { id: orderId }, data: { status: 'PLACED' } });
+  const settlement = await consumeOrderReservations(tx, orderId, now);
+
+  return {
+    status: 'FULFILLED',
+    transitionId: smResult.transitionId,
+    consumedReservations: settlement.reservationCount,
+  };
+}
+
+/**
+ * Persist an uploaded shipment document. A DISPATCH_PROOF upload also lands in
+ * the DPP evidence vault for each shipped batch, pointing at the tenant route
+ * that issues a signed URL (the storage path itself never leaves the server).
+ */
+export async function recordShipmentDocument(
+  tx: Prisma.TransactionClient,
+  input: {
+    tenantId: string;
+    shipment: Pick<ShipmentWithDetails, 'id' | 'carrier' | 'trackingNumber' | 'dispatchedAt' | 'lines'>;
+    kind: ShipmentDocumentKind;
+    storagePath: string;
+    originalName: string | null;
+    mimeType: string;
+    sizeBytes: number;
+    uploadedByUserId: string | null;
+  },
+): Promise<{ documentId: string; evidenceCount: number }> {
+  const document = await tx.shipmentDocument.create({
+    data: {
+      tenantId: input.tenantId,
+      shipmentId: input.shipment.id,
+      kind: input.kind,
+      storagePath: input.storagePath,
+      originalName: input.originalName,
+      mimeType: input.mimeType,
+      sizeBytes: input.sizeBytes,
+      uploadedByUserId: input.uploadedByUserId,
+    },
+    select: { id: true },
+  });
+
+  if (input.kind !== 'DISPATCH_PROOF') return { documentId: document.id, evidenceCount: 0 };
+
+  const evidence = await recordDispatchProofEvidence(tx, input.tenantId, distinctNodeIds(input.shipment), {
+    sourceTable: 'shipment_documents',
+    sourceId: document.id,
+    title: dispatchProofTitle(input.shipment),
+    carrier: input.shipment.carrier,
+    trackingNumber: input.shipment.trackingNumber,
+    dispatchedAt: input.shipment.dispatchedAt,
+    documentUrl: `/api/tenant/shipments/${input.shipment.id}/documents/${document.id}`,
+  });
+
+  return { documentId: document.id, evidenceCount: evidence.length };
+}
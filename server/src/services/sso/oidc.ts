@@ -0,0 +1,257 @@
+/**
+ * SSO-001 — OpenID Connect relying party (authorization code flow with PKCE).
+ *
+ * Discovery and JWKS are fetched from the configured issuer and cached for ten minutes;
+ * an ID token signed with an unknown kid forces one JWKS refresh (key rotation).
+ * ID tokens are accepted with RS256 or ES256 only, and are checked for iss, aud / azp,
+ * exp, iat and the nonce bound to the login state.
+ *
+ * All network access goes through an injected fetch so tests can run a mock IdP.
+ */
+
+import { createHash, createPublicKey, verify, type JsonWebKey, type KeyObject } from 'node:crypto';
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  [claim: string]: unknown;
+}
+
+export type FetchLike = (
+  url: string,
+  init?: { method?: string; headers?: Record<string, string>; body?: string },
+) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
+
+export type OidcFailure = 'DISCOVERY' | 'TOKEN_EXCHANGE' | 'ID_TOKEN';
+
+export class OidcError extends Error {
+  constructor(
+    public readonly failure: OidcFailure,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const SUPPORTED_ALGORITHMS = new Set(['RS256', 'ES256']);
+
+interface ProviderCacheEntry {
+  metadata: OidcProviderMetadata;
+  jwks: JsonWebKey[] | null;
+  fetchedAt: number;
+}
+
+const providerCache = new Map<string, ProviderCacheEntry>();
+
+async function getJson(fetchImpl: FetchLike, url: string, failure: OidcFailure): Promise<Record<string, unknown>> {
+  let response: Awaited<ReturnType<FetchLike>>;
+  try {
+    response = await fetchImpl(url, { headers: { accept: 'application/json' } });
+  } catch {
+    throw new OidcError(failure, `Request to ${url} failed`);
+  }
+  if (!response.ok) throw new OidcError(failure, `${url} returned HTTP ${response.status}`);
+  const body = await response.json();
+  if (!body || typeof body !== 'object') throw new OidcError(failure, `${url} did not return a JSON object`);
+  return body as Record<string, unknown>;
+}
+
+/** Provider metadata from {issuer}/.well-known/openid-configuration; issuer must match exactly. */
+export async function discoverProvider(issuer: string, fetchImpl: FetchLike): Promise<OidcProviderMetadata> {
+  const cached = providerCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.metadata;
+
+  const body = await getJson(fetchImpl, `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`, 'DISCOVERY');
+  const fields = ['issuer', 'authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const;
+  if (fields.some(field => typeof body[field] !== 'string')) {
+    throw new OidcError('DISCOVERY', 'Provider metadata is missing required endpoints');
+  }
+  if (body.issuer !== issuer) {
+    throw new OidcError('DISCOVERY', 'Provider metadata issuer does not match the configured issuer');
+  }
+
+  const metadata = Object.fromEntries(fields.map(field => [field, body[field]])) as unknown as OidcProviderMetadata;
+  providerCache.set(issuer, { metadata, jwks: null, fetchedAt: Date.now() });
+  return metadata;
+}
+
+async function getSigningKeys(
+  metadata: OidcProviderMetadata,
+  fetchImpl: FetchLike,
+  forceRefresh: boolean,
+): Promise<JsonWebKey[]> {
+  const cached = providerCache.get(metadata.issuer);
+  if (cached?.jwks && !forceRefresh) return cached.jwks;
+
+  const body = await getJson(fetchImpl, metadata.jwks_uri, 'ID_TOKEN');
+  if (!Array.isArray(body.keys)) throw new OidcError('ID_TOKEN', 'JWKS document has no keys');
+  const keys = body.keys as JsonWebKey[];
+  providerCache.set(metadata.issuer, { metadata, jwks: keys, fetchedAt: cached?.fetchedAt ?? Date.now() });
+  return keys;
+}
+
+export function pkceChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+export function buildAuthorizationUrl(params: {
+  metadata: OidcProviderMetadata;
+  clientId: string;
+  redirectUri: string;
+  scopes: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  loginHint?: string;
+}): string {
+  const url = new URL(params.metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', params.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', params.scopes);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', pkceChallenge(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (params.loginHint) url.searchParams.set('login_hint', params.loginHint);
+  return url.toString();
+}
+
+/** Token endpoint call (client_secret_basic); returns the raw ID token. */
+export async function exchangeAuthorizationCode(
+  params: {
+    metadata: OidcProviderMetadata;
+    clientId: string;
+    clientSecret: string;
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+  },
+  fetchImpl: FetchLike,
+): Promise<string> {
+  const credentials = Buffer.from(
+    `${encodeURIComponent(params.clientId)}:${encodeURIComponent(params.clientSecret)}`,
+  ).toString('base64');
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.codeVerifier,
+  }).toString();
+
+  let response: Awaited<ReturnType<FetchLike>>;
+  try {
+    response = await fetchImpl(params.metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        authorization: `Basic ${credentials}`,
+        'content-type': 'application/x-www-form-urlencoded',
+        accept: 'application/json',
+      },
+      body,
+    });
+  } catch {
+    throw new OidcError('TOKEN_EXCHANGE', 'Token endpoint request failed');
+  }
+  if (!response.ok) throw new OidcError('TOKEN_EXCHANGE', `Token endpoint returned HTTP ${response.status}`);
+  const tokens = (await response.json()) as { id_token?: unknown };
+  if (typeof tokens.id_token !== 'string') throw new OidcError('TOKEN_EXCHANGE', 'Token response has no id_token');
+  return tokens.id_token;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (value && typeof value === 'object') return value as Record<string, unknown>;
+  } catch {
+    // fall through
+  }
+  throw new OidcError('ID_TOKEN', 'ID token is not a well-formed JWT');
+}
+
+function selectKey(keys: JsonWebKey[], alg: string, kid: unknown): JsonWebKey | undefined {
+  const kty = alg === 'RS256' ? 'RSA' : 'EC';
+  const candidates = keys.filter(
+    key => key.kty === kty && (key.use === undefined || key.use === 'sig') && (key.alg === undefined || key.alg === alg),
+  );
+  if (typeof kid === 'string') return candidates.find(key => key.kid === kid);
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/** Verifies signature and standard claims; returns the ID token claims. */
+export async function verifyIdToken(
+  idToken: string,
+  params: {
+    metadata: OidcProviderMetadata;
+    clientId: string;
+    nonce: string;
+    now?: Date;
+    clockSkewSeconds?: number;
+  },
+  fetchImpl: FetchLike,
+): Promise<OidcIdTokenClaims> {
+  const segments = idToken.split('.');
+  if (segments.length !== 3) throw new OidcError('ID_TOKEN', 'ID token is not a compact JWS');
+  const [headerSegment, payloadSegment, signatureSegment] = segments;
+  const header = decodeSegment(headerSegment);
+  const alg = header.alg;
+  if (typeof alg !== 'string' || !SUPPORTED_ALGORITHMS.has(alg)) {
+    throw new OidcError('ID_TOKEN', `Unsupported ID token algorithm ${String(alg)}`);
+  }
+
+  let jwk = selectKey(await getSigningKeys(params.metadata, fetchImpl, false), alg, header.kid);
+  if (!jwk) jwk = selectKey(await getSigningKeys(params.metadata, fetchImpl, true), alg, header.kid);
+  if (!jwk) throw new OidcError('ID_TOKEN', 'No matching signing key in the provider JWKS');
+
+  let key: KeyObject;
+  try {
+    key = createPublicKey({ key: jwk, format: 'jwk' });
+  } catch {
+    throw new OidcError('ID_TOKEN', 'Provider signing key is invalid');
+  }
+  const signedData = Buffer.from(`${headerSegment}.${payloadSegment}`);
+  const signature = Buffer.from(signatureSegment, 'base64url');
+  const valid =
+    alg === 'RS256'
+      ? verify('RSA-SHA256', signedData, key, signature)
+      : verify('sha256', signedData, { key, dsaEncoding: 'ieee-p1363' }, signature);
+  if (!valid) throw new OidcError('ID_TOKEN', 'ID token signature is invalid');
+
+  const claims = decodeSegment(payloadSegment) as Partial<OidcIdTokenClaims>;
+  const nowSeconds = Math.floor((params.now ?? new Date()).getTime() / 1000);
+  const skew = params.clockSkewSeconds ?? 120;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== params.metadata.issuer) throw new OidcError('ID_TOKEN', 'ID token issuer mismatch');
+  if (!audiences.includes(params.clientId)) throw new OidcError('ID_TOKEN', 'ID token audience mismatch');
+  if (audiences.length > 1 && claims.azp !== params.clientId) {
+    throw new OidcError('ID_TOKEN', 'ID token authorized party mismatch');
+  }
+  if (typeof claims.exp !== 'number' || nowSeconds >= claims.exp + skew) {
+    throw new OidcError('ID_TOKEN', 'ID token has expired');
+  }
+  if (typeof claims.iat !== 'number' || claims.iat > nowSeconds + skew) {
+    throw new OidcError('ID_TOKEN', 'ID token issued in the future');
+  }
+  if (claims.nonce !== params.nonce) throw new OidcError('ID_TOKEN', 'ID token nonce mismatch');
+  if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+    throw new OidcError('ID_TOKEN', 'ID token has no subject');
+  }
+  return claims as OidcIdTokenClaims;
+}
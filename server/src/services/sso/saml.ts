@@ -0,0 +1,360 @@
+/**
+ * SSO-001 — SAML 2.0 service provider (Web Browser SSO profile).
+ *
+ *   AuthnRequest   HTTP-Redirect binding, unsigned, ID remembered as InResponseTo.
+ *   Response       HTTP-POST binding to the ACS. The Assertion must carry an enveloped
+ *                  RSA-SHA256 signature over itself (exc-c14n, SHA-256 digest) that verifies
+ *                  against the tenant's configured IdP certificate. Encrypted assertions
+ *                  are not supported.
+ *
+ * Parsing is @xmldom/xmldom (documents with a DOCTYPE are refused); canonicalization and
+ * signature verification are xml-crypto. Signature wrapping: the Reference must point at
+ * the one Assertion child of the Response, its ID must be unique in the document, and
+ * every claim is read from the canonical XML xml-crypto reports as signed — never from the
+ * received document — so comments and unsigned siblings cannot change what is read.
+ */
+
+import { X509Certificate } from 'node:crypto';
+import { deflateRawSync } from 'node:zlib';
+import { DOMParser } from '@xmldom/xmldom';
+import { SignedXml } from 'xml-crypto';
+
+export const SAML_PROTOCOL_NS = 'urn:oasis:names:tc:SAML:2.0:protocol';
+export const SAML_ASSERTION_NS = 'urn:oasis:names:tc:SAML:2.0:assertion';
+export const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+export const EXC_C14N = 'http://www.w3.org/2001/10/xml-exc-c14n#';
+export const ENVELOPED_SIGNATURE = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+export const RSA_SHA256 = 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256';
+export const DIGEST_SHA256 = 'http://www.w3.org/2001/04/xmlenc#sha256';
+
+const STATUS_SUCCESS = 'urn:oasis:names:tc:SAML:2.0:status:Success';
+const BEARER = 'urn:oasis:names:tc:SAML:2.0:cm:bearer';
+const HTTP_POST_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST';
+const NAMEID_EMAIL = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+
+export interface SamlServiceProvider {
+  entityId: string;
+  acsUrl: string;
+}
+
+export interface SamlIdentityProvider {
+  entityId: string;
+  ssoUrl: string;
+  certificatePem: string;
+}
+
+export interface SamlAssertion {
+  assertionId: string;
+  nameId: string;
+  nameIdFormat: string | null;
+  attributes: Record<string, string[]>;
+}
+
+export type SamlFailure =
+  | 'MALFORMED'
+  | 'STATUS'
+  | 'SIGNATURE'
+  | 'ISSUER'
+  | 'AUDIENCE'
+  | 'RECIPIENT'
+  | 'IN_RESPONSE_TO'
+  | 'EXPIRED'
+  | 'UNSUPPORTED';
+
+export class SamlValidationError extends Error {
+  constructor(
+    public readonly failure: SamlFailure,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SamlValidationError';
+  }
+}
+
+/** Parses a PEM (or bare base64) certificate; throws on anything that is not an X.509 certificate. */
+export function parseIdpCertificate(pemOrBase64: string): X509Certificate {
+  const body = pemOrBase64
+    .replace(/-----BEGIN CERTIFICATE-----|-----END CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '');
+  const lines = body.match(/.{1,64}/g) ?? [];
+  return new X509Certificate(`-----BEGIN CERTIFICATE-----\n${lines.join('\n')}\n-----END CERTIFICATE-----\n`);
+}
+
+/** IdP redirect URL carrying a deflated AuthnRequest (HTTP-Redirect binding). */
+export function buildAuthnRequestUrl(params: {
+  sp: SamlServiceProvider;
+  idp: Pick<SamlIdentityProvider, 'ssoUrl'>;
+  requestId: string;
+  relayState: string;
+  issueInstant?: Date;
+}): string {
+  const issueInstant = (params.issueInstant ?? new Date()).toISOString();
+  const xml =
+    `<samlp:AuthnRequest xmlns:samlp="${SAML_PROTOCOL_NS}" xmlns:saml="${SAML_ASSERTION_NS}"` +
+    ` ID="${escapeXml(params.requestId)}" Version="2.0" IssueInstant="${issueInstant}"` +
+    ` Destination="${escapeXml(params.idp.ssoUrl)}" AssertionConsumerServiceURL="${escapeXml(params.sp.acsUrl)}"` +
+    ` ProtocolBinding="${HTTP_POST_BINDING}">` +
+    `<saml:Issuer>${escapeXml(params.sp.entityId)}</saml:Issuer>` +
+    `<samlp:NameIDPolicy Format="${NAMEID_EMAIL}" AllowCreate="true"/>` +
+    `</samlp:AuthnRequest>`;
+
+  const url = new URL(params.idp.ssoUrl);
+  url.searchParams.set('SAMLRequest', deflateRawSync(Buffer.from(xml, 'utf8')).toString('base64'));
+  url.searchParams.set('RelayState', params.relayState);
+  return url.toString();
+}
+
+/** SP metadata for the IdP administrator (entity ID, ACS, requested NameID format). */
+export function buildSpMetadata(sp: SamlServiceProvider): string {
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="${escapeXml(sp.entityId)}">` +
+    `<md:SPSSODescriptor AuthnRequestsSigned="false" WantAssertionsSigned="true"` +
+    ` protocolSupportEnumeration="${SAML_PROTOCOL_NS}">` +
+    `<md:NameIDFormat>${NAMEID_EMAIL}</md:NameIDFormat>` +
+    `<md:AssertionConsumerService Binding="${HTTP_POST_BINDING}" Location="${escapeXml(sp.acsUrl)}" index="0" isDefault="true"/>` +
+    `</md:SPSSODescriptor>` +
+    `</md:EntityDescriptor>`
+  );
+}
+
+// ─── XML ─────────────────────────────────────────────────────────────────────
+
+const ELEMENT_NODE = 1;
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Parses a SAML document; any parser error or a DOCTYPE is MALFORMED. */
+function parseSamlXml(xml: string): Document {
+  const errors: string[] = [];
+  const doc = new DOMParser({
+    locator: {},
+    errorHandler: {
+      warning: () => undefined,
+      error: message => errors.push(message),
+      fatalError: message => errors.push(message),
+    },
+  }).parseFromString(xml, 'text/xml');
+  if (errors.length > 0 || !doc?.documentElement) {
+    throw new SamlValidationError('MALFORMED', `Unreadable XML: ${errors[0] ?? 'no document element'}`);
+  }
+  if (doc.doctype) throw new SamlValidationError('MALFORMED', 'DOCTYPE is not allowed');
+  return doc;
+}
+
+function childElements(parent: Element, namespaceURI: string, localName: string): Element[] {
+  const result: Element[] = [];
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType !== ELEMENT_NODE) continue;
+    const el = node as Element;
+    if (el.namespaceURI === namespaceURI && el.localName === localName) result.push(el);
+  }
+  return result;
+}
+
+function firstChild(parent: Element, namespaceURI: string, localName: string): Element | undefined {
+  return childElements(parent, namespaceURI, localName)[0];
+}
+
+function attributeValue(el: Element, name: string): string | undefined {
+  return el.hasAttribute(name) ? el.getAttribute(name) ?? undefined : undefined;
+}
+
+function textContent(el: Element): string {
+  return el.textContent ?? '';
+}
+
+function countElementsWithId(doc: Document, id: string): number {
+  const all = doc.getElementsByTagName('*');
+  let count = 0;
+  for (let i = 0; i < all.length; i += 1) {
+    const el = all.item(i) as Element;
+    if (['ID', 'Id', 'id'].some(name => el.getAttribute(name) === id)) count += 1;
+  }
+  return count;
+}
+
+// ─── Signature ───────────────────────────────────────────────────────────────
+
+/**
+ * Verifies the enveloped signature of `signed` (a direct child ds:Signature whose single
+ * Reference points at signed's ID) against the IdP certificate, and returns the signed
+ * element re-parsed from the canonical XML xml-crypto verified.
+ */
+export function verifyEnvelopedSignature(
+  xml: string,
+  doc: Document,
+  signed: Element,
+  certificate: X509Certificate,
+): Element {
+  const fail: (message: string) => never = message => {
+    throw new SamlValidationError('SIGNATURE', message);
+  };
+
+  const id = attributeValue(signed, 'ID');
+  if (!id) fail('Signed element has no ID');
+  if (countElementsWithId(doc, id) !== 1) fail('Signed element ID is not unique');
+
+  const signatures = childElements(signed, XMLDSIG_NS, 'Signature');
+  if (signatures.length !== 1) fail('Expected exactly one enveloped signature');
+
+  // KeyInfo in the message is ignored: only the configured certificate is trusted.
+  const verifier = new SignedXml({ publicCert: certificate.publicKey, getCertFromKeyInfo: () => null });
+  let verified = false;
+  try {
+    verifier.loadSignature(signatures[0]);
+    verified = verifier.checkSignature(xml);
+  } catch (error) {
+    fail(error instanceof Error ? error.message : 'Signature verification failed');
+  }
+  if (!verified) fail('Signature verification failed');
+
+  if (verifier.canonicalizationAlgorithm !== EXC_C14N) fail('Unsupported canonicalization method');
+  if (verifier.signatureAlgorithm !== RSA_SHA256) fail('Unsupported signature method');
+
+  const references = verifier.getReferences();
+  if (references.length !== 1) fail('Expected exactly one signature reference');
+  const reference = references[0];
+  if (reference.uri !== `#${id}`) fail('Signature does not reference the signed element');
+  if (
+    !reference.transforms.includes(ENVELOPED_SIGNATURE) ||
+    !reference.transforms.includes(EXC_C14N) ||
+    reference.transforms.some(alg => alg !== ENVELOPED_SIGNATURE && alg !== EXC_C14N)
+  ) {
+    fail('Unsupported reference transforms');
+  }
+  if (reference.digestAlgorithm !== DIGEST_SHA256) fail('Unsupported digest method');
+
+  const signedReferences = verifier.getSignedReferences();
+  if (signedReferences.length !== 1) fail('Expected exactly one signed reference');
+  const signedElement = parseSamlXml(signedReferences[0]).documentElement as Element;
+  if (signedElement.namespaceURI !== signed.namespaceURI || signedElement.localName !== signed.localName) {
+    fail('Signed reference is not the expected element');
+  }
+  return signedElement;
+}
+
+// ─── Response validation ─────────────────────────────────────────────────────
+
+function parseInstant(value: string | undefined): number | null {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Validates a base64 SAMLResponse from the ACS POST and returns the asserted identity.
+ * expectedRequestId is the AuthnRequest ID stored with the RelayState (IdP-initiated
+ * responses without InResponseTo are rejected).
+ */
+export function validateSamlResponse(
+  samlResponse: string,
+  params: {
+    sp: SamlServiceProvider;
+    idp: SamlIdentityProvider;
+    expectedRequestId: string;
+    now?: Date;
+    clockSkewSeconds?: number;
+  },
+): SamlAssertion {
+  const now = (params.now ?? new Date()).getTime();
+  const skewMs = (params.clockSkewSeconds ?? 120) * 1000;
+
+  const xml = Buffer.from(samlResponse, 'base64').toString('utf8');
+  const doc = parseSamlXml(xml);
+  const root = doc.documentElement as Element;
+  if (root.namespaceURI !== SAML_PROTOCOL_NS || root.localName !== 'Response') {
+    throw new SamlValidationError('MALFORMED', 'Root element is not a samlp:Response');
+  }
+
+  const statusCode = firstChild(firstChild(root, SAML_PROTOCOL_NS, 'Status') ?? root, SAML_PROTOCOL_NS, 'StatusCode');
+  if (!statusCode || attributeValue(statusCode, 'Value') !== STATUS_SUCCESS) {
+    throw new SamlValidationError('STATUS', `IdP returned status ${statusCode ? attributeValue(statusCode, 'Value') : 'none'}`);
+  }
+
+  const destination = attributeValue(root, 'Destination');
+  if (destination !== undefined && destination !== params.sp.acsUrl) {
+    throw new SamlValidationError('RECIPIENT', 'Response Destination does not match the ACS URL');
+  }
+  const responseInResponseTo = attributeValue(root, 'InResponseTo');
+  if (responseInResponseTo !== undefined && responseInResponseTo !== params.expectedRequestId) {
+    throw new SamlValidationError('IN_RESPONSE_TO', 'Response does not answer the pending request');
+  }
+
+  if (childElements(root, SAML_ASSERTION_NS, 'EncryptedAssertion').length > 0) {
+    throw new SamlValidationError('UNSUPPORTED', 'Encrypted assertions are not supported');
+  }
+  const assertions = childElements(root, SAML_ASSERTION_NS, 'Assertion');
+  if (assertions.length !== 1) {
+    throw new SamlValidationError('MALFORMED', 'Expected exactly one Assertion');
+  }
+  let certificate: X509Certificate;
+  try {
+    certificate = parseIdpCertificate(params.idp.certificatePem);
+  } catch {
+    throw new SamlValidationError('SIGNATURE', 'Configured IdP certificate is invalid');
+  }
+  const signedAssertion = verifyEnvelopedSignature(xml, doc, assertions[0], certificate);
+
+  // Everything below reads from the signed assertion only.
+  const issuer = firstChild(signedAssertion, SAML_ASSERTION_NS, 'Issuer');
+  if (!issuer || textContent(issuer).trim() !== params.idp.entityId) {
+    throw new SamlValidationError('ISSUER', 'Assertion issuer does not match the configured IdP');
+  }
+
+  const subject = firstChild(signedAssertion, SAML_ASSERTION_NS, 'Subject');
+  const nameIdEl = subject ? firstChild(subject, SAML_ASSERTION_NS, 'NameID') : undefined;
+  const nameId = nameIdEl ? textContent(nameIdEl).trim() : '';
+  if (!subject || !nameId) throw new SamlValidationError('MALFORMED', 'Assertion has no NameID');
+
+  const bearer = childElements(subject, SAML_ASSERTION_NS, 'SubjectConfirmation').find(
+    confirmation => attributeValue(confirmation, 'Method') === BEARER,
+  );
+  const confirmationData = bearer ? firstChild(bearer, SAML_ASSERTION_NS, 'SubjectConfirmationData') : undefined;
+  if (!confirmationData) throw new SamlValidationError('MALFORMED', 'Missing bearer subject confirmation');
+  if (attributeValue(confirmationData, 'Recipient') !== params.sp.acsUrl) {
+    throw new SamlValidationError('RECIPIENT', 'Subject confirmation recipient does not match the ACS URL');
+  }
+  if (attributeValue(confirmationData, 'InResponseTo') !== params.expectedRequestId) {
+    throw new SamlValidationError('IN_RESPONSE_TO', 'Assertion does not answer the pending request');
+  }
+  const confirmationExpiry = parseInstant(attributeValue(confirmationData, 'NotOnOrAfter'));
+  if (confirmationExpiry === null || now >= confirmationExpiry + skewMs) {
+    throw new SamlValidationError('EXPIRED', 'Subject confirmation has expired');
+  }
+
+  const conditions = firstChild(signedAssertion, SAML_ASSERTION_NS, 'Conditions');
+  if (!conditions) throw new SamlValidationError('MALFORMED', 'Assertion has no Conditions');
+  const notBefore = parseInstant(attributeValue(conditions, 'NotBefore'));
+  const notOnOrAfter = parseInstant(attributeValue(conditions, 'NotOnOrAfter'));
+  if ((notBefore !== null && now + skewMs < notBefore) || (notOnOrAfter !== null && now >= notOnOrAfter + skewMs)) {
+    throw new SamlValidationError('EXPIRED', 'Assertion is outside its validity window');
+  }
+  const audiences = childElements(conditions, SAML_ASSERTION_NS, 'AudienceRestriction').flatMap(restriction =>
+    childElements(restriction, SAML_ASSERTION_NS, 'Audience').map(audience => textContent(audience).trim()),
+  );
+  if (!audiences.includes(params.sp.entityId)) {
+    throw new SamlValidationError('AUDIENCE', 'Assertion is not addressed to this service provider');
+  }
+
+  const attributes: Record<string, string[]> = {};
+  for (const statement of childElements(signedAssertion, SAML_ASSERTION_NS, 'AttributeStatement')) {
+    for (const attribute of childElements(statement, SAML_ASSERTION_NS, 'Attribute')) {
+      const name = attributeValue(attribute, 'Name');
+      if (!name) continue;
+      attributes[name] = [
+        ...(attributes[name] ?? []),
+        ...childElements(attribute, SAML_ASSERTION_NS, 'AttributeValue').map(value => textContent(value).trim()),
+      ];
+    }
+  }
+
+  return {
+    assertionId: attributeValue(signedAssertion, 'ID') as string,
+    nameId,
+    nameIdFormat: nameIdEl ? (attributeValue(nameIdEl, 'Format') ?? null) : null,
+    attributes,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * SSO-001 — SsoService wired from server config.
+ *
+ * Routes use createSsoService(); unit tests construct SsoService directly with a
+ * mock IdP fetch.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { config } from '../../config/index.js';
+import { prisma } from '../../db/prisma.js';
+import { SsoService, deriveSsoEncryptionKey } from './sso.service.js';
+
+let ssoConfig: { encryptionKey: Buffer; baseUrl: string } | null = null;
+
+/** Config-derived options, resolved on first use so importing this module reads no config. */
+function getSsoConfig(): { encryptionKey: Buffer; baseUrl: string } {
+  ssoConfig ??= {
+    encryptionKey: deriveSsoEncryptionKey(config.SSO_SECRET_ENCRYPTION_KEY ?? config.JWT_ACCESS_SECRET),
+    baseUrl: new URL(config.SSO_CALLBACK_BASE_URL ?? config.FRONTEND_URL).origin,
+  };
+  return ssoConfig;
+}
+
+export function createSsoService(db: PrismaClient = prisma): SsoService {
+  const { encryptionKey, baseUrl } = getSsoConfig();
+  return new SsoService(db, {
+    encryptionKey,
+    baseUrl,
+    fetch: (url, init) => fetch(url, init),
+    stateTtlSeconds: 600,
+    handoffTtlSeconds: 120,
+  });
+}
@@ -0,0 +1,781 @@
+/**
+ * SSO-001 — Per-tenant single sign-on (OIDC and SAML 2.0).
+ *
+ * Connections (tenant_sso_connections): at most one OIDC and one SAML connection per
+ * tenant, configured by the tenant OWNER. OIDC client secrets are sealed with the
+ * secret envelope; SAML connections hold the IdP signing certificate.
+ *
+ * Login:
+ *   1. startLogin           — login state row (hashed state / RelayState, PKCE verifier,
+ *                             nonce or AuthnRequest ID, returnTo) → IdP redirect URL
+ *   2. completeOidc / Saml  — state is consumed once; the IdP response is verified and
+ *                             the user / membership provisioned → one-time handoff code
+ *   3. redeemHandoff        — the SPA trades the handoff code for a session (once, 2 min)
+ *
+ * Email enforcement: the asserted email's domain must be a verified TenantDomain of the
+ * connection's tenant (a leading "www." on the stored domain is ignored), and an OIDC
+ * email_verified=false claim is rejected.
+ *
+ * Provisioning (identity → user → membership):
+ *   - sso_identities links (connection, IdP subject) to a user; an unlinked subject is
+ *     linked to the existing user with that email, or a user is created when
+ *     jitProvisioning is on (random password — the IdP is the credential).
+ *   - Role: the highest-ranked role among roleMappings whose group the IdP asserted,
+ *     else defaultRole. Applied to new memberships and re-synced on every login; an
+ *     existing member with no matching group keeps their role. OWNER is never granted
+ *     by SSO and an OWNER membership is never changed.
+ *
+ * SSO sessions do not carry mfaAt: the IdP owns the second factor at login, and
+ * step-up routes still ask for a TexQtic factor when one is enrolled.
+ *
+ * SSO tables carry no RLS (same posture as auth_sessions); memberships are written
+ * through withLoginContext so RLS scopes them to the connection's tenant.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import bcrypt from 'bcryptjs';
+import type { PrismaClient } from '@prisma/client';
+import { withLoginContext } from '../../lib/database-context.js';
+import { deriveEnvelopeKey, openSecret, sealSecret } from '../../lib/secretEnvelope.js';
+import {
+  OidcError,
+  buildAuthorizationUrl,
+  discoverProvider,
+  exchangeAuthorizationCode,
+  verifyIdToken,
+  type FetchLike,
+} from './oidc.js';
+import {
+  SamlValidationError,
+  buildAuthnRequestUrl,
+  buildSpMetadata,
+  parseIdpCertificate,
+  validateSamlResponse,
+  type SamlServiceProvider,
+} from './saml.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type SsoProtocol = 'OIDC' | 'SAML';
+
+/** Roles SSO may grant. OWNER is deliberately absent. */
+export type SsoRole = 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+export interface SsoRoleMapping {
+  group: string;
+  role: SsoRole;
+}
+
+export type SsoLoginFailure =
+  | 'CONNECTION_NOT_FOUND'
+  | 'CONNECTION_DISABLED'
+  | 'STATE_INVALID'
+  | 'IDP_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'EMAIL_MISSING'
+  | 'EMAIL_NOT_VERIFIED'
+  | 'EMAIL_DOMAIN_NOT_VERIFIED'
+  | 'NO_ROLE_MAPPING'
+  | 'USER_NOT_PROVISIONED'
+  | 'TENANT_INACTIVE'
+  | 'HANDOFF_INVALID';
+
+export type SsoConfigFailure =
+  | 'NO_VERIFIED_DOMAIN'
+  | 'CLIENT_SECRET_REQUIRED'
+  | 'DISCOVERY_FAILED'
+  | 'INVALID_CERTIFICATE';
+
+export interface SsoServiceOptions {
+  /** 32-byte AES-256-GCM key for OIDC client secrets at rest. */
+  encryptionKey: Buffer;
+  /** Public API origin; callback, ACS and entity ID URLs are built from it. */
+  baseUrl: string;
+  fetch: FetchLike;
+  stateTtlSeconds: number;
+  handoffTtlSeconds: number;
+}
+
+export interface SsoConnectionRecord {
+  id: string;
+  protocol: SsoProtocol;
+  enabled: boolean;
+  displayName: string | null;
+  oidc: { issuer: string; clientId: string; scopes: string; hasClientSecret: boolean; redirectUri: string } | null;
+  saml: {
+    idpEntityId: string;
+    idpSsoUrl: string;
+    idpCertificate: string;
+    spEntityId: string;
+    acsUrl: string;
+    metadataUrl: string;
+  } | null;
+  emailAttribute: string;
+  groupsAttribute: string;
+  roleMappings: SsoRoleMapping[];
+  defaultRole: SsoRole | null;
+  jitProvisioning: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CommonConnectionInput {
+  enabled: boolean;
+  displayName?: string | null;
+  emailAttribute?: string;
+  groupsAttribute?: string;
+  roleMappings: SsoRoleMapping[];
+  defaultRole: SsoRole | null;
+  jitProvisioning: boolean;
+}
+
+export interface OidcConnectionInput extends CommonConnectionInput {
+  issuer: string;
+  clientId: string;
+  /** Omit to keep the stored secret. */
+  clientSecret?: string;
+  scopes?: string;
+}
+
+export interface SamlConnectionInput extends CommonConnectionInput {
+  idpEntityId: string;
+  idpSsoUrl: string;
+  idpCertificate: string;
+}
+
+export interface SsoDiscoveredConnection {
+  connectionId: string;
+  protocol: SsoProtocol;
+  displayName: string | null;
+}
+
+/** Outcome of a verified IdP callback. */
+export interface SsoCallbackResult {
+  handoffCode: string;
+  returnTo: string | null;
+  tenantId: string;
+  connectionId: string;
+  protocol: SsoProtocol;
+  userId: string;
+  email: string;
+  role: string;
+  userCreated: boolean;
+  membershipCreated: boolean;
+  roleChanged: boolean;
+}
+
+export interface SsoHandoff {
+  userId: string;
+  tenantId: string;
+  connectionId: string;
+  protocol: SsoProtocol;
+}
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class SsoLoginError extends Error {
+  constructor(
+    public readonly reason: SsoLoginFailure,
+    message: string,
+    /** Known context for the audit trail (absent when the state could not be resolved). */
+    public readonly context: { tenantId?: string; email?: string; returnTo?: string | null } = {},
+  ) {
+    super(message);
+    this.name = 'SsoLoginError';
+  }
+}
+
+export class SsoConfigError extends Error {
+  constructor(
+    public readonly failure: SsoConfigFailure,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SsoConfigError';
+  }
+}
+
+export class SsoConnectionNotFoundError extends Error {
+  constructor() {
+    super('SSO connection not found');
+    this.name = 'SsoConnectionNotFoundError';
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const ROLE_RANK: Record<SsoRole, number> = { ADMIN: 3, MEMBER: 2, VIEWER: 1 };
+
+const DEFAULT_OIDC_SCOPES = 'openid email profile';
+
+function sha256Hex(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Only same-origin paths survive the round trip through the IdP. Whitespace and control
+ * characters are refused outright — the URL parser strips them, so "/\t/evil.com" would
+ * otherwise resolve to "//evil.com".
+ */
+export function sanitizeReturnTo(returnTo: string | undefined | null): string | null {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.includes('\\')) return null;
+  if (/[\s\u0000-\u001f\u007f]/.test(returnTo)) return null;
+  return returnTo.length <= 500 ? returnTo : null;
+}
+
+/** Highest-ranked mapped role for the asserted groups, else the default (null = no access). */
+export function resolveMappedRole(
+  mappings: SsoRoleMapping[],
+  groups: string[],
+  defaultRole: SsoRole | null,
+): SsoRole | null {
+  const asserted = new Set(groups);
+  let best: SsoRole | null = null;
+  for (const mapping of mappings) {
+    if (asserted.has(mapping.group) && (!best || ROLE_RANK[mapping.role] > ROLE_RANK[best])) {
+      best = mapping.role;
+    }
+  }
+  return best ?? defaultRole;
+}
+
+function toStringList(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  return [];
+}
+
+function parseRoleMappings(value: unknown): SsoRoleMapping[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (item): item is SsoRoleMapping =>
+      !!item &&
+      typeof (item as SsoRoleMapping).group === 'string' &&
+      (item as SsoRoleMapping).role in ROLE_RANK,
+  );
+}
+
+function emailDomain(email: string): string | null {
+  const at = email.lastIndexOf('@');
+  return at > 0 && at < email.length - 1 ? email.slice(at + 1) : null;
+}
+
+type ConnectionRow = NonNullable<Awaited<ReturnType<PrismaClient['tenantSsoConnection']['findUnique']>>>;
+
+interface AssertedIdentity {
+  subject: string;
+  email: string | undefined;
+  emailVerified: boolean;
+  groups: string[];
+}
+
+// ─── Service ──────────────────────────────────────────────────────────────────
+
+export class SsoService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly options: SsoServiceOptions,
+  ) {}
+
+  /** OIDC redirect URI registered with every tenant's IdP. */
+  get oidcRedirectUri(): string {
+    return `${this.options.baseUrl}/api/auth/sso/oidc/callback`;
+  }
+
+  get samlAcsUrl(): string {
+    return `${this.options.baseUrl}/api/auth/sso/saml/acs`;
+  }
+
+  samlServiceProvider(connectionId: string): SamlServiceProvider {
+    return { entityId: `${this.options.baseUrl}/api/auth/sso/${connectionId}/saml/metadata`, acsUrl: this.samlAcsUrl };
+  }
+
+  // ── Configuration ───────────────────────────────────────────────────────────
+
+  async listConnections(tenantId: string): Promise<SsoConnectionRecord[]> {
+    const rows = await this.db.tenantSsoConnection.findMany({ where: { tenantId }, orderBy: { protocol: 'asc' } });
+    return rows.map(row => this.toRecord(row));
+  }
+
+  async upsertOidcConnection(tenantId: string, input: OidcConnectionInput): Promise<SsoConnectionRecord> {
+    const existing = await this.db.tenantSsoConnection.findUnique({
+      where: { tenantId_protocol: { tenantId, protocol: 'OIDC' } },
+    });
+    if (!input.clientSecret && !existing?.oidcClientSecretEncrypted) {
+      throw new SsoConfigError('CLIENT_SECRET_REQUIRED', 'A client secret is required for a new OIDC connection');
+    }
+    if (input.enabled) {
+      await this.assertVerifiedDomain(tenantId);
+      try {
+        await discoverProvider(input.issuer, this.options.fetch);
+      } catch (error) {
+        if (error instanceof OidcError) throw new SsoConfigError('DISCOVERY_FAILED', error.message);
+        throw error;
+      }
+    }
+
+    const data = {
+      ...this.commonData(input),
+      oidcIssuer: input.issuer,
+      oidcClientId: input.clientId,
+      oidcScopes: input.scopes ?? DEFAULT_OIDC_SCOPES,
+      ...(input.clientSecret
+        ? { oidcClientSecretEncrypted: sealSecret(input.clientSecret, this.options.encryptionKey) }
+        : {}),
+    };
+    const row = await this.db.tenantSsoConnection.upsert({
+      where: { tenantId_protocol: { tenantId, protocol: 'OIDC' } },
+      create: { tenantId, protocol: 'OIDC', ...data },
+      update: data,
+    });
+    return this.toRecord(row);
+  }
+
+  async upsertSamlConnection(tenantId: string, input: SamlConnectionInput): Promise<SsoConnectionRecord> {
+    let certificatePem: string;
+    try {
+      certificatePem = parseIdpCertificate(input.idpCertificate).toString();
+    } catch {
+      throw new SsoConfigError('INVALID_CERTIFICATE', 'IdP certificate is not a valid X.509 certificate');
+    }
+    if (input.enabled) await this.assertVerifiedDomain(tenantId);
+
+    const data = {
+      ...this.commonData(input),
+      samlIdpEntityId: input.idpEntityId,
+      samlIdpSsoUrl: input.idpSsoUrl,
+      samlIdpCertificate: certificatePem,
+    };
+    const row = await this.db.tenantSsoConnection.upsert({
+      where: { tenantId_protocol: { tenantId, protocol: 'SAML' } },
+      create: { tenantId, protocol: 'SAML', ...data },
+      update: data,
+    });
+    return this.toRecord(row);
+  }
+
+  /** Removes the connection, its identity links and pending logins (cascade). */
+  async deleteConnection(tenantId: string, protocol: SsoProtocol): Promise<void> {
+    const { count } = await this.db.tenantSsoConnection.deleteMany({ where: { tenantId, protocol } });
+    if (count === 0) throw new SsoConnectionNotFoundError();
+  }
+
+  /** SP metadata XML for a SAML connection (404 for anything else). */
+  async spMetadata(connectionId: string): Promise<string> {
+    const row = await this.db.tenantSsoConnection.findUnique({ where: { id: connectionId } });
+    if (!row || row.protocol !== 'SAML') throw new SsoConnectionNotFoundError();
+    return buildSpMetadata(this.samlServiceProvider(row.id));
+  }
+
+  // ── Login ───────────────────────────────────────────────────────────────────
+
+  /** Enabled connections for the tenant that owns the email's verified domain. */
+  async discoverByEmail(email: string): Promise<{ tenantId: string; connections: SsoDiscoveredConnection[] } | null> {
+    const domain = emailDomain(email.trim().toLowerCase());
+    if (!domain) return null;
+    const tenantDomain = await this.db.tenantDomain.findFirst({
+      where: { domain: { in: [domain, `www.${domain}`] }, verified: true },
+      select: { tenantId: true },
+    });
+    if (!tenantDomain) return null;
+
+    const rows = await this.db.tenantSsoConnection.findMany({
+      where: { tenantId: tenantDomain.tenantId, enabled: true },
+      orderBy: { protocol: 'asc' },
+    });
+    if (rows.length === 0) return null;
+    return {
+      tenantId: tenantDomain.tenantId,
+      connections: rows.map(row => ({
+        connectionId: row.id,
+        protocol: row.protocol as SsoProtocol,
+        displayName: row.displayName,
+      })),
+    };
+  }
+
+  /** Records the login state and returns the IdP URL to redirect the browser to. */
+  async startLogin(
+    connectionId: string,
+    params: { returnTo?: string | null; loginHint?: string; now?: Date } = {},
+  ): Promise<{ redirectUrl: string }> {
+    const now = params.now ?? new Date();
+    const connection = await this.db.tenantSsoConnection.findUnique({ where: { id: connectionId } });
+    if (!connection) throw new SsoLoginError('CONNECTION_NOT_FOUND', 'SSO connection not found');
+    if (!connection.enabled) {
+      throw new SsoLoginError('CONNECTION_DISABLED', 'SSO connection is disabled', { tenantId: connection.tenantId });
+    }
+
+    const state = randomToken();
+    const returnTo = sanitizeReturnTo(params.returnTo);
+    const expiresAt = new Date(now.getTime() + this.options.stateTtlSeconds * 1000);
+
+    if (connection.protocol === 'OIDC') {
+      const metadata = await this.discover(connection);
+      const nonce = randomToken();
+      const codeVerifier = randomToken();
+      await this.db.ssoLoginState.create({
+        data: { connectionId, stateHash: sha256Hex(state), nonce, codeVerifier, returnTo, expiresAt },
+      });
+      return {
+        redirectUrl: buildAuthorizationUrl({
+          metadata,
+          clientId: connection.oidcClientId as string,
+          redirectUri: this.oidcRedirectUri,
+          scopes: connection.oidcScopes ?? DEFAULT_OIDC_SCOPES,
+          state,
+          nonce,
+          codeVerifier,
+          loginHint: params.loginHint,
+        }),
+      };
+    }
+
+    const requestId = `_${randomBytes(20).toString('hex')}`;
+    await this.db.ssoLoginState.create({
+      data: { connectionId, stateHash: sha256Hex(state), samlRequestId: requestId, returnTo, expiresAt },
+    });
+    return {
+      redirectUrl: buildAuthnRequestUrl({
+        sp: this.samlServiceProvider(connection.id),
+        idp: { ssoUrl: connection.samlIdpSsoUrl as string },
+        requestId,
+        relayState: state,
+        issueInstant: now,
+      }),
+    };
+  }
+
+  /** OIDC redirect back: {state, code} or {state, error}. */
+  async completeOidc(
+    params: { state: string; code?: string; error?: string },
+    now: Date = new Date(),
+  ): Promise<SsoCallbackResult> {
+    const { loginState, connection } = await this.consumeState(params.state, 'OIDC', now);
+    const context = { tenantId: connection.tenantId, returnTo: loginState.returnTo };
+    if (params.error || !params.code) {
+      throw new SsoLoginError('IDP_ERROR', `Identity provider returned ${params.error ?? 'no code'}`, context);
+    }
+
+    let claims: Awaited<ReturnType<typeof verifyIdToken>>;
+    try {
+      const metadata = await this.discover(connection);
+      const idToken = await exchangeAuthorizationCode(
+        {
+          metadata,
+          clientId: connection.oidcClientId as string,
+          clientSecret: openSecret(connection.oidcClientSecretEncrypted as string, this.options.encryptionKey),
+          code: params.code,
+          redirectUri: this.oidcRedirectUri,
+          codeVerifier: loginState.codeVerifier as string,
+        },
+        this.options.fetch,
+      );
+      claims = await verifyIdToken(
+        idToken,
+        { metadata, clientId: connection.oidcClientId as string, nonce: loginState.nonce as string, now },
+        this.options.fetch,
+      );
+    } catch (error) {
+      if (error instanceof OidcError) throw new SsoLoginError('INVALID_RESPONSE', error.message, context);
+      if (error instanceof SsoLoginError) throw new SsoLoginError(error.reason, error.message, context);
+      throw error;
+    }
+
+    const email = claims[connection.emailAttribute];
+    return this.finishLogin(connection, loginState, now, {
+      subject: claims.sub,
+      email: typeof email === 'string' ? email : undefined,
+      emailVerified: claims.email_verified !== false && claims.email_verified !== 'false',
+      groups: toStringList(claims[connection.groupsAttribute]),
+    });
+  }
+
+  /** SAML ACS POST: {SAMLResponse, RelayState}. */
+  async completeSaml(
+    params: { samlResponse: string; relayState: string },
+    now: Date = new Date(),
+  ): Promise<SsoCallbackResult> {
+    const { loginState, connection } = await this.consumeState(params.relayState, 'SAML', now);
+    const context = { tenantId: connection.tenantId, returnTo: loginState.returnTo };
+
+    let assertion: ReturnType<typeof validateSamlResponse>;
+    try {
+      assertion = validateSamlResponse(params.samlResponse, {
+        sp: this.samlServiceProvider(connection.id),
+        idp: {
+          entityId: connection.samlIdpEntityId as string,
+          ssoUrl: connection.samlIdpSsoUrl as string,
+          certificatePem: connection.samlIdpCertificate as string,
+        },
+        expectedRequestId: loginState.samlRequestId as string,
+        now,
+      });
+    } catch (error) {
+      if (error instanceof SamlValidationError) {
+        throw new SsoLoginError(error.failure === 'STATUS' ? 'IDP_ERROR' : 'INVALID_RESPONSE', error.message, context);
+      }
+      throw error;
+    }
+
+    const nameIdIsEmail = assertion.nameIdFormat?.endsWith(':emailAddress') ?? false;
+    return this.finishLogin(connection, loginState, now, {
+      subject: assertion.nameId,
+      email: assertion.attributes[connection.emailAttribute]?.[0] ?? (nameIdIsEmail ? assertion.nameId : undefined),
+      emailVerified: true,
+      groups: assertion.attributes[connection.groupsAttribute] ?? [],
+    });
+  }
+
+  /** One-time exchange of the handoff code for the signed-in identity. */
+  async redeemHandoff(code: string, now: Date = new Date()): Promise<SsoHandoff> {
+    const handoffCodeHash = sha256Hex(code);
+    const { count } = await this.db.ssoLoginState.updateMany({
+      where: { handoffCodeHash, completedAt: null, expiresAt: { gt: now } },
+      data: { completedAt: now },
+    });
+    if (count === 0) throw new SsoLoginError('HANDOFF_INVALID', 'Sign-in code is invalid or expired');
+
+    const loginState = await this.db.ssoLoginState.findUnique({
+      where: { handoffCodeHash },
+      include: { connection: true },
+    });
+    if (!loginState?.userId) throw new SsoLoginError('HANDOFF_INVALID', 'Sign-in code is invalid or expired');
+    return {
+      userId: loginState.userId,
+      tenantId: loginState.connection.tenantId,
+      connectionId: loginState.connectionId,
+      protocol: loginState.connection.protocol as SsoProtocol,
+    };
+  }
+
+  // ── Internals ───────────────────────────────────────────────────────────────
+
+  private async discover(connection: ConnectionRow) {
+    try {
+      return await discoverProvider(connection.oidcIssuer as string, this.options.fetch);
+    } catch (error) {
+      if (error instanceof OidcError) {
+        throw new SsoLoginError('IDP_ERROR', error.message, { tenantId: connection.tenantId });
+      }
+      throw error;
+    }
+  }
+
+  /** Marks the state consumed (single use) and loads it with its connection. */
+  private async consumeState(state: string, protocol: SsoProtocol, now: Date) {
+    const stateHash = sha256Hex(state);
+    const { count } = await this.db.ssoLoginState.updateMany({
+      where: { stateHash, consumedAt: null, expiresAt: { gt: now } },
+      data: { consumedAt: now },
+    });
+    if (count === 0) throw new SsoLoginError('STATE_INVALID', 'Login state is invalid, expired or already used');
+
+    const loginState = await this.db.ssoLoginState.findUnique({ where: { stateHash }, include: { connection: true } });
+    if (!loginState || loginState.connection.protocol !== protocol) {
+      throw new SsoLoginError('STATE_INVALID', 'Login state does not belong to this protocol');
+    }
+    const { connection } = loginState;
+    if (!connection.enabled) {
+      throw new SsoLoginError('CONNECTION_DISABLED', 'SSO connection is disabled', {
+        tenantId: connection.tenantId,
+        returnTo: loginState.returnTo,
+      });
+    }
+    return { loginState, connection };
+  }
+
+  private async finishLogin(
+    connection: ConnectionRow,
+    loginState: { id: string; returnTo: string | null },
+    now: Date,
+    identity: AssertedIdentity,
+  ): Promise<SsoCallbackResult> {
+    const provisioned = await this.provision(connection, identity, loginState.returnTo, now);
+
+    const handoffCode = randomToken();
+    await this.db.ssoLoginState.update({
+      where: { id: loginState.id },
+      data: {
+        userId: provisioned.userId,
+        handoffCodeHash: sha256Hex(handoffCode),
+        expiresAt: new Date(now.getTime() + this.options.handoffTtlSeconds * 1000),
+      },
+    });
+
+    return {
+      handoffCode,
+      returnTo: loginState.returnTo,
+      tenantId: connection.tenantId,
+      connectionId: connection.id,
+      protocol: connection.protocol as SsoProtocol,
+      ...provisioned,
+    };
+  }
+
+  private async provision(connection: ConnectionRow, identity: AssertedIdentity, returnTo: string | null, now: Date) {
+    const tenantId = connection.tenantId;
+    const email = identity.email?.trim().toLowerCase();
+    const fail = (reason: SsoLoginFailure, message: string): never => {
+      throw new SsoLoginError(reason, message, { tenantId, email, returnTo });
+    };
+
+    if (!email) return fail('EMAIL_MISSING', `IdP did not assert the ${connection.emailAttribute} attribute`);
+    if (!identity.emailVerified) return fail('EMAIL_NOT_VERIFIED', 'IdP reports the email as unverified');
+    const domain = emailDomain(email);
+    const verifiedDomain = domain
+      ? await this.db.tenantDomain.findFirst({
+          where: { tenantId, domain: { in: [domain, `www.${domain}`] }, verified: true },
+          select: { id: true },
+        })
+      : null;
+    if (!verifiedDomain) return fail('EMAIL_DOMAIN_NOT_VERIFIED', 'Email domain is not verified for this tenant');
+
+    const tenant = await this.db.tenant.findUnique({ where: { id: tenantId }, select: { status: true } });
+    if (tenant?.status !== 'ACTIVE') return fail('TENANT_INACTIVE', 'Tenant is inactive');
+
+    const mappedRole = resolveMappedRole(
+      parseRoleMappings(connection.roleMappings),
+      identity.groups,
+      (connection.defaultRole as SsoRole | null) ?? null,
+    );
+
+    // Identity → user
+    let userCreated = false;
+    let userId: string;
+    const linked = await this.db.ssoIdentity.findUnique({
+      where: { connectionId_subject: { connectionId: connection.id, subject: identity.subject } },
+      select: { id: true, userId: true },
+    });
+    if (linked) {
+      userId = linked.userId;
+      await this.db.ssoIdentity.update({ where: { id: linked.id }, data: { email, lastLoginAt: now } });
+    } else {
+      const existing = await this.db.user.findUnique({ where: { email }, select: { id: true } });
+      if (existing) {
+        userId = existing.id;
+      } else {
+        if (!connection.jitProvisioning) return fail('USER_NOT_PROVISIONED', 'No TexQtic account for this user');
+        if (!mappedRole) return fail('NO_ROLE_MAPPING', 'No role mapping matches the asserted groups');
+        const user = await this.db.user.create({
+          data: {
+            email,
+            passwordHash: await bcrypt.hash(randomToken(), 10),
+            emailVerified: true,
+            emailVerifiedAt: now,
+          },
+          select: { id: true },
+        });
+        userId = user.id;
+        userCreated = true;
+      }
+      await this.db.ssoIdentity.create({
+        data: { connectionId: connection.id, subject: identity.subject, userId, email, lastLoginAt: now },
+      });
+    }
+
+    // User → membership
+    type MembershipOutcome =
+      | { error: 'USER_NOT_PROVISIONED' | 'NO_ROLE_MAPPING' }
+      | { error?: undefined; role: string; created: boolean; changed: boolean };
+    const membership = await withLoginContext(this.db, tenantId, async (tx): Promise<MembershipOutcome> => {
+      const current = await tx.membership.findFirst({
+        where: { userId, tenantId },
+        select: { id: true, role: true },
+      });
+      if (!current) {
+        if (!connection.jitProvisioning) return { error: 'USER_NOT_PROVISIONED' as const };
+        if (!mappedRole) return { error: 'NO_ROLE_MAPPING' as const };
+        await tx.membership.create({ data: { userId, tenantId, role: mappedRole } });
+        return { role: mappedRole as string, created: true, changed: false };
+      }
+      if (current.role !== 'OWNER' && mappedRole && current.role !== mappedRole) {
+        await tx.membership.update({ where: { id: current.id }, data: { role: mappedRole } });
+        return { role: mappedRole as string, created: false, changed: true };
+      }
+      return { role: current.role as string, created: false, changed: false };
+    });
+    if (membership.error) {
+      return fail(
+        membership.error,
+        membership.error === 'NO_ROLE_MAPPING'
+          ? 'No role mapping matches the asserted groups'
+          : 'User is not a member of this tenant',
+      );
+    }
+
+    return {
+      userId,
+      email,
+      role: membership.role,
+      userCreated,
+      membershipCreated: membership.created,
+      roleChanged: membership.changed,
+    };
+  }
+
+  private async assertVerifiedDomain(tenantId: string): Promise<void> {
+    const count = await this.db.tenantDomain.count({ where: { tenantId, verified: true } });
+    if (count === 0) {
+      throw new SsoConfigError('NO_VERIFIED_DOMAIN', 'Verify a tenant domain before enabling single sign-on');
+    }
+  }
+
+  private commonData(input: CommonConnectionInput) {
+    return {
+      enabled: input.enabled,
+      displayName: input.displayName ?? null,
+      emailAttribute: input.emailAttribute ?? 'email',
+      groupsAttribute: input.groupsAttribute ?? 'groups',
+      roleMappings: input.roleMappings.map(({ group, role }) => ({ group, role })),
+      defaultRole: input.defaultRole,
+      jitProvisioning: input.jitProvisioning,
+    };
+  }
+
+  private toRecord(row: ConnectionRow): SsoConnectionRecord {
+    const isOidc = row.protocol === 'OIDC';
+    const sp = this.samlServiceProvider(row.id);
+    return {
+      id: row.id,
+      protocol: row.protocol as SsoProtocol,
+      enabled: row.enabled,
+      displayName: row.displayName,
+      oidc: isOidc
+        ? {
+            issuer: row.oidcIssuer as string,
+            clientId: row.oidcClientId as string,
+            scopes: row.oidcScopes ?? DEFAULT_OIDC_SCOPES,
+            hasClientSecret: !!row.oidcClientSecretEncrypted,
+            redirectUri: this.oidcRedirectUri,
+          }
+        : null,
+      saml: isOidc
+        ? null
+        : {
+            idpEntityId: row.samlIdpEntityId as string,
+            idpSsoUrl: row.samlIdpSsoUrl as string,
+            idpCertificate: row.samlIdpCertificate as string,
+            spEntityId: sp.entityId,
+            acsUrl: sp.acsUrl,
+            metadataUrl: sp.entityId,
+          },
+      emailAttribute: row.emailAttribute,
+      groupsAttribute: row.groupsAttribute,
+      roleMappings: parseRoleMappings(row.roleMappings),
+      defaultRole: (row.defaultRole as SsoRole | null) ?? null,
+      jitProvisioning: row.jitProvisioning,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+}
+
+/** HKDF-derived key for OIDC client secrets (mirrors deriveMfaEncryptionKey). */
+export function deriveSsoEncryptionKey(secret: string): Buffer {
+  return deriveEnvelopeKey(secret, 'texqtic-sso', 'oidc-client-secret-v1');
+}
@@ -32,6 +32,7 @@ import type {
   TransitionResult,
   TransitionErrorCode,
   TransitionDeniedResult,
+  TransitionSuccessResult,
 } from './stateMachine.types.js';
 import {
   GuardrailViolation,
@@ -42,6 +43,8 @@ import type { EscalationService } from './escalation.service.js';
 import { GovError } from './escalation.types.js';
 import type { SanctionsService } from './sanctions.service.js';
 import { SanctionBlockError } from './sanctions.service.js';
+import { publishDomainEvent } from '../events/domainEmitter.js';
+import type { KnownEventName } from '../lib/events.js';
 
 // ─── UUID Validation ──────────────────────────────────────────────────────────
 
@@ -58,6 +61,18 @@ function denied(code: TransitionErrorCode, message: string): TransitionDeniedRes
   return { status: 'DENIED', code, message };
 }
 
+// ─── Domain events (TENANT-WEBHOOKS-001) ──────────────────────────────────────
+
+const STATE_CHANGED_EVENT_NAMES: Record<string, KnownEventName> = {
+  TRADE: 'trade.state_changed.v1',
+  ESCROW: 'escrow.state_changed.v1',
+  CERTIFICATION: 'certification.state_changed.v1',
+  ORDER: 'order.state_changed.v1',
+  POOL: 'pool.state_changed.v1',
+  SYNDICATE: 'syndicate.state_changed.v1',
+  VCO_CHAIN: 'vco_chain.state_changed.v1',
+};
+
 // ─── StateMachineService ──────────────────────────────────────────────────────
 
 export class StateMachineService {
@@ -98,7 +113,8 @@ export class StateMachineService {
    *  13. Handle escalation requirement (G-022 compatibility).
    *  14. Handle maker-checker requirement (G-021 compatibility).
    *  15. Write log record in a transaction.
-   *  16. Return TransitionSuccessResult.
+   *  16. Publish <entity>.state_changed.v1 (best-effort, in the same transaction when opts.db).
+   *  17. Return TransitionSuccessResult.
    *
    * @returns TransitionResult — never throws (all errors become DENIED results).
    */
@@ -333,7 +349,7 @@ export class StateMachineService {
           ? await opts.db.tradeLifecycleLog.create({ data: logData })
           : await this.db.$transaction(async tx => tx.tradeLifecycleLog.create({ data: logData }));
 
-        return {
+        return this.publishApplied(req, {
           status: 'APPLIED',
           transitionId: log.id,
           entityType: req.entityType,
@@ -341,7 +357,7 @@ export class StateMachineService {
           fromStateKey: normalizedFromState,
           toStateKey: normalizedToState,
           createdAt: log.createdAt,
-        };
+        }, opts?.db);
       }
 
       if (normalizedEntityType === 'ESCROW') {
@@ -367,7 +383,7 @@ export class StateMachineService {
           ? await opts.db.escrowLifecycleLog.create({ data: logData })
           : await this.db.$transaction(async tx => tx.escrowLifecycleLog.create({ data: logData }));
 
-        return {
+        return this.publishApplied(req, {
           status: 'APPLIED',
           transitionId: log.id,
           entityType: req.entityType,
@@ -375,7 +391,7 @@ export class StateMachineService {
           fromStateKey: normalizedFromState,
           toStateKey: normalizedToState,
           createdAt: log.createdAt,
-        };
+        }, opts?.db);
       }
 
       if (normalizedEntityType === 'CERTIFICATION') {
@@ -400,7 +416,7 @@ export class StateMachineService {
           ? await opts.db.certificationLifecycleLog.create({ data: logData })
           : await this.db.$transaction(async tx => tx.certificationLifecycleLog.create({ data: logData }));
 
-        return {
+        return this.publishApplied(req, {
           status: 'APPLIED',
           transitionId: log.id,
           entityType: req.entityType,
@@ -408,7 +424,7 @@ export class StateMachineService {
           fromStateKey: normalizedFromState,
           toStateKey: normalizedToState,
           createdAt: log.createdAt,
-        };
+        }, opts?.db);
       }
 
       if (normalizedEntityType === 'ORDER') {
@@ -503,7 +519,7 @@ export class StateMachineService {
               return _log;
             });
 
-        return {
+        return this.publishApplied(req, {
           status: 'APPLIED',
           transitionId: log.id,
           entityType: req.entityType,
@@ -511,7 +527,7 @@ export class StateMachineService {
           fromStateKey: normalizedFromState,
           toStateKey: normalizedToState,
           createdAt: log.created_at,
-        };
+        }, opts?.db);
       }
 
       // ── TEXQTIC-NC-PHASE1-STATEMACHINE-001: POOL | SYNDICATE | VCO_CHAIN ──
@@ -539,7 +555,7 @@ export class StateMachineService {
         const log = opts?.db
           ? await opts.db.networkLifecycleLog.create({ data: logData })
           : await this.db.$transaction(async tx => tx.networkLifecycleLog.create({ data: logData }));
-        return {
+        return this.publishApplied(req, {
           status: 'APPLIED',
           transitionId: log.id,
           entityType: req.entityType,
@@ -547,7 +563,7 @@ export class StateMachineService {
           fromStateKey: normalizedFromState,
           toStateKey: normalizedToState,
           createdAt: log.createdAt,
-        };
+        }, opts?.db);
       }
 
       // Guard against future entity type skeletons that skip the write branch.
@@ -569,4 +585,44 @@ export class StateMachineService {
       );
     }
   }
+
+  /**
+   * Publish <entity>.state_changed.v1 for an APPLIED transition and return the result
+   * unchanged. Best-effort: publishDomainEvent never throws. When opts.db is provided the
+   * fan-out job joins the caller's transaction. The free-text reason is not published.
+   */
+  private async publishApplied(
+    req: TransitionRequest,
+    result: TransitionSuccessResult,
+    db?: PrismaClient,
+  ): Promise<TransitionSuccessResult> {
+    const name = STATE_CHANGED_EVENT_NAMES[result.entityType.toUpperCase()];
+    if (!name) return result;
+
+    const actor =
+      req.actorType === 'PLATFORM_ADMIN' || req.actorAdminId
+        ? { type: 'ADMIN' as const, id: req.actorAdminId ?? null }
+        : req.actorType === 'SYSTEM_AUTOMATION'
+          ? { type: 'SYSTEM' as const, id: null }
+          : { type: 'USER' as const, id: req.actorUserId ?? null };
+
+    await publishDomainEvent(
+      name,
+      {
+        entityType: result.entityType.toUpperCase(),
+        entityId: result.entityId,
+        fromState: result.fromStateKey,
+        toState: result.toStateKey,
+        actorType: req.actorType,
+        transitionId: result.transitionId,
+      },
+      {
+        orgId: req.orgId,
+        actor,
+        entity: { type: result.entityType.toLowerCase(), id: result.entityId },
+        db: db ?? this.db,
+      },
+    );
+    return result;
+  }
 }
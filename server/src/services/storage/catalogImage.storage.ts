@@ -2,8 +2,10 @@ import { randomUUID } from 'node:crypto';
 import { createClient } from '@supabase/supabase-js';
 import { fileTypeFromBuffer } from 'file-type';
 import { config } from '../../config/index.js';
+import { bareHostname, isPublicHost } from '../../lib/publicAddress.js';
 
 export const MAX_CATALOG_IMAGE_BYTES = 5 * 1024 * 1024;
+export const CATALOG_IMAGE_FETCH_TIMEOUT_MS = 10_000;
 export const ALLOWED_IMAGE_MIME_TYPES = new Set([
   'image/jpeg',
   'image/png',
@@ -28,6 +30,7 @@ export type CatalogImageUploadErrorCode =
   | 'FILE_TOO_LARGE'
   | 'INVALID_FILE_TYPE'
   | 'STORAGE_NOT_CONFIGURED'
+  | 'SOURCE_FETCH_FAILED'
   | 'UPLOAD_FAILED';
 
 export class CatalogImageUploadError extends Error {
@@ -150,3 +153,68 @@ export async function uploadCatalogImageToStorage(
 
   return { imageUrl: data.publicUrl };
 }
+
+interface ImportCatalogImageInput {
+  orgId: string;
+  sourceUrl: string;
+}
+
+/**
+ * Reject source URLs that could reach internal services (SSRF): only https, and the
+ * host must resolve to public addresses only. Redirects are refused by the fetch.
+ */
+async function assertPublicImageSource(sourceUrl: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(sourceUrl);
+  } catch {
+    throw new CatalogImageUploadError('SOURCE_FETCH_FAILED', 'Image URL is not valid.', 400);
+  }
+  if (url.protocol !== 'https:') {
+    throw new CatalogImageUploadError('SOURCE_FETCH_FAILED', 'Image URL must use https.', 400);
+  }
+  if (!(await isPublicHost(bareHostname(url)))) {
+    throw new CatalogImageUploadError('SOURCE_FETCH_FAILED', 'Image URL host is not reachable.', 400);
+  }
+  return url;
+}
+
+/**
+ * Copy a remote image into catalog storage (bulk catalog import, CATALOG-IMPORT-001).
+ * URLs already served from the catalog image bucket are returned unchanged, so
+ * re-importing an exported catalog does not duplicate its images.
+ */
+export async function importCatalogImageFromUrl(
+  input: ImportCatalogImageInput,
+): Promise<{ imageUrl: string }> {
+  const { supabaseUrl, bucket } = ensureStorageConfigured();
+  const bucketPublicPrefix = `${supabaseUrl.replace(/\/+$/, '')}/storage/v1/object/public/${bucket}/`;
+  if (input.sourceUrl.startsWith(bucketPublicPrefix)) {
+    return { imageUrl: input.sourceUrl };
+  }
+
+  const url = await assertPublicImageSource(input.sourceUrl);
+
+  let fileBuffer: Buffer;
+  try {
+    const response = await fetch(url, {
+      redirect: 'error',
+      signal: AbortSignal.timeout(CATALOG_IMAGE_FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new CatalogImageUploadError('SOURCE_FETCH_FAILED', `Image URL returned HTTP ${response.status}.`, 400);
+    }
+    const declaredLength = Number(response.headers.get('content-length') ?? 0);
+    if (declaredLength > MAX_CATALOG_IMAGE_BYTES) {
+      throw new CatalogImageUploadError('FILE_TOO_LARGE', 'File exceeds 5 MB upload limit.', 400);
+    }
+    fileBuffer = Buffer.from(await response.arrayBuffer());
+  } catch (err) {
+    if (err instanceof CatalogImageUploadError) {
+      throw err;
+    }
+    throw new CatalogImageUploadError('SOURCE_FETCH_FAILED', 'Image URL could not be downloaded.', 400);
+  }
+
+  return uploadCatalogImageToStorage({ orgId: input.orgId, fileBuffer });
+}
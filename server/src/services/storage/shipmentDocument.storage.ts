@@ -0,0 +1,174 @@
+import { randomUUID } from 'node:crypto';
+import { createClient } from '@supabase/supabase-js';
+import { fileTypeFromBuffer } from 'file-type';
+import { config } from '../../config/index.js';
+
+export const MAX_SHIPMENT_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+const MIME_TO_EXTENSION: Record<string, 'pdf' | 'jpg' | 'png' | 'webp'> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const FILE_TYPE_EXTENSION_TO_MIME: Record<string, keyof typeof MIME_TO_EXTENSION> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+function normalizeDeclaredMimeType(mimeType?: string): string | null {
+  if (!mimeType) return null;
+  const normalized = mimeType.split(';', 1)[0]?.trim().toLowerCase();
+  return normalized || null;
+}
+
+export type ShipmentDocumentErrorCode =
+  | 'FILE_REQUIRED'
+  | 'FILE_TOO_LARGE'
+  | 'INVALID_FILE_TYPE'
+  | 'STORAGE_NOT_CONFIGURED'
+  | 'UPLOAD_FAILED'
+  | 'SIGNED_URL_FAILED';
+
+export class ShipmentDocumentStorageError extends Error {
+  readonly code: ShipmentDocumentErrorCode;
+  readonly statusCode: number;
+
+  constructor(code: ShipmentDocumentErrorCode, message: string, statusCode: number) {
+    super(message);
+    this.name = 'ShipmentDocumentStorageError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+interface UploadShipmentDocumentInput {
+  orgId: string;
+  shipmentId: string;
+  fileBuffer: Buffer;
+  declaredMimeType?: string;
+  originalFilename?: string;
+}
+
+function sanitizePathSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+function sanitizeOriginalFilename(filename?: string): string | null {
+  if (!filename) return null;
+  const baseName = filename.split(/[\\/]/).pop()?.trim();
+  if (!baseName) return null;
+  return baseName.replace(/[^a-zA-Z0-9._ -]/g, '_').slice(0, 255);
+}
+
+function ensureStorageConfigured(): {
+  supabaseUrl: string;
+  serviceRoleKey: string;
+  bucket: string;
+} {
+  const supabaseUrl = config.SUPABASE_URL;
+  const serviceRoleKey = config.SUPABASE_SERVICE_ROLE_KEY;
+  const bucket = config.SHIPMENT_DOCUMENT_BUCKET;
+
+  if (!supabaseUrl || !serviceRoleKey || !bucket) {
+    throw new ShipmentDocumentStorageError(
+      'STORAGE_NOT_CONFIGURED',
+      'Shipment document storage is not configured.',
+      500,
+    );
+  }
+
+  return { supabaseUrl, serviceRoleKey, bucket };
+}
+
+function createStorageClient() {
+  const { supabaseUrl, serviceRoleKey, bucket } = ensureStorageConfigured();
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+
+  return { supabase, bucket };
+}
+
+export async function validateShipmentDocumentBuffer(
+  fileBuffer: Buffer,
+  declaredMimeType?: string,
+): Promise<keyof typeof MIME_TO_EXTENSION> {
+  if (!fileBuffer || fileBuffer.byteLength === 0) {
+    throw new ShipmentDocumentStorageError('FILE_REQUIRED', 'A shipment document file is required.', 400);
+  }
+
+  if (fileBuffer.byteLength > MAX_SHIPMENT_DOCUMENT_BYTES) {
+    throw new ShipmentDocumentStorageError('FILE_TOO_LARGE', 'File exceeds 5 MB upload limit.', 400);
+  }
+
+  const detectedType = await fileTypeFromBuffer(fileBuffer);
+  const normalizedDetectedMime = detectedType ? FILE_TYPE_EXTENSION_TO_MIME[detectedType.ext] : undefined;
+  if (!normalizedDetectedMime || !(normalizedDetectedMime in MIME_TO_EXTENSION)) {
+    throw new ShipmentDocumentStorageError(
+      'INVALID_FILE_TYPE',
+      'Only PDF, JPG, PNG, and WEBP shipment documents are allowed.',
+      400,
+    );
+  }
+
+  const normalizedDeclaredMimeType = normalizeDeclaredMimeType(declaredMimeType);
+  if (normalizedDeclaredMimeType && normalizedDeclaredMimeType !== normalizedDetectedMime) {
+    throw new ShipmentDocumentStorageError('INVALID_FILE_TYPE', 'Document type does not match file content.', 400);
+  }
+
+  return normalizedDetectedMime;
+}
+
+export async function uploadShipmentDocumentToStorage(
+  input: UploadShipmentDocumentInput,
+): Promise<{
+  storagePath: string;
+  originalName: string | null;
+  mimeType: keyof typeof MIME_TO_EXTENSION;
+  sizeBytes: number;
+}> {
+  const { supabase, bucket } = createStorageClient();
+  const validatedMimeType = await validateShipmentDocumentBuffer(input.fileBuffer, input.declaredMimeType);
+  const extension = MIME_TO_EXTENSION[validatedMimeType];
+  const orgSegment = sanitizePathSegment(input.orgId);
+  const shipmentSegment = sanitizePathSegment(input.shipmentId);
+  const storagePath = `${orgSegment}/shipments/${shipmentSegment}/${randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage.from(bucket).upload(storagePath, input.fileBuffer, {
+    upsert: false,
+    contentType: validatedMimeType,
+    cacheControl: '0',
+  });
+
+  if (error) {
+    throw new ShipmentDocumentStorageError('UPLOAD_FAILED', 'Shipment document upload failed.', 500);
+  }
+
+  return {
+    storagePath,
+    originalName: sanitizeOriginalFilename(input.originalFilename),
+    mimeType: validatedMimeType,
+    sizeBytes: input.fileBuffer.byteLength,
+  };
+}
+
+export async function createShipmentDocumentSignedUrl(
+  storagePath: string,
+): Promise<{ signedUrl: string }> {
+  const { supabase, bucket } = createStorageClient();
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(storagePath, 300);
+
+  if (error || !data?.signedUrl) {
+    throw new ShipmentDocumentStorageError('SIGNED_URL_FAILED', 'Shipment document access failed.', 500);
+  }
+
+  return { signedUrl: data.signedUrl };
+}
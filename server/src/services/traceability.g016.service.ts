@@ -5,6 +5,12 @@
  *   - createNode / listNodes
  *   - createEdge / listEdges
  *   - getNodeNeighbors (1-hop, tenant-scoped)
+ *   - getLineage (multi-hop upstream/downstream, depth- and edge-type-bounded)
+ *   - checkMassBalance (quantity in vs out per node across the lineage)
+ *
+ * Graph integrity: createEdge rejects edges that would close a cycle. The check
+ * runs under a per-org advisory lock so two concurrent inserts (A→B, B→A) cannot
+ * both pass it.
  *
  * Constitutional compliance:
  *   - All DB operations use the Prisma client passed in (injected, db-context-scoped).
@@ -21,12 +27,22 @@ import type { PrismaClient, Prisma } from '@prisma/client';
 /** Stop-loss: maximum serialised byte-size for meta JSONB blobs. */
 const META_MAX_BYTES = 16 * 1024; // 16 KB
 
+/** Maximum lineage depth (hops). Matches the dpp_snapshot_lineage_v1 recursion cap. */
+export const LINEAGE_MAX_DEPTH = 20;
+
+/** Stop-loss: maximum nodes returned by one lineage query; the result is flagged truncated. */
+export const LINEAGE_MAX_NODES = 500;
+
+/** Default relative tolerance (percent) before output exceeding input is flagged. */
+export const MASS_BALANCE_DEFAULT_TOLERANCE_PERCENT = 2;
+
 // ─── Error Codes ─────────────────────────────────────────────────────────────
 
 export type TraceabilityServiceErrorCode =
   | 'INVALID_INPUT'
   | 'NOT_FOUND'
   | 'CONFLICT'
+  | 'CYCLE_DETECTED'
   | 'DB_ERROR';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
@@ -74,6 +90,9 @@ export type EdgeCreateInput = {
   toNodeId: string;
   edgeType: string;
   transformationId?: string | null;
+  /** Quantity moved along the edge; must be given together with quantityUnit. */
+  quantity?: number | null;
+  quantityUnit?: string | null;
   meta?: Record<string, unknown>;
 };
 
@@ -101,6 +120,8 @@ export type TraceabilityEdgeRow = {
   toNodeId: string;
   edgeType: string;
   transformationId: string | null;
+  quantity: Prisma.Decimal | null;
+  quantityUnit: string | null;
   meta: Prisma.JsonValue;
   createdAt: Date;
 };
@@ -114,6 +135,73 @@ export type NodeNeighborsResult =
     }
   | { status: 'ERROR'; code: TraceabilityServiceErrorCode; message: string };
 
+export type LineageDirection = 'UPSTREAM' | 'DOWNSTREAM' | 'BOTH';
+
+export type LineageInput = {
+  orgId: string;
+  nodeId: string;
+  /** UPSTREAM follows edges backwards (inputs); DOWNSTREAM follows them forwards (outputs). */
+  direction: LineageDirection;
+  /** Hops from the root; clamped to 1..LINEAGE_MAX_DEPTH. */
+  maxDepth: number;
+  /** Only traverse edges of these types (case-insensitive). Empty / omitted = all types. */
+  edgeTypes?: string[];
+};
+
+export type LineageNode = TraceabilityNodeRow & {
+  /** Hops from the root (0 for the root itself). */
+  depth: number;
+  direction: 'ROOT' | 'UPSTREAM' | 'DOWNSTREAM';
+};
+
+export type LineageResult =
+  | {
+      status: 'OK';
+      rootId: string;
+      nodes: LineageNode[];
+      edges: TraceabilityEdgeRow[];
+      /** True when LINEAGE_MAX_NODES was hit before the depth limit was reached. */
+      truncated: boolean;
+    }
+  | { status: 'ERROR'; code: TraceabilityServiceErrorCode; message: string };
+
+export type MassBalanceStatus =
+  | 'BALANCED'
+  | 'EXCESS_OUTPUT'
+  | 'UNIT_MISMATCH'
+  | 'INCOMPLETE';
+
+export type MassBalanceEntry = {
+  nodeId: string;
+  batchId: string;
+  nodeType: string;
+  status: MassBalanceStatus;
+  /** Unit shared by all quantified edges; null when mixed or none. */
+  unit: string | null;
+  inputQuantity: number;
+  outputQuantity: number;
+  /** (output - input) / input × 100; null when not computable. */
+  variancePercent: number | null;
+  /** Incident edges without a quantity — their contribution is unknown. */
+  unquantifiedEdges: number;
+};
+
+export type MassBalanceInput = LineageInput & {
+  tolerancePercent?: number;
+};
+
+export type MassBalanceResult =
+  | {
+      status: 'OK';
+      rootId: string;
+      tolerancePercent: number;
+      /** One entry per transformation node (has both incoming and outgoing edges). */
+      entries: MassBalanceEntry[];
+      violations: number;
+      truncated: boolean;
+    }
+  | { status: 'ERROR'; code: TraceabilityServiceErrorCode; message: string };
+
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
 function validateMeta(meta: Record<string, unknown>): string | null {
@@ -124,6 +212,76 @@ function validateMeta(meta: Record<string, unknown>): string | null {
   return null;
 }
 
+function normalizeEdgeTypes(edgeTypes: string[] | undefined): string[] {
+  return [...new Set((edgeTypes ?? []).map(t => t.trim().toUpperCase()).filter(t => t.length > 0))];
+}
+
+/**
+ * Mass balance per transformation node: the quantity flowing in (sum over
+ * incoming edges) must cover the quantity flowing out (sum over outgoing edges).
+ * Output above input by more than tolerancePercent is EXCESS_OUTPUT — material
+ * appeared from nowhere. Output below input is accepted (process loss / waste).
+ *
+ * Nodes without both incoming and outgoing edges (raw inputs, finished goods)
+ * are not transformations and are skipped. Units are compared verbatim; mixed
+ * units yield UNIT_MISMATCH rather than a guessed conversion. A node with any
+ * unquantified incident edge is INCOMPLETE unless its known output already
+ * exceeds its known input.
+ *
+ * Pure: callers pass the node set and every edge incident to it.
+ */
+export function computeMassBalance(
+  nodes: Pick<TraceabilityNodeRow, 'id' | 'batchId' | 'nodeType'>[],
+  edges: Pick<TraceabilityEdgeRow, 'fromNodeId' | 'toNodeId' | 'quantity' | 'quantityUnit'>[],
+  tolerancePercent: number,
+): MassBalanceEntry[] {
+  const entries: MassBalanceEntry[] = [];
+
+  for (const node of nodes) {
+    const incoming = edges.filter(e => e.toNodeId === node.id);
+    const outgoing = edges.filter(e => e.fromNodeId === node.id);
+    if (incoming.length === 0 || outgoing.length === 0) continue;
+
+    const quantified = [...incoming, ...outgoing].filter(e => e.quantity !== null && e.quantityUnit !== null);
+    const units = new Set(quantified.map(e => (e.quantityUnit ?? '').trim().toLowerCase()));
+    const unquantifiedEdges = incoming.length + outgoing.length - quantified.length;
+
+    const sum = (list: typeof edges) =>
+      list.reduce((acc, e) => acc + (e.quantity === null ? 0 : Number(e.quantity)), 0);
+    const inputQuantity = sum(incoming);
+    const outputQuantity = sum(outgoing);
+    const variancePercent =
+      units.size === 1 && inputQuantity > 0
+        ? Math.round(((outputQuantity - inputQuantity) / inputQuantity) * 10_000) / 100
+        : null;
+
+    let status: MassBalanceStatus;
+    if (units.size > 1) {
+      status = 'UNIT_MISMATCH';
+    } else if (variancePercent !== null && variancePercent > tolerancePercent) {
+      status = 'EXCESS_OUTPUT';
+    } else if (unquantifiedEdges > 0 || quantified.length === 0) {
+      status = 'INCOMPLETE';
+    } else {
+      status = 'BALANCED';
+    }
+
+    entries.push({
+      nodeId: node.id,
+      batchId: node.batchId,
+      nodeType: node.nodeType,
+      status,
+      unit: units.size === 1 ? (quantified[0]?.quantityUnit ?? null) : null,
+      inputQuantity,
+      outputQuantity,
+      variancePercent,
+      unquantifiedEdges,
+    });
+  }
+
+  return entries;
+}
+
 // ─── TraceabilityService ──────────────────────────────────────────────────────
 
 export class TraceabilityService {
@@ -216,7 +374,16 @@ export class TraceabilityService {
   // ─── createEdge ─────────────────────────────────────────────────────────────
 
   async createEdge(input: EdgeCreateInput): Promise<EdgeCreateResult> {
-    const { orgId, fromNodeId, toNodeId, edgeType, transformationId = null, meta = {} } = input;
+    const {
+      orgId,
+      fromNodeId,
+      toNodeId,
+      edgeType,
+      transformationId = null,
+      quantity = null,
+      quantityUnit = null,
+      meta = {},
+    } = input;
 
     if (!fromNodeId || !toNodeId) {
       return { status: 'ERROR', code: 'INVALID_INPUT', message: 'fromNodeId and toNodeId are required' };
@@ -224,6 +391,19 @@ export class TraceabilityService {
     if (!edgeType || edgeType.trim().length === 0) {
       return { status: 'ERROR', code: 'INVALID_INPUT', message: 'edgeType is required' };
     }
+    if ((quantity === null) !== (quantityUnit === null || quantityUnit.trim().length === 0)) {
+      return {
+        status: 'ERROR',
+        code: 'INVALID_INPUT',
+        message: 'quantity and quantityUnit must be provided together',
+      };
+    }
+    if (quantity !== null && !(Number.isFinite(quantity) && quantity > 0)) {
+      return { status: 'ERROR', code: 'INVALID_INPUT', message: 'quantity must be a positive number' };
+    }
+    if (fromNodeId === toNodeId) {
+      return { status: 'ERROR', code: 'CYCLE_DETECTED', message: 'An edge cannot connect a node to itself' };
+    }
 
     const metaError = validateMeta(meta);
     if (metaError) {
@@ -231,6 +411,18 @@ export class TraceabilityService {
     }
 
     try {
+      // Serialise edge inserts per org for the rest of the transaction so the
+      // cycle check below cannot race a concurrent insert of the reverse path.
+      await this.db.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`traceability_edges:${orgId}`}))`;
+
+      if (await this.reaches(orgId, toNodeId, fromNodeId)) {
+        return {
+          status: 'ERROR',
+          code: 'CYCLE_DETECTED',
+          message: 'Edge would create a cycle: the source node is already downstream of the target node',
+        };
+      }
+
       const edge = await this.db.traceabilityEdge.create({
         data: {
           orgId,
@@ -238,6 +430,8 @@ export class TraceabilityService {
           toNodeId,
           edgeType: edgeType.trim().toUpperCase(),
           transformationId: transformationId ?? null,
+          quantity,
+          quantityUnit: quantityUnit?.trim() ?? null,
           meta: meta as Prisma.InputJsonValue,
         },
         select: { id: true },
@@ -344,4 +538,152 @@ export class TraceabilityService {
       };
     }
   }
+
+  // ─── getLineage (multi-hop) ─────────────────────────────────────────────────
+
+  /**
+   * Breadth-first walk from nodeId, one query per hop. Each node is reported
+   * once, at its shortest distance; BOTH runs the upstream and downstream walks
+   * independently and merges them. Edges are returned only when both endpoints
+   * are in the result, so the caller can render a closed sub-graph.
+   */
+  async getLineage(input: LineageInput): Promise<LineageResult> {
+    const { orgId, nodeId, direction } = input;
+    const maxDepth = Math.min(Math.max(Math.trunc(input.maxDepth), 1), LINEAGE_MAX_DEPTH);
+    const edgeTypes = normalizeEdgeTypes(input.edgeTypes);
+
+    try {
+      const root = await this.db.traceabilityNode.findFirst({ where: { id: nodeId, orgId } });
+      if (!root) {
+        return { status: 'ERROR', code: 'NOT_FOUND', message: 'Node not found' };
+      }
+
+      const found = new Map<string, { depth: number; direction: LineageNode['direction'] }>([
+        [nodeId, { depth: 0, direction: 'ROOT' }],
+      ]);
+      const edges = new Map<string, TraceabilityEdgeRow>();
+      let truncated = false;
+
+      const walks: ('UPSTREAM' | 'DOWNSTREAM')[] =
+        direction === 'BOTH' ? ['UPSTREAM', 'DOWNSTREAM'] : [direction];
+
+      for (const walk of walks) {
+        let frontier = [nodeId];
+        for (let depth = 1; depth <= maxDepth && frontier.length > 0 && !truncated; depth++) {
+          const hop = (await this.db.traceabilityEdge.findMany({
+            where: {
+              orgId,
+              ...(walk === 'DOWNSTREAM' ? { fromNodeId: { in: frontier } } : { toNodeId: { in: frontier } }),
+              ...(edgeTypes.length > 0 ? { edgeType: { in: edgeTypes } } : {}),
+            },
+            orderBy: { createdAt: 'asc' },
+          })) as TraceabilityEdgeRow[];
+
+          const next: string[] = [];
+          for (const edge of hop) {
+            const neighbour = walk === 'DOWNSTREAM' ? edge.toNodeId : edge.fromNodeId;
+            if (!found.has(neighbour)) {
+              if (found.size >= LINEAGE_MAX_NODES) {
+                truncated = true;
+                continue;
+              }
+              found.set(neighbour, { depth, direction: walk });
+              next.push(neighbour);
+            }
+            if (found.has(neighbour)) edges.set(edge.id, edge);
+          }
+          frontier = next;
+        }
+      }
+
+      const rows = (await this.db.traceabilityNode.findMany({
+        where: { orgId, id: { in: [...found.keys()] } },
+      })) as TraceabilityNodeRow[];
+
+      const nodes: LineageNode[] = rows
+        .map(row => ({ ...row, ...(found.get(row.id) ?? { depth: 0, direction: 'ROOT' as const }) }))
+        .sort((a, b) => a.depth - b.depth || a.batchId.localeCompare(b.batchId));
+
+      return {
+        status: 'OK',
+        rootId: nodeId,
+        nodes,
+        edges: [...edges.values()],
+        truncated,
+      };
+    } catch (err) {
+      return {
+        status: 'ERROR',
+        code: 'DB_ERROR',
+        message: err instanceof Error ? err.message : 'Unknown DB error',
+      };
+    }
+  }
+
+  // ─── checkMassBalance ───────────────────────────────────────────────────────
+
+  /**
+   * Mass balance over the lineage of nodeId. Every edge incident to a lineage
+   * node is considered (not only the traversed ones), so a transformation's
+   * full input and output are compared even when the walk reached it from one side.
+   */
+  async checkMassBalance(input: MassBalanceInput): Promise<MassBalanceResult> {
+    const tolerancePercent = input.tolerancePercent ?? MASS_BALANCE_DEFAULT_TOLERANCE_PERCENT;
+    if (!Number.isFinite(tolerancePercent) || tolerancePercent < 0) {
+      return { status: 'ERROR', code: 'INVALID_INPUT', message: 'tolerancePercent must be >= 0' };
+    }
+
+    const lineage = await this.getLineage(input);
+    if (lineage.status !== 'OK') return lineage;
+
+    try {
+      const ids = lineage.nodes.map(n => n.id);
+      const incident = (await this.db.traceabilityEdge.findMany({
+        where: {
+          orgId: input.orgId,
+          OR: [{ fromNodeId: { in: ids } }, { toNodeId: { in: ids } }],
+        },
+      })) as TraceabilityEdgeRow[];
+
+      const entries = computeMassBalance(lineage.nodes, incident, tolerancePercent);
+      return {
+        status: 'OK',
+        rootId: lineage.rootId,
+        tolerancePercent,
+        entries,
+        violations: entries.filter(e => e.status === 'EXCESS_OUTPUT' || e.status === 'UNIT_MISMATCH').length,
+        truncated: lineage.truncated,
+      };
+    } catch (err) {
+      return {
+        status: 'ERROR',
+        code: 'DB_ERROR',
+        message: err instanceof Error ? err.message : 'Unknown DB error',
+      };
+    }
+  }
+
+  // ─── reaches (cycle check) ──────────────────────────────────────────────────
+
+  /** True when target is reachable from start by following edges forwards (any type). */
+  private async reaches(orgId: string, start: string, target: string): Promise<boolean> {
+    const visited = new Set<string>([start]);
+    let frontier = [start];
+    while (frontier.length > 0) {
+      const hop = await this.db.traceabilityEdge.findMany({
+        where: { orgId, fromNodeId: { in: frontier } },
+        select: { toNodeId: true },
+      });
+      const next: string[] = [];
+      for (const { toNodeId } of hop) {
+        if (toNodeId === target) return true;
+        if (!visited.has(toNodeId)) {
+          visited.add(toNodeId);
+          next.push(toNodeId);
+        }
+      }
+      frontier = next;
+    }
+    return false;
+  }
 }
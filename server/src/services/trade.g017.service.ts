@@ -30,6 +30,12 @@ import type { EscrowServiceErrorCode } from './escrow.types.js';
 import { GovError } from './escalation.types.js';
 import type { SanctionsService } from './sanctions.service.js';
 import { SanctionBlockError } from './sanctions.service.js';
+import type { FxRateService, FxSnapshot } from './fx/fxRate.service.js';
+import {
+  RFQ_QUOTE_SELECT,
+  computeRfqQuoteTotal,
+  toRfqQuoteRecord,
+} from './rfq/rfqQuote.service.js';
 import type {
   TradeCreateInput,
   TradeCreateEscrowInput,
@@ -67,10 +73,19 @@ type RfqLinkedTradeRow = {
   id: string;
 };
 
+/** Commercial terms the trade is created with — from the accepted quote when present. */
+type RfqTradeCommercialTerms = {
+  currency: string;
+  grossAmount: number;
+  acceptedQuoteId: string | null;
+  acceptedQuoteRevision: number | null;
+};
+
 type TradeCreateFromRfqPrepared = {
   status: 'READY';
   draftStateId: string;
   rfq: RfqTradeConversionRow;
+  terms: RfqTradeCommercialTerms;
 };
 
 function isSourceRfqUniqueConstraintViolation(err: unknown): boolean {
@@ -103,6 +118,32 @@ function mapEscrowErrorToTradeErrorCode(code: EscrowServiceErrorCode): TradeServ
   }
 }
 
+/** trades.fx_* columns for a snapshot; empty when there is none. */
+function toTradeFxColumns(snapshot: FxSnapshot | null) {
+  return snapshot
+    ? {
+        fxReportingCurrency: snapshot.reportingCurrency,
+        fxRate: snapshot.rate,
+        fxRateId: snapshot.fxRateId,
+        fxRateEffectiveDate: snapshot.effectiveDate,
+      }
+    : {};
+}
+
+/** Rate reference recorded on the creation event so the snapshot is auditable. */
+function toTradeFxEventMetadata(snapshot: FxSnapshot | null) {
+  return snapshot
+    ? {
+        fx: {
+          reportingCurrency: snapshot.reportingCurrency,
+          rate: snapshot.rate.toString(),
+          fxRateId: snapshot.fxRateId,
+          effectiveDate: snapshot.effectiveDate?.toISOString().slice(0, 10) ?? null,
+        },
+      }
+    : {};
+}
+
 // ─── TradeService ─────────────────────────────────────────────────────────────
 
 export class TradeService {
@@ -126,8 +167,16 @@ export class TradeService {
     // G-024: SanctionsService for buyer/seller sanction checks before trade creation.
     // Optional for backward compat; should be injected in all production routes.
     private readonly sanctions?: SanctionsService | null,
+    // FX-RATES-001: snapshots the rate into the reporting currency at creation.
+    // Optional for backward compat; without it trades carry no FX snapshot.
+    private readonly fx?: FxRateService | null,
   ) {}
 
+  /** FX snapshot for a new trade, or null when no FxRateService / no rate is loaded. */
+  private async takeFxSnapshot(currency: string): Promise<FxSnapshot | null> {
+    return this.fx ? this.fx.snapshot(currency) : null;
+  }
+
   // ─── Method 1: createTrade ──────────────────────────────────────────────────
 
   /**
@@ -210,6 +259,8 @@ export class TradeService {
         };
       }
 
+      const fxSnapshot = await this.takeFxSnapshot(input.currency.trim());
+
       // ── Atomic write: trade + first trade_events row ──────────────────────
       const created = await this.db.$transaction(async (tx) => {
         const trade = await (tx as unknown as PrismaClient).trade.create({
@@ -223,6 +274,7 @@ export class TradeService {
             grossAmount: input.grossAmount,
             reasoningLogId: input.reasoningLogId ?? null,
             createdByUserId: input.createdByUserId ?? null,
+            ...toTradeFxColumns(fxSnapshot),
           },
           select: { id: true, tradeReference: true },
         });
@@ -238,6 +290,7 @@ export class TradeService {
               currency: input.currency.trim(),
               reasoningLogId: input.reasoningLogId ?? null,
               reason: input.reason,
+              ...toTradeFxEventMetadata(fxSnapshot),
             },
             createdByUserId: input.createdByUserId ?? null,
           },
@@ -392,15 +445,17 @@ export class TradeService {
       };
     }
 
-    if (!input.currency || input.currency.trim().length === 0) {
+    // currency / grossAmount are optional here: an accepted quote supplies them.
+    // Presence is enforced in resolveRfqTradeCommercialTerms once the quote is known.
+    if (input.currency != null && input.currency.trim().length === 0) {
       return {
         status: 'ERROR',
         code: 'DB_ERROR',
-        message: 'currency is required and must be non-empty.',
+        message: 'currency must be non-empty when provided.',
       };
     }
 
-    if (typeof input.grossAmount !== 'number' || input.grossAmount <= 0) {
+    if (input.grossAmount != null && (typeof input.grossAmount !== 'number' || input.grossAmount <= 0)) {
       return {
         status: 'ERROR',
         code: 'DB_ERROR',
@@ -419,6 +474,65 @@ export class TradeService {
     return null;
   }
 
+  /**
+   * TECS-RFQ-QUOTE-001: resolve the trade's commercial terms.
+   * With an ACCEPTED quote, the quote total and currency are authoritative and any
+   * caller-supplied value must agree. Without one, the caller must supply both
+   * (pre-quote behaviour, retained for RFQs negotiated outside the quote thread).
+   */
+  private async resolveRfqTradeCommercialTerms(
+    input: TradeCreateFromRfqInput,
+  ): Promise<RfqTradeCommercialTerms | Extract<TradeCreateFromRfqResult, { status: 'ERROR' }>> {
+    const acceptedRow = await this.db.rfqQuote.findFirst({
+      where: { rfqId: input.rfqId, status: 'ACCEPTED' },
+      select: RFQ_QUOTE_SELECT,
+    });
+
+    if (acceptedRow) {
+      const accepted = toRfqQuoteRecord(acceptedRow);
+      const grossAmount = computeRfqQuoteTotal(accepted);
+
+      if (input.currency != null && input.currency.trim().toUpperCase() !== accepted.currency) {
+        return {
+          status: 'ERROR',
+          code: 'QUOTE_TERMS_MISMATCH',
+          message: `currency ${input.currency.trim()} does not match the accepted quote currency ${accepted.currency}.`,
+        };
+      }
+
+      if (input.grossAmount != null && Math.abs(input.grossAmount - grossAmount) >= 0.005) {
+        return {
+          status: 'ERROR',
+          code: 'QUOTE_TERMS_MISMATCH',
+          message: `grossAmount ${input.grossAmount} does not match the accepted quote total ${grossAmount}.`,
+        };
+      }
+
+      return {
+        currency: accepted.currency,
+        grossAmount,
+        acceptedQuoteId: accepted.id,
+        acceptedQuoteRevision: accepted.revision,
+      };
+    }
+
+    if (input.currency == null || input.grossAmount == null) {
+      return {
+        status: 'ERROR',
+        code: 'RFQ_NOT_ELIGIBLE',
+        message:
+          `RFQ ${input.rfqId} has no accepted quote. Accept a supplier quote, or supply currency and grossAmount explicitly.`,
+      };
+    }
+
+    return {
+      currency: input.currency.trim(),
+      grossAmount: input.grossAmount,
+      acceptedQuoteId: null,
+      acceptedQuoteRevision: null,
+    };
+  }
+
   private async resolveDraftTradeStateId(): Promise<string | null> {
     const draftState = await this.db.lifecycleState.findFirst({
       where: { entityType: 'TRADE', stateKey: 'DRAFT' },
@@ -498,7 +612,7 @@ export class TradeService {
   private async validateTradeConversionPreconditions(
     input: TradeCreateFromRfqInput,
   ): Promise<
-    | { status: 'OK'; draftStateId: string; rfq: RfqTradeConversionRow }
+    | { status: 'OK'; draftStateId: string; rfq: RfqTradeConversionRow; terms: RfqTradeCommercialTerms }
     | Extract<TradeCreateFromRfqResult, { status: 'ERROR' }>
   > {
     const draftStateId = await this.resolveDraftTradeStateId();
@@ -540,7 +654,12 @@ export class TradeService {
       };
     }
 
-    return { status: 'OK', draftStateId, rfq };
+    const terms = await this.resolveRfqTradeCommercialTerms(input);
+    if ('status' in terms) {
+      return terms;
+    }
+
+    return { status: 'OK', draftStateId, rfq, terms };
   }
 
   async prepareTradeFromRfq(
@@ -560,6 +679,7 @@ export class TradeService {
       status: 'READY',
       draftStateId: preconditions.draftStateId,
       rfq: preconditions.rfq,
+      terms: preconditions.terms,
     };
   }
 
@@ -590,6 +710,7 @@ export class TradeService {
     input: TradeCreateFromRfqInput,
     draftStateId: string,
     rfq: RfqTradeConversionRow,
+    terms: RfqTradeCommercialTerms,
   ): Promise<{ id: string; trade_reference: string }> {
     const duplicate = await this.findTradeByRfqLink(db, input.tenantId, input.rfqId);
     if (duplicate.length > 0) {
@@ -619,8 +740,8 @@ export class TradeService {
             CAST(${input.rfqId} AS uuid),
             CAST(${draftStateId} AS uuid),
             ${input.tradeReference.trim()},
-            ${input.currency.trim()},
-            ${input.grossAmount},
+            ${terms.currency},
+            ${terms.grossAmount},
             CAST(${input.reasoningLogId ?? null} AS uuid),
             CAST(${input.createdByUserId ?? null} AS uuid)
           )
@@ -644,8 +765,8 @@ export class TradeService {
             CAST(${rfq.supplierOrgId} AS uuid),
             CAST(${draftStateId} AS uuid),
             ${input.tradeReference.trim()},
-            ${input.currency.trim()},
-            ${input.grossAmount},
+            ${terms.currency},
+            ${terms.grossAmount},
             CAST(${input.reasoningLogId ?? null} AS uuid),
             CAST(${input.createdByUserId ?? null} AS uuid)
           )
@@ -654,6 +775,11 @@ export class TradeService {
 
     const trade = inserted[0];
 
+    const fxSnapshot = await this.takeFxSnapshot(terms.currency);
+    if (fxSnapshot) {
+      await db.trade.update({ where: { id: trade.id }, data: toTradeFxColumns(fxSnapshot) });
+    }
+
     await db.tradeEvent.create({
       data: {
         tenantId: input.tenantId,
@@ -661,12 +787,15 @@ export class TradeService {
         eventType: 'TRADE_CREATED_FROM_RFQ',
         metadata: {
           tradeReference: trade.trade_reference,
-          grossAmount: input.grossAmount,
-          currency: input.currency.trim(),
+          grossAmount: terms.grossAmount,
+          currency: terms.currency,
           reason: input.reason,
           rfqId: input.rfqId,
           buyerOrgId: rfq.orgId,
           sellerOrgId: rfq.supplierOrgId,
+          acceptedQuoteId: terms.acceptedQuoteId,
+          acceptedQuoteRevision: terms.acceptedQuoteRevision,
+          ...toTradeFxEventMetadata(fxSnapshot),
         },
         createdByUserId: input.createdByUserId ?? null,
       },
@@ -682,7 +811,7 @@ export class TradeService {
     try {
       const created = await this.db.$transaction(async tx => {
         const txDb = tx as unknown as PrismaClient;
-        return this.insertTradeFromRfq(txDb, input, prepared.draftStateId, prepared.rfq);
+        return this.insertTradeFromRfq(txDb, input, prepared.draftStateId, prepared.rfq, prepared.terms);
       });
 
       return {
@@ -690,6 +819,9 @@ export class TradeService {
         tradeId: created.id,
         tradeReference: created.trade_reference,
         rfqId: input.rfqId,
+        currency: prepared.terms.currency,
+        grossAmount: prepared.terms.grossAmount,
+        acceptedQuoteId: prepared.terms.acceptedQuoteId,
       };
     } catch (err) {
       if (err instanceof RfqAlreadyConvertedError) {
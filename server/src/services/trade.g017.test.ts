@@ -19,6 +19,7 @@ import { GovError } from './escalation.types.js';
 interface MockDb {
   lifecycleState: { findFirst: Mock };
   rfq: { findFirst: Mock };
+  rfqQuote: { findFirst: Mock };
   trade: { findFirst: Mock; create: Mock; update: Mock };
   tradeEvent: { create: Mock };
   $queryRaw: Mock;
@@ -35,6 +36,10 @@ function makeDb(): MockDb {
     rfq: {
       findFirst: vi.fn(),
     },
+    rfqQuote: {
+      // default: no accepted quote — caller-supplied amount/currency path
+      findFirst: vi.fn().mockResolvedValue(null),
+    },
     trade: {
       findFirst: vi.fn(),
       create: vi.fn(),
@@ -38,7 +38,9 @@ export type TradeServiceErrorCode =
   /** The trade already has an escrow linked. */
   | 'ESCROW_ALREADY_LINKED'
   /** The RFQ conversion path is missing required request data. */
-  | 'REASON_REQUIRED';
+  | 'REASON_REQUIRED'
+  /** TECS-RFQ-QUOTE-001: caller-supplied amount/currency contradicts the accepted quote. */
+  | 'QUOTE_TERMS_MISMATCH';
 
 // ─── Create Trade ─────────────────────────────────────────────────────────────
 
@@ -78,10 +80,16 @@ export type TradeCreateFromRfqInput = {
   rfqId: string;
   /** Human-readable external reference. Must be unique per tenant. */
   tradeReference: string;
-  /** ISO 4217 currency code. */
-  currency: string;
-  /** Must be > 0. Stored as NUMERIC(18,6). */
-  grossAmount: number;
+  /**
+   * ISO 4217 currency code. TECS-RFQ-QUOTE-001: optional when the RFQ has an
+   * ACCEPTED quote — the quote is authoritative and a differing value is rejected.
+   */
+  currency?: string | null;
+  /**
+   * Must be > 0. Stored as NUMERIC(18,6). TECS-RFQ-QUOTE-001: optional when the RFQ
+   * has an ACCEPTED quote — the amount is the accepted quote total.
+   */
+  grossAmount?: number | null;
   /** Mandatory justification for why this RFQ is being converted. */
   reason: string;
   /** G-023: Optional link to an AI reasoning_logs row. */
@@ -91,7 +99,16 @@ export type TradeCreateFromRfqInput = {
 };
 
 export type TradeCreateFromRfqResult =
-  | { status: 'CREATED'; tradeId: string; tradeReference: string; rfqId: string }
+  | {
+      status: 'CREATED';
+      tradeId: string;
+      tradeReference: string;
+      rfqId: string;
+      currency: string;
+      grossAmount: number;
+      /** TECS-RFQ-QUOTE-001: accepted quote the commercial terms came from, if any. */
+      acceptedQuoteId: string | null;
+    }
   | { status: 'ERROR'; code: TradeServiceErrorCode; message: string };
 
 export type TradeCreateEscrowInput = {
@@ -9,7 +9,8 @@
  * Exported from vectorIngestion.ts via re-export for full backward compatibility.
  *
  * CONSTITUTIONAL CONSTRAINTS:
- *   - Embedding model pinned: text-embedding-004 (ADR-028 §5.1, dim = 768)
+ *   - Embedding model pinned per provider: text-embedding-004 on Gemini (ADR-028 §5.1,
+ *     dim = 768); other providers must also produce 768-dim vectors
  *   - Output length validated against EMBEDDING_DIM before return
  *   - Retries once on transient failure — throws after exhaustion
  *   - Chunk content is never logged (PII prevention)
@@ -17,72 +18,78 @@
  * @module vectorEmbeddingClient
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '../config/index.js';
+import type { GoogleGenerativeAI } from '@google/generative-ai';
 import { EMBEDDING_DIM } from '../lib/vectorStore.js';
+import { GEMINI_EMBEDDING_MODEL, GeminiProvider } from './ai/providers/geminiProvider.js';
+import { resolveAiProvider } from './ai/providers/aiProviderFactory.js';
+import type { AiProvider } from './ai/providers/types.js';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
-/** Embedding model, pinned per ADR-028 §5.1 and §6. */
-export const EMBEDDING_MODEL = 'text-embedding-004' as const;
+/** Gemini embedding model, pinned per ADR-028 §5.1 and §6. */
+export const EMBEDDING_MODEL = GEMINI_EMBEDDING_MODEL;
 
-/** Max retry attempts on transient Gemini failure. */
+/** Max retry attempts on transient provider failure. */
 const EMBEDDING_MAX_RETRIES = 1 as const;
 
-// ─── Lazy Gemini client ───────────────────────────────────────────────────────
+// ─── Test override ────────────────────────────────────────────────────────────
 
 let _genAI: GoogleGenerativeAI | null = null;
 
-function getGenAI(): GoogleGenerativeAI {
-  if (!_genAI) {
-    _genAI = new GoogleGenerativeAI(config.GEMINI_API_KEY);
-  }
-  return _genAI;
-}
-
 /**
- * Override the Gemini client for tests. Pass `null` to reset to lazy default.
+ * Override the Gemini client for tests. Pass `null` to reset to the configured
+ * embedding provider (AI_PROVIDER / AI_PROVIDER_TASK_OVERRIDES 'embedding').
  * MUST be called in beforeEach / afterEach to avoid cross-test pollution.
  */
 export function _overrideGenAIForTests(instance: GoogleGenerativeAI | null): void {
   _genAI = instance;
 }
 
+function getEmbeddingProvider(genAIClient?: GoogleGenerativeAI): AiProvider {
+  const client = genAIClient ?? _genAI;
+  if (client) {
+    return new GeminiProvider(client);
+  }
+  const provider = resolveAiProvider('embedding');
+  if (!provider) {
+    throw new Error('[G028-A6] No embedding provider configured (AI_PROVIDER / GEMINI_API_KEY)');
+  }
+  return provider;
+}
+
 // ─── generateEmbedding ────────────────────────────────────────────────────────
 
 /**
- * Generate a 768-dimensional embedding using Gemini text-embedding-004.
+ * Generate a 768-dimensional embedding with the configured embedding provider
+ * (Gemini text-embedding-004 by default).
  *
- * - Validates output dimension === EMBEDDING_DIM (fail-fast if Gemini changes).
+ * - Validates output dimension === EMBEDDING_DIM (fail-fast if the model changes).
  * - Retries once on transient failure (TECS A4 §5, A6 §6).
  * - Throws on persistent failure — callers must catch.
  *
  * @param text        Content to embed (should be ≤ MAX_CHUNK_LENGTH chars for quality).
- * @param genAIClient Optional override for dependency injection in tests.
+ * @param genAIClient Optional Gemini client override for dependency injection in tests.
  * @returns           Float array of length EMBEDDING_DIM (768).
  */
 export async function generateEmbedding(
   text: string,
   genAIClient?: GoogleGenerativeAI,
 ): Promise<number[]> {
-  const client = genAIClient ?? getGenAI();
-  const model = client.getGenerativeModel({ model: EMBEDDING_MODEL });
+  const provider = getEmbeddingProvider(genAIClient);
 
   let lastError: unknown;
 
   for (let attempt = 0; attempt <= EMBEDDING_MAX_RETRIES; attempt++) {
     try {
-      const result = await model.embedContent(text);
-      const values = result.embedding.values;
+      const values = await provider.embed(text);
 
-      if (!values || values.length !== EMBEDDING_DIM) {
+      if (values.length !== EMBEDDING_DIM) {
         throw new Error(
-          `[G028-A6] Embedding dimension mismatch: expected ${EMBEDDING_DIM}, got ${values?.length ?? 0}`,
+          `[G028-A6] Embedding dimension mismatch: expected ${EMBEDDING_DIM}, got ${values.length}`,
         );
       }
 
-      // Spread Float32Array (or number[]) into plain number[]
-      return Array.from(values);
+      return values;
     } catch (err) {
       lastError = err;
       if (attempt < EMBEDDING_MAX_RETRIES) {
@@ -1,12 +1,12 @@
 /**
  * vectorIndexQueue.g028.a6.test.ts — G-028 A6: Async indexing pipeline tests
  *
- * Task ID: OPS-G028-A6-SOURCE-EXPANSION-ASYNC-INDEXING
+ * Task IDs: OPS-G028-A6-SOURCE-EXPANSION-ASYNC-INDEXING, OPS-BACKGROUND-JOB-QUEUE-001
  * Doctrine: v1.4 — unit-first, mocked dependencies, no real DB / Gemini
  *
  * Coverage:
- *   A6-TEST-01  Queue processing — job enqueued → processed → runner called
- *   A6-TEST-02  Rate limiting — processVectorIndexQueue respects JOBS_PER_SECOND
+ *   A6-TEST-01  Durable enqueue — jobs persisted as 'vector.index' background_jobs rows
+ *   A6-TEST-02  Job handler — tenant-scoped dispatch, orgId from job row, retry semantics
  *   A6-TEST-03  Reindex — reindexSource() deletes embeddings then enqueues re-ingest
  *   A6-TEST-04  Chunking determinism — same input text → identical chunk hashes
  *
@@ -14,7 +14,8 @@
  *   pnpm -C server exec vitest run src/services/vectorIndexQueue.g028.a6.test.ts
  */
 
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Prisma } from '@prisma/client';
 
 // ── Mock config (avoid Zod env-parse failure) ─────────────────────────────────
 vi.mock('../config/index.js', () => ({
@@ -24,9 +25,20 @@ vi.mock('../config/index.js', () => ({
   },
 }));
 
-// ── Mock prisma ───────────────────────────────────────────────────────────────
+// ── Mock prisma: background_jobs writes are recorded in memory ────────────────
+const { createdJobs, backgroundJobCreate } = vi.hoisted(() => {
+  const createdJobs: Array<Record<string, unknown>> = [];
+  const backgroundJobCreate = vi.fn();
+  return { createdJobs, backgroundJobCreate };
+});
+
 vi.mock('../db/prisma.js', () => ({
-  prisma: {},
+  prisma: {
+    backgroundJob: {
+      create:    backgroundJobCreate,
+      findFirst: vi.fn().mockResolvedValue(null),
+    },
+  },
 }));
 
 // ── Mock database-context: withDbContext calls the callback with a mock tx ────
@@ -51,16 +63,14 @@ vi.mock('../lib/vectorStore.js', async () => {
 // ── Imports (after mocks) ─────────────────────────────────────────────────────
 import {
   enqueueVectorIndexJob,
-  processVectorIndexQueue,
-  startVectorIndexWorker,
-  QUEUE_SIZE_MAX,
-  JOBS_PER_SECOND,
-  _getQueueSizeForTests,
-  _clearQueueForTests,
-  _stopWorkerForTests,
-  _peekQueueForTests,
+  VECTOR_INDEX_JOB_TYPE,
+  VECTOR_INDEX_MAX_ATTEMPTS,
 } from './vectorIndexQueue.js';
-import type { VectorIndexJob, JobRunner } from './vectorIndexQueue.js';
+import type { VectorIndexJob } from './vectorIndexQueue.js';
+import { enqueueSourceDeletion, enqueueSourceIngestion, MAX_DOC_SIZE } from './vectorIngestion.js';
+import { NonRetryableJobError } from './jobQueue/jobQueue.service.js';
+import type { JobHandlerContext } from './jobQueue/jobQueue.types.js';
+import { vectorIndexJobHandler } from '../workers/vectorWorker.js';
 
 import { chunkText } from './vectorChunker.js';
 import { withDbContext } from '../lib/database-context.js';
@@ -69,11 +79,12 @@ import { deleteBySource } from '../lib/vectorStore.js';
 // ─── Fixtures ─────────────────────────────────────────────────────────────────
 
 const ORG_A   = 'aaaaaaaa-0000-0000-0000-000000000001';
+const ORG_B   = 'aaaaaaaa-0000-0000-0000-000000000099';
 const ITEM_ID = 'bbbbbbbb-0000-0000-0000-000000000002';
 const CERT_ID = 'cccccccc-0000-0000-0000-000000000003';
 const SAMPLE_TEXT = 'A short catalog item description for embedding.';
 
-function makeJob(overrides: Partial<Omit<VectorIndexJob, '_jobId' | '_enqueuedAt'>> = {}) {
+function makeJob(overrides: Partial<VectorIndexJob> = {}): VectorIndexJob {
   return {
     orgId:       ORG_A,
     sourceType:  'CATALOG_ITEM',
@@ -83,13 +94,31 @@ function makeJob(overrides: Partial<Omit<VectorIndexJob, '_jobId' | '_enqueuedAt
   };
 }
 
+/** Handlers only pass the tx through to the mocked vector store. */
+const HANDLER_TX = {} as Prisma.TransactionClient;
+
+function makeHandlerCtx(orgId: string | null = ORG_A): JobHandlerContext {
+  return {
+    jobId:       'job-1',
+    jobType:     VECTOR_INDEX_JOB_TYPE,
+    orgId,
+    attempt:     1,
+    maxAttempts: VECTOR_INDEX_MAX_ATTEMPTS,
+    requestId:   'req-1',
+  };
+}
+
 // ─── Cleanup ──────────────────────────────────────────────────────────────────
 
 beforeEach(() => {
-  _clearQueueForTests();
-  _stopWorkerForTests();
+  createdJobs.length = 0;
   vi.clearAllMocks();
   // Re-apply default impls after clearAllMocks (mocks are cleared but still vi.fn())
+  backgroundJobCreate.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => {
+    const row = { id: `job-${createdJobs.length + 1}`, status: 'PENDING', attempts: 0, ...data };
+    createdJobs.push(row);
+    return row;
+  });
   vi.mocked(withDbContext).mockImplementation(
     async (_prisma: unknown, _ctx: unknown, cb: (tx: unknown) => Promise<unknown>) =>
       cb({}),
@@ -97,158 +126,117 @@ beforeEach(() => {
   vi.mocked(deleteBySource).mockResolvedValue({ deleted: 0 });
 });
 
-afterEach(() => {
-  _clearQueueForTests();
-  _stopWorkerForTests();
-});
-
-// ─── A6-TEST-01: Queue processing ────────────────────────────────────────────
+// ─── A6-TEST-01: Durable enqueue ─────────────────────────────────────────────
 
-describe('A6-TEST-01: Queue processing', () => {
-  it('enqueued job is processed by processVectorIndexQueue and runner is called', async () => {
-    // Arrange: create a mock runner
-    const runner: JobRunner = vi.fn().mockResolvedValue(undefined);
+describe('A6-TEST-01: Durable enqueue', () => {
+  it('persists a vector.index job row and returns its id', async () => {
+    const result = await enqueueVectorIndexJob(makeJob());
 
-    // Act: enqueue one job
-    const enqueueResult = enqueueVectorIndexJob(makeJob());
-    expect(enqueueResult.accepted).toBe(true);
-    expect(_getQueueSizeForTests()).toBe(1);
+    expect(result).toEqual({ accepted: true, jobId: 'job-1' });
+    expect(createdJobs).toHaveLength(1);
+    expect(createdJobs[0].jobType).toBe(VECTOR_INDEX_JOB_TYPE);
+    expect(createdJobs[0].maxAttempts).toBe(VECTOR_INDEX_MAX_ATTEMPTS);
+  });
 
-    // Process the queue
-    const result = await processVectorIndexQueue(runner);
+  it('stores orgId on the job row, not in the payload', async () => {
+    await enqueueVectorIndexJob(
+      makeJob({ sourceType: 'CERTIFICATION', sourceId: CERT_ID, textContent: 'ISO 9001' }),
+    );
 
-    // Assert: runner called once with the job, queue now empty
-    expect(runner).toHaveBeenCalledTimes(1);
-    expect(result.attempted).toBe(1);
-    expect(result.succeeded).toBe(1);
-    expect(result.failed).toBe(0);
-    expect(result.remaining).toBe(0);
-    expect(_getQueueSizeForTests()).toBe(0);
+    expect(createdJobs[0].orgId).toBe(ORG_A);
+    expect(createdJobs[0].payload).toEqual({
+      sourceType:  'CERTIFICATION',
+      sourceId:    CERT_ID,
+      textContent: 'ISO 9001',
+    });
   });
 
-  it('runner receives correct job fields (orgId, sourceType, sourceId, textContent)', async () => {
-    const runner: JobRunner = vi.fn().mockResolvedValue(undefined);
-    const job = makeJob({ sourceType: 'CERTIFICATION', sourceId: CERT_ID, textContent: 'ISO 9001' });
-    enqueueVectorIndexJob(job);
+  it('writes through the supplied client (e.g. a tenant transaction)', async () => {
+    const txCreate = vi.fn().mockResolvedValue({ id: 'tx-job' });
+    const tx = { backgroundJob: { create: txCreate, findFirst: vi.fn() } };
 
-    await processVectorIndexQueue(runner);
+    const result = await enqueueVectorIndexJob(makeJob(), tx as never);
 
-    const calledWith = (runner as ReturnType<typeof vi.fn>).mock.calls[0][0] as VectorIndexJob;
-    expect(calledWith.orgId).toBe(ORG_A);
-    expect(calledWith.sourceType).toBe('CERTIFICATION');
-    expect(calledWith.sourceId).toBe(CERT_ID);
-    expect(calledWith.textContent).toBe('ISO 9001');
-    expect(calledWith._jobId).toBeTruthy();  // UUID assigned by enqueue
-    expect(calledWith._enqueuedAt).toBeGreaterThan(0);
+    expect(result).toEqual({ accepted: true, jobId: 'tx-job' });
+    expect(txCreate).toHaveBeenCalledTimes(1);
+    expect(backgroundJobCreate).not.toHaveBeenCalled();
   });
 
-  it('runner error is isolated — other jobs in the batch still succeed', async () => {
-    let callCount = 0;
-    const runner: JobRunner = vi.fn().mockImplementation(async () => {
-      callCount++;
-      if (callCount === 2) throw new Error('Simulated runner failure');
-    });
-
-    // Enqueue 3 jobs
-    enqueueVectorIndexJob(makeJob({ sourceId: 'aaa00000-0000-0000-0000-000000000001' }));
-    enqueueVectorIndexJob(makeJob({ sourceId: 'bbb00000-0000-0000-0000-000000000002' }));
-    enqueueVectorIndexJob(makeJob({ sourceId: 'ccc00000-0000-0000-0000-000000000003' }));
+  it('returns ENQUEUE_FAILED instead of throwing when the row cannot be written', async () => {
+    backgroundJobCreate.mockRejectedValueOnce(new Error('connection refused'));
 
-    const result = await processVectorIndexQueue(runner);
+    const result = await enqueueVectorIndexJob(makeJob());
 
-    expect(result.attempted).toBe(3);
-    expect(result.succeeded).toBe(2);
-    expect(result.failed).toBe(1);
-    expect(runner).toHaveBeenCalledTimes(3); // all three attempted
+    expect(result).toEqual({ accepted: false, reason: 'ENQUEUE_FAILED' });
   });
 
-  it('empty queue: processVectorIndexQueue returns zero counts immediately', async () => {
-    const runner: JobRunner = vi.fn();
-    const result = await processVectorIndexQueue(runner);
+  it('enqueueSourceIngestion rejects oversized documents without writing a job', async () => {
+    const result = await enqueueSourceIngestion(ORG_A, 'CATALOG_ITEM', ITEM_ID, 'x'.repeat(MAX_DOC_SIZE + 1));
 
-    expect(result.attempted).toBe(0);
-    expect(result.succeeded).toBe(0);
-    expect(result.failed).toBe(0);
-    expect(runner).not.toHaveBeenCalled();
+    expect(result).toEqual({ accepted: false, reason: 'DOC_TOO_LARGE' });
+    expect(backgroundJobCreate).not.toHaveBeenCalled();
   });
 
-  it('enqueue returns accepted:false with reason QUEUE_FULL when queue is at capacity', () => {
-    // Fill the queue to the limit using internal manipulation
-    for (let i = 0; i < QUEUE_SIZE_MAX; i++) {
-      const r = enqueueVectorIndexJob(makeJob({ sourceId: `cccccccc-0000-0000-0000-${String(i).padStart(12, '0')}` }));
-      // Break early if rejected (in case of off-by-one in constant)
-      if (!r.accepted) break;
-    }
-    expect(_getQueueSizeForTests()).toBe(QUEUE_SIZE_MAX);
+  it('enqueueSourceDeletion persists a delete job without text', async () => {
+    const result = await enqueueSourceDeletion(ORG_A, 'CATALOG_ITEM', ITEM_ID);
 
-    const result = enqueueVectorIndexJob(makeJob({ sourceId: 'dddddddd-0000-0000-0000-000000000999' }));
-    expect(result.accepted).toBe(false);
-    if (!result.accepted) {
-      expect(result.reason).toBe('QUEUE_FULL');
-    }
+    expect(result.accepted).toBe(true);
+    expect(createdJobs[0].payload).toEqual({
+      operation:  'delete',
+      sourceType: 'CATALOG_ITEM',
+      sourceId:   ITEM_ID,
+    });
   });
 });
 
-// ─── A6-TEST-02: Rate limiting ────────────────────────────────────────────────
-
-describe('A6-TEST-02: Rate limiting — JOBS_PER_SECOND', () => {
-  it(`processes exactly JOBS_PER_SECOND (${JOBS_PER_SECOND}) jobs per processVectorIndexQueue() call`, async () => {
-    const totalJobs = JOBS_PER_SECOND + 3;
-    const runner: JobRunner = vi.fn().mockResolvedValue(undefined);
+// ─── A6-TEST-02: Job handler ──────────────────────────────────────────────────
 
-    // Enqueue more than JOBS_PER_SECOND jobs
-    for (let i = 0; i < totalJobs; i++) {
-      enqueueVectorIndexJob(
-        makeJob({ sourceId: `aaaaaaaa-0000-0000-0000-${String(i).padStart(12, '0')}` }),
-      );
-    }
-    expect(_getQueueSizeForTests()).toBe(totalJobs);
+describe('A6-TEST-02: vector.index job handler', () => {
+  it('is tenant-scoped, runs one job per org at a time and clears payloads on success', () => {
+    expect(vectorIndexJobHandler.jobType).toBe(VECTOR_INDEX_JOB_TYPE);
+    expect(vectorIndexJobHandler.scope).toBe('tenant');
+    expect(vectorIndexJobHandler.perOrgConcurrency).toBe(1);
+    expect(vectorIndexJobHandler.clearPayloadOnSuccess).toBe(true);
+  });
 
-    // Single process tick
-    const result = await processVectorIndexQueue(runner);
+  it('delete job removes chunks for the org from the job context', async () => {
+    await vectorIndexJobHandler.handle(
+      HANDLER_TX,
+      { operation: 'delete', sourceType: 'CATALOG_ITEM', sourceId: ITEM_ID },
+      makeHandlerCtx(ORG_B),
+    );
 
-    expect(result.attempted).toBe(JOBS_PER_SECOND);
-    expect(runner).toHaveBeenCalledTimes(JOBS_PER_SECOND);
-    expect(result.remaining).toBe(totalJobs - JOBS_PER_SECOND);
-    expect(_getQueueSizeForTests()).toBe(totalJobs - JOBS_PER_SECOND);
+    expect(deleteBySource).toHaveBeenCalledWith(HANDLER_TX, ORG_B, 'CATALOG_ITEM', ITEM_ID);
   });
 
-  it('running a second tick processes the next batch', async () => {
-    const totalJobs = JOBS_PER_SECOND * 2;
-    const runner: JobRunner = vi.fn().mockResolvedValue(undefined);
-
-    for (let i = 0; i < totalJobs; i++) {
-      enqueueVectorIndexJob(
-        makeJob({ sourceId: `bbbbbbbb-0000-0000-0000-${String(i).padStart(12, '0')}` }),
-      );
-    }
+  it('ignores an orgId smuggled into the payload', async () => {
+    const payload = { operation: 'delete', sourceType: 'CATALOG_ITEM', sourceId: ITEM_ID, orgId: ORG_B };
 
-    // Tick 1
-    const tick1 = await processVectorIndexQueue(runner);
-    expect(tick1.attempted).toBe(JOBS_PER_SECOND);
+    await vectorIndexJobHandler.handle(HANDLER_TX, payload as never, makeHandlerCtx(ORG_A));
 
-    // Tick 2
-    const tick2 = await processVectorIndexQueue(runner);
-    expect(tick2.attempted).toBe(JOBS_PER_SECOND);
-    expect(tick2.remaining).toBe(0);
-    expect(runner).toHaveBeenCalledTimes(totalJobs);
+    expect(deleteBySource).toHaveBeenCalledWith(expect.anything(), ORG_A, 'CATALOG_ITEM', ITEM_ID);
   });
 
-  it('startVectorIndexWorker returns a stop() function', () => {
-    const runner: JobRunner = vi.fn().mockResolvedValue(undefined);
-    const handle = startVectorIndexWorker(runner);
-    expect(handle).toHaveProperty('stop');
-    expect(typeof handle.stop).toBe('function');
-    handle.stop(); // clean up
+  it('oversized upsert throws NonRetryableJobError so the job is dead-lettered', async () => {
+    await expect(
+      vectorIndexJobHandler.handle(
+        HANDLER_TX,
+        { operation: 'upsert', sourceType: 'CATALOG_ITEM', sourceId: ITEM_ID, textContent: 'x'.repeat(MAX_DOC_SIZE + 1) },
+        makeHandlerCtx(),
+      ),
+    ).rejects.toBeInstanceOf(NonRetryableJobError);
   });
 
-  it('calling startVectorIndexWorker twice returns the same stop function (idempotent)', () => {
-    const runner: JobRunner = vi.fn().mockResolvedValue(undefined);
-    const handle1 = startVectorIndexWorker(runner);
-    const handle2 = startVectorIndexWorker(runner);
-    // Both should be valid handles — stop the worker
-    handle1.stop();
-    handle2.stop();
+  it('delete failures propagate so the job is retried', async () => {
+    vi.mocked(deleteBySource).mockRejectedValueOnce(new Error('deadlock detected'));
+
+    await expect(
+      vectorIndexJobHandler.handle(
+        HANDLER_TX,
+        { operation: 'delete', sourceType: 'CATALOG_ITEM', sourceId: ITEM_ID },
+        makeHandlerCtx(),
+      ),
+    ).rejects.toThrow('deadlock detected');
   });
 });
 
@@ -277,13 +265,14 @@ describe('A6-TEST-03: Reindex — reindexSource deletes then enqueues', () => {
     expect(result.enqueued).toBe(true);
     expect(result.jobId).toBeTruthy();
 
-    // Assert 4: the job is in the queue
-    expect(_getQueueSizeForTests()).toBe(1);
-    const peeked = _peekQueueForTests(1)[0];
-    expect(peeked.orgId).toBe(ORG_A);
-    expect(peeked.sourceType).toBe('CATALOG_ITEM');
-    expect(peeked.sourceId).toBe(ITEM_ID);
-    expect(peeked.textContent).toBe('Fresh text');
+    // Assert 4: the job row was persisted
+    expect(createdJobs).toHaveLength(1);
+    expect(createdJobs[0].orgId).toBe(ORG_A);
+    expect(createdJobs[0].payload).toMatchObject({
+      sourceType:  'CATALOG_ITEM',
+      sourceId:    ITEM_ID,
+      textContent: 'Fresh text',
+    });
   });
 
   it('reindexSource returns DELETE_FAILED and does not enqueue when deleteBySource throws', async () => {
@@ -296,8 +285,19 @@ describe('A6-TEST-03: Reindex — reindexSource deletes then enqueues', () => {
     expect(result.enqueued).toBe(false);
     expect(result.reason).toBe('DELETE_FAILED');
 
-    // Queue must remain empty — no re-ingest enqueued after failed delete
-    expect(_getQueueSizeForTests()).toBe(0);
+    // No re-ingest enqueued after failed delete
+    expect(createdJobs).toHaveLength(0);
+  });
+
+  it('reindexSource returns ENQUEUE_FAILED when the job row cannot be written', async () => {
+    backgroundJobCreate.mockRejectedValueOnce(new Error('connection refused'));
+
+    const { reindexSource } = await import('./vectorReindexService.js');
+    const result = await reindexSource(ORG_A, 'CATALOG_ITEM', ITEM_ID, 'text');
+
+    expect(result.deleted).toBe(true);
+    expect(result.enqueued).toBe(false);
+    expect(result.reason).toBe('ENQUEUE_FAILED');
   });
 
   it('reindexTenant enqueues all items and returns counts', async () => {
@@ -314,7 +314,7 @@ describe('A6-TEST-03: Reindex — reindexSource deletes then enqueues', () => {
     expect(result.enqueued).toBe(2);
     expect(result.rejected).toBe(0);
     expect(result.deleteErrors).toBe(0);
-    expect(_getQueueSizeForTests()).toBe(2);
+    expect(createdJobs).toHaveLength(2);
   });
 });
 
@@ -14,14 +14,17 @@
  *   ingestDppSnapshot()    — DPP snapshot adapter (traceabilityText)   [A6]
  *   ingestSupplierProfile()— Supplier profile adapter (capabilities)   [A6]
  *
- * Provides (async — queue-based, A6):
- *   enqueueSourceIngestion() — enqueue job for async worker (non-blocking)
+ * Provides (async — durable job queue, A6):
+ *   enqueueSourceIngestion() — persist an upsert job for the background worker
+ *   enqueueSourceDeletion()  — persist a delete job for the background worker
+ *   executeVectorIndexJob()  — job handler dispatch (upsert | delete)
  *
  * CONSTITUTIONAL CONSTRAINTS:
  *   - All DB writes run under RLS (tx from withDbContext — no BYPASSRLS)
  *   - orgId MUST come from req.dbContext.orgId (JWT-derived, never request body)
  *   - Chunk content is NEVER logged (PII prevention)
  *   - Ingestion errors are caught and returned as error results — never thrown
+ *     (except by executeVectorIndexJob, which throws so the job queue can retry)
  *
  * ADR-028 §5.1: EMBEDDING_DIM = 768 (text-embedding-004 default) — LOCKED.
  *
@@ -30,6 +33,7 @@
 
 import { upsertDocumentEmbeddings, deleteBySource } from '../lib/vectorStore.js';
 import type { VectorStoreClient, DocumentChunkInput } from '../lib/vectorStore.js';
+import { NonRetryableJobError } from './jobQueue/jobQueue.service.js';
 import { enqueueVectorIndexJob } from './vectorIndexQueue.js';
 import type { EnqueueResult, VectorIndexJob } from './vectorIndexQueue.js';
 
@@ -81,14 +85,14 @@ export interface IngestionError {
 export interface EnqueueIngestionResult {
   accepted: boolean;
   jobId?: string;
-  reason?: 'QUEUE_FULL' | 'DOC_TOO_LARGE';
+  reason?: 'ENQUEUE_FAILED' | 'DOC_TOO_LARGE';
 }
 
 /** Result of enqueueSourceDeletion(). */
 export interface EnqueueDeletionResult {
   accepted: boolean;
   jobId?: string;
-  reason?: 'QUEUE_FULL';
+  reason?: 'ENQUEUE_FAILED';
 }
 
 // ─── ingestSourceText ─────────────────────────────────────────────────────────
@@ -372,13 +376,13 @@ export async function ingestSupplierProfile(
  * Enqueue a source document for async embedding (non-blocking).
  *
  * This is the A6 preferred entry point for new indexing calls on mutation paths.
- * Instead of blocking the request with embedding generation, the job is queued
- * and processed by the background worker (startVectorIndexWorker).
+ * Instead of blocking the request with embedding generation, the job is persisted
+ * and processed by the background job worker (workers/vectorWorker.ts).
  *
  * - Enforces MAX_DOC_SIZE before enqueueing (fast rejection, no Gemini call).
  * - Caller MUST pass orgId from req.dbContext.orgId (JWT-derived).
- * - Returns { accepted: false, reason: 'QUEUE_FULL' } if the queue is full —
- *   the caller should log this but need not fail the HTTP response.
+ * - Returns { accepted: false, reason: 'ENQUEUE_FAILED' } if the job row could not
+ *   be written — the caller should log this but need not fail the HTTP response.
  *
  * @param orgId      JWT-derived org UUID (from req.dbContext.orgId)
  * @param sourceType Domain discriminator
@@ -387,13 +391,13 @@ export async function ingestSupplierProfile(
  * @param metadata   Optional metadata forwarded to each chunk
  * @returns          EnqueueIngestionResult (never throws)
  */
-export function enqueueSourceIngestion(
+export async function enqueueSourceIngestion(
   orgId: string,
   sourceType: string,
   sourceId: string,
   text: string,
   metadata: Record<string, unknown> = {},
-): EnqueueIngestionResult {
+): Promise<EnqueueIngestionResult> {
   // Fast guard: reject oversized docs before they enter the queue
   if (text.length > MAX_DOC_SIZE) {
     console.warn('[G028-A6][enqueue_doc_too_large]', {
@@ -406,7 +410,7 @@ export function enqueueSourceIngestion(
     return { accepted: false, reason: 'DOC_TOO_LARGE' };
   }
 
-  const result: EnqueueResult = enqueueVectorIndexJob({
+  const result: EnqueueResult = await enqueueVectorIndexJob({
     operation:   'upsert',
     orgId,
     sourceType,
@@ -416,7 +420,7 @@ export function enqueueSourceIngestion(
   });
 
   if (!result.accepted) {
-    return { accepted: false, reason: 'QUEUE_FULL' };
+    return { accepted: false, reason: result.reason };
   }
 
   return { accepted: true, jobId: result.jobId };
@@ -433,7 +437,7 @@ export function enqueueSourceIngestion(
  * for (orgId, sourceType, sourceId) when processing this job.
  *
  * - Failure semantics: best-effort, non-blocking (same as ingestion enqueue).
- * - Queue-full is the only rejection reason (no doc-size guard for deletes).
+ * - ENQUEUE_FAILED is the only rejection reason (no doc-size guard for deletes).
  * - MUST be called after the DB transaction commits (post withDbContext()).
  * - orgId MUST come from req.dbContext.orgId — never from request body.
  *
@@ -442,12 +446,12 @@ export function enqueueSourceIngestion(
  * @param sourceId   UUID of the entity whose vector chunks should be removed
  * @returns          EnqueueDeletionResult (never throws)
  */
-export function enqueueSourceDeletion(
+export async function enqueueSourceDeletion(
   orgId: string,
   sourceType: string,
   sourceId: string,
-): EnqueueDeletionResult {
-  const result: EnqueueResult = enqueueVectorIndexJob({
+): Promise<EnqueueDeletionResult> {
+  const result: EnqueueResult = await enqueueVectorIndexJob({
     operation: 'delete',
     orgId,
     sourceType,
@@ -456,7 +460,7 @@ export function enqueueSourceDeletion(
   });
 
   if (!result.accepted) {
-    return { accepted: false, reason: 'QUEUE_FULL' };
+    return { accepted: false, reason: result.reason };
   }
 
   return { accepted: true, jobId: result.jobId };
@@ -478,6 +482,10 @@ export function enqueueSourceDeletion(
  * - operation 'upsert' (or absent — backwards compat):
  *     ingestSourceText(db, orgId, sourceType, sourceId, textContent, metadata)
  *
+ * Unlike ingestSourceText(), ingestion error results are thrown so the job queue
+ * can act on them: EMBED_FAILED / UPSERT_FAILED are retried with backoff;
+ * DOC_TOO_LARGE / TOO_MANY_CHUNKS throw NonRetryableJobError (dead-lettered).
+ *
  * @param db  Prisma transaction client (from withDbContext — RLS active)
  * @param job Dequeued VectorIndexJob with operation discriminator
  */
@@ -496,7 +504,7 @@ export async function executeVectorIndexJob(
   }
 
   // Default: 'upsert' (or operation absent — backwards compatible)
-  await ingestSourceText(
+  const result = await ingestSourceText(
     db,
     job.orgId,
     job.sourceType,
@@ -504,4 +512,12 @@ export async function executeVectorIndexJob(
     job.textContent ?? '',
     job.metadata,
   );
+
+  if ('status' in result) {
+    const message = `${result.code}: ${result.message}`;
+    if (result.code === 'DOC_TOO_LARGE' || result.code === 'TOO_MANY_CHUNKS') {
+      throw new NonRetryableJobError(message);
+    }
+    throw new Error(message);
+  }
 }
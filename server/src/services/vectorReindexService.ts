@@ -5,7 +5,7 @@
  *
  * Provides autonomous reindexing functions that:
  *   1. Delete existing embeddings for a source (under RLS, via withDbContext)
- *   2. Enqueue a fresh ingestion job for the source (via vectorIndexQueue)
+ *   2. Enqueue a fresh ingestion job for the source (via vectorIndexQueue → background_jobs)
  *
  * The delete step is synchronous and happens before enqueueing, avoiding a
  * race condition where the old embeddings remain visible during re-ingestion.
@@ -14,11 +14,12 @@
  *   - All DB operations run under RLS (withDbContext + VECTOR_WORKER_ACTOR sentinel)
  *   - orgId is ALWAYS caller-provided (never derived from the DB)
  *   - No content logged (PII prevention)
- *   - Enqueue may be rejected if queue is full — caller receives the rejection count
+ *   - Enqueue may fail if the job row cannot be written — caller receives the rejection count
  *
  * Known limitations:
- *   - reindexTenant() with many items may approach QUEUE_SIZE_MAX
- *   - Reindex is eventual: embeddings are rebuilt when the worker next ticks
+ *   - reindexTenant() writes one job row per item; the vector job handler runs one
+ *     job per org at a time, so large reindexes drain gradually
+ *   - Reindex is eventual: embeddings are rebuilt when a worker claims the job
  *   - No distributed lock — concurrent reindexes for same sourceId are possible
  *
  * @module vectorReindexService
@@ -58,7 +59,7 @@ export interface ReindexSourceResult {
   deleted: boolean;
   enqueued: boolean;
   jobId?: string;
-  reason?: 'QUEUE_FULL' | 'DELETE_FAILED';
+  reason?: 'ENQUEUE_FAILED' | 'DELETE_FAILED';
 }
 
 /** Result from reindexTenant(). */
@@ -131,7 +132,7 @@ export async function reindexSource(
   }
 
   // ── Step 2: Enqueue fresh ingestion ───────────────────────────────────────
-  const jobPayload: Omit<VectorIndexJob, '_jobId' | '_enqueuedAt'> = {
+  const jobPayload: VectorIndexJob = {
     orgId,
     sourceType,
     sourceId,
@@ -139,7 +140,7 @@ export async function reindexSource(
     metadata,
   };
 
-  const enqueueResult = enqueueVectorIndexJob(jobPayload);
+  const enqueueResult = await enqueueVectorIndexJob(jobPayload);
 
   if (!enqueueResult.accepted) {
     console.warn('[G028-A6][reindex_enqueue_rejected]', {
@@ -155,7 +156,7 @@ export async function reindexSource(
       sourceId,
       deleted: true,
       enqueued: false,
-      reason: 'QUEUE_FULL',
+      reason: 'ENQUEUE_FAILED',
     };
   }
 
@@ -174,11 +175,11 @@ export async function reindexSource(
 /**
  * Reindex all provided items for a tenant.
  *
- * Processes items sequentially (delete-then-enqueue) to avoid queue explosion
- * on large batches. Each item's delete is committed before the next item begins.
+ * Processes items sequentially (delete-then-enqueue). Each item's delete is
+ * committed before the next item begins.
  *
- * If the queue fills up during the batch, remaining items are rejected and
- * counted in the result. The function does NOT throw on partial failure.
+ * Items whose job could not be enqueued are counted as rejected in the result.
+ * The function does NOT throw on partial failure.
  *
  * Use-case: admin-triggered full reindex, DPP compliance sweep, migration.
  *
@@ -208,7 +209,7 @@ export async function reindexTenant(
     } else if (result.enqueued) {
       enqueued++;
     } else {
-      rejected++; // QUEUE_FULL
+      rejected++; // ENQUEUE_FAILED
     }
   }
 
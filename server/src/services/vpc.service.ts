@@ -13,7 +13,7 @@
  *  7. Latest assessment outcome == ELIGIBLE
  *  8. Assessment valid_until is not expired
  *  9. risk_tier >= 1 (VPC_ELIGIBLE_TIERS)
- * 10. Invoice gross_amount <= tier cap
+ * 10. Invoice gross_amount <= tier cap (converted into the cap currency when they differ)
  * 11. Invoice due_date is not null (used as expires_at)
  * 12. No existing non-terminal VPC for this invoice (unique constraint + pre-check)
  *
@@ -21,10 +21,15 @@
  * VPC org_id = seller's org_id (D-017-A tenant boundary)
  * partner_routing_eligible = false always in Slice 5
  *
+ * FX-RATES-001: tier caps are denominated in the assessment currency (default caps: INR).
+ * With an FxRateService injected, a foreign-currency invoice is converted before Gate 10 —
+ * reusing the invoice's creation snapshot when it targets the cap currency — and the
+ * rate reference is returned on the generated record (cap_check) for the audit trail.
+ *
  * Governance: TTP Slice 5, TEXQTIC-TRADETRUST-PAY-DESIGN-001
  */
 
-import type { PrismaClient } from '@prisma/client';
+import type { Prisma, PrismaClient } from '@prisma/client';
 import {
   TTP_VPC_STATE,
   TTP_VPC_TERMINAL_STATES,
@@ -35,6 +40,12 @@ import {
   type TtpRiskTier,
   type TtpVpcState,
 } from '../ttp/ttp.constants.js';
+import {
+  type FxRateReference,
+  type FxRateService,
+  FxRateUnavailableError,
+  invoiceFxSnapshot,
+} from './fx/fxRate.service.js';
 
 // ─── Tier amount caps (INR) ───────────────────────────────────────────────────
 
@@ -97,14 +108,27 @@ export class VpcRiskTierBlockedError extends Error {
 }
 
 export class VpcAmountExceedsCapError extends Error {
-  constructor(amount: string, cap: number, tier: number) {
+  constructor(amount: string, cap: number, tier: number, conversion?: VpcCapCheck) {
     super(
-      `Invoice gross_amount ${amount} exceeds tier ${tier} cap of ${cap}`,
+      `Invoice gross_amount ${amount} exceeds tier ${tier} cap of ${cap}` +
+        (conversion?.fx
+          ? ` ${conversion.cap_currency} (converted ${conversion.amount_in_cap_currency} ${conversion.cap_currency} ` +
+            `at ${conversion.fx.rate}, ${conversion.fx.method}${conversion.fx.fxRateId ? ` fx_rate ${conversion.fx.fxRateId}` : ''})`
+          : ''),
     );
     this.name = 'VpcAmountExceedsCapError';
   }
 }
 
+export class VpcFxRateUnavailableError extends Error {
+  constructor(fromCurrency: string, toCurrency: string, asOf: string) {
+    super(
+      `No FX rate ${fromCurrency}/${toCurrency} on or before ${asOf} — cannot check the invoice against the tier cap`,
+    );
+    this.name = 'VpcFxRateUnavailableError';
+  }
+}
+
 export class VpcDueDateMissingError extends Error {
   constructor() {
     super('Invoice due_date is required for VPC generation (used as expires_at)');
@@ -173,8 +197,26 @@ export interface AdminVpcRecord {
   created_by_admin_id: string | null;
   created_at: string;
   updated_at: string;
+  /** Gate 10 evidence — present on generateVpc results only. */
+  cap_check?: VpcCapCheck;
 }
 
+/** Gate 10 evidence: the invoice amount as compared against the tier cap. */
+export type VpcCapCheck = {
+  cap: number;
+  cap_currency: string;
+  amount_in_cap_currency: string;
+  /** Rate applied when the invoice currency differs from the cap currency; null otherwise. */
+  fx: FxRateReference | null;
+};
+
+/** Invoice row fields read by the Gate 10 cap check. */
+type CapCheckInvoice = Parameters<typeof invoiceFxSnapshot>[0] & {
+  gross_amount?: Prisma.Decimal.Value | null;
+  currency?: string | null;
+  invoice_date?: Date | null;
+};
+
 export interface VpcListFilters {
   org_id?: string;
   invoice_id?: string;
@@ -194,7 +236,53 @@ export interface TransitionVpcInput {
 // ─── Service ──────────────────────────────────────────────────────────────────
 
 export class VpcService {
-  constructor(private readonly db: PrismaClient) {}
+  /**
+   * @param db  PrismaClient (or tx-bound from withDbContext)
+   * @param fx  Optional FxRateService for Gate 10 currency conversion. Without it the
+   *            invoice amount is compared to the cap as-is (pre-FX behaviour).
+   */
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly fx?: FxRateService | null,
+  ) {}
+
+  /**
+   * Gate 10 comparison figure: the invoice amount in the cap currency.
+   * @throws VpcFxRateUnavailableError when a conversion is needed and no rate applies.
+   */
+  private async resolveCapCheck(
+    invoice: CapCheckInvoice,
+    cap: number,
+    capCurrency: string,
+  ): Promise<VpcCapCheck> {
+    const amount = invoice.gross_amount?.toString() ?? '0';
+    const invoiceCurrency = String(invoice.currency ?? '').trim().toUpperCase();
+    if (!this.fx || invoiceCurrency === capCurrency) {
+      return { cap, cap_currency: capCurrency, amount_in_cap_currency: amount, fx: null };
+    }
+
+    const asOf = invoice.invoice_date instanceof Date ? invoice.invoice_date : new Date();
+    try {
+      const conversion = await this.fx.convertWithSnapshot(
+        amount,
+        invoiceCurrency,
+        invoiceFxSnapshot(invoice),
+        capCurrency,
+        asOf,
+      );
+      return {
+        cap,
+        cap_currency: capCurrency,
+        amount_in_cap_currency: conversion.convertedAmount,
+        fx: conversion.reference,
+      };
+    } catch (err) {
+      if (err instanceof FxRateUnavailableError) {
+        throw new VpcFxRateUnavailableError(err.fromCurrency, err.toCurrency, err.asOf);
+      }
+      throw err;
+    }
+  }
 
   /**
    * Resolve the lifecycle_state_id for a given VPC state key.
@@ -281,8 +369,13 @@ export class VpcService {
         trade_id: true,
         currency: true,
         gross_amount: true,
+        invoice_date: true,
         due_date: true,
         lifecycle_state_id: true,
+        fx_reporting_currency: true,
+        fx_rate: true,
+        fx_rate_id: true,
+        fx_rate_effective_date: true,
       },
     });
     if (!invoice) throw new VpcInvoiceNotFoundError(invoiceId);
@@ -336,14 +429,21 @@ export class VpcService {
     }
 
     // ── Gate 10: Invoice amount <= tier cap ───────────────────────────────────
-    const tierCap = latestAssessment.max_invoice_amount ?? TIER_DEFAULT_CAP_INR[riskTier];
-    if (tierCap !== null) {
-      const invoiceAmountNum = parseFloat(invoice.gross_amount?.toString() ?? '0');
-      if (invoiceAmountNum > tierCap) {
+    // Assessment caps are in the assessment currency; tier defaults are INR.
+    const assessedCap = latestAssessment.max_invoice_amount;
+    const tierCap = assessedCap ?? TIER_DEFAULT_CAP_INR[riskTier];
+    let capCheck: VpcCapCheck | undefined;
+    if (tierCap !== null && tierCap !== undefined) {
+      const capCurrency = assessedCap != null
+        ? String(latestAssessment.currency ?? 'INR').trim().toUpperCase()
+        : 'INR';
+      capCheck = await this.resolveCapCheck(invoice, Number(tierCap), capCurrency);
+      if (parseFloat(capCheck.amount_in_cap_currency) > capCheck.cap) {
         throw new VpcAmountExceedsCapError(
           invoice.gross_amount?.toString() ?? '0',
-          tierCap,
+          capCheck.cap,
           riskTier,
+          capCheck,
         );
       }
     }
@@ -394,7 +494,7 @@ export class VpcService {
       },
     });
 
-    return this.toAdminRecord(newVpc, TTP_VPC_STATE.ACTIVE, false);
+    return { ...this.toAdminRecord(newVpc, TTP_VPC_STATE.ACTIVE, false), cap_check: capCheck };
   }
 
   /**
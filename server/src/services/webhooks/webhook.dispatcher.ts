@@ -0,0 +1,182 @@
+/**
+ * Tenant Outbound Webhooks — Dispatcher
+ * Task ID: TENANT-WEBHOOKS-001
+ *
+ * Delivers one tenant_webhook_deliveries row. Invoked by the 'webhook.deliver' job
+ * handler (workers/webhookWorker.ts); the job queue provides exponential backoff
+ * and the attempt budget.
+ *
+ * Outcome classification (same as the CRM outbox):
+ *   2xx                         → DELIVERED
+ *   408 / 429 / 5xx / network   → RETRYABLE_FAILURE (PENDING; job retried with backoff)
+ *   other status (incl. 3xx)    → PERMANENT_FAILURE (DEAD_LETTER; redeliver after fixing the endpoint)
+ *   host not public             → RETRYABLE_FAILURE (DNS may be mid-change; dead-letters when exhausted)
+ *   subscription disabled       → DEAD_LETTER without sending
+ *   retryable on final attempt  → DEAD_LETTER
+ *
+ * Redirects are never followed (the target could be internal). Only safe category
+ * strings are stored or logged — never payload content, response bodies or secrets.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { bareHostname, isPublicHost } from '../../lib/publicAddress.js';
+import { signWebhookBody } from '../../lib/webhookSignature.js';
+import { NonRetryableJobError } from '../jobQueue/jobQueue.service.js';
+import {
+  WEBHOOK_SUBSCRIPTION_DISABLED_REASON,
+  openWebhookSigningSecrets,
+} from './webhook.service.js';
+import type { WebhookDeliveryOutcome, WebhookSendResult } from './webhook.types.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+export const WEBHOOK_SEND_TIMEOUT_MS = 10_000;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type WebhookDeliveryResult = WebhookDeliveryOutcome | 'SKIPPED';
+
+// ─── Classification ───────────────────────────────────────────────────────────
+
+export function classifyWebhookSendResult(result: WebhookSendResult): {
+  outcome: WebhookDeliveryOutcome;
+  httpStatus: number | null;
+  errorMessage: string | null;
+} {
+  if (result.dispatch_status === 'FAILED') {
+    return { outcome: 'RETRYABLE_FAILURE', httpStatus: null, errorMessage: result.error_message };
+  }
+  const status = result.http_status;
+  if (status >= 200 && status < 300) {
+    return { outcome: 'DELIVERED', httpStatus: status, errorMessage: null };
+  }
+  if (status === 408 || status === 429 || status >= 500) {
+    return { outcome: 'RETRYABLE_FAILURE', httpStatus: status, errorMessage: `Endpoint responded HTTP ${status}` };
+  }
+  return { outcome: 'PERMANENT_FAILURE', httpStatus: status, errorMessage: `Endpoint rejected event with HTTP ${status}` };
+}
+
+// ─── Sender ───────────────────────────────────────────────────────────────────
+
+async function sendWebhookRequest(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+): Promise<WebhookSendResult> {
+  const target = new URL(url);
+  if (!(await isPublicHost(bareHostname(target)))) {
+    return { dispatch_status: 'FAILED', error_message: 'Webhook host did not resolve to a public address' };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_SEND_TIMEOUT_MS);
+  try {
+    const response = await fetch(target, {
+      method:   'POST',
+      headers:  { 'content-type': 'application/json', 'user-agent': 'TexQtic-Webhooks/1', ...headers },
+      body,
+      redirect: 'manual',
+      signal:   controller.signal,
+    });
+    return { dispatch_status: 'SENT', http_status: response.status };
+  } catch (err: unknown) {
+    const isAbort = err instanceof Error && err.name === 'AbortError';
+    return {
+      dispatch_status: 'FAILED',
+      error_message: isAbort ? 'Webhook request timed out' : 'Webhook request network error',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ─── deliverWebhook ───────────────────────────────────────────────────────────
+
+/**
+ * Attempt delivery of one webhook delivery row.
+ *
+ * @param db   Service connection.
+ * @param ctx  Job attempt counters — the final job attempt dead-letters the delivery.
+ * @returns 'SKIPPED' when the delivery is no longer PENDING or its subscription is
+ *          disabled (dead-lettered); 'DELIVERED' on success.
+ * @throws NonRetryableJobError on permanent failure; Error on retryable failure
+ *         (the job queue schedules the retry).
+ */
+export async function deliverWebhook(
+  db: PrismaClient,
+  deliveryId: string,
+  ctx: { attempt: number; maxAttempts: number },
+): Promise<WebhookDeliveryResult> {
+  const delivery = await db.tenantWebhookDelivery.findUnique({
+    where:   { id: deliveryId },
+    include: { subscription: true },
+  });
+  if (!delivery) throw new NonRetryableJobError(`Webhook delivery not found: ${deliveryId}`);
+  if (delivery.status !== 'PENDING') return 'SKIPPED';
+
+  const now = new Date();
+  if (!delivery.subscription.enabled) {
+    await db.tenantWebhookDelivery.updateMany({
+      where: { id: deliveryId, status: 'PENDING' },
+      data:  { status: 'DEAD_LETTER', deadLetteredAt: now, lastError: WEBHOOK_SUBSCRIPTION_DISABLED_REASON },
+    });
+    return 'SKIPPED';
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const headers = signWebhookBody(
+    delivery.eventId,
+    body,
+    openWebhookSigningSecrets(delivery.subscription, now),
+    Math.floor(now.getTime() / 1000),
+  );
+
+  const start = Date.now();
+  const sendResult = await sendWebhookRequest(delivery.subscription.url, body, headers);
+  const durationMs = Date.now() - start;
+  const { outcome, httpStatus, errorMessage } = classifyWebhookSendResult(sendResult);
+
+  const deadLetter =
+    outcome === 'PERMANENT_FAILURE' ||
+    (outcome === 'RETRYABLE_FAILURE' && ctx.attempt >= ctx.maxAttempts);
+  const attemptedAt = new Date();
+
+  let nextStatus: 'PENDING' | 'DELIVERED' | 'DEAD_LETTER' = 'PENDING';
+  if (outcome === 'DELIVERED') nextStatus = 'DELIVERED';
+  else if (deadLetter) nextStatus = 'DEAD_LETTER';
+
+  await db.tenantWebhookDelivery.updateMany({
+    where: { id: deliveryId, status: 'PENDING' },
+    data: {
+      status:         nextStatus,
+      attempts:       { increment: 1 },
+      lastHttpStatus: httpStatus,
+      lastError:      errorMessage,
+      lastDurationMs: durationMs,
+      lastAttemptAt:  attemptedAt,
+      ...(nextStatus === 'DELIVERED' ? { deliveredAt: attemptedAt } : {}),
+      ...(nextStatus === 'DEAD_LETTER' ? { deadLetteredAt: attemptedAt } : {}),
+    },
+  });
+
+  const logFields = {
+    deliveryId,
+    subscriptionId: delivery.subscriptionId,
+    tenantId:       delivery.tenantId,
+    eventType:      delivery.eventType,
+    attempt:        delivery.attempts + 1,
+    outcome,
+    status:         nextStatus,
+    httpStatus,
+    durationMs,
+  };
+
+  if (outcome === 'DELIVERED') {
+    console.info('[webhooks] delivered', logFields);
+    return 'DELIVERED';
+  }
+
+  console.warn('[webhooks] delivery failed', { ...logFields, error_message: errorMessage });
+  if (outcome === 'PERMANENT_FAILURE') throw new NonRetryableJobError(errorMessage ?? 'Endpoint rejected event');
+  throw new Error(errorMessage ?? 'Webhook delivery failed');
+}
@@ -0,0 +1,471 @@
+/**
+ * Tenant Outbound Webhooks — Service
+ * Task ID: TENANT-WEBHOOKS-001
+ *
+ * Tenant-configured HTTPS endpoints that receive the versioned domain events
+ * (events/domainEmitter.ts) of their org: RFQ, trade, escrow, certification,
+ * order and pool lifecycle changes.
+ *
+ * Write path:
+ *   publishDomainEvent(…, { db: tx }) → background_jobs row ('webhook.fanout') in the caller's transaction
+ *   fan-out job → fanOutWebhookEvent(): one tenant_webhook_deliveries row (PENDING) per enabled
+ *   subscription of each audience org whose event-type filter matches + one 'webhook.deliver' job each
+ *
+ * Delivery (webhook.dispatcher.ts, run by the job worker):
+ *   signed POST → DELIVERED | PENDING (retry with backoff) | DEAD_LETTER
+ *
+ * Tenant workspace (routes/tenant/webhooks.ts): subscription CRUD, secret rotation,
+ * delivery log, redeliver and "send test event".
+ *
+ * Secrets:
+ *   - Generated server-side ("whsec_…"), returned exactly once (create / rotate) and stored
+ *     AES-256-GCM encrypted. Only a short hint is ever shown again.
+ *   - Rotation keeps the previous secret signing for WEBHOOK_SECRET_ROTATION_GRACE_MS so
+ *     receivers can switch without dropping deliveries.
+ *
+ * Tenant isolation: every read and write is keyed by the caller's tenant_id (the tables
+ * have no RLS — the fan-out job must read subscriptions of several orgs).
+ */
+
+import { randomBytes, randomUUID } from 'node:crypto';
+import { isIP } from 'node:net';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../../config/index.js';
+import { deriveEnvelopeKey, openSecret, sealSecret } from '../../lib/secretEnvelope.js';
+import { isPrivateAddress } from '../../lib/publicAddress.js';
+import { enqueueJob } from '../jobQueue/jobQueue.service.js';
+import {
+  WEBHOOK_DELIVER_JOB_TYPE,
+  WEBHOOK_DELIVER_MAX_ATTEMPTS,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_TEST_EVENT_TYPE,
+  type CreateWebhookSubscriptionInput,
+  type ListWebhookDeliveriesOptions,
+  type UpdateWebhookSubscriptionInput,
+  type WebhookDeliverJobPayload,
+  type WebhookDeliveryRecord,
+  type WebhookFanoutJobPayload,
+  type WebhookSubscriptionRecord,
+  type WebhookSubscriptionView,
+  type WebhookWireBody,
+} from './webhook.types.js';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** How long the previous secret keeps co-signing after a rotation. */
+export const WEBHOOK_SECRET_ROTATION_GRACE_MS = 24 * 60 * 60_000;
+
+export const MAX_WEBHOOK_SUBSCRIPTIONS_PER_TENANT = 10 as const;
+
+const DEFAULT_LIST_LIMIT = 25 as const;
+const MAX_LIST_LIMIT = 100 as const;
+
+const SECRET_PREFIX = 'whsec_';
+
+/** tenant_webhook_deliveries.last_error marker for deliveries stopped by a disabled subscription. */
+export const WEBHOOK_SUBSCRIPTION_DISABLED_REASON = 'SUBSCRIPTION_DISABLED' as const;
+
+let encryptionKey: Buffer | null = null;
+
+/** Signing-secret key, derived on first use so importing this module reads no config. */
+function getEncryptionKey(): Buffer {
+  encryptionKey ??= deriveEnvelopeKey(
+    config.WEBHOOK_SECRET_ENCRYPTION_KEY ?? config.JWT_ACCESS_SECRET,
+    'texqtic-webhooks',
+    'webhook-signing-secret-v1',
+  );
+  return encryptionKey;
+}
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class WebhookSubscriptionNotFoundError extends Error {
+  constructor(subscriptionId: string) {
+    super(`Webhook subscription not found: ${subscriptionId}`);
+    this.name = 'WebhookSubscriptionNotFoundError';
+  }
+}
+
+export class WebhookDeliveryNotFoundError extends Error {
+  constructor(deliveryId: string) {
+    super(`Webhook delivery not found: ${deliveryId}`);
+    this.name = 'WebhookDeliveryNotFoundError';
+  }
+}
+
+export class WebhookUrlInvalidError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookUrlInvalidError';
+  }
+}
+
+export class WebhookSubscriptionLimitError extends Error {
+  constructor() {
+    super(`A tenant can have at most ${MAX_WEBHOOK_SUBSCRIPTIONS_PER_TENANT} webhook subscriptions`);
+    this.name = 'WebhookSubscriptionLimitError';
+  }
+}
+
+export class WebhookSubscriptionDisabledError extends Error {
+  constructor(subscriptionId: string) {
+    super(`Webhook subscription ${subscriptionId} is disabled`);
+    this.name = 'WebhookSubscriptionDisabledError';
+  }
+}
+
+export class WebhookDeliveryStateError extends Error {
+  constructor(deliveryId: string, status: string) {
+    super(`Webhook delivery ${deliveryId} is ${status}; cannot redeliver`);
+    this.name = 'WebhookDeliveryStateError';
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function dedupeKeyFor(deliveryId: string): string {
+  return `webhook-delivery:${deliveryId}`;
+}
+
+async function enqueueDeliveryJob(db: PrismaClient, deliveryId: string, tenantId: string): Promise<void> {
+  await enqueueJob<WebhookDeliverJobPayload>(db, {
+    jobType:     WEBHOOK_DELIVER_JOB_TYPE,
+    orgId:       tenantId,
+    payload:     { deliveryId },
+    maxAttempts: WEBHOOK_DELIVER_MAX_ATTEMPTS,
+    dedupeKey:   dedupeKeyFor(deliveryId),
+  });
+}
+
+function generateSecret(): { secret: string; secretEncrypted: string; secretHint: string } {
+  const secret = `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return {
+    secret,
+    secretEncrypted: sealSecret(secret, getEncryptionKey()),
+    secretHint:      `…${secret.slice(-4)}`,
+  };
+}
+
+function subscribesTo(subscription: Pick<WebhookSubscriptionRecord, 'eventTypes'>, eventType: string): boolean {
+  return subscription.eventTypes.length === 0 || subscription.eventTypes.includes(eventType);
+}
+
+/**
+ * Syntactic endpoint check at create / update time: https, no credentials, not a
+ * local hostname or private IP literal. The dispatcher re-checks the resolved
+ * addresses before every send (DNS can change after validation).
+ */
+export function normalizeWebhookUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new WebhookUrlInvalidError('Webhook URL is not valid');
+  }
+  if (url.protocol !== 'https:') {
+    throw new WebhookUrlInvalidError('Webhook URL must use https');
+  }
+  if (url.username || url.password) {
+    throw new WebhookUrlInvalidError('Webhook URL must not contain credentials');
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (
+    hostname === 'localhost' ||
+    /\.(localhost|local|internal)$/.test(hostname) ||
+    (isIP(hostname) !== 0 && isPrivateAddress(hostname))
+  ) {
+    throw new WebhookUrlInvalidError('Webhook URL must point to a public host');
+  }
+  url.hash = '';
+  return url.toString();
+}
+
+/** Strip secrets for API responses. */
+export function toWebhookSubscriptionView(record: WebhookSubscriptionRecord): WebhookSubscriptionView {
+  return {
+    id:                      record.id,
+    url:                     record.url,
+    description:             record.description,
+    eventTypes:              record.eventTypes,
+    enabled:                 record.enabled,
+    secretHint:              record.secretHint,
+    previousSecretExpiresAt: record.previousSecretExpiresAt,
+    secretRotatedAt:         record.secretRotatedAt,
+    createdAt:               record.createdAt,
+    updatedAt:               record.updatedAt,
+  };
+}
+
+/**
+ * Decrypt the secrets that sign a delivery made at `now`: the current secret, plus the
+ * previous one while its rotation grace period lasts.
+ */
+export function openWebhookSigningSecrets(
+  subscription: Pick<WebhookSubscriptionRecord, 'secretEncrypted' | 'previousSecretEncrypted' | 'previousSecretExpiresAt'>,
+  now: Date = new Date(),
+): string[] {
+  const secrets = [openSecret(subscription.secretEncrypted, getEncryptionKey())];
+  if (
+    subscription.previousSecretEncrypted &&
+    subscription.previousSecretExpiresAt &&
+    subscription.previousSecretExpiresAt > now
+  ) {
+    secrets.push(openSecret(subscription.previousSecretEncrypted, getEncryptionKey()));
+  }
+  return secrets;
+}
+
+async function findOwnedSubscription(
+  db: PrismaClient,
+  tenantId: string,
+  subscriptionId: string,
+): Promise<WebhookSubscriptionRecord> {
+  const subscription = (await db.tenantWebhookSubscription.findFirst({
+    where: { id: subscriptionId, tenantId },
+  })) as WebhookSubscriptionRecord | null;
+  if (!subscription) throw new WebhookSubscriptionNotFoundError(subscriptionId);
+  return subscription;
+}
+
+// ─── Subscriptions ────────────────────────────────────────────────────────────
+
+export async function listWebhookSubscriptions(
+  db: PrismaClient,
+  tenantId: string,
+): Promise<WebhookSubscriptionView[]> {
+  const rows = (await db.tenantWebhookSubscription.findMany({
+    where:   { tenantId },
+    orderBy: { createdAt: 'asc' },
+  })) as WebhookSubscriptionRecord[];
+  return rows.map(toWebhookSubscriptionView);
+}
+
+/**
+ * Create a subscription. The signing secret is returned here and never again.
+ */
+export async function createWebhookSubscription(
+  db: PrismaClient,
+  tenantId: string,
+  userId: string | null,
+  input: CreateWebhookSubscriptionInput,
+): Promise<{ subscription: WebhookSubscriptionView; secret: string }> {
+  const url = normalizeWebhookUrl(input.url);
+  const existing = (await db.tenantWebhookSubscription.count({ where: { tenantId } })) as number;
+  if (existing >= MAX_WEBHOOK_SUBSCRIPTIONS_PER_TENANT) throw new WebhookSubscriptionLimitError();
+
+  const { secret, secretEncrypted, secretHint } = generateSecret();
+  const record = (await db.tenantWebhookSubscription.create({
+    data: {
+      tenantId,
+      url,
+      description:     input.description ?? null,
+      eventTypes:      [...new Set(input.eventTypes)],
+      enabled:         input.enabled ?? true,
+      secretEncrypted,
+      secretHint,
+      createdByUserId: userId,
+    },
+  })) as WebhookSubscriptionRecord;
+
+  return { subscription: toWebhookSubscriptionView(record), secret };
+}
+
+export async function updateWebhookSubscription(
+  db: PrismaClient,
+  tenantId: string,
+  subscriptionId: string,
+  input: UpdateWebhookSubscriptionInput,
+): Promise<WebhookSubscriptionView> {
+  await findOwnedSubscription(db, tenantId, subscriptionId);
+  const record = (await db.tenantWebhookSubscription.update({
+    where: { id: subscriptionId },
+    data: {
+      ...(input.url !== undefined ? { url: normalizeWebhookUrl(input.url) } : {}),
+      ...(input.description !== undefined ? { description: input.description } : {}),
+      ...(input.eventTypes !== undefined ? { eventTypes: [...new Set(input.eventTypes)] } : {}),
+      ...(input.enabled !== undefined ? { enabled: input.enabled } : {}),
+    },
+  })) as WebhookSubscriptionRecord;
+  return toWebhookSubscriptionView(record);
+}
+
+/** Delete a subscription. Its delivery log is removed with it (ON DELETE CASCADE). */
+export async function deleteWebhookSubscription(
+  db: PrismaClient,
+  tenantId: string,
+  subscriptionId: string,
+): Promise<void> {
+  const result = await db.tenantWebhookSubscription.deleteMany({
+    where: { id: subscriptionId, tenantId },
+  });
+  if (result.count !== 1) throw new WebhookSubscriptionNotFoundError(subscriptionId);
+}
+
+/**
+ * Replace the signing secret. The old secret keeps co-signing deliveries until
+ * now + WEBHOOK_SECRET_ROTATION_GRACE_MS; a second rotation inside the grace period
+ * drops the oldest secret immediately.
+ */
+export async function rotateWebhookSecret(
+  db: PrismaClient,
+  tenantId: string,
+  subscriptionId: string,
+  now: Date = new Date(),
+): Promise<{ subscription: WebhookSubscriptionView; secret: string }> {
+  const current = await findOwnedSubscription(db, tenantId, subscriptionId);
+  const { secret, secretEncrypted, secretHint } = generateSecret();
+  const record = (await db.tenantWebhookSubscription.update({
+    where: { id: subscriptionId },
+    data: {
+      secretEncrypted,
+      secretHint,
+      previousSecretEncrypted: current.secretEncrypted,
+      previousSecretExpiresAt: new Date(now.getTime() + WEBHOOK_SECRET_ROTATION_GRACE_MS),
+      secretRotatedAt:         now,
+    },
+  })) as WebhookSubscriptionRecord;
+  return { subscription: toWebhookSubscriptionView(record), secret };
+}
+
+// ─── Delivery log ─────────────────────────────────────────────────────────────
+
+/** List the tenant's deliveries, newest first, with cursor pagination. */
+export async function listWebhookDeliveries(
+  db: PrismaClient,
+  tenantId: string,
+  opts: ListWebhookDeliveriesOptions = {},
+): Promise<{ deliveries: WebhookDeliveryRecord[]; nextCursor: string | null }> {
+  const limit = Math.min(opts.limit ?? DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+  const rows = (await db.tenantWebhookDelivery.findMany({
+    where: {
+      tenantId,
+      ...(opts.subscriptionId ? { subscriptionId: opts.subscriptionId } : {}),
+      ...(opts.status ? { status: opts.status } : {}),
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take:    limit + 1,
+    ...(opts.cursor ? { cursor: { id: opts.cursor }, skip: 1 } : {}),
+  })) as WebhookDeliveryRecord[];
+
+  const hasMore = rows.length > limit;
+  const deliveries = hasMore ? rows.slice(0, limit) : rows;
+  return { deliveries, nextCursor: hasMore ? deliveries[deliveries.length - 1].id : null };
+}
+
+/**
+ * Re-send a DEAD_LETTER or DELIVERED delivery with a fresh attempt budget. The event id
+ * (x-texqtic-webhook-id) is unchanged so the receiver can de-duplicate.
+ */
+export async function redeliverWebhookDelivery(
+  db: PrismaClient,
+  tenantId: string,
+  deliveryId: string,
+): Promise<WebhookDeliveryRecord> {
+  const delivery = (await db.tenantWebhookDelivery.findFirst({
+    where: { id: deliveryId, tenantId },
+  })) as WebhookDeliveryRecord | null;
+  if (!delivery) throw new WebhookDeliveryNotFoundError(deliveryId);
+  if (delivery.status === 'PENDING') throw new WebhookDeliveryStateError(deliveryId, delivery.status);
+
+  const result = await db.tenantWebhookDelivery.updateMany({
+    where: { id: deliveryId, tenantId, status: { in: ['DEAD_LETTER', 'DELIVERED'] } },
+    data:  { status: 'PENDING', deadLetteredAt: null },
+  });
+  if (result.count !== 1) throw new WebhookDeliveryStateError(deliveryId, 'PENDING');
+
+  await enqueueDeliveryJob(db, deliveryId, tenantId);
+  return (await db.tenantWebhookDelivery.findUnique({ where: { id: deliveryId } })) as WebhookDeliveryRecord;
+}
+
+/**
+ * Queue a 'webhook.test.v1' delivery to one subscription regardless of its event-type
+ * filter. It is signed and retried like any other delivery.
+ */
+export async function sendWebhookTestEvent(
+  db: PrismaClient,
+  tenantId: string,
+  subscriptionId: string,
+): Promise<WebhookDeliveryRecord> {
+  const subscription = await findOwnedSubscription(db, tenantId, subscriptionId);
+  if (!subscription.enabled) throw new WebhookSubscriptionDisabledError(subscriptionId);
+
+  const eventId = randomUUID();
+  const body: WebhookWireBody = {
+    id:         eventId,
+    type:       WEBHOOK_TEST_EVENT_TYPE,
+    occurredAt: new Date().toISOString(),
+    tenantId,
+    entity:     { type: 'webhook_subscription', id: subscriptionId },
+    data:       { message: 'Test event from TexQtic. No action is required.' },
+  };
+
+  const delivery = (await db.tenantWebhookDelivery.create({
+    data: {
+      subscriptionId,
+      tenantId,
+      eventId,
+      eventType: WEBHOOK_TEST_EVENT_TYPE,
+      payload:   body as unknown as Prisma.InputJsonValue,
+      isTest:    true,
+    },
+  })) as WebhookDeliveryRecord;
+
+  await enqueueDeliveryJob(db, delivery.id, tenantId);
+  return delivery;
+}
+
+// ─── Fan-out ──────────────────────────────────────────────────────────────────
+
+/**
+ * Expand one domain event into deliveries for every enabled, matching subscription of
+ * its audience orgs. Idempotent: (subscription_id, event_id) is unique and delivery jobs
+ * are de-duplicated, so a retried fan-out job creates nothing twice.
+ *
+ * @param db Service connection (reads subscriptions of several orgs).
+ * @returns number of deliveries queued by this call.
+ */
+export async function fanOutWebhookEvent(
+  db: PrismaClient,
+  payload: WebhookFanoutJobPayload,
+): Promise<number> {
+  const { event } = payload;
+  const audienceOrgIds = [...new Set(payload.audienceOrgIds)];
+  if (audienceOrgIds.length === 0 || !(WEBHOOK_EVENT_TYPES as readonly string[]).includes(event.name)) {
+    return 0;
+  }
+
+  const subscriptions = ((await db.tenantWebhookSubscription.findMany({
+    where: { tenantId: { in: audienceOrgIds }, enabled: true },
+  })) as WebhookSubscriptionRecord[]).filter(subscription => subscribesTo(subscription, event.name));
+  if (subscriptions.length === 0) return 0;
+
+  const entity = { type: event.entity.type, id: event.entity.id };
+  const data = (event.payload ?? {}) as Record<string, unknown>;
+  await db.tenantWebhookDelivery.createMany({
+    data: subscriptions.map(subscription => ({
+      subscriptionId: subscription.id,
+      tenantId:       subscription.tenantId,
+      eventId:        event.id,
+      eventType:      event.name,
+      payload: ({
+        id:         event.id,
+        type:       event.name,
+        occurredAt: event.occurredAt,
+        tenantId:   subscription.tenantId,
+        entity,
+        data,
+      } satisfies WebhookWireBody) as unknown as Prisma.InputJsonValue,
+    })),
+    skipDuplicates: true,
+  });
+
+  const deliveries = (await db.tenantWebhookDelivery.findMany({
+    where:  { eventId: event.id, subscriptionId: { in: subscriptions.map(s => s.id) }, status: 'PENDING', attempts: 0 },
+    select: { id: true, tenantId: true },
+  })) as Array<{ id: string; tenantId: string }>;
+
+  for (const delivery of deliveries) {
+    await enqueueDeliveryJob(db, delivery.id, delivery.tenantId);
+  }
+  return deliveries.length;
+}
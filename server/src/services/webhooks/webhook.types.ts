@@ -0,0 +1,181 @@
+/**
+ * Tenant Outbound Webhooks — Types
+ * Task ID: TENANT-WEBHOOKS-001
+ *
+ * Public contract for tenant webhook subscriptions and their delivery log.
+ * Types and job constants only — no DB or config imports (the domain event
+ * emitter imports this from StateMachineService).
+ *
+ * Flow:
+ *   publishDomainEvent(…, { db: tx }) ──'webhook.fanout' job──▶ one tenant_webhook_deliveries row
+ *   per matching enabled subscription of each audience org ──'webhook.deliver' job──▶
+ *
+ * Delivery lifecycle:
+ *   PENDING ──delivered (2xx)──▶ DELIVERED
+ *      │
+ *      ├──retryable failure──▶ PENDING (retried by the 'webhook.deliver' job with backoff)
+ *      └──permanent failure / attempts exhausted / subscription disabled──▶ DEAD_LETTER
+ *   DEAD_LETTER | DELIVERED ──tenant redeliver──▶ PENDING
+ */
+
+import type { KnownEventEnvelope, KnownEventName } from '../../lib/events.js';
+
+// ─── Event catalogue ──────────────────────────────────────────────────────────
+
+/** Domain events a subscription can filter on. Order is the workspace display order. */
+export const WEBHOOK_EVENT_TYPES = [
+  'rfq.submitted.v1',
+  'rfq.responded.v1',
+  'rfq.quote.revised.v1',
+  'rfq.quote.accepted.v1',
+  'trade.state_changed.v1',
+  'escrow.state_changed.v1',
+  'certification.state_changed.v1',
+  'order.state_changed.v1',
+  'pool.state_changed.v1',
+  'syndicate.state_changed.v1',
+  'vco_chain.state_changed.v1',
+  'pool.quote.awarded.v1',
+] as const satisfies readonly KnownEventName[];
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/** event_type of deliveries created by "send test event". Not filterable. */
+export const WEBHOOK_TEST_EVENT_TYPE = 'webhook.test.v1' as const;
+
+// ─── Enumerations ─────────────────────────────────────────────────────────────
+
+/** Legal tenant_webhook_deliveries.status values (enforced by SQL check constraint). */
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'DEAD_LETTER';
+
+export type WebhookDeliveryOutcome = 'DELIVERED' | 'RETRYABLE_FAILURE' | 'PERMANENT_FAILURE';
+
+// ─── Records ──────────────────────────────────────────────────────────────────
+
+/** One tenant_webhook_subscriptions row as returned by Prisma. */
+export interface WebhookSubscriptionRecord {
+  id: string;
+  tenantId: string;
+  url: string;
+  description: string | null;
+  /** Empty = every event type. */
+  eventTypes: string[];
+  enabled: boolean;
+  /** AES-256-GCM envelope — never returned by the API. */
+  secretEncrypted: string;
+  /** Last characters of the secret, shown in the workspace to identify it. */
+  secretHint: string;
+  previousSecretEncrypted: string | null;
+  previousSecretExpiresAt: Date | null;
+  secretRotatedAt: Date | null;
+  createdByUserId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** One tenant_webhook_deliveries row as returned by Prisma. */
+export interface WebhookDeliveryRecord {
+  id: string;
+  subscriptionId: string;
+  tenantId: string;
+  eventId: string;
+  eventType: string;
+  /** Exact signed wire body (WebhookWireBody). */
+  payload: Record<string, unknown>;
+  isTest: boolean;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastHttpStatus: number | null;
+  /** Safe category string — never response body content. */
+  lastError: string | null;
+  lastDurationMs: number | null;
+  lastAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  deadLetteredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Subscription as returned to the tenant workspace (secrets stripped). */
+export interface WebhookSubscriptionView {
+  id: string;
+  url: string;
+  description: string | null;
+  eventTypes: string[];
+  enabled: boolean;
+  secretHint: string;
+  previousSecretExpiresAt: Date | null;
+  secretRotatedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ─── Wire format ──────────────────────────────────────────────────────────────
+
+/**
+ * JSON body POSTed to the subscriber. `tenantId` is the receiving tenant; the
+ * emitting org is visible in `data` (buyerOrgId / supplierOrgId) where relevant.
+ */
+export interface WebhookWireBody {
+  id: string;
+  type: string;
+  occurredAt: string;
+  tenantId: string;
+  entity: { type: string; id: string };
+  data: Record<string, unknown>;
+}
+
+// ─── Inputs ───────────────────────────────────────────────────────────────────
+
+export interface CreateWebhookSubscriptionInput {
+  url: string;
+  description?: string | null;
+  eventTypes: WebhookEventType[];
+  enabled?: boolean;
+}
+
+export interface UpdateWebhookSubscriptionInput {
+  url?: string;
+  description?: string | null;
+  eventTypes?: WebhookEventType[];
+  enabled?: boolean;
+}
+
+export interface ListWebhookDeliveriesOptions {
+  subscriptionId?: string;
+  status?: WebhookDeliveryStatus;
+  /** Defaults to 25, max 100. */
+  limit?: number;
+  /** id of the last row of the previous page (createdAt DESC, id DESC). */
+  cursor?: string;
+}
+
+// ─── Jobs ─────────────────────────────────────────────────────────────────────
+
+/** background_jobs.job_type that expands one domain event into deliveries. */
+export const WEBHOOK_FANOUT_JOB_TYPE = 'webhook.fanout' as const;
+
+/** background_jobs.job_type for one delivery. */
+export const WEBHOOK_DELIVER_JOB_TYPE = 'webhook.deliver' as const;
+
+export const WEBHOOK_FANOUT_MAX_ATTEMPTS = 5 as const;
+
+/** Delivery attempts per event / redeliver before the delivery is dead-lettered. */
+export const WEBHOOK_DELIVER_MAX_ATTEMPTS = 8 as const;
+
+/** Job payload of 'webhook.fanout'. */
+export interface WebhookFanoutJobPayload {
+  event: KnownEventEnvelope;
+  /** Orgs whose subscriptions receive the event (buyer and supplier for RFQ events). */
+  audienceOrgIds: string[];
+}
+
+/** Job payload of 'webhook.deliver'. The delivery row is the source of truth. */
+export interface WebhookDeliverJobPayload {
+  deliveryId: string;
+}
+
+/** Result of one HTTP send to a subscriber. Never contains response body content. */
+export type WebhookSendResult =
+  | { dispatch_status: 'SENT'; http_status: number }
+  | { dispatch_status: 'FAILED'; error_message: string };
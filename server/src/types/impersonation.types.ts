@@ -22,6 +22,8 @@ export interface StartImpersonationRequest {
 export interface StartImpersonationResult {
   /** Created ImpersonationSession.id */
   impersonationId: string;
+  /** auth_sessions.id — embedded in the token as `sid` for server-side revocation */
+  sessionId: string;
   /** Impersonated user's id (not in DB session — carried in JWT) */
   userId: string;
   /** Target org UUID */
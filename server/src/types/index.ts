@@ -195,6 +195,23 @@ export type CatalogRfqPrefillResult =
     reason: RfqPrefillFailureReason;
   };
 
+/**
+ * CATALOG-VARIANTS-001: buyer-facing variant of a PDP item. Never carries price —
+ * price disclosure is resolved once for the parent item and applies to every variant.
+ */
+export interface BuyerCatalogVariantSummary {
+  id: string;
+  sku: string;
+  label: string;
+  color: string | null;
+  widthCm: number | null;
+  finish: string | null;
+  /** Effective MOQ (variant override or the parent's). */
+  moq: number;
+  imageUrl: string | null;
+  attributes: Record<string, unknown>;
+}
+
 export interface BuyerCatalogPdpView {
   itemId: string;
   supplierId: string;
@@ -209,5 +226,7 @@ export interface BuyerCatalogPdpView {
   availabilitySummary: AvailabilitySummary;
   rfqEntry: RfqEntryDescriptor;
   pricePlaceholder: PricePlaceholder;
+  /** Active variants of the item; omitted or empty when the item has none. */
+  variants?: BuyerCatalogVariantSummary[];
   priceDisclosure: PriceDisclosureMetadata;
 }
@@ -720,3 +720,87 @@ export function createSettlementRejectedAudit(
     },
   };
 }
+
+// ─── GOV-EXPIRY-SWEEP-001 Governance Expiry Audit Factories ──────────────────
+
+/**
+ * Written by GovernanceExpiryService in the SAME Prisma tx as the
+ * approval_expiry_events / sanction_decay_events INSERT. Actor is always SYSTEM
+ * (the 'governance.expiry.sweep' job).
+ */
+
+// ─── APPROVAL_EXPIRED ─────────────────────────────────────────────────────────
+
+export type ApprovalExpiredAuditParams = {
+  orgId:          string;
+  approvalId:     string;
+  entityType:     string;
+  entityId:       string;
+  fromStateKey:   string;
+  toStateKey:     string;
+  statusAtExpiry: string;
+  expiresAt:      Date;
+  sweepRunId:     string;
+};
+
+export function createApprovalExpiredAudit(
+  params: ApprovalExpiredAuditParams,
+): AuditEntry {
+  return {
+    realm:     'TENANT',
+    tenantId:  params.orgId,
+    actorType: 'SYSTEM',
+    actorId:   null,
+    action:    'APPROVAL_EXPIRED',
+    entity:    'pending_approval',
+    entityId:  params.approvalId,
+    metadataJson: {
+      orgId:          params.orgId,
+      approvalId:     params.approvalId,
+      entityType:     params.entityType,
+      entityId:       params.entityId,
+      fromStateKey:   params.fromStateKey,
+      toStateKey:     params.toStateKey,
+      statusAtExpiry: params.statusAtExpiry,
+      expiresAt:      params.expiresAt.toISOString(),
+      sweepRunId:     params.sweepRunId,
+    },
+  };
+}
+
+// ─── SANCTION_DECAYED ─────────────────────────────────────────────────────────
+
+export type SanctionDecayedAuditParams = {
+  orgId:        string;
+  sanctionId:   string;
+  entityType:   string | null;
+  entityId:     string | null;
+  sanctionType: string;
+  severity:     number;
+  decaysAt:     Date;
+  sweepRunId:   string;
+};
+
+export function createSanctionDecayedAudit(
+  params: SanctionDecayedAuditParams,
+): AuditEntry {
+  return {
+    realm:     'TENANT',
+    tenantId:  params.orgId,
+    actorType: 'SYSTEM',
+    actorId:   null,
+    action:    'SANCTION_DECAYED',
+    entity:    'sanction',
+    entityId:  params.sanctionId,
+    metadataJson: {
+      orgId:        params.orgId,
+      sanctionId:   params.sanctionId,
+      entityType:   params.entityType,
+      entityId:     params.entityId,
+      sanctionType: params.sanctionType,
+      severity:     params.severity,
+      decaysAt:     params.decaysAt.toISOString(),
+      sweepRunId:   params.sweepRunId,
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import type { OutgoingHttpHeaders } from 'node:http';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+
+/**
+ * Server-sent events over a Fastify reply (AI-STREAM-001).
+ *
+ * Routes opt in per request: a client sending `Accept: text/event-stream` gets
+ * `event: <name>` / `data: <json>` frames instead of one JSON body. The stream opens
+ * lazily on the first event, so failures raised before any output (401, 422, 429)
+ * still go out as the route's normal JSON error. Once open, errors are sent as an
+ * `error` event ({ code, message }) and the stream is closed.
+ *
+ * Headers set on the reply before the first event (CORS, rate-limit, request id)
+ * are carried over to the streamed response.
+ *
+ * Long-lived streams (EVENT-STREAM-001) also use event ids (`id:` — echoed back by the
+ * client as Last-Event-ID on reconnect), comment heartbeats, a `retry:` hint and the
+ * socket's write buffer (bufferedBytes / drained) to stop producing for slow clients.
+ */
+
+export function acceptsEventStream(request: FastifyRequest): boolean {
+  const accept = request.headers.accept;
+  return typeof accept === 'string' && accept.includes('text/event-stream');
+}
+
+export interface SseStream {
+  /** True once the first event has been written (the reply is hijacked). */
+  readonly opened: boolean;
+  /** True after close(), fail() or a client disconnect. */
+  readonly closed: boolean;
+  /** Bytes written but not yet flushed to the client socket. */
+  readonly bufferedBytes: number;
+  /** Writes one event, with an optional event id; ignored after close() or a client disconnect. */
+  send(event: string, data: unknown, id?: string): void;
+  /** Writes a comment line (heartbeat); ignored until the stream is open. */
+  comment(text: string): void;
+  /** Resolves true once the write buffer has flushed, false on timeout or close. */
+  drained(timeoutMs: number): Promise<boolean>;
+  /** Runs `listener` once when the stream closes for any reason. */
+  onClose(listener: () => void): void;
+  /** Ends the response if it was opened. */
+  close(): void;
+  /** Sends an `error` event ({ code, message, details? }) and closes the stream. */
+  fail(code: string, message: string, details?: unknown): void;
+}
+
+export interface SseStreamOptions {
+  /** Client reconnect delay hint, sent as `retry:` when the stream opens. */
+  retryMs?: number;
+}
+
+export function createSseStream(reply: FastifyReply, options: SseStreamOptions = {}): SseStream {
+  let opened = false;
+  let closed = false;
+  const closeListeners: Array<() => void> = [];
+
+  const markClosed = (): void => {
+    if (closed) return;
+    closed = true;
+    for (const listener of closeListeners.splice(0)) listener();
+  };
+
+  reply.raw.on('close', markClosed);
+
+  const open = (): void => {
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      ...(reply.getHeaders() as OutgoingHttpHeaders),
+      'content-type': 'text/event-stream; charset=utf-8',
+      'cache-control': 'no-cache, no-transform',
+      connection: 'keep-alive',
+      // Disables response buffering in nginx-style proxies.
+      'x-accel-buffering': 'no',
+    });
+    opened = true;
+    if (options.retryMs !== undefined) {
+      reply.raw.write(`retry: ${options.retryMs}\n\n`);
+    }
+  };
+
+  return {
+    get opened() {
+      return opened;
+    },
+    get closed() {
+      return closed;
+    },
+    get bufferedBytes() {
+      return reply.raw.writableLength ?? 0;
+    },
+    send(event: string, data: unknown, id?: string): void {
+      if (closed) return;
+      if (!opened) open();
+      const idLine = id === undefined ? '' : `id: ${id}\n`;
+      reply.raw.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    comment(text: string): void {
+      if (closed || !opened) return;
+      reply.raw.write(`: ${text}\n\n`);
+    },
+    drained(timeoutMs: number): Promise<boolean> {
+      if (closed) return Promise.resolve(false);
+      if ((reply.raw.writableLength ?? 0) === 0) return Promise.resolve(true);
+      return new Promise(resolve => {
+        const finish = (result: boolean): void => {
+          clearTimeout(timer);
+          reply.raw.off('drain', onDrain);
+          resolve(result);
+        };
+        const onDrain = (): void => finish(true);
+        const timer = setTimeout(() => finish(false), timeoutMs);
+        reply.raw.once('drain', onDrain);
+        closeListeners.push(() => finish(false));
+      });
+    },
+    onClose(listener: () => void): void {
+      if (closed) listener();
+      else closeListeners.push(listener);
+    },
+    close(): void {
+      if (closed) return;
+      const wasOpened = opened;
+      markClosed();
+      if (wasOpened) reply.raw.end();
+    },
+    fail(code: string, message: string, details?: unknown): void {
+      this.send('error', details === undefined ? { code, message } : { code, message, details });
+      this.close();
+    },
+  };
+}
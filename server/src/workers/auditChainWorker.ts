@@ -0,0 +1,81 @@
+/**
+ * auditChainWorker.ts — Audit log chain seal job handler
+ *
+ * AUDIT-CHAIN-001: registers the 'audit.chain.seal' job type with the durable
+ * background job queue. Self-scheduling on AUDIT_CHAIN_SEAL_INTERVAL_MS slots
+ * (dedupe key 'slot:<n>'), same as the governance expiry sweep: every run first
+ * enqueues slot n+1, then seals.
+ *
+ * Architecture:
+ *   startBackgroundJobWorker() → scheduleAuditChainSeal() (current slot)
+ *   → job worker claim (jobQueue.worker.ts)
+ *   → enqueue next slot → sealAuditChains()
+ *
+ * Scope: system. Sealing spans all realms and tenants under the admin context.
+ * Multi-instance: the dedupe key collapses boot-time scheduling to one job per
+ * slot, and each chain is extended under a per-chain advisory lock.
+ *
+ * @module auditChainWorker
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { config } from '../config/index.js';
+import { enqueueJob } from '../services/jobQueue/jobQueue.service.js';
+import type {
+  BackgroundJobRecord,
+  JobHandlerDefinition,
+} from '../services/jobQueue/jobQueue.types.js';
+import { sealAuditChains } from '../services/auditChain/auditChain.service.js';
+import {
+  AUDIT_CHAIN_SEAL_JOB_TYPE,
+  type AuditChainSealJobPayload,
+} from '../services/auditChain/auditChain.types.js';
+
+/**
+ * Enqueue the seal run for the slot containing `now` (or the next slot).
+ * Returns the existing job when that slot is already PENDING / RUNNING.
+ */
+export function scheduleAuditChainSeal(
+  db: PrismaClient,
+  now: Date = new Date(),
+  options: { nextSlot?: boolean; intervalMs?: number } = {},
+): Promise<BackgroundJobRecord> {
+  const intervalMs = options.intervalMs ?? config.AUDIT_CHAIN_SEAL_INTERVAL_MS;
+  const slot = Math.floor(now.getTime() / intervalMs) + (options.nextSlot ? 1 : 0);
+  const payload: AuditChainSealJobPayload = { slot };
+  return enqueueJob(db, {
+    jobType:   AUDIT_CHAIN_SEAL_JOB_TYPE,
+    orgId:     null,
+    payload,
+    runAt:     options.nextSlot ? new Date(slot * intervalMs) : now,
+    dedupeKey: `slot:${slot}`,
+  });
+}
+
+/**
+ * 'audit.chain.seal' job handler.
+ *
+ * - leaseMs covers a full run (20 batches of 500 rows)
+ * - backoff 15s → 2m: a failed slot retries before unsealed rows pile up
+ */
+export const auditChainSealJobHandler: JobHandlerDefinition<AuditChainSealJobPayload, 'system'> = {
+  jobType:   AUDIT_CHAIN_SEAL_JOB_TYPE,
+  scope:     'system',
+  leaseMs:   5 * 60_000,
+  backoff:   { baseMs: 15_000, maxMs: 2 * 60_000 },
+  batchSize: 1,
+  handle: async (db, _payload, ctx) => {
+    await scheduleAuditChainSeal(db, new Date(), { nextSlot: true });
+
+    const result = await sealAuditChains(db);
+    if (result.entriesSealed > 0 || result.moreRemaining) {
+      console.info('[audit-chain] seal completed', {
+        jobId:              ctx.jobId,
+        chainsAdvanced:     result.chainsAdvanced,
+        entriesSealed:      result.entriesSealed,
+        checkpointsWritten: result.checkpointsWritten,
+        moreRemaining:      result.moreRemaining,
+      });
+    }
+  },
+};
@@ -0,0 +1,59 @@
+/**
+ * catalogImportWorker.ts — Bulk catalog import apply job handler
+ *
+ * CATALOG-IMPORT-001: registers the 'catalog.import.apply' job type with the
+ * durable background job queue. One job per import (dedupe key
+ * 'catalog-import:<importId>'); the payload carries only the import id.
+ *
+ * Architecture:
+ *   POST /api/tenant/catalog/imports/:id/apply → catalog_imports QUEUED + background_jobs row (one transaction)
+ *   → job worker claim (jobQueue.worker.ts)
+ *   → applyCatalogImport(prisma, orgId, importId) — chunked upsert-by-SKU with progress
+ *
+ * Scope: system. The handler opens one tenant context per chunk (withDbContext with
+ * the job row's orgId) so progress is committed, and visible to the tenant, while the
+ * import runs. A tenant-scoped handler would hold the whole import in one transaction.
+ *
+ * @module catalogImportWorker
+ */
+
+import {
+  CATALOG_IMPORT_APPLY_JOB_TYPE,
+  runCatalogImportJob,
+} from '../services/catalogImport/catalogImport.service.js';
+import { NonRetryableJobError } from '../services/jobQueue/jobQueue.service.js';
+import { JOB_WORKER_ACTOR_ID } from '../services/jobQueue/jobQueue.worker.js';
+import type { JobHandlerDefinition } from '../services/jobQueue/jobQueue.types.js';
+
+export interface CatalogImportApplyJobPayload {
+  importId: string;
+}
+
+/**
+ * 'catalog.import.apply' job handler.
+ *
+ * - perOrgConcurrency 1: a tenant's imports apply one at a time, so two sheets
+ *   touching the same SKU cannot interleave
+ * - leaseMs covers one chunk including image downloads; the worker heartbeat
+ *   extends it while the import runs
+ */
+export const catalogImportApplyJobHandler: JobHandlerDefinition<CatalogImportApplyJobPayload, 'system'> = {
+  jobType:           CATALOG_IMPORT_APPLY_JOB_TYPE,
+  scope:             'system',
+  leaseMs:           5 * 60_000,
+  backoff:           { baseMs: 30_000, maxMs: 15 * 60_000 },
+  perOrgConcurrency: 1,
+  batchSize:         2,
+  handle: async (db, payload, ctx) => {
+    // orgId comes from the job row (set from req.dbContext.orgId at enqueue), never the payload.
+    if (!ctx.orgId || typeof payload?.importId !== 'string') {
+      throw new NonRetryableJobError('catalog.import.apply requires orgId and importId');
+    }
+    await runCatalogImportJob(db, ctx.orgId, payload.importId, {
+      requestId:       ctx.requestId,
+      fallbackActorId: JOB_WORKER_ACTOR_ID,
+      attempt:         ctx.attempt,
+      maxAttempts:     ctx.maxAttempts,
+    });
+  },
+};
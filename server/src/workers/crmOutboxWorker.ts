@@ -0,0 +1,44 @@
+/**
+ * crmOutboxWorker.ts — CRM notify outbox delivery job handler
+ *
+ * CRM-NOTIFY-OUTBOX-001: registers the 'crm.outbox.deliver' job type with the
+ * durable background job queue. One job per outbox event (dedupe key
+ * 'crm-outbox:<eventId>'); the job payload carries only the event id.
+ *
+ * Architecture:
+ *   notify*() / Tier 0 fallback → crm_outbox_events + background_jobs rows (one transaction)
+ *   → job worker claim (jobQueue.worker.ts)
+ *   → deliverCrmOutboxEvent(prisma, eventId) — HMAC-signed POST, attempt recorded
+ *
+ * Scope: system. Delivery reads and writes only the outbox tables on the service
+ * connection; it never touches tenant data, so no tenant context is needed.
+ *
+ * @module crmOutboxWorker
+ */
+
+import { deliverCrmOutboxEvent } from '../services/crmOutbox/crmOutbox.dispatcher.js';
+import { CRM_OUTBOX_DELIVER_JOB_TYPE } from '../services/crmOutbox/crmOutbox.service.js';
+import type { CrmOutboxDeliverJobPayload } from '../services/crmOutbox/crmOutbox.types.js';
+import type { JobHandlerDefinition } from '../services/jobQueue/jobQueue.types.js';
+
+/**
+ * 'crm.outbox.deliver' job handler.
+ *
+ * - backoff 30s → 1h: eight attempts span roughly two hours of CRM downtime
+ *   before the event is dead-lettered for control-plane replay
+ * - leaseMs covers the 8s notify timeout with ample margin
+ */
+export const crmOutboxDeliveryJobHandler: JobHandlerDefinition<CrmOutboxDeliverJobPayload, 'system'> = {
+  jobType:           CRM_OUTBOX_DELIVER_JOB_TYPE,
+  scope:             'system',
+  leaseMs:           60_000,
+  backoff:           { baseMs: 30_000, maxMs: 60 * 60_000 },
+  perOrgConcurrency: 2,
+  batchSize:         10,
+  handle: async (db, payload, ctx) => {
+    await deliverCrmOutboxEvent(db, payload.eventId, {
+      attempt:     ctx.attempt,
+      maxAttempts: ctx.maxAttempts,
+    });
+  },
+};
@@ -0,0 +1,44 @@
+/**
+ * eventProjectionWorker.ts — Domain event projection job handler
+ *
+ * TENANT-WEBHOOKS-001: registers the 'events.projection.apply' job type with the
+ * durable background job queue. publishDomainEvent() enqueues one job per stored
+ * event in the transaction of the state change, so a projection runs only for a
+ * committed event, however long that transaction takes.
+ *
+ * Architecture:
+ *   publishDomainEvent() → event_logs + background_jobs rows (caller's transaction)
+ *   → job worker claim (jobQueue.worker.ts)
+ *   → applyDomainEventProjections(prisma, event) — projector bypass transaction
+ *
+ * Scope: system. Projectors write read models for every tenant under
+ * withBypassForProjector, which needs the full service client.
+ *
+ * @module eventProjectionWorker
+ */
+
+import {
+  EVENT_PROJECTION_JOB_TYPE,
+  applyDomainEventProjections,
+  type EventProjectionJobPayload,
+} from '../lib/events.js';
+import type { JobHandlerDefinition } from '../services/jobQueue/jobQueue.types.js';
+
+/**
+ * 'events.projection.apply' job handler. Idempotent — projection handlers skip
+ * events they have already applied, so a retry after a partial failure is safe.
+ *
+ * - perOrgConcurrency 1: a tenant's events project one at a time, in claim order
+ * - backoff 5s → 5m: a failed projector retries well before the read model goes stale
+ */
+export const eventProjectionJobHandler: JobHandlerDefinition<EventProjectionJobPayload, 'system'> = {
+  jobType:           EVENT_PROJECTION_JOB_TYPE,
+  scope:             'system',
+  leaseMs:           60_000,
+  backoff:           { baseMs: 5_000, maxMs: 5 * 60_000 },
+  perOrgConcurrency: 1,
+  batchSize:         20,
+  handle: async (db, payload) => {
+    await applyDomainEventProjections(db, payload.event);
+  },
+};
@@ -0,0 +1,81 @@
+/**
+ * governanceExpiryWorker.ts — Governance expiry sweep job handler
+ *
+ * GOV-EXPIRY-SWEEP-001: registers the 'governance.expiry.sweep' job type with the
+ * durable background job queue. The job is self-scheduling: schedule time is cut
+ * into slots of GOV_EXPIRY_SWEEP_INTERVAL_MS, and each slot has one job (dedupe
+ * key 'slot:<n>'). Every run first enqueues slot n+1, then sweeps — so a failing
+ * sweep retries on its own backoff without breaking the chain.
+ *
+ * Architecture:
+ *   startBackgroundJobWorker() → scheduleGovernanceExpirySweep() (current slot)
+ *   → job worker claim (jobQueue.worker.ts)
+ *   → enqueue next slot → GovernanceExpiryService.runSweep()
+ *
+ * Scope: system. The sweep spans all orgs on the service connection.
+ * Multi-instance: every node schedules the current slot at boot; the dedupe key
+ * collapses these to one job, and runSweep() is idempotent if a slot runs twice.
+ *
+ * @module governanceExpiryWorker
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { config } from '../config/index.js';
+import { enqueueJob } from '../services/jobQueue/jobQueue.service.js';
+import type {
+  BackgroundJobRecord,
+  JobHandlerDefinition,
+} from '../services/jobQueue/jobQueue.types.js';
+import { GovernanceExpiryService } from '../services/governanceExpiry.service.js';
+import type { GovernanceExpirySweepJobPayload } from '../services/governanceExpiry.types.js';
+
+export const GOVERNANCE_EXPIRY_SWEEP_JOB_TYPE = 'governance.expiry.sweep' as const;
+
+/**
+ * Enqueue the sweep for the slot containing `now` (or the next slot).
+ * Returns the existing job when that slot is already PENDING / RUNNING.
+ */
+export function scheduleGovernanceExpirySweep(
+  db: PrismaClient,
+  now: Date = new Date(),
+  options: { nextSlot?: boolean; intervalMs?: number } = {},
+): Promise<BackgroundJobRecord> {
+  const intervalMs = options.intervalMs ?? config.GOV_EXPIRY_SWEEP_INTERVAL_MS;
+  const slot = Math.floor(now.getTime() / intervalMs) + (options.nextSlot ? 1 : 0);
+  const payload: GovernanceExpirySweepJobPayload = { slot };
+  return enqueueJob(db, {
+    jobType:   GOVERNANCE_EXPIRY_SWEEP_JOB_TYPE,
+    orgId:     null,
+    payload,
+    runAt:     options.nextSlot ? new Date(slot * intervalMs) : now,
+    dedupeKey: `slot:${slot}`,
+  });
+}
+
+/**
+ * 'governance.expiry.sweep' job handler.
+ *
+ * - leaseMs covers a full batch (500 approvals + 500 sanctions + notifications)
+ * - backoff 30s → 5m: a failed slot retries well before the next one is due
+ */
+export const governanceExpirySweepJobHandler: JobHandlerDefinition<GovernanceExpirySweepJobPayload, 'system'> = {
+  jobType:   GOVERNANCE_EXPIRY_SWEEP_JOB_TYPE,
+  scope:     'system',
+  leaseMs:   5 * 60_000,
+  backoff:   { baseMs: 30_000, maxMs: 5 * 60_000 },
+  batchSize: 1,
+  handle: async (db, _payload, ctx) => {
+    await scheduleGovernanceExpirySweep(db, new Date(), { nextSlot: true });
+
+    const result = await new GovernanceExpiryService(db).runSweep();
+    console.info('[gov-expiry] sweep completed', {
+      jobId:            ctx.jobId,
+      sweepRunId:       result.sweepRunId,
+      approvalsExpired: result.approvalsExpired,
+      sanctionsDecayed: result.sanctionsDecayed,
+      skipped:          result.skipped,
+      notifications:    result.notifications,
+      truncated:        result.truncated,
+    });
+  },
+};
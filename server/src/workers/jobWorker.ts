@@ -0,0 +1,66 @@
+/**
+ * jobWorker.ts — Production background job worker bootstrap
+ *
+ * OPS-BACKGROUND-JOB-QUEUE-001: starts the durable job queue worker with every
+ * registered job type. New background work registers its JobHandlerDefinition in
+ * JOB_HANDLERS below and enqueues with enqueueJob() (services/jobQueue).
+ *
+ * Multi-instance: every API node may run this worker; claims are lease-based and
+ * per-org concurrency is enforced across instances (see jobQueue.service.ts).
+ *
+ * @module jobWorker
+ */
+
+import { prisma } from '../db/prisma.js';
+import { config } from '../config/index.js';
+import { startJobQueueWorker } from '../services/jobQueue/jobQueue.worker.js';
+import type { JobHandlerDefinition, JobWorkerHandle } from '../services/jobQueue/jobQueue.types.js';
+import { vectorIndexJobHandler } from './vectorWorker.js';
+import { crmOutboxDeliveryJobHandler } from './crmOutboxWorker.js';
+import { catalogImportApplyJobHandler } from './catalogImportWorker.js';
+import { webhookDeliveryJobHandler, webhookFanoutJobHandler } from './webhookWorker.js';
+import { eventProjectionJobHandler } from './eventProjectionWorker.js';
+import {
+  governanceExpirySweepJobHandler,
+  scheduleGovernanceExpirySweep,
+} from './governanceExpiryWorker.js';
+import { auditChainSealJobHandler, scheduleAuditChainSeal } from './auditChainWorker.js';
+
+/** All job types this deployment executes. Job types must be unique. */
+export const JOB_HANDLERS: readonly JobHandlerDefinition[] = [
+  vectorIndexJobHandler,
+  crmOutboxDeliveryJobHandler,
+  governanceExpirySweepJobHandler,
+  catalogImportApplyJobHandler,
+  webhookFanoutJobHandler,
+  webhookDeliveryJobHandler,
+  eventProjectionJobHandler,
+  auditChainSealJobHandler,
+];
+
+/**
+ * Start the production background job worker.
+ *
+ * @returns worker handle, or null when JOB_WORKER_ENABLED=false (web-only node)
+ */
+export function startBackgroundJobWorker(): JobWorkerHandle | null {
+  if (!config.JOB_WORKER_ENABLED) {
+    console.info('[JOBQ][worker_disabled]', { reason: 'JOB_WORKER_ENABLED=false' });
+    return null;
+  }
+  // Seed the self-scheduling governance sweep chain (idempotent per slot).
+  scheduleGovernanceExpirySweep(prisma).catch((err: unknown) => {
+    console.error('[gov-expiry] failed to schedule sweep', {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  });
+  // Seed the self-scheduling audit chain seal (idempotent per slot).
+  scheduleAuditChainSeal(prisma).catch((err: unknown) => {
+    console.error('[audit-chain] failed to schedule seal', {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  });
+  return startJobQueueWorker(prisma, JOB_HANDLERS, {
+    pollIntervalMs: config.JOB_WORKER_POLL_INTERVAL_MS,
+  });
+}
@@ -1,33 +1,29 @@
 /**
- * vectorWorker.ts — Production vector index queue bootstrap
+ * vectorWorker.ts — Vector index job handler
  *
- * G-028-B2-WORKER-BOOTSTRAP: wires the vector index queue worker into the
- * production server bootstrap so enqueued upsert/delete jobs actually execute.
+ * G-028-B2-WORKER-BOOTSTRAP / OPS-BACKGROUND-JOB-QUEUE-001: registers the
+ * 'vector.index' job type with the durable background job queue so enqueued
+ * upsert/delete jobs execute on any API instance and survive restarts.
  *
  * Architecture:
- *   enqueueSourceIngestion/Deletion → in-process queue
- *   → worker tick (1s) → runner(job)
- *   → withDbContext(prisma, ctx, tx => executeVectorIndexJob(tx, job))
+ *   enqueueSourceIngestion/Deletion → background_jobs row ('vector.index')
+ *   → job worker claim (jobQueue.worker.ts)
+ *   → withDbContext(prisma, { orgId: job.orgId, actorId: VECTOR_WORKER_ACTOR_ID }, tx =>
+ *       executeVectorIndexJob(tx, job))
  *
  * Tenant Safety Guarantees:
- *   - Each job carries orgId from req.dbContext.orgId (validated at enqueue time)
- *   - withDbContext sets app.org_id and enforces RLS for every transaction
- *   - orgId is taken ONLY from job.orgId — never from an external source
+ *   - Each job row carries orgId from req.dbContext.orgId (set at enqueue time)
+ *   - The job worker wraps the handler in withDbContext (app.org_id + RLS)
+ *   - orgId is taken ONLY from the job row — never from the payload
  *   - actorId is a fixed system service identity (not a real user account)
  *
- * Known limitations (inherited from A6 queue architecture §14):
- *   - In-process queue is lost on server restart (no persistence)
- *   - Not suitable for multi-instance deployments
- *
  * @module vectorWorker
  */
 
-import { randomUUID } from 'node:crypto';
-import { prisma } from '../db/prisma.js';
-import { withDbContext, type DatabaseContext } from '../lib/database-context.js';
 import { executeVectorIndexJob } from '../services/vectorIngestion.js';
-import { startVectorIndexWorker } from '../services/vectorIndexQueue.js';
-import type { VectorIndexJob } from '../services/vectorIndexQueue.js';
+import { VECTOR_INDEX_JOB_TYPE } from '../services/vectorIndexQueue.js';
+import type { VectorIndexJobPayload } from '../services/vectorIndexQueue.js';
+import type { JobHandlerDefinition } from '../services/jobQueue/jobQueue.types.js';
 
 // ─── System Service Identity ──────────────────────────────────────────────────
 
@@ -41,47 +37,28 @@ import type { VectorIndexJob } from '../services/vectorIndexQueue.js';
  */
 const VECTOR_WORKER_ACTOR_ID = '00000000-0000-0000-0000-000000000001' as const;
 
-// ─── Context Builder ──────────────────────────────────────────────────────────
+// ─── Handler ──────────────────────────────────────────────────────────────────
 
 /**
- * Build a tenant-scoped DatabaseContext for background vector job execution.
+ * 'vector.index' job handler.
  *
- * - orgId   — from job.orgId (authoritative; set at enqueue from req.dbContext.orgId)
- * - actorId — VECTOR_WORKER_ACTOR_ID (fixed system service identity)
- * - realm   — 'tenant' (tenant-scoped vector data, not control-plane)
- * - requestId — generated per-job for per-execution trace observability
+ * - tenant scope: runs inside withDbContext(job.orgId) — RLS-enforced transaction
+ * - dispatches via executeVectorIndexJob() — handles both upsert and delete;
+ *   ingestion errors are thrown so the queue retries or dead-letters the job
+ * - upsert payloads carry source text, so they are cleared once the job succeeds
+ * - one embedding-heavy job per org at a time keeps a tenant-wide reindex from
+ *   starving other tenants
  */
-function buildVectorJobContext(orgId: string): DatabaseContext {
-  return {
-    orgId,
-    actorId:   VECTOR_WORKER_ACTOR_ID,
-    realm:     'tenant',
-    requestId: randomUUID(),
-  };
-}
-
-// ─── Production Runner ────────────────────────────────────────────────────────
-
-/**
- * Start the production vector index worker.
- *
- * Creates a concrete JobRunner that:
- * 1. Builds a tenant-scoped DatabaseContext from job.orgId
- * 2. Wraps execution in withDbContext() (RLS-enforced transaction)
- * 3. Dispatches via executeVectorIndexJob() — handles both upsert and delete
- *
- * This satisfies the constitutional requirement that all DB writes run under
- * RLS isolation (vectorIndexQueue.ts architecture §CONSTITUTIONAL CONSTRAINTS).
- *
- * @returns stop handle — call on server shutdown to clear the worker interval
- */
-export function startVectorWorker(): { stop: () => void } {
-  const runner = async (job: VectorIndexJob): Promise<void> => {
-    const ctx = buildVectorJobContext(job.orgId);
-    await withDbContext(prisma, ctx, async (tx) => {
-      await executeVectorIndexJob(tx, job);
-    });
-  };
-
-  return startVectorIndexWorker(runner);
-}
+export const vectorIndexJobHandler: JobHandlerDefinition<VectorIndexJobPayload, 'tenant'> = {
+  jobType:               VECTOR_INDEX_JOB_TYPE,
+  scope:                 'tenant',
+  actorId:               VECTOR_WORKER_ACTOR_ID,
+  leaseMs:               120_000,
+  backoff:               { baseMs: 10_000, maxMs: 30 * 60_000 },
+  perOrgConcurrency:     1,
+  batchSize:             5,
+  clearPayloadOnSuccess: true,
+  handle: async (tx, payload, ctx) => {
+    await executeVectorIndexJob(tx, { ...payload, orgId: ctx.orgId as string });
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * webhookWorker.ts — Tenant outbound webhook job handlers
+ *
+ * TENANT-WEBHOOKS-001: registers two job types with the durable background job queue.
+ *
+ * Architecture:
+ *   publishDomainEvent() → background_jobs row ('webhook.fanout') in the state-change transaction
+ *   → fan-out handler: fanOutWebhookEvent() — one delivery row + 'webhook.deliver' job per
+ *     matching enabled subscription (dedupe key 'webhook-delivery:<deliveryId>')
+ *   → deliver handler: deliverWebhook(prisma, deliveryId) — signed POST, outcome recorded
+ *
+ * Scope: system. Both handlers read and write only the webhook tables on the service
+ * connection; fan-out reads subscriptions of every audience org (buyer and supplier),
+ * so no single tenant context applies.
+ *
+ * @module webhookWorker
+ */
+
+import { deliverWebhook } from '../services/webhooks/webhook.dispatcher.js';
+import { fanOutWebhookEvent } from '../services/webhooks/webhook.service.js';
+import {
+  WEBHOOK_DELIVER_JOB_TYPE,
+  WEBHOOK_FANOUT_JOB_TYPE,
+  type WebhookDeliverJobPayload,
+  type WebhookFanoutJobPayload,
+} from '../services/webhooks/webhook.types.js';
+import type { JobHandlerDefinition } from '../services/jobQueue/jobQueue.types.js';
+
+/**
+ * 'webhook.fanout' job handler. Idempotent — a retry creates no duplicate deliveries.
+ */
+export const webhookFanoutJobHandler: JobHandlerDefinition<WebhookFanoutJobPayload, 'system'> = {
+  jobType:           WEBHOOK_FANOUT_JOB_TYPE,
+  scope:             'system',
+  leaseMs:           60_000,
+  backoff:           { baseMs: 5_000, maxMs: 5 * 60_000 },
+  perOrgConcurrency: 4,
+  batchSize:         20,
+  handle: async (db, payload) => {
+    await fanOutWebhookEvent(db, payload);
+  },
+};
+
+/**
+ * 'webhook.deliver' job handler.
+ *
+ * - backoff 30s → 1h: eight attempts span roughly an hour of endpoint downtime
+ *   before the delivery is dead-lettered for redelivery from the workspace
+ * - leaseMs covers the 10s send timeout with ample margin
+ * - perOrgConcurrency 2 keeps one slow tenant endpoint from starving the queue
+ */
+export const webhookDeliveryJobHandler: JobHandlerDefinition<WebhookDeliverJobPayload, 'system'> = {
+  jobType:           WEBHOOK_DELIVER_JOB_TYPE,
+  scope:             'system',
+  leaseMs:           60_000,
+  backoff:           { baseMs: 30_000, maxMs: 60 * 60_000 },
+  perOrgConcurrency: 2,
+  batchSize:         10,
+  handle: async (db, payload, ctx) => {
+    await deliverWebhook(db, payload.deliveryId, {
+      attempt:     ctx.attempt,
+      maxAttempts: ctx.maxAttempts,
+    });
+  },
+};
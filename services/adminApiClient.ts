@@ -5,7 +5,8 @@
  * Throws REALM_MISMATCH error if current realm is not CONTROL_PLANE.
  */
 
-import { get, post, put, patch, del, getCurrentAuthRealm } from './apiClient';
+import { get, post, put, patch, del, download, subscribe, getCurrentAuthRealm } from './apiClient';
+import type { SubscriptionHandlers } from './apiClient';
 
 /**
  * Wave 0-B-FIX-V3: Realm hint header for admin requests
@@ -94,3 +95,23 @@ export function adminDelete<T>(endpoint: string): Promise<T> {
   requireAdminRealm();
   return del<T>(endpoint, ADMIN_REALM_HEADER);
 }
+
+/**
+ * File download (GET → Blob) with admin realm guard + hint header
+ */
+export function adminDownload(endpoint: string): Promise<globalThis.Blob> {
+  requireAdminRealm();
+  return download(endpoint, ADMIN_REALM_HEADER);
+}
+
+/**
+ * Server-sent event subscription with admin realm guard + hint header (EVENT-STREAM-001)
+ */
+export function adminSubscribe(
+  endpoint: string,
+  handlers: SubscriptionHandlers,
+  lastEventId?: string | null
+): () => void {
+  requireAdminRealm();
+  return subscribe(endpoint, handlers, { headers: ADMIN_REALM_HEADER, lastEventId });
+}
@@ -10,7 +10,7 @@
  */
 
 import { get, APIError } from './apiClient';
-import { tenantGet, tenantPost } from './tenantApiClient';
+import { tenantGet, tenantPost, tenantStream } from './tenantApiClient';
 
 interface InsightsResponse {
   insightText: string;
@@ -34,9 +34,13 @@ interface AIHealthResponse {
  * Get platform insights from AI
  *
  * @param prompt - Context description (tenant type, experience, etc.)
+ * @param onPartial - When given, the response is streamed and called with the text so far
  * @returns AI-generated insight text
  */
-export const getPlatformInsights = async (prompt: string): Promise<string> => {
+export const getPlatformInsights = async (
+  prompt: string,
+  onPartial?: (textSoFar: string) => void
+): Promise<string> => {
   try {
     // Extract hints from prompt for query params
     const params = new URLSearchParams();
@@ -54,7 +58,13 @@ export const getPlatformInsights = async (prompt: string): Promise<string> => {
     const queryString = params.toString();
     const endpoint = `/api/ai/insights${queryString ? `?${queryString}` : ''}`;
 
-    const response = await tenantGet<InsightsResponse>(endpoint);
+    let textSoFar = '';
+    const response = onPartial
+      ? await tenantStream<InsightsResponse>(endpoint, 'GET', undefined, delta => {
+          textSoFar += delta;
+          onPartial(textSoFar);
+        })
+      : await tenantGet<InsightsResponse>(endpoint);
 
     return response.insightText;
   } catch (error) {
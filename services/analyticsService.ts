@@ -0,0 +1,92 @@
+/**
+ * TexQtic Analytics Service — Tenant Plane (ANALYTICS-PROJECTIONS-001)
+ *
+ * Read-only surface over the analytics projections:
+ *   - supplier performance summary of the current org (as a supplier)
+ *   - buyer spend of the current org by month, supplier, category and currency
+ *
+ * D-017-A: orgId is NEVER sent by the client. The server derives org scope
+ *           exclusively from JWT claims (orgId / tenantId).
+ *
+ * Amounts are decimal strings; they are only formatted, never summed, client-side.
+ */
+
+import { tenantGet } from './tenantApiClient';
+
+// ==================== TYPES ====================
+
+/** Shares between 0 and 1; null while the denominator is 0. */
+export interface SupplierPerformanceRates {
+  responseRate: number | null;
+  respondedWithin24hRate: number | null;
+  poolQuoteWinRate: number | null;
+  onTimeFulfilmentRate: number | null;
+}
+
+/** Trailing-window summary of GET /api/tenant/analytics/supplier-performance. */
+export interface SupplierPerformanceSummary {
+  windowDays: number;
+  rfqReceivedCount: number;
+  rfqRespondedCount: number;
+  respondedWithin24hCount: number;
+  responseMinutesMedian: number | null;
+  responseMinutesAvg: number | null;
+  poolQuoteDecidedCount: number;
+  poolQuoteWonCount: number;
+  fulfilmentDueCount: number;
+  fulfilmentOnTimeCount: number;
+  rates: SupplierPerformanceRates;
+  lastUpdatedAt: string;
+}
+
+/** One month × supplier × category × currency bucket. */
+export interface BuyerSpendRow {
+  /** YYYY-MM */
+  month: string;
+  supplierOrgId: string;
+  supplierName: string | null;
+  category: string;
+  currency: string;
+  tradeCount: number;
+  totalAmount: string;
+}
+
+export interface BuyerSpendTotal {
+  currency: string;
+  tradeCount: number;
+  totalAmount: string;
+}
+
+export interface BuyerSpendResponse {
+  from: string;
+  to: string;
+  rows: BuyerSpendRow[];
+  totals: BuyerSpendTotal[];
+  lastUpdatedAt: string | null;
+}
+
+export interface BuyerSpendParams {
+  /** YYYY-MM, inclusive */
+  from?: string;
+  /** YYYY-MM, inclusive */
+  to?: string;
+}
+
+// ==================== ANALYTICS ====================
+
+/** Route: GET /api/tenant/analytics/supplier-performance — summary is null before the first projection. */
+export async function getSupplierPerformance(): Promise<{ summary: SupplierPerformanceSummary | null }> {
+  return tenantGet<{ summary: SupplierPerformanceSummary | null }>('/api/tenant/analytics/supplier-performance');
+}
+
+/** Route: GET /api/tenant/analytics/buyer-spend — defaults to the last 12 months. */
+export async function getBuyerSpend(params?: BuyerSpendParams): Promise<BuyerSpendResponse> {
+  const searchParams = new URLSearchParams();
+  if (params?.from) searchParams.set('from', params.from);
+  if (params?.to)   searchParams.set('to',   params.to);
+
+  const qs = searchParams.toString();
+  const endpoint = qs ? `/api/tenant/analytics/buyer-spend?${qs}` : '/api/tenant/analytics/buyer-spend';
+
+  return tenantGet<BuyerSpendResponse>(endpoint);
+}
@@ -291,10 +291,95 @@ async function withRetry<T>(
   throw lastError;
 }
 
+interface EventFrame {
+  event: string;
+  data: string;
+  id: string | null;
+  retry: number | null;
+}
+
+/** Parses one server-sent event frame; comment lines (`: ping`) are ignored. */
+function parseEventFrame(frame: string): EventFrame {
+  const parsed: EventFrame = { event: 'message', data: '', id: null, retry: null };
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) parsed.event = line.slice(6).trim();
+    else if (line.startsWith('data:')) parsed.data += line.slice(5).trim();
+    else if (line.startsWith('id:')) parsed.id = line.slice(3).trim();
+    else if (line.startsWith('retry:')) parsed.retry = Number(line.slice(6).trim()) || null;
+  }
+  return parsed;
+}
+
+/** Splits a response body into server-sent event frames. */
+async function* readEventFrames(
+  reader: globalThis.ReadableStreamDefaultReader<Uint8Array>
+): AsyncGenerator<EventFrame> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+      yield parseEventFrame(frame);
+    }
+  }
+}
+
+/**
+ * Reads a server-sent event stream (AI-STREAM-001): `delta` frames are passed to
+ * onDelta, `done` carries the final payload and `error` becomes an APIError.
+ */
+async function readEventStream<T>(response: Response, onDelta: (text: string) => void): Promise<T> {
+  if (!response.body) {
+    throw new APIError(0, 'Stream closed before completion.', 'STREAM_ERROR');
+  }
+  const reader = response.body.getReader();
+
+  for await (const { event, data } of readEventFrames(reader)) {
+    const payload = data ? JSON.parse(data) : null;
+
+    if (event === 'delta') {
+      onDelta(payload?.text ?? '');
+    } else if (event === 'done') {
+      await reader.cancel();
+      return payload as T;
+    } else if (event === 'error') {
+      await reader.cancel();
+      throw new APIError(
+        500,
+        payload?.message || 'Service temporarily unavailable. Try again.',
+        payload?.code || 'STREAM_ERROR',
+        payload?.details
+      );
+    }
+  }
+
+  throw new APIError(0, 'Stream closed before completion.', 'STREAM_ERROR');
+}
+
 /**
  * Generic API request function
+ *
+ * When onDelta is given the request asks for `text/event-stream`; a streamed reply
+ * is read with readEventStream, a plain JSON reply (errors, cache hits served before
+ * the stream opens) is handled as usual.
+ *
+ * With responseType 'blob' a successful reply is returned as a Blob (file downloads);
+ * error replies are still parsed and mapped to APIError.
  */
-async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+async function apiRequest<T>(
+  endpoint: string,
+  options: RequestInit = {},
+  onDelta?: (text: string) => void,
+  responseType: 'json' | 'blob' = 'json'
+): Promise<T> {
   const url = `${API_BASE_URL}${endpoint}`;
   const token = getToken();
 
@@ -335,6 +420,10 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
     headers['Authorization'] = `Bearer ${token}`;
   }
 
+  if (onDelta) {
+    headers['Accept'] = 'text/event-stream';
+  }
+
   if (AUTH_DEBUG) {
     console.log('[apiClient] →', {
       url,
@@ -440,6 +529,14 @@ async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promi
       );
     }
 
+    if (onDelta && response.headers.get('content-type')?.includes('text/event-stream')) {
+      return await readEventStream<T>(response, onDelta);
+    }
+
+    if (responseType === 'blob') {
+      return (await response.blob()) as T;
+    }
+
     // Parse JSON response
     const data = await response.json();
 
@@ -534,6 +631,142 @@ export async function del<T>(endpoint: string, headers?: Record<string, string>)
   return apiRequest<T>(endpoint, { method: 'DELETE', headers });
 }
 
+/**
+ * Streaming request (AI-STREAM-001). Calls onDelta with each text fragment and
+ * resolves with the final payload; never retried.
+ * @param headers Optional custom headers (e.g., realm hint)
+ */
+export async function stream<T>(
+  endpoint: string,
+  method: 'GET' | 'POST',
+  body: any,
+  onDelta: (text: string) => void,
+  headers?: Record<string, string>
+): Promise<T> {
+  return apiRequest<T>(
+    endpoint,
+    { method, body: body ? JSON.stringify(body) : undefined, headers },
+    onDelta
+  );
+}
+
+/**
+ * File download (GET). Resolves with the response body as a Blob; never retried.
+ * @param headers Optional custom headers (e.g., realm hint)
+ */
+export async function download(
+  endpoint: string,
+  headers?: Record<string, string>
+): Promise<globalThis.Blob> {
+  return apiRequest<globalThis.Blob>(endpoint, { method: 'GET', headers }, undefined, 'blob');
+}
+
+export type SubscriptionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface SubscriptionHandlers {
+  /** Every named event with its parsed data and SSE id. */
+  onEvent: (event: string, data: any, id: string | null) => void;
+  onStatus?: (status: SubscriptionStatus) => void;
+  /** Request rejected (auth, validation) — the subscription has stopped. */
+  onError?: (error: APIError) => void;
+}
+
+const SUBSCRIPTION_MAX_BACKOFF_MS = 30_000;
+
+/**
+ * Long-lived server-sent event subscription (EVENT-STREAM-001).
+ *
+ * Uses fetch rather than EventSource so the bearer token can be sent. Reconnects
+ * with exponential backoff and sends the last seen event id as Last-Event-ID; a
+ * `reconnect` event reconnects at once. 4xx replies other than 429 stop the
+ * subscription and are passed to onError. Returns the unsubscribe function; a
+ * realm change ends every subscription as well.
+ */
+export function subscribe(
+  endpoint: string,
+  handlers: SubscriptionHandlers,
+  options: { headers?: Record<string, string>; lastEventId?: string | null } = {}
+): () => void {
+  const controller = new AbortController();
+  const realmSignal = currentAbortController.signal;
+  let lastEventId = options.lastEventId ?? null;
+  let retryMs = 3_000;
+  let failures = 0;
+  let stopped = false;
+
+  const stop = (): void => {
+    if (stopped) return;
+    stopped = true;
+    controller.abort();
+    realmSignal.removeEventListener('abort', stop);
+    handlers.onStatus?.('closed');
+  };
+  realmSignal.addEventListener('abort', stop);
+
+  const connect = async (): Promise<boolean> => {
+    const headers: Record<string, string> = { ...options.headers, Accept: 'text/event-stream' };
+    const token = getToken();
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      method: 'GET',
+      headers,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const error = new APIError(
+        response.status,
+        errorData.error?.message || 'Event stream unavailable.',
+        errorData.error?.code || 'STREAM_ERROR',
+        errorData.error?.details
+      );
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        handlers.onError?.(error);
+        stop();
+      }
+      return false;
+    }
+    if (!response.body) return false;
+
+    handlers.onStatus?.('open');
+    failures = 0;
+    const reader = response.body.getReader();
+    for await (const frame of readEventFrames(reader)) {
+      if (frame.retry) retryMs = frame.retry;
+      if (frame.id) lastEventId = frame.id;
+      if (!frame.data) continue;
+      handlers.onEvent(frame.event, JSON.parse(frame.data), frame.id);
+      if (frame.event === 'reconnect') {
+        await reader.cancel();
+        return true;
+      }
+    }
+    return false;
+  };
+
+  void (async () => {
+    handlers.onStatus?.('connecting');
+    while (!stopped) {
+      let immediate = false;
+      try {
+        immediate = await connect();
+      } catch {
+        // Network errors and aborted reads fall through to the retry below.
+      }
+      if (stopped) return;
+      handlers.onStatus?.('reconnecting');
+      if (!immediate) {
+        failures += 1;
+        await sleep(Math.min(retryMs * 2 ** (failures - 1), SUBSCRIPTION_MAX_BACKOFF_MS));
+      }
+    }
+  })();
+
+  return stop;
+}
+
 /**
  * Check if user is authenticated
  */
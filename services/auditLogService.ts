@@ -0,0 +1,90 @@
+/**
+ * TexQtic Audit Log Service — Tenant Plane (AUDIT-CHAIN-001)
+ *
+ * Tamper-evidence surface for the tenant audit log:
+ *   - verify the tenant's audit hash chain (any member)
+ *   - download a signed export bundle for a date range (OWNER / ADMIN)
+ *
+ * D-017-A: orgId is NEVER sent by the client. The server verifies and exports
+ * only the chain of the tenant in the JWT.
+ *
+ * The verification types below are shared with the control plane
+ * (controlPlaneService) — both realms return the same report shape.
+ */
+
+import { tenantDownload, tenantGet } from './tenantApiClient';
+
+// ==================== TYPES ====================
+
+export type AuditChainStatus = 'INTACT' | 'BROKEN' | 'EMPTY';
+
+export type AuditChainIssueCode =
+  | 'SEQUENCE_GAP'
+  | 'LINK_MISMATCH'
+  | 'ROW_MISSING'
+  | 'ROW_MODIFIED'
+  | 'CHECKPOINT_SIGNATURE_INVALID'
+  | 'CHECKPOINT_MISMATCH'
+  | 'CHECKPOINT_BEYOND_HEAD'
+  | 'CHECKPOINT_KEY_UNKNOWN'
+  | 'UNSEALED_ROWS';
+
+export interface AuditChainIssue {
+  code: AuditChainIssueCode;
+  severity: 'error' | 'warning';
+  seq: number | null;
+  auditLogId: string | null;
+  detail: string;
+}
+
+/** Report of GET …/audit-logs/verify. BROKEN means at least one error-severity issue. */
+export interface AuditChainVerification {
+  chainKey: string;
+  realm: 'ADMIN' | 'TENANT';
+  tenantId: string | null;
+  status: AuditChainStatus;
+  verifiedAt: string;
+  entriesChecked: number;
+  head: { seq: number; entryHash: string; sealedAt: string } | null;
+  checkpointsChecked: number;
+  lastCheckpoint: { seq: number; headHash: string; keyId: string; createdAt: string } | null;
+  /** Audit rows older than the sealing grace period that are not in the chain yet. */
+  unsealedRows: number;
+  issueCount: number;
+  /** First issues found; see issueCount for the total. */
+  issues: AuditChainIssue[];
+}
+
+/** Export range — [from, to) on audit created_at. */
+export interface AuditExportRange {
+  from: string;
+  to: string;
+}
+
+// ==================== API ====================
+
+/** Walk the tenant's audit chain and report gaps, edits and bad checkpoints. */
+export async function verifyTenantAuditChain(): Promise<AuditChainVerification> {
+  const data = await tenantGet<{ verification: AuditChainVerification }>('/api/tenant/audit-logs/verify');
+  return data.verification;
+}
+
+/**
+ * Download the signed export bundle (ZIP: audit-log.jsonl, checkpoints.jsonl,
+ * manifest.json, manifest.sig). OWNER / ADMIN only.
+ */
+export function downloadTenantAuditExport(range: AuditExportRange): Promise<globalThis.Blob> {
+  const query = new URLSearchParams({ from: range.from, to: range.to });
+  return tenantDownload(`/api/tenant/audit-logs/export?${query.toString()}`);
+}
+
+/**
+ * Export range for whole local calendar days: `fromDay` 00:00 up to the end of `toDay`
+ * (both YYYY-MM-DD, as produced by <input type="date">).
+ */
+export function auditExportRangeFromDays(fromDay: string, toDay: string): AuditExportRange {
+  const from = new Date(`${fromDay}T00:00:00`);
+  const to = new Date(`${toDay}T00:00:00`);
+  to.setDate(to.getDate() + 1);
+  return { from: from.toISOString(), to: to.toISOString() };
+}
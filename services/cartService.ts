@@ -18,12 +18,28 @@ export interface CatalogItem {
   active: boolean;
 }
 
+/** Selected variant on a cart line (CATALOG-VARIANTS-001). price / moq null = parent's. */
+export interface CartItemVariant {
+  id: string;
+  sku: string;
+  label: string;
+  color: string | null;
+  widthCm: number | null;
+  finish: string | null;
+  price: number | null;
+  moq: number | null;
+  imageUrl: string | null;
+  active: boolean;
+}
+
 export interface CartItem {
   id: string;
   cartId: string;
   catalogItemId: string;
+  variantId?: string | null;
   quantity: number;
   catalogItem: CatalogItem;
+  variant?: CartItemVariant | null;
 }
 
 export interface Cart {
@@ -39,6 +55,7 @@ export interface Cart {
 export interface AddToCartRequest {
   catalogItemId: string;
   quantity: number;
+  variantId?: string;
 }
 
 export interface UpdateCartItemRequest {
@@ -96,12 +113,19 @@ export async function removeCartItem(itemId: string): Promise<void> {
   await updateCartItem(itemId, { quantity: 0 });
 }
 
+/**
+ * Unit price of a cart line: the variant's own price, else the parent item's.
+ */
+export function getCartLineUnitPrice(item: CartItem): number {
+  return item.variant?.price ?? item.catalogItem.price;
+}
+
 /**
  * Calculate cart subtotal
  */
 export function calculateSubtotal(cart: Cart): number {
   return cart.items.reduce((sum, item) => {
-    return sum + item.catalogItem.price * item.quantity;
+    return sum + getCartLineUnitPrice(item) * item.quantity;
   }, 0);
 }
 
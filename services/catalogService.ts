@@ -4,6 +4,7 @@
  * Provides catalog operations:
  * - Fetch tenant catalog items with pagination
  * - Search catalog
+ * - Bulk CSV / XLSX import preview, apply and export
  */
 
 import { APIError, getAuthRealm, getToken } from './apiClient';
@@ -37,16 +38,124 @@ export interface CatalogItem {
   moq?: number;
   catalogVisibilityPolicyMode?: CatalogVisibilityPolicyMode | null;
   publicationPosture?: 'B2B_PUBLIC' | 'PRIVATE_OR_AUTH_ONLY' | 'BOTH' | null;
+  /** Colourways / widths / finishes of this item (CATALOG-VARIANTS-001). */
+  variants?: CatalogItemVariant[];
+}
+
+/**
+ * Orderable variant of a catalog item (CATALOG-VARIANTS-001).
+ * price / moq null = inherited from the parent item.
+ */
+export interface CatalogItemVariant {
+  id: string;
+  catalogItemId: string;
+  sku: string;
+  label: string;
+  color: string | null;
+  widthCm: number | null;
+  finish: string | null;
+  price: number | null;
+  moq: number | null;
+  imageUrl: string | null;
+  attributes: Record<string, string | number | boolean>;
+  active: boolean;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CatalogItemVariantInput {
+  sku: string;
+  label: string;
+  color?: string | null;
+  widthCm?: number | null;
+  finish?: string | null;
+  price?: number | null;
+  moq?: number | null;
+  imageUrl?: string | null;
+  attributes?: Record<string, string | number | boolean>;
+  active?: boolean;
+  sortOrder?: number;
 }
 
 export interface CatalogResponse {
   items: CatalogItem[];
   count: number;
   nextCursor: string | null;
+  /** Matches across all pages (CATALOG-SEARCH-001). */
+  total?: number;
+  facets?: CatalogSearchFacets;
+}
+
+// ==================== CATALOG SEARCH (CATALOG-SEARCH-001) ====================
+
+export interface CatalogSearchFacetBucket {
+  value: string;
+  count: number;
 }
 
-export interface CatalogQueryParams {
+export interface CatalogSearchRangeFacet {
+  min: number | null;
+  max: number | null;
+}
+
+/** Facet counts over the visible matches of a catalog search. */
+export interface CatalogSearchFacets {
+  productCategory: CatalogSearchFacetBucket[];
+  fabricType: CatalogSearchFacetBucket[];
+  material: CatalogSearchFacetBucket[];
+  construction: CatalogSearchFacetBucket[];
+  color: CatalogSearchFacetBucket[];
+  catalogStage: CatalogSearchFacetBucket[];
+  certification: CatalogSearchFacetBucket[];
+  /** Fibers named in item compositions, lower-cased. */
+  fiber: CatalogSearchFacetBucket[];
+  gsm: CatalogSearchRangeFacet;
+  widthCm: CatalogSearchRangeFacet;
+}
+
+/** Filters shared by every catalog search surface. */
+export interface CatalogSearchFilters {
+  /** Ranked full-text search over name, SKU, textile attributes and description. */
   q?: string;
+  productCategory?: string;
+  fabricType?: string;
+  material?: string | string[];
+  construction?: string;
+  color?: string;
+  gsmMin?: number;
+  gsmMax?: number;
+  widthMin?: number;
+  widthMax?: number;
+  moqMax?: number;
+  /** Every listed standard must be present. */
+  certification?: string | string[];
+  /** `<fiber>` or `<fiber>:<minPercent>` — e.g. `cotton:95` for at least 95% cotton. */
+  composition?: string | string[];
+  catalogStage?: string;
+}
+
+/** Appends the set catalog search filters to a query string. */
+export function appendCatalogSearchParams(queryParams: URLSearchParams, filters: CatalogSearchFilters): void {
+  const { q, ...rest } = filters;
+
+  if (q && q.trim().length > 0) {
+    queryParams.append('q', q.trim());
+  }
+
+  for (const [key, value] of Object.entries(rest)) {
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      value.forEach(entry => queryParams.append(key, String(entry)));
+    } else {
+      queryParams.append(key, String(value));
+    }
+  }
+}
+
+export interface CatalogQueryParams extends CatalogSearchFilters {
   limit?: number;
   cursor?: string;
 }
@@ -58,18 +167,17 @@ export interface CatalogQueryParams {
  * @returns Paginated catalog items
  */
 export async function getCatalogItems(params: CatalogQueryParams = {}): Promise<CatalogResponse> {
+  const { limit, cursor, ...filters } = params;
   const queryParams = new URLSearchParams();
 
-  if (params.q) {
-    queryParams.append('q', params.q);
-  }
+  appendCatalogSearchParams(queryParams, filters);
 
-  if (params.limit) {
-    queryParams.append('limit', params.limit.toString());
+  if (limit) {
+    queryParams.append('limit', limit.toString());
   }
 
-  if (params.cursor) {
-    queryParams.append('cursor', params.cursor);
+  if (cursor) {
+    queryParams.append('cursor', cursor);
   }
 
   const queryString = queryParams.toString();
@@ -82,7 +190,7 @@ export async function getCatalogItems(params: CatalogQueryParams = {}): Promise<
 /**
  * Search catalog items
  *
- * @param searchQuery - Search term (searches name and SKU)
+ * @param searchQuery - Search term (ranked over name, SKU, textile attributes and description)
  * @param limit - Max results per page
  * @returns Matching catalog items
  */
@@ -215,6 +323,8 @@ export interface DeleteCatalogItemResponse {
 
 export interface CreateRfqRequest {
   catalogItemId: string;
+  /** Selected variant of the item (CATALOG-VARIANTS-001). */
+  variantId?: string;
   quantity?: number;
   buyerMessage?: string;
   requirementTitle?: string;
@@ -239,6 +349,7 @@ export interface BuyerRfqListItem {
   id: string;
   status: BuyerRfqStatus;
   catalog_item_id: string;
+  variant_id?: string | null;
   item_name: string;
   item_sku: string | null;
   quantity: number;
@@ -268,6 +379,60 @@ export interface BuyerRfqSupplierResponse {
   created_at: string;
 }
 
+export type RfqQuoteAuthorSide = 'SUPPLIER' | 'BUYER';
+export type RfqQuoteStatus = 'ACTIVE' | 'SUPERSEDED' | 'ACCEPTED';
+
+export interface RfqQuoteQuantityBreak {
+  min_quantity: number;
+  unit_price: number;
+}
+
+/** One revision of a direct-RFQ quote negotiation (TECS-RFQ-QUOTE-001). */
+export interface RfqQuote {
+  id: string;
+  rfq_id: string;
+  revision: number;
+  author_side: RfqQuoteAuthorSide;
+  status: RfqQuoteStatus;
+  currency: string;
+  unit_price: number;
+  quantity: number;
+  quantity_breaks: RfqQuoteQuantityBreak[];
+  effective_unit_price: number;
+  total_amount: number;
+  lead_time_days: number | null;
+  incoterm: string | null;
+  valid_until: string | null;
+  expired: boolean;
+  payment_terms: string | null;
+  note: string | null;
+  created_by_user_id: string;
+  created_at: string;
+  accepted_at: string | null;
+}
+
+export interface RfqQuoteNegotiation {
+  quote_thread: RfqQuote[];
+  best_terms: RfqQuote | null;
+  accepted_quote_id: string | null;
+}
+
+export interface RfqQuoteTermsRequest {
+  unit_price: number;
+  currency: string;
+  quantity?: number;
+  quantity_breaks?: RfqQuoteQuantityBreak[];
+  lead_time_days?: number | null;
+  incoterm?: string | null;
+  valid_until?: string | null;
+  payment_terms?: string | null;
+  note?: string | null;
+}
+
+export interface RfqQuoteMutationResult extends RfqQuoteNegotiation {
+  quote: RfqQuote;
+}
+
 export interface BuyerRfqTradeContinuity {
   trade_id: string;
   trade_reference: string;
@@ -277,6 +442,7 @@ export interface BuyerRfqDetail {
   id: string;
   status: BuyerRfqStatus;
   catalog_item_id: string;
+  variant_id?: string | null;
   item_name: string;
   item_sku: string;
   quantity: number;
@@ -286,6 +452,9 @@ export interface BuyerRfqDetail {
   created_by_user_id: string;
   supplier_response: BuyerRfqSupplierResponse | null;
   trade_continuity: BuyerRfqTradeContinuity | null;
+  quote_thread?: RfqQuote[];
+  best_terms?: RfqQuote | null;
+  accepted_quote_id?: string | null;
   requirement_title?: string | null;
   quantity_unit?: string | null;
   urgency?: string | null;
@@ -306,6 +475,7 @@ export interface SupplierRfqListItem {
   id: string;
   status: BuyerRfqStatus;
   catalog_item_id: string;
+  variant_id?: string | null;
   item_name: string;
   item_sku: string | null;
   quantity: number;
@@ -328,6 +498,7 @@ export interface SupplierRfqDetail {
   id: string;
   status: BuyerRfqStatus;
   catalog_item_id: string;
+  variant_id?: string | null;
   item_name: string;
   item_sku: string | null;
   quantity: number;
@@ -340,6 +511,9 @@ export interface SupplierRfqDetail {
   sample_required?: boolean | null;
   delivery_country?: string | null;
   stage_requirement_attributes?: Record<string, unknown> | null;
+  quote_thread?: RfqQuote[];
+  best_terms?: RfqQuote | null;
+  accepted_quote_id?: string | null;
 }
 
 export interface SupplierRfqDetailResponse {
@@ -359,6 +533,7 @@ export interface SupplierRfqResponse {
 
 export interface SubmitSupplierRfqResponseRequest {
   message: string;
+  quote?: RfqQuoteTermsRequest;
 }
 
 export interface SubmitSupplierRfqResponseResult {
@@ -367,6 +542,7 @@ export interface SubmitSupplierRfqResponseResult {
     id: string;
     status: BuyerRfqStatus;
   };
+  quote?: RfqQuote | null;
   non_binding: boolean;
 }
 
@@ -393,6 +569,193 @@ export async function deleteCatalogItem(itemId: string): Promise<DeleteCatalogIt
   return tenantDelete<DeleteCatalogItemResponse>(`/api/tenant/catalog/items/${itemId}`);
 }
 
+// ==================== VARIANTS (CATALOG-VARIANTS-001) ====================
+
+export async function listCatalogItemVariants(
+  itemId: string
+): Promise<{ variants: CatalogItemVariant[]; count: number }> {
+  return tenantGet(`/api/tenant/catalog/items/${encodeURIComponent(itemId)}/variants`);
+}
+
+/** Create a variant (OWNER/ADMIN only). */
+export async function createCatalogItemVariant(
+  itemId: string,
+  payload: CatalogItemVariantInput
+): Promise<{ variant: CatalogItemVariant }> {
+  return tenantPost(`/api/tenant/catalog/items/${encodeURIComponent(itemId)}/variants`, payload);
+}
+
+export async function updateCatalogItemVariant(
+  itemId: string,
+  variantId: string,
+  payload: Partial<CatalogItemVariantInput>
+): Promise<{ variant: CatalogItemVariant }> {
+  return tenantPatch(
+    `/api/tenant/catalog/items/${encodeURIComponent(itemId)}/variants/${encodeURIComponent(variantId)}`,
+    payload
+  );
+}
+
+export async function deleteCatalogItemVariant(
+  itemId: string,
+  variantId: string
+): Promise<{ deleted: boolean; id: string }> {
+  return tenantDelete(
+    `/api/tenant/catalog/items/${encodeURIComponent(itemId)}/variants/${encodeURIComponent(variantId)}`
+  );
+}
+
+// ==================== BULK IMPORT / EXPORT ====================
+
+export type CatalogSpreadsheetFormat = 'csv' | 'xlsx';
+export type CatalogImportStatus = 'PREVIEWED' | 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+/** Sheet header → CatalogItem field (or `stageAttributes.<key>`); null ignores the column. */
+export type CatalogImportColumnMapping = Record<string, string | null>;
+
+export interface CatalogImportRowIssue {
+  field: string;
+  message: string;
+}
+
+export interface CatalogImportRowResult {
+  /** 1-based sheet row number (the header is row 1). */
+  rowNumber: number;
+  sku: string | null;
+  name: string | null;
+  action: 'CREATE' | 'UPDATE' | 'INVALID';
+  errors: CatalogImportRowIssue[];
+}
+
+export interface CatalogImportReport {
+  columns: Array<{ header: string; target: string | null }>;
+  /** Required fields no column maps to. */
+  missingFields: string[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  createCount: number;
+  updateCount: number;
+  rows: CatalogImportRowResult[];
+}
+
+export interface CatalogImportApplyError {
+  rowNumber: number;
+  sku: string | null;
+  message: string;
+}
+
+export interface CatalogImport {
+  id: string;
+  status: CatalogImportStatus;
+  fileName: string | null;
+  format: CatalogSpreadsheetFormat;
+  columnMapping: CatalogImportColumnMapping;
+  totalRows: number;
+  validRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  failedCount: number;
+  applyErrors: CatalogImportApplyError[];
+  createdAt: string;
+  queuedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface CatalogImportPreviewResponse {
+  import: CatalogImport;
+  report: CatalogImportReport;
+}
+
+async function tenantFileRequest(endpoint: string, init: RequestInit, fallbackMessage: string): Promise<Response> {
+  const realm = getAuthRealm();
+  if (realm !== 'TENANT') {
+    throw new Error(`REALM_MISMATCH: Tenant endpoint requires TENANT realm, got ${realm || 'NONE'}`);
+  }
+
+  const token = getToken();
+  if (!token) {
+    throw new APIError(401, 'Unauthorized.', 'UNAUTHORIZED');
+  }
+
+  const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'X-Texqtic-Realm': 'tenant',
+    },
+  });
+
+  if (!response.ok) {
+    let parsed: any = null;
+    try {
+      parsed = await response.json();
+    } catch {
+      parsed = null;
+    }
+    const message = parsed?.error?.message || parsed?.message || fallbackMessage;
+    const code = parsed?.error?.code || 'REQUEST_FAILED';
+    throw new APIError(response.status, message, code, parsed?.error?.details);
+  }
+
+  return response;
+}
+
+/**
+ * Upload a CSV or XLSX sheet as a dry-run import (OWNER/ADMIN only).
+ * Nothing is written to the catalog until the import is applied.
+ */
+export async function previewCatalogImport(
+  file: unknown,
+  mapping?: CatalogImportColumnMapping
+): Promise<CatalogImportPreviewResponse> {
+  if (!(file instanceof globalThis.Blob)) {
+    throw new APIError(400, 'A CSV or XLSX file is required.', 'FILE_REQUIRED');
+  }
+
+  // The server reads fields sent ahead of the file part, so mapping goes first.
+  const formData = new globalThis.FormData();
+  if (mapping) formData.append('mapping', JSON.stringify(mapping));
+  formData.append('file', file);
+
+  const response = await tenantFileRequest(
+    '/api/tenant/catalog/imports',
+    { method: 'POST', body: formData },
+    'Catalog import preview failed.'
+  );
+  const parsed = await response.json();
+  return parsed.data as CatalogImportPreviewResponse;
+}
+
+export async function getCatalogImport(importId: string): Promise<CatalogImportPreviewResponse> {
+  return tenantGet<CatalogImportPreviewResponse>(`/api/tenant/catalog/imports/${importId}`);
+}
+
+/** Re-validate a previewed import against an edited column mapping. */
+export async function remapCatalogImport(
+  importId: string,
+  mapping: CatalogImportColumnMapping
+): Promise<CatalogImportPreviewResponse> {
+  return tenantPost<CatalogImportPreviewResponse>(`/api/tenant/catalog/imports/${importId}/mapping`, { mapping });
+}
+
+/** Queue the upsert-by-SKU apply job; poll getCatalogImport for progress. */
+export async function applyCatalogImport(importId: string): Promise<{ import: CatalogImport }> {
+  return tenantPost<{ import: CatalogImport }>(`/api/tenant/catalog/imports/${importId}/apply`, {});
+}
+
+/** Download the tenant's full catalog in the import column layout. */
+export async function exportCatalog(format: CatalogSpreadsheetFormat = 'csv'): Promise<globalThis.Blob> {
+  const response = await tenantFileRequest(
+    `/api/tenant/catalog/export?format=${format}`,
+    { method: 'GET' },
+    'Catalog export failed.'
+  );
+  return response.blob();
+}
+
 /**
  * Submit a non-binding tenant RFQ initiation request for a catalog item.
  * The server derives tenant scope from the authenticated tenant context.
@@ -426,6 +789,30 @@ export async function submitSupplierRfqResponse(
   return tenantPost<SubmitSupplierRfqResponseResult>(`/api/tenant/rfqs/inbox/${rfqId}/respond`, payload);
 }
 
+/** Supplier posts a new quote revision (new offer or reply to a buyer counter-offer). */
+export async function submitSupplierRfqQuoteRevision(
+  rfqId: string,
+  payload: RfqQuoteTermsRequest
+): Promise<RfqQuoteMutationResult> {
+  return tenantPost<RfqQuoteMutationResult>(`/api/tenant/rfqs/inbox/${rfqId}/quotes`, payload);
+}
+
+/** Buyer counter-offer; supersedes the current supplier revision. */
+export async function submitBuyerRfqCounterOffer(
+  rfqId: string,
+  payload: RfqQuoteTermsRequest
+): Promise<RfqQuoteMutationResult> {
+  return tenantPost<RfqQuoteMutationResult>(`/api/tenant/rfqs/${rfqId}/quotes`, payload);
+}
+
+/** Buyer accepts the current supplier revision; its terms become the trade terms. */
+export async function acceptBuyerRfqQuote(
+  rfqId: string,
+  quoteId: string
+): Promise<RfqQuoteMutationResult> {
+  return tenantPost<RfqQuoteMutationResult>(`/api/tenant/rfqs/${rfqId}/quotes/${quoteId}/accept`, {});
+}
+
 // ==================== AI RFQ ASSIST (TECS-AI-RFQ-ASSISTANT-MVP-001) ====================
 
 /**
@@ -555,24 +942,16 @@ export interface BuyerCatalogResponse {
   items: BuyerCatalogItem[];
   count: number;
   nextCursor: string | null;
+  /** Visible matches across all pages (CATALOG-SEARCH-001). */
+  total?: number;
+  facets?: CatalogSearchFacets;
 }
 
-export interface BuyerCatalogQueryParams {
+// Textile attribute filters (TECS-B2B-BUYER-CATALOG-TEXTILE-ATTRIBUTES-FILTERS-001) are the
+// shared catalog search filters (CATALOG-SEARCH-001).
+export interface BuyerCatalogQueryParams extends Omit<CatalogSearchFilters, 'catalogStage'> {
   limit?: number;
   cursor?: string;
-  q?: string;
-  // Textile attribute filters (TECS-B2B-BUYER-CATALOG-TEXTILE-ATTRIBUTES-FILTERS-001)
-  productCategory?: string;
-  fabricType?: string;
-  material?: string | string[];
-  construction?: string;
-  color?: string;
-  gsmMin?: number;
-  gsmMax?: number;
-  widthMin?: number;
-  widthMax?: number;
-  moqMax?: number;
-  certification?: string;
   // Stage filter (TECS-B2B-CATALOG-MATERIAL-STAGE-ATTRIBUTES-001)
   catalogStage?: CatalogStage;
 }
@@ -587,61 +966,19 @@ export async function getBuyerCatalogItems(
   supplierOrgId: string,
   params: BuyerCatalogQueryParams = {}
 ): Promise<BuyerCatalogResponse> {
+  const { limit, cursor, ...filters } = params;
   const queryParams = new URLSearchParams();
 
-  if (params.limit) {
-    queryParams.append('limit', params.limit.toString());
-  }
-
-  if (params.cursor) {
-    queryParams.append('cursor', params.cursor);
+  if (limit) {
+    queryParams.append('limit', limit.toString());
   }
 
-  if (params.q && params.q.trim().length > 0) {
-    queryParams.append('q', params.q.trim());
+  if (cursor) {
+    queryParams.append('cursor', cursor);
   }
 
-  // Textile attribute filters
-  if (params.productCategory) {
-    queryParams.append('productCategory', params.productCategory);
-  }
-  if (params.fabricType) {
-    queryParams.append('fabricType', params.fabricType);
-  }
-  if (params.material) {
-    if (Array.isArray(params.material)) {
-      params.material.forEach(m => queryParams.append('material', m));
-    } else {
-      queryParams.append('material', params.material);
-    }
-  }
-  if (params.construction) {
-    queryParams.append('construction', params.construction);
-  }
-  if (params.color) {
-    queryParams.append('color', params.color);
-  }
-  if (params.gsmMin !== undefined) {
-    queryParams.append('gsmMin', params.gsmMin.toString());
-  }
-  if (params.gsmMax !== undefined) {
-    queryParams.append('gsmMax', params.gsmMax.toString());
-  }
-  if (params.widthMin !== undefined) {
-    queryParams.append('widthMin', params.widthMin.toString());
-  }
-  if (params.widthMax !== undefined) {
-    queryParams.append('widthMax', params.widthMax.toString());
-  }
-  if (params.moqMax !== undefined) {
-    queryParams.append('moqMax', params.moqMax.toString());
-  }
-  if (params.certification) {
-    queryParams.append('certification', params.certification);
-  }
-  if (params.catalogStage) {
-    queryParams.append('catalogStage', params.catalogStage);
-  }
+  // Textile attribute, composition and certification filters
+  appendCatalogSearchParams(queryParams, filters);
 
   const queryString = queryParams.toString();
   const queryPrefix = queryString ? '?' : '';
@@ -766,6 +1103,22 @@ export interface BuyerPriceDisclosure {
   rfq_required: boolean;
 }
 
+/**
+ * Buyer-facing variant of a PDP item. No price — disclosure follows the parent item.
+ */
+export interface BuyerCatalogVariantSummary {
+  id: string;
+  sku: string;
+  label: string;
+  color: string | null;
+  widthCm: number | null;
+  finish: string | null;
+  /** Effective MOQ (variant override or the parent's). */
+  moq: number;
+  imageUrl: string | null;
+  attributes: Record<string, unknown>;
+}
+
 /**
  * Full buyer-facing catalog product detail page view.
  * NEVER contains price, publicationPosture, AI draft fields, or admin-internal data.
@@ -784,6 +1137,8 @@ export interface BuyerCatalogPdpView {
   availabilitySummary: BuyerAvailabilitySummary;
   rfqEntry: BuyerRfqEntryDescriptor;
   pricePlaceholder: BuyerPricePlaceholder;
+  /** Active variants; omitted or empty when the item has none. */
+  variants?: BuyerCatalogVariantSummary[];
   priceDisclosure: BuyerPriceDisclosure;
 }
 
@@ -8,7 +8,10 @@
  * Wave 4 Scope: Admin tenant provisioning added
  */
 
-import { adminDelete, adminGet, adminGetWithHeaders, adminPost, adminPostWithHeaders, adminPut } from './adminApiClient';
+import { adminDelete, adminDownload, adminGet, adminGetWithHeaders, adminPost, adminPostWithHeaders, adminPut, adminSubscribe } from './adminApiClient';
+import type { AuditChainVerification, AuditExportRange } from './auditLogService';
+import { toSubscriptionHandlers } from './liveEventService';
+import type { EventLog, LiveEventHandlers } from './liveEventService';
 
 // ==================== TENANT MANAGEMENT ====================
 
@@ -285,20 +288,54 @@ export async function getAuditLogs(params?: AuditLogsQueryParams): Promise<Audit
   return adminGet<AuditLogsResponse>(endpoint);
 }
 
-// ==================== EVENT STREAM ====================
+/** One audit chain: the platform ADMIN chain (no tenantId) or a tenant's chain. */
+export interface AuditChainParams {
+  realm: 'ADMIN' | 'TENANT';
+  tenantId?: string;
+}
 
-export interface EventLog {
-  id: string;
-  tenantId: string;
-  name: string;
-  aggregateType: string;
-  aggregateId: string;
-  payload: Record<string, any>;
-  occurredAt: string;
-  version: number;
-  createdAt: string;
+export interface AuditSigningKey {
+  algorithm: 'Ed25519';
+  keyId: string;
+  publicKeyPem: string;
+}
+
+function auditChainQuery(chain: AuditChainParams, extra: Record<string, string> = {}): string {
+  const queryParams = new URLSearchParams({ realm: chain.realm, ...extra });
+  if (chain.tenantId) {
+    queryParams.append('tenantId', chain.tenantId);
+  }
+  return queryParams.toString();
 }
 
+/**
+ * Verify an audit hash chain (AUDIT-CHAIN-001). The request is itself audit-logged.
+ */
+export async function verifyAuditChain(chain: AuditChainParams): Promise<AuditChainVerification> {
+  const data = await adminGet<{ verification: AuditChainVerification }>(
+    `/api/control/audit-logs/verify?${auditChainQuery(chain)}`
+  );
+  return data.verification;
+}
+
+/**
+ * Download the signed export bundle of one chain for [from, to) as a ZIP.
+ */
+export function downloadAuditExport(chain: AuditChainParams, range: AuditExportRange): Promise<globalThis.Blob> {
+  return adminDownload(`/api/control/audit-logs/export?${auditChainQuery(chain, { from: range.from, to: range.to })}`);
+}
+
+/**
+ * Public key that verifies checkpoint and manifest signatures offline.
+ */
+export async function getAuditSigningKey(): Promise<AuditSigningKey> {
+  return adminGet<AuditSigningKey>('/api/control/audit-logs/signing-key');
+}
+
+// ==================== EVENT STREAM ====================
+
+export type { EventLog } from './liveEventService';
+
 export interface EventsResponse {
   events: EventLog[];
   count: number;
@@ -353,6 +390,34 @@ export async function getEvents(params?: EventsQueryParams): Promise<EventsRespo
   return adminGet<EventsResponse>(endpoint);
 }
 
+export interface LiveEventFilters {
+  namePrefix?: string;
+  tenantId?: string;
+  realm?: 'ADMIN' | 'TENANT';
+}
+
+/**
+ * Subscribe to new platform events (SSE, EVENT-STREAM-001). Pass the newest id
+ * already shown as `lastEventId` to continue from it. Returns the unsubscribe function.
+ */
+export function subscribeToEvents(
+  filters: LiveEventFilters,
+  handlers: LiveEventHandlers,
+  lastEventId?: string | null
+): () => void {
+  const queryParams = new URLSearchParams();
+  if (filters.namePrefix) queryParams.append('name_prefix', filters.namePrefix);
+  if (filters.tenantId) queryParams.append('tenant_id', filters.tenantId);
+  if (filters.realm) queryParams.append('realm', filters.realm);
+  const queryString = queryParams.toString();
+
+  return adminSubscribe(
+    `/api/control/events/stream${queryString ? `?${queryString}` : ''}`,
+    toSubscriptionHandlers(handlers),
+    lastEventId
+  );
+}
+
 // ==================== MARKETPLACE CART SUMMARIES ====================
 
 export interface MarketplaceCartSummary {
@@ -1538,3 +1603,63 @@ export async function listZohoBooksContacts(
 export async function getZohoBooksBackfillCandidates(): Promise<ZohoBooksBackfillCandidatesResponse> {
   return adminGet<ZohoBooksBackfillCandidatesResponse>('/api/control/zoho-books/backfill-candidates');
 }
+
+// ==================== API REFERENCE (API-DOCS-OPENAPI-001) ====================
+//
+// Routes: GET /api/control/openapi
+//         GET /api/control/openapi/:realm
+//
+// Documents are generated server-side from the route zod schemas
+// (server/src/openapi); the reference renders them as returned.
+
+export type ApiDocsRealm = 'public' | 'tenant' | 'control' | 'internal';
+
+export interface ApiDocsRealmSummary {
+  realm: ApiDocsRealm;
+  title: string;
+  description: string;
+  operations: number;
+}
+
+/** JSON Schema 2020-12 object as emitted in the OpenAPI document. */
+export type OpenApiSchema = { [key: string]: unknown };
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+  example?: unknown;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: { required?: boolean; content: Record<string, OpenApiMediaType> };
+  responses: Record<string, { description: string; content?: Record<string, OpenApiMediaType> }>;
+  security?: Array<Record<string, string[]>>;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  tags: Array<{ name: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: { securitySchemes?: Record<string, OpenApiSchema> };
+}
+
+export async function listApiDocsRealms(): Promise<{ realms: ApiDocsRealmSummary[] }> {
+  return adminGet<{ realms: ApiDocsRealmSummary[] }>('/api/control/openapi');
+}
+
+export async function getApiDocsDocument(realm: ApiDocsRealm): Promise<OpenApiDocument> {
+  return adminGet<OpenApiDocument>(`/api/control/openapi/${realm}`);
+}
@@ -0,0 +1,104 @@
+/**
+ * TexQtic Live Event Service — Tenant Plane (EVENT-STREAM-001)
+ *
+ * Live notifications over server-sent events: new EventLog entries of the current
+ * tenant as they are written.
+ *
+ * D-017-A: orgId is NEVER sent by the client. The server scopes the stream to the
+ * tenant in the JWT (event_logs RLS); only name prefix and realm can be narrowed.
+ *
+ * The EventLog type and the handler mapping below are shared with the control plane
+ * (controlPlaneService.subscribeToEvents) — both realms send the same frames.
+ */
+
+import { tenantSubscribe } from './tenantApiClient';
+import type { APIError, SubscriptionHandlers, SubscriptionStatus } from './apiClient';
+
+// ==================== TYPES ====================
+
+/** One event_logs row, as returned by GET /api/control/events and the live streams. */
+export interface EventLog {
+  id: string;
+  version: string;
+  name: string;
+  occurredAt: string;
+  tenantId: string | null;
+  realm: 'ADMIN' | 'TENANT';
+  actorType: string;
+  actorId: string | null;
+  entityType: string;
+  entityId: string;
+  payloadJson: Record<string, any> | null;
+  metadataJson: Record<string, any> | null;
+  auditLogId: string;
+  createdAt: string;
+}
+
+/** First frame of every connection. */
+export interface LiveEventReady {
+  /** false when the stream could not continue after the last seen event — reload the list. */
+  resumed: boolean;
+  lastEventId: string | null;
+  filter: { namePrefix: string | null; tenantId: string | null; realm: 'ADMIN' | 'TENANT' | null };
+  pollIntervalMs: number;
+}
+
+export interface LiveEventHandlers {
+  onEvent: (event: EventLog) => void;
+  onReady?: (ready: LiveEventReady) => void;
+  onStatus?: (status: SubscriptionStatus) => void;
+  onError?: (error: APIError) => void;
+}
+
+export interface TenantLiveEventFilters {
+  namePrefix?: string;
+  realm?: 'ADMIN' | 'TENANT';
+}
+
+// ==================== API ====================
+
+/** Ids remembered for de-duplication (delivery is at-least-once across reconnects). */
+const SEEN_EVENT_IDS_LIMIT = 500;
+
+/** Maps stream frames onto LiveEventHandlers, dropping event_log frames already delivered. */
+export function toSubscriptionHandlers(handlers: LiveEventHandlers): SubscriptionHandlers {
+  const seen = new Set<string>();
+  return {
+    onEvent: (event, data) => {
+      if (event === 'ready') {
+        handlers.onReady?.(data as LiveEventReady);
+      } else if (event === 'event_log') {
+        const entry = data as EventLog;
+        if (seen.has(entry.id)) return;
+        seen.add(entry.id);
+        if (seen.size > SEEN_EVENT_IDS_LIMIT) {
+          seen.delete(seen.values().next().value as string);
+        }
+        handlers.onEvent(entry);
+      }
+    },
+    onStatus: handlers.onStatus,
+    onError: handlers.onError,
+  };
+}
+
+/**
+ * Subscribe to the tenant's new events. Pass the newest id already shown as
+ * `lastEventId` to continue from it. Returns the unsubscribe function.
+ */
+export function subscribeToTenantEvents(
+  filters: TenantLiveEventFilters,
+  handlers: LiveEventHandlers,
+  lastEventId?: string | null
+): () => void {
+  const query = new URLSearchParams();
+  if (filters.namePrefix) query.append('name_prefix', filters.namePrefix);
+  if (filters.realm) query.append('realm', filters.realm);
+  const queryString = query.toString();
+
+  return tenantSubscribe(
+    `/api/tenant/events/stream${queryString ? `?${queryString}` : ''}`,
+    toSubscriptionHandlers(handlers),
+    lastEventId
+  );
+}
@@ -631,6 +631,53 @@ export function declineIncomingSupplierInvite(
 
 // ─── FE-8 Supplier Quote Methods ──────────────────────────────────────────────
 
+/**
+ * Priced RFQ line on a quote. Decimals serialized as strings.
+ * line_amount = unit_price × quoted_qty, computed by the backend.
+ */
+export interface QuoteLine {
+  id: string;
+  rfq_line_id: string;
+  unit_price: string;
+  quoted_qty: string;
+  line_amount: string;
+  lead_time_days: number | null;
+  line_note: string | null;
+  created_at: string;
+}
+
+/**
+ * RFQ line as seen by the pool owner and by invited suppliers.
+ * Member demand lineage is never exposed.
+ */
+export interface PoolRfqLine {
+  id: string;
+  rfq_id: string;
+  source_line_ref: string;
+  commodity_category: string;
+  product_category: string | null;
+  product_spec_summary: string | null;
+  /** Decimal serialized as string */
+  qty: string;
+  qty_unit: string;
+  quality_requirements: unknown;
+  certification_requirements: unknown;
+  packaging_requirements: unknown;
+  delivery_location: string | null;
+  delivery_window_start: string | null;
+  delivery_window_end: string | null;
+  tolerance_pct: string | null;
+  priority: number | null;
+}
+
+export interface SubmitQuoteLineInput {
+  rfq_line_id: string;
+  unit_price: number | string;
+  quoted_qty: number | string;
+  lead_time_days?: number | null;
+  line_note?: string | null;
+}
+
 /**
  * Supplier-safe quote record returned by supplier quote routes.
  * QD-5: metadata_internal_json, owner_org_id, rfq_id, pool_id excluded by backend.
@@ -652,10 +699,14 @@ export interface SupplierQuote {
   withdraw_reason: string | null;
   created_at: string;
   updated_at: string;
+  /** Priced RFQ lines — empty for lump-sum quotes */
+  lines: QuoteLine[];
 }
 
 export interface SubmitQuoteInput {
-  quote_amount: number | string;
+  /** Optional when lines are given; must then equal the sum of line amounts */
+  quote_amount?: number | string | null;
+  lines?: SubmitQuoteLineInput[] | null;
   currency: string;
   validity_until?: string | null;
   supplier_note?: string | null;
@@ -686,7 +737,8 @@ export function submitSupplierQuoteForInvite(
   return tenantPost<SupplierQuote>(
     `/api/tenant/network-commerce/supplier-rfq-invites/${inviteId}/quote`,
     {
-      quote_amount: input.quote_amount,
+      quote_amount: input.quote_amount ?? null,
+      ...(input.lines && input.lines.length > 0 ? { lines: input.lines } : {}),
       currency: input.currency,
       validity_until: input.validity_until ?? null,
       supplier_note: input.supplier_note ?? null,
@@ -695,6 +747,16 @@ export function submitSupplierQuoteForInvite(
   );
 }
 
+/**
+ * List the RFQ lines behind an accepted invite so the supplier can price each line.
+ * Throws APIError INVITE_NOT_ACCEPTED (422) if the invite is not in ACCEPTED state.
+ */
+export function getSupplierInviteRfqLines(inviteId: string): Promise<PoolRfqLine[]> {
+  return tenantGet<PoolRfqLine[]>(
+    `/api/tenant/network-commerce/supplier-rfq-invites/${inviteId}/rfq-lines`,
+  );
+}
+
 // ─── FE-9 Owner Award / Quote Review Methods ──────────────────────────────────
 
 /**
@@ -725,6 +787,8 @@ export interface OwnerQuote {
   reject_reason: string | null;
   created_at: string;
   updated_at: string;
+  /** Priced RFQ lines — empty for lump-sum quotes */
+  lines: QuoteLine[];
 }
 
 export interface AcceptQuoteInput {
@@ -788,6 +852,83 @@ export function rejectQuoteForRfq(
   );
 }
 
+// ─── Line-Level Split Award Types / Methods ──────────────────────────────────
+
+export interface SplitAwardAllocationInput {
+  rfq_line_id: string;
+  quote_id: string;
+  awarded_qty: number | string;
+}
+
+export interface SplitAwardAllocation {
+  rfq_line_id: string;
+  quote_id: string;
+  /** Decimal serialized as string */
+  awarded_qty: string;
+}
+
+/** One RFQ line (or part of it) awarded to one supplier quote. */
+export interface LineAward {
+  id: string;
+  rfq_id: string;
+  pool_id: string;
+  rfq_line_id: string;
+  quote_id: string;
+  quote_line_id: string;
+  supplier_org_id: string;
+  awarded_qty: string;
+  unit_price: string;
+  award_amount: string;
+  currency: string;
+  approval_id: string | null;
+  awarded_by_user_id: string | null;
+  awarded_at: string;
+  created_at: string;
+}
+
+export interface SplitAwardResult {
+  awards: LineAward[];
+  /** Quotes that received at least one allocation — all ACCEPTED */
+  quotes: OwnerQuote[];
+}
+
+/**
+ * List the lines of an RFQ (owner-only) — rows of the quote comparison matrix.
+ * GET /api/tenant/network-commerce/pools/:poolId/rfq/:rfqId/lines
+ */
+export function getRfqLinesForOwner(poolId: string, rfqId: string): Promise<PoolRfqLine[]> {
+  return tenantGet<PoolRfqLine[]>(
+    `/api/tenant/network-commerce/pools/${poolId}/rfq/${rfqId}/lines`,
+  );
+}
+
+/**
+ * List recorded line awards for an RFQ (owner-only). Returns [] when none exist.
+ * GET /api/tenant/network-commerce/pools/:poolId/rfq/:rfqId/line-awards
+ */
+export function getLineAwardsForRfq(poolId: string, rfqId: string): Promise<LineAward[]> {
+  return tenantGet<LineAward[]>(
+    `/api/tenant/network-commerce/pools/${poolId}/rfq/${rfqId}/line-awards`,
+  );
+}
+
+/**
+ * Directly award RFQ lines across one or more SUBMITTED quotes (owner-only).
+ * Allocated quotes become ACCEPTED; other SUBMITTED quotes are REJECTED.
+ * Throws APIError INVALID_SPLIT_AWARD (422) on over-allocation or unpriced lines.
+ */
+export function awardRfqLines(
+  poolId: string,
+  rfqId: string,
+  allocations: SplitAwardAllocationInput[],
+  requestId?: string | null,
+): Promise<SplitAwardResult> {
+  return tenantPost<SplitAwardResult>(
+    `/api/tenant/network-commerce/pools/${poolId}/rfq/${rfqId}/line-awards`,
+    { allocations, request_id: requestId ?? null },
+  );
+}
+
 // ─── FE-10 Award Maker-Checker Types ─────────────────────────────────────────
 
 /**
@@ -804,12 +945,16 @@ export interface AwardApprovalRequest {
   to_state_key: string;
   requested_by_user_id: string;
   request_reason: string;
+  /** Present only on split award requests */
+  split_allocations?: SplitAwardAllocation[];
   created_at: string;
 }
 
 export interface AwardApproved {
   approval: AwardApprovalRequest;
   quote: OwnerQuote;
+  /** Present only when a split award request was approved */
+  awards?: LineAward[];
 }
 
 export interface AwardRejected {
@@ -852,6 +997,26 @@ export function requestAwardApprovalForQuote(
   );
 }
 
+/**
+ * Request approval for a split award across several quotes (maker action).
+ * POST /api/tenant/network-commerce/pools/:poolId/rfq/:rfqId/line-awards/award-request
+ */
+export function requestSplitAwardApproval(
+  poolId: string,
+  rfqId: string,
+  allocations: SplitAwardAllocationInput[],
+  input: RequestAwardInput,
+): Promise<AwardApprovalRequest> {
+  return tenantPost<AwardApprovalRequest>(
+    `/api/tenant/network-commerce/pools/${poolId}/rfq/${rfqId}/line-awards/award-request`,
+    {
+      allocations,
+      request_reason: input.request_reason,
+      request_id: input.request_id ?? null,
+    },
+  );
+}
+
 /**
  * Approve a pending award approval (checker action).
  * POST /api/tenant/network-commerce/pools/:poolId/rfq/:rfqId/award-approvals/:approvalId/approve
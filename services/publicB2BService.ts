@@ -1,4 +1,9 @@
 import { get, post } from './apiClient';
+import {
+  appendCatalogSearchParams,
+  type CatalogSearchFacets,
+  type CatalogSearchFilters,
+} from './catalogService';
 
 export const DEMO_PILOT_SUPPLIER_LABEL = 'Demo / pilot supplier';
 export const DEMO_PILOT_SUPPLIER_HELPER_TEXT = 'Reference profile for launch testing; not a verified commercial supplier.';
@@ -19,6 +24,8 @@ export interface PublicB2BSupplierOfferingPreviewItem {
   name: string;
   moq: number;
   imageUrl: string;
+  // Stock signal — null when the supplier does not track stock for the item.
+  availability?: 'IN_STOCK' | 'LOW_STOCK' | 'OUT_OF_STOCK' | null;
 }
 
 export interface PublicB2BSupplierEntry {
@@ -46,9 +53,15 @@ export interface PublicB2BSuppliersResponse {
   total: number;
   page: number;
   limit: number;
+  /** Present when catalog search filters were sent (CATALOG-SEARCH-001). */
+  catalogFacets?: CatalogSearchFacets;
 }
 
-export interface PublicB2BSuppliersParams {
+/**
+ * Catalog search filters narrow the list to suppliers with a matching public item,
+ * best match first; matching items lead each offering preview.
+ */
+export interface PublicB2BSuppliersParams extends CatalogSearchFilters {
   segment?: string;
   geo?: string;
   page?: number;
@@ -58,11 +71,13 @@ export interface PublicB2BSuppliersParams {
 export async function getPublicB2BSuppliers(
   params: PublicB2BSuppliersParams = {}
 ): Promise<PublicB2BSuppliersResponse> {
+  const { segment, geo, page, limit, ...catalog } = params;
   const query = new URLSearchParams();
-  if (params.segment) query.append('segment', params.segment);
-  if (params.geo) query.append('geo', params.geo);
-  if (params.page !== undefined) query.append('page', params.page.toString());
-  if (params.limit !== undefined) query.append('limit', params.limit.toString());
+  if (segment) query.append('segment', segment);
+  if (geo) query.append('geo', geo);
+  if (page !== undefined) query.append('page', page.toString());
+  if (limit !== undefined) query.append('limit', limit.toString());
+  appendCatalogSearchParams(query, catalog);
   const queryString = query.toString();
   const suffix = queryString ? `?${queryString}` : '';
   const endpoint = `/api/public/b2b/suppliers${suffix}`;
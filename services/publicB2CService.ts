@@ -4,6 +4,8 @@ import { get } from './apiClient';
 // Mirror the server-side PublicB2CProjectionService response types (read-only
 // public projection — no schema UUIDs, no private fields).
 
+export type PublicStockAvailability = 'IN_STOCK' | 'LOW_STOCK' | 'OUT_OF_STOCK';
+
 export interface PublicB2CProductPreviewItem {
   slug: string;
   name: string;
@@ -14,6 +16,8 @@ export interface PublicB2CProductPreviewItem {
   category: string | null;
   material: string | null;
   fabricType: string | null;
+  // Stock signal — null when the storefront does not track stock for the item.
+  availability?: PublicStockAvailability | null;
 }
 
 export interface PublicB2CStorefrontEntry {
@@ -60,6 +64,7 @@ export interface PublicB2CProductDetail {
   publicSupplierSlug: string;
   publicPriceLabel: string | null;
   publicMoqLabel: string | null;
+  availability?: PublicStockAvailability | null;
   trustSignals: string[];
   hasTraceabilityEvidence: boolean;
   hasPassport: boolean;
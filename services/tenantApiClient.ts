@@ -5,7 +5,8 @@
  * Throws REALM_MISMATCH error if current realm is not TENANT.
  */
 
-import { get, post, put, patch, del, getAuthRealm } from './apiClient';
+import { get, post, put, patch, del, stream, download, subscribe, getAuthRealm } from './apiClient';
+import type { SubscriptionHandlers } from './apiClient';
 
 /**
  * Wave 0-B-FIX-V3: Realm hint header for tenant requests
@@ -65,3 +66,36 @@ export function tenantDelete<T>(endpoint: string): Promise<T> {
   requireTenantRealm();
   return del<T>(endpoint, TENANT_REALM_HEADER);
 }
+
+/**
+ * Streaming GET/POST with tenant realm guard + hint header (AI-STREAM-001)
+ */
+export function tenantStream<T>(
+  endpoint: string,
+  method: 'GET' | 'POST',
+  data: any,
+  onDelta: (text: string) => void
+): Promise<T> {
+  requireTenantRealm();
+  return stream<T>(endpoint, method, data, onDelta, TENANT_REALM_HEADER);
+}
+
+/**
+ * File download (GET → Blob) with tenant realm guard + hint header
+ */
+export function tenantDownload(endpoint: string): Promise<globalThis.Blob> {
+  requireTenantRealm();
+  return download(endpoint, TENANT_REALM_HEADER);
+}
+
+/**
+ * Server-sent event subscription with tenant realm guard + hint header (EVENT-STREAM-001)
+ */
+export function tenantSubscribe(
+  endpoint: string,
+  handlers: SubscriptionHandlers,
+  lastEventId?: string | null
+): () => void {
+  requireTenantRealm();
+  return subscribe(endpoint, handlers, { headers: TENANT_REALM_HEADER, lastEventId });
+}
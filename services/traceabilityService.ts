@@ -5,6 +5,7 @@
  * The backend derives orgId from the verified JWT via tenantAuthMiddleware.
  *
  * Phase A: Tenant plane — CREATE + READ (nodes + edges + 1-hop neighbors)
+ *          Lineage — multi-hop traversal + mass balance (read-only)
  *          Control plane — READ-ONLY (cross-tenant admin inspection)
  *
  * Node/edge types are normalised to UPPERCASE by the backend service.
@@ -60,6 +61,9 @@ export interface EdgeCreateBody {
   toNodeId: string;
   edgeType: string;
   transformationId?: string | null;
+  /** Quantity moved along the edge; send together with quantityUnit. */
+  quantity?: number | null;
+  quantityUnit?: string | null;
   meta?: Record<string, unknown>;
 }
 
@@ -74,6 +78,9 @@ export interface TraceabilityEdgeRow {
   toNodeId: string;
   edgeType: string;
   transformationId: string | null;
+  /** NUMERIC(18,4) — serialised as a decimal string. */
+  quantity?: string | null;
+  quantityUnit?: string | null;
   meta: Record<string, unknown>;
   createdAt: string;
 }
@@ -85,6 +92,53 @@ export interface EdgeListResponse {
   offset: number;
 }
 
+export type LineageDirection = 'UPSTREAM' | 'DOWNSTREAM' | 'BOTH';
+
+/** Mirrors LINEAGE_MAX_DEPTH in server/src/services/traceability.g016.service.ts */
+export const LINEAGE_MAX_DEPTH = 20;
+
+export interface LineageNode extends TraceabilityNodeRow {
+  depth: number;
+  direction: 'ROOT' | 'UPSTREAM' | 'DOWNSTREAM';
+}
+
+export interface LineageResponse {
+  rootId: string;
+  direction: LineageDirection;
+  depth: number;
+  nodes: LineageNode[];
+  edges: TraceabilityEdgeRow[];
+  truncated: boolean;
+}
+
+export type MassBalanceStatus = 'BALANCED' | 'EXCESS_OUTPUT' | 'UNIT_MISMATCH' | 'INCOMPLETE';
+
+export interface MassBalanceEntry {
+  nodeId: string;
+  batchId: string;
+  nodeType: string;
+  status: MassBalanceStatus;
+  unit: string | null;
+  inputQuantity: number;
+  outputQuantity: number;
+  variancePercent: number | null;
+  unquantifiedEdges: number;
+}
+
+export interface MassBalanceResponse {
+  rootId: string;
+  tolerancePercent: number;
+  entries: MassBalanceEntry[];
+  violations: number;
+  truncated: boolean;
+}
+
+export interface LineageParams {
+  direction?: LineageDirection;
+  depth?: number;
+  edgeTypes?: string[];
+}
+
 // ─── Control-plane types ──────────────────────────────────────────────────────
 
 /** Phase A admin read — orgId is an optional query filter, not an identity claim */
@@ -128,6 +182,34 @@ export function getNodeNeighbors(nodeId: string): Promise<NodeNeighborsResponse>
   );
 }
 
+function lineageQuery(params?: LineageParams, extra?: Record<string, string>): string {
+  const qs = new URLSearchParams();
+  if (params?.direction) qs.set('direction', params.direction);
+  if (params?.depth !== undefined) qs.set('depth', String(params.depth));
+  if (params?.edgeTypes && params.edgeTypes.length > 0) qs.set('edgeTypes', params.edgeTypes.join(','));
+  for (const [key, value] of Object.entries(extra ?? {})) qs.set(key, value);
+  return qs.toString() ? `?${qs.toString()}` : '';
+}
+
+/** GET /api/tenant/traceability/nodes/:id/lineage — multi-hop upstream/downstream graph */
+export function getLineage(nodeId: string, params?: LineageParams): Promise<LineageResponse> {
+  return tenantGet<LineageResponse>(
+    `/api/tenant/traceability/nodes/${encodeURIComponent(nodeId)}/lineage${lineageQuery(params)}`
+  );
+}
+
+/** GET /api/tenant/traceability/nodes/:id/mass-balance — quantity in vs out per transformation node */
+export function getMassBalance(
+  nodeId: string,
+  params?: LineageParams & { tolerancePercent?: number }
+): Promise<MassBalanceResponse> {
+  const extra =
+    params?.tolerancePercent !== undefined ? { tolerancePercent: String(params.tolerancePercent) } : undefined;
+  return tenantGet<MassBalanceResponse>(
+    `/api/tenant/traceability/nodes/${encodeURIComponent(nodeId)}/mass-balance${lineageQuery(params, extra)}`
+  );
+}
+
 /** POST /api/tenant/traceability/edges — Create a traceability edge */
 export function createEdge(body: EdgeCreateBody): Promise<EdgeCreateResponse> {
   return tenantPost<EdgeCreateResponse>('/api/tenant/traceability/edges', body);
@@ -76,8 +76,9 @@ export interface CreateTradeEscrowResponse {
 export interface CreateTradeFromRfqInput {
   rfqId: string;
   tradeReference: string;
-  currency: string;
-  grossAmount: number;
+  /** Optional when the RFQ has an accepted quote; the server derives terms from it. */
+  currency?: string;
+  grossAmount?: number;
   reason: string;
 }
 
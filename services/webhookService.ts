@@ -0,0 +1,149 @@
+/**
+ * TexQtic Webhook Service — Tenant Plane (TENANT-WEBHOOKS-001)
+ *
+ * Tenant-plane surface for outbound webhooks:
+ *   - list / create / update / delete subscriptions
+ *   - rotate a subscription's signing secret
+ *   - send a signed test event
+ *   - read the delivery log and redeliver a failed delivery
+ *
+ * D-017-A: orgId is NEVER sent by the client in any request body.
+ *           The server derives org scope exclusively from JWT claims (orgId / tenantId).
+ *
+ * Signing secrets are returned only by create and rotate-secret; afterwards the
+ * server only exposes secretHint.
+ */
+
+import { tenantDelete, tenantGet, tenantPatch, tenantPost } from './tenantApiClient';
+
+// ==================== TYPES ====================
+
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'DEAD_LETTER';
+
+/** A subscription as returned by GET /api/tenant/webhooks (no secret material). */
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  description: string | null;
+  /** Empty = every event type. */
+  eventTypes: string[];
+  enabled: boolean;
+  /** Last characters of the signing secret, e.g. "…x9Qa". */
+  secretHint: string;
+  /** Set while the previous secret still co-signs deliveries after a rotation. */
+  previousSecretExpiresAt: string | null;
+  secretRotatedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Response of create and rotate-secret — the only time the secret is returned. */
+export interface WebhookSubscriptionWithSecret {
+  subscription: WebhookSubscription;
+  secret: string;
+}
+
+/** One row of the delivery log. */
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  isTest: boolean;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastHttpStatus: number | null;
+  /** Safe category string (e.g. "Endpoint responded HTTP 503"). */
+  lastError: string | null;
+  lastDurationMs: number | null;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+  deadLetteredAt: string | null;
+  createdAt: string;
+}
+
+export interface WebhookDeliveryListParams {
+  subscriptionId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface WebhookDeliveryListResponse {
+  deliveries: WebhookDelivery[];
+  nextCursor: string | null;
+}
+
+export interface CreateWebhookSubscriptionRequest {
+  url: string;
+  description?: string | null;
+  eventTypes: string[];
+  enabled?: boolean;
+}
+
+export type UpdateWebhookSubscriptionRequest = Partial<CreateWebhookSubscriptionRequest>;
+
+// ==================== SUBSCRIPTIONS ====================
+
+/** Domain event types a subscription can filter on. Route: GET /api/tenant/webhooks/event-types */
+export async function listWebhookEventTypes(): Promise<{ eventTypes: string[] }> {
+  return tenantGet<{ eventTypes: string[] }>('/api/tenant/webhooks/event-types');
+}
+
+/** Route: GET /api/tenant/webhooks */
+export async function listWebhookSubscriptions(): Promise<{ subscriptions: WebhookSubscription[] }> {
+  return tenantGet<{ subscriptions: WebhookSubscription[] }>('/api/tenant/webhooks');
+}
+
+/** Route: POST /api/tenant/webhooks — the response carries the signing secret once. */
+export async function createWebhookSubscription(
+  request: CreateWebhookSubscriptionRequest,
+): Promise<WebhookSubscriptionWithSecret> {
+  return tenantPost<WebhookSubscriptionWithSecret>('/api/tenant/webhooks', request);
+}
+
+/** Route: PATCH /api/tenant/webhooks/:id */
+export async function updateWebhookSubscription(
+  subscriptionId: string,
+  request: UpdateWebhookSubscriptionRequest,
+): Promise<{ subscription: WebhookSubscription }> {
+  return tenantPatch<{ subscription: WebhookSubscription }>(`/api/tenant/webhooks/${subscriptionId}`, request);
+}
+
+/** Route: DELETE /api/tenant/webhooks/:id — removes the delivery log as well. */
+export async function deleteWebhookSubscription(subscriptionId: string): Promise<{ deleted: true }> {
+  return tenantDelete<{ deleted: true }>(`/api/tenant/webhooks/${subscriptionId}`);
+}
+
+/** Route: POST /api/tenant/webhooks/:id/rotate-secret — the old secret co-signs for 24 hours. */
+export async function rotateWebhookSecret(subscriptionId: string): Promise<WebhookSubscriptionWithSecret> {
+  return tenantPost<WebhookSubscriptionWithSecret>(`/api/tenant/webhooks/${subscriptionId}/rotate-secret`);
+}
+
+/** Route: POST /api/tenant/webhooks/:id/test */
+export async function sendWebhookTestEvent(subscriptionId: string): Promise<{ delivery: WebhookDelivery }> {
+  return tenantPost<{ delivery: WebhookDelivery }>(`/api/tenant/webhooks/${subscriptionId}/test`);
+}
+
+// ==================== DELIVERIES ====================
+
+/** Route: GET /api/tenant/webhooks/deliveries — newest first, cursor paginated. */
+export async function listWebhookDeliveries(
+  params?: WebhookDeliveryListParams,
+): Promise<WebhookDeliveryListResponse> {
+  const searchParams = new URLSearchParams();
+  if (params?.subscriptionId) searchParams.set('subscriptionId', params.subscriptionId);
+  if (params?.status)         searchParams.set('status',         params.status);
+  if (params?.cursor)         searchParams.set('cursor',         params.cursor);
+  if (params?.limit !== undefined) searchParams.set('limit', String(params.limit));
+
+  const qs = searchParams.toString();
+  const endpoint = qs ? `/api/tenant/webhooks/deliveries?${qs}` : '/api/tenant/webhooks/deliveries';
+
+  return tenantGet<WebhookDeliveryListResponse>(endpoint);
+}
+
+/** Route: POST /api/tenant/webhooks/deliveries/:id/redeliver */
+export async function redeliverWebhookDelivery(deliveryId: string): Promise<{ delivery: WebhookDelivery }> {
+  return tenantPost<{ delivery: WebhookDelivery }>(`/api/tenant/webhooks/deliveries/${deliveryId}/redeliver`);
+}
@@ -156,6 +156,15 @@ describe('T-SRFQ-D03 — structured payload fields', () => {
 
     expect(result.payload!.stageRequirementAttributes).toEqual({ yarnCount: '40/1', countSystem: 'NE' });
   });
+
+  it('carries the selected variant as variantId and lists it on the confirmation summary', () => {
+    const dialog = makeDialog({ variant: { id: 'variant-navy', label: 'Navy', sku: 'YRN-40-NVY', moq: 500 } });
+    const result = resolveBuyerRfqSubmitPayload(dialog);
+
+    expect(result.payload!.variantId).toBe('variant-navy');
+    expect(resolveRfqConfirmationSummary(dialog)[0]).toEqual({ label: 'Variant', value: 'Navy (YRN-40-NVY)' });
+    expect(resolveBuyerRfqSubmitPayload(makeDialog()).payload).not.toHaveProperty('variantId');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,224 @@
+/**
+ * Line-level quote comparison + split award tests — QuoteReviewPanel / QuoteComparisonMatrix
+ */
+import React from 'react';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { APIError } from '../../services/apiClient';
+
+vi.mock('../../services/tenantApiClient', () => ({
+  tenantGet: vi.fn(),
+  tenantPost: vi.fn(),
+  tenantPatch: vi.fn(),
+}));
+
+vi.mock('../../services/authService', () => ({
+  getCurrentUser: vi.fn().mockResolvedValue({ user: { id: 'checker-user' } }),
+}));
+
+import { tenantGet, tenantPost } from '../../services/tenantApiClient';
+import { QuoteReviewPanel } from '../../components/Tenant/NetworkCommerce/QuoteReviewPanel';
+
+const tenantGetMock = vi.mocked(tenantGet);
+const tenantPostMock = vi.mocked(tenantPost);
+
+const POOL_ID = 'pppppppp-pppp-pppp-pppp-pppppppppppp';
+const RFQ_ID = 'rrrrrrrr-rrrr-rrrr-rrrr-rrrrrrrrrrrr';
+const QUOTE_A = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+const QUOTE_B = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+const LINE_1 = '11111111-1111-1111-1111-111111111111';
+const LINE_2 = '22222222-2222-2222-2222-222222222222';
+
+const BASE = `/api/tenant/network-commerce/pools/${POOL_ID}/rfq/${RFQ_ID}`;
+
+function makeQuoteLine(rfqLineId: string, unitPrice: string, qty: string) {
+  return {
+    id: `ql-${rfqLineId}-${unitPrice}`,
+    rfq_line_id: rfqLineId,
+    unit_price: unitPrice,
+    quoted_qty: qty,
+    line_amount: String(parseFloat(unitPrice) * parseFloat(qty)),
+    lead_time_days: 14,
+    line_note: null,
+    created_at: '2026-06-15T09:00:00.000Z',
+  };
+}
+
+function makeOwnerQuote(id: string, ref: string, lines: ReturnType<typeof makeQuoteLine>[]) {
+  return {
+    id,
+    owner_org_id: 'owner-org',
+    supplier_org_id: `supplier-${ref}`,
+    rfq_id: RFQ_ID,
+    pool_id: POOL_ID,
+    invite_id: 'iiiiiiii-iiii-iiii-iiii-iiiiiiiiiiii',
+    quote_ref: ref,
+    status: 'SUBMITTED',
+    quote_amount: lines.reduce((sum, l) => sum + parseFloat(l.line_amount), 0).toFixed(2),
+    currency: 'USD',
+    validity_until: null,
+    supplier_note: null,
+    submitted_at: '2026-06-15T09:00:00.000Z',
+    submitted_by_user_id: null,
+    withdrawn_at: null,
+    accepted_at: null,
+    rejected_at: null,
+    reject_reason: null,
+    created_at: '2026-06-15T09:00:00.000Z',
+    updated_at: '2026-06-15T09:00:00.000Z',
+    lines,
+  };
+}
+
+function makeRfqLine(id: string, ref: string, qty: string) {
+  return {
+    id,
+    rfq_id: RFQ_ID,
+    source_line_ref: ref,
+    commodity_category: 'COTTON_YARN',
+    product_category: null,
+    product_spec_summary: `${ref} spec`,
+    qty,
+    qty_unit: 'KG',
+    quality_requirements: null,
+    certification_requirements: null,
+    packaging_requirements: null,
+    delivery_location: null,
+    delivery_window_start: null,
+    delivery_window_end: null,
+    tolerance_pct: null,
+    priority: null,
+  };
+}
+
+const QUOTES = [
+  makeOwnerQuote(QUOTE_A, 'QUO-A', [makeQuoteLine(LINE_1, '10', '100'), makeQuoteLine(LINE_2, '7', '50')]),
+  makeOwnerQuote(QUOTE_B, 'QUO-B', [makeQuoteLine(LINE_1, '9', '60')]),
+];
+const RFQ_LINES = [makeRfqLine(LINE_1, 'L-1', '100'), makeRfqLine(LINE_2, 'L-2', '50')];
+
+function setupLoadMocks(options: { approvals?: unknown[]; awards?: unknown[] } = {}) {
+  tenantGetMock.mockImplementation(async (endpoint: string) => {
+    if (endpoint.endsWith('/award-approvals')) return options.approvals ?? [];
+    if (endpoint.endsWith('/lines')) return RFQ_LINES;
+    if (endpoint.endsWith('/line-awards')) return options.awards ?? [];
+    return QUOTES;
+  });
+}
+
+beforeEach(() => {
+  tenantGetMock.mockReset();
+  tenantPostMock.mockReset();
+});
+
+afterEach(() => {
+  cleanup();
+});
+
+describe('QuoteReviewPanel: line comparison matrix', () => {
+  it('does not load RFQ lines when no quote carries priced lines', async () => {
+    tenantGetMock.mockImplementation(async (endpoint: string) => {
+      if (endpoint.endsWith('/award-approvals')) return [];
+      return [{ ...QUOTES[0], lines: [] }];
+    });
+    render(<QuoteReviewPanel poolId={POOL_ID} rfqId={RFQ_ID} />);
+    await screen.findByText('QUO-A');
+    expect(screen.queryByLabelText('Line-level quote comparison')).toBeNull();
+    expect(tenantGetMock).not.toHaveBeenCalledWith(`${BASE}/lines`);
+  });
+
+  it('renders RFQ lines as rows and highlights the lowest unit price', async () => {
+    setupLoadMocks();
+    render(<QuoteReviewPanel poolId={POOL_ID} rfqId={RFQ_ID} />);
+    await screen.findByLabelText('Line-level quote comparison');
+    expect(screen.getByText('L-1')).toBeTruthy();
+    expect(screen.getByText('L-2')).toBeTruthy();
+    // QUO-B is cheaper on L-1; QUO-A is the only quote on L-2
+    expect(screen.getAllByText('Lowest')).toHaveLength(2);
+    expect(screen.getByText('Not quoted')).toBeTruthy();
+  });
+
+  it('awards lines directly with the entered allocations', async () => {
+    setupLoadMocks();
+    tenantPostMock.mockResolvedValue({ awards: [], quotes: [] });
+    render(<QuoteReviewPanel poolId={POOL_ID} rfqId={RFQ_ID} />);
+    await screen.findByLabelText('Line-level quote comparison');
+
+    fireEvent.change(screen.getByLabelText('Allocate L-1 to QUO-A'), { target: { value: '40' } });
+    fireEvent.change(screen.getByLabelText('Allocate L-1 to QUO-B'), { target: { value: '60' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Award Lines' }));
+
+    await waitFor(() => {
+      expect(tenantPostMock).toHaveBeenCalledWith(`${BASE}/line-awards`, {
+        allocations: [
+          { rfq_line_id: LINE_1, quote_id: QUOTE_A, awarded_qty: '40' },
+          { rfq_line_id: LINE_1, quote_id: QUOTE_B, awarded_qty: '60' },
+        ],
+        request_id: null,
+      });
+    });
+  });
+
+  it('requests split award approval with the reason', async () => {
+    setupLoadMocks();
+    tenantPostMock.mockResolvedValue({});
+    render(<QuoteReviewPanel poolId={POOL_ID} rfqId={RFQ_ID} />);
+    await screen.findByLabelText('Line-level quote comparison');
+
+    fireEvent.change(screen.getByLabelText('Allocate L-2 to QUO-A'), { target: { value: '50' } });
+    fireEvent.change(screen.getByPlaceholderText('Optional reason for the split award request'), {
+      target: { value: 'Split for capacity' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Request Split Award Approval' }));
+
+    await waitFor(() => {
+      expect(tenantPostMock).toHaveBeenCalledWith(`${BASE}/line-awards/award-request`, {
+        allocations: [{ rfq_line_id: LINE_2, quote_id: QUOTE_A, awarded_qty: '50' }],
+        request_reason: 'Split for capacity',
+        request_id: null,
+      });
+    });
+  });
+
+  it('shows the backend message on INVALID_SPLIT_AWARD', async () => {
+    setupLoadMocks();
+    tenantPostMock.mockRejectedValue(
+      new APIError(422, 'Line L-1 is over-allocated', 'INVALID_SPLIT_AWARD'),
+    );
+    render(<QuoteReviewPanel poolId={POOL_ID} rfqId={RFQ_ID} />);
+    await screen.findByLabelText('Line-level quote comparison');
+
+    fireEvent.change(screen.getByLabelText('Allocate L-1 to QUO-A'), { target: { value: '200' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Award Lines' }));
+
+    expect(await screen.findByText('Line L-1 is over-allocated')).toBeTruthy();
+  });
+
+  it('lists recorded line awards and hides allocation inputs', async () => {
+    setupLoadMocks({
+      awards: [
+        {
+          id: 'award-1',
+          rfq_id: RFQ_ID,
+          pool_id: POOL_ID,
+          rfq_line_id: LINE_1,
+          quote_id: QUOTE_B,
+          quote_line_id: 'ql-b',
+          supplier_org_id: 'supplier-QUO-B',
+          awarded_qty: '60',
+          unit_price: '9',
+          award_amount: '540',
+          currency: 'USD',
+          approval_id: null,
+          awarded_by_user_id: 'owner-user',
+          awarded_at: '2026-06-16T09:00:00.000Z',
+          created_at: '2026-06-16T09:00:00.000Z',
+        },
+      ],
+    });
+    render(<QuoteReviewPanel poolId={POOL_ID} rfqId={RFQ_ID} />);
+    await screen.findByText('Line Awards');
+    expect(screen.getByText(/L-1 → QUO-B: 60 @ 9 = 540 USD/)).toBeTruthy();
+    expect(screen.queryByRole('button', { name: 'Award Lines' })).toBeNull();
+  });
+});
@@ -375,3 +375,72 @@ describe('FE-8 SupplierInviteInbox — quote button for accepted invite', () =>
     expect(tenantGetMock).toHaveBeenCalledTimes(2);
   });
 });
+
+describe('SupplierQuoteSurface — per-line pricing', () => {
+  const RFQ_LINE_ID = 'llllllll-llll-llll-llll-llllllllllll';
+
+  function setupLineMocks() {
+    tenantGetMock.mockImplementation(async (endpoint: string) => {
+      if (endpoint === `/api/tenant/network-commerce/supplier-rfq-invites/${INVITE_ID}/rfq-lines`) {
+        return [{
+          id: RFQ_LINE_ID,
+          rfq_id: 'rrrrrrrr-rrrr-rrrr-rrrr-rrrrrrrrrrrr',
+          source_line_ref: 'L-1',
+          commodity_category: 'COTTON_YARN',
+          product_category: null,
+          product_spec_summary: 'Greige 30s',
+          qty: '100',
+          qty_unit: 'KG',
+          quality_requirements: null,
+          certification_requirements: null,
+          packaging_requirements: null,
+          delivery_location: null,
+          delivery_window_start: null,
+          delivery_window_end: null,
+          tolerance_pct: null,
+          priority: null,
+        }];
+      }
+      throw new APIError(404, 'Not found', 'SUPPLIER_QUOTE_NOT_FOUND');
+    });
+  }
+
+  it('submits priced lines without an explicit quote amount', async () => {
+    setupLineMocks();
+    tenantPostMock.mockResolvedValue(makeQuote({ quote_amount: '950.00', lines: [] }));
+
+    render(<SupplierQuoteSurface inviteId={INVITE_ID} onBack={vi.fn()} />);
+    await screen.findByText('L-1');
+
+    fireEvent.change(screen.getByLabelText('Unit price for L-1'), { target: { value: '9.50' } });
+    fireEvent.change(screen.getByLabelText('Quantity for L-1'), { target: { value: '100' } });
+    fireEvent.change(screen.getByPlaceholderText(/e\.g\. USD/), { target: { value: 'USD' } });
+    fireEvent.click(screen.getByRole('button', { name: /Submit Quote/i }));
+
+    await waitFor(() => {
+      expect(tenantPostMock).toHaveBeenCalledWith(
+        quoteEndpoint(INVITE_ID),
+        expect.objectContaining({
+          quote_amount: null,
+          lines: [{ rfq_line_id: RFQ_LINE_ID, unit_price: '9.50', quoted_qty: '100' }],
+          currency: 'USD',
+        }),
+      );
+    });
+  });
+
+  it('blocks submission when a line quantity exceeds the RFQ line', async () => {
+    setupLineMocks();
+
+    render(<SupplierQuoteSurface inviteId={INVITE_ID} onBack={vi.fn()} />);
+    await screen.findByText('L-1');
+
+    fireEvent.change(screen.getByLabelText('Unit price for L-1'), { target: { value: '9.50' } });
+    fireEvent.change(screen.getByLabelText('Quantity for L-1'), { target: { value: '150' } });
+    fireEvent.change(screen.getByPlaceholderText(/e\.g\. USD/), { target: { value: 'USD' } });
+    fireEvent.click(screen.getByRole('button', { name: /Submit Quote/i }));
+
+    expect(await screen.findByText(/quantity cannot exceed 100 KG/i)).toBeInTheDocument();
+    expect(tenantPostMock).not.toHaveBeenCalled();
+  });
+});
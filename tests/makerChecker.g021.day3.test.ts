@@ -405,8 +405,9 @@ describe('G-021 Day 3 — verifyAndReplay idempotency, queues, and caller guards
       expect(db.pendingApproval.findMany).toHaveBeenCalledOnce();
       const args = (db.pendingApproval.findMany as ReturnType<typeof vi.fn>).mock.calls[0][0];
       expect(args.where.orgId).toBe(ORG_ID);
-      expect(args.where.status.in).toContain('REQUESTED');
-      expect(args.where.status.in).toContain('ESCALATED');
+      expect(args.where.OR).toEqual([
+        { status: { in: ['REQUESTED', 'ESCALATED'] }, expiryEvent: { is: null } },
+      ]);
     });
   });
 
@@ -424,7 +425,33 @@ describe('G-021 Day 3 — verifyAndReplay idempotency, queues, and caller guards
       const args = (db.pendingApproval.findMany as ReturnType<typeof vi.fn>).mock.calls[0][0];
       expect(args.where.orgId).toBeUndefined();
       // Status filter still applies
-      expect(args.where.status.in).toContain('REQUESTED');
+      expect(args.where.OR[0].status.in).toContain('REQUESTED');
+    });
+  });
+
+  // ─── Q-02b: getControlPlaneQueue reports swept requests as EXPIRED ─────────
+  describe('Q-02b: getControlPlaneQueue reports swept requests as EXPIRED', () => {
+    it('matches swept live rows for status EXPIRED and maps them to EXPIRED', async () => {
+      const db = makeMockDb({
+        pendingApproval: {
+          findMany: vi.fn(() => Promise.resolve([
+            { ...makeApprovalRow({ status: 'REQUESTED' }), expiryEvent: { id: 'eeeeeeee-0000-0000-0000-000000000001' } },
+          ])),
+        } as never,
+      });
+      const sm = makeMockStateMachine();
+      const svc = new MakerCheckerService(db as never, sm as never);
+
+      const rows = await svc.getControlPlaneQueue({ scope: 'CONTROL_PLANE', status: ['EXPIRED'] });
+
+      const args = (db.pendingApproval.findMany as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(args.where.OR).toEqual([
+        { status: { in: ['EXPIRED'] } },
+        { status: { in: ['REQUESTED', 'ESCALATED'] }, expiryEvent: { isNot: null } },
+      ]);
+      expect(rows).toHaveLength(1);
+      expect(rows[0].status).toBe('EXPIRED');
+      expect(rows[0]).not.toHaveProperty('expiryEvent');
     });
   });
 
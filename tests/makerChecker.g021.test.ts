@@ -4,9 +4,10 @@
  * Doctrine: v1.4 + G-021 v1.1 (APPROVED)
  * D-021-A · D-021-B · D-021-C invariants
  *
- * 14 scenarios:
+ * 15 scenarios:
  *   P-01  createApprovalRequest → CREATED
  *   D-B-01 duplicate active request → ACTIVE_REQUEST_EXISTS (P2002)
+ *   D-B-03 P2002 on a transaction-bound client → ACTIVE_REQUEST_EXISTS (no query after the INSERT)
  *   P-02  signApproval APPROVE → APPROVED
  *   P-03  signApproval REJECT → REJECTED
  *   F-01  signApproval expired → APPROVAL_EXPIRED
@@ -106,6 +107,7 @@ function makeSignatureRow(overrides?: Record<string, unknown>) {
 type MockDb = {
   pendingApproval: {
     create: ReturnType<typeof vi.fn>;
+    findFirst: ReturnType<typeof vi.fn>;
     findUnique: ReturnType<typeof vi.fn>;
     update: ReturnType<typeof vi.fn>;
     findMany: ReturnType<typeof vi.fn>;
@@ -126,6 +128,8 @@ function makeMockDb(overrides?: Partial<MockDb>): MockDb {
   const db: MockDb = {
     pendingApproval: {
       create:     vi.fn(() => Promise.resolve(makeApprovalRow())),
+      // GOV-EXPIRY-SWEEP-001: no expired slot holder → attempt_count 1
+      findFirst:  vi.fn(() => Promise.resolve(null)),
       findUnique: vi.fn(() => Promise.resolve(makeApprovalRow())),
       update:     vi.fn(() => Promise.resolve(makeApprovalRow())),
       findMany:   vi.fn(() => Promise.resolve([])),
@@ -215,6 +219,49 @@ describe('G-021 MakerCheckerService — constitutional invariants', () => {
     });
   });
 
+  // ─── D-B-03: P2002 inside the caller's transaction ─────────────────────────
+  describe('D-B-03: D-021-B duplicate on a transaction-bound client', () => {
+    it('returns ACTIVE_REQUEST_EXISTS without querying the aborted transaction', async () => {
+      const p2002 = Object.assign(
+        new Error('Unique constraint failed on pending_approvals_active_unique'),
+        { code: 'P2002' },
+      );
+      // Postgres semantics: after the failed INSERT every statement in the
+      // transaction fails until ROLLBACK.
+      let aborted = false;
+      const whileOpen = <T>(value: T) => vi.fn(() =>
+        aborted
+          ? Promise.reject(new Error('current transaction is aborted, commands ignored until end of transaction block'))
+          : Promise.resolve(value),
+      );
+      const tx = makeMockDb({
+        pendingApproval: {
+          create:     vi.fn(() => {
+            aborted = true;
+            return Promise.reject(p2002);
+          }),
+          findFirst:  whileOpen(null),
+          findUnique: whileOpen(makeApprovalRow()),
+          update:     whileOpen(makeApprovalRow()),
+          findMany:   whileOpen([]),
+        },
+      });
+      const db = makeMockDb();
+      db.$transaction = vi.fn((fn: (client: MockDb) => Promise<unknown>) => fn(tx));
+      const sm = makeMockStateMachine();
+
+      const result = await db.$transaction((client: MockDb) =>
+        new MakerCheckerService(client as unknown as PrismaAlias, sm as never).createApprovalRequest(BASE_INPUT),
+      );
+
+      expect(result.status).toBe('ACTIVE_REQUEST_EXISTS');
+      expect(tx.pendingApproval.findFirst).toHaveBeenCalledOnce();
+      expect(tx.pendingApproval.findFirst.mock.invocationCallOrder[0])
+        .toBeLessThan(tx.pendingApproval.create.mock.invocationCallOrder[0]);
+      expect(tx.pendingApproval.update).not.toHaveBeenCalled();
+    });
+  });
+
   // ─── P-02: signApproval APPROVE → APPROVED ──────────────────────────────────
   describe('P-02: signApproval APPROVE succeeds', () => {
     it('returns APPROVED and calls approvalSignature.create + pendingApproval.update', async () => {
@@ -605,11 +652,33 @@ describe('G-021 MakerCheckerService — constitutional invariants', () => {
       expect(queue).toHaveLength(2);
       expect(db.pendingApproval.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where:   { orgId: ORG_ID, status: { in: ['REQUESTED', 'ESCALATED'] } },
+          where:   { orgId: ORG_ID, status: { in: ['REQUESTED', 'ESCALATED'] }, expiryEvent: { is: null } },
           orderBy: { expiresAt: 'asc' },
         }),
       );
     });
+
+    it('D-B-02b: approvals with an expiry event drop out of the pending queue', async () => {
+      const live    = makeApprovalRow({ status: 'REQUESTED' });
+      const expired = { ...makeApprovalRow({ id: 'cccccccc-0000-0000-0000-000000000098', status: 'REQUESTED' }),
+        expiryEvent: { id: 'eeeeeeee-0000-0000-0000-000000000001' } };
+      // Applies the where clause the service passes, so an unfiltered query would return both rows.
+      const findMany = vi.fn((args: { where: { expiryEvent?: { is: null } } }) =>
+        Promise.resolve(
+          args.where.expiryEvent?.is === null ? [live] : [live, expired],
+        ),
+      );
+      const db = makeMockDb({
+        pendingApproval: { findMany, findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
+      });
+      const sm = makeMockStateMachine();
+      const svc = new MakerCheckerService(db as unknown as PrismaAlias, sm as never);
+
+      const queue = await svc.getPendingQueue(ORG_ID);
+
+      expect(queue).toHaveLength(1);
+      expect(queue[0].id).toBe(APPROVAL_ID);
+    });
   });
 
 });
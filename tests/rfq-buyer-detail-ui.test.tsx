@@ -8,7 +8,8 @@ vi.mock('../services/tenantApiClient', () => ({
 }));
 
 import { BuyerRfqDetailSurface } from '../components/Tenant/BuyerRfqDetailSurface';
-import { getBuyerRfqDetail, type BuyerRfqDetail } from '../services/catalogService';
+import { buildRfqQuoteTermsRequest, createEmptyRfqQuoteTermsDraft } from '../components/Tenant/RfqQuoteNegotiationSection';
+import { getBuyerRfqDetail, type BuyerRfqDetail, type RfqQuote } from '../services/catalogService';
 import { tenantGet } from '../services/tenantApiClient';
 
 const tenantGetMock = vi.mocked(tenantGet);
@@ -39,6 +40,32 @@ function makeBuyerRfqDetail(overrides: Partial<BuyerRfqDetail> = {}): BuyerRfqDe
   };
 }
 
+function makeRfqQuote(overrides: Partial<RfqQuote> = {}): RfqQuote {
+  return {
+    id: '66666666-6666-6666-6666-666666666666',
+    rfq_id: '11111111-1111-1111-1111-111111111111',
+    revision: 1,
+    author_side: 'SUPPLIER',
+    status: 'ACTIVE',
+    currency: 'EUR',
+    unit_price: 4.8,
+    quantity: 240,
+    quantity_breaks: [{ min_quantity: 200, unit_price: 4.5 }],
+    effective_unit_price: 4.5,
+    total_amount: 1080,
+    lead_time_days: 21,
+    incoterm: 'FOB',
+    valid_until: '2026-04-30',
+    expired: false,
+    payment_terms: 'Net 30',
+    note: null,
+    created_by_user_id: '77777777-7777-7777-7777-777777777777',
+    created_at: '2026-03-03T15:00:00.000Z',
+    accepted_at: null,
+    ...overrides,
+  };
+}
+
 function renderHtml(rfq: BuyerRfqDetail | null, options?: { loading?: boolean; error?: string | null }) {
   return renderToStaticMarkup(
     <BuyerRfqDetailSurface
@@ -50,6 +77,8 @@ function renderHtml(rfq: BuyerRfqDetail | null, options?: { loading?: boolean; e
       onOpenTradeContinuity={() => undefined}
       tradeContinuityLoading={false}
       tradeContinuityError={null}
+      onAcceptQuote={() => undefined}
+      onSubmitCounterOffer={() => undefined}
     />
   );
 }
@@ -107,4 +136,84 @@ describe('TECS-RFQ-BUYER-DETAIL-UI-001 — buyer RFQ detail surface', () => {
     expect(html).not.toContain('Negotiation');
     expect(html).not.toContain('Quote Total');
   });
-});
\ No newline at end of file
+});
+
+describe('TECS-RFQ-QUOTE-001 — buyer quote negotiation', () => {
+  it('renders the quote thread, best terms and accept action for the current supplier revision', () => {
+    const superseded = makeRfqQuote({ id: 'q-1', status: 'SUPERSEDED', unit_price: 5.1, effective_unit_price: 5.1, total_amount: 1224 });
+    const current = makeRfqQuote({ id: 'q-2', revision: 2 });
+    const html = renderHtml(makeBuyerRfqDetail({
+      quote_thread: [superseded, current],
+      best_terms: current,
+      accepted_quote_id: null,
+    }));
+
+    expect(html).toContain('Quote Negotiation');
+    expect(html).toContain('Current Best Terms · Revision 2');
+    expect(html).toContain('Revision 1 · Supplier quote');
+    expect(html).toContain('Superseded');
+    expect(html).toContain('Accept Revision 2');
+    expect(html).toContain('Counter-offer');
+    expect(html).toContain('Accept a supplier quote revision to continue');
+  });
+
+  it('hides accept and counter-offer once a quote is accepted', () => {
+    const accepted = makeRfqQuote({ status: 'ACCEPTED', accepted_at: '2026-03-04T10:00:00.000Z' });
+    const html = renderHtml(makeBuyerRfqDetail({
+      quote_thread: [accepted],
+      best_terms: accepted,
+      accepted_quote_id: accepted.id,
+    }));
+
+    expect(html).toContain('Accepted Terms · Revision 1');
+    expect(html).toContain('The trade amount and currency come from the accepted supplier quote.');
+    expect(html).not.toContain('Accept Revision');
+    expect(html).not.toContain('Send Counter-offer');
+  });
+
+  it('does not offer acceptance of a buyer counter-offer', () => {
+    const counter = makeRfqQuote({ id: 'q-2', revision: 2, author_side: 'BUYER' });
+    const html = renderHtml(makeBuyerRfqDetail({
+      quote_thread: [makeRfqQuote({ status: 'SUPERSEDED' }), counter],
+      best_terms: null,
+      accepted_quote_id: null,
+    }));
+
+    expect(html).toContain('Revision 2 · Buyer counter-offer');
+    expect(html).not.toContain('Accept Revision');
+  });
+
+  it('builds the quote terms request from the form draft', () => {
+    const result = buildRfqQuoteTermsRequest({
+      ...createEmptyRfqQuoteTermsDraft('eur'),
+      unitPrice: '4.80',
+      quantityBreaks: '500 @ 4.25\n1000 @ 3.90',
+      leadTimeDays: '21',
+      incoterm: 'FOB',
+      validUntil: '2026-04-30',
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      terms: {
+        unit_price: 4.8,
+        currency: 'EUR',
+        quantity_breaks: [
+          { min_quantity: 500, unit_price: 4.25 },
+          { min_quantity: 1000, unit_price: 3.9 },
+        ],
+        lead_time_days: 21,
+        incoterm: 'FOB',
+        valid_until: '2026-04-30',
+        payment_terms: null,
+        note: null,
+      },
+    });
+    expect(buildRfqQuoteTermsRequest({ ...createEmptyRfqQuoteTermsDraft(), unitPrice: '0' }).ok).toBe(false);
+    expect(buildRfqQuoteTermsRequest({
+      ...createEmptyRfqQuoteTermsDraft(),
+      unitPrice: '4',
+      quantityBreaks: '1000 @ 3.9\n500 @ 4.2',
+    })).toEqual({ ok: false, error: 'Quantity breaks must be listed in ascending quantity order.' });
+  });
+});
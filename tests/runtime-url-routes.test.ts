@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createControlPlaneSessionRuntimeDescriptor,
+  createTenantSessionRuntimeDescriptor,
+  resolveRuntimeManifestEntryFromDescriptor,
+  type RuntimeManifestEntry,
+} from '../runtime/sessionRuntimeDescriptor';
+import {
+  buildRuntimeUrlPath,
+  getRuntimeUrlRouteDefinitions,
+  isRuntimeAppPath,
+  parseRuntimeUrlPath,
+  resolveRuntimeDirectNavigationRouteKey,
+  resolveRuntimeUrlSurfaceFromPath,
+  type RuntimeUrlSurface,
+} from '../runtime/runtimeUrlRoutes';
+
+const makeTenantInput = (
+  overrides: Partial<Parameters<typeof createTenantSessionRuntimeDescriptor>[0]> = {},
+) => ({
+  tenantId: 'tenant-1',
+  tenantSlug: 'tenant-one',
+  tenantName: 'Tenant One',
+  tenantCategory: 'B2B',
+  whiteLabelCapability: false,
+  commercialPlan: 'PROFESSIONAL',
+  authenticatedRole: 'OWNER',
+  ...overrides,
+});
+
+const listRouteKeys = (entry: RuntimeManifestEntry | null) =>
+  (entry?.routeGroups ?? []).flatMap(group => group.routes.map(route => route.key));
+
+const listUrlRouteKeys = (surface: RuntimeUrlSurface) =>
+  getRuntimeUrlRouteDefinitions(surface).map(definition => definition.routeKey);
+
+describe('runtime url routes', () => {
+  it('gives every manifest local route a URL on its surface', () => {
+    const b2b = createTenantSessionRuntimeDescriptor(makeTenantInput());
+    const aggregator = createTenantSessionRuntimeDescriptor(makeTenantInput({ tenantCategory: 'AGGREGATOR' }));
+    const b2c = createTenantSessionRuntimeDescriptor(makeTenantInput({ tenantCategory: 'B2C' }));
+    const wl = createTenantSessionRuntimeDescriptor(
+      makeTenantInput({ tenantCategory: 'B2C', whiteLabelCapability: true, authenticatedRole: 'TENANT_ADMIN' }),
+    );
+    const controlPlane = createControlPlaneSessionRuntimeDescriptor({
+      actorId: 'admin-1',
+      actorEmail: 'admin@example.com',
+      authenticatedRole: 'SUPER_ADMIN',
+    });
+
+    for (const descriptor of [b2b, aggregator, b2c, wl]) {
+      const entry = resolveRuntimeManifestEntryFromDescriptor(descriptor ?? null, 'EXPERIENCE');
+      expect(listRouteKeys(entry).length).toBeGreaterThan(0);
+      expect(listUrlRouteKeys('workspace')).toEqual(expect.arrayContaining(listRouteKeys(entry)));
+    }
+
+    const wlAdminEntry = resolveRuntimeManifestEntryFromDescriptor(wl ?? null, 'WL_ADMIN');
+    expect(listUrlRouteKeys('wl_admin')).toEqual(expect.arrayContaining(listRouteKeys(wlAdminEntry)));
+
+    const controlPlaneEntry = resolveRuntimeManifestEntryFromDescriptor(controlPlane ?? null, 'CONTROL_PLANE');
+    expect(listUrlRouteKeys('control_plane')).toEqual(expect.arrayContaining(listRouteKeys(controlPlaneEntry)));
+  });
+
+  it('round-trips route keys and record ids through paths', () => {
+    for (const surface of ['workspace', 'wl_admin', 'control_plane'] as const) {
+      for (const { routeKey, path } of getRuntimeUrlRouteDefinitions(surface)) {
+        const id = path.includes(':id') ? 'rec-1' : null;
+        const built = buildRuntimeUrlPath(surface, routeKey, id);
+
+        expect(built).not.toBeNull();
+        expect(parseRuntimeUrlPath(built ?? '')).toEqual({ surface, routeKey, id });
+      }
+    }
+
+    expect(buildRuntimeUrlPath('workspace', 'buyer_rfqs')).toBe('/w/rfqs');
+    expect(buildRuntimeUrlPath('workspace', 'buyer_rfqs', 'rfq 1')).toBe('/w/rfqs/rfq%201');
+    expect(parseRuntimeUrlPath('/w/rfqs/rfq%201')).toEqual({ surface: 'workspace', routeKey: 'buyer_rfqs', id: 'rfq 1' });
+    expect(buildRuntimeUrlPath('control_plane', 'tenant_detail')).toBeNull();
+  });
+
+  it('matches literal segments before record ids and rejects unknown paths', () => {
+    expect(parseRuntimeUrlPath('/w/nc-pools/invites')).toEqual({
+      surface: 'workspace',
+      routeKey: 'nc_pool_invite_inbox',
+      id: null,
+    });
+    expect(parseRuntimeUrlPath('/w/nc-pools/pool-9/rfq')).toEqual({
+      surface: 'workspace',
+      routeKey: 'nc_pool_rfq',
+      id: 'pool-9',
+    });
+    expect(parseRuntimeUrlPath('/cp/tenants/pending')?.routeKey).not.toBe('tenant_detail');
+    expect(parseRuntimeUrlPath('/cp/tenants/tenant-7')).toEqual({
+      surface: 'control_plane',
+      routeKey: 'tenant_detail',
+      id: 'tenant-7',
+    });
+    expect(parseRuntimeUrlPath('/w/unknown')).toBeNull();
+    expect(parseRuntimeUrlPath('/pricing')).toBeNull();
+    expect(isRuntimeAppPath('/wl-admin/staff')).toBe(true);
+    expect(isRuntimeAppPath('/wlx')).toBe(false);
+    expect(resolveRuntimeUrlSurfaceFromPath('/cp')).toBe('control_plane');
+  });
+
+  it('falls back to the manifest default when a direct link is not allowed for the session', () => {
+    const b2c = createTenantSessionRuntimeDescriptor(makeTenantInput({ tenantCategory: 'B2C' }));
+    const b2cEntry = resolveRuntimeManifestEntryFromDescriptor(b2c ?? null, 'EXPERIENCE');
+    const b2b = createTenantSessionRuntimeDescriptor(makeTenantInput());
+    const b2bEntry = resolveRuntimeManifestEntryFromDescriptor(b2b ?? null, 'EXPERIENCE');
+
+    expect(resolveRuntimeDirectNavigationRouteKey(b2c, b2cEntry, 'buyer_rfqs')).toBe(b2cEntry?.defaultLocalRouteKey);
+    expect(resolveRuntimeDirectNavigationRouteKey(b2b, b2bEntry, 'buyer_rfqs')).toBe('buyer_rfqs');
+    expect(resolveRuntimeDirectNavigationRouteKey(b2b, b2bEntry, 'staff')).toBe(b2bEntry?.defaultLocalRouteKey);
+    expect(
+      resolveRuntimeDirectNavigationRouteKey(b2b, b2bEntry, 'buyer_rfqs', { verificationBlocked: true }),
+    ).toBe(b2bEntry?.defaultLocalRouteKey);
+    expect(resolveRuntimeDirectNavigationRouteKey(null, b2bEntry, 'buyer_rfqs')).toBeNull();
+  });
+});
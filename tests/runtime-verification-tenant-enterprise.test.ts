@@ -35,6 +35,7 @@ import {
   type BuyerRfqListItem,
   type BuyerRfqListResponse,
   type CatalogItem,
+  type RfqQuote,
   type SupplierRfqDetail,
   type SupplierRfqDetailResponse,
   type SupplierRfqListItem,
@@ -181,6 +182,7 @@ const {
 const {
   createInitialBuyerRfqTradeBridgeState,
   resolveBuyerRfqTradeFromRfqCreateAction,
+  applyRfqQuoteMutationResult,
 } = __B2B_TRADE_FROM_RFQ_TESTING__;
 
 function makeTradeResponse(): TenantTradesListResponse {
@@ -363,6 +365,32 @@ function makeBuyerRfqDetail(overrides: Partial<BuyerRfqDetail> = {}): BuyerRfqDe
   };
 }
 
+function makeRfqQuote(overrides: Partial<RfqQuote> = {}): RfqQuote {
+  return {
+    id: 'quote-1',
+    rfq_id: 'rfq-1',
+    revision: 1,
+    author_side: 'SUPPLIER',
+    status: 'ACTIVE',
+    currency: 'USD',
+    unit_price: 5,
+    quantity: 24,
+    quantity_breaks: [],
+    effective_unit_price: 5,
+    total_amount: 120,
+    lead_time_days: 14,
+    incoterm: 'FOB',
+    valid_until: null,
+    expired: false,
+    payment_terms: 'Net 30',
+    note: null,
+    created_by_user_id: 'supplier-user-1',
+    created_at: '2026-03-22T09:00:00.000Z',
+    accepted_at: null,
+    ...overrides,
+  };
+}
+
 function makeBuyerRfqListItem(overrides: Partial<BuyerRfqListItem> = {}): BuyerRfqListItem {
   return {
     id: 'buyer-rfq-1',
@@ -1175,8 +1203,8 @@ describe('runtime verification - tenant enterprise service contracts', () => {
       payload: null,
     });
 
-    // RESPONDED status → also noop: supplier-quoted commercial amount is required
-    // to create a trade; buyer RFQ detail no longer carries item_unit_price.
+    // RESPONDED status without an accepted quote → also noop: supplier-quoted commercial
+    // amount is required to create a trade; buyer RFQ detail no longer carries item_unit_price.
     const noopForRespondedAction = resolveBuyerRfqTradeFromRfqCreateAction(makeBuyerRfqDetail());
     expect(noopForRespondedAction).toEqual({
       kind: 'noop',
@@ -1198,8 +1226,8 @@ describe('runtime verification - tenant enterprise service contracts', () => {
   });
 
   it('trade-from-RFQ create path is disabled from buyer RFQ detail — no error path reachable', () => {
-    // Trade creation from buyer RFQ detail is disabled (P1 leakage fix).
-    // resolveBuyerRfqTradeFromRfqCreateAction always returns kind: 'noop'.
+    // Trade creation from buyer RFQ detail is disabled until a quote is accepted (P1 leakage fix).
+    // Without accepted_quote_id, resolveBuyerRfqTradeFromRfqCreateAction returns kind: 'noop'.
     // The error handling path (continueBuyerRfqTradeFromRfqCreatePath) is unreachable
     // from this surface — no API call is made, no error state is possible from this seam.
     const createAction = resolveBuyerRfqTradeFromRfqCreateAction(makeBuyerRfqDetail());
@@ -1209,6 +1237,66 @@ describe('runtime verification - tenant enterprise service contracts', () => {
     expect(tenantPostMock).not.toHaveBeenCalled();
   });
 
+  it('creates trade-from-RFQ payload only from the accepted supplier quote revision', async () => {
+    const acceptedQuote = makeRfqQuote({
+      id: 'quote-3',
+      revision: 3,
+      status: 'ACCEPTED',
+      currency: 'EUR',
+      total_amount: 2125,
+      accepted_at: '2026-03-23T10:00:00.000Z',
+    });
+    const rfq = makeBuyerRfqDetail({
+      id: 'abcdef12-0000-0000-0000-000000000000',
+      quote_thread: [makeRfqQuote({ status: 'SUPERSEDED' }), acceptedQuote],
+      best_terms: acceptedQuote,
+      accepted_quote_id: 'quote-3',
+    });
+
+    const createAction = resolveBuyerRfqTradeFromRfqCreateAction(rfq);
+    expect(createAction).toEqual({
+      kind: 'create',
+      tradeBridge: {
+        loading: true,
+        error: null,
+        initialTradeId: null,
+      },
+      payload: {
+        rfqId: 'abcdef12-0000-0000-0000-000000000000',
+        tradeReference: 'RFQ-ABCDEF12-Q3',
+        currency: 'EUR',
+        grossAmount: 2125,
+        reason: 'Trade created from accepted RFQ quote revision 3',
+      },
+    });
+
+    // An active-but-unaccepted supplier quote is not enough.
+    const pendingAction = resolveBuyerRfqTradeFromRfqCreateAction(
+      makeBuyerRfqDetail({ quote_thread: [makeRfqQuote()], best_terms: makeRfqQuote(), accepted_quote_id: null }),
+    );
+    expect(pendingAction.kind).toBe('noop');
+  });
+
+  it('merges quote mutation results into the open RFQ detail', () => {
+    const acceptedQuote = makeRfqQuote({ status: 'ACCEPTED' });
+    const merged = applyRfqQuoteMutationResult(makeBuyerRfqDetail(), {
+      quote: acceptedQuote,
+      quote_thread: [acceptedQuote],
+      best_terms: acceptedQuote,
+      accepted_quote_id: acceptedQuote.id,
+    });
+
+    expect(merged?.accepted_quote_id).toBe(acceptedQuote.id);
+    expect(merged?.quote_thread).toEqual([acceptedQuote]);
+    expect(merged?.item_name).toBe('Combed Cotton 30s');
+    expect(applyRfqQuoteMutationResult(null, {
+      quote: acceptedQuote,
+      quote_thread: [acceptedQuote],
+      best_terms: acceptedQuote,
+      accepted_quote_id: acceptedQuote.id,
+    })).toBeNull();
+  });
+
   it('keeps supplier inbox continuity inside the App-owned open/loading seam', () => {
     const currentRfqs = [makeSupplierRfqListItem()];
     const openAction = resolveSupplierRfqInboxOpenAction({
@@ -147,6 +147,42 @@ describe('runtime verification - white-label storefront surfaces', () => {
     expect(html).toContain('Inactive');
   });
 
+  it('renders the preselected active variant with its own SKU, price and inherited MOQ', () => {
+    const variant = {
+      id: 'variant-navy',
+      catalogItemId: 'item-1',
+      sku: 'COT-TWL-001-NVY',
+      label: 'Navy',
+      color: 'Navy',
+      widthCm: 150,
+      finish: null,
+      price: 26.75,
+      moq: null,
+      imageUrl: null,
+      attributes: {},
+      active: true,
+      sortOrder: 0,
+      createdAt: '2026-07-01T00:00:00.000Z',
+      updatedAt: '2026-07-01T00:00:00.000Z',
+    };
+    const html = renderDetail(
+      makeCatalogItem({
+        variants: [
+          { ...variant, id: 'variant-ecru', sku: 'COT-TWL-001-ECR', label: 'Ecru', active: false },
+          variant,
+        ],
+      }),
+      async () => undefined,
+    );
+
+    expect(html).toContain('Variant');
+    expect(html).toContain('aria-pressed="true"');
+    expect(html).toContain('COT-TWL-001-NVY');
+    expect(html).toContain('26.75');
+    expect(html).toContain('12 units');
+    expect(html).not.toContain('Ecru');
+  });
+
   it('renders the controlled search surface with the current query and clear affordance', () => {
     const html = renderSearchBar('linen');
 
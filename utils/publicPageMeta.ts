@@ -30,9 +30,11 @@
  *   - Forbidden schema.org types: Product, Offer, AggregateRating, Review, Organization,
  *     FAQPage, ContactPage (governance: D2C-COLLECTION-SEO-GOVERNANCE-001 §9)
  *
+ * Served by the API (PUBLIC-SEO-SITEMAP-SERVER-001, server/src/routes/publicSeo.ts):
+ *   - XML sitemap index and per-type sitemaps, per host
+ *   - robots.txt, per host
+ *
  * Deferred (out of current scope):
- *   - XML sitemap generation
- *   - robots.txt management
  *   - SSR/SSG/prerendering
  *   - Per-collection hero image in og:image (deferred until image management approved)
  *